@@ -1,6 +1,12 @@
 // Manual mock for next/server to fix next-auth import issues
 export class NextRequest {
   constructor(public url: string, public init?: RequestInit) {}
+  get headers() {
+    return new Headers(this.init?.headers || {})
+  }
+  get signal() {
+    return this.init?.signal || new AbortController().signal
+  }
   json() {
     // Parse the body if it exists
     if (this.init?.body) {
@@ -0,0 +1,314 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { testPrisma, cleanupTestData } from './test-prisma'
+import { evaluateDownAlerts, notifyRecovery, ruleMatchesDevice, validateAlertRuleInput } from '@/lib/alerts'
+import { serializeChannelConfig, toPublicAlertChannel, validateAlertChannelInput } from '@/lib/alert-channels'
+import { decryptSecret, MASKED_SECRET } from '@/lib/credential-encryption'
+import { POST as createChannel } from '@/app/api/alerts/channels/route'
+import { POST as createRule } from '@/app/api/alerts/rules/route'
+import { NextRequest } from 'next/server'
+
+// Mock the main prisma client to use the test client
+vi.mock('@/lib/prisma', () => ({
+  prisma: testPrisma
+}))
+
+// Mock auth module
+let authMock: any = { user: { id: 'test-user', role: 'ADMIN' } }
+
+vi.mock('@/auth', () => ({
+  auth: vi.fn(() => Promise.resolve(authMock))
+}))
+
+vi.spyOn(console, 'log').mockImplementation(() => {})
+vi.spyOn(console, 'error').mockImplementation(() => {})
+
+process.env.CREDENTIALS_ENCRYPTION_KEY = 'test-encryption-key'
+
+const now = new Date('2025-01-01T12:00:00Z')
+const minutesAgo = (minutes: number) => new Date(now.getTime() - minutes * 60000)
+
+const logChannel = { id: 'channel-1', name: 'Worker Log', type: 'LOG', config: '{}', enabled: true }
+const webhookChannel = {
+  id: 'channel-2',
+  name: 'Ops Webhook',
+  type: 'WEBHOOK',
+  config: JSON.stringify({ url: 'https://hooks.example.com/netwatch' }),
+  enabled: true
+}
+
+const baseRule = {
+  id: 'rule-1',
+  name: 'Everything',
+  scope: 'GLOBAL',
+  deviceId: null,
+  roomId: null,
+  deviceType: null,
+  minDownSeconds: 120,
+  renotifyMinutes: 0,
+  notifyOnRecovery: true,
+  enabled: true,
+  channelId: 'channel-1',
+  channel: logChannel
+}
+
+const downDevice = {
+  id: 'device-1',
+  name: 'Printer 1',
+  ip: '192.168.1.20',
+  type: 'PRINTER',
+  roomId: 'room-1',
+  laneName: 'Lane A',
+  status: 'down',
+  statusSince: minutesAgo(5)
+}
+
+describe('Alerting', () => {
+  beforeEach(async () => {
+    await cleanupTestData()
+    authMock = { user: { id: 'test-user', role: 'ADMIN' } }
+    testPrisma.alertRule.findMany.mockResolvedValue([baseRule])
+    testPrisma.device.findMany.mockResolvedValue([downDevice])
+    testPrisma.alertLog.findFirst.mockResolvedValue(null)
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  describe('ruleMatchesDevice', () => {
+    it('should match by scope', () => {
+      expect(ruleMatchesDevice(baseRule, downDevice)).toBe(true)
+      expect(ruleMatchesDevice({ ...baseRule, scope: 'DEVICE', deviceId: 'device-1' }, downDevice)).toBe(true)
+      expect(ruleMatchesDevice({ ...baseRule, scope: 'DEVICE', deviceId: 'device-2' }, downDevice)).toBe(false)
+      expect(ruleMatchesDevice({ ...baseRule, scope: 'ROOM', roomId: 'room-1' }, downDevice)).toBe(true)
+      expect(ruleMatchesDevice({ ...baseRule, scope: 'ROOM', roomId: 'room-1' }, { ...downDevice, roomId: null })).toBe(false)
+      expect(ruleMatchesDevice({ ...baseRule, scope: 'TYPE', deviceType: 'PRINTER' }, downDevice)).toBe(true)
+      expect(ruleMatchesDevice({ ...baseRule, scope: 'TYPE', deviceType: 'SERVER' }, downDevice)).toBe(false)
+    })
+  })
+
+  describe('evaluateDownAlerts', () => {
+    it('should alert once the device has been down for the minimum duration', async () => {
+      await evaluateDownAlerts(now)
+
+      expect(testPrisma.alertLog.create).toHaveBeenCalledTimes(1)
+      expect(testPrisma.alertLog.create.mock.calls[0][0].data).toMatchObject({
+        ruleId: 'rule-1',
+        deviceId: 'device-1',
+        event: 'DOWN',
+        message: '[DOWN] Printer 1 (192.168.1.20)',
+        success: true
+      })
+    })
+
+    it('should wait until the minimum down duration has passed', async () => {
+      testPrisma.device.findMany.mockResolvedValue([{ ...downDevice, statusSince: minutesAgo(1) }])
+
+      await evaluateDownAlerts(now)
+
+      expect(testPrisma.alertLog.create).not.toHaveBeenCalled()
+    })
+
+    it('should not repeat the alert without a re-notify interval', async () => {
+      testPrisma.alertLog.findFirst.mockResolvedValue({ event: 'DOWN', success: true, createdAt: minutesAgo(3) })
+
+      await evaluateDownAlerts(now)
+
+      expect(testPrisma.alertLog.create).not.toHaveBeenCalled()
+    })
+
+    it('should send a reminder once the re-notify interval has passed', async () => {
+      testPrisma.alertRule.findMany.mockResolvedValue([{ ...baseRule, renotifyMinutes: 2 }])
+      testPrisma.alertLog.findFirst.mockResolvedValue({ event: 'DOWN', success: true, createdAt: minutesAgo(3) })
+
+      await evaluateDownAlerts(now)
+
+      expect(testPrisma.alertLog.create.mock.calls[0][0].data.event).toBe('REMINDER')
+    })
+
+    it('should only look at notifications sent during the current outage', async () => {
+      await evaluateDownAlerts(now)
+
+      expect(testPrisma.alertLog.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({
+          ruleId: 'rule-1',
+          deviceId: 'device-1',
+          createdAt: { gte: downDevice.statusSince }
+        })
+      }))
+    })
+
+    it('should record failed deliveries and retry them later', async () => {
+      testPrisma.alertRule.findMany.mockResolvedValue([{ ...baseRule, channel: webhookChannel }])
+      vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 502 }))
+
+      await evaluateDownAlerts(now)
+
+      expect(testPrisma.alertLog.create.mock.calls[0][0].data).toMatchObject({
+        event: 'DOWN',
+        success: false,
+        error: 'Webhook responded with HTTP 502'
+      })
+
+      // Failed one minute ago - too early to retry
+      testPrisma.alertLog.create.mockClear()
+      testPrisma.alertLog.findFirst.mockResolvedValue({ event: 'DOWN', success: false, createdAt: minutesAgo(1) })
+      await evaluateDownAlerts(now)
+      expect(testPrisma.alertLog.create).not.toHaveBeenCalled()
+
+      // Five minutes later the same event is retried
+      testPrisma.alertLog.findFirst.mockResolvedValue({ event: 'DOWN', success: false, createdAt: minutesAgo(5) })
+      await evaluateDownAlerts(now)
+      expect(testPrisma.alertLog.create.mock.calls[0][0].data.event).toBe('DOWN')
+    })
+
+    it('should post the alert payload to the webhook', async () => {
+      testPrisma.alertRule.findMany.mockResolvedValue([{ ...baseRule, channel: webhookChannel }])
+      const fetchMock = vi.fn().mockResolvedValue({ ok: true, status: 200 })
+      vi.stubGlobal('fetch', fetchMock)
+
+      await evaluateDownAlerts(now)
+
+      expect(fetchMock.mock.calls[0][0]).toBe('https://hooks.example.com/netwatch')
+      const payload = JSON.parse(fetchMock.mock.calls[0][1].body)
+      expect(payload).toMatchObject({
+        event: 'DOWN',
+        rule: 'Everything',
+        device: { id: 'device-1', ip: '192.168.1.20' }
+      })
+    })
+  })
+
+  describe('notifyRecovery', () => {
+    beforeEach(() => {
+      testPrisma.device.findUnique.mockResolvedValue({ ...downDevice, status: 'up', statusSince: now })
+    })
+
+    it('should announce recovery when the outage was announced', async () => {
+      testPrisma.alertLog.findFirst.mockResolvedValue({ event: 'DOWN', success: true, createdAt: minutesAgo(3) })
+
+      await notifyRecovery('device-1', minutesAgo(5), now)
+
+      expect(testPrisma.alertLog.create.mock.calls[0][0].data).toMatchObject({
+        event: 'UP',
+        message: '[UP] Printer 1 (192.168.1.20)'
+      })
+    })
+
+    it('should stay quiet for outages shorter than the minimum duration', async () => {
+      await notifyRecovery('device-1', minutesAgo(1), now)
+
+      expect(testPrisma.alertLog.create).not.toHaveBeenCalled()
+    })
+
+    it('should skip rules with recovery notifications turned off', async () => {
+      testPrisma.alertRule.findMany.mockResolvedValue([{ ...baseRule, notifyOnRecovery: false }])
+      testPrisma.alertLog.findFirst.mockResolvedValue({ event: 'DOWN', success: true, createdAt: minutesAgo(3) })
+
+      await notifyRecovery('device-1', minutesAgo(5), now)
+
+      expect(testPrisma.alertLog.create).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('Channel settings', () => {
+    it('should encrypt secrets and mask them in responses', () => {
+      const stored = serializeChannelConfig('TELEGRAM', { botToken: '123:abc', chatId: '-100' })
+      const parsed = JSON.parse(stored)
+
+      expect(parsed.chatId).toBe('-100')
+      expect(parsed.botToken).not.toBe('123:abc')
+      expect(decryptSecret(parsed.botToken)).toBe('123:abc')
+
+      const publicChannel = toPublicAlertChannel({ ...logChannel, type: 'TELEGRAM', config: stored })
+      expect(publicChannel.config).toEqual({ botToken: MASKED_SECRET, chatId: '-100' })
+    })
+
+    it('should keep stored secrets when the update omits or masks them', () => {
+      const stored = serializeChannelConfig('TELEGRAM', { botToken: '123:abc', chatId: '-100' })
+
+      const omitted = JSON.parse(serializeChannelConfig('TELEGRAM', { chatId: '-200' }, stored))
+      const masked = JSON.parse(serializeChannelConfig('TELEGRAM', { botToken: MASKED_SECRET, chatId: '-200' }, stored))
+
+      expect(decryptSecret(omitted.botToken)).toBe('123:abc')
+      expect(decryptSecret(masked.botToken)).toBe('123:abc')
+      expect(masked.chatId).toBe('-200')
+    })
+
+    it('should validate required settings per type', () => {
+      expect(validateAlertChannelInput({ name: 'Mail', type: 'EMAIL', config: { host: 'smtp.example.com' } }))
+        .toBe('Missing required setting: from')
+      expect(validateAlertChannelInput({ name: 'Hook', type: 'WEBHOOK', config: { url: 'ftp://x' } }))
+        .toBe('Webhook URL must start with http:// or https://')
+      expect(validateAlertChannelInput({ name: 'Pager', type: 'SMS' })).toContain('Invalid channel type')
+      expect(validateAlertChannelInput({ name: 'Log', type: 'LOG' })).toBeNull()
+    })
+  })
+
+  describe('validateAlertRuleInput', () => {
+    it('should require the target of the chosen scope', () => {
+      expect(validateAlertRuleInput({ name: 'R', scope: 'DEVICE', channelId: 'c' })).toBe('Device is required for a device rule')
+      expect(validateAlertRuleInput({ name: 'R', scope: 'TYPE', deviceType: 'TOASTER', channelId: 'c' })).toBe('Invalid device type')
+      expect(validateAlertRuleInput({ name: 'R', scope: 'GLOBAL', minDownSeconds: -1, channelId: 'c' })).toContain('non-negative')
+      expect(validateAlertRuleInput({ name: 'R', scope: 'ROOM', roomId: 'room-1', channelId: 'c' })).toBeNull()
+    })
+  })
+
+  describe('Alert API', () => {
+    const createRequest = (url: string, body: any) => new NextRequest(url, {
+      method: 'POST',
+      body: JSON.stringify(body)
+    })
+
+    it('should deny non-ADMIN users', async () => {
+      authMock = { user: { id: 'test-user', role: 'OPERATOR' } }
+
+      const response = await createChannel(createRequest('http://localhost:3000/api/alerts/channels', {
+        name: 'Log',
+        type: 'LOG'
+      }))
+
+      expect(response.status).toBe(403)
+      expect(testPrisma.alertChannel.create).not.toHaveBeenCalled()
+    })
+
+    it('should store channel secrets encrypted', async () => {
+      testPrisma.alertChannel.findUnique.mockResolvedValue(null)
+      testPrisma.alertChannel.create.mockImplementation(async ({ data }: any) => ({ id: 'channel-3', ...data }))
+
+      const response = await createChannel(createRequest('http://localhost:3000/api/alerts/channels', {
+        name: 'Ops Telegram',
+        type: 'TELEGRAM',
+        config: { botToken: '123:abc', chatId: '-100' }
+      }))
+      const data = await response.json()
+
+      expect(response.status).toBe(201)
+      expect(data.channel.config.botToken).toBe(MASKED_SECRET)
+      const storedConfig = JSON.parse(testPrisma.alertChannel.create.mock.calls[0][0].data.config)
+      expect(decryptSecret(storedConfig.botToken)).toBe('123:abc')
+    })
+
+    it('should clear targets that do not belong to the rule scope', async () => {
+      testPrisma.alertChannel.findUnique.mockResolvedValue(logChannel)
+      testPrisma.alertRule.create.mockImplementation(async ({ data }: any) => ({ id: 'rule-2', ...data }))
+
+      const response = await createRule(createRequest('http://localhost:3000/api/alerts/rules', {
+        name: 'Servers',
+        scope: 'TYPE',
+        deviceType: 'SERVER',
+        deviceId: 'device-1',
+        channelId: 'channel-1'
+      }))
+
+      expect(response.status).toBe(201)
+      expect(testPrisma.alertRule.create.mock.calls[0][0].data).toMatchObject({
+        scope: 'TYPE',
+        deviceType: 'SERVER',
+        deviceId: null,
+        minDownSeconds: 0,
+        notifyOnRecovery: true
+      })
+    })
+  })
+})
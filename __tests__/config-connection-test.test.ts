@@ -1,4 +1,5 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { testPrisma } from './test-prisma'
 import { POST } from '@/app/api/config/test-connection/route'
 import { auth } from '@/auth'
 import { RouterOSAPI } from 'node-routeros'
@@ -8,6 +9,9 @@ import * as fc from 'fast-check'
 // Mock dependencies
 vi.mock('@/auth')
 vi.mock('node-routeros')
+vi.mock('@/lib/prisma', () => ({
+  prisma: testPrisma
+}))
 
 describe('Connection Test API', () => {
   beforeEach(() => {
@@ -151,6 +155,54 @@ describe('Connection Test API', () => {
     })
   })
 
+  describe('Stored Passwords', () => {
+    const savedRouter = { id: 'router-1', host: '192.168.1.1', username: 'admin', password: 'stored-secret', port: 8728 }
+
+    beforeEach(() => {
+      vi.mocked(auth).mockResolvedValue({
+        user: { id: '1', email: 'admin@test.com', role: 'ADMIN' }
+      } as any)
+      testPrisma.router.findUnique.mockResolvedValue(savedRouter)
+    })
+
+    it('should use the stored password for the saved router', async () => {
+      const mockApi = {
+        connect: vi.fn().mockResolvedValue(undefined),
+        write: vi.fn().mockResolvedValue([]),
+        close: vi.fn().mockResolvedValue(undefined)
+      }
+      vi.mocked(RouterOSAPI).mockImplementation(() => mockApi as any)
+
+      const response = await POST(createRequest({
+        routerId: 'router-1',
+        mikrotikIp: '192.168.1.1',
+        mikrotikUser: 'admin',
+        mikrotikPort: 8728
+      }))
+      const data = await response.json()
+
+      expect(data.success).toBe(true)
+      expect(RouterOSAPI).toHaveBeenCalledWith(expect.objectContaining({ host: '192.168.1.1', password: 'stored-secret' }))
+    })
+
+    it('should not send the stored password to another host, user or port', async () => {
+      for (const changed of [{ mikrotikIp: '203.0.113.5' }, { mikrotikUser: 'other' }, { mikrotikPort: 9999 }]) {
+        const response = await POST(createRequest({
+          routerId: 'router-1',
+          mikrotikIp: '192.168.1.1',
+          mikrotikUser: 'admin',
+          ...changed
+        }))
+        const data = await response.json()
+
+        expect(data.success).toBe(false)
+        expect(data.error).toBe('Password required')
+      }
+
+      expect(RouterOSAPI).not.toHaveBeenCalled()
+    })
+  })
+
   describe('Connection Success', () => {
     beforeEach(() => {
       vi.mocked(auth).mockResolvedValue({
@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { testPrisma, cleanupTestData } from './test-prisma'
+import {
+  decryptSecret,
+  encryptSecret,
+  isEncrypted,
+  maskSecret,
+  needsReencryption,
+  MASKED_SECRET
+} from '@/lib/credential-encryption'
+import { migrateStoredPasswords } from '@/lib/routers'
+
+// Mock the main prisma client to use the test client
+vi.mock('@/lib/prisma', () => ({
+  prisma: testPrisma
+}))
+
+const ENV_KEYS = ['CREDENTIALS_ENCRYPTION_KEY', 'CREDENTIALS_ENCRYPTION_KEY_PREVIOUS', 'AUTH_SECRET']
+const originalEnv: Record<string, string | undefined> = {}
+
+describe('Credential Encryption', () => {
+  beforeEach(async () => {
+    await cleanupTestData()
+    ENV_KEYS.forEach(key => {
+      originalEnv[key] = process.env[key]
+      delete process.env[key]
+    })
+    process.env.CREDENTIALS_ENCRYPTION_KEY = 'current-key'
+  })
+
+  afterEach(() => {
+    ENV_KEYS.forEach(key => {
+      if (originalEnv[key] === undefined) {
+        delete process.env[key]
+      } else {
+        process.env[key] = originalEnv[key]
+      }
+    })
+  })
+
+  describe('encryptSecret / decryptSecret', () => {
+    it('should round-trip a password without storing it in plain text', () => {
+      const stored = encryptSecret('router-password')
+
+      expect(isEncrypted(stored)).toBe(true)
+      expect(stored).not.toContain('router-password')
+      expect(decryptSecret(stored)).toBe('router-password')
+    })
+
+    it('should produce a different ciphertext for each encryption', () => {
+      expect(encryptSecret('same')).not.toBe(encryptSecret('same'))
+    })
+
+    it('should keep empty passwords empty', () => {
+      expect(encryptSecret('')).toBe('')
+      expect(decryptSecret('')).toBe('')
+    })
+
+    it('should return legacy plain-text values unchanged', () => {
+      expect(decryptSecret('plain-password')).toBe('plain-password')
+    })
+
+    it('should fall back to AUTH_SECRET when no dedicated key is set', () => {
+      delete process.env.CREDENTIALS_ENCRYPTION_KEY
+      process.env.AUTH_SECRET = 'auth-secret'
+
+      expect(decryptSecret(encryptSecret('secret'))).toBe('secret')
+    })
+
+    it('should fail when no key is configured', () => {
+      delete process.env.CREDENTIALS_ENCRYPTION_KEY
+
+      expect(() => encryptSecret('secret')).toThrow('Credential encryption key is not configured')
+    })
+
+    it('should reject tampered ciphertext', () => {
+      const stored = encryptSecret('secret')
+      const parts = stored.split(':')
+      parts[parts.length - 1] = Buffer.from('tampered').toString('base64')
+
+      expect(() => decryptSecret(parts.join(':'))).toThrow()
+    })
+  })
+
+  describe('Key rotation', () => {
+    it('should decrypt values encrypted with a previous key', () => {
+      process.env.CREDENTIALS_ENCRYPTION_KEY = 'old-key'
+      const stored = encryptSecret('secret')
+
+      process.env.CREDENTIALS_ENCRYPTION_KEY = 'new-key'
+      process.env.CREDENTIALS_ENCRYPTION_KEY_PREVIOUS = 'older-key, old-key'
+
+      expect(decryptSecret(stored)).toBe('secret')
+      expect(needsReencryption(stored)).toBe(true)
+    })
+
+    it('should fail clearly when the encrypting key is gone', () => {
+      process.env.CREDENTIALS_ENCRYPTION_KEY = 'old-key'
+      const stored = encryptSecret('secret')
+
+      process.env.CREDENTIALS_ENCRYPTION_KEY = 'new-key'
+
+      expect(() => decryptSecret(stored)).toThrow('encryption key has changed')
+    })
+
+    it('should not re-encrypt values already using the current key', () => {
+      expect(needsReencryption(encryptSecret('secret'))).toBe(false)
+      expect(needsReencryption('')).toBe(false)
+      expect(needsReencryption('plain-password')).toBe(true)
+    })
+  })
+
+  describe('maskSecret', () => {
+    it('should mask stored passwords and leave empty ones empty', () => {
+      expect(maskSecret(encryptSecret('secret'))).toBe(MASKED_SECRET)
+      expect(maskSecret('')).toBe('')
+    })
+  })
+
+  describe('migrateStoredPasswords', () => {
+    it('should encrypt plain-text router and SystemConfig passwords', async () => {
+      const current = encryptSecret('already-encrypted')
+      testPrisma.router.findMany.mockResolvedValue([
+        { id: 'router-1', password: 'plain-password' },
+        { id: 'router-2', password: current }
+      ])
+      testPrisma.systemConfig.findUnique.mockResolvedValue({ id: 1, mikrotikPass: 'legacy-plain' })
+
+      const migrated = await migrateStoredPasswords()
+
+      expect(migrated).toBe(2)
+      expect(testPrisma.router.update).toHaveBeenCalledTimes(1)
+
+      const routerUpdate = testPrisma.router.update.mock.calls[0][0]
+      expect(routerUpdate.where).toEqual({ id: 'router-1' })
+      expect(decryptSecret(routerUpdate.data.password)).toBe('plain-password')
+
+      const configUpdate = testPrisma.systemConfig.update.mock.calls[0][0]
+      expect(decryptSecret(configUpdate.data.mikrotikPass)).toBe('legacy-plain')
+    })
+
+    it('should re-encrypt values written with a previous key', async () => {
+      process.env.CREDENTIALS_ENCRYPTION_KEY = 'old-key'
+      const oldValue = encryptSecret('secret')
+
+      process.env.CREDENTIALS_ENCRYPTION_KEY = 'new-key'
+      process.env.CREDENTIALS_ENCRYPTION_KEY_PREVIOUS = 'old-key'
+      testPrisma.router.findMany.mockResolvedValue([{ id: 'router-1', password: oldValue }])
+      testPrisma.systemConfig.findUnique.mockResolvedValue(null)
+
+      await migrateStoredPasswords()
+
+      const newValue = testPrisma.router.update.mock.calls[0][0].data.password
+      expect(needsReencryption(newValue)).toBe(false)
+
+      // Old key can be dropped once values are rotated
+      delete process.env.CREDENTIALS_ENCRYPTION_KEY_PREVIOUS
+      expect(decryptSecret(newValue)).toBe('secret')
+    })
+
+    it('should skip values whose key is gone and migrate the rest', async () => {
+      process.env.CREDENTIALS_ENCRYPTION_KEY = 'lost-key'
+      const orphaned = encryptSecret('unreadable')
+
+      process.env.CREDENTIALS_ENCRYPTION_KEY = 'current-key'
+      testPrisma.router.findMany.mockResolvedValue([
+        { id: 'router-1', name: 'Old', password: orphaned },
+        { id: 'router-2', name: 'Branch', password: 'plain-password' }
+      ])
+      testPrisma.systemConfig.findUnique.mockResolvedValue({ id: 1, mikrotikPass: orphaned })
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {})
+
+      const migrated = await migrateStoredPasswords()
+
+      expect(migrated).toBe(1)
+      expect(testPrisma.router.update).toHaveBeenCalledTimes(1)
+      expect(testPrisma.router.update.mock.calls[0][0].where).toEqual({ id: 'router-2' })
+      expect(testPrisma.systemConfig.update).not.toHaveBeenCalled()
+      expect(consoleError).toHaveBeenCalledWith('Skipped re-encrypting the password of router "Old":', expect.stringContaining('encryption key has changed'))
+      consoleError.mockRestore()
+    })
+  })
+})
@@ -34,6 +34,8 @@ describe('Device API Endpoints Unit Tests', () => {
     authMock = { user: { id: 'test-user', role: 'ADMIN' } }
     // Mock SystemConfig to return null (MikroTik not configured)
     testPrisma.systemConfig.findUnique.mockResolvedValue(null)
+    // No MikroTik routers configured
+    testPrisma.router.findMany.mockResolvedValue([])
   })
 
   describe('POST /api/devices - Device Creation', () => {
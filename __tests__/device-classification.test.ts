@@ -0,0 +1,126 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { testPrisma, cleanupTestData } from './test-prisma'
+import {
+  createDeviceClassifier,
+  DEFAULT_CLASSIFICATION_RULES,
+  parseIPRange,
+  validateClassificationRule
+} from '@/lib/device-classification'
+import { PUT } from '@/app/api/classification-rules/route'
+import { POST } from '@/app/api/devices/reclassify/route'
+import { NextRequest } from 'next/server'
+
+// Mock the main prisma client to use the test client
+vi.mock('@/lib/prisma', () => ({
+  prisma: testPrisma
+}))
+
+// Mock auth module
+vi.mock('@/auth', () => ({
+  auth: vi.fn(() => Promise.resolve({ user: { id: 'admin', role: 'ADMIN' } }))
+}))
+
+const savedRules = [
+  { id: 'r1', position: 0, field: 'ip', pattern: '10.0.20.0/24', type: 'CCTV', enabled: true },
+  { id: 'r2', position: 1, field: 'hostname', pattern: '^desktop-', type: 'PC', enabled: true },
+  { id: 'r3', position: 2, field: 'name', pattern: 'lobby', type: 'SMART_TV', enabled: false }
+]
+
+describe('Device Classification', () => {
+  beforeEach(async () => {
+    await cleanupTestData()
+    testPrisma.classificationRule.findMany.mockResolvedValue([])
+  })
+
+  it('should keep the old name guesses as defaults', () => {
+    const classify = createDeviceClassifier(DEFAULT_CLASSIFICATION_RULES)
+
+    expect(classify({ name: 'RB4011 Core' }).type).toBe('ROUTER')
+    expect(classify({ name: 'SW-Floor2' }).type).toBe('SWITCH')
+    expect(classify({ name: 'Front Desk Printer' }).type).toBe('PRINTER')
+    expect(classify({ name: 'Lobby TV' }).type).toBe('SMART_TV')
+    expect(classify({ name: 'CCTV-Parking-01' }).type).toBe('CCTV')
+    expect(classify({ name: 'Herbert-PC' }).type).not.toBe('ROUTER')
+    expect(classify({ name: 'Reception' })).toEqual({ type: 'OTHER', ruleIndex: null })
+    expect(classify({ name: 'Entrance 01', vendor: 'Hangzhou Hikvision' }).type).toBe('CCTV')
+  })
+
+  it('should match IP ranges and skip disabled rules in order', () => {
+    const classify = createDeviceClassifier(savedRules)
+
+    expect(classify({ name: 'Lobby', ip: '10.0.20.15', hostname: 'desktop-1' })).toEqual({ type: 'CCTV', ruleIndex: 0 })
+    expect(classify({ name: 'Lobby', ip: '10.0.21.15', hostname: 'DESKTOP-1' })).toEqual({ type: 'PC', ruleIndex: 1 })
+    expect(classify({ name: 'Lobby', ip: '10.0.21.15' }).type).toBe('OTHER')
+
+    expect(parseIPRange('10.0.0.10-10.0.0.50')).toEqual([167772170, 167772210])
+    expect(parseIPRange('10.0.0.50-10.0.0.10')).toBeNull()
+  })
+
+  it('should reject invalid patterns and types', () => {
+    expect(validateClassificationRule({ field: 'name', pattern: 'cam(', type: 'CCTV', enabled: true })).toContain('not a valid regular expression')
+    expect(validateClassificationRule({ field: 'ip', pattern: '10.0.0.0/33', type: 'CCTV', enabled: true })).toContain('not a CIDR block')
+    expect(validateClassificationRule({ field: 'vendor', pattern: 'axis', type: 'TOASTER', enabled: true })).toContain('Type must be one of')
+    expect(validateClassificationRule({ field: 'mac', pattern: 'x', type: 'CCTV', enabled: true })).toContain('Field must be one of')
+  })
+
+  it('should replace the rule table in order', async () => {
+    testPrisma.classificationRule.findMany.mockResolvedValue(savedRules)
+
+    const request = new NextRequest('http://localhost:3000/api/classification-rules', {
+      method: 'PUT',
+      body: JSON.stringify({ rules: savedRules.map(({ field, pattern, type, enabled }) => ({ field, pattern, type, enabled })) })
+    })
+    const response = await PUT(request)
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.isDefault).toBe(false)
+    expect(testPrisma.classificationRule.deleteMany).toHaveBeenCalled()
+    expect(testPrisma.classificationRule.createMany).toHaveBeenCalledWith({
+      data: [
+        { position: 0, field: 'ip', pattern: '10.0.20.0/24', type: 'CCTV', enabled: true },
+        { position: 1, field: 'hostname', pattern: '^desktop-', type: 'PC', enabled: true },
+        { position: 2, field: 'name', pattern: 'lobby', type: 'SMART_TV', enabled: false }
+      ]
+    })
+  })
+
+  it('should not save a rule list with an invalid rule', async () => {
+    const request = new NextRequest('http://localhost:3000/api/classification-rules', {
+      method: 'PUT',
+      body: JSON.stringify({ rules: [{ field: 'name', pattern: '[', type: 'CCTV', enabled: true }] })
+    })
+    const response = await PUT(request)
+    const data = await response.json()
+
+    expect(response.status).toBe(400)
+    expect(data.error).toContain('Rule 1')
+    expect(testPrisma.classificationRule.createMany).not.toHaveBeenCalled()
+  })
+
+  it('should preview re-classify changes and only save them when applied', async () => {
+    testPrisma.classificationRule.findMany.mockResolvedValue(savedRules)
+    testPrisma.device.findMany.mockResolvedValue([
+      { id: 'd1', name: 'Cam 1', ip: '10.0.20.15', type: 'OTHER', hostname: null, vendor: null },
+      { id: 'd2', name: 'Desk', ip: '10.0.1.5', type: 'PC', hostname: 'desktop-2', vendor: null }
+    ])
+
+    const preview = await POST(new NextRequest('http://localhost:3000/api/devices/reclassify?dryRun=true', {
+      method: 'POST',
+      body: JSON.stringify({ deviceIds: ['d1', 'd2'] })
+    }))
+    const previewData = await preview.json()
+
+    expect(previewData.dryRun).toBe(true)
+    expect(previewData.changes).toEqual([{ id: 'd1', name: 'Cam 1', ip: '10.0.20.15', from: 'OTHER', to: 'CCTV' }])
+    expect(testPrisma.device.update).not.toHaveBeenCalled()
+
+    await POST(new NextRequest('http://localhost:3000/api/devices/reclassify', {
+      method: 'POST',
+      body: JSON.stringify({ deviceIds: ['d1', 'd2'] })
+    }))
+
+    expect(testPrisma.device.update).toHaveBeenCalledTimes(1)
+    expect(testPrisma.device.update).toHaveBeenCalledWith({ where: { id: 'd1' }, data: { type: 'CCTV' } })
+  })
+})
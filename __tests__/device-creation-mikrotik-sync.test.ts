@@ -2,6 +2,7 @@ import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { testPrisma, cleanupTestData } from './test-prisma'
 import { POST } from '@/app/api/devices/route'
 import { NextRequest } from 'next/server'
+import { closeAllRouterOSSessions } from '@/lib/routeros-pool'
 
 // Mock the main prisma client to use the test client
 vi.mock('@/lib/prisma', () => ({
@@ -13,7 +14,8 @@ let mockRouterOSAPI: any
 const createMockAPI = () => ({
   connect: vi.fn().mockResolvedValue(undefined),
   write: vi.fn().mockResolvedValue([]),
-  close: vi.fn().mockResolvedValue(undefined)
+  close: vi.fn().mockResolvedValue(undefined),
+  on: vi.fn()
 })
 
 vi.mock('node-routeros', () => ({
@@ -27,6 +29,22 @@ vi.mock('@/auth', () => ({
   auth: vi.fn(() => Promise.resolve(authMock))
 }))
 
+// Register a single router built from legacy-style config credentials
+const mockSingleRouter = (config: any) => {
+  const router = {
+    id: 'test-router-id',
+    name: 'Default',
+    host: config.mikrotikIp,
+    username: config.mikrotikUser,
+    password: config.mikrotikPass,
+    port: config.mikrotikPort,
+    enabled: true
+  }
+  testPrisma.router.count.mockResolvedValue(1)
+  testPrisma.router.findMany.mockResolvedValue([router])
+  testPrisma.router.findUnique.mockResolvedValue(router)
+}
+
 describe('Enhanced Device Creation with MikroTik Sync - Unit Tests', () => {
   beforeEach(async () => {
     // Clean up test data
@@ -35,11 +53,17 @@ describe('Enhanced Device Creation with MikroTik Sync - Unit Tests', () => {
     // Reset auth mock to ADMIN
     authMock = { user: { id: 'test-user', role: 'ADMIN' } }
     
-    // Reset RouterOSAPI mock
+    // Reset RouterOSAPI mock and drop pooled sessions (and their backoff state)
     mockRouterOSAPI = createMockAPI()
+    closeAllRouterOSSessions()
     
     // Mock SystemConfig to return null by default
     testPrisma.systemConfig.findUnique.mockResolvedValue(null)
+    
+    // No routers configured by default
+    testPrisma.router.count.mockResolvedValue(0)
+    testPrisma.router.findMany.mockResolvedValue([])
+    testPrisma.router.findUnique.mockResolvedValue(null)
   })
 
   describe('Device creation without sync (existing behavior)', () => {
@@ -160,6 +184,7 @@ describe('Enhanced Device Creation with MikroTik Sync - Unit Tests', () => {
       testPrisma.device.findUnique.mockResolvedValue(null)
       testPrisma.device.create.mockResolvedValue(mockDevice)
       testPrisma.systemConfig.findUnique.mockResolvedValue(mockConfig)
+      mockSingleRouter(mockConfig)
 
       const request = new NextRequest('http://localhost:3000/api/devices', {
         method: 'POST',
@@ -178,9 +203,10 @@ describe('Enhanced Device Creation with MikroTik Sync - Unit Tests', () => {
       expect(mockRouterOSAPI.connect).toHaveBeenCalledTimes(1)
       expect(mockRouterOSAPI.write).toHaveBeenCalledWith('/tool/netwatch/add', [
         '=host=192.168.1.102',
-        '=comment=Synced Router'
+        '=comment=[nw:test-device-id] Synced Router' // Ownership marker in front of the name
       ])
-      expect(mockRouterOSAPI.close).toHaveBeenCalledTimes(1)
+      // Session stays open in the pool for the next caller
+      expect(mockRouterOSAPI.close).not.toHaveBeenCalled()
     })
 
     it('should create device and sync with different device types', async () => {
@@ -215,6 +241,7 @@ describe('Enhanced Device Creation with MikroTik Sync - Unit Tests', () => {
       testPrisma.device.findUnique.mockResolvedValue(null)
       testPrisma.device.create.mockResolvedValue(mockDevice)
       testPrisma.systemConfig.findUnique.mockResolvedValue(mockConfig)
+      mockSingleRouter(mockConfig)
 
       const request = new NextRequest('http://localhost:3000/api/devices', {
         method: 'POST',
@@ -305,6 +332,7 @@ describe('Enhanced Device Creation with MikroTik Sync - Unit Tests', () => {
       testPrisma.device.findUnique.mockResolvedValue(null)
       testPrisma.device.create.mockResolvedValue(mockDevice)
       testPrisma.systemConfig.findUnique.mockResolvedValue(mockConfig)
+      mockSingleRouter(mockConfig)
       
       // Mock connection timeout
       mockRouterOSAPI.connect.mockRejectedValue(new Error('Connection timed out'))
@@ -358,6 +386,7 @@ describe('Enhanced Device Creation with MikroTik Sync - Unit Tests', () => {
       testPrisma.device.findUnique.mockResolvedValue(null)
       testPrisma.device.create.mockResolvedValue(mockDevice)
       testPrisma.systemConfig.findUnique.mockResolvedValue(mockConfig)
+      mockSingleRouter(mockConfig)
       
       // Mock authentication failure
       mockRouterOSAPI.connect.mockRejectedValue(new Error('Cannot log in'))
@@ -411,6 +440,7 @@ describe('Enhanced Device Creation with MikroTik Sync - Unit Tests', () => {
       testPrisma.device.findUnique.mockResolvedValue(null)
       testPrisma.device.create.mockResolvedValue(mockDevice)
       testPrisma.systemConfig.findUnique.mockResolvedValue(mockConfig)
+      mockSingleRouter(mockConfig)
       
       // Mock connection refused
       mockRouterOSAPI.connect.mockRejectedValue(new Error('ECONNREFUSED'))
@@ -464,6 +494,7 @@ describe('Enhanced Device Creation with MikroTik Sync - Unit Tests', () => {
       testPrisma.device.findUnique.mockResolvedValue(null)
       testPrisma.device.create.mockResolvedValue(mockDevice)
       testPrisma.systemConfig.findUnique.mockResolvedValue(mockConfig)
+      mockSingleRouter(mockConfig)
       
       // Mock write operation failure
       mockRouterOSAPI.write.mockRejectedValue(new Error('Write operation failed'))
@@ -524,6 +555,7 @@ describe('Enhanced Device Creation with MikroTik Sync - Unit Tests', () => {
       testPrisma.device.findUnique.mockResolvedValue(null)
       testPrisma.device.create.mockResolvedValue(mockDevice)
       testPrisma.systemConfig.findUnique.mockResolvedValue(mockConfig)
+      mockSingleRouter(mockConfig)
 
       const request = new NextRequest('http://localhost:3000/api/devices', {
         method: 'POST',
@@ -572,6 +604,7 @@ describe('Enhanced Device Creation with MikroTik Sync - Unit Tests', () => {
       testPrisma.device.findUnique.mockResolvedValue(null)
       testPrisma.device.create.mockResolvedValue(mockDevice)
       testPrisma.systemConfig.findUnique.mockResolvedValue(mockConfig)
+      mockSingleRouter(mockConfig)
 
       const request = new NextRequest('http://localhost:3000/api/devices', {
         method: 'POST',
@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { testPrisma, cleanupTestData } from './test-prisma'
+import { mergeDiscoveredHosts } from '@/lib/device-discovery'
+import { GET, POST } from '@/app/api/mikrotik/discovery/route'
+import { closeAllRouterOSSessions } from '@/lib/routeros-pool'
+import { NextRequest } from 'next/server'
+
+// Mock the main prisma client to use the test client
+vi.mock('@/lib/prisma', () => ({
+  prisma: testPrisma
+}))
+
+const leases = [
+  { address: '10.0.0.20', 'mac-address': 'aa:bb:cc:00:00:20', 'host-name': 'lobby-tv', status: 'bound' },
+  { address: '10.0.0.21', 'mac-address': 'aa:bb:cc:00:00:21', comment: 'Front desk printer', status: 'bound' },
+  { address: '10.0.0.22', 'mac-address': 'aa:bb:cc:00:00:22', status: 'expired' }
+]
+const arp = [
+  { address: '10.0.0.20', 'mac-address': 'AA:BB:CC:00:00:20', interface: 'bridge' },
+  { address: '10.0.0.2', 'mac-address': 'AA:BB:CC:00:00:02', interface: 'bridge' },
+  { address: '10.0.0.30', interface: 'bridge' } // incomplete
+]
+const neighbors = [
+  { address: '10.0.0.5', 'mac-address': 'AA:BB:CC:00:00:05', identity: 'sw-core', platform: 'MikroTik', board: 'CRS326', interface: 'ether1' },
+  { address: 'fe80::1', identity: 'v6-only' }
+]
+
+// Mock RouterOSAPI - answers each table from the fixtures above
+let mockRouterOSAPI: any
+const tables: Record<string, unknown[]> = {
+  '/ip/dhcp-server/lease/print': leases,
+  '/ip/arp/print': arp,
+  '/ip/neighbor/print': neighbors,
+  '/tool/netwatch/print': [{ '.id': '*1', host: '10.0.0.5', comment: 'Core switch' }]
+}
+const createMockAPI = () => ({
+  connect: vi.fn().mockResolvedValue(undefined),
+  write: vi.fn((command: string) => Promise.resolve(tables[command] ?? [])),
+  close: vi.fn().mockResolvedValue(undefined),
+  on: vi.fn()
+})
+
+vi.mock('node-routeros', () => ({
+  RouterOSAPI: vi.fn().mockImplementation(() => mockRouterOSAPI)
+}))
+
+// Mock auth module
+vi.mock('@/auth', () => ({
+  auth: vi.fn(() => Promise.resolve({ user: { id: 'admin', role: 'ADMIN' } }))
+}))
+
+vi.spyOn(console, 'error').mockImplementation(() => {})
+
+const router = {
+  id: 'r1',
+  name: 'Core',
+  host: '10.0.0.1',
+  username: 'admin',
+  password: 'secret',
+  port: 8728,
+  enabled: true
+}
+
+describe('Device Discovery', () => {
+  beforeEach(async () => {
+    await cleanupTestData()
+    mockRouterOSAPI = createMockAPI()
+    closeAllRouterOSSessions()
+    testPrisma.systemConfig.findUnique.mockResolvedValue(null)
+    testPrisma.router.count.mockResolvedValue(1)
+    testPrisma.router.findFirst.mockResolvedValue(router)
+    testPrisma.router.findMany.mockResolvedValue([router])
+    testPrisma.router.findUnique.mockResolvedValue(router)
+  })
+
+  it('should merge leases, ARP and neighbors by IP', () => {
+    const hosts = mergeDiscoveredHosts(leases, arp, neighbors)
+
+    expect(hosts.map(host => host.ip)).toEqual(['10.0.0.2', '10.0.0.5', '10.0.0.20', '10.0.0.21'])
+    expect(hosts[2]).toMatchObject({
+      mac: 'AA:BB:CC:00:00:20',
+      hostname: 'lobby-tv',
+      interface: 'bridge',
+      sources: ['dhcp', 'arp']
+    })
+    expect(hosts[1]).toMatchObject({ hostname: 'sw-core', vendor: 'MikroTik CRS326', sources: ['neighbor'] })
+    expect(hosts[3].hostname).toBe('Front desk printer')
+  })
+
+  it('should list only hosts without a device and flag netwatch entries', async () => {
+    testPrisma.device.findMany.mockResolvedValue([{ ip: '10.0.0.2' }])
+
+    const response = await GET(new NextRequest('http://localhost:3000/api/mikrotik/discovery'))
+    const data = await response.json()
+
+    expect(data.success).toBe(true)
+    expect(data.router).toEqual({ id: 'r1', name: 'Core' })
+    expect(data.hosts.map((host: any) => host.ip)).toEqual(['10.0.0.5', '10.0.0.20', '10.0.0.21'])
+    expect(data.hosts[0].inNetwatch).toBe(true)
+    expect(data.hosts[0].suggestedType).toBe('SWITCH') // "sw-core" by the default rules
+    expect(data.hosts[1].inNetwatch).toBe(false)
+  })
+
+  it('should create the selected hosts in one pass and skip known IPs', async () => {
+    testPrisma.room.findUnique.mockResolvedValue({ id: 'room1', name: 'Lobby' })
+    testPrisma.device.findUnique
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({ id: 'existing', ip: '10.0.0.21' })
+    testPrisma.device.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'new-device', ...data }))
+
+    const request = new NextRequest('http://localhost:3000/api/mikrotik/discovery', {
+      method: 'POST',
+      body: JSON.stringify({
+        routerId: 'r1',
+        hosts: [
+          { ip: '10.0.0.20', name: 'Lobby TV', type: 'SMART_TV', macAddress: 'aa:bb:cc:00:00:20', hostname: 'lobby-tv', laneName: 'Lobby', roomId: 'room1' },
+          { ip: '10.0.0.21', name: 'Printer', type: 'PRINTER', laneName: 'Lobby', roomId: 'room1' }
+        ]
+      })
+    })
+    const response = await POST(request)
+    const data = await response.json()
+
+    expect(response.status).toBe(201)
+    expect(data.created).toBe(1)
+    expect(data.skipped).toBe(1)
+    expect(testPrisma.device.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        name: 'Lobby TV',
+        ip: '10.0.0.20',
+        type: 'SMART_TV',
+        macAddress: 'AA:BB:CC:00:00:20',
+        hostname: 'lobby-tv',
+        laneName: 'Lobby',
+        roomId: 'room1',
+        routerId: 'r1',
+        netwatchTimeout: 1000,
+        netwatchInterval: 5
+      })
+    })
+    // No netwatch entries unless asked for
+    expect(mockRouterOSAPI.write).not.toHaveBeenCalled()
+  })
+
+  it('should reject hosts without a valid type', async () => {
+    const request = new NextRequest('http://localhost:3000/api/mikrotik/discovery', {
+      method: 'POST',
+      body: JSON.stringify({ hosts: [{ ip: '10.0.0.20', name: 'Lobby TV', type: 'TOASTER', laneName: 'Lobby' }] })
+    })
+    const response = await POST(request)
+    const data = await response.json()
+
+    expect(response.status).toBe(400)
+    expect(data.error).toContain('invalid type')
+    expect(testPrisma.device.create).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,196 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { testPrisma, cleanupTestData } from './test-prisma'
+import { parseCsv, readSpreadsheet, writeCsv, writeXlsx } from '@/lib/spreadsheet'
+import { parseDeviceImport } from '@/lib/device-import'
+import { BUILT_IN_DEVICE_TYPES } from '@/lib/constants'
+import { POST as importDevices } from '@/app/api/devices/import/route'
+import { POST as exportDevices } from '@/app/api/devices/export/route'
+import { NextRequest } from 'next/server'
+
+// Mock the main prisma client to use the test client
+vi.mock('@/lib/prisma', () => ({
+  prisma: testPrisma
+}))
+
+// Mock auth module
+vi.mock('@/auth', () => ({
+  auth: vi.fn(() => Promise.resolve({ user: { id: 'admin', role: 'ADMIN' } }))
+}))
+
+const context = {
+  deviceTypes: BUILT_IN_DEVICE_TYPES,
+  rooms: [{ id: 'room-1', name: 'Server Room' }],
+  existingIps: ['10.0.0.1']
+}
+
+const inventory = [
+  'Name,IP Address,Type,Lane,Room,MAC',
+  'Core,10.0.0.1,ROUTER,Rack,,',
+  'Lobby Cam,10.0.0.20,CCTV Camera,Lobby,server room,aa-bb-cc-dd-ee-ff',
+  'Desk,10.0.0.30,TOASTER,Office,Basement,',
+  'Desk 2,10.0.0.20,PC,,,'
+].join('\n')
+
+const importRequest = (content: string, dryRun: boolean) =>
+  new NextRequest(`http://localhost:3000/api/devices/import${dryRun ? '?dryRun=true' : ''}`, {
+    method: 'POST',
+    body: JSON.stringify({ content: Buffer.from(content).toString('base64'), syncToMikrotik: false })
+  })
+
+// Uncompressed zip of the given parts - enough for readSpreadsheet, which does not check CRCs
+const storedZip = (files: Record<string, string>) => {
+  const locals: Buffer[] = []
+  const centrals: Buffer[] = []
+  let offset = 0
+  for (const [fileName, content] of Object.entries(files)) {
+    const name = Buffer.from(fileName)
+    const data = Buffer.from(content)
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt32LE(data.length, 18)
+    local.writeUInt32LE(data.length, 22)
+    local.writeUInt16LE(name.length, 26)
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt32LE(data.length, 20)
+    central.writeUInt32LE(data.length, 24)
+    central.writeUInt16LE(name.length, 28)
+    central.writeUInt32LE(offset, 42)
+    locals.push(local, name, data)
+    centrals.push(central, name)
+    offset += 30 + name.length + data.length
+  }
+  const directory = Buffer.concat(centrals)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(centrals.length / 2, 10)
+  end.writeUInt32LE(directory.length, 12)
+  end.writeUInt32LE(offset, 16)
+  return Buffer.concat([...locals, directory, end])
+}
+
+describe('Device Import', () => {
+  beforeEach(async () => {
+    await cleanupTestData()
+    testPrisma.deviceTypeDefinition.findMany.mockResolvedValue([])
+    testPrisma.room.findMany.mockResolvedValue(context.rooms)
+    testPrisma.device.findMany.mockResolvedValue([{ ip: '10.0.0.1' }])
+    testPrisma.router.findMany.mockResolvedValue([])
+    testPrisma.systemConfig.findUnique.mockResolvedValue(null)
+    testPrisma.device.create.mockImplementation(({ data }: any) => Promise.resolve({ id: `d-${data.ip}`, ...data }))
+  })
+
+  it('should read quoted CSV cells and semicolon separated files', () => {
+    expect(parseCsv('Name,IP\r\n"Rack ""A"", left",10.0.0.5\r\n')).toEqual([['Name', 'IP'], ['Rack "A", left', '10.0.0.5']])
+    expect(parseCsv('\uFEFFName;IP\nCore;10.0.0.1')).toEqual([['Name', 'IP'], ['Core', '10.0.0.1']])
+    expect(writeCsv([['=HYPERLINK("x")', 5]])).toBe('\uFEFF"\'=HYPERLINK(""x"")",5\r\n')
+  })
+
+  it('should read back the XLSX files it writes', () => {
+    const rows = [['Name', 'IP', 'Timeout'], ['Café <1> & co', '10.0.0.5', 1000], ['Core', null, null]]
+
+    expect(readSpreadsheet(writeXlsx(rows))).toEqual([
+      ['Name', 'IP', 'Timeout'],
+      ['Café <1> & co', '10.0.0.5', '1000'],
+      ['Core']
+    ])
+  })
+
+  it('should refuse sheets over the row limit and parts that unpack too large', () => {
+    const table = [['Name'], ['a'], ['b'], ['c']]
+    expect(() => readSpreadsheet(writeXlsx(table), 3)).toThrow('The sheet has more than 3 rows')
+    expect(() => readSpreadsheet(Buffer.from('Name\na\nb\nc'), 3)).toThrow('The sheet has more than 3 rows')
+
+    // Claim a 1 GB worksheet in the central directory - refused before inflating
+    const xlsx = writeXlsx(table)
+    const entry = xlsx.lastIndexOf('xl/worksheets/sheet1.xml') - 46
+    xlsx.writeUInt32LE(1024 * 1024 * 1024, entry + 24)
+    expect(() => readSpreadsheet(xlsx)).toThrow('larger than 8 MB unpacked')
+  })
+
+  it('should match the sheet relationship without treating its id as a pattern', () => {
+    const sheet = '<worksheet><sheetData><row r="1"><c r="A1" t="inlineStr"><is><t>Name</t></is></c></row></sheetData></worksheet>'
+    const workbook = (id: string) => storedZip({
+      'xl/workbook.xml': `<workbook><sheets><sheet name="S" sheetId="1" r:id="${id}"/></sheets></workbook>`,
+      'xl/_rels/workbook.xml.rels': `<Relationships><Relationship Id="(a" Target="worksheets/other.xml"/><Relationship Id="${id}" Target="worksheets/other.xml"/></Relationships>`,
+      'xl/worksheets/other.xml': sheet
+    })
+
+    expect(readSpreadsheet(workbook('(a+)+b'))).toEqual([['Name']])
+    expect(readSpreadsheet(workbook('[unclosed'))).toEqual([['Name']])
+  })
+
+  it('should report every problem of a row with its row number', () => {
+    const { error, rows } = parseDeviceImport(parseCsv(inventory), context)
+
+    expect(error).toBeNull()
+    expect(rows.map(row => row.row)).toEqual([2, 3, 4, 5])
+    expect(rows[0].errors).toEqual(['10.0.0.1 is already a device'])
+    expect(rows[1]).toMatchObject({ type: 'CCTV', roomId: 'room-1', roomName: 'Server Room', macAddress: 'AA:BB:CC:DD:EE:FF', errors: [] })
+    expect(rows[2].errors).toEqual(['Unknown type "TOASTER"', 'Room "Basement" does not exist'])
+    expect(rows[3].errors).toEqual(['10.0.0.20 is also on row 3', 'Lane is required'])
+
+    expect(parseDeviceImport([['Name', 'Address']], context).error).toBe('Missing columns: Type, Lane')
+  })
+
+  it('should preview the rows without creating devices', async () => {
+    const response = await importDevices(importRequest(inventory, true))
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data).toMatchObject({ dryRun: true, valid: 1, invalid: 3 })
+    expect(data.rows).toHaveLength(4)
+    expect(testPrisma.device.create).not.toHaveBeenCalled()
+  })
+
+  it('should create only the valid rows with their type defaults', async () => {
+    const response = await importDevices(importRequest(inventory, false))
+    const data = await response.json()
+
+    expect(response.status).toBe(201)
+    expect(data.message).toBe('Imported 1 device, skipped 3 rows with errors')
+    expect(testPrisma.device.create).toHaveBeenCalledTimes(1)
+    expect(testPrisma.device.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        name: 'Lobby Cam',
+        ip: '10.0.0.20',
+        type: 'CCTV',
+        roomId: 'room-1',
+        macAddress: 'AA:BB:CC:DD:EE:FF',
+        netwatchTimeout: 1000,
+        netwatchInterval: 5
+      })
+    })
+  })
+
+  it('should skip rows whose IP was added while the import ran', async () => {
+    testPrisma.device.create.mockRejectedValueOnce(Object.assign(new Error('Unique constraint failed'), { code: 'P2002' }))
+
+    const response = await importDevices(importRequest(inventory, false))
+    const data = await response.json()
+
+    expect(response.status).toBe(201)
+    expect(data).toMatchObject({ created: 0, skipped: 4, takenRows: [3] })
+    expect(data.message).toContain('skipped row 3 - the IP was added as a device in the meantime')
+  })
+
+  it('should export the requested devices in table order', async () => {
+    testPrisma.device.findMany.mockResolvedValue([
+      { id: 'd1', name: 'Core', ip: '10.0.0.1', type: 'ROUTER', laneName: 'Rack', macAddress: null, hostname: null, netwatchTimeout: 1000, netwatchInterval: 5, status: 'up', lastSeen: null, room: null, router: { name: 'Main' } },
+      { id: 'd2', name: 'Cam, lobby', ip: '10.0.0.20', type: 'CCTV', laneName: 'Lobby', macAddress: null, hostname: null, netwatchTimeout: 1000, netwatchInterval: 5, status: 'down', lastSeen: null, room: { name: 'Server Room' }, router: null }
+    ])
+
+    const response = await exportDevices(new NextRequest('http://localhost:3000/api/devices/export', {
+      method: 'POST',
+      body: JSON.stringify({ format: 'csv', deviceIds: ['d2', 'd1'] })
+    }))
+    const lines = (await response.text()).split('\r\n')
+
+    expect(response.headers.get('Content-Disposition')).toMatch(/^attachment; filename="devices-.*\.csv"$/)
+    expect(lines[1]).toBe('"Cam, lobby",10.0.0.20,CCTV,Lobby,Server Room,,,1000,5,,down,')
+    expect(lines[2]).toBe('Core,10.0.0.1,ROUTER,Rack,,,,1000,5,Main,up,')
+
+    // An export imports again
+    expect(parseDeviceImport(parseCsv(lines.join('\n')), { ...context, existingIps: [] }).rows.every(row => row.errors.length === 0)).toBe(true)
+  })
+})
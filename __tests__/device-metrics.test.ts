@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { testPrisma, cleanupTestData } from './test-prisma'
+import {
+  downsampleMetrics,
+  isDegraded,
+  parseNetwatchMetrics,
+  parseRouterOSDuration,
+  validateDegradedThresholds
+} from '@/lib/device-metrics'
+import { computeUptimeTotals } from '@/lib/sla'
+import { GET as getMetrics } from '@/app/api/devices/[id]/metrics/route'
+import { NextRequest } from 'next/server'
+
+// Mock the main prisma client to use the test client
+vi.mock('@/lib/prisma', () => ({
+  prisma: testPrisma
+}))
+
+// Mock auth module
+vi.mock('@/auth', () => ({
+  auth: vi.fn(() => Promise.resolve({ user: { id: 'viewer', role: 'VIEWER' } }))
+}))
+
+vi.spyOn(console, 'error').mockImplementation(() => {})
+
+const at = (value: string) => new Date(value)
+
+const thresholds = { latencyThresholdMs: 50, lossThresholdPercent: 10 }
+
+describe('Device Metrics', () => {
+  beforeEach(async () => {
+    await cleanupTestData()
+  })
+
+  describe('parseRouterOSDuration', () => {
+    it('should parse RouterOS duration strings to milliseconds', () => {
+      expect(parseRouterOSDuration('2ms350us')).toBe(2.35)
+      expect(parseRouterOSDuration('1s5ms')).toBe(1005)
+      expect(parseRouterOSDuration('00:00:01.5')).toBe(1500)
+      expect(parseRouterOSDuration('12')).toBe(12)
+    })
+
+    it('should reject values that are not durations', () => {
+      expect(parseRouterOSDuration(undefined)).toBeNull()
+      expect(parseRouterOSDuration('')).toBeNull()
+      expect(parseRouterOSDuration('fast')).toBeNull()
+      expect(parseRouterOSDuration('5ms later')).toBeNull()
+    })
+  })
+
+  it('should read latency and loss from a netwatch entry', () => {
+    expect(parseNetwatchMetrics({
+      host: '10.0.0.1',
+      status: 'up',
+      'rtt-avg': '12ms500us',
+      'rtt-max': '40ms',
+      'rtt-jitter': '3ms',
+      'loss-percent': '20%'
+    })).toEqual({ rttAvgMs: 12.5, rttMaxMs: 40, jitterMs: 3, lossPercent: 20 })
+
+    // RouterOS 6 and non-ICMP probes only report the status
+    expect(parseNetwatchMetrics({ host: '10.0.0.1', status: 'up' })).toBeNull()
+  })
+
+  it('should mark a device degraded only above a configured threshold', () => {
+    const sample = { rttAvgMs: 80, rttMaxMs: 120, jitterMs: 5, lossPercent: 0 }
+
+    expect(isDegraded(sample, thresholds)).toBe(true)
+    expect(isDegraded({ ...sample, rttAvgMs: 20, lossPercent: 25 }, thresholds)).toBe(true)
+    expect(isDegraded({ ...sample, rttAvgMs: 50 }, thresholds)).toBe(false)
+    expect(isDegraded(sample, { latencyThresholdMs: null, lossThresholdPercent: null })).toBe(false)
+    expect(isDegraded(null, thresholds)).toBe(false)
+  })
+
+  it('should validate thresholds and allow clearing them', () => {
+    expect(validateDegradedThresholds({ latencyThresholdMs: '100', lossThresholdPercent: '' })).toBeNull()
+    expect(validateDegradedThresholds({})).toBeNull()
+    expect(validateDegradedThresholds({ latencyThresholdMs: 0 })).toMatch(/Latency threshold/)
+    expect(validateDegradedThresholds({ lossThresholdPercent: 100 })).toMatch(/Packet loss threshold/)
+  })
+
+  it('should average samples into buckets and keep the worst round trip', () => {
+    const points = [10, 20, 30, 40].map((rtt, index) => ({
+      timestamp: at(`2025-03-01T10:0${index}:00`),
+      rttAvgMs: rtt,
+      rttMaxMs: rtt * 2,
+      jitterMs: null,
+      lossPercent: index === 1 ? 50 : 0
+    }))
+
+    expect(downsampleMetrics(points, 2)).toEqual([
+      { timestamp: at('2025-03-01T10:01:00'), rttAvgMs: 15, rttMaxMs: 40, jitterMs: null, lossPercent: 25 },
+      { timestamp: at('2025-03-01T10:03:00'), rttAvgMs: 35, rttMaxMs: 80, jitterMs: null, lossPercent: 0 }
+    ])
+  })
+
+  it('should count degraded time as uptime', () => {
+    const totals = computeUptimeTotals(
+      { status: 'up', maintenance: false, timestamp: at('2025-03-01T00:00:00') },
+      [{ status: 'degraded', maintenance: false, timestamp: at('2025-03-01T06:00:00') }],
+      at('2025-03-01T00:00:00'),
+      at('2025-03-01T12:00:00')
+    )
+
+    expect(totals.upSeconds).toBe(12 * 3600)
+    expect(totals.outages).toBe(0)
+  })
+
+  it('should return the latest sample and thresholds for the popup', async () => {
+    testPrisma.device.findUnique.mockResolvedValue({ id: 'd1', latencyThresholdMs: 50, lossThresholdPercent: null })
+    testPrisma.deviceMetric.findMany.mockResolvedValue([
+      { timestamp: at('2025-03-01T10:00:00'), rttAvgMs: 10, rttMaxMs: 15, jitterMs: 1, lossPercent: 0 },
+      { timestamp: at('2025-03-01T10:01:00'), rttAvgMs: 70, rttMaxMs: 90, jitterMs: 4, lossPercent: 0 }
+    ])
+
+    const response = await getMetrics(
+      new NextRequest('http://localhost:3000/api/devices/d1/metrics?hours=6'),
+      { params: { id: 'd1' } }
+    )
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.metrics).toHaveLength(2)
+    expect(data.latest.rttAvgMs).toBe(70)
+    expect(data.thresholds).toEqual({ latencyThresholdMs: 50, lossThresholdPercent: null })
+    expect(data.timeRange.hours).toBe(6)
+  })
+
+  it('should return 404 for an unknown device', async () => {
+    testPrisma.device.findUnique.mockResolvedValue(null)
+
+    const response = await getMetrics(
+      new NextRequest('http://localhost:3000/api/devices/missing/metrics'),
+      { params: { id: 'missing' } }
+    )
+
+    expect(response.status).toBe(404)
+    expect(testPrisma.deviceMetric.findMany).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,183 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { testPrisma, cleanupTestData } from './test-prisma'
+import {
+  commitProbeStatuses,
+  mainProbeStatus,
+  matchDeviceProbes,
+  probeFromNetwatchEntry,
+  toImportedProbes,
+  validateProbeInput
+} from '@/lib/device-probes'
+import { toNetwatchProbe } from '@/lib/netwatch-probes'
+import { POST as createProbe } from '@/app/api/devices/[id]/probes/route'
+import { NextRequest } from 'next/server'
+
+// Mock the main prisma client to use the test client
+vi.mock('@/lib/prisma', () => ({
+  prisma: testPrisma
+}))
+
+// Mock auth module
+vi.mock('@/auth', () => ({
+  auth: vi.fn(() => Promise.resolve({ user: { id: 'operator', role: 'OPERATOR' } }))
+}))
+
+vi.spyOn(console, 'error').mockImplementation(() => {})
+
+const http = { id: 'p1', name: 'HTTP', type: 'http-get', port: 80, httpCode: 200, dnsName: null, timeout: 1000, interval: 10 }
+const ssh = { id: 'p2', name: 'SSH', type: 'tcp-conn', port: 22, httpCode: null, dnsName: null, timeout: 1000, interval: 10 }
+
+const server = {
+  id: 'd1',
+  name: 'Web Server',
+  ip: '10.0.0.10',
+  status: 'up',
+  routerId: null,
+  netwatchType: 'icmp',
+  netwatchPort: null,
+  netwatchHttpCode: null,
+  netwatchDnsName: null,
+  netwatchTimeout: 1000,
+  netwatchInterval: 5,
+  probes: [http, ssh]
+}
+
+describe('Device Probes', () => {
+  beforeEach(async () => {
+    await cleanupTestData()
+  })
+
+  describe('matchDeviceProbes', () => {
+    it('should tell the entries of one host apart by type and port', () => {
+      const entries = [
+        { '.id': '*3', host: '10.0.0.10', type: 'tcp-conn', port: '22', status: 'down' },
+        { '.id': '*1', host: '10.0.0.10', type: 'icmp', status: 'up' },
+        { '.id': '*2', host: '10.0.0.10', type: 'http-get', port: '80', status: 'up' },
+        { '.id': '*4', host: '10.0.0.11', type: 'icmp', status: 'up' }
+      ]
+
+      const { mainEntry, probeEntries } = matchDeviceProbes(entries, server)
+
+      expect(mainEntry['.id']).toBe('*1')
+      expect(probeEntries.get('p1')['.id']).toBe('*2')
+      expect(probeEntries.get('p2')['.id']).toBe('*3')
+    })
+
+    it('should fall back to an unclaimed entry on the host for the device itself', () => {
+      const entries = [
+        { '.id': '*2', host: '10.0.0.10', type: 'http-get', port: '80', status: 'up' },
+        { '.id': '*5', host: '10.0.0.10', type: 'dns', 'dns-name': 'example.com', status: 'up' }
+      ]
+
+      const { mainEntry, probeEntries } = matchDeviceProbes(entries, server)
+
+      expect(mainEntry['.id']).toBe('*5')
+      expect(probeEntries.has('p2')).toBe(false)
+    })
+
+    it('should follow marked entries whose host or type changed on the router', () => {
+      const entries = [
+        { '.id': '*1', host: '10.0.0.99', type: 'icmp', comment: '[nw:d1] Web Server', status: 'up' },
+        { '.id': '*2', host: '10.0.0.10', type: 'tcp-conn', port: '8080', comment: '[nw:p1] Web Server - HTTP', status: 'up' },
+        { '.id': '*3', host: '10.0.0.10', type: 'tcp-conn', port: '22', comment: '[nw:other] Jump Host', status: 'up' }
+      ]
+
+      const { mainEntry, probeEntries } = matchDeviceProbes(entries, server)
+
+      expect(mainEntry['.id']).toBe('*1')
+      expect(probeEntries.get('p1')['.id']).toBe('*2')
+      // Marked for another owner - never taken even though it matches the SSH probe
+      expect(probeEntries.has('p2')).toBe(false)
+    })
+
+    it('should find an unmarked entry by its recorded RouterOS id', () => {
+      const entries = [{ '.id': '*7', host: '10.0.0.50', type: 'icmp', comment: 'renamed by hand', status: 'down' }]
+
+      const { mainEntry } = matchDeviceProbes(entries, { ...server, netwatchEntryId: '*7', probes: [] })
+
+      expect(mainEntry['.id']).toBe('*7')
+    })
+  })
+
+  it('should reject a probe that repeats the device or another probe', () => {
+    const others = [toNetwatchProbe(server), toNetwatchProbe({ netwatchType: 'http-get' })]
+
+    expect(validateProbeInput({ name: 'HTTPS', type: 'tcp-conn', port: 443 }, others)).toBeNull()
+    expect(validateProbeInput({ name: 'Ping', type: 'icmp' }, others)).toMatch(/already has a probe/)
+    expect(validateProbeInput({ name: 'Web', type: 'http-get', port: '80' }, others)).toMatch(/already has a probe/)
+    expect(validateProbeInput({ name: ' ', type: 'icmp' }, others)).toBe('Probe name is required')
+    expect(validateProbeInput({ name: 'RTSP', type: 'tcp-conn', port: 554, interval: 1 }, others)).toMatch(/interval/)
+  })
+
+  it('should name imported probes after the comment this app writes', () => {
+    expect(probeFromNetwatchEntry(
+      { host: '10.0.0.10', type: 'tcp-conn', port: '22', comment: 'Web Server - SSH', timeout: '2s', interval: '30s' },
+      'Web Server'
+    )).toEqual({ name: 'SSH', type: 'tcp-conn', port: 22, httpCode: null, dnsName: null, timeout: 2000, interval: 30 })
+
+    expect(probeFromNetwatchEntry({ host: '10.0.0.10', type: 'http-get' }, 'Web Server').name).toBe('HTTP GET')
+  })
+
+  it('should drop repeated and invalid probes on import', () => {
+    const probes = toImportedProbes(toNetwatchProbe(server), [
+      { name: 'SSH', type: 'tcp-conn', port: 22 },
+      { name: 'SSH again', type: 'tcp-conn', port: 22 },
+      { name: 'Ping', type: 'icmp' },
+      { name: 'DNS', type: 'dns' }
+    ])
+
+    expect(probes.map(probe => probe.name)).toEqual(['SSH'])
+  })
+
+  it('should show the device itself as up while degraded', () => {
+    expect(mainProbeStatus('degraded')).toBe('up')
+    expect(mainProbeStatus('unreachable')).toBe('down')
+    expect(mainProbeStatus('unknown')).toBe('unknown')
+  })
+
+  it('should only write probe states that changed, and refresh lastSeen of up probes', async () => {
+    const now = new Date('2025-03-01T10:00:00')
+    testPrisma.probe.findMany.mockResolvedValue([
+      { id: 'p1', status: 'up' },
+      { id: 'p2', status: 'up' }
+    ])
+
+    await commitProbeStatuses(new Map([['p1', 'up'], ['p2', 'down']]), now)
+
+    expect(testPrisma.probe.update).toHaveBeenCalledWith({ where: { id: 'p1' }, data: { lastSeen: now } })
+    expect(testPrisma.probe.update).toHaveBeenCalledWith({ where: { id: 'p2' }, data: { status: 'down', statusSince: now } })
+  })
+
+  it('should add a probe to a device that is not bound to a router', async () => {
+    testPrisma.device.findUnique.mockResolvedValue(server)
+    testPrisma.probe.create.mockResolvedValue({ id: 'p3', name: 'RTSP' })
+
+    const response = await createProbe(
+      new NextRequest('http://localhost:3000/api/devices/d1/probes', {
+        method: 'POST',
+        body: JSON.stringify({ name: 'RTSP', type: 'tcp-conn', port: '554' })
+      }),
+      { params: { id: 'd1' } }
+    )
+
+    expect(response.status).toBe(201)
+    expect(testPrisma.probe.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ deviceId: 'd1', name: 'RTSP', type: 'tcp-conn', port: 554 })
+    })
+  })
+
+  it('should refuse a probe that repeats an existing one', async () => {
+    testPrisma.device.findUnique.mockResolvedValue(server)
+
+    const response = await createProbe(
+      new NextRequest('http://localhost:3000/api/devices/d1/probes', {
+        method: 'POST',
+        body: JSON.stringify({ name: 'Admin SSH', type: 'tcp-conn', port: 22 })
+      }),
+      { params: { id: 'd1' } }
+    )
+
+    expect(response.status).toBe(400)
+    expect(testPrisma.probe.create).not.toHaveBeenCalled()
+  })
+})
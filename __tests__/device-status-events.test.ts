@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { testPrisma, cleanupTestData } from './test-prisma'
+import { getStatusEventsSince, parseStatusEventId } from '@/lib/status-events'
+import { applyStatusEvents } from '@/hooks/useDeviceStatusStream'
+import { GET } from '@/app/api/devices/events/route'
+import { NextRequest } from 'next/server'
+
+// Mock the main prisma client to use the test client
+vi.mock('@/lib/prisma', () => ({
+  prisma: testPrisma
+}))
+
+// Mock auth module
+let authMock: any = { user: { id: 'test-user', role: 'VIEWER' } }
+
+vi.mock('@/auth', () => ({
+  auth: vi.fn(() => Promise.resolve(authMock))
+}))
+
+const t0 = new Date('2025-01-01T10:00:00.000Z')
+const t1 = new Date('2025-01-01T10:00:05.000Z')
+
+const historyRow = (id: string, deviceId: string, status: string, timestamp: Date) => ({
+  id,
+  deviceId,
+  deviceIp: `192.168.1.${deviceId.length}`,
+  status,
+  timestamp
+})
+
+describe('Device Status Events', () => {
+  beforeEach(async () => {
+    await cleanupTestData()
+    authMock = { user: { id: 'test-user', role: 'VIEWER' } }
+    testPrisma.device.findMany.mockResolvedValue([])
+  })
+
+  describe('getStatusEventsSince', () => {
+    it('should return new status changes with current device timestamps', async () => {
+      testPrisma.deviceStatusHistory.findMany.mockResolvedValue([
+        historyRow('h1', 'device-1', 'down', t1)
+      ])
+      testPrisma.device.findMany.mockResolvedValue([
+        { id: 'device-1', statusSince: t1, lastSeen: t0 }
+      ])
+
+      const result = await getStatusEventsSince({ since: t0, afterId: '' })
+
+      expect(result.events).toEqual([{
+        id: 'h1',
+        deviceId: 'device-1',
+        deviceIp: '192.168.1.8',
+        status: 'down',
+        timestamp: t1.toISOString(),
+        statusSince: t1.toISOString(),
+        lastSeen: t0.toISOString()
+      }])
+      expect(result.cursor).toEqual({ since: t1, afterId: 'h1' })
+    })
+
+    it('should not resend rows sharing the cursor timestamp', async () => {
+      testPrisma.deviceStatusHistory.findMany.mockResolvedValue([
+        historyRow('h2', 'device-2', 'up', t1)
+      ])
+
+      const result = await getStatusEventsSince({ since: t1, afterId: 'h1' })
+
+      expect(testPrisma.deviceStatusHistory.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { OR: [{ timestamp: { gt: t1 } }, { timestamp: t1, id: { gt: 'h1' } }] },
+          orderBy: [{ timestamp: 'asc' }, { id: 'asc' }]
+        })
+      )
+      expect(result.cursor).toEqual({ since: t1, afterId: 'h2' })
+    })
+
+    it('should resume strictly after the last event id', () => {
+      expect(parseStatusEventId(`${t1.toISOString()}/h1`)).toEqual({ since: t1, afterId: 'h1' })
+      expect(parseStatusEventId(t1.toISOString())).toBeNull()
+      expect(parseStatusEventId('garbage/h1')).toBeNull()
+    })
+
+    it('should keep the cursor when nothing changed', async () => {
+      testPrisma.deviceStatusHistory.findMany.mockResolvedValue([])
+      const cursor = { since: t0, afterId: '' }
+
+      const result = await getStatusEventsSince(cursor)
+
+      expect(result.events).toHaveLength(0)
+      expect(result.cursor).toBe(cursor)
+      expect(testPrisma.device.findMany).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('applyStatusEvents', () => {
+    const devices = [
+      { id: 'device-1', status: 'up', statusSince: null, lastSeen: null },
+      { id: 'device-2', status: 'up', statusSince: null, lastSeen: null }
+    ]
+
+    it('should apply the latest event per device', () => {
+      const updated = applyStatusEvents(devices, [
+        { id: 'h1', deviceId: 'device-1', deviceIp: '', status: 'down', timestamp: '', statusSince: t0.toISOString(), lastSeen: null },
+        { id: 'h2', deviceId: 'device-1', deviceIp: '', status: 'up', timestamp: '', statusSince: t1.toISOString(), lastSeen: t1.toISOString() }
+      ])
+
+      expect(updated[0]).toMatchObject({ status: 'up', statusSince: t1.toISOString() })
+      expect(updated[1]).toBe(devices[1])
+    })
+
+    it('should return the same list for events of unknown devices', () => {
+      const updated = applyStatusEvents(devices, [
+        { id: 'h1', deviceId: 'deleted', deviceIp: '', status: 'down', timestamp: '', statusSince: null, lastSeen: null }
+      ])
+
+      expect(updated).toBe(devices)
+    })
+  })
+
+  describe('GET /api/devices/events', () => {
+    it('should require authentication', async () => {
+      authMock = null
+
+      const response = await GET(new NextRequest('http://localhost:3000/api/devices/events'))
+
+      expect(response.status).toBe(401)
+    })
+
+    it('should stream status changes as server-sent events', async () => {
+      testPrisma.deviceStatusHistory.findMany.mockResolvedValue([
+        historyRow('h1', 'device-1', 'down', t1)
+      ])
+      const controller = new AbortController()
+
+      const response = await GET(new NextRequest('http://localhost:3000/api/devices/events', {
+        headers: { 'Last-Event-ID': `${t0.toISOString()}/h0` },
+        signal: controller.signal
+      }))
+
+      expect(response.headers.get('Content-Type')).toBe('text/event-stream')
+
+      const reader = response.body!.getReader()
+      const decoder = new TextDecoder()
+      let text = ''
+      while (!text.includes('event: status')) {
+        const { value } = await reader.read()
+        text += decoder.decode(value)
+      }
+      controller.abort()
+
+      expect(text).toContain(`id: ${t1.toISOString()}/h1`)
+      expect(text).toContain('"deviceId":"device-1"')
+      expect(testPrisma.deviceStatusHistory.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { OR: [{ timestamp: { gt: t0 } }, { timestamp: t0, id: { gt: 'h0' } }] }
+        })
+      )
+    })
+  })
+})
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { testPrisma, cleanupTestData } from './test-prisma'
+import { loadDeviceTypes, validateDeviceTypeInput } from '@/lib/device-types'
+import { POST as createDeviceType } from '@/app/api/device-types/route'
+import { DELETE as deleteDeviceType } from '@/app/api/device-types/[key]/route'
+import { POST as createDevice } from '@/app/api/devices/route'
+import { NextRequest } from 'next/server'
+
+// Mock the main prisma client to use the test client
+vi.mock('@/lib/prisma', () => ({
+  prisma: testPrisma
+}))
+
+// Mock auth module
+vi.mock('@/auth', () => ({
+  auth: vi.fn(() => Promise.resolve({ user: { id: 'admin', role: 'ADMIN' } }))
+}))
+
+const nvrRow = {
+  key: 'NVR',
+  label: 'Video Recorder',
+  icon: 'hard-drive',
+  iconSvg: null,
+  color: '#0f766e',
+  netwatchTimeout: 3000,
+  netwatchInterval: 30,
+  createdAt: new Date(),
+  updatedAt: new Date()
+}
+
+const routerOverride = { ...nvrRow, key: 'ROUTER', label: 'Core Router', icon: 'server', netwatchTimeout: null, netwatchInterval: null }
+
+describe('Device Types', () => {
+  beforeEach(async () => {
+    await cleanupTestData()
+    testPrisma.deviceTypeDefinition.findMany.mockResolvedValue([])
+    testPrisma.systemConfig.findUnique.mockResolvedValue(null)
+    testPrisma.router.findMany.mockResolvedValue([])
+  })
+
+  it('should list built-in types with overrides first, then custom types', async () => {
+    testPrisma.deviceTypeDefinition.findMany.mockResolvedValue([nvrRow, routerOverride])
+
+    const types = await loadDeviceTypes()
+
+    expect(types).toHaveLength(14)
+    expect(types[0]).toMatchObject({ key: 'ROUTER', label: 'Core Router', icon: 'server', builtIn: true })
+    expect(types[1]).toMatchObject({ key: 'SWITCH', label: 'Switch', icon: 'network', builtIn: true })
+    expect(types[13]).toMatchObject({ key: 'NVR', netwatchTimeout: 3000, builtIn: false })
+  })
+
+  it('should validate keys, icons, colours and uploaded SVGs', () => {
+    const valid = { key: 'NVR', label: 'Video Recorder', icon: 'hard-drive', color: '#0f766e' }
+
+    expect(validateDeviceTypeInput(valid, true)).toBeNull()
+    expect(validateDeviceTypeInput({ ...valid, key: 'nvr box' }, true)).toContain('Key must start with a letter')
+    expect(validateDeviceTypeInput({ ...valid, icon: 'toaster' }, true)).toContain('Icon must be one of')
+    expect(validateDeviceTypeInput({ ...valid, color: 'teal' }, true)).toContain('hex colour')
+    expect(validateDeviceTypeInput({ ...valid, iconSvg: '<png/>' }, true)).toBe('Uploaded icon must be an SVG image')
+    expect(validateDeviceTypeInput({ ...valid, iconSvg: '<svg onload="alert(1)"></svg>' }, true)).toContain('must not contain scripts')
+    expect(validateDeviceTypeInput({ ...valid, netwatchInterval: 1 }, true)).toContain('between 5s and 3600s')
+  })
+
+  it('should not add a type whose key already exists', async () => {
+    const response = await createDeviceType(new NextRequest('http://localhost:3000/api/device-types', {
+      method: 'POST',
+      body: JSON.stringify({ key: 'ROUTER', label: 'Router 2', icon: 'router', color: '#2563eb' })
+    }))
+    const data = await response.json()
+
+    expect(response.status).toBe(400)
+    expect(data.error).toBe('Device type already exists')
+    expect(testPrisma.deviceTypeDefinition.upsert).not.toHaveBeenCalled()
+  })
+
+  it('should create devices of a custom type with its netwatch defaults', async () => {
+    testPrisma.deviceTypeDefinition.findMany.mockResolvedValue([nvrRow])
+    testPrisma.device.findUnique.mockResolvedValue(null)
+    testPrisma.device.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'd1', ...data }))
+
+    const response = await createDevice(new NextRequest('http://localhost:3000/api/devices', {
+      method: 'POST',
+      body: JSON.stringify({ name: 'Recorder', ip: '10.0.0.50', type: 'NVR', laneName: 'Rack' })
+    }))
+
+    expect(response.status).toBe(201)
+    expect(testPrisma.device.create).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({ type: 'NVR', netwatchTimeout: 3000, netwatchInterval: 30 })
+    }))
+  })
+
+  it('should keep custom types that devices still use', async () => {
+    testPrisma.deviceTypeDefinition.findMany.mockResolvedValue([nvrRow])
+    testPrisma.device.count.mockResolvedValue(2)
+
+    const response = await deleteDeviceType(
+      new NextRequest('http://localhost:3000/api/device-types/NVR', { method: 'DELETE' }),
+      { params: { key: 'NVR' } }
+    )
+    const data = await response.json()
+
+    expect(response.status).toBe(400)
+    expect(data.error).toBe('Device type is still used by 2 devices')
+    expect(testPrisma.deviceTypeDefinition.delete).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { testPrisma, cleanupTestData } from './test-prisma'
+import { applyHistoryRetention, getHistoryCutoff, toHistoryRetentionSettings } from '@/lib/history-retention'
+import { PUT as updateConfig } from '@/app/api/config/route'
+import { NextRequest } from 'next/server'
+
+// Mock the main prisma client to use the test client
+vi.mock('@/lib/prisma', () => ({
+  prisma: testPrisma
+}))
+
+// Mock auth module
+vi.mock('@/auth', () => ({
+  auth: vi.fn(() => Promise.resolve({ user: { id: 'admin', role: 'ADMIN' } }))
+}))
+
+vi.spyOn(console, 'error').mockImplementation(() => {})
+
+const at = (value: string) => new Date(value)
+
+describe('History Retention', () => {
+  beforeEach(async () => {
+    await cleanupTestData()
+  })
+
+  describe('getHistoryCutoff', () => {
+    it('should cut off whole days before the retention period', () => {
+      const cutoff = getHistoryCutoff(30, at('2025-03-01T00:00:00'), at('2025-03-01T15:00:00'))
+
+      expect(cutoff).toEqual(at('2025-01-30T00:00:00'))
+    })
+
+    it('should never reach past the rolled up days', () => {
+      const cutoff = getHistoryCutoff(1, at('2025-02-20T00:00:00'), at('2025-03-01T15:00:00'))
+
+      expect(cutoff).toEqual(at('2025-02-20T00:00:00'))
+    })
+
+    it('should keep everything when disabled or nothing is rolled up', () => {
+      expect(getHistoryCutoff(0, at('2025-03-01T00:00:00'))).toBeNull()
+      expect(getHistoryCutoff(30, null)).toBeNull()
+    })
+  })
+
+  it('should default to 90 days and keep deleted device history', () => {
+    expect(toHistoryRetentionSettings(null)).toEqual({
+      historyRetentionDays: 90,
+      purgeDeletedDeviceHistory: false
+    })
+  })
+
+  it('should keep the last row before the cutoff for each device', async () => {
+    testPrisma.systemConfig.findUnique.mockResolvedValue({ historyRetentionDays: 30, purgeDeletedDeviceHistory: false })
+    testPrisma.deviceUptimeDaily.findFirst.mockResolvedValue({ day: at('2025-02-28T00:00:00') })
+    testPrisma.deviceStatusHistory.groupBy.mockResolvedValue([
+      { deviceId: 'd1', _max: { timestamp: at('2025-01-20T08:00:00') } }
+    ])
+    testPrisma.deviceStatusHistory.deleteMany.mockResolvedValue({ count: 12 })
+
+    const result = await applyHistoryRetention(at('2025-03-01T15:00:00'))
+
+    expect(testPrisma.deviceStatusHistory.groupBy).toHaveBeenCalledWith(expect.objectContaining({
+      where: { timestamp: { lt: at('2025-01-30T00:00:00') } }
+    }))
+    expect(testPrisma.deviceStatusHistory.deleteMany).toHaveBeenCalledWith({
+      where: { deviceId: 'd1', timestamp: { lt: at('2025-01-20T08:00:00') } }
+    })
+    expect(result.compacted).toBe(12)
+    expect(testPrisma.device.findMany).not.toHaveBeenCalled()
+  })
+
+  it('should purge history of deleted devices when enabled', async () => {
+    testPrisma.systemConfig.findUnique.mockResolvedValue({ historyRetentionDays: 0, purgeDeletedDeviceHistory: true })
+    testPrisma.deviceUptimeDaily.findFirst.mockResolvedValue(null)
+    testPrisma.device.findMany.mockResolvedValue([{ id: 'd1' }])
+    testPrisma.deviceStatusHistory.deleteMany.mockResolvedValue({ count: 5 })
+
+    const result = await applyHistoryRetention(at('2025-03-01T15:00:00'))
+
+    const where = { deviceId: { notIn: ['d1'] } }
+    expect(testPrisma.deviceStatusHistory.deleteMany).toHaveBeenCalledWith({ where })
+    expect(testPrisma.deviceUptimeDaily.deleteMany).toHaveBeenCalledWith({ where })
+    expect(testPrisma.deviceUptimeMonthly.deleteMany).toHaveBeenCalledWith({ where })
+    expect(result).toEqual({ compacted: 0, purged: 5 })
+  })
+
+  it('should reject a negative retention in the config API', async () => {
+    const response = await updateConfig(new NextRequest('http://localhost:3000/api/config', {
+      method: 'PUT',
+      body: JSON.stringify({ historyRetentionDays: -1 })
+    }))
+
+    expect(response.status).toBe(400)
+    expect(testPrisma.systemConfig.upsert).not.toHaveBeenCalled()
+  })
+})
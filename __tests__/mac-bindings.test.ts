@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { testPrisma, cleanupTestData } from './test-prisma'
+import { parseArpBindings, refreshMacBindings, toDeviceIdentity } from '@/lib/mac-bindings'
+import { normalizeMacAddress, validateDeviceIdentity } from '@/lib/device-identity'
+import { lookupOuiVendor, PRIVATE_MAC_VENDOR } from '@/lib/oui-vendors'
+import { DELETE } from '@/app/api/devices/[id]/mac-change/route'
+import { GET as getVendor } from '@/app/api/devices/vendor/route'
+import { NextRequest } from 'next/server'
+
+// Mock the main prisma client to use the test client
+vi.mock('@/lib/prisma', () => ({
+  prisma: testPrisma
+}))
+
+// Mock auth module
+vi.mock('@/auth', () => ({
+  auth: vi.fn(() => Promise.resolve({ user: { id: 'operator', role: 'OPERATOR' } }))
+}))
+
+const now = new Date('2026-03-02T10:00:00Z')
+
+const device = (overrides: Record<string, unknown> = {}) => ({
+  id: 'd1',
+  name: 'Lobby Camera',
+  ip: '10.0.0.20',
+  macAddress: null as string | null,
+  vendor: null as string | null,
+  previousMacAddress: null as string | null,
+  macChangedAt: null as Date | null,
+  ...overrides
+})
+
+describe('MAC Bindings', () => {
+  beforeEach(async () => {
+    await cleanupTestData()
+  })
+
+  it('should normalize MAC notations and resolve the OUI vendor', () => {
+    expect(normalizeMacAddress('b8-27-eb-12-34-56')).toBe('B8:27:EB:12:34:56')
+    expect(normalizeMacAddress('b827.eb12.3456')).toBe('B8:27:EB:12:34:56')
+    expect(normalizeMacAddress('B827EB123456')).toBe('B8:27:EB:12:34:56')
+    expect(normalizeMacAddress('B8:27:EB:12:34')).toBeNull()
+
+    expect(lookupOuiVendor('4c:5e:0c:00:00:01')).toBe('MikroTik')
+    expect(lookupOuiVendor('DA:A1:19:00:00:01')).toBe(PRIVATE_MAC_VENDOR)
+    expect(lookupOuiVendor('3C:22:FB:00:00:01')).toBe('Apple')
+    expect(lookupOuiVendor('F4:CE:46:00:00:01')).toBe('Hewlett Packard')
+    expect(lookupOuiVendor('08:00:00:00:00:01')).toBeNull()
+
+    expect(validateDeviceIdentity({ macAddress: 'not-a-mac' })).toBe('Invalid MAC address format')
+    expect(toDeviceIdentity({ macAddress: 'b8:27:eb:12:34:56', hostname: ' pi ' })).toEqual({
+      macAddress: 'B8:27:EB:12:34:56',
+      hostname: 'pi',
+      vendor: 'Raspberry Pi Foundation'
+    })
+  })
+
+  it('should look up the vendor on the server for the forms', async () => {
+    const lookup = (mac: string) => getVendor(new NextRequest(`http://localhost:3000/api/devices/vendor?mac=${encodeURIComponent(mac)}`))
+
+    const response = await lookup('4c-5e-0c-00-00-01')
+    expect(response.status).toBe(200)
+    expect(await response.json()).toEqual({ macAddress: '4C:5E:0C:00:00:01', vendor: 'MikroTik' })
+
+    expect((await lookup('4c:5e:0c')).status).toBe(400)
+  })
+
+  it('should read complete ARP entries only', () => {
+    const bindings = parseArpBindings([
+      { address: '10.0.0.20', 'mac-address': '28:57:be:00:00:20' },
+      { address: '10.0.0.21', invalid: 'true', 'mac-address': '28:57:BE:00:00:21' },
+      { address: '10.0.0.22' }
+    ])
+
+    expect(Array.from(bindings.entries())).toEqual([['10.0.0.20', '28:57:BE:00:00:20']])
+  })
+
+  it('should store the first MAC seen and flag a different one', async () => {
+    const arp = [
+      { address: '10.0.0.20', 'mac-address': '28:57:BE:00:00:20' },
+      { address: '10.0.0.21', 'mac-address': 'DA:A1:19:00:00:21' }
+    ]
+
+    const changes = await refreshMacBindings([
+      device(),
+      device({ id: 'd2', name: 'Front Desk PC', ip: '10.0.0.21', macAddress: '00:14:22:00:00:21', vendor: 'Dell' })
+    ], arp, now)
+
+    expect(testPrisma.device.update).toHaveBeenCalledWith({
+      where: { id: 'd1' },
+      data: { macAddress: '28:57:BE:00:00:20', vendor: 'Hangzhou Hikvision Digital Technology' }
+    })
+    expect(testPrisma.device.update).toHaveBeenCalledWith({
+      where: { id: 'd2' },
+      data: {
+        macAddress: 'DA:A1:19:00:00:21',
+        vendor: PRIVATE_MAC_VENDOR,
+        previousMacAddress: '00:14:22:00:00:21',
+        macChangedAt: now
+      }
+    })
+    expect(changes).toEqual([{
+      deviceId: 'd2',
+      name: 'Front Desk PC',
+      ip: '10.0.0.21',
+      previousMacAddress: '00:14:22:00:00:21',
+      macAddress: 'DA:A1:19:00:00:21'
+    }])
+  })
+
+  it('should keep the trusted MAC until the change is acknowledged', async () => {
+    const flagged = device({
+      macAddress: 'DA:A1:19:00:00:20',
+      previousMacAddress: '28:57:BE:00:00:20',
+      macChangedAt: new Date('2026-03-01T10:00:00Z')
+    })
+
+    const changes = await refreshMacBindings([flagged], [{ address: '10.0.0.20', 'mac-address': '28:57:BE:00:00:20' }], now)
+
+    // The original hardware is back, but the flag stays for review
+    expect(changes).toEqual([])
+    expect(testPrisma.device.update).toHaveBeenCalledWith({
+      where: { id: 'd1' },
+      data: { macAddress: '28:57:BE:00:00:20', vendor: 'Hangzhou Hikvision Digital Technology' }
+    })
+  })
+
+  it('should clear the flag when a MAC change is acknowledged', async () => {
+    testPrisma.device.findUnique.mockResolvedValue(device({
+      macAddress: 'DA:A1:19:00:00:20',
+      previousMacAddress: '28:57:BE:00:00:20',
+      macChangedAt: now
+    }))
+
+    const response = await DELETE(
+      new NextRequest('http://localhost:3000/api/devices/d1/mac-change', { method: 'DELETE' }),
+      { params: { id: 'd1' } }
+    )
+
+    expect(response.status).toBe(200)
+    expect(testPrisma.device.update).toHaveBeenCalledWith({
+      where: { id: 'd1' },
+      data: { previousMacAddress: null, macChangedAt: null }
+    })
+  })
+})
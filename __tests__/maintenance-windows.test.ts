@@ -0,0 +1,200 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { testPrisma, cleanupTestData } from './test-prisma'
+import {
+  getDeviceIdsInMaintenance,
+  getMaintenanceOccurrence,
+  isMaintenanceWindowActive,
+  MaintenanceWindowRecord,
+  validateMaintenanceWindowInput,
+  windowMatchesDevice
+} from '@/lib/maintenance'
+import { evaluateDownAlerts } from '@/lib/alerts'
+import { POST as createWindow } from '@/app/api/maintenance/route'
+import { NextRequest } from 'next/server'
+
+// Mock the main prisma client to use the test client
+vi.mock('@/lib/prisma', () => ({
+  prisma: testPrisma
+}))
+
+// Mock auth module
+let authMock: any = { user: { id: 'test-user', role: 'OPERATOR', username: 'operator' } }
+
+vi.mock('@/auth', () => ({
+  auth: vi.fn(() => Promise.resolve(authMock))
+}))
+
+vi.spyOn(console, 'log').mockImplementation(() => {})
+vi.spyOn(console, 'error').mockImplementation(() => {})
+
+const at = (value: string) => new Date(value)
+
+const nightlyWindow: MaintenanceWindowRecord = {
+  id: 'window-1',
+  name: 'Nightly switch reboot',
+  scope: 'ROOM',
+  deviceId: null,
+  roomId: 'room-1',
+  laneName: null,
+  startsAt: at('2025-01-01T02:00:00'),
+  endsAt: at('2025-01-01T03:00:00'),
+  recurrence: 'DAILY',
+  recurrenceUntil: null
+}
+
+const device = { id: 'device-1', roomId: 'room-1', laneName: 'Lane A' }
+
+describe('Maintenance Windows', () => {
+  beforeEach(async () => {
+    await cleanupTestData()
+    authMock = { user: { id: 'test-user', role: 'OPERATOR', username: 'operator' } }
+    testPrisma.maintenanceWindow.findMany.mockResolvedValue([])
+  })
+
+  describe('getMaintenanceOccurrence', () => {
+    it('should handle a one-off window', () => {
+      const window = { ...nightlyWindow, recurrence: 'NONE' }
+
+      expect(getMaintenanceOccurrence(window, at('2025-01-01T01:00:00'))?.active).toBe(false)
+      expect(getMaintenanceOccurrence(window, at('2025-01-01T02:30:00'))?.active).toBe(true)
+      expect(getMaintenanceOccurrence(window, at('2025-01-01T03:00:00'))).toBeNull()
+    })
+
+    it('should repeat a daily window', () => {
+      expect(isMaintenanceWindowActive(nightlyWindow, at('2025-01-05T02:15:00'))).toBe(true)
+      expect(isMaintenanceWindowActive(nightlyWindow, at('2025-01-05T04:00:00'))).toBe(false)
+
+      const next = getMaintenanceOccurrence(nightlyWindow, at('2025-01-05T04:00:00'))
+      expect(next?.start).toEqual(at('2025-01-06T02:00:00'))
+    })
+
+    it('should repeat a weekly window on the same weekday only', () => {
+      const weekly = { ...nightlyWindow, recurrence: 'WEEKLY' }
+
+      expect(isMaintenanceWindowActive(weekly, at('2025-01-08T02:30:00'))).toBe(true)
+      expect(isMaintenanceWindowActive(weekly, at('2025-01-07T02:30:00'))).toBe(false)
+    })
+
+    it('should stop repeating after the until date', () => {
+      const limited = { ...nightlyWindow, recurrenceUntil: at('2025-01-03T23:59:59') }
+
+      expect(isMaintenanceWindowActive(limited, at('2025-01-03T02:30:00'))).toBe(true)
+      expect(isMaintenanceWindowActive(limited, at('2025-01-04T02:30:00'))).toBe(false)
+      expect(getMaintenanceOccurrence(limited, at('2025-01-03T04:00:00'))).toBeNull()
+    })
+  })
+
+  describe('windowMatchesDevice', () => {
+    it('should match by scope', () => {
+      expect(windowMatchesDevice(nightlyWindow, device)).toBe(true)
+      expect(windowMatchesDevice({ ...nightlyWindow, scope: 'DEVICE', deviceId: 'device-1' }, device)).toBe(true)
+      expect(windowMatchesDevice({ ...nightlyWindow, scope: 'LANE', laneName: 'Lane A' }, device)).toBe(true)
+      expect(windowMatchesDevice({ ...nightlyWindow, scope: 'LANE', laneName: 'Lane B' }, device)).toBe(false)
+    })
+  })
+
+  describe('validateMaintenanceWindowInput', () => {
+    const valid = {
+      name: 'Reboot',
+      scope: 'DEVICE',
+      deviceId: 'device-1',
+      startsAt: '2025-01-01T02:00:00Z',
+      endsAt: '2025-01-01T03:00:00Z'
+    }
+
+    it('should accept a valid window', () => {
+      expect(validateMaintenanceWindowInput(valid)).toBeNull()
+    })
+
+    it('should reject an end before the start', () => {
+      expect(validateMaintenanceWindowInput({ ...valid, endsAt: '2025-01-01T01:00:00Z' })).toBe('End must be after start')
+    })
+
+    it('should reject a daily window longer than a day', () => {
+      expect(validateMaintenanceWindowInput({ ...valid, recurrence: 'DAILY', endsAt: '2025-01-02T03:00:00Z' }))
+        .toBe('A recurring window cannot be longer than its repeat interval')
+    })
+  })
+
+  it('should resolve devices covered by active windows', async () => {
+    testPrisma.maintenanceWindow.findMany.mockResolvedValue([nightlyWindow])
+    testPrisma.device.findMany.mockResolvedValue([
+      device,
+      { id: 'device-2', roomId: 'room-2', laneName: 'Lane A' }
+    ])
+
+    const ids = await getDeviceIdsInMaintenance(at('2025-01-02T02:30:00'))
+
+    expect(Array.from(ids)).toEqual(['device-1'])
+  })
+
+  it('should mute down alerts for devices in maintenance', async () => {
+    testPrisma.alertRule.findMany.mockResolvedValue([{
+      id: 'rule-1',
+      name: 'Everything',
+      scope: 'GLOBAL',
+      deviceId: null,
+      roomId: null,
+      deviceType: null,
+      minDownSeconds: 0,
+      renotifyMinutes: 0,
+      notifyOnRecovery: true,
+      enabled: true,
+      channel: { id: 'channel-1', name: 'Worker Log', type: 'LOG', config: '{}', enabled: true }
+    }])
+    testPrisma.device.findMany.mockResolvedValue([{
+      ...device,
+      name: 'Switch',
+      ip: '192.168.1.2',
+      type: 'SWITCH',
+      status: 'down',
+      statusSince: at('2025-01-02T02:05:00')
+    }])
+    testPrisma.maintenanceWindow.findMany.mockResolvedValue([nightlyWindow])
+
+    await evaluateDownAlerts(at('2025-01-02T02:30:00'))
+
+    expect(testPrisma.alertLog.create).not.toHaveBeenCalled()
+  })
+
+  describe('POST /api/maintenance', () => {
+    const body = {
+      name: 'Firmware upgrade',
+      scope: 'LANE',
+      laneName: 'Lane A',
+      startsAt: '2025-01-01T02:00:00Z',
+      endsAt: '2025-01-01T03:00:00Z'
+    }
+
+    it('should let an operator schedule a window', async () => {
+      testPrisma.maintenanceWindow.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'window-2', ...data }))
+
+      const response = await createWindow(new NextRequest('http://localhost:3000/api/maintenance', {
+        method: 'POST',
+        body: JSON.stringify(body)
+      }))
+
+      expect(response.status).toBe(201)
+      expect(testPrisma.maintenanceWindow.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          scope: 'LANE',
+          laneName: 'Lane A',
+          deviceId: null,
+          recurrence: 'NONE',
+          createdBy: 'operator'
+        })
+      })
+    })
+
+    it('should reject viewers', async () => {
+      authMock = { user: { id: 'test-user', role: 'VIEWER' } }
+
+      const response = await createWindow(new NextRequest('http://localhost:3000/api/maintenance', {
+        method: 'POST',
+        body: JSON.stringify(body)
+      }))
+
+      expect(response.status).toBe(403)
+    })
+  })
+})
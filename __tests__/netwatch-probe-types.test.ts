@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { testPrisma, cleanupTestData } from './test-prisma'
+import { parseNetwatchProbe, toNetwatchProbe, validateNetwatchProbe } from '@/lib/netwatch-probes'
+import { buildNetwatchParams } from '@/lib/mikrotik-sync'
+import { POST as createDevice } from '@/app/api/devices/route'
+import { NextRequest } from 'next/server'
+
+// Mock the main prisma client to use the test client
+vi.mock('@/lib/prisma', () => ({
+  prisma: testPrisma
+}))
+
+// Mock auth module
+vi.mock('@/auth', () => ({
+  auth: vi.fn(() => Promise.resolve({ user: { id: 'admin', role: 'ADMIN' } }))
+}))
+
+vi.spyOn(console, 'error').mockImplementation(() => {})
+
+const device = {
+  name: 'Lobby Camera',
+  ip: '10.0.0.20',
+  netwatchTimeout: 1000,
+  netwatchInterval: 10
+}
+
+describe('Netwatch Probe Types', () => {
+  beforeEach(async () => {
+    await cleanupTestData()
+  })
+
+  it('should require the settings of each probe type', () => {
+    expect(validateNetwatchProbe({})).toBeNull()
+    expect(validateNetwatchProbe({ netwatchType: 'tcp-conn', netwatchPort: '554' })).toBeNull()
+    expect(validateNetwatchProbe({ netwatchType: 'http-get' })).toBeNull()
+    expect(validateNetwatchProbe({ netwatchType: 'dns', netwatchDnsName: 'intranet.example.com' })).toBeNull()
+
+    expect(validateNetwatchProbe({ netwatchType: 'snmp' })).toMatch(/Netwatch type must be one of/)
+    expect(validateNetwatchProbe({ netwatchType: 'tcp-conn' })).toMatch(/port is required/)
+    expect(validateNetwatchProbe({ netwatchType: 'tcp-conn', netwatchPort: 70000 })).toMatch(/between 1 and 65535/)
+    expect(validateNetwatchProbe({ netwatchType: 'http-get', netwatchHttpCode: 99 })).toMatch(/HTTP code/)
+    expect(validateNetwatchProbe({ netwatchType: 'dns', netwatchDnsName: ' ' })).toMatch(/record name is required/)
+    expect(validateNetwatchProbe({ netwatchType: 'dns', netwatchDnsName: 'bad name' })).toBe('Invalid DNS record name')
+  })
+
+  it('should default HTTP probes and clear fields of other types', () => {
+    expect(toNetwatchProbe({ netwatchType: 'http-get', netwatchDnsName: 'example.com' })).toEqual({
+      netwatchType: 'http-get',
+      netwatchPort: 80,
+      netwatchHttpCode: 200,
+      netwatchDnsName: null
+    })
+    expect(toNetwatchProbe({ netwatchType: 'icmp', netwatchPort: '554', netwatchHttpCode: '200' })).toEqual({
+      netwatchType: 'icmp',
+      netwatchPort: null,
+      netwatchHttpCode: null,
+      netwatchDnsName: null
+    })
+  })
+
+  describe('buildNetwatchParams', () => {
+    it('should leave out the type for ICMP so RouterOS 6 accepts the entry', () => {
+      expect(buildNetwatchParams(device)).toEqual([
+        '=host=10.0.0.20',
+        '=comment=Lobby Camera',
+        '=timeout=1000ms',
+        '=interval=10s'
+      ])
+      expect(buildNetwatchParams(device, true)).toContain('=type=icmp')
+    })
+
+    it('should add the type-specific parameters', () => {
+      expect(buildNetwatchParams({ ...device, netwatchType: 'tcp-conn', netwatchPort: 554 }))
+        .toEqual(expect.arrayContaining(['=type=tcp-conn', '=port=554']))
+      expect(buildNetwatchParams({ ...device, netwatchType: 'http-get', netwatchPort: 8080, netwatchHttpCode: 401 }))
+        .toEqual(expect.arrayContaining(['=type=http-get', '=port=8080', '=http-codes=401']))
+
+      const dns = buildNetwatchParams({ ...device, netwatchType: 'dns', netwatchDnsName: 'example.com', netwatchPort: 53 })
+      expect(dns).toEqual(expect.arrayContaining(['=type=dns', '=dns-name=example.com']))
+      expect(dns).not.toContain('=port=53')
+    })
+  })
+
+  it('should read the probe of an imported netwatch entry', () => {
+    expect(parseNetwatchProbe({ host: '10.0.0.5', type: 'http-get', port: '8080', 'http-codes': '200,301' })).toEqual({
+      netwatchType: 'http-get',
+      netwatchPort: 8080,
+      netwatchHttpCode: 200,
+      netwatchDnsName: null
+    })
+    // RouterOS 6 and unmanaged types fall back to ICMP
+    expect(parseNetwatchProbe({ host: '10.0.0.5' }).netwatchType).toBe('icmp')
+    expect(parseNetwatchProbe({ host: '10.0.0.5', type: 'simple' }).netwatchType).toBe('icmp')
+  })
+
+  it('should reject a TCP probe without a port when creating a device', async () => {
+    const response = await createDevice(new NextRequest('http://localhost:3000/api/devices', {
+      method: 'POST',
+      body: JSON.stringify({ ...device, type: 'CCTV', laneName: 'Lobby', netwatchType: 'tcp-conn' })
+    }))
+    const data = await response.json()
+
+    expect(response.status).toBe(400)
+    expect(data.error).toBe('A port is required for TCP netwatch probes')
+    expect(testPrisma.device.create).not.toHaveBeenCalled()
+  })
+
+  it('should store the probe settings of a new device', async () => {
+    testPrisma.device.findUnique.mockResolvedValue(null)
+    testPrisma.router.findMany.mockResolvedValue([])
+    testPrisma.systemConfig.findUnique.mockResolvedValue(null)
+    testPrisma.device.create.mockResolvedValue({ id: 'd1' })
+
+    const response = await createDevice(new NextRequest('http://localhost:3000/api/devices', {
+      method: 'POST',
+      body: JSON.stringify({ ...device, type: 'PRINTER', laneName: 'Office', netwatchType: 'http-get', netwatchHttpCode: '200' })
+    }))
+
+    expect(response.status).toBe(201)
+    expect(testPrisma.device.create).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({
+        netwatchType: 'http-get',
+        netwatchPort: 80,
+        netwatchHttpCode: 200,
+        netwatchDnsName: null
+      })
+    }))
+  })
+})
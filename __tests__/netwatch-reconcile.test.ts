@@ -0,0 +1,161 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { testPrisma, cleanupTestData } from './test-prisma'
+import {
+  reconcileNetwatch,
+  renderDriftReport,
+  runDueDriftReport,
+  summarizeReconcile,
+  validateReconcileRequest
+} from '@/lib/netwatch-reconcile'
+import { POST as reconcileAction } from '@/app/api/mikrotik/reconcile/route'
+import { NextRequest } from 'next/server'
+
+// Mock the main prisma client to use the test client
+vi.mock('@/lib/prisma', () => ({
+  prisma: testPrisma
+}))
+
+// Mock auth module
+vi.mock('@/auth', () => ({
+  auth: vi.fn(() => Promise.resolve({ user: { id: 'operator', role: 'OPERATOR' } }))
+}))
+
+vi.spyOn(console, 'error').mockImplementation(() => {})
+
+const device = (overrides: Record<string, unknown> = {}) => ({
+  id: 'd1',
+  name: 'Core Switch',
+  ip: '10.0.0.2',
+  netwatchType: 'icmp',
+  netwatchPort: null,
+  netwatchHttpCode: null,
+  netwatchDnsName: null,
+  netwatchTimeout: 1000,
+  netwatchInterval: 5,
+  netwatchUpScript: null,
+  netwatchDownScript: null,
+  probes: [],
+  ...overrides
+})
+
+const entry = (overrides: Record<string, unknown> = {}) => ({
+  '.id': '*1',
+  host: '10.0.0.2',
+  comment: '[nw:d1] Core Switch',
+  timeout: '1s',
+  interval: '00:00:05',
+  status: 'up',
+  ...overrides
+})
+
+describe('Netwatch Reconciliation', () => {
+  beforeEach(async () => {
+    await cleanupTestData()
+  })
+
+  it('should report an entry that matches the dashboard as in sync', () => {
+    const items = reconcileNetwatch([entry()], [device()])
+
+    expect(items).toHaveLength(1)
+    expect(items[0].kind).toBe('in-sync')
+    expect(items[0].actions).toEqual([])
+  })
+
+  it('should list the fields that were changed on the router', () => {
+    const [item] = reconcileNetwatch(
+      [entry({ comment: '[nw:d1] Core SW (old)', timeout: '2s', 'down-script': ':log warning down' })],
+      [device()]
+    )
+
+    expect(item.kind).toBe('drift')
+    expect(item.entryId).toBe('*1')
+    expect(item.fields.filter(field => field.differs)).toEqual([
+      { field: 'comment', dashboard: '[nw:d1] Core Switch', router: '[nw:d1] Core SW (old)', differs: true },
+      { field: 'timeout', dashboard: '1000ms', router: '2000ms', differs: true },
+      { field: 'downScript', dashboard: '', router: ':log warning down', differs: true }
+    ])
+    expect(item.actions).toEqual(['pull', 'push'])
+  })
+
+  it('should find devices and probes without an entry and entries without a device', () => {
+    const ssh = { id: 'p1', name: 'SSH', type: 'tcp-conn', port: 22, httpCode: null, dnsName: null, timeout: 1000, interval: 5 }
+    const items = reconcileNetwatch(
+      [entry({ host: '10.0.0.99', comment: 'Old camera' })],
+      [device({ probes: [ssh] })]
+    )
+
+    expect(items.map(item => [item.key, item.kind])).toEqual([
+      ['d1', 'missing'],
+      ['d1:p1', 'missing'],
+      ['entry:*1', 'orphan']
+    ])
+    expect(items[1].fields.find(field => field.field === 'comment')?.dashboard).toBe('[nw:p1] Core Switch - SSH')
+    expect(items[2].actions).toEqual(['pull', 'delete', 'link'])
+    expect(summarizeReconcile(items)).toEqual({ inSync: 0, drift: 0, missing: 2, orphans: 1 })
+  })
+
+  it('should follow a marked entry whose host was edited on the router', () => {
+    const [item, ...rest] = reconcileNetwatch([entry({ host: '10.0.0.20' })], [device()])
+
+    expect(rest).toHaveLength(0)
+    expect(item.kind).toBe('drift')
+    expect(item.managed).toBe(true)
+    expect(item.fields.filter(field => field.differs).map(field => field.field)).toEqual(['host'])
+  })
+
+  it('should show an unmarked entry on the host as comment drift', () => {
+    const [item] = reconcileNetwatch([entry({ comment: 'Core Switch' })], [device()])
+
+    expect(item.kind).toBe('drift')
+    expect(item.managed).toBe(false)
+    expect(item.fields.filter(field => field.differs).map(field => field.field)).toEqual(['comment'])
+  })
+
+  it('should validate reconcile actions', () => {
+    expect(validateReconcileRequest({ action: 'push', deviceId: 'd1' })).toBeNull()
+    expect(validateReconcileRequest({ action: 'delete', entryId: '*1' })).toBeNull()
+    expect(validateReconcileRequest({ action: 'merge', deviceId: 'd1' })).toMatch(/Invalid action/)
+    expect(validateReconcileRequest({ action: 'link', entryId: '*1' })).toMatch(/both a device and a netwatch entry/)
+    expect(validateReconcileRequest({ action: 'pull' })).toMatch(/device or a netwatch entry/)
+  })
+
+  it('should only let administrators delete a device', async () => {
+    const response = await reconcileAction(new NextRequest('http://localhost:3000/api/mikrotik/reconcile', {
+      method: 'POST',
+      body: JSON.stringify({ routerId: 'r1', action: 'delete', deviceId: 'd1' })
+    }))
+
+    expect(response.status).toBe(403)
+    expect(testPrisma.device.delete).not.toHaveBeenCalled()
+  })
+
+  it('should render findings per router and note unreachable routers', () => {
+    const items = reconcileNetwatch([entry({ interval: '10s' })], [device()])
+    const content = renderDriftReport(
+      [{ routerName: 'Core', items }, { routerName: 'Branch', error: 'timeout' }],
+      new Date('2025-03-01T06:00:00Z')
+    )
+
+    expect(content).toContain('Router "Core": 1 drifted, 0 missing, 0 orphan, 0 in sync')
+    expect(content).toContain('DRIFT    Core Switch (10.0.0.2): interval "5s" -> "10s"')
+    expect(content).toContain('Router "Branch": not reachable - timeout')
+  })
+
+  it('should run the drift report only when enabled and once a day', async () => {
+    testPrisma.systemConfig.findUnique.mockResolvedValue({ driftReportEnabled: false })
+    expect(await runDueDriftReport()).toBe(false)
+
+    testPrisma.systemConfig.findUnique.mockResolvedValue({ driftReportEnabled: true, driftReportRecipients: '' })
+    testPrisma.driftReport.findFirst.mockResolvedValue({ id: 'today' })
+    expect(await runDueDriftReport()).toBe(false)
+    expect(testPrisma.router.findMany).not.toHaveBeenCalled()
+
+    testPrisma.driftReport.findFirst.mockResolvedValue(null)
+    testPrisma.router.findMany.mockResolvedValue([])
+    testPrisma.driftReport.create.mockResolvedValue({ id: 'r1', emailError: null })
+    expect(await runDueDriftReport()).toBe(true)
+    expect(testPrisma.driftReport.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ routers: 0, drift: 0, missing: 0, orphans: 0, emailedTo: null, emailError: null })
+    })
+  })
+})
@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { createPollScheduler, PollScheduler } from '@/lib/poll-scheduler'
+
+vi.spyOn(console, 'log').mockImplementation(() => {})
+vi.spyOn(console, 'error').mockImplementation(() => {})
+
+describe('Poll Scheduler', () => {
+  let scheduler: PollScheduler
+  let intervalSeconds: number
+  let poll: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    vi.useFakeTimers()
+    intervalSeconds = 30
+    poll = vi.fn().mockResolvedValue(undefined)
+    scheduler = createPollScheduler({
+      poll,
+      loadIntervalSeconds: async () => intervalSeconds,
+      configCheckMs: 5000
+    })
+  })
+
+  afterEach(() => {
+    scheduler.stop()
+    vi.useRealTimers()
+  })
+
+  it('should poll immediately and then on the configured interval', async () => {
+    await scheduler.start()
+    expect(poll).toHaveBeenCalledTimes(1)
+
+    await vi.advanceTimersByTimeAsync(29000)
+    expect(poll).toHaveBeenCalledTimes(1)
+
+    await vi.advanceTimersByTimeAsync(1000)
+    expect(poll).toHaveBeenCalledTimes(2)
+  })
+
+  it('should pick up a changed interval without a restart', async () => {
+    await scheduler.start()
+
+    intervalSeconds = 10
+    await vi.advanceTimersByTimeAsync(5000)
+    expect(scheduler.getIntervalSeconds()).toBe(10)
+
+    // Next poll moves to 10s after the previous start
+    await vi.advanceTimersByTimeAsync(5000)
+    expect(poll).toHaveBeenCalledTimes(2)
+  })
+
+  it('should poll right away when the interval shrinks below the elapsed time', async () => {
+    await scheduler.start()
+    await vi.advanceTimersByTimeAsync(20000)
+
+    intervalSeconds = 5
+    await vi.advanceTimersByTimeAsync(6000)
+
+    expect(poll).toHaveBeenCalledTimes(2)
+  })
+
+  it('should never overlap a poll that outlasts the interval', async () => {
+    intervalSeconds = 5
+    let active = 0
+    let maxActive = 0
+    poll.mockImplementation(async () => {
+      active++
+      maxActive = Math.max(maxActive, active)
+      await new Promise(resolve => setTimeout(resolve, 12000))
+      active--
+    })
+
+    const started = scheduler.start()
+    await vi.advanceTimersByTimeAsync(12000)
+    await started
+
+    await vi.advanceTimersByTimeAsync(40000)
+
+    expect(maxActive).toBe(1)
+    // 52s of 12s polls back to back - no extra cycles queued up
+    expect(poll).toHaveBeenCalledTimes(5)
+  })
+
+  it('should keep the current interval when the config cannot be read', async () => {
+    const failing = createPollScheduler({
+      poll,
+      loadIntervalSeconds: vi.fn()
+        .mockResolvedValueOnce(20)
+        .mockRejectedValue(new Error('database is locked')),
+      configCheckMs: 5000
+    })
+
+    await failing.start()
+    await vi.advanceTimersByTimeAsync(20000)
+
+    expect(failing.getIntervalSeconds()).toBe(20)
+    expect(poll).toHaveBeenCalledTimes(2)
+    failing.stop()
+  })
+
+  it('should stop scheduling after stop()', async () => {
+    await scheduler.start()
+    scheduler.stop()
+
+    await vi.advanceTimersByTimeAsync(120000)
+
+    expect(poll).toHaveBeenCalledTimes(1)
+  })
+})
@@ -0,0 +1,253 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { testPrisma, cleanupTestData } from './test-prisma'
+import { GET, POST } from '@/app/api/routers/route'
+import { PUT, DELETE } from '@/app/api/routers/[id]/route'
+import { NextRequest } from 'next/server'
+import { decryptSecret, encryptSecret } from '@/lib/credential-encryption'
+
+// Mock the main prisma client to use the test client
+vi.mock('@/lib/prisma', () => ({
+  prisma: testPrisma
+}))
+
+// Mock auth module
+let authMock: any = { user: { id: 'test-user', role: 'ADMIN' } }
+
+vi.mock('@/auth', () => ({
+  auth: vi.fn(() => Promise.resolve(authMock))
+}))
+
+process.env.CREDENTIALS_ENCRYPTION_KEY = 'test-encryption-key'
+
+const mockRouter = {
+  id: 'router-1',
+  name: 'Core Router',
+  host: '192.168.1.1',
+  username: 'admin',
+  password: encryptSecret('secret'),
+  port: 8728,
+  enabled: true,
+  createdAt: new Date(),
+  updatedAt: new Date()
+}
+
+describe('Router API Endpoints Unit Tests', () => {
+  beforeEach(async () => {
+    await cleanupTestData()
+    authMock = { user: { id: 'test-user', role: 'ADMIN' } }
+    // Routers already exist - legacy migration is a no-op
+    testPrisma.router.count.mockResolvedValue(1)
+  })
+
+  describe('GET /api/routers', () => {
+    it('should require authentication', async () => {
+      authMock = null
+
+      const response = await GET()
+
+      expect(response.status).toBe(401)
+    })
+
+    it('should never return router passwords', async () => {
+      authMock = { user: { id: 'test-user', role: 'VIEWER' } }
+      testPrisma.router.findMany.mockResolvedValue([{ ...mockRouter, _count: { devices: 3 } }])
+
+      const response = await GET()
+      const data = await response.json()
+
+      expect(response.status).toBe(200)
+      expect(data.routers).toHaveLength(1)
+      expect(data.routers[0].password).toBeUndefined()
+      expect(data.routers[0].hasPassword).toBe(true)
+      expect(data.routers[0]._count.devices).toBe(3)
+    })
+
+    it('should migrate legacy SystemConfig credentials when no router exists', async () => {
+      testPrisma.router.count.mockResolvedValue(0)
+      testPrisma.systemConfig.findUnique.mockResolvedValue({
+        id: 1,
+        mikrotikIp: '10.0.0.1',
+        mikrotikUser: 'admin',
+        mikrotikPass: 'legacy',
+        mikrotikPort: 8729
+      })
+      testPrisma.router.create.mockResolvedValue({ ...mockRouter, id: 'default', name: 'Default' })
+      testPrisma.device.updateMany.mockResolvedValue({ count: 2 })
+      testPrisma.router.findMany.mockResolvedValue([])
+
+      const response = await GET()
+
+      expect(response.status).toBe(200)
+      const createdRouter = testPrisma.router.create.mock.calls[0][0].data
+      expect(createdRouter).toMatchObject({
+        name: 'Default',
+        host: '10.0.0.1',
+        username: 'admin',
+        port: 8729
+      })
+      expect(createdRouter.password).not.toBe('legacy')
+      expect(decryptSecret(createdRouter.password)).toBe('legacy')
+      expect(testPrisma.device.updateMany).toHaveBeenCalledWith({
+        where: { routerId: null },
+        data: { routerId: 'default' }
+      })
+    })
+  })
+
+  describe('POST /api/routers', () => {
+    const createRequest = (body: any) => new NextRequest('http://localhost:3000/api/routers', {
+      method: 'POST',
+      body: JSON.stringify(body)
+    })
+
+    it('should deny non-ADMIN users', async () => {
+      authMock = { user: { id: 'test-user', role: 'OPERATOR' } }
+
+      const response = await POST(createRequest({
+        name: 'Warehouse',
+        host: '192.168.2.1',
+        username: 'admin',
+        password: 'secret'
+      }))
+
+      expect(response.status).toBe(403)
+      expect(testPrisma.router.create).not.toHaveBeenCalled()
+    })
+
+    it('should reject invalid IP address', async () => {
+      const response = await POST(createRequest({
+        name: 'Warehouse',
+        host: '192.168.2.300',
+        username: 'admin',
+        password: 'secret'
+      }))
+      const data = await response.json()
+
+      expect(response.status).toBe(400)
+      expect(data.error).toBe('Invalid IP address format')
+    })
+
+    it('should require a password for new routers', async () => {
+      const response = await POST(createRequest({
+        name: 'Warehouse',
+        host: '192.168.2.1',
+        username: 'admin'
+      }))
+      const data = await response.json()
+
+      expect(response.status).toBe(400)
+      expect(data.error).toBe('Password is required')
+    })
+
+    it('should reject duplicate router names', async () => {
+      testPrisma.router.findUnique.mockResolvedValue(mockRouter)
+
+      const response = await POST(createRequest({
+        name: 'Core Router',
+        host: '192.168.2.1',
+        username: 'admin',
+        password: 'secret'
+      }))
+
+      expect(response.status).toBe(400)
+    })
+
+    it('should create router with default port', async () => {
+      testPrisma.router.findUnique.mockResolvedValue(null)
+      testPrisma.router.create.mockResolvedValue({ ...mockRouter, name: 'Warehouse', host: '192.168.2.1' })
+
+      const response = await POST(createRequest({
+        name: ' Warehouse ',
+        host: '192.168.2.1',
+        username: 'admin',
+        password: 'secret'
+      }))
+      const data = await response.json()
+
+      expect(response.status).toBe(201)
+      expect(data.router.password).toBeUndefined()
+      const createdRouter = testPrisma.router.create.mock.calls[0][0].data
+      expect(createdRouter).toMatchObject({
+        name: 'Warehouse',
+        host: '192.168.2.1',
+        username: 'admin',
+        port: 8728,
+        enabled: true
+      })
+      expect(decryptSecret(createdRouter.password)).toBe('secret')
+    })
+  })
+
+  describe('PUT /api/routers/[id]', () => {
+    const createRequest = (body: any) => new NextRequest('http://localhost:3000/api/routers/router-1', {
+      method: 'PUT',
+      body: JSON.stringify(body)
+    })
+
+    it('should return 404 for unknown router', async () => {
+      testPrisma.router.findUnique.mockResolvedValue(null)
+
+      const response = await PUT(createRequest({
+        name: 'Core Router',
+        host: '192.168.1.1',
+        username: 'admin'
+      }), { params: { id: 'missing' } })
+
+      expect(response.status).toBe(404)
+    })
+
+    it('should keep the stored password when none is provided', async () => {
+      testPrisma.router.findUnique.mockResolvedValue(mockRouter)
+      testPrisma.router.findFirst.mockResolvedValue(null)
+      testPrisma.router.update.mockResolvedValue({ ...mockRouter, host: '192.168.1.254' })
+
+      const response = await PUT(createRequest({
+        name: 'Core Router',
+        host: '192.168.1.254',
+        username: 'admin',
+        password: ''
+      }), { params: { id: 'router-1' } })
+
+      expect(response.status).toBe(200)
+      expect(testPrisma.router.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            host: '192.168.1.254',
+            password: mockRouter.password
+          })
+        })
+      )
+    })
+  })
+
+  describe('DELETE /api/routers/[id]', () => {
+    const createRequest = () => new NextRequest('http://localhost:3000/api/routers/router-1', {
+      method: 'DELETE'
+    })
+
+    it('should unbind devices and delete the router in one transaction', async () => {
+      testPrisma.router.findUnique.mockResolvedValue(mockRouter)
+      testPrisma.device.updateMany.mockResolvedValue({ count: 5 })
+      testPrisma.router.delete.mockResolvedValue(mockRouter)
+
+      const response = await DELETE(createRequest(), { params: { id: 'router-1' } })
+
+      expect(response.status).toBe(200)
+      expect(testPrisma.device.updateMany).toHaveBeenCalledWith({
+        where: { routerId: 'router-1' },
+        data: { routerId: null }
+      })
+      expect(testPrisma.router.delete).toHaveBeenCalledWith({ where: { id: 'router-1' } })
+      expect(testPrisma.$transaction).toHaveBeenCalledTimes(1)
+    })
+
+    it('should deny VIEWER from deleting routers', async () => {
+      authMock = { user: { id: 'test-user', role: 'VIEWER' } }
+
+      const response = await DELETE(createRequest(), { params: { id: 'router-1' } })
+
+      expect(response.status).toBe(403)
+      expect(testPrisma.router.delete).not.toHaveBeenCalled()
+    })
+  })
+})
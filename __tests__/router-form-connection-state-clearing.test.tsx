@@ -0,0 +1,98 @@
+import React from 'react'
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
+import '@testing-library/jest-dom'
+import RouterFormModal from '@/components/RouterFormModal'
+import * as fc from 'fast-check'
+
+// Mock fetch
+global.fetch = vi.fn()
+const mockFetch = vi.mocked(fetch)
+
+const savedRouter = {
+  id: 'router-1',
+  name: 'Core Router',
+  host: '192.168.1.1',
+  username: 'admin',
+  port: 8728,
+  enabled: true
+}
+
+const FIELD_INPUTS = {
+  host: 'routerHost',
+  username: 'routerUsername',
+  password: 'routerPassword',
+  port: 'routerPort'
+} as const
+
+const NEW_VALUES = {
+  host: '10.0.0.2',
+  username: 'operator',
+  password: 'new-secret',
+  port: '8729'
+} as const
+
+describe('RouterFormModal - Connection Test State Clearing', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+  })
+
+  // **Feature: mikrotik-enhancements, Property 7: Connection Test State Clearing**
+  // **Validates: Requirements 1.9**
+  it('should clear the connection status when any connection field changes', async () => {
+    await fc.assert(
+      fc.asyncProperty(
+        fc.boolean(),
+        fc.constantFrom(...(Object.keys(FIELD_INPUTS) as Array<keyof typeof FIELD_INPUTS>)),
+        async (isSuccess, field) => {
+          mockFetch.mockResolvedValueOnce({
+            ok: true,
+            json: async () => isSuccess
+              ? { success: true, details: { identity: 'TestRouter', version: '7.10' } }
+              : { success: false, error: 'Authentication failed', details: 'Invalid username or password' }
+          } as Response)
+
+          const { unmount } = render(
+            <RouterFormModal isOpen router={savedRouter} onClose={vi.fn()} onSuccess={vi.fn()} onError={vi.fn()} />
+          )
+
+          fireEvent.click(screen.getByRole('button', { name: /test connection/i }))
+
+          const statusText = isSuccess ? /TestRouter/ : /Authentication failed/
+          await waitFor(() => {
+            expect(screen.getByText(statusText)).toBeInTheDocument()
+          })
+
+          fireEvent.change(document.getElementById(FIELD_INPUTS[field])!, { target: { value: NEW_VALUES[field] } })
+
+          expect(screen.queryByText(statusText)).not.toBeInTheDocument()
+
+          unmount()
+        }
+      ),
+      { numRuns: 16 }
+    )
+  })
+
+  it('should test a saved router with its id so the stored password can be used', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ success: true })
+    } as Response)
+
+    render(<RouterFormModal isOpen router={savedRouter} onClose={vi.fn()} onSuccess={vi.fn()} onError={vi.fn()} />)
+
+    fireEvent.click(screen.getByRole('button', { name: /test connection/i }))
+
+    await waitFor(() => {
+      expect(screen.getByText('Connection established successfully')).toBeInTheDocument()
+    })
+    expect(JSON.parse(mockFetch.mock.calls[0][1]!.body as string)).toEqual({
+      routerId: 'router-1',
+      mikrotikIp: '192.168.1.1',
+      mikrotikUser: 'admin',
+      mikrotikPass: '',
+      mikrotikPort: 8728
+    })
+  })
+})
@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { testPrisma, cleanupTestData } from './test-prisma'
+import { resolveRouterOSConfig, withRouterOS } from '@/lib/routeros-connection'
+import { closeAllRouterOSSessions } from '@/lib/routeros-pool'
+import { isDefaultRouter } from '@/lib/routers'
+
+// Mock the main prisma client to use the test client
+vi.mock('@/lib/prisma', () => ({
+  prisma: testPrisma
+}))
+
+// Mock RouterOSAPI
+let mockRouterOSAPI: any
+
+vi.mock('node-routeros', () => ({
+  RouterOSAPI: vi.fn().mockImplementation(() => mockRouterOSAPI)
+}))
+
+const ENV_KEYS = ['MIKROTIK_HOST', 'MIKROTIK_USER', 'MIKROTIK_PASSWORD', 'MIKROTIK_PORT']
+
+const mockRouter = {
+  id: 'router-1',
+  name: 'Core Router',
+  host: '192.168.1.1',
+  username: 'admin',
+  password: 'secret',
+  port: 8728,
+  enabled: true
+}
+
+describe('RouterOS Connection Provider', () => {
+  beforeEach(async () => {
+    await cleanupTestData()
+    ENV_KEYS.forEach(key => delete process.env[key])
+
+    mockRouterOSAPI = {
+      connected: false,
+      connect: vi.fn(async () => { mockRouterOSAPI.connected = true }),
+      write: vi.fn().mockResolvedValue([]),
+      close: vi.fn(async () => { mockRouterOSAPI.connected = false }),
+      on: vi.fn()
+    }
+    closeAllRouterOSSessions()
+
+    testPrisma.router.count.mockResolvedValue(1)
+    testPrisma.router.findMany.mockResolvedValue([mockRouter])
+    testPrisma.router.findUnique.mockResolvedValue(mockRouter)
+  })
+
+  afterEach(() => {
+    ENV_KEYS.forEach(key => delete process.env[key])
+  })
+
+  describe('resolveRouterOSConfig', () => {
+    it('should use database credentials when no environment override is set', async () => {
+      const config = await resolveRouterOSConfig('router-1')
+
+      expect(config).toEqual({
+        host: '192.168.1.1',
+        user: 'admin',
+        password: 'secret',
+        port: 8728,
+        routerId: 'router-1',
+        routerName: 'Core Router'
+      })
+    })
+
+    it('should fall back to the only router when no router is given', async () => {
+      const config = await resolveRouterOSConfig()
+
+      expect(config.routerId).toBe('router-1')
+      expect(config.host).toBe('192.168.1.1')
+    })
+
+    it('should let environment variables override the default router', async () => {
+      process.env.MIKROTIK_PASSWORD = 'from-env'
+      process.env.MIKROTIK_PORT = '8729'
+
+      const config = await resolveRouterOSConfig('router-1')
+
+      expect(config.host).toBe('192.168.1.1')
+      expect(config.password).toBe('from-env')
+      expect(config.port).toBe(8729)
+    })
+
+    it('should not apply environment overrides when several routers are enabled', async () => {
+      process.env.MIKROTIK_HOST = '10.0.0.1'
+      testPrisma.router.findMany.mockResolvedValue([mockRouter, { ...mockRouter, id: 'router-2' }])
+
+      const config = await resolveRouterOSConfig('router-1')
+
+      expect(config.host).toBe('192.168.1.1')
+    })
+
+    it('should apply environment overrides like the worker when the other routers are disabled', async () => {
+      process.env.MIKROTIK_HOST = '10.0.0.1'
+      testPrisma.router.count.mockResolvedValue(2)
+
+      const config = await resolveRouterOSConfig('router-1')
+
+      expect(testPrisma.router.findMany).toHaveBeenCalledWith(expect.objectContaining({ where: { enabled: true } }))
+      expect(config.host).toBe('10.0.0.1')
+      expect(isDefaultRouter('router-1', ['router-1'])).toBe(true)
+      expect(isDefaultRouter('router-1', ['router-1', 'router-2'])).toBe(false)
+    })
+
+    it('should use environment credentials alone when no router is configured', async () => {
+      process.env.MIKROTIK_HOST = '10.0.0.1'
+      process.env.MIKROTIK_USER = 'env-user'
+      process.env.MIKROTIK_PASSWORD = 'env-pass'
+      testPrisma.router.count.mockResolvedValue(0)
+      testPrisma.systemConfig.findUnique.mockResolvedValue(null)
+      testPrisma.router.findMany.mockResolvedValue([])
+
+      const config = await resolveRouterOSConfig()
+
+      expect(config).toEqual({
+        host: '10.0.0.1',
+        user: 'env-user',
+        password: 'env-pass',
+        port: 8728,
+        routerId: null,
+        routerName: 'Environment'
+      })
+    })
+
+    it('should throw when nothing is configured', async () => {
+      testPrisma.router.count.mockResolvedValue(0)
+      testPrisma.systemConfig.findUnique.mockResolvedValue(null)
+      testPrisma.router.findMany.mockResolvedValue([])
+
+      await expect(resolveRouterOSConfig()).rejects.toThrow('MikroTik not configured')
+    })
+
+    it('should throw for a disabled router', async () => {
+      testPrisma.router.findUnique.mockResolvedValue({ ...mockRouter, enabled: false })
+
+      await expect(resolveRouterOSConfig('router-1')).rejects.toThrow('Router "Core Router" is disabled')
+    })
+
+    it('should throw for an unknown router', async () => {
+      testPrisma.router.findUnique.mockResolvedValue(null)
+
+      await expect(resolveRouterOSConfig('missing')).rejects.toThrow('Router not found')
+    })
+  })
+
+  describe('withRouterOS', () => {
+    it('should reuse one login for consecutive commands', async () => {
+      mockRouterOSAPI.write.mockResolvedValue([{ host: '192.168.1.10' }])
+      const config = await resolveRouterOSConfig('router-1')
+
+      const result = await withRouterOS(config, (api) => api.write('/tool/netwatch/print'))
+      await withRouterOS(config, (api) => api.write('/tool/netwatch/print'))
+
+      expect(result).toEqual([{ host: '192.168.1.10' }])
+      expect(mockRouterOSAPI.connect).toHaveBeenCalledTimes(1)
+      expect(mockRouterOSAPI.write).toHaveBeenCalledTimes(2)
+      expect(mockRouterOSAPI.close).not.toHaveBeenCalled()
+    })
+
+    it('should keep the session when a command is rejected by the router', async () => {
+      mockRouterOSAPI.write.mockRejectedValueOnce(new Error('no such item'))
+      const config = await resolveRouterOSConfig('router-1')
+
+      await expect(
+        withRouterOS(config, (api) => api.write('/tool/netwatch/remove'))
+      ).rejects.toThrow('no such item')
+      await withRouterOS(config, (api) => api.write('/tool/netwatch/print'))
+
+      expect(mockRouterOSAPI.connect).toHaveBeenCalledTimes(1)
+    })
+  })
+})
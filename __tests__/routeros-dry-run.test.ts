@@ -0,0 +1,152 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { testPrisma, cleanupTestData } from './test-prisma'
+import { formatRouterOSCommand, RouterOSCommand, withDryRun } from '@/lib/routeros-dry-run'
+import { POST as createDevice } from '@/app/api/devices/route'
+import { PUT as updateDevice } from '@/app/api/devices/[id]/route'
+import { closeAllRouterOSSessions } from '@/lib/routeros-pool'
+import { syncDeviceToMikroTik } from '@/lib/mikrotik-sync'
+import { NextRequest } from 'next/server'
+
+// Mock the main prisma client to use the test client
+vi.mock('@/lib/prisma', () => ({
+  prisma: testPrisma
+}))
+
+// Mock RouterOSAPI - the netwatch table holds one entry of the device
+let mockRouterOSAPI: any
+const createMockAPI = () => ({
+  connect: vi.fn().mockResolvedValue(undefined),
+  write: vi.fn((command: string) => Promise.resolve(command === '/tool/netwatch/print'
+    ? [{ '.id': '*4', host: '10.0.0.2', comment: '[nw:d1] Core Switch', status: 'up' }]
+    : [])),
+  close: vi.fn().mockResolvedValue(undefined),
+  on: vi.fn()
+})
+
+vi.mock('node-routeros', () => ({
+  RouterOSAPI: vi.fn().mockImplementation(() => mockRouterOSAPI)
+}))
+
+// Mock auth module
+vi.mock('@/auth', () => ({
+  auth: vi.fn(() => Promise.resolve({ user: { id: 'operator', role: 'OPERATOR' } }))
+}))
+
+vi.spyOn(console, 'error').mockImplementation(() => {})
+
+const router = {
+  id: 'r1',
+  name: 'Core',
+  host: '10.0.0.1',
+  username: 'admin',
+  password: 'secret',
+  port: 8728,
+  enabled: true
+}
+
+const device = {
+  id: 'd1',
+  name: 'Core Switch',
+  ip: '10.0.0.2',
+  type: 'SWITCH',
+  laneName: 'Rack',
+  routerId: 'r1',
+  netwatchType: 'icmp',
+  netwatchPort: null,
+  netwatchHttpCode: null,
+  netwatchDnsName: null,
+  netwatchTimeout: 1000,
+  netwatchInterval: 5,
+  netwatchUpScript: null,
+  netwatchDownScript: null,
+  netwatchEntryId: '*4',
+  probes: []
+}
+
+describe('RouterOS Dry Run', () => {
+  beforeEach(async () => {
+    await cleanupTestData()
+    mockRouterOSAPI = createMockAPI()
+    closeAllRouterOSSessions()
+    testPrisma.systemConfig.findUnique.mockResolvedValue(null)
+    testPrisma.router.count.mockResolvedValue(1)
+    testPrisma.router.findMany.mockResolvedValue([router])
+    testPrisma.router.findUnique.mockResolvedValue(router)
+  })
+
+  it('should pass reads through and collect writes', async () => {
+    const preview: RouterOSCommand[] = []
+    const api = withDryRun(mockRouterOSAPI, preview, 'Core')
+
+    expect(await api.write('/tool/netwatch/print')).toHaveLength(1)
+    expect(await api.write('/tool/netwatch/remove', ['=.id=*4'])).toEqual([])
+
+    expect(preview).toEqual([{ router: 'Core', command: '/tool/netwatch/remove', params: ['=.id=*4'] }])
+    expect(mockRouterOSAPI.write).toHaveBeenCalledTimes(1)
+    expect(formatRouterOSCommand(preview[0])).toBe('/tool/netwatch/remove =.id=*4')
+  })
+
+  it('should preview a device update without saving or writing to the router', async () => {
+    testPrisma.device.findUnique.mockResolvedValueOnce(device).mockResolvedValueOnce(null)
+
+    const request = new NextRequest('http://localhost:3000/api/devices/d1?dryRun=true', {
+      method: 'PUT',
+      body: JSON.stringify({ ...device, ip: '10.0.0.3', netwatchInterval: 10 })
+    })
+    const response = await updateDevice(request, { params: { id: 'd1' } })
+    const data = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(data.dryRun).toBe(true)
+    expect(data.commands).toEqual([{
+      router: 'Core',
+      command: '/tool/netwatch/set',
+      params: ['=.id=*4', '=host=10.0.0.3', '=comment=[nw:d1] Core Switch', '=timeout=1000ms', '=interval=10s']
+    }])
+    expect(testPrisma.device.update).not.toHaveBeenCalled()
+    expect(mockRouterOSAPI.write).not.toHaveBeenCalledWith('/tool/netwatch/set', expect.anything())
+  })
+
+  it('should fail the sync instead of adding a duplicate when the netwatch table cannot be read', async () => {
+    mockRouterOSAPI.write.mockImplementation((command: string) => command === '/tool/netwatch/print'
+      ? Promise.reject(new Error('timeout'))
+      : Promise.resolve([]))
+    const preview: RouterOSCommand[] = []
+
+    const result = await syncDeviceToMikroTik(device, undefined, preview)
+
+    expect(result).toEqual({ success: false, message: 'timeout' })
+    expect(preview).toEqual([])
+  })
+
+  it('should clear scripts on the router that the device no longer has', async () => {
+    mockRouterOSAPI.write.mockImplementation((command: string) => Promise.resolve(command === '/tool/netwatch/print'
+      ? [{ '.id': '*4', host: '10.0.0.2', comment: '[nw:d1] Core Switch', 'up-script': ':log info up', 'down-script': '' }]
+      : []))
+    const preview: RouterOSCommand[] = []
+
+    await syncDeviceToMikroTik(device, undefined, preview)
+
+    expect(preview[0].params).toContain('=up-script=')
+    expect(preview[0].params).not.toContain('=down-script=')
+  })
+
+  it('should preview the entry of a new device without creating it', async () => {
+    testPrisma.device.findUnique.mockResolvedValue(null)
+
+    const request = new NextRequest('http://localhost:3000/api/devices?dryRun=true', {
+      method: 'POST',
+      body: JSON.stringify({ name: 'Lobby AP', ip: '10.0.0.9', type: 'ACCESS_POINT', laneName: 'Lobby', routerId: 'r1', syncToMikrotik: true })
+    })
+    const response = await createDevice(request)
+    const data = await response.json()
+
+    expect(data.commands).toEqual([{
+      router: 'Core',
+      command: '/tool/netwatch/add',
+      params: ['=host=10.0.0.9', '=comment=[nw:new] Lobby AP', '=timeout=1000ms', '=interval=5s']
+    }])
+    expect(testPrisma.device.create).not.toHaveBeenCalled()
+    expect(mockRouterOSAPI.connect).not.toHaveBeenCalled()
+  })
+})
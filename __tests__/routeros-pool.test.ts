@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import {
+  closeAllRouterOSSessions,
+  closeRouterOSSession,
+  getBackoffDelay,
+  getRouterOSPoolHealth,
+  pruneRouterOSSessions,
+  runOnRouterOSSession
+} from '@/lib/routeros-pool'
+
+// Mock RouterOSAPI - each construction gets a fresh fake connection
+let createdApis: any[] = []
+let connectBehaviour: () => Promise<void>
+
+vi.mock('node-routeros', () => ({
+  RouterOSAPI: vi.fn().mockImplementation(() => {
+    const api: any = {
+      connected: false,
+      on: vi.fn(),
+      write: vi.fn().mockResolvedValue([]),
+      close: vi.fn(async () => { api.connected = false })
+    }
+    api.connect = vi.fn(async () => {
+      await connectBehaviour()
+      api.connected = true
+    })
+    createdApis.push(api)
+    return api
+  })
+}))
+
+const config = {
+  host: '192.168.1.1',
+  user: 'admin',
+  password: 'secret',
+  port: 8728,
+  routerId: 'router-1',
+  routerName: 'Core Router'
+}
+
+const print = (api: any) => api.write('/tool/netwatch/print')
+
+describe('RouterOS Session Pool', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'))
+    closeAllRouterOSSessions()
+    createdApis = []
+    connectBehaviour = async () => {}
+  })
+
+  afterEach(() => {
+    closeAllRouterOSSessions()
+    vi.useRealTimers()
+  })
+
+  describe('getBackoffDelay', () => {
+    it('should double the delay per failure up to five minutes', () => {
+      expect(getBackoffDelay(0)).toBe(0)
+      expect(getBackoffDelay(1)).toBe(5000)
+      expect(getBackoffDelay(2)).toBe(10000)
+      expect(getBackoffDelay(3)).toBe(20000)
+      expect(getBackoffDelay(20)).toBe(5 * 60 * 1000)
+    })
+  })
+
+  describe('Session reuse', () => {
+    it('should log in once and reuse the session', async () => {
+      await runOnRouterOSSession(config, 10, print)
+      await runOnRouterOSSession(config, 10, print)
+      await runOnRouterOSSession(config, 10, print)
+
+      expect(createdApis).toHaveLength(1)
+      expect(createdApis[0].connect).toHaveBeenCalledTimes(1)
+      expect(createdApis[0].write).toHaveBeenCalledTimes(3)
+    })
+
+    it('should share one login between concurrent callers', async () => {
+      await Promise.all([
+        runOnRouterOSSession(config, 10, print),
+        runOnRouterOSSession(config, 10, print)
+      ])
+
+      expect(createdApis).toHaveLength(1)
+    })
+
+    it('should reconnect after the socket drops', async () => {
+      await runOnRouterOSSession(config, 10, print)
+      createdApis[0].connected = false
+
+      await runOnRouterOSSession(config, 10, print)
+
+      expect(createdApis).toHaveLength(2)
+      expect(getRouterOSPoolHealth()[0].state).toBe('connected')
+    })
+
+    it('should reconnect when credentials change', async () => {
+      await runOnRouterOSSession(config, 10, print)
+      await runOnRouterOSSession({ ...config, password: 'new-secret' }, 10, print)
+
+      expect(createdApis).toHaveLength(2)
+      expect(createdApis[0].close).toHaveBeenCalled()
+    })
+  })
+
+  describe('Backoff', () => {
+    it('should not retry an unreachable router until the backoff expires', async () => {
+      connectBehaviour = async () => { throw new Error('connect ECONNREFUSED') }
+
+      await expect(runOnRouterOSSession(config, 10, print)).rejects.toThrow('ECONNREFUSED')
+      await expect(runOnRouterOSSession(config, 10, print)).rejects.toThrow('unavailable - retrying in 5s')
+      expect(createdApis).toHaveLength(1)
+
+      const health = getRouterOSPoolHealth()[0]
+      expect(health.state).toBe('backoff')
+      expect(health.consecutiveFailures).toBe(1)
+      expect(health.lastError).toBe('connect ECONNREFUSED')
+
+      // Second failure doubles the wait
+      vi.advanceTimersByTime(5000)
+      await expect(runOnRouterOSSession(config, 10, print)).rejects.toThrow('ECONNREFUSED')
+      expect(getRouterOSPoolHealth()[0].nextRetryAt).toEqual(new Date(Date.now() + 10000))
+    })
+
+    it('should reset the failure count after a successful connect', async () => {
+      connectBehaviour = async () => { throw new Error('timeout') }
+      await expect(runOnRouterOSSession(config, 10, print)).rejects.toThrow('timeout')
+
+      connectBehaviour = async () => {}
+      vi.advanceTimersByTime(5000)
+      await runOnRouterOSSession(config, 10, print)
+
+      const health = getRouterOSPoolHealth()[0]
+      expect(health.state).toBe('connected')
+      expect(health.consecutiveFailures).toBe(0)
+    })
+  })
+
+  describe('Session cleanup', () => {
+    it('should close the session of a removed router', async () => {
+      await runOnRouterOSSession(config, 10, print)
+
+      closeRouterOSSession('router-1')
+
+      expect(createdApis[0].close).toHaveBeenCalled()
+      expect(getRouterOSPoolHealth()).toHaveLength(0)
+    })
+
+    it('should prune sessions of routers that are no longer active', async () => {
+      await runOnRouterOSSession(config, 10, print)
+      await runOnRouterOSSession({ ...config, routerId: 'router-2', host: '192.168.2.1' }, 10, print)
+
+      pruneRouterOSSessions(['router-2'])
+
+      const health = getRouterOSPoolHealth()
+      expect(health).toHaveLength(1)
+      expect(health[0].routerId).toBe('router-2')
+    })
+  })
+})
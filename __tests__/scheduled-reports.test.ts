@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { testPrisma, cleanupTestData } from './test-prisma'
+import {
+  getReportPeriod,
+  renderReportCsv,
+  runDueReports,
+  validateReportDefinitionInput,
+  ReportDocument
+} from '@/lib/scheduled-reports'
+import { POST as createDefinition } from '@/app/api/reports/definitions/route'
+import { auth } from '@/auth'
+import { NextRequest } from 'next/server'
+
+// Mock the main prisma client to use the test client
+vi.mock('@/lib/prisma', () => ({
+  prisma: testPrisma
+}))
+
+// Mock auth module
+vi.mock('@/auth', () => ({
+  auth: vi.fn(() => Promise.resolve({ user: { id: 'admin', role: 'ADMIN' } }))
+}))
+
+vi.spyOn(console, 'error').mockImplementation(() => {})
+
+const at = (value: string) => new Date(value)
+
+const summary = {
+  upSeconds: 3600,
+  downSeconds: 60,
+  maintenanceSeconds: 0,
+  unknownSeconds: 0,
+  outages: 1,
+  uptimePercent: 98.36,
+  mttrSeconds: 60,
+  mtbfSeconds: 3600
+}
+
+const definition = {
+  id: 'r1',
+  name: 'Monthly Rooms',
+  groupBy: 'room',
+  roomId: null,
+  deviceType: null,
+  period: 'MONTHLY',
+  format: 'CSV',
+  recipients: 'it@example.com',
+  enabled: true
+}
+
+describe('Scheduled Reports', () => {
+  beforeEach(async () => {
+    await cleanupTestData()
+  })
+
+  describe('getReportPeriod', () => {
+    const now = at('2025-03-05T10:00:00') // a Wednesday
+
+    it('should cover the previous month', () => {
+      expect(getReportPeriod('MONTHLY', now)).toEqual({
+        start: at('2025-02-01T00:00:00'),
+        end: at('2025-03-01T00:00:00')
+      })
+    })
+
+    it('should cover the previous Monday-to-Sunday week', () => {
+      expect(getReportPeriod('WEEKLY', now)).toEqual({
+        start: at('2025-02-24T00:00:00'),
+        end: at('2025-03-03T00:00:00')
+      })
+    })
+
+    it('should cover yesterday', () => {
+      expect(getReportPeriod('DAILY', now)).toEqual({
+        start: at('2025-03-04T00:00:00'),
+        end: at('2025-03-05T00:00:00')
+      })
+    })
+  })
+
+  it('should render CSV rows with escaping, formula guards and a total row', () => {
+    const report: ReportDocument = {
+      title: 'Monthly Rooms',
+      periodStart: at('2025-02-01T00:00:00'),
+      periodEnd: at('2025-03-01T00:00:00'),
+      groupBy: 'room',
+      filter: null,
+      summary: { deviceCount: 2, ...summary },
+      rows: [
+        { key: 'room1', label: 'Server "A", 1st floor', deviceCount: 2, ...summary },
+        { key: 'room2', label: '=HYPERLINK("http://example.com")', deviceCount: 2, ...summary }
+      ]
+    }
+
+    const lines = renderReportCsv(report).split('\r\n')
+
+    expect(lines[0]).toBe('\uFEFFRoom,Devices,Uptime %,Downtime (min),Outages,MTTR (min),MTBF (h),Maintenance (min)')
+    expect(lines[1]).toBe('"Server ""A"", 1st floor",2,98.360,1.0,1,1.0,1.0,0.0')
+    expect(lines[2]).toMatch(/^"'=HYPERLINK\(""http:\/\/example\.com""\)",2,/)
+    expect(lines[3]).toMatch(/^All devices,2,/)
+  })
+
+  it('should reject invalid recipients', () => {
+    expect(validateReportDefinitionInput({ ...definition, recipients: 'it@example.com, not-an-email' }))
+      .toBe('Invalid email address: not-an-email')
+    expect(validateReportDefinitionInput(definition)).toBeNull()
+  })
+
+  it('should skip definitions whose period already has a report', async () => {
+    testPrisma.reportDefinition.findMany.mockResolvedValue([definition])
+    testPrisma.generatedReport.findFirst.mockResolvedValue({ id: 'g1' })
+
+    const generated = await runDueReports(at('2025-03-05T10:00:00'))
+
+    expect(generated).toBe(0)
+    expect(testPrisma.generatedReport.findFirst).toHaveBeenCalledWith(expect.objectContaining({
+      where: { definitionId: 'r1', periodStart: at('2025-02-01T00:00:00') }
+    }))
+    expect(testPrisma.generatedReport.create).not.toHaveBeenCalled()
+  })
+
+  it('should store a missing report and record that SMTP is not configured', async () => {
+    testPrisma.reportDefinition.findMany.mockResolvedValue([definition])
+    testPrisma.generatedReport.findFirst.mockResolvedValue(null)
+    testPrisma.device.findMany.mockResolvedValue([])
+    testPrisma.systemConfig.findUnique.mockResolvedValue({ smtpHost: '' })
+    testPrisma.generatedReport.create.mockResolvedValue({ id: 'g2', emailError: 'SMTP is not configured' })
+
+    const generated = await runDueReports(at('2025-03-05T10:00:00'))
+
+    expect(generated).toBe(1)
+    expect(testPrisma.generatedReport.create).toHaveBeenCalledWith(expect.objectContaining({
+      data: expect.objectContaining({
+        definitionId: 'r1',
+        fileName: 'monthly-rooms-2025-02-01.csv',
+        emailedTo: null,
+        emailError: 'SMTP is not configured'
+      })
+    }))
+  })
+
+  it('should not let viewers create report definitions', async () => {
+    vi.mocked(auth).mockResolvedValueOnce({ user: { id: 'viewer', role: 'VIEWER' } } as any)
+
+    const response = await createDefinition(new NextRequest('http://localhost:3000/api/reports/definitions', {
+      method: 'POST',
+      body: JSON.stringify(definition)
+    }))
+
+    expect(response.status).toBe(403)
+    expect(testPrisma.reportDefinition.create).not.toHaveBeenCalled()
+  })
+})
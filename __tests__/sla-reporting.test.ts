@@ -0,0 +1,230 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { testPrisma, cleanupTestData } from './test-prisma'
+import {
+  buildSlaReport,
+  computeUptimeTotals,
+  planUptimeRange,
+  rollupUptime,
+  StatusChange,
+  toUptimeSummary
+} from '@/lib/sla'
+import { GET as getUptimeReport } from '@/app/api/reports/uptime/route'
+import { NextRequest } from 'next/server'
+
+// Mock the main prisma client to use the test client
+vi.mock('@/lib/prisma', () => ({
+  prisma: testPrisma
+}))
+
+// Mock auth module
+vi.mock('@/auth', () => ({
+  auth: vi.fn(() => Promise.resolve({ user: { id: 'test-user', role: 'VIEWER' } }))
+}))
+
+vi.spyOn(console, 'error').mockImplementation(() => {})
+
+const at = (value: string) => new Date(value)
+
+const change = (status: string, timestamp: string, maintenance = false): StatusChange => ({
+  status,
+  maintenance,
+  timestamp: at(timestamp)
+})
+
+describe('SLA Reporting', () => {
+  beforeEach(async () => {
+    await cleanupTestData()
+  })
+
+  describe('computeUptimeTotals', () => {
+    it('should count the status carried in from before the range', () => {
+      // Down since yesterday, back up at 06:00
+      const totals = computeUptimeTotals(
+        change('down', '2025-01-01T20:00:00'),
+        [change('up', '2025-01-02T06:00:00')],
+        at('2025-01-02T00:00:00'),
+        at('2025-01-02T12:00:00')
+      )
+
+      expect(totals.downSeconds).toBe(6 * 3600)
+      expect(totals.upSeconds).toBe(6 * 3600)
+      // The outage started before the range
+      expect(totals.outages).toBe(0)
+    })
+
+    it('should treat time before the first status as unknown', () => {
+      const totals = computeUptimeTotals(
+        null,
+        [change('up', '2025-01-02T06:00:00')],
+        at('2025-01-02T00:00:00'),
+        at('2025-01-02T12:00:00')
+      )
+
+      expect(totals.unknownSeconds).toBe(6 * 3600)
+      expect(toUptimeSummary(totals).uptimePercent).toBe(100)
+    })
+
+    it('should count down to unreachable as a single outage', () => {
+      const totals = computeUptimeTotals(
+        change('up', '2025-01-01T00:00:00'),
+        [
+          change('down', '2025-01-02T01:00:00'),
+          change('unreachable', '2025-01-02T01:05:00'),
+          change('up', '2025-01-02T02:00:00'),
+          change('down', '2025-01-02T10:00:00'),
+          change('up', '2025-01-02T11:00:00')
+        ],
+        at('2025-01-02T00:00:00'),
+        at('2025-01-03T00:00:00')
+      )
+
+      expect(totals.outages).toBe(2)
+      expect(totals.downSeconds).toBe(2 * 3600)
+
+      const summary = toUptimeSummary(totals)
+      expect(summary.mttrSeconds).toBe(3600)
+      expect(summary.mtbfSeconds).toBe(11 * 3600)
+    })
+
+    it('should not count a maintenance window over a down device as another outage', () => {
+      const totals = computeUptimeTotals(
+        change('up', '2025-01-01T00:00:00'),
+        [
+          change('down', '2025-01-02T01:00:00'),
+          change('down', '2025-01-02T02:00:00', true),
+          change('down', '2025-01-02T03:00:00'),
+          change('up', '2025-01-02T04:00:00')
+        ],
+        at('2025-01-02T00:00:00'),
+        at('2025-01-02T05:00:00')
+      )
+
+      expect(totals.outages).toBe(1)
+      expect(totals.downSeconds).toBe(2 * 3600)
+      expect(totals.maintenanceSeconds).toBe(3600)
+    })
+
+    it('should leave maintenance out of uptime and outages', () => {
+      const totals = computeUptimeTotals(
+        change('up', '2025-01-01T00:00:00'),
+        [
+          change('down', '2025-01-02T02:00:00', true),
+          change('up', '2025-01-02T03:00:00')
+        ],
+        at('2025-01-02T00:00:00'),
+        at('2025-01-02T04:00:00')
+      )
+
+      expect(totals.maintenanceSeconds).toBe(3600)
+      expect(totals.outages).toBe(0)
+      expect(toUptimeSummary(totals).uptimePercent).toBe(100)
+    })
+  })
+
+  describe('planUptimeRange', () => {
+    it('should use monthly and daily rollups with raw edges', () => {
+      const plan = planUptimeRange(
+        at('2025-01-30T12:00:00'),
+        at('2025-03-03T08:00:00'),
+        at('2025-03-02T00:00:00')
+      )
+
+      expect(plan.months).toEqual([at('2025-02-01T00:00:00')])
+      expect(plan.days).toEqual([at('2025-01-31T00:00:00'), at('2025-03-01T00:00:00')])
+      expect(plan.raw).toEqual([
+        { from: at('2025-01-30T12:00:00'), to: at('2025-01-31T00:00:00') },
+        { from: at('2025-03-02T00:00:00'), to: at('2025-03-03T08:00:00') }
+      ])
+    })
+
+    it('should read compacted partial days from their daily rollup', () => {
+      const plan = planUptimeRange(
+        at('2025-01-10T12:00:00'),
+        at('2025-01-20T18:00:00'),
+        at('2025-02-01T00:00:00'),
+        at('2025-01-15T00:00:00')
+      )
+
+      expect(plan.days[0]).toEqual(at('2025-01-10T00:00:00'))
+      expect(plan.days).toHaveLength(10)
+      expect(plan.raw).toEqual([{ from: at('2025-01-20T00:00:00'), to: at('2025-01-20T18:00:00') }])
+
+      // Both edges inside one compacted day
+      const single = planUptimeRange(at('2025-01-12T08:00:00'), at('2025-01-12T09:00:00'), at('2025-02-01T00:00:00'), at('2025-01-15T00:00:00'))
+      expect(single.days).toEqual([at('2025-01-12T00:00:00')])
+      expect(single.raw).toEqual([])
+    })
+
+    it('should read everything raw before the first rollup', () => {
+      const plan = planUptimeRange(at('2025-01-01T00:00:00'), at('2025-01-05T00:00:00'), null)
+
+      expect(plan.months).toEqual([])
+      expect(plan.days).toEqual([])
+      expect(plan.raw).toEqual([{ from: at('2025-01-01T00:00:00'), to: at('2025-01-05T00:00:00') }])
+    })
+  })
+
+  describe('buildSlaReport', () => {
+    it('should group devices by room, worst first', () => {
+      const devices = [
+        { id: 'd1', name: 'PC 1', ip: '10.0.0.1', type: 'PC', roomId: 'r1', room: { name: 'Office' } },
+        { id: 'd2', name: 'PC 2', ip: '10.0.0.2', type: 'PC', roomId: 'r1', room: { name: 'Office' } },
+        { id: 'd3', name: 'Printer', ip: '10.0.0.3', type: 'PRINTER', roomId: null, room: null }
+      ]
+      const totals = new Map([
+        ['d1', { upSeconds: 900, downSeconds: 100, maintenanceSeconds: 0, unknownSeconds: 0, outages: 1 }],
+        ['d2', { upSeconds: 1000, downSeconds: 0, maintenanceSeconds: 0, unknownSeconds: 0, outages: 0 }],
+        ['d3', { upSeconds: 1000, downSeconds: 0, maintenanceSeconds: 0, unknownSeconds: 0, outages: 0 }]
+      ])
+
+      const rows = buildSlaReport(devices, totals, 'room')
+
+      expect(rows.map(row => row.label)).toEqual(['Office', 'No room'])
+      expect(rows[0].deviceCount).toBe(2)
+      expect(rows[0].uptimePercent).toBe(95)
+    })
+  })
+
+  describe('rollupUptime', () => {
+    it('should roll up completed days and their month', async () => {
+      testPrisma.deviceUptimeDaily.findFirst.mockResolvedValue({ day: at('2025-01-01T00:00:00') })
+      testPrisma.device.findMany.mockResolvedValue([{ id: 'd1' }])
+      testPrisma.deviceStatusHistory.findFirst.mockResolvedValue(change('up', '2024-12-31T10:00:00'))
+      testPrisma.deviceStatusHistory.findMany.mockResolvedValue([])
+      testPrisma.deviceUptimeDaily.groupBy.mockResolvedValue([
+        { deviceId: 'd1', _sum: { upSeconds: 172800, downSeconds: 0, maintenanceSeconds: 0, unknownSeconds: 0, outages: 0 } }
+      ])
+
+      const days = await rollupUptime(at('2025-01-04T00:30:00'))
+
+      // Jan 2 and Jan 3 - today is not complete yet
+      expect(days).toBe(2)
+      expect(testPrisma.deviceUptimeDaily.upsert).toHaveBeenCalledTimes(2)
+      expect(testPrisma.deviceUptimeDaily.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        where: { deviceId_day: { deviceId: 'd1', day: at('2025-01-02T00:00:00') } },
+        update: expect.objectContaining({ upSeconds: 86400, outages: 0 })
+      }))
+      expect(testPrisma.deviceUptimeMonthly.upsert).toHaveBeenCalledWith(expect.objectContaining({
+        where: { deviceId_month: { deviceId: 'd1', month: at('2025-01-01T00:00:00') } }
+      }))
+    })
+  })
+
+  describe('GET /api/reports/uptime', () => {
+    it('should reject a range that ends before it starts', async () => {
+      const response = await getUptimeReport(new NextRequest(
+        'http://localhost:3000/api/reports/uptime?from=2025-01-02T00:00:00Z&to=2025-01-01T00:00:00Z'
+      ))
+
+      expect(response.status).toBe(400)
+    })
+
+    it('should reject an unknown grouping', async () => {
+      const response = await getUptimeReport(new NextRequest(
+        'http://localhost:3000/api/reports/uptime?groupBy=lane'
+      ))
+
+      expect(response.status).toBe(400)
+    })
+  })
+})
@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  createStatusObservation,
+  evaluateStatusObservation,
+  observeDeviceDegradation,
+  StatusDebounceSettings,
+  StatusObservation,
+  toStatusDebounceSettings,
+  DEFAULT_STATUS_DEBOUNCE,
+  FLAPPING_STATUS
+} from '@/lib/status-debounce'
+
+const POLL_MS = 30000
+
+describe('Status Debounce', () => {
+  let observation: StatusObservation
+  let settings: StatusDebounceSettings
+
+  beforeEach(() => {
+    observation = createStatusObservation()
+    settings = { statusConfirmPolls: 1, statusConfirmSeconds: 0, flapThreshold: 0, flapWindowMinutes: 10 }
+  })
+
+  it('should commit the first status immediately', () => {
+    expect(evaluateStatusObservation(observation, 'down', 'unknown', { ...settings, statusConfirmPolls: 3 }, 0)).toBe('down')
+  })
+
+  it('should commit a change right away with the default settings', () => {
+    evaluateStatusObservation(observation, 'up', 'up', settings, 0)
+    expect(evaluateStatusObservation(observation, 'down', 'up', settings, POLL_MS)).toBe('down')
+  })
+
+  it('should wait for the configured number of consecutive polls', () => {
+    settings.statusConfirmPolls = 3
+    evaluateStatusObservation(observation, 'up', 'up', settings, 0)
+
+    expect(evaluateStatusObservation(observation, 'down', 'up', settings, POLL_MS)).toBeNull()
+    expect(evaluateStatusObservation(observation, 'down', 'up', settings, 2 * POLL_MS)).toBeNull()
+    expect(evaluateStatusObservation(observation, 'down', 'up', settings, 3 * POLL_MS)).toBe('down')
+  })
+
+  it('should restart confirmation when the status flips back', () => {
+    settings.statusConfirmPolls = 2
+    evaluateStatusObservation(observation, 'up', 'up', settings, 0)
+
+    expect(evaluateStatusObservation(observation, 'down', 'up', settings, POLL_MS)).toBeNull()
+    expect(evaluateStatusObservation(observation, 'up', 'up', settings, 2 * POLL_MS)).toBeNull()
+    expect(evaluateStatusObservation(observation, 'down', 'up', settings, 3 * POLL_MS)).toBeNull()
+    expect(evaluateStatusObservation(observation, 'down', 'up', settings, 4 * POLL_MS)).toBe('down')
+  })
+
+  it('should wait for the configured number of seconds', () => {
+    settings.statusConfirmSeconds = 60
+    evaluateStatusObservation(observation, 'up', 'up', settings, 0)
+
+    expect(evaluateStatusObservation(observation, 'down', 'up', settings, 10000)).toBeNull()
+    expect(evaluateStatusObservation(observation, 'down', 'up', settings, 40000)).toBeNull()
+    expect(evaluateStatusObservation(observation, 'down', 'up', settings, 70000)).toBe('down')
+  })
+
+  it('should mark a device flapping once the threshold is reached', () => {
+    settings.flapThreshold = 4
+    settings.statusConfirmPolls = 2
+    let committed = 'up'
+    let result: string | null = null
+
+    for (let i = 0; i < 5; i++) {
+      result = evaluateStatusObservation(observation, i % 2 === 0 ? 'up' : 'down', committed, settings, i * POLL_MS)
+      if (result) committed = result
+    }
+
+    expect(result).toBe(FLAPPING_STATUS)
+
+    // Further flips keep it flapping without another change
+    expect(evaluateStatusObservation(observation, 'down', FLAPPING_STATUS, settings, 5 * POLL_MS)).toBeNull()
+  })
+
+  it('should leave flapping only after a full stable window', () => {
+    settings.flapThreshold = 2
+    settings.flapWindowMinutes = 5
+    evaluateStatusObservation(observation, 'up', 'up', settings, 0)
+    evaluateStatusObservation(observation, 'down', 'up', settings, POLL_MS)
+    expect(evaluateStatusObservation(observation, 'up', 'down', settings, 2 * POLL_MS)).toBe(FLAPPING_STATUS)
+
+    expect(evaluateStatusObservation(observation, 'up', FLAPPING_STATUS, settings, 4 * 60000)).toBeNull()
+    expect(evaluateStatusObservation(observation, 'up', FLAPPING_STATUS, settings, 2 * POLL_MS + 5 * 60000)).toBe('up')
+  })
+
+  it('should not detect flapping when the threshold is 0', () => {
+    let committed = 'up'
+
+    for (let i = 0; i < 20; i++) {
+      const result = evaluateStatusObservation(observation, i % 2 === 0 ? 'up' : 'down', committed, settings, i * POLL_MS)
+      expect(result).not.toBe(FLAPPING_STATUS)
+      if (result) committed = result
+    }
+  })
+
+  it('should confirm switches between up and degraded like up/down', () => {
+    settings.statusConfirmPolls = 3
+    settings.flapThreshold = 2
+
+    // Latency hovering around the threshold never gets confirmed
+    for (let i = 0; i < 6; i++) {
+      expect(observeDeviceDegradation('hover', i % 2 === 0, false, settings, i * POLL_MS)).toBe(false)
+    }
+
+    expect(observeDeviceDegradation('slow', true, false, settings, 0)).toBe(false)
+    expect(observeDeviceDegradation('slow', true, false, settings, POLL_MS)).toBe(false)
+    expect(observeDeviceDegradation('slow', true, false, settings, 2 * POLL_MS)).toBe(true)
+    expect(observeDeviceDegradation('slow', false, true, settings, 3 * POLL_MS)).toBe(true)
+
+    // Coming back up already went through the up/down debounce
+    expect(observeDeviceDegradation('recovered', true, null, settings, 0)).toBe(true)
+  })
+
+  it('should fall back to defaults for missing config', () => {
+    expect(toStatusDebounceSettings(null)).toEqual(DEFAULT_STATUS_DEBOUNCE)
+    expect(toStatusDebounceSettings({ statusConfirmPolls: 3 }).statusConfirmPolls).toBe(3)
+  })
+})
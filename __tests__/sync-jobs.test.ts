@@ -0,0 +1,144 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { testPrisma, cleanupTestData } from './test-prisma'
+import { enqueueSyncJob, processDueSyncJobs, retryDelayMs, runSyncJob } from '@/lib/sync-jobs'
+import { syncDeviceToMikroTik } from '@/lib/mikrotik-sync'
+
+// Mock the main prisma client to use the test client
+vi.mock('@/lib/prisma', () => ({
+  prisma: testPrisma
+}))
+
+// Router writes are stubbed - the queue only sees their results
+vi.mock('@/lib/mikrotik-sync', () => ({
+  syncDeviceToMikroTik: vi.fn(),
+  syncProbeToMikroTik: vi.fn(),
+  removeProbeFromMikroTik: vi.fn(),
+  removeNetwatchEntry: vi.fn()
+}))
+
+const now = new Date('2026-03-02T10:00:00Z')
+
+const device = {
+  id: 'd1',
+  name: 'Core Switch',
+  ip: '10.0.0.2',
+  routerId: 'r1',
+  netwatchTimeout: 1000,
+  netwatchInterval: 5,
+  probes: []
+}
+
+const job = (overrides: Record<string, unknown> = {}) => ({
+  id: 'job1',
+  kind: 'SYNC_DEVICE',
+  deviceId: 'd1',
+  payload: '{}',
+  attempts: 0,
+  maxAttempts: 8,
+  ...overrides
+})
+
+describe('MikroTik Sync Jobs', () => {
+  beforeEach(async () => {
+    await cleanupTestData()
+    testPrisma.syncJob.updateMany.mockResolvedValue({ count: 1 })
+    testPrisma.syncJob.count.mockResolvedValue(0)
+  })
+
+  it('should back off exponentially up to an hour', () => {
+    expect(retryDelayMs(1)).toBe(30 * 1000)
+    expect(retryDelayMs(2)).toBe(60 * 1000)
+    expect(retryDelayMs(4)).toBe(4 * 60 * 1000)
+    expect(retryDelayMs(20)).toBe(60 * 60 * 1000)
+  })
+
+  it('should schedule a retry and flag the device when an attempt fails', async () => {
+    vi.mocked(syncDeviceToMikroTik).mockResolvedValue({ success: false, message: 'Connection refused' })
+    testPrisma.syncJob.count.mockResolvedValue(1)
+
+    const result = await runSyncJob(job({ attempts: 2 }), device, now)
+
+    expect(result.success).toBe(false)
+    expect(testPrisma.syncJob.update).toHaveBeenCalledWith({
+      where: { id: 'job1' },
+      data: {
+        status: 'PENDING',
+        attempts: 3,
+        lastError: 'Connection refused',
+        nextRunAt: new Date(now.getTime() + 2 * 60 * 1000),
+        finishedAt: null
+      }
+    })
+    expect(testPrisma.syncJobAttempt.create).toHaveBeenCalledWith({
+      data: { jobId: 'job1', attempt: 3, success: false, message: 'Connection refused' }
+    })
+    expect(testPrisma.device.updateMany).toHaveBeenCalledWith({ where: { id: 'd1' }, data: { needsSync: true } })
+  })
+
+  it('should give up after the last attempt', async () => {
+    vi.mocked(syncDeviceToMikroTik).mockResolvedValue({ success: false, message: 'Connection timeout' })
+
+    await runSyncJob(job({ attempts: 7 }), device, now)
+
+    expect(testPrisma.syncJob.update).toHaveBeenCalledWith({
+      where: { id: 'job1' },
+      data: expect.objectContaining({ status: 'FAILED', attempts: 8, finishedAt: now })
+    })
+  })
+
+  it('should clear needsSync once the device has no open jobs', async () => {
+    vi.mocked(syncDeviceToMikroTik).mockResolvedValue({ success: true, message: 'Netwatch entry updated' })
+
+    await runSyncJob(job({ attempts: 1, payload: JSON.stringify({ oldIP: '10.0.0.1' }) }), device, now)
+
+    expect(syncDeviceToMikroTik).toHaveBeenCalledWith(device, '10.0.0.1')
+    expect(testPrisma.syncJob.update).toHaveBeenCalledWith({
+      where: { id: 'job1' },
+      data: { status: 'SUCCEEDED', attempts: 2, finishedAt: now }
+    })
+    expect(testPrisma.device.updateMany).toHaveBeenCalledWith({ where: { id: 'd1' }, data: { needsSync: false } })
+  })
+
+  it('should not run a job another caller already claimed', async () => {
+    testPrisma.syncJob.updateMany.mockResolvedValue({ count: 0 })
+
+    const result = await runSyncJob(job(), device, now)
+
+    expect(result.success).toBe(false)
+    expect(syncDeviceToMikroTik).not.toHaveBeenCalled()
+    expect(testPrisma.syncJobAttempt.create).not.toHaveBeenCalled()
+  })
+
+  it('should fold a new sync into the waiting one and keep the oldest previous IP', async () => {
+    testPrisma.syncJob.findMany.mockResolvedValueOnce([job({ status: 'PENDING', attempts: 3, payload: JSON.stringify({ oldIP: '10.0.0.1' }) })])
+
+    await enqueueSyncJob({ kind: 'SYNC_DEVICE', device, payload: { oldIP: '10.0.0.2' } }, now)
+
+    expect(testPrisma.syncJob.create).not.toHaveBeenCalled()
+    expect(testPrisma.syncJob.update).toHaveBeenCalledWith({
+      where: { id: 'job1' },
+      data: expect.objectContaining({
+        payload: JSON.stringify({ oldIP: '10.0.0.1' }),
+        status: 'PENDING',
+        attempts: 0,
+        nextRunAt: now
+      })
+    })
+  })
+
+  it('should retry due jobs and treat a deleted device as done', async () => {
+    testPrisma.syncJob.findMany.mockResolvedValueOnce([job({ attempts: 1 })])
+    testPrisma.device.findUnique.mockResolvedValue(null)
+
+    expect(await processDueSyncJobs(now)).toBe(1)
+
+    expect(testPrisma.syncJob.findMany).toHaveBeenCalledWith(expect.objectContaining({
+      where: { status: 'PENDING', nextRunAt: { lte: now } }
+    }))
+    expect(syncDeviceToMikroTik).not.toHaveBeenCalled()
+    expect(testPrisma.syncJob.update).toHaveBeenCalledWith({
+      where: { id: 'job1' },
+      data: { status: 'SUCCEEDED', attempts: 2, finishedAt: now }
+    })
+  })
+})
@@ -9,16 +9,141 @@ export const testPrisma = {
     update: vi.fn(),
     delete: vi.fn(),
     deleteMany: vi.fn(),
+    updateMany: vi.fn(),
+    count: vi.fn().mockResolvedValue(0),
+  },
+  deviceConnection: {
+    findFirst: vi.fn(),
+    findMany: vi.fn().mockResolvedValue([]),
+    create: vi.fn(),
+    update: vi.fn(),
+  },
+  deviceStatusHistory: {
+    findFirst: vi.fn(),
+    findMany: vi.fn(),
+    create: vi.fn(),
+    groupBy: vi.fn().mockResolvedValue([]),
+    deleteMany: vi.fn().mockResolvedValue({ count: 0 }),
+  },
+  deviceMetric: {
+    createMany: vi.fn(),
+    findMany: vi.fn().mockResolvedValue([]),
+    deleteMany: vi.fn().mockResolvedValue({ count: 0 }),
+  },
+  probe: {
+    findMany: vi.fn().mockResolvedValue([]),
+    create: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+  },
+  deviceUptimeDaily: {
+    findFirst: vi.fn(),
+    findMany: vi.fn().mockResolvedValue([]),
+    groupBy: vi.fn().mockResolvedValue([]),
+    upsert: vi.fn(),
+    deleteMany: vi.fn().mockResolvedValue({ count: 0 }),
+  },
+  deviceUptimeMonthly: {
+    findMany: vi.fn().mockResolvedValue([]),
+    upsert: vi.fn(),
+    deleteMany: vi.fn().mockResolvedValue({ count: 0 }),
   },
   user: {
     findUnique: vi.fn(),
     create: vi.fn(),
   },
+  router: {
+    findUnique: vi.fn(),
+    findFirst: vi.fn(),
+    findMany: vi.fn(),
+    count: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+  },
+  alertChannel: {
+    findUnique: vi.fn(),
+    findFirst: vi.fn(),
+    findMany: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+  },
+  alertRule: {
+    findUnique: vi.fn(),
+    findMany: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+    count: vi.fn().mockResolvedValue(0),
+  },
+  alertLog: {
+    findFirst: vi.fn(),
+    findMany: vi.fn(),
+    create: vi.fn(),
+  },
+  maintenanceWindow: {
+    findUnique: vi.fn(),
+    findMany: vi.fn().mockResolvedValue([]),
+    create: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+  },
+  room: {
+    findUnique: vi.fn(),
+    findMany: vi.fn(),
+  },
+  reportDefinition: {
+    findUnique: vi.fn(),
+    findMany: vi.fn().mockResolvedValue([]),
+    create: vi.fn(),
+    update: vi.fn(),
+    delete: vi.fn(),
+    count: vi.fn().mockResolvedValue(0),
+  },
+  generatedReport: {
+    findFirst: vi.fn(),
+    findUnique: vi.fn(),
+    findMany: vi.fn().mockResolvedValue([]),
+    create: vi.fn(),
+  },
+  driftReport: {
+    findFirst: vi.fn(),
+    findMany: vi.fn().mockResolvedValue([]),
+    create: vi.fn(),
+  },
+  syncJob: {
+    // Jobs behave like freshly created rows, so routes can run their first attempt
+    create: vi.fn(({ data }) => Promise.resolve({ id: 'sync-job-id', attempts: 0, maxAttempts: 8, payload: '{}', ...data })),
+    findUnique: vi.fn(),
+    findMany: vi.fn().mockResolvedValue([]),
+    update: vi.fn(),
+    updateMany: vi.fn().mockResolvedValue({ count: 1 }),
+    count: vi.fn().mockResolvedValue(0),
+    deleteMany: vi.fn().mockResolvedValue({ count: 0 }),
+  },
+  syncJobAttempt: {
+    create: vi.fn(),
+  },
+  classificationRule: {
+    findMany: vi.fn().mockResolvedValue([]),
+    deleteMany: vi.fn(),
+    createMany: vi.fn(),
+    count: vi.fn().mockResolvedValue(0),
+  },
+  deviceTypeDefinition: {
+    findMany: vi.fn().mockResolvedValue([]),
+    upsert: vi.fn(),
+    delete: vi.fn(),
+    deleteMany: vi.fn(),
+  },
   systemConfig: {
     findFirst: vi.fn(),
     findUnique: vi.fn(),
+    update: vi.fn(),
     upsert: vi.fn(),
   },
+  $transaction: vi.fn((operations: Promise<unknown>[]) => Promise.all(operations)),
 }
 
 // Helper function to reset mocks between tests
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { testPrisma, cleanupTestData } from './test-prisma'
+import {
+  buildParentMap,
+  findRootCauses,
+  resolveTopologyStatuses,
+  TopologyConnection
+} from '@/lib/topology'
+import { POST as createConnection } from '@/app/api/connections/route'
+import { NextRequest } from 'next/server'
+
+// Mock the main prisma client to use the test client
+vi.mock('@/lib/prisma', () => ({
+  prisma: testPrisma
+}))
+
+// Mock auth module
+vi.mock('@/auth', () => ({
+  auth: vi.fn(() => Promise.resolve({ user: { id: 'test-user', role: 'OPERATOR' } }))
+}))
+
+vi.spyOn(console, 'error').mockImplementation(() => {})
+
+// router -> switch -> (ap, camera)
+const connections: TopologyConnection[] = [
+  { sourceId: 'router', targetId: 'switch', upstream: 'SOURCE' },
+  { sourceId: 'ap', targetId: 'switch', upstream: 'TARGET' },
+  { sourceId: 'switch', targetId: 'camera', upstream: 'SOURCE' },
+  { sourceId: 'camera', targetId: 'printer', upstream: 'NONE' }
+]
+
+const statusesOf = (entries: Record<string, string>) => new Map(Object.entries(entries))
+
+describe('Topology', () => {
+  beforeEach(async () => {
+    await cleanupTestData()
+  })
+
+  describe('buildParentMap', () => {
+    it('should follow the upstream end of each connection', () => {
+      const parents = buildParentMap(connections)
+
+      expect(parents.get('switch')).toEqual(['router'])
+      expect(parents.get('ap')).toEqual(['switch'])
+      expect(parents.get('camera')).toEqual(['switch'])
+      expect(parents.has('printer')).toBe(false)
+    })
+  })
+
+  describe('resolveTopologyStatuses', () => {
+    const parents = buildParentMap(connections)
+
+    it('should mark devices behind a down switch as unreachable', () => {
+      const resolved = resolveTopologyStatuses(
+        statusesOf({ router: 'up', switch: 'down', ap: 'down', camera: 'down', printer: 'down' }),
+        parents
+      )
+
+      expect(resolved.get('switch')).toBe('down')
+      expect(resolved.get('ap')).toBe('unreachable')
+      expect(resolved.get('camera')).toBe('unreachable')
+      // Visual-only connection does not suppress anything
+      expect(resolved.get('printer')).toBe('down')
+    })
+
+    it('should cascade through several levels', () => {
+      const resolved = resolveTopologyStatuses(
+        statusesOf({ router: 'down', switch: 'down', ap: 'down', camera: 'up' }),
+        parents
+      )
+
+      expect(resolved.get('router')).toBe('down')
+      expect(resolved.get('switch')).toBe('unreachable')
+      expect(resolved.get('ap')).toBe('unreachable')
+      expect(resolved.get('camera')).toBe('up')
+    })
+
+    it('should keep a device down while a redundant parent is up', () => {
+      const redundant = buildParentMap([
+        ...connections,
+        { sourceId: 'router', targetId: 'ap', upstream: 'SOURCE' }
+      ])
+
+      const resolved = resolveTopologyStatuses(
+        statusesOf({ router: 'up', switch: 'down', ap: 'down' }),
+        redundant
+      )
+
+      expect(resolved.get('ap')).toBe('down')
+    })
+
+    it('should turn unreachable back into down when the parent recovers', () => {
+      const resolved = resolveTopologyStatuses(
+        statusesOf({ router: 'up', switch: 'up', ap: 'unreachable' }),
+        parents
+      )
+
+      expect(resolved.get('ap')).toBe('down')
+    })
+
+    it('should not suppress a loop with no root cause', () => {
+      const loop = buildParentMap([
+        { sourceId: 'a', targetId: 'b', upstream: 'SOURCE' },
+        { sourceId: 'b', targetId: 'a', upstream: 'SOURCE' }
+      ])
+
+      const resolved = resolveTopologyStatuses(statusesOf({ a: 'down', b: 'down' }), loop)
+
+      expect(resolved.get('a')).toBe('down')
+      expect(resolved.get('b')).toBe('down')
+    })
+  })
+
+  describe('findRootCauses', () => {
+    it('should return down parents with unreachable dependents', () => {
+      const parents = buildParentMap(connections)
+      const resolved = resolveTopologyStatuses(
+        statusesOf({ router: 'up', switch: 'down', ap: 'down', camera: 'down', printer: 'down' }),
+        parents
+      )
+
+      expect(Array.from(findRootCauses(resolved, parents))).toEqual(['switch'])
+    })
+  })
+
+  describe('POST /api/connections', () => {
+    it('should reject an invalid upstream', async () => {
+      const response = await createConnection(new NextRequest('http://localhost:3000/api/connections', {
+        method: 'POST',
+        body: JSON.stringify({ sourceId: 'router', targetId: 'switch', upstream: 'BOTH' })
+      }))
+
+      expect(response.status).toBe(400)
+      expect(testPrisma.deviceConnection.create).not.toHaveBeenCalled()
+    })
+
+    it('should store the dependency direction', async () => {
+      testPrisma.device.findUnique.mockResolvedValue({ id: 'router' })
+      testPrisma.deviceConnection.findFirst.mockResolvedValue(null)
+      testPrisma.deviceConnection.create.mockImplementation(({ data }: any) => Promise.resolve({ id: 'connection-1', ...data }))
+
+      const response = await createConnection(new NextRequest('http://localhost:3000/api/connections', {
+        method: 'POST',
+        body: JSON.stringify({ sourceId: 'router', targetId: 'switch', upstream: 'SOURCE' })
+      }))
+
+      expect(response.status).toBe(200)
+      expect(testPrisma.deviceConnection.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ upstream: 'SOURCE' })
+      })
+    })
+  })
+})
@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { prisma } from '@/lib/prisma'
+import { serializeChannelConfig, toPublicAlertChannel, validateAlertChannelInput } from '@/lib/alert-channels'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * PUT /api/alerts/channels/[id]
+ * Update an alert channel (masked secrets keep their stored value) - ADMIN only
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth()
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+    
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+    
+    const existingChannel = await prisma.alertChannel.findUnique({
+      where: { id: params.id }
+    })
+    
+    if (!existingChannel) {
+      return NextResponse.json(
+        { error: 'Channel not found' },
+        { status: 404 }
+      )
+    }
+    
+    const body = await request.json()
+    // Stored secrets only carry over when the type stays the same
+    const storedConfig = body.type === existingChannel.type ? existingChannel.config : undefined
+    const validationError = validateAlertChannelInput(body, storedConfig)
+    
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      )
+    }
+    
+    const { name, type, config, enabled } = body
+    
+    const nameTaken = await prisma.alertChannel.findFirst({
+      where: {
+        name: name.trim(),
+        NOT: { id: params.id }
+      }
+    })
+    
+    if (nameTaken) {
+      return NextResponse.json(
+        { error: 'Channel name already exists' },
+        { status: 400 }
+      )
+    }
+    
+    const channel = await prisma.alertChannel.update({
+      where: { id: params.id },
+      data: {
+        name: name.trim(),
+        type,
+        config: serializeChannelConfig(type, config, storedConfig),
+        enabled: enabled !== undefined ? enabled !== false : existingChannel.enabled
+      }
+    })
+    
+    return NextResponse.json({ channel: toPublicAlertChannel(channel) })
+  } catch (error) {
+    console.error('Error updating alert channel:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/alerts/channels/[id]
+ * Delete an alert channel and the rules using it - ADMIN only
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth()
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+    
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+    
+    const existingChannel = await prisma.alertChannel.findUnique({
+      where: { id: params.id }
+    })
+    
+    if (!existingChannel) {
+      return NextResponse.json(
+        { error: 'Channel not found' },
+        { status: 404 }
+      )
+    }
+    
+    // Rules cascade with the channel; the alert log keeps its copies of the names
+    await prisma.alertChannel.delete({
+      where: { id: params.id }
+    })
+    
+    return NextResponse.json({
+      success: true,
+      message: 'Channel deleted successfully'
+    })
+  } catch (error) {
+    console.error('Error deleting alert channel:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
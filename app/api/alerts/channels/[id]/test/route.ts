@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { prisma } from '@/lib/prisma'
+import { sendAlertMessage } from '@/lib/alert-channels'
+import { buildAlertMessage } from '@/lib/alerts'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/alerts/channels/[id]/test
+ * Send a test notification through a channel - ADMIN only
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth()
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+    
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+    
+    const channel = await prisma.alertChannel.findUnique({
+      where: { id: params.id }
+    })
+    
+    if (!channel) {
+      return NextResponse.json(
+        { error: 'Channel not found' },
+        { status: 404 }
+      )
+    }
+    
+    const message = buildAlertMessage('TEST', {
+      id: 'test',
+      name: 'Test Device',
+      ip: '0.0.0.0',
+      type: 'OTHER',
+      roomId: null,
+      laneName: '',
+      status: 'down',
+      statusSince: null
+    }, 'Channel test', null)
+    
+    try {
+      await sendAlertMessage(channel, message)
+    } catch (sendError) {
+      return NextResponse.json({
+        success: false,
+        error: sendError instanceof Error ? sendError.message : 'Delivery failed'
+      })
+    }
+    
+    return NextResponse.json({
+      success: true,
+      message: `Test notification sent via "${channel.name}"`
+    })
+  } catch (error) {
+    console.error('Error testing alert channel:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { prisma } from '@/lib/prisma'
+import { serializeChannelConfig, toPublicAlertChannel, validateAlertChannelInput } from '@/lib/alert-channels'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/alerts/channels
+ * List alert channels (secrets masked) - ADMIN only
+ */
+export async function GET() {
+  try {
+    const session = await auth()
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+    
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+    
+    const channels = await prisma.alertChannel.findMany({
+      include: {
+        _count: {
+          select: { rules: true }
+        }
+      },
+      orderBy: {
+        name: 'asc'
+      }
+    })
+    
+    return NextResponse.json({ channels: channels.map(toPublicAlertChannel) })
+  } catch (error) {
+    console.error('Error fetching alert channels:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/alerts/channels
+ * Create an alert channel - ADMIN only
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth()
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+    
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+    
+    const body = await request.json()
+    const validationError = validateAlertChannelInput(body)
+    
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      )
+    }
+    
+    const { name, type, config, enabled } = body
+    
+    const existingChannel = await prisma.alertChannel.findUnique({
+      where: { name: name.trim() }
+    })
+    
+    if (existingChannel) {
+      return NextResponse.json(
+        { error: 'Channel name already exists' },
+        { status: 400 }
+      )
+    }
+    
+    const channel = await prisma.alertChannel.create({
+      data: {
+        name: name.trim(),
+        type,
+        config: serializeChannelConfig(type, config),
+        enabled: enabled !== false
+      }
+    })
+    
+    return NextResponse.json({ channel: toPublicAlertChannel(channel) }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating alert channel:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { prisma } from '@/lib/prisma'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/alerts/log
+ * Recent notification attempts, newest first - ADMIN only
+ * Query: ?limit=100&deviceId=...
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth()
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+    
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+    
+    const { searchParams } = new URL(request.url)
+    const deviceId = searchParams.get('deviceId')
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '100') || 100, 1), 500)
+    
+    const entries = await prisma.alertLog.findMany({
+      where: deviceId ? { deviceId } : undefined,
+      orderBy: { createdAt: 'desc' },
+      take: limit
+    })
+    
+    return NextResponse.json({ entries })
+  } catch (error) {
+    console.error('Error fetching alert log:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { prisma } from '@/lib/prisma'
+import { toAlertRuleData, validateAlertRuleInput } from '@/lib/alerts'
+import { loadDeviceTypeKeys } from '@/lib/device-types'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * PUT /api/alerts/rules/[id]
+ * Update an alert rule - ADMIN only
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth()
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+    
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+    
+    const body = await request.json()
+    const validationError = validateAlertRuleInput(body, await loadDeviceTypeKeys())
+    
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      )
+    }
+    
+    const existingRule = await prisma.alertRule.findUnique({
+      where: { id: params.id }
+    })
+    
+    if (!existingRule) {
+      return NextResponse.json(
+        { error: 'Rule not found' },
+        { status: 404 }
+      )
+    }
+    
+    const channel = await prisma.alertChannel.findUnique({
+      where: { id: body.channelId }
+    })
+    
+    if (!channel) {
+      return NextResponse.json(
+        { error: 'Channel not found' },
+        { status: 400 }
+      )
+    }
+    
+    const rule = await prisma.alertRule.update({
+      where: { id: params.id },
+      data: toAlertRuleData(body)
+    })
+    
+    return NextResponse.json({ rule })
+  } catch (error) {
+    console.error('Error updating alert rule:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/alerts/rules/[id]
+ * Delete an alert rule - ADMIN only
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth()
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+    
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+    
+    const existingRule = await prisma.alertRule.findUnique({
+      where: { id: params.id }
+    })
+    
+    if (!existingRule) {
+      return NextResponse.json(
+        { error: 'Rule not found' },
+        { status: 404 }
+      )
+    }
+    
+    await prisma.alertRule.delete({
+      where: { id: params.id }
+    })
+    
+    return NextResponse.json({
+      success: true,
+      message: 'Rule deleted successfully'
+    })
+  } catch (error) {
+    console.error('Error deleting alert rule:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
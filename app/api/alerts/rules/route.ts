@@ -0,0 +1,107 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { prisma } from '@/lib/prisma'
+import { toAlertRuleData, validateAlertRuleInput } from '@/lib/alerts'
+import { loadDeviceTypeKeys } from '@/lib/device-types'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/alerts/rules
+ * List alert rules with their channel - ADMIN only
+ */
+export async function GET() {
+  try {
+    const session = await auth()
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+    
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+    
+    const rules = await prisma.alertRule.findMany({
+      include: {
+        channel: {
+          select: { id: true, name: true, type: true, enabled: true }
+        }
+      },
+      orderBy: {
+        name: 'asc'
+      }
+    })
+    
+    return NextResponse.json({ rules })
+  } catch (error) {
+    console.error('Error fetching alert rules:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/alerts/rules
+ * Create an alert rule - ADMIN only
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth()
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+    
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+    
+    const body = await request.json()
+    const validationError = validateAlertRuleInput(body, await loadDeviceTypeKeys())
+    
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      )
+    }
+    
+    const channel = await prisma.alertChannel.findUnique({
+      where: { id: body.channelId }
+    })
+    
+    if (!channel) {
+      return NextResponse.json(
+        { error: 'Channel not found' },
+        { status: 400 }
+      )
+    }
+    
+    const rule = await prisma.alertRule.create({
+      data: toAlertRuleData(body)
+    })
+    
+    return NextResponse.json({ rule }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating alert rule:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
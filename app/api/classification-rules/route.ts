@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { loadClassificationRules, saveClassificationRules, validateClassificationRules } from '@/lib/classification-rules'
+import { ClassificationRuleInput } from '@/lib/device-classification'
+import { loadDeviceTypeKeys } from '@/lib/device-types'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/classification-rules
+ * Ordered device type rules - ADMIN and OPERATOR only
+ * isDefault is true while no rules are saved and the built-in ones apply
+ */
+export async function GET() {
+  try {
+    const session = await auth()
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'ADMIN' && session.user.role !== 'OPERATOR') {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const { rules, isDefault } = await loadClassificationRules()
+
+    return NextResponse.json({ rules, isDefault })
+  } catch (error) {
+    console.error('Error fetching classification rules:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/classification-rules
+ * Replace the rule table - ADMIN only
+ *
+ * Body:
+ * - rules: { field, pattern, type, enabled }[] in evaluation order (empty restores the defaults)
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const session = await auth()
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const { rules } = await request.json()
+
+    const validationError = validateClassificationRules(rules, await loadDeviceTypeKeys())
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      )
+    }
+
+    await saveClassificationRules(rules as ClassificationRuleInput[])
+    const saved = await loadClassificationRules()
+
+    return NextResponse.json({
+      success: true,
+      ...saved,
+      message: saved.isDefault ? 'Restored the default rules' : `Saved ${saved.rules.length} rule${saved.rules.length !== 1 ? 's' : ''}`
+    })
+  } catch (error) {
+    console.error('Error saving classification rules:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@/auth'
 import { prisma } from '@/lib/prisma'
+import { encryptSecret, maskSecret, MASKED_SECRET } from '@/lib/credential-encryption'
+import { DEFAULT_HISTORY_RETENTION_DAYS, MAX_HISTORY_RETENTION_DAYS } from '@/lib/history-retention'
+import { findInvalidRecipient, parseRecipients } from '@/lib/scheduled-reports'
 
 export const dynamic = 'force-dynamic'
 
@@ -33,7 +36,10 @@ export async function GET(request: NextRequest) {
       )
     }
     
-    return NextResponse.json({ config })
+    // Never send stored passwords to the browser
+    return NextResponse.json({
+      config: { ...config, mikrotikPass: maskSecret(config.mikrotikPass), smtpPass: maskSecret(config.smtpPass) }
+    })
   } catch (error) {
     console.error('Error fetching config:', error)
     return NextResponse.json(
@@ -69,7 +75,21 @@ export async function PUT(request: NextRequest) {
       mikrotikPass, 
       mikrotikPort,
       defaultNetwatchTimeout,
-      defaultNetwatchInterval
+      defaultNetwatchInterval,
+      statusConfirmPolls,
+      statusConfirmSeconds,
+      flapThreshold,
+      flapWindowMinutes,
+      historyRetentionDays,
+      purgeDeletedDeviceHistory,
+      smtpHost,
+      smtpPort,
+      smtpSecure,
+      smtpUser,
+      smtpPass,
+      smtpFrom,
+      driftReportEnabled,
+      driftReportRecipients
     } = body
     
     // Validate polling interval if provided
@@ -112,15 +132,130 @@ export async function PUT(request: NextRequest) {
       }
     }
     
+    // Validate status debounce settings if provided
+    if (statusConfirmPolls !== undefined) {
+      if (typeof statusConfirmPolls !== 'number' || statusConfirmPolls < 1 || statusConfirmPolls > 100 || !Number.isInteger(statusConfirmPolls)) {
+        return NextResponse.json(
+          { error: 'Invalid confirm polls - must be an integer between 1 and 100' },
+          { status: 400 }
+        )
+      }
+    }
+    
+    if (statusConfirmSeconds !== undefined) {
+      if (typeof statusConfirmSeconds !== 'number' || statusConfirmSeconds < 0 || statusConfirmSeconds > 3600 || !Number.isInteger(statusConfirmSeconds)) {
+        return NextResponse.json(
+          { error: 'Invalid confirm duration - must be between 0s and 3600s' },
+          { status: 400 }
+        )
+      }
+    }
+    
+    if (flapThreshold !== undefined) {
+      if (typeof flapThreshold !== 'number' || flapThreshold < 0 || flapThreshold > 1000 || !Number.isInteger(flapThreshold)) {
+        return NextResponse.json(
+          { error: 'Invalid flap threshold - must be an integer between 0 (disabled) and 1000' },
+          { status: 400 }
+        )
+      }
+    }
+    
+    if (flapWindowMinutes !== undefined) {
+      if (typeof flapWindowMinutes !== 'number' || flapWindowMinutes < 1 || flapWindowMinutes > 1440 || !Number.isInteger(flapWindowMinutes)) {
+        return NextResponse.json(
+          { error: 'Invalid flap window - must be between 1 and 1440 minutes' },
+          { status: 400 }
+        )
+      }
+    }
+    
+    // Validate history retention settings if provided
+    if (historyRetentionDays !== undefined) {
+      if (typeof historyRetentionDays !== 'number' || historyRetentionDays < 0 || historyRetentionDays > MAX_HISTORY_RETENTION_DAYS || !Number.isInteger(historyRetentionDays)) {
+        return NextResponse.json(
+          { error: `Invalid history retention - must be between 0 (keep forever) and ${MAX_HISTORY_RETENTION_DAYS} days` },
+          { status: 400 }
+        )
+      }
+    }
+    
+    if (purgeDeletedDeviceHistory !== undefined && typeof purgeDeletedDeviceHistory !== 'boolean') {
+      return NextResponse.json(
+        { error: 'Invalid purgeDeletedDeviceHistory - must be a boolean' },
+        { status: 400 }
+      )
+    }
+    
+    // Validate SMTP settings if provided
+    if (smtpPort !== undefined) {
+      if (typeof smtpPort !== 'number' || smtpPort <= 0 || smtpPort > 65535 || !Number.isInteger(smtpPort)) {
+        return NextResponse.json(
+          { error: 'Invalid SMTP port - must be an integer between 1 and 65535' },
+          { status: 400 }
+        )
+      }
+    }
+    
+    if (smtpFrom && (typeof smtpFrom !== 'string' || !smtpFrom.includes('@'))) {
+      return NextResponse.json(
+        { error: 'Invalid SMTP sender - must be an email address' },
+        { status: 400 }
+      )
+    }
+    
+    // Validate drift report settings if provided
+    if (driftReportEnabled !== undefined && typeof driftReportEnabled !== 'boolean') {
+      return NextResponse.json(
+        { error: 'Invalid driftReportEnabled - must be a boolean' },
+        { status: 400 }
+      )
+    }
+    
+    if (driftReportRecipients !== undefined) {
+      if (typeof driftReportRecipients !== 'string') {
+        return NextResponse.json(
+          { error: 'Drift report recipients must be a comma-separated list of email addresses' },
+          { status: 400 }
+        )
+      }
+      
+      const invalidRecipient = findInvalidRecipient(driftReportRecipients)
+      if (invalidRecipient) {
+        return NextResponse.json(
+          { error: `Invalid email address: ${invalidRecipient}` },
+          { status: 400 }
+        )
+      }
+    }
+    
     // Build update data object
     const updateData: any = {}
     if (pollingInterval !== undefined) updateData.pollingInterval = pollingInterval
     if (mikrotikIp !== undefined) updateData.mikrotikIp = mikrotikIp
     if (mikrotikUser !== undefined) updateData.mikrotikUser = mikrotikUser
-    if (mikrotikPass !== undefined) updateData.mikrotikPass = mikrotikPass
+    // The masked placeholder means "unchanged" - anything else is a new password
+    if (mikrotikPass !== undefined && mikrotikPass !== MASKED_SECRET) {
+      updateData.mikrotikPass = encryptSecret(mikrotikPass)
+    }
     if (mikrotikPort !== undefined) updateData.mikrotikPort = mikrotikPort
     if (defaultNetwatchTimeout !== undefined) updateData.defaultNetwatchTimeout = defaultNetwatchTimeout
     if (defaultNetwatchInterval !== undefined) updateData.defaultNetwatchInterval = defaultNetwatchInterval
+    if (statusConfirmPolls !== undefined) updateData.statusConfirmPolls = statusConfirmPolls
+    if (statusConfirmSeconds !== undefined) updateData.statusConfirmSeconds = statusConfirmSeconds
+    if (flapThreshold !== undefined) updateData.flapThreshold = flapThreshold
+    if (flapWindowMinutes !== undefined) updateData.flapWindowMinutes = flapWindowMinutes
+    if (historyRetentionDays !== undefined) updateData.historyRetentionDays = historyRetentionDays
+    if (purgeDeletedDeviceHistory !== undefined) updateData.purgeDeletedDeviceHistory = purgeDeletedDeviceHistory
+    if (smtpHost !== undefined) updateData.smtpHost = String(smtpHost).trim()
+    if (smtpPort !== undefined) updateData.smtpPort = smtpPort
+    if (smtpSecure !== undefined) updateData.smtpSecure = smtpSecure === true
+    if (smtpUser !== undefined) updateData.smtpUser = smtpUser
+    if (smtpPass !== undefined && smtpPass !== MASKED_SECRET) {
+      updateData.smtpPass = smtpPass ? encryptSecret(smtpPass) : ''
+    }
+    if (smtpFrom !== undefined) updateData.smtpFrom = smtpFrom
+    if (driftReportEnabled !== undefined) updateData.driftReportEnabled = driftReportEnabled
+    if (driftReportRecipients !== undefined) updateData.driftReportRecipients = parseRecipients(driftReportRecipients).join(', ')
     
     const config = await prisma.systemConfig.upsert({
       where: { id: 1 },
@@ -130,14 +265,30 @@ export async function PUT(request: NextRequest) {
         pollingInterval: pollingInterval || 30,
         mikrotikIp: mikrotikIp || '',
         mikrotikUser: mikrotikUser || '',
-        mikrotikPass: mikrotikPass || '',
+        mikrotikPass: mikrotikPass && mikrotikPass !== MASKED_SECRET ? encryptSecret(mikrotikPass) : '',
         mikrotikPort: mikrotikPort || 8728,
         defaultNetwatchTimeout: defaultNetwatchTimeout || 1000,
-        defaultNetwatchInterval: defaultNetwatchInterval || 5
+        defaultNetwatchInterval: defaultNetwatchInterval || 5,
+        statusConfirmPolls: statusConfirmPolls ?? 1,
+        statusConfirmSeconds: statusConfirmSeconds ?? 0,
+        flapThreshold: flapThreshold ?? 6,
+        flapWindowMinutes: flapWindowMinutes ?? 10,
+        historyRetentionDays: historyRetentionDays ?? DEFAULT_HISTORY_RETENTION_DAYS,
+        purgeDeletedDeviceHistory: purgeDeletedDeviceHistory ?? false,
+        smtpHost: smtpHost ? String(smtpHost).trim() : '',
+        smtpPort: smtpPort || 587,
+        smtpSecure: smtpSecure === true,
+        smtpUser: smtpUser || '',
+        smtpPass: smtpPass && smtpPass !== MASKED_SECRET ? encryptSecret(smtpPass) : '',
+        smtpFrom: smtpFrom || '',
+        driftReportEnabled: driftReportEnabled ?? false,
+        driftReportRecipients: driftReportRecipients ? parseRecipients(driftReportRecipients).join(', ') : ''
       }
     })
     
-    return NextResponse.json({ config })
+    return NextResponse.json({
+      config: { ...config, mikrotikPass: maskSecret(config.mikrotikPass), smtpPass: maskSecret(config.smtpPass) }
+    })
   } catch (error) {
     console.error('Error updating config:', error)
     return NextResponse.json(
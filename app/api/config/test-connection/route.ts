@@ -1,6 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@/auth'
-import { RouterOSAPI } from 'node-routeros'
+import { prisma } from '@/lib/prisma'
+import { createRouterOSClient } from '@/lib/routeros-connection'
+import { decryptSecret } from '@/lib/credential-encryption'
 
 export const dynamic = 'force-dynamic'
 
@@ -24,7 +26,32 @@ export async function POST(request: NextRequest) {
     
     // Get config from request body
     const body = await request.json()
-    const { mikrotikIp, mikrotikUser, mikrotikPass, mikrotikPort } = body
+    const { mikrotikIp, mikrotikUser, mikrotikPort, routerId } = body
+    let { mikrotikPass } = body
+    
+    // Testing a saved router without re-typing its password - use the stored one,
+    // but only against that router's own address, username and port
+    if (routerId && !mikrotikPass) {
+      const router = await prisma.router.findUnique({
+        where: { id: routerId }
+      })
+      
+      if (router) {
+        if (mikrotikIp !== router.host || mikrotikUser !== router.username ||
+            (mikrotikPort !== undefined && Number(mikrotikPort) !== router.port)) {
+          return NextResponse.json(
+            {
+              success: false,
+              error: 'Password required',
+              details: 'Enter the password to test a changed IP address, username or port'
+            },
+            { status: 200 }
+          )
+        }
+        
+        mikrotikPass = decryptSecret(router.password)
+      }
+    }
     
     // Validate required fields (check for undefined/null, not empty strings)
     if (mikrotikIp === undefined || mikrotikIp === null || 
@@ -80,12 +107,11 @@ export async function POST(request: NextRequest) {
     }
     
     // Create RouterOS API connection with 10-second timeout
-    const api = new RouterOSAPI({
+    const api = createRouterOSClient({
       host: mikrotikIp,
       user: mikrotikUser,
       password: mikrotikPass,
-      port: port,
-      timeout: 10
+      port: port
     })
     
     try {
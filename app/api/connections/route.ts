@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@/auth'
 import { prisma } from '@/lib/prisma'
+import { CONNECTION_UPSTREAM, isConnectionUpstream } from '@/lib/topology'
 
 // GET - Fetch all connections
 export async function GET() {
@@ -33,7 +34,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json()
-    const { sourceId, targetId, label, type, animated, waypoints } = body
+    const { sourceId, targetId, label, type, animated, waypoints, upstream } = body
 
     // Validate required fields
     if (!sourceId || !targetId) {
@@ -43,6 +44,13 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (upstream !== undefined && !isConnectionUpstream(upstream)) {
+      return NextResponse.json(
+        { error: `Invalid upstream - must be one of ${CONNECTION_UPSTREAM.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
     // Check if devices exist
     const sourceDevice = await prisma.device.findUnique({
       where: { id: sourceId }
@@ -83,6 +91,7 @@ export async function POST(request: NextRequest) {
         label: label || null,
         type: type || 'LAN',
         animated: animated !== undefined ? animated : true,
+        upstream: upstream || 'NONE',
         waypoints: (waypoints && waypoints.length > 0) ? JSON.stringify(waypoints) : null
       }
     })
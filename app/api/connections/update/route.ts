@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@/auth'
 import { prisma } from '@/lib/prisma'
+import { CONNECTION_UPSTREAM, isConnectionUpstream } from '@/lib/topology'
 
 // POST - Update connection
 export async function POST(request: NextRequest) {
@@ -11,7 +12,7 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json()
-    const { id, label, type, animated, waypoints } = body
+    const { id, label, type, animated, waypoints, upstream } = body
 
     if (!id) {
       return NextResponse.json(
@@ -20,12 +21,20 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    if (upstream !== undefined && !isConnectionUpstream(upstream)) {
+      return NextResponse.json(
+        { error: `Invalid upstream - must be one of ${CONNECTION_UPSTREAM.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
     // Build update data object
     const updateData: any = {}
     
     if (label !== undefined && label !== null) updateData.label = label
     if (type !== undefined) updateData.type = type
     if (animated !== undefined) updateData.animated = animated
+    if (upstream !== undefined) updateData.upstream = upstream
     
     // CRITICAL: Handle waypoints properly - use null instead of undefined
     // JSON.stringify removes undefined fields, but keeps null fields
@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { deleteDeviceType, loadDeviceTypes, saveDeviceType, validateDeviceTypeInput } from '@/lib/device-types'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * PUT /api/device-types/[key]
+ * Update a device type's label, icon, colour and netwatch defaults - ADMIN only
+ * Same body as POST /api/device-types without the key
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { key: string } }
+) {
+  try {
+    const session = await auth()
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const existing = await loadDeviceTypes()
+    if (!existing.some(type => type.key === params.key)) {
+      return NextResponse.json(
+        { error: 'Device type not found' },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json()
+
+    const validationError = validateDeviceTypeInput(body, false)
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      )
+    }
+
+    await saveDeviceType(params.key, body)
+    const deviceTypes = await loadDeviceTypes()
+
+    return NextResponse.json({
+      success: true,
+      deviceType: deviceTypes.find(type => type.key === params.key),
+      message: `Saved device type ${body.label.trim()}`
+    })
+  } catch (error) {
+    console.error('Error updating device type:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/device-types/[key]
+ * Delete an unused custom type, or restore a built-in type's defaults - ADMIN only
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { key: string } }
+) {
+  try {
+    const session = await auth()
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const existing = await loadDeviceTypes()
+    if (!existing.some(type => type.key === params.key)) {
+      return NextResponse.json(
+        { error: 'Device type not found' },
+        { status: 404 }
+      )
+    }
+
+    const result = await deleteDeviceType(params.key)
+
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.message },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error deleting device type:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
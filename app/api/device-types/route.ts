@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { loadDeviceTypes, saveDeviceType, validateDeviceTypeInput } from '@/lib/device-types'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/device-types
+ * Device type registry - built-in types first, then custom ones
+ */
+export async function GET() {
+  try {
+    const session = await auth()
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const deviceTypes = await loadDeviceTypes()
+
+    return NextResponse.json({ deviceTypes })
+  } catch (error) {
+    console.error('Error fetching device types:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/device-types
+ * Add a custom device type - ADMIN only
+ *
+ * Body:
+ * - key: string - stored on devices, e.g. "NVR"
+ * - label, icon, color: string
+ * - iconSvg: string (optional) - uploaded SVG shown instead of the icon
+ * - netwatchTimeout, netwatchInterval: number (optional) - defaults for new devices
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth()
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+
+    const validationError = validateDeviceTypeInput(body, true)
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      )
+    }
+
+    const existing = await loadDeviceTypes()
+    if (existing.some(type => type.key === body.key)) {
+      return NextResponse.json(
+        { error: 'Device type already exists' },
+        { status: 400 }
+      )
+    }
+
+    await saveDeviceType(body.key, body)
+    const deviceTypes = await loadDeviceTypes()
+
+    return NextResponse.json({
+      success: true,
+      deviceType: deviceTypes.find(type => type.key === body.key),
+      message: `Added device type ${body.label.trim()}`
+    }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating device type:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,13 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@/auth'
 import { prisma } from '@/lib/prisma'
-import { DEVICE_TYPES, isValidDeviceType } from '@/lib/constants'
+import { isValidDeviceType } from '@/lib/constants'
+import { formatDeviceTypeKeys, loadDeviceTypeKeys } from '@/lib/device-types'
+import { toNetwatchProbe, validateNetwatchProbe } from '@/lib/netwatch-probes'
 
 export const dynamic = 'force-dynamic'
 
 /**
  * POST /api/device/update
- * Update device configuration (name, IP, type, lane, room, netwatch settings)
+ * Update device configuration (name, IP, type, lane, room, router, netwatch settings)
  */
 export async function POST(request: NextRequest) {
   try {
@@ -37,8 +39,13 @@ export async function POST(request: NextRequest) {
       type, 
       laneName,
       roomId,
+      routerId,
+      netwatchType,
       netwatchTimeout,
       netwatchInterval,
+      netwatchPort,
+      netwatchHttpCode,
+      netwatchDnsName,
       netwatchUpScript,
       netwatchDownScript
     } = body
@@ -58,12 +65,13 @@ export async function POST(request: NextRequest) {
       )
     }
     
-    // Validate device type
-    if (!isValidDeviceType(type)) {
+    // Validate device type against the registry
+    const deviceTypeKeys = await loadDeviceTypeKeys()
+    if (!isValidDeviceType(type, deviceTypeKeys)) {
       return NextResponse.json(
         { 
           error: 'Invalid device type',
-          details: `Type must be one of: ${DEVICE_TYPES.join(', ')}`
+          details: formatDeviceTypeKeys(deviceTypeKeys)
         },
         { status: 400 }
       )
@@ -104,6 +112,20 @@ export async function POST(request: NextRequest) {
       }
     }
     
+    // Validate router if provided (omitted = keep current binding)
+    if (routerId) {
+      const router = await prisma.router.findUnique({
+        where: { id: routerId }
+      })
+      
+      if (!router) {
+        return NextResponse.json(
+          { error: 'Router not found' },
+          { status: 400 }
+        )
+      }
+    }
+    
     // Validate netwatch settings if provided
     if (netwatchTimeout !== undefined) {
       if (netwatchTimeout < 100 || netwatchTimeout > 10000) {
@@ -123,6 +145,18 @@ export async function POST(request: NextRequest) {
       }
     }
     
+    // Validate netwatch probe (omitted type keeps the current probe)
+    const probeInput = netwatchType !== undefined
+      ? { netwatchType, netwatchPort, netwatchHttpCode, netwatchDnsName }
+      : existingDevice
+    const probeError = validateNetwatchProbe(probeInput)
+    if (probeError) {
+      return NextResponse.json(
+        { error: probeError },
+        { status: 400 }
+      )
+    }
+    
     // Update device
     const updatedDevice = await prisma.device.update({
       where: { id },
@@ -132,8 +166,10 @@ export async function POST(request: NextRequest) {
         type,
         laneName,
         roomId: roomId || null,
+        routerId: routerId !== undefined ? (routerId || null) : existingDevice.routerId,
         netwatchTimeout: netwatchTimeout || 1000,
         netwatchInterval: netwatchInterval || 5,
+        ...toNetwatchProbe(probeInput),
         netwatchUpScript: netwatchUpScript || null,
         netwatchDownScript: netwatchDownScript || null
       },
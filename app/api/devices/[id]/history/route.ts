@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@/auth'
 import { prisma } from '@/lib/prisma'
+import { getDeviceUptime } from '@/lib/sla'
 
 /**
  * GET /api/devices/[id]/history
  * Get status history for a device (last 24 hours by default)
- * Returns array of status changes with timestamps
+ * Returns array of status changes with timestamps, per-status counts and uptime
  */
 export async function GET(
   request: NextRequest,
@@ -48,6 +49,17 @@ export async function GET(
       }
     })
 
+    // Uptime includes the status carried in from before the range (lib/sla.ts)
+    const uptime = await getDeviceUptime(id, since, new Date())
+
+    // Count entries per status - "flapping" counts how often the device started flapping
+    const counts = { up: 0, degraded: 0, down: 0, unreachable: 0, flapping: 0 }
+    for (const entry of history) {
+      if (entry.status in counts) {
+        counts[entry.status as keyof typeof counts]++
+      }
+    }
+
     return NextResponse.json({
       success: true,
       device: {
@@ -56,6 +68,11 @@ export async function GET(
         name: device.name
       },
       history,
+      counts: {
+        changes: history.length,
+        ...counts
+      },
+      uptime,
       timeRange: {
         since: since.toISOString(),
         hours
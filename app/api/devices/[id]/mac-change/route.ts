@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { prisma } from '@/lib/prisma'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * DELETE /api/devices/[id]/mac-change
+ * Acknowledge a MAC change seen in the ARP table - ADMIN and OPERATOR only
+ * The device keeps its new MAC as the trusted one
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth()
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'ADMIN' && session.user.role !== 'OPERATOR') {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const device = await prisma.device.findUnique({
+      where: { id: params.id }
+    })
+
+    if (!device) {
+      return NextResponse.json(
+        { error: 'Device not found' },
+        { status: 404 }
+      )
+    }
+
+    if (!device.macChangedAt) {
+      return NextResponse.json(
+        { error: 'The device has no MAC change to acknowledge' },
+        { status: 400 }
+      )
+    }
+
+    await prisma.device.update({
+      where: { id: device.id },
+      data: { previousMacAddress: null, macChangedAt: null }
+    })
+
+    return NextResponse.json({
+      success: true,
+      message: `${device.name} is now trusted with MAC ${device.macAddress}`
+    })
+  } catch (error) {
+    console.error('Error acknowledging MAC change:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
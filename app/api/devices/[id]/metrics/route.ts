@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { prisma } from '@/lib/prisma'
+import { downsampleMetrics, MAX_METRIC_HOURS } from '@/lib/device-metrics'
+
+export const dynamic = 'force-dynamic'
+
+// Enough points for a sparkline in the device popup
+const SPARKLINE_POINTS = 96
+
+/**
+ * GET /api/devices/[id]/metrics
+ * Latency and packet loss samples for a device (last 24 hours by default)
+ * Returns averaged points, the latest sample and the device's degraded thresholds
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = params
+    const { searchParams } = new URL(request.url)
+    const hours = Math.min(Math.max(parseInt(searchParams.get('hours') || '24') || 24, 1), MAX_METRIC_HOURS)
+
+    const since = new Date()
+    since.setHours(since.getHours() - hours)
+
+    const device = await prisma.device.findUnique({
+      where: { id },
+      select: { id: true, latencyThresholdMs: true, lossThresholdPercent: true }
+    })
+
+    if (!device) {
+      return NextResponse.json({ error: 'Device not found' }, { status: 404 })
+    }
+
+    const samples = await prisma.deviceMetric.findMany({
+      where: {
+        deviceId: id,
+        timestamp: { gte: since }
+      },
+      select: {
+        rttAvgMs: true,
+        rttMaxMs: true,
+        jitterMs: true,
+        lossPercent: true,
+        timestamp: true
+      },
+      orderBy: { timestamp: 'asc' }
+    })
+
+    return NextResponse.json({
+      success: true,
+      metrics: downsampleMetrics(samples, SPARKLINE_POINTS),
+      latest: samples.length > 0 ? samples[samples.length - 1] : null,
+      thresholds: {
+        latencyThresholdMs: device.latencyThresholdMs,
+        lossThresholdPercent: device.lossThresholdPercent
+      },
+      timeRange: {
+        since: since.toISOString(),
+        hours
+      }
+    })
+  } catch (error) {
+    console.error('Error fetching device metrics:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
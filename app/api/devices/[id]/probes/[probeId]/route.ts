@@ -0,0 +1,179 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { prisma } from '@/lib/prisma'
+import { toNetwatchProbe } from '@/lib/netwatch-probes'
+import { toNetwatchSettings, toProbeData, validateProbeInput } from '@/lib/device-probes'
+import { removeProbeFromMikroTik, syncProbeToMikroTik } from '@/lib/mikrotik-sync'
+import { runSyncJobNow } from '@/lib/sync-jobs'
+import { isDryRunRequest, RouterOSCommand } from '@/lib/routeros-dry-run'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * Load a device with its probes and the probe being edited
+ */
+async function findDeviceProbe(deviceId: string, probeId: string) {
+  const device = await prisma.device.findUnique({
+    where: { id: deviceId },
+    include: { probes: true }
+  })
+
+  return {
+    device,
+    probe: device?.probes.find(probe => probe.id === probeId) ?? null
+  }
+}
+
+/**
+ * PUT /api/devices/[id]/probes/[probeId]
+ * Update an extra netwatch probe (ADMIN/OPERATOR)
+ * ?dryRun=true - return the RouterOS commands the update would send, save nothing
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string; probeId: string } }
+) {
+  try {
+    const session = await auth()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (session.user.role !== 'ADMIN' && session.user.role !== 'OPERATOR') {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const { device, probe: existingProbe } = await findDeviceProbe(params.id, params.probeId)
+
+    if (!device || !existingProbe) {
+      return NextResponse.json({ error: 'Probe not found' }, { status: 404 })
+    }
+
+    const body = await request.json()
+    const validationError = validateProbeInput(body, [
+      toNetwatchProbe(device),
+      ...device.probes.filter(probe => probe.id !== existingProbe.id).map(toNetwatchSettings)
+    ])
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    if (isDryRunRequest(request)) {
+      const commands: RouterOSCommand[] = []
+      const syncResult = device.routerId
+        ? await syncProbeToMikroTik(device, { ...existingProbe, ...toProbeData(body) }, existingProbe, commands)
+        : null
+
+      return NextResponse.json({
+        success: true,
+        dryRun: true,
+        commands,
+        ...(syncResult && !syncResult.success ? { warning: `MikroTik sync would fail: ${syncResult.message}` } : {})
+      })
+    }
+
+    const probe = await prisma.probe.update({
+      where: { id: existingProbe.id },
+      data: toProbeData(body)
+    })
+
+    if (device.routerId) {
+      // The entry on the router still has the old type and target
+      const { type, port, httpCode, dnsName } = existingProbe
+      const syncResult = await runSyncJobNow(
+        { kind: 'SYNC_PROBE', device, payload: { probeId: probe.id, previous: { type, port, httpCode, dnsName } } },
+        { ...device, probes: device.probes.map(other => other.id === probe.id ? probe : other) }
+      )
+
+      if (!syncResult.success) {
+        return NextResponse.json({
+          success: true,
+          probe,
+          warning: `Probe updated but MikroTik sync failed: ${syncResult.message}. The sync will be retried automatically.`
+        })
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      probe,
+      message: 'Probe updated successfully'
+    })
+  } catch (error) {
+    console.error('Error updating device probe:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/devices/[id]/probes/[probeId]
+ * Remove an extra netwatch probe and its entry on the router (ADMIN/OPERATOR)
+ * ?dryRun=true - return the RouterOS commands the removal would send, delete nothing
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; probeId: string } }
+) {
+  try {
+    const session = await auth()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (session.user.role !== 'ADMIN' && session.user.role !== 'OPERATOR') {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const { device, probe } = await findDeviceProbe(params.id, params.probeId)
+
+    if (!device || !probe) {
+      return NextResponse.json({ error: 'Probe not found' }, { status: 404 })
+    }
+
+    if (isDryRunRequest(request)) {
+      const commands: RouterOSCommand[] = []
+      const removeResult = device.routerId ? await removeProbeFromMikroTik(device, probe, commands) : null
+
+      return NextResponse.json({
+        success: true,
+        dryRun: true,
+        commands,
+        ...(removeResult && !removeResult.success
+          ? { warning: `The netwatch entry could not be removed: ${removeResult.message}` }
+          : {})
+      })
+    }
+
+    await prisma.probe.delete({
+      where: { id: probe.id }
+    })
+
+    if (device.routerId) {
+      const removeResult = await runSyncJobNow(
+        { kind: 'REMOVE_PROBE', device, payload: { probe } },
+        { ...device, probes: device.probes.filter(other => other.id !== probe.id) }
+      )
+
+      if (!removeResult.success) {
+        return NextResponse.json({
+          success: true,
+          warning: `Probe deleted but its netwatch entry could not be removed: ${removeResult.message}. The removal will be retried automatically.`
+        })
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: 'Probe deleted successfully'
+    })
+  } catch (error) {
+    console.error('Error deleting device probe:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
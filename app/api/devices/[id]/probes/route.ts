@@ -0,0 +1,154 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { prisma } from '@/lib/prisma'
+import { toNetwatchProbe } from '@/lib/netwatch-probes'
+import {
+  fromNetwatchSettings,
+  mainProbeStatus,
+  MAX_PROBES_PER_DEVICE,
+  toNetwatchSettings,
+  toProbeData,
+  validateProbeInput
+} from '@/lib/device-probes'
+import { syncProbeToMikroTik } from '@/lib/mikrotik-sync'
+import { runSyncJobNow } from '@/lib/sync-jobs'
+import { DRY_RUN_NEW_ID, isDryRunRequest, RouterOSCommand } from '@/lib/routeros-dry-run'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/devices/[id]/probes
+ * The device's own netwatch probe and its extra probes with their last status
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const device = await prisma.device.findUnique({
+      where: { id: params.id },
+      include: { probes: { orderBy: { createdAt: 'asc' } } }
+    })
+
+    if (!device) {
+      return NextResponse.json({ error: 'Device not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({
+      success: true,
+      main: {
+        ...fromNetwatchSettings(toNetwatchProbe(device)),
+        status: mainProbeStatus(device.status),
+        statusSince: device.statusSince
+      },
+      probes: device.probes
+    })
+  } catch (error) {
+    console.error('Error fetching device probes:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/devices/[id]/probes
+ * Add an extra netwatch probe to a device (ADMIN/OPERATOR)
+ * The probe is added to the device's router right away; a failed sync marks the device for manual sync
+ * ?dryRun=true - return the RouterOS commands adding the probe would send, add nothing
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth()
+    if (!session) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (session.user.role !== 'ADMIN' && session.user.role !== 'OPERATOR') {
+      return NextResponse.json({ error: 'Insufficient permissions' }, { status: 403 })
+    }
+
+    const device = await prisma.device.findUnique({
+      where: { id: params.id },
+      include: { probes: true }
+    })
+
+    if (!device) {
+      return NextResponse.json({ error: 'Device not found' }, { status: 404 })
+    }
+
+    if (device.probes.length >= MAX_PROBES_PER_DEVICE) {
+      return NextResponse.json(
+        { error: `A device can have at most ${MAX_PROBES_PER_DEVICE} extra probes` },
+        { status: 400 }
+      )
+    }
+
+    const body = await request.json()
+    const validationError = validateProbeInput(body, [
+      toNetwatchProbe(device),
+      ...device.probes.map(toNetwatchSettings)
+    ])
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    if (isDryRunRequest(request)) {
+      const commands: RouterOSCommand[] = []
+      const syncResult = device.routerId
+        ? await syncProbeToMikroTik(device, { id: DRY_RUN_NEW_ID, ...toProbeData(body) }, undefined, commands)
+        : null
+
+      return NextResponse.json({
+        success: true,
+        dryRun: true,
+        commands,
+        ...(syncResult && !syncResult.success ? { warning: `MikroTik sync would fail: ${syncResult.message}` } : {})
+      })
+    }
+
+    const probe = await prisma.probe.create({
+      data: {
+        deviceId: device.id,
+        ...toProbeData(body)
+      }
+    })
+
+    // Devices without a router are not monitored - nothing to sync
+    if (device.routerId) {
+      const syncResult = await runSyncJobNow(
+        { kind: 'SYNC_PROBE', device, payload: { probeId: probe.id } },
+        { ...device, probes: [...device.probes, probe] }
+      )
+
+      if (!syncResult.success) {
+        return NextResponse.json({
+          success: true,
+          probe,
+          warning: `Probe added but MikroTik sync failed: ${syncResult.message}. The sync will be retried automatically.`
+        }, { status: 201 })
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      probe,
+      message: 'Probe added successfully'
+    }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating device probe:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,14 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@/auth'
 import { prisma } from '@/lib/prisma'
-import { DEVICE_TYPES, isValidDeviceType } from '@/lib/constants'
-import { syncDeviceToMikroTik } from '@/lib/mikrotik-sync'
+import { isValidDeviceType } from '@/lib/constants'
+import { formatDeviceTypeKeys, loadDeviceTypeKeys } from '@/lib/device-types'
+import { toThreshold, validateDegradedThresholds } from '@/lib/device-metrics'
+import { removeNetwatchEntry, syncDeviceToMikroTik } from '@/lib/mikrotik-sync'
+import { toNetwatchProbe, validateNetwatchProbe } from '@/lib/netwatch-probes'
+import { validateDeviceIdentity } from '@/lib/device-identity'
+import { toDeviceIdentity } from '@/lib/mac-bindings'
+import { isSameProbe, toNetwatchSettings } from '@/lib/device-probes'
+import { isDryRunRequest, RouterOSCommand } from '@/lib/routeros-dry-run'
+import { runSyncJobNow } from '@/lib/sync-jobs'
 
 export const dynamic = 'force-dynamic'
 
 /**
  * PUT /api/devices/[id]
  * Update device configuration
+ * 
+ * ?dryRun=true - return the RouterOS commands the update would send, save nothing
  */
 export async function PUT(
   request: NextRequest,
@@ -40,11 +50,20 @@ export async function PUT(
       ip, 
       type, 
       laneName,
+      macAddress,
+      hostname,
       roomId,
+      routerId,
+      netwatchType,
       netwatchTimeout,
       netwatchInterval,
+      netwatchPort,
+      netwatchHttpCode,
+      netwatchDnsName,
       netwatchUpScript,
-      netwatchDownScript
+      netwatchDownScript,
+      latencyThresholdMs,
+      lossThresholdPercent
     } = body
     
     // Validate required fields
@@ -55,12 +74,13 @@ export async function PUT(
       )
     }
     
-    // Validate device type
-    if (!isValidDeviceType(type)) {
+    // Validate device type against the registry
+    const deviceTypeKeys = await loadDeviceTypeKeys()
+    if (!isValidDeviceType(type, deviceTypeKeys)) {
       return NextResponse.json(
         { 
           error: 'Invalid device type',
-          details: `Type must be one of: ${DEVICE_TYPES.join(', ')}`
+          details: formatDeviceTypeKeys(deviceTypeKeys)
         },
         { status: 400 }
       )
@@ -77,7 +97,8 @@ export async function PUT(
     
     // Check if device exists
     const existingDevice = await prisma.device.findUnique({
-      where: { id }
+      where: { id },
+      include: { probes: true }
     })
     
     if (!existingDevice) {
@@ -101,6 +122,22 @@ export async function PUT(
       }
     }
     
+    // Validate router if provided (omitted = keep current binding)
+    if (routerId) {
+      const router = await prisma.router.findUnique({
+        where: { id: routerId }
+      })
+      
+      if (!router) {
+        return NextResponse.json(
+          { error: 'Router not found' },
+          { status: 400 }
+        )
+      }
+    }
+    
+    const newRouterId = routerId !== undefined ? (routerId || null) : existingDevice.routerId
+    
     // Validate netwatch settings if provided
     if (netwatchTimeout !== undefined) {
       if (netwatchTimeout < 100 || netwatchTimeout > 10000) {
@@ -120,76 +157,175 @@ export async function PUT(
       }
     }
     
-    // Update device
-    const updatedDevice = await prisma.device.update({
-      where: { id },
-      data: {
-        name,
-        ip,
-        type,
-        laneName,
-        roomId: roomId || null,
-        netwatchTimeout: netwatchTimeout !== undefined ? netwatchTimeout : 1000,
-        netwatchInterval: netwatchInterval !== undefined ? netwatchInterval : 5,
-        netwatchUpScript: netwatchUpScript || null,
-        netwatchDownScript: netwatchDownScript || null,
-        needsSync: false // Reset sync flag
-      },
-      include: {
-        room: true
-      }
+    // Validate degraded thresholds (empty clears, omitted keeps)
+    const thresholdError = validateDegradedThresholds({ latencyThresholdMs, lossThresholdPercent })
+    if (thresholdError) {
+      return NextResponse.json(
+        { error: thresholdError },
+        { status: 400 }
+      )
+    }
+    
+    // Validate MAC address and hostname (empty clears, omitted keeps)
+    const identityError = validateDeviceIdentity({ macAddress, hostname })
+    if (identityError) {
+      return NextResponse.json(
+        { error: identityError },
+        { status: 400 }
+      )
+    }
+    const identity = toDeviceIdentity({
+      macAddress: macAddress !== undefined ? macAddress : existingDevice.macAddress,
+      hostname: hostname !== undefined ? hostname : existingDevice.hostname
     })
     
-    // Auto-sync to MikroTik if IP or netwatch config changed
+    // Validate netwatch probe (omitted type keeps the current probe)
+    const probeInput = netwatchType !== undefined
+      ? { netwatchType, netwatchPort, netwatchHttpCode, netwatchDnsName }
+      : existingDevice
+    const probeError = validateNetwatchProbe(probeInput)
+    if (probeError) {
+      return NextResponse.json(
+        { error: probeError },
+        { status: 400 }
+      )
+    }
+    const probe = toNetwatchProbe(probeInput)
+    
+    // Entries on one host are told apart by type and target
+    if ((existingDevice.probes ?? []).some(extra => isSameProbe(toNetwatchSettings(extra), probe))) {
+      return NextResponse.json(
+        { error: 'The device already has an extra probe with this type and target' },
+        { status: 400 }
+      )
+    }
+    
+    const routerChanged = newRouterId !== existingDevice.routerId
     const ipChanged = ip !== existingDevice.ip
     const configChanged = 
       name !== existingDevice.name ||
       netwatchTimeout !== existingDevice.netwatchTimeout ||
       netwatchInterval !== existingDevice.netwatchInterval ||
+      probe.netwatchType !== existingDevice.netwatchType ||
+      probe.netwatchPort !== existingDevice.netwatchPort ||
+      probe.netwatchHttpCode !== existingDevice.netwatchHttpCode ||
+      probe.netwatchDnsName !== existingDevice.netwatchDnsName ||
       netwatchUpScript !== existingDevice.netwatchUpScript ||
       netwatchDownScript !== existingDevice.netwatchDownScript
+    // On a new router there is no old entry to look up by previous IP
+    const oldIP = ipChanged && !routerChanged ? existingDevice.ip : undefined
     
-    if (ipChanged || configChanged) {
-      try {
-        const syncResult = await syncDeviceToMikroTik(
-          updatedDevice,
-          ipChanged ? existingDevice.ip : undefined
-        )
-        
-        if (syncResult.success) {
-          return NextResponse.json({
-            success: true,
-            device: updatedDevice,
-            message: `Device updated successfully. ${syncResult.message}`
-          })
-        } else {
-          // Sync failed, mark for manual sync
-          await prisma.device.update({
-            where: { id },
-            data: { needsSync: true }
-          })
-          
-          return NextResponse.json({
-            success: true,
-            device: { ...updatedDevice, needsSync: true },
-            warning: `Device updated but MikroTik sync failed: ${syncResult.message}. Please sync manually.`
-          })
+    const changes = {
+      name,
+      ip,
+      type,
+      laneName,
+      ...identity,
+      // Entering a MAC by hand settles a flagged MAC change
+      ...(identity.macAddress !== existingDevice.macAddress ? { previousMacAddress: null, macChangedAt: null } : {}),
+      roomId: roomId || null,
+      routerId: newRouterId,
+      netwatchTimeout: netwatchTimeout !== undefined ? netwatchTimeout : 1000,
+      netwatchInterval: netwatchInterval !== undefined ? netwatchInterval : 5,
+      ...probe,
+      netwatchUpScript: netwatchUpScript || null,
+      netwatchDownScript: netwatchDownScript || null,
+      latencyThresholdMs: toThreshold(latencyThresholdMs),
+      lossThresholdPercent: toThreshold(lossThresholdPercent),
+      needsSync: false // Reset sync flag
+    }
+    
+    // Dry run - preview the router commands of this update, change nothing
+    if (isDryRunRequest(request)) {
+      const commands: RouterOSCommand[] = []
+      const warnings: string[] = []
+      
+      if (routerChanged && existingDevice.routerId) {
+        const removeResult = await removeNetwatchEntry(existingDevice, existingDevice.routerId, commands)
+        if (!removeResult.success) {
+          warnings.push(`Previous router: ${removeResult.message}`)
         }
-      } catch (error: any) {
-        console.error('Error syncing to MikroTik:', error)
-        
-        // Mark for manual sync
-        await prisma.device.update({
-          where: { id },
-          data: { needsSync: true }
-        })
+      }
+      
+      if (ipChanged || configChanged || routerChanged) {
+        const syncResult = await syncDeviceToMikroTik({
+          ...existingDevice,
+          ...changes,
+          netwatchEntryId: routerChanged ? null : existingDevice.netwatchEntryId,
+          probes: existingDevice.probes.map(extra => ({ ...extra, entryId: routerChanged ? null : extra.entryId }))
+        }, oldIP, commands)
         
+        if (!syncResult.success) {
+          warnings.push(`MikroTik sync would fail: ${syncResult.message}`)
+        }
+      }
+      
+      return NextResponse.json({
+        success: true,
+        dryRun: true,
+        commands,
+        ...(warnings.length > 0 ? { warning: warnings.join('. ') } : {})
+      })
+    }
+    
+    // Update device
+    const updatedDevice = await prisma.device.update({
+      where: { id },
+      data: {
+        ...changes,
+        // RouterOS entry IDs are per router - the new router assigns its own
+        ...(routerChanged ? {
+          netwatchEntryId: null,
+          probes: { updateMany: { where: {}, data: { entryId: null } } }
+        } : {})
+      },
+      include: {
+        room: true,
+        router: {
+          select: { id: true, name: true }
+        },
+        probes: true
+      }
+    })
+    
+    // Router writes are queued as jobs - failed ones are retried by the worker
+    const warnings: string[] = []
+    
+    // Moved to another router - drop the entries from the old router first
+    if (routerChanged && existingDevice.routerId) {
+      const removeResult = await runSyncJobNow({
+        kind: 'REMOVE_DEVICE',
+        device: existingDevice,
+        payload: { device: existingDevice, routerId: existingDevice.routerId }
+      })
+      
+      if (!removeResult.success) {
+        console.warn(`Could not remove netwatch entry for ${existingDevice.ip} from previous router: ${removeResult.message}`)
+        warnings.push(`removal from the previous router failed: ${removeResult.message}`)
+      }
+    }
+    
+    // Auto-sync to MikroTik if IP, router or netwatch config changed
+    if (ipChanged || configChanged || routerChanged) {
+      const syncResult = await runSyncJobNow({ kind: 'SYNC_DEVICE', device: updatedDevice, payload: { oldIP } }, updatedDevice)
+      
+      if (!syncResult.success) {
+        warnings.push(`MikroTik sync failed: ${syncResult.message}`)
+      }
+      
+      if (warnings.length > 0) {
         return NextResponse.json({
           success: true,
           device: { ...updatedDevice, needsSync: true },
-          warning: 'Device updated but MikroTik sync failed. Please sync manually from device list.'
+          warning: `Device updated but ${warnings.join('. ')}. The sync will be retried automatically.`
         })
       }
+      
+      return NextResponse.json({
+        success: true,
+        device: updatedDevice,
+        message: `Device updated successfully. ${syncResult.message}`
+      })
     }
     
     return NextResponse.json({
@@ -210,6 +346,9 @@ export async function PUT(
 /**
  * DELETE /api/devices/[id]
  * Delete device
+ * 
+ * ?dryRun=true - preview only; deleting never touches the router (its netwatch
+ * entries stay and show up as orphans in reconciliation)
  */
 export async function DELETE(
   request: NextRequest,
@@ -248,6 +387,15 @@ export async function DELETE(
       )
     }
     
+    if (isDryRunRequest(request)) {
+      return NextResponse.json({
+        success: true,
+        dryRun: true,
+        commands: [],
+        message: 'The device is only removed from the dashboard - its netwatch entries stay on the router'
+      })
+    }
+    
     // Delete device
     await prisma.device.delete({
       where: { id }
@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import {
+  getStatusEventsSince,
+  parseStatusEventId,
+  StatusEventCursor,
+  STATUS_EVENT_HEARTBEAT_MS,
+  STATUS_EVENT_POLL_MS,
+  toStatusEventId
+} from '@/lib/status-events'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/devices/events
+ * Server-Sent Events stream of device status changes (all authenticated users)
+ *
+ * Each change is sent as `event: status` with a DeviceStatusEvent payload.
+ * Reconnecting clients send Last-Event-ID and resume from that point.
+ */
+export async function GET(request: NextRequest) {
+  const session = await auth()
+
+  if (!session) {
+    return NextResponse.json(
+      { error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  // Event ids are history (timestamp, id) pairs - resume after the last one the client saw
+  const lastEventId = request.headers.get('last-event-id')
+  let cursor: StatusEventCursor = (lastEventId && parseStatusEventId(lastEventId)) || {
+    since: new Date(),
+    afterId: ''
+  }
+
+  const encoder = new TextEncoder()
+  let pollTimer: ReturnType<typeof setTimeout> | null = null
+  let heartbeatTimer: ReturnType<typeof setInterval> | null = null
+  let closed = false
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const send = (chunk: string) => {
+        if (!closed) {
+          controller.enqueue(encoder.encode(chunk))
+        }
+      }
+
+      const close = () => {
+        if (closed) return
+        closed = true
+        if (pollTimer) clearTimeout(pollTimer)
+        if (heartbeatTimer) clearInterval(heartbeatTimer)
+        try {
+          controller.close()
+        } catch (error) {
+          // Stream already closed by the client
+        }
+      }
+
+      const poll = async () => {
+        try {
+          const result = await getStatusEventsSince(cursor)
+          cursor = result.cursor
+
+          for (const event of result.events) {
+            send(`id: ${toStatusEventId(event)}\nevent: status\ndata: ${JSON.stringify(event)}\n\n`)
+          }
+        } catch (error) {
+          // Keep the stream open - the next check will catch up
+          console.error('Error reading status events:', error)
+        }
+
+        if (!closed) {
+          pollTimer = setTimeout(poll, STATUS_EVENT_POLL_MS)
+        }
+      }
+
+      // Tell EventSource how long to wait before reconnecting
+      send(`retry: ${STATUS_EVENT_POLL_MS * 2}\n\n`)
+
+      heartbeatTimer = setInterval(() => send(': heartbeat\n\n'), STATUS_EVENT_HEARTBEAT_MS)
+      request.signal.addEventListener('abort', close)
+
+      poll()
+    },
+    cancel() {
+      closed = true
+      if (pollTimer) clearTimeout(pollTimer)
+      if (heartbeatTimer) clearInterval(heartbeatTimer)
+    }
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      // Disable response buffering behind nginx
+      'X-Accel-Buffering': 'no'
+    }
+  })
+}
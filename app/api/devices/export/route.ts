@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { prisma } from '@/lib/prisma'
+import { buildDeviceExport } from '@/lib/device-import'
+import { SPREADSHEET_CONTENT_TYPES, SPREADSHEET_FORMATS, SpreadsheetFormat, writeCsv, writeXlsx } from '@/lib/spreadsheet'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/devices/export
+ * Download devices as a CSV or XLSX file that can be imported again
+ *
+ * Body:
+ * - format: 'csv' | 'xlsx'
+ * - deviceIds: string[] (optional) - Devices to export in this order (all devices if omitted)
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth()
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const { format, deviceIds } = await request.json()
+
+    if (!SPREADSHEET_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `Format must be one of: ${SPREADSHEET_FORMATS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (deviceIds !== undefined && (!Array.isArray(deviceIds) || deviceIds.some(id => typeof id !== 'string'))) {
+      return NextResponse.json(
+        { error: 'deviceIds must be a list of device IDs' },
+        { status: 400 }
+      )
+    }
+
+    const devices = await prisma.device.findMany({
+      where: deviceIds ? { id: { in: deviceIds } } : undefined,
+      include: {
+        room: { select: { name: true } },
+        router: { select: { name: true } }
+      },
+      orderBy: {
+        createdAt: 'desc'
+      }
+    })
+
+    // Keep the order of the table the devices were picked from
+    if (deviceIds) {
+      devices.sort((a, b) => deviceIds.indexOf(a.id) - deviceIds.indexOf(b.id))
+    }
+
+    const rows = buildDeviceExport(devices)
+    const fileName = `devices-${new Date().toISOString().slice(0, 10)}.${format}`
+    const content = (format as SpreadsheetFormat) === 'xlsx' ? new Uint8Array(writeXlsx(rows, 'Devices')) : writeCsv(rows)
+
+    return new Response(content, {
+      headers: {
+        'Content-Type': SPREADSHEET_CONTENT_TYPES[format as SpreadsheetFormat],
+        'Content-Disposition': `attachment; filename="${fileName}"`
+      }
+    })
+  } catch (error) {
+    console.error('Error exporting devices:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
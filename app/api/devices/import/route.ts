@@ -0,0 +1,221 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { prisma } from '@/lib/prisma'
+import { getDefaultRouterId } from '@/lib/routers'
+import { resolveRouterOSConfig } from '@/lib/routeros-connection'
+import { buildNetwatchParams } from '@/lib/mikrotik-sync'
+import { DRY_RUN_NEW_ID, isDryRunRequest, RouterOSCommand } from '@/lib/routeros-dry-run'
+import { toDeviceIdentity } from '@/lib/mac-bindings'
+import { checkDeviceImport, MAX_IMPORT_ROWS } from '@/lib/device-import'
+import { readSpreadsheet } from '@/lib/spreadsheet'
+import { runSyncJobNow } from '@/lib/sync-jobs'
+
+export const dynamic = 'force-dynamic'
+
+const MAX_FILE_SIZE = 5 * 1024 * 1024
+
+/**
+ * POST /api/devices/import
+ * Create devices from a CSV or XLSX inventory - ADMIN and OPERATOR only
+ *
+ * Body:
+ * - content: string - The file, base64 encoded
+ * - routerId: string (optional) - Router that monitors the devices (default router if omitted)
+ * - syncToMikrotik: boolean (optional) - Also add a netwatch entry for each device
+ *
+ * Rows with errors are skipped; the others are created. Rows whose IP became a
+ * device while the import ran are skipped too and listed by row number.
+ * ?dryRun=true - return every row with its errors and the netwatch entries the
+ * devices would get, create nothing
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth()
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'ADMIN' && session.user.role !== 'OPERATOR') {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const { content, routerId, syncToMikrotik } = await request.json()
+
+    if (typeof content !== 'string' || content.length === 0) {
+      return NextResponse.json(
+        { error: 'Choose a CSV or XLSX file to import' },
+        { status: 400 }
+      )
+    }
+
+    const file = Buffer.from(content, 'base64')
+    if (file.length > MAX_FILE_SIZE) {
+      return NextResponse.json(
+        { error: `The file must be ${MAX_FILE_SIZE / 1024 / 1024} MB or less` },
+        { status: 400 }
+      )
+    }
+
+    let table: string[][]
+    try {
+      // The header plus the most rows an import takes
+      table = readSpreadsheet(file, MAX_IMPORT_ROWS + 1)
+    } catch (readError: any) {
+      return NextResponse.json(
+        { error: 'Could not read the file', details: readError.message },
+        { status: 400 }
+      )
+    }
+
+    const { error, rows, deviceTypes } = await checkDeviceImport(table)
+    if (error) {
+      return NextResponse.json(
+        { error },
+        { status: 400 }
+      )
+    }
+
+    if (routerId) {
+      const router = await prisma.router.findUnique({
+        where: { id: routerId }
+      })
+
+      if (!router) {
+        return NextResponse.json(
+          { error: 'Router not found' },
+          { status: 400 }
+        )
+      }
+    }
+    const resolvedRouterId = routerId || await getDefaultRouterId()
+
+    // Empty netwatch cells get the type's defaults, then the system's, like the device form
+    const systemConfig = await prisma.systemConfig.findUnique({
+      where: { id: 1 }
+    })
+
+    const validRows = rows.filter(row => row.errors.length === 0)
+    const netwatchSettings = (row: typeof validRows[number]) => {
+      const definition = deviceTypes.find(candidate => candidate.key === row.type)
+      return {
+        netwatchTimeout: row.netwatchTimeout || definition?.netwatchTimeout || systemConfig?.defaultNetwatchTimeout || 1000,
+        netwatchInterval: row.netwatchInterval || definition?.netwatchInterval || systemConfig?.defaultNetwatchInterval || 5
+      }
+    }
+
+    // Dry run - per-row preview and the netwatch entries of the valid rows, create nothing
+    if (isDryRunRequest(request)) {
+      const commands: RouterOSCommand[] = []
+      let warning: string | undefined
+
+      if (syncToMikrotik === true && validRows.length > 0) {
+        try {
+          const config = await resolveRouterOSConfig(resolvedRouterId)
+
+          for (const row of validRows) {
+            commands.push({
+              router: config.routerName,
+              command: '/tool/netwatch/add',
+              params: buildNetwatchParams({ id: DRY_RUN_NEW_ID, name: row.name, ip: row.ip, ...netwatchSettings(row) })
+            })
+          }
+        } catch (configError: any) {
+          warning = `Devices would be imported but not synced to MikroTik: ${configError.message}`
+        }
+      }
+
+      return NextResponse.json({
+        success: true,
+        dryRun: true,
+        rows,
+        valid: validRows.length,
+        invalid: rows.length - validRows.length,
+        commands,
+        ...(warning ? { warning } : {})
+      })
+    }
+
+    if (validRows.length === 0) {
+      return NextResponse.json(
+        { error: 'No valid rows to import' },
+        { status: 400 }
+      )
+    }
+
+    let created = 0
+    const takenRows: number[] = []
+    const syncErrors: string[] = []
+
+    for (const row of validRows) {
+      let device
+      try {
+        device = await prisma.device.create({
+          data: {
+            name: row.name,
+            ip: row.ip,
+            type: row.type,
+            ...toDeviceIdentity(row),
+            laneName: row.laneName,
+            roomId: row.roomId,
+            routerId: resolvedRouterId,
+            status: 'unknown',
+            statusSince: new Date(),
+            positionX: 0,
+            positionY: 0,
+            ...netwatchSettings(row)
+          }
+        })
+      } catch (createError: any) {
+        // Unique IP - another request added it after the rows were checked
+        if (createError?.code === 'P2002') {
+          takenRows.push(row.row)
+          continue
+        }
+        throw createError
+      }
+      created++
+
+      if (syncToMikrotik === true) {
+        // Failed syncs stay queued and are retried by the worker
+        const syncResult = await runSyncJobNow({ kind: 'SYNC_DEVICE', device }, { ...device, probes: [] })
+
+        if (!syncResult.success) {
+          syncErrors.push(`${device.name} (${device.ip}): ${syncResult.message}`)
+        }
+      }
+    }
+
+    const invalid = rows.length - validRows.length
+    const parts = [`Imported ${created} device${created !== 1 ? 's' : ''}`]
+    if (invalid > 0) {
+      parts.push(`skipped ${invalid} row${invalid !== 1 ? 's' : ''} with errors`)
+    }
+    if (takenRows.length > 0) {
+      parts.push(`skipped row${takenRows.length !== 1 ? 's' : ''} ${takenRows.join(', ')} - the IP was added as a device in the meantime`)
+    }
+
+    return NextResponse.json({
+      success: true,
+      created,
+      skipped: invalid + takenRows.length,
+      takenRows,
+      message: parts.join(', '),
+      ...(syncErrors.length > 0
+        ? { warning: `Netwatch sync failed for ${syncErrors.length} device(s) and will be retried automatically: ${syncErrors.join('; ')}` }
+        : {})
+    }, { status: 201 })
+  } catch (error) {
+    console.error('Error importing devices:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
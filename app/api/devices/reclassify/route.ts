@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { reclassifyDevices } from '@/lib/classification-rules'
+import { isDryRunRequest } from '@/lib/routeros-dry-run'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/devices/reclassify
+ * Set device types from the classification rules - ADMIN and OPERATOR only
+ *
+ * Body:
+ * - deviceIds: string[] (optional) - Devices to re-classify (all devices if omitted)
+ *
+ * ?dryRun=true - return the type changes, save nothing
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth()
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'ADMIN' && session.user.role !== 'OPERATOR') {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const { deviceIds } = await request.json()
+
+    if (deviceIds !== undefined && (!Array.isArray(deviceIds) || deviceIds.some(id => typeof id !== 'string'))) {
+      return NextResponse.json(
+        { error: 'deviceIds must be a list of device IDs' },
+        { status: 400 }
+      )
+    }
+
+    const dryRun = isDryRunRequest(request)
+    const changes = await reclassifyDevices(deviceIds, !dryRun)
+    const count = `${changes.length} device${changes.length !== 1 ? 's' : ''}`
+
+    return NextResponse.json({
+      success: true,
+      ...(dryRun ? { dryRun: true } : {}),
+      changes,
+      message: changes.length === 0
+        ? 'All device types already match the rules'
+        : dryRun ? `${count} would change type` : `Changed the type of ${count}`
+    })
+  } catch (error) {
+    console.error('Error re-classifying devices:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -1,8 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@/auth'
 import { prisma } from '@/lib/prisma'
-import { RouterOSAPI } from 'node-routeros'
-import { DEVICE_TYPES, isValidDeviceType } from '@/lib/constants'
+import { resolveRouterOSConfig } from '@/lib/routeros-connection'
+import { isValidDeviceType } from '@/lib/constants'
+import { formatDeviceTypeKeys, loadDeviceTypes } from '@/lib/device-types'
+import { getDefaultRouterId } from '@/lib/routers'
+import { getDeviceIdsInMaintenance } from '@/lib/maintenance'
+import { toThreshold, validateDegradedThresholds } from '@/lib/device-metrics'
+import { toNetwatchProbe, validateNetwatchProbe } from '@/lib/netwatch-probes'
+import { validateDeviceIdentity } from '@/lib/device-identity'
+import { toDeviceIdentity } from '@/lib/mac-bindings'
+import { buildNetwatchParams } from '@/lib/mikrotik-sync'
+import { getLastSyncErrors, runSyncJobNow } from '@/lib/sync-jobs'
+import { DRY_RUN_NEW_ID, isDryRunRequest, RouterOSCommand } from '@/lib/routeros-dry-run'
 
 export const dynamic = 'force-dynamic'
 
@@ -18,17 +28,32 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    // Fetch all devices from database with room relation
+    // Fetch all devices from database with room and router relations
     const devices = await prisma.device.findMany({
       include: {
-        room: true
+        room: true,
+        router: {
+          select: { id: true, name: true }
+        }
       },
       orderBy: {
         createdAt: 'desc'
       }
     })
 
-    return NextResponse.json({ devices })
+    // Flag devices covered by an active maintenance window for the map badge
+    const inMaintenance = await getDeviceIdsInMaintenance()
+    
+    // Why a device still needs a sync, for the badge linking to its jobs
+    const syncErrors = await getLastSyncErrors(devices.filter(device => device.needsSync).map(device => device.id))
+
+    return NextResponse.json({
+      devices: devices.map(device => ({
+        ...device,
+        maintenance: inMaintenance.has(device.id),
+        lastSyncError: syncErrors.get(device.id) ?? null
+      }))
+    })
   } catch (error) {
     console.error('Error fetching devices:', error)
     return NextResponse.json(
@@ -66,12 +91,21 @@ export async function POST(request: NextRequest) {
       ip, 
       type, 
       laneName, 
+      macAddress,
+      hostname,
       syncToMikrotik, 
       roomId,
+      routerId,
+      netwatchType,
       netwatchTimeout,
       netwatchInterval,
+      netwatchPort,
+      netwatchHttpCode,
+      netwatchDnsName,
       netwatchUpScript,
-      netwatchDownScript
+      netwatchDownScript,
+      latencyThresholdMs,
+      lossThresholdPercent
     } = body
 
     // Validate required fields
@@ -82,17 +116,47 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Validate device type
-    if (!isValidDeviceType(type)) {
+    // Validate device type against the registry
+    const deviceTypes = await loadDeviceTypes()
+    const deviceTypeKeys = deviceTypes.map(definition => definition.key)
+    if (!isValidDeviceType(type, deviceTypeKeys)) {
       return NextResponse.json(
         { 
           error: 'Invalid device type',
-          details: `Type must be one of: ${DEVICE_TYPES.join(', ')}`
+          details: formatDeviceTypeKeys(deviceTypeKeys)
         },
         { status: 400 }
       )
     }
 
+    // Validate degraded thresholds (empty = not checked)
+    const thresholdError = validateDegradedThresholds({ latencyThresholdMs, lossThresholdPercent })
+    if (thresholdError) {
+      return NextResponse.json(
+        { error: thresholdError },
+        { status: 400 }
+      )
+    }
+
+    // Validate netwatch probe type and its settings (omitted = ICMP)
+    const probeInput = { netwatchType, netwatchPort, netwatchHttpCode, netwatchDnsName }
+    const probeError = validateNetwatchProbe(probeInput)
+    if (probeError) {
+      return NextResponse.json(
+        { error: probeError },
+        { status: 400 }
+      )
+    }
+
+    // Validate MAC address and hostname (empty = not set)
+    const identityError = validateDeviceIdentity({ macAddress, hostname })
+    if (identityError) {
+      return NextResponse.json(
+        { error: identityError },
+        { status: 400 }
+      )
+    }
+
     // Check IP uniqueness
     const existingDevice = await prisma.device.findUnique({
       where: { ip }
@@ -105,120 +169,108 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    // Resolve the router that monitors this device
+    let resolvedRouterId: string | null = null
+    
+    if (routerId) {
+      const router = await prisma.router.findUnique({
+        where: { id: routerId }
+      })
+      
+      if (!router) {
+        return NextResponse.json(
+          { error: 'Router not found' },
+          { status: 400 }
+        )
+      }
+      
+      resolvedRouterId = router.id
+    } else {
+      resolvedRouterId = await getDefaultRouterId()
+    }
+
     // Get system config for default netwatch values
     const systemConfig = await prisma.systemConfig.findUnique({
       where: { id: 1 }
     })
 
-    // Create device with defaults (use system config defaults if not provided)
+    // Device with defaults (the type's netwatch defaults, then the system config, if not provided)
+    const typeDefaults = deviceTypes.find(definition => definition.key === type)
+    const data = {
+      name,
+      ip,
+      type,
+      laneName,
+      ...toDeviceIdentity({ macAddress, hostname }), // vendor follows the MAC's OUI
+      status: 'unknown',
+      statusSince: new Date(), // Set statusSince when device is created
+      positionX: 0,
+      positionY: 0,
+      roomId: roomId || null, // Optional room assignment
+      routerId: resolvedRouterId,
+      netwatchTimeout: netwatchTimeout || typeDefaults?.netwatchTimeout || systemConfig?.defaultNetwatchTimeout || 1000,
+      netwatchInterval: netwatchInterval || typeDefaults?.netwatchInterval || systemConfig?.defaultNetwatchInterval || 5,
+      ...toNetwatchProbe(probeInput),
+      netwatchUpScript: netwatchUpScript || null,
+      netwatchDownScript: netwatchDownScript || null,
+      latencyThresholdMs: toThreshold(latencyThresholdMs) ?? null,
+      lossThresholdPercent: toThreshold(lossThresholdPercent) ?? null
+    }
+
+    // Dry run - preview the netwatch entry the device would get, create nothing
+    if (isDryRunRequest(request)) {
+      const commands: RouterOSCommand[] = []
+      let warning: string | undefined
+
+      if (syncToMikrotik === true) {
+        try {
+          const config = await resolveRouterOSConfig(resolvedRouterId)
+          commands.push({
+            router: config.routerName,
+            command: '/tool/netwatch/add',
+            params: buildNetwatchParams({ ...data, id: DRY_RUN_NEW_ID })
+          })
+        } catch (configError: any) {
+          warning = `Device would be created but not synced to MikroTik: ${configError.message}`
+        }
+      }
+
+      return NextResponse.json({ success: true, dryRun: true, commands, ...(warning ? { warning } : {}) })
+    }
+
+    // Create device
     const device = await prisma.device.create({
-      data: {
-        name,
-        ip,
-        type,
-        laneName,
-        status: 'unknown',
-        statusSince: new Date(), // Set statusSince when device is created
-        positionX: 0,
-        positionY: 0,
-        roomId: roomId || null, // Optional room assignment
-        netwatchTimeout: netwatchTimeout || systemConfig?.defaultNetwatchTimeout || 1000,
-        netwatchInterval: netwatchInterval || systemConfig?.defaultNetwatchInterval || 5,
-        netwatchUpScript: netwatchUpScript || null,
-        netwatchDownScript: netwatchDownScript || null
-      },
+      data,
       include: {
-        room: true
+        room: true,
+        router: {
+          select: { id: true, name: true }
+        }
       }
     })
 
-    // Handle MikroTik sync if requested
+    // Handle MikroTik sync if requested - queued as a job whose first attempt runs now
     let warning: string | undefined
     
     if (syncToMikrotik === true) {
-      try {
-        // Load SystemConfig
-        const config = await prisma.systemConfig.findUnique({
-          where: { id: 1 }
-        })
+      const syncResult = await runSyncJobNow({ kind: 'SYNC_DEVICE', device }, { ...device, probes: [] })
+      
+      if (syncResult.success) {
+        console.log(`Successfully added device ${name} (${ip}) to MikroTik Netwatch with custom configuration`)
+      } else {
+        // Don't fail the request - the worker retries the job
+        const msg = syncResult.message.toLowerCase()
+        let reason = syncResult.message
         
-        if (!config || !config.mikrotikIp) {
-          warning = 'Device created but not synced to MikroTik: MikroTik not configured'
-        } else {
-          // Connect to MikroTik
-          const api = new RouterOSAPI({
-            host: config.mikrotikIp,
-            user: config.mikrotikUser,
-            password: config.mikrotikPass,
-            port: config.mikrotikPort || 8728,
-            timeout: 10
-          })
-          
-          try {
-            // Connect to MikroTik
-            await api.connect()
-            
-            // Build netwatch add command with MikroTik standard parameters
-            // MikroTik Netwatch only supports ICMP ping by default
-            const netwatchParams = [
-              `=host=${ip}`,
-              `=comment=${name}`,
-              `=timeout=${device.netwatchTimeout}ms`,
-              `=interval=${device.netwatchInterval}s`
-            ]
-            
-            // Add optional up script if specified
-            if (device.netwatchUpScript && device.netwatchUpScript.trim()) {
-              netwatchParams.push(`=up-script=${device.netwatchUpScript}`)
-            }
-            
-            // Add optional down script if specified
-            if (device.netwatchDownScript && device.netwatchDownScript.trim()) {
-              netwatchParams.push(`=down-script=${device.netwatchDownScript}`)
-            }
-            
-            // Execute /tool/netwatch/add with all parameters
-            await api.write('/tool/netwatch/add', netwatchParams)
-            
-            // Close connection
-            await api.close()
-            
-            console.log(`Successfully added device ${name} (${ip}) to MikroTik Netwatch with custom configuration`)
-            
-          } catch (mikrotikError: any) {
-            // Log error but don't fail the request
-            console.error('Failed to add device to MikroTik:', mikrotikError)
-            
-            let errorMessage = 'Device created but not synced to MikroTik'
-            
-            if (mikrotikError.message) {
-              const msg = mikrotikError.message.toLowerCase()
-              
-              if (msg.includes('timeout') || msg.includes('timed out')) {
-                errorMessage += ': Connection timeout'
-              } else if (msg.includes('authentication') || msg.includes('login') || msg.includes('cannot log in')) {
-                errorMessage += ': Authentication failed'
-              } else if (msg.includes('econnrefused') || msg.includes('connection refused')) {
-                errorMessage += ': Connection refused'
-              } else {
-                errorMessage += `: ${mikrotikError.message}`
-              }
-            }
-            
-            warning = errorMessage
-            
-            // Ensure connection is closed
-            try {
-              await api.close()
-            } catch (closeError) {
-              // Ignore close errors
-            }
-          }
+        if (msg.includes('timeout') || msg.includes('timed out')) {
+          reason = 'Connection timeout'
+        } else if (msg.includes('authentication') || msg.includes('login') || msg.includes('cannot log in')) {
+          reason = 'Authentication failed'
+        } else if (msg.includes('econnrefused') || msg.includes('connection refused')) {
+          reason = 'Connection refused'
         }
-      } catch (syncError) {
-        // Log error but don't fail the request
-        console.error('Error during MikroTik sync:', syncError)
-        warning = 'Device created but not synced to MikroTik: Unexpected error'
+        
+        warning = `Device created but not synced to MikroTik: ${reason}`
       }
     }
 
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@/auth'
 import { prisma } from '@/lib/prisma'
 import { syncDeviceToMikroTik } from '@/lib/mikrotik-sync'
+import { runSyncJobNow } from '@/lib/sync-jobs'
+import { isDryRunRequest, RouterOSCommand } from '@/lib/routeros-dry-run'
 
 export const dynamic = 'force-dynamic'
 
@@ -12,6 +14,8 @@ export const dynamic = 'force-dynamic'
  * Body:
  * - deviceIds: string[] (optional) - Specific device IDs to sync
  * - syncAll: boolean (optional) - Sync all devices that need sync
+ * 
+ * ?dryRun=true - return the RouterOS commands the sync would send, change nothing
  */
 export async function POST(request: NextRequest) {
   try {
@@ -41,12 +45,14 @@ export async function POST(request: NextRequest) {
     if (syncAll) {
       // Sync all devices that need sync
       devicesToSync = await prisma.device.findMany({
-        where: { needsSync: true }
+        where: { needsSync: true },
+        include: { probes: true }
       })
     } else if (deviceIds && Array.isArray(deviceIds)) {
       // Sync specific devices
       devicesToSync = await prisma.device.findMany({
-        where: { id: { in: deviceIds } }
+        where: { id: { in: deviceIds } },
+        include: { probes: true }
       })
     } else {
       return NextResponse.json(
@@ -55,12 +61,16 @@ export async function POST(request: NextRequest) {
       )
     }
     
+    // Dry run collects the commands of every device instead of sending them
+    const preview: RouterOSCommand[] | undefined = isDryRunRequest(request) ? [] : undefined
+    
     if (devicesToSync.length === 0) {
       return NextResponse.json({
         success: true,
         message: 'No devices to sync',
         synced: 0,
-        failed: 0
+        failed: 0,
+        ...(preview ? { dryRun: true, commands: preview } : {})
       })
     }
     
@@ -73,14 +83,12 @@ export async function POST(request: NextRequest) {
     
     for (const device of devicesToSync) {
       try {
-        const syncResult = await syncDeviceToMikroTik(device)
+        // Queued as a job - it clears needsSync, or keeps retrying in the worker
+        const syncResult = preview
+          ? await syncDeviceToMikroTik(device, undefined, preview)
+          : await runSyncJobNow({ kind: 'SYNC_DEVICE', device }, device)
         
         if (syncResult.success) {
-          // Clear needsSync flag
-          await prisma.device.update({
-            where: { id: device.id },
-            data: { needsSync: false }
-          })
           results.synced++
         } else {
           results.failed++
@@ -92,6 +100,18 @@ export async function POST(request: NextRequest) {
       }
     }
     
+    if (preview) {
+      return NextResponse.json({
+        success: true,
+        dryRun: true,
+        message: `Would sync ${results.synced} device(s), ${results.failed} would fail`,
+        synced: results.synced,
+        failed: results.failed,
+        errors: results.errors,
+        commands: preview
+      })
+    }
+    
     return NextResponse.json({
       success: true,
       message: `Synced ${results.synced} device(s), ${results.failed} failed`,
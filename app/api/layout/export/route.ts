@@ -27,8 +27,12 @@ export async function GET(request: NextRequest) {
         roomId: true,
         positionX: true,
         positionY: true,
+        netwatchType: true,
         netwatchTimeout: true,
         netwatchInterval: true,
+        netwatchPort: true,
+        netwatchHttpCode: true,
+        netwatchDnsName: true,
         netwatchUpScript: true,
         netwatchDownScript: true
       }
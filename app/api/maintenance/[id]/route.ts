@@ -0,0 +1,120 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { prisma } from '@/lib/prisma'
+import { toMaintenanceWindowData, validateMaintenanceWindowInput } from '@/lib/maintenance'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * PUT /api/maintenance/[id]
+ * Update a maintenance window (also used to end one early) - ADMIN and OPERATOR only
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth()
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+    
+    if (session.user.role !== 'ADMIN' && session.user.role !== 'OPERATOR') {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+    
+    const body = await request.json()
+    const validationError = validateMaintenanceWindowInput(body)
+    
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      )
+    }
+    
+    const existingWindow = await prisma.maintenanceWindow.findUnique({
+      where: { id: params.id }
+    })
+    
+    if (!existingWindow) {
+      return NextResponse.json(
+        { error: 'Maintenance window not found' },
+        { status: 404 }
+      )
+    }
+    
+    const window = await prisma.maintenanceWindow.update({
+      where: { id: params.id },
+      data: toMaintenanceWindowData(body)
+    })
+    
+    return NextResponse.json({ window })
+  } catch (error) {
+    console.error('Error updating maintenance window:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/maintenance/[id]
+ * Delete a maintenance window - ADMIN and OPERATOR only
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth()
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+    
+    if (session.user.role !== 'ADMIN' && session.user.role !== 'OPERATOR') {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+    
+    const existingWindow = await prisma.maintenanceWindow.findUnique({
+      where: { id: params.id }
+    })
+    
+    if (!existingWindow) {
+      return NextResponse.json(
+        { error: 'Maintenance window not found' },
+        { status: 404 }
+      )
+    }
+    
+    await prisma.maintenanceWindow.delete({
+      where: { id: params.id }
+    })
+    
+    return NextResponse.json({
+      success: true,
+      message: 'Maintenance window deleted successfully'
+    })
+  } catch (error) {
+    console.error('Error deleting maintenance window:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,93 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { prisma } from '@/lib/prisma'
+import { getMaintenanceOccurrence, toMaintenanceWindowData, validateMaintenanceWindowInput } from '@/lib/maintenance'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/maintenance
+ * List maintenance windows with their current or next occurrence
+ */
+export async function GET() {
+  try {
+    const session = await auth()
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+    
+    const windows = await prisma.maintenanceWindow.findMany({
+      orderBy: {
+        startsAt: 'desc'
+      }
+    })
+    
+    const now = new Date()
+    
+    return NextResponse.json({
+      windows: windows.map(window => ({
+        ...window,
+        occurrence: getMaintenanceOccurrence(window, now)
+      }))
+    })
+  } catch (error) {
+    console.error('Error fetching maintenance windows:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/maintenance
+ * Schedule a maintenance window - ADMIN and OPERATOR only
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth()
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+    
+    if (session.user.role !== 'ADMIN' && session.user.role !== 'OPERATOR') {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+    
+    const body = await request.json()
+    const validationError = validateMaintenanceWindowInput(body)
+    
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      )
+    }
+    
+    const window = await prisma.maintenanceWindow.create({
+      data: {
+        ...toMaintenanceWindowData(body),
+        createdBy: session.user.username || session.user.name || null
+      }
+    })
+    
+    return NextResponse.json({ window }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating maintenance window:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,245 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { prisma } from '@/lib/prisma'
+import { getDefaultRouterId, migrateLegacyRouterConfig } from '@/lib/routers'
+import { resolveRouterOSConfig } from '@/lib/routeros-connection'
+import { buildNetwatchParams } from '@/lib/mikrotik-sync'
+import { DRY_RUN_NEW_ID, isDryRunRequest, RouterOSCommand } from '@/lib/routeros-dry-run'
+import { discoverHosts, DiscoveryImport, validateDiscoveryImport } from '@/lib/device-discovery'
+import { toDeviceIdentity } from '@/lib/mac-bindings'
+import { loadDeviceTypes } from '@/lib/device-types'
+import { runSyncJobNow } from '@/lib/sync-jobs'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/mikrotik/discovery
+ * Hosts from a router's DHCP leases, ARP table and neighbors that are not monitored yet - ADMIN and OPERATOR only
+ * Query: ?routerId=... (defaults to the first enabled router)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth()
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'ADMIN' && session.user.role !== 'OPERATOR') {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    await migrateLegacyRouterConfig()
+
+    const { searchParams } = new URL(request.url)
+    const routerId = searchParams.get('routerId')
+
+    const defaultRouter = routerId
+      ? null
+      : await prisma.router.findFirst({ where: { enabled: true }, orderBy: { name: 'asc' } })
+
+    try {
+      const { hosts, router } = await discoverHosts(routerId || defaultRouter?.id)
+
+      return NextResponse.json({
+        success: true,
+        hosts,
+        router,
+        message: `Found ${hosts.length} unmonitored host${hosts.length !== 1 ? 's' : ''} on "${router.name}"`
+      })
+    } catch (connectionError: any) {
+      // Router problems are reported in the body like the import view does
+      return NextResponse.json({
+        success: false,
+        error: connectionError.message === 'MikroTik not configured' ? 'MikroTik not configured' : 'Failed to read router tables',
+        details: connectionError.message === 'MikroTik not configured'
+          ? 'Please add a MikroTik router in System Settings before discovering devices'
+          : connectionError.message
+      })
+    }
+  } catch (error) {
+    console.error('Error discovering devices:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/mikrotik/discovery
+ * Create devices for discovered hosts in one pass - ADMIN and OPERATOR only
+ *
+ * Body:
+ * - routerId: string (optional) - Router the hosts were discovered on; the devices are bound to it (default router if omitted)
+ * - hosts: { ip, name, type, macAddress?, hostname?, laneName, roomId? }[]
+ * - syncToMikrotik: boolean (optional) - Also add a netwatch entry for each device
+ *
+ * Hosts whose IP became a device in the meantime are skipped.
+ * ?dryRun=true - return the netwatch entries the devices would get, create nothing
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth()
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    if (session.user.role !== 'ADMIN' && session.user.role !== 'OPERATOR') {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+
+    const { routerId, hosts, syncToMikrotik } = await request.json()
+
+    const deviceTypes = await loadDeviceTypes()
+    const validationError = validateDiscoveryImport(hosts, deviceTypes.map(definition => definition.key))
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      )
+    }
+
+    if (routerId) {
+      const router = await prisma.router.findUnique({
+        where: { id: routerId }
+      })
+
+      if (!router) {
+        return NextResponse.json(
+          { error: 'Router not found' },
+          { status: 400 }
+        )
+      }
+    }
+    const resolvedRouterId = routerId || await getDefaultRouterId()
+
+    const roomIds = Array.from(new Set((hosts as DiscoveryImport[]).map(host => host.roomId).filter(Boolean))) as string[]
+    for (const roomId of roomIds) {
+      const room = await prisma.room.findUnique({ where: { id: roomId } })
+
+      if (!room) {
+        return NextResponse.json(
+          { error: 'Room not found' },
+          { status: 400 }
+        )
+      }
+    }
+
+    // New devices get their type's netwatch defaults, then the system's, like the device form
+    const systemConfig = await prisma.systemConfig.findUnique({
+      where: { id: 1 }
+    })
+
+    const netwatchDefaults = (type: string) => {
+      const definition = deviceTypes.find(candidate => candidate.key === type)
+      return {
+        netwatchTimeout: definition?.netwatchTimeout || systemConfig?.defaultNetwatchTimeout || 1000,
+        netwatchInterval: definition?.netwatchInterval || systemConfig?.defaultNetwatchInterval || 5
+      }
+    }
+
+    // Dry run - preview the netwatch entries of the new devices, create nothing
+    if (isDryRunRequest(request)) {
+      const commands: RouterOSCommand[] = []
+      let warning: string | undefined
+
+      if (syncToMikrotik === true) {
+        try {
+          const config = await resolveRouterOSConfig(resolvedRouterId)
+
+          for (const host of hosts as DiscoveryImport[]) {
+            if (await prisma.device.findUnique({ where: { ip: host.ip } })) continue
+
+            commands.push({
+              router: config.routerName,
+              command: '/tool/netwatch/add',
+              params: buildNetwatchParams({ id: DRY_RUN_NEW_ID, name: host.name.trim(), ip: host.ip, ...netwatchDefaults(host.type) })
+            })
+          }
+        } catch (configError: any) {
+          warning = `Devices would be added but not synced to MikroTik: ${configError.message}`
+        }
+      }
+
+      return NextResponse.json({ success: true, dryRun: true, commands, ...(warning ? { warning } : {}) })
+    }
+
+    const created = []
+    const skipped: string[] = []
+    const syncErrors: string[] = []
+
+    for (const host of hosts as DiscoveryImport[]) {
+      const existing = await prisma.device.findUnique({
+        where: { ip: host.ip }
+      })
+
+      if (existing) {
+        skipped.push(host.ip)
+        continue
+      }
+
+      const device = await prisma.device.create({
+        data: {
+          name: host.name.trim(),
+          ip: host.ip,
+          type: host.type,
+          ...toDeviceIdentity(host),
+          laneName: host.laneName.trim(),
+          roomId: host.roomId || null,
+          routerId: resolvedRouterId,
+          status: 'unknown',
+          statusSince: new Date(),
+          positionX: 0,
+          positionY: 0,
+          ...netwatchDefaults(host.type)
+        }
+      })
+      created.push(device)
+
+      if (syncToMikrotik === true) {
+        // Failed syncs stay queued and are retried by the worker
+        const syncResult = await runSyncJobNow({ kind: 'SYNC_DEVICE', device }, { ...device, probes: [] })
+
+        if (!syncResult.success) {
+          syncErrors.push(`${device.name} (${device.ip}): ${syncResult.message}`)
+        }
+      }
+    }
+
+    const parts = [`Added ${created.length} device${created.length !== 1 ? 's' : ''}`]
+    if (skipped.length > 0) {
+      parts.push(`skipped ${skipped.length} already monitored`)
+    }
+
+    return NextResponse.json({
+      success: true,
+      created: created.length,
+      skipped: skipped.length,
+      devices: created,
+      message: parts.join(', '),
+      ...(syncErrors.length > 0
+        ? { warning: `Netwatch sync failed for ${syncErrors.length} device(s) and will be retried automatically: ${syncErrors.join('; ')}` }
+        : {})
+    }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating discovered devices:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,82 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { prisma } from '@/lib/prisma'
+import { generateDriftReport } from '@/lib/netwatch-reconcile'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/mikrotik/reconcile/reports
+ * Recent drift reports, newest first - ADMIN and OPERATOR only
+ * Query: ?limit=10
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth()
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+    
+    if (session.user.role !== 'ADMIN' && session.user.role !== 'OPERATOR') {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+    
+    const { searchParams } = new URL(request.url)
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '10') || 10, 1), 100)
+    
+    const reports = await prisma.driftReport.findMany({
+      orderBy: { createdAt: 'desc' },
+      take: limit
+    })
+    
+    return NextResponse.json({ reports })
+  } catch (error) {
+    console.error('Error fetching drift reports:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/mikrotik/reconcile/reports
+ * Run the drift report now (and email it when it found something) - ADMIN and OPERATOR only
+ */
+export async function POST() {
+  try {
+    const session = await auth()
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+    
+    if (session.user.role !== 'ADMIN' && session.user.role !== 'OPERATOR') {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+    
+    const config = await prisma.systemConfig.findUnique({ where: { id: 1 } })
+    const report = await generateDriftReport(config)
+    
+    return NextResponse.json({ report }, { status: 201 })
+  } catch (error) {
+    console.error('Error running drift report:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,151 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { prisma } from '@/lib/prisma'
+import { applyReconcileAction, reconcileRouter, validateReconcileRequest } from '@/lib/netwatch-reconcile'
+import { isDryRunRequest, RouterOSCommand } from '@/lib/routeros-dry-run'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/mikrotik/reconcile
+ * Compare a router's netwatch table with the dashboard field by field - ADMIN and OPERATOR only
+ * Query: ?routerId=... (defaults to the first enabled router)
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth()
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+    
+    if (session.user.role !== 'ADMIN' && session.user.role !== 'OPERATOR') {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+    
+    const { searchParams } = new URL(request.url)
+    const routerId = searchParams.get('routerId')
+    
+    const router = routerId
+      ? await prisma.router.findUnique({ where: { id: routerId } })
+      : await prisma.router.findFirst({ where: { enabled: true }, orderBy: { name: 'asc' } })
+    
+    if (!router) {
+      return NextResponse.json(
+        { error: routerId ? 'Router not found' : 'MikroTik not configured' },
+        { status: 404 }
+      )
+    }
+    
+    try {
+      const { items, summary } = await reconcileRouter(router.id)
+      
+      return NextResponse.json({
+        success: true,
+        router: { id: router.id, name: router.name },
+        items,
+        summary
+      })
+    } catch (connectionError: any) {
+      // Router problems are reported in the body like the import view does
+      return NextResponse.json({
+        success: false,
+        router: { id: router.id, name: router.name },
+        error: 'Failed to read netwatch',
+        details: connectionError.message
+      })
+    }
+  } catch (error) {
+    console.error('Error reconciling netwatch:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/mikrotik/reconcile
+ * Resolve one finding - ADMIN and OPERATOR only; deleting a dashboard device is ADMIN only
+ * 
+ * Body:
+ * - routerId: string - Router the finding belongs to
+ * - action: 'pull' | 'push' | 'delete' | 'link'
+ * - deviceId / probeId: string (optional) - Dashboard side of the finding
+ * - entryId: string (optional) - Netwatch entry (.id) of an orphan
+ * 
+ * ?dryRun=true - return the RouterOS commands the action would send, change nothing
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth()
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+    
+    if (session.user.role !== 'ADMIN' && session.user.role !== 'OPERATOR') {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+    
+    const body = await request.json()
+    
+    if (!body.routerId || typeof body.routerId !== 'string') {
+      return NextResponse.json(
+        { error: 'Router is required' },
+        { status: 400 }
+      )
+    }
+    
+    const validationError = validateReconcileRequest(body)
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      )
+    }
+    
+    // Same rule as DELETE /api/devices/[id]
+    if (body.action === 'delete' && body.deviceId && !body.probeId && session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: 'Only administrators can delete devices' },
+        { status: 403 }
+      )
+    }
+    
+    const preview: RouterOSCommand[] | undefined = isDryRunRequest(request) ? [] : undefined
+    const result = await applyReconcileAction(body.routerId, {
+      action: body.action,
+      deviceId: body.deviceId || undefined,
+      probeId: body.probeId || undefined,
+      entryId: body.entryId || undefined
+    }, preview)
+    
+    if (!result.success) {
+      return NextResponse.json(
+        { error: result.message },
+        { status: 409 }
+      )
+    }
+    
+    return NextResponse.json(preview ? { ...result, dryRun: true, commands: preview } : result)
+  } catch (error) {
+    console.error('Error applying reconcile action:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
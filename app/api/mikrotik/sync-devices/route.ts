@@ -1,8 +1,26 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { auth } from '@/auth'
 import { prisma } from '@/lib/prisma'
-import { RouterOSAPI } from 'node-routeros'
-import { DEVICE_TYPES, isValidDeviceType } from '@/lib/constants'
+import {
+  resolveRouterOSConfig,
+  routerToConnectionConfig,
+  withRouterOS,
+  RouterOSConnectionConfig
+} from '@/lib/routeros-connection'
+import { isValidDeviceType } from '@/lib/constants'
+import { loadDeviceTypeKeys } from '@/lib/device-types'
+import { parseNetwatchProbe, toNetwatchProbe, validateNetwatchProbe } from '@/lib/netwatch-probes'
+import {
+  commitProbeStatuses,
+  hasFailingProbe,
+  matchDeviceProbes,
+  probeFromNetwatchEntry,
+  toImportedProbes
+} from '@/lib/device-probes'
+import { migrateLegacyRouterConfig } from '@/lib/routers'
+import { parseNetwatchComment } from '@/lib/netwatch-marker'
+import { DEGRADED_STATUS, isDegraded, parseNetwatchMetrics } from '@/lib/device-metrics'
+import { loadDeviceClassifier } from '@/lib/classification-rules'
 
 export const dynamic = 'force-dynamic'
 
@@ -24,45 +42,53 @@ export async function GET(request: NextRequest) {
       )
     }
     
-    // Get MikroTik config
-    const config = await prisma.systemConfig.findUnique({
-      where: { id: 1 }
-    })
+    // Get the router to fetch from (?routerId=..., defaults to the first router)
+    await migrateLegacyRouterConfig()
+    
+    const { searchParams } = new URL(request.url)
+    const routerId = searchParams.get('routerId')
+    
+    const defaultRouter = routerId
+      ? null
+      : await prisma.router.findFirst({ where: { enabled: true }, orderBy: { name: 'asc' } })
+    
+    let config: RouterOSConnectionConfig
     
-    if (!config || !config.mikrotikIp) {
+    try {
+      config = await resolveRouterOSConfig(routerId || defaultRouter?.id)
+    } catch (configError: any) {
       return NextResponse.json(
         { 
           success: false,
           error: 'MikroTik not configured',
-          details: 'Please configure MikroTik connection in System Settings before syncing devices'
+          details: configError.message === 'MikroTik not configured'
+            ? 'Please add a MikroTik router in System Settings before syncing devices'
+            : configError.message
         },
         { status: 200 }
       )
     }
     
-    // Connect to MikroTik and fetch Netwatch devices
-    const api = new RouterOSAPI({
-      host: config.mikrotikIp,
-      user: config.mikrotikUser,
-      password: config.mikrotikPass,
-      port: config.mikrotikPort || 8728,
-      timeout: 10
-    })
-    
+    // Fetch Netwatch devices over the router's pooled session
     try {
-      // Connect to MikroTik
-      await api.connect()
-      
       // Execute /tool/netwatch/print to get all monitored devices
-      const netwatchData = await api.write('/tool/netwatch/print')
+      const netwatchData = await withRouterOS(config, (api) => api.write('/tool/netwatch/print'))
+      
+      // A host can have several entries: the first is the device's own probe, the rest extra probes
+      const entriesByHost = new Map<string, any[]>()
+      for (const item of netwatchData) {
+        const host = item.host || 'Unknown'
+        entriesByHost.set(host, [...(entriesByHost.get(host) ?? []), item])
+      }
       
-      // Close connection
-      await api.close()
+      const classify = await loadDeviceClassifier()
       
       // Parse and format devices
-      const devices = netwatchData.map((item: any) => {
+      const devices = Array.from(entriesByHost.values()).map(([item, ...extraEntries]) => {
         // Extract device information from MikroTik response
-        const name = item.comment || item.host || item.name || 'Unknown Device'
+        // Entries written by the dashboard carry an ownership marker in front of the name
+        const marker = parseNetwatchComment(item.comment)
+        const name = marker.name || item.host || item.name || 'Unknown Device'
         const ip = item.host || 'Unknown'
         
         // Map MikroTik status to dashboard status
@@ -73,54 +99,18 @@ export async function GET(request: NextRequest) {
           status = 'down'
         }
         
-        // Determine device type based on name or default to ROUTER
-        let type = 'ROUTER'
-        const nameLower = name.toLowerCase()
-        
-        // Network infrastructure
-        if (nameLower.includes('router') || nameLower.includes('rb') || nameLower.includes('mikrotik')) {
-          type = 'ROUTER'
-        } else if (nameLower.includes('switch') || nameLower.includes('sw-')) {
-          type = 'SWITCH'
-        } else if (nameLower.includes('ap-') || nameLower.includes('access point') || nameLower.includes('wifi')) {
-          type = 'ACCESS_POINT'
-        }
-        // Computers
-        else if (nameLower.includes('pc-') || nameLower.includes('desktop') || nameLower.includes('workstation')) {
-          type = 'PC'
-        } else if (nameLower.includes('laptop') || nameLower.includes('notebook')) {
-          type = 'LAPTOP'
-        } else if (nameLower.includes('tablet') || nameLower.includes('ipad')) {
-          type = 'TABLET'
-        }
-        // Peripherals
-        else if (nameLower.includes('printer') || nameLower.includes('print')) {
-          type = 'PRINTER'
-        } else if (nameLower.includes('scanner') || nameLower.includes('scan') || nameLower.includes('gtex')) {
-          type = 'SCANNER_GTEX'
-        }
-        // Media & Surveillance
-        else if (nameLower.includes('tv') || nameLower.includes('television') || nameLower.includes('smart tv')) {
-          type = 'SMART_TV'
-        } else if (nameLower.includes('cctv') || nameLower.includes('camera') || nameLower.includes('cam-')) {
-          type = 'CCTV'
-        }
-        // Servers & Phones
-        else if (nameLower.includes('server') || nameLower.includes('srv-')) {
-          type = 'SERVER'
-        } else if (nameLower.includes('phone') || nameLower.includes('smartphone') || nameLower.includes('mobile')) {
-          type = 'PHONE'
-        }
-        // Default to OTHER if no match
-        else if (!nameLower.includes('router')) {
-          type = 'OTHER'
-        }
+        // Guess the type from the admin's classification rules (OTHER when none match)
+        const { type } = classify({ name, comment: marker.name, ip })
         
         return {
           name,
           ip,
           type,
-          status
+          status,
+          managed: marker.ownerId !== null,
+          // Probe type and settings so the imported device keeps monitoring the same way
+          ...parseNetwatchProbe(item),
+          probes: extraEntries.map((entry: any) => probeFromNetwatchEntry(entry, name))
         }
       })
       
@@ -137,7 +127,8 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({
         success: true,
         devices,
-        message: `Found ${devices.length} device${devices.length !== 1 ? 's' : ''} in MikroTik Netwatch`
+        router: config.routerId ? { id: config.routerId, name: config.routerName } : null,
+        message: `Found ${devices.length} device${devices.length !== 1 ? 's' : ''} in MikroTik "${config.routerName}" Netwatch`
       })
       
     } catch (connectionError: any) {
@@ -150,28 +141,21 @@ export async function GET(request: NextRequest) {
         
         if (msg.includes('timeout') || msg.includes('timed out')) {
           errorMessage = 'Connection timeout'
-          errorDetails = `Could not connect to MikroTik at ${config.mikrotikIp}:${config.mikrotikPort || 8728} within 10 seconds. Please check network connectivity.`
+          errorDetails = `Could not connect to MikroTik at ${config.host}:${config.port} within 10 seconds. Please check network connectivity.`
         } else if (msg.includes('authentication') || msg.includes('login') || msg.includes('cannot log in')) {
           errorMessage = 'Authentication failed'
-          errorDetails = 'Invalid MikroTik credentials. Please check username and password in System Settings.'
+          errorDetails = `Invalid credentials for router "${config.routerName}". Please check username and password in System Settings.`
         } else if (msg.includes('econnrefused') || msg.includes('connection refused')) {
           errorMessage = 'Connection refused'
-          errorDetails = `Cannot reach MikroTik at ${config.mikrotikIp}:${config.mikrotikPort || 8728}. Please verify IP address and port.`
+          errorDetails = `Cannot reach MikroTik at ${config.host}:${config.port}. Please verify IP address and port.`
         } else if (msg.includes('ehostunreach') || msg.includes('enetunreach')) {
           errorMessage = 'Network unreachable'
-          errorDetails = `Cannot reach MikroTik at ${config.mikrotikIp}. Please check network connectivity and firewall settings.`
+          errorDetails = `Cannot reach MikroTik at ${config.host}. Please check network connectivity and firewall settings.`
         } else {
           errorDetails = connectionError.message
         }
       }
       
-      // Ensure connection is closed
-      try {
-        await api.close()
-      } catch (closeError) {
-        // Ignore close errors
-      }
-      
       return NextResponse.json(
         { 
           success: false,
@@ -225,52 +209,63 @@ export async function POST(request: NextRequest) {
       body = {}
     }
     
-    const { devices, mode } = body
+    const { devices, mode, routerId } = body
     
-    // MODE 1: REFRESH - Update status of existing devices from MikroTik
+    // MODE 1: REFRESH - Update status of existing devices from every MikroTik router
     if (!devices || mode === 'refresh') {
-      // Get MikroTik config
-      const config = await prisma.systemConfig.findUnique({
-        where: { id: 1 }
+      const routers = await prisma.router.findMany({
+        where: { enabled: true }
       })
       
-      if (!config || !config.mikrotikIp) {
+      if (routers.length === 0) {
         return NextResponse.json({
           success: false,
           error: 'MikroTik not configured'
         })
       }
       
-      // Connect to MikroTik
-      const api = new RouterOSAPI({
-        host: config.mikrotikIp,
-        user: config.mikrotikUser,
-        password: config.mikrotikPass,
-        port: config.mikrotikPort || 8728,
-        timeout: 10
-      })
+      let updated = 0
+      let notFound = 0
+      const failedRouters: string[] = []
       
-      try {
-        await api.connect()
-        const netwatchData = await api.write('/tool/netwatch/print')
-        await api.close()
+      for (const router of routers) {
+        let netwatchData: any[]
         
-        // Get all devices from database
-        const dbDevices = await prisma.device.findMany()
+        try {
+          const config = routerToConnectionConfig(router, routers.length === 1)
+          netwatchData = await withRouterOS(config, (api) => api.write('/tool/netwatch/print'))
+        } catch (error: any) {
+          failedRouters.push(`${router.name}: ${error.message}`)
+          continue
+        }
         
-        let updated = 0
-        let notFound = 0
+        // Get devices monitored by this router
+        const dbDevices = await prisma.device.findMany({
+          where: { routerId: router.id },
+          include: { probes: true }
+        })
+        const probeStatuses = new Map<string, string>()
         
         // Update each device status based on MikroTik netwatch
         for (const dbDevice of dbDevices) {
-          // Find matching device in netwatch by IP
-          const netwatchDevice = netwatchData.find((nw: any) => nw.host === dbDevice.ip)
+          // Find the device's own entry and its extra probes in netwatch
+          const { mainEntry: netwatchDevice, probeEntries } = matchDeviceProbes(netwatchData, dbDevice)
+          probeEntries.forEach((entry, probeId) => {
+            probeStatuses.set(probeId, entry.status === 'up' ? 'up' : 'down')
+          })
           
           if (netwatchDevice) {
             // Device found in netwatch - update status
-            const newStatus = netwatchDevice.status === 'up' ? 'up' : 
+            const reachability = netwatchDevice.status === 'up' ? 'up' : 
                              netwatchDevice.status === 'down' ? 'down' : 'unknown'
             
+            // Same latency/loss thresholds and extra probe check as the worker
+            const degraded = isDegraded(parseNetwatchMetrics(netwatchDevice), dbDevice) ||
+              hasFailingProbe((dbDevice.probes ?? []).map(probe => probe.id), probeStatuses)
+            const newStatus = reachability === 'up' && degraded
+              ? DEGRADED_STATUS
+              : reachability
+            
             // Only update if status changed
             if (dbDevice.status !== newStatus) {
               await prisma.device.update({
@@ -278,7 +273,7 @@ export async function POST(request: NextRequest) {
                 data: {
                   status: newStatus,
                   statusSince: new Date(),
-                  lastSeen: newStatus === 'up' ? new Date() : dbDevice.lastSeen
+                  lastSeen: reachability === 'up' ? new Date() : dbDevice.lastSeen
                 }
               })
               updated++
@@ -298,22 +293,26 @@ export async function POST(request: NextRequest) {
           }
         }
         
-        return NextResponse.json({
-          success: true,
-          updated,
-          notFound,
-          message: `Refreshed status: ${updated} updated, ${notFound} not in netwatch`
-        })
-        
-      } catch (error: any) {
-        try { await api.close() } catch (e) {}
-        
+        await commitProbeStatuses(probeStatuses)
+      }
+      
+      if (failedRouters.length === routers.length) {
         return NextResponse.json({
           success: false,
           error: 'Failed to connect to MikroTik',
-          details: error.message
+          details: failedRouters.join('; ')
         })
       }
+      
+      return NextResponse.json({
+        success: true,
+        updated,
+        notFound,
+        failedRouters,
+        message: failedRouters.length > 0
+          ? `Refreshed status: ${updated} updated, ${notFound} not in netwatch, ${failedRouters.length} router(s) unreachable`
+          : `Refreshed status: ${updated} updated, ${notFound} not in netwatch`
+      })
     }
     
     // MODE 2: IMPORT - Import new devices from MikroTik
@@ -341,6 +340,7 @@ export async function POST(request: NextRequest) {
     }
     
     // Validate each device structure
+    const deviceTypeKeys = await loadDeviceTypeKeys()
     for (let i = 0; i < devices.length; i++) {
       const device = devices[i]
       
@@ -377,12 +377,42 @@ export async function POST(request: NextRequest) {
         )
       }
       
-      if (device.type && !isValidDeviceType(device.type)) {
+      if (device.type && !isValidDeviceType(device.type, deviceTypeKeys)) {
         return NextResponse.json(
           { 
             success: false,
             error: 'Invalid device type',
-            details: `Device "${device.name}" has invalid type. Must be one of: ${DEVICE_TYPES.join(', ')}`
+            details: `Device "${device.name}" has invalid type. Must be one of: ${deviceTypeKeys.join(', ')}`
+          },
+          { status: 200 }
+        )
+      }
+      
+      const probeError = validateNetwatchProbe(device)
+      if (probeError) {
+        return NextResponse.json(
+          { 
+            success: false,
+            error: 'Invalid netwatch probe',
+            details: `Device "${device.name}": ${probeError}`
+          },
+          { status: 200 }
+        )
+      }
+    }
+    
+    // Resolve the router the devices were fetched from
+    if (routerId) {
+      const router = await prisma.router.findUnique({
+        where: { id: routerId }
+      })
+      
+      if (!router) {
+        return NextResponse.json(
+          { 
+            success: false,
+            error: 'Router not found',
+            details: 'The selected router no longer exists. Please refresh the router list.'
           },
           { status: 200 }
         )
@@ -404,6 +434,9 @@ export async function POST(request: NextRequest) {
         continue
       }
       
+      // Other netwatch entries on the host come along as extra probes
+      const probes = toImportedProbes(toNetwatchProbe(device), device.probes)
+      
       // Create device records with proper defaults
       const created = await prisma.device.create({
         data: {
@@ -411,10 +444,13 @@ export async function POST(request: NextRequest) {
           ip: device.ip,
           type: device.type || 'ROUTER',
           laneName: 'Imported', // Default laneName for imported devices
+          routerId: routerId || null, // Router whose netwatch the device was imported from
           status: device.status || 'unknown',
           statusSince: new Date(), // Set statusSince when device is created
+          ...toNetwatchProbe(device),
           positionX: 0, // Default position (0, 0)
-          positionY: 0
+          positionY: 0,
+          ...(probes.length > 0 ? { probes: { create: probes } } : {})
         }
       })
       
@@ -0,0 +1,121 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { prisma } from '@/lib/prisma'
+import { toReportDefinitionData, validateReportDefinitionInput } from '@/lib/scheduled-reports'
+import { loadDeviceTypeKeys } from '@/lib/device-types'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * PUT /api/reports/definitions/[id]
+ * Update a scheduled report - ADMIN and OPERATOR only
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth()
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+    
+    if (session.user.role !== 'ADMIN' && session.user.role !== 'OPERATOR') {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+    
+    const body = await request.json()
+    const validationError = validateReportDefinitionInput(body, await loadDeviceTypeKeys())
+    
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      )
+    }
+    
+    const existingDefinition = await prisma.reportDefinition.findUnique({
+      where: { id: params.id }
+    })
+    
+    if (!existingDefinition) {
+      return NextResponse.json(
+        { error: 'Report definition not found' },
+        { status: 404 }
+      )
+    }
+    
+    const definition = await prisma.reportDefinition.update({
+      where: { id: params.id },
+      data: toReportDefinitionData(body)
+    })
+    
+    return NextResponse.json({ definition })
+  } catch (error) {
+    console.error('Error updating report definition:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/reports/definitions/[id]
+ * Delete a scheduled report and its generated files - ADMIN and OPERATOR only
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth()
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+    
+    if (session.user.role !== 'ADMIN' && session.user.role !== 'OPERATOR') {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+    
+    const existingDefinition = await prisma.reportDefinition.findUnique({
+      where: { id: params.id }
+    })
+    
+    if (!existingDefinition) {
+      return NextResponse.json(
+        { error: 'Report definition not found' },
+        { status: 404 }
+      )
+    }
+    
+    await prisma.reportDefinition.delete({
+      where: { id: params.id }
+    })
+    
+    return NextResponse.json({
+      success: true,
+      message: 'Report definition deleted successfully'
+    })
+  } catch (error) {
+    console.error('Error deleting report definition:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
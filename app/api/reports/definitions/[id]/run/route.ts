@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { prisma } from '@/lib/prisma'
+import { generateReport, getReportPeriod } from '@/lib/scheduled-reports'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/reports/definitions/[id]/run
+ * Generate (and email) a report for the last complete period right away - ADMIN and OPERATOR only
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth()
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+    
+    if (session.user.role !== 'ADMIN' && session.user.role !== 'OPERATOR') {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+    
+    const definition = await prisma.reportDefinition.findUnique({
+      where: { id: params.id }
+    })
+    
+    if (!definition) {
+      return NextResponse.json(
+        { error: 'Report definition not found' },
+        { status: 404 }
+      )
+    }
+    
+    const { start, end } = getReportPeriod(definition.period)
+    const report = await generateReport(definition, start, end)
+    
+    return NextResponse.json({ report }, { status: 201 })
+  } catch (error) {
+    console.error('Error running report:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
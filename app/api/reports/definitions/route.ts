@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { prisma } from '@/lib/prisma'
+import { toReportDefinitionData, validateReportDefinitionInput } from '@/lib/scheduled-reports'
+import { loadDeviceTypeKeys } from '@/lib/device-types'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/reports/definitions
+ * List scheduled report definitions with their number of generated reports
+ */
+export async function GET() {
+  try {
+    const session = await auth()
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+    
+    const definitions = await prisma.reportDefinition.findMany({
+      include: {
+        _count: {
+          select: { reports: true }
+        }
+      },
+      orderBy: {
+        name: 'asc'
+      }
+    })
+    
+    return NextResponse.json({ definitions })
+  } catch (error) {
+    console.error('Error fetching report definitions:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/reports/definitions
+ * Create a scheduled report - ADMIN and OPERATOR only
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth()
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+    
+    if (session.user.role !== 'ADMIN' && session.user.role !== 'OPERATOR') {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+    
+    const body = await request.json()
+    const validationError = validateReportDefinitionInput(body, await loadDeviceTypeKeys())
+    
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      )
+    }
+    
+    const definition = await prisma.reportDefinition.create({
+      data: {
+        ...toReportDefinitionData(body),
+        createdBy: session.user.username || session.user.name || null
+      }
+    })
+    
+    return NextResponse.json({ definition }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating report definition:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
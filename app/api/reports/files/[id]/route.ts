@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { prisma } from '@/lib/prisma'
+import { REPORT_CONTENT_TYPES, ReportFormat } from '@/lib/scheduled-reports'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/reports/files/[id]
+ * Download a generated report
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth()
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+    
+    const report = await prisma.generatedReport.findUnique({
+      where: { id: params.id }
+    })
+    
+    if (!report) {
+      return NextResponse.json(
+        { error: 'Report not found' },
+        { status: 404 }
+      )
+    }
+    
+    return new Response(report.content, {
+      headers: {
+        'Content-Type': REPORT_CONTENT_TYPES[report.format as ReportFormat] || 'text/plain; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${report.fileName}"`
+      }
+    })
+  } catch (error) {
+    console.error('Error downloading report:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { prisma } from '@/lib/prisma'
+import { GENERATED_REPORT_SELECT } from '@/lib/scheduled-reports'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/reports/files
+ * Generated reports, newest first (without file content)
+ * Query: ?definitionId=...&limit=50
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth()
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+    
+    const { searchParams } = new URL(request.url)
+    const definitionId = searchParams.get('definitionId')
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50') || 50, 1), 500)
+    
+    const reports = await prisma.generatedReport.findMany({
+      where: definitionId ? { definitionId } : undefined,
+      select: {
+        ...GENERATED_REPORT_SELECT,
+        definition: { select: { name: true } }
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit
+    })
+    
+    return NextResponse.json({ reports })
+  } catch (error) {
+    console.error('Error fetching generated reports:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
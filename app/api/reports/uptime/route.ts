@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { prisma } from '@/lib/prisma'
+import { loadDeviceTypes } from '@/lib/device-types'
+import {
+  addDays,
+  addUptimeTotals,
+  buildSlaReport,
+  emptyUptimeTotals,
+  loadUptimeTotals,
+  MAX_REPORT_DAYS,
+  SLA_GROUP_BY,
+  SlaGroupBy,
+  toUptimeSummary
+} from '@/lib/sla'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/reports/uptime
+ * Uptime %, outages, MTTR and MTBF per device, room or device type
+ * Query: ?from=ISO&to=ISO&groupBy=device|room|type&roomId=...&type=...
+ * Defaults to the last 30 days grouped by device
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth()
+
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const { searchParams } = new URL(request.url)
+    const groupBy = (searchParams.get('groupBy') || 'device') as SlaGroupBy
+    const roomId = searchParams.get('roomId')
+    const type = searchParams.get('type')
+
+    if (!SLA_GROUP_BY.includes(groupBy)) {
+      return NextResponse.json(
+        { error: `Invalid groupBy - must be one of ${SLA_GROUP_BY.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const now = new Date()
+    const to = searchParams.get('to') ? new Date(searchParams.get('to')!) : now
+    const from = searchParams.get('from') ? new Date(searchParams.get('from')!) : addDays(to, -30)
+
+    if (isNaN(from.getTime()) || isNaN(to.getTime())) {
+      return NextResponse.json(
+        { error: 'from and to must be valid dates' },
+        { status: 400 }
+      )
+    }
+
+    if (from >= to) {
+      return NextResponse.json(
+        { error: 'from must be before to' },
+        { status: 400 }
+      )
+    }
+
+    if (to.getTime() - from.getTime() > MAX_REPORT_DAYS * 86400000) {
+      return NextResponse.json(
+        { error: `Range cannot be longer than ${MAX_REPORT_DAYS} days` },
+        { status: 400 }
+      )
+    }
+
+    // The future has no uptime yet
+    const until = to > now ? now : to
+
+    const devices = await prisma.device.findMany({
+      where: {
+        ...(roomId ? { roomId } : {}),
+        ...(type ? { type } : {})
+      },
+      select: {
+        id: true,
+        name: true,
+        ip: true,
+        type: true,
+        roomId: true,
+        room: { select: { name: true } }
+      },
+      orderBy: { name: 'asc' }
+    })
+
+    const totals = from < until
+      ? await loadUptimeTotals(devices.map(device => device.id), from, until)
+      : new Map()
+
+    const overall = Array.from(totals.values()).reduce(addUptimeTotals, emptyUptimeTotals())
+
+    return NextResponse.json({
+      success: true,
+      range: {
+        from: from.toISOString(),
+        to: to.toISOString()
+      },
+      groupBy,
+      summary: {
+        deviceCount: devices.length,
+        ...toUptimeSummary(overall)
+      },
+      rows: buildSlaReport(devices, totals, groupBy, await loadDeviceTypes())
+    })
+  } catch (error) {
+    console.error('Error building uptime report:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,161 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { prisma } from '@/lib/prisma'
+import { toPublicRouter, validateRouterInput } from '@/lib/routers'
+import { encryptSecret } from '@/lib/credential-encryption'
+import { closeRouterOSSession } from '@/lib/routeros-pool'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * PUT /api/routers/[id]
+ * Update router connection settings (empty password keeps the stored one)
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth()
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+    
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+    
+    const body = await request.json()
+    const validationError = validateRouterInput(body, true)
+    
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      )
+    }
+    
+    const { name, host, username, password, port, enabled } = body
+    
+    const existingRouter = await prisma.router.findUnique({
+      where: { id: params.id }
+    })
+    
+    if (!existingRouter) {
+      return NextResponse.json(
+        { error: 'Router not found' },
+        { status: 404 }
+      )
+    }
+    
+    // Check if name is taken by another router
+    const nameTaken = await prisma.router.findFirst({
+      where: {
+        name: name.trim(),
+        NOT: { id: params.id }
+      }
+    })
+    
+    if (nameTaken) {
+      return NextResponse.json(
+        { error: 'Router name already exists' },
+        { status: 400 }
+      )
+    }
+    
+    const router = await prisma.router.update({
+      where: { id: params.id },
+      data: {
+        name: name.trim(),
+        host,
+        username,
+        password: password ? encryptSecret(password) : existingRouter.password,
+        port: port || 8728,
+        enabled: enabled !== undefined ? enabled !== false : existingRouter.enabled
+      }
+    })
+    
+    // Credential changes reconnect on next use; a disabled router gives up its session now
+    if (!router.enabled) {
+      closeRouterOSSession(router.id)
+    }
+    
+    return NextResponse.json({ router: toPublicRouter(router) })
+  } catch (error) {
+    console.error('Error updating router:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/routers/[id]
+ * Delete router - devices are kept but no longer bound to any router
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth()
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+    
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+    
+    const existingRouter = await prisma.router.findUnique({
+      where: { id: params.id }
+    })
+    
+    if (!existingRouter) {
+      return NextResponse.json(
+        { error: 'Router not found' },
+        { status: 404 }
+      )
+    }
+    
+    // Unbind devices monitored by this router - together with the delete, so a
+    // failed delete does not leave them unbound from a router that still exists
+    await prisma.$transaction([
+      prisma.device.updateMany({
+        where: { routerId: params.id },
+        data: { routerId: null }
+      }),
+      prisma.router.delete({
+        where: { id: params.id }
+      })
+    ])
+    
+    closeRouterOSSession(params.id)
+    
+    return NextResponse.json({
+      success: true,
+      message: 'Router deleted successfully'
+    })
+  } catch (error) {
+    console.error('Error deleting router:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { prisma } from '@/lib/prisma'
+import { migrateLegacyRouterConfig, migrateStoredPasswords, toPublicRouter, validateRouterInput } from '@/lib/routers'
+import { encryptSecret } from '@/lib/credential-encryption'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/routers
+ * List all MikroTik routers (passwords are never returned)
+ */
+export async function GET() {
+  try {
+    const session = await auth()
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+    
+    // Pick up legacy single-router config if the worker has not run yet
+    await migrateLegacyRouterConfig()
+    await migrateStoredPasswords()
+    
+    const routers = await prisma.router.findMany({
+      include: {
+        _count: {
+          select: { devices: true }
+        }
+      },
+      orderBy: {
+        name: 'asc'
+      }
+    })
+    
+    return NextResponse.json({ routers: routers.map(toPublicRouter) })
+  } catch (error) {
+    console.error('Error fetching routers:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/routers
+ * Create a new MikroTik router
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const session = await auth()
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+    
+    if (session.user.role !== 'ADMIN') {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+    
+    const body = await request.json()
+    const validationError = validateRouterInput(body)
+    
+    if (validationError) {
+      return NextResponse.json(
+        { error: validationError },
+        { status: 400 }
+      )
+    }
+    
+    const { name, host, username, password, port, enabled } = body
+    
+    // Check if router name already exists
+    const existingRouter = await prisma.router.findUnique({
+      where: { name: name.trim() }
+    })
+    
+    if (existingRouter) {
+      return NextResponse.json(
+        { error: 'Router name already exists' },
+        { status: 400 }
+      )
+    }
+    
+    const router = await prisma.router.create({
+      data: {
+        name: name.trim(),
+        host,
+        username,
+        password: encryptSecret(password),
+        port: port || 8728,
+        enabled: enabled !== false
+      }
+    })
+    
+    return NextResponse.json({ router: toPublicRouter(router) }, { status: 201 })
+  } catch (error) {
+    console.error('Error creating router:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
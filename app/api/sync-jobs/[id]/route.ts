@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { prisma } from '@/lib/prisma'
+import { cancelSyncJob, retrySyncJob } from '@/lib/sync-jobs'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/sync-jobs/[id]
+ * Retry or cancel a queued MikroTik write - ADMIN and OPERATOR only
+ * 
+ * Body:
+ * - action: 'retry' | 'cancel'
+ * 
+ * Only waiting and failed jobs can be retried or cancelled. A retry makes its
+ * first attempt right away and answers with its outcome.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const session = await auth()
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+    
+    if (session.user.role !== 'ADMIN' && session.user.role !== 'OPERATOR') {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+    
+    const { action } = await request.json()
+    
+    if (action !== 'retry' && action !== 'cancel') {
+      return NextResponse.json(
+        { error: "Action must be 'retry' or 'cancel'" },
+        { status: 400 }
+      )
+    }
+    
+    const job = await prisma.syncJob.findUnique({
+      where: { id: params.id }
+    })
+    
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Sync job not found' },
+        { status: 404 }
+      )
+    }
+    
+    if (job.status !== 'PENDING' && job.status !== 'FAILED') {
+      return NextResponse.json(
+        { error: `Only waiting or failed jobs can be ${action === 'retry' ? 'retried' : 'cancelled'}` },
+        { status: 400 }
+      )
+    }
+    
+    if (action === 'cancel') {
+      const result = await cancelSyncJob(job.id)
+      return NextResponse.json(result, { status: result.success ? 200 : 400 })
+    }
+    
+    // A failed attempt is reported in the body - the job stays queued
+    return NextResponse.json(await retrySyncJob(job.id))
+  } catch (error) {
+    console.error('Error updating sync job:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { auth } from '@/auth'
+import { prisma } from '@/lib/prisma'
+import { SYNC_JOB_STATUSES, SyncJobStatus } from '@/lib/sync-jobs'
+
+export const dynamic = 'force-dynamic'
+
+const DEFAULT_LIMIT = 100
+const MAX_LIMIT = 500
+
+/**
+ * GET /api/sync-jobs
+ * Queued MikroTik writes with their attempt history, newest first - ADMIN and OPERATOR only
+ * Query: ?status=PENDING|RUNNING|SUCCEEDED|FAILED|CANCELLED, ?deviceId=..., ?limit=100
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const session = await auth()
+    
+    if (!session) {
+      return NextResponse.json(
+        { error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+    
+    if (session.user.role !== 'ADMIN' && session.user.role !== 'OPERATOR') {
+      return NextResponse.json(
+        { error: 'Insufficient permissions' },
+        { status: 403 }
+      )
+    }
+    
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status')
+    const deviceId = searchParams.get('deviceId')
+    const limit = Number(searchParams.get('limit') ?? DEFAULT_LIMIT)
+    
+    if (status && !SYNC_JOB_STATUSES.includes(status as SyncJobStatus)) {
+      return NextResponse.json(
+        { error: `Status must be one of: ${SYNC_JOB_STATUSES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+    
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return NextResponse.json(
+        { error: `Limit must be between 1 and ${MAX_LIMIT}` },
+        { status: 400 }
+      )
+    }
+    
+    const jobs = await prisma.syncJob.findMany({
+      where: {
+        ...(status ? { status } : {}),
+        ...(deviceId ? { deviceId } : {})
+      },
+      include: {
+        log: { orderBy: { createdAt: 'desc' } }
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit
+    })
+    
+    return NextResponse.json({ jobs })
+  } catch (error) {
+    console.error('Error fetching sync jobs:', error)
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    )
+  }
+}
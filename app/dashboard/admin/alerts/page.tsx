@@ -0,0 +1,529 @@
+'use client'
+
+import React, { useState, useEffect, useCallback } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { Bell, Send, ListChecks, History, Plus, Edit, Trash2, Loader2, RefreshCw, CheckCircle, XCircle } from 'lucide-react'
+import { useToast } from '@/hooks/useToast'
+import { ToastContainer } from '@/components/Toast'
+import AlertChannelFormModal from '@/components/AlertChannelFormModal'
+import AlertRuleFormModal, { AlertRuleFormValue } from '@/components/AlertRuleFormModal'
+import { useDeviceTypes } from '@/hooks/useDeviceTypes'
+
+interface AlertChannel {
+  id: string
+  name: string
+  type: string
+  config: Record<string, any>
+  enabled: boolean
+  _count?: {
+    rules: number
+  }
+}
+
+interface AlertRule extends AlertRuleFormValue {
+  channel: {
+    id: string
+    name: string
+    type: string
+    enabled: boolean
+  }
+}
+
+interface AlertLogEntry {
+  id: string
+  ruleName: string
+  channelName: string
+  deviceName: string
+  deviceIp: string
+  event: string
+  message: string
+  success: boolean
+  error: string | null
+  createdAt: string
+}
+
+const EVENT_STYLES: Record<string, string> = {
+  DOWN: 'bg-red-100 text-red-800',
+  REMINDER: 'bg-orange-100 text-orange-800',
+  UP: 'bg-green-100 text-green-800'
+}
+
+export default function AlertsPage() {
+  const router = useRouter()
+  const { data: session, status } = useSession()
+  const { getLabel: getDeviceTypeLabel } = useDeviceTypes()
+  const toast = useToast()
+  const [loading, setLoading] = useState(true)
+  const [channels, setChannels] = useState<AlertChannel[]>([])
+  const [rules, setRules] = useState<AlertRule[]>([])
+  const [logEntries, setLogEntries] = useState<AlertLogEntry[]>([])
+  const [devices, setDevices] = useState<{ id: string; name: string; ip: string }[]>([])
+  const [rooms, setRooms] = useState<{ id: string; name: string }[]>([])
+  const [isChannelModalOpen, setIsChannelModalOpen] = useState(false)
+  const [editingChannel, setEditingChannel] = useState<AlertChannel | undefined>(undefined)
+  const [isRuleModalOpen, setIsRuleModalOpen] = useState(false)
+  const [editingRule, setEditingRule] = useState<AlertRule | undefined>(undefined)
+  const [testingChannelId, setTestingChannelId] = useState<string | null>(null)
+
+  const fetchChannels = useCallback(async () => {
+    try {
+      const response = await fetch('/api/alerts/channels')
+      if (!response.ok) throw new Error('Failed to fetch alert channels')
+      const data = await response.json()
+      setChannels(data.channels || [])
+    } catch (error) {
+      console.error('Error fetching alert channels:', error)
+      toast.error('Failed to Load', 'Could not load alert channels. Please try again.')
+    }
+  }, [toast.error])
+
+  const fetchRules = useCallback(async () => {
+    try {
+      const response = await fetch('/api/alerts/rules')
+      if (!response.ok) throw new Error('Failed to fetch alert rules')
+      const data = await response.json()
+      setRules(data.rules || [])
+    } catch (error) {
+      console.error('Error fetching alert rules:', error)
+      toast.error('Failed to Load', 'Could not load alert rules. Please try again.')
+    }
+  }, [toast.error])
+
+  const fetchLog = useCallback(async () => {
+    try {
+      const response = await fetch('/api/alerts/log?limit=100')
+      if (!response.ok) throw new Error('Failed to fetch alert log')
+      const data = await response.json()
+      setLogEntries(data.entries || [])
+    } catch (error) {
+      console.error('Error fetching alert log:', error)
+    }
+  }, [])
+
+  // Devices and rooms are only needed as rule targets
+  const fetchTargets = useCallback(async () => {
+    try {
+      const [devicesRes, roomsRes] = await Promise.all([fetch('/api/devices'), fetch('/api/rooms')])
+      if (devicesRes.ok) {
+        const data = await devicesRes.json()
+        setDevices(data.devices || [])
+      }
+      if (roomsRes.ok) {
+        const data = await roomsRes.json()
+        setRooms(data.rooms || [])
+      }
+    } catch (error) {
+      console.error('Error fetching devices and rooms:', error)
+    }
+  }, [])
+
+  // Redirect if not authenticated or not admin
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/login')
+      return
+    }
+
+    if (status === 'authenticated' && session?.user?.role !== 'ADMIN') {
+      router.push('/dashboard/map')
+      return
+    }
+
+    if (status === 'authenticated' && session?.user?.role === 'ADMIN') {
+      Promise.all([fetchChannels(), fetchRules(), fetchLog(), fetchTargets()])
+        .finally(() => setLoading(false))
+    }
+  }, [status, session, router, fetchChannels, fetchRules, fetchLog, fetchTargets])
+
+  const handleDeleteChannel = async (channel: AlertChannel) => {
+    const ruleCount = channel._count?.rules || 0
+    const message = ruleCount > 0
+      ? `Delete channel "${channel.name}"? ${ruleCount} rule(s) using it will be deleted as well.`
+      : `Delete channel "${channel.name}"?`
+
+    if (!confirm(message)) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/alerts/channels/${channel.id}`, { method: 'DELETE' })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to delete channel')
+      }
+
+      toast.success('Channel Deleted', `Channel "${channel.name}" has been deleted.`)
+      fetchChannels()
+      fetchRules()
+    } catch (error) {
+      console.error('Error deleting alert channel:', error)
+      toast.error('Delete Failed', error instanceof Error ? error.message : 'Failed to delete channel')
+    }
+  }
+
+  const handleTestChannel = async (channel: AlertChannel) => {
+    setTestingChannelId(channel.id)
+
+    try {
+      const response = await fetch(`/api/alerts/channels/${channel.id}/test`, { method: 'POST' })
+      const data = await response.json()
+
+      if (data.success) {
+        toast.success('Test Sent', data.message)
+      } else {
+        toast.error('Test Failed', data.error || 'Delivery failed')
+      }
+    } catch (error) {
+      console.error('Error testing alert channel:', error)
+      toast.error('Test Failed', 'An unexpected error occurred. Please try again.')
+    } finally {
+      setTestingChannelId(null)
+    }
+  }
+
+  const handleDeleteRule = async (rule: AlertRule) => {
+    if (!confirm(`Delete rule "${rule.name}"?`)) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/alerts/rules/${rule.id}`, { method: 'DELETE' })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to delete rule')
+      }
+
+      toast.success('Rule Deleted', `Rule "${rule.name}" has been deleted.`)
+      fetchRules()
+    } catch (error) {
+      console.error('Error deleting alert rule:', error)
+      toast.error('Delete Failed', error instanceof Error ? error.message : 'Failed to delete rule')
+    }
+  }
+
+  const describeTarget = (rule: AlertRule) => {
+    switch (rule.scope) {
+      case 'DEVICE': {
+        const device = devices.find(d => d.id === rule.deviceId)
+        return device ? `Device: ${device.name}` : 'Device: (deleted)'
+      }
+      case 'ROOM': {
+        const room = rooms.find(r => r.id === rule.roomId)
+        return room ? `Room: ${room.name}` : 'Room: (deleted)'
+      }
+      case 'TYPE':
+        return `Type: ${getDeviceTypeLabel(rule.deviceType || '')}`
+      default:
+        return 'All devices'
+    }
+  }
+
+  if (status === 'loading' || loading) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!session || session.user?.role !== 'ADMIN') {
+    return null
+  }
+
+  return (
+    <>
+      <ToastContainer toasts={toast.toasts} onRemove={toast.removeToast} />
+
+      <AlertChannelFormModal
+        isOpen={isChannelModalOpen}
+        onClose={() => setIsChannelModalOpen(false)}
+        channel={editingChannel}
+        onSuccess={(message, description) => {
+          toast.success(message, description)
+          fetchChannels()
+        }}
+        onError={(message, description) => toast.error(message, description)}
+      />
+
+      <AlertRuleFormModal
+        isOpen={isRuleModalOpen}
+        onClose={() => setIsRuleModalOpen(false)}
+        rule={editingRule}
+        channels={channels}
+        devices={devices}
+        rooms={rooms}
+        onSuccess={(message, description) => {
+          toast.success(message, description)
+          fetchRules()
+        }}
+        onError={(message, description) => toast.error(message, description)}
+      />
+
+      <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 py-8">
+        <div className="container mx-auto px-4 max-w-5xl">
+          {/* Header */}
+          <div className="text-center mb-8">
+            <div className="flex items-center justify-center gap-3 mb-2">
+              <Bell className="w-8 h-8 text-blue-600" />
+              <h1 className="text-3xl md:text-4xl font-bold text-gray-900">Alerts</h1>
+            </div>
+            <p className="text-gray-600">Get notified when devices go down and come back up</p>
+          </div>
+
+          {/* Channels Section */}
+          <div className="bg-white rounded-lg shadow-lg overflow-hidden mb-6">
+            <div className="p-6">
+              <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center gap-2">
+                  <Send className="w-5 h-5 text-blue-600" />
+                  <h2 className="text-xl font-bold text-gray-900">Channels</h2>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setEditingChannel(undefined)
+                    setIsChannelModalOpen(true)
+                  }}
+                  className="px-4 py-2 bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 text-white rounded-lg font-medium transition-all duration-200 shadow-md hover:shadow-lg flex items-center gap-2"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add Channel
+                </button>
+              </div>
+
+              {channels.length === 0 ? (
+                <div className="text-center py-8 border-2 border-dashed border-gray-200 rounded-lg">
+                  <Send className="w-10 h-10 text-gray-300 mx-auto mb-2" />
+                  <p className="text-gray-600 font-medium">No channels configured</p>
+                  <p className="text-sm text-gray-500">Add a webhook, email, Telegram or log channel to deliver alerts</p>
+                </div>
+              ) : (
+                <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                  {channels.map((channel) => (
+                    <div key={channel.id} className="flex items-center justify-between p-4 hover:bg-gray-50">
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <p className="font-semibold text-gray-900 truncate">{channel.name}</p>
+                          <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-blue-100 text-blue-800">
+                            {channel.type}
+                          </span>
+                          {!channel.enabled && (
+                            <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-gray-200 text-gray-700">
+                              Disabled
+                            </span>
+                          )}
+                        </div>
+                        <p className="text-sm text-gray-600">
+                          {channel._count?.rules || 0} rule(s)
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        <button
+                          type="button"
+                          onClick={() => handleTestChannel(channel)}
+                          disabled={testingChannelId === channel.id}
+                          className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+                          title="Send test notification"
+                          aria-label={`Test ${channel.name}`}
+                        >
+                          {testingChannelId === channel.id ? (
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                          ) : (
+                            <Send className="w-4 h-4" />
+                          )}
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => {
+                            setEditingChannel(channel)
+                            setIsChannelModalOpen(true)
+                          }}
+                          className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                          title="Edit channel"
+                          aria-label={`Edit ${channel.name}`}
+                        >
+                          <Edit className="w-4 h-4" />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleDeleteChannel(channel)}
+                          className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                          title="Delete channel"
+                          aria-label={`Delete ${channel.name}`}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Rules Section */}
+          <div className="bg-white rounded-lg shadow-lg overflow-hidden mb-6">
+            <div className="p-6">
+              <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center gap-2">
+                  <ListChecks className="w-5 h-5 text-blue-600" />
+                  <h2 className="text-xl font-bold text-gray-900">Rules</h2>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setEditingRule(undefined)
+                    setIsRuleModalOpen(true)
+                  }}
+                  disabled={channels.length === 0}
+                  className="px-4 py-2 bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 text-white rounded-lg font-medium transition-all duration-200 shadow-md hover:shadow-lg flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                  title={channels.length === 0 ? 'Add a channel first' : 'Add rule'}
+                >
+                  <Plus className="w-4 h-4" />
+                  Add Rule
+                </button>
+              </div>
+
+              {rules.length === 0 ? (
+                <div className="text-center py-8 border-2 border-dashed border-gray-200 rounded-lg">
+                  <ListChecks className="w-10 h-10 text-gray-300 mx-auto mb-2" />
+                  <p className="text-gray-600 font-medium">No alert rules</p>
+                  <p className="text-sm text-gray-500">Rules decide which devices raise alerts and where they are sent</p>
+                </div>
+              ) : (
+                <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                  {rules.map((rule) => (
+                    <div key={rule.id} className="flex items-center justify-between p-4 hover:bg-gray-50">
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <p className="font-semibold text-gray-900 truncate">{rule.name}</p>
+                          {!rule.enabled && (
+                            <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-gray-200 text-gray-700">
+                              Disabled
+                            </span>
+                          )}
+                        </div>
+                        <p className="text-sm text-gray-600">
+                          {describeTarget(rule)}
+                          <span className="mx-2">•</span>
+                          after {rule.minDownSeconds}s down
+                          {rule.renotifyMinutes > 0 && (
+                            <>
+                              <span className="mx-2">•</span>
+                              repeat every {rule.renotifyMinutes}m
+                            </>
+                          )}
+                          <span className="mx-2">•</span>
+                          via {rule.channel.name}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        <button
+                          type="button"
+                          onClick={() => {
+                            setEditingRule(rule)
+                            setIsRuleModalOpen(true)
+                          }}
+                          className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                          title="Edit rule"
+                          aria-label={`Edit ${rule.name}`}
+                        >
+                          <Edit className="w-4 h-4" />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleDeleteRule(rule)}
+                          className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                          title="Delete rule"
+                          aria-label={`Delete ${rule.name}`}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Alert Log Section */}
+          <div className="bg-white rounded-lg shadow-lg overflow-hidden">
+            <div className="p-6">
+              <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center gap-2">
+                  <History className="w-5 h-5 text-blue-600" />
+                  <h2 className="text-xl font-bold text-gray-900">Alert Log</h2>
+                </div>
+                <button
+                  type="button"
+                  onClick={fetchLog}
+                  className="p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                  title="Refresh log"
+                  aria-label="Refresh log"
+                >
+                  <RefreshCw className="w-4 h-4" />
+                </button>
+              </div>
+
+              {logEntries.length === 0 ? (
+                <p className="text-center py-8 text-gray-500">No alerts sent yet</p>
+              ) : (
+                <div className="overflow-x-auto border border-gray-200 rounded-lg">
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-2 text-left font-medium text-gray-700">Time</th>
+                        <th className="px-4 py-2 text-left font-medium text-gray-700">Event</th>
+                        <th className="px-4 py-2 text-left font-medium text-gray-700">Device</th>
+                        <th className="px-4 py-2 text-left font-medium text-gray-700">Rule / Channel</th>
+                        <th className="px-4 py-2 text-left font-medium text-gray-700">Delivery</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {logEntries.map((entry) => (
+                        <tr key={entry.id} className="hover:bg-gray-50">
+                          <td className="px-4 py-2 text-gray-600 whitespace-nowrap">
+                            {new Date(entry.createdAt).toLocaleString()}
+                          </td>
+                          <td className="px-4 py-2">
+                            <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${EVENT_STYLES[entry.event] || 'bg-gray-100 text-gray-800'}`}>
+                              {entry.event}
+                            </span>
+                          </td>
+                          <td className="px-4 py-2 text-gray-900">
+                            {entry.deviceName} <span className="font-mono text-gray-500">({entry.deviceIp})</span>
+                          </td>
+                          <td className="px-4 py-2 text-gray-600">
+                            {entry.ruleName} <span className="text-gray-400">→</span> {entry.channelName}
+                          </td>
+                          <td className="px-4 py-2">
+                            {entry.success ? (
+                              <span className="flex items-center gap-1 text-green-700">
+                                <CheckCircle className="w-4 h-4" /> Sent
+                              </span>
+                            ) : (
+                              <span className="flex items-center gap-1 text-red-700" title={entry.error || undefined}>
+                                <XCircle className="w-4 h-4" /> {entry.error || 'Failed'}
+                              </span>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,399 @@
+'use client'
+
+import React, { useState, useEffect, useCallback, useMemo } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { Tags, Plus, Trash2, ArrowUp, ArrowDown, Save, RotateCcw, FlaskConical, RefreshCw, Loader2 } from 'lucide-react'
+import { useToast } from '@/hooks/useToast'
+import { ToastContainer } from '@/components/Toast'
+import ReclassifyDevicesModal from '@/components/ReclassifyDevicesModal'
+import { useDeviceTypes } from '@/hooks/useDeviceTypes'
+import { useMacVendor } from '@/hooks/useMacVendor'
+import {
+  CLASSIFICATION_FIELDS,
+  CLASSIFICATION_FIELD_LABELS,
+  ClassificationField,
+  ClassificationRuleInput,
+  createDeviceClassifier,
+  validateClassificationRule
+} from '@/lib/device-classification'
+
+const PATTERN_PLACEHOLDERS: Record<ClassificationField, string> = {
+  name: 'e.g. ^cam-|camera',
+  comment: 'e.g. printer',
+  hostname: 'e.g. ^desktop-',
+  ip: 'e.g. 10.0.20.0/24 or 10.0.20.10-10.0.20.50',
+  vendor: 'e.g. hikvision|dahua'
+}
+
+const EMPTY_SAMPLE = { name: '', comment: '', hostname: '', ip: '', mac: '' }
+
+export default function ClassificationPage() {
+  const router = useRouter()
+  const { data: session, status } = useSession()
+  const { deviceTypes, getLabel: getDeviceTypeLabel } = useDeviceTypes()
+  const deviceTypeKeys = useMemo(() => deviceTypes.map(definition => definition.key), [deviceTypes])
+  const toast = useToast()
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [rules, setRules] = useState<ClassificationRuleInput[]>([])
+  const [isDefault, setIsDefault] = useState(false)
+  const [dirty, setDirty] = useState(false)
+  const [sample, setSample] = useState(EMPTY_SAMPLE)
+  const [showReclassify, setShowReclassify] = useState(false)
+
+  const fetchRules = useCallback(async () => {
+    try {
+      const response = await fetch('/api/classification-rules')
+      if (!response.ok) throw new Error('Failed to fetch classification rules')
+      const data = await response.json()
+      setRules(data.rules || [])
+      setIsDefault(data.isDefault)
+      setDirty(false)
+    } catch (error) {
+      console.error('Error fetching classification rules:', error)
+      toast.error('Failed to Load', 'Could not load classification rules. Please try again.')
+    }
+  }, [toast.error])
+
+  // Redirect if not authenticated or not admin
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/login')
+      return
+    }
+
+    if (status === 'authenticated' && session?.user?.role !== 'ADMIN') {
+      router.push('/dashboard/map')
+      return
+    }
+
+    if (status === 'authenticated' && session?.user?.role === 'ADMIN') {
+      fetchRules().finally(() => setLoading(false))
+    }
+  }, [status, session, router, fetchRules])
+
+  const updateRule = (index: number, changes: Partial<ClassificationRuleInput>) => {
+    setRules(prev => prev.map((rule, i) => i === index ? { ...rule, ...changes } : rule))
+    setDirty(true)
+  }
+
+  const moveRule = (index: number, offset: number) => {
+    const target = index + offset
+    if (target < 0 || target >= rules.length) return
+
+    setRules(prev => {
+      const next = [...prev]
+      const moved = next[index]
+      next[index] = next[target]
+      next[target] = moved
+      return next
+    })
+    setDirty(true)
+  }
+
+  const removeRule = (index: number) => {
+    setRules(prev => prev.filter((_, i) => i !== index))
+    setDirty(true)
+  }
+
+  const addRule = () => {
+    setRules(prev => [...prev, { field: 'name', pattern: '', type: 'OTHER', enabled: true }])
+    setDirty(true)
+  }
+
+  const saveRules = async (nextRules: ClassificationRuleInput[]) => {
+    setSaving(true)
+
+    try {
+      const response = await fetch('/api/classification-rules', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rules: nextRules })
+      })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to save rules')
+      }
+
+      setRules(data.rules)
+      setIsDefault(data.isDefault)
+      setDirty(false)
+      toast.success('Rules Saved', data.message)
+    } catch (error) {
+      console.error('Error saving classification rules:', error)
+      toast.error('Save Failed', error instanceof Error ? error.message : 'Failed to save rules')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleRestoreDefaults = () => {
+    if (!confirm('Delete all saved rules and go back to the built-in defaults?')) {
+      return
+    }
+    saveRules([])
+  }
+
+  const ruleErrors = useMemo(() => rules.map(rule => validateClassificationRule(rule, deviceTypeKeys)), [rules, deviceTypeKeys])
+  const hasErrors = ruleErrors.some(Boolean)
+
+  // The test panel runs the rules as edited, before they are saved
+  const { vendor: sampleVendor } = useMacVendor(sample.mac)
+  const testResult = useMemo(() => {
+    const classify = createDeviceClassifier(rules, deviceTypeKeys)
+    return classify({ ...sample, vendor: sampleVendor })
+  }, [rules, deviceTypeKeys, sample, sampleVendor])
+  const hasSample = Object.values(sample).some(value => value.trim())
+
+  if (status === 'loading' || loading) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!session || session.user?.role !== 'ADMIN') {
+    return null
+  }
+
+  return (
+    <>
+      <ToastContainer toasts={toast.toasts} onRemove={toast.removeToast} />
+
+      {showReclassify && (
+        <ReclassifyDevicesModal
+          onClose={() => setShowReclassify(false)}
+          onApplied={(message) => {
+            setShowReclassify(false)
+            toast.success('Devices Re-classified', message)
+          }}
+        />
+      )}
+
+      <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 py-8">
+        <div className="container mx-auto px-4 max-w-5xl">
+          {/* Header */}
+          <div className="text-center mb-8">
+            <div className="flex items-center justify-center gap-3 mb-2">
+              <Tags className="w-8 h-8 text-blue-600" />
+              <h1 className="text-3xl md:text-4xl font-bold text-gray-900">Classification</h1>
+            </div>
+            <p className="text-gray-600">Rules that guess device types on import, discovery and re-classify - the first match wins</p>
+          </div>
+
+          {/* Rules Section */}
+          <div className="bg-white rounded-lg shadow-lg overflow-hidden mb-6">
+            <div className="p-6">
+              <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+                <div className="flex items-center gap-2">
+                  <Tags className="w-5 h-5 text-blue-600" />
+                  <h2 className="text-xl font-bold text-gray-900">Rules</h2>
+                  {isDefault && !dirty && (
+                    <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-gray-200 text-gray-700">
+                      Built-in defaults
+                    </span>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <button
+                    type="button"
+                    onClick={handleRestoreDefaults}
+                    disabled={saving || (isDefault && !dirty)}
+                    className="px-3 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50 flex items-center gap-2 text-sm font-medium"
+                  >
+                    <RotateCcw className="w-4 h-4" />
+                    Restore Defaults
+                  </button>
+                  <button
+                    type="button"
+                    onClick={addRule}
+                    className="px-3 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors flex items-center gap-2 text-sm font-medium"
+                  >
+                    <Plus className="w-4 h-4" />
+                    Add Rule
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => saveRules(rules)}
+                    disabled={saving || hasErrors || !dirty}
+                    className="px-4 py-2 bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 text-white rounded-lg font-medium transition-all duration-200 shadow-md hover:shadow-lg flex items-center gap-2 text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+                    Save Rules
+                  </button>
+                </div>
+              </div>
+
+              {rules.length === 0 ? (
+                <div className="text-center py-8 border-2 border-dashed border-gray-200 rounded-lg">
+                  <Tags className="w-10 h-10 text-gray-300 mx-auto mb-2" />
+                  <p className="text-gray-600 font-medium">No rules</p>
+                  <p className="text-sm text-gray-500">Saving an empty list restores the built-in defaults</p>
+                </div>
+              ) : (
+                <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                  {rules.map((rule, index) => (
+                    <div key={index} className={`p-3 ${rule.enabled ? '' : 'bg-gray-50'}`}>
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className={`w-7 text-sm font-semibold ${testResult.ruleIndex === index && hasSample ? 'text-green-600' : 'text-gray-500'}`}>
+                          {index + 1}.
+                        </span>
+                        <select
+                          value={rule.field}
+                          onChange={(e) => updateRule(index, { field: e.target.value })}
+                          className="px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          aria-label="Field"
+                        >
+                          {CLASSIFICATION_FIELDS.map(field => (
+                            <option key={field} value={field}>{CLASSIFICATION_FIELD_LABELS[field]}</option>
+                          ))}
+                        </select>
+                        <input
+                          type="text"
+                          value={rule.pattern}
+                          onChange={(e) => updateRule(index, { pattern: e.target.value })}
+                          placeholder={PATTERN_PLACEHOLDERS[rule.field as ClassificationField]}
+                          className={`flex-1 min-w-[10rem] px-2 py-1.5 border rounded-lg text-sm font-mono focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+                            ruleErrors[index] ? 'border-red-500 bg-red-50' : 'border-gray-300'
+                          }`}
+                          aria-label="Pattern"
+                        />
+                        <span className="text-gray-400 text-sm">→</span>
+                        <select
+                          value={rule.type}
+                          onChange={(e) => updateRule(index, { type: e.target.value })}
+                          className="px-2 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                          aria-label="Device type"
+                        >
+                          {deviceTypes.map(definition => (
+                            <option key={definition.key} value={definition.key}>{definition.label}</option>
+                          ))}
+                        </select>
+                        <label className="flex items-center gap-1 text-sm text-gray-600">
+                          <input
+                            type="checkbox"
+                            checked={rule.enabled}
+                            onChange={(e) => updateRule(index, { enabled: e.target.checked })}
+                            className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                          />
+                          Enabled
+                        </label>
+                        <div className="flex items-center">
+                          <button
+                            type="button"
+                            onClick={() => moveRule(index, -1)}
+                            disabled={index === 0}
+                            className="p-1.5 text-gray-600 hover:bg-gray-100 rounded-lg disabled:opacity-30"
+                            title="Move up"
+                          >
+                            <ArrowUp className="w-4 h-4" />
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => moveRule(index, 1)}
+                            disabled={index === rules.length - 1}
+                            className="p-1.5 text-gray-600 hover:bg-gray-100 rounded-lg disabled:opacity-30"
+                            title="Move down"
+                          >
+                            <ArrowDown className="w-4 h-4" />
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => removeRule(index)}
+                            className="p-1.5 text-red-600 hover:bg-red-50 rounded-lg"
+                            title="Delete rule"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      </div>
+                      {ruleErrors[index] && (
+                        <p className="mt-1 ml-9 text-xs text-red-600">{ruleErrors[index]}</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+              <p className="mt-3 text-xs text-gray-500">
+                Patterns are case-insensitive regular expressions; IP ranges take a CIDR block, a from-to range or a single address.
+                Devices no rule matches become {getDeviceTypeLabel('OTHER')}.
+              </p>
+            </div>
+          </div>
+
+          {/* Test Panel */}
+          <div className="bg-white rounded-lg shadow-lg overflow-hidden mb-6">
+            <div className="p-6">
+              <div className="flex items-center gap-2 mb-4">
+                <FlaskConical className="w-5 h-5 text-blue-600" />
+                <h2 className="text-xl font-bold text-gray-900">Test</h2>
+              </div>
+              <p className="text-sm text-gray-600 mb-4">Try the rules above, including unsaved edits, on a sample device.</p>
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3">
+                {([
+                  ['name', 'Name', 'cam-lobby-01'],
+                  ['comment', 'Netwatch comment', 'Lobby camera'],
+                  ['hostname', 'Hostname', 'ipc-lobby'],
+                  ['ip', 'IP address', '10.0.20.15'],
+                  ['mac', 'MAC address', '28:57:BE:00:00:01']
+                ] as const).map(([key, label, placeholder]) => (
+                  <div key={key}>
+                    <label htmlFor={`sample-${key}`} className="block text-xs font-semibold text-gray-600 mb-1">{label}</label>
+                    <input
+                      id={`sample-${key}`}
+                      type="text"
+                      value={sample[key]}
+                      onChange={(e) => setSample(prev => ({ ...prev, [key]: e.target.value }))}
+                      placeholder={placeholder}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                ))}
+              </div>
+              {sample.mac.trim() && (
+                <p className="mt-2 text-xs text-gray-500">Vendor: {sampleVendor || 'Unknown'}</p>
+              )}
+              {hasSample && (
+                <div className="mt-4 p-3 rounded-lg bg-blue-50 border border-blue-200 text-sm text-blue-900">
+                  Classified as <span className="font-semibold">{getDeviceTypeLabel(testResult.type)}</span>
+                  {testResult.ruleIndex !== null
+                    ? ` by rule ${testResult.ruleIndex + 1}`
+                    : ' - no rule matched'}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Re-classify Section */}
+          <div className="bg-white rounded-lg shadow-lg overflow-hidden">
+            <div className="p-6 flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+              <div>
+                <div className="flex items-center gap-2 mb-1">
+                  <RefreshCw className="w-5 h-5 text-blue-600" />
+                  <h2 className="text-xl font-bold text-gray-900">Re-classify Devices</h2>
+                </div>
+                <p className="text-sm text-gray-600">Apply the saved rules to every existing device - the changes are listed before anything is saved.</p>
+              </div>
+              <button
+                type="button"
+                onClick={() => setShowReclassify(true)}
+                disabled={dirty}
+                title={dirty ? 'Save the rules first' : undefined}
+                className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors disabled:opacity-50 flex items-center gap-2 text-sm font-medium flex-shrink-0"
+              >
+                <RefreshCw className="w-4 h-4" />
+                Re-classify All
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  )
+}
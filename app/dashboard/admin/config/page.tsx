@@ -3,22 +3,46 @@
 import React, { useState, useEffect } from 'react'
 import { useSession } from 'next-auth/react'
 import { useRouter } from 'next/navigation'
-import { Settings, Wifi, Clock, Shield, Loader2, CheckCircle } from 'lucide-react'
+import { Settings, Wifi, Clock, Shield, Loader2, CheckCircle, Plus, Edit, Trash2, Activity, Archive, Mail, GitCompare } from 'lucide-react'
 import { useToast } from '@/hooks/useToast'
 import { ToastContainer } from '@/components/Toast'
+import RouterFormModal from '@/components/RouterFormModal'
 
 interface SystemConfig {
   id: number
   pollingInterval: number
-  mikrotikIp: string
-  mikrotikUser: string
-  mikrotikPass: string
-  mikrotikPort: number
   defaultNetwatchTimeout: number
   defaultNetwatchInterval: number
+  statusConfirmPolls: number
+  statusConfirmSeconds: number
+  flapThreshold: number
+  flapWindowMinutes: number
+  historyRetentionDays: number
+  purgeDeletedDeviceHistory: boolean
+  smtpHost: string
+  smtpPort: number
+  smtpSecure: boolean
+  smtpUser: string
+  smtpPass: string
+  smtpFrom: string
+  driftReportEnabled: boolean
+  driftReportRecipients: string
   updatedAt: string
 }
 
+interface Router {
+  id: string
+  name: string
+  host: string
+  username: string
+  port: number
+  enabled: boolean
+  hasPassword: boolean
+  _count?: {
+    devices: number
+  }
+}
+
 export default function SystemConfigPage() {
   const router = useRouter()
   const { data: session, status } = useSession()
@@ -26,21 +50,28 @@ export default function SystemConfigPage() {
   const [config, setConfig] = useState<SystemConfig | null>(null)
   const [loading, setLoading] = useState(true)
   const [saving, setSaving] = useState(false)
-  const [testing, setTesting] = useState(false)
-  const [connectionStatus, setConnectionStatus] = useState<{ 
-    success: boolean
-    message: string
-    details?: any
-  } | null>(null)
+  const [routers, setRouters] = useState<Router[]>([])
+  const [isRouterModalOpen, setIsRouterModalOpen] = useState(false)
+  const [editingRouter, setEditingRouter] = useState<Router | undefined>(undefined)
   
   const [formData, setFormData] = useState({
     pollingInterval: 30,
-    mikrotikIp: '',
-    mikrotikUser: '',
-    mikrotikPass: '',
-    mikrotikPort: 8728,
     defaultNetwatchTimeout: 1000,
-    defaultNetwatchInterval: 5
+    defaultNetwatchInterval: 5,
+    statusConfirmPolls: 1,
+    statusConfirmSeconds: 0,
+    flapThreshold: 6,
+    flapWindowMinutes: 10,
+    historyRetentionDays: 90,
+    purgeDeletedDeviceHistory: false,
+    smtpHost: '',
+    smtpPort: 587,
+    smtpSecure: false,
+    smtpUser: '',
+    smtpPass: '',
+    smtpFrom: '',
+    driftReportEnabled: false,
+    driftReportRecipients: ''
   })
   
   const [errors, setErrors] = useState<Record<string, string>>({})
@@ -59,6 +90,7 @@ export default function SystemConfigPage() {
     
     if (status === 'authenticated' && session?.user?.role === 'ADMIN') {
       fetchConfig()
+      fetchRouters()
     }
   }, [status, session, router])
 
@@ -74,12 +106,22 @@ export default function SystemConfigPage() {
       setConfig(data.config)
       setFormData({
         pollingInterval: data.config.pollingInterval,
-        mikrotikIp: data.config.mikrotikIp,
-        mikrotikUser: data.config.mikrotikUser,
-        mikrotikPass: data.config.mikrotikPass,
-        mikrotikPort: data.config.mikrotikPort,
         defaultNetwatchTimeout: data.config.defaultNetwatchTimeout,
-        defaultNetwatchInterval: data.config.defaultNetwatchInterval
+        defaultNetwatchInterval: data.config.defaultNetwatchInterval,
+        statusConfirmPolls: data.config.statusConfirmPolls,
+        statusConfirmSeconds: data.config.statusConfirmSeconds,
+        flapThreshold: data.config.flapThreshold,
+        flapWindowMinutes: data.config.flapWindowMinutes,
+        historyRetentionDays: data.config.historyRetentionDays,
+        purgeDeletedDeviceHistory: data.config.purgeDeletedDeviceHistory,
+        smtpHost: data.config.smtpHost,
+        smtpPort: data.config.smtpPort,
+        smtpSecure: data.config.smtpSecure,
+        smtpUser: data.config.smtpUser,
+        smtpPass: data.config.smtpPass,
+        smtpFrom: data.config.smtpFrom,
+        driftReportEnabled: data.config.driftReportEnabled,
+        driftReportRecipients: data.config.driftReportRecipients
       })
     } catch (error) {
       console.error('Error fetching config:', error)
@@ -89,6 +131,22 @@ export default function SystemConfigPage() {
     }
   }
 
+  const fetchRouters = async () => {
+    try {
+      const response = await fetch('/api/routers')
+      
+      if (!response.ok) {
+        throw new Error('Failed to fetch routers')
+      }
+      
+      const data = await response.json()
+      setRouters(data.routers || [])
+    } catch (error) {
+      console.error('Error fetching routers:', error)
+      toast.error('Failed to Load', 'Could not load MikroTik routers. Please try again.')
+    }
+  }
+
   const validateForm = () => {
     const newErrors: Record<string, string> = {}
     
@@ -98,10 +156,6 @@ export default function SystemConfigPage() {
       newErrors.pollingInterval = 'Polling interval must be an integer'
     }
     
-    if (formData.mikrotikPort && (formData.mikrotikPort <= 0 || formData.mikrotikPort > 65535)) {
-      newErrors.mikrotikPort = 'Port must be between 1 and 65535'
-    }
-    
     if (!formData.defaultNetwatchTimeout || formData.defaultNetwatchTimeout < 100 || formData.defaultNetwatchTimeout > 10000) {
       newErrors.defaultNetwatchTimeout = 'Timeout must be between 100ms and 10000ms'
     }
@@ -110,6 +164,38 @@ export default function SystemConfigPage() {
       newErrors.defaultNetwatchInterval = 'Interval must be between 5s and 3600s'
     }
     
+    if (formData.statusConfirmPolls < 1 || formData.statusConfirmPolls > 100) {
+      newErrors.statusConfirmPolls = 'Confirm polls must be between 1 and 100'
+    }
+    
+    if (formData.statusConfirmSeconds < 0 || formData.statusConfirmSeconds > 3600) {
+      newErrors.statusConfirmSeconds = 'Confirm duration must be between 0s and 3600s'
+    }
+    
+    if (formData.flapThreshold < 0 || formData.flapThreshold > 1000) {
+      newErrors.flapThreshold = 'Flap threshold must be between 0 and 1000'
+    }
+    
+    if (formData.flapWindowMinutes < 1 || formData.flapWindowMinutes > 1440) {
+      newErrors.flapWindowMinutes = 'Flap window must be between 1 and 1440 minutes'
+    }
+    
+    if (formData.historyRetentionDays < 0 || formData.historyRetentionDays > 3650) {
+      newErrors.historyRetentionDays = 'Retention must be between 0 and 3650 days'
+    }
+    
+    if (formData.smtpHost && (formData.smtpPort <= 0 || formData.smtpPort > 65535)) {
+      newErrors.smtpPort = 'Port must be between 1 and 65535'
+    }
+    
+    if (formData.smtpFrom && !formData.smtpFrom.includes('@')) {
+      newErrors.smtpFrom = 'Sender must be an email address'
+    }
+    
+    if (formData.driftReportRecipients.split(/[,;\s]+/).some(recipient => recipient && !recipient.includes('@'))) {
+      newErrors.driftReportRecipients = 'Recipients must be email addresses'
+    }
+    
     setErrors(newErrors)
     return Object.keys(newErrors).length === 0
   }
@@ -152,14 +238,9 @@ export default function SystemConfigPage() {
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target
     
-    // Convert to number for numeric fields
-    const processedValue = ['pollingInterval', 'mikrotikPort', 'defaultNetwatchTimeout', 'defaultNetwatchInterval'].includes(name)
-      ? parseInt(value) || 0
-      : value
-    
     setFormData(prev => ({
       ...prev,
-      [name]: processedValue
+      [name]: parseInt(value) || 0
     }))
     
     // Clear error for this field
@@ -170,54 +251,60 @@ export default function SystemConfigPage() {
         return newErrors
       })
     }
+  }
+
+  const handleTextChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target
+    
+    setFormData(prev => ({
+      ...prev,
+      [name]: value
+    }))
     
-    // Clear connection status when config changes
-    if (connectionStatus) {
-      setConnectionStatus(null)
+    if (errors[name]) {
+      setErrors(prev => {
+        const newErrors = { ...prev }
+        delete newErrors[name]
+        return newErrors
+      })
     }
   }
 
-  const handleTestConnection = async () => {
-    setTesting(true)
-    setConnectionStatus(null)
+  const handleAddRouter = () => {
+    setEditingRouter(undefined)
+    setIsRouterModalOpen(true)
+  }
+
+  const handleEditRouter = (r: Router) => {
+    setEditingRouter(r)
+    setIsRouterModalOpen(true)
+  }
+
+  const handleDeleteRouter = async (r: Router) => {
+    const deviceCount = r._count?.devices || 0
+    const message = deviceCount > 0
+      ? `Delete router "${r.name}"? ${deviceCount} device(s) will no longer be monitored until assigned to another router.`
+      : `Delete router "${r.name}"?`
+    
+    if (!confirm(message)) {
+      return
+    }
     
     try {
-      const response = await fetch('/api/config/test-connection', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(formData)
+      const response = await fetch(`/api/routers/${r.id}`, {
+        method: 'DELETE'
       })
       
-      const data = await response.json()
-      
-      if (response.ok) {
-        setConnectionStatus(data)
-        if (data.success) {
-          let details = 'Connection established successfully'
-          if (data.details) {
-            if (data.details.identity) details += ` to ${data.details.identity}`
-            if (data.details.version) details += ` (${data.details.version})`
-          }
-          toast.success('Connection Successful', details)
-        } else {
-          const errorText = data.details 
-            ? `${data.error}: ${data.details}` 
-            : data.error || 'Connection test failed'
-          toast.error('Connection Failed', errorText)
-        }
-      } else {
-        const errorText = data.details 
-          ? `${data.error}: ${data.details}` 
-          : data.error || 'Failed to test connection'
-        toast.error('Connection Failed', errorText)
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to delete router')
       }
+      
+      toast.success('Router Deleted', `Router "${r.name}" has been deleted.`)
+      fetchRouters()
     } catch (error) {
-      console.error('Error testing connection:', error)
-      toast.error('Connection Error', 'Failed to test connection. Please check your network.')
-    } finally {
-      setTesting(false)
+      console.error('Error deleting router:', error)
+      toast.error('Delete Failed', error instanceof Error ? error.message : 'Failed to delete router')
     }
   }
 
@@ -240,6 +327,17 @@ export default function SystemConfigPage() {
     <>
       <ToastContainer toasts={toast.toasts} onRemove={toast.removeToast} />
       
+      <RouterFormModal
+        isOpen={isRouterModalOpen}
+        onClose={() => setIsRouterModalOpen(false)}
+        router={editingRouter}
+        onSuccess={(message, description) => {
+          toast.success(message, description)
+          fetchRouters()
+        }}
+        onError={(message, description) => toast.error(message, description)}
+      />
+      
       <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 py-8">
         <div className="container mx-auto px-4 max-w-4xl">
           {/* Header */}
@@ -248,122 +346,462 @@ export default function SystemConfigPage() {
               <Settings className="w-8 h-8 text-blue-600" />
               <h1 className="text-3xl md:text-4xl font-bold text-gray-900">System Configuration</h1>
             </div>
-            <p className="text-gray-600">Configure MikroTik connection and monitoring settings</p>
+            <p className="text-gray-600">Configure MikroTik routers and monitoring settings</p>
+          </div>
+
+        {/* MikroTik Routers Section */}
+        <div className="bg-white rounded-lg shadow-lg overflow-hidden mb-6">
+          <div className="p-6">
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center gap-2">
+                <Wifi className="w-5 h-5 text-blue-600" />
+                <h2 className="text-xl font-bold text-gray-900">MikroTik Routers</h2>
+              </div>
+              <button
+                type="button"
+                onClick={handleAddRouter}
+                className="px-4 py-2 bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 text-white rounded-lg font-medium transition-all duration-200 shadow-md hover:shadow-lg flex items-center gap-2"
+              >
+                <Plus className="w-4 h-4" />
+                Add Router
+              </button>
+            </div>
+
+            {routers.length === 0 ? (
+              <div className="text-center py-8 border-2 border-dashed border-gray-200 rounded-lg">
+                <Wifi className="w-10 h-10 text-gray-300 mx-auto mb-2" />
+                <p className="text-gray-600 font-medium">No routers configured</p>
+                <p className="text-sm text-gray-500">Add a MikroTik router to start monitoring devices</p>
+              </div>
+            ) : (
+              <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                {routers.map((r) => (
+                  <div key={r.id} className="flex items-center justify-between p-4 hover:bg-gray-50">
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <p className="font-semibold text-gray-900 truncate">{r.name}</p>
+                        {!r.enabled && (
+                          <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-gray-200 text-gray-700">
+                            Disabled
+                          </span>
+                        )}
+                      </div>
+                      <p className="text-sm text-gray-600">
+                        <span className="font-mono">{r.host}:{r.port}</span>
+                        <span className="mx-2">•</span>
+                        {r.username}
+                        <span className="mx-2">•</span>
+                        {r._count?.devices || 0} device(s)
+                      </p>
+                    </div>
+                    <div className="flex items-center gap-2 flex-shrink-0">
+                      <button
+                        type="button"
+                        onClick={() => handleEditRouter(r)}
+                        className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                        title="Edit router"
+                        aria-label={`Edit ${r.name}`}
+                      >
+                        <Edit className="w-4 h-4" />
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleDeleteRouter(r)}
+                        className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                        title="Delete router"
+                        aria-label={`Delete ${r.name}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
+        </div>
 
         {/* Main Form Card */}
         <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-lg overflow-hidden">
-          {/* MikroTik Connection Section */}
+          {/* Polling Section */}
           <div className="p-6 border-b border-gray-200">
             <div className="flex items-center gap-2 mb-4">
-              <Wifi className="w-5 h-5 text-blue-600" />
-              <h2 className="text-xl font-bold text-gray-900">MikroTik Connection</h2>
+              <Clock className="w-5 h-5 text-blue-600" />
+              <h2 className="text-xl font-bold text-gray-900">Polling</h2>
             </div>
             
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <div className="md:col-span-2">
-                <label htmlFor="mikrotikIp" className="block text-sm font-medium text-gray-700 mb-1">
-                  IP Address <span className="text-red-500">*</span>
+              <div>
+                <label htmlFor="pollingInterval" className="block text-sm font-medium text-gray-700 mb-1">
+                  Polling Interval (seconds)
                 </label>
                 <input
-                  type="text"
-                  id="mikrotikIp"
-                  name="mikrotikIp"
-                  value={formData.mikrotikIp}
+                  type="number"
+                  id="pollingInterval"
+                  name="pollingInterval"
+                  value={formData.pollingInterval}
                   onChange={handleChange}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors font-mono"
-                  placeholder="192.168.1.1"
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                  placeholder="30"
+                  min="1"
                 />
-                {errors.mikrotikIp && (
+                {errors.pollingInterval && (
                   <p className="mt-1 text-sm text-red-600 flex items-center gap-1">
-                    <span>⚠</span> {errors.mikrotikIp}
+                    <span>⚠</span> {errors.pollingInterval}
                   </p>
                 )}
+                <p className="mt-1 text-xs text-gray-500">
+                  How often to poll each MikroTik router for status updates. Changes apply within a few seconds, no worker restart needed
+                </p>
               </div>
+            </div>
+          </div>
 
+          {/* Status Debounce Section */}
+          <div className="p-6 border-b border-gray-200">
+            <div className="flex items-center gap-2 mb-4">
+              <Activity className="w-5 h-5 text-blue-600" />
+              <h2 className="text-xl font-bold text-gray-900">Status Debounce</h2>
+            </div>
+            <p className="text-sm text-gray-600 mb-4">
+              A status change is recorded only after it has held for both the confirm polls and the confirm duration
+            </p>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
-                <label htmlFor="mikrotikUser" className="block text-sm font-medium text-gray-700 mb-1">
-                  Username <span className="text-red-500">*</span>
+                <label htmlFor="statusConfirmPolls" className="block text-sm font-medium text-gray-700 mb-1">
+                  Confirm Polls
                 </label>
                 <input
-                  type="text"
-                  id="mikrotikUser"
-                  name="mikrotikUser"
-                  value={formData.mikrotikUser}
+                  type="number"
+                  id="statusConfirmPolls"
+                  name="statusConfirmPolls"
+                  value={formData.statusConfirmPolls}
                   onChange={handleChange}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
-                  placeholder="admin"
+                  placeholder="1"
+                  min="1"
+                  max="100"
                 />
-                {errors.mikrotikUser && (
+                {errors.statusConfirmPolls && (
                   <p className="mt-1 text-sm text-red-600 flex items-center gap-1">
-                    <span>⚠</span> {errors.mikrotikUser}
+                    <span>⚠</span> {errors.statusConfirmPolls}
                   </p>
                 )}
+                <p className="mt-1 text-xs text-gray-500">
+                  Consecutive polls with the new status (1 = record immediately)
+                </p>
               </div>
 
               <div>
-                <label htmlFor="mikrotikPass" className="block text-sm font-medium text-gray-700 mb-1">
-                  Password <span className="text-red-500">*</span>
+                <label htmlFor="statusConfirmSeconds" className="block text-sm font-medium text-gray-700 mb-1">
+                  Confirm Duration (seconds)
                 </label>
                 <input
-                  type="password"
-                  id="mikrotikPass"
-                  name="mikrotikPass"
-                  value={formData.mikrotikPass}
+                  type="number"
+                  id="statusConfirmSeconds"
+                  name="statusConfirmSeconds"
+                  value={formData.statusConfirmSeconds}
+                  onChange={handleChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                  placeholder="0"
+                  min="0"
+                  max="3600"
+                />
+                {errors.statusConfirmSeconds && (
+                  <p className="mt-1 text-sm text-red-600 flex items-center gap-1">
+                    <span>⚠</span> {errors.statusConfirmSeconds}
+                  </p>
+                )}
+                <p className="mt-1 text-xs text-gray-500">
+                  Minimum time the new status must hold (0-3600s)
+                </p>
+              </div>
+
+              <div>
+                <label htmlFor="flapThreshold" className="block text-sm font-medium text-gray-700 mb-1">
+                  Flap Threshold
+                </label>
+                <input
+                  type="number"
+                  id="flapThreshold"
+                  name="flapThreshold"
+                  value={formData.flapThreshold}
                   onChange={handleChange}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
-                  placeholder="••••••••"
+                  placeholder="6"
+                  min="0"
+                  max="1000"
                 />
-                {errors.mikrotikPass && (
+                {errors.flapThreshold && (
                   <p className="mt-1 text-sm text-red-600 flex items-center gap-1">
-                    <span>⚠</span> {errors.mikrotikPass}
+                    <span>⚠</span> {errors.flapThreshold}
                   </p>
                 )}
+                <p className="mt-1 text-xs text-gray-500">
+                  Status flips within the window that mark a device as flapping (0 = disabled)
+                </p>
               </div>
 
               <div>
-                <label htmlFor="mikrotikPort" className="block text-sm font-medium text-gray-700 mb-1">
-                  API Port
+                <label htmlFor="flapWindowMinutes" className="block text-sm font-medium text-gray-700 mb-1">
+                  Flap Window (minutes)
                 </label>
                 <input
                   type="number"
-                  id="mikrotikPort"
-                  name="mikrotikPort"
-                  value={formData.mikrotikPort}
+                  id="flapWindowMinutes"
+                  name="flapWindowMinutes"
+                  value={formData.flapWindowMinutes}
                   onChange={handleChange}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
-                  placeholder="8728"
+                  placeholder="10"
                   min="1"
-                  max="65535"
+                  max="1440"
                 />
-                {errors.mikrotikPort && (
+                {errors.flapWindowMinutes && (
                   <p className="mt-1 text-sm text-red-600 flex items-center gap-1">
-                    <span>⚠</span> {errors.mikrotikPort}
+                    <span>⚠</span> {errors.flapWindowMinutes}
                   </p>
                 )}
+                <p className="mt-1 text-xs text-gray-500">
+                  A flapping device returns to up/down after being stable this long
+                </p>
               </div>
+            </div>
+          </div>
 
+          {/* History Retention Section */}
+          <div className="p-6 border-b border-gray-200">
+            <div className="flex items-center gap-2 mb-4">
+              <Archive className="w-5 h-5 text-blue-600" />
+              <h2 className="text-xl font-bold text-gray-900">History Retention</h2>
+            </div>
+            <p className="text-sm text-gray-600 mb-4">
+              Old status history is compacted into the daily uptime rollups, so reports keep working after raw rows are removed
+            </p>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
-                <label htmlFor="pollingInterval" className="block text-sm font-medium text-gray-700 mb-1">
-                  Polling Interval (seconds)
+                <label htmlFor="historyRetentionDays" className="block text-sm font-medium text-gray-700 mb-1">
+                  Keep Raw History (days)
                 </label>
                 <input
                   type="number"
-                  id="pollingInterval"
-                  name="pollingInterval"
-                  value={formData.pollingInterval}
+                  id="historyRetentionDays"
+                  name="historyRetentionDays"
+                  value={formData.historyRetentionDays}
                   onChange={handleChange}
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
-                  placeholder="30"
+                  placeholder="90"
+                  min="0"
+                  max="3650"
+                />
+                {errors.historyRetentionDays && (
+                  <p className="mt-1 text-sm text-red-600 flex items-center gap-1">
+                    <span>⚠</span> {errors.historyRetentionDays}
+                  </p>
+                )}
+                <p className="mt-1 text-xs text-gray-500">
+                  Older status changes are removed after being rolled up (0 = keep forever)
+                </p>
+              </div>
+
+              <div className="flex items-start gap-2 md:pt-7">
+                <input
+                  type="checkbox"
+                  id="purgeDeletedDeviceHistory"
+                  checked={formData.purgeDeletedDeviceHistory}
+                  onChange={(e) => setFormData(prev => ({ ...prev, purgeDeletedDeviceHistory: e.target.checked }))}
+                  className="mt-1 w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                <label htmlFor="purgeDeletedDeviceHistory" className="text-sm text-gray-700">
+                  Purge history of deleted devices
+                  <span className="block text-xs text-gray-500">
+                    By default history is kept after a device is deleted
+                  </span>
+                </label>
+              </div>
+            </div>
+          </div>
+
+          {/* Email (SMTP) Section */}
+          <div className="p-6 border-b border-gray-200">
+            <div className="flex items-center gap-2 mb-4">
+              <Mail className="w-5 h-5 text-blue-600" />
+              <h2 className="text-xl font-bold text-gray-900">Email (SMTP)</h2>
+            </div>
+            <p className="text-sm text-gray-600 mb-4">
+              Used to send scheduled reports. Leave the host empty to only store reports for download
+            </p>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="smtpHost" className="block text-sm font-medium text-gray-700 mb-1">
+                  SMTP Host
+                </label>
+                <input
+                  type="text"
+                  id="smtpHost"
+                  name="smtpHost"
+                  value={formData.smtpHost}
+                  onChange={handleTextChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                  placeholder="smtp.example.com"
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  Use localhost and port 1025 for a local test server such as MailHog
+                </p>
+              </div>
+
+              <div>
+                <label htmlFor="smtpPort" className="block text-sm font-medium text-gray-700 mb-1">
+                  Port
+                </label>
+                <input
+                  type="number"
+                  id="smtpPort"
+                  name="smtpPort"
+                  value={formData.smtpPort}
+                  onChange={handleChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                  placeholder="587"
                   min="1"
+                  max="65535"
                 />
-                {errors.pollingInterval && (
+                {errors.smtpPort && (
                   <p className="mt-1 text-sm text-red-600 flex items-center gap-1">
-                    <span>⚠</span> {errors.pollingInterval}
+                    <span>⚠</span> {errors.smtpPort}
                   </p>
                 )}
                 <p className="mt-1 text-xs text-gray-500">
-                  How often to poll MikroTik for status updates
+                  587 (STARTTLS), 465 (TLS) or 25
+                </p>
+              </div>
+
+              <div>
+                <label htmlFor="smtpUser" className="block text-sm font-medium text-gray-700 mb-1">
+                  Username
+                </label>
+                <input
+                  type="text"
+                  id="smtpUser"
+                  name="smtpUser"
+                  value={formData.smtpUser}
+                  onChange={handleTextChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                  autoComplete="off"
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  Leave empty when the server needs no authentication
+                </p>
+              </div>
+
+              <div>
+                <label htmlFor="smtpPass" className="block text-sm font-medium text-gray-700 mb-1">
+                  Password
+                </label>
+                <input
+                  type="password"
+                  id="smtpPass"
+                  name="smtpPass"
+                  value={formData.smtpPass}
+                  onChange={handleTextChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                  autoComplete="new-password"
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  Stored encrypted; leave unchanged to keep the current password
+                </p>
+              </div>
+
+              <div>
+                <label htmlFor="smtpFrom" className="block text-sm font-medium text-gray-700 mb-1">
+                  Sender Address
+                </label>
+                <input
+                  type="text"
+                  id="smtpFrom"
+                  name="smtpFrom"
+                  value={formData.smtpFrom}
+                  onChange={handleTextChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                  placeholder="netwatch@example.com"
+                />
+                {errors.smtpFrom && (
+                  <p className="mt-1 text-sm text-red-600 flex items-center gap-1">
+                    <span>⚠</span> {errors.smtpFrom}
+                  </p>
+                )}
+                <p className="mt-1 text-xs text-gray-500">
+                  From address on report emails
+                </p>
+              </div>
+
+              <div className="flex items-start gap-2 md:pt-7">
+                <input
+                  type="checkbox"
+                  id="smtpSecure"
+                  checked={formData.smtpSecure}
+                  onChange={(e) => setFormData(prev => ({ ...prev, smtpSecure: e.target.checked }))}
+                  className="mt-1 w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                <label htmlFor="smtpSecure" className="text-sm text-gray-700">
+                  Use TLS from the start
+                  <span className="block text-xs text-gray-500">
+                    Enable for port 465; otherwise TLS is used only when the server offers STARTTLS
+                  </span>
+                </label>
+              </div>
+            </div>
+          </div>
+
+          {/* Netwatch Drift Report Section */}
+          <div className="p-6 border-b border-gray-200">
+            <div className="flex items-center gap-2 mb-4">
+              <GitCompare className="w-5 h-5 text-blue-600" />
+              <h2 className="text-xl font-bold text-gray-900">Netwatch Drift Report</h2>
+            </div>
+            <p className="text-sm text-gray-600 mb-4">
+              Once a day every router's netwatch table is compared with the dashboard. Findings are listed on the reconcile page
+            </p>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="flex items-start gap-2 md:pt-7">
+                <input
+                  type="checkbox"
+                  id="driftReportEnabled"
+                  checked={formData.driftReportEnabled}
+                  onChange={(e) => setFormData(prev => ({ ...prev, driftReportEnabled: e.target.checked }))}
+                  className="mt-1 w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                <label htmlFor="driftReportEnabled" className="text-sm text-gray-700">
+                  Run the daily drift report
+                  <span className="block text-xs text-gray-500">
+                    Entries edited or removed on the router and entries missing from the dashboard
+                  </span>
+                </label>
+              </div>
+
+              <div>
+                <label htmlFor="driftReportRecipients" className="block text-sm font-medium text-gray-700 mb-1">
+                  Recipients
+                </label>
+                <input
+                  type="text"
+                  id="driftReportRecipients"
+                  name="driftReportRecipients"
+                  value={formData.driftReportRecipients}
+                  onChange={handleTextChange}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                  placeholder="noc@example.com, admin@example.com"
+                />
+                {errors.driftReportRecipients && (
+                  <p className="mt-1 text-sm text-red-600 flex items-center gap-1">
+                    <span>⚠</span> {errors.driftReportRecipients}
+                  </p>
+                )}
+                <p className="mt-1 text-xs text-gray-500">
+                  Emailed only when something drifted; leave empty to keep the report on the reconcile page
                 </p>
               </div>
             </div>
@@ -462,29 +900,10 @@ export default function SystemConfigPage() {
 
           {/* Action Buttons */}
           <div className="p-6 bg-white border-t border-gray-200">
-            <div className="flex flex-col sm:flex-row gap-3 justify-between">
-              <button
-                type="button"
-                onClick={handleTestConnection}
-                disabled={testing || saving}
-                className="px-6 py-2.5 bg-gray-600 hover:bg-gray-700 text-white rounded-lg font-medium transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 shadow-md hover:shadow-lg"
-              >
-                {testing ? (
-                  <>
-                    <Loader2 className="w-4 h-4 animate-spin" />
-                    Testing Connection...
-                  </>
-                ) : (
-                  <>
-                    <Wifi className="w-4 h-4" />
-                    Test Connection
-                  </>
-                )}
-              </button>
-              
+            <div className="flex flex-col sm:flex-row gap-3 justify-end">
               <button
                 type="submit"
-                disabled={saving || testing}
+                disabled={saving}
                 className="px-6 py-2.5 bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 text-white rounded-lg font-medium transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed shadow-md hover:shadow-lg flex items-center justify-center gap-2"
               >
                 {saving ? (
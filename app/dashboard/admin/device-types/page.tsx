@@ -0,0 +1,191 @@
+'use client'
+
+import React, { useState, useEffect } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { Shapes, Plus, Pencil, Trash2, RotateCcw } from 'lucide-react'
+import { useToast } from '@/hooks/useToast'
+import { ToastContainer } from '@/components/Toast'
+import { useDeviceTypes } from '@/hooks/useDeviceTypes'
+import DeviceTypeIcon from '@/components/DeviceTypeIcon'
+import DeviceTypeFormModal from '@/components/DeviceTypeFormModal'
+import { DeviceTypeDefinition } from '@/lib/constants'
+
+export default function DeviceTypesPage() {
+  const router = useRouter()
+  const { data: session, status } = useSession()
+  const { deviceTypes, mutate } = useDeviceTypes()
+  const toast = useToast()
+  const [showModal, setShowModal] = useState(false)
+  const [editingType, setEditingType] = useState<DeviceTypeDefinition | undefined>(undefined)
+
+  // Redirect if not authenticated or not admin
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/login')
+      return
+    }
+
+    if (status === 'authenticated' && session?.user?.role !== 'ADMIN') {
+      router.push('/dashboard/map')
+    }
+  }, [status, session, router])
+
+  const openModal = (deviceType?: DeviceTypeDefinition) => {
+    setEditingType(deviceType)
+    setShowModal(true)
+  }
+
+  const handleDelete = async (deviceType: DeviceTypeDefinition) => {
+    const question = deviceType.builtIn
+      ? `Restore the built-in label, icon, colour and netwatch defaults of ${deviceType.label}?`
+      : `Delete the device type ${deviceType.label}?`
+    if (!confirm(question)) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/device-types/${deviceType.key}`, { method: 'DELETE' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to delete device type')
+      }
+
+      toast.success(deviceType.builtIn ? 'Defaults Restored' : 'Device Type Deleted', data.message)
+      mutate()
+    } catch (error) {
+      console.error('Error deleting device type:', error)
+      toast.error('Delete Failed', error instanceof Error ? error.message : 'Failed to delete device type')
+    }
+  }
+
+  if (status === 'loading') {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!session || session.user?.role !== 'ADMIN') {
+    return null
+  }
+
+  return (
+    <>
+      <ToastContainer toasts={toast.toasts} onRemove={toast.removeToast} />
+
+      <DeviceTypeFormModal
+        isOpen={showModal}
+        onClose={() => setShowModal(false)}
+        deviceType={editingType}
+        onSuccess={(message, description) => {
+          toast.success(message, description)
+          mutate()
+        }}
+        onError={(message, description) => toast.error(message, description)}
+      />
+
+      <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 py-8">
+        <div className="container mx-auto px-4 max-w-5xl">
+          {/* Header */}
+          <div className="text-center mb-8">
+            <div className="flex items-center justify-center gap-3 mb-2">
+              <Shapes className="w-8 h-8 text-blue-600" />
+              <h1 className="text-3xl md:text-4xl font-bold text-gray-900">Device Types</h1>
+            </div>
+            <p className="text-gray-600">Labels, icons, colours and netwatch defaults of the types devices can have</p>
+          </div>
+
+          <div className="bg-white rounded-lg shadow-lg overflow-hidden">
+            <div className="p-6">
+              <div className="flex items-center justify-between gap-3 mb-4">
+                <div className="flex items-center gap-2">
+                  <Shapes className="w-5 h-5 text-blue-600" />
+                  <h2 className="text-xl font-bold text-gray-900">Types</h2>
+                  <span className="text-sm text-gray-500">({deviceTypes.length})</span>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => openModal()}
+                  className="px-4 py-2 bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 text-white rounded-lg font-medium transition-all duration-200 shadow-md hover:shadow-lg flex items-center gap-2 text-sm"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add Type
+                </button>
+              </div>
+
+              <div className="overflow-x-auto border border-gray-200 rounded-lg">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Type</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Key</th>
+                      <th className="px-4 py-3 text-left text-xs font-semibold text-gray-600 uppercase">Netwatch Defaults</th>
+                      <th className="px-4 py-3 text-right text-xs font-semibold text-gray-600 uppercase">Actions</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {deviceTypes.map(deviceType => (
+                      <tr key={deviceType.key}>
+                        <td className="px-4 py-3">
+                          <div className="flex items-center gap-3">
+                            <span
+                              className="w-9 h-9 rounded-full border-2 flex items-center justify-center"
+                              style={{ borderColor: deviceType.color }}
+                            >
+                              <DeviceTypeIcon type={deviceType.key} definition={deviceType} colored />
+                            </span>
+                            <span className="font-medium text-gray-900">{deviceType.label}</span>
+                            {deviceType.builtIn && (
+                              <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-gray-200 text-gray-700">
+                                Built-in
+                              </span>
+                            )}
+                          </div>
+                        </td>
+                        <td className="px-4 py-3 font-mono text-gray-600">{deviceType.key}</td>
+                        <td className="px-4 py-3 text-gray-600">
+                          {deviceType.netwatchTimeout || deviceType.netwatchInterval
+                            ? `${deviceType.netwatchTimeout ? `${deviceType.netwatchTimeout}ms` : 'default'} / ${deviceType.netwatchInterval ? `${deviceType.netwatchInterval}s` : 'default'}`
+                            : 'System defaults'}
+                        </td>
+                        <td className="px-4 py-3">
+                          <div className="flex items-center justify-end gap-1">
+                            <button
+                              type="button"
+                              onClick={() => openModal(deviceType)}
+                              className="p-1.5 text-blue-600 hover:bg-blue-50 rounded-lg"
+                              title="Edit"
+                            >
+                              <Pencil className="w-4 h-4" />
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => handleDelete(deviceType)}
+                              className={`p-1.5 rounded-lg ${deviceType.builtIn ? 'text-gray-600 hover:bg-gray-100' : 'text-red-600 hover:bg-red-50'}`}
+                              title={deviceType.builtIn ? 'Restore defaults' : 'Delete'}
+                            >
+                              {deviceType.builtIn ? <RotateCcw className="w-4 h-4" /> : <Trash2 className="w-4 h-4" />}
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              <p className="mt-3 text-xs text-gray-500">
+                Built-in types can be edited but not deleted. Custom types can be deleted once no device, alert rule, report or classification rule uses them.
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  )
+}
@@ -1,12 +1,13 @@
 'use client'
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useCallback } from "react"
 import { useSession } from "next-auth/react"
 import { useRouter } from "next/navigation"
 import Link from "next/link"
 import DeviceTable from "@/components/DeviceTable"
 import DeviceFormModal from "@/components/DeviceFormModal"
-import { Plus, RefreshCw } from "lucide-react"
+import { FileUp, GitCompare, ListChecks, Plus, Radar, RefreshCw } from "lucide-react"
+import { applyStatusEvents, DeviceStatusEvent, useDeviceStatusStream } from "@/hooks/useDeviceStatusStream"
 
 interface Device {
   id: string
@@ -16,11 +17,19 @@ interface Device {
   laneName: string
   status: string
   lastSeen: Date | string | null
+  statusSince?: Date | string | null
   roomId?: string | null
+  routerId?: string | null
+  netwatchType?: string
   netwatchTimeout?: number
   netwatchInterval?: number
+  netwatchPort?: number | null
+  netwatchHttpCode?: number | null
+  netwatchDnsName?: string | null
   netwatchUpScript?: string | null
   netwatchDownScript?: string | null
+  needsSync?: boolean
+  lastSyncError?: string | null
 }
 
 export default function DevicesPage() {
@@ -62,6 +71,13 @@ export default function DevicesPage() {
     }
   }
 
+  // Keep the status column current without refetching the whole list
+  const handleStatusEvents = useCallback((events: DeviceStatusEvent[]) => {
+    setDevices(prev => applyStatusEvents(prev, events))
+  }, [])
+
+  useDeviceStatusStream(handleStatusEvents)
+
   const handleSuccess = () => {
     fetchDevices()
   }
@@ -98,6 +114,38 @@ export default function DevicesPage() {
               <RefreshCw className="w-4 h-4" />
               Sync from MikroTik
             </Link>
+            <Link
+              href="/dashboard/manage/devices/discover"
+              className="bg-white hover:bg-gray-50 text-gray-700 border border-gray-300 px-4 lg:px-6 py-2.5 rounded-lg font-medium transition-all duration-200 shadow-md hover:shadow-lg flex items-center justify-center gap-2"
+              title="Find unmonitored hosts from DHCP leases, ARP and neighbors"
+            >
+              <Radar className="w-4 h-4" />
+              Discover
+            </Link>
+            <Link
+              href="/dashboard/manage/devices/import"
+              className="bg-white hover:bg-gray-50 text-gray-700 border border-gray-300 px-4 lg:px-6 py-2.5 rounded-lg font-medium transition-all duration-200 shadow-md hover:shadow-lg flex items-center justify-center gap-2"
+              title="Add devices from a CSV or XLSX inventory"
+            >
+              <FileUp className="w-4 h-4" />
+              Import
+            </Link>
+            <Link
+              href="/dashboard/manage/devices/reconcile"
+              className="bg-white hover:bg-gray-50 text-gray-700 border border-gray-300 px-4 lg:px-6 py-2.5 rounded-lg font-medium transition-all duration-200 shadow-md hover:shadow-lg flex items-center justify-center gap-2"
+              title="Compare the dashboard with MikroTik Netwatch"
+            >
+              <GitCompare className="w-4 h-4" />
+              Reconcile
+            </Link>
+            <Link
+              href="/dashboard/manage/devices/jobs"
+              className="bg-white hover:bg-gray-50 text-gray-700 border border-gray-300 px-4 lg:px-6 py-2.5 rounded-lg font-medium transition-all duration-200 shadow-md hover:shadow-lg flex items-center justify-center gap-2"
+              title="Queued MikroTik changes and their retries"
+            >
+              <ListChecks className="w-4 h-4" />
+              Sync Jobs
+            </Link>
             <button
               onClick={() => setIsModalOpen(true)}
               className="bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 text-white px-4 lg:px-6 py-2.5 rounded-lg font-medium transition-all duration-200 shadow-md hover:shadow-lg transform hover:scale-105 flex items-center justify-center gap-2"
@@ -0,0 +1,311 @@
+'use client'
+
+import React, { useState, useEffect, useCallback } from 'react'
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { Wrench, Plus, Edit, Trash2, Square, Repeat } from 'lucide-react'
+import { useToast } from '@/hooks/useToast'
+import { ToastContainer } from '@/components/Toast'
+import MaintenanceWindowFormModal, { MaintenanceWindowFormValue } from '@/components/MaintenanceWindowFormModal'
+
+interface MaintenanceWindow extends MaintenanceWindowFormValue {
+  createdBy: string | null
+  occurrence: {
+    start: string
+    end: string
+    active: boolean
+  } | null
+}
+
+const RECURRENCE_LABELS: Record<string, string> = {
+  DAILY: 'daily',
+  WEEKLY: 'weekly'
+}
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('id-ID', {
+    day: '2-digit',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit'
+  })
+
+export default function MaintenancePage() {
+  const router = useRouter()
+  const { data: session, status } = useSession()
+  const toast = useToast()
+  const [loading, setLoading] = useState(true)
+  const [windows, setWindows] = useState<MaintenanceWindow[]>([])
+  const [devices, setDevices] = useState<{ id: string; name: string; ip: string; laneName: string }[]>([])
+  const [rooms, setRooms] = useState<{ id: string; name: string }[]>([])
+  const [isModalOpen, setIsModalOpen] = useState(false)
+  const [editingWindow, setEditingWindow] = useState<MaintenanceWindow | undefined>(undefined)
+
+  const canManage = session?.user?.role === 'ADMIN' || session?.user?.role === 'OPERATOR'
+
+  const fetchWindows = useCallback(async () => {
+    try {
+      const response = await fetch('/api/maintenance')
+      if (!response.ok) throw new Error('Failed to fetch maintenance windows')
+      const data = await response.json()
+      setWindows(data.windows || [])
+    } catch (error) {
+      console.error('Error fetching maintenance windows:', error)
+      toast.error('Failed to Load', 'Could not load maintenance windows. Please try again.')
+    }
+  }, [toast.error])
+
+  // Devices, rooms and lanes are only needed as window targets
+  const fetchTargets = useCallback(async () => {
+    try {
+      const [devicesRes, roomsRes] = await Promise.all([fetch('/api/devices'), fetch('/api/rooms')])
+      if (devicesRes.ok) {
+        const data = await devicesRes.json()
+        setDevices(data.devices || [])
+      }
+      if (roomsRes.ok) {
+        const data = await roomsRes.json()
+        setRooms(data.rooms || [])
+      }
+    } catch (error) {
+      console.error('Error fetching devices and rooms:', error)
+    }
+  }, [])
+
+  // Redirect if not authenticated or not admin/operator
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/login')
+      return
+    }
+
+    if (status === 'authenticated' && !canManage) {
+      router.push('/dashboard/map')
+      return
+    }
+
+    if (status === 'authenticated' && canManage) {
+      Promise.all([fetchWindows(), fetchTargets()])
+        .finally(() => setLoading(false))
+    }
+  }, [status, canManage, router, fetchWindows, fetchTargets])
+
+  const lanes = Array.from(new Set(devices.map(device => device.laneName).filter(Boolean))).sort()
+
+  const describeTarget = (window: MaintenanceWindow) => {
+    switch (window.scope) {
+      case 'DEVICE': {
+        const device = devices.find(d => d.id === window.deviceId)
+        return device ? `Device: ${device.name}` : 'Device: (deleted)'
+      }
+      case 'ROOM': {
+        const room = rooms.find(r => r.id === window.roomId)
+        return room ? `Room: ${room.name}` : 'Room: (deleted)'
+      }
+      default:
+        return `Lane: ${window.laneName}`
+    }
+  }
+
+  const handleDelete = async (window: MaintenanceWindow) => {
+    if (!confirm(`Delete maintenance window "${window.name}"?`)) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/maintenance/${window.id}`, { method: 'DELETE' })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to delete maintenance window')
+      }
+
+      toast.success('Window Deleted', `Maintenance window "${window.name}" has been deleted.`)
+      fetchWindows()
+    } catch (error) {
+      console.error('Error deleting maintenance window:', error)
+      toast.error('Delete Failed', error instanceof Error ? error.message : 'Failed to delete maintenance window')
+    }
+  }
+
+  // End a one-off window early by moving its end to now
+  const handleEndNow = async (window: MaintenanceWindow) => {
+    try {
+      const response = await fetch(`/api/maintenance/${window.id}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...window, endsAt: new Date().toISOString() })
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to end maintenance window')
+      }
+
+      toast.success('Maintenance Ended', `"${window.name}" has ended.`)
+      fetchWindows()
+    } catch (error) {
+      console.error('Error ending maintenance window:', error)
+      toast.error('Update Failed', error instanceof Error ? error.message : 'Failed to end maintenance window')
+    }
+  }
+
+  if (status === 'loading' || loading) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!session || !canManage) {
+    return null
+  }
+
+  return (
+    <>
+      <ToastContainer toasts={toast.toasts} onRemove={toast.removeToast} />
+
+      <MaintenanceWindowFormModal
+        isOpen={isModalOpen}
+        onClose={() => setIsModalOpen(false)}
+        window={editingWindow}
+        devices={devices}
+        rooms={rooms}
+        lanes={lanes}
+        onSuccess={(message, description) => {
+          toast.success(message, description)
+          fetchWindows()
+        }}
+        onError={(message, description) => toast.error(message, description)}
+      />
+
+      <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 py-8">
+        <div className="container mx-auto px-4 max-w-5xl">
+          {/* Header */}
+          <div className="text-center mb-8">
+            <div className="flex items-center justify-center gap-3 mb-2">
+              <Wrench className="w-8 h-8 text-blue-600" />
+              <h1 className="text-3xl md:text-4xl font-bold text-gray-900">Maintenance</h1>
+            </div>
+            <p className="text-gray-600">Mute alerts and keep planned outages out of uptime numbers</p>
+          </div>
+
+          <div className="bg-white rounded-lg shadow-lg overflow-hidden">
+            <div className="p-6">
+              <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center gap-2">
+                  <Wrench className="w-5 h-5 text-blue-600" />
+                  <h2 className="text-xl font-bold text-gray-900">Maintenance Windows</h2>
+                </div>
+                <button
+                  type="button"
+                  onClick={() => {
+                    setEditingWindow(undefined)
+                    setIsModalOpen(true)
+                  }}
+                  className="px-4 py-2 bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 text-white rounded-lg font-medium transition-all duration-200 shadow-md hover:shadow-lg flex items-center gap-2"
+                >
+                  <Plus className="w-4 h-4" />
+                  Schedule
+                </button>
+              </div>
+
+              {windows.length === 0 ? (
+                <div className="text-center py-8 border-2 border-dashed border-gray-200 rounded-lg">
+                  <Wrench className="w-10 h-10 text-gray-300 mx-auto mb-2" />
+                  <p className="text-gray-600 font-medium">No maintenance windows</p>
+                  <p className="text-sm text-gray-500">Schedule one before rebooting a switch or router</p>
+                </div>
+              ) : (
+                <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                  {windows.map((window) => (
+                    <div key={window.id} className="flex items-center justify-between p-4 hover:bg-gray-50">
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <p className="font-semibold text-gray-900 truncate">{window.name}</p>
+                          {window.occurrence?.active ? (
+                            <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-indigo-100 text-indigo-800">
+                              Active
+                            </span>
+                          ) : window.occurrence ? (
+                            <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-blue-100 text-blue-800">
+                              Scheduled
+                            </span>
+                          ) : (
+                            <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-gray-200 text-gray-700">
+                              Ended
+                            </span>
+                          )}
+                          {window.recurrence !== 'NONE' && (
+                            <span className="flex items-center gap-1 text-xs text-gray-500">
+                              <Repeat className="w-3 h-3" />
+                              {RECURRENCE_LABELS[window.recurrence]}
+                            </span>
+                          )}
+                        </div>
+                        <p className="text-sm text-gray-600">
+                          {describeTarget(window)}
+                          <span className="mx-2">•</span>
+                          {window.occurrence
+                            ? `${formatDateTime(window.occurrence.start)} – ${formatDateTime(window.occurrence.end)}`
+                            : `${formatDateTime(window.startsAt)} – ${formatDateTime(window.endsAt)}`}
+                          {window.createdBy && (
+                            <>
+                              <span className="mx-2">•</span>
+                              by {window.createdBy}
+                            </>
+                          )}
+                        </p>
+                        {window.reason && (
+                          <p className="text-xs text-gray-500 mt-0.5">{window.reason}</p>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-2 flex-shrink-0">
+                        {window.occurrence?.active && window.recurrence === 'NONE' && (
+                          <button
+                            type="button"
+                            onClick={() => handleEndNow(window)}
+                            className="p-2 text-indigo-600 hover:bg-indigo-50 rounded-lg transition-colors"
+                            title="End now"
+                            aria-label={`End ${window.name} now`}
+                          >
+                            <Square className="w-4 h-4" />
+                          </button>
+                        )}
+                        <button
+                          type="button"
+                          onClick={() => {
+                            setEditingWindow(window)
+                            setIsModalOpen(true)
+                          }}
+                          className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                          title="Edit window"
+                          aria-label={`Edit ${window.name}`}
+                        >
+                          <Edit className="w-4 h-4" />
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => handleDelete(window)}
+                          className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                          title="Delete window"
+                          aria-label={`Delete ${window.name}`}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  )
+}
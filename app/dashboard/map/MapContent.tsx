@@ -24,10 +24,16 @@ import LayoutNode from '@/components/LayoutNode'
 import ConnectionEdge from '@/components/ConnectionEdge'
 import ConnectionFormModal from '@/components/ConnectionFormModal'
 import ConnectionEditModal from '@/components/ConnectionEditModal'
+import { buildParentMap, findRootCauses } from '@/lib/topology'
 import DeviceFormModal from '@/components/DeviceFormModal'
-import { Plus, Square, Box, Minus, Type, X, Clock, RefreshCw, Info, Router, Tablet, ScanBarcode, Tv, Copy, Eye, Maximize2, Minimize2, Monitor, Laptop, Printer, Video, Server, Smartphone, Network, Wifi, HelpCircle, Link2, Trash2, Edit, Lock, Unlock, Download, Upload } from 'lucide-react'
+import { Plus, Square, Box, Minus, Type, X, Clock, RefreshCw, Info, Copy, Eye, Maximize2, Minimize2, Link2, Trash2, Edit, Lock, Unlock, Download, Upload } from 'lucide-react'
+import DeviceTypeIcon from '@/components/DeviceTypeIcon'
 import StatusHistoryTimeline from '@/components/StatusHistoryTimeline'
+import DeviceMetricsSparklines from '@/components/DeviceMetricsSparklines'
+import DeviceProbesPanel from '@/components/DeviceProbesPanel'
+import { applyStatusEvents, DeviceStatusEvent, useDeviceStatusStream } from '@/hooks/useDeviceStatusStream'
 import { DeviceType } from '@/lib/constants'
+import { useDeviceTypes } from '@/hooks/useDeviceTypes'
 
 interface Device {
   id: string
@@ -41,7 +47,11 @@ interface Device {
   lastSeen: string | null
   statusSince: string | null
   roomId: string | null
+  routerId?: string | null
   needsSync?: boolean // Flag for manual sync
+  maintenance?: boolean // Covered by an active maintenance window
+  latencyThresholdMs?: number | null
+  lossThresholdPercent?: number | null
   room?: {
     id: string
     name: string
@@ -68,6 +78,7 @@ interface DeviceConnection {
   label?: string | null
   type: 'LAN' | 'WIRELESS' | 'FIBER_OPTIC'
   animated: boolean
+  upstream?: 'NONE' | 'SOURCE' | 'TARGET'
   waypoints?: string | null
 }
 
@@ -149,9 +160,23 @@ function MapContentInner() {
     },
   })
   
+  // Live status push - SWR polling above stays as the fallback
+  const handleStatusEvents = useCallback((events: DeviceStatusEvent[]) => {
+    mutate(
+      (current) => current ? { ...current, devices: applyStatusEvents(current.devices, events) } : current,
+      { revalidate: false }
+    )
+    setLastUpdate(new Date())
+  }, [mutate])
+  
+  const { connected: isLive } = useDeviceStatusStream(handleStatusEvents)
+  
   const { data: layoutData, mutate: mutateLayout } = useSWR<{ elements: LayoutElement[] }>('/api/layout', fetcher)
   
   const { data: connectionsData, mutate: mutateConnections } = useSWR<{ connections: DeviceConnection[] }>('/api/connections', fetcher)
+
+  // Device type registry for node icons and the legend
+  const { deviceTypes, findDeviceType, getLabel: getDeviceTypeLabel } = useDeviceTypes()
   
   // Initialize lastUpdate on mount
   useEffect(() => {
@@ -391,6 +416,7 @@ function MapContentInner() {
     label?: string
     type: 'LAN' | 'WIRELESS' | 'FIBER_OPTIC'
     animated: boolean
+    upstream: 'NONE' | 'SOURCE' | 'TARGET'
   }) => {
     try {
       const response = await fetch('/api/connections', {
@@ -522,6 +548,7 @@ function MapContentInner() {
     label?: string | null
     type: 'LAN' | 'WIRELESS' | 'FIBER_OPTIC'
     animated: boolean
+    upstream?: 'NONE' | 'SOURCE' | 'TARGET'
     waypoints?: Array<{ x: number; y: number }> | null
   }) => {
     try {
@@ -937,6 +964,16 @@ function MapContentInner() {
     // Create device status map for quick lookup
     const deviceStatusMap = new Map<string, string>()
     
+    // Down devices with unreachable dependents are the root cause of the outage
+    const rootCauses = findRootCauses(
+      new Map((data?.devices || []).map(device => [device.id, device.status])),
+      buildParentMap((connectionsData?.connections || []).map(connection => ({
+        sourceId: connection.sourceId,
+        targetId: connection.targetId,
+        upstream: connection.upstream || 'NONE'
+      })))
+    )
+    
     if (data?.devices) {
       data.devices.forEach((device) => {
         deviceStatusMap.set(device.id, device.status)
@@ -950,9 +987,12 @@ function MapContentInner() {
             laneName: device.laneName,
             status: device.status,
             type: device.type,
+            typeDefinition: findDeviceType(device.type),
             ip: device.ip,
             lastSeen: device.lastSeen,
             statusSince: device.statusSince,
+            maintenance: device.maintenance,
+            isRootCause: rootCauses.has(device.id),
             isDrawingMode: isDrawingMode,
             isDrawingSource: isDrawingMode && drawingSourceId === device.id,
             onFinalizeDrawing: () => finalizeConnection(device.id),
@@ -1023,14 +1063,14 @@ function MapContentInner() {
               handleRemoveWaypoint(connection.id, index)
             }
           },
-          animated: connection.animated && sourceStatus === 'up' && targetStatus === 'up',
+          animated: connection.animated && (sourceStatus === 'up' || sourceStatus === 'degraded') && (targetStatus === 'up' || targetStatus === 'degraded'),
         })
       })
     }
     
     setNodes(flowNodes)
     setEdges(flowEdges)
-  }, [data, layoutData, connectionsData, setNodes, setEdges, session, editMode, isDrawingMode, drawingSourceId, isLocked, handleLabelChange, deleteSelectedNode, handleWaypointDrag, handleAddWaypoint, handleRemoveWaypoint, startDrawingConnection, finalizeConnection])
+  }, [data, layoutData, connectionsData, findDeviceType, setNodes, setEdges, session, editMode, isDrawingMode, drawingSourceId, isLocked, handleLabelChange, deleteSelectedNode, handleWaypointDrag, handleAddWaypoint, handleRemoveWaypoint, startDrawingConnection, finalizeConnection])
   
   if (error) {
     return (
@@ -1288,6 +1328,18 @@ function MapContentInner() {
                 <div className="w-2 h-2 rounded-full" style={{ backgroundColor: '#ff2222' }}></div>
                 <span className="font-medium text-slate-900">{data?.devices?.filter(d => d.status === 'down').length || 0}</span>
               </div>
+              <div className="flex items-center gap-1.5" title="Degraded (high latency or loss)">
+                <div className="w-2 h-2 rounded-full" style={{ backgroundColor: '#f97316' }}></div>
+                <span className="font-medium text-slate-900">{data?.devices?.filter(d => d.status === 'degraded').length || 0}</span>
+              </div>
+              <div className="flex items-center gap-1.5" title="Unreachable (parent down)">
+                <div className="w-2 h-2 rounded-full" style={{ backgroundColor: '#94a3b8' }}></div>
+                <span className="font-medium text-slate-900">{data?.devices?.filter(d => d.status === 'unreachable').length || 0}</span>
+              </div>
+              <div className="flex items-center gap-1.5" title="Flapping">
+                <div className="w-2 h-2 rounded-full" style={{ backgroundColor: '#f59e0b' }}></div>
+                <span className="font-medium text-slate-900">{data?.devices?.filter(d => d.status === 'flapping').length || 0}</span>
+              </div>
               <span className="text-slate-300">|</span>
               <span className="text-slate-600 font-medium">{data?.devices?.length || 0}</span>
             </div>
@@ -1301,6 +1353,12 @@ function MapContentInner() {
                   <Clock className="w-3.5 h-3.5" strokeWidth={1.5} />
                 )}
                 <span suppressHydrationWarning>{timeSinceUpdate}s ago</span>
+                {isLive && (
+                  <span className="flex items-center gap-1 text-emerald-600 font-medium" title="Receiving live status updates">
+                    <span className="w-1.5 h-1.5 rounded-full bg-emerald-500 animate-pulse"></span>
+                    Live
+                  </span>
+                )}
               </div>
               <button
                 onClick={handleManualRefresh}
@@ -1416,58 +1474,14 @@ function MapContentInner() {
                 <div>
                   <div className="font-medium text-gray-600 mb-1">Device Types</div>
                   <div className="grid grid-cols-2 gap-1">
-                    <div className="flex items-center gap-1">
-                      <Router className="w-2.5 h-2.5 text-gray-600" />
-                      <span>Router</span>
-                    </div>
-                    <div className="flex items-center gap-1">
-                      <Network className="w-2.5 h-2.5 text-gray-600" />
-                      <span>Switch</span>
-                    </div>
-                    <div className="flex items-center gap-1">
-                      <Wifi className="w-2.5 h-2.5 text-gray-600" />
-                      <span>Access Point</span>
-                    </div>
-                    <div className="flex items-center gap-1">
-                      <Monitor className="w-2.5 h-2.5 text-gray-600" />
-                      <span>PC</span>
-                    </div>
-                    <div className="flex items-center gap-1">
-                      <Laptop className="w-2.5 h-2.5 text-gray-600" />
-                      <span>Laptop</span>
-                    </div>
-                    <div className="flex items-center gap-1">
-                      <Tablet className="w-2.5 h-2.5 text-gray-600" />
-                      <span>Tablet</span>
-                    </div>
-                    <div className="flex items-center gap-1">
-                      <Printer className="w-2.5 h-2.5 text-gray-600" />
-                      <span>Printer</span>
-                    </div>
-                    <div className="flex items-center gap-1">
-                      <ScanBarcode className="w-2.5 h-2.5 text-gray-600" />
-                      <span>Scanner</span>
-                    </div>
-                    <div className="flex items-center gap-1">
-                      <Tv className="w-2.5 h-2.5 text-gray-600" />
-                      <span>Smart TV</span>
-                    </div>
-                    <div className="flex items-center gap-1">
-                      <Video className="w-2.5 h-2.5 text-gray-600" />
-                      <span>CCTV</span>
-                    </div>
-                    <div className="flex items-center gap-1">
-                      <Server className="w-2.5 h-2.5 text-gray-600" />
-                      <span>Server</span>
-                    </div>
-                    <div className="flex items-center gap-1">
-                      <Smartphone className="w-2.5 h-2.5 text-gray-600" />
-                      <span>Phone</span>
-                    </div>
-                    <div className="flex items-center gap-1">
-                      <HelpCircle className="w-2.5 h-2.5 text-gray-600" />
-                      <span>Other</span>
-                    </div>
+                    {deviceTypes.map(definition => (
+                      <div key={definition.key} className="flex items-center gap-1">
+                        <span className="text-gray-600">
+                          <DeviceTypeIcon type={definition.key} definition={definition} className="w-2.5 h-2.5" />
+                        </span>
+                        <span className="truncate">{definition.label}</span>
+                      </div>
+                    ))}
                   </div>
                 </div>
                 
@@ -1478,6 +1492,10 @@ function MapContentInner() {
                       <div className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: '#00e055' }}></div>
                       <span>UP</span>
                     </div>
+                    <div className="flex items-center gap-1">
+                      <div className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: '#f97316' }}></div>
+                      <span>DEGRADED (latency/loss)</span>
+                    </div>
                     <div className="flex items-center gap-1">
                       <div className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: '#ff2222' }}></div>
                       <span>DOWN</span>
@@ -1727,7 +1745,7 @@ function MapContentInner() {
             
             <div className="flex items-center justify-between text-xs">
               <span className="text-gray-500">Type</span>
-              <span className="text-gray-900">{selectedDevice.type}</span>
+              <span className="text-gray-900">{getDeviceTypeLabel(selectedDevice.type)}</span>
             </div>
             
             <div className="flex items-center justify-between text-xs">
@@ -1739,10 +1757,13 @@ function MapContentInner() {
               <span className="text-gray-500">Status</span>
               <span className={`font-medium ${
                 selectedDevice.status === 'up' ? 'text-green-600' :
+                selectedDevice.status === 'degraded' ? 'text-orange-600' :
                 selectedDevice.status === 'down' ? 'text-red-600' :
+                selectedDevice.status === 'flapping' ? 'text-amber-600' :
+                selectedDevice.status === 'unreachable' ? 'text-slate-500' :
                 'text-gray-600'
               }`}>
-                {selectedDevice.status.toUpperCase()}
+                {selectedDevice.status === 'unreachable' ? 'UNREACHABLE (PARENT DOWN)' : selectedDevice.status.toUpperCase()}
               </span>
             </div>
             
@@ -1774,6 +1795,16 @@ function MapContentInner() {
               </span>
             </div>
             
+            <DeviceProbesPanel
+              deviceId={selectedDevice.id}
+              canEdit={session?.user?.role !== 'VIEWER'}
+            />
+            
+            <DeviceMetricsSparklines
+              deviceId={selectedDevice.id}
+              hours={24}
+            />
+            
             <StatusHistoryTimeline 
               deviceId={selectedDevice.id}
               deviceName={selectedDevice.name}
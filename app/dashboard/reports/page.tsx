@@ -0,0 +1,383 @@
+'use client'
+
+import React, { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { BarChart3, RefreshCw, Activity, AlertTriangle, Timer, TrendingUp, CalendarClock } from 'lucide-react'
+import { useToast } from '@/hooks/useToast'
+import { ToastContainer } from '@/components/Toast'
+
+type GroupBy = 'device' | 'room' | 'type'
+type RangePreset = '24h' | '7d' | '30d' | 'thisMonth' | 'lastMonth' | 'custom'
+
+interface UptimeSummary {
+  upSeconds: number
+  downSeconds: number
+  maintenanceSeconds: number
+  unknownSeconds: number
+  outages: number
+  uptimePercent: number | null
+  mttrSeconds: number | null
+  mtbfSeconds: number | null
+}
+
+interface ReportRow extends UptimeSummary {
+  key: string
+  label: string
+  deviceCount: number
+}
+
+interface UptimeReport {
+  range: { from: string; to: string }
+  summary: UptimeSummary & { deviceCount: number }
+  rows: ReportRow[]
+}
+
+const PRESETS: { value: RangePreset; label: string }[] = [
+  { value: '24h', label: '24 hours' },
+  { value: '7d', label: '7 days' },
+  { value: '30d', label: '30 days' },
+  { value: 'thisMonth', label: 'This month' },
+  { value: 'lastMonth', label: 'Last month' },
+  { value: 'custom', label: 'Custom' }
+]
+
+const GROUP_LABELS: Record<GroupBy, string> = {
+  device: 'Device',
+  room: 'Room',
+  type: 'Type'
+}
+
+const toDateInput = (date: Date) => {
+  const pad = (value: number) => value.toString().padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+/**
+ * Resolve a preset to a from/to range in local time
+ */
+function getPresetRange(preset: RangePreset, customFrom: string, customTo: string): { from: Date; to: Date } {
+  const now = new Date()
+  const monthStart = new Date(now.getFullYear(), now.getMonth(), 1)
+
+  switch (preset) {
+    case '24h':
+      return { from: new Date(now.getTime() - 24 * 3600000), to: now }
+    case '7d':
+      return { from: new Date(now.getTime() - 7 * 86400000), to: now }
+    case 'thisMonth':
+      return { from: monthStart, to: now }
+    case 'lastMonth':
+      return { from: new Date(now.getFullYear(), now.getMonth() - 1, 1), to: monthStart }
+    case 'custom': {
+      // The "to" day is inclusive
+      const to = new Date(`${customTo}T00:00:00`)
+      to.setDate(to.getDate() + 1)
+      return { from: new Date(`${customFrom}T00:00:00`), to }
+    }
+    default:
+      return { from: new Date(now.getTime() - 30 * 86400000), to: now }
+  }
+}
+
+const formatDuration = (seconds: number | null) => {
+  if (seconds === null) return '—'
+  if (seconds < 60) return seconds > 0 ? '<1m' : '0m'
+
+  const minutes = Math.floor(seconds / 60)
+  const hours = Math.floor(minutes / 60)
+  const days = Math.floor(hours / 24)
+
+  if (days > 0) return `${days}d ${hours % 24}h`
+  if (hours > 0) return `${hours}h ${minutes % 60}m`
+  return `${minutes}m`
+}
+
+const formatPercent = (value: number | null) => (value === null ? '—' : `${value.toFixed(2)}%`)
+
+const uptimeColor = (value: number | null) => {
+  if (value === null) return 'text-gray-500'
+  if (value >= 99) return 'text-green-600'
+  if (value >= 95) return 'text-yellow-600'
+  return 'text-red-600'
+}
+
+const uptimeBarColor = (value: number | null) => {
+  if (value === null) return 'bg-gray-300'
+  if (value >= 99) return 'bg-green-500'
+  if (value >= 95) return 'bg-yellow-500'
+  return 'bg-red-500'
+}
+
+export default function ReportsPage() {
+  const router = useRouter()
+  const { data: session, status } = useSession()
+  const toast = useToast()
+  const [loading, setLoading] = useState(false)
+  const [report, setReport] = useState<UptimeReport | null>(null)
+  const [groupBy, setGroupBy] = useState<GroupBy>('device')
+  const [preset, setPreset] = useState<RangePreset>('30d')
+  const [customFrom, setCustomFrom] = useState(() => toDateInput(new Date(Date.now() - 7 * 86400000)))
+  const [customTo, setCustomTo] = useState(() => toDateInput(new Date()))
+
+  const fetchReport = useCallback(async () => {
+    const { from, to } = getPresetRange(preset, customFrom, customTo)
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || from >= to) {
+      toast.error('Invalid Range', 'The start date must be before the end date.')
+      return
+    }
+
+    setLoading(true)
+    try {
+      const params = new URLSearchParams({
+        from: from.toISOString(),
+        to: to.toISOString(),
+        groupBy
+      })
+      const response = await fetch(`/api/reports/uptime?${params}`)
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load report')
+      }
+
+      setReport(data)
+    } catch (error) {
+      console.error('Error fetching uptime report:', error)
+      toast.error('Failed to Load', error instanceof Error ? error.message : 'Could not load the uptime report.')
+    } finally {
+      setLoading(false)
+    }
+  }, [preset, customFrom, customTo, groupBy, toast.error])
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/login')
+      return
+    }
+
+    if (status === 'authenticated') {
+      fetchReport()
+    }
+  }, [status, router, fetchReport])
+
+  if (status === 'loading') {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!session) {
+    return null
+  }
+
+  const summary = report?.summary
+
+  return (
+    <>
+      <ToastContainer toasts={toast.toasts} onRemove={toast.removeToast} />
+
+      <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 py-8">
+        <div className="container mx-auto px-4 max-w-6xl">
+          {/* Header */}
+          <div className="text-center mb-8">
+            <div className="flex items-center justify-center gap-3 mb-2">
+              <BarChart3 className="w-8 h-8 text-blue-600" />
+              <h1 className="text-3xl md:text-4xl font-bold text-gray-900">Uptime Reports</h1>
+            </div>
+            <p className="text-gray-600">Availability, outages and repair times for any period</p>
+            <Link
+              href="/dashboard/reports/scheduled"
+              className="inline-flex items-center gap-1 mt-2 text-sm text-blue-600 hover:text-blue-800"
+            >
+              <CalendarClock className="w-4 h-4" />
+              Scheduled reports
+            </Link>
+          </div>
+
+          {/* Filters */}
+          <div className="bg-white rounded-lg shadow-lg p-4 mb-6 flex flex-wrap items-end gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Period</label>
+              <div className="flex flex-wrap gap-1">
+                {PRESETS.map((option) => (
+                  <button
+                    key={option.value}
+                    type="button"
+                    onClick={() => setPreset(option.value)}
+                    className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                      preset === option.value
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    {option.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {preset === 'custom' && (
+              <div className="flex items-end gap-2">
+                <div>
+                  <label htmlFor="report-from" className="block text-sm font-medium text-gray-700 mb-1">From</label>
+                  <input
+                    id="report-from"
+                    type="date"
+                    value={customFrom}
+                    onChange={(e) => setCustomFrom(e.target.value)}
+                    className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="report-to" className="block text-sm font-medium text-gray-700 mb-1">To</label>
+                  <input
+                    id="report-to"
+                    type="date"
+                    value={customTo}
+                    onChange={(e) => setCustomTo(e.target.value)}
+                    className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              </div>
+            )}
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Group by</label>
+              <div className="flex gap-1">
+                {(Object.keys(GROUP_LABELS) as GroupBy[]).map((value) => (
+                  <button
+                    key={value}
+                    type="button"
+                    onClick={() => setGroupBy(value)}
+                    className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                      groupBy === value
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+                    }`}
+                  >
+                    {GROUP_LABELS[value]}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <button
+              type="button"
+              onClick={fetchReport}
+              disabled={loading}
+              className="ml-auto p-2 text-gray-600 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+              title="Refresh report"
+              aria-label="Refresh report"
+            >
+              <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            </button>
+          </div>
+
+          {/* Summary */}
+          {summary && (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+              <div className="bg-white rounded-lg shadow p-4">
+                <div className="flex items-center gap-2 text-sm text-gray-600">
+                  <TrendingUp className="w-4 h-4" /> Uptime
+                </div>
+                <div className={`text-2xl font-bold ${uptimeColor(summary.uptimePercent)}`}>
+                  {formatPercent(summary.uptimePercent)}
+                </div>
+                <div className="text-xs text-gray-500">{summary.deviceCount} devices</div>
+              </div>
+              <div className="bg-white rounded-lg shadow p-4">
+                <div className="flex items-center gap-2 text-sm text-gray-600">
+                  <AlertTriangle className="w-4 h-4" /> Outages
+                </div>
+                <div className="text-2xl font-bold text-gray-900">{summary.outages}</div>
+                <div className="text-xs text-gray-500">{formatDuration(summary.downSeconds)} down in total</div>
+              </div>
+              <div className="bg-white rounded-lg shadow p-4">
+                <div className="flex items-center gap-2 text-sm text-gray-600">
+                  <Timer className="w-4 h-4" /> MTTR
+                </div>
+                <div className="text-2xl font-bold text-gray-900">{formatDuration(summary.mttrSeconds)}</div>
+                <div className="text-xs text-gray-500">Mean time to recover</div>
+              </div>
+              <div className="bg-white rounded-lg shadow p-4">
+                <div className="flex items-center gap-2 text-sm text-gray-600">
+                  <Activity className="w-4 h-4" /> MTBF
+                </div>
+                <div className="text-2xl font-bold text-gray-900">{formatDuration(summary.mtbfSeconds)}</div>
+                <div className="text-xs text-gray-500">Mean time between failures</div>
+              </div>
+            </div>
+          )}
+
+          {/* Report Table */}
+          <div className="bg-white rounded-lg shadow-lg overflow-hidden">
+            <div className="p-6">
+              {!report ? (
+                <p className="text-center py-8 text-gray-500">{loading ? 'Loading report...' : 'No report loaded'}</p>
+              ) : report.rows.length === 0 ? (
+                <p className="text-center py-8 text-gray-500">No devices to report on</p>
+              ) : (
+                <div className="overflow-x-auto border border-gray-200 rounded-lg">
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-2 text-left font-medium text-gray-700">{GROUP_LABELS[groupBy]}</th>
+                        {groupBy !== 'device' && (
+                          <th className="px-4 py-2 text-right font-medium text-gray-700">Devices</th>
+                        )}
+                        <th className="px-4 py-2 text-left font-medium text-gray-700">Uptime</th>
+                        <th className="px-4 py-2 text-right font-medium text-gray-700">Downtime</th>
+                        <th className="px-4 py-2 text-right font-medium text-gray-700">Outages</th>
+                        <th className="px-4 py-2 text-right font-medium text-gray-700">MTTR</th>
+                        <th className="px-4 py-2 text-right font-medium text-gray-700">MTBF</th>
+                        <th className="px-4 py-2 text-right font-medium text-gray-700">Maintenance</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {report.rows.map((row) => (
+                        <tr key={row.key} className="hover:bg-gray-50">
+                          <td className="px-4 py-2 text-gray-900">{row.label}</td>
+                          {groupBy !== 'device' && (
+                            <td className="px-4 py-2 text-right text-gray-600">{row.deviceCount}</td>
+                          )}
+                          <td className="px-4 py-2">
+                            <div className="flex items-center gap-2">
+                              <div className="w-24 h-2 bg-gray-100 rounded-full overflow-hidden">
+                                <div
+                                  className={`h-full ${uptimeBarColor(row.uptimePercent)}`}
+                                  style={{ width: `${row.uptimePercent ?? 0}%` }}
+                                />
+                              </div>
+                              <span className={`font-medium ${uptimeColor(row.uptimePercent)}`}>
+                                {formatPercent(row.uptimePercent)}
+                              </span>
+                            </div>
+                          </td>
+                          <td className="px-4 py-2 text-right text-gray-600">{formatDuration(row.downSeconds)}</td>
+                          <td className="px-4 py-2 text-right text-gray-900">{row.outages}</td>
+                          <td className="px-4 py-2 text-right text-gray-600">{formatDuration(row.mttrSeconds)}</td>
+                          <td className="px-4 py-2 text-right text-gray-600">{formatDuration(row.mtbfSeconds)}</td>
+                          <td className="px-4 py-2 text-right text-gray-500">{formatDuration(row.maintenanceSeconds)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+              <p className="mt-3 text-xs text-gray-500">
+                Down, unreachable and flapping count as downtime. Maintenance and time before a device was first seen are left out.
+              </p>
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  )
+}
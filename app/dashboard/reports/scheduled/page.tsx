@@ -0,0 +1,391 @@
+'use client'
+
+import React, { useState, useEffect, useCallback } from 'react'
+import Link from 'next/link'
+import { useSession } from 'next-auth/react'
+import { useRouter } from 'next/navigation'
+import { CalendarClock, Plus, Edit, Trash2, Play, Download, Mail, FileText, ArrowLeft } from 'lucide-react'
+import { useToast } from '@/hooks/useToast'
+import { ToastContainer } from '@/components/Toast'
+import ReportDefinitionFormModal, {
+  ReportDefinitionFormValue,
+  REPORT_PERIOD_LABELS
+} from '@/components/ReportDefinitionFormModal'
+
+interface ReportDefinition extends ReportDefinitionFormValue {
+  createdBy: string | null
+  _count: { reports: number }
+}
+
+interface GeneratedReport {
+  id: string
+  definitionId: string
+  periodStart: string
+  periodEnd: string
+  format: string
+  fileName: string
+  size: number
+  emailedTo: string | null
+  emailError: string | null
+  createdAt: string
+  definition: { name: string }
+}
+
+const GROUP_BY_LABELS: Record<string, string> = {
+  device: 'per device',
+  room: 'per room',
+  type: 'per device type'
+}
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('id-ID', {
+    day: '2-digit',
+    month: 'short',
+    year: 'numeric'
+  })
+
+// Periods end at midnight, so show the last day they include
+const formatPeriod = (start: string, end: string) => {
+  const lastDay = new Date(new Date(end).getTime() - 1).toISOString()
+  const first = formatDate(start)
+  const last = formatDate(lastDay)
+  return first === last ? first : `${first} – ${last}`
+}
+
+const formatSize = (bytes: number) =>
+  bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`
+
+export default function ScheduledReportsPage() {
+  const router = useRouter()
+  const { data: session, status } = useSession()
+  const toast = useToast()
+  const [loading, setLoading] = useState(true)
+  const [definitions, setDefinitions] = useState<ReportDefinition[]>([])
+  const [reports, setReports] = useState<GeneratedReport[]>([])
+  const [rooms, setRooms] = useState<{ id: string; name: string }[]>([])
+  const [runningId, setRunningId] = useState<string | null>(null)
+  const [isModalOpen, setIsModalOpen] = useState(false)
+  const [editingDefinition, setEditingDefinition] = useState<ReportDefinition | undefined>(undefined)
+
+  const canManage = session?.user?.role === 'ADMIN' || session?.user?.role === 'OPERATOR'
+
+  const fetchDefinitions = useCallback(async () => {
+    try {
+      const response = await fetch('/api/reports/definitions')
+      if (!response.ok) throw new Error('Failed to fetch report definitions')
+      const data = await response.json()
+      setDefinitions(data.definitions || [])
+    } catch (error) {
+      console.error('Error fetching report definitions:', error)
+      toast.error('Failed to Load', 'Could not load scheduled reports. Please try again.')
+    }
+  }, [toast.error])
+
+  const fetchReports = useCallback(async () => {
+    try {
+      const response = await fetch('/api/reports/files')
+      if (!response.ok) throw new Error('Failed to fetch generated reports')
+      const data = await response.json()
+      setReports(data.reports || [])
+    } catch (error) {
+      console.error('Error fetching generated reports:', error)
+    }
+  }, [])
+
+  // Rooms are only needed as a report filter
+  const fetchRooms = useCallback(async () => {
+    try {
+      const response = await fetch('/api/rooms')
+      if (response.ok) {
+        const data = await response.json()
+        setRooms(data.rooms || [])
+      }
+    } catch (error) {
+      console.error('Error fetching rooms:', error)
+    }
+  }, [])
+
+  useEffect(() => {
+    if (status === 'unauthenticated') {
+      router.push('/login')
+      return
+    }
+
+    if (status === 'authenticated') {
+      Promise.all([fetchDefinitions(), fetchReports(), fetchRooms()])
+        .finally(() => setLoading(false))
+    }
+  }, [status, router, fetchDefinitions, fetchReports, fetchRooms])
+
+  const describeFilter = (definition: ReportDefinition) => {
+    const filters: string[] = []
+    if (definition.roomId) {
+      const room = rooms.find(r => r.id === definition.roomId)
+      filters.push(room ? `Room: ${room.name}` : 'Room: (deleted)')
+    }
+    if (definition.deviceType) {
+      filters.push(`Type: ${definition.deviceType}`)
+    }
+    return filters.length > 0 ? filters.join(', ') : 'All devices'
+  }
+
+  const handleRunNow = async (definition: ReportDefinition) => {
+    setRunningId(definition.id)
+    try {
+      const response = await fetch(`/api/reports/definitions/${definition.id}/run`, { method: 'POST' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to generate report')
+      }
+
+      if (data.report?.emailError) {
+        toast.warning('Report Generated', `Stored for download, but email failed: ${data.report.emailError}`)
+      } else {
+        toast.success('Report Generated', `"${definition.name}" has been generated.`)
+      }
+      fetchDefinitions()
+      fetchReports()
+    } catch (error) {
+      console.error('Error generating report:', error)
+      toast.error('Generation Failed', error instanceof Error ? error.message : 'Failed to generate report')
+    } finally {
+      setRunningId(null)
+    }
+  }
+
+  const handleDelete = async (definition: ReportDefinition) => {
+    if (!confirm(`Delete scheduled report "${definition.name}" and all of its generated files?`)) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/reports/definitions/${definition.id}`, { method: 'DELETE' })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to delete scheduled report')
+      }
+
+      toast.success('Report Deleted', `Scheduled report "${definition.name}" has been deleted.`)
+      fetchDefinitions()
+      fetchReports()
+    } catch (error) {
+      console.error('Error deleting report definition:', error)
+      toast.error('Delete Failed', error instanceof Error ? error.message : 'Failed to delete scheduled report')
+    }
+  }
+
+  if (status === 'loading' || loading) {
+    return (
+      <div className="flex items-center justify-center h-screen">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
+          <p className="text-gray-600">Loading...</p>
+        </div>
+      </div>
+    )
+  }
+
+  if (!session) {
+    return null
+  }
+
+  return (
+    <>
+      <ToastContainer toasts={toast.toasts} onRemove={toast.removeToast} />
+
+      {canManage && (
+        <ReportDefinitionFormModal
+          isOpen={isModalOpen}
+          onClose={() => setIsModalOpen(false)}
+          definition={editingDefinition}
+          rooms={rooms}
+          onSuccess={(message, description) => {
+            toast.success(message, description)
+            fetchDefinitions()
+          }}
+          onError={(message, description) => toast.error(message, description)}
+        />
+      )}
+
+      <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 py-8">
+        <div className="container mx-auto px-4 max-w-5xl">
+          {/* Header */}
+          <div className="text-center mb-8">
+            <div className="flex items-center justify-center gap-3 mb-2">
+              <CalendarClock className="w-8 h-8 text-blue-600" />
+              <h1 className="text-3xl md:text-4xl font-bold text-gray-900">Scheduled Reports</h1>
+            </div>
+            <p className="text-gray-600">Availability reports generated every period and sent by email</p>
+            <Link
+              href="/dashboard/reports"
+              className="inline-flex items-center gap-1 mt-2 text-sm text-blue-600 hover:text-blue-800"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Back to uptime reports
+            </Link>
+          </div>
+
+          {/* Definitions */}
+          <div className="bg-white rounded-lg shadow-lg overflow-hidden mb-6">
+            <div className="p-6">
+              <div className="flex items-center justify-between mb-4">
+                <div className="flex items-center gap-2">
+                  <CalendarClock className="w-5 h-5 text-blue-600" />
+                  <h2 className="text-xl font-bold text-gray-900">Report Definitions</h2>
+                </div>
+                {canManage && (
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setEditingDefinition(undefined)
+                      setIsModalOpen(true)
+                    }}
+                    className="px-4 py-2 bg-gradient-to-r from-blue-600 to-blue-700 hover:from-blue-700 hover:to-blue-800 text-white rounded-lg font-medium transition-all duration-200 shadow-md hover:shadow-lg flex items-center gap-2"
+                  >
+                    <Plus className="w-4 h-4" />
+                    New Report
+                  </button>
+                )}
+              </div>
+
+              {definitions.length === 0 ? (
+                <div className="text-center py-8 border-2 border-dashed border-gray-200 rounded-lg">
+                  <CalendarClock className="w-10 h-10 text-gray-300 mx-auto mb-2" />
+                  <p className="text-gray-600 font-medium">No scheduled reports</p>
+                  <p className="text-sm text-gray-500">Create one to receive availability figures every month</p>
+                </div>
+              ) : (
+                <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+                  {definitions.map((definition) => (
+                    <div key={definition.id} className="flex items-center justify-between p-4 hover:bg-gray-50">
+                      <div className="min-w-0">
+                        <div className="flex items-center gap-2">
+                          <p className="font-semibold text-gray-900 truncate">{definition.name}</p>
+                          <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-blue-100 text-blue-800">
+                            {definition.format}
+                          </span>
+                          {!definition.enabled && (
+                            <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-gray-200 text-gray-700">
+                              Paused
+                            </span>
+                          )}
+                        </div>
+                        <p className="text-sm text-gray-600">
+                          {REPORT_PERIOD_LABELS[definition.period as keyof typeof REPORT_PERIOD_LABELS]}
+                          <span className="mx-2">•</span>
+                          {GROUP_BY_LABELS[definition.groupBy]}
+                          <span className="mx-2">•</span>
+                          {describeFilter(definition)}
+                          <span className="mx-2">•</span>
+                          {definition._count.reports} generated
+                        </p>
+                        {definition.recipients && (
+                          <p className="flex items-center gap-1 text-xs text-gray-500 mt-0.5">
+                            <Mail className="w-3 h-3" />
+                            {definition.recipients}
+                          </p>
+                        )}
+                      </div>
+                      {canManage && (
+                        <div className="flex items-center gap-2 flex-shrink-0">
+                          <button
+                            type="button"
+                            onClick={() => handleRunNow(definition)}
+                            disabled={runningId === definition.id}
+                            className="p-2 text-green-600 hover:bg-green-50 rounded-lg transition-colors disabled:opacity-50"
+                            title="Generate for the last period now"
+                            aria-label={`Run ${definition.name} now`}
+                          >
+                            <Play className="w-4 h-4" />
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => {
+                              setEditingDefinition(definition)
+                              setIsModalOpen(true)
+                            }}
+                            className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors"
+                            title="Edit report"
+                            aria-label={`Edit ${definition.name}`}
+                          >
+                            <Edit className="w-4 h-4" />
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => handleDelete(definition)}
+                            className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                            title="Delete report"
+                            aria-label={`Delete ${definition.name}`}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Generated Reports */}
+          <div className="bg-white rounded-lg shadow-lg overflow-hidden">
+            <div className="p-6">
+              <div className="flex items-center gap-2 mb-4">
+                <FileText className="w-5 h-5 text-blue-600" />
+                <h2 className="text-xl font-bold text-gray-900">Generated Reports</h2>
+              </div>
+
+              {reports.length === 0 ? (
+                <p className="text-center py-8 text-gray-500">No reports generated yet</p>
+              ) : (
+                <div className="overflow-x-auto border border-gray-200 rounded-lg">
+                  <table className="min-w-full divide-y divide-gray-200 text-sm">
+                    <thead className="bg-gray-50">
+                      <tr>
+                        <th className="px-4 py-2 text-left font-medium text-gray-700">Report</th>
+                        <th className="px-4 py-2 text-left font-medium text-gray-700">Period</th>
+                        <th className="px-4 py-2 text-left font-medium text-gray-700">Email</th>
+                        <th className="px-4 py-2 text-right font-medium text-gray-700">Size</th>
+                        <th className="px-4 py-2 text-right font-medium text-gray-700">File</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-gray-200">
+                      {reports.map((report) => (
+                        <tr key={report.id} className="hover:bg-gray-50">
+                          <td className="px-4 py-2 text-gray-900">{report.definition.name}</td>
+                          <td className="px-4 py-2 text-gray-600">{formatPeriod(report.periodStart, report.periodEnd)}</td>
+                          <td className="px-4 py-2">
+                            {report.emailError ? (
+                              <span className="text-red-600" title={report.emailError}>Failed: {report.emailError}</span>
+                            ) : report.emailedTo ? (
+                              <span className="text-green-600" title={report.emailedTo}>Sent</span>
+                            ) : (
+                              <span className="text-gray-400">—</span>
+                            )}
+                          </td>
+                          <td className="px-4 py-2 text-right text-gray-600">{formatSize(report.size)}</td>
+                          <td className="px-4 py-2 text-right">
+                            <a
+                              href={`/api/reports/files/${report.id}`}
+                              className="inline-flex items-center gap-1 text-blue-600 hover:text-blue-800 font-medium"
+                            >
+                              <Download className="w-4 h-4" />
+                              {report.format}
+                            </a>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,357 @@
+"use client"
+
+import React, { useState, useEffect, useRef } from 'react'
+import { X } from 'lucide-react'
+
+type ChannelType = 'WEBHOOK' | 'EMAIL' | 'TELEGRAM' | 'LOG'
+
+interface ChannelField {
+  name: string
+  label: string
+  placeholder?: string
+  required?: boolean
+  secret?: boolean
+  inputType?: 'text' | 'number' | 'checkbox'
+}
+
+const CHANNEL_TYPE_LABELS: Record<ChannelType, string> = {
+  WEBHOOK: 'Webhook',
+  EMAIL: 'Email (SMTP)',
+  TELEGRAM: 'Telegram Bot',
+  LOG: 'Local Log (testing)'
+}
+
+const CHANNEL_FIELDS: Record<ChannelType, ChannelField[]> = {
+  WEBHOOK: [
+    { name: 'url', label: 'URL', placeholder: 'https://example.com/hooks/netwatch', required: true },
+    { name: 'authHeader', label: 'Authorization Header', placeholder: 'Bearer <token>', secret: true }
+  ],
+  EMAIL: [
+    { name: 'host', label: 'SMTP Host', placeholder: 'smtp.example.com', required: true },
+    { name: 'port', label: 'SMTP Port', placeholder: '587', inputType: 'number' },
+    { name: 'secure', label: 'Use TLS (port 465)', inputType: 'checkbox' },
+    { name: 'user', label: 'SMTP Username', placeholder: 'alerts@example.com' },
+    { name: 'password', label: 'SMTP Password', secret: true },
+    { name: 'from', label: 'From', placeholder: 'Netwatch <alerts@example.com>', required: true },
+    { name: 'to', label: 'To', placeholder: 'noc@example.com, admin@example.com', required: true }
+  ],
+  TELEGRAM: [
+    { name: 'botToken', label: 'Bot Token', placeholder: '123456:ABC-DEF...', required: true, secret: true },
+    { name: 'chatId', label: 'Chat ID', placeholder: '-1001234567890', required: true }
+  ],
+  LOG: []
+}
+
+interface AlertChannelFormModalProps {
+  isOpen: boolean
+  onClose: () => void
+  channel?: {
+    id: string
+    name: string
+    type: string
+    config: Record<string, any>
+    enabled: boolean
+  }
+  onSuccess: (message: string, description: string) => void
+  onError: (message: string, description: string) => void
+}
+
+export default function AlertChannelFormModal({
+  isOpen,
+  onClose,
+  channel,
+  onSuccess,
+  onError
+}: AlertChannelFormModalProps) {
+  const modalRef = useRef<HTMLDivElement>(null)
+  const [name, setName] = useState('')
+  const [type, setType] = useState<ChannelType>('WEBHOOK')
+  const [enabled, setEnabled] = useState(true)
+  const [settings, setSettings] = useState<Record<string, any>>({})
+  const [errors, setErrors] = useState<Record<string, string>>({})
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  // Reset form when channel changes - secrets start blank ("keep current")
+  useEffect(() => {
+    const channelType = (channel?.type as ChannelType) || 'WEBHOOK'
+    const initialSettings: Record<string, any> = {}
+
+    if (channel) {
+      CHANNEL_FIELDS[channelType]?.forEach(field => {
+        if (!field.secret && channel.config[field.name] !== undefined) {
+          initialSettings[field.name] = channel.config[field.name]
+        }
+      })
+    }
+
+    setName(channel?.name || '')
+    setType(channelType)
+    setEnabled(channel?.enabled ?? true)
+    setSettings(initialSettings)
+    setErrors({})
+  }, [channel, isOpen])
+
+  // Close on Escape key
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && isOpen) {
+        onClose()
+      }
+    }
+
+    document.addEventListener('keydown', handleEscape)
+    return () => document.removeEventListener('keydown', handleEscape)
+  }, [isOpen, onClose])
+
+  // Prevent body scroll when modal is open
+  useEffect(() => {
+    if (isOpen) {
+      document.body.style.overflow = 'hidden'
+    } else {
+      document.body.style.overflow = 'unset'
+    }
+
+    return () => {
+      document.body.style.overflow = 'unset'
+    }
+  }, [isOpen])
+
+  // A stored secret can stay blank when editing a channel of the same type
+  const hasStoredSecret = (field: ChannelField) =>
+    !!channel && channel.type === type && !!channel.config[field.name]
+
+  const validateForm = () => {
+    const newErrors: Record<string, string> = {}
+
+    if (!name.trim()) {
+      newErrors.name = 'Channel name is required'
+    }
+
+    CHANNEL_FIELDS[type].forEach(field => {
+      const value = settings[field.name]
+      const isEmpty = value === undefined || String(value).trim() === ''
+      if (field.required && isEmpty && !(field.secret && hasStoredSecret(field))) {
+        newErrors[field.name] = `${field.label} is required`
+      }
+    })
+
+    if (type === 'WEBHOOK' && settings.url && !/^https?:\/\//.test(settings.url)) {
+      newErrors.url = 'URL must start with http:// or https://'
+    }
+
+    setErrors(newErrors)
+    return Object.keys(newErrors).length === 0
+  }
+
+  const handleSettingChange = (field: ChannelField, e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = field.inputType === 'checkbox'
+      ? e.target.checked
+      : field.inputType === 'number' ? parseInt(e.target.value) || '' : e.target.value
+
+    setSettings(prev => ({ ...prev, [field.name]: value }))
+
+    if (errors[field.name]) {
+      setErrors(prev => {
+        const newErrors = { ...prev }
+        delete newErrors[field.name]
+        return newErrors
+      })
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!validateForm()) {
+      return
+    }
+
+    setIsSubmitting(true)
+
+    // Only send settings of the selected type; blank secrets are omitted to keep the stored value
+    const config: Record<string, any> = {}
+    CHANNEL_FIELDS[type].forEach(field => {
+      const value = settings[field.name]
+      if (field.secret && !value) return
+      if (value !== undefined && value !== '') config[field.name] = value
+    })
+
+    try {
+      const url = channel ? `/api/alerts/channels/${channel.id}` : '/api/alerts/channels'
+      const method = channel ? 'PUT' : 'POST'
+
+      const res = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, type, config, enabled })
+      })
+
+      if (res.ok) {
+        onSuccess(
+          channel ? 'Channel Updated' : 'Channel Added',
+          channel ? 'Alert channel has been updated successfully.' : 'New alert channel has been added successfully.'
+        )
+        onClose()
+      } else {
+        const data = await res.json()
+        onError('Failed to Save Channel', data.error || 'An error occurred while saving the channel.')
+      }
+    } catch (error) {
+      console.error('Error saving alert channel:', error)
+      onError('Failed to Save Channel', 'An unexpected error occurred. Please try again.')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <>
+      {/* Overlay */}
+      <div
+        className="fixed inset-0 bg-black bg-opacity-50 z-50 transition-opacity"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="fixed inset-0 z-50 overflow-y-auto">
+        <div className="flex min-h-full items-center justify-center p-4">
+          <div
+            ref={modalRef}
+            className="relative bg-white rounded-lg shadow-xl w-full max-w-lg"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {/* Header */}
+            <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between rounded-t-lg">
+              <h2 className="text-xl font-bold text-gray-900">
+                {channel ? 'Edit Alert Channel' : 'Add Alert Channel'}
+              </h2>
+              <button
+                onClick={onClose}
+                className="text-gray-400 hover:text-gray-600 transition-colors"
+                aria-label="Close"
+                title="Close"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            {/* Form Content */}
+            <form onSubmit={handleSubmit} className="px-6 py-4">
+              <div className="space-y-4">
+                <div className="space-y-1">
+                  <label htmlFor="channelName" className="block text-sm font-medium text-gray-700">
+                    Channel Name <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    type="text"
+                    id="channelName"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                    placeholder="e.g., NOC Email, Ops Telegram"
+                  />
+                  {errors.name && (
+                    <p className="mt-1 text-sm text-red-600 flex items-center gap-1">
+                      <span>⚠</span> {errors.name}
+                    </p>
+                  )}
+                </div>
+
+                <div className="space-y-1">
+                  <label htmlFor="channelType" className="block text-sm font-medium text-gray-700">
+                    Type <span className="text-red-500">*</span>
+                  </label>
+                  <select
+                    id="channelType"
+                    value={type}
+                    onChange={(e) => {
+                      setType(e.target.value as ChannelType)
+                      setErrors({})
+                    }}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                  >
+                    {(Object.keys(CHANNEL_TYPE_LABELS) as ChannelType[]).map(channelType => (
+                      <option key={channelType} value={channelType}>
+                        {CHANNEL_TYPE_LABELS[channelType]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                {type === 'LOG' && (
+                  <p className="text-sm text-gray-600 bg-gray-50 border border-gray-200 rounded-lg p-3">
+                    Alerts are only written to the worker log. Use this to try out rules before connecting a real channel.
+                  </p>
+                )}
+
+                {CHANNEL_FIELDS[type].map(field => (
+                  field.inputType === 'checkbox' ? (
+                    <label key={field.name} className="flex items-center gap-2 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={settings[field.name] === true}
+                        onChange={(e) => handleSettingChange(field, e)}
+                        className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                      />
+                      <span className="text-sm text-gray-700">{field.label}</span>
+                    </label>
+                  ) : (
+                    <div key={field.name} className="space-y-1">
+                      <label htmlFor={`channel-${field.name}`} className="block text-sm font-medium text-gray-700">
+                        {field.label} {field.required && <span className="text-red-500">*</span>}
+                      </label>
+                      <input
+                        type={field.secret ? 'password' : field.inputType || 'text'}
+                        id={`channel-${field.name}`}
+                        value={settings[field.name] ?? ''}
+                        onChange={(e) => handleSettingChange(field, e)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                        placeholder={field.secret && hasStoredSecret(field) ? 'Leave blank to keep current' : field.placeholder}
+                      />
+                      {errors[field.name] && (
+                        <p className="mt-1 text-sm text-red-600 flex items-center gap-1">
+                          <span>⚠</span> {errors[field.name]}
+                        </p>
+                      )}
+                    </div>
+                  )
+                ))}
+
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={enabled}
+                    onChange={(e) => setEnabled(e.target.checked)}
+                    className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                  />
+                  <span className="text-sm text-gray-700">Enabled (deliver alerts through this channel)</span>
+                </label>
+              </div>
+
+              {/* Footer Buttons */}
+              <div className="flex gap-3 justify-end pt-4 mt-4 border-t border-gray-200">
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors font-medium"
+                  disabled={isSubmitting}
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="px-6 py-2 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-lg hover:from-blue-700 hover:to-blue-800 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed font-medium shadow-md hover:shadow-lg"
+                >
+                  {isSubmitting ? 'Saving...' : channel ? 'Update Channel' : 'Add Channel'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,432 @@
+"use client"
+
+import React, { useState, useEffect, useRef } from 'react'
+import { X } from 'lucide-react'
+import { DEVICE_TYPES } from '@/lib/constants'
+import { useDeviceTypes } from '@/hooks/useDeviceTypes'
+
+type RuleScope = 'GLOBAL' | 'DEVICE' | 'ROOM' | 'TYPE'
+
+const SCOPE_LABELS: Record<RuleScope, string> = {
+  GLOBAL: 'All devices',
+  DEVICE: 'A single device',
+  ROOM: 'Devices in a room',
+  TYPE: 'Devices of a type'
+}
+
+export interface AlertRuleFormValue {
+  id: string
+  name: string
+  scope: string
+  deviceId: string | null
+  roomId: string | null
+  deviceType: string | null
+  minDownSeconds: number
+  renotifyMinutes: number
+  notifyOnRecovery: boolean
+  enabled: boolean
+  channelId: string
+}
+
+interface AlertRuleFormModalProps {
+  isOpen: boolean
+  onClose: () => void
+  rule?: AlertRuleFormValue
+  channels: { id: string; name: string }[]
+  devices: { id: string; name: string; ip: string }[]
+  rooms: { id: string; name: string }[]
+  onSuccess: (message: string, description: string) => void
+  onError: (message: string, description: string) => void
+}
+
+const emptyForm = (channelId: string) => ({
+  name: '',
+  scope: 'GLOBAL' as RuleScope,
+  deviceId: '',
+  roomId: '',
+  deviceType: DEVICE_TYPES[0] as string,
+  minDownSeconds: 60,
+  renotifyMinutes: 0,
+  notifyOnRecovery: true,
+  enabled: true,
+  channelId
+})
+
+export default function AlertRuleFormModal({
+  isOpen,
+  onClose,
+  rule,
+  channels,
+  devices,
+  rooms,
+  onSuccess,
+  onError
+}: AlertRuleFormModalProps) {
+  const modalRef = useRef<HTMLDivElement>(null)
+  const [formData, setFormData] = useState(emptyForm(channels[0]?.id || ''))
+  const { deviceTypes } = useDeviceTypes()
+  const [errors, setErrors] = useState<Record<string, string>>({})
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  // Reset form when rule changes
+  useEffect(() => {
+    if (rule) {
+      setFormData({
+        name: rule.name,
+        scope: rule.scope as RuleScope,
+        deviceId: rule.deviceId || '',
+        roomId: rule.roomId || '',
+        deviceType: rule.deviceType || DEVICE_TYPES[0],
+        minDownSeconds: rule.minDownSeconds,
+        renotifyMinutes: rule.renotifyMinutes,
+        notifyOnRecovery: rule.notifyOnRecovery,
+        enabled: rule.enabled,
+        channelId: rule.channelId
+      })
+    } else {
+      setFormData(emptyForm(channels[0]?.id || ''))
+    }
+    setErrors({})
+  }, [rule, isOpen, channels])
+
+  // Close on Escape key
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && isOpen) {
+        onClose()
+      }
+    }
+
+    document.addEventListener('keydown', handleEscape)
+    return () => document.removeEventListener('keydown', handleEscape)
+  }, [isOpen, onClose])
+
+  // Prevent body scroll when modal is open
+  useEffect(() => {
+    if (isOpen) {
+      document.body.style.overflow = 'hidden'
+    } else {
+      document.body.style.overflow = 'unset'
+    }
+
+    return () => {
+      document.body.style.overflow = 'unset'
+    }
+  }, [isOpen])
+
+  const validateForm = () => {
+    const newErrors: Record<string, string> = {}
+
+    if (!formData.name.trim()) {
+      newErrors.name = 'Rule name is required'
+    }
+
+    if (formData.scope === 'DEVICE' && !formData.deviceId) {
+      newErrors.deviceId = 'Please select a device'
+    }
+
+    if (formData.scope === 'ROOM' && !formData.roomId) {
+      newErrors.roomId = 'Please select a room'
+    }
+
+    if (formData.minDownSeconds < 0) {
+      newErrors.minDownSeconds = 'Must be 0 or more'
+    }
+
+    if (formData.renotifyMinutes < 0) {
+      newErrors.renotifyMinutes = 'Must be 0 or more'
+    }
+
+    if (!formData.channelId) {
+      newErrors.channelId = 'Please select a channel'
+    }
+
+    setErrors(newErrors)
+    return Object.keys(newErrors).length === 0
+  }
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    const { name, value, type } = e.target
+    const checked = (e.target as HTMLInputElement).checked
+
+    setFormData(prev => ({
+      ...prev,
+      [name]: type === 'checkbox' ? checked : type === 'number' ? parseInt(value) || 0 : value
+    }))
+
+    // Clear error for this field
+    if (errors[name]) {
+      setErrors(prev => {
+        const newErrors = { ...prev }
+        delete newErrors[name]
+        return newErrors
+      })
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!validateForm()) {
+      return
+    }
+
+    setIsSubmitting(true)
+
+    try {
+      const url = rule ? `/api/alerts/rules/${rule.id}` : '/api/alerts/rules'
+      const method = rule ? 'PUT' : 'POST'
+
+      const res = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(formData)
+      })
+
+      if (res.ok) {
+        onSuccess(
+          rule ? 'Rule Updated' : 'Rule Added',
+          rule ? 'Alert rule has been updated successfully.' : 'New alert rule has been added successfully.'
+        )
+        onClose()
+      } else {
+        const data = await res.json()
+        onError('Failed to Save Rule', data.error || 'An error occurred while saving the rule.')
+      }
+    } catch (error) {
+      console.error('Error saving alert rule:', error)
+      onError('Failed to Save Rule', 'An unexpected error occurred. Please try again.')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (!isOpen) return null
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors'
+
+  return (
+    <>
+      {/* Overlay */}
+      <div
+        className="fixed inset-0 bg-black bg-opacity-50 z-50 transition-opacity"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="fixed inset-0 z-50 overflow-y-auto">
+        <div className="flex min-h-full items-center justify-center p-4">
+          <div
+            ref={modalRef}
+            className="relative bg-white rounded-lg shadow-xl w-full max-w-lg"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {/* Header */}
+            <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between rounded-t-lg">
+              <h2 className="text-xl font-bold text-gray-900">
+                {rule ? 'Edit Alert Rule' : 'Add Alert Rule'}
+              </h2>
+              <button
+                onClick={onClose}
+                className="text-gray-400 hover:text-gray-600 transition-colors"
+                aria-label="Close"
+                title="Close"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            {/* Form Content */}
+            <form onSubmit={handleSubmit} className="px-6 py-4">
+              <div className="space-y-4">
+                <div className="space-y-1">
+                  <label htmlFor="ruleName" className="block text-sm font-medium text-gray-700">
+                    Rule Name <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    type="text"
+                    id="ruleName"
+                    name="name"
+                    value={formData.name}
+                    onChange={handleChange}
+                    className={inputClass}
+                    placeholder="e.g., Core switches down"
+                  />
+                  {errors.name && (
+                    <p className="mt-1 text-sm text-red-600 flex items-center gap-1">
+                      <span>⚠</span> {errors.name}
+                    </p>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-1">
+                    <label htmlFor="ruleScope" className="block text-sm font-medium text-gray-700">
+                      Applies To
+                    </label>
+                    <select id="ruleScope" name="scope" value={formData.scope} onChange={handleChange} className={inputClass}>
+                      {(Object.keys(SCOPE_LABELS) as RuleScope[]).map(scope => (
+                        <option key={scope} value={scope}>{SCOPE_LABELS[scope]}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  {formData.scope === 'DEVICE' && (
+                    <div className="space-y-1">
+                      <label htmlFor="ruleDevice" className="block text-sm font-medium text-gray-700">
+                        Device <span className="text-red-500">*</span>
+                      </label>
+                      <select id="ruleDevice" name="deviceId" value={formData.deviceId} onChange={handleChange} className={inputClass}>
+                        <option value="">Select device...</option>
+                        {devices.map(device => (
+                          <option key={device.id} value={device.id}>{device.name} ({device.ip})</option>
+                        ))}
+                      </select>
+                      {errors.deviceId && (
+                        <p className="mt-1 text-sm text-red-600 flex items-center gap-1">
+                          <span>⚠</span> {errors.deviceId}
+                        </p>
+                      )}
+                    </div>
+                  )}
+
+                  {formData.scope === 'ROOM' && (
+                    <div className="space-y-1">
+                      <label htmlFor="ruleRoom" className="block text-sm font-medium text-gray-700">
+                        Room <span className="text-red-500">*</span>
+                      </label>
+                      <select id="ruleRoom" name="roomId" value={formData.roomId} onChange={handleChange} className={inputClass}>
+                        <option value="">Select room...</option>
+                        {rooms.map(room => (
+                          <option key={room.id} value={room.id}>{room.name}</option>
+                        ))}
+                      </select>
+                      {errors.roomId && (
+                        <p className="mt-1 text-sm text-red-600 flex items-center gap-1">
+                          <span>⚠</span> {errors.roomId}
+                        </p>
+                      )}
+                    </div>
+                  )}
+
+                  {formData.scope === 'TYPE' && (
+                    <div className="space-y-1">
+                      <label htmlFor="ruleType" className="block text-sm font-medium text-gray-700">
+                        Device Type
+                      </label>
+                      <select id="ruleType" name="deviceType" value={formData.deviceType} onChange={handleChange} className={inputClass}>
+                        {deviceTypes.map(definition => (
+                          <option key={definition.key} value={definition.key}>{definition.label}</option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-1">
+                    <label htmlFor="ruleMinDown" className="block text-sm font-medium text-gray-700">
+                      Alert After (seconds down)
+                    </label>
+                    <input
+                      type="number"
+                      id="ruleMinDown"
+                      name="minDownSeconds"
+                      value={formData.minDownSeconds}
+                      onChange={handleChange}
+                      className={inputClass}
+                      min="0"
+                    />
+                    {errors.minDownSeconds && (
+                      <p className="mt-1 text-sm text-red-600 flex items-center gap-1">
+                        <span>⚠</span> {errors.minDownSeconds}
+                      </p>
+                    )}
+                  </div>
+
+                  <div className="space-y-1">
+                    <label htmlFor="ruleRenotify" className="block text-sm font-medium text-gray-700">
+                      Repeat Every (minutes, 0 = never)
+                    </label>
+                    <input
+                      type="number"
+                      id="ruleRenotify"
+                      name="renotifyMinutes"
+                      value={formData.renotifyMinutes}
+                      onChange={handleChange}
+                      className={inputClass}
+                      min="0"
+                    />
+                    {errors.renotifyMinutes && (
+                      <p className="mt-1 text-sm text-red-600 flex items-center gap-1">
+                        <span>⚠</span> {errors.renotifyMinutes}
+                      </p>
+                    )}
+                  </div>
+                </div>
+
+                <div className="space-y-1">
+                  <label htmlFor="ruleChannel" className="block text-sm font-medium text-gray-700">
+                    Channel <span className="text-red-500">*</span>
+                  </label>
+                  <select id="ruleChannel" name="channelId" value={formData.channelId} onChange={handleChange} className={inputClass}>
+                    <option value="">Select channel...</option>
+                    {channels.map(channel => (
+                      <option key={channel.id} value={channel.id}>{channel.name}</option>
+                    ))}
+                  </select>
+                  {errors.channelId && (
+                    <p className="mt-1 text-sm text-red-600 flex items-center gap-1">
+                      <span>⚠</span> {errors.channelId}
+                    </p>
+                  )}
+                </div>
+
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    name="notifyOnRecovery"
+                    checked={formData.notifyOnRecovery}
+                    onChange={handleChange}
+                    className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                  />
+                  <span className="text-sm text-gray-700">Notify when the device comes back up</span>
+                </label>
+
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    name="enabled"
+                    checked={formData.enabled}
+                    onChange={handleChange}
+                    className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                  />
+                  <span className="text-sm text-gray-700">Enabled</span>
+                </label>
+              </div>
+
+              {/* Footer Buttons */}
+              <div className="flex gap-3 justify-end pt-4 mt-4 border-t border-gray-200">
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors font-medium"
+                  disabled={isSubmitting}
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="px-6 py-2 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-lg hover:from-blue-700 hover:to-blue-800 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed font-medium shadow-md hover:shadow-lg"
+                >
+                  {isSubmitting ? 'Saving...' : rule ? 'Update Rule' : 'Add Rule'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      </div>
+    </>
+  )
+}
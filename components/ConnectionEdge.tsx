@@ -125,11 +125,13 @@ export default function ConnectionEdge({
   // CRITICAL: Force electric colors with direct logic
   const sourceStatus = data?.sourceStatus || 'unknown'
   const targetStatus = data?.targetStatus || 'unknown'
-  const isUp = sourceStatus === 'up' && targetStatus === 'up'
+  // Degraded devices still answer - the link is up but slow or lossy
+  const isUp = (sourceStatus === 'up' || sourceStatus === 'degraded') && (targetStatus === 'up' || targetStatus === 'degraded')
+  const isDegraded = isUp && (sourceStatus === 'degraded' || targetStatus === 'degraded')
   const isDown = sourceStatus === 'down' || targetStatus === 'down'
   
   // Direct color assignment - NO gradients, pure electric colors
-  const edgeColor = isUp ? '#00E055' : isDown ? '#FF2222' : '#94a3b8'
+  const edgeColor = isDegraded ? '#F97316' : isUp ? '#00E055' : isDown ? '#FF2222' : '#94a3b8'
   
   const gradientId = `gradient-${id}`
   const animated = data?.animated !== false
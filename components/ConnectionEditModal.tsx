@@ -11,6 +11,7 @@ interface ConnectionEditModalProps {
     label?: string | null
     type: 'LAN' | 'WIRELESS' | 'FIBER_OPTIC'
     animated: boolean
+    upstream?: 'NONE' | 'SOURCE' | 'TARGET'
     waypoints?: string | null
   }
   sourceDevice: { name: string; ip: string }
@@ -21,6 +22,7 @@ interface ConnectionEditModalProps {
     label?: string
     type: 'LAN' | 'WIRELESS' | 'FIBER_OPTIC'
     animated: boolean
+    upstream: 'NONE' | 'SOURCE' | 'TARGET'
     waypoints?: Array<{ x: number; y: number }>
   }) => Promise<void>
 }
@@ -40,6 +42,7 @@ export default function ConnectionEditModal({
   const [label, setLabel] = useState(connection.label || '')
   const [type, setType] = useState<'LAN' | 'WIRELESS' | 'FIBER_OPTIC'>(connection.type)
   const [animated, setAnimated] = useState(connection.animated)
+  const [upstream, setUpstream] = useState<'NONE' | 'SOURCE' | 'TARGET'>(connection.upstream || 'NONE')
   const [waypoints, setWaypoints] = useState<Array<{ x: number; y: number }>>(initialWaypoints)
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState('')
@@ -55,6 +58,7 @@ export default function ConnectionEditModal({
         label: label.trim() || undefined,
         type,
         animated,
+        upstream,
         waypoints: waypoints.length > 0 ? waypoints : undefined
       })
       onClose()
@@ -227,6 +231,25 @@ export default function ConnectionEditModal({
               )}
             </div>
 
+            {/* Dependency - drives root-cause suppression */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Dependency
+              </label>
+              <select
+                value={upstream}
+                onChange={(e) => setUpstream(e.target.value as 'NONE' | 'SOURCE' | 'TARGET')}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+              >
+                <option value="NONE">None (visual only)</option>
+                <option value="SOURCE">{targetDevice.name} depends on {sourceDevice.name}</option>
+                <option value="TARGET">{sourceDevice.name} depends on {targetDevice.name}</option>
+              </select>
+              <p className="mt-1 text-xs text-gray-500">
+                When the upstream device is down, devices behind it show as unreachable and are not alerted on
+              </p>
+            </div>
+
             {/* Animated */}
             <div className="flex items-center gap-2">
               <input
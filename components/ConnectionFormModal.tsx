@@ -19,6 +19,7 @@ interface ConnectionFormModalProps {
     label?: string
     type: 'LAN' | 'WIRELESS' | 'FIBER_OPTIC'
     animated: boolean
+    upstream: 'NONE' | 'SOURCE' | 'TARGET'
   }) => Promise<void>
   preselectedSourceId?: string
 }
@@ -34,9 +35,13 @@ export default function ConnectionFormModal({
   const [label, setLabel] = useState('')
   const [type, setType] = useState<'LAN' | 'WIRELESS' | 'FIBER_OPTIC'>('LAN')
   const [animated, setAnimated] = useState(true)
+  const [upstream, setUpstream] = useState<'NONE' | 'SOURCE' | 'TARGET'>('NONE')
   const [isSubmitting, setIsSubmitting] = useState(false)
   const [error, setError] = useState('')
 
+  const sourceName = devices.find(d => d.id === sourceId)?.name || 'Source'
+  const targetName = devices.find(d => d.id === targetId)?.name || 'Target'
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
     setError('')
@@ -58,7 +63,8 @@ export default function ConnectionFormModal({
         targetId,
         label: label.trim() || undefined,
         type,
-        animated
+        animated,
+        upstream
       })
       onClose()
     } catch (err: any) {
@@ -192,6 +198,25 @@ export default function ConnectionFormModal({
               </div>
             </div>
 
+            {/* Dependency - drives root-cause suppression */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Dependency
+              </label>
+              <select
+                value={upstream}
+                onChange={(e) => setUpstream(e.target.value as 'NONE' | 'SOURCE' | 'TARGET')}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+              >
+                <option value="NONE">None (visual only)</option>
+                <option value="SOURCE">{targetName} depends on {sourceName}</option>
+                <option value="TARGET">{sourceName} depends on {targetName}</option>
+              </select>
+              <p className="mt-1 text-xs text-gray-500">
+                When the upstream device is down, devices behind it show as unreachable and are not alerted on
+              </p>
+            </div>
+
             {/* Animated */}
             <div className="flex items-center gap-2">
               <input
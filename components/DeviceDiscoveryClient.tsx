@@ -0,0 +1,445 @@
+"use client"
+
+import React, { useState, useEffect } from "react"
+import { useRouter } from "next/navigation"
+import { Radar, Plus } from "lucide-react"
+import { DeviceType } from "@/lib/constants"
+import { useDeviceTypes } from "@/hooks/useDeviceTypes"
+import type { DiscoveredHost, DiscoverySource } from "@/lib/device-discovery"
+import { fetchRouterPreview, RouterPreview } from "@/lib/routeros-dry-run"
+import RouterCommandPreview from "./RouterCommandPreview"
+
+const SOURCE_LABELS: Record<DiscoverySource, string> = {
+  dhcp: 'DHCP',
+  arp: 'ARP',
+  neighbor: 'Neighbor'
+}
+
+interface HostDraft {
+  name: string
+  type: DeviceType
+}
+
+/**
+ * Device Discovery
+ * Finds unmonitored hosts on a router and adds the selected ones as devices
+ */
+export default function DeviceDiscoveryClient() {
+  const router = useRouter()
+  const [loading, setLoading] = useState(false)
+  const [creating, setCreating] = useState(false)
+  const [hosts, setHosts] = useState<DiscoveredHost[]>([])
+  const [drafts, setDrafts] = useState<Record<string, HostDraft>>({})
+  const [selectedHosts, setSelectedHosts] = useState<Set<string>>(new Set())
+  const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null)
+  const [routers, setRouters] = useState<Array<{ id: string; name: string; host: string; enabled: boolean }>>([])
+  const [rooms, setRooms] = useState<Array<{ id: string; name: string }>>([])
+  const [selectedRouterId, setSelectedRouterId] = useState("")
+  // Router the current host list was read from - new devices are bound to it
+  const [discoveredRouterId, setDiscoveredRouterId] = useState<string | null>(null)
+  // Settings applied to every selected host
+  const [bulkType, setBulkType] = useState<DeviceType>('OTHER')
+  const { deviceTypes } = useDeviceTypes()
+  const [laneName, setLaneName] = useState("")
+  const [roomId, setRoomId] = useState("")
+  const [syncToMikrotik, setSyncToMikrotik] = useState(true)
+  const [pendingPreview, setPendingPreview] = useState<RouterPreview | null>(null)
+
+  // Fetch MikroTik routers and rooms on mount
+  useEffect(() => {
+    fetch('/api/routers')
+      .then(res => res.json())
+      .then(data => {
+        if (data.routers) {
+          const enabledRouters = data.routers.filter((r: { enabled: boolean }) => r.enabled)
+          setRouters(enabledRouters)
+          if (enabledRouters.length > 0) {
+            setSelectedRouterId(enabledRouters[0].id)
+          }
+        }
+      })
+      .catch(err => console.error('Failed to fetch routers:', err))
+
+    fetch('/api/rooms')
+      .then(res => res.json())
+      .then(data => {
+        if (data.rooms) {
+          setRooms(data.rooms)
+        }
+      })
+      .catch(err => console.error('Failed to fetch rooms:', err))
+  }, [])
+
+  const handleDiscover = async () => {
+    setLoading(true)
+    setMessage(null)
+
+    try {
+      const url = selectedRouterId
+        ? `/api/mikrotik/discovery?routerId=${encodeURIComponent(selectedRouterId)}`
+        : '/api/mikrotik/discovery'
+      const response = await fetch(url)
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        const errorText = data.details ? `${data.error}: ${data.details}` : data.error || 'Failed to discover devices'
+        setMessage({ type: 'error', text: errorText })
+        setHosts([])
+        return
+      }
+
+      const found: DiscoveredHost[] = data.hosts || []
+      setHosts(found)
+      setDiscoveredRouterId(data.router?.id || null)
+      setDrafts(Object.fromEntries(found.map(host => [host.ip, { name: host.hostname || host.ip, type: host.suggestedType }])))
+      setSelectedHosts(new Set())
+      setMessage({ type: 'success', text: data.message })
+    } catch (error) {
+      console.error('Error discovering devices:', error)
+      setMessage({ type: 'error', text: 'Failed to connect to server. Please check your network connection and try again.' })
+      setHosts([])
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleToggleHost = (ip: string) => {
+    const newSelected = new Set(selectedHosts)
+    if (newSelected.has(ip)) {
+      newSelected.delete(ip)
+    } else {
+      newSelected.add(ip)
+    }
+    setSelectedHosts(newSelected)
+  }
+
+  const handleToggleAll = () => {
+    if (selectedHosts.size === hosts.length) {
+      setSelectedHosts(new Set())
+    } else {
+      setSelectedHosts(new Set(hosts.map(host => host.ip)))
+    }
+  }
+
+  const updateDraft = (ip: string, changes: Partial<HostDraft>) => {
+    setDrafts(prev => ({ ...prev, [ip]: { ...prev[ip], ...changes } }))
+  }
+
+  const handleApplyType = () => {
+    setDrafts(prev => {
+      const next = { ...prev }
+      selectedHosts.forEach(ip => {
+        next[ip] = { ...next[ip], type: bulkType }
+      })
+      return next
+    })
+  }
+
+  const createRequest = (): RequestInit => ({
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      routerId: discoveredRouterId,
+      syncToMikrotik,
+      hosts: hosts
+        .filter(host => selectedHosts.has(host.ip))
+        .map(host => ({
+          ip: host.ip,
+          name: drafts[host.ip]?.name ?? host.ip,
+          type: drafts[host.ip]?.type ?? 'OTHER',
+          macAddress: host.mac,
+          hostname: host.hostname,
+          laneName,
+          roomId: roomId || null
+        }))
+    })
+  })
+
+  const handleCreate = async () => {
+    if (selectedHosts.size === 0) {
+      setMessage({ type: 'error', text: 'Please select at least one host to add' })
+      return
+    }
+    if (!laneName.trim()) {
+      setMessage({ type: 'error', text: 'Lane name is required' })
+      return
+    }
+
+    setCreating(true)
+    setMessage(null)
+
+    try {
+      // Netwatch entries are confirmed before anything is created
+      if (syncToMikrotik) {
+        setPendingPreview(await fetchRouterPreview('/api/mikrotik/discovery', createRequest()))
+        return
+      }
+      await createDevices()
+    } catch (error) {
+      console.error('Error adding discovered devices:', error)
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to add devices' })
+    } finally {
+      setCreating(false)
+    }
+  }
+
+  const createDevices = async () => {
+    const response = await fetch('/api/mikrotik/discovery', createRequest())
+    const data = await response.json()
+
+    if (!response.ok) {
+      setMessage({ type: 'error', text: data.error || 'Failed to add devices' })
+      return
+    }
+
+    setMessage({ type: data.warning ? 'error' : 'success', text: data.warning ? `${data.message}. ${data.warning}` : data.message })
+
+    // Added hosts drop out of the list
+    setHosts(prev => prev.filter(host => !selectedHosts.has(host.ip)))
+    setSelectedHosts(new Set())
+    router.refresh()
+  }
+
+  const handleConfirmCreate = async () => {
+    setCreating(true)
+
+    try {
+      await createDevices()
+    } catch (error) {
+      console.error('Error adding discovered devices:', error)
+      setMessage({ type: 'error', text: 'Failed to add devices. Please try again.' })
+    } finally {
+      setPendingPreview(null)
+      setCreating(false)
+    }
+  }
+
+  return (
+    <div className="max-w-6xl">
+      {message && (
+        <div className={`mb-6 p-4 rounded-lg ${
+          message.type === 'success'
+            ? 'bg-green-100 text-green-800 border border-green-300'
+            : 'bg-red-100 text-red-800 border border-red-300'
+        }`}>
+          {message.text}
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-lg p-6 lg:p-8 border border-gray-200">
+        <div className="flex justify-between items-center mb-6 gap-4">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">Unmonitored Hosts</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              Reads DHCP leases, the ARP table and neighbors from the router
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            {routers.length > 1 && (
+              <select
+                value={selectedRouterId}
+                onChange={(e) => setSelectedRouterId(e.target.value)}
+                disabled={loading}
+                aria-label="MikroTik router"
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+              >
+                {routers.map(r => (
+                  <option key={r.id} value={r.id}>{r.name} ({r.host})</option>
+                ))}
+              </select>
+            )}
+            <button
+              onClick={handleDiscover}
+              disabled={loading}
+              className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed flex items-center gap-2"
+            >
+              <Radar className={`w-4 h-4 ${loading ? 'animate-pulse' : ''}`} />
+              {loading ? 'Discovering...' : 'Discover'}
+            </button>
+          </div>
+        </div>
+
+        {hosts.length > 0 && (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-3 mb-4 p-4 bg-gray-50 border border-gray-200 rounded-lg">
+              <div>
+                <label htmlFor="bulkType" className="block text-xs font-semibold text-gray-600 mb-1">Type for selected</label>
+                <div className="flex gap-2">
+                  <select
+                    id="bulkType"
+                    value={bulkType}
+                    onChange={(e) => setBulkType(e.target.value)}
+                    className="flex-1 px-2 py-1.5 border border-gray-300 rounded text-sm"
+                  >
+                    {deviceTypes.map(definition => (
+                      <option key={definition.key} value={definition.key}>{definition.label}</option>
+                    ))}
+                  </select>
+                  <button
+                    type="button"
+                    onClick={handleApplyType}
+                    disabled={selectedHosts.size === 0}
+                    className="px-2.5 py-1.5 rounded border border-gray-300 text-gray-700 hover:bg-white text-xs font-medium disabled:opacity-50"
+                  >
+                    Apply
+                  </button>
+                </div>
+              </div>
+              <div>
+                <label htmlFor="laneName" className="block text-xs font-semibold text-gray-600 mb-1">Lane *</label>
+                <input
+                  id="laneName"
+                  type="text"
+                  value={laneName}
+                  onChange={(e) => setLaneName(e.target.value)}
+                  placeholder="e.g., Lane A"
+                  className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm"
+                />
+              </div>
+              <div>
+                <label htmlFor="roomId" className="block text-xs font-semibold text-gray-600 mb-1">Room</label>
+                <select
+                  id="roomId"
+                  value={roomId}
+                  onChange={(e) => setRoomId(e.target.value)}
+                  className="w-full px-2 py-1.5 border border-gray-300 rounded text-sm"
+                >
+                  <option value="">No room</option>
+                  {rooms.map(room => (
+                    <option key={room.id} value={room.id}>{room.name}</option>
+                  ))}
+                </select>
+              </div>
+              <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer md:mt-5">
+                <input
+                  type="checkbox"
+                  checked={syncToMikrotik}
+                  onChange={(e) => setSyncToMikrotik(e.target.checked)}
+                  className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                Add netwatch entries
+              </label>
+            </div>
+
+            <div className="overflow-x-auto mb-6 max-h-[32rem] overflow-y-auto border border-gray-200 rounded-lg">
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50 sticky top-0">
+                  <tr className="text-left text-xs font-semibold text-gray-600 uppercase">
+                    <th className="px-3 py-2">
+                      <input
+                        type="checkbox"
+                        checked={selectedHosts.size === hosts.length}
+                        onChange={handleToggleAll}
+                        aria-label="Select all hosts"
+                        className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                      />
+                    </th>
+                    <th className="px-3 py-2">IP / MAC</th>
+                    <th className="px-3 py-2">Found via</th>
+                    <th className="px-3 py-2">Name</th>
+                    <th className="px-3 py-2">Type</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {hosts.map(host => (
+                    <tr key={host.ip} className="hover:bg-gray-50 align-top">
+                      <td className="px-3 py-2">
+                        <input
+                          type="checkbox"
+                          checked={selectedHosts.has(host.ip)}
+                          onChange={() => handleToggleHost(host.ip)}
+                          aria-label={`Select ${host.ip}`}
+                          className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                        />
+                      </td>
+                      <td className="px-3 py-2">
+                        <div className="font-mono text-gray-900">{host.ip}</div>
+                        <div className="font-mono text-xs text-gray-500">{host.mac ?? '—'}</div>
+                        {host.vendor && <div className="text-xs text-gray-500">{host.vendor}</div>}
+                      </td>
+                      <td className="px-3 py-2">
+                        <div className="flex flex-wrap gap-1">
+                          {host.sources.map(source => (
+                            <span key={source} className="px-1.5 py-0.5 rounded bg-gray-100 text-gray-700 text-[10px] font-medium">
+                              {SOURCE_LABELS[source]}
+                            </span>
+                          ))}
+                          {host.inNetwatch && (
+                            <span
+                              className="px-1.5 py-0.5 rounded bg-blue-50 text-blue-700 text-[10px] font-medium"
+                              title="Already in netwatch - Sync from MikroTik imports it with its probe settings"
+                            >
+                              In netwatch
+                            </span>
+                          )}
+                        </div>
+                        {host.interface && <div className="text-xs text-gray-500 mt-1">{host.interface}</div>}
+                      </td>
+                      <td className="px-3 py-2">
+                        <input
+                          type="text"
+                          value={drafts[host.ip]?.name ?? ''}
+                          onChange={(e) => updateDraft(host.ip, { name: e.target.value })}
+                          aria-label={`Name of ${host.ip}`}
+                          className="w-full min-w-[10rem] px-2 py-1 border border-gray-300 rounded text-sm"
+                        />
+                      </td>
+                      <td className="px-3 py-2">
+                        <select
+                          value={drafts[host.ip]?.type ?? 'OTHER'}
+                          onChange={(e) => updateDraft(host.ip, { type: e.target.value })}
+                          aria-label={`Type of ${host.ip}`}
+                          className="px-2 py-1 border border-gray-300 rounded text-sm"
+                        >
+                          {deviceTypes.map(definition => (
+                            <option key={definition.key} value={definition.key}>{definition.label}</option>
+                          ))}
+                        </select>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            <div className="flex gap-3 justify-end pt-4 border-t border-gray-200">
+              <button
+                onClick={() => router.push('/dashboard/manage/devices')}
+                className="px-6 py-2.5 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors font-medium"
+                disabled={creating}
+              >
+                Done
+              </button>
+              <button
+                onClick={handleCreate}
+                disabled={creating || selectedHosts.size === 0}
+                className="px-6 py-2.5 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-lg hover:from-blue-700 hover:to-blue-800 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed font-medium shadow-md hover:shadow-lg flex items-center gap-2"
+              >
+                <Plus className="w-4 h-4" />
+                {creating ? 'Adding...' : `Add ${selectedHosts.size} Device${selectedHosts.size !== 1 ? 's' : ''}`}
+              </button>
+            </div>
+          </>
+        )}
+
+        {!loading && hosts.length === 0 && (
+          <div className="text-center py-12 text-gray-500">
+            <Radar className="w-12 h-12 mx-auto mb-4 text-gray-400" />
+            <p className="text-lg font-medium">No hosts discovered yet</p>
+            <p className="text-sm mt-2">Click "Discover" to list hosts the router sees that aren't monitored</p>
+          </div>
+        )}
+      </div>
+
+      {pendingPreview && (
+        <RouterCommandPreview
+          preview={pendingPreview}
+          confirmLabel={`Add ${selectedHosts.size} Device${selectedHosts.size !== 1 ? 's' : ''}`}
+          busy={creating}
+          onConfirm={handleConfirmCreate}
+          onCancel={() => setPendingPreview(null)}
+        />
+      )}
+    </div>
+  )
+}
@@ -3,6 +3,19 @@
 import React from "react"
 import { useState, useEffect } from "react"
 import { useRouter } from "next/navigation"
+import {
+  DEFAULT_HTTP_CODE,
+  DEFAULT_HTTP_PORT,
+  NETWATCH_TYPES,
+  NETWATCH_TYPE_LABELS,
+  netwatchTypeUsesPort,
+  validateNetwatchProbe
+} from "@/lib/netwatch-probes"
+import { fetchRouterPreview, RouterPreview } from "@/lib/routeros-dry-run"
+import { normalizeMacAddress, validateDeviceIdentity } from "@/lib/device-identity"
+import { useDeviceTypes } from "@/hooks/useDeviceTypes"
+import { useMacVendor } from "@/hooks/useMacVendor"
+import RouterCommandPreview from "./RouterCommandPreview"
 
 interface DeviceFormProps {
   device?: {
@@ -11,9 +24,16 @@ interface DeviceFormProps {
     ip: string
     type: string
     laneName: string
+    macAddress?: string | null
+    hostname?: string | null
     roomId?: string | null
+    routerId?: string | null
+    netwatchType?: string
     netwatchTimeout?: number
     netwatchInterval?: number
+    netwatchPort?: number | null
+    netwatchHttpCode?: number | null
+    netwatchDnsName?: string | null
     netwatchUpScript?: string | null
     netwatchDownScript?: string | null
   }
@@ -28,20 +48,32 @@ export default function DeviceForm({ device, onSuccess, onCancel }: DeviceFormPr
     ip: device?.ip || "",
     type: device?.type || "ROUTER",
     laneName: device?.laneName || "",
+    macAddress: device?.macAddress || "",
+    hostname: device?.hostname || "",
     roomId: device?.roomId || "",
+    routerId: device?.routerId || "",
     netwatchTimeout: device?.netwatchTimeout || 1000,
     netwatchInterval: device?.netwatchInterval || 5,
+    netwatchType: device?.netwatchType || "icmp",
+    netwatchPort: device?.netwatchPort?.toString() || "",
+    netwatchHttpCode: device?.netwatchHttpCode?.toString() || "",
+    netwatchDnsName: device?.netwatchDnsName || "",
     netwatchUpScript: device?.netwatchUpScript || "",
     netwatchDownScript: device?.netwatchDownScript || ""
   })
+  const [netwatchDefaults, setNetwatchDefaults] = useState({ netwatchTimeout: 1000, netwatchInterval: 5 })
+  const { deviceTypes, findDeviceType } = useDeviceTypes()
+  const macVendor = useMacVendor(formData.macAddress)
   const [syncToMikrotik, setSyncToMikrotik] = useState(false)
   const [showAdvanced, setShowAdvanced] = useState(false)
   const [errors, setErrors] = useState<Record<string, string>>({})
   const [isSubmitting, setIsSubmitting] = useState(false)
+  const [routerPreview, setRouterPreview] = useState<RouterPreview | null>(null)
   const [submitError, setSubmitError] = useState("")
   const [rooms, setRooms] = useState<Array<{ id: string; name: string }>>([])
+  const [routers, setRouters] = useState<Array<{ id: string; name: string; host: string }>>([])
 
-  // Fetch rooms and system config on mount
+  // Fetch rooms, routers and system config on mount
   useEffect(() => {
     // Fetch rooms
     fetch('/api/rooms')
@@ -52,6 +84,16 @@ export default function DeviceForm({ device, onSuccess, onCancel }: DeviceFormPr
         }
       })
       .catch(err => console.error('Failed to fetch rooms:', err))
+
+    // Fetch MikroTik routers
+    fetch('/api/routers')
+      .then(res => res.json())
+      .then(data => {
+        if (data.routers) {
+          setRouters(data.routers)
+        }
+      })
+      .catch(err => console.error('Failed to fetch routers:', err))
     
     // Fetch system config for default values (only for new devices)
     if (!device) {
@@ -59,11 +101,12 @@ export default function DeviceForm({ device, onSuccess, onCancel }: DeviceFormPr
         .then(res => res.json())
         .then(data => {
           if (data.config) {
-            setFormData(prev => ({
-              ...prev,
+            const defaults = {
               netwatchTimeout: data.config.defaultNetwatchTimeout || 1000,
               netwatchInterval: data.config.defaultNetwatchInterval || 5
-            }))
+            }
+            setNetwatchDefaults(defaults)
+            setFormData(prev => ({ ...prev, ...defaults }))
           }
         })
         .catch(err => console.error('Failed to fetch system config:', err))
@@ -93,6 +136,15 @@ export default function DeviceForm({ device, onSuccess, onCancel }: DeviceFormPr
       }
     }
 
+    if (formData.macAddress.trim() && !normalizeMacAddress(formData.macAddress)) {
+      newErrors.macAddress = "Please enter a valid MAC address"
+    } else {
+      const identityError = validateDeviceIdentity(formData)
+      if (identityError) {
+        newErrors.hostname = identityError
+      }
+    }
+
     if (!formData.type) {
       newErrors.type = "Device type is required"
     }
@@ -101,6 +153,13 @@ export default function DeviceForm({ device, onSuccess, onCancel }: DeviceFormPr
       newErrors.laneName = "Lane name is required"
     }
 
+    // Probe fields are only rendered with the advanced section expanded
+    const probeError = validateNetwatchProbe(formData)
+    if (probeError) {
+      newErrors.netwatchProbe = probeError
+      setShowAdvanced(true)
+    }
+
     setErrors(newErrors)
     return Object.keys(newErrors).length === 0
   }
@@ -116,22 +175,39 @@ export default function DeviceForm({ device, onSuccess, onCancel }: DeviceFormPr
     setIsSubmitting(true)
 
     try {
-      const url = device
-        ? `/api/devices/${device.id}`
-        : "/api/devices"
-      
-      const method = device ? "PUT" : "POST"
-
-      const response = await fetch(url, {
-        method,
-        headers: {
-          "Content-Type": "application/json"
-        },
-        body: JSON.stringify({
-          ...formData,
-          syncToMikrotik: !device && syncToMikrotik // Only for new devices
-        })
-      })
+      // Changes that reach a router are shown first and only saved once confirmed
+      const preview = await fetchRouterPreview(saveUrl, saveRequest())
+      if (preview.commands.length > 0) {
+        setRouterPreview(preview)
+        return
+      }
+    } catch (error) {
+      setSubmitError(error instanceof Error ? error.message : "Failed to preview the router changes")
+      setIsSubmitting(false)
+      return
+    }
+
+    await saveDevice()
+  }
+
+  const saveUrl = device ? `/api/devices/${device.id}` : "/api/devices"
+
+  const saveRequest = (): RequestInit => ({
+    method: device ? "PUT" : "POST",
+    headers: {
+      "Content-Type": "application/json"
+    },
+    body: JSON.stringify({
+      ...formData,
+      syncToMikrotik: !device && syncToMikrotik // Only for new devices
+    })
+  })
+
+  const saveDevice = async () => {
+    setRouterPreview(null)
+
+    try {
+      const response = await fetch(saveUrl, saveRequest())
 
       const data = await response.json()
 
@@ -167,10 +243,22 @@ export default function DeviceForm({ device, onSuccess, onCancel }: DeviceFormPr
   ) => {
     const { name, value } = e.target
     setFormData(prev => ({ ...prev, [name]: value }))
+    // A new device takes the netwatch defaults of its type
+    if (name === "type" && !device) {
+      const definition = findDeviceType(value)
+      setFormData(prev => ({
+        ...prev,
+        netwatchTimeout: definition?.netwatchTimeout || netwatchDefaults.netwatchTimeout,
+        netwatchInterval: definition?.netwatchInterval || netwatchDefaults.netwatchInterval
+      }))
+    }
     // Clear error for this field when user starts typing
     if (errors[name]) {
       setErrors(prev => ({ ...prev, [name]: "" }))
     }
+    if (name.startsWith("netwatch") && errors.netwatchProbe) {
+      setErrors(prev => ({ ...prev, netwatchProbe: "" }))
+    }
   }
 
   return (
@@ -227,6 +315,60 @@ export default function DeviceForm({ device, onSuccess, onCancel }: DeviceFormPr
         )}
       </div>
 
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="macAddress" className="block text-sm font-semibold text-gray-700 mb-2">
+            MAC Address
+          </label>
+          <input
+            type="text"
+            id="macAddress"
+            name="macAddress"
+            value={formData.macAddress}
+            onChange={handleChange}
+            className={`w-full px-4 py-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors font-mono ${
+              errors.macAddress ? "border-red-500 bg-red-50" : "border-gray-300 focus:border-blue-500"
+            }`}
+            placeholder="e.g., AA:BB:CC:DD:EE:FF"
+          />
+          {errors.macAddress ? (
+            <p className="mt-2 text-sm text-red-600 flex items-center gap-1">
+              <span className="w-4 h-4 text-red-500">⚠</span>
+              {errors.macAddress}
+            </p>
+          ) : (
+            <p className="mt-1 text-xs text-gray-500">
+              {macVendor.macAddress
+                ? `Vendor: ${macVendor.isLoading ? "…" : macVendor.vendor || "Unknown"}`
+                : "Filled in from the router's ARP table when empty"}
+            </p>
+          )}
+        </div>
+
+        <div>
+          <label htmlFor="hostname" className="block text-sm font-semibold text-gray-700 mb-2">
+            Hostname
+          </label>
+          <input
+            type="text"
+            id="hostname"
+            name="hostname"
+            value={formData.hostname}
+            onChange={handleChange}
+            className={`w-full px-4 py-3 border rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 transition-colors ${
+              errors.hostname ? "border-red-500 bg-red-50" : "border-gray-300 focus:border-blue-500"
+            }`}
+            placeholder="e.g., lobby-tv"
+          />
+          {errors.hostname && (
+            <p className="mt-2 text-sm text-red-600 flex items-center gap-1">
+              <span className="w-4 h-4 text-red-500">⚠</span>
+              {errors.hostname}
+            </p>
+          )}
+        </div>
+      </div>
+
       <div>
         <label htmlFor="type" className="block text-sm font-semibold text-gray-700 mb-2">
           Device Type *
@@ -240,19 +382,9 @@ export default function DeviceForm({ device, onSuccess, onCancel }: DeviceFormPr
             errors.type ? "border-red-500 bg-red-50" : "border-gray-300 focus:border-blue-500"
           }`}
         >
-          <option value="ROUTER">Router</option>
-          <option value="SWITCH">Switch</option>
-          <option value="ACCESS_POINT">Access Point</option>
-          <option value="PC">PC / Desktop</option>
-          <option value="LAPTOP">Laptop</option>
-          <option value="TABLET">Tablet</option>
-          <option value="PRINTER">Printer</option>
-          <option value="SCANNER_GTEX">Scanner (GTEX)</option>
-          <option value="SMART_TV">Smart TV</option>
-          <option value="CCTV">CCTV Camera</option>
-          <option value="SERVER">Server</option>
-          <option value="PHONE">Phone / Smartphone</option>
-          <option value="OTHER">Other Device</option>
+          {deviceTypes.map(definition => (
+            <option key={definition.key} value={definition.key}>{definition.label}</option>
+          ))}
         </select>
         {errors.type && (
           <p className="mt-2 text-sm text-red-600 flex items-center gap-1">
@@ -306,6 +438,27 @@ export default function DeviceForm({ device, onSuccess, onCancel }: DeviceFormPr
         </p>
       </div>
 
+      <div>
+        <label htmlFor="routerId" className="block text-sm font-semibold text-gray-700 mb-2">
+          MikroTik Router
+        </label>
+        <select
+          id="routerId"
+          name="routerId"
+          value={formData.routerId}
+          onChange={handleChange}
+          className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+        >
+          <option value="">{routers.length === 1 && !device ? 'Default Router' : 'Not Monitored'}</option>
+          {routers.map(r => (
+            <option key={r.id} value={r.id}>{r.name} ({r.host})</option>
+          ))}
+        </select>
+        <p className="mt-1 text-xs text-gray-500">
+          The MikroTik router whose netwatch monitors this device
+        </p>
+      </div>
+
       {/* Advanced Netwatch Configuration */}
       <div className="border-t border-gray-200 pt-4">
         <button
@@ -319,6 +472,95 @@ export default function DeviceForm({ device, onSuccess, onCancel }: DeviceFormPr
         
         {showAdvanced && (
           <div className="mt-4 space-y-4 bg-gray-50 p-4 rounded-lg">
+            <div>
+              <label htmlFor="netwatchType" className="block text-sm font-medium text-gray-700 mb-2">
+                Probe Type
+              </label>
+              <select
+                id="netwatchType"
+                name="netwatchType"
+                value={formData.netwatchType}
+                onChange={handleChange}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+              >
+                {NETWATCH_TYPES.map(type => (
+                  <option key={type} value={type}>{NETWATCH_TYPE_LABELS[type]}</option>
+                ))}
+              </select>
+              <p className="mt-1 text-xs text-gray-500">
+                TCP, HTTP and DNS probes require RouterOS 7
+              </p>
+            </div>
+
+            {(netwatchTypeUsesPort(formData.netwatchType) || formData.netwatchType === "dns") && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {netwatchTypeUsesPort(formData.netwatchType) && (
+                  <div>
+                    <label htmlFor="netwatchPort" className="block text-sm font-medium text-gray-700 mb-2">
+                      Port{formData.netwatchType === "tcp-conn" ? " *" : ""}
+                    </label>
+                    <input
+                      type="number"
+                      id="netwatchPort"
+                      name="netwatchPort"
+                      value={formData.netwatchPort}
+                      onChange={handleChange}
+                      min="1"
+                      max="65535"
+                      placeholder={formData.netwatchType === "http-get" ? String(DEFAULT_HTTP_PORT) : "e.g., 554"}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                    />
+                  </div>
+                )}
+
+                {formData.netwatchType === "http-get" && (
+                  <div>
+                    <label htmlFor="netwatchHttpCode" className="block text-sm font-medium text-gray-700 mb-2">
+                      Expected HTTP Code
+                    </label>
+                    <input
+                      type="number"
+                      id="netwatchHttpCode"
+                      name="netwatchHttpCode"
+                      value={formData.netwatchHttpCode}
+                      onChange={handleChange}
+                      min="100"
+                      max="599"
+                      placeholder={String(DEFAULT_HTTP_CODE)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                    />
+                  </div>
+                )}
+
+                {formData.netwatchType === "dns" && (
+                  <div className="md:col-span-2">
+                    <label htmlFor="netwatchDnsName" className="block text-sm font-medium text-gray-700 mb-2">
+                      Record Name *
+                    </label>
+                    <input
+                      type="text"
+                      id="netwatchDnsName"
+                      name="netwatchDnsName"
+                      value={formData.netwatchDnsName}
+                      onChange={handleChange}
+                      placeholder="e.g., intranet.example.com"
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors font-mono"
+                    />
+                    <p className="mt-1 text-xs text-gray-500">
+                      Name the device is asked to resolve
+                    </p>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {errors.netwatchProbe && (
+              <p className="text-sm text-red-600 flex items-center gap-1">
+                <span className="w-4 h-4 text-red-500">⚠</span>
+                {errors.netwatchProbe}
+              </p>
+            )}
+
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
               <div>
                 <label htmlFor="netwatchTimeout" className="block text-sm font-medium text-gray-700 mb-2">
@@ -336,7 +578,7 @@ export default function DeviceForm({ device, onSuccess, onCancel }: DeviceFormPr
                   className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
                 />
                 <p className="mt-1 text-xs text-gray-500">
-                  Time to wait for ICMP response (100-10000ms, default: 1000ms)
+                  Time to wait for a probe response (100-10000ms, default: 1000ms)
                 </p>
               </div>
 
@@ -399,12 +641,12 @@ export default function DeviceForm({ device, onSuccess, onCancel }: DeviceFormPr
 
             <div className="bg-blue-50 border border-blue-200 rounded-lg p-3">
               <p className="text-xs text-blue-800">
-                <strong>💡 MikroTik Netwatch - ICMP Only</strong>
+                <strong>💡 MikroTik Netwatch</strong>
               </p>
               <ul className="text-xs text-blue-700 mt-2 space-y-1 ml-4 list-disc">
                 <li><strong>Timeout:</strong> Lower values detect failures faster but may cause false positives</li>
                 <li><strong>Interval:</strong> Shorter intervals provide real-time monitoring but increase network traffic</li>
-                <li><strong>Check Method:</strong> Uses ICMP ping (standard MikroTik Netwatch)</li>
+                <li><strong>Probe Type:</strong> ICMP ping, a TCP port, an HTTP GET status code or a DNS lookup</li>
                 <li><strong>Scripts:</strong> Use MikroTik scripting language for automation (optional)</li>
               </ul>
             </div>
@@ -456,6 +698,18 @@ export default function DeviceForm({ device, onSuccess, onCancel }: DeviceFormPr
           {isSubmitting ? "Saving..." : device ? "Update Device" : "Create Device"}
         </button>
       </div>
+
+      {routerPreview && (
+        <RouterCommandPreview
+          preview={routerPreview}
+          confirmLabel={device ? "Update Device" : "Create Device"}
+          onConfirm={saveDevice}
+          onCancel={() => {
+            setRouterPreview(null)
+            setIsSubmitting(false)
+          }}
+        />
+      )}
     </form>
   )
 }
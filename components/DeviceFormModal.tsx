@@ -2,7 +2,17 @@
 
 import React, { useState, useEffect, useRef } from "react"
 import { X } from "lucide-react"
-import { DEVICE_TYPES, DEVICE_TYPE_LABELS, DeviceType } from "@/lib/constants"
+import { useDeviceTypes } from "@/hooks/useDeviceTypes"
+import {
+  DEFAULT_HTTP_CODE,
+  DEFAULT_HTTP_PORT,
+  NETWATCH_TYPES,
+  NETWATCH_TYPE_LABELS,
+  netwatchTypeUsesPort,
+  validateNetwatchProbe
+} from "@/lib/netwatch-probes"
+import { fetchRouterPreview, RouterPreview } from "@/lib/routeros-dry-run"
+import RouterCommandPreview from "./RouterCommandPreview"
 
 interface DeviceFormModalProps {
   isOpen: boolean
@@ -14,10 +24,17 @@ interface DeviceFormModalProps {
     type: string
     laneName: string
     roomId?: string | null
+    routerId?: string | null
+    netwatchType?: string
     netwatchTimeout?: number
     netwatchInterval?: number
+    netwatchPort?: number | null
+    netwatchHttpCode?: number | null
+    netwatchDnsName?: string | null
     netwatchUpScript?: string | null
     netwatchDownScript?: string | null
+    latencyThresholdMs?: number | null
+    lossThresholdPercent?: number | null
   }
   onSuccess?: () => void
 }
@@ -35,19 +52,30 @@ export default function DeviceFormModal({
     type: device?.type || "ROUTER",
     laneName: device?.laneName || "",
     roomId: device?.roomId || "",
+    routerId: device?.routerId || "",
     netwatchTimeout: device?.netwatchTimeout || 1000,
     netwatchInterval: device?.netwatchInterval || 5,
+    netwatchType: device?.netwatchType || "icmp",
+    netwatchPort: device?.netwatchPort?.toString() ?? "",
+    netwatchHttpCode: device?.netwatchHttpCode?.toString() ?? "",
+    netwatchDnsName: device?.netwatchDnsName || "",
     netwatchUpScript: device?.netwatchUpScript || "",
-    netwatchDownScript: device?.netwatchDownScript || ""
+    netwatchDownScript: device?.netwatchDownScript || "",
+    latencyThresholdMs: device?.latencyThresholdMs?.toString() ?? "",
+    lossThresholdPercent: device?.lossThresholdPercent?.toString() ?? ""
   })
+  const [netwatchDefaults, setNetwatchDefaults] = useState({ netwatchTimeout: 1000, netwatchInterval: 5 })
+  const { deviceTypes, findDeviceType } = useDeviceTypes()
   const [syncToMikrotik, setSyncToMikrotik] = useState(false)
   const [showAdvanced, setShowAdvanced] = useState(false)
   const [errors, setErrors] = useState<Record<string, string>>({})
   const [isSubmitting, setIsSubmitting] = useState(false)
+  const [routerPreview, setRouterPreview] = useState<RouterPreview | null>(null)
   const [submitError, setSubmitError] = useState("")
   const [rooms, setRooms] = useState<Array<{ id: string; name: string }>>([])
+  const [routers, setRouters] = useState<Array<{ id: string; name: string; host: string }>>([])
 
-  // Fetch rooms and system config on mount
+  // Fetch rooms, routers and system config on mount
   useEffect(() => {
     if (!isOpen) return
 
@@ -60,6 +88,16 @@ export default function DeviceFormModal({
         }
       })
       .catch(err => console.error('Failed to fetch rooms:', err))
+
+    // Fetch MikroTik routers
+    fetch('/api/routers')
+      .then(res => res.json())
+      .then(data => {
+        if (data.routers) {
+          setRouters(data.routers)
+        }
+      })
+      .catch(err => console.error('Failed to fetch routers:', err))
     
     // Fetch system config for default values (only for new devices)
     if (!device) {
@@ -67,11 +105,12 @@ export default function DeviceFormModal({
         .then(res => res.json())
         .then(data => {
           if (data.config) {
-            setFormData(prev => ({
-              ...prev,
+            const defaults = {
               netwatchTimeout: data.config.defaultNetwatchTimeout || 1000,
               netwatchInterval: data.config.defaultNetwatchInterval || 5
-            }))
+            }
+            setNetwatchDefaults(defaults)
+            setFormData(prev => ({ ...prev, ...defaults }))
           }
         })
         .catch(err => console.error('Failed to fetch system config:', err))
@@ -87,10 +126,17 @@ export default function DeviceFormModal({
         type: device.type,
         laneName: device.laneName,
         roomId: device.roomId || "",
+        routerId: device.routerId || "",
         netwatchTimeout: device.netwatchTimeout || 1000,
         netwatchInterval: device.netwatchInterval || 5,
+        netwatchType: device.netwatchType || "icmp",
+        netwatchPort: device.netwatchPort?.toString() ?? "",
+        netwatchHttpCode: device.netwatchHttpCode?.toString() ?? "",
+        netwatchDnsName: device.netwatchDnsName || "",
         netwatchUpScript: device.netwatchUpScript || "",
-        netwatchDownScript: device.netwatchDownScript || ""
+        netwatchDownScript: device.netwatchDownScript || "",
+        latencyThresholdMs: device.latencyThresholdMs?.toString() ?? "",
+        lossThresholdPercent: device.lossThresholdPercent?.toString() ?? ""
       })
     } else {
       setFormData({
@@ -99,10 +145,17 @@ export default function DeviceFormModal({
         type: "ROUTER",
         laneName: "",
         roomId: "",
+        routerId: "",
         netwatchTimeout: 1000,
         netwatchInterval: 5,
+        netwatchType: "icmp",
+        netwatchPort: "",
+        netwatchHttpCode: "",
+        netwatchDnsName: "",
         netwatchUpScript: "",
-        netwatchDownScript: ""
+        netwatchDownScript: "",
+        latencyThresholdMs: "",
+        lossThresholdPercent: ""
       })
     }
     setErrors({})
@@ -167,6 +220,26 @@ export default function DeviceFormModal({
       newErrors.laneName = "Lane name is required"
     }
 
+    const latency = Number(formData.latencyThresholdMs)
+    if (formData.latencyThresholdMs !== "" && (!Number.isInteger(latency) || latency < 1 || latency > 60000)) {
+      newErrors.latencyThresholdMs = "Latency threshold must be between 1 and 60000ms"
+    }
+
+    const loss = Number(formData.lossThresholdPercent)
+    if (formData.lossThresholdPercent !== "" && (!Number.isInteger(loss) || loss < 0 || loss > 99)) {
+      newErrors.lossThresholdPercent = "Loss threshold must be between 0 and 99%"
+    }
+
+    const probeError = validateNetwatchProbe(formData)
+    if (probeError) {
+      newErrors.netwatchProbe = probeError
+    }
+
+    // Thresholds and probe settings live in the collapsed section - open it so the error is visible
+    if (newErrors.latencyThresholdMs || newErrors.lossThresholdPercent || newErrors.netwatchProbe) {
+      setShowAdvanced(true)
+    }
+
     setErrors(newErrors)
     return Object.keys(newErrors).length === 0
   }
@@ -182,22 +255,39 @@ export default function DeviceFormModal({
     setIsSubmitting(true)
 
     try {
-      const url = device
-        ? `/api/devices/${device.id}`
-        : "/api/devices"
-      
-      const method = device ? "PUT" : "POST"
-
-      const response = await fetch(url, {
-        method,
-        headers: {
-          "Content-Type": "application/json"
-        },
-        body: JSON.stringify({
-          ...formData,
-          syncToMikrotik: !device && syncToMikrotik // Only for new devices
-        })
-      })
+      // Changes that reach a router are shown first and only saved once confirmed
+      const preview = await fetchRouterPreview(saveUrl, saveRequest())
+      if (preview.commands.length > 0) {
+        setRouterPreview(preview)
+        return
+      }
+    } catch (error) {
+      setSubmitError(error instanceof Error ? error.message : "Failed to preview the router changes")
+      setIsSubmitting(false)
+      return
+    }
+
+    await saveDevice()
+  }
+
+  const saveUrl = device ? `/api/devices/${device.id}` : "/api/devices"
+
+  const saveRequest = (): RequestInit => ({
+    method: device ? "PUT" : "POST",
+    headers: {
+      "Content-Type": "application/json"
+    },
+    body: JSON.stringify({
+      ...formData,
+      syncToMikrotik: !device && syncToMikrotik // Only for new devices
+    })
+  })
+
+  const saveDevice = async () => {
+    setRouterPreview(null)
+
+    try {
+      const response = await fetch(saveUrl, saveRequest())
 
       const data = await response.json()
 
@@ -232,10 +322,22 @@ export default function DeviceFormModal({
   ) => {
     const { name, value } = e.target
     setFormData(prev => ({ ...prev, [name]: value }))
+    // A new device takes the netwatch defaults of its type
+    if (name === "type" && !device) {
+      const definition = findDeviceType(value)
+      setFormData(prev => ({
+        ...prev,
+        netwatchTimeout: definition?.netwatchTimeout || netwatchDefaults.netwatchTimeout,
+        netwatchInterval: definition?.netwatchInterval || netwatchDefaults.netwatchInterval
+      }))
+    }
     // Clear error for this field when user starts typing
     if (errors[name]) {
       setErrors(prev => ({ ...prev, [name]: "" }))
     }
+    if (name.startsWith("netwatch") && errors.netwatchProbe) {
+      setErrors(prev => ({ ...prev, netwatchProbe: "" }))
+    }
   }
 
   if (!isOpen) return null
@@ -342,9 +444,9 @@ export default function DeviceFormModal({
                         errors.type ? "border-red-500 bg-red-50" : "border-gray-300 focus:border-blue-500"
                       }`}
                     >
-                      {DEVICE_TYPES.map(type => (
-                        <option key={type} value={type}>
-                          {DEVICE_TYPE_LABELS[type]}
+                      {deviceTypes.map(definition => (
+                        <option key={definition.key} value={definition.key}>
+                          {definition.label}
                         </option>
                       ))}
                     </select>
@@ -397,6 +499,25 @@ export default function DeviceFormModal({
                   </select>
                 </div>
 
+                {/* MikroTik Router */}
+                <div>
+                  <label htmlFor="routerId" className="block text-sm font-medium text-gray-700 mb-1">
+                    MikroTik Router
+                  </label>
+                  <select
+                    id="routerId"
+                    name="routerId"
+                    value={formData.routerId}
+                    onChange={handleChange}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                  >
+                    <option value="">{routers.length === 1 && !device ? 'Default Router' : 'Not Monitored'}</option>
+                    {routers.map(r => (
+                      <option key={r.id} value={r.id}>{r.name} ({r.host})</option>
+                    ))}
+                  </select>
+                </div>
+
                 {/* Advanced Netwatch Configuration */}
                 <div className="border-t border-gray-200 pt-4">
                   <button
@@ -410,6 +531,86 @@ export default function DeviceFormModal({
                   
                   {showAdvanced && (
                     <div className="mt-3 space-y-3 bg-gray-50 p-3 rounded-lg">
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                        <div>
+                          <label htmlFor="netwatchType" className="block text-sm font-medium text-gray-700 mb-1">
+                            Probe Type
+                          </label>
+                          <select
+                            id="netwatchType"
+                            name="netwatchType"
+                            value={formData.netwatchType}
+                            onChange={handleChange}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-sm"
+                          >
+                            {NETWATCH_TYPES.map(type => (
+                              <option key={type} value={type}>{NETWATCH_TYPE_LABELS[type]}</option>
+                            ))}
+                          </select>
+                          <p className="mt-1 text-xs text-gray-500">
+                            TCP, HTTP and DNS need RouterOS 7
+                          </p>
+                        </div>
+
+                        {netwatchTypeUsesPort(formData.netwatchType) && (
+                          <div>
+                            <label htmlFor="netwatchPort" className="block text-sm font-medium text-gray-700 mb-1">
+                              Port{formData.netwatchType === "tcp-conn" ? " *" : ""}
+                            </label>
+                            <input
+                              type="number"
+                              id="netwatchPort"
+                              name="netwatchPort"
+                              value={formData.netwatchPort}
+                              onChange={handleChange}
+                              min="1"
+                              max="65535"
+                              placeholder={formData.netwatchType === "http-get" ? String(DEFAULT_HTTP_PORT) : "e.g., 554"}
+                              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-sm"
+                            />
+                          </div>
+                        )}
+
+                        {formData.netwatchType === "dns" && (
+                          <div>
+                            <label htmlFor="netwatchDnsName" className="block text-sm font-medium text-gray-700 mb-1">
+                              Record Name *
+                            </label>
+                            <input
+                              type="text"
+                              id="netwatchDnsName"
+                              name="netwatchDnsName"
+                              value={formData.netwatchDnsName}
+                              onChange={handleChange}
+                              placeholder="e.g., intranet.example.com"
+                              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-sm font-mono"
+                            />
+                          </div>
+                        )}
+
+                        {formData.netwatchType === "http-get" && (
+                          <div>
+                            <label htmlFor="netwatchHttpCode" className="block text-sm font-medium text-gray-700 mb-1">
+                              Expected HTTP Code
+                            </label>
+                            <input
+                              type="number"
+                              id="netwatchHttpCode"
+                              name="netwatchHttpCode"
+                              value={formData.netwatchHttpCode}
+                              onChange={handleChange}
+                              min="100"
+                              max="599"
+                              placeholder={String(DEFAULT_HTTP_CODE)}
+                              className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-sm"
+                            />
+                          </div>
+                        )}
+                      </div>
+                      {errors.netwatchProbe && (
+                        <p className="text-xs text-red-600">{errors.netwatchProbe}</p>
+                      )}
+
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
                         <div>
                           <label htmlFor="netwatchTimeout" className="block text-sm font-medium text-gray-700 mb-1">
@@ -452,6 +653,59 @@ export default function DeviceFormModal({
                         </div>
                       </div>
 
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                        <div>
+                          <label htmlFor="latencyThresholdMs" className="block text-sm font-medium text-gray-700 mb-1">
+                            Degraded Above (ms)
+                          </label>
+                          <input
+                            type="number"
+                            id="latencyThresholdMs"
+                            name="latencyThresholdMs"
+                            value={formData.latencyThresholdMs}
+                            onChange={handleChange}
+                            min="1"
+                            max="60000"
+                            placeholder="Off"
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-sm"
+                          />
+                          {errors.latencyThresholdMs ? (
+                            <p className="mt-1 text-xs text-red-600">{errors.latencyThresholdMs}</p>
+                          ) : (
+                            <p className="mt-1 text-xs text-gray-500">
+                              Average round trip time
+                            </p>
+                          )}
+                        </div>
+
+                        <div>
+                          <label htmlFor="lossThresholdPercent" className="block text-sm font-medium text-gray-700 mb-1">
+                            Degraded Above (% loss)
+                          </label>
+                          <input
+                            type="number"
+                            id="lossThresholdPercent"
+                            name="lossThresholdPercent"
+                            value={formData.lossThresholdPercent}
+                            onChange={handleChange}
+                            min="0"
+                            max="99"
+                            placeholder="Off"
+                            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors text-sm"
+                          />
+                          {errors.lossThresholdPercent ? (
+                            <p className="mt-1 text-xs text-red-600">{errors.lossThresholdPercent}</p>
+                          ) : (
+                            <p className="mt-1 text-xs text-gray-500">
+                              Packet loss per probe
+                            </p>
+                          )}
+                        </div>
+                      </div>
+                      <p className="text-xs text-gray-500">
+                        Needs an ICMP netwatch probe on RouterOS 7. Leave empty to only track up/down
+                      </p>
+
                       <div>
                         <label htmlFor="netwatchUpScript" className="block text-sm font-medium text-gray-700 mb-1">
                           Up Script (Optional)
@@ -530,6 +784,18 @@ export default function DeviceFormModal({
           </div>
         </div>
       </div>
+
+      {routerPreview && (
+        <RouterCommandPreview
+          preview={routerPreview}
+          confirmLabel={device ? "Update Device" : "Create Device"}
+          onConfirm={saveDevice}
+          onCancel={() => {
+            setRouterPreview(null)
+            setIsSubmitting(false)
+          }}
+        />
+      )}
     </>
   )
 }
@@ -0,0 +1,332 @@
+"use client"
+
+import React, { useState, useEffect } from "react"
+import { useRouter } from "next/navigation"
+import { AlertCircle, CheckCircle2, FileSpreadsheet, Upload } from "lucide-react"
+import type { DeviceImportRow } from "@/lib/device-import"
+import { dryRunUrl, RouterOSCommand } from "@/lib/routeros-dry-run"
+import { useDeviceTypes } from "@/hooks/useDeviceTypes"
+import { RouterCommandList } from "./RouterCommandPreview"
+
+interface ImportPreview {
+  rows: DeviceImportRow[]
+  valid: number
+  invalid: number
+  commands: RouterOSCommand[]
+  warning?: string
+}
+
+// Base64 of a file for the JSON body, in chunks so large files don't overflow the call stack
+async function readAsBase64(file: File): Promise<string> {
+  const bytes = new Uint8Array(await file.arrayBuffer())
+  let binary = ""
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(offset, offset + 0x8000)))
+  }
+  return btoa(binary)
+}
+
+/**
+ * Device Import
+ * Checks every row of a CSV or XLSX inventory and creates the valid ones
+ */
+export default function DeviceImportClient() {
+  const router = useRouter()
+  const [fileName, setFileName] = useState("")
+  const [content, setContent] = useState("")
+  const [preview, setPreview] = useState<ImportPreview | null>(null)
+  const [checking, setChecking] = useState(false)
+  const [importing, setImporting] = useState(false)
+  const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null)
+  const [routers, setRouters] = useState<Array<{ id: string; name: string; host: string; enabled: boolean }>>([])
+  const [selectedRouterId, setSelectedRouterId] = useState("")
+  const [syncToMikrotik, setSyncToMikrotik] = useState(true)
+  const [showErrorsOnly, setShowErrorsOnly] = useState(false)
+  const { getLabel } = useDeviceTypes()
+
+  // Fetch MikroTik routers on mount
+  useEffect(() => {
+    fetch('/api/routers')
+      .then(res => res.json())
+      .then(data => {
+        if (data.routers) {
+          const enabledRouters = data.routers.filter((r: { enabled: boolean }) => r.enabled)
+          setRouters(enabledRouters)
+          if (enabledRouters.length > 0) {
+            setSelectedRouterId(enabledRouters[0].id)
+          }
+        }
+      })
+      .catch(err => console.error('Failed to fetch routers:', err))
+  }, [])
+
+  const importRequest = (fileContent: string, sync: boolean, routerId: string): RequestInit => ({
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      content: fileContent,
+      routerId: routerId || null,
+      syncToMikrotik: sync
+    })
+  })
+
+  const checkFile = async (fileContent: string, sync: boolean, routerId: string) => {
+    setChecking(true)
+    setMessage(null)
+
+    try {
+      const response = await fetch(dryRunUrl('/api/devices/import'), importRequest(fileContent, sync, routerId))
+      const data = await response.json()
+
+      if (!response.ok) {
+        setPreview(null)
+        setMessage({ type: 'error', text: data.details ? `${data.error}: ${data.details}` : data.error || 'Failed to check the file' })
+        return
+      }
+
+      setPreview({
+        rows: data.rows,
+        valid: data.valid,
+        invalid: data.invalid,
+        commands: data.commands ?? [],
+        warning: data.warning
+      })
+      setShowErrorsOnly(data.invalid > 0)
+    } catch (error) {
+      console.error('Error checking import file:', error)
+      setMessage({ type: 'error', text: 'Failed to connect to server. Please check your network connection and try again.' })
+    } finally {
+      setChecking(false)
+    }
+  }
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    const fileContent = await readAsBase64(file)
+    setFileName(file.name)
+    setContent(fileContent)
+    await checkFile(fileContent, syncToMikrotik, selectedRouterId)
+  }
+
+  // The netwatch preview depends on the router and the sync option
+  const handleOptionsChange = (sync: boolean, routerId: string) => {
+    setSyncToMikrotik(sync)
+    setSelectedRouterId(routerId)
+    if (content) {
+      checkFile(content, sync, routerId)
+    }
+  }
+
+  const handleImport = async () => {
+    if (!preview || preview.valid === 0) return
+
+    setImporting(true)
+    setMessage(null)
+
+    try {
+      const response = await fetch('/api/devices/import', importRequest(content, syncToMikrotik, selectedRouterId))
+      const data = await response.json()
+
+      if (!response.ok) {
+        setMessage({ type: 'error', text: data.error || 'Failed to import devices' })
+        return
+      }
+
+      setMessage({ type: data.warning ? 'error' : 'success', text: data.warning ? `${data.message}. ${data.warning}` : data.message })
+      setPreview(null)
+      setContent("")
+      setFileName("")
+      router.refresh()
+    } catch (error) {
+      console.error('Error importing devices:', error)
+      setMessage({ type: 'error', text: 'Failed to import devices. Please try again.' })
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  const visibleRows = preview ? preview.rows.filter(row => !showErrorsOnly || row.errors.length > 0) : []
+
+  return (
+    <div className="max-w-6xl">
+      {message && (
+        <div className={`mb-6 p-4 rounded-lg ${
+          message.type === 'success'
+            ? 'bg-green-100 text-green-800 border border-green-300'
+            : 'bg-red-100 text-red-800 border border-red-300'
+        }`}>
+          {message.text}
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-lg p-6 lg:p-8 border border-gray-200">
+        <div className="flex flex-col md:flex-row justify-between md:items-center mb-6 gap-4">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">Inventory File</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              One device per row with the columns Name, IP, Type and Lane; Room, MAC, Hostname,
+              Netwatch Timeout (ms) and Netwatch Interval (s) are optional
+            </p>
+          </div>
+          <label className={`bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium transition-colors flex items-center gap-2 whitespace-nowrap ${checking ? 'opacity-50 cursor-not-allowed' : 'cursor-pointer'}`}>
+            <Upload className="w-4 h-4" />
+            {checking ? 'Checking...' : 'Choose File'}
+            <input
+              type="file"
+              accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+              onChange={handleFile}
+              disabled={checking}
+              className="hidden"
+            />
+          </label>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4 mb-4 p-4 bg-gray-50 border border-gray-200 rounded-lg">
+          {routers.length > 1 && (
+            <select
+              value={selectedRouterId}
+              onChange={(e) => handleOptionsChange(syncToMikrotik, e.target.value)}
+              disabled={checking || importing}
+              aria-label="MikroTik router"
+              className="px-3 py-1.5 border border-gray-300 rounded text-sm"
+            >
+              {routers.map(r => (
+                <option key={r.id} value={r.id}>{r.name} ({r.host})</option>
+              ))}
+            </select>
+          )}
+          <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={syncToMikrotik}
+              onChange={(e) => handleOptionsChange(e.target.checked, selectedRouterId)}
+              disabled={checking || importing}
+              className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+            />
+            Add netwatch entries
+          </label>
+          {fileName && (
+            <span className="flex items-center gap-2 text-sm text-gray-600 md:ml-auto">
+              <FileSpreadsheet className="w-4 h-4" />
+              {fileName}
+            </span>
+          )}
+        </div>
+
+        {preview && (
+          <>
+            <div className="flex flex-wrap items-center gap-3 mb-3 text-sm">
+              <span className="flex items-center gap-1 text-green-700">
+                <CheckCircle2 className="w-4 h-4" />
+                {preview.valid} ready
+              </span>
+              {preview.invalid > 0 && (
+                <span className="flex items-center gap-1 text-red-700">
+                  <AlertCircle className="w-4 h-4" />
+                  {preview.invalid} with errors (skipped)
+                </span>
+              )}
+              <label className="flex items-center gap-2 text-gray-700 cursor-pointer ml-auto">
+                <input
+                  type="checkbox"
+                  checked={showErrorsOnly}
+                  onChange={(e) => setShowErrorsOnly(e.target.checked)}
+                  className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                Only rows with errors
+              </label>
+            </div>
+
+            <div className="overflow-x-auto mb-6 max-h-[32rem] overflow-y-auto border border-gray-200 rounded-lg">
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50 sticky top-0">
+                  <tr className="text-left text-xs font-semibold text-gray-600 uppercase">
+                    <th className="px-3 py-2">Row</th>
+                    <th className="px-3 py-2">Name</th>
+                    <th className="px-3 py-2">IP / MAC</th>
+                    <th className="px-3 py-2">Type</th>
+                    <th className="px-3 py-2">Lane / Room</th>
+                    <th className="px-3 py-2">Problems</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-100">
+                  {visibleRows.map(row => (
+                    <tr key={row.row} className={`align-top ${row.errors.length > 0 ? 'bg-red-50' : ''}`}>
+                      <td className="px-3 py-2 text-gray-500">{row.row}</td>
+                      <td className="px-3 py-2">
+                        <div className="text-gray-900">{row.name || '—'}</div>
+                        {row.hostname && <div className="text-xs text-gray-500">{row.hostname}</div>}
+                      </td>
+                      <td className="px-3 py-2">
+                        <div className="font-mono text-gray-900">{row.ip || '—'}</div>
+                        {row.macAddress && <div className="font-mono text-xs text-gray-500">{row.macAddress}</div>}
+                      </td>
+                      <td className="px-3 py-2 text-gray-700">{row.type ? getLabel(row.type) : '—'}</td>
+                      <td className="px-3 py-2">
+                        <div className="text-gray-700">{row.laneName || '—'}</div>
+                        {row.roomName && <div className="text-xs text-gray-500">{row.roomName}</div>}
+                      </td>
+                      <td className="px-3 py-2">
+                        {row.errors.length > 0 ? (
+                          <ul className="text-xs text-red-700 space-y-0.5">
+                            {row.errors.map(error => <li key={error}>{error}</li>)}
+                          </ul>
+                        ) : (
+                          <CheckCircle2 className="w-4 h-4 text-green-600" aria-label="Ready" />
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                  {visibleRows.length === 0 && (
+                    <tr>
+                      <td colSpan={6} className="px-3 py-6 text-center text-gray-500">No rows with errors</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+
+            {syncToMikrotik && preview.valid > 0 && (
+              <div className="mb-6">
+                <h3 className="text-sm font-semibold text-gray-700 mb-2">Netwatch entries to add</h3>
+                {preview.warning && <p className="text-sm text-amber-700 mb-2">{preview.warning}</p>}
+                <div className="max-h-48 overflow-y-auto">
+                  <RouterCommandList commands={preview.commands} />
+                </div>
+              </div>
+            )}
+
+            <div className="flex gap-3 justify-end pt-4 border-t border-gray-200">
+              <button
+                onClick={() => router.push('/dashboard/manage/devices')}
+                className="px-6 py-2.5 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors font-medium"
+                disabled={importing}
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleImport}
+                disabled={importing || checking || preview.valid === 0}
+                className="px-6 py-2.5 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-lg hover:from-blue-700 hover:to-blue-800 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed font-medium shadow-md hover:shadow-lg flex items-center gap-2"
+              >
+                <Upload className="w-4 h-4" />
+                {importing ? 'Importing...' : `Import ${preview.valid} Device${preview.valid !== 1 ? 's' : ''}`}
+              </button>
+            </div>
+          </>
+        )}
+
+        {!checking && !preview && (
+          <div className="text-center py-12 text-gray-500">
+            <FileSpreadsheet className="w-12 h-12 mx-auto mb-4 text-gray-400" />
+            <p className="text-lg font-medium">No file chosen</p>
+            <p className="text-sm mt-2">Every row is checked and shown here before anything is imported. An export from the device list can be edited and imported again.</p>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,181 @@
+'use client'
+
+import React from 'react'
+import { Activity } from 'lucide-react'
+import useSWR from 'swr'
+
+interface MetricPoint {
+  timestamp: string
+  rttAvgMs: number | null
+  rttMaxMs: number | null
+  jitterMs: number | null
+  lossPercent: number | null
+}
+
+interface DeviceMetricsSparklinesProps {
+  deviceId: string
+  hours?: number
+}
+
+interface SparklineProps {
+  label: string
+  values: (number | null)[]
+  latest: number | null
+  unit: string
+  color: string
+  threshold?: number | null
+}
+
+const fetcher = (url: string) => fetch(url).then((res) => res.json())
+
+const SPARKLINE_WIDTH = 120
+const SPARKLINE_HEIGHT = 24
+
+const formatValue = (value: number | null, unit: string) => {
+  if (value === null) return '—'
+  return `${value < 10 ? value.toFixed(1) : Math.round(value)}${unit}`
+}
+
+/**
+ * One metric as an SVG polyline, with the degraded threshold as a dashed line
+ */
+function Sparkline({ label, values, latest, unit, color, threshold }: SparklineProps) {
+  const known = values.filter((value): value is number => value !== null)
+  const max = Math.max(...known, threshold ?? 0, 1)
+  const step = values.length > 1 ? SPARKLINE_WIDTH / (values.length - 1) : 0
+  const toY = (value: number) => SPARKLINE_HEIGHT - (value / max) * (SPARKLINE_HEIGHT - 2) - 1
+
+  // Gaps (no sample) split the line into segments
+  const segments: string[] = []
+  let current: string[] = []
+  values.forEach((value, index) => {
+    if (value === null) {
+      if (current.length > 0) segments.push(current.join(' '))
+      current = []
+      return
+    }
+    current.push(`${(index * step).toFixed(1)},${toY(value).toFixed(1)}`)
+  })
+  if (current.length > 0) segments.push(current.join(' '))
+
+  const aboveThreshold = threshold != null && latest !== null && latest > threshold
+
+  return (
+    <div className="flex items-center justify-between gap-2 text-[10px]">
+      <span className="w-12 text-gray-500">{label}</span>
+      <svg
+        width={SPARKLINE_WIDTH}
+        height={SPARKLINE_HEIGHT}
+        viewBox={`0 0 ${SPARKLINE_WIDTH} ${SPARKLINE_HEIGHT}`}
+        className="flex-shrink-0 bg-gray-50 rounded"
+        aria-label={`${label} sparkline`}
+      >
+        {threshold != null && (
+          <line
+            x1={0}
+            x2={SPARKLINE_WIDTH}
+            y1={toY(threshold)}
+            y2={toY(threshold)}
+            stroke="#F97316"
+            strokeWidth={1}
+            strokeDasharray="3 2"
+          />
+        )}
+        {segments.map((points, index) => (
+          points.includes(' ') ? (
+            <polyline key={index} points={points} fill="none" stroke={color} strokeWidth={1.5} strokeLinejoin="round" />
+          ) : (
+            <circle key={index} cx={points.split(',')[0]} cy={points.split(',')[1]} r={1.5} fill={color} />
+          )
+        ))}
+      </svg>
+      <span className={`w-12 text-right font-medium ${aboveThreshold ? 'text-orange-600' : 'text-gray-900'}`}>
+        {formatValue(latest, unit)}
+      </span>
+    </div>
+  )
+}
+
+/**
+ * Device Metrics Sparklines Component
+ * Shows latency, jitter and packet loss from netwatch ICMP probes for the last N hours
+ */
+export default function DeviceMetricsSparklines({ deviceId, hours = 24 }: DeviceMetricsSparklinesProps) {
+  const { data, error, isLoading } = useSWR(
+    `/api/devices/${deviceId}/metrics?hours=${hours}`,
+    fetcher,
+    {
+      refreshInterval: 60000, // Refresh every minute
+      revalidateOnFocus: true
+    }
+  )
+
+  if (isLoading) {
+    return (
+      <div className="p-3 text-center text-xs text-gray-500">
+        Loading metrics...
+      </div>
+    )
+  }
+
+  if (error || !data?.success) {
+    return (
+      <div className="p-3 text-center text-xs text-red-500">
+        Failed to load metrics
+      </div>
+    )
+  }
+
+  const metrics: MetricPoint[] = data.metrics || []
+  const latest: MetricPoint | null = data.latest
+
+  return (
+    <div className="border-t pt-3 mt-3">
+      <div className="flex items-center gap-1.5 mb-2">
+        <Activity className="w-3.5 h-3.5 text-gray-500" />
+        <span className="text-xs font-semibold text-gray-700">
+          Latency &amp; Loss ({hours}h)
+        </span>
+      </div>
+
+      {metrics.length > 0 ? (
+        <div className="space-y-1">
+          <Sparkline
+            label="RTT avg"
+            values={metrics.map(point => point.rttAvgMs)}
+            latest={latest?.rttAvgMs ?? null}
+            unit="ms"
+            color="#2563EB"
+            threshold={data.thresholds?.latencyThresholdMs}
+          />
+          <Sparkline
+            label="RTT max"
+            values={metrics.map(point => point.rttMaxMs)}
+            latest={latest?.rttMaxMs ?? null}
+            unit="ms"
+            color="#7C3AED"
+          />
+          <Sparkline
+            label="Jitter"
+            values={metrics.map(point => point.jitterMs)}
+            latest={latest?.jitterMs ?? null}
+            unit="ms"
+            color="#0D9488"
+          />
+          <Sparkline
+            label="Loss"
+            values={metrics.map(point => point.lossPercent)}
+            latest={latest?.lossPercent ?? null}
+            unit="%"
+            color="#DC2626"
+            threshold={data.thresholds?.lossThresholdPercent}
+          />
+        </div>
+      ) : (
+        <div className="text-center py-2 text-xs text-gray-500">
+          No latency data - requires an ICMP netwatch probe on RouterOS 7
+        </div>
+      )}
+    </div>
+  )
+}
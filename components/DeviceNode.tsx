@@ -2,45 +2,21 @@
 
 import React, { memo, useState, useEffect } from 'react'
 import { Handle, Position, NodeProps } from 'reactflow'
-import { 
-  Router, 
-  Tablet, 
-  ScanBarcode, 
-  Tv, 
-  Monitor, 
-  Laptop, 
-  Printer, 
-  Video, 
-  Server, 
-  Smartphone,
-  Network,
-  Wifi,
-  HelpCircle
-} from 'lucide-react'
-
-type DeviceType = 
-  | 'ROUTER' 
-  | 'SWITCH' 
-  | 'ACCESS_POINT' 
-  | 'PC' 
-  | 'LAPTOP' 
-  | 'TABLET' 
-  | 'PRINTER' 
-  | 'SCANNER_GTEX' 
-  | 'SMART_TV' 
-  | 'CCTV' 
-  | 'SERVER' 
-  | 'PHONE'
-  | 'OTHER'
+import { Wrench } from 'lucide-react'
+import { DeviceTypeDefinition } from '@/lib/constants'
+import DeviceTypeIcon from './DeviceTypeIcon'
 
 interface DeviceNodeData {
   name: string
   laneName: string
   status: string
-  type: DeviceType
+  type: string
+  typeDefinition?: DeviceTypeDefinition // From the registry - built-in defaults when omitted
   ip?: string
   lastSeen?: string
   statusSince?: string
+  maintenance?: boolean
+  isRootCause?: boolean
   onClick?: (e?: React.MouseEvent) => void
   onContextMenu?: (e: React.MouseEvent) => void
   onFinalizeDrawing?: () => void
@@ -49,7 +25,7 @@ interface DeviceNodeData {
 }
 
 const DeviceNode = ({ data }: NodeProps<DeviceNodeData>) => {
-  const { name, status, type, ip, statusSince, onClick, onContextMenu, onFinalizeDrawing, isDrawingMode, isDrawingSource } = data
+  const { name, status, type, typeDefinition, ip, statusSince, maintenance, isRootCause, onClick, onContextMenu, onFinalizeDrawing, isDrawingMode, isDrawingSource } = data
   const [showTooltip, setShowTooltip] = useState(false)
   const [timeSince, setTimeSince] = useState<string | null>(null)
   const [isMounted, setIsMounted] = useState(false)
@@ -59,40 +35,6 @@ const DeviceNode = ({ data }: NodeProps<DeviceNodeData>) => {
     setIsMounted(true)
   }, [])
 
-  // Icon mapping - comprehensive device types (compact size)
-  const getIcon = () => {
-    switch (type) {
-      case 'ROUTER':
-        return <Router className="w-5 h-5" strokeWidth={1.5} />
-      case 'SWITCH':
-        return <Network className="w-5 h-5" strokeWidth={1.5} />
-      case 'ACCESS_POINT':
-        return <Wifi className="w-5 h-5" strokeWidth={1.5} />
-      case 'PC':
-        return <Monitor className="w-5 h-5" strokeWidth={1.5} />
-      case 'LAPTOP':
-        return <Laptop className="w-5 h-5" strokeWidth={1.5} />
-      case 'TABLET':
-        return <Tablet className="w-5 h-5" strokeWidth={1.5} />
-      case 'PRINTER':
-        return <Printer className="w-5 h-5" strokeWidth={1.5} />
-      case 'SCANNER_GTEX':
-        return <ScanBarcode className="w-5 h-5" strokeWidth={1.5} />
-      case 'SMART_TV':
-        return <Tv className="w-5 h-5" strokeWidth={1.5} />
-      case 'CCTV':
-        return <Video className="w-5 h-5" strokeWidth={1.5} />
-      case 'SERVER':
-        return <Server className="w-5 h-5" strokeWidth={1.5} />
-      case 'PHONE':
-        return <Smartphone className="w-5 h-5" strokeWidth={1.5} />
-      case 'OTHER':
-        return <HelpCircle className="w-5 h-5" strokeWidth={1.5} />
-      default:
-        return <Router className="w-5 h-5" strokeWidth={1.5} />
-    }
-  }
-
   // Status-based styling - Keep icon colors only (border now forced in JSX)
   const getStatusStyles = () => {
     if (status === 'up') {
@@ -100,11 +42,26 @@ const DeviceNode = ({ data }: NodeProps<DeviceNodeData>) => {
         iconColor: 'text-emerald-600',
       }
     }
+    if (status === 'degraded') {
+      return {
+        iconColor: 'text-orange-600',
+      }
+    }
     if (status === 'down') {
       return {
         iconColor: 'text-rose-600',
       }
     }
+    if (status === 'flapping') {
+      return {
+        iconColor: 'text-amber-600',
+      }
+    }
+    if (status === 'unreachable') {
+      return {
+        iconColor: 'text-slate-400',
+      }
+    }
     return {
       iconColor: 'text-slate-500',
     }
@@ -200,14 +157,39 @@ const DeviceNode = ({ data }: NodeProps<DeviceNodeData>) => {
           shadow-md 
           transition-all duration-200
           hover:scale-110
+          relative
         "
         style={{
-          borderColor: status === 'up' ? '#00E055' : status === 'down' ? '#FF2222' : '#cbd5e1'
+          borderColor: status === 'up' ? '#00E055' : status === 'degraded' ? '#F97316' : status === 'down' ? '#FF2222' : status === 'flapping' ? '#F59E0B' : status === 'unreachable' ? '#94A3B8' : '#cbd5e1',
+          // Flapping and unreachable devices get a dashed ring so they stand apart from a steady state
+          borderStyle: status === 'flapping' || status === 'unreachable' ? 'dashed' : 'solid',
+          // Root cause of an outage - devices behind it are unreachable
+          boxShadow: isRootCause ? '0 0 0 4px rgba(255, 34, 34, 0.35), 0 0 16px 4px rgba(255, 34, 34, 0.45)' : undefined
         }}
       >
         <div className={statusStyles.iconColor}>
-          {getIcon()}
+          <DeviceTypeIcon type={type} definition={typeDefinition} strokeWidth={1.5} />
         </div>
+        
+        {isRootCause && (
+          <div
+            className="absolute -top-5 left-1/2 -translate-x-1/2 px-1.5 py-px rounded bg-rose-600 text-white text-[8px] font-bold tracking-wider whitespace-nowrap shadow"
+            data-testid="root-cause-badge"
+          >
+            ROOT CAUSE
+          </div>
+        )}
+        
+        {/* Maintenance badge - status changes and alerts are muted */}
+        {maintenance && (
+          <div
+            className="absolute -top-1.5 -right-1.5 w-5 h-5 rounded-full bg-indigo-600 border-2 border-white flex items-center justify-center shadow"
+            title="In maintenance"
+            data-testid="maintenance-badge"
+          >
+            <Wrench className="w-2.5 h-2.5 text-white" strokeWidth={2.5} />
+          </div>
+        )}
       </div>
       
       {/* CRITICAL: Device Name Label - FORCED negative margin for overlap */}
@@ -245,20 +227,27 @@ const DeviceNode = ({ data }: NodeProps<DeviceNodeData>) => {
                 className={`
                   w-2 h-2 rounded-full
                   ${status === 'up' ? 'bg-emerald-500' : 
-                    status === 'down' ? 'bg-rose-500' : 'bg-slate-400'}
-                  ${status === 'up' ? 'animate-pulse-slow' : ''}
+                    status === 'degraded' ? 'bg-orange-500' :
+                    status === 'down' ? 'bg-rose-500' :
+                    status === 'flapping' ? 'bg-amber-500' : 'bg-slate-400'}
+                  ${status === 'up' || status === 'flapping' ? 'animate-pulse-slow' : ''}
                 `}
               />
               <span className={`font-medium text-[10px] ${
                 status === 'up' ? 'text-emerald-400' : 
-                status === 'down' ? 'text-rose-400' : 'text-slate-400'
+                status === 'degraded' ? 'text-orange-400' :
+                status === 'down' ? 'text-rose-400' :
+                status === 'flapping' ? 'text-amber-400' : 'text-slate-400'
               }`}>
-                {status.toUpperCase()}
+                {status === 'unreachable' ? 'UNREACHABLE (PARENT DOWN)' : status === 'degraded' ? 'DEGRADED (LATENCY/LOSS)' : status.toUpperCase()}
               </span>
               {timeSince && (
                 <span className="text-slate-400 text-[10px]">• {timeSince}</span>
               )}
             </div>
+            {maintenance && (
+              <div className="mt-1 text-[10px] font-medium text-indigo-300">MAINTENANCE</div>
+            )}
           </div>
         </div>
       )}
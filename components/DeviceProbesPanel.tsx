@@ -0,0 +1,312 @@
+'use client'
+
+import React, { useState } from 'react'
+import { Plus, Radar, Trash2 } from 'lucide-react'
+import useSWR from 'swr'
+import RouterCommandPreview from './RouterCommandPreview'
+import { fetchRouterPreview, RouterPreview } from '@/lib/routeros-dry-run'
+import {
+  DEFAULT_HTTP_CODE,
+  DEFAULT_HTTP_PORT,
+  describeNetwatchProbe,
+  NETWATCH_TYPES,
+  NETWATCH_TYPE_LABELS,
+  netwatchTypeUsesPort
+} from '@/lib/netwatch-probes'
+
+interface ProbeState {
+  id?: string
+  name?: string
+  type: string
+  port: number | null
+  httpCode: number | null
+  dnsName: string | null
+  status: string
+}
+
+interface DeviceProbesPanelProps {
+  deviceId: string
+  canEdit: boolean
+}
+
+const fetcher = (url: string) => fetch(url).then((res) => res.json())
+
+const EMPTY_PROBE = { name: '', type: 'http-get', port: '', httpCode: '', dnsName: '' }
+
+const STATUS_COLORS: Record<string, string> = {
+  up: 'bg-green-500',
+  down: 'bg-red-500',
+  flapping: 'bg-amber-500'
+}
+
+const describe = (probe: ProbeState) => describeNetwatchProbe({
+  netwatchType: probe.type,
+  netwatchPort: probe.port,
+  netwatchHttpCode: probe.httpCode,
+  netwatchDnsName: probe.dnsName
+})
+
+/**
+ * Device Probes Panel
+ * Lists the device's own netwatch probe and its extra probes with their state;
+ * admins and operators can add and remove extra probes
+ */
+export default function DeviceProbesPanel({ deviceId, canEdit }: DeviceProbesPanelProps) {
+  const { data, error, isLoading, mutate } = useSWR(
+    `/api/devices/${deviceId}/probes`,
+    fetcher,
+    {
+      refreshInterval: 30000,
+      revalidateOnFocus: true
+    }
+  )
+  const [showForm, setShowForm] = useState(false)
+  const [form, setForm] = useState(EMPTY_PROBE)
+  const [saving, setSaving] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+  const [pending, setPending] = useState<{ preview: RouterPreview; label: string; run: () => Promise<void> } | null>(null)
+
+  if (isLoading) {
+    return (
+      <div className="p-3 text-center text-xs text-gray-500">
+        Loading probes...
+      </div>
+    )
+  }
+
+  if (error || !data?.success) {
+    return (
+      <div className="p-3 text-center text-xs text-red-500">
+        Failed to load probes
+      </div>
+    )
+  }
+
+  const rows: ProbeState[] = [{ ...data.main, name: 'Main' }, ...data.probes]
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
+    setForm(prev => ({ ...prev, [e.target.name]: e.target.value }))
+  }
+
+  // Router changes are shown for confirmation first; without any the action runs right away
+  const withPreview = async (url: string, init: RequestInit, label: string, run: () => Promise<void>) => {
+    const preview = await fetchRouterPreview(url, init)
+
+    if (preview.commands.length > 0) {
+      setPending({ preview, label, run })
+    } else {
+      await run()
+    }
+  }
+
+  const addProbe = async () => {
+    const response = await fetch(`/api/devices/${deviceId}/probes`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(form)
+    })
+    const result = await response.json()
+
+    if (!response.ok) {
+      setMessage(result.error || 'Failed to add probe')
+      return
+    }
+
+    setMessage(result.warning ?? null)
+    setForm(EMPTY_PROBE)
+    setShowForm(false)
+    mutate()
+  }
+
+  const removeProbe = async (probe: ProbeState) => {
+    const response = await fetch(`/api/devices/${deviceId}/probes/${probe.id}`, { method: 'DELETE' })
+    const result = await response.json()
+
+    if (!response.ok) {
+      setMessage(result.error || 'Failed to remove probe')
+      return
+    }
+
+    setMessage(result.warning ?? null)
+    mutate()
+  }
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+    setMessage(null)
+
+    try {
+      await withPreview(`/api/devices/${deviceId}/probes`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(form)
+      }, 'Add Probe', addProbe)
+    } catch (err) {
+      console.error('Error adding probe:', err)
+      setMessage(err instanceof Error ? err.message : 'Failed to add probe')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (probe: ProbeState) => {
+    if (!confirm(`Remove probe "${probe.name}"?`)) return
+    setMessage(null)
+
+    try {
+      await withPreview(`/api/devices/${deviceId}/probes/${probe.id}`, { method: 'DELETE' }, 'Remove Probe', () => removeProbe(probe))
+    } catch (err) {
+      console.error('Error removing probe:', err)
+      setMessage(err instanceof Error ? err.message : 'Failed to remove probe')
+    }
+  }
+
+  const handleConfirm = async () => {
+    if (!pending) return
+    setSaving(true)
+
+    try {
+      await pending.run()
+    } catch (err) {
+      console.error('Error applying probe change:', err)
+      setMessage('Failed to apply the probe change')
+    } finally {
+      setPending(null)
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="border-t pt-3 mt-3">
+      <div className="flex items-center justify-between mb-2">
+        <div className="flex items-center gap-1.5">
+          <Radar className="w-3.5 h-3.5 text-gray-500" />
+          <span className="text-xs font-semibold text-gray-700">Probes</span>
+        </div>
+        {canEdit && !showForm && (
+          <button
+            type="button"
+            onClick={() => setShowForm(true)}
+            className="flex items-center gap-0.5 text-[10px] font-medium text-blue-600 hover:text-blue-700"
+          >
+            <Plus className="w-3 h-3" />
+            Add
+          </button>
+        )}
+      </div>
+
+      <ul className="space-y-1">
+        {rows.map((probe) => (
+          <li key={probe.id ?? 'main'} className="flex items-center gap-2 text-[11px]">
+            <span className={`w-2 h-2 rounded-full flex-shrink-0 ${STATUS_COLORS[probe.status] ?? 'bg-gray-400'}`} />
+            <span className="font-medium text-gray-900 truncate">{probe.name}</span>
+            <span className="text-gray-500 truncate flex-1">{describe(probe)}</span>
+            <span className="text-gray-600 uppercase text-[10px]">{probe.status}</span>
+            {canEdit && probe.id && (
+              <button
+                type="button"
+                onClick={() => handleDelete(probe)}
+                className="text-gray-400 hover:text-red-600"
+                aria-label={`Remove probe ${probe.name}`}
+              >
+                <Trash2 className="w-3 h-3" />
+              </button>
+            )}
+          </li>
+        ))}
+      </ul>
+
+      {message && (
+        <p className="mt-2 text-[11px] text-orange-600">{message}</p>
+      )}
+
+      {showForm && (
+        <form onSubmit={handleAdd} className="mt-2 space-y-1.5 bg-gray-50 p-2 rounded">
+          <div className="grid grid-cols-2 gap-1.5">
+            <input
+              name="name"
+              value={form.name}
+              onChange={handleChange}
+              placeholder="Name, e.g. SSH"
+              className="px-2 py-1 border border-gray-300 rounded text-xs"
+              required
+            />
+            <select
+              name="type"
+              value={form.type}
+              onChange={handleChange}
+              className="px-2 py-1 border border-gray-300 rounded text-xs"
+            >
+              {NETWATCH_TYPES.map(type => (
+                <option key={type} value={type}>{NETWATCH_TYPE_LABELS[type]}</option>
+              ))}
+            </select>
+            {netwatchTypeUsesPort(form.type) && (
+              <input
+                name="port"
+                type="number"
+                min="1"
+                max="65535"
+                value={form.port}
+                onChange={handleChange}
+                placeholder={form.type === 'http-get' ? `Port (${DEFAULT_HTTP_PORT})` : 'Port'}
+                className="px-2 py-1 border border-gray-300 rounded text-xs"
+              />
+            )}
+            {form.type === 'http-get' && (
+              <input
+                name="httpCode"
+                type="number"
+                min="100"
+                max="599"
+                value={form.httpCode}
+                onChange={handleChange}
+                placeholder={`Code (${DEFAULT_HTTP_CODE})`}
+                className="px-2 py-1 border border-gray-300 rounded text-xs"
+              />
+            )}
+            {form.type === 'dns' && (
+              <input
+                name="dnsName"
+                value={form.dnsName}
+                onChange={handleChange}
+                placeholder="Record name"
+                className="col-span-2 px-2 py-1 border border-gray-300 rounded text-xs font-mono"
+              />
+            )}
+          </div>
+          <div className="flex justify-end gap-1.5">
+            <button
+              type="button"
+              onClick={() => {
+                setShowForm(false)
+                setForm(EMPTY_PROBE)
+              }}
+              className="px-2 py-1 text-xs text-gray-600 hover:text-gray-800"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="px-2 py-1 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white rounded text-xs font-medium"
+            >
+              {saving ? 'Adding...' : 'Add Probe'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {pending && (
+        <RouterCommandPreview
+          preview={pending.preview}
+          confirmLabel={pending.label}
+          busy={saving}
+          onConfirm={handleConfirm}
+          onCancel={() => setPending(null)}
+        />
+      )}
+    </div>
+  )
+}
@@ -3,8 +3,15 @@
 import React from "react"
 import { useState } from "react"
 import { useRouter } from "next/navigation"
-import { Router, Tablet, ScanBarcode, Tv, Pencil, Trash2, X } from "lucide-react"
+import Link from "next/link"
+import { Router, Pencil, Trash2, X, Tags, Download } from "lucide-react"
 import DeviceForm from "./DeviceForm"
+import DeviceTypeIcon from "./DeviceTypeIcon"
+import ReclassifyDevicesModal from "./ReclassifyDevicesModal"
+import { RouterCommandList } from "./RouterCommandPreview"
+import { fetchRouterPreview, RouterPreview } from "@/lib/routeros-dry-run"
+import { describeNetwatchProbe } from "@/lib/netwatch-probes"
+import { useDeviceTypes } from "@/hooks/useDeviceTypes"
 
 interface Device {
   id: string
@@ -12,8 +19,25 @@ interface Device {
   ip: string
   type: string
   laneName: string
+  macAddress?: string | null
+  hostname?: string | null
+  vendor?: string | null
+  previousMacAddress?: string | null
+  macChangedAt?: Date | string | null
   status: string
   lastSeen: Date | string | null
+  roomId?: string | null
+  routerId?: string | null
+  netwatchType?: string
+  netwatchPort?: number | null
+  netwatchHttpCode?: number | null
+  netwatchDnsName?: string | null
+  needsSync?: boolean
+  lastSyncError?: string | null
+  router?: {
+    id: string
+    name: string
+  } | null
 }
 
 interface DeviceTableProps {
@@ -25,26 +49,16 @@ export default function DeviceTable({ devices, onUpdate }: DeviceTableProps) {
   const router = useRouter()
   const [editingDevice, setEditingDevice] = useState<Device | null>(null)
   const [deletingDevice, setDeletingDevice] = useState<Device | null>(null)
+  const [deletePreview, setDeletePreview] = useState<RouterPreview | null>(null)
   const [isDeleting, setIsDeleting] = useState(false)
   const [deleteError, setDeleteError] = useState("")
   const [selectedDevices, setSelectedDevices] = useState<Set<string>>(new Set())
   const [showBulkDeleteModal, setShowBulkDeleteModal] = useState(false)
   const [bulkDeleteType, setBulkDeleteType] = useState<'selected' | 'all'>('selected')
+  const [showReclassifyModal, setShowReclassifyModal] = useState(false)
+  const [exportingFormat, setExportingFormat] = useState<'csv' | 'xlsx' | null>(null)
 
-  const getDeviceIcon = (type: string) => {
-    switch (type) {
-      case "ROUTER":
-        return <Router className="w-5 h-5" />
-      case "TABLET":
-        return <Tablet className="w-5 h-5" />
-      case "SCANNER_GTEX":
-        return <ScanBarcode className="w-5 h-5" />
-      case "SMART_TV":
-        return <Tv className="w-5 h-5" />
-      default:
-        return <Router className="w-5 h-5" />
-    }
-  }
+  const { findDeviceType, getLabel: getDeviceTypeLabel } = useDeviceTypes()
 
   const getStatusBadge = (status: string) => {
     const baseClasses = "px-2.5 py-1 rounded-full text-xs font-semibold shadow-sm"
@@ -56,12 +70,30 @@ export default function DeviceTable({ devices, onUpdate }: DeviceTableProps) {
             UP
           </span>
         )
+      case "degraded":
+        return (
+          <span className={`${baseClasses} bg-orange-100 text-orange-800 border border-orange-200`} title="Latency or packet loss above threshold">
+            DEGRADED
+          </span>
+        )
       case "down":
         return (
           <span className={`${baseClasses} bg-red-100 text-red-800 border border-red-200 animate-pulse`}>
             DOWN
           </span>
         )
+      case "unreachable":
+        return (
+          <span className={`${baseClasses} bg-slate-100 text-slate-700 border border-slate-300`} title="Parent device is down">
+            UNREACHABLE
+          </span>
+        )
+      case "flapping":
+        return (
+          <span className={`${baseClasses} bg-amber-100 text-amber-800 border border-amber-200`}>
+            FLAPPING
+          </span>
+        )
       default:
         return (
           <span className={`${baseClasses} bg-gray-100 text-gray-800 border border-gray-200`}>
@@ -77,7 +109,13 @@ export default function DeviceTable({ devices, onUpdate }: DeviceTableProps) {
 
   const handleDeleteClick = (device: Device) => {
     setDeletingDevice(device)
+    setDeletePreview(null)
     setDeleteError("")
+
+    // What the delete does on the router, shown in the confirmation
+    fetchRouterPreview(`/api/devices/${device.id}`, { method: "DELETE" })
+      .then(setDeletePreview)
+      .catch((error) => setDeleteError(error.message))
   }
 
   const handleEditSuccess = () => {
@@ -89,6 +127,32 @@ export default function DeviceTable({ devices, onUpdate }: DeviceTableProps) {
     }
   }
 
+  const handleAcknowledgeMacChange = async (device: Device) => {
+    if (!confirm(`Trust ${device.macAddress} as the MAC of ${device.name}? It was ${device.previousMacAddress}.`)) {
+      return
+    }
+
+    try {
+      const response = await fetch(`/api/devices/${device.id}/mac-change`, {
+        method: "DELETE"
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        alert(data.error || "Failed to acknowledge the MAC change")
+        return
+      }
+
+      if (onUpdate) {
+        onUpdate()
+      } else {
+        router.refresh()
+      }
+    } catch (error) {
+      alert("An unexpected error occurred")
+    }
+  }
+
   const handleEditCancel = () => {
     setEditingDevice(null)
   }
@@ -205,6 +269,42 @@ export default function DeviceTable({ devices, onUpdate }: DeviceTableProps) {
     }
   }
 
+  // Export the selected devices, or every device in the table, in table order
+  const handleExport = async (format: 'csv' | 'xlsx') => {
+    setExportingFormat(format)
+
+    try {
+      const deviceIds = devices
+        .filter(device => selectedDevices.size === 0 || selectedDevices.has(device.id))
+        .map(device => device.id)
+
+      const response = await fetch("/api/devices/export", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ format, deviceIds })
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        alert(data.error || "Failed to export devices")
+        return
+      }
+
+      const url = URL.createObjectURL(await response.blob())
+      const link = document.createElement("a")
+      link.href = url
+      link.download = `devices-${new Date().toISOString().split("T")[0]}.${format}`
+      document.body.appendChild(link)
+      link.click()
+      document.body.removeChild(link)
+      URL.revokeObjectURL(url)
+    } catch (error) {
+      alert("An unexpected error occurred")
+    } finally {
+      setExportingFormat(null)
+    }
+  }
+
   const handleBulkDeleteCancel = () => {
     setShowBulkDeleteModal(false)
     setDeleteError("")
@@ -229,7 +329,28 @@ export default function DeviceTable({ devices, onUpdate }: DeviceTableProps) {
                 </span>
               </label>
             </div>
-            <div className="flex gap-2">
+            <div className="flex flex-wrap gap-2">
+              {(['csv', 'xlsx'] as const).map(format => (
+                <button
+                  key={format}
+                  onClick={() => handleExport(format)}
+                  disabled={exportingFormat !== null}
+                  className="px-4 py-2 bg-white text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2 text-sm font-medium"
+                  title={selectedDevices.size > 0 ? "Export the selected devices" : "Export all devices in the table"}
+                >
+                  <Download className="w-4 h-4" />
+                  {exportingFormat === format ? "Exporting..." : `Export ${format.toUpperCase()}`}
+                </button>
+              ))}
+              <button
+                onClick={() => setShowReclassifyModal(true)}
+                disabled={selectedDevices.size === 0}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed flex items-center gap-2 text-sm font-medium"
+                title="Set the types of the selected devices from the classification rules"
+              >
+                <Tags className="w-4 h-4" />
+                Re-classify ({selectedDevices.size})
+              </button>
               <button
                 onClick={() => handleBulkDeleteClick('selected')}
                 disabled={selectedDevices.size === 0}
@@ -311,20 +432,52 @@ export default function DeviceTable({ devices, onUpdate }: DeviceTableProps) {
                       />
                     </td>
                     <td className="px-3 lg:px-6 py-4 whitespace-nowrap">
-                      <div className="flex items-center text-gray-700">
-                        {getDeviceIcon(device.type)}
+                      <div className="flex items-center text-gray-700" title={getDeviceTypeLabel(device.type)}>
+                        <DeviceTypeIcon type={device.type} definition={findDeviceType(device.type)} colored />
                       </div>
                     </td>
                     <td className="px-3 lg:px-6 py-4">
                       <div className="text-sm font-semibold text-gray-900">
                         {device.name}
                       </div>
+                      {device.needsSync && (
+                        <Link
+                          href={`/dashboard/manage/devices/jobs?deviceId=${device.id}`}
+                          className="inline-block mt-1 px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800 border border-amber-200 hover:bg-amber-200"
+                          title={device.lastSyncError ? `Last sync failure: ${device.lastSyncError}` : "Waiting for MikroTik sync"}
+                        >
+                          Needs sync
+                        </Link>
+                      )}
+                      {device.macChangedAt && (
+                        <button
+                          onClick={() => handleAcknowledgeMacChange(device)}
+                          className="inline-block mt-1 ml-1 px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800 border border-red-200 hover:bg-red-200"
+                          title={`MAC changed from ${device.previousMacAddress} to ${device.macAddress} on ${new Date(device.macChangedAt).toLocaleString()} - possible replacement or spoof. Click to acknowledge.`}
+                        >
+                          MAC changed
+                        </button>
+                      )}
+                      {device.hostname && device.hostname !== device.name && (
+                        <div className="text-xs text-gray-500">{device.hostname}</div>
+                      )}
                       <div className="text-xs text-gray-500 sm:hidden">
                         {device.ip} • {device.laneName}
                       </div>
                     </td>
                     <td className="px-3 lg:px-6 py-4 whitespace-nowrap hidden sm:table-cell">
                       <div className="text-sm text-gray-900 font-mono">{device.ip}</div>
+                      {device.macAddress && (
+                        <div className="text-xs text-gray-500 font-mono" title={device.vendor || "Unknown vendor"}>
+                          {device.macAddress}{device.vendor ? ` • ${device.vendor}` : ""}
+                        </div>
+                      )}
+                      {device.router && (
+                        <div className="text-xs text-gray-500">via {device.router.name}</div>
+                      )}
+                      {device.netwatchType && device.netwatchType !== 'icmp' && (
+                        <div className="text-xs text-gray-500">{describeNetwatchProbe(device)}</div>
+                      )}
                     </td>
                     <td className="px-3 lg:px-6 py-4 whitespace-nowrap hidden md:table-cell">
                       <div className="text-sm text-gray-900">{device.laneName}</div>
@@ -365,6 +518,23 @@ export default function DeviceTable({ devices, onUpdate }: DeviceTableProps) {
         </div>
       </div>
 
+      {/* Re-classify Modal */}
+      {showReclassifyModal && (
+        <ReclassifyDevicesModal
+          deviceIds={Array.from(selectedDevices)}
+          onClose={() => setShowReclassifyModal(false)}
+          onApplied={() => {
+            setShowReclassifyModal(false)
+            setSelectedDevices(new Set())
+            if (onUpdate) {
+              onUpdate()
+            } else {
+              router.refresh()
+            }
+          }}
+        />
+      )}
+
       {/* Edit Modal */}
       {editingDevice && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
@@ -411,6 +581,13 @@ export default function DeviceTable({ devices, onUpdate }: DeviceTableProps) {
                 <p className="text-sm text-gray-600">{deletingDevice.ip}</p>
                 <p className="text-sm text-gray-600">{deletingDevice.laneName}</p>
               </div>
+              {deletePreview && (
+                <div className="mb-4 space-y-2">
+                  <p className="text-sm font-medium text-gray-700">Router changes</p>
+                  {deletePreview.commands.length > 0 && <RouterCommandList commands={deletePreview.commands} />}
+                  {deletePreview.message && <p className="text-sm text-gray-600">{deletePreview.message}</p>}
+                </div>
+              )}
               <p className="text-sm text-red-600">
                 This action cannot be undone.
               </p>
@@ -0,0 +1,333 @@
+"use client"
+
+import React, { useState, useEffect } from 'react'
+import { X, Upload } from 'lucide-react'
+import {
+  DEVICE_TYPE_ICON_NAMES,
+  DeviceTypeDefinition,
+  DeviceTypeIconName,
+  MAX_DEVICE_TYPE_SVG_LENGTH
+} from '@/lib/constants'
+import DeviceTypeIcon, { DEVICE_TYPE_ICONS } from './DeviceTypeIcon'
+
+interface DeviceTypeFormModalProps {
+  isOpen: boolean
+  onClose: () => void
+  deviceType?: DeviceTypeDefinition // Edit when set, add otherwise
+  onSuccess: (message: string, description: string) => void
+  onError: (message: string, description: string) => void
+}
+
+const emptyForm = () => ({
+  key: '',
+  label: '',
+  icon: 'help-circle' as DeviceTypeIconName,
+  iconSvg: null as string | null,
+  color: '#64748b',
+  netwatchTimeout: '',
+  netwatchInterval: ''
+})
+
+export default function DeviceTypeFormModal({
+  isOpen,
+  onClose,
+  deviceType,
+  onSuccess,
+  onError
+}: DeviceTypeFormModalProps) {
+  const [formData, setFormData] = useState(emptyForm())
+  const [uploadError, setUploadError] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  // Reset form when the type changes
+  useEffect(() => {
+    if (deviceType) {
+      setFormData({
+        key: deviceType.key,
+        label: deviceType.label,
+        icon: deviceType.icon,
+        iconSvg: deviceType.iconSvg,
+        color: deviceType.color,
+        netwatchTimeout: deviceType.netwatchTimeout?.toString() ?? '',
+        netwatchInterval: deviceType.netwatchInterval?.toString() ?? ''
+      })
+    } else {
+      setFormData(emptyForm())
+    }
+    setUploadError('')
+  }, [deviceType, isOpen])
+
+  // Close on Escape key
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && isOpen) {
+        onClose()
+      }
+    }
+
+    document.addEventListener('keydown', handleEscape)
+    return () => document.removeEventListener('keydown', handleEscape)
+  }, [isOpen, onClose])
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+
+    const svg = await file.text()
+    if (!/<svg[\s>]/i.test(svg)) {
+      setUploadError('The file is not an SVG image')
+      return
+    }
+    if (svg.length > MAX_DEVICE_TYPE_SVG_LENGTH) {
+      setUploadError(`The SVG must be ${MAX_DEVICE_TYPE_SVG_LENGTH / 1000} KB or less`)
+      return
+    }
+
+    setUploadError('')
+    setFormData(prev => ({ ...prev, iconSvg: svg }))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setIsSubmitting(true)
+
+    try {
+      const url = deviceType ? `/api/device-types/${deviceType.key}` : '/api/device-types'
+      const method = deviceType ? 'PUT' : 'POST'
+
+      const res = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...(deviceType ? {} : { key: formData.key.trim().toUpperCase() }),
+          label: formData.label,
+          icon: formData.icon,
+          iconSvg: formData.iconSvg,
+          color: formData.color,
+          netwatchTimeout: formData.netwatchTimeout ? parseInt(formData.netwatchTimeout) : null,
+          netwatchInterval: formData.netwatchInterval ? parseInt(formData.netwatchInterval) : null
+        })
+      })
+      const data = await res.json()
+
+      if (res.ok) {
+        onSuccess(deviceType ? 'Device Type Updated' : 'Device Type Created', data.message)
+        onClose()
+      } else {
+        onError('Failed to Save Device Type', data.error || 'An error occurred while saving the device type.')
+      }
+    } catch (error) {
+      console.error('Error saving device type:', error)
+      onError('Failed to Save Device Type', 'An unexpected error occurred. Please try again.')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (!isOpen) return null
+
+  const preview: DeviceTypeDefinition = {
+    key: formData.key,
+    label: formData.label,
+    icon: formData.icon,
+    iconSvg: formData.iconSvg,
+    color: formData.color,
+    netwatchTimeout: null,
+    netwatchInterval: null,
+    builtIn: false
+  }
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors'
+
+  return (
+    <>
+      {/* Overlay */}
+      <div
+        className="fixed inset-0 bg-black bg-opacity-50 z-50 transition-opacity"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="fixed inset-0 z-50 overflow-y-auto">
+        <div className="flex min-h-full items-center justify-center p-4">
+          <div
+            className="relative bg-white rounded-lg shadow-xl w-full max-w-2xl"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {/* Header */}
+            <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between rounded-t-lg">
+              <h2 className="text-xl font-bold text-gray-900">
+                {deviceType ? `Edit ${deviceType.label}` : 'Add Device Type'}
+              </h2>
+              <button
+                onClick={onClose}
+                className="text-gray-400 hover:text-gray-600 transition-colors"
+                aria-label="Close"
+                title="Close"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="px-6 py-4">
+              <div className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-1">
+                    <label htmlFor="deviceTypeKey" className="block text-sm font-medium text-gray-700">
+                      Key <span className="text-red-500">*</span>
+                    </label>
+                    <input
+                      id="deviceTypeKey"
+                      type="text"
+                      value={formData.key}
+                      onChange={(e) => setFormData({ ...formData, key: e.target.value.toUpperCase() })}
+                      className={`${inputClass} font-mono disabled:bg-gray-100`}
+                      disabled={!!deviceType}
+                      required
+                      placeholder="e.g. NVR"
+                    />
+                    <p className="text-xs text-gray-500">Stored on devices - cannot be changed later</p>
+                  </div>
+                  <div className="space-y-1">
+                    <label htmlFor="deviceTypeLabel" className="block text-sm font-medium text-gray-700">
+                      Label <span className="text-red-500">*</span>
+                    </label>
+                    <input
+                      id="deviceTypeLabel"
+                      type="text"
+                      value={formData.label}
+                      onChange={(e) => setFormData({ ...formData, label: e.target.value })}
+                      className={inputClass}
+                      required
+                      maxLength={50}
+                      placeholder="e.g. Video Recorder"
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <div className="flex items-center justify-between">
+                    <span className="block text-sm font-medium text-gray-700">Icon</span>
+                    <div className="flex items-center gap-2 text-sm text-gray-600">
+                      Preview
+                      <span className="w-9 h-9 rounded-full border-2 border-gray-200 flex items-center justify-center">
+                        <DeviceTypeIcon type={formData.key} definition={preview} colored />
+                      </span>
+                    </div>
+                  </div>
+                  <div className={`grid grid-cols-8 sm:grid-cols-12 gap-1 ${formData.iconSvg ? 'opacity-40' : ''}`}>
+                    {DEVICE_TYPE_ICON_NAMES.map(name => {
+                      const Icon = DEVICE_TYPE_ICONS[name]
+                      return (
+                        <button
+                          key={name}
+                          type="button"
+                          onClick={() => setFormData({ ...formData, icon: name })}
+                          className={`p-1.5 rounded-lg flex items-center justify-center transition-colors ${
+                            formData.icon === name ? 'bg-blue-100 ring-2 ring-blue-500' : 'hover:bg-gray-100'
+                          }`}
+                          title={name}
+                          aria-label={`Use the ${name} icon`}
+                        >
+                          <Icon className="w-5 h-5 text-gray-700" />
+                        </button>
+                      )
+                    })}
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <label className="px-3 py-1.5 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors flex items-center gap-2 text-sm font-medium cursor-pointer">
+                      <Upload className="w-4 h-4" />
+                      Upload SVG
+                      <input type="file" accept=".svg,image/svg+xml" onChange={handleUpload} className="hidden" />
+                    </label>
+                    {formData.iconSvg && (
+                      <button
+                        type="button"
+                        onClick={() => setFormData({ ...formData, iconSvg: null })}
+                        className="px-3 py-1.5 text-sm text-red-600 hover:bg-red-50 rounded-lg"
+                      >
+                        Remove uploaded icon
+                      </button>
+                    )}
+                    <span className="text-xs text-gray-500">An uploaded SVG replaces the icon above</span>
+                  </div>
+                  {uploadError && <p className="text-sm text-red-600">{uploadError}</p>}
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="space-y-1">
+                    <label htmlFor="deviceTypeColor" className="block text-sm font-medium text-gray-700">
+                      Colour
+                    </label>
+                    <div className="flex items-center gap-2">
+                      <input
+                        id="deviceTypeColor"
+                        type="color"
+                        value={formData.color}
+                        onChange={(e) => setFormData({ ...formData, color: e.target.value })}
+                        className="w-10 h-10 rounded border border-gray-300 cursor-pointer"
+                      />
+                      <span className="text-sm text-gray-600 font-mono">{formData.color}</span>
+                    </div>
+                  </div>
+                  <div className="space-y-1">
+                    <label htmlFor="deviceTypeTimeout" className="block text-sm font-medium text-gray-700">
+                      Netwatch Timeout (ms)
+                    </label>
+                    <input
+                      id="deviceTypeTimeout"
+                      type="number"
+                      min={100}
+                      max={10000}
+                      value={formData.netwatchTimeout}
+                      onChange={(e) => setFormData({ ...formData, netwatchTimeout: e.target.value })}
+                      className={inputClass}
+                      placeholder="System default"
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <label htmlFor="deviceTypeInterval" className="block text-sm font-medium text-gray-700">
+                      Netwatch Interval (s)
+                    </label>
+                    <input
+                      id="deviceTypeInterval"
+                      type="number"
+                      min={5}
+                      max={3600}
+                      value={formData.netwatchInterval}
+                      onChange={(e) => setFormData({ ...formData, netwatchInterval: e.target.value })}
+                      className={inputClass}
+                      placeholder="System default"
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-gray-500">
+                  New devices of this type start with these netwatch settings; empty uses the system defaults.
+                </p>
+              </div>
+
+              {/* Footer Buttons */}
+              <div className="flex gap-3 justify-end pt-4 mt-4 border-t border-gray-200">
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors font-medium"
+                  disabled={isSubmitting}
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="px-6 py-2 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-lg hover:from-blue-700 hover:to-blue-800 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed font-medium shadow-md hover:shadow-lg"
+                >
+                  {isSubmitting ? 'Saving...' : deviceType ? 'Update Type' : 'Create Type'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      </div>
+    </>
+  )
+}
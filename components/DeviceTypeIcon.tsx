@@ -0,0 +1,139 @@
+"use client"
+
+import React from "react"
+import {
+  Antenna,
+  Battery,
+  Box,
+  Camera,
+  Cast,
+  Cctv,
+  Clock,
+  Cloud,
+  Cpu,
+  CreditCard,
+  Database,
+  DoorOpen,
+  Fan,
+  Fingerprint,
+  Gamepad2,
+  Globe,
+  HardDrive,
+  Headphones,
+  HelpCircle,
+  Keyboard,
+  Laptop,
+  Lightbulb,
+  Lock,
+  LucideIcon,
+  Monitor,
+  Network,
+  Phone,
+  Plug,
+  Printer,
+  Projector,
+  Radio,
+  Router,
+  Satellite,
+  ScanBarcode,
+  Server,
+  ServerCog,
+  Shield,
+  Smartphone,
+  Speaker,
+  Tablet,
+  Thermometer,
+  Tv,
+  Video,
+  Watch,
+  Webcam,
+  Wifi,
+  Zap
+} from "lucide-react"
+import { BUILT_IN_DEVICE_TYPES, DeviceTypeDefinition, DeviceTypeIconName } from "@/lib/constants"
+
+export const DEVICE_TYPE_ICONS: Record<DeviceTypeIconName, LucideIcon> = {
+  router: Router,
+  network: Network,
+  wifi: Wifi,
+  monitor: Monitor,
+  laptop: Laptop,
+  tablet: Tablet,
+  printer: Printer,
+  "scan-barcode": ScanBarcode,
+  tv: Tv,
+  video: Video,
+  server: Server,
+  smartphone: Smartphone,
+  "help-circle": HelpCircle,
+  antenna: Antenna,
+  battery: Battery,
+  box: Box,
+  camera: Camera,
+  cast: Cast,
+  cctv: Cctv,
+  clock: Clock,
+  cloud: Cloud,
+  cpu: Cpu,
+  "credit-card": CreditCard,
+  database: Database,
+  "door-open": DoorOpen,
+  fan: Fan,
+  fingerprint: Fingerprint,
+  "gamepad-2": Gamepad2,
+  globe: Globe,
+  "hard-drive": HardDrive,
+  headphones: Headphones,
+  keyboard: Keyboard,
+  lightbulb: Lightbulb,
+  lock: Lock,
+  phone: Phone,
+  plug: Plug,
+  projector: Projector,
+  radio: Radio,
+  satellite: Satellite,
+  "server-cog": ServerCog,
+  shield: Shield,
+  speaker: Speaker,
+  thermometer: Thermometer,
+  watch: Watch,
+  webcam: Webcam,
+  zap: Zap
+}
+
+interface DeviceTypeIconProps {
+  type: string
+  definition?: DeviceTypeDefinition // From the registry - the built-in entry when omitted
+  className?: string
+  strokeWidth?: number
+  colored?: boolean // Use the type's colour instead of the surrounding text colour
+}
+
+/**
+ * Icon of a device type - its uploaded SVG or its lucide icon
+ *
+ * Uploaded SVGs render through an <img> data URI so markup in them never runs.
+ */
+export default function DeviceTypeIcon({ type, definition, className = "w-5 h-5", strokeWidth, colored = false }: DeviceTypeIconProps) {
+  const resolved = definition || BUILT_IN_DEVICE_TYPES.find(builtIn => builtIn.key === type)
+
+  if (resolved?.iconSvg) {
+    return (
+      <img
+        src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(resolved.iconSvg)}`}
+        alt={resolved.label}
+        className={className}
+      />
+    )
+  }
+
+  const Icon = (resolved && DEVICE_TYPE_ICONS[resolved.icon]) || HelpCircle
+
+  return (
+    <Icon
+      className={className}
+      strokeWidth={strokeWidth}
+      style={colored && resolved ? { color: resolved.color } : undefined}
+    />
+  )
+}
@@ -0,0 +1,488 @@
+"use client"
+
+import React, { useState, useEffect, useRef } from 'react'
+import { X } from 'lucide-react'
+
+type WindowScope = 'DEVICE' | 'ROOM' | 'LANE'
+type WindowRecurrence = 'NONE' | 'DAILY' | 'WEEKLY'
+
+const SCOPE_LABELS: Record<WindowScope, string> = {
+  DEVICE: 'A single device',
+  ROOM: 'Devices in a room',
+  LANE: 'Devices in a lane'
+}
+
+const RECURRENCE_LABELS: Record<WindowRecurrence, string> = {
+  NONE: 'Does not repeat',
+  DAILY: 'Every day',
+  WEEKLY: 'Every week'
+}
+
+// Quick durations for ad-hoc maintenance starting right away
+const QUICK_DURATIONS = [30, 60, 120, 240]
+
+export interface MaintenanceWindowFormValue {
+  id: string
+  name: string
+  scope: string
+  deviceId: string | null
+  roomId: string | null
+  laneName: string | null
+  startsAt: string
+  endsAt: string
+  recurrence: string
+  recurrenceUntil: string | null
+  reason: string | null
+}
+
+interface MaintenanceWindowFormModalProps {
+  isOpen: boolean
+  onClose: () => void
+  window?: MaintenanceWindowFormValue
+  devices: { id: string; name: string; ip: string }[]
+  rooms: { id: string; name: string }[]
+  lanes: string[]
+  onSuccess: (message: string, description: string) => void
+  onError: (message: string, description: string) => void
+}
+
+// <input type="datetime-local"> works in local time without a zone suffix
+function toLocalInput(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`
+}
+
+const emptyForm = () => {
+  const start = new Date()
+  start.setSeconds(0, 0)
+
+  return {
+    name: '',
+    scope: 'DEVICE' as WindowScope,
+    deviceId: '',
+    roomId: '',
+    laneName: '',
+    startsAt: toLocalInput(start),
+    endsAt: toLocalInput(new Date(start.getTime() + 60 * 60000)),
+    recurrence: 'NONE' as WindowRecurrence,
+    recurrenceUntil: '',
+    reason: ''
+  }
+}
+
+export default function MaintenanceWindowFormModal({
+  isOpen,
+  onClose,
+  window: maintenanceWindow,
+  devices,
+  rooms,
+  lanes,
+  onSuccess,
+  onError
+}: MaintenanceWindowFormModalProps) {
+  const modalRef = useRef<HTMLDivElement>(null)
+  const [formData, setFormData] = useState(emptyForm())
+  const [errors, setErrors] = useState<Record<string, string>>({})
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  // Reset form when window changes
+  useEffect(() => {
+    if (maintenanceWindow) {
+      setFormData({
+        name: maintenanceWindow.name,
+        scope: maintenanceWindow.scope as WindowScope,
+        deviceId: maintenanceWindow.deviceId || '',
+        roomId: maintenanceWindow.roomId || '',
+        laneName: maintenanceWindow.laneName || '',
+        startsAt: toLocalInput(new Date(maintenanceWindow.startsAt)),
+        endsAt: toLocalInput(new Date(maintenanceWindow.endsAt)),
+        recurrence: maintenanceWindow.recurrence as WindowRecurrence,
+        recurrenceUntil: maintenanceWindow.recurrenceUntil ? maintenanceWindow.recurrenceUntil.slice(0, 10) : '',
+        reason: maintenanceWindow.reason || ''
+      })
+    } else {
+      setFormData(emptyForm())
+    }
+    setErrors({})
+  }, [maintenanceWindow, isOpen])
+
+  // Close on Escape key
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && isOpen) {
+        onClose()
+      }
+    }
+
+    document.addEventListener('keydown', handleEscape)
+    return () => document.removeEventListener('keydown', handleEscape)
+  }, [isOpen, onClose])
+
+  // Prevent body scroll when modal is open
+  useEffect(() => {
+    if (isOpen) {
+      document.body.style.overflow = 'hidden'
+    } else {
+      document.body.style.overflow = 'unset'
+    }
+
+    return () => {
+      document.body.style.overflow = 'unset'
+    }
+  }, [isOpen])
+
+  const validateForm = () => {
+    const newErrors: Record<string, string> = {}
+
+    if (!formData.name.trim()) {
+      newErrors.name = 'Window name is required'
+    }
+
+    if (formData.scope === 'DEVICE' && !formData.deviceId) {
+      newErrors.deviceId = 'Please select a device'
+    }
+
+    if (formData.scope === 'ROOM' && !formData.roomId) {
+      newErrors.roomId = 'Please select a room'
+    }
+
+    if (formData.scope === 'LANE' && !formData.laneName) {
+      newErrors.laneName = 'Please select a lane'
+    }
+
+    if (!formData.startsAt || !formData.endsAt) {
+      newErrors.endsAt = 'Start and end are required'
+    } else if (new Date(formData.endsAt) <= new Date(formData.startsAt)) {
+      newErrors.endsAt = 'End must be after start'
+    }
+
+    setErrors(newErrors)
+    return Object.keys(newErrors).length === 0
+  }
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target
+
+    setFormData(prev => ({
+      ...prev,
+      [name]: value
+    }))
+
+    // Clear error for this field
+    if (errors[name]) {
+      setErrors(prev => {
+        const newErrors = { ...prev }
+        delete newErrors[name]
+        return newErrors
+      })
+    }
+  }
+
+  const handleQuickDuration = (minutes: number) => {
+    const start = new Date()
+    start.setSeconds(0, 0)
+
+    setFormData(prev => ({
+      ...prev,
+      startsAt: toLocalInput(start),
+      endsAt: toLocalInput(new Date(start.getTime() + minutes * 60000)),
+      recurrence: 'NONE'
+    }))
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!validateForm()) {
+      return
+    }
+
+    setIsSubmitting(true)
+
+    try {
+      const url = maintenanceWindow ? `/api/maintenance/${maintenanceWindow.id}` : '/api/maintenance'
+      const method = maintenanceWindow ? 'PUT' : 'POST'
+
+      // Send absolute times so the server does not depend on the browser's zone
+      const payload = {
+        ...formData,
+        startsAt: new Date(formData.startsAt).toISOString(),
+        endsAt: new Date(formData.endsAt).toISOString(),
+        recurrenceUntil: formData.recurrenceUntil
+          ? new Date(`${formData.recurrenceUntil}T23:59:59`).toISOString()
+          : null
+      }
+
+      const res = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(payload)
+      })
+
+      if (res.ok) {
+        onSuccess(
+          maintenanceWindow ? 'Window Updated' : 'Window Scheduled',
+          maintenanceWindow ? 'Maintenance window has been updated successfully.' : 'Maintenance window has been scheduled successfully.'
+        )
+        onClose()
+      } else {
+        const data = await res.json()
+        onError('Failed to Save Window', data.error || 'An error occurred while saving the maintenance window.')
+      }
+    } catch (error) {
+      console.error('Error saving maintenance window:', error)
+      onError('Failed to Save Window', 'An unexpected error occurred. Please try again.')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (!isOpen) return null
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors'
+
+  return (
+    <>
+      {/* Overlay */}
+      <div
+        className="fixed inset-0 bg-black bg-opacity-50 z-50 transition-opacity"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="fixed inset-0 z-50 overflow-y-auto">
+        <div className="flex min-h-full items-center justify-center p-4">
+          <div
+            ref={modalRef}
+            className="relative bg-white rounded-lg shadow-xl w-full max-w-lg"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {/* Header */}
+            <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between rounded-t-lg">
+              <h2 className="text-xl font-bold text-gray-900">
+                {maintenanceWindow ? 'Edit Maintenance Window' : 'Schedule Maintenance'}
+              </h2>
+              <button
+                onClick={onClose}
+                className="text-gray-400 hover:text-gray-600 transition-colors"
+                aria-label="Close"
+                title="Close"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            {/* Form Content */}
+            <form onSubmit={handleSubmit} className="px-6 py-4">
+              <div className="space-y-4">
+                <div className="space-y-1">
+                  <label htmlFor="windowName" className="block text-sm font-medium text-gray-700">
+                    Name <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    type="text"
+                    id="windowName"
+                    name="name"
+                    value={formData.name}
+                    onChange={handleChange}
+                    className={inputClass}
+                    placeholder="e.g., Core switch firmware upgrade"
+                  />
+                  {errors.name && (
+                    <p className="mt-1 text-sm text-red-600 flex items-center gap-1">
+                      <span>⚠</span> {errors.name}
+                    </p>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-1">
+                    <label htmlFor="windowScope" className="block text-sm font-medium text-gray-700">
+                      Applies To
+                    </label>
+                    <select id="windowScope" name="scope" value={formData.scope} onChange={handleChange} className={inputClass}>
+                      {(Object.keys(SCOPE_LABELS) as WindowScope[]).map(scope => (
+                        <option key={scope} value={scope}>{SCOPE_LABELS[scope]}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  {formData.scope === 'DEVICE' && (
+                    <div className="space-y-1">
+                      <label htmlFor="windowDevice" className="block text-sm font-medium text-gray-700">
+                        Device <span className="text-red-500">*</span>
+                      </label>
+                      <select id="windowDevice" name="deviceId" value={formData.deviceId} onChange={handleChange} className={inputClass}>
+                        <option value="">Select device...</option>
+                        {devices.map(device => (
+                          <option key={device.id} value={device.id}>{device.name} ({device.ip})</option>
+                        ))}
+                      </select>
+                      {errors.deviceId && (
+                        <p className="mt-1 text-sm text-red-600 flex items-center gap-1">
+                          <span>⚠</span> {errors.deviceId}
+                        </p>
+                      )}
+                    </div>
+                  )}
+
+                  {formData.scope === 'ROOM' && (
+                    <div className="space-y-1">
+                      <label htmlFor="windowRoom" className="block text-sm font-medium text-gray-700">
+                        Room <span className="text-red-500">*</span>
+                      </label>
+                      <select id="windowRoom" name="roomId" value={formData.roomId} onChange={handleChange} className={inputClass}>
+                        <option value="">Select room...</option>
+                        {rooms.map(room => (
+                          <option key={room.id} value={room.id}>{room.name}</option>
+                        ))}
+                      </select>
+                      {errors.roomId && (
+                        <p className="mt-1 text-sm text-red-600 flex items-center gap-1">
+                          <span>⚠</span> {errors.roomId}
+                        </p>
+                      )}
+                    </div>
+                  )}
+
+                  {formData.scope === 'LANE' && (
+                    <div className="space-y-1">
+                      <label htmlFor="windowLane" className="block text-sm font-medium text-gray-700">
+                        Lane <span className="text-red-500">*</span>
+                      </label>
+                      <select id="windowLane" name="laneName" value={formData.laneName} onChange={handleChange} className={inputClass}>
+                        <option value="">Select lane...</option>
+                        {lanes.map(lane => (
+                          <option key={lane} value={lane}>{lane}</option>
+                        ))}
+                      </select>
+                      {errors.laneName && (
+                        <p className="mt-1 text-sm text-red-600 flex items-center gap-1">
+                          <span>⚠</span> {errors.laneName}
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </div>
+
+                <div className="space-y-1">
+                  <span className="block text-sm font-medium text-gray-700">Start Now For</span>
+                  <div className="flex flex-wrap gap-2">
+                    {QUICK_DURATIONS.map(minutes => (
+                      <button
+                        key={minutes}
+                        type="button"
+                        onClick={() => handleQuickDuration(minutes)}
+                        className="px-3 py-1 text-sm border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+                      >
+                        {minutes < 60 ? `${minutes} min` : `${minutes / 60} h`}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-1">
+                    <label htmlFor="windowStart" className="block text-sm font-medium text-gray-700">
+                      Starts
+                    </label>
+                    <input
+                      type="datetime-local"
+                      id="windowStart"
+                      name="startsAt"
+                      value={formData.startsAt}
+                      onChange={handleChange}
+                      className={inputClass}
+                    />
+                  </div>
+
+                  <div className="space-y-1">
+                    <label htmlFor="windowEnd" className="block text-sm font-medium text-gray-700">
+                      Ends
+                    </label>
+                    <input
+                      type="datetime-local"
+                      id="windowEnd"
+                      name="endsAt"
+                      value={formData.endsAt}
+                      onChange={handleChange}
+                      className={inputClass}
+                    />
+                    {errors.endsAt && (
+                      <p className="mt-1 text-sm text-red-600 flex items-center gap-1">
+                        <span>⚠</span> {errors.endsAt}
+                      </p>
+                    )}
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-1">
+                    <label htmlFor="windowRecurrence" className="block text-sm font-medium text-gray-700">
+                      Repeat
+                    </label>
+                    <select id="windowRecurrence" name="recurrence" value={formData.recurrence} onChange={handleChange} className={inputClass}>
+                      {(Object.keys(RECURRENCE_LABELS) as WindowRecurrence[]).map(recurrence => (
+                        <option key={recurrence} value={recurrence}>{RECURRENCE_LABELS[recurrence]}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  {formData.recurrence !== 'NONE' && (
+                    <div className="space-y-1">
+                      <label htmlFor="windowUntil" className="block text-sm font-medium text-gray-700">
+                        Repeat Until (optional)
+                      </label>
+                      <input
+                        type="date"
+                        id="windowUntil"
+                        name="recurrenceUntil"
+                        value={formData.recurrenceUntil}
+                        onChange={handleChange}
+                        className={inputClass}
+                      />
+                    </div>
+                  )}
+                </div>
+
+                <div className="space-y-1">
+                  <label htmlFor="windowReason" className="block text-sm font-medium text-gray-700">
+                    Reason
+                  </label>
+                  <textarea
+                    id="windowReason"
+                    name="reason"
+                    value={formData.reason}
+                    onChange={handleChange}
+                    className={inputClass}
+                    rows={2}
+                    placeholder="Optional note for other operators"
+                  />
+                </div>
+              </div>
+
+              {/* Footer Buttons */}
+              <div className="flex gap-3 justify-end pt-4 mt-4 border-t border-gray-200">
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors font-medium"
+                  disabled={isSubmitting}
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="px-6 py-2 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-lg hover:from-blue-700 hover:to-blue-800 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed font-medium shadow-md hover:shadow-lg"
+                >
+                  {isSubmitting ? 'Saving...' : maintenanceWindow ? 'Update Window' : 'Schedule'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,446 @@
+"use client"
+
+import React, { useState, useEffect } from "react"
+import useSWR from "swr"
+import { GitCompare, Download, Upload, Trash2, Link2, FileText, Play } from "lucide-react"
+import type { ReconcileAction, ReconcileItem, ReconcileKind, ReconcileSummary } from "@/lib/netwatch-reconcile"
+import { fetchRouterPreview, RouterPreview } from "@/lib/routeros-dry-run"
+import RouterCommandPreview from "./RouterCommandPreview"
+
+interface DriftReport {
+  id: string
+  routers: number
+  failed: number
+  drift: number
+  missing: number
+  orphans: number
+  content: string
+  emailedTo: string | null
+  emailError: string | null
+  createdAt: string
+}
+
+const fetcher = (url: string) => fetch(url).then((res) => res.json())
+
+const FIELD_LABELS: Record<string, string> = {
+  host: 'Host',
+  comment: 'Comment',
+  probe: 'Probe',
+  timeout: 'Timeout',
+  interval: 'Interval',
+  upScript: 'Up script',
+  downScript: 'Down script'
+}
+
+const KIND_STYLES: Record<ReconcileKind, { label: string; className: string }> = {
+  'in-sync': { label: 'In sync', className: 'bg-green-100 text-green-800' },
+  drift: { label: 'Drift', className: 'bg-amber-100 text-amber-800' },
+  missing: { label: 'Missing on router', className: 'bg-red-100 text-red-800' },
+  orphan: { label: 'Not in dashboard', className: 'bg-purple-100 text-purple-800' }
+}
+
+const ACTION_LABELS: Record<Exclude<ReconcileAction, 'link'>, { label: string; title: string; icon: typeof Download }> = {
+  pull: { label: 'Pull', title: 'Take over the router\'s values', icon: Download },
+  push: { label: 'Push', title: 'Write the dashboard\'s values to the router', icon: Upload },
+  delete: { label: 'Delete', title: 'Remove the side that has no counterpart', icon: Trash2 }
+}
+
+const fieldValue = (item: ReconcileItem, field: string) => {
+  const comparison = item.fields.find(candidate => candidate.field === field)
+  return comparison?.dashboard ?? comparison?.router ?? ''
+}
+
+const itemTitle = (item: ReconcileItem) => {
+  if (item.deviceName) {
+    return item.probeName ? `${item.deviceName} / ${item.probeName}` : item.deviceName
+  }
+  return fieldValue(item, 'comment') || fieldValue(item, 'host')
+}
+
+export default function NetwatchReconcileClient() {
+  const [routers, setRouters] = useState<Array<{ id: string; name: string; host: string; enabled: boolean }>>([])
+  const [selectedRouterId, setSelectedRouterId] = useState("")
+  const [loading, setLoading] = useState(false)
+  const [items, setItems] = useState<ReconcileItem[] | null>(null)
+  const [summary, setSummary] = useState<ReconcileSummary | null>(null)
+  const [comparedRouterId, setComparedRouterId] = useState<string | null>(null)
+  const [showInSync, setShowInSync] = useState(false)
+  const [busyKey, setBusyKey] = useState<string | null>(null)
+  const [linkTargets, setLinkTargets] = useState<Record<string, string>>({})
+  const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null)
+  const [runningReport, setRunningReport] = useState(false)
+  // Action waiting for the user to confirm its router commands
+  const [pending, setPending] = useState<{ preview: RouterPreview; label: string; key: string; routerId: string; init: RequestInit } | null>(null)
+
+  const { data: reportData, mutate: mutateReports } = useSWR('/api/mikrotik/reconcile/reports?limit=5', fetcher)
+  const latestReport: DriftReport | undefined = reportData?.reports?.[0]
+
+  // Fetch MikroTik routers on mount
+  useEffect(() => {
+    fetch('/api/routers')
+      .then(res => res.json())
+      .then(data => {
+        if (data.routers) {
+          const enabledRouters = data.routers.filter((r: { enabled: boolean }) => r.enabled)
+          setRouters(enabledRouters)
+          if (enabledRouters.length > 0) {
+            setSelectedRouterId(enabledRouters[0].id)
+          }
+        }
+      })
+      .catch(err => console.error('Failed to fetch routers:', err))
+  }, [])
+
+  const compare = async (routerId: string) => {
+    setLoading(true)
+
+    try {
+      const url = routerId
+        ? `/api/mikrotik/reconcile?routerId=${encodeURIComponent(routerId)}`
+        : '/api/mikrotik/reconcile'
+      const response = await fetch(url)
+      const data = await response.json()
+
+      if (!response.ok || !data.success) {
+        const errorText = data.details ? `${data.error}: ${data.details}` : data.error || 'Failed to compare netwatch'
+        setMessage({ type: 'error', text: errorText })
+        setItems(null)
+        setSummary(null)
+        return
+      }
+
+      setItems(data.items)
+      setSummary(data.summary)
+      setComparedRouterId(data.router.id)
+    } catch (error) {
+      console.error('Error comparing netwatch:', error)
+      setMessage({ type: 'error', text: 'Failed to connect to server. Please try again.' })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleCompare = () => {
+    setMessage(null)
+    compare(selectedRouterId)
+  }
+
+  const handleAction = async (item: ReconcileItem, action: ReconcileAction) => {
+    if (!comparedRouterId) return
+
+    const linkDeviceId = linkTargets[item.key]
+    if (action === 'link' && !linkDeviceId) {
+      setMessage({ type: 'error', text: 'Choose the device to link the entry to' })
+      return
+    }
+    if (action === 'delete' && !confirm(item.kind === 'orphan'
+      ? `Remove the netwatch entry "${itemTitle(item)}" from the router?`
+      : `Delete "${itemTitle(item)}" from the dashboard?`)) {
+      return
+    }
+
+    const init: RequestInit = {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        routerId: comparedRouterId,
+        action,
+        deviceId: action === 'link' ? linkDeviceId : item.deviceId,
+        probeId: action === 'link' ? undefined : item.probeId,
+        entryId: item.entryId
+      })
+    }
+
+    setBusyKey(item.key)
+    setMessage(null)
+
+    try {
+      // Router commands of the action are confirmed first; dashboard-only actions run right away
+      const preview = await fetchRouterPreview('/api/mikrotik/reconcile', init)
+      if (preview.commands.length > 0) {
+        setPending({ preview, label: action === 'link' ? 'Link' : ACTION_LABELS[action].label, key: item.key, routerId: comparedRouterId, init })
+        return
+      }
+      await applyAction(comparedRouterId, init)
+    } catch (error) {
+      console.error('Error applying reconcile action:', error)
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Action failed. Please try again.' })
+    } finally {
+      setBusyKey(null)
+    }
+  }
+
+  const applyAction = async (routerId: string, init: RequestInit) => {
+    const response = await fetch('/api/mikrotik/reconcile', init)
+    const data = await response.json()
+
+    if (!response.ok) {
+      setMessage({ type: 'error', text: data.error || 'Action failed' })
+      return
+    }
+
+    setMessage({ type: 'success', text: data.message })
+    await compare(routerId)
+  }
+
+  const handleConfirmAction = async () => {
+    if (!pending) return
+    setBusyKey(pending.key)
+
+    try {
+      await applyAction(pending.routerId, pending.init)
+    } catch (error) {
+      console.error('Error applying reconcile action:', error)
+      setMessage({ type: 'error', text: 'Action failed. Please try again.' })
+    } finally {
+      setPending(null)
+      setBusyKey(null)
+    }
+  }
+
+  const handleRunReport = async () => {
+    setRunningReport(true)
+
+    try {
+      const response = await fetch('/api/mikrotik/reconcile/reports', { method: 'POST' })
+      if (!response.ok) {
+        const data = await response.json()
+        setMessage({ type: 'error', text: data.error || 'Failed to run drift report' })
+        return
+      }
+      mutateReports()
+    } catch (error) {
+      console.error('Error running drift report:', error)
+      setMessage({ type: 'error', text: 'Failed to run drift report' })
+    } finally {
+      setRunningReport(false)
+    }
+  }
+
+  // Devices whose own entry is missing can take over an orphan entry
+  const linkCandidates = (items ?? []).filter(item => item.kind === 'missing' && !item.probeId)
+  const visibleItems = (items ?? []).filter(item => showInSync || item.kind !== 'in-sync')
+
+  return (
+    <div className="max-w-5xl space-y-6">
+      {message && (
+        <div className={`p-4 rounded-lg ${
+          message.type === 'success'
+            ? 'bg-green-100 text-green-800 border border-green-300'
+            : 'bg-red-100 text-red-800 border border-red-300'
+        }`}>
+          {message.text}
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-lg p-6 lg:p-8 border border-gray-200">
+        <div className="flex justify-between items-center mb-6 gap-4">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">Dashboard vs. Netwatch</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              Compares host, comment, probe, timeout, interval and scripts of every entry
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            {routers.length > 1 && (
+              <select
+                value={selectedRouterId}
+                onChange={(e) => setSelectedRouterId(e.target.value)}
+                disabled={loading}
+                aria-label="MikroTik router"
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+              >
+                {routers.map(r => (
+                  <option key={r.id} value={r.id}>{r.name} ({r.host})</option>
+                ))}
+              </select>
+            )}
+            <button
+              onClick={handleCompare}
+              disabled={loading}
+              className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed flex items-center gap-2"
+            >
+              <GitCompare className={`w-4 h-4 ${loading ? 'animate-pulse' : ''}`} />
+              {loading ? 'Comparing...' : 'Compare'}
+            </button>
+          </div>
+        </div>
+
+        {summary && (
+          <div className="flex flex-wrap items-center gap-2 mb-4 text-sm">
+            <span className="px-2.5 py-1 rounded-full bg-green-100 text-green-800">{summary.inSync} in sync</span>
+            <span className="px-2.5 py-1 rounded-full bg-amber-100 text-amber-800">{summary.drift} drifted</span>
+            <span className="px-2.5 py-1 rounded-full bg-red-100 text-red-800">{summary.missing} missing on router</span>
+            <span className="px-2.5 py-1 rounded-full bg-purple-100 text-purple-800">{summary.orphans} not in dashboard</span>
+            <label className="ml-auto flex items-center gap-2 text-gray-700 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={showInSync}
+                onChange={(e) => setShowInSync(e.target.checked)}
+                className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+              />
+              Show in-sync entries
+            </label>
+          </div>
+        )}
+
+        {items && visibleItems.length === 0 && (
+          <div className="text-center py-8 text-gray-500">
+            Everything is in sync
+          </div>
+        )}
+
+        <div className="space-y-3">
+          {visibleItems.map(item => {
+            const shownFields = item.kind === 'drift'
+              ? item.fields.filter(field => field.differs)
+              : item.fields.filter(field => field.dashboard || field.router)
+
+            return (
+              <div key={item.key} className="border border-gray-200 rounded-lg p-4">
+                <div className="flex flex-wrap items-center gap-2 mb-2">
+                  <span className="font-semibold text-gray-900">{itemTitle(item)}</span>
+                  <span className="text-sm text-gray-500 font-mono">{fieldValue(item, 'host')}</span>
+                  <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${KIND_STYLES[item.kind].className}`}>
+                    {KIND_STYLES[item.kind].label}
+                  </span>
+                  {item.entryId && (
+                    <span
+                      className="px-2 py-0.5 rounded bg-gray-100 text-gray-600 text-xs"
+                      title={item.managed ? 'Entry carries the dashboard marker' : 'Entry was created or edited by hand'}
+                    >
+                      {item.managed ? 'Managed' : 'Hand-made'}
+                    </span>
+                  )}
+                  <div className="ml-auto flex items-center gap-2">
+                    {item.actions.filter((action): action is Exclude<ReconcileAction, 'link'> => action !== 'link').map(action => {
+                      const { label, title, icon: Icon } = ACTION_LABELS[action]
+                      return (
+                        <button
+                          key={action}
+                          onClick={() => handleAction(item, action)}
+                          disabled={busyKey !== null}
+                          title={title}
+                          className={`flex items-center gap-1 px-2.5 py-1 rounded border text-xs font-medium transition-colors disabled:opacity-50 ${
+                            action === 'delete'
+                              ? 'border-red-200 text-red-700 hover:bg-red-50'
+                              : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                          }`}
+                        >
+                          <Icon className="w-3.5 h-3.5" />
+                          {label}
+                        </button>
+                      )
+                    })}
+                    {item.actions.includes('link') && linkCandidates.length > 0 && (
+                      <>
+                        <select
+                          value={linkTargets[item.key] ?? ''}
+                          onChange={(e) => setLinkTargets(prev => ({ ...prev, [item.key]: e.target.value }))}
+                          aria-label="Device to link"
+                          className="px-2 py-1 border border-gray-300 rounded text-xs"
+                        >
+                          <option value="">Link to device...</option>
+                          {linkCandidates.map(candidate => (
+                            <option key={candidate.key} value={candidate.deviceId ?? ''}>
+                              {candidate.deviceName} ({fieldValue(candidate, 'host')})
+                            </option>
+                          ))}
+                        </select>
+                        <button
+                          onClick={() => handleAction(item, 'link')}
+                          disabled={busyKey !== null || !linkTargets[item.key]}
+                          title="Write the device's settings onto this entry"
+                          className="flex items-center gap-1 px-2.5 py-1 rounded border border-gray-300 text-gray-700 hover:bg-gray-50 text-xs font-medium transition-colors disabled:opacity-50"
+                        >
+                          <Link2 className="w-3.5 h-3.5" />
+                          Link
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </div>
+
+                {item.kind !== 'in-sync' && (
+                  <table className="w-full text-xs">
+                    <thead>
+                      <tr className="text-left text-gray-500">
+                        <th className="py-1 pr-2 font-medium w-28">Field</th>
+                        <th className="py-1 pr-2 font-medium">Dashboard</th>
+                        <th className="py-1 font-medium">Router</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {shownFields.map(field => (
+                        <tr key={field.field} className="border-t border-gray-100 align-top">
+                          <td className="py-1 pr-2 text-gray-600">{FIELD_LABELS[field.field]}</td>
+                          <td className="py-1 pr-2 font-mono text-gray-900 break-all">{field.dashboard ?? '—'}</td>
+                          <td className={`py-1 font-mono break-all ${field.differs ? 'text-amber-700 font-semibold' : 'text-gray-900'}`}>
+                            {field.router ?? '—'}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+              </div>
+            )
+          })}
+        </div>
+
+        {!loading && !items && (
+          <div className="text-center py-12 text-gray-500">
+            <GitCompare className="w-12 h-12 mx-auto mb-4 text-gray-400" />
+            <p className="text-lg font-medium">No comparison yet</p>
+            <p className="text-sm mt-2">Click "Compare" to check the router's netwatch table against the dashboard</p>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-white rounded-xl shadow-lg p-6 border border-gray-200">
+        <div className="flex justify-between items-center mb-4">
+          <div className="flex items-center gap-2">
+            <FileText className="w-5 h-5 text-blue-600" />
+            <h2 className="text-lg font-bold text-gray-900">Drift Report</h2>
+          </div>
+          <button
+            onClick={handleRunReport}
+            disabled={runningReport}
+            className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg border border-gray-300 text-sm text-gray-700 hover:bg-gray-50 transition-colors disabled:opacity-50"
+          >
+            <Play className="w-3.5 h-3.5" />
+            {runningReport ? 'Running...' : 'Run now'}
+          </button>
+        </div>
+
+        {latestReport ? (
+          <>
+            <p className="text-sm text-gray-600 mb-2">
+              {new Date(latestReport.createdAt).toLocaleString()} • {latestReport.routers} router{latestReport.routers !== 1 ? 's' : ''} • {latestReport.drift} drifted, {latestReport.missing} missing, {latestReport.orphans} not in dashboard
+              {latestReport.failed > 0 && <> • {latestReport.failed} unreachable</>}
+              {latestReport.emailedTo && <> • emailed to {latestReport.emailedTo}</>}
+              {latestReport.emailError && <span className="text-red-600"> • email failed: {latestReport.emailError}</span>}
+            </p>
+            <pre className="text-xs bg-gray-50 border border-gray-200 rounded p-3 max-h-64 overflow-auto whitespace-pre-wrap">
+              {latestReport.content}
+            </pre>
+          </>
+        ) : (
+          <p className="text-sm text-gray-500">
+            No drift report yet. Enable the daily report in System Settings or run it now.
+          </p>
+        )}
+      </div>
+
+      {pending && (
+        <RouterCommandPreview
+          preview={pending.preview}
+          confirmLabel={pending.label}
+          busy={busyKey !== null}
+          onConfirm={handleConfirmAction}
+          onCancel={() => setPending(null)}
+        />
+      )}
+    </div>
+  )
+}
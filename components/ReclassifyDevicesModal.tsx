@@ -0,0 +1,136 @@
+"use client"
+
+import React, { useEffect, useState } from "react"
+import { Loader2, Tags, X } from "lucide-react"
+import { useDeviceTypes } from "@/hooks/useDeviceTypes"
+import type { ReclassifyChange } from "@/lib/classification-rules"
+
+interface ReclassifyDevicesModalProps {
+  deviceIds?: string[] // All devices when omitted
+  onClose: () => void
+  onApplied: (message: string) => void
+}
+
+/**
+ * Previews the type changes the classification rules make and applies them on confirm
+ */
+export default function ReclassifyDevicesModal({ deviceIds, onClose, onApplied }: ReclassifyDevicesModalProps) {
+  const [changes, setChanges] = useState<ReclassifyChange[] | null>(null)
+  const [error, setError] = useState("")
+  const [applying, setApplying] = useState(false)
+  const { getLabel: typeLabel } = useDeviceTypes()
+
+  const request = (dryRun: boolean) =>
+    fetch(`/api/devices/reclassify${dryRun ? "?dryRun=true" : ""}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ deviceIds })
+    }).then(async (response) => {
+      const data = await response.json()
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to re-classify devices")
+      }
+      return data
+    })
+
+  useEffect(() => {
+    request(true)
+      .then(data => setChanges(data.changes))
+      .catch(err => setError(err.message))
+  }, [])
+
+  const handleApply = async () => {
+    setApplying(true)
+    setError("")
+
+    try {
+      const data = await request(false)
+      onApplied(data.message)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to re-classify devices")
+      setApplying(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] flex flex-col">
+        <div className="px-6 py-4 border-b border-gray-200 flex justify-between items-center">
+          <h2 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+            <Tags className="w-5 h-5 text-blue-600" />
+            Re-classify {deviceIds ? `${deviceIds.length} Device${deviceIds.length !== 1 ? "s" : ""}` : "All Devices"}
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors" title="Close">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 overflow-y-auto">
+          {error && (
+            <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+              {error}
+            </div>
+          )}
+
+          {!changes && !error && (
+            <div className="flex items-center gap-2 text-gray-600">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Checking device types against the rules...
+            </div>
+          )}
+
+          {changes && changes.length === 0 && (
+            <p className="text-gray-700">All device types already match the classification rules.</p>
+          )}
+
+          {changes && changes.length > 0 && (
+            <>
+              <p className="text-gray-700 mb-3">
+                The classification rules give {changes.length} device{changes.length !== 1 ? "s" : ""} a different type:
+              </p>
+              <table className="min-w-full divide-y divide-gray-200 text-sm">
+                <thead className="bg-gray-50">
+                  <tr>
+                    <th className="px-3 py-2 text-left text-xs font-semibold text-gray-600 uppercase">Device</th>
+                    <th className="px-3 py-2 text-left text-xs font-semibold text-gray-600 uppercase">Current</th>
+                    <th className="px-3 py-2 text-left text-xs font-semibold text-gray-600 uppercase">New</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-gray-200">
+                  {changes.map(change => (
+                    <tr key={change.id}>
+                      <td className="px-3 py-2">
+                        <div className="font-medium text-gray-900">{change.name}</div>
+                        <div className="text-xs text-gray-500 font-mono">{change.ip}</div>
+                      </td>
+                      <td className="px-3 py-2 text-gray-600">{typeLabel(change.from)}</td>
+                      <td className="px-3 py-2 font-medium text-blue-700">{typeLabel(change.to)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </div>
+
+        <div className="px-6 py-4 border-t border-gray-200 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            disabled={applying}
+            className="px-4 py-2 bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300 transition-colors disabled:opacity-50"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleApply}
+            disabled={applying || !changes || changes.length === 0}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed flex items-center gap-2"
+          >
+            {applying && <Loader2 className="w-4 h-4 animate-spin" />}
+            Apply {changes && changes.length > 0 ? `(${changes.length})` : ""}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
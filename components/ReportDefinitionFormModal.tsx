@@ -0,0 +1,370 @@
+"use client"
+
+import React, { useState, useEffect, useRef } from 'react'
+import { X } from 'lucide-react'
+import { useDeviceTypes } from '@/hooks/useDeviceTypes'
+
+type ReportGroupBy = 'device' | 'room' | 'type'
+type ReportPeriod = 'DAILY' | 'WEEKLY' | 'MONTHLY'
+type ReportFormat = 'CSV' | 'HTML'
+
+const GROUP_BY_LABELS: Record<ReportGroupBy, string> = {
+  room: 'Per room',
+  type: 'Per device type',
+  device: 'Per device'
+}
+
+export const REPORT_PERIOD_LABELS: Record<ReportPeriod, string> = {
+  DAILY: 'Daily (previous day)',
+  WEEKLY: 'Weekly (previous Mon–Sun)',
+  MONTHLY: 'Monthly (previous month)'
+}
+
+const FORMAT_LABELS: Record<ReportFormat, string> = {
+  CSV: 'CSV (spreadsheet)',
+  HTML: 'HTML (print to PDF)'
+}
+
+export interface ReportDefinitionFormValue {
+  id: string
+  name: string
+  groupBy: string
+  roomId: string | null
+  deviceType: string | null
+  period: string
+  format: string
+  recipients: string
+  enabled: boolean
+}
+
+interface ReportDefinitionFormModalProps {
+  isOpen: boolean
+  onClose: () => void
+  definition?: ReportDefinitionFormValue
+  rooms: { id: string; name: string }[]
+  onSuccess: (message: string, description: string) => void
+  onError: (message: string, description: string) => void
+}
+
+const emptyForm = () => ({
+  name: '',
+  groupBy: 'room' as ReportGroupBy,
+  roomId: '',
+  deviceType: '',
+  period: 'MONTHLY' as ReportPeriod,
+  format: 'CSV' as ReportFormat,
+  recipients: '',
+  enabled: true
+})
+
+export default function ReportDefinitionFormModal({
+  isOpen,
+  onClose,
+  definition,
+  rooms,
+  onSuccess,
+  onError
+}: ReportDefinitionFormModalProps) {
+  const modalRef = useRef<HTMLDivElement>(null)
+  const [formData, setFormData] = useState(emptyForm())
+  const { deviceTypes } = useDeviceTypes()
+  const [errors, setErrors] = useState<Record<string, string>>({})
+  const [isSubmitting, setIsSubmitting] = useState(false)
+
+  // Reset form when definition changes
+  useEffect(() => {
+    if (definition) {
+      setFormData({
+        name: definition.name,
+        groupBy: definition.groupBy as ReportGroupBy,
+        roomId: definition.roomId || '',
+        deviceType: definition.deviceType || '',
+        period: definition.period as ReportPeriod,
+        format: definition.format as ReportFormat,
+        recipients: definition.recipients,
+        enabled: definition.enabled
+      })
+    } else {
+      setFormData(emptyForm())
+    }
+    setErrors({})
+  }, [definition, isOpen])
+
+  // Close on Escape key
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && isOpen) {
+        onClose()
+      }
+    }
+
+    document.addEventListener('keydown', handleEscape)
+    return () => document.removeEventListener('keydown', handleEscape)
+  }, [isOpen, onClose])
+
+  // Prevent body scroll when modal is open
+  useEffect(() => {
+    if (isOpen) {
+      document.body.style.overflow = 'hidden'
+    } else {
+      document.body.style.overflow = 'unset'
+    }
+
+    return () => {
+      document.body.style.overflow = 'unset'
+    }
+  }, [isOpen])
+
+  const validateForm = () => {
+    const newErrors: Record<string, string> = {}
+
+    if (!formData.name.trim()) {
+      newErrors.name = 'Report name is required'
+    }
+
+    const invalid = formData.recipients
+      .split(/[,;\s]+/)
+      .filter(Boolean)
+      .find(recipient => !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(recipient))
+    if (invalid) {
+      newErrors.recipients = `Invalid email address: ${invalid}`
+    }
+
+    setErrors(newErrors)
+    return Object.keys(newErrors).length === 0
+  }
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
+    const { name, value } = e.target
+
+    setFormData(prev => ({
+      ...prev,
+      [name]: value
+    }))
+
+    // Clear error for this field
+    if (errors[name]) {
+      setErrors(prev => {
+        const newErrors = { ...prev }
+        delete newErrors[name]
+        return newErrors
+      })
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!validateForm()) {
+      return
+    }
+
+    setIsSubmitting(true)
+
+    try {
+      const url = definition ? `/api/reports/definitions/${definition.id}` : '/api/reports/definitions'
+      const method = definition ? 'PUT' : 'POST'
+
+      const res = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(formData)
+      })
+
+      if (res.ok) {
+        onSuccess(
+          definition ? 'Report Updated' : 'Report Scheduled',
+          definition ? 'Scheduled report has been updated successfully.' : 'Scheduled report has been created successfully.'
+        )
+        onClose()
+      } else {
+        const data = await res.json()
+        onError('Failed to Save Report', data.error || 'An error occurred while saving the scheduled report.')
+      }
+    } catch (error) {
+      console.error('Error saving report definition:', error)
+      onError('Failed to Save Report', 'An unexpected error occurred. Please try again.')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (!isOpen) return null
+
+  const inputClass = 'w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors'
+
+  return (
+    <>
+      {/* Overlay */}
+      <div
+        className="fixed inset-0 bg-black bg-opacity-50 z-50 transition-opacity"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="fixed inset-0 z-50 overflow-y-auto">
+        <div className="flex min-h-full items-center justify-center p-4">
+          <div
+            ref={modalRef}
+            className="relative bg-white rounded-lg shadow-xl w-full max-w-lg"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {/* Header */}
+            <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between rounded-t-lg">
+              <h2 className="text-xl font-bold text-gray-900">
+                {definition ? 'Edit Scheduled Report' : 'New Scheduled Report'}
+              </h2>
+              <button
+                onClick={onClose}
+                className="text-gray-400 hover:text-gray-600 transition-colors"
+                aria-label="Close"
+                title="Close"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            {/* Form Content */}
+            <form onSubmit={handleSubmit} className="px-6 py-4">
+              <div className="space-y-4">
+                <div className="space-y-1">
+                  <label htmlFor="reportName" className="block text-sm font-medium text-gray-700">
+                    Name <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    type="text"
+                    id="reportName"
+                    name="name"
+                    value={formData.name}
+                    onChange={handleChange}
+                    className={inputClass}
+                    placeholder="e.g., Monthly availability per room"
+                  />
+                  {errors.name && (
+                    <p className="mt-1 text-sm text-red-600 flex items-center gap-1">
+                      <span>⚠</span> {errors.name}
+                    </p>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-1">
+                    <label htmlFor="reportGroupBy" className="block text-sm font-medium text-gray-700">
+                      Breakdown
+                    </label>
+                    <select id="reportGroupBy" name="groupBy" value={formData.groupBy} onChange={handleChange} className={inputClass}>
+                      {(Object.keys(GROUP_BY_LABELS) as ReportGroupBy[]).map(groupBy => (
+                        <option key={groupBy} value={groupBy}>{GROUP_BY_LABELS[groupBy]}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div className="space-y-1">
+                    <label htmlFor="reportPeriod" className="block text-sm font-medium text-gray-700">
+                      Period
+                    </label>
+                    <select id="reportPeriod" name="period" value={formData.period} onChange={handleChange} className={inputClass}>
+                      {(Object.keys(REPORT_PERIOD_LABELS) as ReportPeriod[]).map(period => (
+                        <option key={period} value={period}>{REPORT_PERIOD_LABELS[period]}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div className="space-y-1">
+                    <label htmlFor="reportRoom" className="block text-sm font-medium text-gray-700">
+                      Only Room
+                    </label>
+                    <select id="reportRoom" name="roomId" value={formData.roomId} onChange={handleChange} className={inputClass}>
+                      <option value="">All rooms</option>
+                      {rooms.map(room => (
+                        <option key={room.id} value={room.id}>{room.name}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div className="space-y-1">
+                    <label htmlFor="reportType" className="block text-sm font-medium text-gray-700">
+                      Only Device Type
+                    </label>
+                    <select id="reportType" name="deviceType" value={formData.deviceType} onChange={handleChange} className={inputClass}>
+                      <option value="">All types</option>
+                      {deviceTypes.map(definition => (
+                        <option key={definition.key} value={definition.key}>{definition.label}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  <div className="space-y-1">
+                    <label htmlFor="reportFormat" className="block text-sm font-medium text-gray-700">
+                      Format
+                    </label>
+                    <select id="reportFormat" name="format" value={formData.format} onChange={handleChange} className={inputClass}>
+                      {(Object.keys(FORMAT_LABELS) as ReportFormat[]).map(format => (
+                        <option key={format} value={format}>{FORMAT_LABELS[format]}</option>
+                      ))}
+                    </select>
+                  </div>
+                </div>
+
+                <div className="space-y-1">
+                  <label htmlFor="reportRecipients" className="block text-sm font-medium text-gray-700">
+                    Email Recipients
+                  </label>
+                  <textarea
+                    id="reportRecipients"
+                    name="recipients"
+                    value={formData.recipients}
+                    onChange={handleChange}
+                    className={inputClass}
+                    rows={2}
+                    placeholder="manager@example.com, it@example.com"
+                  />
+                  {errors.recipients && (
+                    <p className="mt-1 text-sm text-red-600 flex items-center gap-1">
+                      <span>⚠</span> {errors.recipients}
+                    </p>
+                  )}
+                  <p className="text-xs text-gray-500">
+                    Optional - reports are always stored for download. Email uses the SMTP settings in System Configuration
+                  </p>
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    id="reportEnabled"
+                    checked={formData.enabled}
+                    onChange={(e) => setFormData(prev => ({ ...prev, enabled: e.target.checked }))}
+                    className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                  />
+                  <label htmlFor="reportEnabled" className="text-sm text-gray-700">
+                    Generate automatically
+                  </label>
+                </div>
+              </div>
+
+              {/* Footer Buttons */}
+              <div className="flex gap-3 justify-end pt-4 mt-4 border-t border-gray-200">
+                <button
+                  type="button"
+                  onClick={onClose}
+                  className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors font-medium"
+                  disabled={isSubmitting}
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={isSubmitting}
+                  className="px-6 py-2 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-lg hover:from-blue-700 hover:to-blue-800 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed font-medium shadow-md hover:shadow-lg"
+                >
+                  {isSubmitting ? 'Saving...' : definition ? 'Update Report' : 'Create Report'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,114 @@
+"use client"
+
+import React from "react"
+import { AlertTriangle, Terminal, X } from "lucide-react"
+import { formatRouterOSCommand, RouterOSCommand, RouterPreview } from "@/lib/routeros-dry-run"
+
+interface RouterCommandListProps {
+  commands: RouterOSCommand[]
+}
+
+/**
+ * RouterOS commands of a dry run, grouped by router
+ */
+export function RouterCommandList({ commands }: RouterCommandListProps) {
+  if (commands.length === 0) {
+    return <p className="text-sm text-gray-600">No router changes.</p>
+  }
+
+  const routers = Array.from(new Set(commands.map(command => command.router ?? "MikroTik")))
+
+  return (
+    <div className="space-y-3">
+      {routers.map(router => (
+        <div key={router}>
+          <p className="text-xs font-semibold text-gray-500 uppercase mb-1">{router}</p>
+          <ul className="bg-gray-900 text-gray-100 rounded p-3 space-y-1 font-mono text-xs overflow-x-auto">
+            {commands
+              .filter(command => (command.router ?? "MikroTik") === router)
+              .map((command, index) => (
+                <li key={index} className="whitespace-pre">{formatRouterOSCommand(command)}</li>
+              ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+interface RouterCommandPreviewProps {
+  preview: RouterPreview
+  confirmLabel: string
+  busy?: boolean
+  onConfirm: () => void
+  onCancel: () => void
+}
+
+/**
+ * Router Command Preview
+ * Shows what a router-changing action would send before the user confirms it
+ */
+export default function RouterCommandPreview({
+  preview,
+  confirmLabel,
+  busy = false,
+  onConfirm,
+  onCancel
+}: RouterCommandPreviewProps) {
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-[60] p-4">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full">
+        <div className="px-6 py-4 border-b border-gray-200 flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <Terminal className="w-5 h-5 text-gray-600" />
+            <h2 className="text-xl font-bold text-gray-900">Router Changes</h2>
+          </div>
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={busy}
+            className="text-gray-400 hover:text-gray-600 disabled:opacity-50"
+            aria-label="Close"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="px-6 py-4 space-y-3 max-h-[60vh] overflow-y-auto">
+          <p className="text-sm text-gray-700">
+            {preview.commands.length === 1
+              ? "The following command will be sent:"
+              : `The following ${preview.commands.length} commands will be sent:`}
+          </p>
+          <RouterCommandList commands={preview.commands} />
+          {preview.message && (
+            <p className="text-sm text-gray-600">{preview.message}</p>
+          )}
+          {preview.warning && (
+            <div className="flex items-start gap-2 bg-orange-50 border border-orange-200 text-orange-800 px-3 py-2 rounded text-sm">
+              <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+              <span>{preview.warning}</span>
+            </div>
+          )}
+        </div>
+        <div className="px-6 py-4 bg-gray-50 flex gap-3 justify-end rounded-b-lg">
+          <button
+            type="button"
+            onClick={onCancel}
+            disabled={busy}
+            className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-100 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={onConfirm}
+            disabled={busy}
+            className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:bg-blue-400 disabled:cursor-not-allowed"
+          >
+            {busy ? "Applying..." : confirmLabel}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
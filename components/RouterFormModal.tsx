@@ -0,0 +1,423 @@
+"use client"
+
+import React, { useState, useEffect, useRef } from 'react'
+import { X, Wifi, Loader2 } from 'lucide-react'
+
+interface RouterFormModalProps {
+  isOpen: boolean
+  onClose: () => void
+  router?: {
+    id: string
+    name: string
+    host: string
+    username: string
+    port: number
+    enabled: boolean
+  }
+  onSuccess: (message: string, description: string) => void
+  onError: (message: string, description: string) => void
+}
+
+export default function RouterFormModal({
+  isOpen,
+  onClose,
+  router,
+  onSuccess,
+  onError
+}: RouterFormModalProps) {
+  const modalRef = useRef<HTMLDivElement>(null)
+  const [formData, setFormData] = useState({
+    name: router?.name || '',
+    host: router?.host || '',
+    username: router?.username || '',
+    password: '',
+    port: router?.port || 8728,
+    enabled: router?.enabled ?? true
+  })
+  const [errors, setErrors] = useState<Record<string, string>>({})
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [testing, setTesting] = useState(false)
+  const [connectionStatus, setConnectionStatus] = useState<{
+    success: boolean
+    message: string
+  } | null>(null)
+
+  // Reset form when router changes
+  useEffect(() => {
+    setFormData({
+      name: router?.name || '',
+      host: router?.host || '',
+      username: router?.username || '',
+      password: '',
+      port: router?.port || 8728,
+      enabled: router?.enabled ?? true
+    })
+    setErrors({})
+    setConnectionStatus(null)
+  }, [router, isOpen])
+
+  // Close on Escape key
+  useEffect(() => {
+    const handleEscape = (e: KeyboardEvent) => {
+      if (e.key === 'Escape' && isOpen) {
+        onClose()
+      }
+    }
+
+    document.addEventListener('keydown', handleEscape)
+    return () => document.removeEventListener('keydown', handleEscape)
+  }, [isOpen, onClose])
+
+  // Prevent body scroll when modal is open
+  useEffect(() => {
+    if (isOpen) {
+      document.body.style.overflow = 'hidden'
+    } else {
+      document.body.style.overflow = 'unset'
+    }
+
+    return () => {
+      document.body.style.overflow = 'unset'
+    }
+  }, [isOpen])
+
+  const validateForm = () => {
+    const newErrors: Record<string, string> = {}
+
+    if (!formData.name.trim()) {
+      newErrors.name = 'Router name is required'
+    }
+
+    const ipRegex = /^(\d{1,3}\.){3}\d{1,3}$/
+    if (!formData.host.trim()) {
+      newErrors.host = 'IP address is required'
+    } else if (!ipRegex.test(formData.host) || formData.host.split('.').some(octet => parseInt(octet) > 255)) {
+      newErrors.host = 'Please enter a valid IP address'
+    }
+
+    if (!formData.username.trim()) {
+      newErrors.username = 'Username is required'
+    }
+
+    // Password is only required for new routers - blank keeps the stored one
+    if (!router && !formData.password) {
+      newErrors.password = 'Password is required'
+    }
+
+    if (!formData.port || formData.port <= 0 || formData.port > 65535) {
+      newErrors.port = 'Port must be between 1 and 65535'
+    }
+
+    setErrors(newErrors)
+    return Object.keys(newErrors).length === 0
+  }
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value, type, checked } = e.target
+
+    setFormData(prev => ({
+      ...prev,
+      [name]: type === 'checkbox' ? checked : name === 'port' ? parseInt(value) || 0 : value
+    }))
+
+    // Clear error for this field
+    if (errors[name]) {
+      setErrors(prev => {
+        const newErrors = { ...prev }
+        delete newErrors[name]
+        return newErrors
+      })
+    }
+
+    // Clear connection status when config changes
+    if (connectionStatus) {
+      setConnectionStatus(null)
+    }
+  }
+
+  const handleTestConnection = async () => {
+    setTesting(true)
+    setConnectionStatus(null)
+
+    try {
+      const response = await fetch('/api/config/test-connection', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          routerId: router?.id,
+          mikrotikIp: formData.host,
+          mikrotikUser: formData.username,
+          mikrotikPass: formData.password,
+          mikrotikPort: formData.port
+        })
+      })
+
+      const data = await response.json()
+
+      if (data.success) {
+        let details = 'Connection established successfully'
+        if (data.details) {
+          if (data.details.identity) details += ` to ${data.details.identity}`
+          if (data.details.version) details += ` (${data.details.version})`
+        }
+        setConnectionStatus({ success: true, message: details })
+      } else {
+        setConnectionStatus({
+          success: false,
+          message: data.details ? `${data.error}: ${data.details}` : data.error || 'Connection test failed'
+        })
+      }
+    } catch (error) {
+      console.error('Error testing connection:', error)
+      setConnectionStatus({ success: false, message: 'Failed to test connection. Please check your network.' })
+    } finally {
+      setTesting(false)
+    }
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    if (!validateForm()) {
+      return
+    }
+
+    setIsSubmitting(true)
+
+    try {
+      const url = router ? `/api/routers/${router.id}` : '/api/routers'
+      const method = router ? 'PUT' : 'POST'
+
+      const res = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(formData)
+      })
+
+      if (res.ok) {
+        onSuccess(
+          router ? 'Router Updated' : 'Router Added',
+          router ? 'Router has been updated successfully.' : 'New router has been added successfully.'
+        )
+        onClose()
+      } else {
+        const data = await res.json()
+        onError('Failed to Save Router', data.error || 'An error occurred while saving the router.')
+      }
+    } catch (error) {
+      console.error('Error saving router:', error)
+      onError('Failed to Save Router', 'An unexpected error occurred. Please try again.')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (!isOpen) return null
+
+  return (
+    <>
+      {/* Overlay */}
+      <div
+        className="fixed inset-0 bg-black bg-opacity-50 z-50 transition-opacity"
+        onClick={onClose}
+      />
+
+      {/* Modal */}
+      <div className="fixed inset-0 z-50 overflow-y-auto">
+        <div className="flex min-h-full items-center justify-center p-4">
+          <div
+            ref={modalRef}
+            className="relative bg-white rounded-lg shadow-xl w-full max-w-lg"
+            onClick={(e) => e.stopPropagation()}
+          >
+            {/* Header */}
+            <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex items-center justify-between rounded-t-lg">
+              <h2 className="text-xl font-bold text-gray-900">
+                {router ? 'Edit Router' : 'Add New Router'}
+              </h2>
+              <button
+                onClick={onClose}
+                className="text-gray-400 hover:text-gray-600 transition-colors"
+                aria-label="Close"
+                title="Close"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            {/* Form Content */}
+            <form onSubmit={handleSubmit} className="px-6 py-4">
+              <div className="space-y-4">
+                <div className="space-y-1">
+                  <label htmlFor="routerName" className="block text-sm font-medium text-gray-700">
+                    Router Name <span className="text-red-500">*</span>
+                  </label>
+                  <input
+                    type="text"
+                    id="routerName"
+                    name="name"
+                    value={formData.name}
+                    onChange={handleChange}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                    placeholder="e.g., Core Router, Warehouse"
+                  />
+                  {errors.name && (
+                    <p className="mt-1 text-sm text-red-600 flex items-center gap-1">
+                      <span>⚠</span> {errors.name}
+                    </p>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <div className="md:col-span-2 space-y-1">
+                    <label htmlFor="routerHost" className="block text-sm font-medium text-gray-700">
+                      IP Address <span className="text-red-500">*</span>
+                    </label>
+                    <input
+                      type="text"
+                      id="routerHost"
+                      name="host"
+                      value={formData.host}
+                      onChange={handleChange}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors font-mono"
+                      placeholder="192.168.1.1"
+                    />
+                    {errors.host && (
+                      <p className="mt-1 text-sm text-red-600 flex items-center gap-1">
+                        <span>⚠</span> {errors.host}
+                      </p>
+                    )}
+                  </div>
+
+                  <div className="space-y-1">
+                    <label htmlFor="routerPort" className="block text-sm font-medium text-gray-700">
+                      API Port
+                    </label>
+                    <input
+                      type="number"
+                      id="routerPort"
+                      name="port"
+                      value={formData.port}
+                      onChange={handleChange}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                      placeholder="8728"
+                      min="1"
+                      max="65535"
+                    />
+                    {errors.port && (
+                      <p className="mt-1 text-sm text-red-600 flex items-center gap-1">
+                        <span>⚠</span> {errors.port}
+                      </p>
+                    )}
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-1">
+                    <label htmlFor="routerUsername" className="block text-sm font-medium text-gray-700">
+                      Username <span className="text-red-500">*</span>
+                    </label>
+                    <input
+                      type="text"
+                      id="routerUsername"
+                      name="username"
+                      value={formData.username}
+                      onChange={handleChange}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                      placeholder="admin"
+                    />
+                    {errors.username && (
+                      <p className="mt-1 text-sm text-red-600 flex items-center gap-1">
+                        <span>⚠</span> {errors.username}
+                      </p>
+                    )}
+                  </div>
+
+                  <div className="space-y-1">
+                    <label htmlFor="routerPassword" className="block text-sm font-medium text-gray-700">
+                      Password {!router && <span className="text-red-500">*</span>}
+                    </label>
+                    <input
+                      type="password"
+                      id="routerPassword"
+                      name="password"
+                      value={formData.password}
+                      onChange={handleChange}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                      placeholder={router ? 'Leave blank to keep current' : '••••••••'}
+                    />
+                    {errors.password && (
+                      <p className="mt-1 text-sm text-red-600 flex items-center gap-1">
+                        <span>⚠</span> {errors.password}
+                      </p>
+                    )}
+                  </div>
+                </div>
+
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    name="enabled"
+                    checked={formData.enabled}
+                    onChange={handleChange}
+                    className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                  />
+                  <span className="text-sm text-gray-700">Enabled (poll this router for device status)</span>
+                </label>
+
+                {connectionStatus && (
+                  <div className={`p-3 rounded-lg text-sm ${
+                    connectionStatus.success
+                      ? 'bg-green-50 text-green-800 border border-green-200'
+                      : 'bg-red-50 text-red-800 border border-red-200'
+                  }`}>
+                    {connectionStatus.message}
+                  </div>
+                )}
+              </div>
+
+              {/* Footer Buttons */}
+              <div className="flex flex-col sm:flex-row gap-3 justify-between pt-4 mt-4 border-t border-gray-200">
+                <button
+                  type="button"
+                  onClick={handleTestConnection}
+                  disabled={testing || isSubmitting}
+                  className="px-4 py-2 bg-gray-600 hover:bg-gray-700 text-white rounded-lg font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
+                >
+                  {testing ? (
+                    <>
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                      Testing...
+                    </>
+                  ) : (
+                    <>
+                      <Wifi className="w-4 h-4" />
+                      Test Connection
+                    </>
+                  )}
+                </button>
+                <div className="flex gap-3 justify-end">
+                  <button
+                    type="button"
+                    onClick={onClose}
+                    className="px-4 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors font-medium"
+                    disabled={isSubmitting}
+                  >
+                    Cancel
+                  </button>
+                  <button
+                    type="submit"
+                    disabled={isSubmitting || testing}
+                    className="px-6 py-2 bg-gradient-to-r from-blue-600 to-blue-700 text-white rounded-lg hover:from-blue-700 hover:to-blue-800 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed font-medium shadow-md hover:shadow-lg"
+                  >
+                    {isSubmitting ? 'Saving...' : router ? 'Update Router' : 'Add Router'}
+                  </button>
+                </div>
+              </div>
+            </form>
+          </div>
+        </div>
+      </div>
+    </>
+  )
+}
@@ -6,6 +6,7 @@ import { usePathname } from 'next/navigation'
 import { signOut } from 'next-auth/react'
 import { 
   Map, 
+  BarChart3,
   Database, 
   Settings, 
   User, 
@@ -13,6 +14,10 @@ import {
   Home,
   Users,
   Building,
+  Bell,
+  Tags,
+  Shapes,
+  Wrench,
   Menu,
   X,
   ChevronLeft,
@@ -67,6 +72,12 @@ export default function Sidebar({ user }: SidebarProps) {
         icon: Map,
         roles: ['ADMIN', 'OPERATOR', 'VIEWER']
       },
+      {
+        name: 'Reports',
+        href: '/dashboard/reports',
+        icon: BarChart3,
+        roles: ['ADMIN', 'OPERATOR', 'VIEWER']
+      },
       {
         name: 'Profile',
         href: '/dashboard/profile',
@@ -87,6 +98,12 @@ export default function Sidebar({ user }: SidebarProps) {
         href: '/dashboard/admin/rooms',
         icon: Building,
         roles: ['ADMIN', 'OPERATOR']
+      },
+      {
+        name: 'Maintenance',
+        href: '/dashboard/manage/maintenance',
+        icon: Wrench,
+        roles: ['ADMIN', 'OPERATOR']
       }
     ]
 
@@ -97,6 +114,24 @@ export default function Sidebar({ user }: SidebarProps) {
         icon: Settings,
         roles: ['ADMIN']
       },
+      {
+        name: 'Alerts',
+        href: '/dashboard/admin/alerts',
+        icon: Bell,
+        roles: ['ADMIN']
+      },
+      {
+        name: 'Classification',
+        href: '/dashboard/admin/classification',
+        icon: Tags,
+        roles: ['ADMIN']
+      },
+      {
+        name: 'Device Types',
+        href: '/dashboard/admin/device-types',
+        icon: Shapes,
+        roles: ['ADMIN']
+      },
       {
         name: 'Users',
         href: '/dashboard/admin/users',
@@ -7,6 +7,7 @@ import useSWR from 'swr'
 interface StatusHistoryEntry {
   id: string
   status: string
+  maintenance?: boolean
   timestamp: string
 }
 
@@ -20,7 +21,7 @@ const fetcher = (url: string) => fetch(url).then((res) => res.json())
 
 /**
  * Status History Timeline Component
- * Shows device UP/DOWN history for last N hours with visual timeline
+ * Shows device UP/DEGRADED/DOWN/FLAPPING history for last N hours with visual timeline
  */
 export default function StatusHistoryTimeline({ 
   deviceId, 
@@ -31,6 +32,7 @@ export default function StatusHistoryTimeline({
   const [uptimePercentage, setUptimePercentage] = useState(0)
   const [upCount, setUpCount] = useState(0)
   const [downCount, setDownCount] = useState(0)
+  const [flapCount, setFlapCount] = useState(0)
   const [totalChanges, setTotalChanges] = useState(0)
 
   // Set mounted flag on client
@@ -56,53 +58,16 @@ export default function StatusHistoryTimeline({
     // Calculate statistics
     const up = history.filter(h => h.status === 'up').length
     const down = history.filter(h => h.status === 'down').length
+    const flapping = history.filter(h => h.status === 'flapping').length
     const total = history.length
 
     setUpCount(up)
     setDownCount(down)
+    setFlapCount(flapping)
     setTotalChanges(total)
 
-    // Calculate uptime percentage
-    let uptime = 0
-    if (history.length >= 2) {
-      const firstTime = new Date(history[0].timestamp).getTime()
-      const lastTime = new Date(history[history.length - 1].timestamp).getTime()
-      const now = Date.now()
-      
-      // Use current time if last event is recent (within the time window)
-      const totalDuration = Math.max(lastTime - firstTime, now - firstTime)
-
-      let upDuration = 0
-      for (let i = 0; i < history.length - 1; i++) {
-        if (history[i].status === 'up') {
-          const start = new Date(history[i].timestamp).getTime()
-          const end = new Date(history[i + 1].timestamp).getTime()
-          upDuration += end - start
-        }
-      }
-      
-      // Add duration from last status change to now
-      const lastEntry = history[history.length - 1]
-      if (lastEntry.status === 'up') {
-        const lastStart = new Date(lastEntry.timestamp).getTime()
-        upDuration += now - lastStart
-      }
-
-      uptime = totalDuration > 0 ? (upDuration / totalDuration) * 100 : 0
-    } else if (history.length === 1) {
-      // If only one entry, calculate from that time to now
-      const entryTime = new Date(history[0].timestamp).getTime()
-      const now = Date.now()
-      const duration = now - entryTime
-      
-      if (history[0].status === 'up' && duration > 0) {
-        uptime = 100
-      } else if (history[0].status === 'down' && duration > 0) {
-        uptime = 0
-      }
-    }
-
-    setUptimePercentage(uptime)
+    // Uptime is computed server-side, including the status carried in from before the range
+    setUptimePercentage(data.uptime?.uptimePercent ?? 0)
   }, [data, isMounted])
 
   if (isLoading) {
@@ -171,13 +136,17 @@ export default function StatusHistoryTimeline({
                 <div
                   key={entry.id}
                   className={`absolute top-0 h-full ${
-                    entry.status === 'up' ? 'bg-green-500' : 'bg-red-500'
+                    entry.maintenance ? 'bg-indigo-300' :
+                    entry.status === 'up' ? 'bg-green-500' :
+                    entry.status === 'degraded' ? 'bg-orange-400' :
+                    entry.status === 'flapping' ? 'bg-amber-400' :
+                    entry.status === 'unreachable' ? 'bg-slate-400' : 'bg-red-500'
                   }`}
                   style={{
                     left: `${leftPercent}%`,
                     width: `${widthPercent}%`
                   }}
-                  title={`${entry.status.toUpperCase()} - ${new Date(entry.timestamp).toLocaleString('id-ID')}`}
+                  title={`${entry.status.toUpperCase()}${entry.maintenance ? ' (maintenance)' : ''} - ${new Date(entry.timestamp).toLocaleString('id-ID')}`}
                   suppressHydrationWarning
                 />
               )
@@ -205,6 +174,11 @@ export default function StatusHistoryTimeline({
               <div className="font-semibold text-red-700">{downCount}</div>
             </div>
           </div>
+          {flapCount > 0 && (
+            <div className="mt-1 text-center text-[10px] text-amber-700 bg-amber-50 rounded p-1" suppressHydrationWarning>
+              Flapping {flapCount}× in this period
+            </div>
+          )}
 
           {/* Recent events */}
           {history.length > 0 && (
@@ -214,9 +188,16 @@ export default function StatusHistoryTimeline({
                 {history.slice(-5).reverse().map((entry) => (
                   <div key={entry.id} className="flex items-center justify-between text-[10px] py-0.5">
                     <span className={`font-medium ${
-                      entry.status === 'up' ? 'text-green-600' : 'text-red-600'
+                      entry.status === 'up' ? 'text-green-600' :
+                      entry.status === 'degraded' ? 'text-orange-600' :
+                      entry.status === 'flapping' ? 'text-amber-600' :
+                      entry.status === 'unreachable' ? 'text-slate-500' : 'text-red-600'
                     }`}>
-                      {entry.status === 'up' ? '↑ UP' : '↓ DOWN'}
+                      {entry.status === 'up' ? '↑ UP' :
+                        entry.status === 'degraded' ? '↘ DEGRADED' :
+                        entry.status === 'flapping' ? '↕ FLAPPING' :
+                        entry.status === 'unreachable' ? '↓ UNREACHABLE' : '↓ DOWN'}
+                      {entry.maintenance && <span className="ml-1 text-indigo-500 font-normal">(maint.)</span>}
                     </span>
                     <span className="text-gray-500" suppressHydrationWarning>
                       {new Date(entry.timestamp).toLocaleString('id-ID', {
@@ -1,14 +1,17 @@
 "use client"
 
-import React, { useState } from "react"
+import React, { useState, useEffect } from "react"
 import { useRouter } from "next/navigation"
 import { RefreshCw, Download, CheckCircle } from "lucide-react"
+import { describeNetwatchProbe, NetwatchProbe } from "@/lib/netwatch-probes"
 
-interface MikroTikDevice {
+interface MikroTikDevice extends Partial<NetwatchProbe> {
   name: string
   ip: string
   type: string
   status: string
+  managed?: boolean // Entry carries the dashboard's ownership marker
+  probes?: Array<{ name: string }> // Other netwatch entries on the host
 }
 
 export default function SyncDevicesClient() {
@@ -18,13 +21,36 @@ export default function SyncDevicesClient() {
   const [devices, setDevices] = useState<MikroTikDevice[]>([])
   const [selectedDevices, setSelectedDevices] = useState<Set<string>>(new Set())
   const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null)
+  const [routers, setRouters] = useState<Array<{ id: string; name: string; host: string; enabled: boolean }>>([])
+  const [selectedRouterId, setSelectedRouterId] = useState("")
+  // Router the current device list was fetched from - imported devices are bound to it
+  const [fetchedRouterId, setFetchedRouterId] = useState<string | null>(null)
+
+  // Fetch MikroTik routers on mount
+  useEffect(() => {
+    fetch('/api/routers')
+      .then(res => res.json())
+      .then(data => {
+        if (data.routers) {
+          const enabledRouters = data.routers.filter((r: { enabled: boolean }) => r.enabled)
+          setRouters(enabledRouters)
+          if (enabledRouters.length > 0) {
+            setSelectedRouterId(enabledRouters[0].id)
+          }
+        }
+      })
+      .catch(err => console.error('Failed to fetch routers:', err))
+  }, [])
 
   const handleFetchDevices = async () => {
     setLoading(true)
     setMessage(null)
     
     try {
-      const response = await fetch('/api/mikrotik/sync-devices')
+      const url = selectedRouterId
+        ? `/api/mikrotik/sync-devices?routerId=${encodeURIComponent(selectedRouterId)}`
+        : '/api/mikrotik/sync-devices'
+      const response = await fetch(url)
       const data = await response.json()
       
       if (!response.ok || !data.success) {
@@ -37,6 +63,7 @@ export default function SyncDevicesClient() {
       }
       
       setDevices(data.devices || [])
+      setFetchedRouterId(data.router?.id || null)
       // Select all by default
       setSelectedDevices(new Set(data.devices.map((d: MikroTikDevice) => d.ip)))
       
@@ -90,7 +117,7 @@ export default function SyncDevicesClient() {
         headers: {
           'Content-Type': 'application/json'
         },
-        body: JSON.stringify({ devices: devicesToImport })
+        body: JSON.stringify({ devices: devicesToImport, routerId: fetchedRouterId })
       })
       
       const data = await response.json()
@@ -146,14 +173,29 @@ export default function SyncDevicesClient() {
               Fetch and import devices from your MikroTik router
             </p>
           </div>
-          <button
-            onClick={handleFetchDevices}
-            disabled={loading}
-            className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed flex items-center gap-2"
-          >
-            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
-            {loading ? 'Fetching...' : 'Fetch Devices'}
-          </button>
+          <div className="flex items-center gap-2">
+            {routers.length > 1 && (
+              <select
+                value={selectedRouterId}
+                onChange={(e) => setSelectedRouterId(e.target.value)}
+                disabled={loading}
+                aria-label="MikroTik router"
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+              >
+                {routers.map(r => (
+                  <option key={r.id} value={r.id}>{r.name} ({r.host})</option>
+                ))}
+              </select>
+            )}
+            <button
+              onClick={handleFetchDevices}
+              disabled={loading}
+              className="bg-blue-600 hover:bg-blue-700 text-white px-4 py-2 rounded-lg font-medium transition-colors disabled:bg-gray-400 disabled:cursor-not-allowed flex items-center gap-2"
+            >
+              <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+              {loading ? 'Fetching...' : 'Fetch Devices'}
+            </button>
+          </div>
         </div>
 
         {devices.length > 0 && (
@@ -185,9 +227,19 @@ export default function SyncDevicesClient() {
                     className="w-4 h-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
                   />
                   <div className="flex-1">
-                    <div className="font-semibold text-gray-900">{device.name}</div>
+                    <div className="font-semibold text-gray-900">
+                      {device.name}
+                      {device.managed && (
+                        <span className="ml-2 px-1.5 py-0.5 rounded bg-blue-50 text-blue-700 text-[10px] font-medium align-middle">
+                          Managed
+                        </span>
+                      )}
+                    </div>
                     <div className="text-sm text-gray-600">
-                      {device.ip} • {device.type}
+                      {device.ip} • {device.type} • {describeNetwatchProbe(device)}
+                      {device.probes && device.probes.length > 0 && (
+                        <> • +{device.probes.length} probe{device.probes.length !== 1 ? 's' : ''} ({device.probes.map(probe => probe.name).join(', ')})</>
+                      )}
                     </div>
                   </div>
                   <div className={`px-2.5 py-1 rounded-full text-xs font-semibold ${
@@ -0,0 +1,267 @@
+"use client"
+
+import React, { useState } from "react"
+import Link from "next/link"
+import useSWR from "swr"
+import { ListChecks, RotateCcw, XCircle, ChevronDown, ChevronRight, CheckCircle2, AlertCircle } from "lucide-react"
+import type { SyncJobKind, SyncJobStatus } from "@/lib/sync-jobs"
+
+interface SyncJobAttempt {
+  id: string
+  attempt: number
+  success: boolean
+  message: string
+  createdAt: string
+}
+
+interface SyncJob {
+  id: string
+  kind: SyncJobKind
+  deviceId: string | null
+  deviceName: string
+  status: SyncJobStatus
+  attempts: number
+  maxAttempts: number
+  nextRunAt: string
+  lastError: string | null
+  finishedAt: string | null
+  createdAt: string
+  log: SyncJobAttempt[]
+}
+
+interface SyncJobsClientProps {
+  deviceId?: string
+}
+
+const fetcher = (url: string) => fetch(url).then((res) => res.json())
+
+const KIND_LABELS: Record<SyncJobKind, string> = {
+  SYNC_DEVICE: 'Sync device',
+  REMOVE_DEVICE: 'Remove from previous router',
+  SYNC_PROBE: 'Sync probe',
+  REMOVE_PROBE: 'Remove probe'
+}
+
+const STATUS_STYLES: Record<SyncJobStatus, { label: string; className: string }> = {
+  PENDING: { label: 'Waiting', className: 'bg-blue-100 text-blue-800' },
+  RUNNING: { label: 'Running', className: 'bg-indigo-100 text-indigo-800' },
+  SUCCEEDED: { label: 'Succeeded', className: 'bg-green-100 text-green-800' },
+  FAILED: { label: 'Failed', className: 'bg-red-100 text-red-800' },
+  CANCELLED: { label: 'Cancelled', className: 'bg-gray-200 text-gray-700' }
+}
+
+const STATUS_FILTERS: Array<{ value: string; label: string }> = [
+  { value: '', label: 'All' },
+  { value: 'PENDING', label: 'Waiting' },
+  { value: 'FAILED', label: 'Failed' },
+  { value: 'SUCCEEDED', label: 'Succeeded' },
+  { value: 'CANCELLED', label: 'Cancelled' }
+]
+
+/**
+ * Sync Jobs
+ * Queued MikroTik writes with their attempts, for one device or all of them
+ */
+export default function SyncJobsClient({ deviceId }: SyncJobsClientProps) {
+  const [status, setStatus] = useState('')
+  const [expanded, setExpanded] = useState<Set<string>>(new Set())
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null)
+
+  const query = new URLSearchParams({
+    ...(status ? { status } : {}),
+    ...(deviceId ? { deviceId } : {})
+  }).toString()
+  const { data, error, isLoading, mutate } = useSWR(`/api/sync-jobs${query ? `?${query}` : ''}`, fetcher, {
+    refreshInterval: 10000
+  })
+  const jobs: SyncJob[] = data?.jobs ?? []
+
+  const toggleExpanded = (id: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }
+
+  const handleAction = async (job: SyncJob, action: 'retry' | 'cancel') => {
+    if (action === 'cancel' && !confirm(`Cancel "${KIND_LABELS[job.kind]}" for ${job.deviceName}? The router will not be changed.`)) {
+      return
+    }
+
+    setBusyId(job.id)
+    setMessage(null)
+
+    try {
+      const response = await fetch(`/api/sync-jobs/${job.id}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action })
+      })
+      const result = await response.json()
+
+      if (!response.ok) {
+        setMessage({ type: 'error', text: result.error || 'Action failed' })
+        return
+      }
+
+      setMessage({
+        type: result.success ? 'success' : 'error',
+        text: result.success ? result.message : `Retry failed: ${result.message}`
+      })
+      mutate()
+    } catch (error) {
+      console.error('Error updating sync job:', error)
+      setMessage({ type: 'error', text: 'Failed to connect to server. Please try again.' })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <div className="max-w-5xl space-y-6">
+      {message && (
+        <div className={`p-4 rounded-lg ${
+          message.type === 'success'
+            ? 'bg-green-100 text-green-800 border border-green-300'
+            : 'bg-red-100 text-red-800 border border-red-300'
+        }`}>
+          {message.text}
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-lg p-6 lg:p-8 border border-gray-200">
+        <div className="flex flex-wrap justify-between items-center mb-6 gap-4">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">
+              {deviceId && jobs[0] ? `Jobs of ${jobs[0].deviceName}` : 'All Jobs'}
+            </h2>
+            {deviceId && (
+              <Link href="/dashboard/manage/devices/jobs" className="text-sm text-blue-600 hover:text-blue-800">
+                Show jobs of all devices
+              </Link>
+            )}
+          </div>
+          <div className="flex items-center gap-1">
+            {STATUS_FILTERS.map(filter => (
+              <button
+                key={filter.value}
+                type="button"
+                onClick={() => setStatus(filter.value)}
+                className={`px-3 py-1.5 rounded-lg text-sm font-medium transition-colors ${
+                  status === filter.value ? 'bg-blue-600 text-white' : 'text-gray-700 hover:bg-gray-100'
+                }`}
+              >
+                {filter.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {error || data?.error ? (
+          <div className="text-center py-8 text-red-600">
+            {data?.error || 'Failed to load sync jobs'}
+          </div>
+        ) : isLoading ? (
+          <div className="text-center py-8 text-gray-500">Loading...</div>
+        ) : jobs.length === 0 ? (
+          <div className="text-center py-12 text-gray-500">
+            <ListChecks className="w-12 h-12 mx-auto mb-4 text-gray-400" />
+            <p className="text-lg font-medium">No sync jobs</p>
+            <p className="text-sm mt-2">Device and probe changes sent to MikroTik show up here</p>
+          </div>
+        ) : (
+          <div className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+            {jobs.map(job => {
+              const isExpanded = expanded.has(job.id)
+              const canChange = job.status === 'PENDING' || job.status === 'FAILED'
+
+              return (
+                <div key={job.id} className="p-4">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <button
+                      type="button"
+                      onClick={() => toggleExpanded(job.id)}
+                      className="text-gray-500 hover:text-gray-700"
+                      aria-label={isExpanded ? 'Hide attempts' : 'Show attempts'}
+                    >
+                      {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                    </button>
+                    <span className="font-semibold text-gray-900">{job.deviceName}</span>
+                    <span className="text-sm text-gray-600">{KIND_LABELS[job.kind] ?? job.kind}</span>
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-semibold ${STATUS_STYLES[job.status].className}`}>
+                      {STATUS_STYLES[job.status].label}
+                    </span>
+                    <span className="text-xs text-gray-500">
+                      {job.attempts}/{job.maxAttempts} attempt{job.maxAttempts !== 1 ? 's' : ''}
+                    </span>
+                    <div className="ml-auto flex items-center gap-2">
+                      {canChange && (
+                        <>
+                          <button
+                            type="button"
+                            onClick={() => handleAction(job, 'retry')}
+                            disabled={busyId !== null}
+                            title="Try again now with a fresh set of attempts"
+                            className="flex items-center gap-1 px-2.5 py-1 rounded border border-gray-300 text-gray-700 hover:bg-gray-50 text-xs font-medium transition-colors disabled:opacity-50"
+                          >
+                            <RotateCcw className={`w-3.5 h-3.5 ${busyId === job.id ? 'animate-spin' : ''}`} />
+                            Retry now
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => handleAction(job, 'cancel')}
+                            disabled={busyId !== null}
+                            title="Stop retrying this job"
+                            className="flex items-center gap-1 px-2.5 py-1 rounded border border-red-200 text-red-700 hover:bg-red-50 text-xs font-medium transition-colors disabled:opacity-50"
+                          >
+                            <XCircle className="w-3.5 h-3.5" />
+                            Cancel
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+
+                  <p className="text-xs text-gray-500 mt-1 ml-6">
+                    Queued {new Date(job.createdAt).toLocaleString()}
+                    {job.status === 'PENDING' && job.attempts > 0 && (
+                      <> • next attempt {new Date(job.nextRunAt).toLocaleString()}</>
+                    )}
+                    {job.finishedAt && <> • finished {new Date(job.finishedAt).toLocaleString()}</>}
+                  </p>
+                  {job.lastError && job.status !== 'SUCCEEDED' && (
+                    <p className="text-sm text-red-700 mt-1 ml-6 break-words">Last error: {job.lastError}</p>
+                  )}
+
+                  {isExpanded && (
+                    <ul className="mt-3 ml-6 space-y-1">
+                      {job.log.length === 0 ? (
+                        <li className="text-xs text-gray-500">No attempts yet</li>
+                      ) : job.log.map(attempt => (
+                        <li key={attempt.id} className="flex items-start gap-2 text-xs">
+                          {attempt.success
+                            ? <CheckCircle2 className="w-3.5 h-3.5 text-green-600 mt-0.5 flex-shrink-0" />
+                            : <AlertCircle className="w-3.5 h-3.5 text-red-600 mt-0.5 flex-shrink-0" />}
+                          <span className="text-gray-500 whitespace-nowrap">
+                            #{attempt.attempt} • {new Date(attempt.createdAt).toLocaleString()}
+                          </span>
+                          <span className="text-gray-900 break-words">{attempt.message}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
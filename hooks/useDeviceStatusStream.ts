@@ -0,0 +1,89 @@
+"use client"
+
+import { useEffect, useRef, useState } from 'react'
+import type { DeviceStatusEvent } from '@/lib/status-events'
+
+export type { DeviceStatusEvent }
+
+/**
+ * Apply status events to a device list - returns the same array when nothing changed
+ */
+export function applyStatusEvents<T extends { id: string; status: string }>(
+  devices: T[],
+  events: DeviceStatusEvent[]
+): T[] {
+  if (events.length === 0) return devices
+
+  // Last event per device wins
+  const latest = new Map<string, DeviceStatusEvent>()
+  events.forEach(event => latest.set(event.deviceId, event))
+
+  let changed = false
+  const updated = devices.map(device => {
+    const event = latest.get(device.id)
+    if (!event) return device
+
+    changed = true
+    return {
+      ...device,
+      status: event.status,
+      statusSince: event.statusSince,
+      lastSeen: event.lastSeen
+    }
+  })
+
+  return changed ? updated : devices
+}
+
+/**
+ * Subscribe to live device status changes from /api/devices/events
+ *
+ * Callers keep their regular polling as a fallback - `connected` reports
+ * whether the stream is currently open.
+ */
+export function useDeviceStatusStream(onEvents: (events: DeviceStatusEvent[]) => void) {
+  const [connected, setConnected] = useState(false)
+  const onEventsRef = useRef(onEvents)
+
+  useEffect(() => {
+    onEventsRef.current = onEvents
+  }, [onEvents])
+
+  useEffect(() => {
+    if (typeof EventSource === 'undefined') return
+
+    const source = new EventSource('/api/devices/events')
+    let pending: DeviceStatusEvent[] = []
+    let flushTimer: ReturnType<typeof setTimeout> | null = null
+
+    // Batch bursts (a whole router going down) into one update
+    const flush = () => {
+      flushTimer = null
+      const events = pending
+      pending = []
+      onEventsRef.current(events)
+    }
+
+    source.onopen = () => setConnected(true)
+    source.onerror = () => setConnected(false) // EventSource reconnects on its own
+
+    source.addEventListener('status', (message) => {
+      try {
+        pending.push(JSON.parse((message as MessageEvent).data))
+        if (!flushTimer) {
+          flushTimer = setTimeout(flush, 100)
+        }
+      } catch (error) {
+        console.error('Invalid status event:', error)
+      }
+    })
+
+    return () => {
+      if (flushTimer) clearTimeout(flushTimer)
+      source.close()
+      setConnected(false)
+    }
+  }, [])
+
+  return { connected }
+}
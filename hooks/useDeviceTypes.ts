@@ -0,0 +1,33 @@
+"use client"
+
+import { useCallback } from 'react'
+import useSWR from 'swr'
+import { BUILT_IN_DEVICE_TYPES, DeviceTypeDefinition, getDeviceTypeLabel } from '@/lib/constants'
+
+const fetcher = (url: string) => fetch(url).then((res) => res.json())
+
+/**
+ * Device type registry from /api/device-types
+ *
+ * Falls back to the built-in types while loading or when the request fails,
+ * so selects and icons always have something to show.
+ */
+export function useDeviceTypes() {
+  const { data, mutate } = useSWR('/api/device-types', fetcher, {
+    revalidateOnFocus: false
+  })
+
+  const deviceTypes: DeviceTypeDefinition[] = Array.isArray(data?.deviceTypes) ? data.deviceTypes : BUILT_IN_DEVICE_TYPES
+
+  const findDeviceType = useCallback(
+    (key: string) => deviceTypes.find(definition => definition.key === key),
+    [deviceTypes]
+  )
+
+  const getLabel = useCallback(
+    (key: string) => getDeviceTypeLabel(key, deviceTypes),
+    [deviceTypes]
+  )
+
+  return { deviceTypes, findDeviceType, getLabel, mutate }
+}
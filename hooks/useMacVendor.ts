@@ -0,0 +1,29 @@
+"use client"
+
+import useSWR from 'swr'
+import { normalizeMacAddress } from '@/lib/device-identity'
+
+const fetcher = (url: string) => fetch(url).then((res) => res.json())
+
+/**
+ * Vendor of a MAC address from /api/devices/vendor
+ *
+ * The OUI registry is too large for the browser bundle, so the lookup runs on
+ * the server. Nothing is requested until the value is a complete MAC.
+ *
+ * @returns vendor - null when unknown or not looked up yet
+ */
+export function useMacVendor(mac: string) {
+  const macAddress = normalizeMacAddress(mac)
+  const { data, isLoading } = useSWR(
+    macAddress ? `/api/devices/vendor?mac=${encodeURIComponent(macAddress)}` : null,
+    fetcher,
+    { revalidateOnFocus: false }
+  )
+
+  return {
+    macAddress,
+    vendor: typeof data?.vendor === 'string' ? data.vendor as string : null,
+    isLoading
+  }
+}
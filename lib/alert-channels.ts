@@ -0,0 +1,250 @@
+/**
+ * Alert Channels
+ *
+ * Delivery targets for alert notifications. Each channel type has its own settings
+ * (stored as JSON on AlertChannel.config) and a sender. Secret settings - SMTP
+ * password, bot token, webhook auth header - are encrypted at rest and masked in
+ * API responses, the same way router passwords are.
+ */
+
+import { decryptSecret, encryptSecret, maskSecret, MASKED_SECRET } from '@/lib/credential-encryption'
+import { createSmtpTransport } from '@/lib/smtp'
+
+export const ALERT_CHANNEL_TYPES = ['WEBHOOK', 'EMAIL', 'TELEGRAM', 'LOG'] as const
+
+export type AlertChannelType = typeof ALERT_CHANNEL_TYPES[number]
+
+// Request timeout for webhook and Telegram deliveries (SMTP has its own in lib/smtp.ts)
+const DELIVERY_TIMEOUT_MS = 10000
+
+export interface AlertChannelRecord {
+  id: string
+  name: string
+  type: string
+  config: string
+  enabled: boolean
+}
+
+export interface AlertMessage {
+  event: 'DOWN' | 'REMINDER' | 'UP' | 'TEST'
+  subject: string
+  text: string
+  device: {
+    id: string
+    name: string
+    ip: string
+    type: string
+    status: string
+    statusSince: string | null
+  }
+  rule: string
+  timestamp: string
+}
+
+type ChannelConfig = Record<string, any>
+
+interface ChannelDefinition {
+  // Settings that must be present
+  required: string[]
+  // Settings encrypted at rest and masked in responses
+  secrets: string[]
+  send: (config: ChannelConfig, message: AlertMessage) => Promise<void>
+}
+
+/**
+ * POST the alert as JSON to an arbitrary URL
+ */
+async function sendWebhook(config: ChannelConfig, message: AlertMessage): Promise<void> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+  if (config.authHeader) {
+    headers.Authorization = config.authHeader
+  }
+
+  const response = await fetch(config.url, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify(message),
+    signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+  })
+
+  if (!response.ok) {
+    throw new Error(`Webhook responded with HTTP ${response.status}`)
+  }
+}
+
+/**
+ * Send the alert as a plain-text email over SMTP
+ */
+async function sendEmail(config: ChannelConfig, message: AlertMessage): Promise<void> {
+  const transport = createSmtpTransport({
+    host: config.host,
+    port: Number(config.port) || 587,
+    secure: config.secure === true,
+    user: config.user || '',
+    password: config.password || ''
+  })
+
+  await transport.sendMail({
+    from: config.from,
+    to: config.to,
+    subject: message.subject,
+    text: message.text
+  })
+}
+
+/**
+ * Send the alert through a Telegram bot
+ */
+async function sendTelegram(config: ChannelConfig, message: AlertMessage): Promise<void> {
+  const response = await fetch(`https://api.telegram.org/bot${config.botToken}/sendMessage`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      chat_id: config.chatId,
+      text: `${message.subject}\n\n${message.text}`
+    }),
+    signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS)
+  })
+
+  if (!response.ok) {
+    const result = await response.json().catch(() => null)
+    throw new Error(`Telegram error: ${result?.description || `HTTP ${response.status}`}`)
+  }
+}
+
+/**
+ * Local sink - writes to the worker log only (for testing rules without a real target)
+ */
+async function sendLog(config: ChannelConfig, message: AlertMessage): Promise<void> {
+  console.log(`[ALERT] ${message.subject} - ${message.text}`)
+}
+
+const CHANNELS: Record<AlertChannelType, ChannelDefinition> = {
+  WEBHOOK: { required: ['url'], secrets: ['authHeader'], send: sendWebhook },
+  EMAIL: { required: ['host', 'from', 'to'], secrets: ['password'], send: sendEmail },
+  TELEGRAM: { required: ['botToken', 'chatId'], secrets: ['botToken'], send: sendTelegram },
+  LOG: { required: [], secrets: [], send: sendLog }
+}
+
+export function isAlertChannelType(type: unknown): type is AlertChannelType {
+  return typeof type === 'string' && (ALERT_CHANNEL_TYPES as readonly string[]).includes(type)
+}
+
+function parseConfig(config: string): ChannelConfig {
+  try {
+    return JSON.parse(config || '{}')
+  } catch (error) {
+    return {}
+  }
+}
+
+/**
+ * Validate channel create/update payload
+ *
+ * @param body - Request body
+ * @param storedConfig - Current config (update) - masked secrets fall back to it
+ * @returns Error message or null when valid
+ */
+export function validateAlertChannelInput(body: any, storedConfig?: string): string | null {
+  const { name, type, config } = body
+
+  if (!name || typeof name !== 'string' || !name.trim()) {
+    return 'Channel name is required'
+  }
+
+  if (!isAlertChannelType(type)) {
+    return `Invalid channel type - must be one of ${ALERT_CHANNEL_TYPES.join(', ')}`
+  }
+
+  if (config !== undefined && (typeof config !== 'object' || config === null || Array.isArray(config))) {
+    return 'Channel settings must be an object'
+  }
+
+  const stored = storedConfig ? parseConfig(storedConfig) : {}
+  const merged = { ...stored, ...(config || {}) }
+
+  for (const field of CHANNELS[type].required) {
+    const value = merged[field]
+    if (value === undefined || value === null || String(value).trim() === '') {
+      return `Missing required setting: ${field}`
+    }
+  }
+
+  if (type === 'WEBHOOK' && !/^https?:\/\//.test(merged.url)) {
+    return 'Webhook URL must start with http:// or https://'
+  }
+
+  return null
+}
+
+/**
+ * Build the stored config JSON - encrypts secrets, keeps stored values for masked ones
+ *
+ * @param type - Channel type
+ * @param config - Settings from the request
+ * @param storedConfig - Current stored config (update only)
+ */
+export function serializeChannelConfig(
+  type: AlertChannelType,
+  config: ChannelConfig | undefined,
+  storedConfig?: string
+): string {
+  const stored = storedConfig ? parseConfig(storedConfig) : {}
+  const result: ChannelConfig = {}
+
+  Object.entries(config || {}).forEach(([key, value]) => {
+    if (CHANNELS[type].secrets.includes(key)) {
+      // The masked placeholder means "unchanged"
+      result[key] = value === MASKED_SECRET ? (stored[key] || '') : encryptSecret(String(value || ''))
+    } else {
+      result[key] = value
+    }
+  })
+
+  // Secrets not sent at all are kept as well
+  CHANNELS[type].secrets.forEach(key => {
+    if (result[key] === undefined && stored[key] !== undefined) {
+      result[key] = stored[key]
+    }
+  })
+
+  return JSON.stringify(result)
+}
+
+/**
+ * Channel as returned by the API - config parsed, secrets masked
+ */
+export function toPublicAlertChannel<T extends AlertChannelRecord>(channel: T) {
+  const config = parseConfig(channel.config)
+  const definition = isAlertChannelType(channel.type) ? CHANNELS[channel.type] : null
+
+  definition?.secrets.forEach(key => {
+    if (config[key] !== undefined) {
+      config[key] = maskSecret(config[key])
+    }
+  })
+
+  return { ...channel, config }
+}
+
+/**
+ * Deliver a message through a channel
+ *
+ * @throws Error when delivery fails (callers record it in the alert log)
+ */
+export async function sendAlertMessage(channel: AlertChannelRecord, message: AlertMessage): Promise<void> {
+  if (!isAlertChannelType(channel.type)) {
+    throw new Error(`Unknown channel type: ${channel.type}`)
+  }
+
+  const definition = CHANNELS[channel.type]
+  const config = parseConfig(channel.config)
+
+  definition.secrets.forEach(key => {
+    if (config[key]) {
+      config[key] = decryptSecret(config[key])
+    }
+  })
+
+  await definition.send(config, message)
+}
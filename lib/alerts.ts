@@ -0,0 +1,357 @@
+/**
+ * Alerting
+ *
+ * Evaluates alert rules against device status and delivers notifications through
+ * the rule's channel. The AlertLog doubles as alert state: the last notification
+ * for a rule/device since the device went down decides whether a reminder is due,
+ * and a recovery is only sent when a down alert actually went out. Devices in an
+ * active maintenance window are muted.
+ */
+
+import { prisma } from '@/lib/prisma'
+import { AlertChannelRecord, AlertMessage, sendAlertMessage } from '@/lib/alert-channels'
+import { DEVICE_TYPES, isValidDeviceType } from '@/lib/constants'
+import { isDeviceInMaintenance, loadActiveMaintenanceWindows } from '@/lib/maintenance'
+
+export const ALERT_RULE_SCOPES = ['GLOBAL', 'DEVICE', 'ROOM', 'TYPE'] as const
+
+export type AlertRuleScope = typeof ALERT_RULE_SCOPES[number]
+
+// Failed deliveries are retried after this long instead of on every poll
+const FAILED_RETRY_MS = 5 * 60 * 1000
+
+export interface AlertDevice {
+  id: string
+  name: string
+  ip: string
+  type: string
+  roomId: string | null
+  laneName: string
+  status: string
+  statusSince: Date | null
+}
+
+export interface AlertRuleRecord {
+  id: string
+  name: string
+  scope: string
+  deviceId: string | null
+  roomId: string | null
+  deviceType: string | null
+  minDownSeconds: number
+  renotifyMinutes: number
+  notifyOnRecovery: boolean
+  enabled: boolean
+  channel: AlertChannelRecord
+}
+
+const DEVICE_SELECT = {
+  id: true,
+  name: true,
+  ip: true,
+  type: true,
+  roomId: true,
+  laneName: true,
+  status: true,
+  statusSince: true
+}
+
+/**
+ * Check whether a rule applies to a device
+ */
+export function ruleMatchesDevice(rule: Omit<AlertRuleRecord, 'channel'>, device: AlertDevice): boolean {
+  switch (rule.scope) {
+    case 'GLOBAL':
+      return true
+    case 'DEVICE':
+      return rule.deviceId === device.id
+    case 'ROOM':
+      return !!rule.roomId && rule.roomId === device.roomId
+    case 'TYPE':
+      return rule.deviceType === device.type
+    default:
+      return false
+  }
+}
+
+/**
+ * Validate rule create/update payload
+ *
+ * @param deviceTypes - Registry keys for TYPE rules (lib/device-types.ts)
+ * @returns Error message or null when valid
+ */
+export function validateAlertRuleInput(body: any, deviceTypes: readonly string[] = DEVICE_TYPES): string | null {
+  const { name, scope, deviceId, roomId, deviceType, minDownSeconds, renotifyMinutes, channelId } = body
+
+  if (!name || typeof name !== 'string' || !name.trim()) {
+    return 'Rule name is required'
+  }
+
+  if (!ALERT_RULE_SCOPES.includes(scope)) {
+    return `Invalid scope - must be one of ${ALERT_RULE_SCOPES.join(', ')}`
+  }
+
+  if (scope === 'DEVICE' && !deviceId) {
+    return 'Device is required for a device rule'
+  }
+
+  if (scope === 'ROOM' && !roomId) {
+    return 'Room is required for a room rule'
+  }
+
+  if (scope === 'TYPE' && (typeof deviceType !== 'string' || !isValidDeviceType(deviceType, deviceTypes))) {
+    return 'Invalid device type'
+  }
+
+  if (minDownSeconds !== undefined) {
+    if (typeof minDownSeconds !== 'number' || minDownSeconds < 0 || !Number.isInteger(minDownSeconds)) {
+      return 'Minimum down duration must be a non-negative integer (seconds)'
+    }
+  }
+
+  if (renotifyMinutes !== undefined) {
+    if (typeof renotifyMinutes !== 'number' || renotifyMinutes < 0 || !Number.isInteger(renotifyMinutes)) {
+      return 'Re-notify interval must be a non-negative integer (minutes)'
+    }
+  }
+
+  if (!channelId || typeof channelId !== 'string') {
+    return 'Channel is required'
+  }
+
+  return null
+}
+
+/**
+ * Map a validated payload to rule columns - only the target of the chosen scope is kept
+ */
+export function toAlertRuleData(body: any) {
+  const { name, scope, deviceId, roomId, deviceType, minDownSeconds, renotifyMinutes, notifyOnRecovery, enabled, channelId } = body
+
+  return {
+    name: name.trim(),
+    scope,
+    deviceId: scope === 'DEVICE' ? deviceId : null,
+    roomId: scope === 'ROOM' ? roomId : null,
+    deviceType: scope === 'TYPE' ? deviceType : null,
+    minDownSeconds: minDownSeconds ?? 0,
+    renotifyMinutes: renotifyMinutes ?? 0,
+    notifyOnRecovery: notifyOnRecovery !== false,
+    enabled: enabled !== false,
+    channelId
+  }
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.floor(ms / 60000)
+  const hours = Math.floor(minutes / 60)
+  if (hours > 0) return `${hours}h ${minutes % 60}m`
+  if (minutes > 0) return `${minutes}m`
+  return `${Math.floor(ms / 1000)}s`
+}
+
+/**
+ * Build the notification text for a device event
+ *
+ * @param downSince - Start of the outage (recovery messages report its length)
+ */
+export function buildAlertMessage(
+  event: AlertMessage['event'],
+  device: AlertDevice,
+  ruleName: string,
+  downSince: Date | null,
+  now: Date = new Date()
+): AlertMessage {
+  const label = `${device.name} (${device.ip})`
+  const duration = downSince ? formatDuration(now.getTime() - downSince.getTime()) : null
+
+  let subject: string
+  let text: string
+
+  switch (event) {
+    case 'UP':
+      subject = `[UP] ${label}`
+      text = duration ? `${label} is back up after ${duration} down.` : `${label} is back up.`
+      break
+    case 'REMINDER':
+      subject = `[STILL DOWN] ${label}`
+      text = `${label} is still down (${duration}).`
+      break
+    case 'TEST':
+      subject = `[TEST] Alert channel test`
+      text = 'This is a test notification from the MikroTik Netwatch Dashboard.'
+      break
+    default:
+      subject = `[DOWN] ${label}`
+      text = duration ? `${label} has been down for ${duration}.` : `${label} is down.`
+  }
+
+  return {
+    event,
+    subject,
+    text: `${text}\nRule: ${ruleName}`,
+    device: {
+      id: device.id,
+      name: device.name,
+      ip: device.ip,
+      type: device.type,
+      status: device.status,
+      statusSince: device.statusSince ? device.statusSince.toISOString() : null
+    },
+    rule: ruleName,
+    timestamp: now.toISOString()
+  }
+}
+
+/**
+ * Send one notification and record the attempt in the alert log
+ *
+ * @returns true when delivered
+ */
+async function deliverAlert(
+  rule: AlertRuleRecord,
+  device: AlertDevice,
+  event: AlertMessage['event'],
+  downSince: Date | null,
+  now: Date
+): Promise<boolean> {
+  const message = buildAlertMessage(event, device, rule.name, downSince, now)
+  let error: string | null = null
+
+  try {
+    await sendAlertMessage(rule.channel, message)
+  } catch (sendError) {
+    error = sendError instanceof Error ? sendError.message : String(sendError)
+    console.error(`Alert delivery via "${rule.channel.name}" failed:`, error)
+  }
+
+  await prisma.alertLog.create({
+    data: {
+      ruleId: rule.id,
+      ruleName: rule.name,
+      channelId: rule.channel.id,
+      channelName: rule.channel.name,
+      deviceId: device.id,
+      deviceName: device.name,
+      deviceIp: device.ip,
+      event,
+      message: message.subject,
+      success: error === null,
+      error
+    }
+  })
+
+  return error === null
+}
+
+async function loadActiveRules(): Promise<AlertRuleRecord[]> {
+  return prisma.alertRule.findMany({
+    where: {
+      enabled: true,
+      channel: { enabled: true }
+    },
+    include: { channel: true }
+  })
+}
+
+/**
+ * Send down alerts and reminders for devices that are currently down
+ *
+ * Called once per poll cycle. A rule fires when the device has been down for
+ * at least minDownSeconds, then again every renotifyMinutes while it stays down.
+ */
+export async function evaluateDownAlerts(now: Date = new Date()): Promise<void> {
+  const rules = await loadActiveRules()
+  if (rules.length === 0) {
+    return
+  }
+
+  const devices = await prisma.device.findMany({
+    where: { status: 'down' },
+    select: DEVICE_SELECT
+  })
+
+  const maintenanceWindows = devices.length > 0 ? await loadActiveMaintenanceWindows(now) : []
+
+  for (const device of devices) {
+    if (!device.statusSince || isDeviceInMaintenance(maintenanceWindows, device, now)) continue
+
+    const downForMs = now.getTime() - device.statusSince.getTime()
+
+    for (const rule of rules) {
+      if (!ruleMatchesDevice(rule, device) || downForMs < rule.minDownSeconds * 1000) {
+        continue
+      }
+
+      // Last attempt for this outage
+      const last = await prisma.alertLog.findFirst({
+        where: {
+          ruleId: rule.id,
+          deviceId: device.id,
+          event: { in: ['DOWN', 'REMINDER'] },
+          createdAt: { gte: device.statusSince }
+        },
+        orderBy: { createdAt: 'desc' }
+      })
+
+      let event: AlertMessage['event'] | null = null
+
+      if (!last) {
+        event = 'DOWN'
+      } else {
+        const sinceLastMs = now.getTime() - last.createdAt.getTime()
+
+        if (!last.success) {
+          event = sinceLastMs >= FAILED_RETRY_MS ? last.event as AlertMessage['event'] : null
+        } else if (rule.renotifyMinutes > 0 && sinceLastMs >= rule.renotifyMinutes * 60000) {
+          event = 'REMINDER'
+        }
+      }
+
+      if (event) {
+        await deliverAlert(rule, device, event, device.statusSince, now)
+      }
+    }
+  }
+}
+
+/**
+ * Send recovery notifications for a device that just came back up
+ *
+ * @param deviceId - Device that changed to up
+ * @param downSince - When the outage started (statusSince before the change)
+ */
+export async function notifyRecovery(deviceId: string, downSince: Date, now: Date = new Date()): Promise<void> {
+  const rules = (await loadActiveRules()).filter(rule => rule.notifyOnRecovery)
+  if (rules.length === 0) {
+    return
+  }
+
+  const device = await prisma.device.findUnique({
+    where: { id: deviceId },
+    select: DEVICE_SELECT
+  })
+
+  if (!device || isDeviceInMaintenance(await loadActiveMaintenanceWindows(now), device, now)) {
+    return
+  }
+
+  for (const rule of rules) {
+    if (!ruleMatchesDevice(rule, device)) continue
+
+    // Only announce recovery when the outage was announced
+    const announced = await prisma.alertLog.findFirst({
+      where: {
+        ruleId: rule.id,
+        deviceId: device.id,
+        event: { in: ['DOWN', 'REMINDER'] },
+        success: true,
+        createdAt: { gte: downSince }
+      }
+    })
+
+    if (announced) {
+      await deliverAlert(rule, device, 'UP', downSince, now)
+    }
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * Classification Rules
+ *
+ * Storage for the ordered rule table of lib/device-classification.ts and the
+ * bulk re-classify of existing devices. The table is replaced as a whole when
+ * the editor saves, so positions always run 0..n-1. An empty table means the
+ * built-in defaults apply.
+ */
+
+import { prisma } from '@/lib/prisma'
+import {
+  ClassificationRule,
+  ClassificationRuleInput,
+  createDeviceClassifier,
+  DEFAULT_CLASSIFICATION_RULES,
+  MAX_CLASSIFICATION_RULES,
+  validateClassificationRule
+} from '@/lib/device-classification'
+import { DeviceType } from '@/lib/constants'
+import { loadDeviceTypeKeys } from '@/lib/device-types'
+
+export interface ReclassifyChange {
+  id: string
+  name: string
+  ip: string
+  from: string
+  to: DeviceType
+}
+
+/**
+ * The saved rules in evaluation order, or the defaults when none are saved
+ */
+export async function loadClassificationRules(): Promise<{ rules: ClassificationRule[]; isDefault: boolean }> {
+  const saved = await prisma.classificationRule.findMany({
+    orderBy: { position: 'asc' }
+  })
+
+  if (saved.length === 0) {
+    return { rules: DEFAULT_CLASSIFICATION_RULES, isDefault: true }
+  }
+
+  return {
+    rules: saved.map(rule => ({
+      id: rule.id,
+      field: rule.field,
+      pattern: rule.pattern,
+      type: rule.type,
+      enabled: rule.enabled
+    })),
+    isDefault: false
+  }
+}
+
+/**
+ * Classifier for the current rule table
+ */
+export async function loadDeviceClassifier() {
+  const { rules } = await loadClassificationRules()
+  return createDeviceClassifier(rules, await loadDeviceTypeKeys())
+}
+
+/**
+ * Validate the full rule list from the editor
+ *
+ * @param deviceTypes - Registry keys (lib/device-types.ts)
+ * @returns Error message or null when every rule is valid
+ */
+export function validateClassificationRules(rules: unknown, deviceTypes: readonly string[]): string | null {
+  if (!Array.isArray(rules)) {
+    return 'Rules must be a list'
+  }
+
+  if (rules.length > MAX_CLASSIFICATION_RULES) {
+    return `At most ${MAX_CLASSIFICATION_RULES} rules are allowed`
+  }
+
+  for (let index = 0; index < rules.length; index++) {
+    const error = validateClassificationRule(rules[index], deviceTypes)
+    if (error) {
+      return `Rule ${index + 1}: ${error}`
+    }
+  }
+
+  return null
+}
+
+/**
+ * Replace the rule table with a validated list - an empty list restores the defaults
+ */
+export async function saveClassificationRules(rules: ClassificationRuleInput[]): Promise<void> {
+  await prisma.$transaction([
+    prisma.classificationRule.deleteMany({}),
+    prisma.classificationRule.createMany({
+      data: rules.map((rule, position) => ({
+        position,
+        field: rule.field,
+        pattern: rule.pattern.trim(),
+        type: rule.type,
+        enabled: rule.enabled !== false
+      }))
+    })
+  ])
+}
+
+/**
+ * Run the rules over existing devices
+ *
+ * @param deviceIds - Devices to re-classify (all when omitted)
+ * @param apply - Save the new types; false only reports what would change
+ * @returns Devices whose type differs from what the rules say
+ */
+export async function reclassifyDevices(deviceIds: string[] | undefined, apply: boolean): Promise<ReclassifyChange[]> {
+  const classify = await loadDeviceClassifier()
+
+  const devices = await prisma.device.findMany({
+    where: deviceIds ? { id: { in: deviceIds } } : {},
+    select: { id: true, name: true, ip: true, type: true, hostname: true, vendor: true },
+    orderBy: { name: 'asc' }
+  })
+
+  const changes: ReclassifyChange[] = []
+
+  for (const device of devices) {
+    const { type } = classify(device)
+    if (type === device.type) continue
+
+    changes.push({ id: device.id, name: device.name, ip: device.ip, from: device.type, to: type })
+
+    if (apply) {
+      await prisma.device.update({
+        where: { id: device.id },
+        data: { type }
+      })
+    }
+  }
+
+  return changes
+}
@@ -1,16 +1,13 @@
 /**
- * Device Types - Single Source of Truth
- * 
- * CRITICAL: This is the ONLY place where device types should be defined.
- * All other files MUST import from here to ensure consistency.
- * 
- * When adding a new device type:
- * 1. Add to DEVICE_TYPES array
- * 2. Add to DeviceType type
- * 3. Add icon mapping in DEVICE_TYPE_ICONS
- * 4. Add label in DEVICE_TYPE_LABELS
- * 5. Run getDiagnostics to verify no errors
- * 6. Update Prisma schema comment if needed
+ * Device Types
+ *
+ * Device types live in the DeviceTypeDefinition table (lib/device-types.ts)
+ * so admins can add their own with a label, icon, colour and netwatch
+ * defaults. The types below are built in: they are always present, can be
+ * edited but not deleted, and are what the UI shows until the registry has
+ * loaded.
+ *
+ * Client-safe - no prisma imports here.
  */
 
 export const DEVICE_TYPES = [
@@ -29,9 +26,12 @@ export const DEVICE_TYPES = [
   'OTHER'
 ] as const
 
-export type DeviceType = typeof DEVICE_TYPES[number]
+export type BuiltInDeviceType = typeof DEVICE_TYPES[number]
 
-export const DEVICE_TYPE_LABELS: Record<DeviceType, string> = {
+// Built-in or custom type key - custom keys are checked against the registry
+export type DeviceType = string
+
+export const DEVICE_TYPE_LABELS: Record<BuiltInDeviceType, string> = {
   ROUTER: 'Router',
   SWITCH: 'Switch',
   ACCESS_POINT: 'Access Point',
@@ -48,15 +48,116 @@ export const DEVICE_TYPE_LABELS: Record<DeviceType, string> = {
 }
 
 /**
- * Validate if a string is a valid device type
+ * Lucide icons a device type can use (components/DeviceTypeIcon.tsx)
+ */
+export const DEVICE_TYPE_ICON_NAMES = [
+  'router',
+  'network',
+  'wifi',
+  'monitor',
+  'laptop',
+  'tablet',
+  'printer',
+  'scan-barcode',
+  'tv',
+  'video',
+  'server',
+  'smartphone',
+  'help-circle',
+  'antenna',
+  'battery',
+  'box',
+  'camera',
+  'cast',
+  'cctv',
+  'clock',
+  'cloud',
+  'cpu',
+  'credit-card',
+  'database',
+  'door-open',
+  'fan',
+  'fingerprint',
+  'gamepad-2',
+  'globe',
+  'hard-drive',
+  'headphones',
+  'keyboard',
+  'lightbulb',
+  'lock',
+  'phone',
+  'plug',
+  'projector',
+  'radio',
+  'satellite',
+  'server-cog',
+  'shield',
+  'speaker',
+  'thermometer',
+  'watch',
+  'webcam',
+  'zap'
+] as const
+
+export type DeviceTypeIconName = typeof DEVICE_TYPE_ICON_NAMES[number]
+
+// Uploaded icons are stored inline, so keep them small
+export const MAX_DEVICE_TYPE_SVG_LENGTH = 20000
+
+export interface DeviceTypeDefinition {
+  key: string
+  label: string
+  icon: DeviceTypeIconName
+  iconSvg: string | null // Uploaded SVG, shown instead of the lucide icon
+  color: string // #rrggbb - icon colour in the table, legend and type badges
+  netwatchTimeout: number | null // ms, null = system default
+  netwatchInterval: number | null // seconds, null = system default
+  builtIn: boolean
+}
+
+const BUILT_IN_STYLES: Record<BuiltInDeviceType, { icon: DeviceTypeIconName; color: string }> = {
+  ROUTER: { icon: 'router', color: '#2563eb' },
+  SWITCH: { icon: 'network', color: '#0891b2' },
+  ACCESS_POINT: { icon: 'wifi', color: '#7c3aed' },
+  PC: { icon: 'monitor', color: '#475569' },
+  LAPTOP: { icon: 'laptop', color: '#475569' },
+  TABLET: { icon: 'tablet', color: '#0d9488' },
+  PRINTER: { icon: 'printer', color: '#b45309' },
+  SCANNER_GTEX: { icon: 'scan-barcode', color: '#c2410c' },
+  SMART_TV: { icon: 'tv', color: '#db2777' },
+  CCTV: { icon: 'video', color: '#dc2626' },
+  SERVER: { icon: 'server', color: '#4f46e5' },
+  PHONE: { icon: 'smartphone', color: '#16a34a' },
+  OTHER: { icon: 'help-circle', color: '#64748b' }
+}
+
+/**
+ * The built-in types as registry entries, in their fixed order
+ */
+export const BUILT_IN_DEVICE_TYPES: DeviceTypeDefinition[] = DEVICE_TYPES.map(key => ({
+  key,
+  label: DEVICE_TYPE_LABELS[key],
+  ...BUILT_IN_STYLES[key],
+  iconSvg: null,
+  netwatchTimeout: null,
+  netwatchInterval: null,
+  builtIn: true
+}))
+
+/**
+ * Validate if a string is a known device type
+ *
+ * @param types - Registry keys to check against (the built-in types when omitted)
  */
-export function isValidDeviceType(type: string): type is DeviceType {
-  return DEVICE_TYPES.includes(type as DeviceType)
+export function isValidDeviceType(type: string, types: readonly string[] = DEVICE_TYPES): boolean {
+  return types.includes(type)
 }
 
 /**
- * Get device type label
+ * Get device type label, falling back to the key for types not in the registry
+ *
+ * @param types - Registry entries (the built-in types when omitted)
  */
-export function getDeviceTypeLabel(type: DeviceType): string {
-  return DEVICE_TYPE_LABELS[type] || type
+export function getDeviceTypeLabel(type: string, types: DeviceTypeDefinition[] = BUILT_IN_DEVICE_TYPES): string {
+  return types.find(definition => definition.key === type)?.label || type
 }
@@ -0,0 +1,138 @@
+/**
+ * Credential Encryption
+ *
+ * AES-256-GCM encryption for MikroTik passwords stored in the database.
+ * The key is derived from CREDENTIALS_ENCRYPTION_KEY (falls back to AUTH_SECRET).
+ * Old keys listed in CREDENTIALS_ENCRYPTION_KEY_PREVIOUS (comma-separated) can still
+ * decrypt, so the key can be rotated and values re-encrypted on the next migration.
+ *
+ * Stored format: enc:v1:<keyId>:<iv>:<authTag>:<ciphertext> (base64 parts)
+ */
+
+import crypto from 'crypto'
+
+const PREFIX = 'enc:v1:'
+const ALGORITHM = 'aes-256-gcm'
+
+// Placeholder returned to the browser instead of a stored password
+export const MASKED_SECRET = '********'
+
+interface EncryptionKey {
+  id: string
+  key: Buffer
+}
+
+/**
+ * Derive a 256-bit key and a short identifier from a secret
+ */
+function deriveKey(secret: string): EncryptionKey {
+  const key = crypto.createHash('sha256').update(`mikrotik-credentials:${secret}`).digest()
+  const id = crypto.createHash('sha256').update(key).digest('hex').slice(0, 8)
+  return { id, key }
+}
+
+/**
+ * Get the key used for new encryptions
+ */
+function getCurrentKey(): EncryptionKey {
+  const secret = process.env.CREDENTIALS_ENCRYPTION_KEY || process.env.AUTH_SECRET
+
+  if (!secret) {
+    throw new Error('Credential encryption key is not configured. Set CREDENTIALS_ENCRYPTION_KEY or AUTH_SECRET.')
+  }
+
+  return deriveKey(secret)
+}
+
+/**
+ * Get every key that may decrypt stored values (current first)
+ */
+function getDecryptionKeys(): EncryptionKey[] {
+  const keys = [getCurrentKey()]
+  const previous = process.env.CREDENTIALS_ENCRYPTION_KEY_PREVIOUS
+
+  if (previous) {
+    previous
+      .split(',')
+      .map(secret => secret.trim())
+      .filter(Boolean)
+      .forEach(secret => keys.push(deriveKey(secret)))
+  }
+
+  return keys
+}
+
+/**
+ * Check whether a stored value is in encrypted format
+ */
+export function isEncrypted(value: string | null | undefined): boolean {
+  return !!value && value.startsWith(PREFIX)
+}
+
+/**
+ * Encrypt a secret for storage (empty strings stay empty)
+ */
+export function encryptSecret(plaintext: string): string {
+  if (!plaintext) {
+    return ''
+  }
+
+  const { id, key } = getCurrentKey()
+  const iv = crypto.randomBytes(12)
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv)
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()])
+  const authTag = cipher.getAuthTag()
+
+  return `${PREFIX}${id}:${iv.toString('base64')}:${authTag.toString('base64')}:${ciphertext.toString('base64')}`
+}
+
+/**
+ * Decrypt a stored secret
+ * Plain-text values written before encryption was introduced are returned unchanged.
+ *
+ * @throws Error when the value was encrypted with a key that is no longer configured
+ */
+export function decryptSecret(stored: string): string {
+  if (!isEncrypted(stored)) {
+    return stored
+  }
+
+  const [keyId, iv, authTag, ciphertext] = stored.slice(PREFIX.length).split(':')
+  const encryptionKey = getDecryptionKeys().find(k => k.id === keyId)
+
+  if (!encryptionKey) {
+    throw new Error('Cannot decrypt stored MikroTik password - encryption key has changed')
+  }
+
+  const decipher = crypto.createDecipheriv(ALGORITHM, encryptionKey.key, Buffer.from(iv, 'base64'))
+  decipher.setAuthTag(Buffer.from(authTag, 'base64'))
+
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64')),
+    decipher.final()
+  ]).toString('utf8')
+}
+
+/**
+ * Check whether a stored value should be (re-)encrypted with the current key
+ * True for non-empty plain text and for values encrypted with a previous key
+ */
+export function needsReencryption(stored: string): boolean {
+  if (!stored) {
+    return false
+  }
+
+  if (!isEncrypted(stored)) {
+    return true
+  }
+
+  const keyId = stored.slice(PREFIX.length).split(':')[0]
+  return keyId !== getCurrentKey().id
+}
+
+/**
+ * Mask a stored secret for API responses
+ */
+export function maskSecret(stored: string | null | undefined): string {
+  return stored ? MASKED_SECRET : ''
+}
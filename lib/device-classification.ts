@@ -0,0 +1,189 @@
+/**
+ * Device Type Classification
+ *
+ * Import, discovery and bulk re-classify guess a device's type from an ordered
+ * rule table that admins edit on the Classification page. Each rule tests one
+ * field of the device and assigns its type when it matches; the first enabled
+ * match wins and devices no rule matches become OTHER.
+ *
+ * - name, comment, hostname, vendor: case-insensitive regular expression
+ * - ip: CIDR block (10.0.0.0/24), range (10.0.0.10-10.0.0.50) or single address
+ *
+ * Until rules are saved the built-in DEFAULT_CLASSIFICATION_RULES apply - the
+ * name substrings the import used to check, plus camera and printer vendors.
+ *
+ * Kept free of server imports so the rule editor can run its test panel locally.
+ */
+
+import { DEVICE_TYPES, DeviceType, isValidDeviceType } from '@/lib/constants'
+
+export const CLASSIFICATION_FIELDS = ['name', 'comment', 'hostname', 'ip', 'vendor'] as const
+
+export type ClassificationField = typeof CLASSIFICATION_FIELDS[number]
+
+export const CLASSIFICATION_FIELD_LABELS: Record<ClassificationField, string> = {
+  name: 'Name',
+  comment: 'Netwatch comment',
+  hostname: 'Hostname',
+  ip: 'IP range',
+  vendor: 'MAC vendor'
+}
+
+export const FALLBACK_DEVICE_TYPE: DeviceType = 'OTHER'
+export const MAX_CLASSIFICATION_RULES = 200
+
+export interface ClassificationRuleInput {
+  field: string
+  pattern: string
+  type: string
+  enabled: boolean
+}
+
+export interface ClassificationRule extends ClassificationRuleInput {
+  id?: string
+}
+
+// What is known about a device or host - missing fields never match
+export interface ClassificationSubject {
+  name?: string | null
+  comment?: string | null
+  hostname?: string | null
+  ip?: string | null
+  vendor?: string | null
+}
+
+export interface ClassificationResult {
+  type: DeviceType
+  ruleIndex: number | null // Position of the matching rule, null for the fallback
+}
+
+export const DEFAULT_CLASSIFICATION_RULES: ClassificationRuleInput[] = [
+  { field: 'name', pattern: 'router|\\brb\\d|mikrotik', type: 'ROUTER', enabled: true },
+  { field: 'name', pattern: 'switch|\\bsw-', type: 'SWITCH', enabled: true },
+  { field: 'name', pattern: '\\bap-|access point|wifi', type: 'ACCESS_POINT', enabled: true },
+  { field: 'name', pattern: '\\bpc-|desktop|workstation', type: 'PC', enabled: true },
+  { field: 'name', pattern: 'laptop|notebook', type: 'LAPTOP', enabled: true },
+  { field: 'name', pattern: 'tablet|ipad', type: 'TABLET', enabled: true },
+  { field: 'name', pattern: 'print', type: 'PRINTER', enabled: true },
+  { field: 'name', pattern: 'scan|gtex', type: 'SCANNER_GTEX', enabled: true },
+  // Before the TV rule - "CCTV" ends in "tv"
+  { field: 'name', pattern: 'cctv|camera|\\bcam-', type: 'CCTV', enabled: true },
+  { field: 'name', pattern: '\\btv\\b|television', type: 'SMART_TV', enabled: true },
+  { field: 'name', pattern: 'server|\\bsrv-', type: 'SERVER', enabled: true },
+  { field: 'name', pattern: 'phone|mobile', type: 'PHONE', enabled: true },
+  { field: 'vendor', pattern: 'hikvision|dahua|axis', type: 'CCTV', enabled: true },
+  { field: 'vendor', pattern: 'epson|brother', type: 'PRINTER', enabled: true }
+]
+
+function ipToNumber(ip: string): number | null {
+  const octets = ip.trim().split('.')
+  if (octets.length !== 4 || octets.some(octet => !/^\d{1,3}$/.test(octet) || Number(octet) > 255)) {
+    return null
+  }
+  return octets.reduce((value, octet) => value * 256 + Number(octet), 0)
+}
+
+/**
+ * Parse an IP pattern into its first and last address
+ *
+ * @returns [first, last] as numbers, or null when the pattern is not a CIDR, range or address
+ */
+export function parseIPRange(pattern: string): [number, number] | null {
+  const trimmed = pattern.trim()
+
+  if (trimmed.includes('/')) {
+    const [network, bitsText] = trimmed.split('/')
+    const base = ipToNumber(network)
+    const bits = /^\d{1,2}$/.test(bitsText) ? Number(bitsText) : NaN
+    if (base === null || !(bits >= 0 && bits <= 32)) {
+      return null
+    }
+    const size = Math.pow(2, 32 - bits)
+    const first = Math.floor(base / size) * size
+    return [first, first + size - 1]
+  }
+
+  if (trimmed.includes('-')) {
+    const [from, to] = trimmed.split('-').map(ipToNumber)
+    return from !== null && to !== null && from <= to ? [from, to] : null
+  }
+
+  const single = ipToNumber(trimmed)
+  return single !== null ? [single, single] : null
+}
+
+/**
+ * Validate a rule from the editor
+ *
+ * @param deviceTypes - Registry keys (lib/device-types.ts)
+ * @returns Error message or null when valid
+ */
+export function validateClassificationRule(
+  rule: Partial<ClassificationRuleInput> | null | undefined,
+  deviceTypes: readonly string[] = DEVICE_TYPES
+): string | null {
+  if (!rule || !CLASSIFICATION_FIELDS.includes(rule.field as ClassificationField)) {
+    return `Field must be one of: ${CLASSIFICATION_FIELDS.join(', ')}`
+  }
+
+  if (typeof rule.pattern !== 'string' || rule.pattern.trim().length === 0) {
+    return 'Pattern is required'
+  }
+
+  if (rule.field === 'ip') {
+    if (!parseIPRange(rule.pattern)) {
+      return `"${rule.pattern}" is not a CIDR block, IP range or IP address`
+    }
+  } else {
+    try {
+      new RegExp(rule.pattern, 'i')
+    } catch {
+      return `"${rule.pattern}" is not a valid regular expression`
+    }
+  }
+
+  if (typeof rule.type !== 'string' || !isValidDeviceType(rule.type, deviceTypes)) {
+    return `Type must be one of: ${deviceTypes.join(', ')}`
+  }
+
+  return null
+}
+
+/**
+ * Build a classifier for an ordered rule list
+ *
+ * Disabled and invalid rules never match - including rules for a type that
+ * is no longer in the registry.
+ */
+export function createDeviceClassifier(
+  rules: ClassificationRuleInput[],
+  deviceTypes: readonly string[] = DEVICE_TYPES
+): (subject: ClassificationSubject) => ClassificationResult {
+  const matchers = rules.map(rule => {
+    if (!rule.enabled || validateClassificationRule(rule, deviceTypes)) {
+      return () => false
+    }
+
+    if (rule.field === 'ip') {
+      const [first, last] = parseIPRange(rule.pattern)!
+      return (subject: ClassificationSubject) => {
+        const ip = subject.ip ? ipToNumber(subject.ip) : null
+        return ip !== null && ip >= first && ip <= last
+      }
+    }
+
+    const regex = new RegExp(rule.pattern.trim(), 'i')
+    const field = rule.field as Exclude<ClassificationField, 'ip'>
+    return (subject: ClassificationSubject) => {
+      const value = subject[field]
+      return typeof value === 'string' && value.length > 0 && regex.test(value)
+    }
+  })
+
+  return (subject) => {
+    const ruleIndex = matchers.findIndex(matches => matches(subject))
+    return ruleIndex === -1
+      ? { type: FALLBACK_DEVICE_TYPE, ruleIndex: null }
+      : { type: rules[ruleIndex].type, ruleIndex }
+  }
+}
@@ -0,0 +1,221 @@
+/**
+ * Device Discovery
+ *
+ * Reads the hosts a router knows about - DHCP leases, the ARP table and
+ * MNDP/CDP/LLDP neighbors - and lists the ones the dashboard doesn't monitor
+ * yet. Each host is merged by IP from all three tables:
+ *
+ * - MAC:      lease, ARP entry or neighbor
+ * - hostname: lease host-name, else neighbor identity, else lease comment
+ * - vendor:   neighbor platform/board, else the MAC's OUI vendor
+ *
+ * Each host gets a suggested type from the classification rules.
+ * Hosts that already have a netwatch entry are flagged, since they can also be
+ * imported with their probe settings from the Sync page. Selected hosts are
+ * created in one pass with their type, room and lane, and optionally get a
+ * netwatch entry through the sync job queue. Their MAC and hostname are kept
+ * on the device; its vendor always follows the MAC's OUI.
+ */
+
+import { prisma } from '@/lib/prisma'
+import { resolveRouterOSConfig, withRouterOS } from '@/lib/routeros-connection'
+import { isValidDeviceType, DEVICE_TYPES, DeviceType } from '@/lib/constants'
+import { isValidIPv4 } from '@/lib/routers'
+import { lookupOuiVendor } from '@/lib/oui-vendors'
+import { validateDeviceIdentity } from '@/lib/device-identity'
+import { FALLBACK_DEVICE_TYPE } from '@/lib/device-classification'
+import { loadDeviceClassifier } from '@/lib/classification-rules'
+
+export const DISCOVERY_SOURCES = ['dhcp', 'arp', 'neighbor'] as const
+
+export type DiscoverySource = typeof DISCOVERY_SOURCES[number]
+
+export interface DiscoveredHost {
+  ip: string
+  mac: string | null
+  hostname: string | null
+  vendor: string | null
+  interface: string | null
+  sources: DiscoverySource[]
+  suggestedType: DeviceType // From the classification rules, preselected for import
+  inNetwatch: boolean // Already has a netwatch entry - importable from the Sync page too
+}
+
+export interface DiscoveryImport {
+  ip: string
+  name: string
+  type: string
+  macAddress?: string | null
+  hostname?: string | null
+  laneName: string
+  roomId?: string | null
+}
+
+type RouterOSRow = Record<string, any>
+
+const text = (value: unknown): string | null => {
+  const trimmed = typeof value === 'string' ? value.trim() : ''
+  return trimmed.length > 0 ? trimmed : null
+}
+
+const normalizeMac = (value: unknown): string | null => text(value)?.toUpperCase() ?? null
+
+/**
+ * Sort key that orders IPv4 addresses numerically
+ */
+function ipSortKey(ip: string): number {
+  return ip.split('.').reduce((key, octet) => key * 256 + Number(octet), 0)
+}
+
+/**
+ * Merge lease, ARP and neighbor rows into one host per IPv4 address
+ *
+ * Expired leases, incomplete ARP entries and neighbors without an IPv4 address
+ * are skipped.
+ */
+export function mergeDiscoveredHosts(
+  leases: RouterOSRow[],
+  arp: RouterOSRow[],
+  neighbors: RouterOSRow[]
+): DiscoveredHost[] {
+  const hosts = new Map<string, DiscoveredHost>()
+
+  const hostFor = (ip: string) => {
+    let host = hosts.get(ip)
+    if (!host) {
+      host = { ip, mac: null, hostname: null, vendor: null, interface: null, sources: [], suggestedType: FALLBACK_DEVICE_TYPE, inNetwatch: false }
+      hosts.set(ip, host)
+    }
+    return host
+  }
+
+  const addSource = (host: DiscoveredHost, source: DiscoverySource) => {
+    if (!host.sources.includes(source)) {
+      host.sources.push(source)
+    }
+  }
+
+  for (const lease of leases) {
+    const ip = text(lease['active-address']) ?? text(lease.address)
+    if (!ip || !isValidIPv4(ip) || lease.status === 'expired' || lease.disabled === 'true') continue
+
+    const host = hostFor(ip)
+    host.mac = host.mac ?? normalizeMac(lease['active-mac-address'] ?? lease['mac-address'])
+    host.hostname = text(lease['host-name']) ?? host.hostname
+    addSource(host, 'dhcp')
+
+    // Admin comments on static leases are the next best name
+    if (!host.hostname) {
+      host.hostname = text(lease.comment)
+    }
+  }
+
+  for (const entry of arp) {
+    const ip = text(entry.address)
+    const mac = normalizeMac(entry['mac-address'])
+    if (!ip || !isValidIPv4(ip) || !mac || entry.invalid === 'true') continue
+
+    const host = hostFor(ip)
+    host.mac = host.mac ?? mac
+    host.interface = text(entry.interface) ?? host.interface
+    addSource(host, 'arp')
+  }
+
+  for (const neighbor of neighbors) {
+    const ip = text(neighbor.address4) ?? text(neighbor.address)
+    if (!ip || !isValidIPv4(ip)) continue
+
+    const host = hostFor(ip)
+    host.mac = host.mac ?? normalizeMac(neighbor['mac-address'])
+    host.hostname = host.hostname ?? text(neighbor.identity)
+    host.interface = host.interface ?? text(neighbor.interface)
+    host.vendor = [text(neighbor.platform), text(neighbor.board)].filter(Boolean).join(' ') || null
+    addSource(host, 'neighbor')
+  }
+
+  hosts.forEach(host => {
+    host.vendor = host.vendor ?? lookupOuiVendor(host.mac)
+  })
+
+  return Array.from(hosts.values()).sort((a, b) => ipSortKey(a.ip) - ipSortKey(b.ip))
+}
+
+/**
+ * Read a router's DHCP leases, ARP table and neighbors and list hosts without a device
+ *
+ * @throws Error when the router is not configured or can't be reached
+ */
+export async function discoverHosts(routerId?: string | null): Promise<{
+  hosts: DiscoveredHost[]
+  router: { id: string | null; name: string }
+}> {
+  const config = await resolveRouterOSConfig(routerId)
+
+  const { leases, arp, neighbors, netwatch } = await withRouterOS(config, async (api) => ({
+    leases: await api.write('/ip/dhcp-server/lease/print'),
+    arp: await api.write('/ip/arp/print'),
+    neighbors: await api.write('/ip/neighbor/print'),
+    netwatch: await api.write('/tool/netwatch/print')
+  }))
+
+  const known = await prisma.device.findMany({ select: { ip: true } })
+  const knownIPs = new Set(known.map(device => device.ip))
+  const watchedHosts = new Set(netwatch.map((entry: RouterOSRow) => entry.host))
+
+  const classify = await loadDeviceClassifier()
+
+  const hosts = mergeDiscoveredHosts(leases, arp, neighbors)
+    .filter(host => !knownIPs.has(host.ip))
+    .map(host => ({
+      ...host,
+      suggestedType: classify({ name: host.hostname, hostname: host.hostname, ip: host.ip, vendor: host.vendor }).type,
+      inNetwatch: watchedHosts.has(host.ip)
+    }))
+
+  return {
+    hosts,
+    router: { id: config.routerId, name: config.routerName }
+  }
+}
+
+/**
+ * Validate the hosts chosen for import
+ *
+ * @param deviceTypes - Registry keys (lib/device-types.ts)
+ * @returns Error message, or null when every host can be created
+ */
+export function validateDiscoveryImport(hosts: unknown, deviceTypes: readonly string[] = DEVICE_TYPES): string | null {
+  if (!Array.isArray(hosts) || hosts.length === 0) {
+    return 'Select at least one host to add'
+  }
+
+  for (let index = 0; index < hosts.length; index++) {
+    const host = hosts[index]
+    const label = typeof host?.ip === 'string' ? host.ip : `at position ${index + 1}`
+
+    if (!host || typeof host.ip !== 'string' || !isValidIPv4(host.ip)) {
+      return `Host ${label} has an invalid IP address`
+    }
+    if (typeof host.name !== 'string' || host.name.trim().length === 0) {
+      return `Host ${label} needs a name`
+    }
+    if (typeof host.type !== 'string' || !isValidDeviceType(host.type, deviceTypes)) {
+      return `Host ${label} has an invalid type. Must be one of: ${deviceTypes.join(', ')}`
+    }
+    if (typeof host.laneName !== 'string' || host.laneName.trim().length === 0) {
+      return `Host ${label} needs a lane`
+    }
+    const identityError = validateDeviceIdentity(host)
+    if (identityError) {
+      return `Host ${label}: ${identityError}`
+    }
+  }
+
+  const ips = hosts.map(host => host.ip)
+  const duplicate = ips.find((ip, index) => ips.indexOf(ip) !== index)
+  if (duplicate) {
+    return `Host ${duplicate} is listed twice`
+  }
+
+  return null
+}
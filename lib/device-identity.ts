@@ -0,0 +1,70 @@
+/**
+ * Device Identity
+ *
+ * On DHCP networks IPs move around, so devices also carry the hardware they
+ * were seen with: MAC address, hostname and the vendor resolved from the MAC's
+ * OUI. MACs are stored as "AA:BB:CC:DD:EE:FF" whatever notation they were
+ * entered in; the vendor always follows the MAC and is never entered by hand.
+ *
+ * Kept free of server imports so the device form can validate while typing.
+ * The vendor comes from the OUI registry, which stays on the server: see
+ * toDeviceIdentity in lib/mac-bindings.ts and GET /api/devices/vendor.
+ */
+
+export const MAX_HOSTNAME_LENGTH = 255
+
+export interface DeviceIdentity {
+  macAddress: string | null
+  hostname: string | null
+  vendor: string | null
+}
+
+export interface DeviceIdentityInput {
+  macAddress?: unknown
+  hostname?: unknown
+}
+
+/**
+ * Normalize a MAC in colon, dash, Cisco dot or bare notation to "AA:BB:CC:DD:EE:FF"
+ *
+ * @returns Normalized MAC, or null when the value is not a MAC address
+ */
+export function normalizeMacAddress(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return null
+  }
+
+  const trimmed = value.trim()
+  if (!/^([0-9a-fA-F]{2}([:-]|$)){6}$|^([0-9a-fA-F]{4}\.){2}[0-9a-fA-F]{4}$|^[0-9a-fA-F]{12}$/.test(trimmed)) {
+    return null
+  }
+
+  const hex = trimmed.replace(/[^0-9a-fA-F]/g, '').toUpperCase()
+  return hex.match(/.{2}/g)!.join(':')
+}
+
+function isBlank(value: unknown): boolean {
+  return value === undefined || value === null || (typeof value === 'string' && value.trim() === '')
+}
+
+/**
+ * Validate MAC address and hostname from a create/update payload (empty = not set)
+ *
+ * @returns Error message or null when valid
+ */
+export function validateDeviceIdentity(input: DeviceIdentityInput): string | null {
+  if (!isBlank(input.macAddress) && !normalizeMacAddress(input.macAddress)) {
+    return 'Invalid MAC address format'
+  }
+
+  if (!isBlank(input.hostname)) {
+    if (typeof input.hostname !== 'string') {
+      return 'Hostname must be text'
+    }
+    if (input.hostname.trim().length > MAX_HOSTNAME_LENGTH) {
+      return `Hostname must be at most ${MAX_HOSTNAME_LENGTH} characters`
+    }
+  }
+
+  return null
+}
@@ -0,0 +1,310 @@
+/**
+ * Device Import / Export
+ *
+ * Inventories kept in spreadsheets come in as CSV or XLSX with one device
+ * per row. Columns are found by their header, so order does not matter and
+ * unknown columns (like the Status column of an export) are ignored. Every
+ * row is checked on its own and reported with the row number of the sheet,
+ * so a preview can show what is wrong before anything is created.
+ */
+
+import { prisma } from '@/lib/prisma'
+import { DeviceTypeDefinition, isValidDeviceType } from '@/lib/constants'
+import { loadDeviceTypes } from '@/lib/device-types'
+import { normalizeMacAddress, validateDeviceIdentity } from '@/lib/device-identity'
+import { isValidIPv4 } from '@/lib/routers'
+
+export const MAX_IMPORT_ROWS = 1000
+
+export type DeviceImportField =
+  | 'name'
+  | 'ip'
+  | 'type'
+  | 'laneName'
+  | 'room'
+  | 'macAddress'
+  | 'hostname'
+  | 'netwatchTimeout'
+  | 'netwatchInterval'
+
+/**
+ * Header of each column in exports and templates
+ */
+export const DEVICE_IMPORT_HEADERS: Record<DeviceImportField, string> = {
+  name: 'Name',
+  ip: 'IP',
+  type: 'Type',
+  laneName: 'Lane',
+  room: 'Room',
+  macAddress: 'MAC',
+  hostname: 'Hostname',
+  netwatchTimeout: 'Netwatch Timeout (ms)',
+  netwatchInterval: 'Netwatch Interval (s)'
+}
+
+const REQUIRED_FIELDS: DeviceImportField[] = ['name', 'ip', 'type', 'laneName']
+
+// Headers are compared as lowercase letters and digits: "IP Address" -> "ipaddress"
+const HEADER_ALIASES: Record<string, DeviceImportField> = {
+  name: 'name',
+  devicename: 'name',
+  ip: 'ip',
+  ipaddress: 'ip',
+  address: 'ip',
+  type: 'type',
+  devicetype: 'type',
+  lane: 'laneName',
+  lanename: 'laneName',
+  room: 'room',
+  roomname: 'room',
+  mac: 'macAddress',
+  macaddress: 'macAddress',
+  hostname: 'hostname',
+  host: 'hostname',
+  netwatchtimeout: 'netwatchTimeout',
+  netwatchtimeoutms: 'netwatchTimeout',
+  timeout: 'netwatchTimeout',
+  netwatchinterval: 'netwatchInterval',
+  netwatchintervals: 'netwatchInterval',
+  interval: 'netwatchInterval'
+}
+
+export interface DeviceImportRow {
+  row: number // Row number in the sheet, header = 1
+  name: string
+  ip: string
+  type: string
+  laneName: string
+  roomName: string | null
+  roomId: string | null
+  macAddress: string | null
+  hostname: string | null
+  netwatchTimeout: number | null // null = the type's or system default
+  netwatchInterval: number | null
+  errors: string[]
+}
+
+export interface DeviceImportContext {
+  deviceTypes: DeviceTypeDefinition[]
+  rooms: { id: string; name: string }[]
+  existingIps: string[] // IPs that are already devices
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+// NaN when the cell is not a whole number, so the range check fails
+function parseWholeNumber(value: string): number {
+  return /^\d+$/.test(value) ? parseInt(value, 10) : NaN
+}
+
+/**
+ * Check every row of a sheet against the device types, rooms and devices
+ *
+ * @param table - Rows of the sheet, the first one being the header
+ * @returns Error message for the whole file, or the checked rows
+ */
+export function parseDeviceImport(
+  table: string[][],
+  context: DeviceImportContext
+): { error: string | null; rows: DeviceImportRow[] } {
+  const headerIndex = table.findIndex(cells => cells.some(cell => cell.trim() !== ''))
+  if (headerIndex === -1) {
+    return { error: 'The file is empty', rows: [] }
+  }
+
+  const columns: Partial<Record<DeviceImportField, number>> = {}
+  table[headerIndex].forEach((header, index) => {
+    const field = HEADER_ALIASES[normalizeHeader(header)]
+    if (field && columns[field] === undefined) {
+      columns[field] = index
+    }
+  })
+
+  const missing = REQUIRED_FIELDS.filter(field => columns[field] === undefined)
+  if (missing.length > 0) {
+    return {
+      error: `Missing column${missing.length !== 1 ? 's' : ''}: ${missing.map(field => DEVICE_IMPORT_HEADERS[field]).join(', ')}`,
+      rows: []
+    }
+  }
+
+  const dataRows: { row: number; cells: string[] }[] = []
+  for (let index = headerIndex + 1; index < table.length; index++) {
+    if (table[index].some(cell => cell.trim() !== '')) {
+      dataRows.push({ row: index + 1, cells: table[index] })
+    }
+  }
+
+  if (dataRows.length === 0) {
+    return { error: 'The file has no device rows', rows: [] }
+  }
+  if (dataRows.length > MAX_IMPORT_ROWS) {
+    return { error: `At most ${MAX_IMPORT_ROWS} devices can be imported at once`, rows: [] }
+  }
+
+  const typeKeys = context.deviceTypes.map(definition => definition.key)
+  const existingIps = new Set(context.existingIps)
+  const seenIps: Record<string, number> = {}
+
+  const rows = dataRows.map(({ row, cells }) => {
+    const value = (field: DeviceImportField) => {
+      const index = columns[field]
+      return index === undefined ? '' : (cells[index] ?? '').trim()
+    }
+    const errors: string[] = []
+
+    const name = value('name')
+    if (!name) {
+      errors.push('Name is required')
+    }
+
+    const ip = value('ip')
+    if (!ip) {
+      errors.push('IP is required')
+    } else if (!isValidIPv4(ip)) {
+      errors.push(`${ip} is not a valid IPv4 address`)
+    } else if (existingIps.has(ip)) {
+      errors.push(`${ip} is already a device`)
+    } else if (seenIps[ip] !== undefined) {
+      errors.push(`${ip} is also on row ${seenIps[ip]}`)
+    } else {
+      seenIps[ip] = row
+    }
+
+    // Types can be given by key or by label ("CCTV" or "CCTV Camera")
+    const typeValue = value('type')
+    const typeDefinition = context.deviceTypes.find(definition =>
+      definition.key === typeValue.toUpperCase() || definition.label.toLowerCase() === typeValue.toLowerCase()
+    )
+    const type = typeDefinition?.key ?? typeValue
+    if (!typeValue) {
+      errors.push('Type is required')
+    } else if (!isValidDeviceType(type, typeKeys)) {
+      errors.push(`Unknown type "${typeValue}"`)
+    }
+
+    const laneName = value('laneName')
+    if (!laneName) {
+      errors.push('Lane is required')
+    }
+
+    const roomName = value('room') || null
+    const room = roomName
+      ? context.rooms.find(candidate => candidate.name.toLowerCase() === roomName.toLowerCase())
+      : undefined
+    if (roomName && !room) {
+      errors.push(`Room "${roomName}" does not exist`)
+    }
+
+    const macAddress = value('macAddress') || null
+    const hostname = value('hostname') || null
+    const identityError = validateDeviceIdentity({ macAddress, hostname })
+    if (identityError) {
+      errors.push(identityError)
+    }
+
+    const netwatchTimeout = value('netwatchTimeout') ? parseWholeNumber(value('netwatchTimeout')) : null
+    if (netwatchTimeout !== null && !(netwatchTimeout >= 100 && netwatchTimeout <= 10000)) {
+      errors.push('Netwatch timeout must be between 100ms and 10000ms')
+    }
+
+    const netwatchInterval = value('netwatchInterval') ? parseWholeNumber(value('netwatchInterval')) : null
+    if (netwatchInterval !== null && !(netwatchInterval >= 5 && netwatchInterval <= 3600)) {
+      errors.push('Netwatch interval must be between 5s and 3600s')
+    }
+
+    return {
+      row,
+      name,
+      ip,
+      type,
+      laneName,
+      roomName: room?.name ?? roomName,
+      roomId: room?.id ?? null,
+      macAddress: normalizeMacAddress(macAddress) ?? macAddress,
+      hostname,
+      netwatchTimeout,
+      netwatchInterval,
+      errors
+    }
+  })
+
+  return { error: null, rows }
+}
+
+/**
+ * Check a sheet against the current device types, rooms and devices
+ */
+export async function checkDeviceImport(
+  table: string[][]
+): Promise<{ error: string | null; rows: DeviceImportRow[]; deviceTypes: DeviceTypeDefinition[] }> {
+  const [deviceTypes, rooms, devices] = await Promise.all([
+    loadDeviceTypes(),
+    prisma.room.findMany({ select: { id: true, name: true } }),
+    prisma.device.findMany({ select: { ip: true } })
+  ])
+
+  const result = parseDeviceImport(table, {
+    deviceTypes,
+    rooms,
+    existingIps: devices.map(device => device.ip)
+  })
+
+  return { ...result, deviceTypes }
+}
+
+export interface ExportableDevice {
+  name: string
+  ip: string
+  type: string
+  laneName: string
+  macAddress: string | null
+  hostname: string | null
+  netwatchTimeout: number
+  netwatchInterval: number
+  status: string
+  lastSeen: Date | null
+  room: { name: string } | null
+  router: { name: string } | null
+}
+
+/**
+ * Sheet of devices - the import columns first, so an export can be edited
+ * and imported again
+ */
+export function buildDeviceExport(devices: ExportableDevice[]): (string | number | null)[][] {
+  const header = [
+    DEVICE_IMPORT_HEADERS.name,
+    DEVICE_IMPORT_HEADERS.ip,
+    DEVICE_IMPORT_HEADERS.type,
+    DEVICE_IMPORT_HEADERS.laneName,
+    DEVICE_IMPORT_HEADERS.room,
+    DEVICE_IMPORT_HEADERS.macAddress,
+    DEVICE_IMPORT_HEADERS.hostname,
+    DEVICE_IMPORT_HEADERS.netwatchTimeout,
+    DEVICE_IMPORT_HEADERS.netwatchInterval,
+    'Router',
+    'Status',
+    'Last Seen'
+  ]
+
+  return [
+    header,
+    ...devices.map(device => [
+      device.name,
+      device.ip,
+      device.type,
+      device.laneName,
+      device.room?.name ?? null,
+      device.macAddress,
+      device.hostname,
+      device.netwatchTimeout,
+      device.netwatchInterval,
+      device.router?.name ?? null,
+      device.status,
+      device.lastSeen ? device.lastSeen.toISOString() : null
+    ])
+  ]
+}
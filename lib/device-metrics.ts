@@ -0,0 +1,226 @@
+/**
+ * Latency & Packet Loss Metrics
+ *
+ * RouterOS 7 ICMP netwatch probes report rtt-avg, rtt-max, rtt-jitter and
+ * loss-percent next to the up/down status. The worker stores them once per
+ * poll in DeviceMetric and marks a reachable device "degraded" when its
+ * latency or loss is above the device's thresholds.
+ *
+ * Degraded is a third state on top of up: it counts as up for uptime, alerts
+ * and topology, it only changes the colour and history of the device.
+ */
+
+import { prisma } from '@/lib/prisma'
+
+export const DEGRADED_STATUS = 'degraded'
+
+// Raw samples are kept for a week; the map only shows the last day
+export const METRIC_RETENTION_DAYS = 7
+export const MAX_METRIC_HOURS = METRIC_RETENTION_DAYS * 24
+export const MAX_LATENCY_THRESHOLD_MS = 60000
+
+export interface DeviceMetricSample {
+  rttAvgMs: number | null
+  rttMaxMs: number | null
+  jitterMs: number | null
+  lossPercent: number | null
+}
+
+export interface DegradedThresholds {
+  latencyThresholdMs: number | null
+  lossThresholdPercent: number | null
+}
+
+export interface DeviceMetricPoint extends DeviceMetricSample {
+  timestamp: Date
+}
+
+/**
+ * Up or degraded - the device answers either way
+ */
+export function isUpStatus(status: string | undefined): boolean {
+  return status === 'up' || status === DEGRADED_STATUS
+}
+
+const DURATION_UNITS_MS: Record<string, number> = {
+  w: 604800000,
+  d: 86400000,
+  h: 3600000,
+  m: 60000,
+  s: 1000,
+  ms: 1,
+  us: 0.001,
+  ns: 0.000001
+}
+
+/**
+ * Parse a RouterOS duration ("2ms350us", "1s5ms", "00:00:01.2") to milliseconds
+ *
+ * Plain numbers are taken as milliseconds.
+ */
+export function parseRouterOSDuration(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null
+  }
+  if (typeof value !== 'string' || !value.trim()) {
+    return null
+  }
+
+  const text = value.trim()
+
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    return parseFloat(text)
+  }
+
+  const clock = text.match(/^(\d+):(\d{2}):(\d{2}(?:\.\d+)?)$/)
+  if (clock) {
+    return (parseInt(clock[1]) * 3600 + parseInt(clock[2]) * 60 + parseFloat(clock[3])) * 1000
+  }
+
+  const parts = Array.from(text.matchAll(/(\d+(?:\.\d+)?)(ms|us|ns|w|d|h|m|s)/g))
+  if (parts.length === 0 || parts.map(part => part[0]).join('') !== text) {
+    return null
+  }
+
+  const ms = parts.reduce((total, part) => total + parseFloat(part[1]) * DURATION_UNITS_MS[part[2]], 0)
+  return Math.round(ms * 1000) / 1000
+}
+
+function parsePercent(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null
+  }
+  if (typeof value !== 'string') {
+    return null
+  }
+
+  const percent = parseFloat(value.replace('%', ''))
+  return Number.isFinite(percent) ? percent : null
+}
+
+/**
+ * Latency and loss from a /tool/netwatch/print entry
+ *
+ * @returns null when the probe reports none (RouterOS 6, non-ICMP probes)
+ */
+export function parseNetwatchMetrics(entry: Record<string, unknown>): DeviceMetricSample | null {
+  const sample: DeviceMetricSample = {
+    rttAvgMs: parseRouterOSDuration(entry['rtt-avg']),
+    rttMaxMs: parseRouterOSDuration(entry['rtt-max']),
+    jitterMs: parseRouterOSDuration(entry['rtt-jitter']),
+    lossPercent: parsePercent(entry['loss-percent'])
+  }
+
+  return Object.values(sample).every(value => value === null) ? null : sample
+}
+
+/**
+ * Whether a sample crosses either threshold (null thresholds are not checked)
+ */
+export function isDegraded(sample: DeviceMetricSample | null | undefined, thresholds: DegradedThresholds): boolean {
+  if (!sample) {
+    return false
+  }
+
+  const { latencyThresholdMs, lossThresholdPercent } = thresholds
+
+  if (latencyThresholdMs !== null && sample.rttAvgMs !== null && sample.rttAvgMs > latencyThresholdMs) {
+    return true
+  }
+
+  return lossThresholdPercent !== null && sample.lossPercent !== null && sample.lossPercent > lossThresholdPercent
+}
+
+/**
+ * Validate per-device thresholds from a create/update payload
+ *
+ * Empty values clear a threshold; undefined leaves it untouched.
+ *
+ * @returns Error message or null when valid
+ */
+export function validateDegradedThresholds(body: { latencyThresholdMs?: unknown; lossThresholdPercent?: unknown }): string | null {
+  const latency = toThreshold(body.latencyThresholdMs)
+  if (latency != null && (!Number.isInteger(latency) || latency < 1 || latency > MAX_LATENCY_THRESHOLD_MS)) {
+    return `Latency threshold must be a whole number between 1ms and ${MAX_LATENCY_THRESHOLD_MS}ms`
+  }
+
+  const loss = toThreshold(body.lossThresholdPercent)
+  if (loss != null && (!Number.isInteger(loss) || loss < 0 || loss > 99)) {
+    return 'Packet loss threshold must be a whole number between 0% and 99%'
+  }
+
+  return null
+}
+
+/**
+ * Payload value to a threshold column - undefined keeps, null clears
+ */
+export function toThreshold(value: unknown): number | null | undefined {
+  if (value === undefined) {
+    return undefined
+  }
+  if (value === null || value === '') {
+    return null
+  }
+  return Number(value)
+}
+
+/**
+ * Store one poll's samples
+ */
+export async function recordDeviceMetrics(samples: Map<string, DeviceMetricSample>, now: Date = new Date()): Promise<void> {
+  if (samples.size === 0) {
+    return
+  }
+
+  await prisma.deviceMetric.createMany({
+    data: Array.from(samples.entries()).map(([deviceId, sample]) => ({
+      deviceId,
+      ...sample,
+      timestamp: now
+    }))
+  })
+}
+
+/**
+ * Average samples into at most `buckets` points so a sparkline stays light
+ */
+export function downsampleMetrics(points: DeviceMetricPoint[], buckets: number): DeviceMetricPoint[] {
+  if (points.length <= buckets) {
+    return points
+  }
+
+  const size = Math.ceil(points.length / buckets)
+  const average = (values: (number | null)[]) => {
+    const known = values.filter((value): value is number => value !== null)
+    return known.length > 0 ? Math.round((known.reduce((sum, value) => sum + value, 0) / known.length) * 100) / 100 : null
+  }
+
+  const result: DeviceMetricPoint[] = []
+  for (let index = 0; index < points.length; index += size) {
+    const bucket = points.slice(index, index + size)
+    result.push({
+      timestamp: bucket[bucket.length - 1].timestamp,
+      rttAvgMs: average(bucket.map(point => point.rttAvgMs)),
+      // The worst round trip in the bucket, not an average of maxima
+      rttMaxMs: bucket.reduce<number | null>((max, point) => point.rttMaxMs !== null && (max === null || point.rttMaxMs > max) ? point.rttMaxMs : max, null),
+      jitterMs: average(bucket.map(point => point.jitterMs)),
+      lossPercent: average(bucket.map(point => point.lossPercent))
+    })
+  }
+
+  return result
+}
+
+/**
+ * Drop samples older than the metric retention
+ *
+ * @returns Number of samples deleted
+ */
+export async function pruneDeviceMetrics(now: Date = new Date()): Promise<number> {
+  const result = await prisma.deviceMetric.deleteMany({
+    where: { timestamp: { lt: new Date(now.getTime() - METRIC_RETENTION_DAYS * 86400000) } }
+  })
+
+  return result.count
+}
@@ -0,0 +1,320 @@
+/**
+ * Device Probes
+ *
+ * A device can have extra netwatch entries on its host next to its own probe,
+ * e.g. a server checked by ping plus HTTP plus SSH. Each extra entry is a
+ * Probe row with its own type settings and last netwatch status.
+ *
+ * The device's own probe still decides up/down (topology, alerts and uptime
+ * are unchanged). When it is up but one of the extra probes is down the
+ * device is shown as degraded - it answers, but a service on it doesn't.
+ */
+
+import { prisma } from '@/lib/prisma'
+import { DEGRADED_STATUS, parseRouterOSDuration } from '@/lib/device-metrics'
+import { parseNetwatchComment } from '@/lib/netwatch-marker'
+import {
+  matchesNetwatchProbe,
+  NETWATCH_TYPE_LABELS,
+  NetwatchProbe,
+  NetwatchProbeInput,
+  parseNetwatchProbe,
+  toNetwatchProbe,
+  validateNetwatchProbe
+} from '@/lib/netwatch-probes'
+
+export const MAX_PROBES_PER_DEVICE = 10
+export const MAX_PROBE_NAME_LENGTH = 50
+
+export interface ProbeSettings {
+  type: string
+  port: number | null
+  httpCode: number | null
+  dnsName: string | null
+}
+
+export interface ProbeRecord extends ProbeSettings {
+  id: string
+  name: string
+  timeout: number
+  interval: number
+  entryId?: string | null
+}
+
+export interface ProbeInput {
+  name?: unknown
+  type?: unknown
+  port?: unknown
+  httpCode?: unknown
+  dnsName?: unknown
+  timeout?: unknown
+  interval?: unknown
+}
+
+interface DeviceWithProbes {
+  id?: string
+  ip: string
+  netwatchType?: string | null
+  netwatchPort?: number | null
+  netwatchDnsName?: string | null
+  netwatchEntryId?: string | null
+  probes?: Array<{ id: string; entryId?: string | null } & ProbeSettings>
+}
+
+/**
+ * Probe columns in the shape the netwatch helpers use for a device's own probe
+ */
+export function toNetwatchSettings(probe: Partial<ProbeSettings>): NetwatchProbe {
+  return toNetwatchProbe({
+    netwatchType: probe.type,
+    netwatchPort: probe.port,
+    netwatchHttpCode: probe.httpCode,
+    netwatchDnsName: probe.dnsName
+  })
+}
+
+/**
+ * Netwatch helper shape back to probe columns
+ */
+export function fromNetwatchSettings(settings: NetwatchProbe): ProbeSettings {
+  return {
+    type: settings.netwatchType,
+    port: settings.netwatchPort,
+    httpCode: settings.netwatchHttpCode,
+    dnsName: settings.netwatchDnsName
+  }
+}
+
+function toNetwatchInput(input: ProbeInput): NetwatchProbeInput {
+  return {
+    netwatchType: input.type,
+    netwatchPort: input.port,
+    netwatchHttpCode: input.httpCode,
+    netwatchDnsName: input.dnsName
+  }
+}
+
+/**
+ * Whether two probes would watch the same thing (same type and port/record name)
+ */
+export function isSameProbe(a: NetwatchProbe, b: NetwatchProbe): boolean {
+  return a.netwatchType === b.netwatchType &&
+    a.netwatchPort === b.netwatchPort &&
+    (a.netwatchDnsName ?? '').toLowerCase() === (b.netwatchDnsName ?? '').toLowerCase()
+}
+
+/**
+ * Validate a probe from a create/update payload
+ *
+ * Netwatch entries of one host are told apart by type and port/record name,
+ * so a probe may not repeat the device's own probe or another extra probe.
+ *
+ * @param others - The device's own probe and its other extra probes
+ * @returns Error message or null when valid
+ */
+export function validateProbeInput(input: ProbeInput, others: NetwatchProbe[]): string | null {
+  if (typeof input.name !== 'string' || !input.name.trim()) {
+    return 'Probe name is required'
+  }
+  if (input.name.trim().length > MAX_PROBE_NAME_LENGTH) {
+    return `Probe name must be at most ${MAX_PROBE_NAME_LENGTH} characters`
+  }
+
+  const settingsError = validateNetwatchProbe(toNetwatchInput(input))
+  if (settingsError) {
+    return settingsError
+  }
+
+  if (input.timeout !== undefined && input.timeout !== '') {
+    const timeout = Number(input.timeout)
+    if (!Number.isInteger(timeout) || timeout < 100 || timeout > 10000) {
+      return 'Netwatch timeout must be between 100ms and 10000ms'
+    }
+  }
+
+  if (input.interval !== undefined && input.interval !== '') {
+    const interval = Number(input.interval)
+    if (!Number.isInteger(interval) || interval < 5 || interval > 3600) {
+      return 'Netwatch interval must be between 5s and 3600s'
+    }
+  }
+
+  const settings = toNetwatchProbe(toNetwatchInput(input))
+  if (others.some(other => isSameProbe(other, settings))) {
+    return 'The device already has a probe with this type and target'
+  }
+
+  return null
+}
+
+/**
+ * Probe columns for a validated payload
+ */
+export function toProbeData(input: ProbeInput) {
+  const settings = toNetwatchProbe(toNetwatchInput(input))
+
+  return {
+    name: String(input.name).trim(),
+    type: settings.netwatchType,
+    port: settings.netwatchPort,
+    httpCode: settings.netwatchHttpCode,
+    dnsName: settings.netwatchDnsName,
+    timeout: input.timeout !== undefined && input.timeout !== '' ? Number(input.timeout) : 1000,
+    interval: input.interval !== undefined && input.interval !== '' ? Number(input.interval) : 5
+  }
+}
+
+/**
+ * Extra probe from a netwatch entry on an imported device's host
+ *
+ * Entries created by this app carry "<device> - <probe>" as comment (after the marker).
+ */
+export function probeFromNetwatchEntry(entry: Record<string, unknown>, deviceName: string): ProbeInput {
+  const settings = parseNetwatchProbe(entry)
+  const comment = parseNetwatchComment(entry.comment).name
+  const name = comment.startsWith(`${deviceName} - `) ? comment.slice(deviceName.length + 3) : comment
+  const timeoutMs = parseRouterOSDuration(entry.timeout)
+  const intervalMs = parseRouterOSDuration(entry.interval)
+
+  return {
+    name: (name || NETWATCH_TYPE_LABELS[settings.netwatchType]).slice(0, MAX_PROBE_NAME_LENGTH),
+    ...fromNetwatchSettings(settings),
+    timeout: timeoutMs !== null ? Math.round(timeoutMs) : undefined,
+    interval: intervalMs !== null ? Math.round(intervalMs / 1000) : undefined
+  }
+}
+
+/**
+ * Probe rows for the extra probes of an imported device
+ *
+ * Invalid entries and repeats of an earlier probe are left out rather than
+ * failing the whole import; at most MAX_PROBES_PER_DEVICE are kept.
+ *
+ * @param main - The imported device's own probe
+ */
+export function toImportedProbes(main: NetwatchProbe, inputs: unknown): ReturnType<typeof toProbeData>[] {
+  if (!Array.isArray(inputs)) {
+    return []
+  }
+
+  const known: NetwatchProbe[] = [main]
+  const probes: ReturnType<typeof toProbeData>[] = []
+
+  for (const input of inputs) {
+    if (!input || typeof input !== 'object' || probes.length >= MAX_PROBES_PER_DEVICE) continue
+    if (validateProbeInput(input, known) !== null) continue
+
+    const data = toProbeData(input)
+    probes.push(data)
+    known.push(toNetwatchSettings(data))
+  }
+
+  return probes
+}
+
+/**
+ * Find a device's netwatch entries in a /tool/netwatch/print result
+ *
+ * Entries the dashboard wrote are found by the "[nw:<id>]" comment marker,
+ * then by their recorded RouterOS .id, wherever their host points now.
+ * Unmarked entries on the device's host (hand-made or written before the
+ * marker existed) are matched the old way: extra probes on type and target,
+ * the device's own entry exactly when possible, otherwise any entry no extra
+ * probe claims, so an entry not yet re-synced after a type change still
+ * reports the device. Entries marked for another owner are never taken.
+ *
+ * @returns The device's own entry and the entry of each extra probe found
+ */
+export function matchDeviceProbes(
+  entries: any[],
+  device: DeviceWithProbes
+): { mainEntry: any | null; probeEntries: Map<string, any> } {
+  const probeEntries = new Map<string, any>()
+  const claimed = new Set<any>()
+  const ownerOf = (item: any) => parseNetwatchComment(item.comment).ownerId
+  const isFree = (item: any) => !claimed.has(item) && ownerOf(item) === null
+
+  // Marker first, then the recorded .id, then the host-based match among unmarked entries
+  const claim = (ownerId: string | undefined, entryId: string | null | undefined, matchesHost: (item: any) => boolean) => {
+    const entry =
+      (ownerId ? entries.find(item => !claimed.has(item) && ownerOf(item) === ownerId) : undefined) ??
+      (entryId ? entries.find(item => isFree(item) && item['.id'] === entryId) : undefined) ??
+      entries.find(item => isFree(item) && matchesHost(item))
+
+    if (entry) claimed.add(entry)
+    return entry ?? null
+  }
+
+  for (const probe of device.probes ?? []) {
+    const entry = claim(probe.id, probe.entryId, item => matchesNetwatchProbe(item, device.ip, toNetwatchSettings(probe)))
+    if (entry) {
+      probeEntries.set(probe.id, entry)
+    }
+  }
+
+  const mainEntry =
+    claim(device.id, device.netwatchEntryId, item => matchesNetwatchProbe(item, device.ip, device)) ??
+    claim(undefined, undefined, item => item.host === device.ip)
+
+  return { mainEntry, probeEntries }
+}
+
+/**
+ * Whether any extra probe of the device was observed down this poll
+ */
+export function hasFailingProbe(probeIds: string[], probeStatuses: Map<string, string>): boolean {
+  return probeIds.some(id => probeStatuses.get(id) === 'down')
+}
+
+/**
+ * State of a device's own probe as shown next to its extra probes
+ *
+ * Up and degraded devices have their own probe up; degraded only comes
+ * from thresholds and extra probes.
+ */
+export function mainProbeStatus(deviceStatus: string): string {
+  if (deviceStatus === 'up' || deviceStatus === DEGRADED_STATUS) {
+    return 'up'
+  }
+  if (deviceStatus === 'down' || deviceStatus === 'unreachable') {
+    return 'down'
+  }
+  return deviceStatus
+}
+
+/**
+ * Store the observed status of extra probes that changed
+ *
+ * Probes without an observation (router unreachable, entry missing) keep
+ * their last status.
+ */
+export async function commitProbeStatuses(probeStatuses: Map<string, string>, now: Date = new Date()): Promise<void> {
+  if (probeStatuses.size === 0) {
+    return
+  }
+
+  const probes = await prisma.probe.findMany({
+    where: { id: { in: Array.from(probeStatuses.keys()) } },
+    select: { id: true, status: true }
+  })
+
+  for (const probe of probes) {
+    const status = probeStatuses.get(probe.id)!
+
+    if (probe.status !== status) {
+      await prisma.probe.update({
+        where: { id: probe.id },
+        data: {
+          status,
+          statusSince: now,
+          ...(status === 'up' ? { lastSeen: now } : {})
+        }
+      })
+    } else if (status === 'up') {
+      await prisma.probe.update({
+        where: { id: probe.id },
+        data: { lastSeen: now }
+      })
+    }
+  }
+}
@@ -0,0 +1,188 @@
+/**
+ * Device Type Registry
+ *
+ * The built-in types from lib/constants.ts plus the custom types admins add.
+ * A DeviceTypeDefinition row with a built-in key overrides that type's label,
+ * icon, colour and netwatch defaults; deleting the row restores them. Custom
+ * types follow the built-in ones in the order they were created and can only
+ * be deleted while nothing uses them.
+ */
+
+import { prisma } from '@/lib/prisma'
+import {
+  BUILT_IN_DEVICE_TYPES,
+  DEVICE_TYPE_ICON_NAMES,
+  DeviceTypeDefinition,
+  DeviceTypeIconName,
+  MAX_DEVICE_TYPE_SVG_LENGTH
+} from '@/lib/constants'
+
+export interface DeviceTypeInput {
+  key?: string // Only when creating
+  label: string
+  icon: string
+  iconSvg?: string | null
+  color: string
+  netwatchTimeout?: number | null
+  netwatchInterval?: number | null
+}
+
+const KEY_PATTERN = /^[A-Z][A-Z0-9_]{0,31}$/
+const COLOR_PATTERN = /^#[0-9a-fA-F]{6}$/
+
+/**
+ * Every device type, built-in first
+ */
+export async function loadDeviceTypes(): Promise<DeviceTypeDefinition[]> {
+  const rows = await prisma.deviceTypeDefinition.findMany({
+    orderBy: { createdAt: 'asc' }
+  })
+
+  const toDefinition = (row: typeof rows[number], builtIn: boolean): DeviceTypeDefinition => ({
+    key: row.key,
+    label: row.label,
+    icon: (DEVICE_TYPE_ICON_NAMES as readonly string[]).includes(row.icon) ? row.icon as DeviceTypeIconName : 'help-circle',
+    iconSvg: row.iconSvg,
+    color: row.color,
+    netwatchTimeout: row.netwatchTimeout,
+    netwatchInterval: row.netwatchInterval,
+    builtIn
+  })
+
+  const builtIn = BUILT_IN_DEVICE_TYPES.map(definition => {
+    const row = rows.find(candidate => candidate.key === definition.key)
+    return row ? toDefinition(row, true) : definition
+  })
+  const custom = rows
+    .filter(row => !BUILT_IN_DEVICE_TYPES.some(definition => definition.key === row.key))
+    .map(row => toDefinition(row, false))
+
+  return [...builtIn, ...custom]
+}
+
+/**
+ * Keys of every device type, for the validators
+ */
+export async function loadDeviceTypeKeys(): Promise<string[]> {
+  const types = await loadDeviceTypes()
+  return types.map(type => type.key)
+}
+
+/**
+ * Details line for an "Invalid device type" error
+ */
+export function formatDeviceTypeKeys(keys: string[]): string {
+  return `Type must be one of: ${keys.join(', ')}`
+}
+
+/**
+ * Validate a device type from the admin page
+ *
+ * @param isNew - Creating a type, so the key is required
+ * @returns Error message or null when valid
+ */
+export function validateDeviceTypeInput(input: any, isNew: boolean): string | null {
+  if (!input || typeof input !== 'object') {
+    return 'Device type is required'
+  }
+
+  if (isNew && (typeof input.key !== 'string' || !KEY_PATTERN.test(input.key))) {
+    return 'Key must start with a letter and use only A-Z, 0-9 and _ (at most 32 characters)'
+  }
+
+  if (typeof input.label !== 'string' || input.label.trim().length === 0) {
+    return 'Label is required'
+  }
+
+  if (input.label.trim().length > 50) {
+    return 'Label must be 50 characters or less'
+  }
+
+  if (!DEVICE_TYPE_ICON_NAMES.includes(input.icon)) {
+    return `Icon must be one of: ${DEVICE_TYPE_ICON_NAMES.join(', ')}`
+  }
+
+  if (input.iconSvg !== undefined && input.iconSvg !== null && input.iconSvg !== '') {
+    if (typeof input.iconSvg !== 'string' || !/^\s*(<\?xml[^>]*>\s*)?<svg[\s>]/i.test(input.iconSvg)) {
+      return 'Uploaded icon must be an SVG image'
+    }
+    if (input.iconSvg.length > MAX_DEVICE_TYPE_SVG_LENGTH) {
+      return `Uploaded icon must be ${MAX_DEVICE_TYPE_SVG_LENGTH / 1000} KB or less`
+    }
+    if (/<script|\son\w+\s*=|javascript:/i.test(input.iconSvg)) {
+      return 'Uploaded icon must not contain scripts'
+    }
+  }
+
+  if (typeof input.color !== 'string' || !COLOR_PATTERN.test(input.color)) {
+    return 'Colour must be a hex colour like #2563eb'
+  }
+
+  if (input.netwatchTimeout !== undefined && input.netwatchTimeout !== null) {
+    if (typeof input.netwatchTimeout !== 'number' || input.netwatchTimeout < 100 || input.netwatchTimeout > 10000) {
+      return 'Netwatch timeout must be between 100ms and 10000ms'
+    }
+  }
+
+  if (input.netwatchInterval !== undefined && input.netwatchInterval !== null) {
+    if (typeof input.netwatchInterval !== 'number' || input.netwatchInterval < 5 || input.netwatchInterval > 3600) {
+      return 'Netwatch interval must be between 5s and 3600s'
+    }
+  }
+
+  return null
+}
+
+/**
+ * Create or update a device type from validated input
+ */
+export async function saveDeviceType(key: string, input: DeviceTypeInput): Promise<void> {
+  const data = {
+    label: input.label.trim(),
+    icon: input.icon,
+    iconSvg: input.iconSvg || null,
+    color: input.color.toLowerCase(),
+    netwatchTimeout: input.netwatchTimeout ?? null,
+    netwatchInterval: input.netwatchInterval ?? null
+  }
+
+  await prisma.deviceTypeDefinition.upsert({
+    where: { key },
+    create: { key, ...data },
+    update: data
+  })
+}
+
+/**
+ * Delete a custom type, or restore a built-in one to its defaults
+ *
+ * Custom types still set on devices, alert rules, report definitions or
+ * classification rules are kept.
+ */
+export async function deleteDeviceType(key: string): Promise<{ success: boolean; message: string }> {
+  if (BUILT_IN_DEVICE_TYPES.some(definition => definition.key === key)) {
+    await prisma.deviceTypeDefinition.deleteMany({ where: { key } })
+    return { success: true, message: 'Restored the built-in defaults' }
+  }
+
+  const [devices, alertRules, reports, rules] = await Promise.all([
+    prisma.device.count({ where: { type: key } }),
+    prisma.alertRule.count({ where: { deviceType: key } }),
+    prisma.reportDefinition.count({ where: { deviceType: key } }),
+    prisma.classificationRule.count({ where: { type: key } })
+  ])
+
+  const uses = [
+    devices > 0 ? `${devices} device${devices !== 1 ? 's' : ''}` : null,
+    alertRules > 0 ? `${alertRules} alert rule${alertRules !== 1 ? 's' : ''}` : null,
+    reports > 0 ? `${reports} report${reports !== 1 ? 's' : ''}` : null,
+    rules > 0 ? `${rules} classification rule${rules !== 1 ? 's' : ''}` : null
+  ].filter(Boolean)
+
+  if (uses.length > 0) {
+    return { success: false, message: `Device type is still used by ${uses.join(', ')}` }
+  }
+
+  await prisma.deviceTypeDefinition.delete({ where: { key } })
+  return { success: true, message: 'Device type deleted' }
+}
@@ -0,0 +1,121 @@
+/**
+ * History Retention
+ *
+ * Keeps DeviceStatusHistory from growing forever:
+ * - raw rows older than `historyRetentionDays` are dropped once their days are
+ *   covered by the uptime rollups (lib/sla.ts), which are kept
+ * - the last row before the cutoff survives per device, so the status carried
+ *   into the retained range is still known
+ * - with `purgeDeletedDeviceHistory`, history and rollups of devices that no
+ *   longer exist are deleted as well
+ *
+ * Run by the worker after the hourly uptime rollup.
+ */
+
+import { prisma } from '@/lib/prisma'
+import { addDays, getRolledUpUntil, startOfDay } from '@/lib/sla'
+
+export const DEFAULT_HISTORY_RETENTION_DAYS = 90
+export const MAX_HISTORY_RETENTION_DAYS = 3650
+
+export interface HistoryRetentionSettings {
+  historyRetentionDays: number
+  purgeDeletedDeviceHistory: boolean
+}
+
+export interface HistoryRetentionResult {
+  compacted: number
+  purged: number
+}
+
+/**
+ * Read retention settings from SystemConfig, falling back to the defaults
+ */
+export function toHistoryRetentionSettings(
+  config: Partial<HistoryRetentionSettings> | null | undefined
+): HistoryRetentionSettings {
+  return {
+    historyRetentionDays: config?.historyRetentionDays ?? DEFAULT_HISTORY_RETENTION_DAYS,
+    purgeDeletedDeviceHistory: config?.purgeDeletedDeviceHistory ?? false
+  }
+}
+
+/**
+ * Oldest point in time whose raw history must be kept
+ *
+ * Never later than the rollups reach, so no day is lost before it was rolled up.
+ *
+ * @returns null when nothing may be compacted
+ */
+export function getHistoryCutoff(retentionDays: number, rolledUpUntil: Date | null, now: Date = new Date()): Date | null {
+  if (retentionDays <= 0 || !rolledUpUntil) {
+    return null
+  }
+
+  const cutoff = addDays(startOfDay(now), -retentionDays)
+  return cutoff < rolledUpUntil ? cutoff : rolledUpUntil
+}
+
+/**
+ * Drop raw history older than the cutoff, keeping the last row per device before it
+ */
+async function compactHistory(cutoff: Date): Promise<number> {
+  const latestBeforeCutoff = await prisma.deviceStatusHistory.groupBy({
+    by: ['deviceId'],
+    where: { timestamp: { lt: cutoff } },
+    _max: { timestamp: true }
+  })
+
+  let compacted = 0
+  for (const row of latestBeforeCutoff) {
+    if (!row._max.timestamp) continue
+
+    const result = await prisma.deviceStatusHistory.deleteMany({
+      where: {
+        deviceId: row.deviceId,
+        timestamp: { lt: row._max.timestamp }
+      }
+    })
+    compacted += result.count
+  }
+
+  return compacted
+}
+
+/**
+ * Delete history and rollups of devices that were deleted
+ */
+async function purgeDeletedDeviceHistory(): Promise<number> {
+  const devices = await prisma.device.findMany({ select: { id: true } })
+  const where = { deviceId: { notIn: devices.map(device => device.id) } }
+
+  const [history] = await Promise.all([
+    prisma.deviceStatusHistory.deleteMany({ where }),
+    prisma.deviceUptimeDaily.deleteMany({ where }),
+    prisma.deviceUptimeMonthly.deleteMany({ where })
+  ])
+
+  return history.count
+}
+
+/**
+ * Apply the retention policy from SystemConfig
+ */
+export async function applyHistoryRetention(now: Date = new Date()): Promise<HistoryRetentionResult> {
+  const config = await prisma.systemConfig.findUnique({
+    where: { id: 1 }
+  })
+  const settings = toHistoryRetentionSettings(config)
+  const result: HistoryRetentionResult = { compacted: 0, purged: 0 }
+
+  const cutoff = getHistoryCutoff(settings.historyRetentionDays, await getRolledUpUntil(), now)
+  if (cutoff) {
+    result.compacted = await compactHistory(cutoff)
+  }
+
+  if (settings.purgeDeletedDeviceHistory) {
+    result.purged = await purgeDeletedDeviceHistory()
+  }
+
+  return result
+}
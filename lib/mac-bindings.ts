@@ -0,0 +1,126 @@
+/**
+ * MAC Bindings
+ *
+ * The poller reads each router's ARP table every MAC_REFRESH_INTERVAL_MS and
+ * refreshes the MAC address (and vendor) of the devices bound to it:
+ *
+ * - no MAC yet:      the ARP entry's MAC is stored
+ * - same MAC:        nothing changes
+ * - different MAC:   the new MAC is stored and the device is flagged with the
+ *                    MAC it had before and when the change was seen - the
+ *                    hardware was replaced, or something else answers on its IP
+ *
+ * A flagged device keeps the MAC it was last trusted with as previousMacAddress
+ * until an operator acknowledges the change. Devices without an ARP entry
+ * (offline, or routed rather than on a connected subnet) are left alone.
+ */
+
+import { prisma } from '@/lib/prisma'
+import { DeviceIdentity, DeviceIdentityInput, normalizeMacAddress } from '@/lib/device-identity'
+import { lookupOuiVendor } from '@/lib/oui-vendors'
+import { isValidIPv4 } from '@/lib/routers'
+
+// ARP entries change far less often than device status
+export const MAC_REFRESH_INTERVAL_MS = 15 * 60 * 1000
+
+export interface MacBindingDevice {
+  id: string
+  name: string
+  ip: string
+  macAddress: string | null
+  vendor: string | null
+  previousMacAddress: string | null
+  macChangedAt: Date | null
+}
+
+export interface MacChange {
+  deviceId: string
+  name: string
+  ip: string
+  previousMacAddress: string
+  macAddress: string
+}
+
+/**
+ * Identity fields to store for a validated payload, with the vendor of the MAC
+ */
+export function toDeviceIdentity(input: DeviceIdentityInput): DeviceIdentity {
+  const macAddress = normalizeMacAddress(input.macAddress)
+
+  return {
+    macAddress,
+    hostname: typeof input.hostname === 'string' && input.hostname.trim() ? input.hostname.trim() : null,
+    vendor: lookupOuiVendor(macAddress)
+  }
+}
+
+/**
+ * IP → MAC of the complete entries in an /ip/arp/print result
+ */
+export function parseArpBindings(arp: Record<string, any>[]): Map<string, string> {
+  const bindings = new Map<string, string>()
+
+  for (const entry of arp) {
+    const ip = typeof entry.address === 'string' ? entry.address.trim() : ''
+    const mac = normalizeMacAddress(entry['mac-address'])
+    if (!isValidIPv4(ip) || !mac || entry.invalid === 'true' || bindings.has(ip)) continue
+
+    bindings.set(ip, mac)
+  }
+
+  return bindings
+}
+
+/**
+ * Update the devices' MACs from a router's ARP table and flag changed ones
+ *
+ * @returns Devices whose MAC changed in this refresh
+ */
+export async function refreshMacBindings(
+  devices: MacBindingDevice[],
+  arp: Record<string, any>[],
+  now: Date = new Date()
+): Promise<MacChange[]> {
+  const bindings = parseArpBindings(arp)
+  const changes: MacChange[] = []
+
+  for (const device of devices) {
+    const mac = bindings.get(device.ip)
+    if (!mac) continue
+
+    const vendor = lookupOuiVendor(mac)
+
+    if (device.macAddress === mac) {
+      // Fill in vendors the table learned since the MAC was stored
+      if (vendor && device.vendor !== vendor) {
+        await prisma.device.update({ where: { id: device.id }, data: { vendor } })
+      }
+      continue
+    }
+
+    if (!device.macAddress) {
+      await prisma.device.update({ where: { id: device.id }, data: { macAddress: mac, vendor } })
+      continue
+    }
+
+    // An unacknowledged change keeps the MAC the device was last trusted with
+    const previousMacAddress = device.macChangedAt && device.previousMacAddress
+      ? device.previousMacAddress
+      : device.macAddress
+
+    // The trusted MAC is back - the flag stays until the change is acknowledged
+    if (previousMacAddress === mac) {
+      await prisma.device.update({ where: { id: device.id }, data: { macAddress: mac, vendor } })
+      continue
+    }
+
+    await prisma.device.update({
+      where: { id: device.id },
+      data: { macAddress: mac, vendor, previousMacAddress, macChangedAt: now }
+    })
+
+    changes.push({ deviceId: device.id, name: device.name, ip: device.ip, previousMacAddress, macAddress: mac })
+  }
+
+  return changes
+}
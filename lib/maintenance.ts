@@ -0,0 +1,262 @@
+/**
+ * Maintenance Windows
+ *
+ * A window covers a device, a room or a lane for a time range, optionally
+ * repeating daily or weekly. While a window is active the poller tags history
+ * rows with `maintenance` (so uptime can skip them), alerts are muted and the
+ * map shows a maintenance badge.
+ */
+
+import { prisma } from '@/lib/prisma'
+
+export const MAINTENANCE_SCOPES = ['DEVICE', 'ROOM', 'LANE'] as const
+export const MAINTENANCE_RECURRENCES = ['NONE', 'DAILY', 'WEEKLY'] as const
+
+export type MaintenanceScope = typeof MAINTENANCE_SCOPES[number]
+export type MaintenanceRecurrence = typeof MAINTENANCE_RECURRENCES[number]
+
+const RECURRENCE_DAYS: Record<string, number> = {
+  DAILY: 1,
+  WEEKLY: 7
+}
+
+export interface MaintenanceDevice {
+  id: string
+  roomId: string | null
+  laneName: string
+}
+
+export interface MaintenanceWindowRecord {
+  id: string
+  name: string
+  scope: string
+  deviceId: string | null
+  roomId: string | null
+  laneName: string | null
+  startsAt: Date
+  endsAt: Date
+  recurrence: string
+  recurrenceUntil: Date | null
+}
+
+export interface MaintenanceOccurrence {
+  start: Date
+  end: Date
+  active: boolean
+}
+
+// Calendar days rather than fixed milliseconds so recurring windows keep their wall-clock time across DST
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date)
+  result.setDate(result.getDate() + days)
+  return result
+}
+
+/**
+ * Find the occurrence of a window that is running now, or the next one
+ *
+ * @returns null when the window will not run again
+ */
+export function getMaintenanceOccurrence(
+  window: Pick<MaintenanceWindowRecord, 'startsAt' | 'endsAt' | 'recurrence' | 'recurrenceUntil'>,
+  now: Date = new Date()
+): MaintenanceOccurrence | null {
+  const durationMs = window.endsAt.getTime() - window.startsAt.getTime()
+  const stepDays = RECURRENCE_DAYS[window.recurrence]
+
+  const occurrence = (start: Date): MaintenanceOccurrence => {
+    const end = new Date(start.getTime() + durationMs)
+    return { start, end, active: start <= now && now < end }
+  }
+
+  if (now < window.startsAt) {
+    return occurrence(window.startsAt)
+  }
+
+  if (!stepDays) {
+    return now < window.endsAt ? occurrence(window.startsAt) : null
+  }
+
+  // Latest occurrence that started at or before now
+  const stepMs = stepDays * 86400000
+  let index = Math.floor((now.getTime() - window.startsAt.getTime()) / stepMs)
+  let start = addDays(window.startsAt, index * stepDays)
+
+  if (start > now) {
+    index--
+    start = addDays(window.startsAt, index * stepDays)
+  } else if (addDays(window.startsAt, (index + 1) * stepDays) <= now) {
+    index++
+    start = addDays(window.startsAt, index * stepDays)
+  }
+
+  const isAllowed = (candidate: Date) => !window.recurrenceUntil || candidate <= window.recurrenceUntil
+
+  if (isAllowed(start)) {
+    const current = occurrence(start)
+    if (current.active) {
+      return current
+    }
+  }
+
+  const next = addDays(window.startsAt, (index + 1) * stepDays)
+  return isAllowed(next) ? occurrence(next) : null
+}
+
+/**
+ * Check whether a window is running at the given time
+ */
+export function isMaintenanceWindowActive(window: MaintenanceWindowRecord, now: Date = new Date()): boolean {
+  return getMaintenanceOccurrence(window, now)?.active ?? false
+}
+
+/**
+ * Check whether a window covers a device
+ */
+export function windowMatchesDevice(window: MaintenanceWindowRecord, device: MaintenanceDevice): boolean {
+  switch (window.scope) {
+    case 'DEVICE':
+      return window.deviceId === device.id
+    case 'ROOM':
+      return !!window.roomId && window.roomId === device.roomId
+    case 'LANE':
+      return !!window.laneName && window.laneName === device.laneName
+    default:
+      return false
+  }
+}
+
+/**
+ * Check whether any active window covers a device
+ */
+export function isDeviceInMaintenance(
+  windows: MaintenanceWindowRecord[],
+  device: MaintenanceDevice,
+  now: Date = new Date()
+): boolean {
+  return windows.some(window => windowMatchesDevice(window, device) && isMaintenanceWindowActive(window, now))
+}
+
+/**
+ * Load windows that are running right now
+ */
+export async function loadActiveMaintenanceWindows(now: Date = new Date()): Promise<MaintenanceWindowRecord[]> {
+  // One-off windows that already ended can be skipped in the query; recurring ones need the occurrence check
+  const candidates = await prisma.maintenanceWindow.findMany({
+    where: {
+      startsAt: { lte: now },
+      OR: [
+        { recurrence: { not: 'NONE' } },
+        { endsAt: { gt: now } }
+      ]
+    }
+  })
+
+  return candidates.filter(window => isMaintenanceWindowActive(window, now))
+}
+
+/**
+ * IDs of all devices covered by an active window
+ */
+export async function getDeviceIdsInMaintenance(now: Date = new Date()): Promise<Set<string>> {
+  const windows = await loadActiveMaintenanceWindows(now)
+
+  if (windows.length === 0) {
+    return new Set()
+  }
+
+  const devices = await prisma.device.findMany({
+    select: { id: true, roomId: true, laneName: true }
+  })
+
+  return new Set(
+    devices
+      .filter(device => windows.some(window => windowMatchesDevice(window, device)))
+      .map(device => device.id)
+  )
+}
+
+function parseDate(value: unknown): Date | null {
+  if (typeof value !== 'string' || !value) {
+    return null
+  }
+
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? null : date
+}
+
+/**
+ * Validate window create/update payload
+ *
+ * @returns Error message or null when valid
+ */
+export function validateMaintenanceWindowInput(body: any): string | null {
+  const { name, scope, deviceId, roomId, laneName, startsAt, endsAt, recurrence, recurrenceUntil } = body
+
+  if (!name || typeof name !== 'string' || !name.trim()) {
+    return 'Window name is required'
+  }
+
+  if (!MAINTENANCE_SCOPES.includes(scope)) {
+    return `Invalid scope - must be one of ${MAINTENANCE_SCOPES.join(', ')}`
+  }
+
+  if (scope === 'DEVICE' && !deviceId) {
+    return 'Device is required for a device window'
+  }
+
+  if (scope === 'ROOM' && !roomId) {
+    return 'Room is required for a room window'
+  }
+
+  if (scope === 'LANE' && (typeof laneName !== 'string' || !laneName.trim())) {
+    return 'Lane is required for a lane window'
+  }
+
+  const start = parseDate(startsAt)
+  const end = parseDate(endsAt)
+
+  if (!start || !end) {
+    return 'Start and end must be valid dates'
+  }
+
+  if (end <= start) {
+    return 'End must be after start'
+  }
+
+  if (recurrence !== undefined && !MAINTENANCE_RECURRENCES.includes(recurrence)) {
+    return `Invalid recurrence - must be one of ${MAINTENANCE_RECURRENCES.join(', ')}`
+  }
+
+  const stepDays = RECURRENCE_DAYS[recurrence]
+  if (stepDays && end.getTime() - start.getTime() > stepDays * 86400000) {
+    return 'A recurring window cannot be longer than its repeat interval'
+  }
+
+  if (recurrenceUntil && !parseDate(recurrenceUntil)) {
+    return 'Repeat-until must be a valid date'
+  }
+
+  return null
+}
+
+/**
+ * Map a validated payload to window columns - only the target of the chosen scope is kept
+ */
+export function toMaintenanceWindowData(body: any) {
+  const { name, scope, deviceId, roomId, laneName, startsAt, endsAt, recurrence, recurrenceUntil, reason } = body
+  const repeats = recurrence && recurrence !== 'NONE'
+
+  return {
+    name: name.trim(),
+    scope,
+    deviceId: scope === 'DEVICE' ? deviceId : null,
+    roomId: scope === 'ROOM' ? roomId : null,
+    laneName: scope === 'LANE' ? laneName.trim() : null,
+    startsAt: new Date(startsAt),
+    endsAt: new Date(endsAt),
+    recurrence: repeats ? recurrence : 'NONE',
+    recurrenceUntil: repeats ? parseDate(recurrenceUntil) : null,
+    reason: typeof reason === 'string' && reason.trim() ? reason.trim() : null
+  }
+}
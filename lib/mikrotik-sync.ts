@@ -5,175 +5,249 @@
  */
 
 import { RouterOSAPI } from 'node-routeros'
+import { prisma } from '@/lib/prisma'
+import { resolveRouterOSConfig, withRouterOS } from '@/lib/routeros-connection'
+import { DEFAULT_NETWATCH_TYPE } from '@/lib/netwatch-probes'
+import { stampNetwatchComment } from '@/lib/netwatch-marker'
+import { RouterOSCommand, withDryRun } from '@/lib/routeros-dry-run'
+import { matchDeviceProbes, ProbeRecord, ProbeSettings, toNetwatchSettings } from '@/lib/device-probes'
 
-interface Device {
-  id: string
+export interface NetwatchDevice {
+  id?: string // device or probe that owns the entry - stamped into the comment
   name: string
   ip: string
+  netwatchType?: string | null
   netwatchTimeout: number
   netwatchInterval: number
+  netwatchPort?: number | null
+  netwatchHttpCode?: number | null
+  netwatchDnsName?: string | null
   netwatchUpScript?: string | null
   netwatchDownScript?: string | null
 }
 
-interface MikroTikConfig {
-  host: string
-  user: string
-  password: string
-  port?: number
+interface Device extends NetwatchDevice {
+  id: string
+  routerId?: string | null
+  netwatchEntryId?: string | null
+  probes?: ProbeRecord[]
 }
 
 /**
- * Get MikroTik configuration from environment
+ * Netwatch comment of a device or probe - its name behind the ownership marker
  */
-export function getMikroTikConfig(): MikroTikConfig {
-  const host = process.env.MIKROTIK_HOST
-  const user = process.env.MIKROTIK_USER
-  const password = process.env.MIKROTIK_PASSWORD
-  const port = process.env.MIKROTIK_PORT ? parseInt(process.env.MIKROTIK_PORT) : 8728
-
-  if (!host || !user || !password) {
-    throw new Error('MikroTik configuration is missing. Please check environment variables.')
-  }
-
-  return { host, user, password, port }
+export function netwatchComment(device: NetwatchDevice): string {
+  return device.id ? stampNetwatchComment(device.id, device.name) : device.name
 }
 
 /**
- * Find netwatch entry by IP address
+ * RouterOS .id of the entry created by /tool/netwatch/add (returned as "ret")
  */
-async function findNetwatchByIP(api: RouterOSAPI, ip: string): Promise<any | null> {
-  try {
-    const netwatchData = await api.write('/tool/netwatch/print')
-    
-    if (!Array.isArray(netwatchData)) {
-      return null
-    }
-    
-    // Find entry with matching IP
-    const entry = netwatchData.find((item: any) => item.host === ip)
-    return entry || null
-  } catch (error) {
-    console.error('Error finding netwatch entry:', error)
-    return null
-  }
+export function netwatchEntryIdOf(response: unknown): string | null {
+  const [result] = Array.isArray(response) ? response : []
+  return typeof result?.ret === 'string' ? result.ret : null
 }
 
 /**
- * Update netwatch entry (more efficient than delete+add)
+ * Build the /tool/netwatch/add and /set parameters for a device
+ *
+ * RouterOS 6 has no type parameter, so ICMP probes only send it when the
+ * router is known to support it (the existing entry reports a type).
+ *
+ * @param device - Device with its netwatch configuration
+ * @param sendIcmpType - Send type=icmp explicitly (switching an entry back to ICMP)
  */
-async function updateNetwatchEntry(
-  api: RouterOSAPI,
-  entryId: string,
-  device: Device
-): Promise<void> {
+export function buildNetwatchParams(device: NetwatchDevice, sendIcmpType: boolean = false): string[] {
+  const type = device.netwatchType || DEFAULT_NETWATCH_TYPE
+
   const params = [
-    `=.id=${entryId}`,
     `=host=${device.ip}`,
-    `=comment=${device.name}`, // Use device name as comment
+    `=comment=${netwatchComment(device)}`, // Device name behind the ownership marker
     `=timeout=${device.netwatchTimeout}ms`,
     `=interval=${device.netwatchInterval}s`
   ]
 
+  if (type !== DEFAULT_NETWATCH_TYPE || sendIcmpType) {
+    params.push(`=type=${type}`)
+  }
+
+  // Type-specific probe settings
+  if ((type === 'tcp-conn' || type === 'http-get') && device.netwatchPort) {
+    params.push(`=port=${device.netwatchPort}`)
+  }
+  if (type === 'http-get' && device.netwatchHttpCode) {
+    params.push(`=http-codes=${device.netwatchHttpCode}`)
+  }
+  if (type === 'dns' && device.netwatchDnsName) {
+    params.push(`=dns-name=${device.netwatchDnsName}`)
+  }
+
   // Add optional scripts
-  if (device.netwatchUpScript) {
+  if (device.netwatchUpScript && device.netwatchUpScript.trim()) {
     params.push(`=up-script=${device.netwatchUpScript}`)
   }
-  if (device.netwatchDownScript) {
+  if (device.netwatchDownScript && device.netwatchDownScript.trim()) {
     params.push(`=down-script=${device.netwatchDownScript}`)
   }
 
-  await api.write('/tool/netwatch/set', params)
+  return params
 }
 
 /**
- * Add new netwatch entry
+ * Scripts the dashboard has cleared must be cleared on the router as well -
+ * buildNetwatchParams leaves empty scripts out, so /set would keep the old ones
+ *
+ * @param entry - The router's entry; only scripts it still has are cleared
  */
-async function addNetwatchEntry(api: RouterOSAPI, device: Device): Promise<void> {
-  const params = [
-    `=host=${device.ip}`,
-    `=comment=${device.name}`, // Use device name as comment
-    `=timeout=${device.netwatchTimeout}ms`,
-    `=interval=${device.netwatchInterval}s`
+export function clearedScriptParams(device: NetwatchDevice, entry: any): string[] {
+  const hasScript = (value: unknown) => typeof value === 'string' && value.trim() !== ''
+
+  return [
+    ...(!hasScript(device.netwatchUpScript) && hasScript(entry['up-script']) ? ['=up-script='] : []),
+    ...(!hasScript(device.netwatchDownScript) && hasScript(entry['down-script']) ? ['=down-script='] : [])
   ]
+}
 
-  // Add optional scripts
-  if (device.netwatchUpScript) {
-    params.push(`=up-script=${device.netwatchUpScript}`)
+/**
+ * The router's whole netwatch table
+ * Not filtered by host - an entry whose host was edited on the router is found by its marker
+ *
+ * Read errors are thrown: an empty table would turn every update into a
+ * duplicate add, so the sync fails and is retried instead.
+ */
+async function printNetwatchEntries(api: RouterOSAPI): Promise<any[]> {
+  const netwatchData = await api.write('/tool/netwatch/print')
+  return Array.isArray(netwatchData) ? netwatchData : []
+}
+
+/**
+ * Update netwatch entry (more efficient than delete+add)
+ * @returns The entry's RouterOS .id
+ */
+async function updateNetwatchEntry(
+  api: RouterOSAPI,
+  entry: any,
+  device: NetwatchDevice
+): Promise<string> {
+  await api.write('/tool/netwatch/set', [
+    `=.id=${entry['.id']}`,
+    ...buildNetwatchParams(device, entry.type !== undefined),
+    ...clearedScriptParams(device, entry)
+  ])
+  return entry['.id']
+}
+
+/**
+ * Add new netwatch entry
+ * @returns The new entry's RouterOS .id, when the router reports it
+ */
+async function addNetwatchEntry(api: RouterOSAPI, device: NetwatchDevice): Promise<string | null> {
+  return netwatchEntryIdOf(await api.write('/tool/netwatch/add', buildNetwatchParams(device)))
+}
+
+/**
+ * Remember the RouterOS .id of entries that were added or moved
+ */
+async function recordEntryIds(
+  device: Device,
+  mainEntryId: string | null,
+  probeEntryIds: Map<string, string | null>
+): Promise<void> {
+  if (mainEntryId && mainEntryId !== device.netwatchEntryId) {
+    await prisma.device.update({ where: { id: device.id }, data: { netwatchEntryId: mainEntryId } })
   }
-  if (device.netwatchDownScript) {
-    params.push(`=down-script=${device.netwatchDownScript}`)
+
+  for (const probe of device.probes ?? []) {
+    const entryId = probeEntryIds.get(probe.id)
+    if (entryId && entryId !== probe.entryId) {
+      await prisma.probe.update({ where: { id: probe.id }, data: { entryId } })
+    }
   }
+}
 
-  await api.write('/tool/netwatch/add', params)
+/**
+ * Netwatch configuration of an extra probe on the device's host
+ * The probe name is appended to the comment to tell the entries apart on the router
+ */
+export function probeToNetwatchDevice(device: NetwatchDevice, probe: ProbeRecord): NetwatchDevice {
+  return {
+    id: probe.id,
+    name: `${device.name} - ${probe.name}`,
+    ip: device.ip,
+    ...toNetwatchSettings(probe),
+    netwatchTimeout: probe.timeout,
+    netwatchInterval: probe.interval
+  }
 }
 
 /**
  * Sync device to MikroTik netwatch
  * 
  * This function will:
- * 1. Try to find existing netwatch entry by OLD IP
- * 2. If found, UPDATE the entry (efficient!)
- * 3. If not found, ADD new entry
+ * 1. Find the device's netwatch entries by marker / recorded .id (or by OLD IP for unmarked entries)
+ * 2. If found, UPDATE the entries (efficient!)
+ * 3. If not found, ADD new entries
+ * 
+ * Extra probes (device.probes) are synced along with the device's own entry.
+ * Written entries carry the ownership marker and their .id is recorded.
  * 
  * @param device - Device to sync
  * @param oldIP - Previous IP address (if IP changed)
+ * @param preview - Dry run: collect the write commands here instead of sending them
  * @returns Success status and message
  */
 export async function syncDeviceToMikroTik(
   device: Device,
-  oldIP?: string
+  oldIP?: string,
+  preview?: RouterOSCommand[]
 ): Promise<{ success: boolean; message: string }> {
-  let api: RouterOSAPI | null = null
-
   try {
-    const config = getMikroTikConfig()
-    
-    api = new RouterOSAPI({
-      host: config.host,
-      user: config.user,
-      password: config.password,
-      port: config.port,
-      timeout: 10
-    })
+    const config = await resolveRouterOSConfig(device.routerId)
+    const probes = device.probes ?? []
 
-    await api.connect()
+    return await withRouterOS(config, async (session) => {
+      const api = withDryRun(session, preview, config.routerName)
+      // If IP changed, unmarked entries are still found by the old IP
+      const searchIP = oldIP || device.ip
+      const entries = await printNetwatchEntries(api)
+      const { mainEntry, probeEntries } = matchDeviceProbes(entries, { ...device, ip: searchIP, probes })
+      const probeEntryIds = new Map<string, string | null>()
+      const record = (mainEntryId: string | null) => preview ? undefined : recordEntryIds(device, mainEntryId, probeEntryIds)
 
-    // If IP changed, find entry by old IP
-    const searchIP = oldIP || device.ip
-    const existingEntry = await findNetwatchByIP(api, searchIP)
+      for (const probe of probes) {
+        const probeEntry = probeEntries.get(probe.id)
 
-    if (existingEntry && existingEntry['.id']) {
-      // UPDATE existing entry (efficient!)
-      await updateNetwatchEntry(api, existingEntry['.id'], device)
-      await api.close()
-      
-      return {
-        success: true,
-        message: oldIP 
-          ? `Netwatch entry updated (IP changed: ${oldIP} → ${device.ip})`
-          : 'Netwatch entry updated'
+        if (probeEntry && probeEntry['.id']) {
+          probeEntryIds.set(probe.id, await updateNetwatchEntry(api, probeEntry, probeToNetwatchDevice(device, probe)))
+        } else {
+          probeEntryIds.set(probe.id, await addNetwatchEntry(api, probeToNetwatchDevice(device, probe)))
+        }
+      }
+
+      const probeNote = probes.length > 0 ? ` with ${probes.length} extra probe(s)` : ''
+
+      if (mainEntry && mainEntry['.id']) {
+        // UPDATE existing entry (efficient!)
+        await record(await updateNetwatchEntry(api, mainEntry, device))
+
+        return {
+          success: true,
+          message: oldIP 
+            ? `Netwatch entry updated${probeNote} (IP changed: ${oldIP} → ${device.ip})`
+            : `Netwatch entry updated${probeNote}`
+        }
       }
-    } else {
+
       // ADD new entry
-      await addNetwatchEntry(api, device)
-      await api.close()
-      
+      await record(await addNetwatchEntry(api, device))
+
       return {
         success: true,
-        message: 'Netwatch entry added'
+        message: `Netwatch entry added${probeNote}`
       }
-    }
+    })
   } catch (error: any) {
     console.error('Error syncing to MikroTik:', error)
-    
-    if (api) {
-      try {
-        await api.close()
-      } catch (closeError) {
-        console.error('Error closing MikroTik connection:', closeError)
-      }
-    }
 
     return {
       success: false,
@@ -183,52 +257,129 @@ export async function syncDeviceToMikroTik(
 }
 
 /**
- * Remove netwatch entry by IP
+ * Sync one extra probe of a device to MikroTik netwatch
+ * 
+ * @param device - Device the probe belongs to
+ * @param probe - Probe to add or update
+ * @param previous - Type settings before an edit, to find the entry to update
+ * @param preview - Dry run: collect the write commands here instead of sending them
  */
-export async function removeNetwatchEntry(ip: string): Promise<{ success: boolean; message: string }> {
-  let api: RouterOSAPI | null = null
+export async function syncProbeToMikroTik(
+  device: Device,
+  probe: ProbeRecord,
+  previous?: ProbeSettings,
+  preview?: RouterOSCommand[]
+): Promise<{ success: boolean; message: string }> {
+  try {
+    const config = await resolveRouterOSConfig(device.routerId)
 
+    return await withRouterOS(config, async (session) => {
+      const api = withDryRun(session, preview, config.routerName)
+      const entries = await printNetwatchEntries(api)
+      const { probeEntries } = matchDeviceProbes(entries, {
+        ip: device.ip,
+        probes: [{ ...probe, ...(previous ?? {}) }]
+      })
+      const existingEntry = probeEntries.get(probe.id)
+      const record = (entryId: string | null) => preview
+        ? undefined
+        : recordEntryIds({ ...device, probes: [probe] }, null, new Map([[probe.id, entryId]]))
+
+      if (existingEntry && existingEntry['.id']) {
+        await record(await updateNetwatchEntry(api, existingEntry, probeToNetwatchDevice(device, probe)))
+        return { success: true, message: 'Netwatch probe updated' }
+      }
+
+      await record(await addNetwatchEntry(api, probeToNetwatchDevice(device, probe)))
+      return { success: true, message: 'Netwatch probe added' }
+    })
+  } catch (error: any) {
+    console.error('Error syncing probe to MikroTik:', error)
+
+    return {
+      success: false,
+      message: error.message || 'Failed to sync probe to MikroTik'
+    }
+  }
+}
+
+/**
+ * Remove the netwatch entry of one extra probe
+ * 
+ * @param device - Device the probe belongs to
+ * @param probe - Probe whose entry is removed
+ * @param preview - Dry run: collect the write commands here instead of sending them
+ */
+export async function removeProbeFromMikroTik(
+  device: Device,
+  probe: ProbeRecord,
+  preview?: RouterOSCommand[]
+): Promise<{ success: boolean; message: string }> {
   try {
-    const config = getMikroTikConfig()
-    
-    api = new RouterOSAPI({
-      host: config.host,
-      user: config.user,
-      password: config.password,
-      port: config.port,
-      timeout: 10
+    const config = await resolveRouterOSConfig(device.routerId)
+
+    return await withRouterOS(config, async (session) => {
+      const api = withDryRun(session, preview, config.routerName)
+      const entries = await printNetwatchEntries(api)
+      const { probeEntries } = matchDeviceProbes(entries, { ip: device.ip, probes: [probe] })
+      const existingEntry = probeEntries.get(probe.id)
+
+      if (existingEntry && existingEntry['.id']) {
+        await api.write('/tool/netwatch/remove', [`=.id=${existingEntry['.id']}`])
+        return { success: true, message: 'Netwatch probe removed' }
+      }
+
+      return { success: false, message: 'Netwatch probe not found' }
     })
+  } catch (error: any) {
+    console.error('Error removing netwatch probe:', error)
 
-    await api.connect()
+    return {
+      success: false,
+      message: error.message || 'Failed to remove netwatch probe'
+    }
+  }
+}
 
-    const existingEntry = await findNetwatchByIP(api, ip)
+/**
+ * Remove the netwatch entries of a device (its own entry and its extra probes)
+ * Hand-made entries on the same host are left alone
+ * 
+ * @param device - Device as it was bound to the router
+ * @param routerId - Router that holds the entries (falls back to the default connection)
+ * @param preview - Dry run: collect the write commands here instead of sending them
+ */
+export async function removeNetwatchEntry(
+  device: Device,
+  routerId?: string | null,
+  preview?: RouterOSCommand[]
+): Promise<{ success: boolean; message: string }> {
+  try {
+    const config = await resolveRouterOSConfig(routerId)
 
-    if (existingEntry && existingEntry['.id']) {
-      await api.write('/tool/netwatch/remove', [`=.id=${existingEntry['.id']}`])
-      await api.close()
-      
-      return {
-        success: true,
-        message: 'Netwatch entry removed'
+    return await withRouterOS(config, async (session) => {
+      const api = withDryRun(session, preview, config.routerName)
+      const { mainEntry, probeEntries } = matchDeviceProbes(await printNetwatchEntries(api), device)
+      const entries = [mainEntry, ...Array.from(probeEntries.values())].filter(entry => entry && entry['.id'])
+
+      for (const entry of entries) {
+        await api.write('/tool/netwatch/remove', [`=.id=${entry['.id']}`])
       }
-    } else {
-      await api.close()
-      
+
+      if (entries.length > 0) {
+        return {
+          success: true,
+          message: entries.length === 1 ? 'Netwatch entry removed' : `${entries.length} netwatch entries removed`
+        }
+      }
+
       return {
         success: false,
         message: 'Netwatch entry not found'
       }
-    }
+    })
   } catch (error: any) {
     console.error('Error removing netwatch entry:', error)
-    
-    if (api) {
-      try {
-        await api.close()
-      } catch (closeError) {
-        console.error('Error closing MikroTik connection:', closeError)
-      }
-    }
 
     return {
       success: false,
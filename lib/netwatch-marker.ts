@@ -0,0 +1,33 @@
+/**
+ * Netwatch Ownership Marker
+ *
+ * Entries written by the dashboard carry the ID of the device or probe they
+ * belong to as a comment prefix, e.g. "[nw:clx3k2...] Core Switch". Matching
+ * on the marker keeps the link when the host or comment is edited on the
+ * router, and tells dashboard-managed entries apart from hand-made ones.
+ *
+ * Kept free of server imports so the import view can strip the marker too.
+ */
+
+const MARKER_PATTERN = /^\[nw:([A-Za-z0-9_-]+)\]\s*/
+
+/**
+ * Comment for an entry owned by a device or probe
+ */
+export function stampNetwatchComment(ownerId: string, name: string): string {
+  return `[nw:${ownerId}] ${name}`
+}
+
+/**
+ * Owner ID and display name of a netwatch comment
+ *
+ * @returns ownerId null for entries the dashboard didn't write (or legacy ones)
+ */
+export function parseNetwatchComment(comment: unknown): { ownerId: string | null; name: string } {
+  const text = typeof comment === 'string' ? comment.trim() : ''
+  const match = text.match(MARKER_PATTERN)
+
+  return match
+    ? { ownerId: match[1], name: text.slice(match[0].length) }
+    : { ownerId: null, name: text }
+}
@@ -0,0 +1,199 @@
+/**
+ * Netwatch Probe Types
+ *
+ * RouterOS 7 netwatch can check more than ICMP reachability: a TCP connect to a
+ * port (CCTV RTSP, SSH), an HTTP GET with an expected status code (printer web
+ * pages) or a DNS lookup of a record name (DNS servers). The device's host is
+ * always the probed address; the fields below only apply to their own type.
+ *
+ * Kept free of server imports so the device forms can use the type list.
+ */
+
+export const NETWATCH_TYPES = ['icmp', 'tcp-conn', 'http-get', 'dns'] as const
+
+export type NetwatchType = typeof NETWATCH_TYPES[number]
+
+export const NETWATCH_TYPE_LABELS: Record<NetwatchType, string> = {
+  icmp: 'ICMP ping',
+  'tcp-conn': 'TCP port',
+  'http-get': 'HTTP GET',
+  dns: 'DNS lookup'
+}
+
+export const DEFAULT_NETWATCH_TYPE: NetwatchType = 'icmp'
+export const DEFAULT_HTTP_PORT = 80
+export const DEFAULT_HTTP_CODE = 200
+
+export interface NetwatchProbe {
+  netwatchType: NetwatchType
+  netwatchPort: number | null
+  netwatchHttpCode: number | null
+  netwatchDnsName: string | null
+}
+
+export interface NetwatchProbeInput {
+  netwatchType?: unknown
+  netwatchPort?: unknown
+  netwatchHttpCode?: unknown
+  netwatchDnsName?: unknown
+}
+
+const DNS_NAME_REGEX = /^(?=.{1,253}$)[a-zA-Z0-9_]([a-zA-Z0-9_-]{0,62})(\.[a-zA-Z0-9_]([a-zA-Z0-9_-]{0,62}))*\.?$/
+
+/**
+ * Validate if a string is a supported netwatch probe type
+ */
+export function isValidNetwatchType(type: unknown): type is NetwatchType {
+  return NETWATCH_TYPES.includes(type as NetwatchType)
+}
+
+/**
+ * Whether the probe type takes a port
+ */
+export function netwatchTypeUsesPort(type: string): boolean {
+  return type === 'tcp-conn' || type === 'http-get'
+}
+
+function toOptionalNumber(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') {
+    return null
+  }
+  return Number(value)
+}
+
+function toOptionalString(value: unknown): string | null {
+  return typeof value === 'string' && value.trim() ? value.trim() : null
+}
+
+/**
+ * Validate probe settings from a create/update payload
+ *
+ * A missing type means ICMP, which needs no other field.
+ *
+ * @returns Error message or null when valid
+ */
+export function validateNetwatchProbe(input: NetwatchProbeInput): string | null {
+  const type = input.netwatchType ?? DEFAULT_NETWATCH_TYPE
+
+  if (!isValidNetwatchType(type)) {
+    return `Netwatch type must be one of: ${NETWATCH_TYPES.join(', ')}`
+  }
+
+  if (netwatchTypeUsesPort(type)) {
+    const port = toOptionalNumber(input.netwatchPort)
+
+    if (port === null && type === 'tcp-conn') {
+      return 'A port is required for TCP netwatch probes'
+    }
+    if (port !== null && (!Number.isInteger(port) || port < 1 || port > 65535)) {
+      return 'Netwatch port must be a whole number between 1 and 65535'
+    }
+  }
+
+  if (type === 'http-get') {
+    const code = toOptionalNumber(input.netwatchHttpCode)
+
+    if (code !== null && (!Number.isInteger(code) || code < 100 || code > 599)) {
+      return 'Expected HTTP code must be between 100 and 599'
+    }
+  }
+
+  if (type === 'dns') {
+    const name = toOptionalString(input.netwatchDnsName)
+
+    if (!name) {
+      return 'A record name is required for DNS netwatch probes'
+    }
+    if (!DNS_NAME_REGEX.test(name)) {
+      return 'Invalid DNS record name'
+    }
+  }
+
+  return null
+}
+
+/**
+ * Probe columns for a validated payload
+ *
+ * Fields that don't belong to the type are cleared so a device switched back
+ * to ICMP doesn't keep a stale port; HTTP falls back to port 80 and code 200.
+ */
+export function toNetwatchProbe(input: NetwatchProbeInput): NetwatchProbe {
+  const netwatchType = isValidNetwatchType(input.netwatchType) ? input.netwatchType : DEFAULT_NETWATCH_TYPE
+  const port = toOptionalNumber(input.netwatchPort)
+
+  return {
+    netwatchType,
+    netwatchPort: netwatchTypeUsesPort(netwatchType)
+      ? port ?? (netwatchType === 'http-get' ? DEFAULT_HTTP_PORT : null)
+      : null,
+    netwatchHttpCode: netwatchType === 'http-get'
+      ? toOptionalNumber(input.netwatchHttpCode) ?? DEFAULT_HTTP_CODE
+      : null,
+    netwatchDnsName: netwatchType === 'dns' ? toOptionalString(input.netwatchDnsName) : null
+  }
+}
+
+/**
+ * Probe settings of a /tool/netwatch/print entry
+ *
+ * RouterOS 6 entries have no type and are ICMP; probe types this app doesn't
+ * manage (simple, https-get) are imported as ICMP as well.
+ */
+export function parseNetwatchProbe(entry: Record<string, unknown>): NetwatchProbe {
+  const codes = typeof entry['http-codes'] === 'string' ? entry['http-codes'].split(',')[0] : undefined
+
+  return toNetwatchProbe({
+    netwatchType: entry.type,
+    netwatchPort: typeof entry.port === 'string' ? parseInt(entry.port) || null : null,
+    netwatchHttpCode: codes ? parseInt(codes) || null : null,
+    netwatchDnsName: entry['dns-name']
+  })
+}
+
+/**
+ * Whether a /tool/netwatch/print entry runs the given probe
+ *
+ * Several probes can watch the same host, so entries are told apart by type
+ * and the type's target (port or record name) - not by host alone.
+ */
+export function matchesNetwatchProbe(
+  entry: Record<string, unknown>,
+  host: string,
+  probe: { netwatchType?: string | null; netwatchPort?: number | null; netwatchDnsName?: string | null }
+): boolean {
+  if (entry.host !== host) {
+    return false
+  }
+
+  const expected = toNetwatchProbe(probe)
+  const actual = parseNetwatchProbe(entry)
+
+  return actual.netwatchType === expected.netwatchType &&
+    actual.netwatchPort === expected.netwatchPort &&
+    (actual.netwatchDnsName ?? '').toLowerCase() === (expected.netwatchDnsName ?? '').toLowerCase()
+}
+
+/**
+ * Short description of a probe for lists ("TCP port 554", "DNS lookup example.com")
+ */
+export function describeNetwatchProbe(probe: {
+  netwatchType?: string | null
+  netwatchPort?: number | null
+  netwatchHttpCode?: number | null
+  netwatchDnsName?: string | null
+}): string {
+  const type = isValidNetwatchType(probe.netwatchType) ? probe.netwatchType : DEFAULT_NETWATCH_TYPE
+  const label = NETWATCH_TYPE_LABELS[type]
+
+  if (type === 'tcp-conn' && probe.netwatchPort) {
+    return `${label} ${probe.netwatchPort}`
+  }
+  if (type === 'http-get') {
+    return `${label} :${probe.netwatchPort ?? DEFAULT_HTTP_PORT} → ${probe.netwatchHttpCode ?? DEFAULT_HTTP_CODE}`
+  }
+  if (type === 'dns' && probe.netwatchDnsName) {
+    return `${label} ${probe.netwatchDnsName}`
+  }
+  return label
+}
@@ -0,0 +1,699 @@
+/**
+ * Netwatch Reconciliation
+ *
+ * Import (/api/mikrotik/sync-devices) only adds hosts the dashboard doesn't know
+ * and push (/api/devices/sync-to-mikrotik) only sends devices flagged needsSync,
+ * so entries edited in WinBox, removed on the router or never imported go
+ * unnoticed. Reconciliation compares a router's netwatch table with the devices
+ * and extra probes bound to it, field by field:
+ *
+ * - in-sync: both sides agree
+ * - drift:   the entry differs (comment, probe, timeout, interval, scripts)
+ * - missing: the dashboard has a device/probe without an entry on the router
+ * - orphan:  the router has an entry no dashboard device claims
+ *
+ * Entries are matched by their ownership marker (see netwatch-marker), so an
+ * entry whose host was edited on the router shows up as host drift. Unmarked
+ * entries are matched by host and show comment drift until pushed; an entry
+ * that can't be matched at all shows up as an orphan, and linking it to a
+ * missing device writes the device's settings (and marker) onto it.
+ *
+ * A daily drift report runs the comparison for every router, stores the result
+ * as a DriftReport and emails it when there is something to report.
+ */
+
+import { RouterOSAPI } from 'node-routeros'
+import { prisma } from '@/lib/prisma'
+import { resolveRouterOSConfig, withRouterOS } from '@/lib/routeros-connection'
+import {
+  buildNetwatchParams,
+  clearedScriptParams,
+  netwatchComment,
+  netwatchEntryIdOf,
+  NetwatchDevice,
+  probeToNetwatchDevice
+} from '@/lib/mikrotik-sync'
+import { parseNetwatchComment, stampNetwatchComment } from '@/lib/netwatch-marker'
+import { DRY_RUN_NEW_ID, RouterOSCommand, withDryRun } from '@/lib/routeros-dry-run'
+import { describeNetwatchProbe, parseNetwatchProbe } from '@/lib/netwatch-probes'
+import {
+  MAX_PROBES_PER_DEVICE,
+  matchDeviceProbes,
+  probeFromNetwatchEntry,
+  ProbeRecord,
+  toNetwatchSettings,
+  toProbeData,
+  validateProbeInput
+} from '@/lib/device-probes'
+import { parseRouterOSDuration } from '@/lib/device-metrics'
+import { isValidIPv4 } from '@/lib/routers'
+import { startOfDay } from '@/lib/sla'
+import { parseRecipients } from '@/lib/scheduled-reports'
+import { createSmtpTransport, getSmtpSettings, SmtpConfigRecord } from '@/lib/smtp'
+
+export const DRIFT_FIELDS = ['host', 'comment', 'probe', 'timeout', 'interval', 'upScript', 'downScript'] as const
+
+export type DriftField = typeof DRIFT_FIELDS[number]
+
+export const DRIFT_FIELD_LABELS: Record<DriftField, string> = {
+  host: 'Host',
+  comment: 'Comment',
+  probe: 'Probe',
+  timeout: 'Timeout',
+  interval: 'Interval',
+  upScript: 'Up script',
+  downScript: 'Down script'
+}
+
+export const RECONCILE_ACTIONS = ['pull', 'push', 'delete', 'link'] as const
+
+export type ReconcileAction = typeof RECONCILE_ACTIONS[number]
+
+export type ReconcileKind = 'in-sync' | 'drift' | 'missing' | 'orphan'
+
+// What can be done about each kind of finding
+const KIND_ACTIONS: Record<ReconcileKind, ReconcileAction[]> = {
+  'in-sync': [],
+  drift: ['pull', 'push'],
+  missing: ['push', 'delete'],
+  orphan: ['pull', 'delete', 'link']
+}
+
+export interface FieldComparison {
+  field: DriftField
+  dashboard: string | null
+  router: string | null
+  differs: boolean
+}
+
+export interface ReconcileItem {
+  key: string
+  kind: ReconcileKind
+  deviceId: string | null
+  deviceName: string | null
+  probeId: string | null
+  probeName: string | null
+  entryId: string | null
+  managed: boolean // Entry carries the dashboard's ownership marker
+  fields: FieldComparison[]
+  actions: ReconcileAction[]
+}
+
+export interface ReconcileSummary {
+  inSync: number
+  drift: number
+  missing: number
+  orphans: number
+}
+
+export interface ReconcileDevice extends NetwatchDevice {
+  id: string
+  probes?: ProbeRecord[]
+}
+
+export interface ReconcileRequest {
+  action: ReconcileAction
+  deviceId?: string
+  probeId?: string
+  entryId?: string
+}
+
+type FieldValues = Record<DriftField, string>
+
+const trimmed = (value: unknown) => (typeof value === 'string' ? value.trim() : '')
+
+/**
+ * Netwatch fields the dashboard expects for a device or probe
+ */
+function dashboardFields(device: NetwatchDevice): FieldValues {
+  return {
+    host: device.ip,
+    comment: netwatchComment(device),
+    probe: describeNetwatchProbe(device),
+    timeout: `${device.netwatchTimeout}ms`,
+    interval: `${device.netwatchInterval}s`,
+    upScript: trimmed(device.netwatchUpScript),
+    downScript: trimmed(device.netwatchDownScript)
+  }
+}
+
+/**
+ * Netwatch fields of a /tool/netwatch/print entry, formatted like dashboardFields
+ */
+export function entryFields(entry: Record<string, unknown>): FieldValues {
+  const timeoutMs = parseRouterOSDuration(entry.timeout)
+  const intervalMs = parseRouterOSDuration(entry.interval)
+
+  return {
+    host: trimmed(entry.host),
+    comment: trimmed(entry.comment),
+    probe: describeNetwatchProbe(parseNetwatchProbe(entry)),
+    timeout: timeoutMs !== null ? `${Math.round(timeoutMs)}ms` : trimmed(entry.timeout),
+    interval: intervalMs !== null ? `${Math.round(intervalMs / 1000)}s` : trimmed(entry.interval),
+    upScript: trimmed(entry['up-script']),
+    downScript: trimmed(entry['down-script'])
+  }
+}
+
+function compareFields(dashboard: FieldValues | null, router: FieldValues | null): FieldComparison[] {
+  return DRIFT_FIELDS.map(field => ({
+    field,
+    dashboard: dashboard ? dashboard[field] : null,
+    router: router ? router[field] : null,
+    differs: dashboard !== null && router !== null && dashboard[field] !== router[field]
+  }))
+}
+
+function toItem(
+  key: string,
+  device: ReconcileDevice | null,
+  probe: ProbeRecord | null,
+  expected: NetwatchDevice | null,
+  entry: any | null
+): ReconcileItem {
+  const fields = compareFields(expected ? dashboardFields(expected) : null, entry ? entryFields(entry) : null)
+  const kind: ReconcileKind = !entry
+    ? 'missing'
+    : !expected
+      ? 'orphan'
+      : fields.some(field => field.differs) ? 'drift' : 'in-sync'
+
+  return {
+    key,
+    kind,
+    deviceId: device?.id ?? null,
+    deviceName: device?.name ?? null,
+    probeId: probe?.id ?? null,
+    probeName: probe?.name ?? null,
+    entryId: entry?.['.id'] ?? null,
+    managed: entry ? parseNetwatchComment(entry.comment).ownerId !== null : false,
+    fields,
+    actions: KIND_ACTIONS[kind]
+  }
+}
+
+/**
+ * Compare a router's netwatch entries with the devices bound to it
+ *
+ * @param entries - /tool/netwatch/print result
+ * @param devices - Devices of the router with their extra probes
+ * @returns One item per device, extra probe and unclaimed entry
+ */
+export function reconcileNetwatch(entries: any[], devices: ReconcileDevice[]): ReconcileItem[] {
+  const items: ReconcileItem[] = []
+  const claimed = new Set<any>()
+
+  for (const device of devices) {
+    const { mainEntry, probeEntries } = matchDeviceProbes(entries, device)
+
+    if (mainEntry) claimed.add(mainEntry)
+    items.push(toItem(device.id, device, null, device, mainEntry))
+
+    for (const probe of device.probes ?? []) {
+      const entry = probeEntries.get(probe.id) ?? null
+      if (entry) claimed.add(entry)
+      items.push(toItem(`${device.id}:${probe.id}`, device, probe, probeToNetwatchDevice(device, probe), entry))
+    }
+  }
+
+  entries
+    .filter(entry => !claimed.has(entry))
+    .forEach((entry, index) => items.push(toItem(`entry:${entry['.id'] ?? index}`, null, null, null, entry)))
+
+  return items
+}
+
+export function summarizeReconcile(items: ReconcileItem[]): ReconcileSummary {
+  return {
+    inSync: items.filter(item => item.kind === 'in-sync').length,
+    drift: items.filter(item => item.kind === 'drift').length,
+    missing: items.filter(item => item.kind === 'missing').length,
+    orphans: items.filter(item => item.kind === 'orphan').length
+  }
+}
+
+function loadRouterDevices(routerId: string) {
+  return prisma.device.findMany({
+    where: { routerId },
+    include: { probes: true },
+    orderBy: { name: 'asc' }
+  })
+}
+
+/**
+ * Compare the netwatch table of one router with the dashboard
+ *
+ * @throws Error when the router is missing, disabled or unreachable
+ */
+export async function reconcileRouter(routerId: string): Promise<{ items: ReconcileItem[]; summary: ReconcileSummary }> {
+  const config = await resolveRouterOSConfig(routerId)
+  const entries = await withRouterOS(config, (api) => api.write('/tool/netwatch/print'))
+  const devices = await loadRouterDevices(routerId)
+
+  const items = reconcileNetwatch(entries, devices)
+  return { items, summary: summarizeReconcile(items) }
+}
+
+/**
+ * Validate a reconcile action payload
+ *
+ * @returns Error message or null when valid
+ */
+export function validateReconcileRequest(body: any): string | null {
+  const { action, deviceId, probeId, entryId } = body
+
+  if (!RECONCILE_ACTIONS.includes(action)) {
+    return `Invalid action - must be one of ${RECONCILE_ACTIONS.join(', ')}`
+  }
+
+  for (const [name, value] of Object.entries({ deviceId, probeId, entryId })) {
+    if (value !== undefined && value !== null && typeof value !== 'string') {
+      return `Invalid ${name}`
+    }
+  }
+
+  if (action === 'link' && (!deviceId || !entryId)) {
+    return 'Linking needs both a device and a netwatch entry'
+  }
+
+  if (!deviceId && !entryId) {
+    return 'Please provide a device or a netwatch entry'
+  }
+
+  if (probeId && !deviceId) {
+    return 'Please provide the device of the probe'
+  }
+
+  return null
+}
+
+/**
+ * @returns RouterOS .id of the written entry
+ */
+async function writeEntry(api: RouterOSAPI, entry: any | null, device: NetwatchDevice): Promise<string | null> {
+  if (entry) {
+    await api.write('/tool/netwatch/set', [
+      `=.id=${entry['.id']}`,
+      ...buildNetwatchParams(device, entry.type !== undefined),
+      ...clearedScriptParams(device, entry)
+    ])
+    return entry['.id']
+  }
+
+  return netwatchEntryIdOf(await api.write('/tool/netwatch/add', buildNetwatchParams(device)))
+}
+
+/**
+ * Put the ownership marker on an entry whose values were taken over
+ */
+async function stampEntry(api: RouterOSAPI, entry: any, ownerId: string, name: string): Promise<void> {
+  await api.write('/tool/netwatch/set', [`=.id=${entry['.id']}`, `=comment=${stampNetwatchComment(ownerId, name)}`])
+}
+
+/**
+ * Remember which entry a device or probe was written to
+ */
+async function recordEntryId(deviceId: string, probeId: string | null, entryId: string | null): Promise<void> {
+  if (!entryId) return
+
+  if (probeId) {
+    await prisma.probe.update({ where: { id: probeId }, data: { entryId } })
+  } else {
+    await prisma.device.update({ where: { id: deviceId }, data: { netwatchEntryId: entryId } })
+  }
+}
+
+/**
+ * Device columns for a netwatch entry's timeout, interval and scripts
+ */
+function entrySettings(entry: any, fallback: { netwatchTimeout: number; netwatchInterval: number }) {
+  const timeoutMs = parseRouterOSDuration(entry.timeout)
+  const intervalMs = parseRouterOSDuration(entry.interval)
+
+  return {
+    ...parseNetwatchProbe(entry),
+    netwatchTimeout: timeoutMs !== null ? Math.round(timeoutMs) : fallback.netwatchTimeout,
+    netwatchInterval: intervalMs !== null ? Math.max(1, Math.round(intervalMs / 1000)) : fallback.netwatchInterval,
+    netwatchUpScript: trimmed(entry['up-script']) || null,
+    netwatchDownScript: trimmed(entry['down-script']) || null
+  }
+}
+
+type ActionResult = { success: boolean; message: string }
+
+/**
+ * Take over the router's values for a drifted device or probe
+ * A dry run only stamps the entry (on the recording session) and stores nothing
+ */
+async function pullDrift(
+  api: RouterOSAPI,
+  device: ReconcileDevice,
+  probe: ProbeRecord | null,
+  entry: any,
+  dryRun: boolean
+): Promise<ActionResult> {
+  if (probe) {
+    const input = probeFromNetwatchEntry(entry, device.name)
+    const others = [
+      toNetwatchSettings({ type: device.netwatchType ?? undefined, port: device.netwatchPort, dnsName: device.netwatchDnsName }),
+      ...(device.probes ?? []).filter(other => other.id !== probe.id).map(toNetwatchSettings)
+    ]
+    const error = validateProbeInput(input, others)
+    if (error) {
+      return { success: false, message: error }
+    }
+
+    const data = toProbeData(input)
+    if (!dryRun) {
+      await prisma.probe.update({ where: { id: probe.id }, data: { ...data, entryId: entry['.id'] } })
+    }
+    await stampEntry(api, entry, probe.id, `${device.name} - ${data.name}`)
+    return { success: true, message: `Probe "${probe.name}" updated from the router` }
+  }
+
+  const name = parseNetwatchComment(entry.comment).name || device.name
+  if (!dryRun) {
+    await prisma.device.update({
+      where: { id: device.id },
+      data: {
+        name,
+        ...entrySettings(entry, device),
+        netwatchEntryId: entry['.id'],
+        needsSync: false
+      }
+    })
+  }
+  await stampEntry(api, entry, device.id, name)
+  return { success: true, message: `${device.name} updated from the router` }
+}
+
+/**
+ * Adopt an orphan entry - as an extra probe when a device of the router owns
+ * the host, otherwise as a new device
+ */
+async function pullOrphan(
+  api: RouterOSAPI,
+  routerId: string,
+  devices: ReconcileDevice[],
+  entry: any,
+  dryRun: boolean
+): Promise<ActionResult> {
+  const host = trimmed(entry.host)
+  const owner = devices.find(device => device.ip === host)
+
+  if (owner) {
+    if ((owner.probes ?? []).length >= MAX_PROBES_PER_DEVICE) {
+      return { success: false, message: `${owner.name} already has ${MAX_PROBES_PER_DEVICE} extra probes` }
+    }
+
+    const input = probeFromNetwatchEntry(entry, owner.name)
+    const others = [
+      toNetwatchSettings({ type: owner.netwatchType ?? undefined, port: owner.netwatchPort, dnsName: owner.netwatchDnsName }),
+      ...(owner.probes ?? []).map(toNetwatchSettings)
+    ]
+    const error = validateProbeInput(input, others)
+    if (error) {
+      return { success: false, message: error }
+    }
+
+    const data = toProbeData(input)
+    const probe = dryRun
+      ? { id: DRY_RUN_NEW_ID }
+      : await prisma.probe.create({ data: { deviceId: owner.id, ...data, entryId: entry['.id'] } })
+    await stampEntry(api, entry, probe.id, `${owner.name} - ${data.name}`)
+    return { success: true, message: `Entry added as a probe of ${owner.name}` }
+  }
+
+  if (!isValidIPv4(host)) {
+    return { success: false, message: `Cannot import host "${host}" - only IPv4 addresses are supported` }
+  }
+
+  const existing = await prisma.device.findUnique({ where: { ip: host } })
+  if (existing) {
+    return { success: false, message: `${host} already belongs to ${existing.name} on another router` }
+  }
+
+  const name = parseNetwatchComment(entry.comment).name || host
+  const device = dryRun ? { id: DRY_RUN_NEW_ID } : await prisma.device.create({
+    data: {
+      name,
+      ip: host,
+      type: 'OTHER',
+      laneName: 'Imported',
+      routerId,
+      status: entry.status === 'up' || entry.status === 'down' ? entry.status : 'unknown',
+      statusSince: new Date(),
+      ...entrySettings(entry, { netwatchTimeout: 1000, netwatchInterval: 5 }),
+      netwatchEntryId: entry['.id'],
+      positionX: 0,
+      positionY: 0
+    }
+  })
+  await stampEntry(api, entry, device.id, name)
+  return { success: true, message: `${name} imported from the router` }
+}
+
+/**
+ * Resolve one reconciliation finding
+ *
+ * The router is compared again first, so an action on a stale view (the entry
+ * was fixed or removed meanwhile) is refused instead of applied blindly.
+ *
+ * @param routerId - Router whose netwatch table is reconciled
+ * @param request - Validated action (see validateReconcileRequest)
+ * @param preview - Dry run: collect the write commands here, store nothing
+ */
+export async function applyReconcileAction(
+  routerId: string,
+  request: ReconcileRequest,
+  preview?: RouterOSCommand[]
+): Promise<ActionResult> {
+  try {
+    const config = await resolveRouterOSConfig(routerId)
+
+    return await withRouterOS(config, async (session) => {
+      const api = withDryRun(session, preview, config.routerName)
+      const dryRun = preview !== undefined
+      const entries = await api.write('/tool/netwatch/print')
+      const devices = await loadRouterDevices(routerId)
+      const items = reconcileNetwatch(entries, devices)
+      const stale = { success: false, message: 'The comparison is out of date - reload and try again' }
+
+      const orphan = request.entryId
+        ? items.find(item => item.kind === 'orphan' && item.entryId === request.entryId)
+        : undefined
+      const target = request.deviceId
+        ? items.find(item => item.deviceId === request.deviceId && item.probeId === (request.probeId ?? null))
+        : undefined
+      const device = devices.find(candidate => candidate.id === request.deviceId)
+      const probe = device?.probes.find(candidate => candidate.id === request.probeId) ?? null
+
+      if (request.action === 'link') {
+        if (!orphan || !target || !device || target.probeId) return stale
+        if (target.kind !== 'missing') {
+          return { success: false, message: `${device.name} already has a netwatch entry` }
+        }
+
+        await writeEntry(api, entries.find((entry: any) => entry['.id'] === orphan.entryId), device)
+        if (!dryRun) {
+          await prisma.device.update({ where: { id: device.id }, data: { netwatchEntryId: orphan.entryId, needsSync: false } })
+        }
+        return { success: true, message: `Entry linked to ${device.name}` }
+      }
+
+      const item = request.deviceId ? target : orphan
+      if (!item) return stale
+      if (!item.actions.includes(request.action)) {
+        return { success: false, message: `Cannot ${request.action} an entry that is ${item.kind}` }
+      }
+
+      const entry = entries.find((candidate: any) => candidate['.id'] === item.entryId) ?? null
+
+      if (item.kind === 'orphan') {
+        if (request.action === 'delete') {
+          await api.write('/tool/netwatch/remove', [`=.id=${item.entryId}`])
+          return { success: true, message: 'Netwatch entry removed from the router' }
+        }
+        return pullOrphan(api, routerId, devices, entry, dryRun)
+      }
+
+      if (!device) return stale
+
+      if (request.action === 'push') {
+        const entryId = await writeEntry(api, entry, probe ? probeToNetwatchDevice(device, probe) : device)
+        if (dryRun) {
+          return { success: true, message: entry ? 'Netwatch entry would be updated' : 'Netwatch entry would be added' }
+        }
+
+        await recordEntryId(device.id, probe?.id ?? null, entryId)
+        if (!probe) {
+          await prisma.device.update({ where: { id: device.id }, data: { needsSync: false } })
+        }
+        return { success: true, message: entry ? 'Netwatch entry updated' : 'Netwatch entry added' }
+      }
+
+      if (request.action === 'delete') {
+        if (dryRun) {
+          return { success: true, message: 'Only the dashboard side is deleted - the router is not changed' }
+        }
+        if (probe) {
+          await prisma.probe.delete({ where: { id: probe.id } })
+          return { success: true, message: `Probe "${probe.name}" deleted` }
+        }
+        await prisma.device.delete({ where: { id: device.id } })
+        return { success: true, message: `${device.name} deleted` }
+      }
+
+      return pullDrift(api, device, probe, entry, dryRun)
+    })
+  } catch (error: any) {
+    console.error('Error reconciling netwatch:', error)
+
+    return {
+      success: false,
+      message: error.message || 'Failed to reconcile netwatch'
+    }
+  }
+}
+
+export interface RouterReconcileResult {
+  routerName: string
+  items?: ReconcileItem[]
+  error?: string
+}
+
+function describeItem(item: ReconcileItem): string {
+  const host = item.fields.find(field => field.field === 'host')
+  const label = item.deviceName
+    ? `${item.deviceName}${item.probeName ? ` / ${item.probeName}` : ''}`
+    : `"${item.fields.find(field => field.field === 'comment')?.router || 'no comment'}"`
+
+  return `${label} (${host?.dashboard ?? host?.router})`
+}
+
+/**
+ * Plain-text drift report - one section per router, in-sync entries left out
+ */
+export function renderDriftReport(results: RouterReconcileResult[], now: Date): string {
+  const lines = [`Netwatch drift report - ${now.toISOString().slice(0, 16).replace('T', ' ')} UTC`, '']
+
+  for (const result of results) {
+    if (!result.items) {
+      lines.push(`Router "${result.routerName}": not reachable - ${result.error}`, '')
+      continue
+    }
+
+    const summary = summarizeReconcile(result.items)
+    lines.push(`Router "${result.routerName}": ${summary.drift} drifted, ${summary.missing} missing, ${summary.orphans} orphan, ${summary.inSync} in sync`)
+
+    for (const item of result.items) {
+      if (item.kind === 'drift') {
+        const changes = item.fields
+          .filter(field => field.differs)
+          .map(field => `${DRIFT_FIELD_LABELS[field.field].toLowerCase()} "${field.dashboard}" -> "${field.router}"`)
+        lines.push(`  DRIFT    ${describeItem(item)}: ${changes.join('; ')}`)
+      } else if (item.kind === 'missing') {
+        lines.push(`  MISSING  ${describeItem(item)}: no netwatch entry on the router`)
+      } else if (item.kind === 'orphan') {
+        lines.push(`  ORPHAN   ${describeItem(item)}: not in the dashboard`)
+      }
+    }
+    lines.push('')
+  }
+
+  return lines.join('\n')
+}
+
+/**
+ * Compare every enabled router, store the report and email it when it found something
+ *
+ * @param config - SystemConfig with the SMTP settings and report recipients
+ */
+export async function generateDriftReport(
+  config: (SmtpConfigRecord & { driftReportRecipients: string }) | null,
+  now: Date = new Date()
+) {
+  const routers = await prisma.router.findMany({
+    where: { enabled: true },
+    orderBy: { name: 'asc' }
+  })
+
+  const results: RouterReconcileResult[] = []
+  for (const router of routers) {
+    try {
+      const { items } = await reconcileRouter(router.id)
+      results.push({ routerName: router.name, items })
+    } catch (error) {
+      // One unreachable router must not hide the findings of the others
+      results.push({ routerName: router.name, error: error instanceof Error ? error.message : String(error) })
+    }
+  }
+
+  const totals = summarizeReconcile(results.flatMap(result => result.items ?? []))
+  const failed = results.filter(result => !result.items).length
+  const content = renderDriftReport(results, now)
+
+  const recipients = parseRecipients(config?.driftReportRecipients ?? '')
+  const hasFindings = totals.drift + totals.missing + totals.orphans + failed > 0
+  let emailError: string | null = null
+
+  if (recipients.length > 0 && hasFindings) {
+    const smtp = getSmtpSettings(config)
+
+    if (!smtp) {
+      emailError = 'SMTP is not configured'
+    } else {
+      try {
+        await createSmtpTransport(smtp).sendMail({
+          from: smtp.from,
+          to: recipients.join(', '),
+          subject: `Netwatch drift: ${totals.drift} drifted, ${totals.missing} missing, ${totals.orphans} orphan`,
+          text: content
+        })
+      } catch (error) {
+        emailError = error instanceof Error ? error.message : String(error)
+      }
+    }
+  }
+
+  return prisma.driftReport.create({
+    data: {
+      routers: routers.length,
+      failed,
+      drift: totals.drift,
+      missing: totals.missing,
+      orphans: totals.orphans,
+      content,
+      emailedTo: recipients.length > 0 && hasFindings && !emailError ? recipients.join(', ') : null,
+      emailError
+    }
+  })
+}
+
+/**
+ * Generate today's drift report if it is enabled and has not run yet
+ *
+ * @returns Whether a report was generated
+ */
+export async function runDueDriftReport(now: Date = new Date()): Promise<boolean> {
+  const config = await prisma.systemConfig.findUnique({ where: { id: 1 } })
+
+  if (!config?.driftReportEnabled) {
+    return false
+  }
+
+  const existing = await prisma.driftReport.findFirst({
+    where: { createdAt: { gte: startOfDay(now) } },
+    select: { id: true }
+  })
+  if (existing) {
+    return false
+  }
+
+  const report = await generateDriftReport(config, now)
+  if (report.emailError) {
+    console.error(`Drift report generated but not emailed: ${report.emailError}`)
+  }
+
+  return true
+}
@@ -0,0 +1,14 @@
+/**
+ * IEEE MA-L (OUI) Registry
+ *
+ * Generated by scripts/update-oui-registry.ts on 2026-10-19 - do not edit,
+ * run `npm run oui:update` instead.
+ */
+
+export const OUI_REGISTRY_SIZE = 40010
+
+// Vendor names, sorted
+export const OUI_VENDORS: string[] = ["+plugg","01DB-METRAVIB","100fio networks technology","10NET COMMUNICATIONS/DCA","11wave Technonlogy","12Sided Technology","12mm Health Technology (Hainan)","1394 PRINTER WORKING GROUP","1394 Trade Association","16063","1Finity","1MORE","1Net","1Verge Internet Technology (Beijing)","2 Save Energy","2001 Technology","21168","2276427 Ontario","27M Technologies","29530","2C - Trifonov","2CRSI","2EI","2GIG Technologies","2M Electronic","2M2B Montadora de Maquinas Bahia Brasil LTDA","2N TELEKOMUNIKACE a.s","2Wire","2bps","2wcom Systems","2xWireless","3 Greens Aviation","3 Phoenix","30805","34ED LLC DBA Centegix","360 AI Technology","360 Fly","360 Systems","360SUN Digital Broadband","365mesh","3ALogics","3B SYSTEM","3COM","3COM EUROPE","3CX","3Com","3D Display Technologies","3D Imaging & Simulations","3D Systems Massachusetts","3DSP","3H TECHNOLOGY","3J Tech","3Leaf Networks","3M","3M Deutschland","3M Germany","3NOD MULTIMEDIA(SHENZHEN)","3PAR data","3S System Technology","3UP Systems","3Way Networks","3ality Digital Systems","3bumen.com","3e Technologies Int;","3isysnetworks","3onedata Technology","3pleplay Electronics Private","3soft","3view","3ware","4Access Communications","4DReplay","4G Systems GmbH & Co. KG","4IPNET","4NSYS","4P MOBILE DATA PROCESSING","4RF Communications","5VT Technologies,Taiwan","690885 Ontario","6WIND","6harmonics","70mai","77 Elektronika Kft","7HUGS LABS","7INOVA TECHNOLOGY","7signal Solutions","8 Ways Technology","802 Global","802automation","8086 Consultancy","8BITDO TECHNOLOGY HK","8D Technologies","8Devices","8Locations","8Mesh Networks","8X8","99IOT Shenzhen","9Solutions","@Track Communications","@pos.com","A & R Cambridge","A Beltrónica-Companhia de Comunicações, Lda","A Brand New World in Sweden","A PLUS INFO","A&D","A&D ENGINEERING","A&R TECH","A&T","A+V Link Technologies","A-FOUR TECH","A-First Technology","A-JIN TECHLINE","A-Kyung Motion","A-Link","A-Max Technology Macao Commercial Offshore","A-One","A-TEC Subsystem","A-TREND TECHNOLOGY","A-TRUST COMPUTER","A-Team Technology","A. Eberle GmbH & Co. KG","A. S. Thomas","A. W. Communication Systems","A.D.C","A.I. ANTITACCHEGGIO ITALIA","A.N. Solutions","A.O. Smith Water Products","A.T.N.R","A/S MYCRON","A10 Networks","A2","A2B Electronics","A2UICT","A3M","A4SP Technologies","A5TEK","A7 Engineering","AAC ELECTRONICS","AAE Systems","AAEON Technology","AAI","AAMP of America","AANetcom","AARTESYS","AATR","AB Regin","AB Sciex","ABB","ABB AB, Cewe-Control","ABB AS, Division Automation Products","ABB Australia","ABB Automation products","ABB Bomem","ABB Genway Xiamen Electrical Equipment","ABB Global Industries and Services Private","ABB INDUSTRIAL SYSTEMS","ABB Inc/Totalflow","ABB Oy / Medium Voltage Products","ABB Oy Drives","ABB POWER T&D","ABB Power Systems Power Generation","ABB Robotics","ABB SPA, ABB SACE DIV","ABB SpA - DIN Rail","ABB Switzerland","ABB Xiamen Low Voltage Equipment","ABB n.v. Power Quality Products","ABC(XiSheng) Electronics","ABE Elettronica","ABEKAS VIDEO SYSTEM","ABIT","ABIT COMPUTER","ABIsystems","ABK North America","ABL","ABL CANADA","ABLE COMMUNICATIONS","ABLER TECHNOLOGY","ABOUT COMPUTING","ABUS Security-Center GmbH & Co. KG","AC Electric Vehicles","AC Tech corporation DBA Advanced Digital","AC&T SYSTEM","ACA-Digital","ACACIA NETWORKS","ACARD Technology","ACC","ACCEL","ACCEL TECHNOLOGIES","ACCELERATED NETWORKS","ACCELL","ACCESS","ACCESS Systems Americas","ACCESSLAN COMMUNICATIONS","ACCLAIM COMMUNICATIONS","ACCM","ACCORD SYSTEMS","ACCORD VIDEO TELECOMMUNICATIONS","ACCTON TECHNOLOGY","ACCU-TIME SYSTEMS","ACE Antenna","ACE CAD Enterprise","ACER NETXUS","ACER PERIPHERALS","ACER TECHNOLOGIES","ACES","ACES Technology","ACETEL","ACIST Medical Systems","ACK Networks","ACKFIN NETWORKS","ACKSYS Communications & systems","ACL Airshop","ACM Systems","ACME LIGHTING","ACN ADVANCED COMMUNICATIONS","ACN Technologies","ACOGITO","ACOINFO TECHNOLOGY","ACOMA Medical Industry","ACOREL S.A.S","ACORN COMPUTERS","ACR","ACRES GAMING","ACRISON","ACROLOOP MOTION CONTROL","ACS Solutions France","ACS Solutions Switzerland","ACT","ACTEON Group","ACTIA","ACTIS COMPUTER","ACTIVA MULTIMEDIA","ACTIVE IMAGING","ACTIVE POWER","ACTIVIO","ACTP","ACTi","ACUCOMM","ACUITY IMAGING","ACUSON COMPUTED SONOGRAPHY","ACUTE COMMUNICATIONS","ACX","AD SYSTEMS","AD.EL","ADAM ELEKTRONIK LTD. ŞTI","ADAPTEC","ADAPTIVE SYSTEMS","ADASTRA SYSTEMS","ADATA Technology","ADB Broadband Italia","ADB Italia","ADC","ADC - Global Connectivity Solutions Division","ADC Automotive Distance Control System","ADC CODENOLL TECHNOLOGY","ADC Techonology","ADC Telecommunications","ADC-Elektronik","ADD-Engineering","ADDI-DATA","ADDO-Japan","ADDTRON TECHNOLOGY","ADDÉNERGIE TECHNOLOGIES","ADEC & Parter","ADEPT TECHNOLOGY","ADEUNIS RF","ADF Technologies","ADFweb.com","ADHOC TECHNOLOGIES","ADI Engineering","ADID","ADITEC","ADInstruments","ADL Embedded Solutions","ADLINK TECHNOLOGY","ADMTEK","ADNACOM","ADOBE SYSTEMS","ADOIR Digital Technology","ADOPT NETTECH PVT","ADRA SYSTEMS","ADS","ADS Technologies","ADSOFT","ADT Technology","ADTEC PRODUCTIONS","ADTECH","ADTEK System Science","ADV Security (S) Pte","ADVA Optical Networking","ADVALY SYSTEM","ADVAN","ADVANCE MICRO RESEARCH","ADVANCED COMPRESSION TECHNOLOGY","ADVANCED COMPUTER APPLICATIONS","ADVANCED COMPUTER COMM","ADVANCED COMPUTER SOLUTIONS","ADVANCED CONTROL SYSTEMS","ADVANCED DIGITAL TECHNOLOGY","ADVANCED FIBRE COMMUNICATIONS","ADVANCED HI-TECH","ADVANCED INFORMATION","ADVANCED INTEGRATION RESEARCH","ADVANCED LOGIC RESEARCH","ADVANCED MICRO DEVICES","ADVANCED PERIPHERALS TECHNOLOGIES","ADVANCED RF TECHNOLOGIES","ADVANCED SWITCHING COMMUNICATIONS","ADVANCED TECHNICAL SOLUTIONS","ADVANCED TECHNOLOGY LABS","ADVANCED TELECOMMUNICATIONS MODULES","ADVANCED-VISION TECHNOLGIES","ADVANET","ADVANSEE","ADVANTECH","ADVANTECH TECHNOLOGIES","ADVAS","ADigit Technologies","AE REFUsol","AEDLE","AEG Power Solutions","AEHR TEST SYSTEMS","AEON SYSTEMS","AEP Ticketing solutions","AERAS Networks","AEROCOMM","AERODEV","AERODISK","AEROFLEX LABORATORIES","AES","AES DATA","AES PRODATA","AES motomation","AESYS","AETA","AETA AUDIO SYSTEMS","AETEK","AETHRA TELECOMUNICAZIONI","AEV, spol. s r. o","AEWIN Technologies","AFAR Communications","AFE","AFE COMPUTERS","AFREEY","AFT Atlas Fahrzeugtechnik","AG Elektronik","AG-E","AGAiT Technology","AGFA","AGFA NDT","AGFEO GmbH & Co. KG","AGILE NETWORKS","AGILIS","AGM GROUP","AGOS","AGP Telecom","AGRANAT SYSTEMS","AHN","AI TECHNOLOGY","AICHI ELECTRIC","AIDC TECHNOLOGY (S) PTE","AIDIN ROBOTICS","AIDONIC","AIFA TECHNOLOGY","AIJI System","AIM","AIM Infrarotmodule","AIM SYSTEM","AIN Comm.Tech","AIO LCD PC BU / TPV","AIOI Systems","AIR802","AIRAYA","AIRSOUND","AIRTAME ApS","AIRTECH TECHNOLOGIES","AIRWAVE TECHNOLOGIES","AISIN","AIT Austrian Institute of Technology","AITECH SYSTEMS","AITelecom","AIWA","AIstone Global","AIxLink","AJA Video Systems","AJINEXTEK","AK-NORD EDV VERTRIEBSGES. mbH","AK-Systems","AKAI Professional M.I","AKATSUKI ELECTRIC MFG","AKCP","AKEBONO BRAKE INDUSTRY","AKELA","AKG Acoustics","AKITA ELECTRONICS SYSTEMS","AKUVOX (XIAMEN) NETWORKS","ALAMAR ELECTRONICS","ALANTRO COMMUNICATIONS","ALARIS MEDICAL SYSTEMS","ALAXALA Networks","ALBAHITH TECHNOLOGIES","ALBERTA MICROELECTRONIC CENTRE","ALCATEL - SEL","ALCATEL DATA NETWORKS","ALCATEL ITALIA","ALCATEL STC AUSTRALIA","ALCATEL TAISEL","ALCATEL-LUCENT","ALCATEL-LUCENT FRANCE - WTD","ALCEA","ALCOMA, spol. s r.o","ALCON TELECOMMUNICATIONS","ALCORN MCBRIDE","ALE International","ALERTON TECHNOLOGIES","ALFA","ALFA LAVAL AUTOMATION","ALFATECH","ALGORITHMICS","ALGORITHMS SOFTWARE PVT","ALGOSYSTEM","ALIDIAN NETWORKS","ALITEC","ALL BEST Industrial","ALL Winner (Hong Kong)","ALLGON","ALLIANT COMPUTER SYSTEMS","ALLIED SIGNAL","ALLIED TELESIS","ALLIED TELESIS INTERNATIONAL","ALLIED TELESYN INTERNAIONAL","ALLUMER","ALLWELL TECHNOLOGY","ALOHA NETWORKS","ALONG COMMUNICATION TECHNOLOGY","ALONG INDUSTRIAL","ALPHA PROJECT","ALPHA TECHNOLOGIES","ALPHA TELECOM","ALPHA-TOP","ALPS ELECTRIC (USA)","ALPSALPINE","ALS & TEC","ALSTOM HYDRO FRANCE","ALT","ALT Systems","ALTA RESEARCH","ALTA TECHNOLOGY","ALTEC LANSING","ALTECH","ALTEON NETWORKS","ALTIGA NETWORKS","ALTOGRAPHICS","ALTOS C&C","ALTOS COMPUTER SYSTEMS","ALTOS INDIA","ALTVATER AIRDATA SYSTEMS","ALWAYS ON TECH PTE","ALi","AM Communications","AM Telecom","AMADA","AMALGAMATED WIRELESS(AUS)","AMANO","AMAQUEST COMPUTER","AMATI COMMUNICATIONS","AMAZING CONTROLS!","AMB i.t. Holding","AMBER NETWORKS","AMBER WAVE SYSTEMS","AMBIT MICROSYSTEMS","AMCC","AMD","AMDAHL","AME Optimedia Technology","AMEC","AMERGINT Technologies","AMERICAN ARIUM","AMERICAN COMMUNICATION","AMERICAN MEGATRENDS","AMERICAN NETWORKS","AMERICAN POWER CONVERSION","AMERICAN TECHNOLOGY LABS","AMERISTAR TECHNOLOGIES","AMERITEC","AMETEK","AMG Systems","AMHERST SYSTEMS","AMICCOM Electronics","AMIGO TECHNOLOGY","AMIT","AMKLY SYSTEMS","AMOD Technology","AMOI ELECTRONICS","AMON","AMOSENSE","AMPAK Technology","AMPERE","AMPERE COMPUTING","AMPEX","AMPRO COMPUTERS","AMS NEVE","AMSC","AMTEC","AMiT spol. s. r. o","ANALOG & DIGITAL SYSTEMS","ANALOG DEVICES","ANALOG SYSTEMS","ANATEK","ANATOR","ANAVEO","ANCHOR GAMES","ANCOT","ANDA NETWORKS","ANDA TELECOM PVT","ANDES TECHNOLOGY","ANDOR SYSTEM SUPPORT","ANDOVER CONTROLS","ANDRA Sp. z o. o","ANDREAS STIHL AG & Co. KG","ANDRITZ HYDRO","ANDTEK","ANERMA","ANGIA COMMUNICATIONS","ANHUI WANZTEN P&T","ANI COMMUNICATIONS","ANITE TELECOMS","ANNAX Anzeigesysteme","ANNSO","ANOV FRANCE","ANOV France","ANOVO","ANRITSU","ANSA","ANSEL COMMUNICATIONS","ANTARA.net","ANTEC","ANTIPODE","ANTLOW COMMUNICATIONS","ANY Electronics","AO","AO GK NATEKS","AO PKK Milandr","AOBO Telecom","AOC International (Europe)","AOD","AOIP","AOS technologies","AOpen","AP Router Ind. Eletronica LTDA","APAC opto Electronics","APASS TECHNOLOGY","APATOR","APC by Schneider Electric","APCON","APD Communications","APEX COMPUTER","APEX DATA","APEXSHA SMARTTECH PRIVATE","APEXX TECHNOLOGY","API ENGINEERING","API MOTION","API-K","APISTE","APLIO","APLUX Communications","APOLLO","APOLLO COMPUTER","APPIAN COMMUNICATIONS","APPLICOM INTERNATIONAL","APPLICON","APPLIED AUTOMATION","APPLIED COMPUTING DEVICES","APPLIED CREATIVE TECHNOLOGY","APPLIED DIGITAL ACCESS","APPLIED DYNAMICS INTERNATIONAL","APPLIED INTELLIGENT SYSTEMS","APPLIED MICROSYSTEMS","APPLIED NETWORK TECHNOLOGY","APPLIED RESOURCES","APPLIED SIGNAL TECHNOLOGY","APPRO TECHNOLOGY","APR","APRESIA Systems","APRICOT COMPUTERS","APRIL","APRO MEDIA","APROTECH","APS Networks","APS systems/electronic","APT COMMUNICATIONS","APTEC COMPUTER SYSTEMS","APTIV SERVICES US","APTIX","APTOR PRODUITS DE COMM INDUST","AQ","AR Infotek","ARBIN INSTRUMENTS","ARBURG GmbH & Co KG","ARC Wireless","ARCH METER","ARCHE TECHNOLIGIES","ARCHEAN Technologies","ARCHIPEL","ARCHOS","ARCHTEK TELECOM","ARCO ELECTRONIC, CONTROL","ARCOM","ARDENT COMMUNICATIONS","ARDENT TECHNOLOGIES","ARDUINO","AREANEX COMMUNICATIONS","AREC","ARESCOM","AREVA NP","ARG Telecom","ARGO AI","ARGON NETWORKS","ARGOSY RESEARCH","ARIES Embedded","ARIES RESEARCH","ARIMA Communications","ARION Technology","ARIX","ARK INFOSOLUTIONS PVT","ARK Research","ARK TELECOMMUNICATIONS","ARLOTTO COMNET","ARM","ARMA","ARMITEL","ARN","ARNOS INSTRUMENTS & COMPUTER","ARO WELDING TECHNOLOGIES","ARQ Digital","ARRAY TECHNOLOGY","ART JAPAN","ART System","ART WARE Telecommunication","ARTDIO","ARTECHE GROUP","ARTEL COMMUNICATIONS","ARTJOY INTERNATIONAL","ARTRAY","ARUZE","ARVIDA Intelligent Electronics Technology","ARVOO Imaging Products","ARtem","ASA SYSTEMS","ASA-RT","ASACA","ASAHIKASEI TECHNOSYSTEM","ASANTE TECHNOLOGIES","ASB Technology","ASC X3 - INFORMATION TECHNOLOGY STANDARDS SECRETARIATS","ASCEND COMMUNICATIONS","ASCO Numatics","ASCO Power Technologies","ASCOM INFRASYS","ASCT","ASD Electronics","ASE Group Chung-Li","ASE Technologies, USA","ASEM","ASI Communications","ASIA ELECTRONICS","ASIMMPHONY TURKEY","ASIP Technologies","ASITA TECHNOLOGIES INT'L","ASITEQ","ASIX ELECTRONICS","ASIX Electronics","ASKEY COMPUTER","ASL Xiamen Technology","ASM Pacific Technology","ASMedia Technology","ASP","ASP COMPUTER PRODUCTS","ASPECT COMMUNICATIONS","ASPECT ELECTRONICS","ASR","ASR Microelectronics (Shanghai)","ASRock Incorporation","ASSA ABLOY","ASSA ABLOY CÔTE PICARDE","ASSA ABLOY Korea Co., Ltd Unilock","ASSA ABLOY Korea Co., Ltd iRevo","ASSMANN Electronic","ASSURED DIGITAL","AST COMPUTER","AST RESEARCH","ASTAK","ASTECH","ASTEL","ASTI India Private","ASTON ELECTRONIC DESIGNS","ASTON France","ASTRAL POINT","ASTRI","ASTRO Strobel Kommunikationssysteme","ASTRO TERRA","ASTRON","ASUSTek COMPUTER","ASWT Co., LTD. Taiwan Branch H.K","AT & T Laboratories - Cambridge","AT Sweden","AT&T","ATAN TECHNOLOGY","ATARI","ATAW","ATCOM Technology","ATECH SYSTEM","ATEK Products","ATEME","ATEN INTERNATIONAL","ATENIX E.E","ATEX","ATH system","ATHENA","ATHENIX","ATI Electronics(Shenzhen)","ATI Industrial Automation","ATI Technologies","ATLANTIC NETWORK SYSTEMS","ATLANTIX","ATLAS COPCO TOOLS","ATLS ALTEC","ATM COMPUTER","ATM FORUM","ATMOSPHERE NETWORKS","ATMedia","ATN International","ATO Technology","ATOCS (Shenzhen)","ATOL","ATOM tech","ATOMIC","ATOMWIDE","ATOP","ATOP TECHNOLOGIES","ATP Electronics","ATRALTECH","ATRON electronic","ATTO","ATTO Technology","ATW TECHNOLOGY","ATX","ATech elektronika d.o.o","AUDIO CODES","AUDIO MOBIL Elektronik","AUG Elektronik","AUGTEK","AUMA Riester GmbH & Co. KG","AUMOVIO Aftermarket","AUMOVIO Autonomous Mobility Germany","AUMOVIO Czech Republic s.r.o","AUMOVIO France S.A.S","AUMOVIO Germany","AUMOVIO Hungary Kft","AUMOVIO Systems","AUMOVIO Systems Romania","AUMOVIO Technologies Romania","AUO","AURCORE TECHNOLOGY","AURORA COMMUNICATIONS","AURORA TECHNOLOGIES","AUROTECH ultrasound","AUSPEX SYSTEMS","AUSTRON","AUTEC","AUTH-SERVERS","AUTOCOMPUTER","AUTOIT","AUTONICS","AUTOTELENET","AUTOTOTE","AUTOVISION","AUVITRAN","AV Digital","AV TECH","AVAL COMMUNICATIONS","AVAL DATA","AVALON IMAGING SYSTEMS","AVANU","AVAT Automation","AVATAR","AVC Technology (International)","AVECS Bergen","AVEX ELECTRONICS","AVG Advanced Technologies","AVI Systems","AVI-ON LABS","AVICI SYSTEMS","AVID TECHNOLOGY","AVIDIA Systems","AVILINKS","AVIO DIGITAL","AVIONITEK ISRAEL","AVIQTECH TECHNOLOGY","AVIRE Trading","AVISTEL","AVIX","AVL List","AVLAB Technology","AVM","AVM Audiovisuelles Marketing und Computersysteme","AVM ELECTRONICS PTE","AVOC Nishimura","AVOLITES","AVPro Global Hldgs","AVSystem sp. z o. o","AVT Audio Video Technologies","AVTrace Ltd.(China)","AVUTEC","AVerMedia Information","AWARE","AWCER","AWETA G&P","AWIND","AWare","AX Technologies","AXACORE","AXAN Networks","AXCENT Media","AXEL","AXELL","AXERRA Networks","AXIM Communications","AXIMUM PRODUITS ELECTRONIQUES","AXIOHM","AXIOM TECHNOLOGY","AXION TECHNOLOGIES","AXIe Consortium","AXON NETWORKS","AXPRO Technology","AXUS MICROSYSTEMS","AXXESSIT ASA","AZ-TECHNOLOGY","AZONIX","AZROAD TECHNOLOGY","AZS Technology","AZTEQ Mobile","AZURE TECHNOLOGIES","Aastra Telecom","Aava Mobile","Abatron","Abbey Systems","Abbott Diagnostics","Abbott Point of Care","Abeeway","Abelko Innovation","Abeona Networks","Aberdeen Test Center","Abicom International","Abietec","Abilis Systems SARL","Ability enterprise","Ablaze Systems","Ablelink Electronics","Ablerex Electronics","Abloomy","AboCom","Aboundi","AboveCable","Abrantix","Absolute Acoustics","Absolute Analysis","AbsoluteValue Systems","AcSiP","AcSiP Technology","Acacia Communications","Acbel Polytech","AcceLight Networks","Accedian Networks","Accel Semiconductor","AccelStor","Accelent Systems","Accelerated Concepts","Accelerated Memory Production","Accelight Technologies (Wuhan)","Accelink Technologies","Accella Technologies","Accense Technology","Accensus","Access Devices","Access Media","Accessia Technology","Acconet (PTE)","Accordance Systems","Accordion Networks","Accretech SBS","Accsense","Accton Technology","Accu-Sort Systems","AccuSpec Electronics","Accuenergy (CANADA)","Accupix","Accurate Techhnologies","Accusys","Accutech Ultrasystems","Accutome","Accutron Instruments","Ace Axis","Ace Technology","AceNet","AceNet Technology","Aceex","Acentic","Acer","Acer Computer(Shanghai)","Aclara Power-Line Systems","Aclara RF Systems","Aclima","Acme Packet","Acomz Networks","Acorp Electronics","Acoustic Stream","Acqis Technology","Acres Manufacturing","Acro Associates","Acro Telecom","Acromag","Acroname","Acronet","Acrosser Technology","Acrowave Systems","Act KDE","Actel","Actelis Networks","Acterna","Actia Automotive","Actifio","Actility","Actineon","Action Digital","Action Imaging Solutions","Action Star Enterprise","Action Target","Action Technology (SZ)","Actioncable","Actions Microelectronics","Actions Semiconductor Co.,Ltd.(Cayman Islands)","Actiontec Electronics","ActivNetworks","Active Brains","Active Control Technology","Active Silicon","Active Storage","Active Tchnology","Activetelco","Actlas","Actuality Systems","Acubit","Aculab","Acumen","Acurix Networks","Acuro Networks","Acutvista Innovation","Ad-Sol Nissin","Adachi-Syokai","Adafruit","Adam Communications Systems Int","Adamson Systems Engineering","Adanis","Adapcom","Adapt-IP","Adapt4","Adapteva","Adaptive Instruments","Adaptive Micro Systems","Adaptive Micro-Ware","Adaptive Recognition Hungary","Adaptive Spectrum and Signal Alignment (ASSIA)","Adaptive Wireless Solutions","Adaptix","Adaptrum","Adatis GmbH & Co. KG","Adax","Adaxys Solutions","Aday Technology","Adcon Telemetry","Add-On Technology","AddOn Computer","AddPac Technology","Addat s.r.o","Adder Technology","Additech","Addlogix","Addonics Technologies","Addrek Smart Solutions","Addvalue Communications Pte","Ademco Smart Homes Technology(Tianjin)","Adept Systems","Adept Telecom","Adero","Adesys","Adhoco","Adimos Systems","Aditya Infotech","Adler ELREHA","Adolf Tedsen GmbH & Co. KG","Adolf Thies Gmbh & Co. KG","Adonit","Adtec","Adtran","Adtranz Sweden","Adura Technologies","Adva Network Security","AdvanSys","Advance Security Electronics","Advance Sterilization Products","Advance Vision Electronics","Advance Wireless Technology","Advanced & Wise Technology","Advanced Automotive Antennas","Advanced Card Systems","Advanced Communications","Advanced Control Systems doo","Advanced Cybernetics Group","Advanced Design Technology","Advanced Digital Broadcast","Advanced Electronic Design","Advanced Energy","Advanced Illumination","Advanced Industrial Computer","Advanced Knowledge Associates","Advanced Micro Devices","Advanced Micro Peripherals","Advanced Mobile Telecom","Advanced Motion Controls","Advanced Network Devices (dba:AND)","Advanced PANMOBIL Systems GmbH & Co. KG","Advanced Photonics","Advanced Realtime Tracking","Advanced Relay","Advanced Scientific","Advanced Simulation Technology","Advanced Spectrum Technology","Advanced Systems","Advanced Technical Support","Advanced Technology & Systems","Advanced Telecommunication Technologies","Advanced Television Systems Committee","Advanced Video Communications","Advanced Wireless Dynamics S.L","Advanced-Connectek","Advansus","Advantage Century Telecommunication","Advantage Controls","Advantage Electronics","Advantage Pharmacy Services","Advantage Six","Advantech AMT","Advantech Czech","Advantech Technology (CHINA)","Advent Networks","Adventiq","Advidia","Aegate","Aeluros","Aeon Digital International","Aeonsemi","Aeris Elettronica","AeroConcierge","AeroVIronment (AV Inc)","Aeromaritime Systembau","Aeronix","Aerosat Avionics","Aeroscout","Aerospace new generation communications","Aerotech","Aerotelecom","Aetas Systems","Aetheris Technology (Shanghai)","Aetheros","Aevoe","Afco Systems","Afero","Affinegy","Affinity International","Affirmed Networks","Aftek Infosys","Ag Leader Technology","AgJunction","AgLogica Holdings","Agami Systems","Agapha Technology","Agat Soft","Agatel","Agere Systems","AgiTech Distribution Limited - Linki","Agile Communications","Agile Systems","Agile TV","AgileMesh","Agilecom Photonics Solutions Guangdong","Agilent Technologies","Aginode Germany","Agnigate Technologies Private","AhnLab","AiFamous（shenzhen）Technology","AiNET","AiVIS Co., Itd","AiZen Solutions","Aiconn Technology","Aidon","Aigentec Technology(Zhejiang)","Ailocom","AimValley","Aimore Acoustics Incorporation","Ainsworth Game Technology","Aipermon GmbH & Co. KG","Aiphone","Aipon Electronics","Aiptek International","Air Link Technology","Air Products and Chemicals","Air-Weigh","Air2App","Air2U","AirCUVE","AirDefense","AirDio Wireless","AirFiber","AirFlow Networks","AirLink Communications","AirLink WiFi Networking","AirLogic","AirLogic Systems","AirMagnet","AirNav Systems","AirPro Technology India Pvt","AirRunner Technologies","AirScape","AirSwitch","AirTies Wireless Networks","AirVast Technology","AirVine Scientific","Airak","Airbus Defence and Space Deutschland","AireSpider Networks","Airenetworks","Airgain","Airgo Networks","Airios","Airista Flow","Airo Wireless","Airocon","Airoha Technology","Airpo Networks Technology","Airpro Technology","Airsonics","Airspan","Airspan Communications","Airtech I&C","Airvana","Airvod","Airware","Airwire Technologies","Aisai Communication Technology","Aisino","Aitexin Technology","Aivres SYSTEMS","Aiwa","Aiware","Ajax Systems DMCC","Ajile Systems","Ajin Vision","Ajoho Enterprise","Akamai Technologies","Akamba","Akara Canada","Akenori PTE","Aker Subsea","Akib Systems Taiwan","Akimbi Systems","Akom Technology","Akorri","Aksys","Aksys Networks","Akyllor","Alacritech","Alacron","Alaris","Alarm.com","Alba Fiber Systems","Albatron Technology","Albedo Telecom SL","Albentia Systems","Albis Technologies","Albrecht Jung GmbH & Co. KG","Alcad SL","Alcatel Alenia Space Italia","Alcatel Bell Space N.V","Alcatel Canada","Alcatel DI","Alcatel Lucent","Alcatel Microelectronics","Alcatel North America","Alcatel-Lucent","Alcatel-Lucent Enterprise","Alcatel-Lucent IPD","Alcatel-Lucent Shanghai Bell","Alcatel-Lucent Telecom","Alcohol Monitoring Systems","Alcomp","Alcon Laboratories","Alec Sicherheitssysteme","Alektrona","Alentec & Orion","Alereon","Alert Metalguard ApS","Alertus Technologies","Alesis","Alexon","Alfa Instrumentos Eletronicos Ltda","Alfatron Electronics","Alflex","Alfred Kaercher GmbH &amp; Co KG","Alfred Mann Foundation","Alge-Timing","Algo Communication Products","Algolith","Algolware","Algorab","Algorithmix","Alibaba Cloud Computing","Alibaba cloud computing","Alien Green","Alien Technology","Alif Semiconductor","Aligera Equipamentos Digitais Ltda","Align Engineering","Alignment Engine","Alinco","Alinket Electronic Technology","Aliph dba Jawbone","AliphCom","Alistel","Alive Technologies","Aliwei Communications","Alkeria","All Components","All Earth Comércio de Eletrônicos LTDA","All Inspire Health","All-Win Tech","AllDSP GmbH & Co. KG","Allegro Networks","Alliant Networks","Allied Advanced Manufacturing Pte","Allied Data Technologies","Allied Telesis","Allied Telesis (Hong Kong)","Allied Telesis Labs","Allied Telesyn","Allied Vision Technologies","Allied Vision Technologies Canada","Allied-telesisK.K","Allis Communications","Allnet","Alloptic","Allot Communications","Alloy Computer Products (Australia)","Allradio","Alltec","Allwinner Technology","Allworx","Almitec Informática e Comércio","Aloys","Alpha Data Parallel Systems","Alpha Micro","Alpha Networks","Alpha Processor","Alpha Security Products","Alpha Technologies","Alpha Telecom, Inc. U","Alpha and Omega","AlphaCell Wireless","AlphaTech PLC Int’l","AlphaTheta","Alphabet Capital","Alphatron Marine","Alphatronics","Alpheus Digital","Alphion","Alphion India Private","Alpinion Medical Systems","Alps Alpine","Alps Electric (Ireland)","AlsterAero","Alstom Strongwish (Shenzhen)","Alstom Transport","Alta Data Technologies","Alta Definicion LINCEO S.L","Alta Heights Technology","Alta Networks","Alta Solutions","Altai Technologies","Altasec technology","Altec Electronic","Altech Controls","Altecon","Altenergy Power System","Altera","AltiGen Communications","Alticast","Altice Labs","Altierre","AltoBeam","AltoBeam(Xiamen)Technology","Altronic","Altus Sistemas de Automação","Alula","Always On Wireless","AmRoad Technology","AmTRAN Video","Amann","Amatis Controls","Amazon Technologies","Amazon.com","Amber Technology","AmbiCom","Ambient","Ambiq","Ambit Microsystems","Ambrado","Ambri","Amcrest Technologies","Amedia Networks","Amer.com","America Online","American Computer & Digital Components, Inc. (ACDC)","American Fibertek","American Magnetics","American Micro-Fuel Device","American Reliance","American Security Products","American Technology Integrators","American Telecare","American Time and Signal","Amerigon","Amesys Defense","Ametek Power Instruments","Amgen U","Amicro Technology","Amicus SK, s.r.o","Amimon","Amino Communications","Amity Systems","Amlogic","Ammasso","Amped Wireless","Amper","Amper Datos","Amperion","Amphenol","Amphitech","Amphus","Ample Communications","Ample Systems","Amplex","Amplified Engineering","Amplify Net","Ampt","Amptown System","Amscreen Group","Amtek system","Amtelco","Amulet Hotkey","AnB Securite","AnNeal Technology","AnaCise Testnology Pte","AnaCom","Anadem Information","Anagran","Anakreon UK LLP","Analog Devices","Analogic","Analogix Seminconductor","Analogue & Micro","Analogue Enterprises","Analytica","Anam Electronics","Anaren Microwave","Anda Technologies SAC","Andiamo Systems","Ando Electric","Andon Health","Andrea Informatique","Andrew","Andrew RF Power Amplifier Group","Anedo","Angel Electronics","Angel Iglesias","Angel Robotics","Angelbird Technologies","Angie Hospitality","Angler Labs","Angstrem Telecom","Anhui Dynamic Power","Anhui Guoke Ruidian communication technology","Anhui Huami Information Technology","Anhui Realloong Automotive Electronics","Anhui Saida Technology Limited Liability","Anhui Sun Create Electronics","Anhui Sunchip semiconductor technology Co;","Anhui Taoyun Technology","Anhui Xiangyao New Energy Technology","Anhui comhigher tech","Animation Technologies","Anite Telecoms US","Annapolis Micro Systems","Annapurna labs","Anntec （Beijing） Technology","Anobit Technologies","Anoto","Anova Applied Electronics","Anritsu","Ansaldo STS USA","Anseri","Ansjer Electronics","Ansync","Antailiye Technology","Antaira Technologies","Antare Technology","Antex Electronic","Anthology Solutions","Antik computers & communications s.r.o","Antiope Associates","Anton Paar","Antonios A. Chariton","Anvia TV","Anviz Biometric Tech","Any One Wireless","Any Use","AnyDATA","Anywave Communication Technologies","Anywire","Aonvision Technolopy","Apacer Technology","Apacewave Technologies","Apache Micro Peripherals","Apani Networks","Aperi","Aperion Technologies","Apex","Apex Automationstechnik","Apex Electronics Factory","Apex Tool Group GmbH & Co OHG","Apismoon Electric Pte","Aplicaciones Electronicas Quasar (AEQ)","Aplicom","Aplix IP Holdings","Apogee Electronics","Apogee Imaging Systems","Apogee Labs","Apollo Fire Detectors","Apollo Imaging Technologies","Apollo Intelligent Connectivity (Beijing) Technology","Apollo Seiko","AppTech","Appear","Appel Elektronik","Apple","Application Solutions (Electronics and Vision)","Application Technologies and Engineering Research Laboratory","Applied Biosystems","Applied Innovation","Applied Media Technologies","Applied Micro Electronics AME","Applied Optoelectronics, Inc Taiwan Branch","Applied Radio Technologies","Applied Research Associates","Applied Technical Systems","Applied Vision","Applied Wireless Identifications Group","Applition","Appointech","Apprion","Apption Labs","Apricorn","Aprius","Apriva ISS","Aptos Technology","Aptus Elektronik","Aqavi.com","Aquantia","Aquila Technologies","Arab International Optronics","Arada Systems","Araneo","Arantia 2010 S.L","Arashi Vision","Aravox Technologies","Arbiter Systems","Arbitron","Arbor Networks","Arbor Technology","ArcSoft Shanghai","Arcade Communications","Arcadia Networks","Arcadyan","Arce Sistemas","Arcelik A.S","Arcon Technology","Arcontia International","Arcor","Arcturus Networks","Arcx","Ardomus Networks","Areca Technology","Arecont Vision","Ared Technology","Arelnet","Arescom","Areson Technology","Areus","Argard","Argosy Technologies","Argox Information","Argus Technologies","Arima Computer","Ario Data Networks","Arista","Arista Network","Arista Networks","Aristocrat Technologies Australia","Aristos Logic","Arizona Instrument","Arkados","Arkino HiTOP","Arlo Technology","Arm","Armadeus Systems","Armatura","Armillaire Technologies","Armorlink","Armstrong Monitoring","Armtel","Arnold&Richter Cine Technik GmbH & Co. Betriebs KG","Arounds Intelligent Equipment","Arra Networks/ Spectramesh","Array Networks","ArrayComm","Arrayent","Arrcus","Arria Live Media","Arrikto","Arris","Arrival Elements","Arrive Systems","Arrow7","ArrowPoint Communications","ArrowSpan","Arrowhead Alarm Products","Art Beijing Science and Technology Development","Artec Design","Artech Electronics","Artek Microelectronics","Artel Video Systems","Artesyn Embedded Technologies","Arthrex","Arti Industrial Electronics","Artila Electronics","Artimi","Artisoft","Artistic Licence Engineering","Artiza Networks","Artnix","Aryaka Networks","Arycs Technologies","AsGa","Asahi Electronics","Asahi Net","Asahi-Engineering","Asantron Technologies","Ascalade Communications","Ascend Networks","Ascendent Technology Group","Ascensia Diabetes Care","Ascent","Ascent Communication Technology","Ascom Danmark","Ascom Powerline Communications","Ascom Tateco","Ascon","Aseko, spol. s r.o","Aselsan A.S","Ashley Butterworth","Ashly Audio","Asia Optical","Asia Pacific Brands","Asia Pacific CIS (Wuxi)","Asia Pacific Microsystems","Asia Pacific Satellite Industries","Asia Vital Components","AsiaRF","AsiaTelco Technologies","Asiamajor","Asiarock Technology","Asiatelco Technologies","Aska International","Asmax Solutions","Asmobile Communication","Asoka USA","Asoni Communication","Asotel Communication Limited Taiwan Branch","Asound Electronic","Aspect Software","Aspen Networks","Asperiq","Assa","Assa Abloy AB - Yale","Assembled Products","Association of Musical Electronics Industry","Assurance Technology","Astarte Technology","Astec Technology","Astek","Astera LED Technology","Astera Technologies","Asterfusion Data Technologies","Astra Wireless Technology FZ","Astro Gaming","AstroNova","Astrodesign","Astrol Electronic","Astronautics C.A","Astronics Custom Control Concepts","Astute Networks","Asumo","Asus Network Technologies","Asyril","At Work Computers","At-Sky","AtRoad, A Trimble","Atalum Wireless","Atamo","Atech Technology","AtecoM GmbH advanced telecomunication modules","Atek","Atelier Vision","Ateliers R. LAUMONIER","Atera Networks","AthenTek","Athena Tech","Athena Wireless Communications","Atheros Communications","Athom","Atil Technology","Atios","Atlanta Advanced Communications Holdings","Atlanta DTH","Atlantic Software Technologies","Atlas Copco IAS","Atlas Elektronik UK","Atlas Material Testing Technology","Atlinks","Atlona","Atmaca Elektronik","Atmark Techno","Atmel","Atmosic Technologies","Atoga Systems","Atom Power","Atomax","Atomic Rules","Atomos Engineering P/L","Atrica","Atrie","Atsumi Electric","Attero Tech","AuVerte","AudeSi Technologies","Audeze","Audinate Pty L","Audio / Video Innovations","Audio BU - Logitech","Audio Engineering Society","Audio Partnership","Audio Precision","Audio-Technica","AudioControl","AudioDev","AudioRamp.com","AudioScience","Audiocodes USA","Audioengine","Audiomatica","Audiotonix Group","Audiovox","Audiowise Technology","Audivo","Audoo Limited (UK)","Audyssey Laboratories","Auerswald GmbH & Co. KG","Augmentix","August Home","August Internet","Auhui Taoyun Technology","Aura Home","Aurender","Aurora Innovation","Aurora Multimedia","Aurora Networks","Aus.Linx Technology","Austar Technology (hang zhou)","Austco Marketing & Service (USA)","Austrian Audio","Auto Industrial","Auto Telecom","Auto-Maskin","AutoCell Laboratories","AutoCrib","AutoGas Systems","AutoHotBox","Autobase","Autocom Products","Automat Engenharia de Automação Ltda","Automated Interfaces","AutomatedLogic","Automatic Bar Controls","Automatic Systems","Automation Components","Automation Electronics","Automation Products Group","AutomationDirect.com","Automotive Data Solutions","Autonet Mobile","Autonomic Controls","Autosales","Autostar Technology Pte","Autosys","Autotalks","Autronica Fire And Securirty","Ava Security","AvaLAN Wireless","Avaak","Avago Technologies","Avail Networks","Availink","Avalue Technology","Avamax","Avanex","Avang - neterbit","Avantec Manufacturing","Avantgarde Acoustic Lautsprechersysteme","Avantis","Avara Technologies","Avaya","Avaya ECS","Avega Systems","Avelon","Aventura Technologies","AverLogic Technologies","Avermetrics","Avery Dennison Deutschland","Avery Weigh-Tronix","Avidyne","Avigilon Alta","Avikus","Avionic Design","Avira Operations GmbH & Co. KG","Avire Global Pte","Avision","Avistar Communications","Avitech International","Aviv Infocom","Aviva Links","Aviwest","Avizia","Avlinkpro","Avnet","Avnet Silica","Avonic","Avotek","Avrio Technologies","Avtec","Avtec Systems","Avtex","Avvasi","Avvio Networks","AwarePoint","Awox","Axcen Photonics","Axe Group Holdings","Axell Wireless","Axema Passagekontroll","AxesNetwork Solutions","Axesstel","Axevast Technology","Axiado","Axiim","Axilspot Communication","Axino Solutions","Axiom Memory Solutions","Axioma Metering UAB","Axion Technologies","Axiowave Networks","Axiros","Axis Communications","Axium Technologies","Axon Enterprise","Axon Networks","Axona","Axonne","Axsun Technologies","Axtion","Axview Technology (Shenzhen)","Axxana(israel)","Axxcelera Broadband Wireless","AxyomCore","Ayecka Communication Systems","Ayecom Technology","Ayla Networks","Ayon Cyber Security","Azalea Networks","Azimut Production Association JSC","Azonic Technology","Aztech Associates","Aztech Electronics Pte","Aztek","Aztek Networks","Azul Systems","Azuray Technologies","AzureWave Technologies (Shanghai)","AzureWave Technology","Azuretec","Azylex Technology","B METERS","B&B EXPORTING","B&B Electronics Manufacturing","B&C Transit","B&R Industrial Automation","B&Tech System","B&W Group","B&W NUCLEAR SERVICE","B+L Industrial Measurements","B-KYUNG SYSTEM","B-Link Electronic","B.Braun Melsungen","B/E AEROSPACE","B15402100 - JANDEI, S.L","B2C2","B810","BA Systems","BACHMANN ELECTRONIC","BADGER METER","BAE SYSTEMS","BAE Systems","BAE Systems Australia (Electronic Systems)","BAEKCHUN I&C","BALMUDA","BALTHAZAR TECHNOLOGY","BANYAN SYSTEMS","BARCO CONTROL ROOMS","BARCONET N.V","BARRISTER INFO SYS","BARRON MCCANN","BARTEC","BARTECH SYSTEMS INTERNATIONAL","BASIC","BASIC MERTON HANDELSGES.M.B.H","BASS ASSOCIATES","BASYS","BATTELLE MEMORIAL INSTITUTE","BATTISTONI RESEARCH","BAUSCH & LOMB","BAXALL SECURITY","BAY NETWORKS","BAY TECHNICAL ASSOCIATES","BAYLY COMMUNICATIONS","BAYTEC","BBH SYSTEMS","BBK EDUCATIONAL ELECTRONICS","BBMC","BBN","BBPOS","BBSakura Networks","BBWM","BBox","BCM Computers","BCOM ELECTRONICS","BCOM Networks","BCTech","BDR Thermea Group","BDT Büro und Datentechnik GmbH & Co.KG","BEB Industrie-Elektronik","BECKMAN LAB. AUTOMATION DIV","BECS Technology","BEFEGA","BEG Brueck Electronic","BEGA Gantenbrink-Leuchten KG","BEGHELLI","BEHAVIOR TECH. COMPUTER","BEHRINGER Spezielle Studiotechnik","BEIJING CO-CLOUD TECHNOLOGY","BEIJING COOLSHARK TECHNOLOGY","BEIJING ESWIN COMPUTING TECHNOLOGY","BEIJING GEHUA CATV NETWORK","BEIJING HAIHEJINSHENG NETWORK TECHNOLOGY","BEIJING HUAWOO TECHNOLOGIES","BEIJING IACTIVE NETWORK","BEIJING LHWT MICROELECTRONICS","BEIJING MICROVISION TECHNOLOGY","BEIJING SOGOU TECHNOLOGY DEVELOPMENT","BEIJING STARBLAZE TECHNOLOGY","BEIJING THOUGHT SCIENCE","BEIJING YUNYI TIMES TECHNOLOGY","BEKA Elektronik","BEKO Technologies","BELIMO Automation","BELKIN COMPONENTS","BELL & HOWELL PUB SYS DIV","BELL ATLANTIC","BELL ATLANTIC INTEGRATED SYST","BELL TECHNOLOGIES","BELLDESIGN","BEMER Int","BEN-RI ELECTRONICA","BENTLY NEVADA","BEOVIEW INTERCOM DOO","BEP Marine","BERAN INSTRUMENTS","BERGHOF AUTOMATIONSTECHNIK","BERKELEY NETWORKS","BERTANA","BEST DATA PRODUCTS","BEST POWER TECHNOLOGY","BEST TECHNOLOGY","BETA RESEARCH","BETA tech","BETTINI","BG T&A","BH TECHNOLOGIES","BHP","BHR Tech","BHTC","BICC INFORMATION SYSTEMS & SVC","BICOM","BIJ","BILLIONTON SYSTEMS","BINAR ELEKTRONIK","BINTEC COMMUNICATIONS","BINXIN TECHNOLOGY(ZHEJIANG)","BIO SOUND LAB","BIODIT","BIONIME","BIONIX SUPPLYCHAIN TECHNOLOGIES SLU","BIOPAC SYSTEMS","BIOS","BIOSTAR Microtech Int'l","BIOTRONIK","BISA Technologies (Hong Kong)","BISSELL Homecare","BITA","BITMAIN DEVELOPMENT PTE","BITNETWORKS","BITRONICS","BITSTREAM sp. z o.o","BITSWITCH","BITwave Pte","BIXOLON","BIZERBA-WERKE WILHEIM KRAUT","BIZLINK TECHNOLOGY","BK Electronics cc","BKAV","BKM-Micronic Richtfunkanlagen","BKS","BLANKOM Antennentechnik","BLIP Systems","BLOOMBERG L.P","BLT","BLU CASTLE","BLU Products","BLUE WAVE NETWORKING","BLUECOM","BLUELIGHT TECHNOLOGY","BLUEWAY ELECTRONIC CO;","BLUSENS TECHNOLOGY","BLX IC Design","BLiNQ Networks","BLwave Electronics","BM","BMC SOFTWARE","BME","BMEYE","BMT Medical Technology s.r.o","BMW","BNA SYSTEMS","BND","BNS Solutions","BNTECHNOLOGY","BOAZ","BOBST","BOCA RESEARCH","BOCOM SECURITY(ASIA PACIFIC)","BODET","BODi rS","BOE TECHNOLOGY GROUP","BOEING","BOEING DEFENSE & SPACE","BOENIG UND KALLENBACH OHG","BOLT BERANEK AND NEWMAN","BON ELECTRIC","BONA TECHNOLOGY","BOPEL MOBILE TECHNOLOGY","BORGARDT","BOSER TECHNOLOGY","BOSTON TECHNOLOGY","BOSUNG POWERTEC","BOTATO ELECTRONICS","BOXIN COMMUNICATION","BPL","BPT","BQ","BQT Solutions (Australia)","BR Controls Nederland","BRAND COMMUNICATIONS","BRAND INNOVATORS","BRECIS Communications","BRIDGE COMMUNICATIONS","BRIGHT STAR ENGINEERING","BRIGHT TECHNOLOGIES INDIA PRIVATE","BRILLIANTTS","BRISTOL BABCOCK","BRITTON LEE","BRK Brands","BRN Phoenix","BROADBAND ACCESS SYSTEMS","BROADBAND NETWORKS","BROADCAST TELEVISION SYSTEMS","BROADEX TECHNOLOGIES","BROADLOGIC","BRODEL","BROOKTROUT TECHNOLOGY","BROWAN COMMUNICATIONS INCORPORATION","BROWN'S OPERATING SYSTEM SERVICES","BRUKER INSTRUMENTS","BRYANT TECHNOLOGY","BSE","BSH Electrical Appliances (Jiangsu)","BSH Hausgeräte","BSMediasoft","BSP","BST","BT&COM","BT-Links","BT9","BTB Korea","BTG Electronics Design","BTI Systems","BTICINO","BTL System (HK)","BTU International","BUFFALO","BUHEUNG SYSTEM","BUJEON ELECTRONICS","BULAT","BULL HN INFORMATION SYSTEMS","BULL S.A.S","BURG-WÄCHTER KG","BURR-BROWN","BUSTEC PRODUCTION","BUSTEK","BUSWARE.DE","BVBA DPTechnics","BVM","BW Broadcast","BWA Technology","BWS IoT","BXB ELECTRONICS","BYAS SYSTEMS","BYD","BYD Lithium Battery","BYD Precision Manufacture","BYD Semiconductor Co，","BYK-Gardner","BYTEX CORPORATION, ENGINEERING","Babcock & Wilcox Power Generation Group","Babolat VS","Bach-Simpson","Bachmann Technology GmbH & Co. KG","Baicells Technologies","Baidu Online Network Technology (Beijing)","Baikal Electronics JSC","Baker Hughes","Balboa Instruments","Baldor Electric","Ball-It","Balluff","Balluff MV","Bally Gaming + Systems","Bally Wulff Entertainment","Baltech","Baltic Latvian Universal Electronics","Bamboo Entertainment","Bamboo Systems Group","BandRich","Banderacom","Bandspeed","Bang & Olufsen","Bang and Olufsen Medicom","Bank of America","Banksys","Banner Engineering","Banyan Network Private","Baoding Galaxy Electronic Technology","Baofeng TV","Baraja","Barberry Solutions","Barco","Barco Projection Systems","Bardac","Barix","Barnes&Noble","Barracuda Networks","Barrot Technology","Barun Electronics","Basler","Basler Electric","Bastec","BaudTec","Baumer Holding","Baumer Optronic","Baumuller Aulugen-Systemtechnik","Baustem Broadband Technologies","Baxter International","Bay Controls","Bay Microsystems","Bay Networks","Bay Storage Technology","Bayan Audio","Baycity Technologies","Baydel","Baylan Olcu Aletleri San. ve Tic.A.S","Bayside Interactive","Be Here","BeCell Innovations","BeNeXt","BeWAN systems","Beacon","Beacon Medical Products LLC d.b.a. BeaconMedaes","BeamReach Networks","Beamex","Beamtrail-Sole Proprietorship","Bear Flag Design","Beats Electronics","Beautiful Card","Beautiful Enterprise","Becker Electronics Taiwan","Becker-Antriebe","Beckhoff Automation","Beckman Coulter","Beckmann","Beckwith Electric","Becon Technologies","Becton, Dickinson and","Bee Beans Technologies","Bee Computing (HK)","Beech Hill Electronics","Befs","Behind The Set","BeiJing NuQX Technology","Beicom","Beida Jade Bird Huaguang Technology","Beijer Electronics","Beijer Electronics Products","Beijing 5w Communication","Beijing ASU Tech","Beijing Autelan Technology","Beijing Banner Electric","Beijing Baofengmojing Technologies","Beijing Beny Wave Technology","Beijing BenyWave Technology","Beijing BitIntelligence Information Technology","Beijing Bluexon Technology","Beijing Boomsense Technology","Beijing Broad Telecom Ltd., China","Beijing Broadwit Technology","Beijing C&W Optical Communication Technology","Beijing CCD Digital Technology","Beijing Cheering Networks Technology","Beijing China Electronics Intelligent Acoustics Technology","Beijing Chushang Science and Technology","Beijing Cotytech","Beijing Ctimes Digital Technology","Beijing Cyber Cloud Technology","Beijing DG Telecommunications equipment","Beijing Detianquan Electromechanical Equipment","Beijing Ding Qing Technology","Beijing DoSee Science and Technology","Beijing Duokan Technology","Beijing E3Control Technology","Beijing ECHO Technologies","Beijing Enter-Net","Beijing Ereneben Information Technology Co.,Ltd Shenzhen Branch","Beijing Ereneben Information Technology Limited Shenzhen Branch","Beijing Ereneben lnformation Technology","Beijing FaceCam Technology","Beijing Flitlink Vientiane Technology","Beijing Gctech Technology","Beijing Gefei Tech","Beijing General Research Institute of Mining and Metallurgy","Beijing Global Safety Technology","Beijing Gongye Science & Technology","Beijing Guang Runtong Technology Development","Beijing GuangXin Technology","Beijing Guming Communication Technology","Beijing H-IoT Technology","Beijing HCHCOM Technology","Beijing HTTC Technology","Beijing Haier IC Design","Beijing Haitai Fangyuan High Technology","Beijing Hanbang Technology","Beijing Hesun Technologies","Beijing Heweinet Technology","Beijing HuaDa ZhiBao Electronic System","Beijing Huacan Electronics","Beijing Huadianzhongxin Tech","Beijing Huafei Technology","Beijing Huahuan Eletronics","Beijing HuaqinWorld Technology","Beijing Huasun Unicreate Technology","Beijing Huisen networks technology","Beijing IQIYI Science & Technology","Beijing InHand Networking Technology","Beijing Infosec Technologies","Beijing Jianguo Bite Technology","Beijing Jiaoda Microunion Tech","Beijing Jiaxun Feihong Electricial","Beijing Jingdong Century Trading","Beijing Jingling Information System Technology","Beijing Jinhong Xi-Dian Information Technology","Beijing JoinHope Image Technology","Beijing KEMACOM Technologies","Beijing L&S Lancom Platform Tech","Beijing LT Honway Technology","Beijing Lanbo Technology","Beijing Lanchuan Tech","Beijing Lanxum Computer Technology","Beijing LasNubes Technology","Beijing Leadsec Technology","Beijing Leagrid Technology","Beijing Lingji innovations Technology","Beijing Loveair Science and Technology","Beijing MDC Telecom","Beijing MEGA preponderance Science & Technology","Beijing Megwang Technology","Beijing Memblaze Technology","Beijing Morncloud Information And Technology","Beijing Nan Bao Technology","Beijing Nari Smartchip Microelectronics","Beijing National Railway Research & Design Institute of Signal & Communication","Beijing National Railway Research & Design Institute of Signal & Communication Group","Beijing NeTopChip Technology","Beijing Nebula Link Technology","Beijing Netpower Technologies","Beijing Netswift Technology","Beijing Newmine Technology","Beijing Newtry Electronic Technology","Beijing Novel Super Digital TV Technology","Beijing Omnific Technology","Beijing Orient View Technology","Beijing PKUNITY Microsystems Technology","Beijing Perfectek Technologies","Beijing Qxcomm Technology","Beijing Railway Signal Factory","Beijing Risbo Network Technology","Beijing Roborock Technology","Beijing RongZhi xinghua technology","Beijing Rongcheng Hutong Technology","Beijing Royaltech","Beijing Run Technology","Beijing SHENQI Technology","Beijing Sankuai Online Technology","Beijing Sensoro Technology","Beijing Shidai Hongyuan Network Communication","Beijing Siasun Electronic System","Beijing Signalway Technologies","Beijing Sinead Technology","Beijing Sinoix Communication","Beijing Skyway Technologies","Beijing Soul Technology","Beijing Soynetic","Beijing Spirit Technology Development","Beijing Splendidtel Communication Technology","Beijing Superbee Wireless Technology","Beijing Supvan Information Technology","Beijing Symtech","Beijing Tengling Technology","Beijing Thomson CITIC Digital Technology","Beijing Tianyu Communication Equipment","Beijing TongTongYiLian Science and Technology","Beijing Topsec Network Security Technology","Beijing Tosee Technology","Beijing Tricolor Technology","Beijing Unigroup Tsingteng Microsystem","Beijing Unis HengYue Technology","Beijing Unisound Information Technology","Beijing Venustech Cybervision","Beijing Vrv Software Corpoaration","Beijing Wanwei Intelligent Technology","Beijing Wide Technology","Beijing Winchannel Software Technology","Beijing Winicssec Technologies","Beijing Winner Microelectronics","Beijing WisVideo","Beijing Wisdomstar Technology","Beijing Wise Technology & Science Development","Beijing Wiseasy Technology","Beijing XiaoLu technology","Beijing Xiaomi Electronics","Beijing Xiaomi Mobile Software","Beijing Xiaoyuer Network Technology","Beijing Xiaoyuer Technology","Beijing Xinwei Telecom Technology","Beijing Yaxunhongda Technology","Beijing Yuecheng Technology","Beijing Yunyi Times Technology","Beijing Yupont Electric Power Technology","Beijing Zhoenet Technology","Beijing ZhongHuaHun Network Information center","Beijing Zhongchuang Telecommunication Test","Beijing Zhongdun Security Technology Development","Beijing Zhongqing Elegant Tech","Beijing Zhongyuan Yishang Technology","Beijing Zile Technology","Beijing gpthink technology","Beissbarth","Bejing DAYO Mobile Communication Technology","Beken","Bekey","Bel Fuse Europe Ltd.,UK","Bel Power Solutions","Belco International","Belden","Belden Deutschland","Belden Hirschmann industries (Suzhou)","Belden India Private","Belden Mooresville","Belden Singapore Pte","Belgian Monitoring Systems bvba","Belkin","Belkin International","Bellon","Bellwin Information","Bematech International","BenQ","BenRui Technology","Bencent Tzeng Industry","Benchmark Electronics","Benchmark Electronics ( Thailand ) Public","Benchmark Electronics Romania","Benchmark Storage Innovations","Bender GmbH &amp; Co.KG","Benein","Benign Technologies","Benning Elektrotechnik und Elektronik GmbH & Co. KG","Bentek Systems","Benu Networks","Benu Video","Berkeley Camera Engineering","Berkeley Nucleonics","Berkeley Process Control","Berker GmbH & Co. KG","Berkshire Products","Bermai","Bern University of Applied Sciences","Bertel","Berthold Technologies GmbH and Co.KG","Best Buy","Best IT World (India) Pvt","Best Source Taiwan","Best Wish Technology","BestComm Networks","Bestcare Cloucal","Bestek","Betop Techonologies","BetterBots","Betty TV Technology","Beward R&D","Beyless","Beyond Achieve Enterprises","Beyond Devices d.o.o","Beyondwiz","Beyonics Technology Electronic (Changshu)","Bharat Electronics","Bhuu","Bi2-Vision","BiTMICRO Networks","Biacore","Biamp Systems","Big Bear Networks","BigBand Networks","Bigelow Aerospace","Bigfoot Networks","Bigleaf Networks","Bihl + Wiedemann","Bilkon Bilgisayar Kontrollu Cih. Im","Billion Electric","Bils Technology","Bimeng Comunication System","BinCube","Binatone Electronics International","Binatone Telecommunication Pvt","BindView Development","Bio-Rad Laboratories","BioControl","BioIntelliSense","Biodata","Biodevices","Biometric Access","Biometric Associates, LP","Bionet","Bionics","Bioscrypt","Biosoundlab","Biospace","Biostar Microtech international","Bird Buddy","Bird Electronic","Bird Home Automation","Birds Eye Systems Private","Birka BPA Informationssystem","Biscotti","Bison Electronics","Bit Blitz Communications","Bit4id","BitBox","BitRecords","BitWise Controls","Bitatek","Bitdefender","Bitel","Bitmain Technologies","Bitrage","Bitran","Bitrode","BitsGen","BittWare","Bittium Wireless","Bitworks","Bivio Networks","Biwin Semiconductor (HK) Company Limted","Biz-2-Me","BizLink (Kunshan)","BizLink Special Cables Germany","BizLink Technology (S.E.A) Sdn. Bhd","Biznes Systema Telecom","Black Box","Black Diamond Advanced Technology","Black Sesame Technologies","BlackBerry RTS","Blackmagic Design","Blaster Tech","Blatand","Blaupunkt Embedded Systems","Blaze Network Products","Bless Information & Communications","Blick South Africa (Pty)","Blink by Amazon","Blonder Tongue Laboratories","Bloombase","Blossoms Digital Technology","Blu Tether","Blu Wireless Technology","Blu-ray Disc Association","Bluberi Gaming Technologies","Blue Calypso","Blue Chip Technology","Blue Clover Devices","Blue Danube Systems","Blue Fox Porini Textile","Blue Ridge Networks","Blue Zen Enterprises Private","Blue-White Industries","Blue2space","BlueAnt Wireless","BlueArc UK","BlueBit","BlueBite","BlueExpert Technology","BlueKorea","BlueN","BluePacket Communications","BlueRadios","BlueWINC","Bluebank Communication Technology","Bluebird Soft","Bluecard Software Technology","Bluechips Microhouse","Bluegiga Technologies","Bluelon ApS","Blueone Technology","Bluetake Technology","Bluetechnix","Bluetooth Interest Group","Bluetooth SIG","Bluewire Technologies","Bluwan","Blynke","Blyott","BnCOM","BobjGear","Boca Devices","Boditech Med","Bodmann Industries Elektronik","BodyMedia","Boeing Defence Australia","Boge Kompressoren OTTO Boge GmbH & Co. KG","Bogen Communications","Bointec Taiwan","Bolymin","Bombardier Transportation","Bon Electro-Telecom","Bonfiglioli Vectron","Bookeen","Bookham","Boosty","Borea","Boris Manufacturing","Borqs Beijing","Bosch Access Systems","Bosch Automative products(Suzhou)Co.,Ltd Changzhou Branch","Bosch Automotive Aftermarket","Bosch Automotive Electronics India Pvt","Bosch Automotive Products (Suzhou)","Bosch Automotive Products (Suzhou) Co., Ltd. Changzhou Branch","Bosch Building Automation","Bosch Car Multimedia (Wuhu)","Bosch Rexroth","Bosch Security Systems","Bosch Sicherheitssysteme","Bosch Software Innovations","Bosch Thermotechnik","Bose","Bostex Technology","Boston Dynamics","Boston Scientific","Bosung Electronics","Bosung Hi-Net","Botik Technologies","Bouffalo Lab (Nanjing)","Boundary Devices","Bountiful WiFi","Bowei Technology","Bowers & Wilkins","BoxCast","BoxLock","Boxin Communications Limited Liability","Boxx TV","Boyoung Tech","Brady Corp Asia Pacific","Braemac CA","Bragi","Brain","Brain Boxes","Brain Technologies","Brain21","BrainCo","Brainchild Electronic","Brainium Technologies","Brains","Braintree Communications","Brand Maker Enabler","Brandywine Communications","Brandywine Communications UK","Brans Technologies","Bravara Communications","Braveridge","Bravo Tech","Breathometer","Breeze Innovations","Breezecom","BrewLogix","Bri-Link Technologies","BriView (Xiamen)","Bridge Information","Bridge Information Systems","Bridge Technologies","BridgeWave Communications","Bridgeco","Bridgeworks","Bright","Bright Headphone Electronics","BrightSign","Brightcom","Brightsource Industries Israel","Brilliant Home Technology","Brilliant Telecommunications","Briot International","Brita","Britania Eletrônicos","Britestream Networks","British Federal","British Telecommunications","Brivo Systems","Brix Networks","Broad Net Technology","Broad Telecom","BroadEasy Technologies","BroadTel Canada Communications","BroadWeb Corportation","Broadata Communications","Broadband Antenna Tracking Systems","Broadband Forum","Broadband Pacenet (India) Pvt","Broadband Solutions Group","Broadband Technologies","Broadbus Technologies","Broadcast Microwave Services","Broadcom","Broadcom Technologies","Broadframe","Broadlink","Broadmax Technologies","Broadway Networks","Brocade Communications Systems","Brodersen","Bromax Communications","Brookhuis Applied Technologies","Brooks Automation","BrosTrend Technology","Brother Industries","Brother industries","Brother, Brother & Sons ApS","Brown Innovations","Brunata","Brunel University","Brunner Elektronik","Brusa Elektronik","Brusa HyPower","Bryston","Bryton","Bubendorff","Bucher Automation","Budderfly","Budelmann Elektronik","BuildJet","Building B","Building Block Video","Bull Group","Burdick, a Quinton Compny","Burlywood","Burster GmbH & Co KG","Bury GmbH & Co. KG","Busch-Jaeger Elektro","Business Security OL","Business-intelligence of Oriental Nations","Butlr Technologies","Buwon Technology","Buyang Electronics Industrial","By Techdesign","Byos","Bystronic Laser","Bytedance","Bytemark Computer Consulting","Byzoro Networks","Büchi Labortechnik","Bürkert Werke","C Technologies","C&C TECHNIC TAIWAN","C&I Technologies","C&S Technology","C&T Solution","C-BEL","C-COM","C-COR","C-COR.net","C-Kur TV","C-MAX Asia","C-Matic Systems","C-TECH UNITED","C-guys","C. ITOH ELECTRONICS","C.A.E.N","C.E. ELECTRONICS","C.G.V. S.A.S","C.O.B.O","C.P. Technology","C.R.S. iiMotion","C.T. ELETTRONICA","C2 Development","C2 Microsystems","C3PO","C4Line","C8 MediSensors","CAB GmbH & Co KG","CABLE & COMPUTER TECHNOLOGY","CABLE AND WIRELESS","CABLE PRINT","CABLE TELEVISION LABORATORIES","CABLELOGIC","CACHE COMPUTERS","CACTUS COMPUTER","CADANT","CADENCE DESIGN SYSTEMS","CADNETIX CORPORATIONS","CADRE TECHNOLOGIES","CAE ELECTRONICS","CAEN","CAETEC Messtechnik","CAI Networks","CALCOMP","CALCULEX","CALISTA","CALL IMAGE","CALY NETWORKS","CAMBEX","CAMCO Produktions- und Vertriebs-GmbH für Beschallungs- und Beleuchtungsanlagen","CAME UK","CAMEO COMMUNICATIONS","CAMEX","CAMPBELL SCIENTIFIC","CAMPIO COMMUNICATIONS","CAMTEC ELECTRONICS","CAMTRONICS MEDICAL SYSTEMS","CANARY COMMUNICATIONS","CANDID OPTRONIX PRIVATE","CANDY HOUSE","CANKO TECHNOLOGIES","CANON","CANON FINETECH","CANOPUS","CANSTAR","CAO Group","CAP-TECH INTERNATIONAL","CAPELEC","CAPITOL BUSINESS SYSTEMS","CAPTOR NV/","CARADON TREND","CARDIAC RECORDERS","CARDKEY SYSTEMS","CARDWARE LAB","CARECOM","CARINTHIAN TECH INSTITUTE","CARL ZEISS","CARLO GAVAZZI","CARLO GAVAZZI CONTROLS SPA-Controls Division","CARNEGIE-MELLON UNIVERSITY","CARPOINT","CARRERA COMPUTERS","CARRIER ACCESS","CARY PERIPHERALS","CAS","CASCADE COMMUNICATIONS","CASCINATION","CASCO SIGNAL","CASIO COMPUTER","CAST Information","CASTEL","CASTEL Broadband","CASTELLE","CASTLE ROCK","CASTLE ROCK COMPUTING","CASTOR Informatique","CASwell","CAT SYSTEM","CATCH THE WIND","CATS","CAYMAN SYSTEMS","CAx soft","CBC","CBL","CBM of America","CC Systems","CC&C Technologies","CCC Network Systems Group","CCS","CCT R&D","CCTV NEOTECH","CCV Deutschland","CCV Deutschland GmbH - Celectronic eHealth Div","CDOUBLES ELECTRONICS","CDR Sp. z o.o. Sp. k","CDS-Electronics","CDVI","CDVI Americas","CDVI Wireless","CDYNE","CE Digital(Zhenjiang)","CE LINK","CE-Infosys Pte","CEC TELECOM","CEC Wireless R&D","CEDES","CEDINT-UPM","CEDO","CEI SYSTEMS & ENGINEERING PTE","CEIA","CEICOM","CEIVA Logic","CELAN TECHNOLOGY","CELCORE","CELESTICA","CELIZION","CELLPORT LABS","CELOT Wireless","CELOX Networks","CELOXICA","CEM","CEM Solutions Pvt","CENITS","CENTER FOR HIGH PERFORMANCE","CENTIGRAM COMMUNICATIONS","CENTILLION NETWORKS","CENTRAL","CENTRAL DATA","CENTRAL ENGINEERING","CENTRAL SYSTEM RESEARCH","CENTRALP AUTOMATISMES","CENTRE FOR DEVELOPMENT OF ADVANCED COMPUTING","CENTROFACTOR","CENTRON COMMUNICATIONS TECHNOLOGIES FUJIAN","CENTRUM COMMUNICATIONS","CENTURY","CENTURY OPTICOMM","CENTURY SYSTEMS","CENiX","CEOLOGIC","CERA ELECTRONIQUE","CERAGON NETWORKS","CERN","CESNET","CEStronics","CET Technologies Pte","CETIA","CETORY.TV","CETRTA POT, d.o.o., Kranj","CEVA","CEYON TECHNOLOGY","CG Mobile","CG Power Systems Ireland","CGI IT UK","CHAHOO","CHAINTECH COMPUTER","CHAMPIONTECH ENTERPRISE (SHENZHEN)","CHANG TSENG TECHNOLOGY","CHANG YOW TECHNOLOGIES INTERNATIONAL","CHANGHONG (HONGKONG) TRADING","CHANNEL SYSTEMS INTERN'L","CHANNELMATIC","CHANT SINCERE","CHARLES RIVER DATA SYSTEMS","CHASE COMMUNICATIONS","CHASE RESEARCH","CHAUVIN ARNOUX","CHECKOUT COMPUTER SYSTEMS","CHENG UEI PRECISION INDUSTRY","CHENGDU KT ELECTRONIC HI-TECH","CHENGDU POVODO ELECTRONIC TECHNOLOGY","CHENGDU USEE DIGITAL TECHNOLOGY","CHENGDU XUGUANG TECHNOLOGY","CHENMING MOLD INDUSTRY","CHENZHOU GOSPELL DIGITAL TECHNOLOGY","CHESS ENGINEERING","CHEVIN SOFTWARE ENG","CHG Hospital Beds","CHIC TECHNOLOGY (CHINA)","CHINA DRAGON TECHNOLOGY","CHINA GREATWALL COMPUTER SHENZHEN","CHINA HOPEFUL GROUP HOPEFUL ELECTRIC","CHIPCOM","CHIPS & Systems","CHIPSEA TECHNOLOGIES (SHENZHEN)","CHIPSEN","CHIYODA SYSTEM RIKEN","CHOFU SEISAKUSHO","CHONGQING FUGUI ELECTRONICS","CHOUNG HWA TECH","CHROMATEK","CHROMATICS","CHROMATIS NETWORKS","CHUNG-HSIN ELECTRIC & MACHINERY MFG","CHUNIL ELECTRIC IND","CHUNTEX ELECTRONIC","CHUO ELECTRONICS","CHYNG HONG ELECTRONIC","CHYRON","CHeKT","CI Network","CIAC","CIAS Elettronica","CIBN Oriental Network(Beijing)","CIESSE","CIG SHANGHAI","CIMCON Lighting","CIMETRICS","CIMLINC","CIMSYS","CINCINNATI MICROWAVE","CINCO NETWORKS","CIPHER SYSTEMS","CIPRICO","CIRTEC MEDICAL SYSTEMS","CIS Crypto","CIS TECHNOLOGY","CITADEL COMPUTER","CITEL","CITICORP/TTI","CJ intelligent technology","CJSC NII STT","CJSC NORSI-TRANS","CJSC RTSoft","CK Telecom","CK Telecom (Shenzhen)","CKD","CKS","CLARIION","CLARINET SYSTEMS","CLARION CORPORATION OF AMERICA","CLAY PAKY","CLB Benelux","CLCsoft","CLEARPOINT RESEARCH","CLEMATIC","CLEVO","CLIENTEC","CLINICOMP INTL","CLOOS ELECTRONIC","CLOUD NETWORK TECHNOLOGY SINGAPORE PTE","CLOUD STAR TECHNOLOGY","CLOUDWALK TECHNOLOGY","CLOVER ELECTRONICS","CLP COMPUTER LOGISTIK PLANUNG","CLT INT'L IND","CLUSTRIX","CM Comandos Lineares","CM PARTNER","CM Precision Technology","CMA/Microdialysis","CMAX Wireless","CMC","CMC Electronics","CMD TECHNOLOGY","CMICRO","CMITECH","CML Emergency Services","CMOS SYSTEMS","CMOTECH","CMR KOREA","CMS COMPUTERS","CMS Electracom","CMS TECHNOLOGIES","CMZ Sistemi Elettronici","CNB Technology","CNCR-IT CO.,LTD,HangZhou P.R.CHINA","CNET TECHNOLOGY","CNEX Labs","CNF MOBILE SOLUTIONS","CNMP Networks","CNRS","CNSLink","CNSystems","CNet Technology","COACTIVE AESTHETICS","COASTCOM","COBI","COBS","COBY","COCOM","CODACO ELECTRONIC s.r.o","CODEX","CODONICS","COFLEC","COGENT COMPUTER SYSTEMS","COGENT DATA TECHNOLOGIES","COHERENT COMMUNICATIONS SYSTEMS","COL GIOVANNI PAOLO","COLORGRAPH","COM&C","COM21","COMAG Handels","COMBINET","COMCAM INTERNATIONAL","COMDA ENTERPRISES","COMECER Netherlands","COMELIT GROUP","COMELTA","COMENDEC","COMESTA","COMFILE Technology","COMFLUX TECHNOLOGY","COMING MEDIA","COMMANDO Networks","COMMANDO Networks Pvt","COMMISSARIAT A L`ENERGIE ATOM","COMMODORE INTERNATIONAL","COMMSEN","COMMTACT","COMMTECH TECHNOLOGY MACAO COMMERCIAL OFFSHORE","COMMUNICATION AUTOMATION","COMMUNICATION DEVICES","COMMUNICATIONS ELECTRONICS SECURITY GROUP","COMMVISION","COMMidt","COMONE","COMOS TELECOM","COMPAC","COMPACT DATA","COMPACT DEVICES","COMPAL INFORMATION (KUNSHAN)","COMPAL INFORMATION(KUNSHAN)","COMPASS SYSTEMS","COMPCONTROL","COMPEX","COMPU-SHACK ELECTRONIC","COMPUADD","COMPUCORP","COMPULITE R&D","COMPUNETIX","COMPUSERVE","COMPUTADORAS MICRON","COMPUTADORES MODULARES","COMPUTATIONAL SYSTEMS","COMPUTER & COMMUNICATION RESEARCH LAB","COMPUTER CONSOLES","COMPUTER GENERATION","COMPUTER HI-TECH","COMPUTER IDENTICS","COMPUTER OFFICE","COMPUTER OPERATIONAL","COMPUTER PERIPHERALS","COMPUTER SOCIETY MICROPROCESSOR & MICROPROCESSOR STANDARDS C","COMPUTER SYSTEMS ENGINEERING","COMPUTER TECHNICA","COMPUTER TECHNOLOGY","COMPUTERM","COMPUTERVISION","COMPUTEX","COMPUTONE SYSTEMS","COMPUTROLS","COMPUWARE","COMSAT","COMSOFT","COMSTAT DATACOMM","COMTEC","COMTEC SYSTEMS","COMTECH RESEARCH","COMTREE TECHNOLOGY","COMTROL","COMTRON","COMTTI Intelligent Technology(Shenzhen)","COMXION Technology","CONCEPTION ELECTRONIQUE","CONCH ELECTRONIC","CONCORD COMMUNICATIONS","CONCUR SYSTEM TECHNOLOGIES","CONCURRENT COMPUTER","CONDOR SYSTEMS","CONELCOM","CONET","CONEXANT SYSTEMS","CONEXTOP","CONGRUENCY","CONNECT","CONNECTED SYSTEMS","CONNECTION MACHINES SERVICES","CONNER PERIPHERALS","CONPROVE","CONRAD","CONSERVATION THROUGH INNOVATION","CONSPIN SOLUTION","CONSTELL8","CONTAL OK","CONTEC","CONTEMPORARY CONTROL","CONTINUUM TECHNOLOGY","CONTROL DATA","CONTROL RESOURCES","CONTROL SOLUTIONS","CONTROL TECHNOLOGY","CONTROLLED ENVIRONMENTS","CONTROLWARE","CONTROLtronic","CONVERGENT NETWORKS","CONVEX COMPUTER","CONVEY INDIA PRIVATE","CONVISION TECHNOLOGY","CONWARE COMPUTER CONSULTING","CONWIN.Tech","CONWISE Technology","COOCAA Network Technology CO.,TD","COOLKSKY","COOSEA GROUP (HK)","COP SECURITY SYSTEM","COPAN Systems","COPERNIQUE","COPPER MOUNTAIN COMMUNICATIONS","CORAL NETWORK","CORDANT","CORDER ENGINEERING","CORE","CORE DIGITAL ELECTRONICS","CORE STAFF","CORELIS","CORESYS","CORNELL Communications","CORNELL UNIVERSITY","CORNET TECHNOLOGY","COROLLARY","COROMETRICS MEDICAL SYSTEMS","CORONA","CORPORATE NETWORK SYSTEMS","CORVIS","CORVUS SYSTEMS","COSINE COMMUNICATIONS","COSMIC ENGINEERING","COSMIQ EDUSNAP PRIVATE","COSMO","COSTEL","COSYSTEMS","COT","COTEAU VERT","COTRON","COULTER","COUNTER SOLUTIONS","COUNTERPOINT COMPUTER","COVAX","COWBELL ENGINEERING","COWON SYSTEMS","COX","COYOTE SYSTEM","COYOTE TECHNOLOGIES","COmputime","CP CLARE","CP GEORGES RENAULT","CP PLUS GMBH & CO. KG","CPI","CQ","CQOS","CRAY COMMUNICATIONS","CREATIVE CONTROLLERS","CREATIVE ELECTRONIC SYSTEMS","CREATIVE MICROSYSTEMS","CRESCENT NETWORKS","CRESITT INDUSTRIE","CRESTRON ELECTRONICS","CRESYN","CREVIS","CRFS","CRISP AUTOMATION","CRISTIE ELECTRONICS","CROMEMCO","CRONOS","CROSSCOMM","CROSSROADS SYSTEMS","CRRC DALIAN R&D","CRU-Dataport","CRYPTO","CRYSTAL SEMICONDUCTOR","CReTE SYSTEMS","CRemote","CS","CS COMPUTER SYSTEME","CS Services","CS Systemes De Securite - C3S","CS TELECOM","CSE-Servelec","CSEE Transport","CSG Science & Technology Co.,Ltd.Hefei","CSI-CONTROL SYSTEMS","CSIR","CSJ Global","CSK","CSL Dualcom","CSM","CSP Frontier Technologies","CSPI","CSR ZHUZHOU INSTITUTE","CSS","CSS LABS","CSSI (S) Pte","CSST","CSUN System Technology","CTC Union Technologies","CTE International","CTEK Sweden","CTERA Networks","CTI PRODUCTS","CTR","CTRING","CTS","CTS System","CTS-Clima Temperatur Systeme","CU Velocity","CUB ELECPARTS","CUBE TECHNOLOGIES","CUBIX","CUMMINS-ALLISON","CUMULUS CORPORATIION","CUTLER-HAMMER","CVC","CVT","CWD INNOVATION","CWT","CXP DIGITAL","CXR Anderson Jacobson","CYBELEC","CYBERDATA","CYBERGRAPHIC SYSTEMS","CYBERNETICS TECH","CYBO","CYCLADES","CYCLE COMPUTER","CYCLONE MICROSYSTEMS","CYG SUNRI","CYGNET SYSTEMS","CYLINK","CYPRESS SEMICONDUCTOR","CYQ've Technology","CYRA TECHNOLOGIES","CYZENTECH","CZ.NIC, z.s.p.o","Caavo","Cable Matters","Cable Vision Electronics","CableFree Networks","CableWorld","Cabletime","Cabletron Systems","Cablevision","Cableware Electronics","Cabot Communications","Cache IQ","CacheFlow","CacheVision","Cachengo","Cadac Holdings","Cadco Systems","Cadi Scientific Pte","Cadmos microsystems","Cal-Comp Electronics & Communications","CalDigit","Calamp Wireless Networks","Calantec","Caldero","Cale Access","Calian Advanced Technologies","Calibre UK","California Amplifier","California Eastern Laboratories","California Things","Calix","Calix Networks","Call Direct Cellular Solutions","CallTechSolution","CallURL","Callpod","Calrec Audio","Calsys","Calxeda","Calypso Medical","Calyptech","Cambium Networks","Cambridge Broadband Networks Group","Cambridge Consultants","Cambridge Executive","Cambridge Industries Group (CIG)","Cambridge Industries(Group)","Cambridge Medical Robotics","Cambridge Mobile Telematics","Cambridge Silicon Radio","Cambridge Visual Networks","Cambrionix","Camco Technologies","Cameo Communications","Cameronet GmbH & Co. KG","Camille Bauer","Camrivox","Camtel Technology","CanTops","Canadian Bank Note","Canal +","Canary Connect","Canberra Industries","Candera","Canesta","Canhold International","Cannice","Canoga Perkins","Canon Imaging Systems","Canon Korea","Canopus Systems US","Canopy Growth","Canopy Works","Cantronic International","Cap","Capelon","Capinfo","Capisco","Capital Equipment","Caporis Networks","CaptionCall","Captivate Network","Car Connectivity Consortium","Cara Systems","Carallon","Card Access","CardioNet","CardioTek","Cardiopulmonary","CarePredict","CareView Communications","Career Technologies USA","Carefusion","Carel","Carestream Health","Caretech","Carex Lighting Equipment Factory","Cargt Holdings","Carina System","Carina Technology","Carl Valentin","Carl Zeiss","Carma Industries","Carmanah Signs","Carnegie Technologies","Carrier","Carrier Culoz","Carrier Fire & Security","CarrierComm","Carry Technology","Carvers SA de CV","Casa Systems","Casacom Solutions","Cash Systemes Industrie","CashGuard Sverige","Cashmaster International","Casio Hitachi Mobile Communications","Caspian","CastGrabber","Castelion","Castle Technology","Castlenet Technology","Castles Technology","Catalyst Enterprises","Catapult Communications","Catcher","Category Solutions","Catena Networks","Caterpillar","Caterpillar Trimble Control Technologies","Cathay Communication","Cathay Roxus Information Technology","Cathexis","Caton Overseas","Cav. Uff. Giacomo Cimberio","Cavanagh Group International","Cavena Image Products","Cavera Systems","Cavium","Cavli","Cayee Computer","CeLa Link","Cear","Cedac Software","Cedar Point Communications","CeedTec","Ceemax Technology","Ceiec Electric Technology","CelPlan International","Celeno Communications","Celestial Semiconductor","Celestix Networks Pte","Celio","CellPoint Connect","CellTel","Cellco Partnership","CelleBrite Mobile Synchronization","Celleritas","Cellient","Cellink","Cellinx Systems","Cello Electronics (UK)","Cellon France","Cellvision Systems","Celona","Celsian Technologies","Celtro","Centec Networks","Center Communication Systems","Centera Photonics","Centerpoint Broadband Technologies","Centillium Communications","Centos","CentraLite Systems","Centrak","Central Denshi Seigyo","Central Music","Central Network Solution","Centre For Development Of Telematics","Centripetal Networks","Centro Sicurezza Italia","CenturyLink","Cepheid","Cepton Technologies","CeraMicro Technology","Ceragon Networks","Cercacor Labs","Cerebras System","Cerebras Systems","Cerio","Cermate Technologies","Cermetek Microelectronics","Cernium","Certicom","Cetacea Networks","Cetacean Networks","Cetis","Ceton","Cezzer Multimedia Technologies","Chabrier Services","Chainleader Communications","Chainzone Technology","Challenger Supply Holdings","Chamberlain Access Solutions","Chameleon Technology (UK)","Champion Optical Network Engineering","Chaney Instrument","ChangYang Technology (Nanjing)","Changchun Huayu WEBPAD","Changchun Jetty Automotive Technology","Changhe Electronics","Changshu Gaoshida Optoelectronic Technology","Changshu Switchgear MFG. Co.,Ltd. (Former Changshu Switchgea","Changwang Technology","Changzhi City Zhouyi Hengtong Information Security","Changzhou Haojie Electric","Changzhou Tiannengbo System","Changzhou Uchip Electronics","Changzhou Yongse Infotech","Chanson Water","Chantry Networks","Chaoyue Technology","ChargeStorm","Charles Industries","Charles River Laboratories","Chauvet","Check Point Software Technologies","Checkpoint Systems","Cheerchip Electronic Technology (ShangHai)","Cheering Connection","Cheerstar Technology","Cheertek","Cheerzing Communication(Xiamen)Technology","Cheetah Hi-Tech","Chelsio Communications","Chelton","Chemelex","Chemoptics","Chemtronics","Chenbro Micom","Cheng Hongjian","Cheng Uei Precision Industry","ChengDu JiaFaAnTai Technology","ChengDu TD Tech","Chengdu 30Kaitian Communication Industry","Chengdu BeiZhongWangXin Technology","Chengdu ChipIntelli Technology","Chengdu Fuhuaxin Technology","Chengdu GeeYa Technology","Chengdu Geeker Technology","Chengdu Higon Integrated Circuit Design","Chengdu Hurray Data Technology","Chengdu InnoThings Technology","Chengdu InnovaTest Technology","Chengdu Jiarui Hualian Communication Technology","Chengdu Jiuzhou Electronic Technology","Chengdu KT Electric Co.of High & New Technology","Chengdu Linkon Communications Device","Chengdu Maipu Electric Industrial","Chengdu Meross Technology","Chengdu Phycom Tech","Chengdu Qianli Network Technology","Chengdu Quanjing Intelligent Technology","Chengdu SingCore Technology","Chengdu Vision-Zenith Tech","Chengdu Volans Technology","Chengdu XGimi Technology","Chengdu Xiyida Electronic Technology","Chengdu Yingji Electronic Hi-tech","Chengdu Yocto Communication Technology","Chengdu ethercom information technology","Chengdu jinshi communication","Chengdu newifi","Cheops Elektronik","Cherry","Chi Lin Technology","Chi Mei Communication Systems","Chiaro Networks","Chicony Electronics","Chih-Kan Technology","China Broadband Wireless IP Standard group(ChinaBWIPS)","China Daheng Group","China Dragon Technology","China Electric Power Research Institute","China Electronics Cloud Computing Technology","China Entropy","China Essence Technology (Zhumadian)","China Grand Communications","China Great-Wall Computer Shenzhen","China Gridcom","China Hualu Panasonic AVC Networks","China IWNComm","China Leadshine Technology","China Mobile (Hangzhou) Information Technology","China Mobile Chongqing branch","China Mobile Group Device","China Mobile IOT","China Mobile Iot","China Mobile(Hangzhou) Information Technology","China Palms Telecom","China Post Communication Equipment","China Post Communications Equipment","China SSJ (Suzhou) Network Technology","China Telecom","China Telecom Fufu Information Technology","China TransInfo Technology","China Unicom Online Information Technology","Chinasys Technologies","Chino","Chip PC","Chip-pro","Chip2Chip","ChipER Technology","Chipsea Technologies (Shenzhen)","Chipsea Technologies (Shenzhen) Crop","Chipsea Technologies(Shenzhen)","Chipsguide technology","Chipsip Technology","Chiron Technology","Chitai Electronic","Chiun Mai Communication System","Chiyoda Electronics","Chiyu Technology","Chloride","Choice IT Global","ChongQing Camyu Technology Development","ChongQing GuanFang Technology","ChongQing JINOU Science & Technology Development","ChongQing Lavid Technology","ChongQing QingJia Electronics","Chongho information & communications","Chongqing Ehs Science and Technology Development","Chongqing Guohong Technology Development","Chongqing Huijiatong Information Technology","Chongqing MAS SCI&TECH","Chongqing Miedu Technology","Chongqing Sichuan Instrument Microcircuit","Chongqing Trantor Technology","Chongqing Yipingfang Technology","Chongqing ZQZER Technology","Chongqing Zhouhai Intelligent Technology","Chongqing Zhouhai intelligent technology","Chou Chin Industrial","Chr. Mayr GmbH & Co. KG","Christie Digital Systems","Chroma","Chromisys","Chromlech","Chrontel","Chrysalis Development","ChuanG International Holding","Chuang-Yi Network Equipment","Chuango Security Technology","Chubb CSC-Vendor AP","Chubb Electronic Security Systems","Chun-il","Chung Fu Chen Yeh Enterprise","Chung Nam Electronic","Chunghua Intelligent Network Equipment","Chunghwa Telecom","Chunichi Denshi","Chyi Lee industry","Cianet Industria e Comercio S/A","Ciara Technologies","Cicada Semiconductor","Cidco","Cidra","Ciena","Cierma Ascenseurs","Ciholas","Cilag GmbH International","Cinch Connectors","Cincoze","Cinetal","Cinta Networks","Cintech","CipherOptics","Circle Media","Circle Reliance, Inc DBA Cranberry Networks","Circleone","Circontrol","CiriTech Systems","Cirilium","Cirkitech Electronics","Cirrascale","Cirrus Logic","Cisco Meraki","Cisco SPVTG","Cisco Systems","Cisco-Linksys","Citadel Wallet","Citel","Citel Technologies","Citiway technology","Citizen Watch","Citrix Systems","Citronix","City Theatrical","City-Net Technology","CityCom","Clack","ClarIDy Solutions","Clare Controls","ClariPhy Communications","Clarion (M)","Clariphotonics","Clarity Design","Clavister","Clear Align","Clear Edge Networks","ClearCube Technology","ClearOne","ClearPath Networks","ClearSky Data","Clearbox Systems","Clearwire","Cleondris","ClickTV","Climax Technology","CliniCare","Clipcomm","Clipsal Australia","Clivet","Cloud Corner","Cloud Diagnostics Canada ULC","Cloud Engines","Cloud Light Technology","Cloud Network Technology (Samoa)","Cloud Telecomputers","Cloud Vision Networks Technology","CloudGenix","CloudShield Technologies","CloudSwitch","Cloudastructure","Cloudena","Cloudflare","Cloudistics","Cloudium Systems","Cloudleaf","Cloudtronics","Cloudview","Clourney Semiconductor","Clover Network","Cloverleaf Communications","Clovertech","Cluster Labs","Co-Comm Servicios Telecomunicaciones S.L","CoNet Communications","CoSyst Control Systems","CoVi Technologies","Coach Master International d.b.a. CMI Worldwide","CoachComm","Coagent International Enterprise","Coastal Environmental Systems","Coax Media","Coaxial Networks","Cobalt Digital","CobaltRay","Cobham","Cocess Telecom","Cochlear","Cocoon Alarm","Codan","Code","Coder Electronics","Codetek Technology","Codex Digital","Codian","Coffee Equipment","Cofractal","Cogency Semiconductor","Cogent Defence & Security Networks","Cogent Healthcare Systems","Cogent Systems","Cognex","Cognio","Cognitas Technologies","Cognitec Systems","Cognitive Systems","Cohda Wireless","Cohere Technologies","Coherent","Coherent Research","Cohesity","Cohesive Financial Technologies","Coho Data","Cohu, Inc., Electronics Division","Collex","Collinear Networks","Color Kinetics","Color Sentinel Systems","Color-Chip","ColorTokens","Colorado Med Tech","Colorado Vnet","Colubris Networks","ComAp s.r.o","ComCore Semiconductor","ComDesign","ComWorth","Comark Interactive Solutions","Comart system","Comat","Comau","Comba Telecom Systems (China)","CombiQ","Comcast","Comcast Cable","Comdial","Comigo","Comjet Information Systems","Comlab","CommAgility","CommFront Communications Pte","CommScope","CommSky Technologies","CommUnique Wireless","Command-e Technology","Commend International","CommerceGuard","Commerciant, LP","Commil","Commodore International","Common Networks","Commonwealth Scientific and Industrial Research Organisation","Commscope","Commscraft","Commtech","Commtest Instruments","Communication Machinery","Communication Networks","Communication System Design & Manufacturing (CSDM)","Communication Weaver","Communications & Power Industries","Communications & Power Industries / Satcom Division","Comnect Technology","CompXs","Compacta International","Compal Broadband Networks","Compal Communications","Compal Electronics","Companies House to GlucoRx Technologies","Company NA Stage & Light","Compass System(Embedded Dept.)","Compass Technologies","Compass-EOS","Compellent Technologies","Comper Technology Investment","Compex","Compex Systems Pte","Complementary Technologies","Complete Media Systems","Comprehensive Power","Compressor Controls","Compro Technology","CompuLab","CompuSoft","Compucase Enterprise","Compulogic","Compumedics","Compupal (Group)","Compuprint","Computec","Computer Engineering","Computer Hardware Design SIA","Computer Performance, Inc. DBA Digital Loggers","Comsis","Comspace","Comstock RD","Comsys Communication","Comtec","Comtech EF Data","Comtech Technology","Comtrend","Comtrol Europe","ConMed Linvatec","ConMet","ConSentry Networks","Concept Development","Concept Pro Surveillance","Concept2","Conceptronic","Concern Axion JSC","Concord Idea","Concorde Microsystems","Concurrent Technologies","Condalo","Condev","Conductix-Wampfler","ConferTech International","Confidant International","Conitec Datensysteme","Conklin","Conlog (Pty)","Connect One","Connect Tech","ConnectQuest","Connected Data","Connected Home","Connection Technology Systems","Connex","Connexionz","Conrad Electronic SE","Consensys Computers","Consert","Consilium","Consolidated Resource Imaging","Consort Controls","Construcciones y Auxiliar de Ferrocarriles","Consultronics Europe","Consumer Technologies Group","ConteXtream","Contec","Contela","Contemporary Research","Contex","Conti Temic Microelectronic","Conti Temic microelectronic","Continetal Automotive Systems Sibiu","Continuous Computing","Continuum Photonics","Contour Design","Control Accessories","Control Applications","Control Concepts","Control Dynamics","Control Express Finland","Control Module","Control Products","Control Sistematizado","Control Solutions","Control Techniques","Control Technology","Control iD","Control4","ControlNet","ControlNet (India) Private","ControlThings","Controlled Electronic Manageme","Convedia","Convergence Technologies","Convergenet Technologies","Convergens","ConversDigital","Conversion Sound","Converter Industry","Convey Computer","Cool Control","CoolBitX","Cooler Master Technology","Cooper Lighting Solutions","Coordiwise Technology","Copeland - Transportation Solutions ApS","Copeland LP","Copley Controls","Copper Mountain Technologies","CopperCom","CorEdge Networks","Coral Telecom","Coram AI","Core Brands","Core Communications","Core Logic","Core Micro Systems","Core System Japan","Core Tec Communications","CoreBell Systems","CoreEdge Networks","CoreOS","CoreStar International","CoreTrust","Corecess","Corega of America","Corelatus","Coretree","Coretronic","Coriant","Corinex Communication","Corintech","Coriolis Networks","Cornami","Cornelis Networks","Cornelius Consult","Cornet Technology","Cornet Technology India Pvt","Corning","Corporacion Empresarial Altra SL","Corporation of the Presiding Bishop of The Church of Jesus Christ of Latter-day Saints","Corrent","Corrigent Systems","Corsa Technology","Corsair Memory","Cortex Security","Cortina Systems","Cortland Research","Corvalent","Corventis","Cos Tron","Cosco Electronics","Cosesy ApS","Cosmo Research","Cosmo Techs","Cosonic Electroacoustic Technology","Cosonic Intelligent Technologies","Costar Video Systems","Costar electronics","Coster T.E","Cosworth Electronics","Cotas Computer Technology A/B","Cots Technology","Coulomb Technologies","CountMax","Countwise","Coup","Coval","Covergence","Covia","Covote GmbH & Co KG","Cox Communications","Cradle Technologies","CradlePoint","Cranite Systems","Cratos Networks","Cray","CreNova Multimedia","Creatcomm Technology","Create New Technology (HK)","Creation Technologies LP","Creativ Network Technologies","Creative Chips","Creative Electronics & Software","Creative Next Design","Creative Product Design","Creative Technology","Creative&Link Technology","Creatix Polymedia Ges Fur Kommunikaitonssysteme","Creatz","Cree","Crenet Labs","Crenus","Creotech Quantum","Creowave","Crere Networks","Crescendo Networks","Crest Audio","Cresyn","Creval Systems","Crewave","Crexendo Business Solutions","Cricut","Crinis Networks","Critical IO","Criticare Systems","Crompton Instruments","Cronoplast S.L","Cronyx Engineering","Cross Match Technologies","Cross Point","Crossbeam Systems","Crossbow Technology","Crossmatch Technologies/HID Global","Crossport Systems","Crouzet Automatismes","Crow Electronic Engeneering","Crown Audio -- Harmanm International","Cryptek","Crypto","CryptoMetrics","Cryptosoft","Cryptsoft","Crystal Group","Crystal Vision","Crystalfontz America","Ctek","CubePilot","Cubic Defense Applications","Cubic Defense Simulation Systems","Cubic Transportation Systems","Cubro Acronet GesmbH","Cuciniale","Cudo Communication","Cuff","Cummings Engineering","Cummins","Cumulus Networks","Curiouser Products","Currant","Current Energy","Current, powered by GE","Curtis","Curtis Instruments","Curtiss Wright Controls Embedded Computing","Curtiss-Wright Controls Avionics & Electronics","Curvalux","Curves International","Cust2mate","Custom Computer Services","Custom Engineering","Custom Micro Products","Cutera","CviLux","Cwlinux","CxTEK Innovations India Pvt","CyVerse","CyWee Group","Cyan Optic","Cyber Fone","Cyber Solutions","Cyber Switching","Cyber Technology","Cyber Trans Japan","Cyber-Rain","CyberNet","CyberOptics","CyberPower Systems","CyberTAN Technology","Cybera","Cyberboard","Cyberdyne","Cybernetics","Cybertec","Cybertech","Cybertech Telecom Development","Cybertelbridge","Cybiotronics (Far East)","Cyclotronics Power Concepts","Cydle","Cyfrowy Polsat","Cygnal Integrated Products","Cygnet Technologies","Cygnus Microsystems (P)","Cyklop Fastjet Technologies (Shanghai)","Cylon Controls","Cymphonix","Cymtec Systems","Cynny Italia","Cynosure Technologies","Cynove","Cypak","Cypress Electronics","Cypress Solutions","Cypress Technology","Cyras Systems","Cytiva Sweden","Cytyc","Cyviz","Công ty Cổ phần Thiết bị Công nghiệp GEIC","D&M Holdings","D&R Electronica Weesp","D-BOX Technologies","D-Fend Solutions A.D","D-LINK SYSTEMS","D-Link","D-Link (Shanghai)","D-Link International","D-Link Middle East FZCO","D-MAX Technology","D-NET International","D-TACQ Solutions","D. E. Shaw Research","D. ORtiz Consulting","D.SignT GmbH & Co. KG","D3 LED","DAC ENGINEERING","DACOLL","DACOS Technologies","DADOUTEK","DAE EUN ELETRONICS","DAEHAP HYPER-TECH","DAEHO I&T","DAEMYUNG ZERO1","DAESHIN-INFORMATION TECHNOLOGY","DAEWOO ELECTRONICS","DAEWOO TELECOM","DAEWOOIS","DAEYEON Control&Instrument","DAEYOUNG INFORMATION SYSTEM","DAGS","DAIHAN Scientific","DAIICHI ELECTRONICS","DAIICHI-DENTSU","DAIKIN INDUSTRIES","DAIKYUNG VASCOM","DAIN TELECOM","DAINIPPON PHARMACEUTICAL","DAINIPPON SCREEN","DAISY SYSTEMS","DAKO EDV-Ingenieur- und Systemhaus","DAKOS Data & Communication","DALIAN DAXIAN NETWORK","DALIAN LAMBA TECHNOLOGY","DALLAS SEMICONDUCTOR","DANA COMPUTER","DANCONTROL Engineering","DANIEL INSTRUMENTS","DANSK DATA ELECTRONIK","DANTEL","DAONTEC","DAP Technologies","DAPHNE","DAQ Electronics","DAQ System","DARFON LIGHTING","DARTMOUTH COLLEGE","DARTS TECHNOLOGIES","DASAN","DASAN Network Solutions","DASAN Networks","DASAN Newtork Solutions","DASAN TPS","DASCOM Europe","DASSAULT ELECTRONIQUE","DAT H.K","DAT System","DATA & CONTROL EQUIPMENT","DATA & INFORMATION TECHNOLOGY","DATA ELECTRONICS (AUST.)","DATA LABS","DATA LINK","DATA NET","DATA RACE","DATA RECALL","DATA RESEARCH & APPLICATIONS","DATA TRANSMISSION NETWORK","DATABILITY SOFTWARE SYS","DATACOM","DATACOM TECHNOLOGIES","DATACORE SOFTWARE","DATAEXPERT","DATAFUSION SYSTEMS","DATAHOUSE INFORMATION SYSTEMS","DATAINDUSTRIER DIAB","DATALUX","DATAMEDIA","DATAMETRICS","DATAPOINT","DATAPRODUCTS","DATAQ Instruments","DATASENSOR","DATATECH ENTERPRISES","DATATREK","DATAVAN TC","DATAWATT","DATAX","DATECS","DATENO","DATENTECHNIK","DATEX DIVISION OF","DATONG ELECTRONICS","DATTUS","DATUS","DAUPHIN TECHNOLOGY","DAVICOM SEMICONDUCTOR","DAVID SYSTEMS","DAVISCOMMS (S) PTE","DAVOLINK","DAWN COMPUTER INCORPORATION","DAWON DNS","DAYNA COMMUNICATIONS","DAYOUPLUS","DAYSTAR DIGITAL","DB Communication & Systems","DBG Commnunications Technology","DBG HOLDINGS","DBL Technology","DBS Lodging Technologies","DBTEL","DC Security Products","DCI","DCONWORKS","DCS","DCT-Delta","DCTRI","DDL","DDRdrive","DDoS-Guard","DEARBORN GROUP","DECIMATOR DESIGN","DECISION EUROPE","DEDICATED MICROCOMPUTERS","DEEPLET TECHNOLOGY","DEEPTRACK S.L.U","DEFIDEV","DEI Sales","DEICY","DEIF","DEKA R&D","DELCOMp","DELEC","DELEM","DELORME","DELTA COMPUTER SYSTEMS","DELTA CONTROLS","DELTA DORE","DELTA NETWORKS","DELTAKABEL TELECOM CV","DENSAN","DENSITRON TAIWAN","DENSO","DENT Instruments","DENTSPLY - Gendex","DENTUM","DENY FONTAINE","DEOS control systems","DEOTRON","DEP","DEPARTMENT OF FOREIGN AFFAIRS","DEPO Electronics","DEPRAG SCHULZ GMBH u","DERA","DEREK (SHAOGUAN)","DESAY A&V SCIENCE AND TECHNOLOGY","DESAY ELECTRONICS(HUIZHOU)","DESIGN RESEARCH SYSTEMS","DESKNET SYSTEMS","DESSMANN (China) Machinery & Electronic","DETRACOM","DEUTSCHE AEROSPACE","DEV Tecnologia Ind Com Man Eq LTDA","DEVA Broadcast","DEVELCON ELECTRONICS","DEVELOPMENT CONCEPTS","DEVI - Danfoss","DEVLINE","DEVON IT","DEWAV (HK) ELECTRONICS","DEXDYNE","DEXON Systems","DEXTER Communications","DEY Storage Systems","DFI","DFM","DFT System","DG2L Technologies Pvt","DGS Diagnostics","DGSQ","DGSTATION","DGT Sp. z o.o","DH TECHNOLOGY","DH electronics","DHC Software","DHD","DIABLO RESEARCH","DIAL TECHNOLOGY","DIALOGIC","DIAMOND LANE COMMUNICATIONS","DIAMOND MULTIMEDIA","DIAMOND NETWORK TECH","DIAMOND SALES","DIAODIAO(Beijing)Technology","DIATEK PATIENT MANAGMENT","DIBA","DIBAL","DIBOSS","DICA TECHNOLOGIES","DICKENS DATA SYSTEMS","DICNA CONTROL","DICTAPHONE","DIEHL Connectivity Solutions","DIGALOG","DIGALOG SYSTEMS","DIGI I'S","DIGI-DATA","DIGIANSWER","DIGIBRAS INDUSTRIA DO BRASILS/A","DIGICOM SYSTEMS","DIGIGRAM","DIGINICS","DIGIT","DIGITAL ART SYSTEM","DIGITAL AUDIO PROCESSING","DIGITAL BI0METRICS","DIGITAL COMMUNICATIONS","DIGITAL CONTROLS","DIGITAL DESIGN","DIGITAL ENGINEERING","DIGITAL EQUIPMENT","DIGITAL FORECAST","DIGITAL HANDS","DIGITAL LIGHTWAVE","DIGITAL LINK","DIGITAL MICROWAVE","DIGITAL OCEAN","DIGITAL PRODUCTS","DIGITAL SERVICES","DIGITAL SOLUTIONS","DIGITAL SYSTEMS INT'L","DIGITAL TELEMEDIA","DIGITAL TRANSMISSION SYSTEMS","DIGITAL VIDEO","DIGITALCAST","DIGITALKS","DIGITECH INDUSTRIES","DIGITEK MICROLOGIC","DIGITRA SYSTEMS","DIGITRONIC Automationsanlagen","DIGITVIEW TECHNOLOGY","DIMAT","DIMEP Sistemas","DINEC International","DINGXIN INFORMATION TECHNOLOGY","DIONEX","DIRC Technologie GmbH & Co.KG","DIRECTV","DIRMEIER Schanktechnik GmbH &Co KG","DISPLAIRE","DISTRIBUTED PROCESSING TECHNOLOGY","DISTRIBUTED SYSTEMS INT'L","DITECH","DIV OF RESEARCH & STATISTICS","DIVERSIFIED TECHNOLOGY","DIVIO","DIVR Systems","DIVUS","DIZIPIA","DJI BAIWANG TECHNOLOGY","DJI Osmo Technology","DK Networks","DKT","DLG Automação Industrial Ltda","DLI Taiwan Branch office","DLOG NC-SYSTEME","DLOGIC","DLX","DMATEK","DMD Computers","DME Micro","DMG MORI Digital","DMP Electronics","DMS DORSCH MIKROSYSTEM","DNE Technologies","DNPG","DO-MONIX","DOCUMENT TECHNOLOGIES","DOCUPOINT","DOLBY LABORATORIES","DOLI Elektronik","DOMEX TECHNOLOGY","DOMS","DONG OH PRECISION","DONGGUAN HELE ELECTRONICS","DONGGUAN HUARONG COMMUNICATION TECHNOLOGIES","DONGGUAN QISHENG ELECTRONICS INDUSTRIAL","DONGGUAN SOLUM ELECTRONICS","DONGGUAN YISHANG ELECTRONIC TECHNOLOGY","DONGGUAN ipt INDUSTRIAL","DONGYANG TELECOM","DOOIN ELECTRONICS","DOSCH & AMAND SYSTEMS","DOVATRON","DOVE COMPUTER","DPAC Technologies","DPS","DQ Technology","DR. B. STRUCK","DR. JOHANNES HEIDENHAIN","DRD Automation","DRESSLER","DRIMAES","DRS Consolidated Controls","DRS Imaging and Targeting Solutions","DRS Signal Solutions","DRS Tactical Systems","DRS Technologies Canada","DRS Test and Energy Management or DRS-TEM","DRTECH","DRUST","DResearch","DS Global","DS International","DS Tech","DSA","DSA Encore","DSC","DSC COMMUNICATION","DSE","DSG Technology","DSL Partner","DSP Application","DSP SOLUTIONS","DSPECIALISTS","DSPWorks","DSSD","DSX Access Systems","DT Research","DTI","DTI Group","DTL Broadcast","DTS ELEKTRONIK SAN. TIC. LTD. STI","DTVRO","DU PONT PIXEL SYSTEMS","DUAL ENTERPRISES","DUALi","DUCATI SISTEMI","DUERR DENTAL","DUKANE NETWORK INTEGRATION","DUNE HD","DUX","DVC","DVICO","DVL","DVN(Shanghai)","DVR C&C","DVS","DVS Korea","DVT","DWB ASSOCIATES","DWnet Technologies(Suzhou)","DX ANTENNA","DX Antenna","DXO Telecom","DY-4","DYNACOLOR","DYNAMIC NETWORK FACTORY","DYNARC","DYNATECH COMPUTER SYSTEMS","DYNATEM","DZG Metering","DaTARIUS Technologies","Daehanet","Daeryung Ind","Daewoo Teletech","Daeyoung Electronics","Dage-MTI of MC","Dai Nippon Printing","Daiden","Daido Signal","Daihen","Daikin Air-conditioning (Shanghai)","Daikin Europe","Daikin Holdings Singapore Pte","Daimler Truck","Daintree Networks","Dairy Cheq","Daisy Technologies","Daktronics","Dali Wireless","Dalian Co-Edifice Video Technology","Dalian Golden Hualu Digital Technology","Dalian Hi-Think Computer Technology","Dalian Seasky Automation Co;","Dallmeier electronic","Damalisk","Damall Technologies","Dametric","Damm Cellular Systems","Danaher Motion - Kollmorgen","Danal Entertainment","Danam Communications","Danelec Electronics","Danfoss","Danfoss Drives","Danfoss Solar Inverters","Danfoss Turbocor Compressors","Dangaard Telecom Denmark","Daniel Computing Systems","Daniels Electronics Ltd. dba Codan Radio Communications","Danish Interpretation Systems","Danlaw","Danpex","Dansensor","Dantherm Power","DapTechnology","DarbeeVision","Darim Vision","DarkMatter","Daruma Telecomunicações e Informática","Dasan Electron","DatNet Informatikai Kft","Data","Data Acquisitions","Data Center Systems","Data Comm for Business","Data Controls","Data Device","Data Direct Networks","Data Display","Data East","Data General Communication","Data Innovations North America","Data Management","Data Modul","Data Respons","Data Robotics","Data Track Technology","Data Video Technologies","Data Voice Technologies","DataCore Software","DataFab Systems","DataGravity","DataLogic","DataPower Technology","DataRemote","DataWind Research","Datacap Systems","Datacard Group","Datacolor","Datafox","Dataline","Datalogic ADC","Datamax","Datang Gohighsec(zhejiang)Information Technology","Datang Mobile Communications Equipment","Datang Telecom Technology CO. , LCD,Optical Communication Br","Datang Telecom communication terminal (Tianjin)","Dataplex","Dataprobe","Dataram","Datasoft ISDN Systems","Datasound Laboratories","Datastore Technology","Datastrip","Datasym POS","Datatech Sistemas Digitales Avanzados SL","Dataupia","Datawire Communication Networks","Datel Electronics","Datrium","Datron World Communications","Datum Systems","Dave Networks","David Clark","David Electronics","Davis Instruments","Davit Solution","Davit System Technology","Davolink","Dawevision","Dawning Information Industry","Dawon Media","Day One Digital Media","DaySequerra","Dazzle Multimedia","Dbii Networks","DeLaval International","DeTeWe-Deutsche Telephonwerke","Dea Security","Decatur Electronics","Deciso","Deck","Decrane Aerospace - Audio International","Decru","Dedicated Computing","Dedicated Devices","Dedicated Micros Malta","Dedicated Network Partners","Dediprog Technology","Deep Sea Electronics","Deepsound Tech","Definium Technologies","Defzone","Degreane Horizon","Dejai","DekTec Digital Video","Dell","Dell EMC","Dell Technologies","DellKing Industrial","Delphian Systems","Delphin Technology","Delta Control","Delta Electronics","Delta Elektronika","Delta Elettronica","Delta Faucet","Delta Information Systems","Delta Mobile Systems","Delta Networks","Deltacom Electronics","Deltanet","Deltanode Solutions","Deltenna","Deltron Technology","Demant","Demant Enterprise","Dematic","Demco","Denkovi Assembly Electronics","Dense Air Networks US","Denwa Technology","Deonet","Deqing Dusun Electron","Derek(Shaoguan)","Desana Systems","Descartes Systems (USA)","Design Combus","Design Design Technology","Design Solutions","Design-Com Technologies","DesignArt Networks","DeskStation Technology","Detlef Fink Elektronik & Softwareentwicklung","Deutron Electronics","Deutsche Telekom","Deutschmann Automation GmbH & Co. KG","Develco","Devialet","Device Drivers","DeviceDesign","Devicescape Software","Devlin Electronics","Dewar Electronics","Dewav Technology","Dex Security Solutions","Dexatek Technology","Dexin","Dhemax Ingenieros Ltda","DiGATTO Asia Pacific Pte","DiMoto","Diagnostic Instruments","Diagraph","Dialog","Dialog Semiconductor","Dialog Semiconductor Hellas","Dialogic","Dialogue Technology","Diamanti","Diamond Systems","Dictum Health","Diebold Nixdorf","Diehl BGT Defence GmbH & Co. KG","Diehl Metering","Diffon","Digeo","DigiBoard","DigiPower Manufacturing","DigiRose Technology","DigiView","Digiboard Eletronica da Amazonia Ltda","Digicable Network India Pvt","Digicom Futuristic Technologies","Digicube Technology","Digience","Digifriends","Digilent","Digimore Electronics","Diginfo Technology","Digiquest Electronics","Digisol Systems","Digistar Telecom","Digit Mobile","DigitAll World","Digita","Digital 5","Digital Acoustics","Digital Airways","Digital Ally","Digital Barriers Advanced Technologies","Digital Check","Digital China (Shanghai) Networks","Digital Control","Digital Control Technology","Digital Data Communications Asia","Digital Design","Digital Devices","Digital Electronic Network","Digital Electronics Products","Digital Everywhere Unterhaltungselektronik","Digital Fountain","Digital Generation","Digital Innovation","Digital Keystone","Digital Lifestyles Group","Digital Lighting Systems","Digital Logic","Digital Media Cartridge","Digital Monitoring Products","Digital Multimedia Technology","Digital Multitools","Digital Network Alacarte","Digital One Technologies","Digital Payment Technologies","Digital Processing Systems","Digital Products","Digital Projection","Digital RF Corea","Digital Recorders","Digital Sky","Digital Stream Technology","Digital Systems","Digital Telecom Technology","Digital United","Digital Video Broadcasting","Digital Video Communications","Digital Video Networks(Shanghai)","Digital View","Digital Voice Systems","Digital Watchdog","DigitalScape","DigitalSis","DigitalZone","Digitalbox Europe","Digitalwatt","Digitec Systems","Digitel","Digitel S/A Industria Eletronica","Digitize","Digitrax","Digitro Tecnologia Ltda","Digitron da Amazonia S/A","Digium","Digivoice Tecnologia em Eletronica Ltda","Digiwell Technology","Dignsys","Dilax Intelcom","Dilithium Networks","Dilog Nordic","DinBox Sverige","Dingtian Technologies","Dinstar Technologies","Dionica R&D","Diostech","Dipl.-Ing. H. Horstmann","Dipl.-Math. Michael Rauch","Direct Payment Solutions","DirectPacket Research","Directed Perception","Disco","Discovergy","Discovery Com","Discovery Insure","Discovery Technology","Dish Technologies","DishTV NZ","Diskbank","Diskware","DispenseSource","Display Solution","Display Systems","DisplayLink (UK)","Disruptive","Disruptive Technologies Research","DivergeNet","Diversey","Diversified Technical Systems","Divinet Access Technologies","Dixon Electro Appliances Pvt","Dixon Technologies (India)","Dixtal Biomedica Ind. Com. Ltda","Dlogixs","Dmet Products","Dmobile System","DoCoMo Systems","DoTop Technology","Doah Elecom","Dobbs Stanford","Doble Engineering","Dog Hunter","Dolby Australia","Dolphin Electronics (DongGuan)","Dolphin Interconnect Solutions","Dome Imaging","Dominion Lasercom","Dominion Voting Systems","Domino UK","Domo","Domo Tactical Communications","Domus NTW","Donaldson","DongGuan Ramaxel Memory Technology","DongGuan Siyoto Electronics","DongGuang EnMai Electronic Product","DongYang Telecom","Dongahelecomm","Dongguan Aoyuan Electronics Technology","Dongguan Auklink TechnologyCo","Dongguan Cannice Precision Manufacturing","Dongguan Haimai Electronie Technology","Dongguan Haoyuan Electronics","Dongguan Hele Electronics","Dongguan HuaHong Electronics","Dongguan Huayin Electronic Technology","Dongguan Koppo Electronic","Dongguan Liesheng Electronic","Dongguan Lingjie IOT","Dongguan Mentech Optical & Magnetic","Dongguan Ruilian Xiangtong Technology","Dongguan Sen DongLv Electronics","Dongguan Wecxw","Dongguan YIMO Technology","Dongju Informations & Communications","Dongnian Networks","Dongseo system","Donjin","Doorking","Dopple","Doppler Labs","Doremi Labs","Doro","Dot Origin","Dot Technology Int'l","Double D Electronics","Double-Take Software","Double-Win Enterpirse","Douglas Lighting Controls","Douyin Vision","Dovado FZ","Dover Fueling Solutions","Dowkey Microwave","Dowslake Microsystems","Dr. Ing. h.c. F. Porsche","Dr.Ing. Herbert Knauer","Draeger Medical","Draeger Medical Systems","Dragino Technology","Dragon Path Technologies","DragonWave","DragonWave Technologies DMCC","Dragonchip","Dragos","Dranetz - BMI","DrayTek","Dream Technologies","Dream Ware","Dream-Multimedia-Tv","DreamBig Semiconductor","Dreame Technology (Suzhou)","Dreamtech","Dreamtek Intelligent Technology","Dresser Wayne","Drew Technologies","Drimsys","DriveCam","DriveScale","Drivenets","Drivven","Drogoo Technology","Dropbeats Technology","Dropcam","Druid Software","Dryad Networks","Drägerwerk AG & Co. KG aA","DualShine Technology(SZ)","Dualtech IT","Duaxes","Ducere Technologies Pvt","Duelco","Duke Manufacturing","Duke University","Dukelana","Dunkermotoren","Dura Micro","Duracell Powermat","Durin","DuroByte","Duskrise","Dust Networks","Dusun Electron","Duzon CNT","Dycon","Dycor Technologies","Dyna Technology","Dynabook Technology (Hangzhou)","Dynacon Sp. z o.o","Dynalab","Dynalec","Dynamic Ratings P/L","Dynamic Solutions","Dynamic System Electronics","Dynamics Hong Kong","Dynamix Promotions","Dynamode Group","Dynapower","Dynapro Systems","Dynavac Technology Pte","Dynavisions Schweiz","Dyson","E FOCUS INSTRUMENTS INDIA PRIVATE","E&B TELECOM","E&M SOLUTION","E-Band Communications","E-Control Systems","E-Domus International","E-Fuel","E-Globaledge","E-LEAD ELECTRONIC","E-M TECHNOLOGY","E-Mon","E-Prime","E-SYSTEMS, INC./GARLAND DIV","E-Senza Technologies","E-T-A Circuit Breakers","E-TEC","E-TECH","E-TEK DIGITAL TECHNOLOGY","E-TEN Information Systems","E-TOP Network Technology","E-TRON","E. Wehrle","E.D.&A","E.E.P.D","E.F. Johnson","E.G.O. Elektro-Ger","E.J Ward","E28 Shanghai","E2O Communications","E2S Electronic Engineering Solutions, S.L","E3 Enterprise","E3 Technology","EA DISPLAY","EAB/RWI/K","EACEM","EADS Telecom","EAGET Innovation and Technology","EAGLE KINGDOM TECHNOLOGIES","EAGLE TECHNOLOGIES","EAGLE TECHNOLOGY","EAGLE WORLD DEVELOPMENT","EAL (Apeldoorn)","EAST BEST","EASTERN ELECTRONIC","EASTRIVER TECHNOLOGY","EASY3CALL Technology","EBG compleo","EBN Technology","EBRAINS","ECA-SINTERS","ECCEL","ECCI","ECCS","ECHELON","ECHO ELETRIC","ECHOSENS","ECI Telecom","ECKey","ECLER","ECM Systems","ECO PLUGS ENTERPRISE","ECOCOM","ECOLE POLYTECHNIQUE FEDERALE DE LAUSANNE (EPFL)","ECOtality North America","ECTEL","ECTON","EControls","ED","EDA INSTRUMENTS","EDAM information & communications","EDEC","EDEN SISTEMAS DE COMPUTACAO","EDEVA","EDGE ACCESS","EDIC Systems","EDISON GLOBAL CIRCUITS","EDISTEC","EDM","EDMI","EDMI Europe","EDNT","EDO-EVI","EDP Servicos","EDS Elektronik Destek San.Tic.Ltd.Sti","EDSL","EDSLAB Technologies","EDT","EDUCATIONAL TECHNOLOGY RESOURCES","EDUP INTERNATIONAL (HK)","EE Solutions","EEP Elektro-Elektronik Pranjic","EFFECT Photonics","EFFICIENT NETWORKS","EFKON","EFM Networks","EFOCE Technology","EFR Europäische Funk-Rundsteuerung","EFS","EFUN Display Technology (Shenzhen)","EG Technology","EG&G NUCLEAR INSTRUMENTS","EG4 Electronics","EGAN MACHINERY","EGATEL SL","EGEMEN Bilgisayar Muh San ve Tic LTD STI","EGO","EHOOME IOT PRIVATE","EID","EIDOLON COMMUNICATIONS TECHNOLOGY","EION","EIS INTERNATIONAL","EITO ELECTRONICS","EIZO","EK","EKE Building Technology Systems","EKE-Electronics","EKF ELEKTRONIK","EKINOPS","EKM Metering","EKS Elektronikservice","EL-TECH","ELA INNOVATION","ELANsat Technologies","ELASTIC REALITY","ELCOM Innovations Private","ELCON Systemtechnik","ELDAT COMMUNICATION","ELE(GROUP)","ELE-CHEM ENGINEERING","ELECOM","ELECOM CO., LTD. (LANEED DIV.)","ELECOM Co.,LTD Laneed Division","ELECTRO CHANCE","ELECTRON INDIA","ELECTRONIC INDUSTRIES ASSOCIATION","ELECTRONIC RETAILING SYSTEMS INTERNATIONAL","ELECTRONIC THEATRE CONTROLS","ELECTRONICS CORPORATION OF INDIA","ELECTRONICS FOR IMAGING","ELECTROSONIC","ELEKTRON TECHNOLOGY UK","ELELUX INTERNATIONAL","ELESIGN","ELESYS","ELETTROLAB","ELFTECH","ELGIN","ELIAS Technology","ELIIY Power","ELIM PRODUCT","ELIMOS","ELIOP","ELITE OPTOELECTRONIC(ASIA)","ELITEGROUP COMPUTER SYSTEMS","ELKA - Torantriebe GmbH u. Co. Betriebs KG","ELL-IoT","ELM","ELM DATA","ELMAX","ELMEX","ELMIC SYSTEMS","ELMO","ELNO","ELONEX","ELPRO Technologies","ELPROMA ELEKTRONIKA SP Z O O","ELS-GmbH & Co. KG","ELSAG BAILEY PROCESS","ELSTER","ELTEC ELEKTRONIK","ELTECO A.S","ELVEES NeoTek OJSC","ELXSI","ELZET80 Mikrocomputer GmbH&Co. KG","EM Microelectronic","EM Solutions","EM-Tech","EMAC","EMAIL ELECTRONICS","EMALDO TECHNOLOGY(HK)","EMBEDDED PERFORMANCE","EMC","EMC Electronic Media Communication","EMCO Flow Systems","EMCOM","EMH Energiemesstechnik","EMH Metering GmbH & Co. KG","EMK Elektronik GmbH & Co. KG","EMKO ELEKTRONIK SAN VE TIC","EMOCO","EMPEG","EMPORIA TELECOM Produktions- und VertriebsgesmbH & Co KG","EMS Aviation","EMS Dr. Thomas Wünsche","EMS Satcom","EMSTONE","EMTAKE","EMTRAK","EMU Electronic","EMUTEC","EMW","EMZA Visual Sense","EN Technologies","ENABLE SEMICONDUCTOR","ENCANTO NETWORKS","ENDA","ENDESA SERVICIOS, S.L","ENDEVCO","ENEGATE","ENELPS","ENENSYS Technologies","ENERES","ENERVALLEY","ENGAGE COMMUNICATION","ENGAGE NETWORKS","ENGETRON-ENGENHARIA ELETRONICA IND. e COM. LTDA","ENGICAM","ENGINKO","ENMAS","ENSIM","ENT-EMPRESA NACIONAL DE TELECOMMUNICACOES","ENTES ELEKTRONIK","ENTOUCH Controls","ENTRATA COMMUNICATIONS","ENTREGA TECHNOLOGIES","ENTRIDIA","ENVINET","ENVIRONNEMENT","EO TECHNICS","EOC Technology","EON SYSTEMS","EOS TECHNOLOGIES","EOSS","EOps Technology","EP&T Energy","EPCOMM","EPIC DATA","EPICOM","EPILOG","EPIN Technologies","EPIS MICROCOMPUTER","EPL Technology","EPOX Computer","EQ-SYS","EQUES Technology","EQUIINET","EQUINOX SYSTEMS","EQUIP'TRANS","ER-Telecom","ERCO & GENER","ERCO Leuchten","ERECA","ERGO COMPUTING","ERI (EMPAC RESEARCH INC.)","ERIM","ERLPhase Power Technologies","ERM Electronic Systems","ERMME","ERSAT ELECTRONIC","ERUNE technology","ESA Elektroschaltanlagen Grimma","ESA elettronica","ESAB","ESAOTE","ESCALATE NETWORKS","ESCATRONIC","ESD Electronic System Design","ESE Embedded System Engineer'g","ESEN Optoelectronics Technology","ESG Solutions","ESI","ESP","ESP SYSTEMS","ESPOD","ESPRIT SYSTEMS","ESS Technology","ESSEGI","ESSENCORE","ESSENSIUM","ESSENTIAL COMMUNICATIONS","ESSYS","EST","ESTIC","ESTUN AUTOMATION TECHNOLOY","ESTeem Wireless Modems","ESU","ESUS ELEKTRONIK SAN. VE DIS. TIC. LTD. STI","ESYLUX","ESYSE GmbH Embedded Systems Engineering","ET&T Technology","ETAS","ETEK TECHNOLOGY (SHENZHEN)","ETEN Technologies","ETERNA TECHNOLOGY","ETH","ETH Zurich","ETHERCOM","ETHERNEXION NETWORKS PTE","ETIC Telecommunications","ETL Systems","ETREND ELECTRONICS","ETROVISION TECHNOLOGY","EUCAST","EUKREA ELECTROMATIQUE SARL","EUMTECH","EUPHONIX","EURECAM","EUREM","EURILOGIC","EURO PROTECTION SURVEILLANCE","EUROTECH","EUROTHERM","EUROTHERM GAUGING SYSTEMS","EUROTIME","EUTECH INSTRUMENTS PTE","EUTRONIX","EVAR","EVBox","EVERGREEN SYSTEMS","EVERGREEN TECHNOLOGY","EVERYBOT","EVGA","EVI HEAT","EVIDENCE Network SIA","EVIDENT","EVK DI Kerschhaggl","EVOLIS","EVR","EVRsafe Technologies","EVS Broadcast Equipment","EVUlution","EW3 Technologies","EWA Technologies","EWM Hightec Welding","EXABYTE","EXARA Group","EXCEL","EXCELAN","EXCELLENT COMPUTER","EXECUTONE INFORMATION SYSTEMS","EXEMYS","EXFO","EXICOM AUSTRALIA","EXO","EXP COMPUTER","EXPLORER HYPERTECH","EXSCEED CORPRATION","EXTEN Technologies","EXTENDED SYSTEMS","EXTENSION TECHNOLOGY","EXTRATECH","EXXACT","EYESON SOLUTION","EYEVIEW ELECTRONICS","EYKON Solutions","EZ Cast","EZ Digital","EZELINK TELECOM","EZQUEST","Eadingcore Intelligent Technology","Eagle Research","Eagle Traffic Control Systems","Earda Technologies","Earforce","EarthCam","East Coast Datacom","Eastcompeace Technology","Eastern Asia Technology","Eastern Communications","Eastman Kodak","Eastmode Pte","Easy Digital","Easy Soft TV","EasyData Hardware","EasyIO Corporation Sdn. Bhd","EasySYNC","Eaton","Eaton Automation","Eaton Corp. Electrical Group Data Center Solutions - Pulizzi","Eaton Industries","Eazix","EbV Elektronikbau- und Vertriebs","Ebay","Ebot Digital Technoloy","Ebtron","Ecastle Electronics","Ecessa","Echo Digital Audio","Echo360","EchoStar Global","Echodyne","Echolab","Echostreams Innovative Solutions","Echowell","Ecil Informatica Ind. Com. Ltda","Eckelmann","Eclipse (HQ Espana) S.L","Eclipse Electronic Systems","Eclipse WiFi","Ecliptic Enterprises","EcoTech","Ecocentric Energy","Ecolab","Ecoliv Technology ( Shenzhen )","Ecom Communications Technology","Econolite Control Products","Ecosense","Edata Communication","Edata Elektronik San. ve Tic. A.Ş","Eddy Smart Home Solutions","Eddyfi NDT","Edeltech","Eden Innovations","Edge Networks","Edge Products","EdgeCore Networks","EdgePoint Networks","EdgeQ","EdgeVelocity","EdgeWave","Edgecore Americas Networking","Edgecore Networks","Edgewater Networks","Edgewater Wireless Systems","Edifier International","Edimax Technology","Edison Labs","Edwards","Edwards Lifesciences","Effigis GeoSolutions","Effinet Systems","Efore Oyj (Plc)","Egardia","Egenera","Egker Kft","Ego Systems","Ehya","Ei Electronics","Eidetic Communications","Eidicom","Eidsvoll Electronics","Eifelwerk Butler Systeme","Eigen Development","Eight Sleep","Eiki Industrial","Eintechno","Eishin Electronics","Eka Systems","Ekahau","Eko Devices","Ekon GmbH - myGEKKO","Elastifile","Elatec","Elber","Elbit Systems","Elbit Systems Deutschland GmbH & Co. KG","Elcard Wireless Systems","EleSy JSC","Elecs Industry","Elecsys International","Electralsys Networks","Electro Industries/Gauge Tech","Electro Voice Dynacord","Electro-Metrics","Electro-Optical Imaging","Electro-Voice Dynacord","Electroacustica General Iberica","Electrocompaniet A.S","Electroline Equipment","Electrolux","Electronic Computer Systems","Electronic Design Associates","Electronic Design and Manufacturing","Electronic Educational Devices","Electronic Innovation","Electronic Systems Protection","Electronic Technology","Electronics","Electronics Design Services","Electronics Line 3000","Elefirst Science & Tech","Eleksen","Elektrik Uretim AS EOS","Elektronik System i Umeå","Elektronikspecialisten i Borlange","Element Labs","Elentec","Elesta","Eletex","Eletronica Nitron Ltda","Elettronica GF","Elettronica Santerno","Elexol","Elextech","Elgama-Elektronika","Elgar Electronics","Elim","Elin Ebg Traction","Eline Technology","Elisa Oyj","EliteGroup Computer Systems","Elitegroup Computer Systems","Eliwell Controls","Eliyan","Elkor Technologies","Ellion Digital","Ellips","Ellu Company 2019 SL","Elma Electronic","Elma Trenew Electronic","Elmec Elettronica","Elmo Motion Control","Elo Sistemas Eletronicos","Elo touch solutions","Elphel","Elprotronic","Elrest","Elsag Datamat","Elster Solutions","Elster Water Metering","Elsys Equipamentos Eletronicos Ltda","Elsys Equipamentos Eletrônicos Ltda","Eltex Enterprise","Eltex of Sweden","EltexAlatau","Eltis Microelectronics","Elvaco","Elysia Germany","EmBestor Technology","EmFirst","Embed","EmbedWay Technologies","Embedded Artists","Embedded Automation","Embedded Intellect","Embedded Planet","Embedded System","Embedded Systems Design","Embedded Technologies s.r.o","Embedded Wireless","Embedded Wireless Labs","Embedian","Embedone","Embedtronics","Ember","Embertec","Embrane","Embrava USA","Emcore","Emcraft Systems","EmergeCore Networks","Emergent Electronics","Emergent Vision Technologies","Emerging Technologies","Emerson","Emerson Appliance Motors and Controls","Emerson Climate Technologies","Emerson Energy Systems","Emerson Network Power","Emerson Network Power, Avocent Division","Emerson Process Management Power & Water Solutions","Emfinity","Emfit","Emicon","Emitech","Emitor","Emizon Networks","Emkay Innovative Products","Empacket","Empirix","Emplus Technologies","Empower RF Systems","Empower Technologies(Canada)","Emtronix","Emulex","Emuzed","En Garde Systems","En-Vision America","EnGenius Technologies","EnOcean Edge","EnTek Systems","Enablers Solucoes e Consultoria em Dispositivos","Enabling Technology","Enalasys","Enatel","Encell Technology","Enclustra","Encore Electronics","Encore Networks","Encore Software","EndPoints","EndRun Technologies","Endace Technology","Endeleo","Endian","Endress & Hauser","Enecsys","EnerAccess","EnerLinx.com","Enerdyne Technologies","Energica Motor","Energotest","Energy","Energy Imports","Energy Micro","EnergyHub","EnergyICT","Enermet","Enernet","Enerpoint","Enfabrica","Engel Axil S.L","Engim","Engineering & Security","Enginuity Communications","Enguity Technology","Enhanced Vision","Enice Network","Enigma Diagnostics","EnjoyWeb","Enmotus","Ennoconn","Ennovate Networks","Eno","Enovation Controls","Enphase Energy","Ensemble Communications","Ensemble Designs","Enseo","Ensequence","Enspert","Ensure Technologies","Enswer Technology","Enterasys","Entertainment Solutions, S.L","Entis","Entise Systems","Entone","Entorian Technologies","Entourage Systems","Entra Technology","Entrada Networks","Entrelogic","Entrisphere","Entropic Communications","Entropix","Entry Point","EntryPoint Networks","Entrypass Corporation Sdn. Bhd","Envenergy","Environics","Environmental Systems and Services","Envisacor Technologies","Envision Peripherals","Envisionnovation","EnvyLogic","Enwiser","Enzytek Technology","EoCell","Eolo","Eolring","Eoptolink Technology","EosTek (Shenzhen)","Eoslink","EpSpot","Epec","Epic Systems","Epicenter","Epicom","Epigram","Epiq Solutions","EpoX COMPUTER","Eppendorf Instrumente","Epygi Technologies","Equal Optics","EqualLogic","Equaline","Equator Technologies","Equinox Payments","Equipe Communications","Equipson","Equitech Industrial(DongGuan)","Equitrac","Equustek Solutions","EraThink Technologies","Eracom Technologies","Erae Electronics Industry","Erbe Elektromedizin","Ergatta","Ergophone","Erhardt+Leimer","Ericsson","Ericsson - North America","Ericsson Group","Ericsson Television","Ericsson, EAB/RWI/K","Ericsson-LG Enterprise","Erskine Systems","Es-tech International","Esan electronic","Escape Communications","Escherlogic","Esconet Technologies","Escort","Eseye Design","Espec","Espera-Werke","Espotel","Espressif","Espressif Systems (Singapore) Pte","Essec","Essel-T","Essence Technology Solution","Essentia","Essential Products","Essilor","Esson Technology","Estari","Estech","Esteem Networks","EtherCAT Technology Group","EtherWAN Systems","Ethernet Direct","Etherstack","Etherstuff","Ethertronics","EthoSwitch","Ethos Networks","Etin Systems","Etrali","Etronic","Ettus Research","Etymonic Design","Etymotic Research","Eubus","Euchner GmbH+Co. KG","Euclid Laboratories","Eunicorn","Euphonic Technologies","Euracom Communication","Euro Emme","EuroCB (Phils)","EuroCB (Phils.)","EuroDesign embedded technologies","EuroTel","Eurocom Industries","Eurodesign BG","Eurologic Systems","Euronda","European Systems Integration","Europlex Technologies","Eurotech","Eurotherm Controls","EutroVision System","Evans & Sutherland","Evantage Industries","Eve Systems","Eventide","Ever Sparkle Technologies","Ever Treasure Industrial","EverCharge","EverFocus Electronics","Everbee Networks","Everest Networks","Everex Communications","Everex Electronics","Everllence","Everpure","Everspin Technologies","Everspring Industry","Evertz Microsystems","Evervictory Electronic","Everysight","Everytale","Evoc Intelligent Technology","Evoluzn","Evrisko Systems","ExPet Technologies","ExaDigm","Exablaze","Exablox","Exalt Communications","Exar","Exartech International","Exascend","Exavera Technologies","Excel Master","Excelpoint Manufacturing Pte","Exceptional Innovation","Excito Elektronik i Skåne","Exegin Technologies","Exelis","Exeltech","Exeltech Solar Products","Exeo Systems","ExiO Communications","Expand Networks","ExperData","Experience Music Project","Experimental Factory of Scientific Engineering and Special Design Department","Expert Magnetics","Expertise Engineering","Explora Technologies","Exponent","Express LUCK Industrial","Extandon","Extel Communications P/L","Extenway Solutions","Extreme Engineering Solutions","Extreme Networks","ExtremeSpeed","Extricom","Extron Electronics","Exxon","Exéns Development","EyeCross","EyeFi","Eyedro Green Solutions","Eyeheight","Ezurio","Ezze Mobile Tech","F & S Elektronik Systeme","F E T Elettronica snc","F-Secure","F1MEDIA","F3","F5","FA","FA. GEBR. HELLER","FACIT","FACTORY FIVE","FACTS Engineering","FADU","FAG Industrial Services","FAI WAH INTERNATIONAL (HONG KONG)","FAIRFIELD INDUSTRIES","FAIVELEY TRANSPORT","FALCO DATA PRODUCTS","FANUC ROBOTICS NORTH AMERICA","FAR SYSTEMS","FARGO","FASE Saldatura","FAST","FAST MULTIMEDIA","FAST PHOTONICS HK","FAST TV-Server","FAST media integrations","FASTWEL INTERNATIONAL CO., LTD. Taiwan Branch","FATEK Automation","FAXedge Technologies","FBC","FCA","FCI USA","FCNT","FDI MATELEC","FDK","FDSYS","FDT Technologies","FE GLOBAL HONG KONG","FEI Electron Optics","FEI-Zyfer","FEIG ELECTRONIC","FERMAX ELECTRONICA S.A.U","FERMILAB","FERRAN SCIENTIFIC","FERRANTI COMPUTER SYS","FFEI","FIBERCOM","FIBERDATA","FIBERLANE COMMUNICATIONS","FIBERMUX","FIBERNET RESEARCH","FIBERX DISTRIBUIDORA DE PRODUTOS DE TELECOMUNICACAO LTDA","FIBEX SYSTEMS","FIBRONICS","FICHET SECURITE ELECTRONIQUE","FICOSA MAROC INTERNATIONAL","FILANET","FILENET","FILIZOLA S.A. PESAGEM E AUTOMACAO","FINE TRIUMPH TECHNOLOGY","FINE-PAL","FINECOM","FINISAR","FIREFLIES SYSTEMS","FIREMAX INDÚSTRIA E COMÉRCIO DE PRODUTOS ELETRÔNICOS LTDA","FIREPOWER SYSTEMS","FIREWALLA","FIREWIREDIRECT.COM","FIRS Technologies(Shenzhen)","FIRST INTERNAT'L COMPUTER","FIRST INTERNATIONAL COMPUTER","FIRST PACIFIC NETWORKS","FIRST VIRTUAL","FISCHER AND PORTER","FISHER & PAYKEL PRODUCTION","FISHER CONTROLS","FISYS","FITRE","FIVEMERE","FIXME","FLAT DISPLAY TECHNOLOGY","FLECTRON","FLEXTRONICS","FLEXTRONICS MANUFACTURING(ZHUHAI)","FLEXTRONICS TECHNOLOGIES MEXICO S DE RL DE CV","FLIGHT DATA SYSTEMS","FLIPPER DEVICES","FLIR Radiation","FLIR Systems","FLOVEL","FLOW DATA","FLOWPOINT","FLUECKIGER ELEKTRONIK","FLUENT","FLUX::","FLYTECH TECHNOLOGY","FMC Kongsberg Subsea","FMN communications","FMS Force Measuring Systems","FMT AIRCRAFT GATE SUPPORT SYSTEMS","FMTech","FN-LINK TECHNOLOGY","FOAB Elektronik","FOCON ELECTRONIC SYSTEMS","FOCUS H&S","FONEX Data Systems","FONSYS","FONsystem","FOR-A","FORCE INSTITUTE","FORCE Technology","FORD","FORD AEROSPACE & COMM","FORDLEY DEVELOPMENT","FORE SYSTEMS","FORESSON","FORICS Electronic Technology","FORKS","FORMIKE ELECTRONIC","FORMOSA WIRELESS COMMUNICATION","FORMOSA21","FORTUNE MARKETING PRIVATE","FORTUNE TECHGROUP","FORTUNETEK","FORVAL CREATIVE","FOUNDER BROADBAND NETWORK SERVICE","FOUNTAIN TECHNOLOGIES","FOUR PHASE SYSTEMS","FOURTHTRACK SYSTEMS","FOVEON","FOXCONN","FOXCONN INTERCONNECT TECHNOLOGY","FOXTECH","FQ Ingenieria Electronica","FRAMOS","FRASER'S HILL","FRC","FRED KOSCHARA ENTERPRISES","FREEBOX","FREEGATE","FRESENIUS-VIAL","FRIEM","FRITZ! Technology","FROMUS TEC","FRONTIER SMART TECHNOLOGIES","FRONTIER TECHNOLOGIES","FS COM","FS FORTH-SYSTEME","FSI Systems","FSN DISPLAY","FTA Communication Technologies","FU YI CHENG Technology","FUHO TECHNOLOGY","FUJI AUTOMATION","FUJI ELECTRIC","FUJI PHOTO FILM","FUJIAN FUCAN WECON","FUJIAN STAR TERMINAL","FUJIAN STAR-NET COMMUNICATION","FUJIAN START COMPUTER EQUIPMENT","FUJIFILM","FUJIFILM Business Innovation","FUJIKURA","FUJIKURA RUBBER","FUJINON","FUJITSU","FUJITSU DENSO","FUJITSU ISOTEC","FUJITSU MICROELECTRONICS","FUJITSU NEXION","FUJITU(HONG KONG) ELECTRONIC","FUKUDA DENSHI","FUNAI ELECTRIC","FUNASSET","FUNDACION TEKNIKER","FUNK SOFTWARE","FURUNO ELECTRIC","FURUNO SYSTEMS","FUSION Electronics","FUSION SYSTEMS","FUTABA","FUTURE INNOVATION TECH","FUTURE PLUS SYSTEMS","FUTURE SYSTEMS","FW Murphy Production Controls","FXC","FXI TECHNOLOGIES","FYLDE MICRO","Fa. GIRA","Fa. Metabox","FabiaTech","Fabric7 Systems","Fabricom","Facebook","Facom UK Ltd (Melksham)","Factum Electronics","Faculty of Science and Technology, Keio University","Fagor Automation , S. Coop","Fagor Electrónica","Fairbanks Scales","Fairmount Automation","Fairphone","Falcom Wireless Comunications","FalconStor Software","Famar Fueguina","Family Zone Cyber Safety","FamilyPhone","Fanhattan","Fanox Electronic S.L","Fanstel","Fantasia Trading","Fantum Engineering","Fanvil Technology","Far South Networks","Far-sighted mobile","Fargo Electronics","Farlink Technology","Farmage","Fascinations Toys and Gifts","Fast","Fast Systems","Fastback Networks","Fastec Imaging","Faster Technology","Fastfame Technology","Fastrax","Fasttel - Smart Doorphones","Fastwel","Fasy","Favite","Federal APD","Federal State Unitary Enterprise Industrial UnionElectropribor","Federal State Unitary Enterprise Leningrad R&D Institute of","FeiTian United (Beijing) System Technology","Feit Electric","Feitian Technologies","Feitian Xunda(Beijing) Aeronautical Information Technology","Felion Technologies","Femtocomm System Technology","Fenecom","Feng mi(Beijing)technology","Fengfan (BeiJing) Technology","Festo AG & Co. KG","Fi WIn","FiRa Consortium","FiSens","FibRSol Global Network","Fibar Group sp. z o.o","Fiber Groep","Fiber Logic Communications","Fiber Mountain","Fiber Optic & telecommunication","FiberPlex Technologies","Fiberblaze","Fibercentury Network Technology","Fibercycle Networks","Fibergate","Fiberhome Telecommunication Technologies","Fiberpro","Fibocom Auto","Fibocom Wireless","Fibrain","Fibrlink Communications","FibroLAN","Ficer Technology","Ficosa Automotive SLU","Ficosa Electronics S.L.U","Ficosa Internationa(Taicang) C0","Fida International (S) Pte","Fidelix","Fidus Systems","Fidustron","Fihonest communication","Fijowave","Fike","FillFactory","Filmetrics","Filtronic","Finder","Fine Appliance","Fine Point-High Export","Finedigital","Finest Security Systems","FingerTec Worldwide","Finis","Finlux","Finnzymes","Finsoft","Finsécur","FireBrick","Firefly Integrations","Firepro Wireless","Firetide","Firich Enterprises","FirmTek","Firmus Technologies","First Communication","First International Computer do Brasil","First Property (Beijing) Co., Ltd Modern MOMA Branch","First Silicon Solutions","Firstech Technology","Fischer International Systems","Fisher-Rosemount Systems","Fitbit","Fitview","Fival Science & Technology","FiveCo","Flaga HF","Flaircomm Microelectronics","Flaircomm Technologies","Flarion Technologies","Flash","Flash Technology","Flashbay","FlatFrog Laboratories","Flatstack","Fleetwood Group","Flex-P Industries Sdn. Bhd","FlexDSL Telecommunications","FlexRadio Systems","FlexiPanel","Flexit Group","Flexlight Networks","Flexoptix","Flextronics","Flextronics Computing(Suzhou)","Flextronics International","Flextronics International GmbH & Co. Nfg. KG","Flextronics International Kft","Flextronics Tech.(Ind) Pvt","Flexus Computer Technology","FloDesign Wind Turbine","Flock Safety","Flonidan","Florawise","Floware Wireless Systems","Fluke Process Instruments","Flume-io","Flyaudio corporation (China)","Flying Packets Communications","Flying Pig Systems/High End Systems","Flyingvoice (HongKong) Technologies","Fnet","Foctek Photonics","Focus Enhancements","Focus System","Focusai","Focusrite Audio Engineering","Fohhn Audio","Fon Technology","Fon Technology S.L","FonSee Technology","Fong Kai Industrial","Fontal Technology Incorporation","Fontem Ventures","Force","Force Communications","Force10 Networks","Forcom Sp. z o.o","Ford Motor","Forecr OU","Foresight Manufacture (S) Pte","ForgetBox","Formac Elektronik","Formation Data Systems","FormericaOE","Formlabs","Formosa Teletek","Formosa Wireless Systems","Forsway Scandinavia","Fort-Telecom","Fortelink","Fortex Industrial","Forth Corporation Public","Fortify Technologies","Fortinet","Fortress Technology","Fortuna Electronic","Fortx","Forum Communication Systems","Forvia","Forward Pay Systems","Forworld Electronics","Foshan Huadian Intelligent Communications Teachnologies","Foshan VIOMI Electric Appliance Technology","Fosilicon","Foss Analytical","Fossil Partners, L.P","Foster Electric","Fostex","Four systems","Fourier Systems","FoxJet","Foxboro Eckardt Development","Foxconn(NanJing) Communication","Foxda Technology Industrial(ShenZhen)","Foxtel Management","Foxtron Vehicle Technologies","Fr. Sauter","Fractal BMS","Framework Computer","Francotyp-Postalia","Franke Finland","Franklin Electric","Franklin Technology","Franklin Technology Systems","Fraunhofer FIT","Fraunhofer FOKUS","Fraunhofer IMS","Fraunhofer IPMS","Fraunhofer ITWM","Frauscher Sensortechnik","Free2move","FreeBSD Foundation","FreeBit","FreeHand Systems","FreeMs","FreeTek International","FreeWave Technologies","Freecom Technologies","Freedom9","Freefly Systems","Freegene Technology","Freescale Semiconductor","Freescale Semiconductor (China)","Freestyle Energy","Freestyle Technology","Frequentis","Fresenius Medical Care Deutschland","Fresh","Fresnel Wireless Systems","Freyer & Siegel Elektronik GmbH & Co. KG","Friedrich Lütze GmbH & Co. KG","Frog Innovations","From2","Fronius Schweissmaschinen","Frontier Silicon","Frontiir","Frontline Test Equipment","Fsas Technologies","Fu Gang Electronic(KunShan)","FuGang Electronic (DG)","FuJian Elite Power Tech","FuJian HengTong Information Technology","Fugoo Coorporation","Fujant","Fuji System Machines","Fujian Beifeng Telecom Technology","Fujian Great Power PLC Equipment","Fujian LANDI Commercial Equipment","Fujian Landi Commercial Technology","Fujian Netcom Technology","Fujian Newland Auto-ID Tech","Fujian Newland Communication Science Technologies","Fujian Newland Communication Science Technology","Fujian Newland Computer","Fujian Newland Payment Technology","Fujian Sanao Technology","Fujian Shenzhou Electronic","Fujian Start Computer Equipment","Fujian Stelcom information & Technology","Fujian Sunnada Communication","Fujian Tian Cheng Electron Science & Technical Development","Fujian Youyike Technology","Fujikon Industrial","Fujikura Solutions","Fujitsu","Fujitsu Client Computing","Fujitsu I-Network Systems","Fujitsu Services","Fujitsu Siemens Computers","Fujitsu Softek","Fujitsu Technology Solutions","Fujiya Denki Seisakusho","Fulan Electronics","Fulcrum Microsystems","Fulhua Microelectronics Corp. Taiwan Branch","Full Solution Telecom","Full Spectrum","FullWave Technology","Fullpower Technologies","Fulltek Technology","Function ATI (Huizhou) Telecommunications","Funkwerk Dabendorf","Funkwerk plettac electronic","Funshion Online Technologies","Funtime Pickleball","Furrion","Further Tech","Furukawa Industrial S.A. Produtos Elétricos","Fusion Digital Technology","Fusion In Tech","Fusion MultiSystems dba Fusion-io","Fusion Transactive","Fusion X","Fusion-io","FusionDynamic","Fusiontech Technologies","Futaba-Kikaku","Futarque","Futecho Solutions Private","Futronic Technology","Futura Mobility","Future Designs","Future Internet","Future University-Hakodate","FutureLogic","FutureSmart Networks","Futurepath Technology(Shenzhen)","Futuretel","Fuyoh Video Industry","Fuze Entertainment","Fuzhou Teraway Information Technology","G-CONNECT","G-Lab","G-Links networking","G-PRO COMPUTER","G-Printec","G-Star Communications","G-Technology","G-Tek Electronics Sdn. Bhd","G-WAY Microwave","G-Wearables","G. Star Technology","G.Tech Technology","G.i.N. mbH","G2 Microsystems","G2 NETWORKS","G24 Power","G2C","G3M","GAD LINE","GADZOOX NETWORKS","GAGE TALKER","GAI Datenfunksysteme","GAI-Tronics","GAIO TECHNOLOGY","GALAXY NETWORKS","GALCOM NETWORKING","GALEA NETWORK SECURITY","GALILEO AVIONICA","GALILEO TECHNOLOGY","GAMBIT COMPUTER COMMUNICATIONS","GAME PLUS","GAMESA Eólica","GAMMADATA COMPUTER","GANA I&C","GANATECHWIN","GANDALF DATA","GARNET SYSTEMS","GARO","GARRETT COMMUNICATIONS","GATAN","GATEWAY 2000","GATEWAY COMMUNICATIONS","GATEWAY DEVICES","GATEWORKS","GAWELL TECHNOLOGIES","GBO Technology","GBS Laboratories","GCC TECHNOLOGIES","GCD Hard- & Software","GCI Science & Technology","GCT Semiconductor","GD Midea Air-Conditioning Equipment","GD Mission Systems","GDE SYSTEMS","GDI","GDN Enterprises Private","GDX Technologies","GE","GE Appliances","GE Aviation System","GE Energy","GE Healthcare","GE Lighting","GE Medical System(China)","GE Security","GE Transportation Systems","GE Vernova","GEA Farm Technologies","GEC AVERY","GECO","GEMAC Chemnitz","GEMATICA","GEMFLEX NETWORKS","GEMINI TRAZE RFID PVT","GEMSOC INNOVISION","GEMUE Gebr. Mueller Apparatebau","GENERAL","GENERAL DYNAMICS INFORMATION SYSTEMS","GENERAL ELECTRIC","GENERAL MAGIC","GENERAL MICRO SYSTEMS","GENESYS LOGIC","GENETEC","GENICOM","GENITECH","GENIUS NET","GENIX INFOCOMM","GENOA TECHNOLOGY","GENRAD","GENROCO INTERNATIONAL","GENSTORAIGE TECHNOLOGY","GENUS POWER INFRASTRUCTURES","GEODESIC","GEOIDE Crypto&Com","GERLOFF GESELLSCHAFT FUR","GERP Solution","GERSTEL GmbH & Co. KG","GERTEC BRASIL LTDA","GES","GES SINGAPORE PTE","GESPAC","GESYTEC MBH","GET Engineering","GETCK TECHNOLOGY","GEW (EC)","GEW Technologies (PTY)","GEWISS","GFI Chrono Time","GGH Engineering","GH Technologies","GHEO","GHI Electronics","GHIA Technology (Shenzhen)","GHT","GIANT ELECTRONICS","GIDDINGS & LEWIS","GIESECKE & DEVRIENT","GIFA","GIGA FAST E","GIGA TMS","GIGA-BYTE TECHNOLOGY","GIGALABS","GIGAMEDIA","GIGAVISION","GILAT COMMUNICATIONS","GILAT SATELLITE NETWORKS","GILBARCO","GIMASI","GINT","GIPSI","GIRD Systems","GIROPTIC","GIT","GITSN","GJsun Optical Science and Tech","GK COMPUTER","GKB CCTV","GKD Gesellschaft Fur Kommunikation Und Datentechnik","GL Communications","GL Intelligence","GL Technologies (Hong Kong)","GLA ELECTRONICS PVT","GLBB Japan","GLENAYRE R&D","GLENAYRE WESTERN MULTIPLEX","GLINTT TES","GLITEL Stropkov, s.r.o","GLOBAL MAINTECH","GLOBAL NET INFORMATION","GLOBAL Technology","GLOBAL VIEW","GLOBAL VILLAGE COMMUNICATION","GLOBALNET COMMUNICATIONS","GLOBALOOP","GLOBALSAT TECHNOLOGY","GLOBESPAN SEMICONDUCTOR","GLOBO Multimedia Sp. z o.o. Sp.k","GLORY","GLP German Light Products","GM-2","GMA COMMUNICATION MANUFACT'G","GMC Guardian Mobility","GME Standard Communications P/L","GMJ ELECTRIC","GMK electronic design","GMX","GMX INC/GIMIX","GN Audio","GN Hearing","GN Netcom","GN ReSound","GN&S","GNH Software India Private","GNP Computers","GNTEK Electronics","GO development","GOAL","GOCLOUD Networks(GAOKE Networks)","GODEX INTERNATIONAL","GOEFER","GOERTEK","GOGORO TAIWAN","GOIP Global Services Pvt","GOLD&WATER INDUSTRIAL","GOLD3LINK ELECTRONICS","GOLDCARD HIGH-TECH","GOLDEN ENTERPRISES","GOLDSTAR","GOLDSTAR CABLE","GOLDSTAR INFORMATION & COMM","GOOD WAY IND","GOPEACE","GOTIVE a.s","GOULD","GP Electronics (HK)","GPI KOREA","GPMS","GRADIENT TECHNOLOGIES","GRAND JUNCTION NETWORKS","GRANDTEC ELECTRONIC","GRANITE MICROSYSTEMS","GRAPHON","GRAVOTECH MARKING","GRE AMERICA","GREAT COMPUTER","GREATEK","GREE ELECTRIC APPLIANCES, INC. OF ZHUHAI","GREENBELL SYSTEMS","GRETACODER Data Systems","GRID SYSTEMS","GRIPS ELECTRONIC","GROUP 2000","GROUPE LDLC","GROUPE TXCOM","GRT","GRUNDIG","GS Yuasa Power Supply","GSC","GSD VIET NAM TECHNOLOGY","GSI Electronics","GSI Group, MicroE Systems","GSI Helmholtzzentrum für Schwerionenforschung","GSK CNC EQUIPMENT","GSM-SYNTEL","GSP SYSTEMS","GSS Grundig SAT-Systems","GST","GSTeletech","GScoolink Microelectronics (Beijing)","GT&T Engineering Pte","GTAI","GTE Airfone","GTE SPACENET","GTECH","GTN Systems","GTO Access Systems","GTRI","GUANGDONG ENOK COMMUNICATION","GUANGDONG GENIUS TECHNOLOGY","GUANGDONG HOMECARE TECHNOLOGY","GUANGDONG OPPO MOBILE TELECOMMUNICATIONS","GUANGDONG PISEN ELECTRONICS","GUANGDONG SUPER TELECOM","GUANGDONG TAIDE ZHILIAN TECHNOLOGY","GUANGDONG TONZE ELECTRIC","GUANGZHOU AVA ELECTRONICS TECHNOLOGY","GUANGZHOU BOSMA TECHNOLOGY","GUANGZHOU CHIP TECHNOLOGIES","GUANGZHOU GAOKE COMMUNICATIONS TECHNOLOGY","GUANGZHOU GATEWAY ELECTRONICS","GUANGZHOU HKUST FOK YING TUNG RESEARCH INSTITUTE","GUANGZHOU WINSOUND INFORMATION TECHNOLOGY","GUANGZHOU YUANDIANHE COMMUNICATION TECHNOLOGY","GUTOR Electronic","GVC","GVI SECURITY","GVN TECHNOLOGIES","GW TECHNOLOGIES","GW Technologies","GWD Media","GX India Pvt","GX International","GYGES LABS PTE","GZ Technologies","GZ Weedong Networks Technology","GZT Telkom-Telmor sp. z o.o","Gafachi","GainSpan","Galactic Computing","Galaxis Technology","Galaxy Microsystems","Galaxy Technology","Galaxy Telecom Technologies","Galazar Networks","Galil Motion Control","Gallagher Group","Galleon Embedded Computing","Galleon Systems","Galore Networks Pvt","Galtronics","Galtronics Telemetry","Galvanic","Galvanic Applied Sciences","Gamatronic Electronic Industries","Gambro Lundia","Game Technologies","Gaming Support","Gantner Electronic","Gantner Instruments","Garbee and Garbee","Gardasoft VisionLimited","Garde Security","Garea Microsys","Garland Technology","Garmin International","GarrettCom","Garuda Networks","Garz & Fricke","Gassner Wiege- und Meßtechnik","Gastron","GateConnect","GateWare Communications","Gatekeeper Systems","GatesAir","Gateway","Gatsometer","Gcom","Ge Ruili Intelligent Technology ( Beijing )","Gearlinx","Geberit International","Gebr. Bode GmbH & Co KG","Geenovo Technology","Gefen","Gefran","Gehirn","GemWon Communications","Gemalto M2M","Gembird Europe","Gemicom Technology","Geminico","Gemintek","Gemstar Technology Development","Gemstone Communications","Gemtek Technology","Gen IV Technology","Gen2wave","Genbyte Technology","Genelec","Gener8","Genera","General Bandwidth","General Datacomm","General Dynamics","General Dynamics Land Systems","General Dynamics Mission Systems","General Dynamics United Kingdom","General Electric Consumer and Industrial","General Electric Digital Energy","General Electric Global Research","General Electric Water & Process Technologies","General Engine Management Systems","General Hydrogen","General Infinity","General Jack Technology","General Meters","General Motors","General Research of Electronics","General Satellite Research & Development","General Sensing","General Solutions","Generalplus Technology","Generiton","Genesis I&C","Genetec","Genetel Systems","Genevisio","Genew Technologies","Genexis","Genexis International","Genie Industries","Genie Networks","Genius Bytes Software Solutions","Genmark Automation","Gennet","Gennum","Genoray","Genotech","GentechMedia","Gentex Corporation/Electro-Acoustic Products","Gentner Communications","Gentrice tech","Genuine Optics","Genuine Technologies","GeoVision","GeoWAN","Geocast Network Systems","Geomation","Geomodeling Wuxi Technology","Geophysical Survey Systems","George Robotics","Geospace Technologies","Gerdes Aktiengesellschaft","Gerhard D. Wempe KG","German Autolabs","Germaneers","Gesellschaft für Sonder-EDV-Anlagen mbH","Gessler","Getinge Sterilization","Getriebebau NORD GmbH and Co. KG","Geutebrück","Geyser Networks","Ghost Autonomy","Gi Fone Korea","GiBahn Media","GiK mbH","Giantec","Giantec Semiconductor","Giaval Science Development","Giax","Gibson Guitars","Giga Stream UMTS Technologies","Giga-Byte","Giga-Byte Technology","Giga-byte Communications","GigaDevice Semiconductor","Gigabeam","Gigabit Optics","Gigabit Systems","Gigabit Wireless","Gigafin Networks","Gigafirm","Gigalink","Gigamips","Gigamon Systems","Gigaphoton","Gigaset Communications","Gigaset Digital Technology (Shenzhen)","Gigaset Technologies","Gigastone","Gigawave","Gigawavetech Pte","Gigle Semiconductor","Giken Trastem","Gilbarco","Gimbal","Gincom Technology","Ginganet","Ginzinger electronic systems","Gionee Communication Equipment","Gionee Communication Equipment Co,Ltd.ShenZhen","Gizmondo Europe","GkWare e.K","Glen Dimplex Nordic","Glensound Electronics","Glimmerglass Networks","Global Apps","Global Cache","Global Converging Technologies","Global Data","Global Digitech","Global Display Solutions","Global ES","Global Fire Equipment","Global Link Digital Technology","Global Regency","Global Star Solutions ULC","Global Sun Technology","Global Target Enterprise","Global Technologies","Global Traffic Technologies","Global411 Internet Services","GlobalBeiMing technology (Beijing)","GlobalReach Technology EMEA","GlobalStreams","GlobalTop Technology","Globalsat International Technology","Globalscale Technologies","Globalstar","Globetek","Globo Electronic GmbH & Co. KG","Glocom","Glodio Technolies Co.,Ltd Tianjin Branch","Glonet Systems","GloquadTech","Glory Horse Industries","Glory Star Technics (ShenZhen)","Glory Technical Solutions","Glorytek Network","Gloscom","Glovast Technology","Glowforge","Glsystech","Glunz & Jensen","Gluon Networks","Glyph Technologies","Gnodal","Go Networks","GoPro","Goden Tech","Godrej & Boyce Mfg","Goepel Electronic","Goerdyna Group","Goki","Golden Electronics Technology","Golden Highway Industry Development","Goldline Controls","Goliath Solutions","GooWi Technology","GooWi Wireless Technology","Good Mind Industries","Good Mind Innovation","Good Will Instrument","GoodMan","GoodWe Technologies","Goodmill Systems","Goodrich ISR","Goodrich Sensor Systems","Google","Googol Technology (HK)","GopherTec","Gorba","Gospell DIGITAL TECHNOLOGY","Gossen-Metrawatt","Gosuncn Technology Group","Gotech International Technology","Gotham Networks","Gould Instrument Systems","Gowell Electronic","Goyoo Networks","Grabango","Gradual Tecnologia Ltda","Graf-Syteco GmbH & Co. KG","Grainmustards","Grammar Engine","Granch","Grand Electronic","Grand Electronics (HK)","Grand Products Nevada","Grandbeing Technology","Grandex International","Grandeye","Grandprint(Beijing) Technology","Grandstream Networks","Graphiant","Graphite Systems","Graphtec Technology","Grasphere Japan","Grass Valley, A Belden Brand","Grayhill","Great Dragon Information Technology (Group)","Great Talent Technology","Great Well Electronic","Green Electronics","Green Energy Options","Green Hills Software","Green Information System","Green Motive Technology","Green Packet Bhd","Green Wave Telecommunication","GreenBytes","GreenLine Communications","GreenNET Technologies","GreenPeak Technologies","GreenPriz","GreenTrol Automation","GreenWave Reality","Greenlee","Greenliant","Greenpacket Berhad, Taiwan","Greenvity Communications","Greenwald Industries","Grey Innovation","Greystone Data System","Greyware Automation Products","Grid Connect","Grid Net","GridCentric","GridIron Systems","GridPoint","GridVisibility","Gridco Systems","Gridlink Tech","Gridpoint Systems","Gridstore","Gridwiz","Griffin Technology","Grip Audio","Groq","Grotech","Group 4 Technology","Group Sense","Groupe Atlantic","Groupe Carrus","Groupe SEB","Grundfos Holding","Grupo Digicon","Gtran","Guang Zhou TRI-SUN Electronics Technology","Guang zhou Xradio Technology","GuangDong Quick Network Computer","GuangZhou AnJuBao","GuangZhou Bonsoninfo System","GuangZhou CREATOR Technology Co.,Ltd.(CHINA)","GuangZhou Dazzleview Intelligent Technology","GuangZhou Hedy Digital Technology","GuangZhou Post & Telecom Equipment","GuangZhou Thinker Technology","Guangda Electronic & Telecommunication Technology Development","Guangdong ACIGA Science&Technology","Guangdong Appscomm","Guangdong Asano Technology","Guangdong COROS Sports Technology","Guangdong Coagent Electronics S&amp;T","Guangdong Donyan Network Technologies","Guangdong East Power","Guangdong Global Electronic Technology CO.，","Guangdong Gosun Telecommunications","Guangdong Guanglian Electronic Technology","Guangdong Huiwei High-tech","Guangdong Jeton International Tech","Guangdong Jiuzhi Technology","Guangdong Juan Intelligent Technology Joint Stock","Guangdong Leawin Group","Guangdong NanGuang Photo & Video Systems","Guangdong Nanguang Photo&Video Systems","Guangdong Nufront CSC","Guangdong Province Electronic Technology Research Institute","Guangdong Seneasy Intelligent Technology","Guangdong Taiying Technology","Guangdong Transtek Medical Electronics","Guangdong UNIPOE IoT Technology","Guangdong Uniteddata Holding Group","Guangdong Welland Technology","Guangxi Hesheng Electronics","Guangxi Konaixin Precision Technology","Guangzhi Wulian Technology(Guangzhou)","Guangzhou Aoshi Electronic","Guangzhou BaoLun Electronics","Guangzhou Blue Cheetah Intelligent Technology","Guangzhou CHNAVS Digital Technology","Guangzhou Comet Technology Development","Guangzhou Dawei Communication","Guangzhou Doctorpai Education & Technology","Guangzhou Escene Computer Technology","Guangzhou FiiO Electronics Technology","Guangzhou Gizwits loT Technology","Guangzhou Horizontal Information & Network Integration","Guangzhou Jinpeng Group","Guangzhou Juan Intelligent Tech Joint Stock","Guangzhou Juan Optical and Electronical Tech Joint Stock","Guangzhou Juzing Technology","Guangzhou Lango Electronics Technology","Guangzhou Mudi Information Technology","Guangzhou New Postcom Equipment","Guangzhou On-Bright Electronics","Guangzhou Punp Electronics Manufacturing","Guangzhou Qi'an Technology","Guangzhou Qingying Acoustics Technology","Guangzhou Robustel Technologies","Guangzhou Ronsuo Electronic Technology","Guangzhou Sageran Technology","Guangzhou Sat Infrared","Guangzhou Shirui Electronic","Guangzhou Shiyuan Electronic Technology","Guangzhou Shiyuan Electronics","Guangzhou Skytone Transmission Technology Com","Guangzhou Sunrise Electronics Development","Guangzhou TR Intelligent Manufacturing Technology","Guangzhou Trustmo Information System","Guangzhou Unicomp Technology","Guangzhou V-SOLUTION Electronic Technology","Guangzhou V-Solution Telecommunication Technology","Guangzhou Xianyou Intelligent Technogoly","Guangzhou Xingyi Electronic Technology","Guangzhou YBDS IT","Guangzhou Younghead Electronic Technology","Guangzhou Yuanyun Network Technology","Guangzhou Yuhong Technology","Guangzhou Zonerich Business Machine","Guangzhou limee technology","Guardware Systems","Gude Systems","Gugaoo HK","Guizhou Fortuneship Technology","Guizhou Huaxin Information Technology","Guizhou Huaxintong Semiconductor Technology","Gulfstream","Gumstix","Gunnebo Cash Automation","Guntermann & Drunck","GuoTengShengHua Electronics","Guoguang Electric","Gyeyoung I&T","GyroSignal Technology","H&D Wireless","H+S Polatis","H-Displays (MSC) Bhd","H-Stream Wireless","H-THREE SYSTEMS","H. BOLLMANN MANUFACTURERS","H. Schomäcker","H. Stoll GmbH & Co. KG","H. ZANDER GmbH & Co. KG","H.K ZONGMU TECHNOLOGY","H1-Radio","H2A Systems","HAEDONG INFO & COMM","HAFT TECHNOLOGY","HAGIWARA ELECTRIC","HAGIWARA SYS-COM","HAJEN","HAKKO","HAKKO ELECTRONICS","HAKUSAN","HAL COMPUTER SYSTEMS","HAMAMATSU TOA ELECTRONICS","HAMILTON Bonaduz","HAMILTON HALLMARK","HAMMER STORAGE SOLUTIONS","HAN CHANG","HAN MICROTELECOM","HAN Networks","HANA Electronics","HANA Micron","HANBACK ELECTRONICS","HANDLINK TECHNOLOGIES","HANGZHOU DANGBEI NETWORK TECH","HANGZHOU SOFTEL OPTIC","HANGZHOU SUNRISE TECHNOLOGY","HANGZHOU ZENOINTEL TECHNOLOGY","HANGZHOU ZHIWAY TECHNOLOGIES","HANMI SEMICONDUCTOR","HANSHOW TECHNOLOGY","HANSUNG ELETRONIC INDUSTRIES DEVELOPMENT","HANWANG TECHNOLOGY","HANWHA VISION VIETNAM","HAO CHENG GROUP","HARMONIC DATA SYSTEMS","HARMONIC SYSTEMS","HARMONIX","HARRIS ADACOM","HART Communication Foundation","HARTEC","HARTING","HARTING Electronics","HARTING Inc. of North America","HASEGAWA ELECTRIC","HASHIMOTO Electronics Industry","HASSNET","HASWARE","HAYES MICROCOMPUTER PRODUCTS","HAZELTINE CORPORATION, MS 1-17","HAZEMEYER","HBC-radiomatic","HBrain","HC","HCL","HCT","HCV Consulting","HD Communications","HD DIGITAL TECH","HD Hyundai Electric","HDMI Forum","HDMI Licensing","HDPRO","HDR10+ Technologies","HDSN","HDV Phoelectron Technology","HE ELECTRONICS, TECHNOLOGIE & SYSTEMTECHNIK","HECTRONIC","HEFEI DATANG STORAGE TECHNOLOGY","HEINESYS","HEIWA","HELIOSS COMMUNICATIONS","HENGBAO","HENRI DEPAEPE S.A.S","HEOL DESIGN","HERAN","HERMARY OPTO ELECTRONICS","HERMES ELECTRONICS","HERO SYSTEMS","HES-SO","HESS SB-AUTOMATENBAU","HEURIKON","HEXIUM Technical Development","HF","HF System","HFC Technology (Beijing)","HFR","HG Genuine Intelligent Terminal (Xiaogan)","HGST a Western Digital","HI Solutions","HI-P Tech","HID","HIGH LEVEL HARDWARE","HIGH-TEK HARNESS ENT","HIGHPRO INTERNATIONAL R&D","HIGHTECH","HIGHTECH INFORMATION","HIJI HIGH-TECH","HILAN","HIMA PAUL HILDEBRANDT GmbH Co. KG","HIMEJI ABC TRADING","HIMS International","HIOKI E.E","HIPER Information & Communication","HIPPI NETWORKING FORUM","HIRAKAWA HEWTECH","HIROSE ELECTRONIC SYSTEM","HIROTA SS","HIRSCHMANN AUSTRIA","HISENSE ELECTRIC","HISENSE VISUAL TECHNOLOGY","HISHARP","HIT","HITACHI","HITACHI COMPUTER PRODUCTS (AMERICA)","HITACHI ENGINEERING","HITACHI Maxell","HITACHI SOFTWARE ENGINEERING","HITACHI ZOSEN","HITACHI-LG DATA STORAGE","HITEL LINK","HIVION","HIWIFI","HK DAPU ELECTRONIC TECHNOLOGY","HLS HARD-LINE Solutions","HM Electronics","HMD Global","HME","HME Clear-Com","HMI Sources","HMS Industrial Networks","HMS Industrial Networks SLU","HNS","HOB ELECTRONIC GMBH & CO. KG","HOERBIGER Elektronik","HOKKAIDO ELECTRIC ENGINEERING","HOLOEYE Photonics","HOLONTECH","HOLOWITS TECHNOLOGIES","HOLUX Technology","HOMA","HOME MULTIENERGY SL","HOMERIDER SYSTEMS","HOMEWINS TECHNOLOGY","HON HAI-CCPBG PRECISION IND","HONEYWELL-DATING","HONG KONG TECON TECHNOLOGY","HONG KONG WATER WORLD TECHNOLOGY","HONG KONG WHEATEK TECHNOLOGY","HONG TECHNOLOGIES","HONGKONG MIRACLE EAGLE TECHNOLOGY(GROUP)","HONGKONG RAGENTEK COMMUNICATION TECHNOLOGY","HONGKONG UCLOUDLINK NETWORK TECHNOLOGY","HONGKONG YUNLINK TECHNOLOGY","HONGYU COMMUNICATION TECHNOLOGY","HORANET","HORIBA","HORIZON COMPUTER","HORNER ELECTRIC","HOROSCAS","HORSCH ELEKTRONIK","HORYS TECHNOLOGIES","HOSIN Global Electronics","HOST ENGINEERING","HOSTLINK","HOSTNET","HOW","HOWTEL","HOYA","HOYA SERVICE","HP","HP GLOBALES MEXICO","HP Tuners","HPL Electric & Power Private","HPN Supply Chain","HPRO","HPRO-Video","HRCP Research and Development Partnership","HRD (S) PTE","HRK SYSTEMS","HS Automatic ApS","HSE SMART","HSING TECH ENTERPRISE","HSING TECH. ENTERPRISE","HT COMMUNICATIONS","HTC","HTRC AUTOMATION","HUAQIN TECHNOLOGY","HUAWEI TECHNOLOGIES","HUBER+SUHNER BKtel","HUDSON SOFT","HUEY CHIAO INTERNATIONAL","HUG-WITSCHI","HUGH SYMONS CONCEPT Technologies","HUGHES LAN SYSTEMS","HUGHES NETWORK SYSTEMS","HUIZHOU CITY HUIYANG DISTRICT MEISIQI INDUSTRY DEVELOPMENT","HUIZHOU MAORONG INTELLIGENT TECHNOLOGY","HUIZHOU QIAOXING ELECTRONICS TECHNOLOGY","HUIZHOU QIAOXING TELECOMMUNICATION INDUSTRY","HUIZHOU TCL COMMUNICATION ELECTRON","HUMAN DESIGNED SYSTEMS","HUMAX","HUMAX NETWORKS","HUMEX Technologies","HUNAN AIMAG INTELLIGENT TECHNOLOGY","HUNAN FN-LINK TECHNOLOGY","HUNAN GOKE MICROELECTRONICS","HUNAN SCROWN ELECTRONIC INFORMATION TECH","HUNTSVILLE MICROSYSTEMS","HUTH Elektronik Systeme","HVE","HW Communications","HW server","HWA JIN T&I","HWA YAO TECHNOLOGIES","HWH","HYBE","HYBRID NETWORKS","HYBUS","HYDAC Filtertechnik","HYDRA COMPUTER SYSTEMS","HYESUNG TECHWIN","HYMATOM","HYNET","HYPERCHIP","HYPERCOM","HYPERTEC","HYTEC ELECTRONICS","HYUNDAE YONG-O","HYUNDAI DIGITECH","HYUNDAI HT","HYUNDAI NETWORKS","HYUNDAI SYSCOMM","HYUNDAI WIA","HYUNTECK","Haas Automation","Habana Labs","Habolink Technology","Hacetron","Hach","Hach Lange Sarl","Hagenuk Marinekommunikation","Hager Electro","Hagleitner Hygiene International","Haier","Haier Group Technologies","Haiguang Smart Device","Hailo Digital Hub GmbH & Co. KG","Hailo Technologies","Hainzl Industriesysteme","Haivision Network Video","Hakusan.Mfg","Halcro","Half Dome Systems","Halfa Enterprise","Haliplex Communications","Halo Monitoring","Halo Technologies","Halong Mining","Halytech Mace","Hamamatsu Photonics","Hame Technology","Hamee","Hamilton Systems","Hammerhead Systems","Han Kyung I Net","HanA Systems","HanYang System","Hana CNS","Hanazeder Electronic","Hanbit Electronics","HanbitEDS","Hanbyul Telecom","Hanchang System","Hand Held Products","HandEra","HandHeld entertainment","Handaer Communication Technology (Beijing)","Handan BroadInfoCom","Handheld Scientific","Handreamnet","Hang Zhou Huite Technology","HangZhou Atuo Future Technology","HangZhou DeChangLong Tech&Info","HangZhou Gubei Electronics Technology","HangZhou JuRu Technology","HangZhou KuoHeng Technology","HangZhou Nano IC Technologies","HangZhou QiYang Technology","Hangzhou Advance IOT Connectivity System","Hangzhou AlmightyDigit Technology","Hangzhou Anheng Info&Tech","Hangzhou Anysoft Information Technology","Hangzhou Beilian Low Carbon Technology","Hangzhou Bianfeng Networking Technology","Hangzhou Bigbright Integrated communications system","Hangzhou BroadLink Technology","Hangzhou ChengFengErLai Digial Technology","Hangzhou DPtech Technologies","Hangzhou Dangbei Network Technology","Hangzhou Dianyixia Communication Technology","Hangzhou Dunchong Technology","Hangzhou Ezviz Software","Hangzhou GoTo technology","Hangzhou H3C Technologies","Hangzhou Hikrobot Technology","Hangzhou Hikvision Digital Technology","Hangzhou Hollysys Automation","Hangzhou Huacheng Network Technology","Hangzhou Huamu Technology","Hangzhou Hylin IoT Techonology","Hangzhou I'converge Technology","Hangzhou Konke Technology","Hangzhou Kuaiyue Technologies","Hangzhou LEAD-IT Information & Technology","Hangzhou Lancable Technology","Hangzhou Lanly Technology","Hangzhou Linovision","Hangzhou Lowan Information Technology","Hangzhou Microimage Software","Hangzhou OYE Technology","Hangzhou Prevail Communication Technology","Hangzhou Prevail Optoelectronic Equipment","Hangzhou Puwell OE Tech","Hangzhou Royal Cloud Technology","Hangzhou Ruiying technology","Hangzhou RunZhou Fiber Technologies","Hangzhou SDIC Microelectronics","Hangzhou Sciener Smart Technology","Hangzhou Silan Microelectronic","Hangzhou Siyuan Tech","Hangzhou Sunyard System Engineering","Hangzhou Sunyard Technology","Hangzhou Supranett Network Technology","Hangzhou System Technology","Hangzhou Taili wireless communication equipment","Hangzhou Telin Technologies","Hangzhou Treebear Networking","Hangzhou Tuners Electronics","Hangzhou Xinyun technology","Hangzhou Xueji Technology","Hangzhou Yaguan Technology","Hangzhou Zenith Electron","Hangzhou Zero Zero Technology","Hangzhou Zhongxinghui Intelligent Technology","Hanilstm","Hanlong Technology","Hanna Instruments","Hannae Technology","Hannto Technology","Hanover Displays","Hanscan Spain","Hansgrohe","Hanshinit","Hansol Technics","Hanson Research","Hanson Technology","Hansong Tehnologies","Hansun Technologies","Hansung Electronics","Hansung Teliann","Hantle System","Hanvit SI","Hanwha NxMD (Thailand)","Hanwha Vision VietNam","Hanyang Digitech","Hanyang Navicom","Happy Communication","Happyelectronics","Harbin Arteor technology","Harbour Networks Ltd., Co. Beijing","Harding Instruments","Hardy Instruments","Harley-Davidson Motor","Harman Consumer Group","Harman Multimedia","Harman Music Group","Harman Specialty Group","Harman/Becker Automotive Systems","Harmonic","Harmonic Video Network","Harmonic Video Systems","Harms & Wende GmbH & Co.KG","Harris","Harris Government Communications","Hasselblad","Hasselblad (Shenzhen) Trading CompanyLimited","Hatteland Computer","Hauppauge Computer Works","Haver&Boecker","Haverford Systems","Havis","Hawa Technologies","Hawkeye Tech","Hawking Technologies","Hay Systems","Hazens Automotive Electronics(SZ)","He Shan World Fair Electronics Technology","Head Strong International","Heads Up Technologies","Health & Life","Health Hero Network","HealthStream Taiwan","Heaman System","Heat Tech","Hectrix","Hectronic","Hedon e.d","Hefcom Metering (Pty)","Hefei Bitland Information Technology","Hefei Huanxin Microelectronics Technology","Hefei Linkin Technology","Hefei Radio Communication Technology","Hefei Symboltek","Hefei Toycloud Technology","HeiSei Electronics","HeiTel Digital Video","Heidelberg Engineering","Heidelberg Web Systems","Heidelberger Druckmaschinen","Heights Telecom T","Heim Systems","Heimann Sensor","Heimgard Technologies","Heimi Network Technology","Heinz Lackmann GmbH & Co KG","Heinzinger electronic","Heinzmann GmbH & CO. KG","Helicomm","Heliospectra","Helium Systems","Helius","Helix Technology","Helixtech","Hella Gutmann Solutions","Hella India Automotive Pvt","Hella Sonnen- und Wetterschutztechnik","Hellberg Safety","Hellige","Hello","Helmer Scientific","Helmholtz Centre Berlin for Material and Energy","Helmholz GmbH & Co. KG","Helmut Fischer GmbH Institut für Elektronik und Messtechnik","Helmut Mauell GmbH Werk Weida","Helvetia","HemoCue","Henan Chengshi NetWork Technology Co.，","Henan KunLun Technologies","Henan Lanxin Technology","Henan Lingyunda Information Technology","Henan Thinker Rail Transportation Research","Heng Yu Electronic Manufacturing","Henge Docks","Hengji Jiaye (Hangzhou) Technology","Hengstler","Hengtai Intelligent Technology (Zhongshan)","Hensoldt South Africa (Pty)","Heraeus Electro-Nite International N.V","Hercules Technologies S.A.S","Herman Miller","Hermes electronic","Hermstedt SG","Herospeed Digital Technology","Herrmann Ultraschalltechnik GmbH & Co. Kg","Hesch Schröder","Heuft Systemtechnik","Hewlett Packard","Hewlett Packard Enterprise","Hexatronic","Hextronics","Heyrex","Hi-P Electronics Pte","Hi-Techniques","Hi-flying electronics technology","HiConnect","HiQ Networks","HiTEM Engineering","HiTi Digital","Hichan Technology","Hidea Solutions","Hifn","Hifocus Electronics India Private","High Density Devices","High Grade Controls","High Tech Computer","High Technology","High-Gain Antennas","HighPoint Technologies","HighSpeed Surfing","Higher Way Electronic","Highgates Technology","Highway 9 Networks","Hikari","Hikari Trading","Hilan Technology","Hilger u. Kern","Hill AFB - CAPRE Group","Hill-Rom","Hills Industries","Hillstone Networks","Hilscher","Hilti","Hiltron","Himachal Futuristic Communications","Himax Technologies","Hinke","Hinox","Hioso Technology","Hip Shing Electronics","Hipad Intelligent Technology","Hippih aps","Hirata","Hirsch Electronics","Hirschmann Automation","Hirschmann Automation and Control","Hirschmann Multimedia","Hisense Broadband Multimedia Technology","Hisense Electric","Hisense Home Appliances Group Co., Ltd. Qingdao Branch","Hisense Mobile Communications Technoligy","Hisense broadband multimedia technology","Hisilicon Technologies","Histar Digital Electronics","Hitachi","Hitachi Aloka Medical","Hitachi Data Systems","Hitachi Denshi","Hitachi Energy Germany","Hitachi Energy Switzerland","Hitachi Energy USA","Hitachi Global Life Solutions","Hitachi High Technologies America","Hitachi High-Tech Control Systems","Hitachi High-Technologies","Hitachi IE Systems","Hitachi Industrial Equipment Systems","Hitachi Industry & Control Solutions","Hitachi Information & Communication Engineering","Hitachi Ltd, Semiconductor & Integrated Circuits Gr","Hitachi Maxell, Ltd., Optronics Division","Hitachi Metals","Hitachi Metals America","Hitachi Printing Solutions","Hitachi Rail GTS Deutschland","Hitachi Reftechno","Hitachi-LG Data Storage Korea","HiteVision Digital Media Technology","Hitech Electronics","Hitek Automated","Hitex Holding","Hitpoint","Hitron Technologies","Hitron Technology","Hittite Microwave","Hive","Hive Internet","HiveMotion","Hivesystem","Hivision","Ho Net","Hoags Technologies India Private","Hoana Medical","Hoatech Technologies","Hochiki","Hoffmann und Burmeister GbR","Hoft & Wessel","Hokkaido Electronics","Hokkei Industries","Hokubu Communication & Industrial","Hokuto Denshi","Hokuyo Automatic","Holiday Robotics","Holl technology","Holley Metering","Holoplot","Holosys d.o.o","Holtek Semiconductor","Holy Stone Ent","Homa Technologies JSC","Homag","Home Control Singapore Pte","Home Network System","Home Skinovations","HomeLogic","HomeWizard","Homenet Communications","Hon Hai Precision IND","Hon Hai Precision Ind","Hon Hai Precision Industry","Honda Electron Co., LED","Honda Motor","Honest Technology","Honewell","Honey Bee (Hong Kong)","Honeywell","Honeywell (China)","Honeywell Analytics","Honeywell CMSS","Honeywell Co., Ltd. (KOREA)","Honeywell Connected Building","Honeywell Environmental & Combustion Controls","Honeywell Environmental & Combustion Controls (Tianjin)","Honeywell Fire System (Shanghai)","Honeywell International","Honeywell Life Safety","Honeywell SPS","Honeywell Safety Products (Shanghai)","Honeywell Security (China)","Honeywell Video Systems","Honeywld Technology","Hong Kong AMobile Intelligent Corp. Limited Taiwan Branch","Hong Kong Bouffalo Lab","Hong Kong Middleware Technology","Hong Kong Telecommunications (HKT)","Hong Kong Yihao Electronic Technology","HongKong Ipro Technology","HongKong THTF","HongKong Tenry Technology","HongKong YiTong Technology","Honghao Mingchuan Technology (Beijing)","Hongkong Nano IC Technologies","Hongshan Information Science and Technology (HangZhou)","Honor Device","Hopling Technologies","Horizon Semiconductors","Horoquartz","Hose-McCann Communications","Hosenso GmbH & Co. KG","Hoseo Telecom","Hoshino Metal Industries","Hosiden","Hosin Global Electronics","Host Mobility","Hot Pepper","HotLava Systems","Hotel Technology Next Generation","Hottinger Brüel & Kjaer","Hottinger Brüel & Kjær","Hotway Technology","Houwa System Design","Hoval Aktiengesellschaft","Htel","Hu","Hu Zhou NAVA Networks&Electronics","HuMANDATA","HuNan ZiKun Information Technology","HuRob","Hua Jung Components","Huaan Zhongyun","Huachentel Technology Development","Huahao Fangzhou Technology","Huahao Kunpeng Technology (chengDu)","Hualong Telecom","Huami (Shenzhen) Information Technology","Huami Information Technology","Huanshun Network Science and Technology","Huaqin Technology","Huaqin Telecom Technology","Huawei Device","Huawei Symantec Technologies","Huawei Technologies","Huayuan Technology","Hub-Tech","Hubbell Building Automation","Hubbell Power Systems","Hubei Yangtze Mason Semiconductor Technology","Hubei Yuan Times Technology","Huber + Suhner","Huges Hi-Tech","Hughes Network Systems","Hugo Brennenstuhl Gmbh & Co. KG","Hui Zhou Gaoshengda Technology","HuiZhou KaiYue Electronic","Huike Electronics (SHENZHEN)","Huiwan Technologies","Huiyang Technology","Huizhou BYD Electronic","Huizhou Boshijie Technology","Huizhou City Sunsin lntelligent Technology","Huizhou Desay SV Automotive","Huizhou Foryou General Electronics","Huizhou Guangshijia Communication Technology","Huizhou Speed Wireless Technology","Huizhou Super Electron Technology","Hulu Sweden","Human","Human Assembler","Human Technology","Humane","Humannix","Humanware","Humo Laboratory","Hunan Comtom Electronic","Hunan Danuo Technology","Hunan Fenghui Yinjia Science And Technology","Hunan Greatwall Computer System","Hunan Greatwall Galaxy Science and Technology","Hunan HKT Electronic Technology","Hunan Keyshare Communication Technology","Hunan Topview Network System","Hunan Voc Acoustics Technology","Hunantv.com Interactive Entertainment Media","Hung Chang","Hunkeler","Hunt Electronic","Hunter Douglas","Hunter Engineering","Hunter Technology","Hunting Innova","Huntleigh Healthcare","Hurco Automation","Huria","Husqvarna","Hutchison OPTEL Telecom Technology","Hutec","Hutek","Huwell Technology","Huzhou Luxshare Precision Industry","HyBroad Vision (Hong Kong) Technology","Hybridserver Tec","Hydro Systems","Hyeco Smart Tech","Hyglo","Hylab Technology","HyperEdge","Hyperloop Technologies, Inc dba Virgin Hyperloop","Hypermedia Systems","Hyperstone","Hypertherm","Hypervolt","Hytec Inter","Hytera Communications","HyunJu Computer","Hyundai Autoever","Hyundai Digital Technology","Hyundai ESG","Hyundai ImageQuest","Hyundai Kefico","Hyundai Teletek","Hyunjin.com","Hyve Solutions","I CON Computer","I Controls","I DO IT","I Smart Cities HK","I&C Technology","I'M","I+ME Actia Informatik und Mikro-Elektronik","I-BT DIGITAL","I-BUS","I-CUBE","I-CUBED","I-DATA INTERNATIONAL A-S","I-LAX ELECTRONICS","I-O","I-O DATA","I-Storm","I-TEC","I-TECH","I-Tech","I-View Now","I-WIN","I-sys","I.C.Y","I.S HIGH TECH","I.S.E","I/F-COM","I/O Interconnect","I2SE","I4VINE","IA Link Systems","IAI","IAV","IAdea","IBA Dosimetry","IBASE Technology","IBC TECHNOLOGIES","IBC/INTEGRATED BUSINESS COMPUTERS","IBG Industriebeteiligungsgesellschaft mbH &b Co. KG","IBM","IBM JAPAN, FUJISAWA MT+D","IBO Technology","IBOND","IBR","IBR COMPUTER TECHNIK","IBSmm Embedded Electronics Consulting","IBT Ingenieurbureau Broennimann Thun","IBT Interfaces","IBTEK","IC BOSS.COM TECH","IC ENSEMBLE","IC Holdings","IC Intracom","IC Nexus","IC Realtime","IC-Net","ICA","ICANN, IANA Department","ICARVISIONS (SHENZHEN) TECHNOLOGY","ICC","ICC Intelligent Platforms","ICE","ICET","ICG NETWORKS","ICG Research","ICHIPS","ICL DATA","ICM","ICM Controls","ICOM","ICOMM HK","ICOMM Tele","ICON Digital International","ICON WEST","ICONAG","ICOP Digital","ICP Electronics","ICP Internet Communication Payment","ICP VORTEX COMPUTERSYSTEME","ICPDAS","ICR","ICS","ICTK","ICTV","ICU Medical","ICUE Systems","ICX Technologies","ID DIGITAL","ID SCANDINAVIA","ID Tech","IDCS N.V","IDEA ASSOCIATES","IDEALBT TECHNOLOGY","IDEC IZUMI","IDEMIA PUBLIC SECURITY FRANCE","IDENTEC SOLUTIONS","IDEO Security","IDFone","IDIS","IDK","IDN Telecom","IDOT Computers","IDREAM TECHNOLOGIES, PTE","IDS","IDS Imaging Development Systems","IDT","IDT Technology","IDX","IDY","IDentytech Solutins","IEA","IEC","IEC - TC57","IEC Technologies S. de R.L de C.V","IEC – TC9 WG43","IEE","IEEE 1394c","IEEE 1722a Working Group","IEEE 1904.1 Working Group","IEEE 1905.1","IEEE 802.1 Chair","IEEE 802.11","IEEE 802.3","IEEE I&M Society TC9","IEEE P1823 Standards Working Group","IEEE PES PSRC/SUB","IEEE Registration Authority","IEI Integration","IEIT SYSTEMS","IEP","IER","IES GmbH & Co. KG","IETHCOM INFORMATION TECHNOLOGY","IFFU","IFLYTEK","IFM Electronic","IFOTEC","IFP","IFTER Jerzy Taczalski","IGEN Tech","IGI Mobile","IGRS Engineering Lab","IGShare","IGT","IGYS Systems","IHSE","II-VI","IJ Electron","IKEA of Sweden","IKT Advanced Technologies s.r.o","ILJIN ELECTRIC","ILSHin Lab","ILWOO DATA & TECHNOLOGY","IMAGE DATA PROCESSING SYSTEM GROUP","IMAGE SCIENCES","IMAGIC","IMAGO Technologies","IMAQLIQ","IMASDE CANARIAS","IMATRAN VOIMA","IMATRON","IMAX","IMBEL - Industria de Material Belico do Brasil","IMC NETWORKS","IMCI TECHNOLOGIES","IMD","IMF INTERNATIONAL","IMI Hydronic Engineering international","IMI Norgren","IMI TECHNOLOGY","IMK Networks","IMLOGIX, DIVISION OF GENESYS","IMPACCT TECHNOLOGY","IMPACT TECHNOLOGIES","IMPRESSTEK","IMPULSE TECHNOLOGY","IMS Messsysteme","IMS Soluções em Energia Ltda","IMT - Information Management T","IMV","IN ONE SMART TECHNOLOGY(H,K,)","IN-NET","IN2 GROUPE INTERTECHNIQUE","INAT","INCAA Computers","INCOTEC","INCOstartec","INCREDIBLE TECHNOLOGIES","INDATA","INDEL","INDIGITA","INDIGO ACTIVE VISION SYSTEMS","INDISR COMMUNICATION SERVICES AND TECHNOLOGIES INDIA","INDRA ESPACIO","INDRA SISTEMAS","INDUSNET Communication Technology","INDUSTRIAL CPU SYSTEMS","INDUSTRIAL LOGIC","INDUSTRIAL NETWORKING","INDUSTRIAS UNIDAS SA DE CV","INDUSTRONIC Industrie-Electronic GmbH & Co. KG","INESA ELECTRON","INET","INEW DIGITAL","INEX TECHNOLOGIES","INFICON","INFINITE NETWORKS","INFOLIBRIA","INFORMATION INTERNATIONAL","INFORMATION PRESENTATION TECH","INFORMATION RESOURCE ENGINEERING","INFORMATION TECHNOLOGY","INFORSON","INFORTREND TECHNOLOGY","INFOTEC","INFOTEK COMMUNICATIONS","INFOTRON","INFRANET","INFRANOR","ING. GIORDANO ELETTRONICA","INGCHIPS Technology","INGENICO","INGENICO TERMINALS","INGENIERIA ELECTRONICA COMERCIAL INELCOM","INGETEAM","INGRAM MICRO SERVICES","INIM ELECTRONICS","INIT","INITECH","INITIO","INITIUM","INNATECH","INNERINT","INNES","INNO S","INNONET","INNOTZ","INNOVA","INNOVAPHONE","INNOVAT COMMUNICATIONS","INNOVATIVE SEMICONDUCTORS","INNOVATIVE SYSTEMS & TECHNOLOGIES","INNOVEX TECHNOLOGIES","INNOVI Technologies","INNOWELL","INO Therapeutics","INOCOVA","INOVA","INOVA COMPUTERS GMBH & CO. KG","INOVANCE","INOVIS","INQ Mobile","INRange Systems","INSIDE Technology","INSTAR Deutschland","INSTEM COMPUTER SYSTEMS","INSYS Microelectronics","INSYS icom","INSYSTEC","INTAI TECHNOLOGY","INTARSO","INTEG process group","INTEGRATED BUSINESS NETWORKS","INTEGRATED CIRCUIT SYSTEMS, INC. COMMUNICATIONS GROUP","INTEGRATED DEVICE","INTEGRATED ENGINEERING B. V","INTEGRATED FITNESS","INTEGRATED INFERENCE MACHINES","INTEGRATED MARKETING","INTEGRATED MEASUREMENT SYSTEMS","INTEGRATED MICRO PRODUCTS","INTEGRATED SYSTEMS DESIGN","INTEGRATED SYSTEMS Technology","INTEGRIX","INTEK DIGITAL","INTELLICOM","INTELLIGENCE TECHNOLOGY OF CEC","INTELLIGENT DEVICES INC. (IDI)","INTELLIWORXX","INTELNET","INTENTSECURE","INTER SALES","INTER-TEL INTEGRATED SYSTEMS","INTERACTIVE COMPUTING DEVICES","INTERCEPT SERVICES","INTERCROSS","INTEREL BUILDING AUTOMATION","INTERFACE","INTERFACE CONCEPT","INTERFACE SYSTEMS","INTERFLEX DATENSYSTEME","INTERGON","INTERGRAPH","INTERLINK COMMUNICATIONS","INTERLINK SYSTEM","INTERMEC","INTERMEDIUM","INTERNATIONAL DATACASTING","INTERNET INITIATIVE JAPAN","INTERNET MAGIC","INTERNIX","INTERPHASE","INTERSENSOR","INTERSIL","INTERTECH","INTERWARE","INTRACOM DEFENSE","INTRASERVER TECHNOLOGY","INVENTEC","INVENTEL","INVENTORY CONVERSION, INC./","INVERTEX","INVISIBLE SOFTWARE","INVISIO Communications","IO TECH","IO-Power Technology","IOA","IOGEAR","IOI Technology","IOLAN Holding","ION Geophysical","ION Networks","IONICS TECHNOLOGY ME LTDA","IONIX","IONODES","IONOS","IOPSYS Software Solutions","IOTTECH","IOWAVE","IOXOS Technologies","IP Control Systems","IP Datatel","IP Fabrics","IP Innovations","IP One","IP SQUARE","IP Video Networks","IP-LINE","IP-NET","IP500 Alliance e.V","IPAS","IPC CORPORATION (PTE)","IPC INFORMATION SYSTEMS","IPCserv Technology","IPEVO","IPFLEX","IPFRONT","IPG Laser","IPM Datacom","IPM-Net","IPMobileNet","IPOptical","IPROAD","IPS Technology","IPS d.o.o","IPTE","IPTrade","IPWireless","IPaXiom Networks","IPitomy Communications","IPmental","IPmotion","IPnect","IPrad","IPricot formerly DotCom","IQ TECHNOLOGIES","IQ Wireless","IQSIGHT","IQSIM","IQinVision","IRCA","IRCO Sistemas de Telecomunicación","IRD","IRI Ubiteq","IRIICHI TECHNOLOGIES","IRIS Corporation Berhad","IRIS SENSORS","IRIS TECHNOLOGIES","IRITEL A.D","IRLAB","IRLAN","IRLINK","IRONICS","IRT","IRT Electronics","IRTS","IRTrans","IRZ AUTOMATION TECHNOLOGIES","IRay Technology","ISA","ISAAC Instruments","ISAC","ISB","ISC applied systems","ISCO International","ISDN Communications","ISDN SYSTEMS","ISDYNE","ISE Europe SPRL","ISGUS","ISHIDA","ISHIDA MEDICAL","ISHIGAKI COMPUTER SYSTEM","ISICAD","ISIF","ISIS DISTRIBUTED SYSTEMS","ISKRAEMECO","ISL (Instrumentation Scientifique de Laboratoire)","ISOLATION SYSTEMS","ISONAS","ISPEC","ISR TECHNOLOGIES","ISSC Technologies","ISUNG","ISis ImageStream Internet Solutions","IT Access","IT Farm","IT R&D Center","IT Telecom","IT Watchdogs","IT-FACTORY","IT-IS International","ITALTEL S.p.A/RF-UP-I","ITAUTEC PHILCO","ITC Networks","ITC Systems","ITCN","ITDevices","ITE Tech","ITEC","ITECH INSTRUMENTS","ITEL MOBILE","ITF","ITF Fröschl","ITFOR","ITG","ITG Worldwide","ITI","ITIS","ITL","ITLook","ITO","ITO ELECTRIC INDUSTRY","ITOCHU Techno-Solutions","ITOH DENKI","ITON Technology","ITRAN Communications","ITRONIC TECHNOLOGY","ITS Telecom","ITSupported","ITT","ITTC, University of Kansas","ITTIM Technologies","ITU-T","ITUS JAPAN","ITV TECHNOLOGIES","ITW GSE ApS","ITX Security","ITX security","ITian Coporation","IVA","IVEX","IVS","IVT","IVT Electronic","IWATSU ELECTRIC","IWICS","IWILL","IXECLOUD Tech","IYO","IZT","Ibridge Networks & Communications","Ice Energy","Ice Qube","IceFyre Semiconductor","Icomera","Icon Time Systems","Icotera","Icron Technologies","IdaTech","Idaho National Laboratory","Idaho Technology","Idea System","Ideal Industries","Identicard Systems","Identix","Iders","Idesco","IfTA","Ifoundry Systems Singapore","Iftest","Igneous Systems","Ignis Optics","IgniteNet","Ignition Design Labs","Iiga","Ikanos Communications","Ikegami Tsushinki","Ikor Metering","Ikotek technology SH","IlSung Precision","Ilevo","Ilinx","Illucere","Ilryung Telesys","Ilshin Elecom","ImCoSys","ImTech Technologies","Imacs","Image Display Systems","Image Sensing Systems","ImageCom","Imagenics","Imagik Int'l","Imagination Technologies","Imagine Communications","Imagine Marketing Private","Imaging Diagnostics","Imaging Solutions Group","Imago Group","Imarda New Zealand","Imation","Imedia Semiconductor","Imerge","ImesD Electronica S.L","Impatica","Imperial Technology","Impex-Sat GmbH&amp;Co KG","Impinj","Impro Technologies","Impulse Labs","Imsys","In Home Displays","In Motion Technology","In-Circuit","In-Tech Electronics","InCoax Networks Europe","InCypher","InFocus","InGrid","InHand Networks","InMage Systems","InPhase Technologies","InPro Comm","InShow Technology","InTalTech","InView Technology","InVue","Inagile Electronic Technology","Inala Technologies","Inalp Solutions","Inara Networks","Incipient","Incipio Technologies","Incognito Software Systems","Indagon","Independent Storage","Independent Technologies","Independent Witness","Index Braille","IndiNatus (IndiNatus India Private Limited)","Indiana Life Sciences","Indieon Technologies Pvt","Indigo Mobile Technologies","Indigo Security","Individual Computers","Indra Heera Technology LLP","Indu-Sol","Inducon","Indus Teqsite Private","Industria Fueguina de Relojería Electrónica","Industrial Computer Source (Deutschland)","Industrial Control Communications","Industrial Control Systems","Industrial Cyber Sensing","Industrial Defender","Industrial Scientific","Industrial Software","Industrie Dial Face","Indyme Electronics","Indyme Solutions","IneoQuest Technologies","Inepro","Ines Test and Measurement GmbH & CoKG","Inetcam","InfiNet","Inficomm","Infilco Degremont","Infineon","Infinera","Infineta Systems","InfiniCon Systems","InfiniWing","Infiniband Trade Association","Infinico","Infinidat","Infinilink","Infinior Microsystems","Infinique Worldwide","Infiniswitch","Infinite Clouds","Infinite Electronics","Infinite QL","Infinite Shanghai Communication Terminals","Infinite Technologies JLT","Infiniti Electro-Optics","Infinity Electronics","Infinity System S.L","Infinity Tech","Infinix mobility","Infinova","Info Fiber Solutions Pvt","InfoBLOCK S.A. de C.V","InfoExpress","InfoGear Technology","InfoSight","Infoblox","Infocrypt","Infohand","Infopia","Inform Electronik","Informatics Services","Information Equipment","Information System Research Institute","Informtekhnika & Communication","Infoware System","Infoware ZRt","Infra Access Korea","Infraeo","Infrant Technologies","Infrared Integrated Systems","Infratec Datentechnik","Infrawaves","Ing. Büro Dr. Beutlhauser","Ingate Systems","Ingenic Semiconductor","Ingenico International","Ingenieurbuero Bickele und Buehler","Ingenieurbuero Stahlkopf","Ingenieurbuero Stark GmbH und Ko. KG","Ingersoll-Rand","Ingespace","Inhand Electronics","Inheco Industrial Heating and Cooling","Inhon International","Initra d.o.o","Inkel","Inkra Networks","Inlab Networks","Inmarsat","Inncom International","Inner Mongolia Yin An Science & Technology Development Co.,L","Inner Range","InnerSpace","InnerWireless","InnoCare Optoelectronics","InnoDigital","InnoLabs","InnoMedia","InnoMediaLogic","InnoScan Computing","InnoSys","InnoVISION Multimedia","InnoXings","Innocent Technology","Innocom","Innogrit","Innokas Group","Innolight Technology","Innolux","Innolux Technology Europe","Innomedia Technologies Pvt","Innometriks","Innominate Security Technologies","Innophase","Innopia Technologies","InnosiliconTechnology","Innotech","Innotrac Diagnostics","Innotube","Innova Security","Innovance Networks","Innovar Systems","Innovation Farm","Innovation Lab","Innovation Sound Technology","Innovation Wireless","Innovative Computer Engineering","Innovative Concepts","Innovative Converged Devices","Innovative Electronic Designs","Innovative Integration","Innovative Security Designs","Innovative Systems","Innovative Wireless Technologies","Innovid","Innovolt","Innowireless / QUCELL Networks","InoTec GmbH Organisationssysteme","Inodesign Group","Inogeni","Inovonics","Inpeco","InpegVision","Inphi","Input/Output","Inqnet Systems","Inscape Data","Inseego Wireless","Insensi","Insight Energy Ventures","Insightek","Insigma","Insigma Technology","Inspire Tech","Inspiremobile","Inspur (Shandong) Electronic Information","Inspur Communication Technology","Inspur Computer Technology","Inspur Group","Inspur Software Group","Insta Elektro","Institut für Prüftechnik","Institute 706, The Second Academy China Aerospace Science & Industry","Institute of Network Technologies","Institute of microelectronic applications","Instituto Nacional de Tecnología Industrial","Instorescreen Aisa","Instrumentation Technologies d.d","Instrumentation Technology Systems","Insulet","Intec Automation","Intego Systems","Integra Telecom","IntegraOptics","Integrated","Integrated Control Technology Limitied","Integrated Design Tools","Integrated Device Technology (Malaysia) Sdn. Bhd","Integrated Dispatch Solutions","Integrated Engineering","Integrated Medical Systems","Integrated Micromachines","Integrated Network","Integrated System Solution","Integrated System Technologies","Integri-Sys.Com","Intel","Intel Wireless Network Group","Intel – GE Care Innovations","IntelPro","Intelbras","Intelcan Technosystems","InteliCloud Technology","Intelicis","Intellambda Systems","Intellect International","IntelliVoice","Intellian Technologies","Intellibyte","Intellics","Intelligent Computer Solutions","Intelligent Control Systems (Asia) Pte","Intelligent Data","Intelligent Digital Services","Intelligent Distributed Controls","Intelligent Mechatronic Systems","Intelligent Optical Network High Tech","Intelligent Platforms","Intelligent Steward","Intelligent Systems","Intelligent Technology","Intelligent Telecommunications","Intellimedia Systems","Intellio","Intellion","Intellisis","Intellitect Water","Intellithings","Intelliverese - DBA Voicecom","Intellivision Holdings","Inteno Broadband Technology","Intent Solutions","Inter-M","InterAir Wireless","InterCreative","InterEnergy","InterEpoch Technology","InterNet Systems of Florida","Interactek","Interactive Intelligence","Interactive Multimedia eXchange","Interactive Objects","Interactive Wear","Interactivetv","Interalia","Interay Solutions","Intercel Group","Intercom","Intercon Systems","Interdisciplinary Consulting","Interexport Telecomunicaciones","Interface","Interface Masters","Interlink Electronics","Intermas France","International Bar Code","International Broadband Electric Communications","International Business Machines","International Communications","International Communications Products","International Computers","International Data Communications","International Games System","International Integrated Systems","International Microsystems, In","International Police Technologies","International Quartz","Internet Energy Systems","Internet Information Image","Internet Laboratories","Internet Photonics","Interphone Service","Interroll Software & Electronics","Intersoft","Intersoft Electronics","Interspiro","Intertain","Intertech Services","Intertex Data","Interval Media","Intervoice-Brite","IntiGate","Intime","Intoto","IntraServer Technology","Intraco Technology Pte","Intracom","Intracom Asia","Intracom SA Telecom Solutions","Intrakey technologies","Intransa","Intrepid Control Systems","Intrigue Technologies","Intrinsyc Software International","Intrising Networks","Intron Scientific","Intronics","Intrusion.com","Intruvert Networks","Intuicom","Intune Networks","Invacom","Invengo Information Technology","Invenit","Invensys","Invensys Controls UK","Inventec Appliance","Inventec Appliances","Inventec Besta","Inventec Multimedia & Telecom","Inventec(Chongqing)","Inventek Systems","Invento Networks","Inventronics","Inventum Technologies Private","Inventus Power Eletronica do Brasil LTDA","Invicta Networks","Invictus-AV","Invisible Fun Studio","Invivo Research","Invoxia","Inyuan Technology","IoT Company Solucoes Tecnologicas Ltda","IoT Diagnostics","IoT Security Group, SL","IoT Tech","Iomega","Ion Torrent Systems","Ionics EMS","Iosoft","Iota","Ipanema Technologies","Ipetronik GmbH & Co. KG","Iphion","Iprobe","Ipsil","Iqua","Ircona","Iridium Satellite","Iris ID Systems","IronGate S.L","Irumtek","IsaacLandKorea","Iscutum","Ishii Tool & Engineering","Isilon Systems","Iskra Sistemi d.d","Iskra Transmission d.d","Iskratel d.o.o","Ison Technology","Isotek Electronics","Italdata Ingegneria dell'Idea","Italian Institute of Technology","Italiana Macchi","Itcare","Itectra","Iteris","Itibia Technologies","Iton Technology","Itron","Itronix","Ivenix","Ivium Technologies","Ivoclar Vivadent","Ivron Systems","Ivy Biomedical","Iwasaki Information Systems","Iworld Networking","J & F Labs","J & S Marine","J B M","J Communications","J&M Analytik","J-MEX","J-S Co. NEUROCOM","J-TEK INCORPORATION","J-THREE INTERNATIONAL Holding","J-Works","J. MORITA MFG","J1 SYSTEMS","J125, NATIONAL SECURITY AGENCY","JABIL CIRCUIT","JABIL CIRCUIT (SHANGHAI)","JABIL CIRCUIT ITALIA","JABLOCOM s.r.o","JACOMO","JADAK","JAG Jakob","JAI Manufacturing","JAL Information Technology","JAMA Electronics","JANCUS","JANICH & KLASS COMPUTERTECHNIK","JANOME","JANUS, spol. s r.o","JANZ COMPUTER","JAPAN AVIATION ELECTRONICS INDUSTRY","JAPAN BUSINESS COMPUTER","JAPAN CIRCUIT","JAPAN COMPUTER","JAPAN DIGITAL LABORAT'Y","JAPAN MINICOMPUTER SYSTEMS","JAPAN RADIO","JAROGATE","JASCO","JASCOM","JATO TECHNOLOGIES","JATOM SYSTEMS","JATON","JAVAD GNSS","JAVELIN SYSTEMS","JAY HOW TECHNOLOGY","JAYCOR","JBL GmbH & Co. KG","JBL Professional","JBX Designs","JC Decaux SA DNT","JC HYUN Systems","JC INFORMATION SYSTEMS","JCT Healthcare","JD Cloud Computing","JDA, LLC (JDA Systems)","JDC Tech","JDM MOBILE INTERNET SOLUTION","JDSU France","JEAN","JEBSEE ELECTRONICS","JEMA ENERGY","JENOPTIK","JENOPTIK Advanced Systems","JEOL SYSTEM TECHNOLOGY","JEPICO","JESS-LINK PRODUCTS","JETCELL","JETTER","JEULIN","JFCONTROL","JHT Optoelectronics","JIAGNSU AETNA ELECTRIC","JIANGSU HENGSION ELECTRONIC S and T","JIANGXI JINGGANGSHAN CKING COMMUNICATION TECHNOLOGY","JIANGXI SHANSHUI OPTOELECTRONIC TECHNOLOGY","JIAXING GLEAD Electronics","JID GLOBAL","JIWUMEDIA","JJ","JJPlus","JK microsystems","JL","JL Audio","JLG Industries","JM Zengge","JM-DATA","JMACS Japan","JMI Electronics","JMP Systems","JMR Electronics","JMicron Technology","JNA TELECOMMUNICATIONS","JNC Systems","JOA TELECOM","JOHN FLUKE MANUFACTURING","JOHNATHON FREEMAN TECHNOLOGIES","JOHNSON & JOHNSON MEDICAL","JOLATA","JOOHONG INFORMATION","JOYBIEN TECHNOLOGIES","JOYMAX ELECTRONICS","JOYNED","JOYNEXT","JOYTOTO","JPS Communications","JRC TOKKI","JRD Communication","JRI","JRL SYSTEMS","JSC Concern Sozvezdie","JSC Goodwin-Europa","JSC IB Reform","JSC Irbis-T","JSC MASSA-K","JSC RPC Istok named after Shokin","JSC SDO Chromatec","JSC Stilsoft","JSC Supertel","JSC Zavod im. Kozitsky","JSW PACIFIC","JStream Technologies","JTAG Technologies","JTD Consulting","JTEC Card &amp; Communication","JTECH Communications","JTEKT ELECTRONICS","JTI","JUBIXCOLTD","JUHUA Technology","JUIN","JUKI","JUKO MANUFACTURE","JULONG","JUMP INDUSTRIELLE COMPUTERTECHNIK","JUNGJIN Electronics","JUPITER SYSTEMS","JUSAN","JUSTSYSTEM","JUWEL Aquarium AG & Co. KG","JVC KENWOOD","JVL Industri Elektronik","JW Electronics","JWCNETWORKS","JWEntertainment","JWIPC Technology","JWTrading","JY","Jabil","Jabil Circuit (Guangzhou)","Jabil Circuit Hungary","Jabil Circuit Penang","Jabil Circuit de Chihuahua","Jabil Circuit(Wuxi)","Jabil Circuits India Pvt Ltd,-EHTP unit","Jablotron","Jacobsons","Jacques Technologies P/L","Jade Quantum Technologies","Jaewoncnc","Jaguar de Mexico, SA de CV","Jala Group","James Czekaj","Jamex","Janam Technologies","Janitza electronics","Jantar d.o.o","Janteq","Janz - Contadores de Energia","Janz - Contagem e Gestão de Fluídos","Japan CBM","Japan Cash Machine","Japan Computer Vision","Japan Control Engineering","Japan Direx","Japan E.M.Solutions","Japan Image & Network","Japan Kyastem","Japan Network Service","Japan Radio","Japan System Design","Jasmine Networks","Jasmine Systems","Jastec","Jaty Electronics","Java Information","JayBird","JazzMutant","Jeda Networks","Jedai Broadband Networks","Jeelan (Shanghai Jeelan Technology Information","Jefferson Audio Video Systems","Jenaer Antriebstechnik","Jennic","Jenny Science","Jensen Scandinavia","Jeongmin Electronics","Jeorich Tech","JetHome","Jetlun (Shenzhen)","Jetmobile Pte","Jetstream Communications","Jetway Information","JiQiDao","JianLing Technology","Jiang Su Fulian Communication Technology","JiangSu Fulian Communication Technology","JiangSu Joyque Information Industry","JiangSu NanJing University Electronic Information Technology","JiangSu Newcom Optical&Electrical Communication","JiangSu ZhongXie Intelligent Technology","Jiangsu Aisida Electronic","Jiangsu Best Tone Information Service","Jiangsu Cynray IOT","Jiangsu Datang Electronic Products","Jiangsu Hengtong Optic-Electric","Jiangsu Hengtong Terahertz Technology","Jiangsu Hengxin Technology","Jiangsu Hetai Intelligent Control Technology","Jiangsu Houge Technology","Jiangsu Huacun Electronic Technology","Jiangsu Huaxing Electronics","Jiangsu Huitong Group","Jiangsu Lemote Technology","Jiangsu Miter Technology","Jiangsu Qinheng","Jiangsu SEUIC Technology","Jiangsu Switter","Jiangsu Toppower Automotive Electronics","Jiangsu Viscore Technologies","Jiangsu Xinsheng Intelligent Technology","Jiangsu Yinhe Electronics","Jiangsu Yitong High-Tech","Jiangsu Yuwell POCTech Biotechnology","Jiangsu Zhongxun Electronic Technology","Jiangsu dewosi electric","Jiangsu fulian Communication Technology","Jiangxi Gosun Guard Security","Jiangxi Hongpai Technology","Jiangxi Remote lntelligence Technology","Jiangxi Risound Electronics","Jiangxi Xunte Intelligent Terminal","Jiangxi Zhentian Technology","Jibaiyou Technology","Jibo","Jide Technology (Hong Kong)","Jifeline Networks","Jigowatts","JinQianMao Technology","Jinan Jovision Science & Technology","Jinan USR IOT Technology","JingLue Semiconductor(SH)","Jingsheng Technology","Jinmuyu Electronics","Jinwoo Industrial system","Jireh Energy Tech","Jizaie","Jlztlink Industry(ShenZhen)","Joby","JoeScan","John Deere Electronic Solutions","Johnson Controls","Johnson Outdoors Marine Electronics d/b/a Minnkota","Join Digital","Joint Stock Company Research Instinite Masshtab","Jollyboys","Jones Futurex","Jorjin Technologies","Jotron Electronics","JoulWatt Technology","Joview(Beijing) Technology","Jovision Technology","Jow Tong Technology","Joyent","Joyteck","Juice Technology","JumpGen Systems","Jumpnode Systems","Jumptronic","June Life","Jung Myoung Communications&Technology","Jung Myung Telecom","Junger Audio-Studiotechnik","Juni Korea","Junilab","Juniper Networks","Juniper Systems","Juphoon System Software","Jupiter Systems","Jupiters Technology","Jurong Hi-Tech (Suzhou)","Jurumani Solutions","Just Add Power","Just In Mobile Information Technologies (Shanghai)","JustEzy Technology","Justec International Technology","Justone Technologies","Juyoung Telecom","Jäger Computergesteuerte Meßtechnik","K Tech Infosystem","K Technology","K's","K-BOT COMMUNICATIONS","K-NET","K-Patents","K-Tech Devices","K-ubique ID","K.A. Schmersal GmbH & Co. KG","K.J. LAW ENGINEERS","K2E Tekpoint","K2NET","K40 Electronics","KAEL MÜHENDİSLİK ELEKTRONİK TİCARET SANAYİ LİMİTED ŞİRKETİ","KAESER KOMPRESSOREN","KAGA FEI","KAIMEI ELECTRONI","KAISHUN ELECTRONIC TECHNOLOGY CO., LTD. BEIJING","KALPANA","KANDA TSUSHIN KOGYO","KANSAI ELECTRIC","KAPADIA COMMUNICATIONS","KAPELSE","KAPPA opto-electronics","KAPSCH","KARAM","KARDIOS SYSTEMS","KAREL","KARST.AI","KASTEN CHASE APPLIED RESEARCH","KATANA PRODUCTS","KATHREIN TechnoTrend","KATHREIN-WERKE KG","KATIM","KATRON COMPUTERS","KATSUJIMA","KAWASAKI HEAVY INDUSTRIES","KAWASAKI LSI U","KAYABA INDUSTRY","KB Electronics","KB/TEL TELECOMUNICACIONES","KBC Networks","KBS","KBT Mobile","KBVISION GROUP","KC Technology","KCE","KCF Technologies","KCodes","KDC","KDD Media Will","KDD-KOKUSAI DEBNSIN DENWA","KDDI Network & Solultions","KDE","KDT Systems","KE Knestel Elektronik","KEB Automation KG","KEBA","KEBA Industrial Automation Germany","KEBODA Intelligent TECHNOLOGY","KEEBOX","KEISOKUKI CENTER","KEITHLEY INSTRUMENTS","KEMAS","KENDALL SQUARE RESEARCH","KENDIN SEMICONDUCTOR","KENSTEL NETWORKS","KENTEK INFORMATION SYSTEMS","KENTKART EGE ELEKTRONIK SAN. VE TIC. LTD. STI","KENWIN INDUSTRIAL(HK)","KEOPSYS","KERAJET","KERBANGO","KERLINK","KERNEL-I","KESTREL SOLUTIONS","KETEK","KETRON","KEYCORP","KID Systeme","KIDASEN INDUSTRIA E COMERCIO DE ANTENAS LTDA","KIMIN Electronic","KIMPSION INTERNATIONAL","KIMTRON","KINGENE Technology","KINGJIM","KINGMAX TECHNOLOGY","KINGSTAR TECHNOLOGY","KINGSTATE ELECTRONICS","KINGTEK CCTV ALLIANCE","KINKEI SYSTEM","KIRK telecom","KISAN ELECTRONICS","KISAN SYSTEM","KISAN TELECOM","KISS Teknical Solutions","KITA DENSHI","KLA INSTRUMENTS","KLEMSAN ELEKTRIK ELEKTRONIK SAN.VE TIC","KLEVER COMPUTERS","KLG Smartec","KLINFO","KM Electornic Technology","KMB systems, s.r.o","KMC CHAIN INDUSTRIAL","KMC CONTROLS","KMDATA","KMW","KN SOLTEC","KNC One","KNS Group","KNS Group LLC (YADRO Company)","KNX","KO & AL","KOANKEISO","KOBE STEEL","KOBISHI ELECTRIC","KOCOM","KODAI HITEC","KODIAK TECHNOLOGY","KODICOM","KOFAX IMAGE PRODUCTS","KOGA ELECTRONICS","KOGANEI","KOITO ELECTRIC INDUSTRIES","KOKUSAI DENKI Electric","KOKUSAI ELECTRIC","KOKUYO S&T","KOMATSU","KOMEG Industrielle Messtechnik","KONICA MINOLTA HOLDINGS","KORATEK","KOREA COMPUTER","KOREA ELECTRIC TERMINAL","KOREA MAINTENANCE","KORG","KORWIN","KOSTAL (Shanghai) Management","KOSTAL Industrie Elektrik","KOTT","KOUWELL ELECTRONICS CORP. **","KOVE","KPN","KRG","KRUPP ATLAS ELECTRONIK","KRYON TECHNOLOGY PRIVATE","KRYPTON POLSKA","KS System","KSH International","KSIC","KSP","KST technology","KT Micro","KT TECHNOLOGY (S) PTE","KT&C","KTC","KTF Technologies","KTI","KTIS","KTNF","KTS Kommunikationstechnik und Systeme","KUBOTA CORPORATION ELECTRONIC","KUBOTEK","KUHN","KUK JE TONG SHIN","KUKA WELDING SYSTEMS & ROBOTS","KUME electric","KUMHO ENG","KUNBUS","KUNIMI MEDIA DEVICE","KUPSON spol. s r.o","KURUSUGAWA Electronics Industry","KUZUMI ELECTRONICS","KVASER","KVB/ANALECT","KVH Industries","KWANG SUNG ELECTRONICS","KWANG WOO I&C","KWANGSUNG ELECTRONICS KOREA","KWANGWON TECH","KWB","KWORLD COMPUTER","KWS Computersysteme","KYE Systems","KYKXCOM","KYLAND Technology","KYLINK Communications","KYOCERA","KYOCERA Display","KYOCERA Document Solutions","KYOEI SANGYO","KYOHRITSU ELECTRONIC INDUSTRY","KYOKKO ELECTRIC","KYOLIS","KYOSAN ELECTRIC MFG","KYOWA Electric & Machinery","KYOWA Electronic Instruments C","KYUNGWOO.SYSTEM","KYUSHU TEN","KZ Broadband Technologies","Ka-Ro electronics","KaVo Dental GmbH & Co. KG","Kaco Solar Korea","Kaga Electronics","Kai-EE","Kaiam","Kaicom","Kaise Electronic Technology","Kakao","Kaleidescape","Kalki Communication Technologies","Kamama","Kameleon Technologies","Kaminario","Kamo Technology","Kamstrup","KanEL Sweden","Kandao lightforge","Kanematsu Electronics","KangSheng","Kanno Works","Kaon Broadband","Kaon Group","Kaparel","Kapsys","Karl Storz Imaging","Kasda Networks","Kastle Systems","Katch Asset Tracking","Katena Computing Technologies","Katoudenkikougyousyo","Katun","Kawasaki Microelectronics","Kayser-Threde","Kaztek Systems","KeRo Systems ApS","Kedah Electronics Engineering","Keen High Holding(HK)","Keenetic","Keheng Information Industry","Kei Communication Technology","Keico Hightech","Keisoku Giken","Keisokugiken","Keith & Koep","Keiyo System Research","Kellendonk Elektronik","Kelman","Keltron IOT","Kelvin","Kelvin Hughes","Kemper Digital","Kempower Oyj","Kemppi","Kenade Electronics Technology","Kenetec","Kenmec Mechanical Engineering","Kensington Computer Products Group","Kentec Electronics","Kentima Technologies","Kentrox","Kenwood","Keri Systems","Kessler Crane","Ketra","Keumbee Electronics","KeunYoung Electronics & Communication","Kexiang Information Technology","Key Digital Systems","Key Radio Systems","Key Stream","Key Technology","KeyEye Communications","KeyMed","Keyence","Keysight Technologies","Keystone Microtech","Keytronix","Khomp","Khwahish Technologies Private","Kieback & Peter GmbH & Co KG","Kihoku Electronic","Kiio","Kikusui Electronics","Kilchherr Elektronik","Kimaldi Electronics, S.L","Kimball Electronics Group","Kimoto Electric","Kinco Automation(Shanghai)","Kinestral Technologies","Kinetek Sports","Kinetic Avionics","Kinetic Technologies","Kinetics","Kinexon","King Champion (Hong Kong)","King Slide Technology","King Tsushin Kogyo","King Young Technology","KingTing Tech","Kinghold","Kingjon Digital Technology","Kingnetic Pte","Kingsignal Technology","Kingspan Environmental","Kingston Technology","Kingtel Telecommunication","Kingtronics Industrial","Kingwave Technology","Kinion Technology","Kinova","Kinpo Electronics","Kioxia","Kira Information & Communications","Kirale Technologies SL","Kirana Networks","Kirisun Communications","Kiryung Electronics","Kishu Giken Kogyou","Kisi","Kistler Instrumente","KitWorks.fi","Kivic","Kivo Technology","Kiwibit","Kiyon","Klas","Kleinhenz Elektronik","Kleinknecht GmbH, Ing. Büro","Klipsch Group","Klotz Digital","Knapp Logistik Automation","Knick Elektronische Messgeraete GmbH & Co. KG","Knilink Technology","Knit Sound","Knorr-Bremse IT-Services","Knovative","Knowledge Development for POF S.L","Knürr","KoCo Connector","KoamTac","Koatsu Gas Kogyo","Kobian Pte Ltd - Taiwan Branch","KodaCloud Canada","Koden Electronics","Kodeos Communications","Kodofon JSC","Koei Engineering","Koenig & Bauer","Kogniza","Kohler","Kohler Ventures","Kohzu Precision","Koko Fitness","Kolektor group","Kolff Computer Supplies","Kollmorgen","Kollmorgen-Servotronix","Komax","Komodo Technology","Konami","Konami Gaming","Koncar Electronics and Informatics","Koncept International","Kone OYj","Kong Yue Electronics & Information Industry (Xinhui)","KongTop industrial(shen zhen)","Kongsberg Defence & Aerospace","Kongsberg Seatex","Konka Group","KonnectONE","Kontakt Micro-Location Sp z o.o","Konten Networks","Kontrolnext Technology (Beijing)","Kontron (BeiJing) Technology","Kontron America","Kontron Asia Pacific Design Sdn. Bhd","Kontron Electronics","Kontron Europe","Kontron Medical","Kontron eSystems","Konze System Technology","Koos Technical Services","Korea CNO Tech","Korea Computer Technology","Korea Data Systems","Korea Electric Power Data Network (KDN)","Korea Image Technology","Korea Infocom","Korea Network Systems","Korins","Koss","Koubachi","Kowa","Kozio","Kozumi USA","Kprotech","Kraftway","Kramer Electronics","Kratos EPD","Krauss Maffei Technologies","Kreatel Communications","Kriwan Industrie-Elektronik","Krohne","Kronback Tracers","Krüger &Gothe","Ktech Telecommunications","Kuang-chi Institute of Advanced Technology","Kubota","Kuipers Electronic Engineering","Kulite Semiconductor Products","Kumahira","Kumalift","Kumho Electric","Kummler+Matter","Kumoh Electronic","Kumyoung","KunGao Micro (JiangSu)","KunTeng","Kunshan Erlab ductless filtration system","Kunshan JADE Technologies","Kuokoa Networks","Kurth Electronic","Kurz Industrie-Elektronik","KwikByte","Kwikset","Kyeungin CNS","Kygo Life A","Kyland-USA","Kymeta Purchasing","Kyocera Wireless","Kyokko Tsushin System","Kyoritsu Electric","Kyoto Electronics Manufacturing","Kyoto Microcomputer","Kyoto University","Kyowa Electronics","Kyuden Technosystems","Kyung In Electronics","KyungDong One","Kyushu Electronics Systems","Kyushu-kyohan","Kyynel","L&F","L&N TECHNOLOGIES","L-3 COMMUNICATIONS EAST","L-3 Communication Aviation Recorders","L-3 Communications Display Systems","L-3 Communications Geneva Aerospace","L-3 Communications Infrared Products","L-3 Communications, Aviation Recorders","L-3 Linkabit","L-3 Sonoma EO","L-S-B Broadcast Technologies","L-TECH","L-tek d.o.o","L.S.I. Japan","L3 Communications - Telemetry West","LA CIE GROUP","LA FRANCAISE DES JEUX","LABORATORY EQUIPMENT","LABRIS NETWORKS","LABTAM","LABiTec - Labor Biomedical Technologies","LACROIX TRAFFIC S.A.U","LACROIX Trafic","LAIIER","LAM Technologies","LAMPEX ELECTRONICS","LAN ACCESS","LAN Accessories","LAN-TEC","LAN/MAN Standards Association (LMSC)","LANACCESS TELECOM","LANART","LANBIRD TECHNOLOGY","LANBit Computer","LANCO","LANCOM Systems","LAND COMPUTER","LANDINGS TECHNOLOGY","LANEX","LANNER ELECTRONICS","LANNET DATA COMMUNICATIONS","LANOPTICS","LANS TECHNOLOGY","LANVOICE","LANWAN TECHNOLOGIES","LANergy","LAON TECHNOLOGY","LAP Laser Applikations","LAPIS TECHNOLOGIES","LARK Technologies","LARS","LARSCOM","LARsys-Automation","LASERANIMATION SOLLINGER","LASERGRAPHICS","LASERMASTER TECHNOLOGIES","LATECOERE","LAUREL BANK MACHINES","LAVA INTERNATIONAL(H.K)","LBNL Engineering","LCFC(Hefei) Electronics Technology","LE INFORMATION COMMUNICATION","LEA","LEA Professional","LEA*D","LEADER COMM","LEADER ELECTRONICS","LEADTEK RESEARCH","LEAP TECHNOLOGY","LEAPS s.r.o","LEAR","LEAX Arkivator Telecom","LECTRA SYSTEMES","LED Roadway Lighting","LEDATEL sp. z o.o. i Wspólnicy sp.k","LEDVANCE","LEEDARSON LIGHTING","LEEDS & NORTHRUP AUSTRALIA","LEETEK","LEGIC Identsystems","LEGO System","LEGO System A/S IE Electronics Division","LEGRAND","LEICHU ENTERPRISE","LEIFHEIT","LEIGHTRONIX","LEMCOM SYSTEMS","LENECO","LENOVO(BEIJING)","LENUS","LEO Innovation Lab","LEROY AUTOMATION","LET'S","LETEK Communications","LEUNIG","LEVEL s.r.o","LEX COMPUTECH","LEXAR","LEXMARK INTERNATIONAL","LG CNS","LG Chem","LG Display","LG ELECTRONICS","LG Electornics","LG Electronics","LG Electronics (Mobile Communications)","LG INFORMATION & COMM","LG INTERNATIONAL","LG Innotek","LG-Ericsson","LGE","LGS Innovations","LHP Telematics","LI-COR Biosciences","LIBA Maschinenfabrik","LIBERTY ELECTRONICS","LIBERTY TECHNOLOGY NETWORKING","LIDKOPING MACHINE TOOLS","LIFI LABS MANAGEMENT","LIG NEOPTEK","LIGHTERA NETWORKS","LIGHTNING INSTRUMENTATION","LIGHTRON FIBER-OPTIC DEVICES","LIGHTSPEED INTERNATIONAL","LIGHTWAVE COMMUNICATIONS","LIMETEK","LIMNO","LINDSAY BROADBAND","LINE BIZ Plus","LINEAR","LINEEYE","LINK2IT","LINKCOM","LINKUP SYSTEMS","LINOTYPE-HELL","LINQ SYSTEMS","LINX Data Terminals","LIONS Taiwan Technology","LIOS Technology","LIPPERT AUTOMATIONSTECHNIK","LITE-ON CLEAN ENERGY TECHNOLOGY","LITE-ON COMMUNICATIONS","LITE-ON Communications","LITE-ON IT","LITE-ON Technology","LITTLE MACHINES","LITTON SYSTEMS","LITTON/POLY-SCIENTIFIC","LIVINGSTON ENTERPRISES","LIZN ApS","LInTech","LJU Automatisierungstechnik","LLC Elektra","LLC Emzior","LLC NTC Rotek","LLC Proizvodstvennaya Kompania TransService","LM Technologies","LMI Technologies","LMS Skalar Instruments","LN Srithai Comm","LNC Technology","LNT-Automation","LOCAMATION","LOCKHEED - SANDERS","LOCOSYS Technology","LOCUS COMPUTING","LOENK","LOGIBAG","LOGIC","LOGIC MODELING","LOGIC REPLACEMENT TECH","LOGICAL DESIGN GROUP","LOGICOM","LOGICRAFT","LOGIPLUS","LOGISTISTEM","LOGWARE","LOHUIS Networks","LONG BEN (DONGGUAN) ELECTRONIC TECHNOLOGY","LONG WELL ELECTRONICS","LONGCHEER TELECOMMUNICATION","LONGCONN ELECTRONICS(SHENZHEN)","LOOK EASY INTERNATIONAL","LOOP TELECOMMUNICATION INTERNATIONAL","LOOPDESIGNLAB PTE","LORD","LOYTEC electronics","LPL DEVELOPMENT S.A. DE C.V","LRE Medical","LS Cable and System","LS Mecapion","LS(LG) Industrial Systems","LSD Science and Technology","LSI LOGIC","LSI Systems","LSICS","LSY Defense","LT SECURITY","LTI Motion (Shanghai)","LTX-Credence","LTi REEnergy","LUCENT TECHNOLOGIES","LUCENT TECHNOLOGIES TAIWAN TELECOMMUNICATIONS","LUCENT TRANS ELECTRONICS","LUCIDATA","LUCKY TECHNOLOGY (HK)","LUMINEX Lighting Control Equipment","LUXCOM","LUXOTTICA GROUP","LUXSHARE-ICT","LV SOLUTION SDN. BHD","LVL 7 Systems","LVS","LVSWITCHES","LVX Western","LX Semicon","LXCO Technologies","LXE","LXI Consortium","LXinstruments","LYLINK","LYNK","LYNX SYSTEM DEVELOPERS","LYSORA TECHNOLOGY","La Crosse Technology","LaVision","Lab33","LabJack","Labor","Lacroix","Laerdal Medical","Lafon","Lagotek","Laguna Hills","Laird Technologies","Lake Communications","Laketune Technologies","Lamprey Networks","Lampuga","Lampus","LanPro","LanReady Technologies","Lanbowan Technology","Lancelan Technologies S.L","Land-Cellular","Landauer","Landis+Gyr","Lanix Internacional, S.A. de C.V","Lansen Systems","Lansentechnology","Lantech Communications Global","Lantis","Lantronix","LaonPeople","Laplace System","Lara Technology","Lars Thrane","Lartech telecom","Las Vegas Gaming","Lasat Networks","Lascar Electronics","Laser Light Engines","Lasercraft","Lassen Research","Lastar","Latch","Lattice Semiconductor Corp. (LPA)","Latticework","Launch Tech","Lauterbach","Lava Computer Mfg","Lava International","Lava international","Lavelle Networks Private","Law-Chain Computer Technology","Lawo","Layer3TV","LayerZero Power Systems","Layon international Electronic & Telecom","Le Shi Zhi Xin Electronic Technology (Tianjin)","LeCroy - Networking Productions Division","LeWiz Communications","Leadcore Technology","Leader Phone Communication Technology","Leadfly Techologies","Leading Public Performance","Leaf","Leaf Imaging","LeapComm Communication Technologies","LeapFrog Enterprises","Leapfive Tech","Leapmotor (Jinhua) New Energy Vehicle Parts Technology","Lear","Lectron","Lectrosonics","LeddarTech","Lee-Dickens","Leeman International (HongKong)","Leeo","Legra Systems","Legrand Home Systems","Legrand INTELLIGENT ELECTRICAL(HUIZHOU)","LeiShen Intelligent System","Leica Camera","Leica Geosystems","Leica Microsystems","Leica Microsystems (Schweiz)","Leie IOT technology","Leimac","Leine & Linde","Leipold+","Leiser","Leisure Time","Leitner","Lely Industries N.V","Lemke Diagnostics","Lemobile Information Technology (Beijing)","Lenbrook Industries","Lengda Technology(Xiamen)","Lenntek","Lenord, Bauer","Lenovo","Lenovo (Beijing)","Lenovo Future Communication Technology (Chongqing)","Lenovo Information Products (Shenzhen)","Lenovo Mobile Communication (Wuhan)","Lenovo Mobile Communication Technology","LenovoEMC Products USA","Lenten Technology","Lenze","Leo Bodnar Electronics","LeoLabs","Leonardo UK","Leonton Technologies","Leopold Kostal GmbH &Co. KG","Les Technologies SoftAcoustik","Lesira Manufacturing","Lester Electrical","Letta Teknoloji","Letv Mobile and Intelligent Information Technology (Beijing)","LeucotronEquipamentos Ltda","Leutron Vision","Leuze electronic GmbH + Co. KG","LevelOne Communications (India) Private","Leviton Manufacturing","Leviton Network Solutions","Levven Electronics","LexBox","Lexar Media","Lexking Technology","Li Seng Technology","LiComm","Liab ApS","Liang Herng Enterprise","Liangang Optoelectronic Technology","Lianhe Technologies","Liaoning Wontel Science and Technology Development","Libratone","Libre Wireless Technologies","LibreStream Technologies","Licera","Liebert-Hiross","Liebherr - Elektronik","Liecthi","Lierda Science & Technology Group","Life Fitness / Div. of Brunswick","Life Racing","Life Technology (China)","LifeBEAM Technologies","LifeHealth","LifeSize Communications","LifeSync","Lifetron","Lift Complex DS, JSC","Ligent Tech","Light Labs","LightChip","LightHaus Logic","LightSand Communications","Lightcomm Technology","Lighting Science Group","Lightner Engineering","Lightning Telecommunications Technology","Lightpointe Communications","Lightspeed Technologies","Lightware Visual Engineering","LightwaveRF Technology","LigoWave","Lih Rong electronic Enterprise","Lika","Lilee Systems","Liling FullRiver Electronics & Technology","Lily Robotics","Lime Instruments","Limidea Concept Pte","Limited Liability","LinTech","Lincoln Electric","Linea Research","Lineage Power","Linear DMS Solutions Sdn. Bhd","Linear Equipamentos Eletronicos","Linepro Sp. z o.o","Lingban Technology (Hangzhou)","Link One","LinkData Technology (Tianjin)","LinkSprite Technologies","Linkage System Integration","Linked IP","LinkedHope Intelligent Technologies","Linkflex","Linkflow","Linkintec","Linkpower Microelectronics","Linkpower Network System","Linksys USA","Linktel Technologies","Linktop Technology","Linkwell Telesystems Pvt","Linkwise Technology Pte","Linn Products","LinoWave","Lintes Technology","Linxtek","Liontech","Lipi Data Systems","Lipman TransAction Solutions","Liptel s.r.o","Liquid Computing","Liquid-Markets","Liquidtool Systems","Lisantech","Lismore Instruments","Listman Home Technologies","Litchfield Communications","Lite-On Network Communication (Dongguan)","Lite-On Technogy","LiteON","LiteTouch","Litemax Electronics","Liteon","Liteon Technology","Liteon, Mobile Media Solution SBU","Lithiunal Energy","Littelfuse Startco","Littlefeet","Litton Marine Systems","Liuhe Intelligence Technology","LiveTV","LiveU","Liverock technologies","Livescribe","Livesecu","Liyuh Technology","LoBenn","LoJack","LoPA Information Technology","Load Technology","Lobos","LocSoft","Lockheed Martin Tactical Systems","Lockin Technology(Beijing)","Locus","Lodam Electronics","LodgeNet Entertainment","Loewe Opta","LogMeIn","Logi-D","LogiCan Technologies","LogiSync","Logic","Logic Controls","Logic Innovations","Logic Instrument","Logic Product Development","Logic Way","Logic3","LogicaCMG","Logical","Logical Link Communications","Logical Solutions","Logically Us","Logipix","Logistic Service & Engineering","Logital","Logitec","Logitech","Logitech (China) Technology","Logitech Europe","Logitech Far East","Logitech Hong Kong","Logitek Electronic Systems","Logiways","Logopak Systeme GmbH & Co. KG","Logosol","Logostek","Long Range Systems","Long Reach Networks","LongSung Technology (Shanghai)","Longcheer Technology (Singapore) Pte","Longconn Electornics(shenzhen)","Longdhua(Beijing) Controls Technology","Longicorn","Longkay Communication & Technology (Shanghai)","Longnan Junya Digital Technology","Lontium Semiconductor","LookX Digital Media","Lookit Technology","Loongson Technology","Loopcomm Technology","Lootom Telcovideo Network (Wuxi)","Looxcie","Loran International Technologies","Lorent Networks","Lorex Technology","Lorica Solutions","Lorom Industrial","Loud Technologies","Louis Design Labs","Low Tech Solutions","Lowrance Electronics","Loxley Public","Loxone Electronics","Lucas Holding","Lucent Technologies","Lucid Motors","Lucid Vision Labs","Lucid Voice","Ludl Electronic Products","Lufft Mess- und Regeltechnik","Lufkin Industries","Luma Home","Lumacron Technology","Lumasense Technologies","Lumenera","Lumenpulse","Lumens Digital Optics","Lumentum","Lumewave","Lumexis","Lumi United Technology","Lumigon","Luminar Technologies","Luminate Wireless","Luminator Technology Group Global","Luminous Power Technologies Pvt","Luminys Systems","Lumissil Microsystems","Lumiva","Luna Innovations","Luna Products","Lunar Energy","Lunatone Industrielle Elektronik","Lund IP Products","Lundinova","Lung Hwa Electronics","Lupine Lighting Systems","Lushare Precision Industry","Lutron Electronics","Lux Lumen","LuxN, N","Luxcom Technologies","Luxottica Tristar (Dongguan) Optical","Luxshare Precision Industry","Luxshare Precision Industry (Xuancheng)","Luxtera","Luxul","Luxul Tech","Lyan","Lycium Networks","Lyngbox Media","Lyngso Marine","Lyngsoe Systems","Lynq Technologies","Lynx Photonic Networks","Lynx Studio Technology","Lynxspring, Incl","Lytro","Lytx","Lyve Minds","Lyyn","LzLabs","M & N","M Rutty Holdings","M Seven System","M&S Systems","M+F Gwinner","M-Audio","M-Cube","M. K. Juchheim","M.C.C.I","M.I. SYSTEMS","M/A-COM INC. COMPANIES","M2Communication","M2I","M2M Solution S.A.S","M2Mnet","M2Motive Technology","MA Lighting Technology","MAATEL","MAC SYSTEM","MACAB","MACANDC","MACKIE Engineering Services Belgium BVBA","MACNICA","MACQ ELECTRONIQUE","MACRAIGOR SYSTEMS","MACROTECH (USA)","MACROVISION","MACTELL","MADOKA SYSTEM","MAGNA COMPUTER","MAGNETI MARELLI S.E","MAGNETI MARELLI SISTEMAS ELECTRONICOS MEXICO","MAHLO GMBH & CO. UG","MAITRISE TECHNOLOGIQUE","MAKU Informationstechik","MAKUS","MANNESMANN SCANGRAPHIC","MANNESMANN TALLY","MANUFACTURE DES MONTRES ROLEX","MANYCOLORS","MAPLE COMPUTER","MAPLE COMPUTER SYSTEMS","MAPLE NETWORKS","MARA Systems Consulting","MARBEN COMMUNICATION SYSTEMS","MARCH NETWORKS","MARCONI","MARCONI ELECTRONICS","MAREL HF","MARGI Systems","MARINER NETWORKS","MARKEM","MARKEM-IMAJE","MARKIN","MARLI","MARNER INTERNATIONAL","MARQUETTE ELECTRIC","MARQUIP","MARTIN MARIETTA","MARTINHO-DAVIS SYSTEMS","MARVELL SEMICONDUCTOR","MAS Elektronik","MASPRO DENKOH","MASSCOMP","MAT","MAT S.A. (Mircrelec Advanced Technology)","MATIS","MATISSE NETWORKS","MATRA (DSIE)","MATRIX","MATRIX COMSEC PRIVATE","MATSUNICHI DIGITAL TECHNOLOGY (HONG KONG)","MATSUSHITA COMM. IND","MATSUSHITA ELECTRIC IND","MATSUSHITA ELECTRONIC INSTRUMENTS","MATT R.P.Traczynscy Sp.J","MAVENIR IPA UK","MAVIX","MAX-TECH","MAX8USA DISTRIBUTORS","MAXFOR","MAXI VIEW HOLDINGS","MAXIO","MAXLINK INDUSTRIES","MAXPEED","MAXTON TECHNOLOGY","MAXTOR","MAYAN NETWORKS","MAZ Brandenburg","MAZeT","MBARI","MBDA Deutschland","MBM Technology","MBS","MBS Electronic Systems","MBTech Systems","MC Technologies","MCD ELECTRONICS SP. Z O.O","MCD KENCOM","MCDONNELL DOUGLAS COMPUTER SYS","MCM JAPAN","MCM Systems","MCNC","MCNEX","MCNS HOLDINGS, L.P","MCOT","MCQUAY INTERNATIONAL","MCS Logic","MCST ZAO","MCT","MCX-PRO Kft","MDI Security Systems","MDK","MDS Gateways","MECHATRONICS INNOVATION TECHNOLOGIES, S.L.U","MEDIA GLOBAL LINKS","MEDIA4","MEDIAEDGE","MEDIAFIRE","MEDIASTAR","MEDIATRIX TELECOM","MEDILINE ITALIA","MEDION","MEDISON Xray","MEG Electronics","MEGADATA","MEGAHERTZ","MEGATON HOUSE","MEGATRON COMPUTER INDUSTRIES","MEIDENSHA","MEIKO","MEIKYO ELECTRIC","MEIZU Technology","MEKICS","MEKRA Lang GmbH & Co. KG","MEL","MELITA INTERNATIONAL","MELPER","MEMMERT GmbH + Co. KG","MEMOREX TELEX JAPAN","MEMOTEC","MENICX INTERNATIONAL","MENNEN MEDICAL","MER TELEMANAGEMENT SOLUTIONS","MERCURY","MERCURY COMMUNICATION TECHNOLOGIES","MERCURY COMPUTER SYSTEMS","MERCURY SECURITY","MERCUSYS TECHNOLOGIES","MERIDIAN TECHNOLOGY","MERITECH","MERLOT COMMUNICATIONS","MERRIMAC SYSTEMS","MESA ELECTRONICS","MESA RIDGE TECHNOLOGIES","MESADA Technology","MESMO TECHNOLOGY","MESOMATIC GmbH & Co.KG","MESOTIC","MESSOA TECHNOLOGIES","META SYSTEM","METACOMP","METAPHOR COMPUTER SYSTEMS","METAWAVE COMMUNICATIONS","METEL s.r.o","METER Group","METIER MANAGEMENT SYSTEMS","METRICOM","METRODATA","METRONIX","METTLER-TOLEDO","METTLER-TOLEDO (ALBSTADT)","MEWTEL TECHNOLOGY","MEXUS","MFP MICHELIN","MG","MGE UPS Systems France","MHL","MI-Zone Technology Ireland","MI.TEL","MIA","MIARTECH (SHANGHAI)","MIC ASSOCIATES","MIC Technology Group","MICHELS & KLEBERHOFF COMPUTER","MICIUS Laboratory","MICO ELECTRIC(SHENZHEN)","MICOM COMMUNICATIONS","MICRILOR","MICRO BYTE","MICRO CRAFT","MICRO INDUSTRIES","MICRO LINEAR COPORATION","MICRO S.E.R.I","MICRO TECHNOLOGY","MICRO WORLD","MICRO-MATIC RESEARCH","MICRO-STAR INT'L","MICRO-STAR INTERNATIONAL","MICRO/SYS","MICROBOARDS","MICROBUS DESIGNS","MICROCOM","MICROCOMPUTER SYSTEMS (M) SDN","MICRODIA","MICRODIGTAL","MICROFIRST","MICROFIVE","MICROGNOSIS INTERNATIONAL","MICROHARD","MICROMERITICS INSTRUMENT","MICRON TECHNOLOGY","MICRONICS COMPUTER","MICROPLEX Printware","MICROPLEX SYSTEMS","MICROPOLIS","MICROPROCESS","MICROPROSS","MICRORISC s.r.o","MICROROBOT","MICROSAGE COMPUTER SYSTEMS","MICROSENS GmbH & CO. KG","MICROSLATE","MICROSOFT","MICROTECH ELECTRONICS","MICROTEK INTERNATIONAL","MICROTEL INNOVATION","MICROTEST","MICROTROL","MICROTRONIX DATACOM","MICROUNITY SYSTEMS ENGINEERING","MICROWAVE BYPASS SYSTEMS","MICROWI ELECTRONIC","MIDAS COMMUNICATION TECHNOLOGIES PTE LTD ( Foreign Branch)","MIDAS LAB","MIDDLE EAST TECH. UNIVERSITY","MIDICOM ELECTRONICS","MIDORI ELECTRONIC","MIDSCO","MIHARU COMMUNICATIONS","MII","MIKAMI","MIKASA SYSTEM ENGINEERING","MIKLYN DEVELOPMENT","MIKRODIDAKT","MIKRON","MILAN TECHNOLOGY","MILLSON CUSTOM SOLUTIONS","MIMAKI ENGINEERING","MIMO TECH","MIMODISPLAYKOREA","MIMOS Berhad","MIND TECH INTERNATIONAL","MINERVA KOREA","MINERVA SYSTEMS","MING FORTUNE INDUSTRY","MING HONG TECHNOLOGY (SHEN ZHEN)","MINIWARE TECHNOLOGY","MINIX Technology","MINTRON ENTERPRISE","MIOS ELETTRONICA","MIP Telecom","MIPRO Electronics","MIPS DENMARK","MIPSYS","MIR - Medical International Research","MIRAE INFORMATION TECHNOLOGY","MIRAE ITS","MIRO COMPUTER PRODUCTS","MISYS FINANCIAL SYSTEMS","MITAC COMPUTING TECHNOLOGY","MITAC INTERNATIONAL","MITEC","MITEL","MITEQ","MITRON COMPUTER PTE","MITSUBISHI CHEMICAL AMERICA","MITSUBISHI ELECTRIC AUTOMATION (CHINA)","MITSUBISHI ELECTRIC SYSTEM & SERVICE","MITSUBISHI ELECTRONICS LOGISTIC SUPPORT","MITSUBISHI HEAVY INDUSTRIES MECHATRONICS SYSTEMS","MITSUBISHI WIRELESS COMMUNICATIONS","MITSUMI ELECTRIC","MITSUYA LABORATORIES","MIURA","MIWA LOCK","MIX","MIYOSHI ELECTRONICS","MIZAR","MIrcom Group of Companies","MJ Innovations","MK MASTER","MKD Technology","MKNet","MKS Instruments","MKS Instruments Deutschland","MKT Systemtechnik GmbH & Co. KG","ML vision","MM Devices","MMB Research","MMC NETWORKS","MMC Technology","MMC-EMBEDDED COMPUTERTECHNIK","MMPC","MOBILE TECHNIKA","MOBILINE Kft","MOBITEK","MOBITITECABSOLUT","MOBIUS TECHNOLOGIES","MOBIWIRE MOBILES (NINGBO)","MOBIWIRE MOBILES(NINGBO)","MOCACARE","MODI","MODULAR COMPUTING TECHNOLOGIES","MODULAR MINING SYSTEMS","MODULETEK","MOHAN ELECTRONICS AND SYSTEMS","MOKA GLOBAL","MOKO TECHNOLOGY","MOLDAT WIRELESS TECHNOLGIES","MOLECULAR DYNAMICS","MOMENTUM IOT","MONAD","MONDIAL electronic","MONEYTECH","MONTEREY NETWORKS","MOOHADIGITAL","MOORE PRODUCTS","MORE STAR INDUSTRIAL GROUP","MORETON BAY","MORNING STAR TECHNOLOGIES","MOSAIC TECHNOLOGIES","MOSDAN Internation","MOTOROLA","MOTOROLA COMMUNICATION ISRAEL","MOTOROLA SOLUTIONS MALAYSIA SDN. BHD","MOVEK","MOXA TECHNOLOGIES","MPB Communications","MPEDIA","MPGIO","MPI TECH","MPL","MPLS Forum","MPMKVVCL","MR&D Manufacturing","MRC","MRG SYSTEMS","MRO-TEK Realty","MRS Electronic","MRT MICRO","MRV Communication (Networks)","MRV Communications","MRV Communications (Networks)","MRV Comunications","MS Sedco","MS-Magnet","MSA Auer","MSA Innovation","MSC VERTRIEBS","MSC Vertriebs","MSE","MSF-Vathauer Antriebstechnik GmbH & Co KG","MSI","MSI Technology","MST","MSTAR SEMICONDUCTOR","MTA","MTData Developments","MTG","MTI","MTL Instruments","MTMCommunications","MTN Electronic","MTT","MTU Friedrichshafen","MTX","MULI MUWAI FURNITURE QIDONG","MULLER SERVICES","MULTIACCESS COMPUTING","MULTIDATA","MULTIPOINT NETWORKS","MULTITECH SYSTEMS","MULTITEL","MURATA MACHINERY","MUTOH INDUSTRIES","MVTECH","MWE","MWS","MXCHIP","MXT INDUSTRIAL LTDA","MYCO ELECTRONICS","MYK","MYNAH Technologies","MYRIAD LOGIC","MYRICOM","MYSON TECHNOLOGY","MYSTICOM","MYTECS","Maas International","Maasiv","Macat Optics & Electronics","Mace Group","Macey Enterprises","Mach Power, Rappresentanze Internazionali","Mackware","Macro Image Technology","MacroSAN Technologies","MacroSystem Digital Video","Macrolink","Macromate","Macrotek International","Mad Catz Interactive","Made Studio Design","Madge","MadgeTech","Maestro Wireless Solutions","Maestronic","Mag Tech Electronics","Mag-Tek","Magellan Technology","Magenta Research","Magic Control Technology","Magic Intelligence Technology","Magic Leap","Magic Point","MagicRam","Magicard","Magicjack LP","Magicyo Technology","Magna Carta","Magna Electronics Europe GmbH & Co. OHG","Magna Technology SL","Magna-Power Electronics","MagnaCom","MagneMotion","Magnetar Technology Shenzhen","Magneti Marelli Automotive Electronics (Guangzhou)","Magneti Marelli S.p.A. Powertrain","Magneti Marelli Slovakia s.r.o","Magnetic Autocontrol","Magnipix","Magnum Semiconductor","Mahi Networks","Mai Logic","Maike Industry(Shenzhen)","Main Street Networks","MainStreaming","Mainnet","Mainpine","Mainstream Data","Maipu Communication Technology","Maiyue Future Intelligent Technology (Suzhou)","MakerBot Industries","Makino Milling Machine","Mako Networks","Maksat Technologies (P)","Makus","Malachite Technologies","Malgn Technology","Malibu Networks","Mallow","Malvern Instruments","Mamiya Digital Imaging","Mamiya-OP","ManTechnology","MangoBoost","Mangrove Systems","Manhattan TV","Mannesman Dematic Colby","Mannesmann Ipulsys","Manticom Networks","Mantis Deposition","Mantra Communications","Manufacturing Resources International","Manufacturing System Insights","Manufacturing Technology","Manzanita Systems","Maple IoT Solutions","Maple Optical Systems","Mapletree Networks","Mapower Electronics","Mapper.ai","Maquet","Maquet CardioVascular","Maquet Cardiopulmonary","Maquet Critical Care","Mara Tech","Maranti Networks","March Networks","Marconi","Marconi Communication","Marconi Communications","Marelli","Marelli Europe","Marine Sonic Technology","Marinesync","Marini Impianti Industriali","Mark of the Unicorn","Market Central","Marketaxess","Marketech International","Marking System Technology","Markone technology","Markov","MarqMetrix","Marquardt","Marquardt Electronics Technology (Shanghai)","Marquardt India Pvt","Marquardt Schaltsysteme SCS","Marshal","Marshall Electronics","Martin Christ","Martin Professional","Martinsson Elektronik","Marusys","Marvell Semiconductors","Maschinenfabrik Reinhausen","Maschoff Design Engineering","Masimo","Massana","Masstech Group","Master Industrialization Center Kista","MasterImage 3D","Masterclock","Masternaut","Masterwork Automodules","MathStar","Mathtech","Matrics","Matrix Design Group","Matrix Product Development","Matrox Central Services","Matsufu Electronics distribution","Matsushita Avionics Systems","Matsushita Electric Industrial","Matsushita Electronic Components (Europe)","Mattel","Matuschek Messtechnik","Mavenir","Maverick Mobile","Maverick Systems","Mavin Technology","Max Communication","Max Weishaupt SE","MaxID (Pty)","MaxLinear Hispania S.L.U","MaxMedia Technology","MaxStream","MaxTronic International","MaxVision","Maxan Systems","Maxanna Technology","Maxcess International","Maxeler Technologies","Maxian","Maxim Integrated Products","Maxio Technology (Hangzhou)","Maxio Technology Hangzhou","Maxlinear","Maxphotonics","Maxtek Optoelectronics","Maxway Electronics","Maxwell Forest","Maxxan Systems","Maya-Creation","Mayekawa Mfg","Mayer & Cie GmbH & Co KG","Mayfield Robotics","Maytronics","McAfee","McCain","McPay","McScience","McWane India Pvt","Mcharge","Mciao Technologies","Measurement Computing","Measurement Devices","Measurement Systems S. de R.L","Measy Electronics","Mecalc","Mechatro","Mechatronic Brick Aps","MechoShade","Med-Eng Holdings ULC","Med-Eng Systems","MedHab","Medallion Instrumentation Systems","Medea","Media Devices","Media Numerics","Media Serve","Media Streaming Networks","Media System Planning","Media Technology Systems","MediaCell","MediaChorus","MediaQ","MediaSputnik","MediaTek","Mediabridge Products","Medialink-i","Medialogic","Mediaport USA","Medicaroid","Medicis Technologies","Medicore","Mediplan","Medison","Meditech Kft","Medium Link System Technology","Medrad","Medtronic CRM","Medtronic Diabetes","Mega System Technologies","Mega Video Electronic(HK) Industry","Mega Vision","Mega Well","Mega-Trend Electronics","MegaChips","Megabyte","Megafone","Megapixel VR","Megapower International","Megasolution","Megatek","Megatel Computer (1986)","Megatronix (Beijing) Technology","Megger","Meggitt Training Systems","Meiko Maschinenbau GmbH &amp; Co. KG","Meinberg Funkuhren GmbH & Co. KG","Meisei Electric","Meizhou Guo Wei Electronics","Melange Systems Pvt","Melco Industries","Meld Technology","Melec","Mellanox Technologies","Memjet","Memobox","MemoryLink","Mendocino Software","Mentor Data System","Mentor Engineering","Mercedes-Benz USA","Merchandising Technologies","Mercku","Mercury Systems","Mercury Systems – Trusted Mission Solutions","Meret Optical Communications","Merging Technologies","Meridian Audio","Merilus","Merit Li-Lin Ent","Meritec","Merix","Merlin CSI","Merlin Systems","Merlion Consulting Services (Shenzhen)","Merry Electrics","Merten GmbH&CoKG","Merytronic 2012, S.L","Mesa Imaging","Mesa Labs","Mesco Engineering","Meshcom Technologies","Meshlinx Wireless","Meso Scale Diagnostics","Messana Air.Ray Conditioning","Messcomp Datentechnik","Meta Machine Technology","Meta Platforms","Meta-Networks","MetaSwitch","Metacom (Pty)","Metal Work","Metalink","Metalligence Technology","Metamako","Metanoia Technologies","Metasystem","Metavector Technologies","MeteRSit","Meteocontrol","Meteor Communications","Meter","Metera Networks","Methode Electronics","Metis","Metis Communication","Metrascale","Metris USA","Metro (Suzhou) Technologies","Metro Ethernet Forum","Metro-Optix","Metrohm","Metrological Group","Metropolitan Area Networks","Metrum Technologies","Mettle Networks","Mettler & Fuchs","Metz-Werke GmbH & Co KG","Mextal","Meyer Sound Laboratories","MiXTelematics","Mianyang Netop Telecom Equipment","Miba Battery Systems","Micas Networks","Micetek International","Micobiomed","Micran","Micrel-Synergy Semiconductor","Micro Control Designs","Micro Control Systems","Micro Electron","Micro Memory Curtiss Wright","Micro Motion","Micro Research","Micro Systems","Micro Technic","Micro Technology","Micro Vision","Micro-Biz intelligence solutions","Micro-Optronic-Messtechnik","Micro-Research Finland","Micro-Star INT'L","Micro-Star INTL","Micro-Star Int'l","Micro-Star International","MicroBrain","MicroMade Galka i Drozdz sp.j","MicroPower technologies","MicroSys Electronics","MicroWeb","Microbit 2.0","Microchip Technologies","Microchip Technology","Microcom","Microelectronics Technology","Microfan","Microhard Systems","Microlink","Microlink Communications","Microlink communications","Micromedia","Micromint","Micron","Micronas","Micronet","Micronet Communications","Micronet union Technology (chengdu)","Micronet union Technology(Chengdu)","Micronik Multimedia","Micronpc.com","Micronview Limited Liability","Micropoint Biotechnologies","Microscan Systems","Microsemi","Microseven Systems","Microsoft","Microsoft Mobile","Microsoft XCG","Microstep-MIS spol. s r.o","Microtechno","Microtime Computer","Microtronic","Microtune","Microwave Communication & Component","Microwave Data Systems","Microwave Radio Communications","Midas Engineering","Midas Klark Teknik","Middle Atlantic Products","Midea Group","Midmark","Midmark RTLS","Midnite Solar","Midokura","Midstream Technologies","Midtronics","Miele & Cie. KG","Mikotek Information","MikroBits","MikroM","MikroTik","Mikroelektronika spol. s r. o","Mikrosay Yazilim ve Elektronik A.S","Mikrovisatos Servisas UAB","MilDef","Military Communication Institute","Miljovakt","Milkyway Group","Millennia Media","Millennial Net","Millennium Group","Miller Electric Mfg","Millimetrix Broadband Networks","Millinet","Millipore","Milper","Milton Security Group","Milénio 3 Sistemas Electrónicos, Lda","Mimosa Networks","MindMade Sp. z o.o","MindTree Wireless PVT","Mindray","Mindray DS USA","Mindray North America","Mindready Solutions","Minds","Minds@Work","Mine Site Technologies","Minet","Minetec Wireless Technologies","Mini-Cam","Mini-Circuits","Minibar Systems","Minicom Digital Signage","Minieum Networks","Minim","Minimax GmbH & Co KG","Minrray Industry","Minsung Electronics","Mintera","Minut","Minxon Hotel Technology","Mios","Miovision Technologies","MirWifi,Joint-Stock","MiraLink","Mirae Technology","MiraeRecognition","MiraeSignal","Miraeil","Miraesys","Mirka","Miromico","Mission Technology Group, dba Magma","Missouri Department of Transportation","Missouri FreeNet","Mist Systems","Mita-Teknik","Mitac","Mitac Technology","Mitadenshi","Mitel","Mitel Networks","Mitra Energy & Infrastructure","MitraStar Technology","Mitron","Mitsuba","Mitsubishi Electric","Mitsubishi Precision","Mitsui Zosen Systems Research","Mitsunami","Mitubishi Hitachi Power Systems Industries","Mitutoyo","Miura Systems","Miyakawa Electric Works","MoCA (Multimedia over Coax Alliance)","MoTEX Products","Mobiis","MobilMAX Technology","Mobilarm","Mobile Action Technology","Mobile Appliance","Mobile Communications Korea","Mobile Computing Promotion Consortium","Mobile Create","Mobile Device","Mobile Integration Workgroup","Mobile Safe Track","Mobile Technology Solutions","Mobile XP Technology","MobileAccess Networks","MobileAria","MobileCompia","Mobileeco","Mobilesoft (Aust.)","Mobilicom","Mobilink Telecom","Mobillian","Mobinnova","Mobisolution","Mobitec","Mobiwave Pte","Mobiwire Mobiles (NingBo)","Mobotix","MobyTEL","Moda-InnoChips","Modacom","Modcam","Mode Lighting (UK )","Modelleisenbahn","Modnnet","Modoosis","ModuVision Technologies","Moduel","ModusLink","Moen","MofiNetwork","Mohlenhoff","Mojix","Mojo Networks","Molecular Devices","Molekule","Molex CMS","Molex Canada","Momentum Computer","Monaco Enterprises","Monico Monitoring","Monitoring Technologies","Monsoon Multimedia","Montage Technology Group","Montgomery Technology","Monthly Kitchen","Montilio","Moog","Moog Protokraft","Moore Industries International","Mooredoll","Mophie","Mopria Alliance","Moram","Morega Systems","Morgan Stanley","Morio Denki","Morion","Morningstar","Morrow Technologies","Morse Micro","Mortara Instrument","Mosaic Systems","Mosart Semiconductor","Moser-Baer","Most Lucky Trading","Motah","Motech Industries","Mother Computer","Motic Incoporation","Motion Analysis","Motion Control Engineering","Motion Control Systems","Motion Reality","Motorola","Motorola (Wuhan) Mobility Technologies Communication","Motorola - BSG","Motorola Inc Business Light Radios","Motorola Korea","Motorola Mobility LLC, a Lenovo","Motorola Solutions","Motorola(Wuhan) Mobility Technologies Communication","Motorola, Broadband Solutions Group","Motus Global","Movacolor","Move Innovation","Movella Technologies","Movesense","Movistec","Movita Technologies","Movon","Moxa","Mplus technology","MtM Technology","Mu Net","MuLogic","Muco Industrie","Muehlbauer","Mueller Systems","Mueller-Elektronik GmbH & Co. KG","Multi Touch","MultiCom Industries","MultiMedia LANs","MultiTracks.com","Multilaser Industrial","Multilink","Multimedia & Communication Technology","Multimedia Pacific","Multiplex","Multitone Electronics","Multivision Intelligent Surveillance (Hong Kong)","Multiware & Image","Murata Manufacturing","Murrelektronik","Musashi","Musashi Engineering","Muscle","Music Life","MusicianLink","Musilab Electronics (DongGuan)","Mustek System","Muuselabs NV/","Muxcom","Mvox Technologies","Mx Imaging","My Social Stuff","MyA Technology","MyCasa Network","MyCloud Technology","MyLight Systems","Mykotronx","Myreka Technologies Sdn. Bhd","Myspace","Mytek","Mythology Tech Express","MyungMin Systems","N-Radio Technologies","N-iTUS","N.A.T","N.V. DZINE","N.V. PHILIPS INDUSTRIAL ACTIVITIES","N3","N3com","NAC-INTERCOM","NACT","NADAM","NADASNV","NADEX","NAGANO KEIKI","NAGOYA ELECTRIC WORKS","NAGTECH","NAKAYO","NALTEC","NAMAQUA COMPUTERWARE","NAMCO","NANJING CASELA TECHNOLOGIES","NANJING FUJITSU COMPUTER PRODUCTS","NANJING IOT SENSOR TECHNOLOGY","NANJING PUTIAN TELECOMMUNICATIONS TECHNOLOGY","NANJING SEU MOBILE & INTERNET TECHNOLOGY","NANOMATIC","NANOWAVE Technologies","NARI Technology","NASA-Goddard Space Flight Center","NASCENT NETWORKS","NASCENT Technology","NASCENT Technology, LLC - RemKon","NASHOBA NETWORKS","NASTEC","NAT Seattle","NATIONAL AMUSEMENT NETWORK","NATIONAL DATACOMM","NATIONAL INSTRUMENTS","NATIONAL SEMICONDUCTOR","NAVER","NAVIC SYSTEMS","NAVIELEKTRO KY","NAVIGON","NAVIS","NAVTECH PTE","NAVTEL COMMUNICATIONS","NB Software","NBASE COMMUNICATIONS","NBI","NBS Payment Solutions","NBS Technologies","NBX","NC&C","NCI System","NCKOREA","NCR","NCS ELECTRICAL","NCSE","NCT Deutschland","NCTech","NCUBE","NComputing","NDC Infared Engineering","NDC Technologies","NDR","NDS","NDS Surgical Imaging","NEBULA CONSULTANTS","NEC","NEC AMERICA","NEC Australia","NEC CASIO Mobile Communications","NEC DO BRASIL","NEC Eluminant Technologies","NEC Magnus Communications","NEC Personal Computers","NEC Personal Products","NEC Platforms","NEC TOKIN","NEC UNIFIED SOLUTIONS NEDERLAND","NECMagnusCommunications","NECSY","NECTEC","NEDAP N.V","NELI TECHNOLOGIES","NEMOA ELECTRONICS (HK)","NEO Information Systems","NEO Monitors","NEO NETWORKS","NEOLAB Convergence","NEOMONTANA ELECTRONICS","NEON","NEON TECHNOLOGY","NEOPARADIGM LABS","NEOPRODUCTS","NEOSMART","NEOTION","NEOVIA","NES Technology","NESTAR COMMUNICATIONS","NESTAR SYSTEMS","NET INSIGHT","NET New Electronic Technology","NET RULES TECNOLOGIA EIRELI","NET TEK AND KARLNET","NET-SOURCE","NET2GRID","NET2NET","NETACCESS","NETAS","NETCAM","NETCLEUS Systems","NETCOM RESEARCH","NETCOM SICHERHEITSTECHNIK","NETCOMM","NETCONS, s.r.o","NETCOR","NETCORE","NETCORE SYSTEMS","NETCORP","NETCRAZE","NETCS INFORMATIONSTECHNIK","NETEXPRESS","NETGEAR","NETINT Technologies","NETIO products a.s","NETLINE","NETLINK ICT","NETPOWER","NETQUEST","NETRIX","NETRO","NETRONIX","NETSCHOOLS","NETSCOUT SYSTEMS","NETSEC","NETSPAN","NETSPEED","NETSTAL MASCHINEN","NETSTAR","NETVANTAGE","NETVISION","NETVUE，","NETWIZ","NETWORK ALCHEMY","NETWORK APPLICATION TECHNOLOGY","NETWORK COMMUNICATIONS","NETWORK COMPUTING DEVICES","NETWORK CONTROLS INT'NATL","NETWORK DESIGNERS","NETWORK ENGINES","NETWORK EQUIPMENT TECHNOLOGIES","NETWORK EXPRESS","NETWORK GENERAL","NETWORK INFORMATION TECHNOLOGY","NETWORK INTERFACE","NETWORK MACHINES","NETWORK PERIPHERALS","NETWORK PRODUCTS","NETWORK RESEARCH","NETWORK RESOURCES","NETWORK SECURITY SYSTEMS","NETWORK SERVICES GROUP","NETWORK SYSTEMS","NETWORK SYSTEMS & TECHNOLOGIES PVT","NETWORK TECHNOLOGIES","NETWORK TOOLS","NETWORKS NORTHWEST","NETWORLD","NETWORTH","NEURON","NEVATEC","NEW LIGHT LED","NEW Lift Neue Elektronische Wege Steuerungsbau","NEW MEDIA","NEW POS TECHNOLOGY","NEW-SOL COM","NEWER TECHNOLOGY","NEWGEN SYSTEMS","NEWPORT SYSTEMS SOLUTIONS","NEXAIOT","NEXCOMM SYSTEMS","NEXCON Technology","NEXCONTROL","NEXGEN Mediatech","NEXO COMMUNICATIONS","NEXPA System","NEXSEC","NEXT","NEXT GENERATION INTEGRATION LIMITED (NGI)","NEXT LEVEL COMMUNICATIONS","NEXT NETS","NEXTCOM","NEXTEK","NEXTEST COMMUNICATIONS PRODUCTS","NEXTEYE","NEXTONE COMMUNICATIONS","NEXTVISION SISTEMAS DIGITAIS DE TELEVISÃO LTDA","NEXTWILL","NEXUS ELECTRONICS","NEXWARE","NF","NGD Systems","NGES Denro Systems","NGN Easy Satfinder (Tianjin) Electronic","NHC COMMUNICATIONS","NHN Entertainment","NHNETWORKS","NIA Home Technologies","NIC.br- Nucleo de Informacao e Coordenacao do Ponto BR","NICE SYSTEMS","NICE Systems","NICEVT","NICOLET INSTRUMENTS","NICOTRA SISTEMI","NIDEC COPAL","NIDEC INSTRUMENTS","NIDEK","NIHON DATA SYSTENS","NIHON KOHDEN AMERICA","NIHON MECHATRONICS","NIHON MEDIA TOOL","NIHON UNISYS","NIIC Technology","NIKKISO","NIKON","NIMAX TELECOM","NINGBO BIRD","NINGBO GLOBAL USEFUL ELECTRIC","NINGBO QIXIANG INFORMATION TECHNOLOGY","NINGBO SUNVOT TECHNOLOGY","NINGBO YIDONG ELECTRONIC","NIO","NIOBRARA R & D","NIPPON AVIONICS","NIPPON DEMPA","NIPPON ELECTRIC INSTRUMENT","NIPPON SIGNAL","NIPPON STEEL","NIPPON TELEGRAPH & TELEPHONE","NIPPON UNISOFT","NIRIT- Xinwei Telecom Technology","NISHI NIPPON ELECTRIC WIRE & CABLE","NISHIMU ELECTRONICS INDUSTRIES","NISSEI ELECTRIC","NISSHIN ELECTRIC","NISSIN","NISSIN ELECTRIC","NIT lab","NITTO TSUSHINKI","NIVIS","NIW Solutions","NIXDORF COMPUTER","NJ SYSTEM","NJK TECHNO","NKE","NKT ELEKTRONIK","NL Ministry of Defense","NL Technologies","NL Technology","NMR","NMS Communications","NO NDA","NO WIRES NEEDED","NOBLEX","NODE RUNNER","NOHMI BOSAI","NOJA Power Switchgear","NOKIA MULTIMEDIA TERMINALS","NOKIA WIRELESS BUSINESS COMMUN","NOMUS COMM SYSTEMS","NOOLIX","NORAND","NORBIT ITS","NORCONTROL A.S","NOREGON SYSTEMS","NORMA","NORMEREL SYSTEMES","NORSK DATA A.S","NORTEL","NORTH HILLS ISRAEL","NORTHDATA","NORTHERN TELECOM/NETWORK","NORTHWEST DIGITAL SYSTEMS","NOT","NOTTA PTE","NOVA electronics","NOVACOMM LTDA","NOVALINK TECHNOLOGIES","NOVAMEDIA INNOVISION SP. Z O.O","NOVAON","NOVATRON","NOVEA ENERGIES","NOVELLCO DE MEXICO","NOVITA","NOVTEK TEST SYSTEMS","NOVUS NETWORKS","NOXUS(BEIJING) TECHNOLOGY","NPCore","NPO RPS","NPO RTT","NPP ELIKS America Inc. DBA T&M Atlantic","NR ELECTRIC","NRG SYSTEMS","NS TECH ELECTRONICS","NSC Communications Siberia","NSD","NSE","NSFOCUS Information Technology","NSGate","NSI","NSM Technology","NSS Sp. z o.o","NSSLGlobal Technologies","NST","NST Audio","NT MicroSystems","NT-ware Systemprg","NTC-Metrotek","NTI","NTI AG / LinMot","NTI COMODO","NTN Technical Service","NTP ELEKTRONIK","NTT Advanced Technology","NTT DATA COMM. SYSTEMS","NTT DOCOMO BUSINESS","NTT IT","NTT Innovation Institute","NTTPC Communications","NTX Electronics YangZhou","NTmore","NUCOM","NUCOM SYSTEMS","NUERA COMMUNICATIONS","NUETEQ Technology","NUM","NUMA Technology","NUMERA","NUPON COMPUTING","NURI Telecom","NUUO","NUVICO","NUVOTECH","NV ADB TTV Technologies","NV Michel Van de Wiele","NVIDIA","NX SERVER, ILNC","NX Technologies","NXJ","NXP (China) Management","NXP France Semiconductors France","NXP India Private","NXP Semiconductor (Tianjin)","NXP Semiconductors","NXP Semiconductors Germany","NXP Semiconductors Taiwan","NXP USA","NXTV","NZXT","Nabtesco","Nabto","Nabu Casa","Nadatel","Naeil Community","Nagano Japan Radio","Nagravision","Nain","Naito Densei Machida MFG","Nakajima All Precision","NakaoLab, The University of Tokyo","Nallatech","NamJunSa","Naman NZ","NambooSolution","NanJing Chaoran Science & Technology","Nanchang BlackShark","Nanjing Aozheng Information Technology","Nanjing Baihezhengliu Technology","Nanjing Bangzhong Electronic Commerce","Nanjing Bestway Automation System","Nanjing BigFish Semiconductor","Nanjing CAS-ZDC IOT SYSTEM","Nanjing Cocomm electronics","Nanjing Decowell Automation","Nanjing Glarun Atten Technology","Nanjing Huazhuo Electronics","Nanjing Jiahao Technology","Nanjing Juplink Intelligent Technologies","Nanjing Kechen Electric","Nanjing Maxon O.E. Tech","Nanjing Nengrui Auto Equipment","Nanjing PANENG Technology Development","Nanjing Panda Electronics","Nanjing Postel Telecommunications","Nanjing Powercore Tech","Nanjing Qinheng Microelectronics","Nanjing RISC-V Institute","Nanjing Rousing Sci. and Tech. Industrial","Nanjing SAC Power Grid Automation","Nanjing SCIYON Wisdom Technology Group","Nanjing Shining Electric Automation","Nanjing Signway Technology","Nanjing SilverNet Software","Nanjing Simon Info Tech","Nanjing Ticom Tech","Nanjing Xinlian Electronics","Nanjing Youkuo Electric Technology","Nanjing Yufei Intelligent Control Technology","Nanjing Z-Com Wireless","Nanjing Zhongke Menglian Information Technology","Nanjing Ztlink Network Technology","Nanjing dianyan electric power automation","Nanjing phx-gctech Information Technology","Nanoleaf","Nanomegas","Nanometrics","Nanoptix","Nanotec Electronic GmbH & Co. KG","Nanotek Elektronik Sistemler Ltd. Sti","Nanoteq","Nanotron Technologies","Nanowell Info Tech","Nantong Coship Electronics","Nantworks","Nanwang Multimedia","Napatech Aps","Napco Security Technologies","Napera Networks","Narad Networks","Naray Information & Communication Enterprise","Narayon","Nasaco Electronics Pte","Nata-Info","National Datacast","National Datacomputer","National Enhance Technology","National Narrowband Network Communications","National Oilwell Varco Instrumentation, Monitoring, and Optimization (NOV IMO)","National Products","National Radio Astronomy Observatory","National Resource Management","National Source Coding Center","Nations Technologies","Nationz Technologies","Native Networks","Natural Security","NaturalPoint","Nature Worldwide Technology","Nautitech Mining Systems","Nautronix","Naval Research Laboratory","Navcast","Navcom Technology","Navdy","Navico Auckland","Naviit","Navini Networks","Navionics Research Inc., dba SCADAmetrics","Navis Auto Motive Systems","Navman New Zealand","Nawoo Korea","Nayna Networks","Naztec","NeGeN Access","Neat Electronics","Neatframe","Nebra","Nebula","Nebula Electronic Technology","Nebula Matrix","Nebulon","Nebusens, S.L","Necsom","Nectarsoft","Neets","Neff Instrument","Neighbor World","Neihua Network Technology Co.,LTD.(NHN)","Nemo-Q International","Neo Photonics","Neo Telecom","NeoAxiom","NeoMedia Europe","NeoMeridian","NeoWave","Neokoros Brasil Ltda","Neology","Neonode","Neopis","Neopost Technologies","Neoscale Systems","Neosfar","Neostar Technology","Neosystem","Neotech","Neotune Information Technology","Neousys Technology","Neoventus Design Group","Neox FZCO","Nephos","Neptune Digital","Neptune Technology Group","Nera Networks","Nera Telecommunications","Nergal","Nero","Ness","Nesslab","Nest Labs","Nestle Purina PetCare","Nesys","Net & Sys","Net Com Systems","Net One Partners","Net Optics","Net Vision Telecom","NetAlly","NetApp","NetBoost","NetBotz","NetBurner","NetCare Service","NetChip Technology","NetComm Wireless","NetEffect","NetEnabled","NetEngines","NetEnrich","NetExcell","NetICs","NetKit Solutions","NetKlass Technology","NetLinks","NetMan","NetMedia","NetModule","NetMount","NetNearU","NetStreams","NetUP","NetView Technologies(Shenzhen)","NetWorth Technologies","NetZerver","Netac Technology","Netafim L","Netatmo","Netbeam Technology","Netberg","Netbind","Netcodec","Netcom","Netcontrol","Neterix","Netezza","Netfabric","Netflix","Netforyou","Netgem","Netgenetech","Nethesis","Nethra Imaging","Netility","Netio Technologies","Netis Technology","Netiverse","Netix Global","Netlist","Netlogic","Netmoon Technology","Netonix","Netous Technologies","Netpower","Netrake an AudioCodes","Netronics Technologies","Netronix","Netronome Systems","Nets Technology","Netsensity","Netsnapper Technologies SARL","Netspect Technologies","Netstar","Netstor Technology","Netsys Telecom","Nettrix Information Industry","Neturity Technologies","Netvox Technology","Network Automation mxc","Network Chemistry","Network Critical Solutions","Network Devices","Network Elements","Network Equipment Technologies","Network General","Network Instruments","Network Optix","Network Photonics","Network Supply","Network Systems Group, Ltd. (NSG)","Network Video Technologies","NetworkAccountant","Networked Energy Services","Netzin Technology","NeuLion","Neuberger Gebäudeautomation","Neue ELSA","Neul","Neural Image","Neuralink","Neuro Telecom","NeuroCom International","Neuron Robotics","NeuronNet Co. Ltd. R&D Center","Neuros Technology International","NevadaNano","Nevion","Nevis Networks","Nevro","New Business Division/Rhea-Information","New Concepts Development","New Cosmos Electric","New Focus","New H3C Intelligence Terminal","New H3C Technologies","New Level Telecom","New Media Life","New Ryatek","New Singularity International Technical Development","New Spin Golf","New Voice International","New Wave Design & Verification","New York Air Brake","New platforms","NewRadio Technologies","NewSharp Technology(SuZhou)","NewSoft Technology","Newag","Newbest Development","Newbridge Technologies Int","Newbury Networks","Newcotech","Newings Communication","Newisys","Newland Design + Assoc","Newport","Newport Media","Newport Networks","Newrun","Newseason","Newtec","Newtech","Newtek Electronics","Nex-T","NexFi","NexG","NexGen City, LP","NexGen Storage","NexQL","Nexapp Technologies Pvt","Nexar","Nexcom International","Nexell","Nexlawn Intelligent Technology (Suzhou)","Nexpring","Nexquome Pte","Nexsan Technologies","Nexsi","Next Generation Systems","Next Level Security Systems","NextBIT Computing Pvt","NextGTV","NextGen Business Solutions","NextGen Venturi","NextGenTel Holding ASA","NextGig","NextIO","NextNav","NextNet Wireless","Nextcell","Nextcomm","Nextek Solutions Pte","Nexterm","Nexthop Systems","Nextlink","Nextorage","Nextracker","Nextwave Semiconductor","Nexus Raytek","Nexus Technologies","Nexxt Solutions","Niagara Video","NiceTechVision","Nicent Technology","Nicety Technologies Inc. (NTS)","Niceway CNC Technology Co.,Ltd.Hunan Province","Nicira Networks","Nicolet Neuro","Nicon Systems (Pty)","NietZsche enterprise","Nifty","Night Owl SP","Nihon Computer","Nihon Dengyo Kousaku","Niigata Develoment Center, F.I.T","Niigata Power Systems","Niigata Seimitsu","Nike","Nikko Denki Tsushin Corporation(NDTC)","Niko","Niko-Servodan","Nilan","Nile Global","Niles Audio","Nilfisk","Nimble Microsystems","Nimble Storage","NimbleTech Digital","Nimbus","Nimbus Data","NineTiles Networks","Ninelanes","Ningbo Andy Optoelectronic","Ningbo Deli Kebei Technology","Ningbo Dooya Mechanic & Electronic Technology","Ningbo Forfan technology","Ningbo FreeWings Technologies","Ningbo Freewings Technologies","Ningbo Goneo Electric Appliance","Ningbo Joyson Preh Car Connect","Ningbo Sanhe Digital","Ningbo Sanxing Medical Electric","Ningbo Shunyun Electronics","Ningbo Zhixiang Technology","Nintendo","Nippon Antenna","Nippon Conlux","Nippon Denki Kagaku","Nippon Denso Industry","Nippon Dentsu","Nippon Electro-Sensory Devices","Nippon Koei Power Systems","Nippon Printer Engineering","Nippon Seiki (Europe)","Nipro Diagnostics","Nir-Or Israel","Nisca","Nishiyama Industry","Nissho-denki","Nitgen","Nits Technology","Nittan","Nivetti Systems Pvt","Nivus","Nixvue Systems Pte","Nizhny Novgorod Factory named after M.Frunze, FSUE (NZiF)","NoTraffic","Nobell Communications","Noccela","Nocsys","Nokia","Nokia Bell N.V","Nokia Danmark","Nokia NET Product Operations","Nokia Shanghai Bell","Nokia Siemens Networks GmbH & Co. KG","Nokia Solutions (Shanghai)","Nokia Solutions and Networks GmbH & Co. KG","Nokia Solutions and Networks India Private","Nokota Communications","Nolan Systems","Nolangroup S.P.A con Socio Unico","Nomadix","Nome","Nonin Medical","Noon Technology","Norcott","Nordiag ASA","Nordic ID","Nordic Semiconductor ASA","Nordwestdeutsche Zählerrevision","Norfolk Elektronik","Noritz","Norphonic","Norscan Instruments","Nortec","Nortech International","Nortek","Nortel Networks","Nortel Networks Broadband Access","North Atlantic Industries","North Node","NorthStar Battery","Northern Data","Northern Digital","Northover Solutions","Northrop Grumman Systems","Northstar Engineering","Northstar Systems","Northwest Signal Supply","Northwest Towers","Not for Radio","Notebook Development Lab. Lenovo Japan","Nothing Technology","NovAtel","Nova Electronics (Shanghai)","Nova Labs","NovaComm Technologies","NovaNET Learning","NovaPal","NovaSparks","NovaTec Kommunikationstechnik","NovaTech","Novabase SGPS","Novakon","Novar","Novartis Pharma","Novasonics","Novatec","Novatechnology","Novatek Microelectronics","Novatium Solutions (P)","NovelSat","Novell","Novera Optics Korea","Novi Security","Noviga","Novitec","Novo Nordisk","Novomatic","Novra Technologies","Novus Produtos Eletronicos Ltda","Novus Security Sp. z o.o","Nsolution","NuCom HK","NuVo Technologies","Nuance Document Imaging","Nuark","Nubia Technology","Nucode","Nucomm","Nucsafe","Nudian Electron","Nuheara","Nuki Home Solutions","Numata","Numatics","Numesa","Nureva","Nurivoice","Nusoft","Nutanix","Nuvera Fuel Cells","Nuvolt","Nuvon","Nuvyyo","Nvergence","NxtConect","NxtPhase T&D","O'Neil Product Development","O'RITE TECHNOLOGY","O-Net Communications (Shenzhen)","O-Sung Telecom","O.N. ELECTRONIC","O2 MICRO","O2Micro","OA LABORATORY","OAK SOLUTIONS","OAO Izhevskiy radiozavod","OB Telecom Electronic Technology","OBARA KOREA","OBJECTIVE COMMUNICATIONS","OBR Centrum Techniki Morskiej","OCE PRINTING SYSTEMS","OCEAN OFFICE AUTOMATION","OCOSMOS","OCP","OCT Technology","OCTAGON SYSTEMS","OCTEL COMMUNICATIONS","OCTOTHORPE","OCTTEL Communication","ODA Technologies","ODVA","ODrive Robotics","OEM ENGINES","OEM Worldwide","OESOLUTIONS","OHKURA ELECTRIC","OHLER","OHM TECHNOLOGIES INTL","OHSUNG","OI ELECTRIC","OJ-Electronics","OJSC Ufimskiy Zavod Promsvyaz","OKANO ELECTRIC","OKI ELECTRIC INDUSTRY","OKUMA","OL'E COMMUNICATIONS","OLENCOM ELECTRONICS","OLICOM","OLITEC","OLIVETTI NORTH AMERICA","OLIVETTI TELECOM SPA (OLTECO)","OLIVETTI TELECOMM SPA (OLTECO)","OLYMPUS","OLYMPUS IMAGE SYSTEMS","OMEGA ELECTRONICS","OMICRON electronics","OMNI FLOW COMPUTERS","OMNI-WiFi","OMNIA COMMUNICATIONS","OMNIBYTE","OMNIKEY","OMNISEC","OMNITRONICS","OMNITRONIX","OMNIVISION","OMRON","OMRON HEALTHCARE","OMRON TATEISI ELECTRONICS","OMS Motion","OMS spol. s.r.o","OMX Technology - FZE","ON SOFTWARE INTERNATIONAL","ON Semiconductor","ONE Investment Group","ONE WORLD SYSTEMS","ONEAC","ONELAN","ONNTO","ONPREM NETWORKS","ONStor","ONTIMETEK","ONYX WIFI","ONvocal","OOO InProMedia","OOO NPP EKRA","OOO NPP Systemotechnika-NN","OOO Petr Telegin","OOO RUBEZH NPO","OOO Samlight","OOO TSS","OOO TTV","OOSIC Technology","OOmon","OPCOM","OPEN Networks","OPEN ROAD SOLUTIONS","OPENBRAIN TECHNOLOGIES","OPENMOKO","OPICOM","OPMEX Tech","OPNET Technologies","OPPLE LIGHTING","OPPO Digital","OPT Machine Vision Tech","OPTEC DAIICHI DENKO","OPTEX","OPTEX-FA","OPTI","OPTIBASE","OPTICAL ACCESS INTERNATIONAL","OPTICAL NETWORK VIDEO TECHNOLOGIES (SHENZHEN)","OPTICAL NETWORKS","OPTIM SYSTEMS","OPTIMA TELE.COM","OPTIMATION","OPTIMEM","OPTIMUS IC","OPTIQUEST","OPTIVISION","OPTO-22","OPTOELECTRONICS","OPTOKON, a.s","OPTOWL","OPTRONICS","OPTSYS TECHNOLOGY","OPUS High Technology","OPUS SYSTEMS","OPW Fuel Management Systems","OPWILL Technologies","OQO","ORA","ORACOM","ORANGE MICRO","ORANGE POLSKA","ORANTEK","ORBACOM SYSTEMS","ORBIS","ORBIS TECNOLOGIA ELECTRICA","ORBISAT DA AMAZONIA IND E AEROL","ORBIT AVIONIC & COMMUNICATION","ORBIT MERRET, spol. s r. o","ORBOTECH","ORCATECH","ORCKIT COMMUNICATIONS","ORDYN TECHNOLOGIES","ORESIS COMMUNICATIONS","ORFEO SOUNDWORKS","ORGA Kartensysteme","ORICO Technologies","ORIENT TELECOM","ORIENTAL MOTOR","ORIENTAL PACIFIC INTERNATIONAL","ORION NOVA, S.L","ORMEC SYSTEMS","ORNET DATA COMMUNICATION TECH","ORSYS","ORTANA","ORTHOsoft inc, d/b/a Zimmer CAS","ORTIVUS MEDICAL","OSAI","OSAKA COMPUTER","OSASI Technos","OSCILLOQUARTZ","OSI PLUS","OSI Security Devices","OSITECH COMMUNICATIONS","OSKAR VIERLING GMBH + CO. KG","OSLiNK Sp. z o.o","OSMOZIS","OSPREY TECHNOLOGIES","OST (OUEST STANDARD TELEMATIQU","OT Systems","OTC Wireless","OTE","OTEC(Shanghai)Technology","OTIS ELEVATOR","OTN Systems N.V","OTRUM ASA","OTSL","OUEN","OULLIM Information Technology","OURA Health","OVATION SYSTEMS","OVERKIZ","OVH","OVT India pvt","OWIN","OWLink Technology","OXFORD INSTRUMENTS","OXFORD METRICS","OXFORD SEMICONDUCTOR","OXTEL","OY COMSEL SYSTEM","OYO ELECTRIC","Oak Technology","Oakley","Oasis Media Systems","Obelux","Obihai Technology","Objective Interface Systems","Objenious","Objetivos y Servicio de Valor Añadido","Objetivos y Servicios de Valor A","Objetivos y Sevicios de Valor Añadido","Observator instruments","Observint Technologies","Obsidian Research","Obzerv Technologies","Occam Networks","Occuspace","Ocean Broadband Networks","Ocean Optics","Ocean Solution Technology","OceanServer Technology","Oceanblue Cloud Technology","Ocom Communications","Octalix","Octasic","Octave Communications","OctoGate IT Security Systems","Octonion","Octopod Technology","Octopus Systems","Ocular Networks","Oculus VR","Océ Document Technologies","Oerlikon Textile Gmbh&Co.KG","Oetiker Schweiz","Office Details","Office FA.com","Ohm Tech Labs","Oilfind International","Oki Electric Industry","OktoInform RUS","Ola Sense","OleumTech","Olibra","Olive & Dove","Olive Telecommunication Pvt","Olivetti","Olym-tech","Olympus Soft Imaging Solutions","Omega Band","Omega Elektronik","Omega Engineering","Omitec Instrumentation","Omneality","Omnex Control Systems","Omni Directional Control Technology","Omni-ID","OmniCluster Technologies","OmniLync","OmniSense","Omnibit","Omnifi","Omnilux","Omnima","Omnipless Manufacturing (PTY)","Omniprint","Omnisense","Omnitron Systems Technology","Omntec mfg","Omron Healthcare","On-Ramp Wireless","OnLive","OnLogic","OnSite Systems","OnTarget Technologies","OnTime Networks","Onbnetech","Onda Communication","Onda TLC Italia","One","One Stop Systems","OneAccess","OnePath Networks","OnePlus Electronics (Shenzhen)","OnePlus Tech (Shenzhen)","OnePlus Technology (Shenzhen)","Oneline","Onface","OngCorp","Onion","Onity","Onkey Technologies","Onkyo Technology","Online","Online Development","Online Security","Onnet Technologies and Innovations","Onset Computer","Ontrol A.S","Onward Brands","Onyx Healthcare","Onzo","Ooma","Op-Tection","OpVista","Opaque Systems","Opelcomm","Open Grid Computing","Open Infrastructure","Open Interface North America","Open Mesh","Open Network","Open Networking Laboratory","Open Source Robotics Foundation","Open Stack","Open Standard Digital-IF Interface for SATCOM Systems","Open Systems International","Open Telecom","Open-m technology","OpenAI","OpenCon Systems","OpenGear","OpenIB","OpenPattern","OpenProducts 237","OpenRTLS Group","OpenVox Communication","OpenWrt","OpenXS","Openet information technology(shenzhen)","Openmatics s.r.o","Openpeak","Opentech","Opentext","Ophir Optronics","Ophir-Spiricon","Ophit","Opsens Solution","OptXCon","Optcom","Optec Displays","Optek Digital Technology","Opteon","Opthos","Opti-cell","OptiCore","OptiLogix","OptiMight Communications","OptiSense Network","Optica Technologies","Optical Access","Optical Communications Products","Optical Internetworking Forum","Optical Network Testing","Optical Systems Design","Optical Zonu","Opticom Communication","Opticom Communications","Opticomm","Opticon Sensors Europe","Optictimes","Optiemus Electronics","Optillion","Optimal Audio","Optimal Technologies International","Optimedical Systems","Optinel Systems","Option International N.V","Option Wireless Sweden","Optium","Optiview USA","OptoMET","Optomind","Optonic","Optos","Optoway Technology Incorporation","Optowiz","Optranet","Optronic","Opulinks","Opzoon Technology","Oracle","Oraimo Technology","Orange Logic","Oray.com","Oraya Therapeutics","Orb Networks","Orban","Orbbec 3D Technology International","Orbic North America","Orbis Systems","Orbit Irrigation","Orbital Data","Orbital Sciences Corp.; Launch Systems Group","Orbotix","Oregan Networks","Oregano Systems - Design & Consulting","Orga","Orient Power Home Network","Orient Silver Enterprises","Oriental integrated electronics","Origin","Orion Diagnostica","Orion Electric","Orion MultiSystems","Ormazabal","Ory Solucoes em Comercio de Informatica Ltda","Osaka Micro Computer","Osaki Electric","Ositis Software","Osorno Enterprises","Osram","Osterhout Design Group","Osung Midicom","Otanikeiki","Otari","Otsuka Electronics","Ottec Technology","Otto Bock Healthcare Products","OttoQ","Otus Technologies","Ou Wei Technology Co.，Ltd. of Shenzhen City","Ouman","Ouster","Out of the Fog Research","OutSmart Power Systems","OuterLink","Outline Electronics","Ouya","OverSpeed SARL","Overland Storage","Overture Networks","OvisLink","Owitek Technology","Owl Cyber Defense Solutions","Owl Home","Owl Labs","Oxance","Oxford Diagnostics","Oxide Computer","Oxit","OxyGuard Internation","Oxygen Broadband","Oxygnet","Oy Everon","Oy Finnish Electric Vehicle Technologies","OzVision America","P&E Microcomputer Systems","P&S Technology","P-COM","P-Cube","P.A. Semi","P.T.I","P2 Mobile Technologies","P4Q ELECTRONICS, S.L","PA Bastion CC","PAC Interactive Technology","PAC International","PAC Labs","PACE Telematics","PACIFIC COMMUNICATION SCIENCES","PACIFIC MICRO DATA","PACIFIC RESEARCH & ENGINEERING","PACKARD BELL ELEC","PACKETEER","PAD Peripheral Advanced Design","PAGE IBERICA","PAGINE","PAIRGAIN TECHNOLOGIES","PAL MOHAN ELECTRONICS PVT","PAL Pacific","PALIT MICROSYSTEMS","PALLADIUM ENERGY ELETRONICA DA AMAZONIA LTDA","PAN-INTERNATIONAL INDUSTRIAL","PANASONIC TECHNOLOGIES, INC./MIECO-US","PANDATEL","PANOPTICS","PARADISE INNOVATIONS (ASIA)","PARADYNE","PARALINK NETWORKS","PARKER HANNIFIN CORPORATION COMPUMOTOR DIVISION","PARROT","PARSYTEC","PARTICLE MEASURING SYSTEMS","PARTNER TECH","PATAPSCO DESIGNS","PATECH","PATEO CONNECT (Xiamen)","PATHLIGHT TECHNOLOGIES","PATHWAY","PATLITE","PATTON ELECTRONICS","PAV","PAV Electronics","PAVO","PAX Computer Technology(Shenzhen)","PAXCOMM","PAXDATA NETWORKS","PBR electronics","PC Aquarius","PC Engines","PC Fabrik","PC LAN TECHNOLOGIES","PC Partner","PC Worth Int'l","PC-PoS","PCCW Global","PCI","PCI COMPONENTES DA AMZONIA","PCO","PCS","PCS Revenue Control Systems","PCS Systemtechnik","PCTEL","PCTVnet ASA","PChome Online","PDA Peripherals","PDH Solutions","PDL Electronics","PEAK AUDIO","PEAK-System Technik","PECO II","PEER NETWORKS","PEGATRON","PELCOMBE GROUP","PELTOR","PEMPEK SYSTEMS","PENRIL DATACOMM","PENTA Gesellschaft für elektronische Industriedatenverarbeitung mbH","PENTA MEDIA","PENTACOM","PENTAONE","PENTEK","PEP MODULAR COMPUTERS","PERACOM NETWORKS","PERCEPTION TECHNOLOGY","PERCEPTRON","PERFORMANCE DESIGNED PRODUCTS","PERFORMANCE TECHNOLOGIES","PERFORMANCE TELECOM","PERICOM SEMICONDUCTOR","PERIPHERALS ENTERPRISE","PERIPHONICS","PERLE SYSTEMS","PERQ SYSTEMS","PERSONAL COMMUNICATIONS TECHNOLOGIES","PERSONAL MEDIA","PESA","PETATEL","PETAiO (NanJing)","PFU","PG DESIGN ELECTRONICS","PHASE ONE DENMARK","PHASECOM","PHAST","PHAZR","PHC","PHILIPS ANALYTICAL X-RAY","PHILIPS APELDOORN","PHILIPS BROADBAND NETWORKS","PHILIPS ELECTRONICS UK","PHILIPS MULTIMEDIA NETWORK","PHOENIX GROUP","PHOTONICS","PHOTRON USA","PHSNET","PHYSIOMETRIX","PHYTRONIX","PHYWE Systeme GmbH & Co. KG","PICAZO COMMUNICATIONS","PICKER INTERNATIONAL","PIMA Electronic Systems","PINEWAVE PTE","PINGTEL","PINNACLE DATA SYSTEMS","PINON","PIONEER","PIONEERCORPORATION","PIPELINKS","PIRELLI FOCOM NETWORKS","PIVOTAL NETWORKING","PIVOTAL TECHNOLOGIES","PIXEL COMPUTER","PIXEL POWER","PIXEL VISION","PIXSYS","PJRC.COM","PK VEGA","PKC Electronics","PLAIN TREE SYSTEMS","PLANAR","PLANET INT","PLANET System","PLANET Technology","PLANEX COMMUNICATIONS","PLANTRONICS","PLAT'C2","PLATH Signal Products GmbH & Co. KG","PLAUD","PLAYLINE","PLC Technology","PLDS","PLESSEY","PLEXCOM","PLNetworks","PLUMgrid","PLURIS","PLUS","PLUS-ONE I&T","PLUTO TECHNOLOGIES INTERNATIONAL","PLX Technology","PLcom","PMC-SIERRA","PMI FOOD EQUIPMENT GROUP","PNC Technologies","PNI","PNI sensor","PNY Technologies","PNetworks Electronics Information","POLARIS COMMUNICATIONS","POLYGON, JSC","PONDER INFORMATION INDUSTRIES","PONICO","PORTWELL","PORTech Communications","POSBANK","POSBRO","POSDATA","POSITRON","POWER COMPUTING","POWER DRAGON DEVELOPMENT","POWER MEASUREMENT","POWERSOFT","POWERTECH INDUSTRIAL","PPC Broadband","PPT Vision","PR Electronics","PRACHI ENTERPRISES","PRACTICAL PERIPHERALS","PRAIM","PRAVIS SYSTEMS","PRAXON","PRECIA","PRECISION SOFTWARE","PRESENCE TECHNOLOGY","PRESITION (2000)","PRESSURE SYSTEMS","PRESTICOM","PRETEC ELECTRONICS","PRF","PRICOM Design","PRIMA Cinema","PRIMA Research And Production Enterprise","PRIMARY ACCESS","PRIME COMPUTER","PRIME OPTION","PRIMEX AEROSPACE","PRIMMCON INDUSTRIES","PRINTER SYSTEMS","PRISA NETWORKS","PRISM VIDEO","PRIVA","PRIZOR VIZTECH","PRO CO SOUND","PRO-LOG","PRO-NETS Technology","PRO-VISION","PROBA Building Automation","PROBEDIGITAL","PROCES-DATA","PROCESS CONTROL","PROCESSOR SYSTEMS (I) PVT","PROCITEC","PROCOM Systems","PROCOMP INDUSTRIA ELETRONICA","PRODIGY SYSTEMS","PROFALUX","PROFIBUS Nutzerorganisation e.V","PROFIcomms s.r.o","PROJECT MONITOR","PROLIFIC TECHNOLOGY","PROMATE ELECTRONIC","PROMAX ELECTRONICA","PROMED Soest","PROMINET","PROMZAKAZ","PRONET","PRONYX TRADING","PROSUM","PROSYST","PROTEC MICROSYSTEMS","PROTECH SYSTEMS","PROTECTRON","PROTEI","PROTEON","PROTOCOL TECHNOLOGIES","PROTON ELECTRONIC INDUSTRIAL","PROVE","PROVIDEO Multimedia","PROVISION THAI","PROX SG Pte","PROXIMA","PS Audio International","PS INODIC","PSG Plastic Service","PSI Software SE","PSIA","PSION DACOM","PSITECH","PSS Belgium N.V","PSTec","PT HAN SUNG ELECTORONICS INDONESIA","PT Indoreka Jaya Wutama","PT Inovacao","PT Inovação e Sistemas","PT Prakarsa Visi Valutama","PT. BIZLINK TECHNOLOGY INDONESIA","PT. Callysta Multi Engineering","PT. Emsonic Indonesia","PT. Hariff Daya Tunggal Engineering","PT. Hartono Istana Teknologi","PT. Panggung Electric Citrabuana","PT. Prasimax Inovasi Teknologi","PT. Ufoakses Sukses Luarbiasa","PT.Navicom Indonesia","PTCOM Technology","PTW Freiburg","PUISSANCE PLUS","PULSE ELECTRONICS","PUNCH LINE HOLDING","PURE DATA","PURITAN BENNETT","PUWELL CLOUD TECH","PYRAMID Computer","PYRAMID TECHNOLOGY","PYRESCOM","PYUNG-HWA IND","PYXIS","PacStar","Pace Americas","Pace-O-Matic","Pacidal","Pacific","Pacific Biosciences","Pacific Broadband Communications","Pacific Broadband Networks","Pacific Instruments","Pacific Satellite International","Packard Bell Nec Services","Packet Clearing House","Packet Design","Packet Dynamics","Packet Force Technology","Packet Forensics","Packet Vision","PacketAccess","PacketAir Networks","PacketFlux Technologies","PacketFront Network Products","PacketHop","PacketLight Networks","PacketMotion","PacketStorm Communications","Pacom Systems","Pado Systems","Padtec S/A","Pakedge Device and Software","Pakton Technologies","Palit Microsystems ( H.K.)","Palltronics","Palm","Palm Wireless","PalmPalm Technology","Palmmicro Communications","Palo Alto Networks","PaloDEx Group","Palomar Medical Technologies","Paltronics","Pan Dacom Networking","Pan Studios","PanAccess Communications","Panaccess Systems","Panamax","Panasas","Panascais ehf","Panasonic","Panasonic Appliances","Panasonic Automotive Systems","Panasonic Automotive Systems Asia Pacific(Thailand)","Panasonic Automotive Systems Company of America","Panasonic Communications","Panasonic Connect","Panasonic Corporation AVC Networks","Panasonic Corporation of North America","Panasonic Ecology Systems","Panasonic Electric Works","Panasonic Electric Works Automation Controls Techno","Panasonic Electric Works Networks","Panasonic Entertainment & Communication","Panasonic Europe","Panasonic India Private","Panasonic India Pvt","Panasonic Industrial Devices Europe","Panasonic Marketing Middle East & Africa FZE","Panasonic Mobile Communications","Panasonic Taiwan","Panasonic do Brasil Limitada","Panda Wireless","Pandachip","Pandora Mobility","Panduit","PanelLink Cinema","Pangolin","Panmnesia","Pannaway Technologies","Pano Logic","Panodic(ShenZhen) Electronics Limted","Panoptic Technology","Panta Systems","Pantech","Pantech&Curitel Communications","ParTech","Parade Technologies","Paradigm Electronics","Paradigm Technology","Paradise Datacom","Paradom","Paradox Engineering","Paradox Hellas","Paradox Security Systems","Paradromics","Paragea Communications","Paragon Fidelity","Paragon Networks International","Paragon Technologies","Paralan","Parallel Wireless","Parallels","Paralon Technologies","Parama Networks","Parama-tech","Parameter","ParanTek","Paravirtual","Park Air Systems","Park Assist","Parker Hannifin","Parker Hannifin GmbH Electromechanical Division Europe","Parker Hannifin Manufacturing (UK)","Parker Hannifin Manufacturing Germany GmbH & Co. KG","Parker SSD Drives","ParkerVision - Direct2Data","Parking BOXX","Parks S/A Comunicacoes Digitais","Parsec (Pty)","Part II Research","Parta Networks","Particle Industries","Partow Tamas Novin (Parman)","Partron","Pascal Audio","Pascom Kommunikations systeme","Pason Systems","Passave","Passif Semiconductor","PassivSystems","Paterson Technology","Pathway Connectivity","Patria Ailon","Patriot Memory","Patrol Products Consortium","Patrol Tag","Paul Vahle GmbH & Co. KG","Pavilion Data Systems","Pax","Paxonet Communications","Paxton Access","PayPal","PayRange","PayTec","Payter","Pcube Systems","PePWave","Peco II","Pedestal Networks","Peek Traffic","Peerbridge Health","Peerless AV","Peerless Instrument Division of Curtiss-Wright","Peerless Systems","Pegasus Technologies","Pelago Networks","Peloton Interactive","Pen Generations","Penetek","Penguin Computing","Peninsula Systems","Pensando Systems","Pentacon GmbH Foto-und Feinwerktechnik","PentronicAB","People Power","PeopleNet Communication","Pep Digital Technology (Guangzhou)","Peplink International","Pepperl+Fuchs","Pepwave","Pepxim International","Peraso Technologies","Perception Digital","PerfTech","Perfect tech","Perfectone Netware","Perfisans Networks","Performance Analysis Broadband, Spirent","Peribit Networks","Perinet","Perkin-Elmer","Perma-Pipe","PernixData","Perples","Persistent Systems","Pertronic Industries","Petabit Scale","Petards","Petcomkorea","Peterson Electro-Musical Products","Petite-En","Petra Systems","Petratec","PetroCloud","Petroleum Geo-Services","Petrotest Instruments","Pevco","Pfeiffer Vacuum","Pfister","Phabrix","Phantom Intelligence","Phantom Technologies","PharmaSmart","Pharos","Pharos Systems NZ","Phase Motion Control","PhaseSpace","Phasys","PheeNet Technology","Phicomm (Shanghai)","Phicomm (Sichuan)","Phidgets","Phihong USA","Philio Technology","Philips","Philips CFT","Philips CareServant","Philips Consumer Communications","Philips Electronics Nederland","Philips Healthcare PCCI","Philips Lifeline","Philips Lighting","Philips Medical Systems - Cardiac and Monitoring Systems (CM","Philips Oral Healthcare","Philips Patient Monitoring","Phillips Machine & Welding","Phison Electronics","Phistek","Phoebe Micro","Phoenix Broadband Technologies","Phoenix Contact GmbH & Co. KG","Phoenix Digital","Phoenix Geophysics","Phoenix International","Phonak","Phonesuite","Phonex Korea","Phonic","Phonik Innovation","Phorm","Phorus","Photometrics","Photon Dynamics Canada","Photon Europe","Photon Sail Technologies","Photonex","Photonicbridges (China)","Photron","Photuris","Phybridge","Phyllis","Phyplus Microelectronics","Phyplus Technology (Shanghai)","Physical Graph","Physik Instrumente GmbH & Co. KG","Physio-Control","Phytec Messtechnik","Phytium Technology","Phytrex Technology","Pi-Coral","PiLink","Pica8","Picanol N.V","Picaso Infocommunication","Piciorgros","Pico Communications","Pico Systems","Pico Technology","Pico-Tesla Magnetic Therapies","PicoCELA","PicoLight","Picochip","Picosecond Pulse Labs","Picotest","PictureTel","Pie Digital","PiiGAB, Processinformation i Goteborg","Pika Technologies","Pilkor Electronics","Pillar Data Systems","Piller Group","Pilot Electronics","Piltofish Networks","Pilz","Pimax Technology(ShangHai)","Pinetron","Ping Communication","Pingood Technology","Pingtek","Pink Nectarine Health","Pinnacle Systems","Pintsch","Piolink","Pioseed Technology(Chengdu)","Pipal Systems","Piper Networks","Piranti","Pirelli Tyre","Pishion International","Pitney Bowes","Pitronot Technologies and Engineering P.T.E","Pittasoft","Pivot3","Pivotal Commware","Pivotal Optics","Pivotal Systems","Pivotech Systems","PixArt Imaging","PixStream","Pixavi","PixeLINK","Pixel FX","Pixel Velocity","Pixel8 Networks","Pixelent","Pixelmetrix Corporation Pte","Pixelworks","Pixim","Pixon Imaging","Pixord","Pizzato Elettrica","Planet Bingo® — 3rd Rock Gaming®","Planet Networks","Planmeca","Planning Research","Plasma Cloud","Plasmon LMS","Plast-Control","Plaster Networks","Plastic Logic","Plastoform Industries","Platan sp. z o.o. sp. k","Platina Systems","Plato Networks","Platypus Technology","Platys Communications","PlayFusion","Pleiades Communications","Pleneo","Plenom","Pleora Technologies","Plexonics Technologies","Plexus (Xiamen)","Plexus Corp (UK)","Plexus Manufacturing","Plexxi","Plucent","Plugable Technologies","Plume Design","Pluribus Networks","Plus Technology","Plustek","Pluto","PoLabs d.o.o","Pocketbook International","PoeWit","Poindus Systems","Point Core SARL","Point Grey Research","Point Multimedia Systems","Point Six Wireless","PointRed Telecom Private","Pointer Telocation","Pointmobile","Polar Electro","PolarLink Technologies","Polaris Networks","Polaroid","Pole/Zero","Polestar","Polewall Norge","Pollin Electronic","Polostar Technology","Poly","PolyTrax Information Technology","Polycom","Polyera","Polymap Wireless","Polypix","Polysense (Beijing) Technologies","Polytec","Polytech","Polytron Vertrieb","Porsche Cars North America","Portable Innovation Technology","Portalis LC","Portsmith","Pos Data","Poscon","Posh Mobile","Posiflex","Positivo Tecnologia","Positron","Positron Access Solutions","Positron Public Safety Systems","Poslab Technology","Post CH","Postek Electronics","Posystech","Potron Technology","Pou Yuen Tech","Power Automation pte","Power Dsine","Power Electronics International","Power Ethernet","Power Idea Technology","Power Innovation","Power Instruments Pte","Power Monitors","Power PLUS Communications","Power Plus Communications","Power Quotient International","Power R","Power Standards Lab","Power Zenith","Power-One","PowerChord Group","PowerCloud Systems","PowerCom Technology","PowerComm Solutions","PowerLayer Microsystems HongKong","PowerLink Technology","PowerQuattro","PowerRay","Powercode","Powercom","Powerfile","Powerful Devices","Powerhouse Dynamics","Powerleader Science and Technology","Powerlinq","Powernet Technologies","Powertech","Powertek","Powervision Tech","Powerwallz Network Security","Powerwave Technologies Sweden","Powin Information Technology","Poynt","Prama Hikvision India Private","Prama India Private","Pramod Telecom Pvt","Preceno Technology Pte","Precepscion","Precidata","Precidia Technologies","Precise Automation","Precision Electronic Manufacturing","Precision I/O","Precision Optical Transceivers","Precor","Prediwave","Preferred Robotics","Preh Car Connect","Premier Technolgies","Premier Wireless","Premier-D","Premietech","Prentke Romich","Prescope Technologies","Presonus","Presstek","Prettl Elektronik Radeberg","Prevas","Primagraphics","Primarion","Primax Electronics","Prime Electronics & Satellitics","Prime Motion","Prime Systems","PrimeNet","PrimeVOLT","Primera Technology","Primex Wireless","Princeton Instruments","Princeton Networks","Princeton Technology","PrintCounts","Printrex","Printronix","Prism Holdings","Prism Media Products","Privaris","Private","Pro Concept Manufacturer","ProCurve Networking by HP","ProDVX Europe","ProLon","ProMax Systems","ProMinent Dosiertechnik","ProQuent Systems","ProStor Systems","ProSys Development Services","ProTelevision Technologies","ProVision Communications","Probits","Procare International","Procenne Digital Security","Procera Networks","Procket Networks","Procomp Informatics","Procter & Gamble","Prod-El","Prodrive","Product Creation Studio","Production Resource Group","Productivity Systems","Prodys","Profilo Telra Elektronik Sanayi ve Ticaret. A.Ş","Proformatique","Progeny Systems","Progressive Gaming International","Project T&E","Projectek Networking Electronics","Prokom Software","Prolights","Prolink Microsystems","Proliphix","Prologix","Prolon Control Systems","Promethean","Prominvest","Promise Technology","Prompttec Product Management","Pronto Networks","Prophet Electronic Technology","Propulsion systems","Proscend Communications","Prosoft Systems","Prosoft Technology","Prostar","Proteam Computer","Protec Fire Detection","Protechna Herbst GmbH & Co. KG","Protect America","Protecta Electronics","ProtectedLogic","Protempis","Proteus Digital Health","Proteus Industries","Proton Products Chengdu","Protonic Holland","Protronic (Far East)","Proventix Systems","Proview Electronics","Proview Eletrônica do Brasil LTDA","Provision-ISR","Proware Technologies","Proware Technology Corp.(By Unifosa)","Prowave Technologies","Prox Dynamics","Proxense","Proxicast","Proxim Wireless","Proximion Fiber Optics","Proximus","Proxis, spol. s r.o","Proxmox Server Solutions","Prudential Technology","Prusa Research s.r.o","Prysm","Prüftechnik Condition Monitoring GmbH & Co. KG","PsiKick","Psiber Data Systems","Psitek (Pty)","Pulsar-Telecom","Pulse Eight","Pulse-Link","PulseOn","Pultek","Pulzze Systems","Pumatronix Equipamentos Eletronicos Ltda","Pumpkin Networks","PurOptix","PureTech Systems","PureWave Networks","Purechoice","Puretek Industrial","Purple Communications","PurpleComm","Pylone","Pyramid Meriden","Pyronix","Q Electronics","Q-Free ASA","Q-Free America","Q-Lab","Q-Light","Q-Matic Sweden","Q9 Networks","QA Cafe","QBIC COMMUNICATIONS DMCC","QCOM TECHNOLOGY","QDI Technology (H.K.)","QDIQO Sp. z o.o","QDIS","QEES ApS","QEI","QING DAO HAIER TELECOM","QINGBANG ELEC(SZ)","QINGDAO TOPSCOMM COMMUNICATION","QLogic","QLove Mobile Intelligence Information Technology (W.H.)","QNAP Systems","QNIX COMPUTER","QPCOM","QPS","QPSX COMMUNICATIONS","QRS Music Technologies","QSC","QSI","QSI Systems","QSR Automations","QTECH","QTS NETWORKS","QTUM","QTelNet","QUAD/GRAPHICS","QUADRAM","QUALCOMM","QUALICA","QUALICABLE TV Industria E Com., Ltda","QUALITY SEMICONDUCTOR","QUALVISION TECHNOLOGY","QUANTUM BRIDGE COMMUNICATIONS","QUANTUM DESIGNS (H.K.)","QUANTUM SOFTWARE SYSTEMS","QUEST ENGINEERING & DEVELOPMENT","QUESTECH","QUICK CONTROLS","QUIN SYSTEMS","QUINTAR","QUINTE NETWORK CONFIDENTIALITY","QUINTRON SYSTEMS","QUME","QUOTRON SYSTEMS","QVidium Technologies","QWES. COM","Qamcom Technology","Qardio","Qbit","Qfiednet","Qi Hardware","QianGua","QianTang Technology","Qiao Information Technology (Zhengzhou)","Qibixx","Qidi Technology (shanghai)","Qihan Technology","Qihoo 360 Technology","QiiQ Communications","Qiku Internet Network Scientific (Shenzhen)","QinetiQ","QinetiQ North America","QingDao Hiphone Technology","Qingdao Dayu Dance Digital Technology","Qingdao Eastsoft Communication Technology","Qingdao GoerTek Technology","Qingdao Goertek Horizons Tecnology","Qingdao Haier Intelligent Home Appliance Technology","Qingdao Haier Multimedia","Qingdao Haier Technology","Qingdao HaierTechnology","Qingdao Hi-image Technologies","Qingdao Hisense Communications","Qingdao Hisense Electronics","Qingdao Hisense Mobile Communication Technology","Qingdao Hisense Smart Life Technology","Qingdao Intelligent&Precise Electronics","Qingdao Santong Digital Technology","Qingdao Yuze lntelligent Technology","Qingdao Zhipai Information Technology","Qinghai Kimascend Electronics Technology","Qingping Electronics (Suzhou)","Qisda","Qniq Technology","Qno Technology","QoStek","Qolsys","Qool Technologies","Qorvo","Qorvo International Pte","Qorvo Utrecht","Qotom","Qovia","Qqest Software Systems","Qsan Technology","Qsono Electronics","Qstik","QuVis","Quad Bit System","Quadrant Components","Quadrics","Quadriga UK","Quake Technologies","Qualcomm","Qualfiber Technology","Qualisys","Qualitrol","Qualstar","Qualynxus","Quanergy Solutions","QuantHouse","Quanta Computer","Quanta Microsystems","Quanta Network Systems","Quanta Storage","Quantec Tontechnik","Quantel","Quantenna Communcations","Quantier Communication","Quantify Technology","Quantitative Imaging","Quantum","Quantum Data","Quantum Networks (SG) Pte","QuantumVision","Quantumsolution","Quanzhou TDX Electronics","Quarion Technology","Quarry Technologies","Quartics","Quasar Cipta Mandiri, PT","Quasar Technologies","Quatech","Quatius","Qudelix","Queclink Wireless Solutions","Quectel Wireless Solutions","Quest Controls","Quest Retail Technology","Quest Software","Quest Technical Solutions","Quest Technologies","Quester Tangent","Quext","QuickTel","Quickset Defense Technologies","Quintic","Quirky","Quixant","Qulsar","Qumranet","QuoPin","Quorion Data Systems","Qvis Labs","Qwerty Elektronik","R & D Center","R L Drake","R&G PLUS Sp. z o.o","R&amp;M","R. STAHL HMI Systems","R. STAHL Schaltgeräte","R.A. SYSTEMS","R.I","R.P.T. INTERGROUPS INT'L","R3 Solutions","RAB Lighting","RACAL-DATACOM","RACAL-MILGO INFORMATION SYS","RACEWOOD TECHNOLOGY","RACOM, s.r.o","RACORE COMPUTER PRODUCTS","RAD DATA COMMUNICATIONS","RAD Data Communications","RADGUARD","RADIANT SYSTEMS","RADIANTECH","RADIODATA","RADIOLAN","RADISYS","RADLIVE","RADMAX COMMUNICATION PRIVATE","RADSPIN","RADSTONE TECHNOLOGY","RADVision","RADWIN","RADYNE","RADiflow","RAE Systems","RAFAEL","RAFI GmbH & Co.KG","RAGULA SYSTEMS","RAI Institute","RAID","RAIDON TECHNOLOGY","RAIDTEC","RAMI","RAMIX","RAMTEK","RANDATA","RAONIX","RAPID CITY COMMUNICATIONS","RAPTOR SYSTEMS","RASTER GRAPHICS","RASTER IMAGE PROCESSING SYSTEM","RASTER OPS","RATIO Entwicklungen","RATIONAL","RATOC SYSTEM","RATP","RAULAND-BORG","RAUMFELD","RAYCOM SYSTEMS","RAYLAN","RAYLASE","RAYNET","RAYTALK INTERNATIONAL","RAYTECH ELECTRONIC","RAYTHEON E-SYSTEMS","RB GeneralEkonomik","RBH Access Technologies","RBcloudtech","RC COMPUTER","RC Networks","RCF","RCG (HK)","RCNTEC","RCO Security","RDA Technologies","RDC Semiconductor","RDC, Inc. dba LynTec","RDI","RDI technology(Shenzhen)","RDM","REA Elektronik","REALAND BIO","REALTEK SEMICONDUCTOR","REALTIMEID","RECHNER ZUR KOMMUNIKATION","RED Digital Cinema","REDCOM LABS","REDCREEK COMMUNICATIONS","REFLEX MANUFACTURING SYSTEMS","REGENT ELECTRONICS","REIGNCOM","REJ","RELIA TECHNOLGIES","RELIABLE POWER METERS","RELIANCE COMPUTER","REMEC","REMOTEK","RENA GmbH Print Systeme","RENEX","REPOTEC","REPUBLIC TECHNOLOGY","RESEARCH MACHINES","RESILIENCE","RESOL Elektronische Regelungen","RESON","REUDO","REUTERS HOLDINGS","REV Ritter","RF COncepts","RF Controls","RF IDeas","RF Industries","RF Innovations","RF Micro Devices","RF Surgical System","RF Technologies","RF Technology","RF WINDOW","RF elements s.r.o","RF-LAMBDA USA","RF-Link System","RFI Engineering","RFID","RFM","RFNET Technologies Pte Ltd (S)","RFTECH","RFTNC","RFTech","RG Nets","RGB Networks","RGB Spectrum","RHEWA-WAAGENFABRIK August Freudewald GmbH &amp;Co. KG","RHK TECHNOLOGY","RIAS","RICARDO TEST AUTOMATION","RICOH","RIDGE COMPUTERS","RIFATRON","RIGHTECH","RIKOR TV","RIM","RIM Testing Services","RING ACCESS","RINNAI KOREA","RION","RIOWORKS SOLUTIONS","RISC DEVELOPMENTS","RISCO","RISE COMPUTER","RISO KAGAKU","RISQ MODULAR SYSTEMS","RITTAL-WERK RUDOLF LOH","RIVA ELECTRONICS","RIVA Networks","RIVERTEC","RIX TECHNOLOGY","RIZ TRANSMITTERS","RKC INSTRUMENT","RLH INDUSTRIES","RLTech India Private","RLW","RLX Technologies","RM Tech","RMP ELEKTRONIKSYSTEME","RND-RAD NETWORK DEVICES","RNET Technologies","RNware","RO.VE.R. Laboratories","ROAMWIFI TECHNOLOGY(HK)","ROAX","ROBE Show lighting","ROBERT BOSCH","ROBOTIS","ROBOTOUS","ROBOX","ROCK PATH","ROCKETCHIPS","RODE","ROEHN","ROGER D.Wensker, G.Wensker sp.j","ROHDE & SCHWARZ GMBH & CO. KG","ROHM","ROI COMPUTER","ROIS Technologies","ROLAND DG","ROLI","ROLM MIL-SPEC COMPUTERS","ROMWin","RON-Telecom ZAO","RONGCHEENG GOER TECHNOLOGY","ROOFTOP COMMUNICATIONS","ROOT","ROPEX Industrie-Elektronik","RORZE","ROSE ELECTRONICS","ROSEMOUNT CONTROLS","ROSS TECHNOLOGY","ROSSMA","ROTEC INDUSTRIEAUTOMATION","ROTEK","ROTEL TECHNOLOGIES","ROTORK INSTRUMENTS","ROUND","RP-Technik e.K","RPA Reserch","RPC Energoautomatika","RPS","RRAMAC","RRCN","RS Automation","RSD Communications","RSE Informations Technologie","RSF","RSI SYSTEMS","RSI VIDEO TECHNOLOGIES","RSR","RTC Industries","RTD Embedded Technologies","RTK-TECHNOLOGIES","RTNET","RTUnet (Australia)","RTW GmbH & Co. KG","RTX Telecom","RUAG Schweiz","RUBY TECH","RUNTOP","RURU TEK PRIVATE","RW Tecnologia Industria e Comercio Ltda","RWE Effizienz","RWT","RYOSEI","Raba Technologies","Racal Instruments","RackTop Systems","RackWare","Rackable Systems","Rackspace US","Racktivity","RadChips","RadarFind","Radcom","Raden","RadiAnt","Radiance Technologies","Radiant Communications","Radiant Industries","Radiant Vision Systems","Radiation Safety and Control Services","Radicom Research","Radiient Technologies","Radinet Communications","Radio Activity","Radio Bridge","Radio Components Sweden","Radio Data Comms","Radio Datacom","Radio Frequency Systems","Radio Mobile Access","Radio Systems Design","Radio Terminal Systems","RadioCOM, s.r.o","RadioPulse","Radiocomp","Radiocrafts","Radionet","Radionor Communications","Radios","Radioscape","Radisys","Radius","Radius Gateway","Radlan Computer Communications","Radware","Radwin","RafaelMicro","Ragentek Technology Group","Ragile Networks","Ragsdale Technology","Rail-Mil Sp. z o.o. Sp. K","RailComm","Railtec Systems","Rain Bird","RainUs","Rainforest Automation","Rainsun Enterprise","Raisecom Technology","Rajant","Rako Controls","Ralinwi Nanjing Electronic Technology","Ramaxel Technology (Shenzhen)","Rancho Technology","Rancore Technologies Private","Rand McNally","Rane","Rangestar Wireless","Ransnet Singapore Pte","Rantic Labs","RaonThink","Raonet Systems","Rapid 5 Networks","Rapid Mobile (Pty)","RapidWAN","Rapidmax Technology","Rapidus Wireless Networks","Raptor Engineering","Raptor Networks Technology","Raritan Computer","Raspberry Pi (Trading)","Raspberry Pi Foundation","Raspberry Pi Trading","Rasteme Systems","Raster Vision","Rasvia Systems","Rawasi","Rawe Electonic","Ray Shine Video Technology","RayService a.s","RayTight","Raybased","Raybit Systems Korea","Raycom","Raycore Taiwan","Raydium Semiconductor","Raylios Technology","Raymarine UK","Raysis","Rayson Technology","Raytheon","Raytheon BBN Technologies","Raytron Photonics","Rayzone","Raza Microelectronics","Razer","Razorstream","ReDriven Power","Reach Technology","Reacheng Communication Technology","ReadyLinks","ReadyNet","Real Digital Media","Real ID Technology","Real Time Access","Real Time Automation","Real Time Logic","Real Vision Technology","RealNetworks","Realease","Realfiction ApS","Realfit(Shenzhen) Intelligent Technology","Reallin Electronic","Really Simple Software","Realm Systems","Realme Chongqing Mobile Telecommunications","Realme Chongqing MobileTelecommunications","Realplay Digital Technology(Shenzhen)","Rebel.com","Rebound Telecom","Rebox","Recall Technologies","Rechnerbetriebsgruppe","Reciprocal Labs","Reco","Reco Research","Recogni","Recovision Technology","Red Beetle","Red Embedded Design","Red Lion Controls","Red Lion Controls, LP","Red Sun Synthesis Pte","Red-Lemon","Red-M Products","Redarc Electronics","Redder","Reddo Networks","Redes de Telefonía Móvil","Redfern Broadband Networks","Redflex Communication Systems","Redflow","Redlake MASD","Redline Communications","Rednix","Redpine Signals","Redswitch","Redux Communications","Reduxio Systems","Redwire","Redwood Technologies","Refraction Technology","Regenersis (Glenrothes)","Reiner SCT","Relax Technology","Relay","Relay2","Reliable Controls","Reliance Communications","Rembrandt Technologies, LLC d/b/a REMSTREAM","Remec Broadband Wireless","Remopro Technology","Remote Security Systems","Remote Solution","Remote Technologies","Remotec","Remsdaq","Renaissance Learning","Renasis","Renesas Design US","Renesas Electronics","Renesas Electronics (Penang) Sdn. Bhd","Renesas Electronics Operations Services","Renesas Technology America","Renesas Technology Sales","Renishaw","Renkus-Heinz","Reno A&E","Rentokil Initial","Renu Electronics Pvt","Reolink Innovation","Repeatit","ResMed","Research Centre Module","Research Products","Resideo","Resolution Audio","Resource Data Management","Resources Computer Network","Respironics","Retail Innovation HTT","RetailNext","Reti","Reutech Radar Systems (PTY)","Revogi Innovation","Revolution Display","Revolv","Rextechnik International","Rezolt","Rheem Australia","Rheinmetall Canada","Rhino Mobility","Rhombus Systems","Rhythm Watch","RiT technologies","Riava Networks","Ricardo Prague, s.r.o","Riccius+Sohn","Rice Lake Weighing Systems","Richard Wolf","Richer Link Technologies","Richfit Information Technology","Ridgeline Instruments","Riedel Communications","Riedo Networks","Rigado","Rigaku","Rigaku Corporation Osaka Plant","RightHand Technologies","Rigol Technologies","Riken Keiki","Rincon Research","Ring","Ring Solutions","RingBell","RingCube Technologies","Rinicom Holdings","Rinnai","Rinstrum","Ripcode","RiscStation","Risk Technology","Ritter Elektronik","Rittmeyer","RiverDelta Networks","Riverbed Technology","Riverhead Networks","Riverstone Networks","Rivertree Networks","Rivet Networks","Rivos","Road-Track Telematics Development","Robatech","Robert Bosch","Robert Bosch Elektronika Kft","Robert Bosch Elektronikai Kft","Robert Bosch Engineering and Business Solutions pvt","Robert Bosch GmbH AnP","Robert Bosch GmbH, VT-ATMO","Robert Bosch Gmbh, CM-CI2","Robert Bosch Healthcare","Robert Bosch JuP1","Robert Bosch LLC Automotive Electronics","Robert Bosch Smart Home","Roberts Radio","Robinson","RoboTech","Robonica (Pty)","Robotic d.o.o","Roche Diagnostics","Roche Diagnostics International","Rochester Network Supply","Rockeetech Systems","RocketLogix","Rockport Networks","Rockridgesound Technology","Rockwell Automation","Rocon PLC Research Centre","Rohati Systems","Roku","Roll Systems","Rolling Wireless S.a.r.l. Luxembourg","Rolls-Royce","Rong-Paisa Electronics","RoomReady/Zdi","Rootech","Rootous System","Roqos","Rosco Entertainment Technology","Roseman Engineering","Rosemount","Rosemount Process Analytical","Rosen Aviation","Rosewill","Rosonix Technology","Ross Controls","Ross Video","Rosslare Enterprises","RouteFree","Routrek Networks","Roving Networks","Rowley Associates","Roxton Systems","RoyalTek","Royaldigital","RtBrick","Rubezh","Ruby Tech","Ruckus Wireless","Ruf Telematik","RuggedCom","RuggedTek Hangzhou","RuiXingHengFang Network (Shenzhen)","Ruichi Auto Technology (Guangzhou)","Ruijie Networks","Ruio telecommunication technologies","Rulogic","Runcom Technologies","Runtop","Rupprecht & Patashnick","Ruroc","Russound","Rustelcom","Rusteletech","RyCo Electronic Systems","Ryowa Electronics","Ryvor","S & S Research","S Digm Inc. (Safe Paradigm Inc.)","S I Sistemas Inteligentes Eletrônicos Ltda","S Mobile Devices","S NET MEDIA","S Net Systems","S Netsystems","S Squared Innovations","S&C ELECTRIC","S&O Electronics (Malaysia) Sdn. Bhd","S-Access","S-Bluetech","S-Information Technolgy","S-TEC electronics","S-Takaya Electronics Industry","S. Siedle & Sohne","S.& A.S","S.A. SISTEL","S.A.A.A","S.A.E Afikim","S.A.Tehnology","S.C. ADD-PRODUCTION","S.D.E.L","S.E.M","S.E.R.C.E.L","S.E.TECHNOLOGIES","S.FAC","S.I. Soubou","S.I. TECH","S.I.T.T.I","S.M. Dezac","S.W.A.C. Schmitt-Walter Automation Consult","S1","S2 Security","S2M","S2io Technologies","S3C","S5 Tech","SA.S.S. Datentechnik","SAAB INSTRUMENTS","SAAB SENSIS","SABER TECHNOLOGY","SAE Electronic","SAE IT-systems GmbH & Co. KG","SAE Magnetics (H.K.)","SAE Technologies Development(Dongguan)","SAEHAN HITEC","SAEJIN T & M","SAEJIN T&M","SAET I.S","SAF DRIVE SYSTEMS","SAF Tehnika","SAFEMO PTE","SAFETY MANAGEMENT SYSTEMS","SAGE INFOTECH","SAGINOMIYA Seisakusho","SAGITTAR","SAHARA NETWORKS","SAI TECHNOLOGY","SAI Technology","SAIC IDEAS GROUP","SAKA TECHNO SCIENCE","SAKAI SYSTEM DEVELOPMENT","SAKUMA DESIGN OFFICE","SAKURA Internet","SALICRU","SALIX TECHNOLOGIES","SALTO SYSTEMS S.L","SALZ Automation","SAM Electronics","SAMBON PRECISON and ELECTRONICS","SAMJIN","SAMPO TECHNOLOGY","SAMSAN","SAMSARA NETWORKS","SAMSIN INNOTEC","SAMSON","SAMSUNG ELECTRO MECHANICS","SAMSUNG ELECTRO-MECHANICS(THAILAND)","SAMSUNG ELECTRONICS","SAMSUNG Electronics","SAMSUNG HEAVY INDUSTRIES","SAMSUNG TECHWIN","SAMWONFA","SAMWOO Telecommunication","SANBlaze Technology","SANDEN","SANE SYSTEM","SANION","SANIX","SANKO ELECTRIC","SANMINA-SCI SYSTEM DE MEXICO S.A. DE C.V","SANRITZ AUTOMATION","SANSHIN ELECTRONICS","SANTEC","SANTERA SYSTEMS","SANYCOM Technology","SANYO DENKI","SANYO ELECTRIC","SANYO Electric","SARNOFF","SAS INSTITUTE","SAST TECHNOLOGY","SAT","SATCHWELL CONTROL SYSTEMS","SATEC","SATEL","SATEL sp. z o.o","SATELCOM (UK)","SATO","SATORI ELECTORIC","SAVI Controls","SAXA","SAYME WIRELESS SENSOR NETWORK","SB SYSTEMS","SBC ASI","SBC DESIGNS","SBE","SBG Systems","SBM","SBN TECH","SBS Science & Technology","SBS TECHNOLOGIES","SC Professional Trading","SCAN COIN","SCAN-OPTICS","SCANIVALVE","SCAPS","SCDI","SCHILLER","SCHILLING ROBOTICS","SCHLUMBERGER TECHNOLOGIES RETAIL PETROLEUM SYSTEMS","SCHLUMBERGER WELL SERVICES","SCHMID TELECOMMUNICATION","SCHRACK Seconet","SCHREDER","SCHWEITZER ENGINEERING","SCI Innovations","SCI MANUFACTURING SINGAPORE PTE","SCI Systems (Kunshan)","SCIENCE AND ENGINEERING SERVICES","SCIENTIFIC ATLANTA","SCIMOLEX","SCINETS","SCITEX","SCITEX DIGITAL PRINTING","SCL Elements","SCLE SFE","SCM MICROSYSTEMS","SCOPE COMMUNICATIONS","SCORPION LOGIC","SCR Engineers","SCREEN SUBTITLING SYSTEMS","SCS","SCSpro","SD Biosensor","SDJ Technologies","SDL COMMUNICATIONS","SDO Communication Corperation","SDSystem","SDT information Technology","SDTEC","SE Controls Asia Pacific","SE-Elektronic","SEA Signalisation","SEA-ILAN","SEAKR Engineering","SEAL","SEAWING Kft","SECO","SECO-LARM USA","SECTRA SECURE-TRANSMISSION","SECUDOS","SECURAY Technologies","SECURE CARE PRODUCTS","SECURE METERS","SECURELOGIX","SECURETECH","SECURITAS DIRECT ESPAÑA, SAU","SECURITE COMMUNICATIONS / HONEYWELL","SECURITY DYNAMICS TECHNOLOGIES","SEDO","SEDONA NETWORKS","SEECODE","SEEL","SEEQ TECHNOLOGY","SEETECH","SEEnergy","SEGA ENTERPRISES","SEGGER Microcontroller GmbH & Co. KG","SEH COMPUTERTECHNIK","SEIKO SYSTEMS","SEIKOSHA","SEIWA ELECTRIC MFG","SEKONIC","SELCOM ELETTRONICA","SELSIUS SYSTEMS","SEMA Electronics(HK)","SEMAPHORE COMMUNICATIONS","SEMINDIA SYSTEMS PRIVATE","SEMINDIA SYSTEMS PVT","SEMOCON","SENOR TECH","SENSAIO PTE","SENSUS","SENTEC E&E","SENTIENT NETWORKS","SENTRY","SENTRY TELECOM SYSTEMS","SEOJUN ELECTRIC","SEOUL ELECTRONICS&TELECOM","SEPATON","SEPRO ROBOTIQUE","SEPSA","SEQUENT COMPUTER SYSTEMS","SERANOA NETWORKS","SERCOMM PHILIPPINES","SERELEC","SERITECH ENTERPRISE","SERNET (SUZHOU) TECHNOLOGIES","SERONICS","SERRA SOLDADURA","SERVERCOM (INDIA) PRIVATE","SET ENGINEERING","SETA","SEUNGIL ELECTRONICS","SEW Eurodrive GmbH & Co. KG","SEWOO TECH","SEYEON TECH","SEnergy","SF Software Solutions","SF Technology","SFA","SFOM Technology","SFORZATO","SFR","SG Armaturen","SG Wireless","SGB GROUP","SGM Technology for lighting","SGSG SCIENCE & TECHNOLOGY","SHA-KEN","SHANDONG KAER ELECTRIC","SHANGHAI COMMUNICATION","SHANGHAI FLYCO ELECTRICAL APPLIANCE","SHANGHAI HI-TECH CONTROL SYSTEM","SHANGHAI LINGUO TECHNOLOGY","SHANGHAI LYNUC CNC TECHNOLOGY","SHANGHAI MOAAN INTELLIGENT TECHNOLOGY","SHANGHAI SEEYOO ELECTRONIC & TECHNOLOGY","SHANGHAI SIMCOM","SHANGHAI SUNMON COMMUNICATION TECHNOGY","SHANGHAI SURVEILLANCE TECHNOLOGY","SHANGHAI XIANGCHENG COMMUNICATION TECHNOLOGY","SHANGHAI ZHONGMI COMMUNICATION TECHNOLOGY","SHARETRONIC Group","SHAREWAVE","SHARP","SHASTA NETWORKS","SHC Netzwerktechnik","SHELCAD COMMUNICATIONS","SHEN ZHEN DA XIA LONG QUE TECHNOLOGY","SHEN ZHEN HENG SHENG HUI DIGITAL TECHNOLOGY","SHEN ZHEN KTC TECHNOLOGY","SHEN ZHEN NUO XIN CHENG TECHNOLOGY","SHEN ZHEN SHI JIN HUA TAI ELECTRONICS","SHEN ZHEN TENDA TECHNOLOGY","SHENNAN CIRCUITS","SHENYANG TONGFANG MULTIMEDIA TECHNOLOGY","SHENZHEN ALONG COMMUNICATION TECH","SHENZHEN ALONG INVESTMENT","SHENZHEN APICAL TECHNOLOGY","SHENZHEN ATEKO PHOTOELECTRICITY","SHENZHEN BAOAN GAOKE ELECTRONICS","SHENZHEN BASICOM ELECTRONIC","SHENZHEN BILIAN ELECTRONIC CO.，","SHENZHEN BOOMTECH INDUSTRY","SHENZHEN BROADTEL TELECOM","SHENZHEN BUL-TECH","SHENZHEN CANNICE TECHNOLOGY","SHENZHEN CHUANGWEI-RGB ELECTRONICS","SHENZHEN CLOU ELECTRONICS","SHENZHEN COMMUNICATION TECHNOLOGIES","SHENZHEN COMPASS TECHNOLOGY DEVELOPMENT","SHENZHEN Coolkit Technology","SHENZHEN DAJIAHAO TECHNOLOGY","SHENZHEN DINGHE COMMUNICATION","SHENZHEN DIYANG SMART TECHNOLOGY","SHENZHEN DVBWORLD TECHNOLOGY","SHENZHEN ELECTRICAL APPLIANCES","SHENZHEN FAST TECHNOLOGIES","SHENZHEN FENDA TECHNOLOGY","SHENZHEN FENGLIAN TECHNOLOGY","SHENZHEN FISE TECHNOLOGY HOLDING","SHENZHEN FOCUSCOM TECHNOLOGIES","SHENZHEN FUZHI SOFTWARE TECHNOLOGY","SHENZHEN GIEC DIGITAL","SHENZHEN GONGJIN ELECTRONICS","SHENZHEN GONGJIN ELECTRONICS CO.,LT","SHENZHEN HOLATEK","SHENZHEN HONGDE SMART LINK TECHNOLOGY","SHENZHEN HOPESTAR TECHNOLOGY","SHENZHEN HUACHUANG SHIDAI TECHNOLOGYCO","SHENZHEN HUAPU DIGITAL","SHENZHEN HUARUIAN TECHNOLOGY","SHENZHEN HUAXUN ARK TECHNOLOGIES","SHENZHEN IK WORLD Technology","SHENZHEN IKINLOOP TECHNOLOGY","SHENZHEN IP-COM NETWORKS","SHENZHEN IP-COM Network","SHENZHEN JEHE TECHNOLOGY DEVELOPMENT","SHENZHEN JETNET TECHNOLOGY","SHENZHEN JIAXINJIE ELECTRON","SHENZHEN JUCHIN TECHNOLOGY","SHENZHEN JUNGE TECHNOLOGY","SHENZHEN KAIFA TECHNOLOGY","SHENZHEN KAYAN ELECTRONICS","SHENZHEN KTC TECHNOLOGY","SHENZHEN KTC TECHNOLOGY GROUP","SHENZHEN LINNKING ELECTRONICS","SHENZHEN LIOWN ELECTRONICS","SHENZHEN MAGNUS TECHNOLOGIES","SHENZHEN MAXMADE TECHNOLOGY","SHENZHEN MDK DIGITAL TECHNOLOGY","SHENZHEN MEGMEET ELECTRICAL","SHENZHEN MERCURY COMMUNICATION TECHNOLOGIES","SHENZHEN MICIPC TECHNOLOGY","SHENZHEN MTC","SHENZHEN OLANBOA TECHNOLOGY","SHENZHEN ONEGA TECHNOLOGY","SHENZHEN OPTFOCUS TECHNOLOGY","SHENZHEN ORFA TECH","SHENZHEN PANTE ELECTRONICS TECHNOLOGY","SHENZHEN PEIZHE MICROELECTRONICS","SHENZHEN PHOTON BROADBAND TECHNOLOGY","SHENZHEN PINSU ZHILIAN INFORMATION TECHNOLOGY","SHENZHEN PROGRESS&WIN TECHNOLOGY","SHENZHEN RF-LINK TECHNOLOGY","SHENZHEN RIOPINE ELECTRONICS","SHENZHEN SANMU COMMUNICATION TECHNOLOGY","SHENZHEN SEA STAR TECHNOLOGY","SHENZHEN SEECOMM TECHNOLOGY","SHENZHEN SEI ROBOTICS","SHENZHEN SHLINK","SHENZHEN SPACETEK TECHNOLOGY","SHENZHEN SPOTMAU INFORMATION TECHNOLIGY","SHENZHEN TECHNEWCHIP TECHNOLOGY","SHENZHEN TECHNOLOGY","SHENZHEN TECNO TECHNOLOGY","SHENZHEN TIAN XING CHUANG ZHAN ELECTRONIC","SHENZHEN TONG BO WEI TECHNOLOGY","SHENZHEN TOPWELL TECHNOLOGY","SHENZHEN TOZED TECHNOLOGIES","SHENZHEN TRANSCHAN TECHNOLOGY","SHENZHEN TW-SCIE","SHENZHEN TWOWING TECHNOLOGIES","SHENZHEN ULTRAEASY TECHNOLOGY","SHENZHEN UNIVERSAL INTELLISYS PTE","SHENZHEN WATER WORLD","SHENZHEN WEIBU ELECTRONICS","SHENZHEN WEIJIU INDUSTRY AND TRADE DEVELOPMENT","SHENZHEN WENXUN TECHNOLOGY","SHENZHEN WISKY TECHNOLOGY","SHENZHEN XDK COMMUNICATION EQUIPMENT","SHENZHEN XIN FEI JIA ELECTRONIC","SHENZHEN XINYUPENG ELECTRONIC TECHNOLOGY","SHENZHEN XUNLONG SOFTWARE","SHENZHEN YANRAY TECHNOLOGY","SHENZHEN YIFANG DIGITAL TECHNOLOGY","SHENZHEN YUNJI INTELLIGENT TECHNOLOGY","SHENZHEN ZHIBOTONG ELECTRONICS","SHENZHEN ZHILU TECHNOLOGY","SHENZHENLINGDECHUANGTECHNOLOGY","SHERWOOD","SHI ControlSystems","SHIBAURA VENDING MACHINE","SHIFT","SHIMA SEIKI","SHIMADZU","SHIMAFUJI ELECTRIC","SHIN-IL TECH","SHIN-OH ELECTRONICS CO., LTD. R&D","SHINANO E and E","SHINANO KENSHI","SHINBORAM","SHINDENGEN ELECTRIC MFG","SHINE UNION ENTERPRISE","SHINEMAN(SHENZHEN) Tech. Cor","SHINKO ELECTRIC","SHINKO ELECTRIC INDUSTRIES","SHINNIHONDENKO","SHINSEI ELECTRONICS","SHINSEI INDUSTRIES","SHINSUNG DELTATECH","SHINYEI TECHNOLOGY","SHIVA","SHL Telemedicine International","SHOEI Electric","SHOGRAPHICS","SHOMITI SYSTEMS","SHORE MICROSYSTEMS","SHOWA DENKI","SHOWA ELECTRIC WIRE & CABLE","SHURE","SHUTTLE","SI ELECTRONICS","SIA TeleSet","SIAE-Microelettronica","SIBCO","SICHUAN HUAKUN ZHENYU INTELLIGENT TECHNOLOGY","SICK","SICOM Systems","SID INFORMATICA","SIDSA","SIEB & MEYER","SIECOR","SIEMENS","SIEMENS AG, Digital Factory, Motion Control System","SIEMENS BUILDING","SIEMENS ENERGY AUTOMATION","SIEMENS TELECOMMUNICATION SYSTEMS","SIERRA MONITOR","SIFROM","SIGMA","SIGMACOM","SIGMALINK","SIGMATEK GMBH & CO. KG","SIGMEX","SIGNALTEK JSC","SIGNAMAX","SIGNUM SYSTEMS","SIIG","SIL3","SILCOM MANUF'G TECHNOLOGY","SILICOM","SILICON INTEGRATED SYS","SILICON VALLEY COMPUTER","SILINK","SILKAN","SIM Technology Group Shanghai Simcom","SIMCom Wireless Solutions","SIMEX Sp. z o.o","SIMPACT","SIMPLE TECHNOLOGY","SIMRAD","SIMS","SIMTEL","SIMULATION LABORATORIES","SINAGAWA TSUSHIN KEISOU SERVICE","SINAR","SINDORICOH","SINEWY TECHNOLOGY","SINOBONDER Technology","SINTRONES Technology","SIRONA DENTAL SYSTEMS GmbH & Co. KG","SIRTI","SIS Sat Internet Services","SISNET","SISTEMA SOLUCOES ELETRONICAS LTDA - EASYTECH","SISTEMAS AUDIOVISUALES ITELSIS S.L","SITCORP","SITEK","SITRONIK","SIUS","SJ Tek","SJI Industry","SJIT","SK Mtek","SK Mtek microelectronics(shenzhen)","SK Networks Service","SK Telesys","SK Teletech(R&D Planning Team)","SK hynix","SK-ELEKTRONIK","SKAIChips","SKF","SKF (U.K.)","SKG Electric Group(Thailand)","SKG Health Technologies","SKIPPER","SKNET","SKODA DIGITAL s.r.o","SKOV","SKS Welding Systems","SKTB SKiT","SKY UK","SKYASTAR TECHNOLOGLES(ZHUHAI)","SKYBELL","SKYLARK ELECTRONICS PVT","SKYSTREAM","SLE quality engineering GmbH & Co. KG","SM Information & Communication","SM Optics","SM-Electronic","SMA REGELSYSTEME","SMA Railway Technology","SMA Solar Technology","SMALLBIG TECHNOLOGY","SMAR Laboratories","SMART High Reliability Solutions","SMART Modular Technologies","SMART Storage Systems","SMART Technologies","SMART Temps","SMARTBRIDGES PTE","SMARTO","SMARTSAN SYSTEMS","SMAX Technology","SMC","SMC MASSACHUSETTS","SMC Networks","SMD INFORMATICA","SMG ENTERPRISE","SMG Holdings","SMK","SMK-M","SMND","SMP","SMS TECNOLOGIA ELETRONICA LTDA","SMT GOUPIL","SMT TELECOMM HK","SMT&C","SNB TECHNOLOGIES","SNCF MOBILITÉS","SNIJDER MICRO SYSTEMS","SNK Technologies","SNMP RESEARCH","SNR","SNS Solutions","SNUC System","SOAM Systel","SOARNEX","SOC. DE TELEINFORMATIQUE RTC","SOCIETE D'EXPLOITATION DU CNIT","SOCIETE EVIRA","SOCKET COMMUNICATIONS","SOCOMEC","SODICK","SOFACREAL","SOFT * RITE","SOFTBOOK PRESS","SOFTCOM","SOFTCOM MICROSYSTEMS","SOFTLAB","SOFTRONICS USB","SOGESTMATIC","SOHOware","SOKRAT","SOL INDUSTRY PTE","SOLAR controls s.r.o","SOLARI DI UDINE","SOLARWATT","SOLBOURNE COMPUTER","SOLECTEK","SOLECTRON JAPAN NAKANIIDA","SOLECTRON TEXAS","SOLEM Electronique","SOLIDUM SYSTEMS","SOLITON SYSTEMS","SOLOMON EXTREME INTERNATIONAL","SOLOMON Technology","SOLiD Technologies","SOMAT","SOMELEC","SOMO HOLDINGS & TECH","SONAR INDUSTRIAL","SONIC SOLUTIONS","SONIC SYSTEMS","SONICblue","SONIX COMMUNICATIONS","SONO Computer","SONOMA SYSTEMS","SONOS","SONUS NETWORKS","SONY TEKTRONIX","SONY Visual Products","SONoC","SOPHIA SYSTEMS","SORD COMPUTER","SORDIN","SOREEL","SOTAS","SOTEC","SOUND4","SOURCE-COMM","SOUTHERN INFORMATION","SOUTHERN PACIFIC","SOVICO","SOYEA Technology","SOYO COMPUTER","SOYO Technology Development","SP","SP Best","SPACE & NAVAL WARFARE SYSTEMS","SPACELABS MEDICAL","SPARKTRUM MICROSYSTEMS","SPAUN electronic GmbH & Co. KG","SPBEC-MINING","SPC ELECTRONICS","SPE Systemhaus","SPEC","SPECIALIX (ASIA) PTE","SPECTEC COMPUTER","SPECTEL","SPECTO PAINEIS ELETRONICOS LTDA","SPECTRA - TEK","SPECTRA EMBEDDED SYSTEMS","SPECTRA LOGIC","SPECTRAGRAPHICS","SPECTRIX","SPEECH DESIGN","SPEED INTERNATIONAL","SPEEDTECH","SPERADTONE INFORMATION TECHNOLOGY","SPG Controls","SPGPrints","SPHERE COMMUNICATIONS","SPHINX Electronics GmbH & Co KG","SPI Lasers","SPIDCOM Technologies","SPIDER COMMUNICATIONS","SPIDER SYSTEMS","SPINETIX","SPON Communication Technology","SPRING TIDE NETWORKS","SPRINGWAVE","SPS","SPUR PRODUCTS","SPX-ATEG","SPnS","SQUARE D","SR TELECOM","SRC Computers","SRD Innovations","SRISA","SRT Wireless","SS Telecoms","SSANGYONG COMPUTER SYSTEMS","SSD","SSH Communications Security","SSI COMPUTER","SSOMA SECURITY","SST Taiwan","ST Electronics (Info-Security) Pte","ST Electronics(Shanghai)","ST&T Instrument","STA Infinity LLP","STABILO International","STAC","STALLION TECHNOLOGIES","STANDARD MICROSYSTEMS","STANFORD LINEAR ACCEL. CENTER","STANFORD TELECOMM","STANILITE ELECTRONICS","STANLEY ELECTRIC","STAR MICRONICS","STAR TECHNOLOGIES","STAR-TEK","STARDOT TECHNOLOGIES","STARGUIDE DIGITAL NETWORKS","STARLIGHT NETWORKS","STARNET TECHNOLOGIES","STARNEX","START USA","STAUBLI","STB Datenservice","STC BUSINESS SYSTEMS","STEALTH COMPUTER SYSTEMS","STEC","STEINBRECHER","STELLAR COMPUTER","STELLAR ONE","STEMMER IMAGING","STERLITE OPTICAL TECHNOLOGIES","STI","STIM","STJ ELECTRONICS PVT","STK Technology","STL Solution","STL Systems","STMicroelectronics","STMicroelectronics Rousset","STMicrolectronics International","STN","STNet","STOEBER ANTRIEBSTECHNIK GmbH + Co. KG","STORAGE COMPUTER","STORDIS","STORES AUTOMATED SYSTEMS","STR Elektronik Josef Schlechtinger","STRAND LIGHTING","STRATABEAM TECHNOLOGY","STRATACOM","STRATEGY & TECHNOLOGY","STRAWBERRY TREE","STRONG Ges.m.b.H","STS TECHNOLOGIES","STT Condigi","STUDIO GEN","STULZ","SUB-ZERO GROUP","SUHDOL E&C","SUMEC Machinery & Electric","SUMITOMO ELECTRIC DEVICE INNOVATIONS","SUMMIT DEVELOPMENT, spol.s r.o","SUMMIT MICROSYSTEMS","SUN ELECTRONICS","SUNDANCE TECHNOLOGY","SUNGJIN C&T","SUNGROW POWER SUPPLY","SUNGSAM","SUNGWOON SYSTEMS","SUNITEC TECHNOLOGY","SUNIX","SUNNY bell Technology","SUNNYTEK INFORMATION","SUNRISE TELECOM","SUNSEA TELECOMMUNICATIONS","SUNSHINE ELECTRONICS","SUNTAILI ENTERPRISE","SUNTEK TECHNOLOGY INT'L","SUNTON TECHNOLOGY (M) SDN. BHD","SUNWAVETEC","SUPER WORKSTATION","SUPERCOM TECHNOLOGY","SUPERCOMPUTING SOLUTIONS","SUPERNET","SUPERNET NETWORKING","SUPERPOWER COMPUTER","SUPoX Technology","SURE SYSTEM","SURECOM Technology","SUREMAN COMP. & COMMUN","SURIGIKEN","SURTEC INDUSTRIES","SUSE Linux","SUYIN","SUZHOU TESIEN TECHNOLOGY","SUZUKEN","SVA Networks","SVA TECHNOLOGIES","SVA-Intrusion.com","SVEC COMPUTER","SVM Microwaves s.r.o","SVS-VISTEK","SVYAZKOMPLEKTSERVICE","SWEDA INFORMATICA LTDA","SWEEX Europe","SWEGON","SWITCHCORE","SWITCHED NETWORK TECHNOLOGIES","SWS Australia","SWsoft","SY Electronics","SYBUS","SYGN HOUSE","SYLANTRO SYSTEMS","SYMBIONICS","SYMBOLICS","SYMICRON COMPUTER COMMUNICATIONS","SYMMETRIC COMPUTER SYSTEMS","SYMMETRICAL TECHNOLOGIES","SYMON COMMUNICATIONS","SYMPLEX COMMUNICATIONS","SYN-TECH SYSTEMS","SYNAPSE TECHNOLOGIES","SYNC RESEARCH","SYNCHRONIC ENGINEERING","SYNECTIC TELECOM EXPORTS PVT","SYNERGY (UK)","SYNERGY MICROSYSTEMS","SYNERJET INTERNATIONAL","SYNERNETICS","SYNTEC Incorporation","SYNTECH (HK) TECHNOLOGY","SYNTECH INFORMATION","SYNTECH(HK) TECHNOLOGY","SYNTELLECT","SYNTREX","SYRED Data Systems","SYRIS Technology","SYSCABLE Korea","SYSDINE","SYSGEN","SYSGRATION","SYSLOGIC DATENTECHNIK","SYSMATE","SYSPOL","SYSTECH COMPUTER","SYSTEK","SYSTEL","SYSTEM CREATE","SYSTEM SPA DEPT. ELECTRONICS","SYSTEMES ET TECHNOLOGIES IDENTIFICATION (STid)","SYSTEMFORSCHUNG","SYSTEMHAUS DISCOM","SYSTEMS CONCEPTS","SYSTRAN","SYSTRONIK Elektronik u. Systemtechnik","SYSWAVE","SYStronics","SYTEK","SZ DJI Ronin Technology","SZ DJI TECHNOLOGY","SZ Knowact Robot Technology","SZ Telstar","SZ Tenveo video technology","SZCOM Broadband Network Technology","Saab AB (publ)","Saab Danmark","Saafnet Canada","SabiOso","Sabre Technology (Hull)","Sabtech Industries","Sadel","Safari Technologies","Safe-com GmbH & Co. KG","SafeOwl","SafeSquare","SafeTone Technology","SafeWeb","Safetran Systems","Safetrust","Safety Vision","Saffron Solutions","Safran Trusted 4D","Sagamore Systems","Sage","Sage Electronic Engineering","Sage Instruments","Sage Systems","Sage Technologies","SageTV","Sagemcom Broadband","Sagrad","SaiNXT Technologies LLP","Saia-Burgess Controls","Saijo Denki International","Sailer Electronic","Sailing Northern Technology","Saint Song","Salcomp (Shenzhen)","Salira Optical Network Systems","Salix Technology","Salland Engineering (Europe)","Salutica Allied Solutions","Salutron","SamJi Electronics","SambaNova Systems","Sambu Communics","Samhwa Telecom","Samjeon","Samjin Information & Communications","Sammy","Sampo","Samsung Electronics","Samsung Electronics Co., Ltd. ARTIK","Samsung Electronics Co., Ltd., Memory Division","Samsung Semiconductor","Samsung Thales","Samtec","Samurai Ind. Prods Eletronicos Ltda","Samwin Hong Kong","Samyoung Electronics","San Valley Systems","San-Eisha","SanCastle Technologies","SanCom Technology","SanDisk","SanJet Technology","SanLogic","Sand Network Systems","SandForce","SandLinks Systems","SandStream Technologies","Sandburst","Sandmartin(zhong shan)Electronics","Sandstone Technologies","Sandvine","Sanei Electric","Sanford LP","SangSang Technology","Sangean Electronics","Sangfor Technologies","Sangoma Technologies","Sangshin elecom","Sanko Electronics","Sankosha","SankyuElectronics","Sanmei Electronics","Sanmina-SCI","Sanmina-SCI Hungary","Sanrad Intelligence Storage Communications (2000)","Sanritz","Sansonic Electronics USA","Santa Barbara Infrared","Santachi Video Technology (Shenzhen)","Santosha Internatonal","Santur","Sanya Muyu Technology","Sanyo Industries (UK)","Sanyu Industry","Sapphire Technology","Sarian Systems","Sarotech","Sartorius Hamburg","Sartorius Mechatronics T&H","Sartura d.o.o","SatCom Media","Satcom Direct","Satelco","Satelsa Sistemas Y Aplicaciones De Telecomunicaciones","Satmap Systems","Saunders Electronics","Savant Systems","Savitech","Savvius","Sawwave","Scalable Network Technologies","Scalant Systems","Scalar","Scale Computing","ScaleFlux","Scalent Systems","Scalys","Scan Engineering Telecom","Scanmatic","Scannex Electronics","Scantech ID","Scanvaegt International","Scenix Semiconductor","Schaffner Deutschland","Schaffner EMV","Scheidt & Bachmann","Schenck Pegasus","Schenck Process","Schindler - PORT Technology","Schindler Elevator","Schleicher GmbH & Co. Relaiswerke KG","Schlumberger","Schmartz","Schneider Electric","Schneider Electric (Australia)","Schneider Electric Asia Pacific","Schneider Electric Canada","Schneider Electric Fire & Security","Schneider Electric Japan Holdings","Schneider Electric USA","Schneider Electric Ultra Terminal","Schoonderbeek Elektronica Systemen","Schrack Seconet Care Communication","Schubert System Elektronik","Schwechat - RISE","SciLog","Science","Science-Technical Center RISSA","Scientech Electronics","Scientech Materials","Scientific Atlanta","Scientific Production Association Siberian Arsenal","Scientific Research","Scientific Technologies","Scientific-Atlanta","Scientific-Atlanta Arcodan","ScioTeq bvba","Scion","Sciovid","Scita Solutions","Scope Information Management","Scopus International Pvt","Scosche Industries","ScottCare","Scotty Group Austria","Screen Service","ScreenBeam","ScriptPro","Scuf Gaming International","Se-Kure Controls","SeAH Networks","SeaMicro","Seabridge","Seagate Cloud Systems","Seagate Technology","Seakeeper","Seal One","Sealevel Systems","Seamap (UK)","Seamless Internet","Seanodes","Seaway Networks","SecWell Networks","Secfone Kft","Secheron","Secom-Industry","Second Rule","Secret Labs","Sector Alarm Tech S.L","Sectronic","SecuGen","SecuWorks","Secui.com","Secura Key","Securaplane Technologies","Secure Electrans","Secure Letter","Secure Meters (UK)","Secure Systems & Services","Secure Works","Securebase","Securifi","Securitas Direct","Securiton","Security Design","Security Expert","Securosys","Seedek","Seedsware","Seeed Technology","Seeion Control","SeekTech","SeekerNet","Seer Technology","Seers Technology","Segate Technology","Segnet","Segnetics","Sehaj Synergy Technologies Private","Sei","Seibu Electric","Seidel Elektronik GmbH Nfg.KG","Seiko Epson","Seiko Instruments","Seine Image Int'l","Seiwa Electronics","Sejin Electron","Sekisui Jushi CAP-AI System","Selcom Electronics (Shanghai)","Selea","Select Comfort","Select Engineered Systems","Selectron Systems","Selesta Ingegneria","Selex Communications","Selta Telematica","Seluxit","Selve GmbH & Co. KG","SemIndia System Private","Semihalf","Semikron Elektronik GmbH & Co. KG","Semptian","Semptian Technologies","Semtech","SenArch ApS","SenRa Tech Pvt","SenTec","Sena Technologies","Senaisc","Senao International","Senao Networks","Senbiosys","Sencore","Sendo","Sendtek","Senea","Seneca","Seneca Networks","Senet","Senetas","Senhai Electronic Technology","Senient Systems","Sennheiser Communications","Sennheiser electronic GmbH & Co. KG","SensAble Technologies","Sensaphone","Sensata Technologies","Senscient","Senscomm Semiconductor","Sense Labs","Sense Things Japan","SenseAnywhere","Sensear","Senseit","Senselogix","Sensicast Systems","SensingTek","Sensium Healthcare","SensoPart","Sensometrix","Sensor Switch","Sensor-Technik Wiedemann","SensorPush","SensorTec-Canada","Sensoria","Sensorist ApS","Sensormatic Electronics","Sensory Networks","Sensovation","Sensus Metering Systems","Sensys Traffic","Sentec","Senticare","Sentilla","Sentinel Wireless","Sentinhealth","Sentinum","Sentivision","Sentrus Government Systems Division","Sentry Equipment","Sentyron","Seohwa Telecom","Seon Design","Seongji Industry","SeorimTechnology","Seoul Commtech","Seoultek Valley","Seowonintech","Seowoo","Sepura","Sequans Communications","Sequel Technologies","Sera Network","SercoNet","Sercomm","Sercomm France Sarl","Sercomm Japan","Serial System","SerialTek","Serialway Communication Technology","Serome Technology","Serrature Meroni","Sertel Electronics UK","Server Racks Australia","Server Technology","ServerEngines","ServerNet","ServerU","Servergy","Servimat","Sesami Technologies","SetOne","SetaBox Technology","Setha Industria Eletronica LTDA","Setrix","Sevio","Sevis Systems","Seyond","Shaanxi Gangsion Electronic Technology","Shaanxi GuoLian Digital TV Technology","Shaanxi Hitech Electronic","Shaanxi Ruixun Electronic Information Technology","Shadong Luneng Jicheng Electronics","Shadow Creator Information Technology","ShanDong Domor Intelligent S&T","ShanDong Tecsunrise","Shandong Bittel Electronics","Shandong Intelligent Optical Communication Development","Shandong New Beiyang Information Technology","Shandong Sinochip Semiconductors","Shandong Taixin Electronic","Shandong USR IOT Technology","Shandong ZTop Microelectronics","Shandong Zhongan Technology","Shang Hai Tyd. Electon Technology","ShangHai Broadband Technologies","ShangHai WangYong Software","ShangHai Y&Y Electronics","ShangHai cellink","ShangHai sunup lighting","Shanghai AdaptComm Technology","Shanghai Airm2m Communication Technology","Shanghai Amphenol Airwave Communication Electronics","Shanghai Artimen Technology","Shanghai B-Star Technology","Shanghai B-star Technology","Shanghai Baosight Software","Shanghai Baud Data Communication","Shanghai Bellmann Digital Source","Shanghai BroadMobi Communication Technology","Shanghai Broadan Communication Technology","Shanghai Cambricon Information Technology","Shanghai Chint Power Systems","Shanghai Chint low voltage electrical technology","Shanghai Clouder Semiconductor","Shanghai Cygnus Semiconductor","Shanghai Dare Technologies","Shanghai DareGlobal Technologies","Shanghai DigiVision Technology","Shanghai Diveo Technology","Shanghai Dongzhou-Lawton Communication Technology","Shanghai EDO Technologies","Shanghai Embedway Information Technologies","Shanghai Enflame Technology","Shanghai Engineering Science & Technology Co.,LTD CGNPC","Shanghai Fangzhiwei Information Technology","Shanghai Feixun Communication","Shanghai Flexem Technology","Shanghai Focus Vision Security Technology","Shanghai GBCOM Communication Technology","Shanghai GMT Digital Technologies","Shanghai Gaozhi Science & Technology Development","Shanghai Genvision Industries","Shanghai Guao Electronic Technology","Shanghai HITE-BELDEN Network Technology","Shanghai High-Flying Electronics Technology","Shanghai Hongzhuo Information Technology","Shanghai Howell Electronic","Shanghai Huaqin Telecom Technology","Shanghai Hulu Devices","Shanghai IUV Software Development","Shanghai Ikotek Technology","Shanghai Imilab Technology","Shanghai Infinity Wireless Technologies","Shanghai InfoTM Microelectronics","Shanghai Ingeek Technology","Shanghai JINXVM Microelectronics","Shanghai Jiao Da HISYS Technology","Shanghai Jing Ren Electronic Technology","Shanghai Jinghan Weighing Apparatus","Shanghai Joindata Technology","Shanghai Junqian Sensing Technology","Shanghai Kaixiang Info Tech","Shanghai Kanghai Infomation System","Shanghai Kenmyond Industrial Network Equipment","Shanghai Kingto Information Technology","Shanghai LISTEN TECH","Shanghai LUSTER Teraband photonic","Shanghai Lightningsemi Technology","Shanghai Linkyum Microeletronics","Shanghai Listent Medical Tech","Shanghai Lixun Information Technology","Shanghai Longcheer Technology","Shanghai Longjing Technology","Shanghai MRDcom","Shanghai MXCHIP Information Technology","Shanghai Magic Mobile Telecommunication","Shanghai Maigantech","Shanghai Meridian Technologies","Shanghai Mexon Communication Technology","Shanghai Mo xiang Network Technology","Shanghai Mobiletek Communication","Shanghai Moorewatt Energy Technology","Shanghai Mountain View Silicon","Shanghai Nanchao Information Technology","Shanghai Neardi Technologies","Shanghai Net Miles Fiber Optics Technology","Shanghai Notion Information Technology","Shanghai Notion lnformatio Technology","Shanghai Nutshell Electronic","Shanghai ONLAN Communication Tech","Shanghai Pateo Electronic Equipment Manufacturing","Shanghai Qihui Telecom Technology","Shanghai Railway Communication Factory","Shanghai Reacheng Communication Technology","Shanghai Reallytek Information Technology","Shanghai Rui Rui Communication Technology","Shanghai Ruijie Technology","Shanghai SEARI Intelligent System","Shanghai SIMCOM","Shanghai SYH Technology","Shanghai Sango Network Technology","Shanghai Sibo Telecom Technology","Shanghai Siflower Communication Technology","Shanghai Smart System Technology","Shanghai StarFive Semiconductor","Shanghai Sunmi Technology","Shanghai Super Electronics Technology","Shanghai TYD Elecronic Technology","Shanghai Tigercel Communication Technology","Shanghai Timar Integrated Circuit","Shanghai Tricheer Technology","Shanghai Typrotech Technology","Shanghai UMEinfo","Shanghai Ulink Telecom Equipment","Shanghai Uniscope Technologies","Shanghai VLC Technologies","Shanghai Viroyal Electronic Technology","Shanghai Visking Digital Technology","Shanghai WDK Industrial","Shanghai WOASiS Telecommunications","Shanghai Wedone Digital","Shanghai Wellpay Information Technology","Shanghai Winaas Co. Equipment","Shanghai Wind Technologies","Shanghai Winner Information Technology","Shanghai X-Cheng telecom","Shanghai XZ-COM","Shanghai XiMei Electronic Technology","Shanghai Xiaodu Technology","Shanghai Xiaoyi Technology","Shanghai XinMiaoLink Technology","Shanghai Xinyou Information Technology","Shanghai Xun Shi Communications Equipment","Shanghai Yali Electron","Shanghai Zenchant Electornics","Shanghai annijie Information technology","Shanghai iComhome","Shanhai GBCOM Communication Technology","Shannon Systems","Shantou Institute of Ultrasonic Instruments","Shany Electronic","Shaoxing Ourten Electronics","Shaoxing ShunChuang Technology","ShareGate","Sharetronic Data Technology","Shark Multimedia","SharkNinja","SharkNinja Operating","Shaw Communications","Sheba Systems","Shell International Exploration and Production","Shellcomm","Shelly Europe","Shen Zhen Lite Star Electronics Technology","Shen Zhen RND Electronic","Shen Zhen Shi Xin Zhong Xin Technology","ShenYang ZhongKe-Allwin Technology","ShenZhen ACTO Digital Video Technology","ShenZhen ANYK Technology","ShenZhen Apexis Electronic","ShenZhen C&D Electronics","ShenZhen Cando Electronics","ShenZhen Chenyee Technology","ShenZhen Continental Wireless Technology","ShenZhen EZL Technology","ShenZhen EepuLink","ShenZhen Elsky Technology","ShenZhen Figigantic Electronic","ShenZhen Hitom Communication Technology","ShenZhen Hosecom Electronic Technology","ShenZhen Hugsun Technology","ShenZhen IDWELL Technology","ShenZhen Kang Hui Technology","ShenZhen Konka Telecommunication Technology","ShenZhen LingKeWeiEr Technology","ShenZhen Linked-Z Intelligent Display","ShenZhen Microtest Automation","ShenZhen More Star Technology","ShenZhen MovingComm Technology","ShenZhen OnMicro Electronics","ShenZhen Protruly Electronic","ShenZhen QianHai Comlan communication","ShenZhen Qualmesh Technology","ShenZhen Rapoo Technology","ShenZhen RicherLink Technologies","ShenZhen Selenview Digital Technology","ShenZhen ShiHua Technology","ShenZhen Sweet Rain Electronics","ShenZhen TIGO Semiconductor","ShenZhen Telacom Science&Technology","ShenZhen Temobi Science&Tech Development","ShenZhen Tengxin Electronics Manufacturing","ShenZhen TianGang Micro Technology","ShenZhen Topstar Technology","ShenZhen Ultra Easy Technology","ShenZhen Unitone Electronics","ShenZhen XinHuaTong Opto Electronics","ShenZhen XinZhongXin Technology Co.，","ShenZhen XunBao Network Technology","ShenZhen Zhengjili Electronics","ShenZhen ZhongRuiJing Technology","ShenZhen jieshun Science&Technology Industry","ShengHai Electronics (Shenzhen)","Shengqu Information Technology (Shanghai)","Shengzhen Gongjin Electronics","Shenou Communication Equipment","Shenyang Neu-era Information & Technology Stock","Shenyang Vibrotech Instruments","Shenyang wisdom Foundation Technology Development","Shenzhen 10Gtek Transceivers","Shenzhen 10MOONS Technology Development","Shenzhen 3Nod Digital Technology","Shenzhen 3SNIC information technology","Shenzhen ACT Industrial","Shenzhen AEE Technology","Shenzhen ATUE Technology","Shenzhen Advanced Video Info-Tech","Shenzhen Aero-Startech","Shenzhen Afoundry Electronic","Shenzhen Ai-Thinker Technology","Shenzhen Aikede Technology","Shenzhen Ailyworld Technology","Shenzhen Aisat Electronic","Shenzhen Aiwinn information Technology","Shenzhen All-Smartlink Technology","Shenzhen Allywll","Shenzhen Along Electronics","Shenzhen Amazwear Holdings","Shenzhen Amediatech Technology","Shenzhen Americas Trading","Shenzhen Angxun Technology","Shenzhen Atsmart Technology","Shenzhen Baitong Putian Technology","Shenzhen Baoan Fenda Industrial","Shenzhen Baojia Battery Technology","Shenzhen Baoxin Tech","Shenzhen Baseus Technology","Shenzhen Baseus Technology CoLtd","Shenzhen Belon Technology","Shenzhen Belzon Technology","Shenzhen Benew Technology","Shenzhen Bitland Information Technology","Shenzhen Bococom Technology","Shenzhen Bolutek Technology","Shenzhen Boomtech Industrial","Shenzhen Bopengfa Elec&Technology","Shenzhen Bus-Lan Technology","Shenzhen C&D Electronics","Shenzhen C-Data Technology","Shenzhen CATIC Bit Communications Technology","Shenzhen CPETEK Technology","Shenzhen CYX Technology","Shenzhen CZTIC Electronic Technology","Shenzhen Candour","Shenzhen CareDear Communication Technology","Shenzhen Century Xinyang Technology","Shenzhen Ceres Technology","Shenzhen Changjin Communication Technology","Shenzhen Chengqian Information Technology","Shenzhen Chilink IoT Technology","Shenzhen Chima Technologies","Shenzhen ChipTrip Technology","Shenzhen ChuangDao & Perpetual Eternal Technology","Shenzhen Chuangxin Internet Communication Technology","Shenzhen City LinwlanTechnology","Shenzhen Cloudsky Technologies","Shenzhen Colorful Yugong Technology and Development","Shenzhen Communication Technology","Shenzhen Comnect Technology","Shenzhen Comstar .Technology","Shenzhen Concox Information Technology","Shenzhen Coship Electronics","Shenzhen Coship Software","Shenzhen Costar Electronics","Shenzhen Crave Communication","Shenzhen Cudy Technology","Shenzhen Cultraview Digital Technology","Shenzhen Cultraview Digital Technology Co.,Ltd Shanghai Branch","Shenzhen D-Robotics","Shenzhen DAPU Microelectronics","Shenzhen DOOGEE Hengtong Technology","Shenzhen Daystar Technology","Shenzhen Dazoo Technologies","Shenzhen Decnta Technology","Shenzhen Deejoy Lighting Technology","Shenzhen Dehoo Technology","Shenzhen Delos Electronic","Shenzhen Detran Technology","Shenzhen Dingsheng Technology","Shenzhen Dolphin Electronic","Shenzhen Doov Technology","Shenzhen Dttek Technology","Shenzhen Duubee Intelligent Technologies","Shenzhen Dynamax Software Development","Shenzhen E-Life Intelligence Technology","Shenzhen E-Superlink Technology","Shenzhen ECOM Technology","Shenzhen ELINK Technology","Shenzhen EMTEK Storage Technology","Shenzhen Eastern Digital Tech","Shenzhen Ecsino Tecnical","Shenzhen Egreat Tech","Shenzhen Elebao Technology","Shenzhen Elink Technology","Shenzhen Excelsecu Data Technology","Shenzhen Eycom Technology","Shenzhen FH-NET OPTOELECTRONICS","Shenzhen Fangcheng Baiyi Technology","Shenzhen Fanhai Sanjiang Electronics","Shenzhen Fanweitai Technology Service","Shenzhen Fanzhuo Communication Technology Co., Lt","Shenzhen Fastrain Technology","Shenzhen Feasycom","Shenzhen Feasycom Technology","Shenzhen Feitengyun Technology","Shenzhen Fenglian Technology","Shenzhen Ferex Electrical","Shenzhen First Blue Chip Technology","Shenzhen First Mile Communications","Shenzhen Forcelink Electronic","Shenzhen Fortune Ship Technology","Shenzhen Forward Industry","Shenzhen Four Seas Global Link Network Technology","Shenzhen Friendcom Technology Development","Shenzhen Fsan Intelligent Technology","Shenzhen Full-join Technology","Shenzhen Furtunetel Communication","Shenzhen Furuilian Electronic","Shenzhen G-link Digital Technology","Shenzhen G-world Technology","Shenzhen G.Credit Communication Technology","Shenzhen GIEC Electronics","Shenzhen GST Security and Safety Technology","Shenzhen GainStrong Technology","Shenzhen Geniatech","Shenzhen Giant Microelectronics","Shenzhen Ginwave Technologies","Shenzhen Glazero Technology","Shenzhen Goodix Technology","Shenzhen Goodocom lnformation Technology","Shenzhen Gooxi Information Security","Shenzhen Gotron electronic","Shenzhen Grandsun Electronic","Shenzhen Guo Wei Electronic","Shenzhen Guowei Shidai Communication Equipement","Shenzhen Guzidi Technology","Shenzhen Gwelltimes Technology","Shenzhen H&T Intelligent Control","Shenzhen HAMP Science & Technology","Shenzhen HC-WLAN Technology","Shenzhen HS Fiber Communication Equipment","Shenzhen Hailingwei Electronics","Shenzhen Haitianxiong Electronic","Shenzhen Hangsheng Electronics","Shenzhen Hankvision Technology","Shenzhen Hanzsung Technology","Shenzhen Heguang Measurement & Control Technology","Shenzhen Hengyi Technology","Shenzhen Herotel Tech","Shenzhen Hexicom Technology","Shenzhen Hi-Link Electronic","Shenzhen Hikeen Technology","Shenzhen HippStor Technology","Shenzhen Hohunet Technology","Shenzhen Hoin Internet Technology","Shenzhen Hojy Software","Shenzhen Homecare Technology","Shenzhen Honesty Electronics","Shenzhen HongRui Optical Technology","Shenzhen Horn Audio","Shenzhen Huadian Communication","Shenzhen Huajuxin Semiconductor","Shenzhen Hualistone Technology","Shenzhen Huanhu Technology","Shenzhen Huapu Digital","Shenzhen Huaxuchang Telecom Technology","Shenzhen Huidu Technology","Shenzhen Huisheng Information Technology","Shenzhen Huitaiwei Tech","Shenzhen INVT Electric","Shenzhen IP3 Century Intelligent Technology","Shenzhen Ideaform Industrial Product Design","Shenzhen Incar Technology","Shenzhen Intellirocks Tech","Shenzhen JMicron Intelligent Technology Developmen","Shenzhen JRUN Technologies","Shenzhen JSR Technology","Shenzhen Jaguar Microsystems","Shenzhen Jiahua Zhongli Technology","Shenzhen Jialihua Electronic Technology","Shenzhen Jiapeng Huaxiang Technology","Shenzhen Jidao Technology","Shenzhen Jie Shi Lian Industrial","Shenzhen Jin Yun Video Equipment","Shenzhen JingHanDa Electronics","Shenzhen Jingxun Software Telecommunication Technology","Shenzhen Jingxun Technology","Shenzhen Jinhengjia Electronic","Shenzhen Jinkeyi Communication","Shenzhen Jinlangxin Technology","Shenzhen Jiuzhou Electric","Shenzhen JoinCyber Telecom Equipment","Shenzhen Jun Kai Hengye Technology","Shenzhen Junlan Electronic","Shenzhen JustLink Technology","Shenzhen KKM","Shenzhen Kaiboer Technology","Shenzhen Kaifa Technology","Shenzhen Kaixuan Visual Technology","Shenzhen Kang Ying Technology","Shenzhen Kean Digital","Shenzhen Kertong Technology","Shenzhen Kezhonglong Optoelectronic Technology","Shenzhen Kings IoT","Shenzhen Kingtech Communication Equipment","Shenzhen Kootion Technology","Shenzhen Kunlun TongTai Technology","Shenzhen Lanfeng Times Industrial","Shenzhen Lantech Electronics","Shenzhen Lemon Network Technology","Shenzhen Lencotion Technology","Shenzhen LiWiFi Technology","Shenzhen Lianrui Electronics","Shenzhen Libre Technology","Shenzhen Libtor Technology","Shenzhen Lifesense Medical Electronics","Shenzhen Linghai Electronics","Shenzhen Linghangyuan Digital Technology","Shenzhen Linkoh Network Technology Co;","Shenzhen Linkworld Technology","Shenzhen Linsn Technology Development","Shenzhen Loadcom Technology","Shenzhen Longtech Electronics","Shenzhen Longway Technologies","Shenzhen MEK Intellisys Pte","Shenzhen MIMOWAVE Technology","Shenzhen MTN Electronics","Shenzhen Mainuoke Electronics","Shenzhen Malio Technology","Shenzhen Max Infinite Technology","Shenzhen Maxtang Computer","Shenzhen MeiG Smart Technology","Shenzhen Meione Technology","Shenzhen Melon Electronics","Shenzhen MiaoMing Intelligent Technology","Shenzhen Mindray Animal Medical Technology","Shenzhen Minew Technologies","Shenzhen MinewSemi","Shenzhen Minicreate Technology","Shenzhen Mopnet Industrial","Shenzhen MoreSense Technology","Shenzhen My-power Technology","Shenzhen NEED technology","Shenzhen NORCO lntelligent Technology","Shenzhen NUOLIJIA Digital Technology","Shenzhen NVC Cloud Technology","Shenzhen Neostra Technology","Shenzhen Neoway Technology","Shenzhen Netcom Electronics","Shenzhen Netforward Micro-Electronic","Shenzhen New Chip Intelligence","Shenzhen New Species Technology","Shenzhen Newabel Electronic","Shenzhen Nuoshi Technology","Shenzhen OXO Technology","Shenzhen Ogemray Technology","Shenzhen One-Nine Intelligent Electronic Science and Technology","Shenzhen Orange Digital Technology","Shenzhen Ostar Display Electronic","Shenzhen Phaten Tech","Shenzhen Photon Leap Technology","Shenzhen Powercom","Shenzhen Powerleader Storage Technology","Shenzhen Prayfly Technology","Shenzhen Prifox Innovation Technology","Shenzhen Primestone Network Technologies","Shenzhen Pulier Tech","Shenzhen Qianfenyi Intelligent Technology","Shenzhen Qihoo Intelligent Technology","Shenzhen Qihu Intelligent Technology","Shenzhen Quanxing Technology","Shenzhen RB-LINK Intelligent Technology","Shenzhen RF Technology","Shenzhen Rayin Technology","Shenzhen Reach software technology","Shenzhen Reecam Tech","Shenzhen Rinocloud Technology","Shenzhen RouterD Networks","Shenzhen Rui Ying Da Technology","Shenzhen Ruiyuanchuangxin Technology","Shenzhen Runhuicheng Technology","Shenzhen Runsil Technology","Shenzhen SC Technologies","Shenzhen SDG DONZHI Technology","Shenzhen SDG Telecom Equipment","Shenzhen SDGI CATV","Shenzhen SDMC Technology","Shenzhen SDMC Technology CP","Shenzhen SED Information Technology","Shenzhen SEI Robotics","Shenzhen SHX Technology","Shenzhen SOGOOD Industry","Shenzhen SSC Technology","Shenzhen Safe vision Technology","Shenzhen Sande Dacom Electronics","Shenzhen Sang Fei Consumer Communications","Shenzhen Sanland Electronic","Shenzhen Seavo Technology","Shenzhen Shengxi Industrial","Shenzhen Shichuangyi Electronics","Shenzhen Shidean Legrand Electronic Products","Shenzhen Shiningworth Technology","Shenzhen Shixuntong Information & Technoligy","Shenzhen Shokz","Shenzhen Shokzhear","Shenzhen Shunrui Gaojie Technology","Shenzhen Shutong Space Technology","Shenzhen SiACRRIER Industry Machines","Shenzhen Siera Technology","Shenzhen Siglent Technology","Shenzhen Sinkna Electronics","Shenzhen Siviton Technology","Shenzhen Skyee Optical Fiber Communication Technology","Shenzhen Skyworth Digital Technology","Shenzhen Skyworth Display Technologies","Shenzhen Skyworth Wireless Technology","Shenzhen Smart Device Technology","Shenzhen Smart Intelligent Technology","Shenzhen Smarteye Digital Electronics","Shenzhen Sowell Technology","Shenzhen State Micro Technology","Shenzhen Stellamore Technology","Shenzhen Streaming Video Technology","Shenzhen Strong Rising Electronics Co.,Ltd DongGuan Subsidiary","Shenzhen Sunchip Technology","Shenzhen Sundray Technologies","Shenzhen Sunwoda intelligent hardware","Shenzhen Super D Technology","Shenzhen Super Rich Electronics","Shenzhen SuperElectron Technology","Shenzhen Sworix Techonlogy","Shenzhen Sy-Fiber Optical Communication Technology","Shenzhen Syscan Technology","Shenzhen TATFOOK Technology","Shenzhen TCL New Technology","Shenzhen TG-NET Botone Technology","Shenzhen TINNO Mobile Technology","Shenzhen TONG BO WEI Technology","Shenzhen Taichi Technology","Shenzhen Taikaida Technology","Shenzhen Taike industrial automation","Shenzhen Talent Technology Comapny Limited 深圳市泰霖科技有限公司","Shenzhen TecAnswer Technology","Shenzhen Techtion Electronics","Shenzhen Techwinsemi Technology","Shenzhen Teleone Technology","Shenzhen Tencent Computer System","Shenzhen Terca Information Technology","Shenzhen Think Will Communication Technology","Shenzhen Tian Kun Technology","Shenzhen Tianruixiang Communication Equipment","Shenzhen Tinno Mobile Technology","Shenzhen Tongfang Multimedia Technology","Shenzhen Toptel Technology","Shenzhen Topwise Communication","Shenzhen Torch Equipment","Shenzhen Trimax Technology","Shenzhen Trolink Technology","Shenzhen Trylong Smart Science and Technology","Shenzhen Turbosight Technology","Shenzhen UTEPO Tech","Shenzhen Uascent Technology","Shenzhen UniStrong Science & Technology","Shenzhen Union Networks Equipment","Shenzhen Unionmemory Information System","Shenzhen Unistar Communication","Shenzhen Urovo Technology","Shenzhen Uvision-tech Technology","Shenzhen V-Link Technology","Shenzhen VMAX Software","Shenzhen Vastking Electronic","Shenzhen Vatilon Electronics","Shenzhen ViewAt Technology","Shenzhen Vipstech","Shenzhen VisionSTOR Technologies","Shenzhen Visteng Technology","Shenzhen Voxtech","Shenzhen Vsun Communication Technology","Shenzhen Vsun communication technology","Shenzhen Vtsonic","Shenzhen WIFI-3L Technology","Shenzhen WYC Technology","Shenzhen Wangliantong Intelligent Technology Co.,Lte","Shenzhen Water World Information","Shenzhen WayOS Technology Crop","Shenzhen WeSing Interactive Entertainment Technology","Shenzhen WeWins wireless","Shenzhen Webridge Technology","Shenzhen Wei Da Intelligent Technology Go","Shenzhen Wewins Wireless","Shenzhen WiSiYiLink Technology","Shenzhen Wintop Photoelectric Technology","Shenzhen Winyao Electronic","Shenzhen Wision Technology Holding","Shenzhen Wistar Technology","Shenzhen Wolck Network Product","Shenzhen Wonhe Technology","Shenzhen XGTEC Technology","Shenzhen Xiao Bi En Culture Education Technology","Shenzhen Xiaoniao Technology","Shenzhen Xiaoqi Intelligent Technology","Shenzhen Xin KingBrand enterprises","Shenzhen Xinfa Electronic","Shenzhen Xing Feng Industry","Shenzhen Xingguodu Technology","Shenzhen Xinghai Iot Technology","Shenzhen Xinguodu Technology","Shenzhen Xinwei Intelligent","Shenzhen Xinyin technology","Shenzhen Xiongxin Technology","Shenzhen Xunman Technology","Shenzhen Y&D Electronics","Shenzhen YITOA Digital Appliance","Shenzhen YOOBAO Technology","Shenzhen YOUHUA Technology","Shenzhen Yichen Technology Development","Shenzhen Yidashi Electronics","Shenzhen Yifang Network Technology","Shenzhen Yihao Hulian Science and Technology","Shenzhen Yingdakang Technology","Shenzhen Yingsheng Technology","Shenzhen Yinwang Intelligent Technologies","Shenzhen Yipinfang Internet Technology","Shenzhen Yipingfang Network Technology","Shenzhen Yisheng Technology","Shenzhen Yoostar Technology","Shenzhen Yourf Kwan Industrial","Shenzhen Yunding Information Technology","Shenzhen Yunlink Technology","Shenzhen Zenith Intelligent Technology","Shenzhen Zeroone Technology","Shenzhen Zhide technology","Shenzhen Zhixin Data Service","Shenzhen Zhongke United Communication Technology","Shenzhen Zhongruixin Intelligent Technology","Shenzhen Zidoo Technology","Shenzhen Zowee Technology","Shenzhen elink smart","Shenzhen hechengdong Technology","Shenzhen hylitech","Shenzhen iBaby Labs","Shenzhen iComm Semiconductor","Shenzhen iStartek Technology","Shenzhen ireadygo Information Technology","Shenzhen juduoping Technology","Shenzhen lnovance Technology","Shenzhen mantunsci","Shenzhen sangfei consumer communications","Shenzhen xeme Communication","Shenzhen z-router Technology","Shenzhen zediel","Shenzhen zhouhai technology","ShenzhenEnjoyTechnologyCo","Shenzhenshi Xinzhongxin","Shenzhenshi Xinzhongxin Technology","Shenzhenshi chuangzhicheng Technology","Shenztech","Sherwood Information Partners","Shester Communications","ShibaSoku","Shield AI","ShieldSOS","Shihlin Electric & Engineering","Shikoku Instrumentation","Shimizu Technology","Shin Kin Enterprises","Shin Satellite Public","Shin Wang Tech","ShinHeung Precision","ShinMaywa Industries","Shina System","Shinbo","Shinco Electronics Group","Shine Profit Development","Shineway Technologies","Shinhint Group","Shiningtek","Shinkawa Electric","Shinoda Plasma","Shintec Hozumi","Shinwa Industries(China)","Shinwa industries(China)","Shinybow Technology","Shireen","Shiron Satellite Communications Ltd. (1996)","Shishi Tongyun Technology(Chengdu)","Shoogee GmbH & Co. KG","Shooter Detection Systems","ShopperTrak RCT","ShoreTel","ShotSpotter","ShotTracker","Shouyo Electronics","Shuko Electronics","Shunra Software","Shuttle","Si14","Si2 Microsystems","SiByte","SiConnect","SiCortex","SiFly Aviation","SiMa.ai","SiNett","SiRF Technology","Siama Systems","Siano Mobile Silicon","Siauliu Tauro Televizoriai, JSC","Siba Service","SiboTech Automation","Sicep","Sicert","Sichuan AI-Link Technology","Sichuan Bihong Broadcast &amp; Television New Technologies","Sichuan Changhong Electric","Sichuan Changhong Network Technologies","Sichuan Jinwangtong Electronic Science&Technology","Sichuan Jiuzhou Electronic Technology","Sichuan Odot Automation System","Sichuan Tianyi Comheart Telecom","Sichuan Tianyi Information Science & Technology Stock","Sichuan Whayer information industry","Sichuan iLink Technology","Sichuan tianyi kanghe communications","Sicon","Siconix","Sidora","SieAmp Group of Companies","Sieb & Meyer","Sielox","Siemens","Siemens AG Austria","Siemens AG Energy Management Division","Siemens AG I IA PP PRM","Siemens AG ICM MP UC RD IT KLF1","Siemens AG, Automations & Drives","Siemens AG, Healthcare Sector","Siemens AG, Sector Industry, Drive Technologies, Motion Control Systems","Siemens AG, Transportation Systems","Siemens Building Technologies","Siemens Canada","Siemens Convergence Creators GmbH&Co.KG","Siemens Energy Global GmbH & Co.KG - GT PRM","Siemens Healthcare Diagnostics","Siemens Healthcare Diagnostics Manufacturing","Siemens Home & Office Comm. Devices","Siemens Industrial Automation Products Ltd., Chengdu","Siemens Industry","Siemens Low Voltage & Products","Siemens Mobility","Siemens NV (Belgium)","Siemens Network Convergence","Siemens Numerical Control Ltd., Nanjing","Siemens Rail Automation SAU","Siemens Switzerland Ltd., I B T HVP","Siemon","Sienda Multimedia","Sierra Automated Systems","Sierra Wireless, ULC","SierraCom","Sify Technologies","SightLogix","Sigma","Sigma Bilisim Sist. Tekn. Elk. Enj. ve San. D??. Tic. Ltd. ?ti","Sigma Koki","Sigma-Links","SigmaTel","Sigmastar Technology","Signal Communication","Signal Communications","Signal Networks Pvt","Signal Path International / Peachtree Audio","Signal Technology","Signal Technology - AISD","SignalFire Telemetry","Signalinks Communication Technology","Signalion","Signify","Signtech","Sigpro","Sigrand","Sigrist-Photometer","Siklu Communication","Silca","Silex Technology","Silex Technology America","Silicon & Software Systems","Silicon Data","Silicon Graphics","Silicon Innovation Microelectronics","Silicon Laboratories","Silicon Micro Sensors","Silicon Motion","Silicon Software","Silicon Turnkey Express","Silicon Valley Global Marketing","Silicon Wave","SiliconStor","Silicondust Engineering","Siliconware Precision Industries","Siliconwaves Technologies","Silver Palm Technologies","Silver Peak Systems","Silver Spring Networks","SilverNet","SilverPlus","Silverbrook Research","Silverflare","Silvershore Technology Partners","Simac Techniek","Simet","Simm Tronic","Simo Wireless","Simoco","Simon-Kaloi Engineering","SimonsVoss Technologies","Simple Access","Simple Audio","Simple Devices","SimpleComTools","Simpler Networks","SimpliSafe","Simrad Optronics ASA","Simtec Electronics","Simton Technologies","Sinbon Electronics","Sinepower Lda","Sinetica","Sing Fai Technology","Singapore Technologies Electronics","Singim International","Singular Technology","Sinkyo Electron","Sino Prime-Tech","Sino-Telecom Technology","Sinotech Engineering Consultants, Inc. Geotechnical Enginee","Sintela","Sinwatec","Sipod","Sirit","Sirius Electronic Systems","Sirius System","Sirius XM Radio","Siselectron Technology","Sistemas de Gestión Energética S.A. de C.V","Sitael","Sitara Networks","Sitasys","Sitecom Europe","Sitecsoft","Sitehop","Sitera","Sitronics Telecom Solutions","Sivantos","Sixi Networks","Skardin (UK)","Skidata","Skipper Wireless","Skiva Technologies","Skorpios Technologies","Skspruce Technologies","Skullcandy","Sky Light Digital","Sky-City Communication and Electronics","Sky-Line Information","SkyBell Technologies","SkyDisk","SkyHawke Technologies","SkyMirr","Skychers Creations ShenZhen","Skydigital","Skydio","Skyera","Skylab M&C Technology","Skylane Optics","Skymotion Technology (HK)","Skyquad Electronics & Appliances Pvt","Skytap","Skyverse","Skyviia","Skyworth Digital Technology(Shenzhen)","Skyworth Overseas Development","Skyworth Wireless Technology","Sleep Number","Slican Sp. z o.o","Slim Devices","Sling Media","Smak Tecnologia e Automacao","Smappee","SmarDTV","SmarTire Systems","Smart Code(shenzhen)Technology","Smart Cube","Smart Empire Investments","Smart Energy Instruments","Smart Innovation","Smart Solution","Smart electronic","Smart iBlue Technology","SmartAnt Telecom","SmartCap Technologies","SmartCow AI Technologies Taiwan","SmartDoor Systems","SmartDrive Systems","SmartOptics","SmartRG","SmartSens Technology (Shanghai)","SmartShare Systems","SmartSynch","SmartThings","Smartchip Integrated","Smartcom - Bulgaria AD","SmarteBuilding","Smarteh d.o.o","Smartisan Digital","Smartisan Technology","Smartlabs","Smartlink Network Systems","Smartmatic","Smartron India Pvt","Smartronix","Smartrove","Smartvue","Smartware","Smarty (HZ) Information Electronics","Smith Myers Communications","Smobile","SnD Tech","Snap","Snap-on OEM Group","SnapAV","SnapRoute","SnedFar Technology","Snell","Snorble","SnowShore Networks","Snuza International","Soc. Coop. Bilanciai","Social Aid Research","Society of Motion Picture &amp; Television Engineers","Socionext","Socus networks","Soenen Controls N.V","SofaWare Technologies","Soft Device","Soft Imaging System","SoftEnergy","SoftRadio","Softier","Softing","Softiron","Softlink Automation System","Softlink s.r.o","Software Freedom Conservancy","Software Technologies Group","Softwell Technology","Sogecam Industrial","Solacom Technologies","Soladigm","Solar Manager","Solar Power Technologies","Solar Technology","Solar Telecom. Tech","Solar76","SolarEdge Technologies","Solarbridge Technologies","Solarflare Communications","Solartron Metrology","Solberg & Andersen","Solectron Brazil","Solid Data Systems","Solid Optics","Solid Optics EU N.V","Solid Semecs","Solid State Storage Technology","Solid Year","SolidFire","SolidRun","Solidica","Solidigm Technology","Solidwintech","Solinet Systems","Solitech","Soliton Technologies Pvt","Sollae Systems","Solphone","Soltech","Solteras","Solutions Radio","Solutronic","Soma Networks","Somfy","Somfy-Protect By Myfox","Sonance","Sonardyne International","Sonavation","Sonavox Canada","Soneticom","Songwoo Information & Technology","SonicSensory","SonicWALL","SonicWall","Sonicwall","Sonifex","Sonim Technologies","Sonitor Technologies","Sonitrol","Sonnet Technologies","SonoSite","Sonoa Systems","Sonos","Sonotronic Nagel","Sonova","Sonova Consumer Hearing","Sontex","Sontheim Industrie Elektronik","Sony","Sony Computer Entertainment America","Sony Home Entertainment&Sound Products","Sony Imaging Products & Solutions","Sony Interactive Entertainment","Sony Video & Sound Products","Sophos","Soraa","Sorenson Communications","Soriya","Soronti","Sorter Sp. j. Konrad Grzeszczyk MichaA, Ziomek","Sotera Wireless","Sougou Keikaku Kougyou","Sound Devices","Sound ID","Sound Masking","Sound United","SoundBridge","SoundEar","SoundHawk","Soundcraft","Soundmatters","Soundmax Electronic","Source Chain","Source Photonics","Source Technologies","Sourcefire","SourcingOverseas","South African Broadcasting","SouthWing S.L","Southern Vision Systems","Southwest Microwave","Southwest Research Institute","Sow Cheng Technology","Soyal Technology","Soyo Group Soyo Com Tech","Space CyberLink","Space Dynamics Lab","Space Exploration Technologies","Space Monkey","Space Shuttle Hi-Tech","SpaceBridge Semiconductor","Spacelink","Spagat","Spans Logic","Spark","SparkLAN Communications","Sparnex n.v","Sparr Electronics","Spawn Labs","Spazio Italia","Speaker Electronic(Jiashan)","Speakercraft","Special Design Bureau for Seismic Instrumentation","Special Instrument Development","Speco Technologies","Spectra Technologies Holdings","Spectral Instruments","Spectralink","Spectrapoint Wireless","Spectronix","Spectrum Control","Spectrum Controls","Spectrum Digital","Spectrum Medical","Spectrum Signal Processing","Speed Dragon Multimedia","Speedcom Wireless","Speedytel technology","Sperian Protection Instrumentation","Sphairon Technologies","Spica international","SpiderCloud Wireless","Spinnaker Networks","Spire Payments","Spirent plc, Service Assurance Broadband","Splicecom","SpotCam","Spotify USA","Spreadtrum Communications (Shanghai)","Sprecher Automation","Sprocomm Technologies","Sputnik Engineering","Square","Square Route","Squarehead Technology","Squirrels Research Labs","Stable Imaging Solutions","Staccato Communications","Stage One International","Stage Tec Entwicklungsgesellschaft für professionelle Audiotechnik mbH","Stalmart Technology","Standar Telecom","Stanford Research Systems","Stanford University, OpenFlow Group","Stanley Black & Decker","Stanley Security Solutions","Stanton Magnetics","Star Communication Network Technology","Star Gate Technologies","Star Link Communication Pvt","Star Semiconductor","Star-Net","StarLeaf","StarTech.com","StarVedia Technology","Starboard Storage Systems","Starbridge Networks","Starcor Beijing","Starent Networks","Stargames","Starkey Labs","Starkoff","Starlight Marketing (H. K.)","Starlight Video","Starry","Startel","Stateless Networks","Static Systems Group","Steag ETA-Optik","SteeRetail","SteelSeries ApS","Steelcase","Steffes","Steinel","Steinsvik","Stella-Green","Stellcom","Step Ahead Innovations","Step forward Group","Stephen Technologies","Steplock Access","Stereotaxis","Sterlite Technologies","Stewart Audio","Stienen Group","Stilo","Stirling Energy Systems","Stoke","Stolinx","Stone Devices Sdn. Bhd","Stoneridge Electronics","Stonesoft","Stonestreet One","StorCase Technology","StorLink Semiconductors","StorSimple","Storage Appliance","Storage Apps","Storage Concepts","Storagedata","Store Electronic Systems","StoreAge Networking Technologies","Stormshield","Storwize","Stotz Feinmesstechnik","Strahlenschutz- Entwicklungs- und Ausruestungsgesellschaft mbH","Stralfors","Strata Worldwide","StrataLight Communications","Stratacache","Stratec Biomedical","Stratex Networks","Strato Rechenzentrum","Stratus Technologies","Strawberry Linux","Stream Labs","StreamCCTV","StreamLogic","StreamScale","StreamUnlimited Engineering","Streamit","Stretch","Strix Systems","Strong Technologies","Structab","Strukton Systems","Stryker","Stuart Manufacturing","Studer Professional Audio","Studio Technologies","Style Flying Technology","Sub10 Systems","Subeca","Subscriber Networks","Subtle Computing","Suga Electronics","Sullair","Sulzer Pump Solutions Finland","Sumavision Technologies","Sumitomo Electric Industries","Sumitomo Kizai","Sumitomo Metal Micro Devices","Summer Infant","Summit Data Communications","Summit Technology Group","Sumtel Communications","Sun Communications","Sun Conversion Technologies","Sun Cupid Technology (HK)","Sun Fountainhead USA","Sun Optronics","SunCorp Industrial","SunDroid Global","SunKwang Electronics","SunPower","SunReports","Sunbow Telecom","Sunell Electronics","Sunflex Europe","Sungil Telecom","Sungjin C&C","Sunhillo","Sunin Telecom","Sunitec Enterprise","Sunlit System Technology","Sunmyung Electronics","Sunnic Technology & Merchandise","Sunniwell Cyber Tech","Sunnovo International","Sunny Giken","Sunny Heart","Sunplus Technology","Sunray","Sunrex Technology","Sunrich Technology","Sunrise Technologies","Sunshine","Sunstar Communication Technology","Suntec Software(Shanghai)","Suntech International","Sunwave Communications","Sunways","Sunwoda Electronic","Super Micro Computer","Super Star Technology","SuperVision","SuperVision Solutions","Supercaller","Supercomputers and Neurocomputers Research Center","Supercomputing Systems","Superflow Technologies Group","Superior Modular Products","Supernet","Superwave Group","Suprema","Supreme Magic","Sur-Gard Security","Surf Communication Solutions","Surf Communications","Surfilter Network Technology","Surgient Networks","Surveillance Pro","Sustainable Energy Systems","Suteng Innovation Technology","Sutron","Suttle Apparatus","Sutus","Suunto","Suzhou Aquila Solutions","Suzhou Chi-tek information technology","Suzhou Denbom Electronic S&T","Suzhou HOTEK Video Technology","Suzhou HYC technology","Suzhou Hanming Technologies","Suzhou K-Hiragawa Electronic Technology","Suzhou Keda Technology","Suzhou Kuhan Information Technologies","Suzhou Mobydata Smart System","Suzhou NEW SEAUNION Video Technology","Suzhou NODKA Automation Technology","Suzhou Pairlink Network Technology","Suzhou PanKore Integrated Circuit Technology","Suzhou Retronic Interconnect Technologies","Suzhou SmartChip Semiconductor","Suzhou Torchstar Intelligent Technology","Suzhou Tremenet Communication Technology","Suzuken","Svenska Hardvarufabriken","Swaive","Swann communications","Swarco LEA d.o.o","Swe-Dish Satellite Systems","Swelaser","Sweroam","SwiftTest","Swirlnet","SwissQual License","Swissbit","Swisscom Energy Solutions","Swisscom Hospitality Services","Swissdis","Swissphone Telecom","Swissvoice","Switchgear and Instrumentation","Swyx Solutions","Sy.A.C","Syabas Technology (Amquest)","Syba Tech","Sycada","Sycamore Networks","Sychip","Syes","SymCom","Symanitron","Symantec","Symbolic IO","Symbotic","Symeo","Symetrix","Symmetricom","Symphox Information","Symstream Technology Group","Symwave","Symx Systems","SynCom Network","SynTrust Tech International","SynaXG Technologies Pte","SynapSense","Synapse","Synapse Product Development","Synapse Électronique","Synaptec","Synapticon","Synaptics","Syncbak","Synccom","Synchronous","Synchronous Communication","Synchrony","Synclayer","Syncmold Enterprise","Synectics Systems","Synelec Telecom Multimedia","Synerchip","Synergics Technologies","Synergy Lighting Controls","Synertau","Synology","Synoptics","Syntronic","Syphan Technologies","Sypixx Networks","Sypro Optics","Syracuse Research","Syrinx Industrial Electronics","Syrotech Networks","SysKonnect","SysMik GmbH Dresden","SysTec","Syscor Controls &amp; Automation","Syslane","Sysmaster","Sysmex","Sysnet Telematica","Sysorex Global Holdings","Systec","Systech Electronics","Systegra","System Base","System In Frontier","System Loco","System Sensor","System Talks","System and Chips","SystemGear","SystemK","SystemX","Systembase","Systeme Lauer","Systemhouse Solutions","Systemonic","Systems And Electronic Development FZCO","Systems Integration Solutions","Systems in Progress Holding","Systimax Solutions","Systrome Networks","Systronix","Syswan Technologies","Syszone","Sütron Electronic","T&A Mobile Phones","T&D","T&L Information","T&W Electronics","T&W Electronics (ShenZhen)","T&W Electronics(Shenzhen)","T-Mobile, USA","T-Platforms (Cyprus)","T.C. TECHNOLOGIES","T.D.I","T.E.M.A","T.M. Electronics","T.O.M TECHNOLOGY","T.S. MICROTECH","T.SQWARE","T3 Innovation","T3 Technology","T3PLUS NETWORKING","T:mi Ytti","TABUCHI ELECTRIC","TAC","TAC SYSTEMS","TACHIBANA TECTRON","TADIRAN COM","TADIRAN TELECOMMUNICATIONS","TADPOLE TECHNOLOGY","TAEJIN INFOTECH","TAG ELECTRONIC SYSTEMS","TAG Heuer","TAGATEC","TAI GUEN ENTERPRISE","TAICOM DATA SYSTEMS","TAIFATECH","TAIGUEN TECHNOLOGY (SHEN-ZHEN)","TAIHAN ELECTRIC WIRE","TAILYN TECHNOLOGIES","TAINET COMMUNICATION SYSTEM","TAISHIN","TAIWAN FIRST LINE ELEC","TAIWAN SHIN KONG SECURITY","TAIWAN TRADING CENTER DBA","TAIYO","TAIYO YUDEN","TAKAOKA ELECTRIC MFG","TAKAOKA TOKO","TAKT","TAKUMI JAPAN","TALARIS SYSTEMS","TALENT ELECTRIC","TALOS SYSTEM","TALX","TAMI Tech","TAMIO","TAMUZ Monitors","TANDBERG TELECOM","TANDBERG TELEVISION","TANGTOP TECHNOLOGY","TANITA","TAP.tv","TAQUA SYSTEMS","TAS TELEFONBAU A. SCHWABE GMBH & CO. KG","TASA International","TASCAN Systems","TASI","TASKING Labs","TATSUNO","TATSUTA SYSTEM ELECTRONICS","TATUNG","TATUNG Technology","TAZMO","TAZTAG","TB Group","TBS","TBT","TBTech","TC Communications","TC GROUP","TCL","TCL King Electrical Appliances (Huizhou)","TCL King Electrical Appliances(Huizhou)","TCL MOKA International","TCL Networks Equipment","TCL Technoly Electronics (Huizhou)","TCL Yuxin Zhixing Technology (Huizhou)","TCM Mobile","TCPlink","TCT mobile","TD Systems","TD Tech","TDA INDUSTRIA DE PRODUTOS","TDA Tech","TDC","TDK","TDK-Lambda","TDSi","TDT","TE Connectivity Limerick","TE Connectivity Sensor Solutions","TE Connectivity Touch Solutions","TEAC Australia","TEAC Corp. R& D","TEAL Electronics","TEAM ENGINEERS ADVANCE TECHNOLOGIES INDIA PVT","TEAM-R","TEAMCAST","TEB","TEC WizHome","TECC","TECHBOARD","TECHNART","TECHNICAL","TECHNICAL COMMUNICATIONS","TECHNICALLY ELITE CONCEPTS","TECHNO SCOPE","TECHNOBOX","TECHNOLID","TECHNOLOGIC SYSTEMS","TECHNOLOGIES LYRE","TECHNOLOGY ATLANTA","TECHNOLOGY CONCEPTS","TECHNOLOGY WORKS","TECHNOSOFT INTERNATIONAL","TECHNOVENTURE","TECHWARE SYSTEMS","TECLINK","TECMAR","TECNA","TECNETICS (PTY)","TECNO MOBILE","TECNOALARM","TECNOBIT","TECNOMEN","TECO INFORMATION SYSTEMS","TECO a.s","TECOM","TECSEN","TEIKOKU ELECTRIC MFG","TEIMA Audiotex S.L","TEJAS NETWORKS","TEK DIGITEL","TEK MICROSYSTEMS","TEKLOGIX","TEKNEMA","TEKNOR MICROSYSTEME","TEKO","TEKRAM TECHNOLOGY","TEKTELIC Communications","TEKTRONIX","TELCO systems, s.r.o","TELDAT","TELDAT Sp.J","TELDIX","TELEBIT","TELEBIT COMMUNICATIONS APS","TELECHIPS","TELECOM AUSTRALIA/CSSC","TELECOM DEVICE","TELECOMMUNICATIONS TECHNIQUES","TELECOMUNICATION TECHNOLOGIES","TELECON GALICIA","TELECSYS","TELEDATA NETWORKS","TELEFIELD","TELEM","TELEMANN","TELEMATICS CALABASAS INT'L","TELEMATICS INTERNATIONAL","TELEMECANIQUE ELECTRIQUE","TELENA","TELENET","TELENOT ELECTRONIC","TELEPROCESSING PRODUCTS","TELERAD","TELES","TELESCIENCES CO SYSTEMS","TELESIS TECHNOLOGIES","TELESTAR DIGITAL","TELESTREAM","TELESYNC","TELEVIDEO SYSTEMS","TELEXY","TELGEN","TELICA","TELINDUS DISTRIBUTION","TELKOM","TELLABS OPERATIONS","TELLESCOM INDUSTRIA E COMERCIO EM TELECOMUNICACAO","TELLUS TECHNOLOGY","TELMAT INFORMATIQUE","TELMAX COMMUNICATIONS","TELNET Redes Inteligentes","TELOCITY","TELOGY NETWORKS","TELRAD","TELSIS","TELSIST INDUSTRIA ELECTRONICA","TELSON ELECTRONICS","TELSPEC","TELSTRAT","TELTONIKA NETWORKS UAB","TELTREND","TELXON","TEM","TEM Mobile","TEMIC SDS","TEN Technology","TEN X TECHNOLOGY","TENNYSON TECHNOLOGIES","TENO NETWORK TECHNOLOGIES","TENOSYS","TENTEL COMTECH","TEPG-US","TERA MICROSYSTEMS","TERACOM TELEMATICA","TERAHOP PTE","TERAOKA WEIGH SYSTEM PTE","TERAON","TERASAKI ELECTRIC","TERATECH","TERMA ELEKTRONIK","TERUMO","TES ELECTRONIC SOLUTIONS","TESCOM","TEST & MEASUREMENT SYSTEMS","TEST SYSTEMS & SIMULATIONS","TESTO","TESTOP","TEXAS MEMORY SYSTEMS","TEXAS MICROSYSTEMS","TEXIO TECHNOLOGY","TF PAYMENT SERVICE","TFL LAN","TGC America","TGW Mechanics","THALES AVS France","THALES Elektronik Systeme","THAMWAY","THAT","THE 3DO","THE 41ST INSTITUTE OF CETC","THE BRANTLEY COILE","THE CLOUD","THE DROID WORKS","THE FURUKAWA ELECTRIC","THE GOODYEAR TIRE & RUBBER","THE INDUSTREE","THE LYNK","THE NTI GROUP","THE PANDA PROJECT","THE SAGE GROUP","THE TELECOMMUNICATION TECHNOLOGY COMMITTEE (TTC)","THE YEOLRIM","THERMO ELECTRON KARLSRUHE","THERMO FISHER SCIENTIFIC","THINKCAR TECH","THINKING TECHNOLOGY","THINLINX","THOMAS & BETTS","THOMAS-CONRAD","THOMSON CSF","THUB","THX","TIANJIN Golden Pentagon Electronics","TIANJIN YAAN TECHNOLOGY","TIARA NETWORKS","TIARA/ 10NET","TIBRO","TIDOMAT","TIERNAN COMMUNICATIONS","TIGAN","TII NETWORK TECHNOLOGIES","TIL Technologies","TIME INTERCONNECT","TIMEPLEX","TITAN ELECTRONICS","TITECH","TITENG","TITZE DATENTECHNIK","TIVA MICROCOMPUTER CORP. (TMC)","TIW SYSTEMS","TJK Tietolaite","TKH SECURITY,S.L.U","TKH Security","TKH Security Solutions USA","TKM","TKS (USA)","TL INDUSTRIES","TLS","TLab West Systems","TM-Research","TMC","TMCT","TMN Technologies Telecomunicacoes Ltda","TMRG","TMT","TMT&D","TMY","TNK","TNS","TOA","TOHKEN","TOHO Electronics","TOHOKU RICOH","TOKIMEC","TOKO ELECTRIC","TOKUDEN OHIZUMI SEISAKUSYO","TOKYO COSMOS ELECTRIC","TOKYO DENSHI SEKEI","TOKYO ELECTRIC","TOKYO ELECTRON DEVICE NAGASAKI","TOKYO RADAR","TOKYO SOKKI KENKYUJO","TOKYOSHUHA","TOLEDO DO BRASIL INDUSTRIA DE BALANCAS LTDA","TOLLGRADE COMMUNICATIONS","TOMEN Cyber-business Solutions","TOMEN ELECTRONICS","TOMIS Information & Telecom","TONGQING COMMUNICATION EQUIPMENT (SHENZHEN)","TONYANG NYLON","TOP EIGHT IND","TOP WING","TOP-ACCESS ELECTRONICS","TOPCON","TOPDON TECHNOLOGY","TOPIC SEMICONDUCTOR","TOPSSD","TOPVIEW OPTRONICS","TOPWARE INC. / GRAND COMPUTER","TOPWELL INTERNATIONAL HOLDINDS","TOPWELL INTERNATIONAL HOLDINGS","TORONTO MICROELECTRONICS","TORRENT NETWORKING TECHNOLOGIES","TORUS SYSTEMS","TOSHIBA","TOSHIBA CLIENT SOLUTIONS","TOSHIBA MITSUBISHI-ELECTRIC INDUSTRIAL SYSTEMS","TOSHIN ELECTRIC","TOTOLINK TECHNOLOGY INT‘L","TOUCHWAVE","TOWER TECH","TOWERCOM CO. INC. DBA PC HOUSE","TOWNET","TOYO DENKI SEIZO","TOYO ELECTRIC","TOYO MEDIC","TOYODA AUTOMATIC LOOM","TOYODA MACHINE WORKS","TOYOKEIKI","TOZO","TP Vision Belgium","TP Vision Belgium N.V. - innovation site Brugge","TP-LINK TECHNOLOGIES","TP-Link Systems","TPL SYSTEMES","TPS","TPS TELEPROCESSING SYS","TPV Audio and Visual Technology (Shenzhen)","TPV Display Technology (Xiamen)","TPV Display Technology(Xiamen)","TPVision Europe","TPine Technology","TQ - COMPONENTS","TRACE MOUNTAIN PRODUCTS","TRACEWELL SYSTEMS","TRADPOST (HK)","TRAK Microwave","TRANCELL SYSTEMS","TRANS ELECTRIC","TRANSACTION NETWORK","TRANSITIONS RESEARCH","TRANSMITTON","TRANSRADIO SenderSysteme Berlin","TRANSWARE","TRANSYS NETWORKS","TRANSYSTEM","TRANWO TECHNOLOGY","TRATON","TREMON ENTERPRISES","TRENDON TOUCH TECHNOLOGY","TRENDVIEW RECORDERS","TRENDnet","TRENTON TECHNOLOGY","TRG","TRI TERM","TRI-DATA","TRICORD SYSTEMS","TRIGEM COMPUTER","TRILOBIT LTDA","TRIMBLE EUROPE","TRIMM","TRINNOV AUDIO","TRINUS SYSTEMS","TRIO INFORMATION SYSTEMS","TRISON TECHNOLOGY","TRITEC ELECTRONIC","TRIUMPH-ADLER","TRIXELL","TRIZ Networks","TRL TECHNOLOGY","TRON LINK ELECTRONICS","TRONIX PRODUCT DEVELOPMENT","TRONTEQ Electronic","TRP Systems","TRUEN","TRUMPF Laser GmbH + Co. KG","TRUMPF Laser Marking Systems","TRUMPF Werkzeugmaschinen GmbH+Co.KG","TRUSTABLE TECHNOLOGY","TRW - SEDD/INP","TRnP KOREA","TRsystems","TSAT","TSB REAL TIME LOCATION SYSTEMS S.L","TSI","TSI Power","TSINGHUA NOVEL ELECTRONICS","TSL COMMUNICATIONS","TSL PPL","TSMART","TSST Global","TST Biometrics","TSUZUKI DENKI","TTC MARCONI s.r.o","TTC Next-generation Home Network System WG","TTE","TTE Germany","TTK","TTTech Auto","TTTech Computertechnik","TUBITAK MAM","TUBITAK UEKAE","TULIP COMPUTERS INTERNAT'L","TUNDO","TURBO COMMUNICATION","TURBONET COMMUNICATIONS","TURCK","TURNSTONE SYSTEMS","TUTANKHAMON ELECTRONICS","TV One","TV-NUMERIC","TV/COM INTERNATIONAL","TVIP","TVLogic","TVS ELECTRONICS","TVS REGZA","TVT","TVWorks","TWINHEAD","TWINLINX","TWO TECHNOLOGIES","TWPI","TXTR","TYAN COMPUTER","TYCO SUBMARINE SYSTEMS","TZero Technologies","TableTop Media (dba Ziosk)","Tableau","Tabor Electronics","Tachion Networks","Tachyon","Tachyon Networks","Taco","Tactel","Tactical Communications","Tactrix","Tadiran Microwave Networks","Tadiran Telecom Business Systems","Tadlys","Taekwang Industrial","Taelim Electronics","TagMaster","Tahoe","Tahoe Networks","TaiDoc Technology","TaiJin Metal","TaiXin Semiconductor","TaiYear Electronic Technology (Suzhou)","Taian Technology(Wuxi)","Taicang T&W Electronics","Taijin Media","Tailyn Communication","Taimag","Taishan Online Technology","Tait Electronics","Taiwan Carol Electronics","Taiwan Commate Computer","Taiwan Digital Streaming","Taiwan Jantek Electronics","Taiwan Secom","Taiwan Semiconductor","Taiwan Thick-Film Ind","Taiwan Video & Monitor","Taiwick","Taiyo Yuden","Takacom","Takagi Industrial","Takahata Electronics","Takahata Precision","Takamisawa Cybernetics","Takasago","Takaya","Takenaka Seisakusho","Talari Networks","Talaris (Sweden)","Talent Communication Networks","Taleo","Talk-A-Phone","TalkSwitch","Tall Maple Systems","Tallac Networks","Talon Communications","Tamagawa Seiki","Tamaggo","Tamron","Tamtron","Tamu Radiance","Tanaka S/S","Tandberg Data ASA","Tandberg Storage ASA","Tandem Computers","TangoWiFi.com","Tanisys Technology","Tantalus Systems","Tapwave","TaraCom Integrated Products","Tarallax Wireless","Tarana Wireless","Targa Systems","Targa Systems Div L-3 Communications","Targus US","Tariox","Tarmoc Network","Taseon","Tashang Semiconductor(Shanghai)","Tateyama System Laboratory","Tattile","Tdsoft Communication","Teak Technologies","Teal Drones","Team EPS","Team Group","Team Simoco","TeamF1 Networks Pvt","Tecan Systems","Tech4home, Lda","TechFaith Wireless Technology","TechNexion","TechSAT","TechTrex","TechVision Holding Internation","TechVoIP Sp z o.o","Techaya","Techcity Technology","Techfaithwireless Communication Technology","Techman Electronics (Changshu)","Techmation","Techmetro","TechniSat Digital GmbH Daun","Technica Engineering","Technical Consumer Products","Technical Marketing Research","Technical Research Design and Development","Technical Solutions","Technical Support","Technico Japan","Technicolor (China) Technology","Technicolor CH USA Inc for Telus","Technikum Joanneum","Technische Alternative","Technity Solutions","Techno Design","Techno Soft Systemnics","Techno Trade","Techno Valley","Techno-Holon","Techno-Innov","Techno-One","TechnoDigital Technologies","TechnoLand","Technoalpin","Technocom Communications Technology (pte)","Technodrive","Technol Seven","Technologie Optic.ca","Technology Advancement Group","Technology Innovation Institute","Technology Thesaurus","Technolution","Technomate","Technonia","Technovision","Technowave","Techroutes Network Pvt","Techsan Electronics","Techsphere","Techvision Intelligent Technology","Techway","Tecmobile (International)","Tecnova","Tecnovideo","Tecobest Technology","Tecon MT","TeconGroup","Tecore Networks","Tecton","Tecvan Informatica Ltda","Tedipay UK","Tegile Systems","Tehuti Networks","Tejas Networks India","Tek-Air Systems","TekTone Sound & Signal Mfg","Tekon-Automatics","Tekpea","Tekron International","Tektrap Systems","Tel Net","TelHi","Teladin","Telchemy","Telco Systems","TelcoBridges","Tele Power","Tele system communication","TeleAdapt","TeleComp R&D","TeleCruz Technology","TeleDream","TeleWell","Telebau","Telebyte","Telecard-Pribor","Telechips","Teleco","Telecom Design","Telecom FM","Telecom Infra Project","Telecom Technology","Telecommunications Industry Association TR-41 Committee","Telecor","Telecore","Telect","Teledex","Teledyne DALSA","Teledyne DALSA Professional Imaging","Teledyne LeCroy","Teledyne Technologies","Telefield","Telefin","Telefon-Gradnja d.o.o","Telefonbau Behnke","Teleforce","Telegartner Karl Gartner","Telegesis","Telegrafia a.s","Telekom Research and Development","Telelynx","Telematica Sistems Inteligente","Telemax","Telemonitor","Telemotive","Telena Communications","Telencomm","Telenet Systems P","Telenor Connect","Telenor Connexion","Telephonics","Teleplan Technology Services","Telepower Communication","Telesoft Technologies","Telesquare","Teleste","Telesynergy Research","Telesystem communications Pte","Teletics","Teletrak","Teletrol Systems","Teletronics International","Teletronics Technology","Televes","Televic N.V","Televideo","Teleview","Teleware Network Systems","Telewave","Telewise Communications","Telia","Telian","Telin Semiconductor (Wuhan)","Telink Micro","Telink Semiconductor (Shanghai)","Telink Semiconductor (Taipei)","Telink Semiconductor(Shanghai)","Telio Communications","Telit Communication","Telit Wireless Solutions","Telital R&D Denmark","Telkonet","Tellabs","Tellabs Enterprise","Tellabs Operations","Telldus Technologies","Tellink Sistemas de Telecomunicación S.L","Tellion","Tellium","Tellord","Tellus Group","Telsey","Telstra","Telsy Elettronica","Teltonika","Teltronic","Teltronic S.A.U","Teltronics","Telular","Telvent","Telways Communication","Tely Labs","Temia Vertriebs","Temic Automotive Philippines","Tempearl Industrial","Tempered Networks","Tempo Australia","Tempo Communications","Temposonics","TenX Networks","TenaFe","Tenda Technology","Tenda Technology Co.,Ltd.Dongguan branch","Tendril Networks","Tendyron","Tenebraex","Teneros","Tenet Networks Private","Tenlon Technology","Tenor Networks","Tenovis GmbH & Co KG","Tensorcom","Tenstorrent","Tensun Information Technology(Hangzhou)","Tentaculus","Tenyu Tech","Teo Technologies","Tera System","TeraBeam Internet Systems","TeraBurst Networks","TeraForce Technology","TeraGlobal Communications","TeraLogic","TeraMage Technologies","TeraNXT Global India Pvt","TeraRecon","Terabytes Server Storage Tech","Teracom","Teradata","Teradici","Teradon Industries","Teradyne","Teralink Communications","Teranetics","Terascala","Terasic Technologies","Teraspek Technologies","Teratronik elektronische systeme","Teraview Technology","Terawave Communications","Teraworks","Terberg besturingstechniek","Tercel technology","Terewave","Terex","Teridian Semiconductor","Terminales de Telecomunicacion Terrestre, S.L","Termtek Computer","Terra","TerraSem","TerraTec Electronic","Terrasat Communications","Terrier SC","Tervela","Tesco Controls","Teseq","Tesla","Tesorion Nederland","Tessolve Semiconductor Private","Test-Um","Testech","Testech Electronics Pte","Testop","TetraTec Instruments","Tevebox","Tews Datentechnik","Texa","Texas Digital Systems","Texas Instruments","Texcel Technology","Thai Habel Industrial","Thai Radio","Thales Alenia Space","Thales Avionics","Thales Avionics In-Flight Systems","Thales Canada","Thales Communications","Thales Contact Solutions","Thales UK","Thales e-Security","Thales e-Transactions","Thales-Panda Transportation System","Thalmic Labs","The Advantage Group","The Boeing","The Chamberlain Group","The Coca Cola","The Crypto Group","The Electric Controller and Manufacturing","The Goldman Sachs Group","The IMS","The Imaging Source Europe","The Kroger","The LEGO Group","The Linksys Group","The Morey","The Navvo Group","The Nielsen","The Now Factory","The Open Group","The Parvus","The Refined Industry","The Sapling","The Silk Technologies ILC","The Things Industries","The Tintometer","The Toro","The Wandsworth Group","The Warehouse","The Weather Channel","The Will-Burt","Theben","Thecus Technology","Theissen Training Systems","Theobroma Systems","There","Thermalogic","Thermo Fisher Scientific","Thermo Fisher Scientific Messtechnik","Thermo Fisher Scientific P.O.A","Thermo Ramsey Italia","ThermoQuest","ThinGlobal","ThinPAD Technology (Shenzhen)","Thincom Technology","Thing-talk Wireless Communication Technologies","ThingMagic","ThingsMatrix","ThinkEco","ThinkFlood","Thinkengine Networks","Thinkware","Third Millennium Systems","Third Reality","Thomas & Betts","Thomas Instrumentation","Thomas-Krenn","Thompson Aerospace","Thomson","Thomson Technology","Thomson Telecom Belgium","Thomson Video Networks","Thoratec / ITC","Thought Creator","Thrane & Thrane","Thread Technology","Throughtek","ThruVision","Thuh","Thunder River Technologies","Thundercomm Technology","ThyssenKrupp Elevator","ThyssenKrupp Elevators (Shanghai)","Thyssenkrupp Aufzugswerke","TiMetra Networks","TiVo","Tiandy Technologies","Tianjin 712 Communication Broadcasting","Tianjin Beebox Intelligent Technology","Tianjin Changdatong Technology","Tianjin China-Silicon Microelectronics","Tianjin Deviser Electronics Instrument","Tianjin Geneuo Technology","Tianjin Henxinhuifeng Technology","Tianjin HuaLai Technology","Tianjin Hualai Technology","Tianjin Huisun Technology","Tianjin Techua Technology","Tianjin Zanpu Technology","Tianyi Telecom Terminals","Tiba Medical","Tibbo Technology","Tibetsystem","Tiburon Networks","Ticom Geomatics","Tidel Engineering LP","Tiesse","Tietech","Tigaro Wireless","Tiger NetCom","Tigi","Tigo Energy","Tiinlab","Tilera","Tilgin","Time America","Time Domain","Time Management","Time-O-Matic","TimeIPS","TimeKeeping Systems","TimeStep","TimeWatch Infocom Pvt","Times N System","Timespace Technology","Timeware","Timing Applications","Tintri","Tiny Mesh","Tipping Point Technologies","Tiptel","Tiqit Computers","TireCheck","Tiscali UK","Titan DataCenters France","Titan Electronics","Titan Pet Products","Titan Products","Titan Wireless","Tivella","Tixi.Com","ToGoldenNet Technology","Toast","Tobii Technology","Todaair Electronic","Togami Electric Mfg","Toho Technology","Tokheim","Toko","Tokyo Aircaft Instrument","Tokyo Boeki Medisys","Tokyo Electron Device","Tokyo Electron Miyagi","Tokyo Sokushin","TollBridge Technologies","Tom Communication Industrial","TomTom","TomTom International","TomTom Software","Tommy Technologies","Tomra Systems ASA","Tonal","Tonalite Holding","Tonfunk Systementwicklung und Service","Tongfang Computer","Tongfang Shenzhen Cloudcomputing Technology","Tonic DVB Marketing","Tonly Technology","Tonze Technology","Tools for Humanity","Top Global Technology","Top Layer Networks","Top Victory Electronics (Taiwan)","Top-Unum Electronics","TopControl","Topaz","Topcall International","Topcon Positioning Systems","Topdata Sistemas de Automacao Ltda","Topfield","Topicon HK Lmd","Toplink C&C","Topspin Communications","Toptrend-Meta Information (ShenZhen)","Topview Technology","Topwise 3G Communication","Toradex","Toray Engineering D Solutions","Torian Wireless","Torrey Pines Logic","Toshiba","Toshiba Global Commerce Solutions","Toshiba Samsung Storage Technolgoy Korea","Toshiba TEC","Toshiba Teli","Toshiba Toko Meter Systems","Toshiba Visual Solutions","Tosibox","Total Aviation Solutions","Total Impact","Total Phase","Total Walther","Total Wireless Technologies Pte","Totsu Engineering","Tottori SANYO Electric","Totus Solutions","Touch Networks","TouchStar Technologies","Touchstar ATC","Touchtunes Music","Towerstream Corpration","Toy's Myth","Toyo Electronics","Toyo Seisakusho Kaisha","Toyo-Linx","Toyokeiki","Toyoshima Electric Technoeogy(Suzhou)","Toyota Technical Development","Toyou Feiji Electronics","Tozed Kangwei Tech","Tpack","Trace Live Network","TrackNet","Trackflow","Tracklab","Trackunit ApS","Trade FIDES, a.s","Tradit","Trafag","TrafficCast International","TrafficSim","Traficon N.V","Trajet","Traka","Trakm8","Trane","Trane Technologies","Trango Systems","Trans New Technology","TransCore","TransMedia Communications","TransPacket","Transaccess","Transact Campus","Transact Technologies","Transbit Sp. z o.o","Transceiving System Technology","Transcend Communication Beijing","Transcend Information","Transcon Electronic Systems, spol. s r. o","Transics","Transistor Devices","Translogic","Transmeta","Transmode Systems","Transtech Networks","Tranzas","Trapeze Networks","Tratec Telecom","Travelping","Traverse Technologies Australia","Traxit Technology","Trebing & Himstedt Prozeßautomation GmbH & Co. KG","Treehouse Labs","Treetech Sistemas Digitais","Treeview","Trei technics","Trek Diagnostics","Trek Technology (S) Pte","TrekStor","Trellis Photonics","TrellisWare Technologies","Tremol","Trend Communications","Trend Electronics","TrendPoint Systems","Trendsetter Medical","Treon","Trevil","Trex Enterprises","Trex Network","Tri plus grupa d.o.o","Tri-M Engineering / Nupak Dev","Tri-M Technologies (s)","Tri-Sen Systems","Tri-Systems","Tri-Tech Manufacturing","TriBeam Technologies","TriEMS Research Lab","TriState","Triacta Power Technologies","Triangle Research Int'l Pte","Tributary Systems","Tricascade","Trident IoT","Trident Microsystems","Trident Tek","Tridium","Tridonic GmbH & Co KG","Trig Avionics","Trilithic","Trilliant","Trilogy Communications","Trimax Wireless","Trimble","Trinity Security Systems","Trio Datacom","Trio Motion Technology","Triple Domain Vision","Triple EYE","Triple Play Technologies","Tripp Lite","Tripwire","Triteka","Triton Electronic Systems","Triton Systems of Delaware","Tritonwave","Trix Tecnologia Ltda","Triz Communications","Troika Networks","Tropic Networks","True Technologies","Truebeyond","Truesell","Trump","Trumpf Hüttinger","TrunkNet","Trusonus","Trust International","Trust Power","Trutzschler GmbH & Co. KG","Trymus","Trópico Sistemas e Telecomunicações da Amazônia LTDA","Tsann Kuen China (Shanghai)Enterprise Co., Ltd. IT Group","Tsinghua Bitway","Tsinghua Tongfang Legend Silicon Tech","Tsinghua Unisplendour","Tsingtong Technologies","Tsubata Engineering Co.,Ltd. (Head Office)","Tsuken Electric Ind","Tsurusaki Sealand Transportation","Tube investments of India","Tucson Embedded Systems","Tunai Creative","Tundra Semiconductor","Tunstall Healthcare","Tunstall Nordic","TurControlSystme","Turbo Networks","TurboChef Technologies","TurboComm Tech","TurboWave","Turbostor","Turbulence Design","Turin Networks","Turkcell Teknoloji","Turtle Industry","Tuttnaer","Tutus Data","Tuya Smart","Twig Com","TwinHan Technology","TwinMOS Technologies","Twinhead International","Tyan Computer","Tyco Electronics AMP","Tyco Telecommunications","TydenBrooks","Tymphany Acoustic Technology (Huizhou)","Tymphany HK","Tzukuri","U & B tech","U Tek","U&U ENGINEERING","U-MEDIA Communications","U-Raku","U-WAY","U.D.Electronic","U.I. Lapp","U.S. ROBOTICS","U.S. Robotics","U2S","U4EA Technologies","UAB Selteka","UAB TELTONIKA NETWORKS","UAB Teltonika Telematics","UBI&MOBI","UBITREX","UBIVELOX","UBSTORAGE","UCAMP","UCI","UCZOON Technology","UCloud Technology","UDC RESEARCH","UDISENSE DBA NANIT","UDTech Japan","UEC COMMERCIAL","UEI Electronics Private","UGENE SOLUTION","UGame Technology","UHD-Elektronik","UHS Systems","UHTEK","UK Grid Solutions","UKG","ULAN","ULTIMATE Europe Transportation Equipment","ULTIMATE TECHNOLOGY","ULTIMEDIA","ULTRA-X ASIA PACIFIC","ULTRAK","ULVAC","UMAX DATA SYSTEMS","UMB Communications","UNATECH","UNEEVIU TECHNOLOGIES INDIA PRIVATE","UNEX TECHNOLOGY","UNGERMANN-BASS","UNIBRAIN","UNIC Memory Technology","UNICARD","UNICOMPUTER","UNICORN COMPUTER","UNIDEN","UNIDIS","UNIFAT TECHNOLOGY","UNIGRAF","UNIGRAND","UNIK C&C","UNIMICRO SYSTEMS","UNIMO TECHNOLOGY","UNINET","UNION","UNION CHIP TECHNOLOGY","UNION MAN TECHNOLOGY","UNIONMAN TECHNOLOGY","UNIPOINT","UNIPULSE","UNIQA","UNIQUE SYSTEMS","UNISEM","UNISEM (M) BERHAD","UNISPHERE SOLUTIONS","UNISYS","UNIT-EM","UNITEC","UNITED BARCODE INDUSTRIES","UNITED NETWORKS","UNITEK Electronics","UNIVATION","UNIVERSAL AVIONICS","UNIVERSAL DATA SYSTEMS","UNIVERSAL DE DESARROLLOS ELECTRÓNICOS","UNIVERSAL MICROELECTRONICS","UNIVEX MICROTECHNOLOGY","UNIWAY INFOCOM PVT","UNO System","UNOWHY","UPNOD","UPVEL","UPWIS","UQUEST","URIEL SYSTEMS","URMET TLC","URYU SEISAKU","URadio Systems","US ARMY ELECTRONIC","US Beverage Net","US Digital Television","USA 111","USAG","USC","USC DigiArk","USYS","UTC CCS","UTEK TECHNOLOGY (SHENZHEN)","UTILICOM","UTSTARCOM","UTStarcom","UTStarcom (China)","UTT","UTT Technologies","UTran Technology","UUNET TECHNOLOGIES","UVT Unternehmensberatung fur Verkehr und Technik","UbONE","Ubee Interactive","UbeeAirWalk","Ubicod","Ubicquia","Ubihere","Ubiik","Ubinetics","Ubiqam","Ubiqcom India Pvt","Ubiquam","Ubiquiti","Ubiquitous Communication","Ubiquitous Computing Technology","Ubiquitous Internet Telecom","Ubiquoss","Ubisense","Ubistar","Ubixon","Ubizcore","Ubyon","Udino","Ueda Japan Radio","Ufine Technologies","Ufispace","Ugreen Group","Ulak Communications","Ulrich Lippert GmbH & Co KG","Ulterius Technologies","Ultimaker","Ultra Electronics - TCS (Tactical Communication Systems)","Ultra Electronics Command & Control Systems","Ultra Electronics Electrics","Ultra Electronics Sonar System Division","Ultra Stereo Labs","UltraClenz","Ultracker Technology","Ultratec","Ultratronik","Umeox Innovations","Umezawa Musen Denki","Umpi","Uncord Technologies Private","Unetconvergence","Unglaube Identech","Uni-Link Technology","Uni-v","UniComm","UniControls a.s","UniData Communication Systems","UniPrint","Uniband Electronic","Unication Group","Unicess Network","Uniclass Technology","Unico","Unicoi Systems","Unicom Automation","Unicom Vsens Telecommunications","Unicore communication","Unified Display Interface SIG","Unified Packet Systems Crop","Unifiedgateways India Private","Uniform Industrial","Unify Networks","Unify Software and Solutions GmbH & Co. KG","Unigen","Unigen DataStorage","Unikey Technologies","Unilever R&D","Uniloc USA","Union Business Machines","Union Image","Union Pacific Railroad","Unipattern","Uniphone","Uniphone Telecommunication","Uniqoteq","Unis Flash Memory Technology(Chengdu)","Unisyue Technologies Co;","Unitech electronics","United Automotive Electronic Systems","United Electronic Industries, Inc. (EUI)","United Fiber Optic Communication","United Information Technology","United Integrated Services Co., Led","United Internetworks","United Memory Technology (Jiangsu)","United Technologists Europe","United Telecoms","Unitend Technologies","Unitron","Unitronics","Universal ABIT","Universal Access Technology","Universal Audio","Universal Biosensors","Universal Control Solution","Universal Devices","Universal Electric","Universal Electronics","Universal Flow Monitors","Universal Global Scientific Industrial","Universal Instruments","Universal Laser Systems","Universal Media Corporation /Slovakia/ s.r.o","Universal Remote Control","Universal Switching","Universal Talkware","Universal Telecom S/A","Universal Tiancheng Technology (Beijing)","University of California, Berkeley","University of FUKUI","University of Michigan","University of Oklahoma","Uniwell","Uniwide Technologies","Uniwill Computer","Unixtar Technology","Unizone Technologies","Unmonday","Up-Today Industrial","UpdateLogic","Upos System sp. z o.o","Upponetti","Uptime Devices","Uptmate Technology","Uriel Technologies SIA","Uriver","Urmet","Uros","UserGate","Utility","Utillink","Uwe Disch","Uwin Technologies","Uzushio Electric","V Center Technologies","V One Multimedia Pte","V Technology","V V S","V&G Information System","V-BITS","V-Show Technology (China)","V-ZUG","V. Stonkaus firma Kodinis Raktas","V.D.S. Video Display Systems","V.I COMPUTER","V.P.S. Thai","V.T. Telematica","V2 TECHNOLOGY","V2COM PARTICIPACOES","VAC","VADEM","VAHLE Automation","VAIO","VALCOM","VALID NETWORKS","VANGUARD SECURITY ENGINEERING","VANLINK COMMUNICATION TECHNOLOGY RESEARCH INSTITUTE","VARI-LITE","VARIAN","VARITYPER","VAST Data","VCON TELECOMMUNICATION","VCS Video Communication Systems","VDA Group","VDG-Security","VDII Innovation","VDS Vosskuhler","VDSL Systems","VEB KOMBINAT ROBOTRON","VECOS Europe","VECOW","VECTOR SP. Z O.O","VEEDIMS","VEGA GRIESHABER KG","VELUX","VENTURE MANUFACTURING (SINGAPORE)","VEO-LABS","VERIS INDUSTRIES","VERITAS SOFTWARE","VERSALYNX","VERSANET COMMUNICATIONS","VERTU INTERNATIONAL","VERYTECH","VETRONIX","VG Controls","VG LABORATORY SYSTEMS","VIA Networking Technologies","VIA TECHNOLOGIES","VIA Technologies","VIANET TECHNOLOGIES","VIASAT","VIASYS Healthcare","VIBICOM COMMUNICATIONS","VICKERS ELECTRONICS SYSTEMS","VICOM SYSTEMS","VICTOR COMPANY OF JAPAN","VICTRON","VIDECOM","VIDEO LOTTERY TECHNOLOGIES","VIDEO SYSTEMS","VIDEO TECHNOLOGY COMPUTERS","VIDEOCON","VIDEOJET SYSTEMS","VIDEOR E. Hartig","VIDEOTRON","VIDEX","VIENNA SYSTEMS","VIETNAM POST AND TELECOMMUNICATION INDUSTRY TECHNOLOGY JOIN STOCK","VIETNAM POST AND TELECOMMUNICATION INDUSTRY TECHNOLOGY JOINT STOCK","VIEVU","VIG","VIGO System","VIKING Modular Solutions","VILLAGE TRONIC ENTWICKLUNG","VILLBAU","VINA TECHNOLOGIES","VINGROUP JOINT STOCK","VIOLET AUDIO PTE","VIPA","VIPAR","VIRTUAL ACCESS","VISION NETWARE","VISION PRODUCTS","VISIONCOMM","VISIONEE","VISIONETICS INTERNATIONAL","VISIONITE","VISIOWAVE","VISTA CONTROLS","VISUAL TECHNOLOGY","VITA","VITACOM","VITALINK COMMUNICATIONS","VITANA","VITEC","VITSMO","VIVATEL","VIVAVIS","VIVE Synergies","VIVIBIT","VIVID TECHNOLOGY PTE","VIXTEL TECHNOLOGIES LIMTED","VIZEO","VK","VLSI TECHNOLOGY","VME MICROSYSTEMS INTERNATIONAL","VMETRO","VMX","VMware","VNL Europe","VNPT TECHNOLOGY","VOCAL DATA","VOELKER TECHNOLOGIES","VOGTEC(H.K.)","VOICEBOARD","VOIM","VOISMART","VOIX","VOLAMP","VOLANS","VOLTRONIC POWER TECHNOLOGY(SHENZHEN)","VORAX","VORMETRIC","VOSSWINKEL F.U","VPI Engineering","VPNet","VR","VRmagic","VS Industry Berhad","VS Vision Systems","VSE valencia smart energy","VSK ELECTRONICS","VSN Systemen","VSOLUTION TELECOMMUNICATION TECHNOLOGY","VSOONTECH ELECTRONICS","VSS Monitoring","VSSL","VSST","VST TECHNOLOGIES","VT Miltope","VTA TECHNOLOGIES","VTC Electronics","VTC Telecommunications","VTECH TELECOMMUNICATIONS","VTI Instruments","VTION INFORMATION TECHNOLOGY (FUJIAN)","VTLinx Multimedia Systems","VTS","VTech Communications","VTech Electronics","VTech Technology","VTech Telecommunications","VVDN Technologies Pvt","VVOND","VXL INSTRUMENTS","VXL eTech Pvt","VXi","Vachen","Vacon","VadaTech","Vadaro Pte","Vaddio","Vaillant","Valcretec","Valemount Networks","Valence Semiconductor","ValenceTech","Valenco","Valens Semiconductor","Valentine Research","Valeo Auto- Electric Hungary","Valeo Detection Systems","Valeo Interior Controls (Shenzhen)","Valeo Schalter und Sensoren","Valeo Telematik und Akustik","Valeo VECS","Valeo Vision Systems","Valere Power","Valiant Communications","Validus Technologies","Valink","Valley Technologies","Vallox","Valmet Automation","Valo","Valox Systems","Valuable Techologies","Value Electronics","Value Platforms","ValueHD","ValuePoint Networks","Valueplus","Valve","Vamp","Van Breda","Vanderbilt International (SWE)","Vanderlande APC","Vanguard Networks Solutions","Vansco Electronics","Vantage Controls","Vantanol Industrial","Vantiva - Connected Home","Vantiva Connected Home - Home Networks","Vantiva Connected Home - Orange Belgium","Vantiva Connected Home - Subcomponents","Vantiva Connected Home - Technologies Telco","Vantiva Technologies Belgium","Vantiva USA","Vanu","Vaone","Vapor Stone Rail Systems","Varex Imaging","Varex Imaging Deutschland","Varikorea","Variscite","Vativ Technologies","VaultStor","Vavic Network Technology","Vbrick Systems","Vcomms Connect","Vecima Networks","Vector Informatik","Vector Technology","Vectron Systems","Veea","Veethree Electronics And Marine","Velankani Electronics Pvt","Velex","Vello Systems","VeloCloud Networks","Velocity Semiconductor","Velocytech","Velocytech Aps","Velodyne","Velorum","Vence","Vencer","Venergy","Venetex","Venntis","Venstar","Ventia Utility Services","Ventilation Control","Vention","Ventus Networks","Veo","VerScient","Verana Networks","Verascape","Verathon","Veratron","Verge.io","VeriWave","Verifi","Verifone","Verilink","Verint Loronix Video Solutions","Verint Systems","Verismo Networks","Veristar","Veritech Electronics","Verity Instruments","Verizon","Verizon Business","Verizon Connect","Verizon Telematics","Verkada","Verkerk Service Systemen","Vernier Networks","Veroguard Systems","Veros Systems","Vers","Versa Networks","Versa Technology","VersaLogic","Versamed","Versuni","Vertex Link","Vertex Standard LMR","Vertex Wireless","Vertical Communications","Verto Medical Solutions","Vertu","Vestac","Vestel Elektronik San ve Tic. A.S","Vexata","ViPowER","ViTrox Technologies Sdn. Bhd","ViVOtech","ViXS Systems","ViaClix","ViaGate Technologies","ViaLogy","ViaVideo Communications","Viaanix","Viaas","Viableware","Vialis","Vialta","Viasat Group","Vibration Research","Vibration Technology","Vibro-Meter","Vichel","Vicon Industries","Viconics Electronics","Vicoretek (Nanjing)","Vicos","Victory Concept Electronics","Vida Design","Vida Resources Lte","VidaBox","VideoHome Technology","VideoServer","Videofon MV","Videoframe Systems","Videology Imaging Solutions","Videon Central","Videoswitch","Videotec","Videotek","Vidicode Datacommunicatie","Vidient Systems","Vidisco","Viditec","Vieo","Viessmann Elektronik","Viettel Group","ViewSonic","ViewSonic Mobile China","ViewTel","Viewcooper","Vieworks","Viewtran Technology","Vifa Denmark","VigTech Labs","Vigil Health Solutions","Viking Design Technology","Viking Electronics","Village Networks, Inc. (VNI)","Villiger Security Solutions","Viltechmeda UAB","Vimar","Vimicro","Vimtron Electronics","Vinci Labs","Vinci Systems","Vindicator Technologies","Vine Telecom","VineSys Technology","Viogem","Violin Technologies","Viprinet","Viptela","Virbiage","Virditech","Virgilant Technologies","Virident Systems","Virtium","Virtual Computer","Virtual Conexions","Virtual Electric","Virtual Instruments","Virtualtek","Virtuozzo International","VisSim","Viscount Systems","Viseon","Vishal Telecommunications Pvt","Visicom","Visimetrics (UK)","Vision Components","Vision Information & Communications","Vision Research","Vision Valley FZ","VisionGlobal Network","VisionTek","VisionVera International","Visionary Solutions","Visioneered Image Systems","Visioneering Systems","Visionhitech","Visionics","Visionscape","Visiontec da Amazônia Ltda","Visonic Technologies 1993","Vispiron Rotec","Vista Control Systems","Vista Imaging","Visteon","Visteon Portuguesa","Visualedge Technology","Visualgate Systems","Vital Connect","Vital link vietnam","VitalCom","VitalPoint","VitalThings","Vitalacy","Vitality","Vitals System","Vitec Group, Camera Dynamics","Vitec System Engineering","Vitek Industrial Video Products","Vitelcom Mobile Technology","Vitelec","Vitesse Semiconductor","Vity","Vivaas Technology","Vivace Networks","Vivago","Vivalnk","Vivato Technologies","Viveris Technologies","VividLogic","Vivint","Vivint Smart Home","Vivint Wireless","Vivity","Vivo International","Vivonic","Vivotek","Vivox","Viwone","Vixen","Vizimax","Vizio","Vizmonet Pte","Vlatacom","Vocera Communications","Vocollect","Vodafone Automotive","Vodafone Italia","Vodafone Omnitel","Vodafone Omnitel N.V","Vodafone UK","Vodia Networks","Vodtel Communications","Vogl Electronic","Voipac s.r.o","Voippartners","Vola Networks","Volacomm","Volex","Volkswagen Group of America","Volktek","Vollmer Werke","Vololink","VoltServer","Volta Networks","Voltaire","Volterra","Vorne Industries","Vorteks ED","Vossloh-Schwabe Deutschland","VostroNet","Votronic","Voxent Systems","Voxpath Networks","Voxtel","Voxtronic Austria","Voyant International","Voyetra Turtle Beach","Vrcom","Vsecure 2000","Vtech Engineering","Vtech Engineering Canada","Vtech Innovation LP dba Advanced American Telephones","Vtera Technology","Vubiq Networks","Vulcan Portals","Vuppalamritha Magnetic Components","VusionGroup","Vutility","Vutlan sro","Vutrix Technologies","Vuzix","Vuzix / Lenovo","W & D TECHNOLOGY","W&G SPECIAL PRODUCTS","W&W Communications","W-IE-NE-R Plein & Baus","W-LINX TECHNOLOGY","W-Link Systems","W. L. Gore & Associates","W2 Networks","WAAV","WABTEC Transit Division","WAC Lighting","WACOM","WAFA TECHNOLOGIES","WAGO Kontakttechnik","WAKEFERN FOOD","WALT DISNEY IMAGINEERING","WAMA Technology","WANDEL AND GOLTERMANN","WANG LABORATORIES","WANSHIH ELECTRONIC","WANY","WAREMA Renkhoff SE","WASKO","WATERS DIV. OF MILLIPORE","WATERWORLD Technology","WAVE","WAVELINK","WAVENET INTERNATIONAL","WAVERIDER COMMUNICATIONS (CANADA)","WAVETEL TECHNOLOGY","WAVTrace","WAXESS USA","WB Electronics","WB Electronics Sp. z o.o","WBS Technology","WEARNES AUTOMATION PTE","WEATHERNEWS","WEBER Schraubautomaten","WEBGATE","WEBGEAR","WEBIO International","WEBSTER COMPUTER","WEBTRONICS","WEG","WEIFANG GOERTEK ELECTRONICS","WELL Communication","WELLTRONIX","WEM Technology","WEPIO","WEST AUSTRALIAN DEPARTMENT","WEST EGG SYSTEMS","WEST END SYSTEMS","WESTCOAST TECHNOLOGY","WESTERN DIGITAL","WESTPORT RESEARCH ASSOCIATES","WESTUNITIS","WEY Technology","WFE TECHNOLOGY","WHDI","WHI KONSULT","WHISTLE COMMUNICATIONS","WHITE HORSE INDUSTRIAL","WHITECHAPEL COMPUTER WORKS","WHITECROSS SYSTEMS","WHITETREE NETWORK","WI-BIZ","WIBRAIN","WIDE","WIESEMANN & THEIS","WIKO Terminal Technology (Dongguan)","WILLIAMS COMMUNICATIONS GROUP","WILLNET","WILLOWBROOK TECHNOLOGIES","WILO SE","WILOGY","WILTRON","WIN Enterprises","WIN TECHNOLOGIES","WINBOND ELECTRONICS","WINCOMM","WIND RIVER SYSTEMS","WINDATA","WINFIRM TECHNOLOGY","WING SING ELECTRONICS HONG KONG","WINSTAR Display","WINSYSTEMS","WINTECH AUTOMATION","WINTRISS ENGINEERING","WIO Manufacturing HK","WIPLUG","WIPRO INFOTECH","WIRECOM Technologies","WIRELESS DATA GROUP MOTOROLA","WIRELESS MATRIX","WIRELESS TECHNOLOGY","WIRELESS-TEK TECHNOLOGY","WIS Communications","WISCLOUD","WISCOM SYSTEM","WISCORE","WISDM","WISDRI (wuhan) Automation","WISEWARE, Lda","WISI","WISOL","WIT","WITCOM","WITHUS PLANET","WITTENSTEIN","WIZITDONGDO","WJ Communications","WKK TECHNOLOGY","WM-DATA MINFO","WMS INDUSTRIES","WNC","WNI Resources","WOM Engineering","WONWOO Engineering","WOO Sports","WOOJU COMMUNICATIONS","WOORI ELEC","WOORI SYSTEMS","WOORISYSTEMS","WORKBIT","WORKLINK INNOVATIONS","WORLD MEDIA AND TECHNOLOGY","WORLDSAT - Texas de France","WOXTER TECHNOLOGY","WPS Parking Systems","WSH","WTSS","WUXI FUNIDE DIGITAL","WUXI NEIHUA NETWORK TECHNOLOGY","WUXI SKY CHIP INTERCONNECTION TECHNOLOGY","WYLE","WYLE ELECTRONICS","WYMA Tecnologia","WYPLAY","WYSE TECHNOLOGY","Wachendorff Automation GmbH & CO.KG","Wacom","Wahoo Fitness","Walchem","Waldo Networks","WalkAbout Computers","Wally","Wallys Communications Teachnologies","Walnut Media Network","Walter Kidde Portable Equipment","Wamin Optocomm Mfg","Wanan Hongsheng Electronic","Wanbang Digital Energy","Wanjiaan Interconnected Technology","Wanlida Group","Wanzl Metallwarenfabrik","Wapice","Warp9 Tech Design","Wartsila Finland","Wasabi Systems","Wasion Group","Wasp artificial intelligence(Shenzhen)","Wata Electronics","Watanabe Electric Industry","WatchGuard Technologies","WatchGuard Video","Watchnet DVR","Water-i.d","WaterFurnace International","Watertek","Watlow","Wattty","Wattwatchers Pty Ld","WavTek Technologies","Wavarts Technologies","Wave Electronics","Wave7 Optics","WaveAccess","WaveGo Tech","WaveIP","WaveLynx Technologies","WaveSmith Networks","WaveSpan","WaveSplitter Technologies","WaveStorm","Wavecom Asia Pacific","Wavefront Semiconductor","Wavelab Global","Waveplus Technology","Waves Audio","Wavesat","Wavesight","Wavetrend Technologies (Pty)","Wavetronix","WayTech Development","WayTools","Wayfarer Transit Systems","Wayport","Wayties","Wächter GmbH Sicherheitssysteme","We","WeLink Communications","WeLink Solutions","WeTelecom","Wearable","Wearhaus","Wearsafe Labs","Web Sensing","WebSilicon","WebSonic","WebSprint Communications","WebTV NETWORKS","WebWayOne","Webasto SE","Weber-Stephen Products","Webpro Technologies","Webpro Vision Technology","Webtech Wireless","Webyn","Wegener Communications","Weibel Scientific","Weidmüller Interface GmbH & Co. KG","Weidu Technology (Beijing)","Weigao Nikkiso(Weihai)Dialysis Equipment","Weightech Com. Imp. Exp. Equip. Pesagem Ltda","Weinmann Geräte für Medizin GmbH + Co. KG","Weinschel","Weintek Labs","Weinzierl Engineering","Weiser","Weiss Engineering","Welcat","Welch Allyn","Weldex","Welding Technology","Welgate","Welkin Sciences","Wellav Technologies","Wellcore","Wellspring Wireless","Welltech Computer","Welltrans O&E Technology","Wellysis","Welotec","Weltec Enterprise","Wenzhou Kunmei Communication Technology","Werbeagentur Jürgen Siebert","Werma Signaltechnik GmbH & Co. KG","Wescon Technology","Wesemann Elektrotechniek","Wesine (Wuhan) Technology","West Instruments","Westala Technologies","Westcontrol","Westech Korea","Westell Technologies","Westermo Neratec","Westermo Network Technologies","Western DataCom","Western Digital Technologies","Western Engravers Supply","Western Multiplex","Western Telematic","Westerstrand Urfabrik","Westinghouse Digital","Westinghouse Electric","Westport Technologies","Westwave Communications","Wesung TNC","Wetek","Wha Yu Industrial","Whaley Technology","WhereNet","WhereWhen","Whirlpool","Whisker Labs - Ting","Whistle Labs","White Rock Networks","White Rodgers Division","White Sky","Whitesky Science & Technology","WhizNets","Wi-Fi Alliance","Wi-Gear","Wi-Links","Wi-NEXT","Wi-SUN Alliance","Wi2Wi","Wi3","WiBotic","WiChorus","WiDeFi","WiFiSONG","WiFiSong","WiLife","WiMate Technologies","WiMedia Alliance","WiQuest Communications","WiSA Technologies","WiSE Communications","WiSilica","WiWide","WiZ","WiZ Connected Lighting","WiZ IoT","Wiatec International","Widax","Widcomm","WideRay","WideView","Wideband Labs","Wideband Semiconductor","Wideful","Widex","Wieland Electric","Wieson Technologies","Wifi-soft","Wifly-City System","WigWag","Wiio","Wild Lab","Wildeboer Bauteile","Wildix","Wildlife Acoustics","Wilhelm Rutenbeck GmbH&Co.KG","Wiline Networks","Wilk Elektronik","Will i-tech","Willow Garage","Willowglen Services Pte","Wilocity","Win Leader","Win4NET","WinCom Systems","WinNet Metropolitan Communications Systems","WinNet Solutions","Winbest Technology CO,LT","Wincal Technology","Winchester Systems","Windigo Systems","WindowMaster","Winduskorea","Winegard","Wingtech Group","Wingtech Group (HongKong)","Wingtech Group (HongKong）","Wingtech Mobile Communications","Winix","Wink communication technology","Winland Electronics","Winmate Communication","Winners Electronics","Winnertec System","Winnow Networks","Winpresa Building Automation Technologies","Winstars Technology","Wintec Industries","Wintecronics","Winterhalter Gastronom","Wintop","Winward Industrial","Winy Technology","Wipotec","WireStar Networks","WiredIQ","Wireless CCTV","Wireless Cables","Wireless Glue Networks","Wireless Measurement","Wireless Networks","Wireless OnLine","Wireless Seismic","Wireless Standard Extensions","Wireless Technologies","Wireless Technology","Wireless Tsukamoto","WirelessMobility Engineering Centre SDN. BHD","WirelessWERX","Wirelink","Wiremold","Wirepas","Wise & Blue","WiseSec L.t.d","Wiseblue Technology","Wisol","Wistron","Wistron (ChongQing)","Wistron INFOCOMM (Zhongshan)","Wistron InfoComm(Chongqing)","Wistron InfoComm(Kunshan)","Wistron Infocomm (Zhongshan)","Wistron InforComm (Zhongshan)","Wistron Mexico SA de CV","Wistron Service(Kunshan)","Witelcom","With-Net","Withings","Withrobot","Witron Technology","Wiwynn Corporation Tainan Branch","Wiwynn Technology Service Malaysia","WizLAN","Wizardlab","Wizlogics","Wiznet","Wizyoung Tech","Woan Technology (Shenzhen)","Wohler Technologies","WolfVision","WondaLink","Wonde Proud Technology","WonderSound Technology","Wonderlan (Beijing) Technology","Wongs Electronics","WooJooIT","Woodstream","Woodward Governor","Woodwind Communications System","Woojeon&Handan","Woojin Industrial Systems","Woojinnet","Woojyun Systec","Wooksung Electronics","Woonsang Telecom","Woori SMT","Woorigisool","Work Microwave","Workstation","World Elite Technology","World Ethnic Broadcastin","World WLAN Application Alliance","World Wide Packets","WorldAccxx","WorldCast Systems","WorldGate","Worldcns","Worldplay (Canada)","Worldsmart Retech","Woven By Toyota U.S","Woven Systems","WowWee","Woxu Wireless","Wren Sound Systems","Wu Han Routon Electronic","Wu Qi Technologies","WuLu Networks","WuXi Rigosys Technology","Wuhan Changjiang Electro-Communication Equipment","Wuhan Feng Tian Information Network","Wuhan FiberHome Digital Technology","Wuhan GreeNet Information Service","Wuhan Higheasy Electronic Technology Development","Wuhan Hosan Telecommunication Technology","Wuhan Huagong Genuine Optics Technology","Wuhan Huazhong Numerical Control","Wuhan IPG Technologies","Wuhan Lingjiu High-tech","Wuhan Maiwe communication","Wuhan Maritime Communication Research Institute","Wuhan Maxsine Electric","Wuhan NEC Fibre Optic Communications industry","Wuhan Nexphoton Technology","Wuhan Pont Technology","Wuhan QianXiao Elecronic Technology","Wuhan Qianyang Iotian Technology","Wuhan Research Institute of MII","Wuhan Telecommunication Devices","Wuhan Tianyu Information Industry","Wuhan Yangtze Optical Technology","Wuhan YuXin Semiconductor","Wuhan Zhongyuan Huadian Science & Technology","Wuhan Zmvision Technology","Wush","Wuxi DSP Technologies","Wuxi Hongda Science and Technology","Wuxi Keboda Electron","Wuxi Ranke Technology","Wuxi Stars Microsystem Technology","Wuxi Sunning Smart Devices","Wuxi Xiaohu Technology","Wuxi Xinjie Electric","Wuxi YSTen Technology","Wuxi Zhanrui Electronic Technology","Wuxi Zhongxing Optoelectronics Technology","Wuxi iData Technology","WyTec International","Wybron","Wyconn","Wyler","Wynmax","WyreStorm Technologies","Wytek","Wyze Labs","Würth Elektronik eiSos GmbH & Co. KG","X-COM","X-speed lnformation Technology","X-traWeb","X.net 2000","X2 MSA Group","X2E","X2gen Digital","X6D","XAC AUTOMATION","XACT","XADA Technologies","XAG","XANTE","XAQTI","XATA","XAVi Technologies","XCENA","XCHENG HOLDING","XCP","XEDIA","XEL COMMUNICATIONS","XEMICS","XENOLINK Communications","XENPAK MSA Group","XEROX","XEROX CORP UNIV GRANT PROGRAM","XESystems","XIAMEN LEELEN TECHNOLOGY","XIAMEN MEITU MOBILE TECHNOLOGY","XIAMEN VANN INTELLIGENT","XIAMEN YAXON NETWORK","XIAMEN YEALINK NETWORK TECHNOLOGY","XIAMENSHI C-CHIP TECHNOLOGY","XIAOMI Electronics","XIMEA","XIN LINK INTERNAITONAL","XINETRON","XINGFEI （H.K）","XINHUA CONTROL ENGINEERING","XIOX","XIP Technology","XIRCOM","XITRON TECHNOLOGIES","XK22 Enterprises","XKL","XLN-t","XLNT DESIGNS","XMIT AG COMPUTER NETWORKS","XMOS Semiconductor","XN TECHNOLOGIES","XNET TECHNOLOGY","XORTEC","XOS","XPAK MSA Group","XPEED","XPOINT TECHNOLOGIES","XROSSTECH","XRPLUS","XSTREAMIS","XStreamHD","XTA Electronics","XTP SYSTEMS","XTS","XTec","XTrillion","XYCOM","XYLOGICS","XYRON","XYVISION","XYnetsoft","Xagyl Communications","Xalted Networks","Xalyo Systems","Xambala","Xanboo","Xantech","Xapt","Xaptec","Xaptum","Xcellen","Xconnect","Xcute Mobile","Xeline","Xembedded","XenICs","Xena Networks","Xenatech","Xenon Smart Teknoloji","Xenox Holding","Xensource","Xenya d.o.o","Xerox","Xetawave","Xi'an Clevbee Technology","Xi'an Fengyu Information Technology","Xi'an HISU Multimedia Technology","Xi'an Jizhong Digital Communication","Xi'an LINKSCI Technology","Xi'an Link-Science Technology","Xi'an Molead Technology","Xi'an NovaStar Tech","Xi'an Yipu Telecom Technology","Xi'an Zhisensor Technologies","Xi3","XiMeta Technology Americas","XiNCOM","Xia Men Joyatech","Xia Men UnionCore Technology","Xiamen Cheerzing IOT Technology","Xiamen DNAKE Technology","Xiamen Four-Faith Communication Technology","Xiamen Hanin Electronic Technology","Xiamen IPRT Technology","Xiamen Intretech","Xiamen Jiwu Technology","Xiamen Milesight IoT","Xiamen Overseas Chinese Electronic","Xiamen Paperang Technology","Xiamen Sigmastar Technology","Xiamen Xinglian Electronics","Xiamen Yeastar Digital Technology","Xiamen Yudian Automation Technology","Xiamen uink Technology","Xiangshan Giant Eagle Technology Developing","Xiaomi Communications","Xiaoniu network technology (Shanghai)","Xilinx","Xin Hua Control Engineering","Xin Shi Jia Technology (Beijing)","Xingluo Technology","Xintai Automobile Intelligent Network Technology","Xiotech","Xipher Technologies","Xiranet Communications","Xirka Dama Persada PT","Xirrus","Xlab","Xmark","Xnet Technology","XonTel Technology","Xorcom","Xovis","Xovis Germany","Xpeed","Xplora Technologies","Xrite","Xseed Technologies & Computing","Xsense Technology","Xsido","Xsight Labs","Xslent Energy Technologies","Xstream Flow (Pty)","Xteam","Xtel Wireless ApS","Xtera Communications","Xtra Technology","Xtramus Technologies","Xtreme Power Systems","Xtreme Technologies","Xtreme Testek","XtremeSpectrum","Xtremio","Xufeng Development","Xunison","Xuzhou WIKA Electronics Control Technology","XySystem","Xycotec Computer","Xylem Water Solutions","Xyplex","Xyterra Computing","Xytronix Research & Design","Y Soft Corporation, a.s","Y&H E&C","Y-cam Solutions","Y.D.K","YACOUB Automation","YAESU MUSEN","YAFO Networks","YAMABISHI","YAMAHA","YAMAHA MOTOR","YAMASHITA SYSTEMS","YAMATAKE-HONEYWELL","YAMATECH SCIENTIFIC","YANG MEI TECHNOLOGY","YANGJAE SYSTEMS","YANO ELECTRIC","YAPTV","YASKAWA ELECTRIC","YAZAKI","YAZAKI Energy System","YDT Technology International","YE DATA","YEALINK(XIAMEN) NETWORK TECHNOLOGY","YEC","YEESTOR Microelectronics","YEM","YESTECHNOLOGY","YF Technology","YICHEN (SHENZHEN) TECHNOLOGY","YIGUANG","YIK","YINUOLINK","YIPPEE ELECTRONICS","YIPPEE ELECTRONICS CP","YMC","YMax Telecom","YODA COMMUNICATIONS","YODO Technology","YOISYS","YOKO Technology","YOKOTA INDUSTRIAL","YOKOTE SEIKO","YOKOWO","YOKOYAMA SHOKAI","YONG TAI ELECTRONIC (DONGGUAN)","YORK Refrigeration, Marine & Controls","YORKVILLE SOUND","YOSHIDA KOGYO K. K","YOSHIKI INDUSTRIAL","YOSHIMIYA","YOSIN ELECTRONICS","YOUNGBO ENGINEERING","YOUNGKOOK ELECTRONICS","YOUNGZONE CULTURE (SHANGHAI)","YOUTH KEEP ENTERPRISE","YOZAN","YSI","YST","YSTen Technology","YT Elec","YUANFUDAO HK LIMTED","YUGE Information technology","YUKAI Engineering","YUPITERU","YUSUR Technology","YVES TECHNOLOGY","YWire Technologies","YX Wireless","Yahoo! JAPAN","Yamaki Electric","Yamato Denki","Yamato Scale","YanFeng Visteon(ChongQing) Automotive Electronic","Yancheng Kecheng Optoelectronic Technology","Yanfeng Visteon Electronics Technology (Shanghai)","Yangtze Memory Technologies","Yangzhou ChangLian Network Technology","Yantai Dongfang Wisdom Elrctic","Yantai Jahport Electronic Technology","Yantai ZhiYang Scientific and technology industry","Yaojin Technology (Shenzhen)","Yaojin Technology(Shenzhen)","Yasing Technology","Yasmina Labs Trading FZE","Yasuda Joho","Yeelink","Yelatma Instrument Making Enterprise, JSC","Yellowtec","Yeonhab Precision","Yi chip Microelectronics (Hangzhou)","Yi-Qing","Yichip Microelectronics (Hangzhou)","Yichun MyEnergy Domain","Ying Hua Information Technology (Shanghai)","Yingling Innovations Pte","Yipee","Ynomia","Yobiiq Intelligence","Yoga","Yoggie Security Systems","Yohana","Yokogawa Digital Computer","Yoqu Technology (Shenzhen)","Yoqu Technology(Shenzhen)","York Instruments","Yoshiki Electronics Industry","Yota Devices","Yotta Networks","YottaYotta","Young Chang","Young Electric Sign","Young Generation International","Young Technology","YoungWoo Telecom","Yournet","Ypsomed","Yu Fly Mikly Way Science and Technology","Yu Jeong System","YuHua TelTech (ShangHai)","Yucca Technology","Yuduan Mobile","Yuehua(Zhuhai) Electronic","Yufei Innovation Software(Shenzhen)","Yulinet","Yulong Computer Telecommunication Scientific (Shenzhen)","Yunhight Microelectronics","Yunjing lntelligent Technology(Dongguan)","Yunke China Information Technology","Yunnan Ideal Information&Technology","Yunnan KSEC Digital Technology","Yushin Precision Equipment","Yuxing Electronics","Yytek","Z'SEDAI KENKYUSHO","Z-COM","Z-Com","Z-TEC","Z-meta Research","Z.M.P. RADWAG","Z.U.K. Elzab","Z3 Technology","ZAC","ZACCESS Systems","ZAKLAD ELEKTRONICZNY SIMS","ZALA COMPUTER","ZANTAZ","ZAO NPK RoTeK","ZAO NPO Introtest","ZAO NVP Bolid","ZARDCOM","ZAT a.s","ZAX","ZBD Displays","ZCOMM","ZEAL","ZEASN TECHNOLOGY PRIVATE","ZEFATEK","ZENNER","ZENNIO AVANCE Y TECNOLOGIA, S.L","ZERON ALLIANCE","ZETA COMMUNICATIONS","ZETLAB","ZETRON","ZEXELON","ZF","ZF CVCS","ZF MICROSYSTEMS","ZF TRW Automotive","ZHEJIANG BOXSAM ELECTRONIC","ZHEJIANG DAHUA TECHNOLOGYCO","ZHEJIANG DAHUA ZHILIAN","ZHEJIANG HISING TECHNOLOGY","ZHI YUAN ELECTRONICS","ZHIYUAN Eletronics","ZHONGGUANCUN XINHAIZEYOU TECHNOLOGY","ZHONGXING TELECOM","ZHS ZEITMANAGEMENTSYSTEME","ZHUHAI EWPE INFORMATION TECHNOLOGY","ZIATECH","ZIDA TECHNOLOGIES","ZIEHL industrie-electronik GmbH + Co KG","ZIEHL industrie-elektronik GmbH + Co KG","ZILOG","ZIMI","ZIPPY TECHNOLOGY","ZIV","ZMD America","ZNV","ZNYX Networks","ZODIAC AEROSPACE","ZODIAC DATA SYSTEMS","ZODIANET","ZOLL Lifecor","ZONAL RETAIL DATA SYSTEMS","ZONET TECHNOLOGY","ZONEWORX","ZOOM Networks","ZOOM SERVER","ZORT Labs","ZOWEE TECHNOLOGY(HEYUAN)","ZOYI","ZP Engineering SEL","ZPA Smart Energy a.s","ZPE Systems","ZPM Industria e Comercio Ltda","ZPSYS CO.,LTD. (Planning&Management)","ZPT R&D","ZPT Vigantice","ZSK Stickmaschinen","ZT Group Int'l","ZTEC Instruments","ZTLX Network Technology","ZTRON TECHNOLOGY","ZUNDA","ZVISION Technologies","ZX Technologies","ZYKRONIX","ZYNUS VISION","Zabbly","Zadara Storage","Zaffire","Zahner-Elektrik Ingeborg Zahner-Schiller GmbH & Co. KG","Zalliant","Zambeel","Zaplox","Zappware","Zaram Technology","Zavio","Zcomax Technologies","Zealabs","Zebra Information Tech","Zebra Technologies","Zebronics India Pvt","Zed-3","ZeeVee","Zeebo","Zeeport Technology","Zegna-Daidong","Zeica Labs Pte","Zektor","Zelax","Zelfy","Zellweger Analytics","Zelus(Shenzhen) Technology","Zen Exim Pvt","Zen Eye","Zencheer Communication Technology","Zengge","Zenisu Keisoku","Zenitel GB","Zenitel Norway","Zenith Electronics","Zenitron","Zeno Information System","Zenocom","Zenotech","Zenovia Electronics","Zensys","Zentan","Zentri","Zenway enterprise","Zeo","Zepcam","Zeppelin Systems","Zera","Zero Boundary Singularity Technology(Shenzhen)","Zero One Technology","Zero1.tv","ZeroDesktop","Zeta Broadband","Zetari","Zetec","Zetes Technologies","Zetta Systems","ZettaHash","Zettamedia Korea","Zeugma Systems","Zeus Wireless","Zeutschel","Zhangzhou Keneng Electrical Equipment","Zhanzuo (Beijing) Technology","ZheJiang FuChunJiang Information Technology","Zhehua technology","Zhejiang Bell Technology","Zhejiang Bodyguard Electronic","Zhejiang Broadcast&Television Technology","Zhejiang Cainiao Supply Chain Management","Zhejiang Dahua Technology","Zhejiang Everbright Communication Equip","Zhejiang FeiYue Digital Technology","Zhejiang Hechuan Technology","Zhejiang Hite Renewable Energy","Zhejiang HuaRay Technology","Zhejiang Huayi IOT Technology","Zhejiang Hyxi Technology","Zhejiang KaNong Network Technology","Zhejiang Kangtai Electric","Zhejiang Laibao Display Technology","Zhejiang Moorgen Intelligence Technology","Zhejiang Nurotron Biotechnology","Zhejiang Pearmain Electronics","Zhejiang ROICX Microelectronics","Zhejiang SUPCON Technology","Zhejiang Tianle Digital Electric","Zhejiang Tmall Technology","Zhejiang Uniview Technologies","Zhejiang Weilai Jingling Artificial Intelligence Technology","Zhejiang Weirong Electronic","Zhejiang Wellcom Technology","Zhejiang Winsight Technology","Zhejiang Xinzailing Technology","Zhejiang Yutong Network Communication","Zhejiang shenghui lighting","Zhen Shi Information Technology (Shanghai)","Zhen Shi Information Technology（Shanghai）","Zhengzhou VCOM Science and Technology","Zhengzhou XindaJiean Information Technology","Zhenjiang Sapphire Electronic Industry","Zhidao Network Technology(Shenzhen)","Zhishang Chuanglian Technology","Zhiyue Xingchen(shanghai) Intelligent Terminal","Zhone Technologies","Zhong Ge Smart Technology","Zhong Shan City Litai Electronic Industrial","Zhong Shan City Richsound Electronic Industrial","ZhongMiao Technology","Zhongge Smart Technology(Shanghai)","Zhongshan B&T technology","Zhongshan Camry Electronic","Zhongshan General K-mate Electronics","Zhongshan K-mate General Electronics","Zhongshan Readboy Electronics","Zhongshan Scinan Internet of Things","Zhongshan Zhiniu Electronics","Zhongtian broadband technology","Zhongxin Intelligent Times (Shenzhen)","Zhouhai Intelligence(Shenzhen)","Zhuhai Dingzhi Electronic Technology","Zhuhai HiFocus Technology","Zhuhai Jiahe Communication Technology","Zhuhai Liming Industries","Zhuhai Pantum Electronics","Zhuhai Raysharp Technology","Zhuhai Tianrui Electrical Power Tech","Zhuhai Unitech Power Technology","Zhuhai Yunmai Technology","Zhuolian (Shenzhen) Communication","Zi Corporation (HK)","Zicon Technology","ZillionTV","Zimmer Elektromedizin","Zimory","Zinwave","Zinwell","Zioncom Electronics (Shenzhen)","Ziova Coporation","Zipher","Zipit Wireless","Zipline International","Zitte","Zliide Technologies ApS","Zmodo Technology","Zoltan Technology","Zoltrix International","Zonar Systems","Zonoff","Zoovel Technologies","Zoran","Zscaler","Zuend Systemtechnik","Zultys Technologies","Zuma Networks","ZuniData Systems","Zurich Instruments","Zurich University of Applied Sciences","Zurn Industries","ZyCast Technology","ZyFLEX Technologies","ZyGate Communications","Zycoo","Zygo","Zylaya","Zylin","Zypcom","Zyptonite","Zyxel Communications","a2i marketing center","aFUN TECHNOLOGY","abatec group","acromate","activ-net GmbH & Co. KG","adp Gauselmann","ads-tec","airPointe of New Hampshire","aizo","almedio","altek","amazipoint technology","ambie","amitek","amnimo","ants","aphona Kommunikationssysteme","arkona technologies","as electronics","ask-technologies.com","asteel electronique atlantique","atrium c and i","automationNEXT","avateramedical Mechatronics","avinfo","awayfrom","azeti Networks","b gmbh medien + datenbanken","b-plus","ball-b GmbH Co KG","barox Kommunikation","base","bebro electronic","beroNet","beyerdynamic GmbH & Co. KG","bio-logic","bioMerieux","bioMérieux Italia","bitWallet","blackned","bluesky","boca systems","bplan","byd:sign","bytes at work","c-scape","cTrixs International","caffeina applied research","camtron industrial","cd3o","cellXica","cellon communications technology(shenzhen)","chaowifi.com","cheilelectric","cim-usa","citygrow technology","cloudnineinfo","coM.s.a.t","commax","companytec automação e controle ltda","congatec","corega","cozybit","creoline","currentoptronics Pvt","cyber-blue(HK)","cyberPIXIE","cybernet manufacturing","d&b audiotechnik","d-broad","d2d technologies","dBm Optics","dSPACE","dSys","daesung eltec","daesung network","data-complex","datacom systems","dataschalt e+a","daum electronic","ddm hopt + schuler Gmbh + Co. KG","deister electronic","devolo","di-soric GmbH & Co. KG","digEcor","digitron","din Dietmar Nocker Facilitymanagement","dit","dnt Innovation","dormakaba Canada Inc. - Keyscan","dormakaba Deutschland","dormakaba USA","dotRocket","dresden-elektronik","duagon","duagon Germany","e & Tel","e-CON SYSTEMS INDIA PVT","e-Net","e-SMARTCOM","e-Smart Systems Pvt","e-Tek Labs","e-Watch","e-generis","e-trees Japan","e-w/you","e-zy.net","e2v technologies (UK)","e:cue","eBet Gaming Systems","eCopilt","eCopy","eDevice","eFAB P","eGauge Systems","eM Technics","eMegatech International","eOn Communications","ePBoard Design","ePipe","eProduction Solutions","eQ-3 Entwicklung","eSSys","eSang Technologies","eSpace","eWBM","eWerks","eWings","eXS","eZEX","eac AUTOMATION-CONSULTING","easynetworks","ecamtek","ecobee","edgeflow Canada","eero","eflow Inc. / Smart Device Planning and Development Division","egnite","ekey biometric systems","eks Engel GmbH & Co. KG","elab-experience","electric imp","elmegt GmbH & Co. KG","embedded-logic DESIGN AND MORE","emtrion","enLighted","enblink","endeavour","enimai","ens","eonas IT-Beratung und -Entwicklung","epro","essensys","eta plus electronic","evon","exands","exlar","eyevis","f.robotics acquisitions","fSONA Communications","fenglian Technology","feno","ffly4u","fitivision technology","fluidiQ by Magnalytix","fourtec -Fourier Technologies","free alliance","frogblue TECHNOLOGY","fünfeinhalb Funksysteme","gemalto e-Payment","ghe-ces electronic","global moisture management system","go-e","gosund GROUP","gt german telematics","guangdong kesheng zhixun technology","hangzhou huacheng network technology","hangzhou puwell cloud tech","hangzhou zhiyi communication","home2net","hopf Elektronik","hyungseul publishing networks","i Controls","i Wit Digital","i-PRO","i-TEK RFID","i-TOP DESING TECHNOLOGY","i-mate Development","i.Tech Dynamic","i.s.t isdn-support technik","i3 International","i4C Innovations","i5LED","iAd","iBAHN","iBASE Gaming","iCanTek","iCatch","iComm HK","iConnectivity","iControl","iD","iDevices","iDigm","iDirect","iDruide","iFORCOM","iFlight Technology","iKey","iKnowledge Integration","iKuai Networks","iLogic","iMCA","iMPath Networks","iMaxNetworks(Shenzhen)","iMercury","iMin Technology Pte","iNES. applied informatics","iNEWiT","iNFORM Systems","iNovo Broadband","iPAC Technology","iPOX Technology","iPanel.TV","iPhotonix","iPolicy Networks","iPort","iPulse Systems","iQstor Networks","iQuest (NZ)","iRay Technology","iRex Technologies","iRhythm Technologies","iRobot","iRule","iS5 Communications","iSYS RTS","iSmart Alarm","iSonea","iStor Networks","iSun Smasher Communications Private","iTAS Technology","iTEC Technologies","iVeia","iWDL Technologies","iWOW Communications Pte","iWise Communications","iXSea","iZotope","ib-mohnen KG","iba","icube","id-Confirm","ifanr","ifm electronic","iiNet Labs","iiTron","ikeja wireless (pty)","ilumisys Inc. DBA Toggled","imc MeBsysteme","imperix","in2 Networks","inIT - Institut Industrial IT","inMotion","inXtron","inc.jet","incNETWORKS","infinias","infomark","innodisk","innomdlelab","intec","interWAVE Communications","interbro","intotech","ioBridge","ioIMAGE","iodyne","ionSign","iota Computing","ipDialog","ipUnplugged","ipcas","iris-GmbH infrared & intelligent sensors","iryx","isepos","itelio","ithinx","itron","ittim","ivvi Scientific(Nanchang)","iway","jinyoung","jp-embedded","kasercorp","kawamura electric","kiwimoore (Quzhou) Semiconductor","kk-electronic","koreabts","kuosheng.com","kyung il","l-acoustics","leapio","leerang","lemonbeat","lesswire","lignex1","littleBits Electronics","m-u-t","m2c Electronic Technology","mCubelogics","mLogic","mMax Communications","mPHASE Technologies","machineQ","maintech","manroland","marco Systemanalyse und Entwicklung","maxon zub","mediola - connected living","meerecompany","mercury corperation","messMa","mh acoustics","miControl","mingjong","mira fitness","mirusystems","mixi","mm-lab","moblic","modas","moobox","mps Software","myIDkey","myenergi","mywerk Portal","nFore Technology","nSTREAMS Technologies","nStor Technologies","nVent","nVent, Schroff","nac Image Technology","nass magnet Hungária Kft","neXus ID Solutions","netKTI","netTALK.com","netplat","nex-G Systems Pte","nextLAP","nexzo india pvt","niliwi nanjing big data","nimbus 9","noax Technologies","nuoxc","nyantec","o2ones","one RF Technology","onsemi","optilink networks pvt","oshkosh","peiker acustic","pomdevices","port industrial automation","profichip","r2p","r2p Asia-Pacific","razberi technologies","rescuetrack","ruwido austria","s.m.s smart microwave sensors","sTraffic","samtec automotive electronics & software","saxnet","scemtec Hard- und Software fuer Mess- und Steuerungstechnik","scemtec Transponder Technology","seca gmbh & co. kg","secunet Security Networks","securityplatform","setex schermuly textile computer","shanghai huayuan chuangxin software","shenzhen AZW Technology(Group)","shenzhen Amos Electronics","shenzhen Biocare Bio-Medical Equipment","shenzhen Cloud High Communication Technology","shenzhen Qikai Electronic","shenzhen RAKwireless technology","shenzhen UDD Technologies","shenzhen ceita communications technology","shenzhen eyunmei technology","shenzhen hemuwei technology","shenzhen kaism technology","shenzhen kexint technology","shenzhen lensun Communication Technology","shenzhen maxtopic technology","shenzhen phoenix telecom technology","shenzhen scodeno technology","shenzhen sibituo Technology","shenzhen trolink Technology","shenzhen worldelite electronics","shenzhen yunmao information technologies","shenzhen zovoton electronic","silergy","silex technology","silicom","silicon valley immigration service","slash dev slash agents","smart light technology","smart-electronic","smartAC.com","snom technology","so-logic","sofrel","solidotech","solum","storONE","streamnow","sunweit industrial","synertronixx","sysmocom - s.f.m.c","system a.v","sywinkey HongKong Co,. Limited?","t+ Medical","t-mac Technologies","tado","taskit","tci","tcloud intelligence","tdvine","technicob","telco Informationssysteme","testo Instruments (Shenzhen)","this is engineering","tickIoT","tide","tiko Energy Solutions","tonies","topsystem","trivum technologies","twareLAB","u-blox","u10 Networks","uAvionix","uControl","uGrid Network","ubisys technologies","ubtos","udworks","unGlue","upscale ai","uv-electronic","vArmour Networks","varram system","vastriver Technology","visago Systems & Controls GmbH & Co. KG","vivo Mobile Communication","voestalpine Signaling UK","w5networks","wanze","waytotec","weiyuantechnology","wenglor sensoric","wi-daq","wi2be Tecnologia S/A","wisembed","woori-net","worldcns","wuhan hongxin telecommunication technologies","x-fabric","x-star networks","x.o.ware","xFusion Digital Technologies","xG Technology","xiamenshi c-chip technology","xn systems","xvtec","yLez Technologies Pte","zhejiang Dusun Electron","zhejiang ebang communication","zte","µTech Tecnologia LTDA","Åmic","​ASUNG TECHNO","杭州德澜科技有限公司（HangZhou Delan Technology Co.,Ltd）","浙江路川科技有限公司"]
+
+// Sorted "PREFIX<vendor index in base 36>" entries, comma separated
+export const OUI_ASSIGNMENTS = "000000eh0,000001eh0,000002eh0,000003eh0,000004eh0,000005eh0,000006eh0,000007eh0,000008eh0,000009eh0,00000A93z,00000B7oe,00000C2s3,00000D4fw,00000E4j0,00000F8jo,000010b8p,0000118m5,000012623,00001323e,0000148i4,00001537a,0000163ed,0000179ci,000018e3s,000019g0,00001A8h,00001B91a,00001C1h9,00001D2hi,00001Ecr6,00001Fd30,000020376,000021b6s,000022dru,0000234b,0000242cx,000025a8a,000026at5,0000276mp,0000289ko,00002960r,00002Acx4,00002B2fb,00002Clk,00002D27t,00002Eb1a,00002Fctc,000030dqm,000031a38,000032803,0000333ug,0000348iw,000035b3c,000036jp,00003797d,0000382g5,000039cv1,00003A280,00003Bf0v,00003Clc,00003Ddk8,00003Eayq,00003Fb82,000040fv,0000415xx,0000427r3,0000437rv,00004424i,0000454hj,00004693h,0000478kd,000048bf2,000049g9,00004A73,00004B5y2,00004C8gc,00004D387,00004Edw,00004F7b4,000050a7r,0000515fb,0000526js,0000532bm,000054bcl,0000552b0,0000563dd,000057aqg,000058a7j,0000595nt,00005Ackt,00005B3wb,00005Ccqd,00005D2fr,00005E5xt,00005Fcgg,00006074i,0000614tt,0000621l8,0000631fk,000064enw,0000658ux,000066cn2,000067b1f,000068ach,0000692co,00006A2bu,00006Bc4t,00006Cbcl,00006D2f1,00006E17i,00006F7xz,0000705d4,0000717t,0000727tm,000073axz,000074aat,00007590b,0000764p,00007764l,00007876u,0000798j5,00007A363,00007Ba9v,00007Cdu,00007D9ci,00007E29c,00007F7a1,0000802f1,0000811n7,00008278b,000083cmg,000084b6m,00008523n,0000867pz,0000875er,00008820r,00008924q,00008A375,00008B628,00008Cz3,00008D32k,00008Eb1s,00008Fag5,0000907s3,000091et,0000922ag,0000939l7,000094i5,000095b2e,0000967ns,0000973iy,0000982ff,0000997wx,00009Aa8y,00009B620,00009Cac8,00009D7aw,00009E7nz,00009Fdg,0000A0ap7,0000A17o1,0000A21n7,0000A38ih,0000A465,0000A5d0n,0000A68ip,0000A78ij,0000A8cfq,0000A98iz,0000AAeh0,0000AB7b0,0000AC2dl,0000AD1kn,0000AE36m,0000AF2j1,0000B0abm,0000B1zb,0000B2cqq,0000B328a,0000B443f,0000B536z,0000B67rx,0000B73d9,0000B8ars,0000B97p8,0000BAayf,0000BBcwg,0000BCal1,0000BDadg,0000BEcsm,0000BFb7k,0000C0e44,0000C17xz,0000C2621,0000C35ma,0000C4e3a,0000C52vw,0000C63y0,0000C7hc,0000C8cn,0000C947k,0000CA2vw,0000CB2bk,0000CC38z,0000CDyu,0000CE7py,0000CF5cy,0000D039n,0000D16u,0000D2app,0000D3e35,0000D49m7,0000D57s9,0000D69m6,0000D736e,0000D891a,0000D98l3,0000DAjx,0000DB205,0000DC5cy,0000DDcnw,0000DE26k,0000DF1h6,0000E0a3j,0000E14yh,0000E25o,0000E363q,0000E461a,0000E5ayb,0000E6gj,0000E7cdx,0000E85i,0000E967f,0000EAdkn,0000EB7oh,0000EC7sh,0000EDga,0000EE8il,0000EF6yd,0000F0ba7,0000F17na,0000F2b3o,0000F34tn,0000F4ys,0000F53af,0000F6g2,0000F7eml,0000F83b7,0000F9a40,0000FA7sl,0000FBa9e,0000FC7q3,0000FD5e6,0000FE138,0000FF23h,0001003yh,0001019zs,00010216,00010316,0001043em,0001051nt,000106d7r,0001077ey,000108mc,0001098ol,00010A28i,00010Bcc6,00010Ccl9,00010Dd3n,00010E1zl,00010F20r,00011056p,000111f1g,000112bmo,00011393k,0001146uj,00011541c,0001168uk,0001172iz,00011841i,000119ad6,00011A5rc,00011Bdop,00011Cdoe,00011D2m2,00011E9yq,00011Fa8z,00012096m,000121e76,000122dfh,000123bcq,000124p9,000125el8,0001269en,00012794q,00012848t,00012939x,00012Ad41,00012Bcqg,00012C15i,00012D73z,00012E9fw,00012Fdhz,0001304e3,0001311yd,0001323q1,0001336zg,000134bfc,0001356vd,00013633y,00013767s,000138egr,0001399wc,00013Aato,00013B1ja,00013Ccti,00013Dak1,00013E181,00013F8rp,000140bfy,00014122s,0001422s3,0001432s3,0001443iy,000145e50,000146d7g,000147eu0,000148ege,000149coe,00014Acb5,00014B48w,00014C1tp,00014Dc1e,00014Ee4r,00014Frx,0001504w4,000151490,00015227s,000153gu,0001544t5,000155a0v,0001564ga,000157b8n,00015844f,000159anc,00015A3mh,00015B67y,00015C22x,00015D9ci,00015E1hm,00015F3b5,0001603w1,000161855,00016234c,0001632s3,0001642s3,000165vj,000166cnv,0001675eg,000168dry,0001692li,00016Abr,00016B7gr,00016C4i1,00016D2kb,00016E2xr,00016F6e6,0001703z1,000171yr,000172d1u,000173d4,00017433w,000175adu,0001769d0,0001773ty,0001787nu,000179e59,00017A2oh,00017B5na,00017C9n,00017Dd9b,00017E80,00017F4ds,000180f9,00018190b,0001823al,000183en,000184axy,0001855q8,000186dp4,0001875x0,0001887cb,000189ahu,00018Aac4,00018B8t9,00018C83m,00018D1ai,00018E7js,00018F713,000190b0r,000191b83,000192d7t,0001935j7,0001942jh,000195bfr,0001962s3,0001972s3,0001983gf,0001995n6,00019A78x,00019B762,00019C7l8,00019D3rq,00019E3z9,00019Fagg,0001A06cs,0001A17y4,0001A27jl,0001A34ux,0001A4874,0001A58xb,0001A6bd7,0001A7djh,0001A8e9a,0001A91j9,0001AAw2,0001AB7yv,0001ACc6f,0001AD2tt,0001AEdfn,0001AF17d,0001B04rs,0001B151u,0001B23m7,0001B39ys,0001B4e83,0001B5dhq,0001B6ans,0001B72m3,0001B88ui,0001B9azo,0001BA5xr,0001BB4qa,0001BC1z8,0001BD9rm,0001BE543,0001BFd3v,0001C02wq,0001C1e0n,0001C2he,0001C3pm,0001C48rx,0001C5c5p,0001C6a6d,0001C72s3,0001C82d2,0001C92s3,0001CA533,0001CB40p,0001CC1za,0001CDi0,0001CE33h,0001CFza,0001D0e0d,0001D12tq,0001D2f35,0001D39fp,0001D47ez,0001D55bq,0001D6f4l,0001D74ek,0001D8d5l,0001D9c43,0001DAe4u,0001DB4q2,0001DCqe,0001DD1cc,0001DEdeh,0001DF677,0001E04kj,0001E172n,0001E212j,0001E3c37,0001E4c6k,0001E5chx,0001E65om,0001E75om,0001E84oc,0001E97ip,0001EA2rx,0001EB224,0001EC4av,0001EDaso,0001EE2x9,0001EF2iw,0001F0dg5,0001F16fc,0001F280b,0001F3a37,0001F4497,0001F53yo,0001F618v,0001F76ad,0001F8cs4,0001F9d6j,0001FA5g1,0001FB3o6,0001FC71m,0001FD3ml,0001FE3b7,0001FF3gq,0002008so,0002015zz,00020211g,000203eed,0002041xo,0002055qa,000206d54,000207dzs,000208dn6,000209bwh,00020A51d,00020B8qt,00020C85t,00020D87g,00020E3t6,00020F40,0002104l2,0002118qw,000212c40,000213an2,0002143ec,00021530z,0002162s3,0002172s3,000218ss,0002199p7,00021Aeve,00021B73x,00021C8uv,00021D3gt,00021Eayu,00021Fqi,00022023o,0002213e1,0002222qx,0002232sw,000224225,00022599p,000226eh2,0002273z0,0002288rl,000229rw,00022A18o,00022Bapk,00022C48,00022Dua,00022Ecoj,00022F9ef,0002306j5,0002316e0,0002321d1,0002337zm,0002346au,0002359p2,00023662j,00023730r,000238bhs,000239dzm,00023Aeqv,00023B4at,00023C31o,00023D2s3,00023Ebff,00023F2wb,000240ben,00024110y,000242dy4,000243ag3,000244b6r,0002457cy,000246ym,00024757d,0002489u8,0002491d4,00024A2s3,00024B2s3,00024Cc2b,00024D7zi,00024E3ha,00024F65w,00025053i,000251caf,0002522k8,000253d4p,000254eeo,0002555xb,000256zd,000257870,0002584nu,000259dh5,00025A2ku,00025B2io,00025Caqb,00025D2i6,00025E5p5,00025F90b,000260oq,000261db2,000262cc5,000263acs,0002641at,000265dz8,000266d96,0002678lt,0002685mb,0002698oj,00026A2u2,00026B1ga,00026C9sc,00026Drm,00026E8rc,00026Fbft,000270322,000271eu0,00027224w,000273306,000274dcb,000275b0e,0002769zb,0002772kg,000278aol,0002792ym,00027A652,00027B11v,00027Cdg8,00027D2s3,00027E2s3,00027Fewc,0002808db,0002817xz,000282dxf,000283ccw,000284dj4,000285ak8,00028697w,000287qt,0002884wv,0002893cp,00028A10t,00028Bdq4,00028C86a,00028D8d6,00028Eafd,00028F55e,000290eef,0002919ak,0002927jf,000293c9v,000294dc5,0002957ol,0002967eg,000297226,00029820n,000299146,00029Acfa,00029B755,00029C16,00029D84q,00029E6di,00029F76e,0002A04n6,0002A1eel,0002A25pk,0002A35qc,0002A4rc,0002A55om,0002A643k,0002A7e0q,0002A8v0,0002A9a7i,0002AA9iw,0002AB2g9,0002AC1l,0002AD5ga,0002AEbc7,0002AFd36,0002B05rg,0002B113e,0002B22hj,0002B36gz,0002B436a,0002B51d9,0002B6pp,0002B7e75,0002B8e4a,0002B92s3,0002BA2s3,0002BB2yi,0002BC7c6,0002BD1v3,0002BEddj,0002BFeyd,0002C01tb,0002C16fe,0002C28ss,0002C3162,0002C494z,0002C54d0,0002C63gz,0002C7ca,0002C8d1w,0002C9848,0002CA480,0002CBdfx,0002CC7mp,0002CDd37,0002CE4pb,0002CFevl,0002D02vf,0002D1e12,0002D2eeh,0002D38sw,0002D49g9,0002D566,0002D68kb,0002D73ww,0002D81k5,0002D9ai0,0002DA4dp,0002DB8i7,0002DC4us,0002DD20t,0002DE196,0002DF8sp,0002E03zo,0002E16gv,0002E28g6,0002E37a9,0002E46n4,0002E5dbd,0002E656q,0002E722p,0002E83s8,0002E92fq,0002EA4nz,0002EB9tq,0002EC80v,0002ED3ex,0002EE8zl,0002EF24x,0002F0d7,0002F19ua,0002F2eyx,0002F382x,0002F49g6,0002F5ds3,0002F64ah,0002F7hh,0002F8ar2,0002F97tg,0002FA3ew,0002FB1n2,0002FC2s3,0002FD2s3,0002FEdyd,0002FF5jd,0003001mt,000301413,0003022ni,0003036md,0003049ml,0003057wh,0003064s2,000307bef,000308cs,000309d7v,00030A169,00030B5vb,00030Cd4d,00030Ddon,00030E2zo,00030F3lk,0003103rt,00031186j,000312cx6,000313om,000314d4r,0003152rg,0003168zg,00031784s,00031834p,0003196ck,00031A1oj,00031B2lu,00031Cciw,00031Dcz9,00031E9ce,00031F2xm,000320ekb,000321ah4,0003225yy,00032330a,00032479t,00032516a,0003266lp,0003275f8,0003287xn,0003294ej,00032Admr,00032B4t9,00032C4k,00032D5x7,00032Ebdc,00032F552,0003306ag,0003312s3,0003322s3,0003333mt,00033498w,00033589l,000336esn,000337dv6,00033897i,0003394cd,00033Ac51,00033Bcn6,00033C3fc,00033D60f,00033Ed0m,00033F1uj,0003404nq,00034140r,00034290b,00034380q,000344dav,000345alo,0003466xh,0003476gz,000348907,000349dya,00034Aaar,00034B90b,00034Cbje,00034D2p0,00034E9x4,00034Fci1,0003501l1,0003513kq,0003522v2,00035389x,0003544lc,000355d6g,0003563kq,0003576jb,0003585ls,0003593mo,00035A9t8,00035B1zq,00035Cb9s,00035D1ym,00035E85w,00035Fa1y,0003609el,000361eb5,000362e1i,00036389p,000364bca,00036572p,000366ir,0003676qq,00036846o,0003698yu,00036A7yx,00036B2s3,00036C2s3,00036Dam7,00036E8xt,00036Fd5f,0003708oe,000371pf,000372dj6,000373184,000374bcl,0003758tb,000376579,000377540,0003785h8,000379a10,00037Aczh,00037B5yt,00037C2tx,00037Dcep,00037E9j9,00037F19s,000380b47,0003816dw,00038237,00038385l,0003849b,000385pt,0003865r7,0003871wb,0003884kn,0003899ig,00038A10z,00038B9it,00038Cddf,00038D9g4,00038E1a8,00038Fe8w,0003903mi,000391sd,0003925w6,00039314o,0003942xt,0003952i2,00039641h,0003974mg,000398e5i,0003993p7,00039Ac2c,00039B8sz,00039C9bk,00039Da53,00039Ed6f,00039F2s3,0003A02s3,0003A15eh,0003A22kr,0003A37om,0003A46ap,0003A582u,0003A6df5,0003A7doo,0003A85z1,0003A9mw,0003AAe7c,0003AB1zo,0003AC4qi,0003AD473,0003AEyq,0003AF9p0,0003B0ekf,0003B15yk,0003B2aem,0003B35x2,0003B47xw,0003B549e,0003B6a3b,0003B7ep1,0003B88t7,0003B95ts,0003BA9ci,0003BBc4a,0003BC2ei,0003BD992,0003BE8u2,0003BF2m1,0003C0aak,0003C19ms,0003C2caa,0003C387f,0003C4dcc,0003C58b6,0003C65yl,0003C7f0t,0003C829n,0003C9cph,0003CAd5w,0003CBclb,0003CC8br,0003CD2tn,0003CE3zq,0003CF8e3,0003D06x6,0003D1czo,0003D232d,0003D36iy,0003D4z1,0003D5s9,0003D6a7w,0003D78x9,0003D8f1q,0003D9be0,0003DAczm,0003DB14e,0003DC7fz,0003DD2v7,0003DE96w,0003DF3jq,0003E02vw,0003E1ecc,0003E22x2,0003E32s3,0003E42s3,0003E55oh,0003E649b,0003E77k2,0003E8e7x,0003E9wk,0003EA83k,0003EB1ad,0003EC5y0,0003EDc1q,0003EE7um,0003EF99v,0003F0ahi,0003F12rf,0003F2bg1,0003F33ib,0003F48sx,0003F52py,0003F6yo,0003F79vg,0003F8bai,0003F99vq,0003FAda8,0003FB3xe,0003FC6j9,0003FD2s3,0003FE2s3,0003FF87m,000400791,0004019d9,0004028wx,0004038wy,0004047z3,00040560,0004064jo,000407dct,000408bb2,00040931d,00040Ab9i,00040B17,00040C704,00040D1cm,00040Emd,00040F19c,000410cd7,0004116e7,000412e7n,000413f77,000414dmi,000415afo,0004169pm,000417bcl,000418d5k,0004194li,00041A6cf,00041B1zs,00041Cf3l,00041D2zz,00041Ec1c,00041Fcb9,000420c7i,00042198b,000422cg6,0004236gz,000424ctt,0004251a6,0004261c5,0004272s3,0004282s3,0004299v8,00042Aecv,00042B67r,00042C893,00042Dbbj,00042E8ub,00042F6iq,0004308ty,000431559,000432e27,000433340,000434od,0004356ch,0004363v0,0004379yi,00043890b,000439ald,00043A6ho,00043B7dt,00043Cb2c,00043D61h,00043Ed46,00043F3zi,000440exn,0004415io,0004428ep,000443uh,000444e9v,0004457ap,0004462ha,000447pq,0004489wk,0004497zt,00044Af22,00044B8o2,00044C6nf,00044D2s3,00044E2s3,00044Fbcv,0004503ck,00045183h,000452aky,000453eo3,000454a5m,000455ew,0004562ig,000457do0,0004584s5,000459dwk,00045Ad8k,00045Bd29,00045C8b4,00045D1h2,00045E9wr,00045F1ce,000460739,0004613yc,00046235z,0004631yd,000464a24,000465f12,000466hj,000467efj,000468e0z,0004696ep,00046A8r5,00046B9nc,00046C33s,00046D2s3,00046E2s3,00046F3mu,000470f3m,00047166b,000472d40,0004739t6,00047478l,00047516,00047616,000477bbz,0004784sy,000479aej,00047An9,00047Bbcj,00047Cc6p,00047D8cx,00047Ectl,00047F2qu,00048020r,00048142v,000482838,0004833jf,00048410l,0004859tv,00048668r,0004872ud,0004884ci,000489el9,00048Ad5q,00048B9x5,00048C8ra,00048Dd6e,00048E98i,00048Fco6,0004909bn,000491d26,0004925r3,000493dh8,0004941zj,000495d2p,0004964e3,0004977xt,0004987ys,0004992pv,00049A2s3,00049B2s3,00049Cci5,00049D6kq,00049Eed4,00049F4q6,0004A0dwm,0004A19q0,0004A276o,0004A386z,0004A48t2,0004A51mo,0004A6anv,0004A74jp,0004A820p,0004A9baq,0004AA6ra,0004AB81g,0004AC5xb,0004AD7z9,0004AEcgd,0004AF3lt,0004B03vk,0004B1c4d,0004B23za,0004B3dy9,0004B4283,0004B54ak,0004B6cfo,0004B7d0,0004B875f,0004B9an7,0004BA6ve,0004BB1mq,0004BC53n,0004BD2vw,0004BE9bb,0004BFdwz,0004C02s3,0004C12s3,0004C27yq,0004C324l,0004C41ay,0004C5if,0004C6elc,0004C78td,0004C879h,0004C986d,0004CA4pz,0004CBd0o,0004CC9qi,0004CD4e1,0004CE9q1,0004CFbdq,0004D0c9d,0004D13qb,0004D2r9,0004D3ddv,0004D4a1h,0004D55ql,0004D6czj,0004D798x,0004D8665,0004D9dbn,0004DAahx,0004DBd5e,0004DC90b,0004DD2s3,0004DE2s3,0004DFcro,0004E0a08,0004E16ct,0004E2b0m,0004E3ot,0004E43f7,0004E555i,0004E61mj,0004E77gy,0004E85zu,0004E96cv,0004EA5om,0004EB9q8,0004EC84a,0004ED1up,0004EE7hc,0004EF9wm,0004F06ir,0004F1ea6,0004F29ws,0004F34ii,0004F46cx,0004F5c8w,0004F611q,0004F798u,0004F8a3m,0004F9ekm,0004FA8fu,0004FB2vy,0004FCcfq,0004FD6qi,0004FE9qo,0004FFpo,0005002s3,0005012s3,00050214o,0005035ya,0005048qe,000505clj,000506ahg,0005074m6,0005086cg,000509mg,00050A5yh,00050Baxv,00050C8v0,00050D885,00050E1x,00050Fd04,0005106cz,0005112wl,000512eri,000513dtf,0005146vi,00051591o,000516b0c,000517bmu,0005186tq,000519c3g,00051A17,00051B7y7,00051Cek6,00051Dvw,00051E20r,00051Fcz3,000520c8h,000521bcl,000522783,000523mb,0005241l2,000525a2e,00052665o,000527azc,0005288vp,000529bj6,00052A6a1,00052B5fy,00052Cci0,00052Dev6,00052E2rp,00052F7fw,00053012i,0005312s3,0005322s3,00053320r,00053490k,0005352pw,0005363fz,0005378uh,00053884n,0005392u,00053Aebr,00053B5lx,00053Cehh,00053Dua,00053E6w7,00053Fdzt,000540dc3,000541sv,0005429dg,00054366e,000544due,0005456j1,0005466vg,000547ce7,0005483ng,000549b9u,00054A16b,00054B423,00054Caa6,00054D1zd,00054E9sb,00054F50u,000550dvg,0005514ef,000552eky,0005533el,000554af8,0005556qg,00055611,000557ue,000558ck9,0005596jh,00055A9xj,00055B2ni,00055C74x,00055D34y,00055E2s3,00055F2s3,000560784,000561f5b,0005623mk,0005636m0,000564dh6,000565cz4,000566be8,0005674by,0005689u7,000569dsd,00056A5ol,00056B22h,00056C5v6,00056D9mj,00056E8qk,00056F6ev,0005701nb,000571bf5,0005723jn,0005732s3,0005742s3,000575255,0005768n3,000577b03,0005789zs,000579do3,00057A9dw,00057B2r8,00057Ca93,00057Dcgn,00057E42l,00057Fpi,0005804lq,000581c8u,0005822sp,0005836af,000584o4,0005856tm,0005867kv,0005877j5,000588bgs,0005898qj,00058A8tr,00058B668,00058C9b5,00058D7m9,00058E4ni,00058F28z,000590cjb,000591qb,000592a26,00059356x,0005945f8,000595xq,00059652u,00059741n,0005982fe,0005993dn,00059A2s3,00059B2s3,00059C734,00059D3g6,00059Eeuw,00059Feo2,0005A07uy,0005A1es5,0005A225s,0005A3a2y,0005A47ky,0005A56xv,0005A64e6,0005A75hv,0005A8e6e,0005A99zk,0005AA8c2,0005AB33p,0005AC90h,0005ADdcy,0005AE839,0005AF6ek,0005B074o,0005B1i6,0005B283e,0005B317r,0005B4p7,0005B520m,0005B663c,0005B715m,0005B844p,0005B9w4,0005BAehj,0005BB8ed,0005BCaiu,0005BDabr,0005BE748,0005BF6tv,0005C03m4,0005C134,0005C2cbf,0005C39mn,0005C4d3l,0005C54my,0005C6dgq,0005C75wy,0005C8dqj,0005C979b,0005CA5r0,0005CBac5,0005CCcgm,0005CD34u,0005CEa0p,0005CFda3,0005D0ca6,0005D185g,0005D2369,0005D3ez5,0005D44si,0005D5cd1,0005D676j,0005D7e05,0005D8163,0005D9d1p,0005DA147,0005DB9li,0005DC2s3,0005DD2s3,0005DE53k,0005DF44s,0005E047f,0005E1dfe,0005E231j,0005E37gt,0005E4ah9,0005E5aii,0005E643n,0005E78ud,0005E8dhn,0005E9dmv,0005EAahn,0005EB1wr,0005EC8cf,0005EDd1j,0005EEdus,0005EF7r,0005F0apd,0005F1e28,0005F29xt,0005F3e8o,0005F4cl5,0005F5538,0005F6eo4,0005F7129,0005F8agj,0005F9cu2,0005FA65z,0005FBbmm,0005FCbce,0005FD9n1,0005FEdeb,0005FFb14,000600dda,0006019df,0006022ry,0006031lz,0006042q,0006056ea,000606aff,000607990,00060819f,00060932g,00060A1wu,00060B17d,00060C845,00060De7i,00060E608,00060F8qd,000610no,000611ess,000612oz,00061370g,0006149zp,00061571z,000616d2w,000617ahp,0006183kw,0006192xy,00061Aesl,00061B90p,00061C5t5,00061D7tq,00061E81s,00061Fdzo,000620bhp,0006215pq,0006222r7,0006237rd,00062452x,000625d8k,0006267x8,000627dom,0006282s3,0006295xb,00062A2s3,00062B64r,00062C1vw,00062Dddn,00062E16g,00062F9uv,000630ry,0006312i5,00063284z,00063332f,0006344z3,0006359mx,0006366qy,000637dcz,000638ch1,0006398wh,00063A3qw,00063B15w,00063C6jo,00063D87v,00063E9bg,00063F4cu,000640eab,000641682,00064252i,000643b2a,0006448x3,000645842,000646bo5,0006474bv,000648beo,0006491i,00064A5sa,00064Bxr,00064C6kb,00064Dbfw,00064E208,00064F9ke,000650dar,00065118q,0006522s3,0006532s3,000654ecg,000655enq,000656cym,00065780c,0006585ny,0006593sr,00065Acfz,00065B3ix,00065C7z7,00065D5n9,00065E9t9,00065F3t6,0006608es,0006618k8,0006627p1,0006635ur,0006644p8,000665cha,000666alp,000667dgj,000668dxt,0006693ho,00066A6cn,00066Bckz,00066Cakq,00066D2ww,00066E3j4,00066F74p,000670dou,000671c9a,0006728tu,000673ctm,000674ccv,0006751mc,00067691h,000677axu,00067834u,000679740,00067A6o6,00067Bdcx,00067C2s3,00067Dczn,00067Eebv,00067F3ku,0006802jo,000681560,0006822z2,0006831ze,0006841ug,0006858te,000686ep8,00068799c,000688d5o,000689f91,00068A8vg,00068Bvh,00068C16,00068Dasb,00068E5e5,00068Fd43,0006904c5,0006919lq,0006926jt,0006934nl,0006948b0,000695495,000696tc,000697a74,000698ezm,000699dxy,00069Aeyh,00069Bmk,00069Cdey,00069D9rk,00069Edk3,00069F75p,0006A08e5,0006A12lw,0006A287t,0006A31vq,0006A4630,0006A59hw,0006A617j,0006A79za,0006A86v9,0006A9do9,0006AAdt8,0006ABe2s,0006AC6j4,0006AD6v3,0006AE5pn,0006AFeib,0006B02x6,0006B1car,0006B27i2,0006B33kh,0006B4e1x,0006B5cbu,0006B68z4,0006B7cqa,0006B81md,0006B93r,0006BAea1,0006BBk3,0006BC7xu,0006BD1jd,0006BE1n1,0006BFoi,0006C0dns,0006C12s3,0006C2c8f,0006C3bch,0006C49uh,0006C562z,0006C6f4a,0006C7aai,0006C8cgi,0006C9d1c,0006CA110,0006CB6t5,0006CC6o5,0006CD7ea,0006CE37k,0006CFd80,0006D045d,0006D1cyw,0006D2dhg,0006D3zg,0006D46i8,0006D53ko,0006D62s3,0006D72s3,0006D87zs,0006D965x,0006DA68m,0006DB5y1,0006DCcjf,0006DDjl,0006DE4n3,0006DFa3,0006E07o9,0006E1d1o,0006E22ld,0006E3a65,0006E42s7,0006E54r2,0006E63op,0006E71vg,0006E89bq,0006E96jd,0006EA3wf,0006EB54u,0006EC5ma,0006ED6bj,0006EEbod,0006EF825,0006F03ku,0006F19bz,0006F29vo,0006F3o9,0006F49zc,0006F5ca,0006F62s3,0006F7ca,0006F8d8a,0006F98a8,0006FA65j,0006FB5qq,0006FC4nx,0006FD2vh,0006FE10u,0006FFbms,000700esq,000701a7f,000702dv8,0007032ft,000704ca,000705485,000706bb9,0007076ib,0007081vp,000709e9x,00070Admz,00070B910,00070Cb71,00070D2s3,00070E2s3,00070F4qs,000710r6,000711pu,0007126mc,00071365i,0007141zw,00071552a,0007166ls,000717ebc,000718f19,0007198ag,00071A4m8,00071B257,00071Cjn,00071Dbbr,00071Edfq,00071F4cf,000720dh2,0007214oi,000722d8n,0007233v3,000724d42,0007251t8,000726auq,000727euq,0007288rt,00072972w,00072A6f5,00072B6ti,00072C4jr,00072D2a3,00072E90e,00072F6jl,0007305vh,0007319b8,0007323v,000733364,00073494b,0007354n1,0007363h0,000737cbe,000738eo7,000739bdg,00073A64t,00073Bd68,00073Cd3e,00073D8pe,00073E2pb,00073Feeb,0007401l4,000741c3y,0007429d6,0007432nt,000744dmx,000745ael,000746cxv,00074782m,000748d8h,00074926c,00074A2k3,00074B3fe,00074C1o5,00074Deri,00074E65u,00074F2s3,0007502s3,000751f4d,000752aja,0007531qz,000754el1,0007557cq,0007566ty,000757dcs,0007583px,0007591y2,00075Av1,00075B53r,00075C41v,00075D2lo,00075E11b,00075Fdpz,000760cuk,000761j,00076258i,000763ch8,000764eo8,0007656q3,0007662qt,000767eoq,0007683g1,0007696lc,00076A8jv,00076Bcfj,00076C3f6,00076D4nd,00076Ec5w,00076Fckl,000770dlt,00077146i,000772xf,000773180,00077458y,000775dty,0007764kt,0007778cj,0007784vc,000779ch0,00077A6dl,00077B88n,00077Ce9r,00077D2s3,00077E45y,00077F6lu,0007801x9,0007816li,0007829ci,000783cjx,0007842s3,0007852s3,000786ecv,00078769m,0007882sz,000789z4,00078A84d,00078Be8p,00078C452,00078D8t3,00078E50x,00078F47d,000790dfr,0007916is,000792clq,000793c1f,000794c5n,00079545j,0007967bp,0007978uc,000798bf9,000799dbh,00079Adwi,00079B1bd,00079C563,00079D8dv,00079E6a6,00079Fpz,0007A0eyn,0007A1dqs,0007A29bf,0007A39da,0007A44xd,0007A5el6,0007A67fv,0007A755m,0007A85ig,0007A9914,0007AAa67,0007ABba7,0007AC49y,0007AD9qv,0007AE203,0007AFaha,0007B098g,0007B14af,0007B2dem,0007B32s3,0007B42s3,0007B513u,0007B6d3h,0007B7bad,0007B830m,0007B954i,0007BAdl7,0007BB2j2,0007BC69p,0007BDaee,0007BE3h5,0007BF16o,0007C08tj,0007C19dw,0007C28un,0007C3d9s,0007C46nc,0007C5516,0007C6dq3,0007C7cke,0007C81z4,0007C9d1y,0007CA31q,0007CB4i9,0007CCeyb,0007CD75j,0007CE2hh,0007CF13c,0007D01br,0007D1ccz,0007D27k0,0007D3b3j,0007D4etq,0007D51r,0007D62vs,0007D72ji,0007D85qz,0007D9cda,0007DA8vd,0007DB72r,0007DC19l,0007DD31a,0007DEeyv,0007DFdvf,0007E09nb,0007E1e5b,0007E21vv,0007E38r1,0007E4c98,0007E5314,0007E6ezj,0007E74q1,0007E8439,0007E96gz,0007EA80x,0007EB2s3,0007EC2s3,0007ED108,0007EEf7r,0007EF7j3,0007F07jc,0007F1d6h,0007F2650,0007F3d9k,0007F4456,0007F51zr,0007F6a5e,0007F750f,0007F8683,0007F9bg9,0007FA68q,0007FB53s,0007FCrl,0007FD77k,0007FEajn,0007FF55t,0008007x3,0008015p8,0008025om,00080330o,0008045xs,000805d1q,000806afc,000807ol,0008089jk,000809clh,00080A4b8,00080B1vd,00080Cdq0,00080Ddd6,00080E2vw,00080Fa1r,00081071j,000811dsm,0008124x3,0008133nn,000814cta,00081524p,0008161xa,00081746w,0008189v5,0008191mh,00081Abb8,00081Bec1,00081C2r,00081D6ku,00081Eaio,00081F9xh,0008202s3,0008212s3,0008226bb,000823d7s,00082491n,000825pe,0008262v0,0008276y,00082873n,000829cuc,00082A9yg,00082Beec,00082C5rr,00082D6c1,00082E8dq,00082F2s3,0008302s3,0008312s3,0008322s3,00084E3nv,00084Fa5s,00085016h,0008512iy,0008523i5,000853bci,0008548uf,0008558f8,00085650j,0008579wj,000858916,000859bo2,00085A6jc,00085B5j5,00085Cbjc,00085D8a0,00085E9g2,00085F9tn,0008607j7,000861c97,0008628gh,00086349h,0008644kr,0008656ms,0008663e6,000867dov,000868a2a,0008692vo,00086Abej,00086B7tt,00086C9vf,00086D89u,00086E5vq,00086Faiv,000870afq,0008718m9,000872cbd,0008733gd,0008743ix,000875pg,000876aqv,0008777gc,0008781tf,00087925u,00087Aeco,00087Bad8,00087C2s3,00087D2s3,00087E1xw,00087Fb30,00088020b,0008813b9,000882ay7,0008835om,0008846br,0008853wz,0008865ln,00088780u,000888974,0008893nl,00088A891,00088Bdgs,00088Ca5y,00088Dc46,00088E8xx,00088F8b,000890m4,0008917m3,0008923wh,000893780,0008946em,0008953bx,0008969zo,000897a5n,00089853y,0008998tp,00089Axa,00089B5yc,00089C44c,00089Ddj1,00089E1p0,00089F3u8,0008A0cfh,0008A12a4,0008A27i,0008A32s3,0008A42s3,0008A59qt,0008A68ds,0008A7f1o,0008A8cl2,0008A9bax,0008AA6up,0008AB488,0008AC1ku,0008ADddu,0008AE9mz,0008AF915,0008B05gv,0008B19zz,0008B2aub,0008B34kq,0008B4b8b,0008B5cml,0008B6aln,0008B75eq,0008B83sa,0008B9706,0008BA4az,0008BB8t5,0008BC6a5,0008BDcrm,0008BEegz,0008BF159,0008C0i1,0008C11d2,0008C22s3,0008C32ye,0008C45pc,0008C57i3,0008C69se,0008C75om,0008C8cam,0008C9d19,0008CAdhx,0008CBesk,0008CCai8,0008CDedl,0008CE65y,0008CF8z0,0008D08dw,0008D16ur,0008D2eqj,0008D35oe,0008D46cd,0008D5duu,0008D65cw,0008D75g8,0008D83pp,0008D989z,0008DAc94,0008DB30g,0008DCedu,0008DDd45,0008DE1n,0008DFyf,0008E0kd,0008E11mr,0008E22s3,0008E32s3,0008E449n,0008E55yz,0008E67io,0008E7awu,0008E84dg,0008E98x6,0008EA8co,0008EBac9,0008EC9bs,0008EDb4d,0008EE7jh,0008EF3aj,0008F08wz,0008F1e1v,0008F2221,0008F3e37,0008F41xc,0008F5elt,0008F6cgg,0008F75qm,0008F8dl3,0008F917d,0008FA6vk,0008FBcax,0008FC546,0008FD1x0,0008FEdjt,0008FFdga,000900ctx,000901bwv,000902ahm,0009039no,0009047vg,000905f2j,0009064bl,0009072r0,000908dtj,000909d48,00090Ac8t,00090B7ws,00090C827,00090D785,00090E5nn,00090F4ou,000910c5l,0009112s3,0009122s3,000913clc,0009142c9,00091524a,0009167ic,000917e3y,000918aoq,0009197pm,00091A7xm,00091B3lu,00091C2ho,00091Da14,00091E4mr,00091F2w,0009204a9,0009219vc,000922cxg,0009235mu,000924d39,000925dt1,000926em3,000927cvf,000928d3k,000929bbg,00092A7xj,00092Bf25,00092C5qy,00092D5gr,00092E1ez,00092Fwp,000930tk,0009314sf,000932997,0009339b9,0009343q5,000935bau,0009366kr,0009376k1,000938z2,000939c18,00093A8bp,00093B5i2,00093C6q2,00093D8wa,00093E220,00093F3pk,0009409r,000941ys,000942ecz,0009432s3,0009442s3,0009459ne,0009462to,0009471em,000948e04,00094955u,00094A5rx,00094B4m2,00094C2w3,00094D1z9,00094E1fp,00094Fezr,0009506bo,00095114f,0009521b4,0009537hm,000954e1,000955eo6,0009568v2,000957chs,00095863z,000959c6i,00095Aa7h,00095B8hv,00095C9sj,00095D3km,00095E80y,00095Fd3a,000960emm,000961cjc,000962cau,0009633of,0009645os,0009655w0,000966cwk,000967cyj,000968cp5,00096984k,00096A2tm,00096B5xb,00096C6aq,00096D9yc,00096E4vu,00096F1sm,000970dxp,000971db5,000972beg,0009737ff,0009746ez,000975f08,0009763hn,000977213,000978a5,000979sz,00097A7kp,00097B2s3,00097C2s3,00097Dbdy,00097E60x,00097Fe29,0009809xv,0009818we,0009827j8,00098355a,0009848e8,0009851bj,00098685b,0009878l6,00098891t,000989e0v,00098A4ad,00098B49i,00098C9c5,00098Ddvr,00098Ef3n,00098F2mq,0009905v,0009916hk,0009926i3,000993e06,00099432a,0009952kn,000996a97,00099790b,0009982jf,0009992ew,00099A3w3,00099Be9w,00099C8qz,00099D5iq,00099Ed7m,00099Fdr6,0009A087q,0009A1d4t,0009A26ii,0009A37e7,0009A45cq,0009A55ch,0009A669w,0009A71me,0009A841w,0009A96a0,0009AA3gn,0009AB8ts,0009AC77i,0009AD5i3,0009AE93a,0009AFeyo,0009B09a1,0009B1702,0009B276b,0009B37pa,0009B46wm,0009B51f,0009B62s3,0009B72s3,0009B849a,0009B9q0,0009BA7nf,0009BB814,0009BCdp2,0009BD4ab,0009BE7zd,0009BF8yt,0009C027,0009C19ki,0009C299z,0009C38hh,0009C483c,0009C56wc,0009C6dzz,0009C78d5,0009C8ayw,0009C91x4,0009CAf1r,0009CB5d2,0009CC8c0,0009CD5gw,0009CEccb,0009CFf16,0009D0c9i,0009D1asf,0009D27yt,0009D3e9s,0009D4dez,0009D5c49,0009D66x1,0009D7386,0009D8d4u,0009D98s3,0009DA2yq,0009DBez9,0009DC505,0009DD81j,0009DEba4,0009DFdx9,0009E0egx,0009E151n,0009E2c5u,0009E312q,0009E46u0,0009E55tc,0009E633r,0009E774,0009E82s3,0009E92s3,0009EAels,0009EB5tk,0009EC3fm,0009ED2rr,0009EE7q4,0009EFe1a,0009F0c1d,0009F1en0,0009F22ut,0009F3e3w,0009F4xj,0009F5474,0009F6bqy,0009F72i0,0009F8djv,0009F9hp,0009FB9sl,0009FC65t,0009FDdll,0009FE3fl,0009FFegf,000A00835,000A01b1m,000A02ep,000A033xc,000A0419,000A05eb4,000A06d3m,000A07e8i,000A08zs,000A09d0c,000A0Ab69,000A0Bbdt,000A0Cbd4,000A0D11o,000A0E6ke,000A0F6a8,000A104f4,000A114d7,000A121et,000A135sk,000A14cpg,000A15c4s,000A167dm,000A178h7,000A18dxs,000A19dua,000A1A6ar,000A1Bcfs,000A1C1zn,000A1D9bo,000A1Eahd,000A1Fhr,000A20b6z,000A216gl,000A2211n,000A239p8,000A24986,000A2526f,000A2625j,000A2714o,000A288cr,000A299nj,000A2Aa3c,000A2B4bq,000A2Cqd,000A2D2hl,000A2E7nn,000A2F17l,000A30e06,000A315d6,000A32ekg,000A3347k,000A3469o,000A35eju,000A36ckf,000A37a07,000A38143,000A397iz,000A3A6lz,000A3B4u2,000A3C48j,000A3D45u,000A3E3sl,000A3F3gs,000A4032j,000A412s3,000A422s3,000A432ra,000A441ct,000A451aq,000A46hm,000A47yw,000A48wz,000A494ek,000A4Ad0f,000A4B3h6,000A4C8bn,000A4D905,000A4Edkd,000A4F1z2,000A50a9q,000A515bd,000A5218d,000A536jr,000A547cs,000A557nw,000A565eu,000A575om,000A584qe,000A595hj,000A5A57p,000A5B9xw,000A5C2jw,000A5D4ma,000A5E16,000A5Few2,000A601c4,000A612lr,000A62325,000A633a8,000A644an,000A6552v,000A667u7,000A6799x,000A68c9r,000A69b6a,000A6Ab73,000A6Bcyq,000A6Ce6l,000A6D3ux,000A6E5m6,000A6Fevk,000A707w0,000A711dd,000A72b50,000A73bd2,000A747zk,000A752kv,000A761o6,000A771xg,000A7893g,000A79exi,000A7A760,000A7B309,000A7Cd2k,000A7Dduh,000A7Ed89,000A7Fd6s,000A80d55,000A81cpk,000A82cnl,000A83aob,000A84aey,000A859ih,000A867fg,000A876gu,000A886b5,000A89321,000A8A2s3,000A8B2s3,000A8C5b0,000A8D409,000A8E6jw,000A8F18i,000A901nd,000A915o1,000A929z5,000A93e2u,000A94biu,000A9514o,000A967r9,000A97b28,000A987ml,000A992hw,000A9Auz,000A9Bcnq,000A9Cbhw,000A9D72a,000A9E20c,000A9F9oj,000AA02lb,000AA1dpa,000AA2b8d,000AA3awz,000AA4atg,000AA57os,000AA65rb,000AA74fh,000AA8ez4,000AA920v,000AAA109,000AABddx,000AACd7c,000AADce8,000AAEalg,000AAF9uj,000AB07bh,000AB14uy,000AB24qd,000AB34jn,000AB43zw,000AB53lq,000AB62bo,000AB72s3,000AB82s3,000AB9191,000ABA15t,000ABBczc,000ABCbdo,000ABDam8,000ABE94w,000ABF5el,000AC04sl,000AC14sk,000AC2ef3,000AC3ez0,000AC43f8,000AC52uw,000AC69dw,000AC7dmu,000AC8eqs,000AC9era,000ACAema,000ACBeht,000ACCecf,000ACDchf,000ACEa7o,000ACF9lb,000AD08xz,000AD17x9,000AD26ni,000AD362k,000AD42zt,000AD51z6,000AD61nk,000AD79d2,000AD865r,000AD9cb5,000ADAdz0,000ADBdg9,000ADCalz,000ADDz7,000ADE5lu,000ADF52s,000AE04ri,000AE13ud,000AE21ut,000AE3elg,000AE4edb,000AE5bdf,000AE645j,000AE73vt,000AE82ky,000AE9vl,000AEA6t,000AEBcvj,000AEC73h,000AED5cs,000AEE4u0,000AEF971,000AF0ax1,000AF12sl,000AF28ru,000AF32s3,000AF42s3,000AF5vs,000AF62zg,000AF720l,000AF8117,000AF95ou,000AFAdf4,000AFB10v,000AFC2zs,000AFD716,000AFE90w,000AFF71w,000B004iu,000B0135q,000B023fs,000B03cys,000B04e1q,000B059mm,000B062vw,000B07e23,000B089u4,000B0969t,000B0Aexs,000B0B30f,000B0Cud,000B0Dv4,000B0Edf1,000B0F1yc,000B104,000B115ee,000B128nw,000B13epl,000B14dyh,000B159vn,000B162w0,000B177un,000B189zs,000B19dwt,000B1A6c7,000B1Bcln,000B1Caxs,000B1D7e0,000B1E6un,000B1F5w9,000B205pv,000B214st,000B2249p,000B23c3m,000B24vc,000B25tg,000B26ea3,000B27bd9,000B28a6h,000B297bm,000B2A5g9,000B2B5g7,000B2C43y,000B2D3g1,000B2E2hu,000B2Fewz,000B301pa,000B31ena,000B32dsr,000B33e0t,000B34bir,000B35a5j,000B36a0f,000B377nj,000B3873e,000B3970q,000B3A9h4,000B3Bey3,000B3C34b,000B3D2d6,000B3E1vt,000B3F13n,000B402ik,000B416dt,000B42exf,000B4387j,000B442xi,000B452s3,000B462s3,000B47sf,000B48f79,000B49aae,000B4Adzn,000B4Bdrs,000B4C2sj,000B4D47l,000B4E2w4,000B4Fdwf,000B509e8,000B51867,000B526oi,000B5362m,000B541uf,000B557l,000B56342,000B57c4v,000B58198,000B59bdj,000B5A5vs,000B5Bajs,000B5C8wi,000B5D4j0,000B5E1an,000B5F2s3,000B602s3,000B614qf,000B62f2q,000B636zt,000B6471s,000B65cje,000B66d6u,000B67dd0,000B68rj,000B694pl,000B6A18g,000B6Be5t,000B6Ccjj,000B6Db1u,000B6E8ro,000B6F82y,000B707j0,000B717id,000B727dy,000B7373l,000B7472k,000B756ko,000B763zn,000B772ug,000B78cmn,000B79egc,000B7A76j,000B7Bd7l,000B7C44j,000B7Db1z,000B7Eanz,000B7Fy9,000B807m4,000B81707,000B82576,000B8337h,000B841ji,000B852s3,000B865on,000B87114,000B88dyc,000B89dcm,000B8A7u3,000B8B6vz,000B8C4nf,000B8D1di,000B8E17x,000B8Faz,000B9082,000B91eka,000B9217z,000B93ak3,000B943m1,000B95eyu,000B966f2,000B9781c,000B988xn,000B99bg8,000B9Abls,000B9Bc6a,000B9Cdfv,000B9Ddhy,000B9Eend,000B9F8v9,000BA0clt,000BA14rc,000BA2cgg,000BA3c37,000BA4c1x,000BA5a6f,000BA68ad,000BA7801,000BA85c8,000BA92ta,000BAAux,000BABtb,000BAC19,000BAD9fy,000BAEe0h,000BAFe5y,000BB0cl0,000BB1chp,000BB2b09,000BB3ajb,000BB4a95,000BB5f58,000BB685c,000BB786h,000BB871t,000BB96az,000BBA5m6,000BBB4bu,000BBC47m,000BBD2y0,000BBE2s3,000BBF2s3,000BC02pe,000BC11n6,000BC2304,000BC38dp,000BC41i9,000BC5b0m,000BC6673,000BC75xy,000BC8v9,000BC944m,000BCA37g,000BCB4jw,000BCC6pi,000BCD5om,000BCE4pv,000BCF9q,000BD0ej8,000BD1tn,000BD2ai4,000BD3ex6,000BD41s6,000BD5927,000BD69q9,000BD7eyb,000BD86c8,000BD9525,000BDA4e9,000BDB3ix,000BDCav,000BDDcu5,000BDEcpy,000BDFbw6,000BE0bhl,000BE18zm,000BE27l5,000BE371i,000BE45t6,000BE55ef,000BE63hv,000BE72aw,000BE8f7,000BE9ps,000BEAevd,000BEBcl4,000BEC8l0,000BED3vy,000BEEf36,000BEF2u6,000BF08af,000BF177m,000BF22p2,000BF31fd,000BF49zs,000BF5blg,000BF68z8,000BF78kh,000BF86cl,000BF951m,000BFA412,000BFB354,000BFC2s3,000BFD2s3,000BFE24h,000BFF1tn,000C001gg,000C01ni,000C0243,000C035db,000C04d2e,000C05acq,000C068zd,000C0769u,000C085ha,000C095qi,000C0A59i,000C0B20j,000C0Cg6,000C0D2w5,000C0Eeks,000C0Fd1s,000C109j0,000C118kz,000C1286m,000C13833,000C143kg,000C1533x,000C162xj,000C17ap,000C18erz,000C19d51,000C1Aa6p,000C1B95r,000C1C86w,000C1D85z,000C1E54s,000C1F54q,000C204l6,000C214jv,000C223pi,000C231q8,000C24e6,000C25yu,000C26e8x,000C27ba5,000C28aav,000C29dsd,000C2A92w,000C2B3vp,000C2C49u,000C2D4rq,000C2E9b2,000C2Fbhc,000C302s3,000C312s3,000C321cy,000C332ws,000C34e15,000C356zl,000C36amu,000C37534,000C38d31,000C39bh2,000C3A9e2,000C3B9d4,000C3C832,000C3D55r,000C3E31z,000C3F2ue,000C40105,000C412s4,000C4288b,000C43835,000C441bs,000C45136,000C46yv,000C47azj,000C48a56,000C493g5,000C4A34d,000C4B2ow,000C4C15v,000C4D33b,000C4Eeby,000C4Fdiw,000C50bdq,000C51bd5,000C52al5,000C539zs,000C549qh,000C55875,000C5683w,000C577n2,000C587mk,000C596cb,000C5A5xh,000C5B5ci,000C5C4z6,000C5D27g,000C5E2ie,000C5F1de,000C605x,000C6151,000C6244,000C63es2,000C64egg,000C65ch3,000C66a0x,000C6797h,000C68c47,000C698qo,000C6A7oz,000C6B75r,000C6C4cm,000C6D43h,000C6Ejj,000C6F11z,000C7056,000C71eg4,000C72d5s,000C73cr7,000C74abc,000C759d1,000C767rz,000C777gh,000C786b3,000C794e0,000C7A3f5,000C7Bc5,000C7C6iz,000C7Dcpj,000C7Ed5c,000C7Ff7f,000C809af,000C81bcm,000C828j1,000C837jn,000C84426,000C852s3,000C862s3,000C87d5,000C88142,000C8950,000C8A1yh,000C8B2xu,000C8C6xc,000C8D1m4,000C8E84e,000C8F8sh,000C90985,000C91ak7,000C92edy,000C93eim,000C94dno,000C959zf,000C9695p,000C978o0,000C9878w,000C995ey,000C9A5qv,000C9B3u3,000C9C2qh,000C9Ddlg,000C9E84b,000C9F8lj,000CA0cf6,000CA1ay8,000CA25m7,000CA3af4,000CA4a0w,000CA58ot,000CA689e,000CA785r,000CA850w,000CA942a,000CAA32w,000CAB2vp,000CAC2s9,000CAD1l3,000CAEus,000CAFcwf,000CB0cdz,000CB1b9w,000CB2djx,000CB3aco,000CB41bl,000CB59yz,000CB68f4,000CB78p6,000CB87pv,000CB9781,000CBA6q8,000CBB67i,000CBC6l2,000CBD6ij,000CBE6ex,000CBF5rp,000CC051t,000CC1422,000CC22yz,000CC31nh,000CC4dbi,000CC58xf,000CC66zk,000CC76hd,000CC8el2,000CC960g,000CCA5e2,000CCB3js,000CCCtp,000CCD5zc,000CCE2s3,000CCF2s3,000CD0cjr,000CD1asx,000CD2bcc,000CD39z7,000CD49xb,000CD59pw,000CD69fd,000CD78or,000CD87mo,000CD96ld,000CDA4py,000CDB20r,000CDC1gi,000CDDf8,000CDE43,000CDF6mb,000CE0dfb,000CE1d8p,000CE2al7,000CE39c4,000CE48ve,000CE52vw,000CE64ou,000CE7835,000CE858s,000CE91is,000CEAew9,000CEB2a0,000CECb9d,000CEDagh,000CEEf3y,000CEF945,000CF07mh,000CF16gz,000CF24tj,000CF3238,000CF4au,000CF56d9,000CF6c6h,000CF790b,000CF890b,000CF9ekz,000CFA3me,000CFB74t,000CFCanf,000CFD5w4,000CFE56z,000CFF7w5,000D00bdx,000D019ec,000D028gl,000D03816,000D044pc,000D05exo,000D062wt,000D072ib,000D08o0,000D09eog,000D0A1mp,000D0B1l4,000D0C7pk,000D0D68p,000D0E6fu,000D0F4mc,000D1046p,000D11393,000D12my,000D13ebm,000D14e2c,000D15e1k,000D16dj2,000D17dhk,000D1883o,000D19abs,000D1A8e1,000D1B761,000D1C11a,000D1D5e7,000D1E2yu,000D1Fln,000D20i4,000D21e5e,000D22dny,000D23c7t,000D24as5,000D25aou,000D269z9,000D277se,000D282s3,000D292s3,000D2Abc6,000D2Badi,000D2C7db,000D2D8g2,000D2E81b,000D2Fa9,000D3069e,000D312wh,000D323np,000D339yw,000D34bmt,000D359em,000D36eex,000D37e54,000D388la,000D398vj,000D3A87m,000D3B871,000D3Cf11,000D3D5iz,000D3Efq,000D3Fdtd,000D40dwh,000D41c3b,000D428w5,000D433dl,000D441am,000D45ddk,000D469pj,000D472uu,000D489g,000D49dgn,000D4Aceh,000D4Bal4,000D4C9ds,000D4D8yg,000D4E8g8,000D4F719,000D50509,000D513c7,000D522v8,000D531o9,000D5419,000D55ap4,000D563ix,000D574rf,000D589zs,000D5911h,000D5Adau,000D5Bc7q,000D5Cakj,000D5Dafk,000D5E8gk,000D5F890,000D605xb,000D6153u,000D624ru,000D63392,000D642am,000D652s3,000D662s3,000D674at,000D68dyz,000D69cty,000D6Aaht,000D6B89w,000D6C7mm,000D6D6u6,000D6E6u5,000D6F46q,000D703hf,000D71ewy,000D72r,000D73d1f,000D74ban,000D7573i,000D765rh,000D774k2,000D7848n,000D793rc,000D7A3ke,000D7B2y2,000D7C2ua,000D7Dtx,000D7E1dz,000D7F7sy,000D809a3,000D819r1,000D829hm,000D83bb7,000D847z6,000D85d0b,000D865u7,000D8745j,000D8834z,000D891uq,000D8Aecd,000D8Bcls,000D8Cblz,000D8Da12,000D8E73k,000D8F729,000D904ju,000D9142m,000D92ha,000D9314o,000D949h,000D959bh,000D96e2d,000D975qd,000D98anb,000D999cu,000D9A626,000D9B5od,000D9C6u8,000D9D5om,000D9Ecu8,000D9Faa7,000DA08gr,000DA17tw,000DA26dp,000DA346z,000DA43d7,000DA54jq,000DA6dod,000DA79zs,000DA8d4m,000DA962g,000DAAan0,000DAB9pg,000DAC6qf,000DAD3hl,000DAEaop,000DAF9vw,000DB098s,000DB16qn,000DB211j,000DB3aqu,000DB4cff,000DB54wy,000DB620l,000DB7aoy,000DB8aq1,000DB99ft,000DBA98d,000DBB8yy,000DBC2s3,000DBD2s3,000DBE1su,000DBFd2r,000DC0ccd,000DC1b98,000DC29zs,000DC34mn,000DC446u,000DC542f,000DC63kx,000DC72ed,000DC8ve,000DC9csa,000DCAcz7,000DCB9rl,000DCC8h3,000DCD4yl,000DCE3rj,000DCF2rh,000DD0d7p,000DD1cg3,000DD2c5r,000DD3aos,000DD4cjn,000DD592b,000DD668d,000DD71zt,000DD81g5,000DD913q,000DDAbx,000DDBah,000DDCdpm,000DDDa0h,000DDE6tb,000DDF6ql,000DE05yf,000DE12yr,000DE229u,000DE3jm,000DE43ay,000DE5bab,000DE6emi,000DE7c8q,000DE88qg,000DE98qa,000DEA72i,000DEB2w7,000DEC2s3,000DED2s3,000DEE12n,000DEFc8y,000DF0a2t,000DF1657,000DF29zs,000DF318j,000DF4e7b,000DF5d4l,000DF6d22,000DF7cc7,000DF8967,000DF98g9,000DFA86c,000DFB73y,000DFC68a,000DFD5u8,000DFE5mf,000DFF27b,000E001ae,000E01ik,000E02t9,000E0347k,000E0429g,000E05e58,000E06d0t,000E07cb5,000E082s4,000E09bq7,000E0Aao7,000E0B8tk,000E0C6gz,000E0D5ok,000E0E3yv,000E0F3yr,000E1022b,000E111gf,000E12qy,000E13ou,000E14dzv,000E15cyr,000E16cbz,000E179zs,000E188e7,000E197jk,000E1A6om,000E1B5x4,000E1C5ia,000E1Dhb,000E1Ea32,000E1Fco0,000E205c,000E217ww,000E229zs,000E236bk,000E245vk,000E255lb,000E2654h,000E2731x,000E283rb,000E29c17,000E2Aeyc,000E2Bb93,000E2C8tq,000E2D5w2,000E2E43f,000E2Faku,000E3091,000E3198t,000E3274j,000E33c26,000E348wn,000E356gz,000E365dj,000E375m9,000E382s3,000E392s3,000E3A2s0,000E3B5ml,000E3Cdeo,000E3Dd4o,000E3Ecgr,000E3Fcbf,000E4090b,000E418kk,000E428cm,000E434sv,000E443le,000E451qt,000E468y1,000E478fx,000E487i5,000E494oo,000E4A2n3,000E4Bewe,000E4C1ts,000E4D91y,000E4Ee7u,000E4Fdec,000E50d9u,000E51cp9,000E529c6,000E53lo,000E54zi,000E55lm,000E5620,000E576lq,000E58caz,000E59b9l,000E5Acq9,000E5B9pk,000E5C2vw,000E5Ddgi,000E5Eaez,000E5Fevx,000E6012,000E617st,000E6290b,000E637f2,000E6445w,000E65dej,000E665qk,000E67467,000E683s5,000E692p6,000E6A19,000E6B6qa,000E6C3k4,000E6D8dt,000E6E7oa,000E6F66n,000E70f32,000E7151l,000E72bi2,000E73de0,000E74c9n,000E758vz,000E764uq,000E773ik,000E78120,000E7911r,000E7A51f,000E7Bdd6,000E7Cd4n,000E7D44x,000E7Ef3j,000E7F5om,000E80d9t,000E813k6,000E826d4,000E832s3,000E842s3,000E852kq,000E86xb,000E87evy,000E88dr5,000E89291,000E8A1cl,000E8B18x,000E8Cc37,000E8Dclk,000E8Eccg,000E8Fbhm,000E909j7,000E918r3,000E929aq,000E9388s,000E947xk,000E954rk,000E9632u,000E97dme,000E985f6,000E99ccx,000E9A1jk,000E9B10t,000E9C1tc,000E9Ddbl,000E9Edcv,000E9Fcrf,000EA08t8,000EA14om,000EA282b,000EA329w,000EA4a66,000EA51ir,000EA6jj,000EA7482,000EA8dnu,000EA9bmb,000EAAbc3,000EAB31e,000EAC7to,000EAD85e,000EAE4tw,000EAF24g,000EB0cad,000EB18w8,000EB286n,000EB35om,000EB44zk,000EB542b,000EB6ak6,000EB773c,000EB869z,000EB95cv,000EBA5cf,000EBB4cs,000EBC9p1,000EBD21g,000EBE1ew,000EBFai9,000EC090b,000EC17xe,000EC27kr,000EC37je,000EC46l6,000EC53m3,000EC6in,000EC78cv,000EC8eva,000EC9em6,000ECAe69,000ECBdz2,000ECCcyg,000ECDazu,000ECEan9,000ECF9kq,000ED09zr,000ED19d8,000ED24m4,000ED34a5,000ED42f6,000ED52ds,000ED62s3,000ED72s3,000ED89xa,000ED9wr,000EDA22a,000EDBej9,000EDCd5b,000EDDaxn,000EDEa9p,000EDF9iv,000EE082g,000EE14e4,000EE233g,000EE32q9,000EE41jk,000EE5ewv,000EE6rq,000EE73t,000EE8eux,000EE9e80,000EEAbie,000EEBbas,000EEC9co,000EED8zl,000EEE8dd,000EEF9zs,000EF04l5,000EF141k,000EF26cq,000EF3c8d,000EF470a,000EF5f1y,000EF63s4,000EF7e2f,000EF8apn,000EF9a9a,000EFA9cc,000EFB7xo,000EFC6p3,000EFD4iz,000EFE481,000EFF83u,000F007em,000F013bm,000F023l2,000F032ak,000F04exb,000F0515,000F0690b,000F077zg,000F086bn,000F099zs,000F0A2so,000F0B717,000F0Cb7r,000F0D5v8,000F0Ee7p,000F0Fagi,000F10a99,000F11a0c,000F129o4,000F138z5,000F1488w,000F1569h,000F166my,000F176g9,000F186c5,000F191yk,000F1A50m,000F1B43p,000F1C3lc,000F1D30s,000F1E2of,000F1F3ix,000F205om,000F21bd2,000F225nm,000F232s3,000F242s3,000F25ut,000F26eem,000F27cok,000F286lj,000F291b5,000F2A2hk,000F2B4yf,000F2C7db,000F2D27v,000F2E83t,000F2Fe2r,000F30ag9,000F31yx,000F327kh,000F333ef,000F342s3,000F352s3,000F36oy,000F37eid,000F388ul,000F3966o,000F3A5ep,000F3B4qt,000F3C483,000F3D34z,000F3E2jp,000F3F1ui,000F409bp,000F41euz,000F42eic,000F43e71,000F44dbr,000F45cfy,000F46ayx,000F47abw,000F489wv,000F4990i,000F4A769,000F4B9ci,000F4C45b,000F4Dczv,000F4E2lq,000F4F9g5,000F50cfv,000F511eo,000F52emc,000F53c9r,000F5449g,000F553hu,000F562yj,000F5722u,000F58re,000F599sv,000F5A9rb,000F5B3j8,000F5C3i9,000F5D52l,000F5Edw6,000F5F8xp,000F607gn,000F615om,000F62x6,000F6397v,000F6434v,000F65f2s,000F662s4,000F67e9l,000F68dve,000F69asq,000F6A90b,000F6B511,000F6C78,000F6D87x,000F6E1g9,000F6F4il,000F70eci,000F71bb5,000F72bar,000F73acv,000F74a43,000F754mq,000F763lw,000F77394,000F783h9,000F791xe,000F7A1o4,000F7B15r,000F7C6l,000F7Dek3,000F7Enw,000F7Fdip,000F80dgd,000F819ez,000F828ce,000F831z7,000F8419a,000F8579,000F861w6,000F8781u,000F88di,000F89ece,000F8Aeb7,000F8B9d5,000F8C54c,000F8D4f3,000F8E3d5,000F8F2s3,000F902s3,000F91ts,000F92873,000F937d5,000F9452l,000F953v9,000F96d30,000F971cg,000F981cf,000F99fb,000F9Ackb,000F9Ball,000F9C9of,000F9D3ns,000F9E8du,000F9F2vw,000FA02j8,000FA153z,000FA2u,000FA3zc,000FA4cde,000FA51li,000FA6and,000FA7afj,000FA89t2,000FA99fu,000FAA8xk,000FAB768,000FAC5zl,000FAD4h4,000FAE3se,000FAF3ki,000FB02wb,000FB12ui,000FB220g,000FB3q7,000FB4dbc,000FB58hv,000FB64cg,000FB72l5,000FB82i9,000FB9qx,000FBAd7q,000FBB8zo,000FBC9a0,000FBD7wa,000FBEeyq,000FBF3a4,000FC038q,000FC1e3c,000FC2dol,000FC39nd,000FC48n6,000FC571l,000FC64cb,000FC73n9,000FC82nf,000FC9z0,000FCA33,000FCB19,000FCC2vw,000FCD90b,000FCE71v,000FCF3h8,000FD0jf,000FD1150,000FD240u,000FD33mz,000FD4cbq,000FD5bcw,000FD6bbk,000FD75m3,000FD84oa,000FD94n9,000FDAell,000FDBe9p,000FDCdm0,000FDDb2j,000FDEcb5,000FDFb20,000FE08g5,000FE15yn,000FE25k3,000FE33fw,000FE49oo,000FE57qk,000FE67p4,000FE77lt,000FE87j1,000FE94zt,000FEA4w0,000FEB34f,000FEC56j,000FED12f,000FEEei3,000FEFd86,000FF0chd,000FF1f5h,000FF27ko,000FF36th,000FF45b9,000FF54xf,000FF636d,000FF72s3,000FF82s3,000FF9dtw,000FFA9c3,000FFB8yx,000FFC84o,000FFD55n,000FFE4sr,000FFF2yx,00100022t,0010012s6,0010026e,00100360o,001004csf,001005dix,001006d83,0010072s3,001008dr7,0010095fx,00100Ae4l,00100B2s3,00100C68h,00100D2s3,00100E7rt,00100F61o,00101062l,0010112s3,0010129kk,00101374f,0010142s3,00101594o,001016cm5,0010171y4,00101820l,001019az2,00101A9tz,00101B2e5,00101C935,00101De4t,00101E7oj,00101F2s3,0010205j9,0010213xa,001022bbo,0010238uw,0010248eu,00102557c,00102659,00102776d,0010282c3,0010292s3,00102Aepp,00102Bdjd,00102C7di,00102D5ev,00102E8j0,00102F2s3,0010303un,00103192m,001032cg,0010335d,0010344xh,00103545j,001036642,0010372h8,00103886g,001039dvk,00103A3ae,00103B5ei,00103C5xm,00103D9ha,00103E8i5,00103Fcuh,00104064f,0010411ka,001042wu,0010433m,0010446eh,00104590b,001046bh,0010473t4,0010485gs,001049c22,00104Ad8q,00104B16,00104Cd3p,00104Db6u,00104E26d,00104F9ci,001050ab2,00105129l,0010527r8,0010532c4,0010542s3,0010554j3,001056b1d,001057agx,001058175,0010593a9,00105A16,00105B8h9,00105Ca3q,00105D3pt,00105Ecd9,00105Feqd,0010601hy,0010615g6,0010628o3,001063b4r,0010643cq,001065a7y,0010668a,0010674at,0010682bb,0010695dl,00106A3bc,00106Bb2d,00106C3tu,00106D1eb,00106Ecme,00106Fcwd,00107023w,0010718p,0010724zs,001073cox,001074jv,001075bev,001076405,001077anu,0010788nq,0010792s3,00107A10q,00107B2s3,00107C9ee,00107Dl9,00107E1fb,00107F2f7,0010807r0,0010813db,0010826o9,0010835om,0010846u3,0010859j4,001086kp,001087ehy,001088dd,001089e8f,00108Ad6k,00108B77s,00108C4rg,00108D6sy,00108E5gz,00108Fa8e,001090289,0010918lr,0010928hp,00109329r,0010949ra,001095d9s,001096cvv,001097ebw,001098b4t,0010996ei,00109A8hy,00109B47k,00109C7rc,00109D28v,00109Emo,00109F9fn,0010A062y,0010A16vt,0010A2cu1,0010A393v,0010A4ehh,0010A597c,0010A62s3,0010A7djh,0010A8a9o,0010A97h,0010AA7pp,0010AB6xg,0010AC60s,0010ADb1k,0010AEax9,0010AFcmc,0010B07qm,0010B14hf,0010B22a5,0010B38lw,0010B4ka,0010B5ot,0010B63xt,0010B72et,0010B867e,0010B97ov,0010BA7o4,0010BB36q,0010BCng,0010BDcsp,0010BE7nq,0010BF6i0,0010C0hi,0010C1937,0010C2e4m,0010C32fv,0010C47po,0010C59l8,0010C6do8,0010C736y,0010C82b7,0010C97u8,0010CAd30,0010CB4en,0010CC29a,0010CD648,0010CEdsn,0010CF4fr,0010D0e5l,0010D1dcn,0010D28ld,0010D34yi,0010D4b5i,0010D560m,0010D64dl,0010D7h7,0010D8237,0010D95xc,0010DA73w,0010DB6tm,0010DC7rz,0010DD3x9,0010DE64h,0010DFab6,0010E09ci,0010E1an8,0010E216w,0010E35om,0010E48n2,0010E5b1v,0010E6g1,0010E71zj,0010E8cr2,0010E9a87,0010EA7d,0010EBarw,0010EC46h,0010EDb63,0010EE2gd,0010EF385,0010F0ab9,0010F15wm,0010F2ex,0010F38ws,0010F4dx5,0010F5dk,0010F62s3,0010F766m,0010F8cs4,0010F9dk4,0010FA14o,0010FBeq2,0010FC1kf,0010FD2aa,0010FE3b7,0010FF2s3,001100bcl,00110126j,0011021bc,001103f40,001104cqr,001105chc,001106c3r,001107aan,0011089ct,00110986r,00110A5om,00110B4po,00110C1a5,00110Daot,00110Edhc,00110Ff5g,00111081t,0011116gz,0011125s9,0011134pq,0011144cr,0011153y9,0011162ej,00111726h,0011181j1,001119cac,00111A2vw,00111Bd0g,00111C9vt,00111D5mw,00111E1ey,00111F3pe,0011202s3,0011212s3,00112228b,001123152,00112414o,0011255xb,001126dw1,001127cni,001128cfx,0011299ou,00112A8y4,00112B8tc,00112C69a,00112Df24,00112E25k,00112Fjj,001130yt,001131djf,001132ckk,001133c38,001134831,001135574,00113656g,001137a0,001138cms,001139b5h,00113Aax4,00113B87c,00113C87a,00113D6x0,00113E6nz,00113Fx8,0011408q0,00114156c,001142eyk,0011433ix,00114418w,001145dun,001146d3b,001147be1,001148a0s,001149a0q,00114A6v2,00114B4pk,00114Cex4,00114D1af,00114E26,00114Fdkx,0011501t4,0011518eb,00115243u,001153dg4,001154e8l,001155bi8,0011569s1,00115798k,00115890b,0011597oc,00115A6lm,00115B45j,00115C2s3,00115D2s3,00115E9zy,00115F68x,001160hs,0011618tf,001162b4n,001163b8g,00116455,001165eqb,001166cyt,0011676gw,0011685rv,0011693x0,00116A3oi,00116B3ln,00116C8q9,00116D118,00116E9r0,00116F8tx,0011704yp,00117139v,0011722ek,001173b0d,0011748bm,0011756gz,0011766h7,0011772ty,0011782q5,001179c60,00117Ac5z,00117B21w,00117Ceyr,00117Deq9,00117E881,00117F8s8,0011802vw,0011816i2,00118260w,0011833he,0011845uv,0011855om,0011869ze,0011872kt,001188497,001189tr,00118Adym,00118Bxd,00118C89t,00118D5j8,00118E5iu,00118F40c,0011903lo,0011912gi,0011922s3,0011932s3,0011942oz,00119534z,001196qg,0011978bu,0011989zq,001199t,00119Ayi,00119Bd4g,00119C3y4,00119D3l7,00119Ec9u,00119F8zl,0011A0e2b,0011A1drm,0011A27zp,0011A37d0,0011A46p2,0011A54ow,0011A6cko,0011A76cj,0011A8a6q,0011A9920,0011AAdmw,0011ABcx3,0011ACc5s,0011ADblb,0011AE2vw,0011AF837,0011B04oq,0011B11wz,0011B2f,0011B3emg,0011B4e9r,0011B5bvq,0011B69ap,0011B7984,0011B87gd,0011B96ec,0011BA45a,0011BB2s3,0011BC2s3,0011BD1xv,0011BE9w,0011BF9a,0011C0r8,0011C123,0011C2dnp,0011C3deq,0011C4d78,0011C5crg,0011C6bdq,0011C7ag2,0011C89y6,0011C97wv,0011CA7k3,0011CB6q1,0011CC5a3,0011CD1e7,0011CEdlu,0011CFd9y,0011D0d05,0011D1c96,0011D29r5,0011D38x5,0011D48t4,0011D55ku,0011D65ja,0011D7ezb,0011D8jj,0011D9da9,0011DAe0p,0011DB7d3,0011DC55s,0011DD4ie,0011DE406,0011DF336,0011E0dia,0011E115s,0011E25tn,0011E3d9s,0011E43g0,0011E56vc,0011E6bd2,0011E7e65,0011E8dbs,0011E9b4u,0011EA696,0011EB6ff,0011ECma,0011ED2f,0011EE4bj,0011EF2xq,0011F0eba,0011F1a4h,0011F26gc,0011F38rv,0011F4f8q,0011F5ip,0011F618a,0011F7brk,0011F8ad,0011F990b,0011FAaf7,0011FB5n8,0011FC5cs,0011FD6xr,0011FE70t,0011FF3mx,0012002s3,0012012s3,0012023ij,001203q8,001204f82,001205d7d,001206f26,0012075mp,00120850o,0012094ko,00120A472,00120B2pu,00120C25c,00120Dsy,00120Eny,00120F5zm,001210eb6,001211a16,0012129is,00121385u,00121473o,001215f2g,0012165yd,0012172s4,001218hx,00121951v,00121Ad1n,00121Bcbj,00121C9fa,00121D8tv,00121E6tm,00121F5ly,0012202hr,0012211f5,001222c6o,0012239v6,0012248wp,0012252vw,0012266qj,0012274pm,0012283gk,00122920a,00122Adtk,00122Bdz7,00122Cc93,00122Dc2g,00122Ec4e,00122Fbav,0012309to,0012318cp,0012327e4,0012336on,0012342iu,00123512m,0012362xc,001237d7u,001238bi4,001239aml,00123A9xf,00123B70j,00123Cbe2,00123D4ve,00123E3yt,00123F3ix,001240dq,001241evt,00124288k,0012432s3,0012442s3,001245ert,001246cm3,001247ba7,0012483iy,0012493j6,00124A3im,00124Bd7u,00124C1g8,00124D6c0,00124Eegk,00124F2nv,001250dc1,001251ayl,0012522sb,0012531as,001254ccq,0012558t1,001256799,0012577eb,001258d12,001259csr,00125A87m,00125B6ug,00125C57i,00125D33v,00125E232,00125Fmr,001260cdv,001261r3,0012628zl,0012633h1,001264ey0,001265489,001266cj8,0012679nq,001268662,001269duk,00126A95g,00126B17t,00126Ce02,00126Ddoh,00126Ebf1,00126Fag4,0012708k3,00127182i,001272ahq,001273cf0,0012748lc,001275bh1,00127626q,0012771o7,0012786im,0012795om,00127Abbh,00127Bdqn,00127Cb78,00127D8au,00127E3lx,00127F2s3,0012802s3,001281802,001282a5d,00128390b,0012847cl,00128554m,0012863xd,0012873ls,001288r,001289s3,00128A2vw,00128Bbgv,00128Cee6,00128Db4x,00128Ea2l,00128F8bz,0012906zf,0012916z2,00129258d,0012934k,001294b5z,001295wd,001296rg,00129792g,0012987rn,00129975a,00129A66w,00129B3sf,00129Ceoi,00129D4mo,00129Eci3,00129Fa80,0012A08rw,0012A11x2,0012A2drv,0012A3dh0,0012A4d9g,0012A53od,0012A63ob,0012A767n,0012A8f3c,0012A919,0012AA5zf,0012ABeas,0012AC94c,0012ADds2,0012AE5f2,0012AF3w6,0012B043l,0012B13fb,0012B2mh,0012B3s5,0012B4eeg,0012B5dxn,0012B6bbb,0012B79m3,0012B84t1,0012B94s1,0012BA4ij,0012BBd3i,0012BC42h,0012BD1ci,0012BE18z,0012BF15q,0012C05ta,0012C12nl,0012C2148,0012C3e5k,0012C4dzk,0012C5dpd,0012C6cs7,0012C7ar9,0012C89r7,0012C92vw,0012CA82o,0012CB2g4,0012CC1vl,0012CDig,0012CEsb,0012CFot,0012D056m,0012D1d7u,0012D2d7u,0012D3eso,0012D49zl,0012D58cq,0012D66s5,0012D76k7,0012D86it,0012D92s3,0012DA2s3,0012DBeq4,0012DCcgs,0012DDboa,0012DEae3,0012DF91g,0012E02u5,0012E1yp,0012E2b4,0012E3u8,0012E4eq3,0012E5db3,0012E6b36,0012E7a0m,0012E84pr,0012E9nj,0012EAdef,0012EB9ga,0012EC8d1,0012EDly,0012EEcb5,0012EF99q,0012F06gz,0012F1600,0012F220r,0012F3f81,0012F41sw,0012F56ao,0012F67pl,0012F7ejn,0012F8e5u,0012F9dkt,0012FAct0,0012FBba7,0012FC9id,0012FD95c,0012FE7fd,0012FF7f1,00130067w,0013016kz,0013026gz,001303510,0013044n0,0013054a6,00130610i,0013079pc,001308923,00130997y,00130A90b,00130B861,00130C5dy,00130D4tf,00130E4o2,00130F3ui,0013102s4,0013112vw,00131210x,00131358x,00131418f,001315cb9,00131676l,0013174xd,0013183a3,0013192s3,00131A2s3,00131B1nf,00131C7ih,00131Dbc9,00131Ef5u,00131F929,0013206gz,0013215om,00132236b,0013232jd,001324bcs,00132530k,0013263t9,0013273gl,001328e9o,001329dt6,00132Ac6l,00132B9ss,00132C7ox,00132Df2n,00132E68z,00132F6i5,001330407,0013312lk,0013321rr,0013331mz,00133416i,001335dsx,001336dab,0013379cz,0013384ib,001339251,00133Adts,00133Bcd0,00133Ca3y,00133D86e,00133E858,00133F4aa,0013406s,001341bik,001342dzq,00134381d,0013444ke,001345422,00134634z,001347aha,00134817g,001349evs,00134A48m,00134Bdbt,00134Celn,00134D6ce,00134Edui,00134Fafh,001350c58,0013518y8,0013528rb,0013535hq,001354erf,001355cui,0013564gu,001357cc4,001358agt,001359a02,00135Aa0l,00135B9og,00135C99i,00135D8nl,00135E3sj,00135F2s3,0013602s3,0013611v7,001362c1h,001363dw9,0013649ot,00136590b,0013668up,0013678qf,001368b8x,0013695s1,00136A5ib,00136B3s1,00136Cdc8,00136Dd6c,00136Ed18,00136F9n2,0013708zl,0013712vw,0013723ix,0013731j3,00137419s,001375115,001376cyh,001377ba7,001378a5f,0013799j6,00137A8uq,00137B8d7,00137C6zq,00137D3r9,00137E2zk,00137F2s3,0013802s3,00138127l,0013822mp,00138314q,001384sm,001385ra,0013864c,001387i,001388eau,001389ahh,00138Aa4m,00138B9ry,00138C75k,00138D72c,00138E4h9,00138F18g,001390d79,001391973,001392alx,0013939on,0013946de,001395exh,001396o8,0013979ci,001398dea,001399b4g,00139A6u7,00139Bf3h,00139C4df,00139D81n,00139E2re,00139F44w,0013A0bp,0013A132i,0013A281p,0013A3c3m,0013A471k,0013A552d,0013A64e5,0013A71fu,0013A8d09,0013A9cb5,0013AAcb,0013ABd44,0013ACch6,0013ADbfx,0013AEadt,0013AF8nt,0013B06q0,0013B16he,0013B22jn,0013B342u,0013B414m,0013B5e7w,0013B6c7j,0013B7bc8,0013B8amd,0013B91j4,0013BAagf,0013BBc8j,0013BC17h,0013BD5ht,0013BEdzd,0013BF82z,0013C0dgp,0013C118l,0013C2e2y,0013C32s3,0013C42s3,0013C579p,0013C69au,0013C7659,0013C86y,0013C91u8,0013CAkr,0013CBes1,0013CCczw,0013CD7wr,0013CE6gz,0013CF1y,0013D0f7j,0013D16wj,0013D29ev,0013D37rz,0013D4jj,0013D5alz,0013D6ct9,0013D7b3n,0013D89zj,0013D9818,0013DA3no,0013DBaxh,0013DC5xk,0013DDnk,0013DEqv,0013DFamf,0013E08dt,0013E16kt,0013E2531,0013E32ts,0013E4elh,0013E5crk,0013E6d23,0013E75in,0013E86gz,0013E9dwd,0013EA6zz,0013EBcky,0013EC8uj,0013ED9lj,0013EE6n2,0013EF72d,0013F0e7s,0013F1dp,0013F2732,0013F353v,0013F4a21,0013F5wo,0013F62rq,0013F7b0m,0013F83ka,0013F92l4,0013FA7gl,0013FBabf,0013FCc2d,0013FD8zl,0013FE4y7,0013FF3fa,0014007ti,001401ak9,001402f42,001403aib,0014042vw,0014059av,00140655w,001407cd3,001408441,0014097nb,00140Ae3z,00140B4gd,00140C4wg,00140D90b,00140E90b,00140F4kv,001410cik,0014113k1,001412amt,001413df6,0014146te,0014156gj,001416bde,001417acx,00141822n,001419axx,00141A38n,00141B2s3,00141C2s3,00141D6vm,00141E9eg,00141Fcgu,0014204sq,001421ddi,0014223ix,0014236lx,00142484u,001425504,0014268ln,0014276qw,001428e1b,001429dp7,00142A45j,00142B42x,00142C743,00142Ddd2,00142E2a,00142Fbbw,001430dxb,0014319gb,001432d0d,00143347i,00143471a,0014352se,001436a73,0014374yz,0014385on,0014391wf,00143Aa8s,00143Bbgw,00143Caj7,00143Dtw,00143Eva,00143F5te,001440kh,0014416f9,001442ko,0014432y8,00144458m,001445d3t,001446chr,0014471je,0014486k4,001449c2r,00144Acze,00144B5p0,00144C528,00144D6hm,00144Eb42,00144F9ci,0014505nc,00145114o,001452236,0014538s,001454cjv,0014552u7,001456434,0014578vj,0014585gm,0014598c6,00145Ae9q,00145Bbes,00145C6jr,00145De5p,00145E5xb,00145F7k,00146075y,0014612e8,0014623n1,0014635yq,00146432n,00146591f,001466733,001467176,0014682lf,0014692s3,00146A2s3,00146B127,00146C8hv,00146Daa9,00146E5bl,00146F73q,001470a0n,00147141t,0014722p3,0014731xz,0014746uc,001475ebn,0014768di,001477dg9,001478cvj,0014798gi,00147A4c0,00147B6lf,00147C19,00147Dth,00147E6ee,00147Fd9u,0014805qt,0014818dm,0014821bd,001483ezd,0014842ml,00148553t,00148642d,001487116,001488wq,0014891f7,00148A45f,00148B55f,00148C51y,00148D32v,00148Ed32,00148Fa1f,001490it,0014913g7,0014927il,001493cll,0014943zj,001495r,0014969sy,001497epw,001498dyq,0014995nj,00149A2vw,00149B8zs,00149C5dx,00149Dcbk,00149Edle,00149Fcla,0014A0os,0014A1cka,0014A22zq,0014A3e0m,0014A45rz,0014A551n,0014A6d6v,0014A78zl,0014A82s3,0014A92s3,0014AA186,0014ABbg4,0014AC1yq,0014AD50y,0014AEedt,0014AF3hr,0014B08ok,0014B11dn,0014B2f4f,0014B32zw,0014B451z,0014B59hn,0014B6496,0014B7gl,0014B85ph,0014B97wn,0014BA2kd,0014BB9ai,0014BCb7s,0014BDf37,0014BEeca,0014BF2s4,0014C0cju,0014C1dig,0014C25om,0014C3bdq,0014C4e0l,0014C5yg,0014C6a6x,0014C790b,0014C82yd,0014C920r,0014CA71h,0014CB7gm,0014CCesm,0014CD3mp,0014CE8k1,0014CF64x,0014D01l0,0014D1cwc,0014D2765,0014D3asd,0014D46u1,0014D53hi,0014D66r5,0014D73hp,0014D8ews,0014D965g,0014DA5vd,0014DB45r,0014DC2w2,0014DD316,0014DEb9h,0014DF5e4,0014E078v,0014E13gr,0014E2exy,0014E3f4y,0014E4f38,0014E510a,0014E6a7,0014E7cf1,0014E82vw,0014E9909,0014EAamh,0014EB1dj,0014ECpl,0014EDvn,0014EEe9t,0014EFcye,0014F021l,0014F12s3,0014F22s3,0014F3dxe,0014F43iw,0014F596o,0014F66tm,0014F72f9,0014F8bd2,0014F9duw,0014FA17o,0014FBd1e,0014FC4dz,0014FDd92,0014FE17a,0014FF9yr,0015006gz,0015017fy,0015021ho,0015039kr,0015044ti,001505q7,0015068rs,001507aia,001508553,0015099w3,00150Acay,00150Bany,00150Cmd,00150D5r9,00150E94s,00150Ff4u,001510d2a,0015113gm,001512evh,0015133ub,0015145tj,0015157ex,001516dkr,0015176gz,001518boh,001519cfe,00151A5va,00151B6l4,00151C78q,00151D7mt,00151E1ey,00151F8dr,001520aed,0015215t1,0015223if,00152385j,00152491x,0015252my,001526ai7,0015271m0,0015281nj,0015298em,00152A8zj,00152B2s3,00152C2s3,00152Dd5x,00152E9n0,00152F2vw,0015303iy,0015316x9,0015322y9,0015338eq,0015342t,00153596x,0015369yd,001537dw5,001538aag,001539d1x,00153Abxp,00153B3ws,00153C750,00153D3vr,00153Ea2p,00153Fx5,00154090b,001541cfl,0015427sa,001543np,001544exe,001545arj,00154668c,001547uo,0015482gl,0015493o1,00154Ae36,00154Bee0,00154Cbbt,00154D8ug,00154E5zb,00154Ff5q,0015508z9,001551aeb,001552eah,00155334r,00155419h,00155539y,001556b9l,00155798r,0015584i1,001559bea,00155A35v,00155Bba6,00155C3qa,00155D87m,00155E8c8,00155F57q,0015605om,0015616nx,0015622s3,0015632s3,0015641go,001565eh7,00156632,001567a7x,0015683n4,0015699ge,00156A3a0,00156B9r9,00156Caov,00156Ddlp,00156E3e,00156Fek1,001570eri,0015718zt,001572ahc,0015738w3,0015745t0,0015758vk,00157676v,001577ys,0015781al,0015797ln,00157Ad3s,00157B7ft,00157C3hz,00157D9jc,00157Ee8r,00157F2r1,001580dic,0015817ng,001582a23,001583693,001584bcf,00158513z,001586ejk,001587czp,001588b9x,001589353,00158Ab6r,00158B9pd,00158C7g3,00158D6r2,00158E9w4,00158F8ng,0015905mx,001591abi,0015924jt,001593dii,0015941ij,001595a6r,0015962vw,0015979c,00159873u,001599ba7,00159A2vw,00159B90b,00159C1f3,00159Ddgj,00159E7xx,00159Fd6w,0015A08zl,0015A13sz,0015A22vw,0015A32vw,0015A42vw,0015A5387,0015A63lr,0015A7akd,0015A82vw,0015A96yx,0015AAaj4,0015AB9kc,0015AC2je,0015ADoa,0015AEf45,0015AF1er,0015B0lj,0015B110r,0015B2sh,0015B32jy,0015B49wu,0015B5282,0015B6c1i,0015B7dd6,0015B8cyv,0015B9ba7,0015BAf2r,0015BBb08,0015BC3k2,0015BD58h,0015BE6kv,0015BFf7q,0015C03bi,0015C1cb9,0015C21j,0015C3aly,0015C44gw,0015C53ix,0015C62s3,0015C72s3,0015C84nb,0015C95b7,0015CAd6n,0015CBci2,0015CCdkq,0015CD4dd,0015CE2vw,0015CF2vw,0015D02vw,0015D12vw,0015D2eif,0015D39op,0015D447b,0015D58kc,0015D696r,0015D7aiz,0015D86ik,0015D99i9,0015DA66q,0015DB2j3,0015DC6ya,0015DD65e,0015DE8zl,0015DF2t1,0015E04at,0015E19tw,0015E23ps,0015E33q3,0015E4eut,0015E52nq,0015E67ux,0015E7a60,0015E890b,0015E934z,0015EA5oc,0015EBf94,0015EC1xm,0015ED4rm,0015EE98z,0015EF8gm,0015F03uj,0015F16z6,0015F2jj,0015F39gi,0015F44cn,0015F5ci7,0015F6aqc,0015F7ecj,0015F872j,0015F92s3,0015FA2s3,0015FBf6c,0015FC7in,0015FD2wm,0015FEaq2,0015FF6fw,0016002ln,0016011l4,00160226o,0016032dp,001604c4k,001605emd,00160669n,00160733d,001608bhi,001609dnm,00160Ab77,00160Bcy6,00160C7bi,00160D1ne,00160E9bm,00160F1fc,0016102k2,001611106,0016129dh,0016137ga,0016149tx,0016158za,0016161kl,0016177wk,0016185ez,0016197d2,00161A3fv,00161B87b,00161Ceyt,00161D6fi,00161Eeea,00161Fb6i,001620cb5,0016212v1,0016221g2,0016236ja,001624d64,0016256aw,0016262vw,001627ezs,0016287yc,0016298zc,00162A13o,00162Bdbx,00162Ceie,00162Db5g,00162Ecca,00162F53h,001630dvc,001631ekk,001632ba7,0016339e3,001634815,0016355om,001636a5w,00163728k,001638cph,001639dlo,00163Aemw,00163B2w4,00163Cagz,00163Ddh7,00163Eeit,00163F2fl,00164018k,001641do8,0016429oh,001643ch2,0016447ab,001645422,0016462s3,0016472s3,001648b46,001649bi3,00164Adxq,00164Ba71,00164C9ic,00164Dxe,00164E8zl,00164Feej,001650753,0016514do,0016525ra,00165378k,0016544n8,0016554in,0016568yt,001657tf,0016584s8,001659eox,00165A5m4,00165B58e,00165Cde3,00165Dv6,00165E9yt,00165F4jz,00166090b,001661918,0016627iw,0016636v7,001664a0b,0016652lt,001666a63,00166738,001668440,0016697w8,00166Acvm,00166Bba7,00166Cba7,00166Deoj,00166E15k,00166F6gz,001670azs,001671cjt,001672esb,00167321j,0016744c8,0016752vw,0016766gz,0016771un,001678au1,001679ez2,00167Ac7e,00167B5mg,00167Cf28,00167Dc6x,00167E3ak,00167F1x6,0016801m5,001681dvi,001682940,001683e3r,0016843pa,00168545h,001686709,0016872r4,001688bhx,0016899u3,00168Af2t,00168B9p4,00168C3e0,00168D6xs,00168Edyw,00168F4xd,0016906ly,0016918ch,001692bd6,0016939y2,001694bg6,001695lv,001696a2u,0016978gc,001698clr,001699dci,00169Aa5l,00169Bzw,00169C2s3,00169D2s3,00169Ecxy,00169Fdyx,0016A01bk,0016A11g,0016A22m4,0016A362g,0016A44ed,0016A5d06,0016A63pn,0016A7mq,0016A82gt,0016A9m,0016AA70o,0016AB3gb,0016ACdby,0016AD1kw,0016AE64t,0016AFbyk,0016B0ds8,0016B16v6,0016B23qd,0016B39t7,0016B49zs,0016B52vw,0016B62s4,0016B7bhd,0016B8cb5,0016B99zu,0016BAe3n,0016BB7dx,0016BC8zl,0016BDk2,0016BE629,0016BF9ng,0016C0bfn,0016C144z,0016C21df,0016C31fa,0016C4c2h,0016C5bzo,0016C690d,0016C72s3,0016C82s3,0016C98fe,0016CA90b,0016CB14o,0016CCeil,0016CD5eb,0016CE5rz,0016CF5rz,0016D0ks,0016D1ep9,0016D22kk,0016D3edb,0016D42wa,0016D5ck8,0016D6co9,0016D7chm,0016D8bfz,0016D98kr,0016DA4sc,0016DBba7,0016DCgt,0016DD53x,0016DE4f0,0016DF7lp,0016E019,0016E1c52,0016E2111,0016E3ip,0016E4dps,0016E54hk,0016E64w0,0016E73rf,0016E87li,0016E9dao,0016EA6gz,0016EB6gz,0016EC45j,0016EDdp2,0016EEalt,0016EF73t,0016F03ix,0016F1994,0016F23o4,0016F324f,0016F443t,0016F53fp,0016F68vj,0016F776i,0016F8m7,0016F926m,0016FA3t6,0016FBavj,0016FCcu3,0016FD6qt,0016FEca,0016FFe6s,0017002vw,0017016vh,0017029de,0017037vp,001704c1l,00170585m,001706d15,0017076b7,0017085om,0017094db,00170A61v,00170B2yc,00170Cdhw,00170D3r1,00170E2s3,00170F2s3,0017101ec,00171134q,001712676,001713dax,0017141k2,001715a5h,001716a55,0017177er,001718duv,0017191av,00171Aec4,00171B6f8,00171C8n8,00171D3az,00171E1tj,00171F617,0017206ae,0017214gk,0017225j4,001723cgk,001724cg5,0017257i7,001726f4e,001727d9a,001728bfe,001729dlh,00172Aa1l,00172B554,00172Ccmh,00172D1dl,00172E4jk,00172F8v7,0017301bx,001731jj,001732bcz,001733asz,00173475,0017356h0,001736f2x,0017376ca,0017386io,0017391zu,00173A2tc,00173B2s3,00173C4e2,00173D8rz,00173E7fr,00173F1t5,0017401wl,00174138l,0017424j0,0017433ii,00174415f,00174562s,0017464q3,001747dgc,0017488ry,0017495hz,00174Ab1c,00174B8zl,00174C88p,00174D3f0,00174E9p9,00174Ff1a,0017504ys,0017519a2,00175235o,001753f56,00175416j,0017554ug,001756dyy,001757abd,001758da1,0017592s3,00175A2s3,00175B6b,00175Catl,00175D3p9,00175Eerk,00175Fegy,0017608oo,0017619zs,001762c9m,0017634bf,001764kb,00176590b,001766oj,00176741p,001768euv,00176934g,00176A1cb,00176B731,00176C9ur,00176D2dy,00176E3eg,00176F9fo,00177017f,001771fg,001772jg,0017737cv,001774455,001775cxl,001776852,00177797u,0017782m7,001779a6t,00177Aj0,00177B1eh,00177Cc8e,00177D5z6,00177E850,00177Feer,00178014r,001781580,0017827ix,001783d7u,0017842vw,001785cci,001786f8p,00178720z,0017889si,001789es3,00178A36f,00178Bd3q,00178C6bq,00178D2nm,00178E5b8,00178F8kv,0017905i0,0017917hb,0017924k1,001793day,0017942s3,0017952s3,001796ak4,001797d5h,0017981ej,001799c7n,00179A34z,00179B270,00179C39b,00179D70v,00179Ec68,00179F155,0017A0akr,0017A11v,0017A22iv,0017A37uf,0017A45om,0017A5835,0017A6emh,0017A78am,0017A83tr,0017A9bh5,0017AAezp,0017AB8yt,0017AC92a,0017ADp5,0017AE4ta,0017AF48h,0017B08zl,0017B15s,0017B2azi,0017B3u2,0017B4ai5,0017B59qm,0017B615b,0017B7dck,0017B88mj,0017B950k,0017BAarh,0017BBckr,0017BCddp,0017BDdaq,0017BEdf2,0017BF2up,0017C0a2b,0017C129f,0017C26y,0017C36yc,0017C4a5x,0017C5cap,0017C632b,0017C77no,0017C86z8,0017C9ba7,0017CAa53,0017CB6tm,0017CCxc,0017CD25e,0017CEbdh,0017CFf1p,0017D09bu,0017D190b,0017D2csv,0017D34bz,0017D48bv,0017D5ba7,0017D61x8,0017D7654,0017D87yr,0017D93w,0017DAcce,0017DB23m,0017DC35h,0017DD2t0,0017DEt8,0017DF2s3,0017E02s3,0017E135c,0017E22vw,0017E3d7u,0017E4d7u,0017E5d7u,0017E6d7u,0017E7d7u,0017E8d7u,0017E9d7u,0017EAd7u,0017EBd7u,0017ECd7u,0017EDee4,0017EE2vw,0017EF5xb,0017F0b8v,0017F1aim,0017F214o,0017F35ma,0017F4epi,0017F579m,0017F6a2i,0017F725v,0017F88ck,0017F94od,0017FA87m,0017FB4el,0017FCchz,0017FD121,0017FEcn4,0017FF9ik,001800djs,001801q7,001802zc,00180315n,0018043s3,0018051pv,0018065rf,0018074k8,001808c42,0018092f8,00180A2s1,00180B1zz,00180Ceu0,00180Dd6o,00180E1co,00180F8zl,001810664,0018118vh,0018121sd,001813cb5,0018148ab,0018154zz,001816dlw,001817356,0018182s3,0018192s3,00181Amn,00181Bcyy,00181Cdrz,00181Dii,00181E4u8,00181F9ne,001820f8i,001821ayy,00182225d,0018233j4,00182471x,0018259zs,0018262hz,0018278gn,001828eys,001829515,00182Aczf,00182Bc99,00182C17u,00182D179,00182Eehz,00182Fd7u,001830d7u,001831d7u,001832d7u,001833d7u,001834d7u,001835d9w,001836a9l,001837dnz,0018389nl,0018392s4,00183Ae9p,00183B25w,00183C47z,00183Ddx2,00183E3l5,00183Fr,001840w,0018415p4,0018428zl,0018433i6,0018445mq,001845a22,00184632l,001847p6,001848dvh,001849f5a,00184A2ks,00184B7dh,00184C1xs,00184D8hv,00184E7g6,00184F2e,001850bdz,001851b7c,001852cf7,00185319o,001854166,001855tm,0018564ea,001857dnb,001858cyu,001859cfr,00185Af84,00185B8us,00185C3tz,00185Dcmo,00185E8xd,00185Fcmb,001860ayn,0018619ab,001862bdq,001863dwl,001864422,001865c3l,0018667fs,0018673he,0018682s2,0018696wd,00186A54z,00186Bba1,00186C8s0,00186Detw,00186E19,00186Fbi5,0018703sd,0018715om,0018724dv,0018732s3,0018742s3,001875124,001876eeu,00187711t,0018787xq,001879exu,00187Aed5,00187B22,00187C645,00187D16p,00187Eaao,00187Feqe,00188081x,00188121p,0018825gu,0018834hr,0018844o5,0018858cx,0018863uy,00188785f,0018884y0,001889ebx,00188A6d6,00188B3ix,00188C8aj,00188D8zl,00188E442,00188F8bx,001890aea,001891eu8,001892evz,001893avq,0018948mq,0018955ll,00189657f,0018976nj,0018986wg,001899bo8,00189A5c7,00189Bd9s,00189Ce93,00189D8r0,00189E93s,00189F7f6,0018A02rj,0018A1dbj,0018A2ehg,0018A3eq7,0018A42vw,0018A58u,0018A69rh,0018A7enu,0018A8123,0018A94bo,0018AAa15,0018AB1gw,0018ACbk7,0018AD8kg,0018AEcy5,0018AFba7,0018B090b,0018B15xb,0018B27e,0018B3cop,0018B43i8,0018B57yf,0018B6ang,0018B7359,0018B88vx,0018B92s3,0018BA2s3,0018BB45k,0018BCep7,0018BDaug,0018BEeu,0018BF4be,0018C02vw,0018C1z8,0018C24mj,0018C32fn,0018C4adh,0018C58zl,0018C695n,0018C7agk,0018C867l,0018C93y3,0018CAdz5,0018CBd2g,0018CCn2,0018CD4ao,0018CE3q8,0018CF1m1,0018D019g,0018D1c3m,0018D25p6,0018D3con,0018D4dn2,0018D5a9k,0018D6cj4,0018D76mw,0018D8gp,0018D9bbd,0018DAegb,0018DB3yb,0018DCa13,0018DDc53,0018DE6gz,0018DFd8l,0018E0e7,0018E1dws,0018E2dcu,0018E3e09,0018E4elw,0018E5rp,0018E62wz,0018E72is,0018E85i9,0018E991w,0018EAz5,0018EB1ws,0018ECe94,0018EDp0,0018EEdy5,0018EF4b2,0018F06ol,0018F12rb,0018F21rp,0018F3jj,0018F43xy,0018F5bxf,0018F6d9u,0018F76zw,0018F82s4,0018F9dtm,0018FAeop,0018FB2wp,0018FC104,0018FD9c1,0018FE5om,0018FF9y3,0019006hv,0019014ei,0019022ii,0019031ul,001904e3k,001905aq6,0019062s3,0019072s3,0019083qp,00190939p,00190A5cx,00190Bcc0,00190C47x,00190D5zg,00190E19j,00190Ft3,001910738,0019116tu,001912e91,0019132r2,001914ec9,001915cph,0019169qc,0019179x7,0019186i9,001919ja,00191A66t,00191Bcdg,00191Cbgj,00191D8yt,00191E1ua,00191F876,0019206ym,00192145j,00192229d,0019239sx,00192477y,0019256h6,0019261vs,0019276aa,001928c3f,001929p,00192A13p,00192Bpc,00192C2vw,00192D8zj,00192Eccr,00192F2s3,0019302s3,0019311m3,0019325b1,001933cfz,001934cwa,0019353eh,001936b55,0019372vq,001938dje,001939544,00193A932,00193B7h2,00193C5p7,00193D4x5,00193E6y,00193Fa98,001940adl,0019419uo,001942943,0019431sx,0019444p6,001945aa2,0019462rd,0019472s2,001948vp,001949crl,00194Acs0,00194Bb9l,00194C4r7,00194D1cb,00194Edm8,00194F8zl,0019505m2,0019518hn,00195261,0019532mv,0019547e9,0019552s3,0019562s3,001957b8y,0019581xf,001959cdm,00195A6r1,00195B34z,00195C6f1,00195Dbo3,00195E2vw,00195Fdtx,0019603o5,0019611wa,0019622vr,001963cb5,0019643pb,001965eod,00196618g,001967cpx,0019683mj,00196990b,00196A88a,00196B3ga,00196C3zz,00196Dafx,00196E859,00196Fbgm,001970eou,0019715ap,0019729vv,001973esr,0019749,0019751pt,001976ek0,0019774e3,0019783hy,0019798zl,00197A7oy,00197B9ty,00197Cajk,00197D5rz,00197E5rz,00197F9ig,00198058a,001981e13,001982c7m,00198324z,0019843zg,00198567v,0019862nz,0019879o9,001988eal,001989cav,00198A90j,00198B91b,00198Cf2o,00198D97z,00198E3jg,00198F8zk,0019903vz,001991ewh,001992rx,0019932n7,0019946t4,0019956tr,001996dhl,001997c95,001998aph,0019994rj,00199A3tv,00199B3nx,00199C2gf,00199De17,00199E8xv,00199F3cd,0019A08ki,0019A1799,0019A2964,0019A3ewd,0019A41bf,0019A5adp,0019A62vw,0019A768t,0019A8eav,0019A92s3,0019AA2s3,0019ABafy,0019AC4yw,0019AD1jf,0019AE5sz,0019AFajq,0019B05j2,0019B1174,0019B2ei9,0019B3cdr,0019B46hq,0019B54k3,0019B64c6,0019B78zl,0019B81yp,0019B93ix,0019BA9oy,0019BB5om,0019BC3va,0019BD8vt,0019BE102,0019BF2s8,0019C02vw,0019C1ca,0019C24al,0019C3a5r,0019C46dd,0019C5cb9,0019C6f94,0019C72il,0019C813w,0019C9amo,0019CA20d,0019CBevs,0019CCa91,0019CD2ot,0019CEa0k,0019CFao9,0019D02kz,0019D16gz,0019D26gz,0019D3cvx,0019D45ym,0019D565h,0019D67bk,0019D74hu,0019D87op,0019D9est,0019DAe9b,0019DB7rz,0019DC3xg,0019DD4fi,0019DE7uz,0019DFd9s,0019E0cvj,0019E190b,0019E26tm,0019E314o,0019E4r,0019E57ma,0019E6cvc,0019E72s3,0019E82s3,0019E9ams,0019EAd6l,0019EBa2j,0019ECb9e,0019ED1dq,0019EE244,0019EFavb,0019F0djz,0019F1cdw,0019F2d6t,0019F32mr,0019F42z5,0019F56ai,0019F6oo,0019F79a6,0019F846j,0019F9coc,0019FA2he,0019FBazx,0019FC9m0,0019FD8yt,0019FEavx,0019FF4md,001A007oe,001A015yk,001A02ara,001A0312p,001A046ic,001A05954,001A069ad,001A07160,001A08c5i,001A09e82,001A0Aqz,001A0B1jq,001A0Ccj0,001A0D5jb,001A0E2o0,001A0Fht,001A107by,001A1156h,001A124bh,001A13e6w,001A14ejv,001A15f0i,001A168zl,001A17d0p,001A18st,001A192wy,001A1A52w,001A1B2vw,001A1C4z1,001A1D9g8,001A1E5on,001A1F2tw,001A2029p,001A2120u,001A22ez6,001A2369d,001A24508,001A2538w,001A263jd,001A27dlv,001A28jk,001A296sz,001A2A15q,001A2B1ee,001A2Capd,001A2Dd8m,001A2Eeuy,001A2F2s3,001A302s3,001A31apw,001A326g,001A33ih,001A34749,001A351fo,001A36uw,001A377ef,001A38bb6,001A3984v,001A3A3oq,001A3B3o7,001A3Cd27,001A3Dwg,001A3E4km,001A3F6h3,001A4031,001A41632,001A42d14,001A437jm,001A446pr,001A454xd,001A463m2,001A47u6,001A48czi,001A4986k,001A4Aa6z,001A4B5om,001A4C32e,001A4D4w0,001A4E8nc,001A4Fmd,001A509s5,001A51xw,001A52851,001A53evo,001A545ps,001A5553,001A56dyj,001A57817,001A58252,001A596kw,001A5A74q,001A5B8sy,001A5C4c1,001A5D8b1,001A5Ed9e,001A5F72x,001A60e7h,001A619mf,001A623gy,001A63460,001A645xb,001A65bfg,001A662vw,001A676cy,001A68e9e,001A69efm,001A6Adf0,001A6Bdo8,001A6C2s3,001A6D2s3,001A6E6ax,001A6F7rg,001A702s4,001A713na,001A728cg,001A7351n,001A74a05,001A75cb5,001A76aqw,001A772vw,001A78f87,001A79cq5,001A7A7ib,001A7Bd3d,001A7C5pz,001A7Dexm,001A7E7aq,001A7F4u1,001A80cb5,001A81err,001A829kg,001A839qn,001A84dp8,001A858o1,001A868vy,001A872j4,001A88dvy,001A898zl,001A8Aba7,001A8B27w,001A8Ccbb,001A8Dlw,001A8E1o,001A8F90b,001A90dh4,001A914s7,001A92jj,001A933yk,001A94e21,001A955q3,001A963t8,001A97f0c,001A9818n,001A99c8l,001A9Ac7d,001A9B7c,001A9Cajp,001A9Dc6q,001A9E5y8,001A9F35,001AA03ix,001AA12s3,001AA22s3,001AA338t,001AA44sg,001AA51kd,001AA6449,001AA7dd4,001AA87zc,001AA94it,001AAA12a,001AABezc,001AAC300,001AAD2vw,001AAEbbu,001AAF1j0,001AB0c4b,001AB118b,001AB233q,001AB3drr,001AB44fo,001AB55rt,001AB6d7u,001AB74bt,001AB813g,001AB958k,001ABA2l0,001ABB4o8,001ABCdii,001ABD6at,001ABE2bw,001ABFcx1,001AC06oh,001AC119,001AC2elq,001AC3bd6,001AC4r,001AC571n,001AC686b,001AC7dk1,001AC867j,001AC9b6y,001ACAdb1,001ACB1bq,001ACC2lh,001ACDdat,001ACEemu,001ACF22j,001AD0x2,001AD14ey,001AD2457,001AD3duq,001AD4f1z,001AD56ww,001AD66np,001AD72qv,001AD8zu,001AD96in,001ADA1vy,001ADB2vw,001ADC8zl,001ADD9qf,001ADE2vw,001ADF6ia,001AE08ef,001AE13tn,001AE22s3,001AE32s3,001AE483b,001AE58e4,001AE619w,001AE71en,001AE8dn7,001AE98yt,001AEAae9,001AEBys,001AEC71d,001AED61d,001AEEc15,001AEF7kg,001AF0xe,001AF146e,001AF23rk,001AF3baf,001AF45jf,001AF59go,001AF6eet,001AF7exz,001AF82zh,001AF9tl,001AFAe92,001AFB6sv,001AFC8bh,001AFD40o,001AFEb1e,001AFFedv,001B008s2,001B0114w,001B023th,001B03q3,001B04u0,001B05em1,001B0619n,001B0784c,001B083g2,001B097of,001B0A6hh,001B0B9s8,001B0C2s3,001B0D2s3,001B0E6fm,001B0F9rp,001B10bnf,001B1134z,001B12153,001B1369i,001B142jz,001B15e24,001B162lx,001B179nf,001B18dhb,001B195zn,001B1Aeyp,001B1Bc37,001B1C2uo,001B1D9su,001B1E5cp,001B1F4hh,001B20cvs,001B216gz,001B229n9,001B23c5o,001B24a5w,001B2590b,001B26aca,001B2784r,001B289j5,001B291ck,001B2A2s3,001B2B2s3,001B2Ckn,001B2D82r,001B2Ec61,001B2F8hv,001B30ca7,001B318vb,001B32a32,001B338zl,001B344o0,001B352qe,001B36dha,001B372wx,001B382bf,001B39a1p,001B3Aayt,001B3Benl,001B3Cc9f,001B3D4ca,001B3E338,001B3F9zu,001B408ur,001B41526,001B42ed7,001B431ot,001B44bak,001B4545,001B461xb,001B474sa,001B48bu9,001B49akp,001B4Ae2p,001B4Baow,001B4Cc4j,001B4D15z,001B4E8r8,001B4F1cm,001B508ze,001B51dvj,001B522vw,001B532s3,001B542s3,001B555ve,001B56d2o,001B57arz,001B585l,001B59cb5,001B5A14i,001B5Br,001B5C1es,001B5De1s,001B5E1jy,001B5Fy6,001B608fm,001B613lf,001B626no,001B6314o,001B646l1,001B652pc,001B66bg7,001B672s3,001B688bd,001B694ae,001B6A9yh,001B6Bcjd,001B6C7kd,001B6D886,001B6E71n,001B6Fd4j,001B7066l,001B71d5m,001B72c2n,001B733ea,001B7489k,001B755vu,001B76ak0,001B776gz,001B785om,001B794eu,001B7A8yt,001B7Bd8v,001B7C2s,001B7D2gv,001B7E1nv,001B7Fctv,001B807bg,001B8137c,001B82czd,001B834me,001B84bc5,001B854cw,001B861y4,001B873ir,001B883ny,001B893x7,001B8Ao,001B8B8gl,001B8C6o8,001B8D44o,001B8E5uo,001B8F2s3,001B902s3,001B913u7,001B92f46,001B936n3,001B94cm1,001B95dr0,001B9652c,001B97dz4,001B98ba7,001B996y3,001B9A14h,001B9B5t2,001B9Capf,001B9D91j,001B9Eip,001B9F2if,001BA01dk,001BA1f96,001BA25z4,001BA34nc,001BA4amz,001BA58eg,001BA6f3f,001BA77km,001BA8dim,001BA920y,001BAAeio,001BABd2z,001BAC33a,001BADf1d,001BAE86c,001BAF8zl,001BB01uc,001BB1e5t,001BB26h8,001BB32xl,001BB4w5,001BB52ox,001BB61va,001BB7zz,001BB81iz,001BB945j,001BBA90b,001BBBaal,001BBCc57,001BBD4h3,001BBE5yb,001BBFb9l,001BC06tm,001BC15fh,001BC26go,001BC38b2,001BC4dmf,001BC55zq,001BC6cfp,001BC7ce3,001BC87ud,001BC94ik,001BCA1r6,001BCB9gj,001BCC6wh,001BCD37t,001BCE82j,001BCF3ht,001BD05yv,001BD1b1l,001BD2dja,001BD39nx,001BD42s3,001BD52s3,001BD670y,001BD72s2,001BD84gv,001BD943d,001BDAdl7,001BDBdu8,001BDCdvx,001BDD2vw,001BDEaij,001BDF6l5,001BE0cqh,001BE1dxh,001BE2uk,001BE35ms,001BE4cv9,001BE52g,001BE6dsv,001BE79xe,001BE8dmg,001BE920l,001BEA8yt,001BEB3cn,001BEC8u3,001BED20r,001BEE8zl,001BEF1wh,001BF0dul,001BF18pn,001BF26z1,001BF3cw3,001BF46vx,001BF5d5a,001BF62dn,001BF77lo,001BF83mw,001BF96ht,001BFA4t0,001BFBca,001BFCjj,001BFD3n2,001BFEere,001BFF88j,001C0049k,001C014e,001C029ok,001C031u5,001C04vr,001C058zx,001C06c3t,001C0733k,001C0842e,001C09anm,001C0Abol,001C0Bc7w,001C0Ccnc,001C0D4su,001C0E2s3,001C0F2s3,001C102s4,001C112vw,001C122vw,001C1395k,001C14dsd,001C15f21,001C16da5,001C1790b,001C18c2o,001C19f6a,001C1Ad9p,001C1B5vv,001C1C2lz,001C1D27c,001C1Eezt,001C1Fa6n,001C2028y,001C2191s,001C22tj,001C233ix,001C244on,001C255rz,001C265rz,001C27cgy,001C28cd4,001C292dz,001C2A49q,001C2B5r2,001C2Cck1,001C2D4na,001C2E5gg,001C2F9rv,001C308bb,001C318as,001C32d4v,001C33ci9,001C345gx,001C358zl,001C36f1v,001C372ia,001C381uw,001C39amm,001C3A453,001C3B10j,001C3Cbha,001C3De7q,001C3E3t7,001C3F6iw,001C40dq1,001C41f68,001C429p6,001C43ba7,001C4444g,001C452ny,001C46a3g,001C475k6,001C48eap,001C49ev5,001C4Amd,001C4B51s,001C4C9rs,001C4D14d,001C4Ecng,001C4F7n0,001C50co1,001C512lg,001C52drp,001C53cki,001C545pj,001C55bty,001C569n5,001C572s3,001C582s3,001C5939r,001C5Asr,001C5B2r5,001C5C6gt,001C5D7es,001C5Ejd,001C5Fecb,001C602g1,001C61506,001C62798,001C63cwz,001C647d5,001C656sw,001C66diq,001C67a29,001C68131,001C699mv,001C6Ae90,001C6B2eo,001C6Cx,001C6D6zb,001C6E8w7,001C6F478,001C708mf,001C7146x,001C72828,001C7316e,001C74clo,001C75bew,001C76d8x,001C77a0g,001C78e6g,001C792ur,001C7A9r8,001C7B2ko,001C7C9h1,001C7D4dh,001C7Edd6,001C7F2nl,001C808vm,001C818x4,001C8252k,001C838vs,001C84b5a,001C854c3,001C8631c,001C87doy,001C88cw6,001C894ob,001C8A2rz,001C8B7uj,001C8C3aa,001C8D84x,001C8Exe,001C8Fse,001C9047e,001C9151c,001C92d7f,001C934d8,001C9479g,001C959bv,001C967hy,001C9749v,001C987c0,001C99c27,001C9A8zl,001C9B4fj,001C9C90b,001C9D7ge,001C9E3qo,001C9Fagb,001CA0a0e,001CA1wi,001CA26y,001CA3d7a,001CA4cb5,001CA5evn,001CA6ebu,001CA76ix,001CA8vk,001CA91ax,001CAA1t6,001CAB862,001CACa54,001CADefk,001CAEeao,001CAF9vm,001CB02s3,001CB12s3,001CB21jz,001CB314o,001CB46kx,001CB58rq,001CB63r3,001CB7dl1,001CB824s,001CB96yw,001CBAdw7,001CBB8dz,001CBC2kl,001CBD4ee,001CBE8yt,001CBF6gz,001CC06gz,001CC12vw,001CC29po,001CC32vw,001CC45om,001CC519,001CC6a00,001CC7ai2,001CC861s,001CC96zr,001CCAbjr,001CCB4os,001CCC1w6,001CCDxl,001CCE21q,001CCF79s,001CD02ru,001CD1e7v,001CD2727,001CD3eqo,001CD48zl,001CD5erl,001CD68zl,001CD75m5,001CD81wv,001CD955a,001CDA4dk,001CDB246,001CDC33f,001CDD2ep,001CDE6i7,001CDF1t5,001CE036k,001CE161m,001CE21ag,001CE39c2,001CE444b,001CE57p3,001CE662p,001CE7al2,001CE8332,001CE9507,001CEAbd6,001CEB90b,001CEC8ax,001CED3xx,001CEEatl,001CEF9zb,001CF034z,001CF1b6p,001CF2d66,001CF340r,001CF4830,001CF5ed9,001CF62s3,001CF71au,001CF89or,001CF92s3,001CFAwx,001CFB2vw,001CFCcgg,001CFDdo6,001CFEa6e,001CFF8qc,001D00206,001D018sd,001D02345,001D033ju,001D04ev0,001D052zd,001D065f3,001D07bwo,001D086s4,001D093ix,001D0A3i2,001D0B9xu,001D0C8av,001D0Dcb9,001D0Eu7,001D0Fcvj,001D107gs,001D1112c,001D12ac3,001D138x2,001D14b3h,001D15bqo,001D16asz,001D173mc,001D189xn,001D1915q,001D1A9dx,001D1Bbay,001D1C52r,001D1D6hz,001D1E6zi,001D1Fc2k,001D202x8,001D21x4,001D224p5,001D23as4,001D24pb,001D25ba7,001D26al0,001D278eo,001D28cb5,001D293pf,001D2Aau6,001D2Befg,001D2Ce7y,001D2Da2h,001D2Ealx,001D2Fa69,001D30emy,001D315e8,001D327ka,001D3381i,001D34b84,001D35dxu,001D363vf,001D37d87,001D38bdq,001D397vj,001D3Af4s,001D3B8zl,001D3C8dx,001D3D1cv,001D3Eao5,001D3F8a4,001D406h1,001D415lz,001D4290b,001D43brr,001D44757,001D452s3,001D462s3,001D47318,001D48bgp,001D496fa,001D4A2jx,001D4B582,001D4Cxc,001D4Dr0,001D4Eco3,001D4F14o,001D50b3q,001D511ls,001D523it,001D53amp,001D54ch7,001D55ep4,001D56752,001D57233,001D582ez,001D598a2,001D5Ar,001D5Bd2l,001D5Cdc7,001D5D2yo,001D5E2ax,001D5F9du,001D60jj,001D611hx,001D626ba,001D63887,001D64qq,001D6587w,001D665i1,001D67d8,001D68d9u,001D6973b,001D6Azc,001D6B2vw,001D6C2si,001D6D2xp,001D6E8zl,001D6F2mw,001D702s3,001D712s3,001D72edb,001D731l4,001D74dae,001D75aeh,001D764ec,001D778n1,001D786jx,001D79ayd,001D7Aeb9,001D7B69c,001D7C4o,001D7D4w0,001D7E2s4,001D7Fd2u,001D801pq,001D814zl,001D824xd,001D8347a,001D84514,001D852i7,001D86c1t,001D87dyo,001D882su,001D89dvd,001D8Ad10,001D8B6y,001D8C7cj,001D8D4nr,001D8Exn,001D8Fa2c,001D903wp,001D913mv,001D927ry,001D938b9,001D942sx,001D954n2,001D96e77,001D97xp,001D988zl,001D9933o,001D9A4xm,001D9B5ri,001D9Cal1,001D9Dhv,001D9En4,001D9F7ok,001DA05o7,001DA12s3,001DA22s3,001DA3b8z,001DA45kx,001DA5e3j,001DA682w,001DA7bdv,001DA8czk,001DA92kp,001DAA3q2,001DABcj5,001DAC545,001DADc64,001DAE26v,001DAF90b,001DB04qq,001DB131y,001DB25fd,001DB35gg,001DB46yn,001DB56tm,001DB61u0,001DB7d61,001DB86je,001DB9e99,001DBAcb5,001DBB3rd,001DBC8yt,001DBDdx0,001DBE2vw,001DBFadz,001DC048z,001DC11ak,001DC2ehr,001DC3aax,001DC4ab,001DC51pz,001DC6b13,001DC776g,001DC88r6,001DC9503,001DCA9fm,001DCB4e8,001DCC1eg,001DCD2vw,001DCE2vw,001DCF2vw,001DD02vw,001DD12vw,001DD22vw,001DD32vw,001DD42vw,001DD52vw,001DD62vw,001DD7xz,001DD887m,001DD95rz,001DDA88c,001DDB223,001DDC5ji,001DDD36n,001DDEet0,001DDFch4,001DE06gz,001DE16gz,001DE2aef,001DE36ju,001DE4dzw,001DE52s3,001DE62s3,001DE7808,001DE88y3,001DE98zl,001DEA2vz,001DEB3bu,001DEC80s,001DED583,001DEE8jx,001DEFcwl,001DF0dyb,001DF16gk,001DF28tw,001DF3apt,001DF47y5,001DF5chh,001DF6ba7,001DF7a79,001DF8e8m,001DF9347,001DFA4qw,001DFB8hj,001DFC6y5,001DFD8zl,001DFE9nb,001DFF8ut,001E00bmi,001E01aih,001E02cbi,001E037g2,001E045li,001E05eke,001E06e4h,001E07ecn,001E082ly,001E09epf,001E0Acjg,001E0B5om,001E0Cc16,001E0D869,001E0E7oq,001E0F200,001E105gu,001E113vj,001E1242s,001E132s3,001E142s3,001E151o1,001E1671p,001E17b5f,001E18ae1,001E194z8,001E1A1ty,001E1B3md,001E1Cb7b,001E1D41r,001E1E5sg,001E1F90b,001E206j7,001E21a53,001E22hz,001E2344r,001E24esy,001E2563u,001E263l4,001E27aps,001E287la,001E295vw,001E2A8hv,001E2Bae8,001E2C33m,001E2Db57,001E2Eaz3,001E2F3kf,001E30c1w,001E31f39,001E32es8,001E3364s,001E3432m,001E358yt,001E36663,001E37do8,001E381x7,001E392x4,001E3A8zl,001E3B8zl,001E3C7m5,001E3Dca,001E3E6wz,001E3Fdff,001E40bjd,001E4187u,001E42d5i,001E43ai,001E44ap2,001E45cb5,001E462vw,001E479lw,001E48eai,001E492s3,001E4A2s3,001E4B2sc,001E4C5rz,001E4De96,001E4E35y,001E4F3ix,001E501fv,001E512z8,001E5214o,001E534rz,001E54cvb,001E552eq,001E561m6,001E57bf,001E5834z,001E59c4z,001E5A2vw,001E5Bdnx,001E5Ca8v,001E5D5rn,001E5E2eu,001E5F75s,001E603ly,001E61685,001E62c3w,001E63dxr,001E646gz,001E656gz,001E66a9x,001E676gz,001E68a5w,001E69d9s,001E6A1oh,001E6B2s2,001E6C9ae,001E6D67t,001E6Ebrh,001E6F7yi,001E702nu,001E717ui,001E729g3,001E73f94,001E74b9l,001E75798,001E76d97,001E77v3,001E789dy,001E792s3,001E7A2s3,001E7Ba7b,001E7Cczg,001E7Dba7,001E7E90b,001E7F24u,001E8069h,001E8129v,001E82bak,001E83774,001E849u2,001E857cr,001E867q8,001E87ago,001E88ed,001E892fa,001E8Aeyw,001E8B6dn,001E8Cjj,001E8D2vw,001E8E5v7,001E8F23n,001E9045j,001E916w9,001E926nm,001E932rw,001E94b6k,001E95ay9,001E96bhh,001E9783g,001E9857o,001E99dux,001E9A5c0,001E9Bbah,001E9C4ly,001E9Dah0,001E9Eey1,001E9Fdzx,001EA0ehl,001EA1211,001EA2cjw,001EA38zl,001EA48zl,001EA5abv,001EA61tx,001EA7q7,001EA83hh,001EA98yt,001EAA3rz,001EABd38,001EAC16m,001EADec5,001EAEl4,001EAF9b7,001EB06as,001EB132o,001EB279b,001EB39zi,001EB4djq,001EB54co,001EB6cmj,001EB7cnt,001EB8z9,001EB9c5x,001EBA5p2,001EBB1iy,001EBCe51,001EBD2s3,001EBE2s3,001EBF5i6,001EC086z,001EC117,001EC214o,001EC374y,001EC42lj,001EC587z,001EC67fv,001EC7r,001EC8afe,001EC93ix,001ECA90b,001ECBacr,001ECC256,001ECD6z5,001ECE1ia,001ECF9hh,001ED06e1,001ED1ctl,001ED2aft,001ED33ph,001ED43o9,001ED5d2s,001ED6xm,001ED75bh,001ED83mg,001ED98a7,001EDAe9j,001EDB54e,001EDCcb5,001EDDe39,001EDE1lm,001EDF80z,001EE0doz,001EE1ba7,001EE2ba7,001EE3clv,001EE46a,001EE52s4,001EE6bon,001EE74a4,001EE88ee,001EE9cf3,001EEAbgo,001EEBczu,001EEC2bf,001EEDtd,001EEE3zx,001EEF2jc,001EF0541,001EF1bi1,001EF286f,001EF34qh,001EF476f,001EF55qw,001EF62s3,001EF72s3,001EF8477,001EF99pu,001EFA9l6,001EFBdgf,001EFC6ov,001EFD86x,001EFE78y,001EFF8dg,001F008zl,001F018zl,001F029v4,001F038ns,001F0456y,001F05f2i,001F066gr,001F07ne,001F08ab5,001F096qs,001F0A90b,001F0B4ku,001F0C6hg,001F0D76p,001F0E6qm,001F0Fbfb,001F10cug,001F1194t,001F126tm,001F13amw,001F148wm,001F151v5,001F16edb,001F175z7,001F185im,001F191hc,001F1Aa0u,001F1Bals,001F1C6x8,001F1D1a1,001F1E18y,001F1F43f,001F207jv,001F216eb,001F22cbu,001F233a1,001F243br,001F257p2,001F262s3,001F272s3,001F285gg,001F295om,001F2A5f,001F2B9ck,001F2Cce5,001F2D44i,001F2Edfz,001F2F1tq,001F30df3,001F31aec,001F328yt,001F338hv,001F347lq,001F35ac,001F361t7,001F3752g,001F389jd,001F392y7,001F3A5rz,001F3B6gz,001F3C6gz,001F3Da45,001F3Eacp,001F3Fmd,001F40ccm,001F41alx,001F424bp,001F433xr,001F444uh,001F45497,001F4690b,001F477pg,001F488bl,001F497zh,001F4Ax1,001F4B7he,001F4Cale,001F4Dbex,001F4E2xa,001F4Fd9l,001F50cj9,001F515d7,001F52dld,001F534um,001F547kl,001F555sj,001F563b8,001F579sz,001F583wr,001F59758,001F5A1nw,001F5B14o,001F5C8zl,001F5D8zl,001F5E3r6,001F5F1w9,001F602bh,001F61czs,001F626oy,001F636os,001F641ob,001F656xp,001F669ib,001F675q7,001F6880r,001F699uc,001F6A9my,001F6B798,001F6C2s3,001F6D2s3,001F6Ee2a,001F6F4r8,001F701yn,001F71f8x,001F72a4j,001F73d70,001F7443w,001F7553l,001F76vd,001F775do,001F781wq,001F797j6,001F7Aeaz,001F7Bd0y,001F7Cedk,001F7D46l,001F7E2vw,001F7F9rw,001F807ku,001F81ob,001F822hu,001F83d4b,001F8454d,001F85157,001F86ey5,001F87c73,001F884h5,001F89c4h,001F8A45n,001F8B2hm,001F8C24y,001F8D6dz,001F8E85q,001F8Fbj4,001F90q7,001F91384,001F928cx,001F93ejz,001F947dj,001F95b9l,001F96gc,001F971hj,001F9835r,001F99ask,001F9A90b,001F9B9jb,001F9C5mi,001F9D2s3,001F9E2s3,001F9Fd9u,001FA03l,001FA158o,001FA23hx,001FA3clw,001FA4auq,001FA51wt,001FA6cey,001FA7cb9,001FA8c7r,001FA919x,001FAAd0k,001FAB5ww,001FAC56e,001FAD210,001FAE1wd,001FAF8x7,001FB0db7,001FB1344,001FB2cb4,001FB3r,001FB4c84,001FB55wz,001FB62oy,001FB7eat,001FB8doc,001FB99ni,001FBA1yx,001FBBeiq,001FBC40j,001FBD75y,001FBEbv4,001FBF4rn,001FC02yp,001FC15l9,001FC26t9,001FC3c85,001FC42vw,001FC58yt,001FC6jj,001FC72kj,001FC8dor,001FC92s3,001FCA2s3,001FCB8lf,001FCCba7,001FCDba7,001FCEa3e,001FCF7wl,001FD04w0,001FD1951,001FD22b4,001FD3abb,001FD421,001FD57sj,001FD6bow,001FD7cqj,001FD83a,001FD9acw,001FDA90b,001FDB8v1,001FDC8aq,001FDD4u6,001FDE8zl,001FDF8zl,001FE0438,001FE15rz,001FE25rz,001FE3798,001FE4cb5,001FE56b2,001FE6zp,001FE7c5f,001FE86yr,001FE99zn,001FEA14t,001FEBdge,001FECck3,001FEDd0v,001FEEf86,001FEFaxc,001FF01ao,001FF19ox,001FF2dqp,001FF314o,001FF49xp,001FF5747,001FF69lf,001FF78op,001FF8c3e,001FF9si,001FFA301,001FFB57l,001FFCaje,001FFD6bv,001FFE5gg,001FFFaiw,002000791,0020013e2,002002asi,0020039i4,002004ele,002005ayr,0020064tq,002007asw,00200822q,0020099es,00200Ab2o,00200B92t,00200C6w,00200D242,00200E8n5,00200F3sy,0020106nh,00201123p,00201223i,0020133c5,0020144wu,0020156f,002016axm,002017961,00201828i,002019934,00201A7w9,00201B8ma,00201C40y,00201D6uu,00201E8i1,00201F1hl,0020207q1,002021bo,0020228lp,002023clz,0020249ep,0020252dd,002026do,0020277tk,002028e41,002029cqi,00202A8ek,00202B8n,00202Ce3x,00202Dcmw,00202E37z,00202Fepj,002030e2,002031d0n,002032bb,002033b7p,002034ack,0020355xb,0020361j5,002037bdq,002038dsa,002039aqf,00203A3b2,00203Be5f,00203C40b,00203D5sc,00203E7jb,00203F6pc,0020402vw,00204136u,002042379,0020438j6,0020444v0,002045655,00204628f,002047b51,002048805,0020492cj,00204A9kz,00204Blg,00204C7u4,00204D636,00204E8ix,00204F39k,0020506xo,002051dwg,002052a83,0020535hf,002054cji,002055ci,0020568h2,002057ctg,002058bw,0020597tx,00205A2bx,00205B718,00205C6i4,00205D8f5,00205E24j,00205F4tk,002060b9,00206150v,002062aqm,002063e55,0020649l3,002065b6n,0020664uv,0020679zs,002068679,002069678,00206A96k,00206B6xm,00206C40h,00206D36v,00206Eegl,00206F4gy,0020705hu,0020715xf,002072e63,0020734je,002074b67,0020757vr,002076a9z,0020776uq,002078adb,0020797ta,00207Aeax,00207B6gz,00207Cle,00207D87,00207E4g4,00207F6za,002080b7t,002081ctd,002082947,0020839jw,00208492o,002085422,0020867sp,0020877qd,0020884wv,002089cm8,00208Ab29,00208B77n,00208C4tc,00208D29k,00208E27e,00208F3t6,00209086,0020916m3,00209227d,00209377c,0020942gm,002095aba,0020966jz,002097g5,0020985dh,0020991jp,00209Acsd,00209B3ys,00209C9k2,00209D7a6,00209E1km,00209F7qj,0020A092h,0020A13d8,0020A24td,0020A35m6,0020A47x2,0020A5fl,0020A6a1q,0020A79ex,0020A8apa,0020A9e4c,0020AA4aw,0020AB7rs,0020AC64a,0020AD7a2,0020AE96e,0020AF16,0020B04tu,0020B12cg,0020B24wh,0020B3d0n,0020B4cru,0020B5elk,0020B69s,0020B78ey,0020B89k4,0020B97r4,0020BA25x,0020BBepa,0020BC7k4,0020BD8kx,0020BE771,0020BF8y,0020C09m5,0020C1apk,0020C2cs2,0020C32em,0020C461u,0020C53sp,0020C68gq,0020C7at,0020C877q,0020C9dqx,0020CA3bd,0020CB9jx,0020CC3bf,0020CD5ho,0020CE7b2,0020CFcry,0020D0dqg,0020D17s4,0020D2a7k,0020D396u,0020D42hi,0020D5drj,0020D61zj,0020D76mo,0020D890b,0020D99f3,0020DAxd,0020DBehq,0020DC390,0020DD343,0020DE6mn,0020DF6ze,0020E0q7,0020E1b1,0020E2622,0020E37p7,0020E45go,0020E5fi,0020E679k,0020E71f1,0020E837f,0020E9367,0020EA3u6,0020EB28c,0020ECcp6,0020ED4w0,0020EE4z5,0020EFdl0,0020F0dki,0020F1co,0020F29ci,0020F3a8r,0020F4b3d,0020F59f4,0020F68hc,0020F72gx,0020F8247,0020F99f8,0020FA4u5,0020FB92u,0020FC819,0020FD68v,0020FEcuv,0020FFb7l,00210051n,00210114b,002102dos,0021034vr,002104549,002105xe,002106aaz,002107bhf,0021088zl,0021098zl,00210Aex0,00210B4up,00210C34h,00210Daoj,00210E54f,00210F2mn,0021102st,002111dnh,002112e5d,0021139n6,0021145vr,0021159hp,002116det,002117d5d,00211819q,002119aol,00211A7ah,00211B2s3,00211C2s3,00211D3hd,00211E2vw,00211Faxd,002120bhj,002121dsw,0021222px,002123to,0021249cb,0021256yk,002126byc,002127cvj,0021289ci,0021292s4,00212A1az,00212B7we,00212Cbfi,00212Daqe,00212Eeye,00212F9sp,00213070p,0021311xi,002132811,00213321d,0021341zb,002135bc,0021362vw,0021371n5,0021382md,0021394b3,00213Aec0,00213B1tr,00213Cye,00213D2mm,00213Edc9,00213F3b,0021403x8,002141a7s,002142sa,0021432vw,002144b44,002145bfm,002146bb6,0021478yt,0021486zm,0021492p4,00214A9v1,00214Bbsb,00214Cba7,00214D5al,00214E4yo,00214Fca,00215041f,00215188o,00215252b,002153bdn,002154355,0021552s3,0021562s3,0021578qi,002158cg7,0021596tm,00215A5om,00215Bbgf,00215C6gz,00215D6gz,00215E5xb,00215F609,0021605oz,002161eo9,00216290b,002163ip,002164ccn,0021659z6,00216690r,0021675hk,002168f2k,002169a0r,00216A6gz,00216B6gz,00216C92y,00216Dcab,00216E4rt,00216Fcjl,0021703ix,002171ea2,002172bhe,0021736km,0021741c9,0021759mo,002176em2,002177e2t,00217881f,002179651,00217Abf6,00217B1my,00217Cr,00217D9me,00217Ed52,00217F6jg,0021802vw,002181c2a,002182bap,002183eh,0021849jh,0021857ry,002186do8,0021876ac,0021883wn,00218914l,00218A44q,00218Be9i,00218Cdcq,00218Dfa,00218E7q6,00218F1cj,002190566,00219134z,0021921mk,002193dy3,0021949ub,0021954zv,002196d5f,00219745j,002198d7x,002199dtr,00219A2ip,00219B3ix,00219C5sl,00219Dro,00219Ecb5,00219Fape,0021A02s3,0021A12s3,0021A23ut,0021A3878,0021A43ic,0021A53yp,0021A6dy8,0021A75lo,0021A8d4a,0021A98az,0021AA8zl,0021AB8zl,0021AC6dq,0021AD901,0021AEbd,0021AFae6,0021B0di2,0021B13bg,0021B24lg,0021B3alk,0021B4gb,0021B550h,0021B6dfy,0021B7791,0021B86fs,0021B9do4,0021BAd7u,0021BBajr,0021BCep3,0021BD8yt,0021BE2s2,0021BF5qg,0021C08ak,0021C14d,0021C24wi,0021C32e3,0021C42y4,0021C51d,0021C62fx,0021C7ama,0021C87b8,0021C9e7r,0021CAhq,0021CBb0u,0021CC4nh,0021CD7ir,0021CE8na,0021CFd8d,0021D054w,0021D1ba7,0021D2ba7,0021D31jh,0021D4e1r,0021D5egh,0021D67cd,0021D72s3,0021D82s3,0021D9aru,0021DA1by,0021DBbbc,0021DCcpc,0021DD90l,0021DE4mi,0021DF80p,0021E02vj,0021E190b,0021E2f8f,0021E3bhq,0021E45wt,0021E53nq,0021E6cec,0021E76dh,0021E88dt,0021E914o,0021EA21s,0021EB3z6,0021ECcae,0021EDd3x,0021EE4rp,0021EF708,0021F040t,0021F1dhu,0021F23sv,0021F3c29,0021F4638,0021F5e9u,0021F69ci,0021F75gg,0021F8492,0021F9e56,0021FA3q,0021FB798,0021FC8zl,0021FD76w,0021FE8zl,0021FF34a,0022005xb,002201ws,0022024dj,00220354p,0022046xn,002205e88,002206341,0022076hx,0022082mo,00220999e,00220A99g,00220B8qq,00220C2s3,00220D2s3,00220E6bw,00220F8ae,0022102vw,002211al3,002212234,0022139g0,002214ab1,002215jj,002216awv,0022178rd,002218wi,0022193ix,00221A1ap,00221B8c7,00221C9zs,00221D4q5,00221E82v,00221Fez8,00222089y,00222168k,002222bcb,002223db8,00222456b,002225d7z,0022261ca,002227f8b,0022281zi,0022292wu,00222Acbo,00222B91r,00222C2ms,00222Db0m,00222Ef4k,00222F9ag,0022304sh,002231b0x,0022323jt,0022336y,00223430n,002235cg2,002236dq8,002237c1o,0022387b5,0022396bt,00223A2s2,00223B2w1,00223Ca8i,00223D6td,00223E66y,00223F8hv,002240dof,00224114o,002242wv,0022431er,0022442og,0022457ew,0022464d4,00224735a,00224887m,0022495fj,00224Aa8q,00224Bag,00224C8yt,00224D7u0,00224Earn,00224F21v,0022509wd,0022517l4,002252eqf,00225349c,0022541uk,0022552s3,0022562s3,00225717,002258czh,0022595a9,00225A50r,00225Bd6r,00225C8dn,00225D3l0,00225Edp5,00225F7ik,0022609k,0022614qj,0022621hf,00226374m,0022645om,0022658zl,0022668zl,00226790b,0022685rz,0022695rz,00226A5s6,00226B2s4,00226C7hl,00226Dbru,00226E56r,00226F1t,0022704t,0022716tz,002272113,002273d2c,0022744k5,0022751t5,002276dgh,0022778ge,002278by9,0022798yv,00227Ad3e,00227B14g,00227Ceee,00227Delo,00227E2o3,00227Falx,0022803n,0022813fj,0022822h,0022836tm,00228439e,0022858ly,002286ji,002287dbq,002288b9m,002289dut,00228Ad6z,00228B715,00228C9t4,00228D4ty,00228Ecxz,00228F2a1,0022902s3,0022912s3,0022922ro,002293f94,0022946z7,002295at3,0022967i0,002297eho,002298cb5,002299bdn,00229A7dn,00229B1cr,00229Cdwj,00229D9md,00229Ec8z,00229Fbgy,0022A0gh,0022A15tz,0022A2eko,0022A32i3,0022A4r,0022A5d7u,0022A6cb6,0022A7di1,0022A89dn,0022A9798,0022AA8yt,0022ABbyg,0022AC5kt,0022ADcqm,0022AE81e,0022AFb9b,0022B034z,0022B1448,0022B224,0022B3bez,0022B42vw,0022B58mm,0022B6chv,0022B74yx,0022B88zz,0022B912b,0022BA5hg,0022BBewr,0022BC6nb,0022BD2s3,0022BE2s3,0022BFc34,0022C0bri,0022C1qc,0022C2a1i,0022C3ern,0022C4f00,0022C5624,0022C6cib,0022C7arp,0022C88bf,0022C97f7,0022CA13t,0022CB658,0022CCbcx,0022CD161,0022CE2s2,0022CF9if,0022D09wh,0022D1x3,0022D2yk,0022D35u2,0022D42v6,0022D5424,0022D634l,0022D78yt,0022D8brv,0022D94or,0022DAe5,0022DBdew,0022DCdyp,0022DDa18,0022DE94y,0022DFcn8,0022E019y,0022E1eql,0022E2e2w,0022E3119,0022E4fc,0022E54mt,0022E66hf,0022E7e67,0022E8151,0022E9a03,0022EAamb,0022EB3gx,0022EC5ys,0022EDcxa,0022EExy,0022EFf2l,0022F0v,0022F19zs,0022F2cgv,0022F3atl,0022F4dt,0022F5sq,0022F6ckq,0022F72xg,0022F89hs,0022F99wo,0022FA6gz,0022FB6gz,0022FC8zl,0022FD8zl,0022FEsg,0022FF8le,0023002l7,002301edo,0023022tz,0023037aa,0023042s3,0023052s3,002306ca,0023074jg,00230815q,0023096q9,00230Agn,00230B2vw,00230C299,00230D90b,00230E56k,00230F5pw,0023107ar,00231155o,00231214o,002313a58,0023146gz,0023156gz,0023166wk,0023177dl,002318dd6,002319c36,00231A688,00231B3fx,00231C4pa,00231D3jb,00231E2mt,00231F58z,0023208xr,0023211d3,0023226wn,002323evp,0023244sr,002325653,0023264j0,002327c25,002328bg,00232938d,00232Aezz,00232B66k,00232Cbh0,00232Dbao,00232E70k,00232Fs8,0023303c9,0023318yt,00233214o,0023332s3,0023342s3,0023357hp,0023367r1,002337551,002338938,002339ba7,00233Aba7,00233B229,00233Cxu,00233D7ct,00233Exe,00233Fa2d,002340863,002341dus,0023422ub,002343crd,00234497n,002345cb5,002346dx8,0023479zu,002348b9l,0023495nw,00234A9zs,00234B6kg,00234C6yb,00234D5rz,00234E5rz,00234F7lg,002350a96,002351r,00235237d,0023534eg,002354jj,002355720,0023569mu,0023579up,002358b8e,0023591td,00235A2bf,00235B5b6,00235C156,00235D2s3,00235E2s3,00235Fc4w,0023607ke,002361dn8,002362565,002363eul,0023649xo,0023656g9,0023661rb,002367dmq,002368eri,0023692s4,00236Ac82,00236Bein,00236C14o,00236Daip,00236E21i,00236F36c,002370c8u,002371b16,0023727vl,002373585,0023742vw,0023752vw,0023765gr,0023776l9,0023784xd,002379dnd,00237Aaay,00237Be49,00237C8h4,00237D5om,00237E3wa,00237F9ig,0023808q4,0023817f5,0023827h3,0023836b9,0023844vo,002385ey,00238660v,002387d9j,002388dpj,0023895k3,00238A2ri,00238Ba5w,00238C9zs,00238Dd1m,00238E6y,00238F8kf,002390y0,00239181w,002392a1c,002393aq,002394ba3,0023952vw,002396ec,002397e9p,002398e2j,002399ba7,00239A41z,00239B460,00239C6tm,00239D7zu,00239E6rw,00239F6ga,0023A05j3,0023A1dfi,0023A22vw,0023A32vw,0023A48vn,0023A5b9k,0023A63rw,0023A7aho,0023A880o,0023A91ou,0023AA5e0,0023AB2s3,0023AC2s3,0023ADek5,0023AE3ix,0023AF2vw,0023B02cl,0023B17k6,0023B26hi,0023B37mf,0023B48zl,0023B596g,0023B6arf,0023B7a2o,0023B8c2u,0023B9vo,0023BA2qw,0023BBor,0023BC3yd,0023BD3lh,0023BE2s2,0023BF7yy,0023C020q,0023C1bei,0023C2aoo,0023C37j9,0023C47lu,0023C5adx,0023C6b0k,0023C7mj,0023C8com,0023C9c2x,0023CA1o3,0023CBbro,0023CC8yt,0023CDcvj,0023CE6wo,0023CF2gn,0023D0dnc,0023D1cwe,0023D26e2,0023D3vb,0023D4d7u,0023D5e38,0023D6ba7,0023D7ba7,0023D81m2,0023D91mi,0023DA6c3,0023DBf66,0023DC1th,0023DD3vo,0023DE13i,0023DF14o,0023E0631,0023E12l3,0023E2ar0,0023E387s,0023E466a,0023E5666,0023E66f7,0023E75pp,0023E83jj,0023E94ek,0023EA2s3,0023EB2s3,0023ECy2,0023ED2vw,0023EE2vw,0023EFevc,0023F0bk9,0023F1cb5,0023F2cy2,0023F355g,0023F4812,0023F5e4o,0023F6c9g,0023F79zs,0023F8evs,0023F93pj,0023FAaam,0023FB65f,0023FCdmc,0023FD9l,0023FE1v0,0023FF1pg,00240090b,00240134z,0024029ac,0024038zl,0024048zl,0024053n5,0024069wg,002407cqa,0024089mk,002409d8w,00240Adkw,00240Bdzc,00240C38r,00240D99r,00240E6k3,00240F6l3,0024108nr,0024119rz,0024121ti,0024132s3,0024142s3,0024157yp,00241613v,002417d9u,0024188xi,0024199zs,00241Aah7,00241Bf2m,00241C4qo,00241D4w0,00241E8yt,00241F38a,0024208tg,0024217ry,002422737,0024231eq,002424p3,002425c14,0024268lu,002427b48,00242848g,0024297uk,00242A5r1,00242B5rz,00242C5rz,00242E3hq,00242F879,002430alw,002431dmo,0024328s5,002433ca,0024347eh,002435e4i,00243614o,0024378ct,00243820r,0024393li,00243A7kz,00243B2g6,00243Camy,00243D471,00243Fcfg,0024405ir,002441e6x,0024421e5,00244390b,0024448yt,002445rx,0024467us,00244770i,002448cd6,002449bmw,00244Ae26,00244B9gt,00244Cc9s,00244D5re,00244Eado,00244F17s,0024502s3,0024512s3,002452c4y,0024536e5,002454ba7,0024558dc,002456r,0024589ek,00245947,00245A8pd,00245Ba86,00245C3jv,00245Dd73,00245E5r6,00245Fdz1,00246053p,002461c1g,002462ag8,0024639ta,0024641zp,002465454,002466dnx,002467f5,002468cgf,0024694kp,00246Aca0,00246B317,00246C5on,00246De8y,00246E9s9,00246F99m,002470lb,0024714s3,002472agc,00247317,0024741c7,0024752we,002476cnd,002477dap,0024787y3,0024799bd,00247A4im,00247Bq7,00247C8zl,00247D8zl,00247Edo8,00247F90b,00248085i,0024815om,002482alx,002483798,0024841mf,0024852ya,0024863jw,002487den,0024882m9,002489e1f,00248A6zn,00248B5hp,00248Cjj,00248Dcb9,00248E6dm,00248F3cr,002490ba7,002491ba7,0024928cz,0024932vw,002494bp6,0024952vw,00249654j,0024972s3,0024982s3,00249915c,00249A1sk,00249Bq1,00249C1ur,00249D8h6,00249E76,00249Faaz,0024A02vw,0024A12vw,0024A25so,0024A3cat,0024A4c4n,0024A51l4,0024A6cqn,0024A7t0,0024A89zu,0024A9u3,0024AA3r5,0024AB3s,0024AC5jx,0024ADru,0024AE5yu,0024AF3nl,0024B03yw,0024B1311,0024B28hv,0024B356v,0024B43yz,0024B590b,0024B6bdq,0024B7586,0024B8f0f,0024B9ef5,0024BAd7u,0024BB260,0024BC5tm,0024BD5ik,0024BEcb5,0024BF2k9,0024C08nd,0024C12vw,0024C219b,0024C32s3,0024C42s3,0024C584m,0024C65id,0024C78ai,0024C820h,0024C920h,0024CAdbv,0024CB1c1,0024CC4kh,0024CDebq,0024CE4dm,0024CF6fv,0024D0bwk,0024D1d9s,0024D2ip,0024D3a3l,0024D44i9,0024D5ecm,0024D66gz,0024D76gz,0024D86a4,0024D91hw,0024DA6f6,0024DBxh,0024DC6tm,0024DD2m5,0024DE4wt,0024DF3mq,0024E03dt,0024E12z9,0024E25cu,0024E323r,0024E4edm,0024E5bet,0024E66b1,0024E79vh,0024E83ix,0024E9ba7,0024EAf3o,0024EB2sr,0024ECdnq,0024EDemq,0024EEeg7,0024EFcb5,0024F0bdw,0024F1br7,0024F2dni,0024F38yt,0024F46zx,0024F58ga,0024F67ug,0024F72s3,0024F8d1e,0024F92s3,0024FA5pf,0024FB9zs,0024FCa70,0024FDoa,0024FEmd,0024FFa32,00250014o,0025016oz,0025028qv,0025035xb,002504dub,002505ezo,0025063g,002507j8,0025087zy,002509atj,00250Abel,00250B266,00250Cbg2,00250D501,00250Ef0n,00250F99f,0025109tt,00251145j,002512f94,0025132gu,0025149fx,002515asz,0025166gp,002517dw0,0025189xq,002519dxk,00251Aa20,00251B9sd,00251C3u0,00251D3dv,00251Eacm,00251Fer4,002520b07,0025217jy,002522iz,00252392r,0025247gu,0025252gc,002526530,0025271vr,0025283fd,0025292ar,00252A2o7,00252Bcez,00252C49d,00252D72t,00252E2s2,00252F48c,002530tt,0025312t4,0025323mb,002533e5n,00253589b,00253698k,002537am6,002538ba9,00253969s,00253A26n,00253Bey7,00253Cr,00253D3di,00253Ebgx,002540a6g,0025417zz,0025429uq,0025437vh,0025447iy,0025452s3,0025462s3,0025478zl,0025488zl,0025496r6,00254Aajw,00254B14o,00254Cdy6,00254Dc5y,00254Edx4,00254F3vm,002550ak6,002551aqz,002552dtp,0025536y,0025549v2,002555e02,0025565rz,0025571w6,0025587vw,002559ckn,00255Ad0a,00255B2tu,00255C8gc,00255D8cb,00255Ebjc,00255Fbfq,00256069b,0025619zu,002562f3e,0025637m0,0025643ix,002565e16,002566ba7,002567ba7,0025685gu,002569b9l,00256Af33,00256Bjw,00256C1ei,00256D20f,00256Edur,00256F3gc,00257041u,002571eti,0025728rr,002573b4b,0025746yp,0025754lf,0025768gs,00257734w,0025786or,0025796lr,00257A23b,00257Bb58,00257C5tp,00257D9we,00257E8jb,00257F2i8,0025804ai,002581f8u,0025827z5,0025832s3,0025842s3,0025856xj,002586cvj,002587e0g,00258852n,0025895pi,00258A9wl,00258B848,00258C3zk,00258D5if,00258Ed8z,00258Fdg3,002590cho,0025918jt,0025925ai,0025933gj,0025944cc,00259590m,0025964w3,0025976zu,002598eu2,0025995my,00259A26i,00259B1qx,00259C2s4,00259D9zs,00259E5gu,00259Fd1t,0025A08yt,0025A147t,0025A2zy,0025A3dgb,0025A44c9,0025A5e6q,0025A62m8,0025A7f3t,0025A874e,0025A9bji,0025AA1rg,0025ABaa,0025AC5wr,0025AD7zn,0025AE87m,0025AF2av,0025B0bck,0025B1826,0025B27p0,0025B35om,0025B42s3,0025B52s3,0025B6d3f,0025B730w,0025B8uc,0025B934n,0025BAxe,0025BB62o,0025BC14o,0025BD6la,0025BEd2v,0025BFecs,0025C0eus,0025C18r9,0025C2ajv,0025C3g,0025C4alx,0025C5cdy,0025C6f3z,0025C7ew3,0025C8amq,0025C9auv,0025CA4ed,0025CBahw,0025CC8al,0025CDc77,0025CE6ed,0025CF8zl,0025D08zl,0025D141t,0025D26fr,0025D31er,0025D451y,0025D5aks,0025D6d8i,0025D725h,0025D86xq,0025D93h3,0025DAbe9,0025DBk1,0025DCcgg,0025DDb6b,0025DEa04,0025DF1e3,0025E02lc,0025E1atd,0025E24cz,0025E35lg,0025E493p,0025E5798,0025E61t3,0025E7cb5,0025E869l,0025E9f10,0025EA6ks,0025EBaj0,0025EC5uu,0025ED91m,0025EE1dg,0025EF5wp,0025F0cgc,0025F12vw,0025F22vw,0025F3903,0025F473f,0025F53er,0025F6f5f,0025F713f,0025F94x8,0025FA6lv,0025FBdhh,0025FC3xb,0025FD92n,0025FE9u6,0025FF31f,002600coi,00260133i,002602b0f,002603bzf,002604een,00260524v,002606a8n,00260747s,00260814o,0026099tb,00260A2s3,00260B2s3,00260C3hm,00260D84i,00260Enu,00260F7hz,002610141,0026117gb,002612cc8,00261348l,0026146yf,002615d6p,002616alf,002617931,002618jj,0026194i7,00261A4l1,00261B77w,00261C8h5,00261D2dr,00261Ea30,00261Fano,00262067b,0026216h5,0026222bf,0026236oo,002624d9s,002625834,002626536,002627dgv,002628exg,0026296to,00262Aa1o,00262Bee3,00262C60d,00262Dedb,00262E2oe,00262F5bz,00263064,0026312b3,0026326gg,0026337tu,0026346cm,0026351xd,0026362vw,002637aol,002638eja,002639cm2,00263A3ms,00263B99l,00263C1lv,00263D7rh,00263Edf1,00263F7a5,0026401n3,0026412vw,0026422vw,002643ca,002644d9u,0026452rv,002646atw,002647e48,00264847a,00264A14o,00264Cbje,00264D15q,00264Ef5y,00264F759,002650r,0026512s3,0026522s3,0026533ia,00265416,0026555om,002656bba,00265794g,002658cly,0026598yt,00265A34z,00265B5qz,00265C5rz,00265Dba7,00265E5rz,00265Fba7,0026607jz,0026616l0,002662q7,002663bt5,0026642zr,002665a19,0026663u8,002667240,0026688zl,0026698zl,00266A3zc,00266Bax6,00266C64s,00266D8at,00266E8z7,00266F2ze,0026702rm,002671ll,0026723x,002673aat,0026745v9,0026751el,0026762b9,00267738o,0026787jg,0026794c4,00267Af8s,00267B4yt,00267C860,00267D36,00267E9fa,00267F9cw,002680ayg,0026816j6,00268251n,002683wh,0026846wl,0026853lv,002686a62,002687exi,0026886tm,00268951x,00268Ad7e,00268B59z,00268Cce1,00268D2ll,00268E101,00268F7wo,0026905wb,002691b9l,0026928a6,002693a41,002694bgb,002695eqw,0026968lz,002697zf,0026982s3,0026992s3,00269A2k1,00269Bb1n,00269C68u,00269D7mv,00269Ea5w,00269F9zs,0026A0f4z,0026A183y,0026A26gh,0026A34i4,0026A491i,0026A57sk,0026A6cws,0026A72cx,0026A835f,0026A9cg0,0026AA714,0026ABbf2,0026ACbkh,0026AD15e,0026AEecu,0026AF3qr,0026B014o,0026B18r7,0026B2bi6,0026B3d82,0026B44oe,0026B55y7,0026B6ip,0026B772h,0026B8q7,0026B93ix,0026BA2vw,0026BB14o,0026BC527,0026BD6p5,0026BEbct,0026BFbnx,0026C048f,0026C1hw,0026C2aq0,0026C36fz,0026C42ht,0026C5598,0026C66gz,0026C76gz,0026C8cl8,0026C9a1g,0026CA2s3,0026CB2s3,0026CC8zl,0026CDa2g,0026CE74z,0026CF38p,0026D0bfj,0026D1amn,0026D29qe,0026D3es4,0026D466i,0026D59d7,0026D68yh,0026D76wu,0026D87ya,0026D92vw,0026DAdob,0026DB6kn,0026DC9br,0026DD4mw,0026DE4fc,0026DFcyx,0026E0im,0026E1cds,0026E2798,0026E33e8,0026E42iz,0026E58x,0026E6dzy,0026E7bl4,0026E88dt,0026E9b2v,0026EA2nn,0026EBsu,0026EC7en,0026EDf94,0026EEctn,0026EFd20,0026F0ex3,0026F19zu,0026F28hv,0026F3b0m,0026F48sk,0026F5ehx,0026F688g,0026F78zb,0026F8564,0026F9an3,0026FA1mb,0026FBv7,0026FCo6,0026FD6i6,0026FE7ul,0026FF1w6,002700bx2,00270161e,002702c9p,002703d7n,002704oe,002705be5,002706em5,0027077go,002708900,0027098yt,00270A5zf,00270Brz,00270C2s3,00270D2s3,00270E6gz,00270F49s,0027106gz,0027117cz,00271281r,002713do8,00271456w,002715agy,002716qo,00271725a,002718cin,002719cvj,00271A51b,00271Bxk,00271C7qh,00271D2vb,00271Eeia,00271F7tr,0027208jc,002721bp4,002722dlp,0027902s3,0027E32s3,0027F820r,00289Fbfl,0028F86gz,00292614v,0029C22s3,002A102s3,002A6A2s3,002AAF77r,002B6777z,002B70ba7,002B90eru,002BF51l4,002CC82s3,002D76cte,002DB3dt,002EC75gu,002F5C2s3,002FD94lk,003000c1,003001b0t,0030024dq,0030039s4,003004786,0030054rh,003006b6o,003007953,003008m5,003009cyi,00300A1el,00300Bf4i,00300C2cw,00300D7uu,00300E736,00300F616,003010drq,0030115f8,0030123b6,0030138gc,0030143c6,0030152ev,00301667c,0030171ww,0030186rb,0030192s3,00301Ab0g,00301Baxo,00301Ccp,00301Db01,00301E17,00301F957,003020cx9,0030215gp,0030224o7,0030232af,0030242s3,003025275,0030265n7,0030276w0,0030284ez,00302994u,00302Ab2p,00302B6bi,00302Cb7g,00302Da3p,00302E5rd,00302F4ub,0030305cn,00303179r,0030327yb,003033969,003034asn,00303530c,003036abl,0030379mp,003038egu,003039b1g,00303A7my,00303B9xz,00303C949,00303D690,00303Eadq,00303Fdhm,0030402s3,003041anr,0030423ie,0030435z2,00304431b,003045dys,0030462z1,0030478l8,003048cho,0030491ko,00304A4ps,00304B95v,00304Cft,00304D3z4,00304E1lc,00304F9ie,003050dwy,00305195z,003052eu0,0030531mw,0030542ko,003055aig,0030565f8,003057a3h,003058fm,00305974i,00305Acqs,00305Bdc0,00305Cb0a,00305D3bp,00305Enn,00305F5mc,0030609y7,0030618b7,00306265k,003063ap3,0030647n,00306514o,003066aah,0030671i8,0030682gz,003069610,00306A9gm,00306B29o,00306C5qx,00306D7bw,00306E5om,00306Fass,003070c,0030712s3,0030726hb,0030736iv,0030743yf,0030757z,003076wj,00307794a,0030782s3,0030792f0,00307Asx,00307B2s3,00307C7j,00307D4yb,00307Eahj,00307F66s,0030802s3,003081cm,003082cmp,0030836ln,003084bz,0030852s3,003086dev,003087dqa,0030884at,003089cct,00308A8ke,00308B207,00308Ca66,00308D9uf,00308E32f,00308F7rp,0030902h9,003091cmt,00309274h,003093caw,0030942s3,003095a09,0030962s3,00309741,00309854t,0030991jn,00309Ajh,00309Bc8k,00309Cdbe,00309D8ya,00309Ee62,00309Fd1,0030A0cyd,0030A1e3p,0030A27gw,0030A32s3,0030A4ee7,0030A56i,0030A6dqq,0030A7aq8,0030A893d,0030A98u5,0030AAn8,0030AB38x,0030ACclf,0030ADat7,0030AEdbb,0030AF5s6,0030B02z4,0030B1dgy,0030B276k,0030B3bag,0030B464n,0030B5cyp,0030B62s3,0030B7d4k,0030B8ak5,0030B93te,0030BA52,0030BB2hn,0030BC9cf,0030BD1h5,0030BE2sd,0030BF7x1,0030C07de,0030C15om,0030C22ba,0030C34gz,0030C42j7,0030C522y,0030C62dc,0030C77xv,0030C84t6,0030C97lv,0030CA3ni,0030CB93o,0030CCd67,0030CD2cu,0030CEer7,0030CFcy9,0030D0d56,0030D1633,0030D2e4s,0030D3uh,0030D43u,0030D53dq,0030D67wg,0030D76fh,0030D8az9,0030D9372,0030DA2x8,0030DB88z,0030DCaaw,0030DD61i,0030DEe30,0030DF6v4,0030E097e,0030E18uw,0030E24to,0030E3ari,0030E427o,0030E511m,0030E63pu,0030E729z,0030E83xp,0030E94x4,0030EAd6i,0030EBcxu,0030EC1js,0030ED4du,0030EE3dz,0030EF8h0,0030F0dn5,0030F1ot,0030F22s3,0030F319e,0030F4b4q,0030F5ebi,0030F6arc,0030F7a89,0030F83ri,0030F9ca9,0030FAcqt,0030FBnd,0030FCd71,0030FD63r,0030FE3du,0030FF3h3,0031268zj,0031466tm,003192cvk,0032172s3,00323Af78,003358alx,00336Cck0,00337Adhv,0034A1aad,0034DA798,0034F1ady,0034FE5gu,00351A2s3,00353244h,003560alh,0035FFd7u,0036762vw,0036BE90n,0036D770w,0036F82yg,0036FEchq,00376D8dt,0037B7b9l,0038DF2s3,003969v2,003A7D2s3,003A982s3,003A992s3,003A9A2s3,003A9B2s3,003A9C2s3,003A9D8gl,003AAF1wx,003C102s3,003C84c4v,003CB71er,003CC5e5w,003D415me,003DE15ty,003DE8798,003E7389v,003EE114o,003F10brw,0040009g1,004001esh,0040029h0,004003476,0040045y3,004005em,004006aog,004007cqz,0040082v,004009cmd,00400A9i2,00400B2s3,00400C4uw,00400D77f,00400E7qd,00400F371,004010b27,004011ee,004012e4w,0040138nh,0040142cc,004015ib,00401671,004017c4q,0040187q,0040198z,00401A4ip,00401B9k7,00401Cj7,00401D64w,00401E5xv,00401F2aj,0040202vl,004021a8f,0040226wr,0040237az,0040242bc,0040257vd,0040261l4,004027b0l,0040288hm,0040292wj,00402A2j6,00402Bcwi,00402C67h,00402D5co,00402E9js,00402Fehm,0040304wf,0040316xh,0040323b3,0040337a,0040341ld,00403594p,00403689a,004037ar1,004038cn3,004039950,00403A611,00403Bb7v,00403C4ho,00403Dd6q,00403Ea8h,00403Fb45,004040ab0,0040414ix,0040428ej,0040438zo,004044a35,004045cy7,004046diu,004047e4v,004048b0n,004049akv,00404Ae40,00404B7nm,00404C5hx,00404Dcq4,00404E4h0,00404Fb2x,00405066u,00405150p,004052b4o,004053dx,0040542cz,0040557r6,0040567p9,0040577au,004058dj5,004059eme,00405A4xx,00405B4j8,00405C4ji,00405Db4p,00405E8m8,00405F9j,0040602at,00406137e,0040623ry,004063dqo,0040646wp,0040654z4,004066g8,00406793r,00406841a,00406978p,00406A6vv,00406Bb87,00406C2dt,00406D779,00406E2e6,00406Fb7q,00407064p,004071k8,00407214s,0040731fs,00407422r,004075d0n,004076cgo,0040777ou,004078e3m,0040796pd,00407Ab19,00407Baqd,00407Ca3z,00407D41b,00407E40g,00407F4gv,004080k0,0040817nh,00408276s,004083co8,0040845s6,004085anj,0040867rl,004087din,0040887v1,0040897q2,00408Acvn,00408Ba8p,00408C1e1,00408Dcsj,00408Ed0n,00408Fe5r,004090ev,0040919kn,004092iu,0040939fq,004094axi,004095a7c,0040962s3,00409737m,0040983dg,0040998je,00409A8io,00409B5by,00409Ccw4,00409D3kv,00409E2xk,00409Fd30,0040A04xv,0040A13ym,0040A26wf,0040A37sv,0040A4acg,0040A5294,0040A631e,0040A767z,0040A860u,0040A9370,0040AAdug,0040ABac6,0040ACb6j,0040ADb06,0040AE38v,0040AF3be,0040B01lr,0040B12ad,0040B2b8i,0040B39oq,0040B48js,0040B5dr1,0040B62c5,0040B7b4z,0040B85yr,0040B97n4,0040BAbv,0040BB4xw,0040BCbn,0040BDb4s,0040BE1jm,0040BF26y,0040C0drt,0040C11ik,0040C2fx,0040C34gg,0040C46wi,0040C57ro,0040C64ft,0040C7ada,0040C87tb,0040C98g4,0040CA4gc,0040CB77j,0040CCayh,0040CDcrn,0040CE8hd,0040CFb5q,0040D07u0,0040D14j6,0040D29ew,0040D36wa,0040D44t8,0040D5bbm,0040D67at,0040D7b5u,0040D892p,0040D9dc,0040DAcr8,0040DB8l,0040DCcwq,0040DD5fr,0040DE45z,0040DF3ar,0040E0ki,0040E17o0,0040E27qr,0040E3a3v,0040E43rv,0040E5b7e,0040E622d,0040E7hl,0040E8271,0040E95g,0040EA9ia,0040EB7o3,0040EC7t7,0040ED8ik,0040EE95b,0040EF5hw,0040F086s,0040F127y,0040F26mf,0040F38ho,0040F423d,0040F5930,0040F66uy,0040F79wk,0040F8b8j,0040F92an,0040FA7s1,0040FB24b,0040FC5xg,0040FD7cc,0040FEb7n,0040FFcpz,00410E296,0041B4eg1,0041D22s3,0042386gz,004252abj,00425A2s3,0042682s3,004279ch4,0043FF6w5,004501882,00451D2s3,0045E233y,00464B5gu,004A77f94,004B0D5ty,004B124ba,004BF3avh,004CE5c2w,004D3212k,004E013ix,004E355on,004F1A5gu,0050008jl,005001eld,00500293t,005003ekd,00500416,005006cmb,005007ay4,005008cth,0050099hg,00500A66p,00500B2s3,00500Ceym,00500Dapi,00500E27u,00500F2s3,00501090v,00501224t,005013bdp,0050142s3,0050151k7,0050168bq,005017ad1,005018dn,005019b3s,00501A66h,00501B4v,00501C6mu,00501E57b,00501F7w4,0050207ps,0050213uo,005022eqh,0050239h8,0050248fk,0050262eh,0050274uz,005028lp,0050297,00502A2s3,00502B4v4,00502Cb2t,00502D57,00502E23a,00502Fdc6,0050304jh,00503195,0050329hq,0050337ow,0050368hi,0050376xe,00503835u,0050397nv,00503A37n,00503B7pr,00503Ccxb,00503E2s3,00503Fe8,0050409o0,005041302,005042aqa,0050437o5,005044i3,005045ab3,0050467qe,0050479zs,00504861z,00504915l,00504A3wc,00504B1fl,00504C50a,00504Ddc3,00504Eay5,00504F93e,0050502s3,005051695,005052ct3,0050532s3,0050542s3,0050553cx,005056dsd,0050571ke,005058bb0,005059f17,00505A8ig,00505B6v1,00505Ccxs,00505E3bo,00505F1k4,005060cn9,0050626xw,00506397g,005064231,005065coc,00506619k,00506792,0050683vc,0050699ux,00506A3tm,00506Bb3w,00506C1o8,00506Ddr3,00506E2dx,00506F4so,00507026t,005071am,0050722ea,0050732s3,0050748d,0050756w3,0050765xb,0050779kt,0050787q0,0050799zs,00507Aehu,00507B7qo,00507Cdr2,00507D601,00507E8jd,00507F3q2,0050802s3,0050817x5,0050824hm,0050834w6,005084a66,005086cqv,005087crs,005088cw,005089anx,00508B5om,00508Cacz,00508D4r,00508E95a,00508Fil,00509038b,0050918hg,005092ajo,0050931jl,0050942vw,0050959gr,005096aoa,0050977uv,0050984wx,00509917,00509Acmi,00509Bb79,00509C1hn,00509Dcsk,00509E7fm,00509F5fz,0050A038u,0050A1243,0050A22s3,0050A3dek,0050A464y,0050A523u,0050A695j,0050A72s3,0050A89at,0050A97vc,0050AA6xm,0050AB8ex,0050AC7nl,0050AD2vn,0050AE4fd,0050AF64b,0050B0cp1,0050B14vv,0050B21kj,0050B3dsj,0050B4apc,0050B54fx,0050B64xy,0050B71jt,0050B8634,0050B9ehi,0050BA34z,0050BB29t,0050BC5c2,0050BD2s3,0050BE4f1,0050BF85c,0050C04tr,0050C14uo,0050C25zq,0050C460t,0050C57v,0050C67be,0050C79zs,0050C8rh,0050C97o7,0050CAeu0,0050CB219,0050CCbdp,0050CD3au,0050CE79a,0050CFdpt,0050D07tj,0050D12s3,0050D229j,0050D33b1,0050D46og,0050D56r,0050D6k6,0050D7cr9,0050D8djn,0050D93xl,0050DA16,0050DB2d8,0050DCcnf,0050DDasl,0050DEaye,0050DFv8,0050E18mw,0050E22s3,0050E32vw,0050E414o,0050E65bx,0050E79f6,0050E88zv,0050EAegw,0050EBc8,0050EC93f,0050EDea,0050EEcpm,0050EFb33,0050F02s3,0050F1820,0050F27so,0050F34ws,0050F4aya,0050F69f2,0050F7dqc,0050F83xu,0050F9bgu,0050FA97f,0050FBdt0,0050FC43f,0050FDdro,0050FE9g7,0050FF5bw,0051ED79b,005218eft,0052454tm,0052C2f5u,0052C87xy,00549F1cm,0054AFl4,0054BDcj1,0055B1bj3,0055DA5zq,00562B2s3,00566D5ty,0056CD14o,0056F1f94,0057C1798,0057D22s3,0058281e4,00583F9fs,0059077fe,00596C2s3,0059798v5,0059AC6xy,0059DC2s3,005A135gu,005A39aui,005B9414o,005BA1f6d,005C86aui,005CB156l,005CC2avh,005D03eju,005D732s3,005E0C5f4,005F67cvk,005F862s3,005FBFdd6,006000ei5,0060016el,006002aqo,006003crq,0060042br,006005ddo,006006b2m,00600767,00600816,0060092s3,00600Ab2i,00600B7b7,00600C4ch,00600D3lz,00600Ee3e,00600Fe9p,0060108is,0060112fk,0060129je,0060138ia,0060143tk,0060158hf,00601628u,006017cu6,006018b53,006019aku,00601A6vq,00601B7qq,00601Ccrc,00601D7bw,00601Eb1j,00601Fb4h,0060209i1,0060213dw,006022dqv,0060239gx,0060244y5,0060256h,006026drd,006027chw,0060287n7,006029249,00602Ab7j,00602B9gc,00602C7a3,00602Dbj,00602E2h1,00602F2s3,006030dre,0060315gl,0060325wi,0060336n,006034abt,006035362,006036aj,0060378oa,00603890b,006039baj,00603Aa3u,00603Be0,00603C5bt,00603D18,00603E2s3,00603F9fe,0060408i3,006041enw,006042cto,006043f1h,0060447ae,0060459fh,006046dsb,0060472s3,0060483iy,006049drg,00604Aao4,00604Bb94,00604Cb9l,00604D7ut,00604E2h2,00604Fd0n,00605064k,006051a3n,0060529gy,006053cve,0060542df,0060552e4,0060568j2,0060578dt,0060582du,006059cou,00605A25n,00605B6jf,00605C2s3,00605Dapy,00605E79j,00605F8l4,0060603gu,006061e4b,006062cqp,0060639lk,0060648hm,0060651ey,00606676x,0060675m,0060683kl,00606920r,00606A7ua,00606Bckc,00606Ch2,00606D3b7,00606E37r,00606F28w,0060702s3,0060717sz,006072dtn,006073a9h,006074a3a,0060759gp,006076aq3,0060779k8,0060789jg,0060797yz,00607A3eq,00607B4hl,00607Ce7j,00607Das6,00607E4w1,00607Fla,0060807su,006081cy0,0060828mg,0060832s3,0060843bk,006085cfb,0060867b1,0060876uk,006088129,006089egq,00608A28j,00608B2xo,00608C16,00608Ddk2,00608E5dg,00608Fcps,00609017k,0060914ge,0060927s0,006093dpv,0060945xb,0060955j,006096cm4,00609716,0060985gq,006099app,00609A8li,00609B195,00609C9rd,00609D9iy,00609Ei7,00609F9hb,0060A0b7a,0060A1dsu,0060A28km,0060A32d9,0060A44vl,0060A59gw,0060A69fc,0060A77sm,0060A8ct6,0060A94vh,0060AA63x,0060AB77q,0060ACa9w,0060AD83p,0060AEcwo,0060AF9eq,0060B05om,0060B16ft,0060B29kj,0060B3eot,0060B44wn,0060B56vl,0060B677b,0060B726z,0060B82e1,0060B98gl,0060BAao1,0060BB2hi,0060BC71e,0060BD48o,0060BEe3t,0060BF7n5,0060C08sf,0060C1e7o,0060C27vz,0060C38id,0060C4b1y,0060C5e9,0060C6389,0060C7cy,0060C86yl,0060C92yy,0060CA5cm,0060CB5ew,0060CC3x3,0060CDdy2,0060CE5e,0060CFcj,0060D0b12,0060D124b,0060D27bx,0060D3jn,0060D43v4,0060D5cu,0060D690r,0060D73tc,0060D83w2,0060D9cw5,0060DAaha,0060DB8nf,0060DC8gi,0060DD7xg,0060DE70h,0060DF20r,0060E0n3,0060E1963,0060E2a3s,0060E3gm,0060E42bp,0060E54io,0060E6axj,0060E7a8b,0060E85es,0060E9kk,0060EAcfu,0060EB4hz,0060EC5dq,0060EDaas,0060EEfr,0060EF4h2,0060F06oe,0060F1416,0060F277t,0060F39ra,0060F489,0060F55y9,0060F68ju,0060F7374,0060F87kj,0060F93ac,0060FA3u1,0060FB9et,0060FC2d3,0060FD8t6,0060FE7ch,0060FFa5i,0061515gu,0061688zj,00617114o,0062018cw,00620B20l,0062EC2s3,0063DE298,0064402s3,0064A67zx,0064AF3nl,00651E10w,0066195ty,00664B5gu,0066DC14o,0067624lk,00682B5ty,0068EB5gc,00692Dch9,0069675zq,006A5E5zq,006B6F5gu,006B8Ebjm,006B9Ee17,006BA0awd,006BF12s3,006CBC2s3,006CFDc2r,006D5214o,006D615aq,006DFBe2k,006E02ek9,006F64ba7,006FF27ub,0070074ba,0070B07mr,0070B336w,00714710n,0071C29gg,0071CC5rz,007204ba8,007230902,0072638u4,0072782s3,0072EE6gz,00738Dbxt,0073E0ba7,00749Cam3,0075326gs,0075E111w,00763Ddvl,0076862s3,0076B1cah,0076B64oe,00778D2s3,0077E48zq,0078398zj,0078882s3,00789Eb9l,0078CD69y,007AA44id,007B18as7,007C2Dba7,007D3Bba7,007D6014o,007DFAe1p,007E562p5,007E952s3,007F1D4k9,007F28q7,0080007x3,0080019gz,008002apg,0080035hy,008004ez,00800522w,0080062bl,0080073cg,0080083f2,0080096ph,00800A6mm,00800B2fy,00800Cdqy,00800Ddss,00800Ek5,00800Fb4i,0080102b1,0080113bh,00801263p,008013csx,0080143z8,008015arr,008016e34,0080179h7,0080186x7,00801937x,00801A1h7,00801B6xb,00801C8jf,00801D63n,00801Eehc,00801F6y0,0080208iu,008021x7,008022apx,00802363i,0080246ui,008025d53,0080268iu,0080276v,008028cvw,0080293sp,00802Acrz,00802B63o,00802Ccso,00802Dei6,00802E24k,00802F8fh,0080308jz,0080311ft,0080325b,0080333wy,008034b0v,008035cp3,008036a9i,0080374av,00803836x,008039ba,00803Adpw,00803Bgf,00803Ccy3,00803Db6t,00803Eb7w,00803Fcnm,0080406oc,008041dq5,00804217d,0080438j4,008044b8c,0080457oi,008046d0n,008047619,0080482bj,0080498lb,00804A9kd,00804B3so,00804C2d7,00804D2h3,00804Efh,00804F35s,008050eq1,0080514fs,008052cov,00805363v,0080544ig,0080554fl,008056b3l,0080577w,0080589k7,008059b4m,00805Acxr,00805B2cr,00805C9t,00805D23q,00805E7bo,00805F5om,0080608ir,0080617ad,008062647,0080635py,008064e6h,0080652gy,0080664ch,008067b3y,008068elf,0080692c8,00806A3yn,00806Baq5,00806Cbee,00806D26b,00806E8l2,00806F948,0080702bq,008071ao2,0080727sf,0080733et,0080744gi,0080759fb,0080767pb,00807720y,0080789jn,0080797s2,00807Aak,00807Bhu,00807C4fp,00807D3yg,00807Eb2q,00807F3ey,008080378,0080816vs,0080829gq,008083d6,008084csg,0080855bi,0080862bv,00808793b,008088dqw,008089cpa,00808Ab61,00808B35b,00808C8i6,00808De43,00808Ea7v,00808F22c,0080907sq,008091cub,008092c4p,008093ei7,008094bl,0080951fr,0080965h7,008097264,008098cob,008099425,00809A8mo,00809B6pj,00809C7c2,00809D2vx,00809E37p,00809Fbi,0080A05om,0080A17ss,0080A22f3,0080A37db,0080A479i,0080A5b3f,0080A6a9u,0080A75sf,0080A8drw,0080A9290,0080AA7ot,0080AB3ei,0080AC60z,0080AD29x,0080AE5h1,0080AFc0,0080B08e,0080B1b1h,0080B28in,0080B3lq,0080B4b2h,0080B5dkc,0080B684j,0080B7b52,0080B83cm,0080B9gq,0080BAb35,0080BB5h0,0080BC5et,0080BDcsi,0080BEh9,0080BFcmy,0080C09gk,0080C177d,0080C25zk,0080C31hv,0080C43cs,0080C58ml,0080C68fg,0080C7ehh,0080C834y,0080C9b6,0080CA8hk,0080CB4ev,0080CC7sw,0080CD7sd,0080CE1kg,0080CF3wm,0080D02c0,0080D16wb,0080D2axa,0080D3axf,0080D4273,0080D5230,0080D68nz,0080D74ka,0080D88it,0080D93wt,0080DA5td,0080DB4y9,0080DC9hr,0080DD4xa,0080DE4w9,0080DF73,0080E0ei1,0080E1b5c,0080E2cm0,0080E32dv,0080E48mb,0080E58su,0080E69gf,0080E77fj,0080E82go,0080E97xz,0080EA82,0080EB2bi,0080ECb6l,0080ED66d,0080EEcsy,0080EFa8j,0080F09nv,0080F195m,0080F2a8o,0080F3b62,0080F4cqe,0080F5a61,0080F6b7u,0080F7es2,0080F87uh,0080F95dv,0080FAadf,0080FB1lg,0080FClu,0080FD418,0080FEnf,0080FFb18,00812A14o,0081C42s3,0081F9d7u,0083205ty,00841E2s1,008497buz,0084ED791,00862110n,00866779b,00869C9nf,0086A09zs,008701ba7,0087312s3,0087642s3,00886514o,0088BA8fw,0089C94e3,008A555ty,008A7614o,008A962s3,008B43aaj,008BFCf4x,008C101w3,008C546y,008CFA64s,008D4E28n,008DDA7hj,008DF45zq,008E732s3,008EF28hv,0090003ad,0090018l7,009002bu,009003fp,00900417,0090059l4,0090065iv,0090073cw,0090085j1,0090095wa,00900A9l9,00900B77e,00900C2s3,00900D9dv,00900E5c9,00900F6v0,009010ayv,009011e3h,0090124wz,009013aoh,009014acn,00901525y,009016ep0,009017evq,00901868i,0090195dr,00901Adk7,00901B3b4,00901Cf52,00901D50b,00901Ebfd,00901F7y,0090209he,0090212s3,009022691,009023eq5,0090249hz,0090251ff,0090268k,0090276gz,0090288l1,0090292fj,00902A2b6,00902B2s3,00902C36p,00902D36r,00902E8ez,00902F8hq,0090305fn,0090317xi,0090329gh,00903362u,00903460j,009035c7,009036ezy,0090376m,0090384hx,009039atm,00903A8kl,00903Bdfw,00903Ck4,00903D1i6,00903E8el,00903Feen,009040c3s,009041fz,0090423t2,009043d0n,009044j5,009045805,00904639t,0090474vy,009048epd,0090493xv,00904A2cp,00904B51n,00904C4a7,00904Db34,00904E38s,00904F4f,009050d4f,009051dj8,009052arv,00905335j,00905462w,0090559f9,009056cqo,0090573y,009058dm9,009059cq3,00905A38f,00905B9pa,00905C3ts,00905D8hl,00905Ea8m,00905F2s3,009060b8f,0090619er,0090625ye,0090632ah,009064d9s,0090654g5,009066dgr,009067e6n,0090683es,0090696tm,00906Acxw,00906Bg4,00906Cbbl,00906D2s3,00906E9jq,00906F2s3,0090708gw,00907114s,009072ays,0090734tb,009074h6,0090758gg,0090764h6,0090778c,0090787qg,0090792sq,00907Accs,00907B3s2,00907C3bl,00907D7cu,00907Edqk,00907Fe76,0090808mc,009081c2,0090824hg,009083cxt,009084js,0090854xu,0090862s3,00908768e,0090881fx,009089b1i,00908A1g0,00908Bd0n,00908C3zy,00908Ddqu,00908E90c,00908Fkt,0090905wh,0090913mn,0090922s3,0090933uq,00909496t,009095dkf,009096ip,009097cji,009098apo,009099bx,00909A946,00909B7nx,00909C2vw,00909D90z,00909E326,00909F3at,0090A02n,0090A14nv,0090A233y,0090A32zy,0090A4ck,0090A5b3b,0090A62s3,0090A7293,0090A88yf,0090A9e44,0090AA61j,0090AB2s3,0090AC95e,0090ADiw,0090AE67y,0090AF6m1,0090B0dpn,0090B12s3,0090B2m1,0090B39x,0090B4e4n,0090B58kp,0090B64fv,0090B73ba,0090B8ac2,0090B91hg,0090BAdpr,0090BBcmr,0090BCcqb,0090BD93q,0090BE5x9,0090BF2s3,0090C06u9,0090C19qg,0090C26ny,0090C3cus,0090C46mx,0090C564j,0090C6958,0090C75y5,0090C8e3f,0090C93da,0090CA5h,0090CBecw,0090CC9if,0090CD3xq,0090CEewg,0090CF8m7,0090D0d9u,0090D178m,0090D217c,0090D34vw,0090D41uv,0090D5403,0090D632p,0090D78sv,0090D8e4e,0090D92s3,0090DA3f1,0090DB8jq,0090DCcpf,0090DD7t4,0090DE23y,0090DF7u5,0090E0b8l,0090E1cqf,0090E23c1,0090E3lx,0090E48gd,0090E5cpp,0090E6cr,0090E75g2,0090E87vu,0090E96mi,0090EAc6,0090EBas8,0090EC9mc,0090ED263,0090EE9h2,0090EF63t,0090F05m8,0090F1bdp,0090F22s3,0090F3iv,0090F479o,0090F5292,0090F63yy,0090F78fr,0090F87pt,0090F96aj,0090FA47k,0090FB9j8,0090FC8ij,0090FD2zj,0090FE3v8,0090FFcqy,00919E6gz,0091D632p,0091EBaie,0091FAck2,00923514o,00927D4lu,0092A579b,0092FAawi,0093376gz,009363dmn,0094A14ek,0094EC5ty,0095697bn,0097F114o,0097FF5nd,00991D5gu,009ACD5gu,009AD22s3,009B08a6l,009C025om,009C17a6l,009C575op,009CC0f8g,009D6B8dt,009D85c48,009D8E23x,009E1E2s3,009EC8ejs,009EEE9x8,00A00025z,00A0013dk,00A00278g,00A003c3v,00A0048i0,00A005365,00A00660h,00A007fk,00A0088hr,00A009e4f,00A00Aw1,00A00B2c7,00A00C6we,00A00Dcsn,00A00E8i6,00A00F20i,00A010b89,00A0117x6,00A012d30,00A013crb,00A0142fw,00A015e6d,00A0167sg,00A0176lt,00A0182f2,00A0198gb,00A01A1hz,00A01Beu0,00A01C8f9,00A01Daha,00A01E3zf,00A01Fcwh,00A02028l,00A02151y,00A022265,00A023fy,00A02416,00A025a9g,00A026cpw,00A0274g8,00A0282d0,00A0292el,00A02Acvy,00A02Bcw1,00A02Cf3d,00A02D8,00A02E1k3,00A02F6y,00A03023v,00A0315cz,00A0324vf,00A033f30,00A034mx,00A0352h6,00A036g3,00A03788x,00A0383wk,00A039aci,00A03A6yi,00A03Bcv4,00A03C3ue,00A03D95f,00A03Ek9,00A03F2c1,00A04014o,00A04161x,00A042b3v,00A043df,00A0448nj,00A0459sr,00A046aqg,00A04763m,00A048a3t,00A0493bn,00A04A8l9,00A04Bcs6,00A04C62x,00A04D3ti,00A04Edsh,00A04Fdh,00A0502h7,00A051ek,00A052b4l,00A0532be,00A0549zs,00A0553gp,00A0567si,00A05777a,00A0584x1,00A0595c1,00A05A6xd,00A05B7o2,00A05C64u,00A05D2fo,00A05E7xf,00A05F1kz,00A0605n,00A0619m8,00A06298,00A0636oq,00A0646yu,00A065cjn,00A066671,00A0678iy,00A0681hs,00A069cjs,00A06Adwg,00A06B3co,00A06Cax5,00A06D7ni,00A06Eld,00A06F2ux,00A0702a6,00A071dqz,00A072976,00A0732al,00A0749gs,00A0757sc,00A07623z,00A0774j4,00A078805,00A079c9,00A07A8i,00A07B37v,00A07Ccum,00A07Darl,00A07Em2,00A07F4yv,00A080d0n,00A081b8,00A0828lk,00A083ij,00A0843hk,00A0859zs,00A086d2,00A08787k,00A0883zd,00A089ehv,00A08A1kk,00A08Bjc,00A08C8dj,00A08D6m8,00A08E2nl,00A08F39h,00A090db9,00A091fu,00A0925bj,00A0931f6,00A0942cb,00A09554,00A0967ub,00A0976n5,00A0988su,00A0996u4,00A09A8kj,00A09Ba38,00A09Cel0,00A09D6od,00A09E5yj,00A09F2b8,00A0A02bd,00A0A13y6,00A0A21f9,00A0A3a9n,00A0A49ci,00A0A5cpq,00A0A67mq,00A0A7dsq,00A0A8a9s,00A0A98fp,00A0AAb2y,00A0AB8ht,00A0AC4w5,00A0AD7nr,00A0AE8np,00A0AFe5s,00A0B05wn,00A0B14gf,00A0B2awx,00A0B3er3,00A0B4cs3,00A0B51e,00A0B6ap0,00A0B72dw,00A0B88su,00A0B93sp,00A0BA9fk,00A0BB5ec,00A0BCdqr,00A0BD5wq,00A0BE63j,00A0BFe57,00A0C03bb,00A0C196i,00A0C2a7a,00A0C3djm,00A0C42fc,00A0C5evs,00A0C6a5o,00A0C7cmf,00A0C8rx,00A0C96gz,00A0CA4j1,00A0CBhf,00A0CC7a8,00A0CD3de,00A0CE42c,00A0CFb2l,00A0D0crh,00A0D164s,00A0D2by,00A0D363b,00A0D4a7q,00A0D5c3z,00A0D6app,00A0D76ut,00A0D8b39,00A0D92di,00A0DA63s,00A0DB4gh,00A0DC92e,00A0DDnb,00A0DEelb,00A0DFb5s,00A0E0cri,00A0E1e45,00A0E270r,00A0E3ehk,00A0E495d,00A0E58k5,00A0E63ab,00A0E7261,00A0E8aa0,00A0E93vd,00A0EA3zu,00A0EB47y,00A0ECcw2,00A0ED20v,00A0EE8fc,00A0EF7bz,00A0F0cuy,00A0F17wr,00A0F2627,00A0F3b4w,00A0F44u9,00A0F5a7m,00A0F61bn,00A0F7dph,00A0F8eri,00A0F91i0,00A0FA804,00A0FBdd3,00A0FC60i,00A0FDaqh,00A0FE1ju,00A0FFcqw,00A159797,00A1DEbnt,00A2657mw,00A2892s3,00A2DA61b,00A2EE2s3,00A2F55aw,00A2FFevv,00A3075sy,00A388azx,00A38E2s3,00A3D12s3,00A41Cdcj,00A45F5ty,00A509ebg,00A5546gz,00A5BF2s3,00A62Bbjv,00A6CA2s3,00A7422s3,00A78468y,00A91D5gu,00AA006gz,00AA016gz,00AA026gz,00AA3C93i,00AA6E2s3,00AA70798,00AAFDd7u,00AB48ezk,00ACE02vw,00AD24351,00AD633in,00ADD55ty,00AECD9qu,00AEF73q7,00AEFA8dt,00AF1F2s3,00B00957b,00B0176da,00B019dl3,00B01Cea0,00B01Eafa,00B02A96f,00B02Ddxg,00B03392j,00B03B5ov,00B048805,00B04A2s3,00B05219s,00B0642s3,00B0695s4,00B06D6t3,00B0807zj,00B0867j2,00B08E2s3,00B091dex,00B094ww,00B09A8cc,00B09D9wb,00B0ACaxr,00B0AEcjs,00B0B3ehy,00B0C22s3,00B0C7d58,00B0CEe0u,00B0D03ix,00B0DB8xa,00B0DFce4,00B0E12s3,00B0E7204,00B0EC3sk,00B0EEwf,00B0F0239,00B0F58ti,00B1E32s3,00B33874g,00B3427xs,00B36214o,00B463ajt,00B4F53on,00B56D3i1,00B5D0ba7,00B5D6995,00B600dsk,00B6702s3,00B69F7do,00B7712s3,00B78D8pl,00B7A85nh,00B810enm,00B81D4e3,00B8818w0,00B8B32s3,00B8B68cw,00B8C25nb,00B9F6bxl,00BAC01v1,00BB0192v,00BB1C5ty,00BB3A10n,00BB43db0,00BB606gz,00BB8E5f5,00BBC123n,00BBF0dji,00BC2Fq7,00BC602s3,00BC995k5,00BD274dc,00BD3A8zj,00BD3Ee17,00BD82bzz,00BE3B5gu,00BE433ix,00BE44c4v,00BE752s3,00BE9E4lk,00BED58vr,00BF1552h,00BF61ba7,00BF772s3,00BFAF5ub,00C00077g,00C0013ah,00C002bhm,00C0034ww,00C0046mk,00C0057af,00C0068ky,00C0079hv,00C008ar5,00C0096y9,00C00A7rr,00C00B8m2,00C00Ca9m,00C00D8g,00C00E9ll,00C00Fa3r,00C0105ej,00C011643,00C0128i8,00C0138i2,00C014cqc,00C0158ja,00C0163ve,00C0178st,00C018776,00C019787,00C01A2e7,00C01Bb1b,00C01C64d,00C01D4y6,00C01E76r,00C01Fan4,00C020gv,00C0218hu,00C02277u,00C023cxx,00C0243tl,00C02537b,00C02677h,00C02728e,00C0286mr,00C029ui,00C02A933,00C02B4va,00C02C268,00C02D4iq,00C02E8if,00C02F93c,00C03063l,00C03139g,00C0325wj,00C033cq0,00C034cw0,00C035a3w,00C036a8t,00C0373f3,00C038a8g,00C039d77,00C03Aeyg,00C03B7x0,00C03Ccv7,00C03De4j,00C03E4em,00C03Fb5k,00C0403t1,00C0413bj,00C042377,00C043b5o,00C0443wq,00C04567k,00C0461wn,00C047dju,00C0481fz,00C049dif,00C04A4yj,00C04B2f4,00C04C399,00C04D7u1,00C04E2ci,00C04F3ix,00C050cva,00C0518f,00C0521lb,00C05318p,00C0548it,00C0557v6,00C056b23,00C0577xc,00C058373,00C059391,00C05Aary,00C05B8j3,00C05C3w5,00C05D76c,00C05Edpu,00C05F4g3,00C0605yo,00C061b1t,00C062613,00C0637vn,00C06451v,00C065aql,00C0663ct,00C067dkb,00C0685f6,00C0691eb,00C06Aer8,00C06B96n,00C06Cb72,00C06D1jg,00C06E5br,00C06F6xk,00C070ar7,00C071h0,00C0726x4,00C073egv,00C074cvd,00C075ego,00C0765wk,00C07735k,00C0782c2,00C0794hd,00C07A9ka,00C07Bi8,00C07C5ea,00C07Dab4,00C07E6yh,00C07F8nv,00C0808ib,00C0817r5,00C0827vk,00C083cvu,00C08436t,00C0853vg,00C086csl,00C087dlc,00C0883uu,00C089cqu,00C08A7ds,00C08Bab8,00C08C9gv,00C08Dcww,00C08E8iq,00C08F9o0,00C0909jo,00C0916m4,00C0927qf,00C093cf,00C094dsc,00C095eqb,00C096d03,00C097gs,00C09827x,00C099emf,00C09A9hk,00C09Bd57,00C09C5eg,00C09D3c2,00C09E22v,00C09Fa5w,00C0A085,00C0A1cua,00C0A264g,00C0A33ee,00C0A4djr,00C0A53am,00C0A6414,00C0A7ark,00C0A84zq,00C0A91fn,00C0AAayk,00C0ABd30,00C0AC4th,00C0AD7np,00C0AEcv8,00C0AFcpo,00C0B04tz,00C0B14v1,00C0B28m0,00C0B32cd,00C0B47xh,00C0B52e9,00C0B65hh,00C0B7de,00C0B84i6,00C0B94ja,00C0BA8ic,00C0BB4hv,00C0BCcq2,00C0BD61w,00C0BEb7,00C0BFcp2,00C0C0axk,00C0C1a3i,00C0C261y,00C0C36o,00C0C42bz,00C0C5axw,00C0C69h3,00C0C7b2z,00C0C87rq,00C0C93w9,00C0CAbk,00C0CB2dd,00C0CCcql,00C0CD2as,00C0CE25i,00C0CF60n,00C0D0a8k,00C0D12ch,00C0D2b81,00C0D393l,00C0D4n6,00C0D5e9g,00C0D66m2,00C0D7cmv,00C0D8dkg,00C0D9a3x,00C0DA8ka,00C0DB65p,00C0DC3y1,00C0DDa32,00C0DEepc,00C0DF6z3,00C0E03dx,00C0E1b26,00C0E2235,00C0E396p,00C0E4ay2,00C0E54vg,00C0E6dwg,00C0E74fq,00C0E89io,00C0E992i,00C0EAho,00C0EBarq,00C0EC37q,00C0EDdkv,00C0EE6z8,00C0EF4q,00C0F072h,00C0F1ax8,00C0F27db,00C0F38ii,00C0F464e,00C0F57qy,00C0F625m,00C0F73xj,00C0F84y,00C0F917d,00C0FA23j,00C0FB8m,00C0FC3v1,00C0FD9l1,00C0FEgg,00C0FFbdp,00C14F38c,00C1642s3,00C1B12s3,00C28Fys,00C2C66gz,00C30Aejs,00C3433s0,00C3F4ba7,00C52C6tm,00C58514o,00C5DB3hs,00C61014o,00C711687,00C84E5on,00C88B2s3,00C896287,00CAE04zc,00CAE52s3,00CB009zs,00CB51b9l,00CB7Adv4,00CBB4au0,00CBBD2ih,00CC055gu,00CC346tm,00CC3Fdo6,00CCFC2s3,00CD907o6,00CDFE14o,00CE304dy,00CF1C2w0,00CFC02pi,00D0004fm,00D001dt7,00D0023c3,00D0032ap,00D0049gn,00D005epz,00D0062s3,00D0077rj,00D0087n8,00D0095gp,00D00A775,00D00Baaq,00D00Cb10,00D00D7sb,00D00E9ir,00D00Fb3e,00D0102dh,00D0119k9,00D0124tv,00D0139k5,00D014acd,00D015dkj,00D016aqk,00D017b7z,00D018a42,00D01935w,00D01Adks,00D01B7td,00D01Capu,00D01D4jb,00D01E9hu,00D01Fbg3,00D020a8,00D021a9j,00D02261f,00D023625,00D0242uh,00D025ehw,00D0265em,00D027fw,00D0285m6,00D029e31,00D02Ae22,00D02B6nk,00D02C23f,00D02Dais,00D02E2b5,00D02Fds9,00D030b99,00D03161p,00D032eli,00D033360,00D03496d,00D0351gn,00D036cp1,00D0372vw,00D0384gl,00D039dl5,00D03Aeqi,00D03Bdrn,00D03Cdye,00D03D4tg,00D03Eaby,00D03Fdb,00D040b8a,00D041dm,00D0427nd,00D043eqg,00D044bq,00D0456yt,00D0463cu,00D047ehp,00D0483tf,00D049612,00D04A9jt,00D04B76q,00D04C4b6,00D04D3c4,00D04E7ay,00D04F1if,00D0506l7,00D05192f,00D052i8,00D0532cy,00D054ap9,00D0556uw,00D056b22,00D057djb,00D0582s3,00D059d3,00D05Ab7h,00D05B69,00D05C6uv,00D05D63y,00D05Eb5n,00D05Fdpq,00D0609o4,00D061cw9,00D0623ax,00D0632s3,00D0647x4,00D065cu7,00D066e52,00D06723g,00D068697,00D069coz,00D06A7a0,00D06Bb3z,00D06Catk,00D06D68,00D06Ecwb,00D06F6wx,00D0707ba,00D0713t3,00D0721ki,00D0735z,00D074cne,00D075b3,00D0761mg,00D0777bw,00D078465,00D0792s3,00D07Acx,00D07B2ao,00D07C6p7,00D07D2ec,00D07E6w6,00D07Fb5p,00D08040w,00D081ad3,00D08265c,00D08364v,00D0848jh,00D08596z,00D0864i0,00D0877s7,00D0882vw,00D0893ez,00D08A9hl,00D08B82,00D08C4v3,00D08D9hj,00D08E57b,00D08Fgy,00D0902s3,00D091b0i,00D0924wo,00D093cvt,00D094beq,00D095xd,00D09617,00D0972s3,00D0989t3,00D09944a,00D09A4fz,00D09Bb37,00D09C6ul,00D09Ddqe,00D09Er,00D09F8mn,00D0A07ts,00D0A196q,00D0A263k,00D0A3dsg,00D0A4b2,00D0A5da,00D0A6777,00D0A7cue,00D0A88im,00D0A9ax3,00D0AA272,00D0AB38y,00D0AC2vw,00D0ADctp,00D0AE965,00D0AF2gp,00D0B01ih,00D0B193m,00D0B2ejz,00D0B33dm,00D0B46uz,00D0B566c,00D0B62f5,00D0B76gz,00D0B86kl,00D0B97sq,00D0BA2s3,00D0BB2s3,00D0BC2s3,00D0BD7dp,00D0BE3x5,00D0BF9i2,00D0C02s3,00D0C15cl,00D0C21fi,00D0C3ds5,00D0C4crt,00D0C52bs,00D0C6csw,00D0C79fi,00D0C89z8,00D0C98r,00D0CA6jo,00D0CB36g,00D0CCcp0,00D0CDjo,00D0CEcnj,00D0CF7vm,00D0D0epy,00D0D1cji,00D0D23y8,00D0D32s3,00D0D4dpc,00D0D54yn,00D0D69e,00D0D71f8,00D0D816,00D0D938i,00D0DAcmm,00D0DB7pf,00D0DC7v7,00D0DDb6c,00D0DE9hi,00D0DF6ys,00D0E03d6,00D0E1m6,00D0E27w7,00D0E33v6,00D0E42s3,00D0E5b1x,00D0E65xe,00D0E7dpy,00D0E87mz,00D0E9t4,00D0EA8jw,00D0EB79n,00D0EC8ew,00D0EDehf,00D0EE3ao,00D0EF607,00D0F02dk,00D0F1aro,00D0F27vi,00D0F3b1q,00D0F4241,00D0F595s,00D0F68zj,00D0F78jr,00D0F84is,00D0F96p,00D0FAd85,00D0FBcpn,00D0FC4y8,00D0FD959,00D0FEje,00D0FF2s3,00D11C5r,00D279drh,00D2B1cvp,00D318b3i,00D38D5tb,00D49E6gz,00D5981jr,00D62689v,00D6324uc,00D6CBa6l,00D6FE2s3,00D76D6gz,00D78F2s3,00D86186p,00D8A25ty,00D98B5k7,00D9D1cb9,00DA279nf,00DA552s3,00DB1Ex0,00DB45csb,00DB7014o,00DBDF6gz,00DCB24e3,00DD00dji,00DD01dji,00DD02dji,00DD03dji,00DD04dji,00DD05dji,00DD06dji,00DD07dji,00DD08dji,00DD09dji,00DD0Adji,00DD0Bdji,00DD0Cdji,00DD0Ddji,00DD0Edji,00DD0Fdji,00DD25c0n,00DDB68vr,00DEFB2s3,00DF1D2s3,00E0004j0,00E001b5m,00E0022fg,00E0038lx,00E0049ix,00E005cot,00E006ayj,00E0071cn,00E008cz,00E009cfq,00E00A3ai,00E00Bacc,00E00C7vq,00E00Da7n,00E00Elr,00E00Fbj3,00E0105du,00E011djo,00E0129iu,00E0133st,00E0142s3,00E0155dk,00E016a8d,00E01741d,00E018jj,00E01962b,00E01A2cf,00E01Bb3k,00E01C31b,00E01De8h,00E01E2s3,00E01Fm3,00E020cpe,00E0214ia,00E022129,00E023cr4,00E0244t7,00E025ey8,00E026ahl,00E0273ek,00E028gi,00E029b4i,00E02Acna,00E02B4e3,00E02Cj6,00E02D6ej,00E02Eb32,00E02F7pd,00E0307q9,00E0315bs,00E0327ty,00E0333s9,00E0342s3,00E03517d,00E0369hx,00E037269,00E0389le,00E0399f7,00E03A2hi,00E03B9kx,00E03Cs1,00E03D4ha,00E03Ebm,00E03F6mv,00E0403jx,00E0412g2,00E0429n4,00E043e0c,00E0447bq,00E045cv6,00E0461hd,00E0476b6,00E048aqt,00E0497sx,00E04Aer2,00E04B6pf,00E04Ca9c,00E04D64i,00E04Eap5,00E04F2s3,00E050411,00E051cn5,00E05220r,00E05325q,00E0546xa,00E05562f,00E0565ff,00E0575c4,00E0589h9,00E0592de,00E05A4te,00E05Be42,00E05C9hd,00E05Ddka,00E05E6mj,00E05Feyj,00E060awt,00E061436,00E0625g5,00E0632hi,00E064aon,00E065955,00E0669zx,00E067ezf,00E0687qp,00E0696mz,00E06A6uo,00E06Be2o,00E06Cdm9,00E06D2ca,00E06E4ex,00E06F2vw,00E0703a5,00E0713ya,00E0727cg,00E0738ff,00E074ct7,00E075dwg,00E07639o,00E077e3q,00E0781hi,00E0793j,00E07A7t9,00E07B1fy,00E07C7r7,00E07D8i4,00E07Ee32,00E07F7b6,00E0802db,00E081cyc,00E082ej,00E0836mt,00E0842bn,00E0854wr,00E086475,00E0877e3,00E0887bu,00E089655,00E08A4uk,00E08Ba32,00E08C8h1,00E08D9jv,00E08Edl6,00E08F2s3,00E0901gh,00E091797,00E0927o,00E0935u,00E09496j,00E0958o,00E096awy,00E097248,00E098ny,00E099aok,00E09A9x9,00E09B3xk,00E09C7t5,00E09Dap8,00E09Ea66,00E09F9i5,00E0A0e4q,00E0A15ed,00E0A27sn,00E0A32s3,00E0A43yx,00E0A52v4,00E0A6cr3,00E0A765q,00E0A8apb,00E0A94j7,00E0AA3vh,00E0AB3bs,00E0AC7t3,00E0AD1zc,00E0AEegp,00E0AF4ut,00E0B02s3,00E0B1xd,00E0B2cr0,00E0B34bn,00E0B4cow,00E0B5gx,00E0B649f,00E0B730y,00E0B84ts,00E0B91ll,00E0BA1hh,00E0BB8fv,00E0BCb7m,00E0BD649,00E0BE4v5,00E0BFcuz,00E0C0art,00E0C17qc,00E0C28gp,00E0C3ao6,00E0C45g0,00E0C51gb,00E0C679y,00E0C7408,00E0C8drl,00E0C91bt,00E0CA1hk,00E0CBa9y,00E0CC5ds,00E0CDank,00E0CEhk,00E0CF63k,00E0D08i9,00E0D1cr5,00E0D2dqh,00E0D337l,00E0D4410,00E0D547k,00E0D62bt,00E0D7b6e,00E0D8778,00E0D9cno,00E0DAxd,00E0DBdxi,00E0DC8k0,00E0DDes2,00E0DE37i,00E0DFeu0,00E0E0axp,00E0E14t2,00E0E262t,00E0E3azl,00E0E44ew,00E0E528d,00E0E661c,00E0E7a8u,00E0E84yg,00E0E936s,00E0EA62v,00E0EB3aw,00E0EC25o,00E0EDayi,00E0EE7nt,00E0EF3bw,00E0F04x,00E0F1csc,00E0F2hg,00E0F3e8g,00E0F4639,00E0F5cqk,00E0F638h,00E0F72s3,00E0F83an,00E0F92s3,00E0FAcwu,00E0FB78o,00E0FC5gu,00E0FD39,00E0FE2s3,00E0FFarg,00E12F5gu,00E16D2s3,00E175as,00E18C6gz,00E22C2pi,00E3B2ba7,00E400c2r,00E4065gu,00E421cb9,00E5E4c2w,00E5F11l4,00E607l8,00E60E4e3,00E63Aalx,00E666ha,00E6D38lg,00E6E88v6,00E7E3f94,00E8AB83z,00E93A1er,00EABD2s3,00EB2Dcb5,00EBD52s3,00EBD87ql,00EC0Aejs,00EDB86z7,00EE0147r,00EEAB2s3,00EEBD5gr,00F0516z0,00F22Cbj1,00F28B2s3,00F36110n,00F39F14o,00F3DBe5x,00F4039cr,00F46Fba7,00F48D7ik,00F4B914o,00F5FD5gu,00F62056h,00F6632s3,00F76F14o,00F7AD5gu,00F81C5gu,00F82C2s3,00F8609ly,00F8713jg,00F8CCb9l,00F9525gu,00FA21ba7,00FA3B295,00FAB674b,00FADE8cw,00FBF91ds,00FC58e8e,00FC706jm,00FC8B10n,00FC8D5qz,00FCBA2s3,00FD222s3,00FD455on,00FD4C8j7,00FEC82s3,020701a7f,021C7C9h1,0260867b1,02608C16,027001a7f,0270B07mr,0270B336w,029D8E23x,02AA3C93j,02BB0192v,02C08C16,02CF1C2w0,02E6D38lg,040067cdt,04006E56h,0401A14ou,0401BBcpb,04021F5gu,0402CAbz0,0403125k5,0403D68yt,0404B82pd,0404EAdu1,0405DDbqb,04072Edti,0409735on,04098615q,0409A55e0,040A83xc,040AE0ehn,040CCE14o,040D84c4v,040E3C5gc,040EC2dyi,040F66cvk,04106Bejs,0411195zq,04137A14o,0414715gu,04155214o,0415D9e14,04174C8pk,0417B6c7s,04180Fba7,0418925gu,0418B69zs,0418D6dlp,04197F57a,041A04e7l,041B6D798,041B945t8,041BBAba7,041C6C6gz,041CDBc2l,041D103q4,041DC7f94,041E6414o,041E7A3e4,041EFA1ib,041FB8f8g,042084f94,04208Af99,04209A9nx,042144ch4,04214C6fy,042234ecy,0422E74lk,042322d7u,0423A3848,0424054zc,0425C55gu,0425E0cz2,0425E8d7u,0425F08zj,0426051ya,04266514o,04272887m,0427585gu,04292Eba7,042AE22s3,042B58bsi,042BBB9tu,042DAD165,042DB44mp,042EC114o,042F56ke,0430FA2s3,0431106g7,04320120l,0432F49ps,04331F5ty,0433858ow,0433895gu,0433C26gz,0434C3a4n,0434CF14o,0434F68cs,04359Beez,0436045bc,0436B85wd,043855bdd,0438DC2pt,0439262p5,0439CBa4r,043A0Db04,043CE8bxm,043D6E8zj,043D982qg,043F72848,0440A98vr,04416955x,0441A514o,04421Ajj,0443FDc2w,0444A1cq6,044562ef,0445A18l5,0446658dt,0446CF1rx,044707d7u,04472A9nf,0447CA4ye,04489A14o,04495D5ty,044A50af3,044A69bvo,044A6Af5k,044A6C5gu,044AC6uy,044BA5avh,044BB15ty,044BED14o,044BFF58w,044CEF4r4,044E064at,044E5A2vw,044EAF79b,044F175h8,044F4C5gu,044F7A2pi,044F8Bqw,044FAAalx,0450DAa4g,045170eu9,0452C71yh,0452F314o,0453D5cl1,04545314o,0455B25tw,0455B85gu,0455CA1zm,04560454k,0456658zn,0456E56gz,04572Fbhu,04574755x,045791c13,04585D5zq,04586Fc2y,045A3D90q,045A958zj,045C06ev4,045C6C6tm,045C8Ef0m,045D4Bcb5,045D56ex5,045E0Aaw9,045EA48u4,045FA6bwg,045FA7c00,045FB92s3,0461697po,0462732s3,0462D7cc,0463D05ty,0463E08zw,0464FA3ix,046565d7o,0467611sa,046785f67,04686514o,046874296,04698F6tm,0469F814o,046B1Bb86,046B25c2w,046C596gz,046C9D2s3,046D42216,046E029ay,046E49cz0,046ECBf94,046F00797,04705615q,0470BC55d,04714B5zq,047153asj,04729514o,0472EF14o,04749E5gu,0474A1y8,0475035gu,0475F52g7,0475F9cz2,04766Eca,0476B02s3,047863bkp,0479705gu,0479755sy,0479B7d7u,0479FD2ri,047A0B1s9,047AAE5ty,047BCBdo8,047C1686p,047D50bu0,047D7Ba5w,047E232pj,047E4Af51,047F0E1mu,04801A5ty,0480A7bnz,04819Bazx,0481AE2sf,0483084ba,04848A2c,048680a6l,048727c4v,04885F5gu,04888C43v,0488E21no,048A151cm,048AE14gq,048B42c6t,048C03d9d,048C165gu,048C9A5ty,048D388u4,048F00al8,0490819qu,0490C04oz,04916286z,049226jj,0492EEf3w,04946Bcpb,0494A124o,0494E94f7,049573f94,0495E6d60,049645e6c,0497907dg,04981C8ys,0498F3ca,0499B914o,0499BB14o,0499E6c0a,049B9C41l,049C621j8,049D0514o,049DFE5r5,049F06c8n,049F155us,049F818i6,049FCA5gu,04A1518hv,04A16F5zq,04A22215q,04A2F34lk,04A316d7u,04A3F3479,04A5268zj,04A6C86gz,04A7412s3,04A81C5gu,04A82A8zj,04A85Ab8r,04A92489v,04A9598vr,04AAE11gx,04AB08bx6,04AB183v7,04AB6A2r6,04AC445ro,04AE471sa,04AEC780j,04B0669zs,04B0E75gu,04B167ejs,04B1A1ba7,04B2474ba,04B3B6bdu,04B3C9e5t,04B429ba7,04B4661kt,04B4FEme,04B5B214o,04B5C1687,04B648epg,04B6BE287,04B86Aazx,04B97Dun,04B9E3ba7,04BA1C5ty,04BA367g1,04BA8Dba7,04BAD634z,04BBF99q6,04BC6D14o,04BC87btv,04BC9F2i5,04BD705gu,04BD885on,04BD972s3,04BDBFba7,04BE585gu,04BF1B3ix,04BF6Devs,04BFA8674,04BFD514o,04C05Bdaz,04C06F5gu,04C09Cd56,04C1032tl,04C1B94lk,04C1D85ty,04C23E5gr,04C2418zj,04C29B1b9,04C3E65zq,04C4618dt,04C5A42s3,04C5CD848,04C807ejs,04C845cvk,04C880bac,04C8B056h,04C98B5zq,04C9919so,04C9D93nl,04C9DEa4r,04CA8D48k,04CAED5gu,04CB01ba7,04CB1Dded,04CB88btm,04CCBC5gu,04CD15c4v,04CDC089v,04CE09bx6,04CE14ebs,04CE7E8o7,04CED88ob,04CF257nk,04CF4B6gz,04CF8Ceh9,04D13Aejs,04D168chc,04D16E5zq,04D190706,04D320687,04D3958cw,04D3B06gz,04D3B55ty,04D3CF14o,04D437eqa,04D4424za,04D4C4jj,04D5904ou,04D60E4j7,04D6348ph,04D688287,04D6AAaom,04D6F44u3,04D783el4,04D7A58vr,04D92197x,04D9C85s0,04D9F5jj,04DA282qr,04DAD22s3,04DB5614o,04DB8Achk,04DBD94zc,04DD4Cdvs,04DEDBakz,04DEF2bqv,04DF692jl,04E0B0bzz,04E0C4cwr,04E1C8615,04E229a4q,04E2F890,04E31Ab9l,04E3872s3,04E3C84it,04E3E5c4v,04E451d7u,04E4B6ba7,04E53614o,04E5482um,04E56Ecsz,04E598ejs,04E662pn,04E676dt,04E69Eepx,04E77Ee86,04E7955gu,04E892atv,04E8B96gz,04E9E59i7,04EA566gz,04EB402s3,04ECA95zq,04ECBB4lk,04ECD86gz,04ED336gz,04ED623fg,04EE03d7u,04EE91f8t,04EECD5k5,04EEE85zq,04EEEE7dd,04F0212wk,04F03E5ty,04F0E4bnc,04F0EE6gz,04F1285f4,04F13E14o,04F1695ty,04F17Dd0e,04F3525gu,04F41C88b,04F4BCeip,04F4D85ub,04F5F4a1q,04F778cb9,04F7E414o,04F8C24mz,04F8F843b,04F9385gu,04F9936d5,04F9D9ccl,04F9F8cvj,04FA3F9bi,04FA83a4q,04FB664at,04FDE8d1v,04FE31ba7,04FE7F2s3,04FE8D5gu,04FEA14lz,04FF085ty,04FF518mh,0800012c6,0800021k6,08000388,0800042fd,080005b7i,080006ay0,08000714o,0800081jo,0800095om,08000A8h8,08000Bdk8,08000C7t8,08000D6ir,08000E8fz,08000F7u2,080011cpu,0800121h8,0800134e7,08001440z,080015b4y,0800161fm,0800178fi,0800189i0,0800194uu,08001Act4,08001B3iy,08001C6vf,08001D4w,08001Efs,08001Fatl,0800209ci,0800211h,0800228fs,0800239nv,0800243,0800252da,0800268m6,0800279g5,080028d7u,08002983v,08002A7vo,08002B3b7,08002C1kb,08002D773,08002E7qz,08002F9k3,08003026g,0800317ac,080032ct8,0800331fw,0800344g0,0800357s8,08003664c,0800374iw,0800381l9,080039b3p,08003A962,08003Bcv0,08003Caq4,08003D22z,08003E2ac,08003F4i8,0800404fn,080041a7g,0800427n3,0800439i3,08004437s,0800452cq,080046cb5,080047ase,08004840a,080049dke,08004A1fj,08004B9vd,08004C5hr,08004D2eb,08004E17,08004F2h5,08005035x,0800514dr,08005263e,0800537t0,080055b4k,080056b4j,0800574ck,080058b8k,0800593k,08005A5xb,08005Bdt9,08005C4hy,08005D4y1,08005E2en,08005Fanl,08006061q,0800616mq,08006251w,0800639in,080064c6g,0800654v4,0800669p,0800672v5,080068aau,080069c4t,08006Ajn,08006B58,08006Cb6g,08006De4d,08006E7o8,08006F9hf,0800708a7,0800717od,080072eh1,080073cp8,08007424e,080075366,0800769fv,080077cxc,0800785a,080079csh,08007A61g,08007Bap6,08007Cdrx,08007Ecv,08007F245,08008097,080081j9,080082dqf,080083bf3,080084cuj,0800853we,0800866xm,080087el0,08008820r,080089725,08008A9r6,08008B9mb,08008C8iv,08008Dei8,08008Ed07,08008F27k,080090b2b,08010Fc2w,0802055gu,08023Cba7,08028E8hv,0802995d3,0803429nf,0803716xz,0804B4d7u,080581al4,0805CD3oo,0805E26tm,08085C7ll,0808C2ba7,0808EAdz,0809B680w,0809C7eun,080A4E9va,080C0Bcku,080CC989s,080D844ul,080EA8dvo,080FE52s3,080FFA6y6,0810317im,0810868gl,081093ba7,08115E1vn,0811966gz,0812876sd,0812A510n,081443djj,08152Fba8,0815AE2pi,081605e1d,081651avw,0816D54xo,0816E35gu,0817352s3,0817F45xb,0818145on,08181Af94,08184C3d,0819A65gu,081A1Ec0q,081AFD5ty,081C6Eejs,081DC4d98,081DFBbkt,081F3Fedz,081F71cvj,081FEB1us,081FF32s3,0820E7848,0821EFba7,0823B2f8g,0823C65gu,08240B14o,0825228q,082525ejs,0825325zq,08257314o,082697evs,0826AE5zq,082719ge,08276B5ty,0827A815q,0827CE8et,0827F0ot,082802au8,082AD0b41,082CB08uy,082CB614o,082CEDd1l,082E365ty,082E5F5om,082FE95gu,08306B9nf,0830CE4lk,08318B5gu,0831A45ty,0833EDip,08351Bbtg,08357124m,08357D87m,0835B22zu,0836C98hv,08373Dba7,08379Cdcr,0838695sm,0838A54rv,0838E68cs,083A2F5a4,083A388vr,083A5C6tl,083A88do8,083A8D4ba,083AB8c1r,083AF24ba,083BC15k5,083BE98vr,083C035zq,083D88ba7,083E0C2vw,083E5Db9l,083E8E5rz,083F218cw,083F3Ee68,083F766ha,083FBCf94,08402758b,0840F3d60,08421819d,0842968ar,084473f94,0845D12s3,084656dqd,08468B59f,0846C74lk,08474C8zj,0847D08zn,08482Cafz,084857ci8,084ACF4zc,084B44akf,084E1C5bp,084EBFcgg,084F0A5gu,084F444vk,084F66bx6,084FA92s3,084FF92s3,0851045ty,085114a31,08512E9d3,0851F2b9l,085240427,08524Ebr6,0854115k5,0854BBau8,08553188b,08569Beb0,085700cvj,0857FB10n,0858A51ry,085A11351,085AE0ah6,085B0E4ou,085BD66gz,085BDA2sy,085C1B5gu,085D5314o,085DDD7qh,08606Ejj,086083f94,086195al1,08620214o,086266jj,0863325zq,0863615gu,08638A2s3,0864801w5,08651814o,0865F06o2,08661F9nf,08669814o,08674E5q4,08688D8vr,0868D06qp,0868EA3up,086A0Aip,086A0B2s1,086AC56gz,086AE510n,086BD1bxm,086BD7c4v,086D4114o,086DF2buq,086E9C5ty,086F48c0q,08704514o,0870735gu,08711C2s1,0871585cg,0871906gz,08736F3wg,08740214o,0874584lk,0874F6eck,08757297l,087618dxc,0876716tm,08768310d,0876951bi,0876FFd9u,087808ba7,08798C5gu,087999a6,087A4C5gu,087B0F10n,087B12b9l,087B872s3,087BAAb75,087C3910n,087C435ty,087CBEa6v,087D21103,087D60aof,087E64dv4,087F98f8g,0880392s2,0881B27ju,0881BC5sr,0881F46tm,088466913,08849D10n,0884FB5sy,08855B74i,088620cpb,08863B1t5,0887C662h,0887C714o,088AF17ql,088BC856h,088C2Cba7,088DC8ame,088E4Fasu,088E906gz,088EDC14o,088F2C10p,088FC32bf,0890BA3g9,08911510n,0891A310n,0892043ix,0892724ba,0893565gu,0894EC5ty,0894EFedg,08952Adv4,089536q7,08954214o,0896AD2s3,0896D7md,0897072s3,0897345on,089758bxg,0897982bf,0898EFbxv,0899E86vr,089AC7f94,089B274yq,089B4Bf1n,089BB98zq,089BF1ezk,089C74dk0,089C868zn,089DF46gz,089E01a5w,089E0856h,089E845gu,089F9778u,08A12Bbn7,08A136296,08A1895k5,08A5C8ch9,08A5DFba7,08A6BC10n,08A6F74ba,08A7C0dv4,08A8425ty,08A8A1348,08A95A1er,08AA558cw,08AA89f94,08ACA51tm,08ACC44h7,08AD0A4ba,08AED6ba7,08AF78ddl,08B055ip,08B0A7dgu,08B2586tm,08B2A334i,08B339ejs,08B3AFf8g,08B3D65ty,08B49Dcpb,08B4B156h,08B4CFnq,08B4D26gz,08B61F4ba,08B657me,08B7387if,08B7ECecx,08B8D02q0,08B95Fc4v,08BA22cix,08BA5Fa4u,08BAB72mg,08BB3C4nk,08BBCCar,08BC205kn,08BD438hv,08BE09197,08BE7757g,08BEAC43f,08BFA0ba7,08BFB8jj,08C0215gu,08C06C5ty,08C0EB848,08C22410n,08C3B3cny,08C5E1aom,08C6B3a3e,08C72914o,08C7B514o,08C7F5dv2,08C8C24xb,08CA45ddy,08CBE5a7d,08CC278cw,08CC682s3,08CC815k5,08CCA72s3,08CD9Bf65,08CE943wg,08D01E6tm,08D09F2s3,08D0B7a4t,08D1F94ba,08D23E6gz,08D29Aa0i,08D34Bd16,08D40C6gz,08D42Bba7,08D46A798,08D593d7u,08D59Db9l,08D5C0beu,08D833bw1,08D9455gu,08DA335zq,08DD034zc,08DD825gu,08DDEBc4v,08DF1F1yh,08DFCBclm,08E0215sy,08E3422l9,08E4DFbwn,08E5DA8f1,08E63Bf94,08E64B14o,08E6726nd,08E68914o,08E6C921m,08E7E55ty,08E84F5gu,08E9F6dt,08EA40au3,08EA444e3,08EB216gz,08EB296rv,08EB745h8,08EBEDeei,08EBF65gu,08ECA9ba7,08ECF52s3,08ED025zq,08ED9Dcpb,08EDB95rz,08EDEDet2,08EE8Bba7,08EF3B7pg,08EFABapl,08F01Eezk,08F0B643e,08F1B32s1,08F1B7ddq,08F1EA5on,08F2F48sq,08F3FB2s3,08F4585ty,08F4AB14o,08F4F02s3,08F606f94,08F69C14o,08F6F84vi,08F7284x0,08F7E95gj,08F80D5zq,08F8BC14o,08F97E296,08F9E04ba,08FA285gu,08FA79f8g,08FAE04o3,08FBEAdt,08FC529b1,08FC88ba7,08FD0Eba7,08FD52c4v,08FD585gu,08FF24bx6,08FF4414o,0C014Bf94,0C01A5f94,0C01C8391,0C01DB6d5,0C0227dv4,0C025B86z,0C02BDba7,0C04006qb,0C05356tn,0C07DFejs,0C07F35gu,0C08B45h8,0C0ADFd7u,0C0CEA1iv,0C0E76351,0C0EC15zq,0C0ECB5ty,0C0FD84yq,0C1105b0,0C11672s3,0C1262f94,0C130Bdnj,0C1420ba7,0C14D22pi,0C153914o,0C156314o,0C15C5aqx,0C166Eed2,0C17735ty,0C17F1cq7,0C184E5gu,0C191F6dg,0C19F814o,0C1A10ph,0C1A618sb,0C1B7B87m,0C1BCC5zy,0C1C197bc,0C1C1Aezk,0C1C206zs,0C1C317ql,0C1C57d7u,0C1DAFejs,0C1DC2bdm,0C1EF7991,0C2026f5m,0C20D3f8g,0C21385oa,0C23695sh,0C238D5gu,0C25767bb,0C26432s3,0C27242s3,0C2755duj,0C2756acb,0C27798vr,0C298Fd7i,0C29EF3ix,0C2A69ezq,0C2A6Fc4v,0C2A864lk,0C2AE71p8,0C2C545gu,0C2C7Cbx6,0C2D7114o,0C2D89a4f,0C2E575gu,0C2FB0ba7,0C302114o,0C31DC5gu,0C323Aba7,0C331Bdi3,0C352687m,0C354F8zj,0C35FE4lk,0C36238zn,0C3747f94,0C37961il,0C37DC5gu,0C383E4kb,0C393Dezk,0C395697s,0C3AFA8vr,0C3B5014o,0C3C653oe,0C3CCDdo8,0C3D5E8pg,0C3E9F14o,0C4101am2,0C413E87m,0C41E95gu,0C42A1848,0C4314c4v,0C43F910n,0C44C0f94,0C45BA5gu,0C469D7wc,0C473D5qz,0C47A95zq,0C47C910n,0C4885798,0C48C625o,0C4933c2u,0C4B488zj,0C4B54cvj,0C4BEEd7u,0C4C398a3,0C4DE914o,0C4EA04ba,0C4EC0820,0C4F5Ai2,0C4F9B5gu,0C510114o,0C51418oc,0C517E14o,0C51F7274,0C52039u,0C527F2nl,0C53313zt,0C53B714o,0C54156gz,0C54273oy,0C54A59gg,0C54B98zj,0C55211e0,0C565C5vm,0C57EB8df,0C58423cl,0C587Ba6l,0C599C6tm,0C5A191e8,0C5A9Eeak,0C5CB55zq,0C5CD83cv,0C5F358xm,0C6046f8g,0C60765rz,0C611112h,0C6127q7,0C61CFd7u,0C61F9ddz,0C62A65ub,0C63FC8pm,0C64221s7,0C659A9nu,0C6714asj,0C67435gu,0C68032s3,0C6825cih,0C6ABC4lk,0C6AC414o,0C6AE6cdu,0C6E4F9zg,0C6F8B14o,0C6F9Cbmr,0C7043cb9,0C704A5gu,0C715Dba7,0C71658cw,0C718Cco5,0C722Ccvj,0C7274me,0C72D9f94,0C7329bhm,0C73BE3ou,0C73EB5zq,0C74744lk,0C74C214o,0C7512bu7,0C75231gs,0C756C12g,0C75BD2s3,0C75D25k5,0C771A14o,0C79555ub,0C7A156gz,0C7BC82s1,0C7C288zq,0C7D7C71f,0C7DB08cw,0C7E2450u,0C7FB22vw,0C7FED5zq,0C802F8dt,0C8063cvj,0C81129zs,0C81266tm,0C817D3u4,0C8230avd,0C8247287,0C8268cvj,0C826Aef7,0C82D581z,0C83065ty,0C839A5ty,0C83CCzc,0C83F42jb,0C84085gu,0C84113i,0C84474lk,0C8484es7,0C84DC5rz,0C8509atu,0C85252s3,0C85E114o,0C86106tm,0C86295zq,0C86C76pu,0C87724it,0C882F4qg,0C88328zr,0C8910ba7,0C8A87u5,0C8B7De17,0C8B954ba,0C8BA25gu,0C8BD3687,0C8BFD6gz,0C8C24au3,0C8C69c0m,0C8C8F6zy,0C8CDCcic,0C8D7Aa7z,0C8D98cun,0C8DCAba7,0C8DDB2s1,0C8E2915q,0C8FFF5gu,0C9043agu,0C91605ub,0C91926gz,0C924Eajf,0C93019lz,0C938F4zc,0C93A5ezk,0C93FB1jc,0C9505d8b,0C95159na,0C954127m,0C96BF5gu,0C96CD7qh,0C96E62t6,0C975F5on,0C979B4it,0C9838ejs,0C9A3C6gz,0C9A424h8,0C9AE6b8r,0C9B13bkq,0C9B784e3,0C9D562y6,0C9D92jj,0C9E91bb3,0C9F713oc,0CA06C6c6,0CA1381j2,0CA2804h8,0CA2F42mz,0CA3B214o,0CA402xe,0CA42A92k,0CA64C5k1,0CA694ch4,0CA8A7ba7,0CA94Abx6,0CAAEE13h,0CAC05dnw,0CAC8Ab9l,0CAE396gz,0CAE5Fc4v,0CAE7Dd7u,0CAEBD43e,0CAF312s3,0CAF5A4v7,0CB088al,0CB2B7d7u,0CB319ba7,0CB34Fbzl,0CB45980e,0CB4A4ejy,0CB4EF3l3,0CB5275gu,0CB5B35ty,0CB5DEx9,0CB6D2351,0CB7712vw,0CB7875gu,0CB7895sy,0CB78E5ty,0CB7EC5gu,0CB8154ba,0CB8E8aie,0CB9126o3,0CB937dlf,0CB9835sy,0CBC358u4,0CBC9F14o,0CBD51co5,0CBD754zc,0CBEF15ty,0CBF1552h,0CBF3Fbub,0CBF748cd,0CBFB45zq,0CC0C07nc,0CC119bvo,0CC3A784p,0CC3B8btf,0CC41356h,0CC47Acho,0CC47E400,0CC56C14o,0CC5744id,0CC655efz,0CC66A8zj,0CC6AC35o,0CC6CC5gu,0CC6FDejs,0CC731335,0CC763ezk,0CC81Fcgj,0CC8442in,0CC98A6gz,0CC9C6bae,0CCAFBcvr,0CCB0Cf2d,0CCB858cw,0CCB8Di9,0CCC26vq,0CCC475zq,0CCC5D14o,0CCDB4c2p,0CCDD027h,0CCDD33su,0CCDFB3to,0CCEF65b3,0CCF89au3,0CCFD1b3t,0CD0F82s3,0CD2926gz,0CD2B51uu,0CD3A18by,0CD502e9p,0CD5D32s3,0CD69611f,0CD6BD5gu,0CD74614o,0CD7C21e2,0CD86Caui,0CD9234xl,0CD9962s3,0CD9C1e06,0CDA415k3,0CDBEA14o,0CDC7E4ba,0CDC9110n,0CDCCC6bh,0CDD246gz,0CDDEF8zj,0CDFA4ba7,0CE041f1i,0CE0DCba7,0CE0E49ig,0CE0FC43a,0CE159c0r,0CE44114o,0CE4A05ty,0CE5A114o,0CE5A3bmp,0CE5B55gu,0CE5D33a6,0CE6235ty,0CE67Cagu,0CE709bh8,0CE72587m,0CE82F1xx,0CE9363vs,0CE99Ak7,0CEA14dlp,0CEAC92vw,0CEB259xr,0CEC80d7u,0CEC84bxt,0CEC8D8cw,0CED714e3,0CEDC8ejs,0CEE204f8,0CEE9910n,0CEEE65rz,0CEF15cvk,0CEF7C125,0CEFAF5zq,0CEFF6c4v,0CF0197z8,0CF07Bbx6,0CF0B455b,0CF2F5c2p,0CF346ejs,0CF3616qu,0CF3EE3wg,0CF4051rc,0CF475ev3,0CF4D5alx,0CF5A42s3,0CF8932vw,0CF9C0azx,0CFA224gt,0CFC185gu,0CFC83vx,0CFD37b6v,0CFE45cb9,0CFE5D5zq,0CFE7Bdv4,0CFEE5d7u,1000009zs,10002014o,10003B4ba,10005A5xb,1000E88fi,1000FD7dc,1001775gu,1001CA185,1002B56gz,1003CD2i5,1004C16n7,1005019gg,1005B12vw,1005CA2s3,1005E18zj,10061C4ba,100645b9l,1006485zq,1006ED2s3,10071D4lk,1007235zq,1007B6ba7,10082Cd7u,1008B15rz,10090C6mg,1009F910n,100BA96gz,100C24f5v,100C29bv8,100C6B8hv,100D2F9a4,100D3246n,100D7F8hv,100D8C5ty,100E2B8gf,100E7E6tm,100F184qn,101081f94,1010B682c,101212e10,10121874u,10124868b,1012506gq,1012B4c2w,1012D0f94,1012FB5k5,101331dv3,1013EE6tw,1015C1esv,1016B14zc,101849e3v,10189E45t,1019658vr,1019888cl,101A92aw,101B545gu,101C0C14o,101D512m,101D6E5on,101DC0ba7,101EDA62e,101EF4f41,101F745om,1020BA4ba,102279esj,1023811mu,1024075gu,1025CE3vw,102779b92,1027BEcy1,1027F5cvk,1028318ca,102834aoc,102874btn,10295914o,1029ABba7,102AB3ejs,102B1C8cw,102B41ba7,102BAAb9l,102C6Bdt,102C83eha,102C8D4u3,102CB1c7s,102CEF3x4,102D31bp0,102D41c2p,102D967ki,102E006gz,102EAFd7u,102F6B87m,102F6Ebxi,102FA3byo,102FCA14o,102FF8dxv,10302514o,1030342jm,103047ba7,103089ais,10321D5gu,10322C8dt,10327E5ty,1033784go,1033BFdv4,10341Bccc,103597a5b,10364A1yj,1036AAduy,1037118m1,10381Fc2p,103917ba7,10394E5q4,1039E96tm,103A5D470,103B545gu,103B59ba7,103C59f94,103D0A5ub,103D1C6gz,103D3E2pi,103DEA5dz,103F44ejs,103F8C8vr,1040F314o,104121cqx,10417F14o,10421014o,104369cbs,1044005gu,10445Abic,1045BE906,1045F87as,1046B44ok,1047388zn,1047805gu,1047E7bzz,1048B11ox,10490E5gu,1049635cr,104A7D6gz,104B468a6,104C434lk,104D15dxj,104D776fb,104E07bjs,104E205gn,104E8950u,104F585on,104FA8cb5,105072bhm,1051076gz,1051725gu,1051DB4ba,10521C4ba,1052BD5gu,10540363g,1054D25zq,1055E4bx6,1056112vw,1056CA9r0,1057252s3,1058874lk,105917dcd,105932al4,105A17dhv,105A95cvk,105AF76z,105BAD83n,105C3B9re,105CBF3qz,105DDC5ty,105EAE8vr,105F02am3,105F06q7,105F492s2,105F81640,105FAD6gz,105FD4d62,10604B5om,1062C9r5,1062D0dv4,1062E55om,1062EB351,10634Bavh,1063A35zq,1063C87ik,1064E27g,106519c0q,1065303ix,1065A39nn,1065CF66g,106650akm,10666Aer5,1066828gl,1067A35gu,1068381er,10683F798,106F3F1l4,106FD9296,106FEFqn,1070FD848,1071005ty,1071B3evs,1071F92t7,1071FA4zc,107223cqx,1073C61b7,1073EB6d1,10746F7vs,1074C52i5,10763641o,10768A49w,107717au8,1077B04lk,1077B1ba7,10785Bq7,107873btp,1078CE5lp,1078D245j,107A2A87m,107A86di9,107B44jj,107B93ets,107BA498p,107BCE8zj,107BEFevs,107C61jj,107D1A3ix,107DC814o,1081B45v0,10823Dam3,1082867ly,1082D7agu,108321enm,1083B4c33,1083D287l,10868C2vw,1086F45ty,10880F3gh,1088CE4lk,1088D35gu,1089FBba7,108A1Ba8c,108A7B8zj,108B6A13j,108CCF2s3,108EBA8bo,108EE0ba7,108FFE5gu,10907D4rw,1090FA8vr,1090FCbqf,109166c06,1091A84ba,1091D16gz,109266ba7,1093274w0,1093972vw,1093C972f,1093E914o,1094977jx,1094BB14o,1094EF5gu,10954B83q,10961A27m,10961D8od,10969310n,1096C62s3,1097BD4ba,1098193ix,1098268zj,1098363ix,10985F6ka,1098C38dt,109A93d4x,109AB9ddd,109ABA6gz,109ADD14o,109C70a1w,109D7A5ty,109D9C3wg,109E3Aetj,109E6B14o,109F4114o,109F47bx6,109F4F8vq,109FA9q7,10A13B4iy,10A145f5j,10A1DA14o,10A24E4xs,10A2D314o,10A30F5gu,10A3B86l7,10A45075t,10A4B91lx,10A4BEau3,10A4C914o,10A4DA5gu,10A51D6gz,10A5626lh,10A5D08dt,10A6598an,10A743azf,10A793dv4,10A8292s3,10A8796gz,10A9321os,10ABC9ba7,10AE6010n,10AEA53r0,10AF78bom,10B06Ebvo,10B1DF296,10B1F85gu,10B232a4x,10B26Bewo,10B36F1yr,10B3C62s3,10B3D52s3,10B3D62s3,10B41D4ba,10B58814o,10B65E8vr,10B6765gc,10B7139zs,10B7A82hf,10B7F69vj,10B9C414o,10B9F78y5,10B9FE7h4,10BA1Aauy,10BAA54tl,10BBF35hc,10BC365ty,10BC97f8g,10BD182s3,10BD3A14o,10BD43akg,10BD55a2n,10BDA34ba,10BE998to,10BEF5351,10BF48jj,10BF6710n,10C07C1wk,10C0D55fe,10C1725gu,10C197ejs,10C22F2p8,10C25Adv4,10C283cip,10C2BAdl9,10C34Dawe,10C37Bjj,10C3AB5gu,10C4CA5h8,10C5861i2,10C5957f8,10C5FAevs,10C60C3oh,10C61F5gu,10C65Equ,10C67Eav5,10C6FC50u,10C73587m,10C73F87y,10C753a4x,10C9CAp4,10CA819jr,10CABFd7u,10CB338oc,10CC1B7it,10CCDBn1,10CD545gu,10CD6E4gj,10CDAE1cm,10CDB64bg,10CE0210n,10CE4589r,10CEA9d7u,10CEE914o,10CF0F14o,10D07Adt,10D0ABf94,10D1DC63a,10D38Aba7,10D542ba7,10D561dhv,10D657c3n,10D680d62,10D7B0b9l,10D8B1l7,10D8CC5a0,10D9A256h,10DA438hv,10DA495ty,10DA6314o,10DC4A4lk,10DCB65zq,10DDB114o,10DDF4823,10DEE4ewf,10DF8Bbpp,10DFFCc37,10E1772vw,10E18Edo8,10E2C914o,10E2D5a47,10E3762s3,10E3C7bh9,10E4AFg7,10E4C2ba7,10E66B705,10E6762s3,10E68F6yy,10E6AEcbv,10E77Ab5e,10E7C65om,10E83A4fu,10E840eqm,10E86491q,10E8788zj,10E8A7e5t,10E8EE9s3,10E9535ty,10E99262h,10EA592s2,10EC81ba7,10EDC88oc,10EED92j6,10F0056gz,10F068alx,10F163cu0,10F1C7cyk,10F1F2798,10F3112s3,10F3DB588,10F49Acm6,10F605agu,10F60A6gz,10F681f8g,10F9202s3,10F96F798,10F9EB6c2,10F9EE8zj,10FACEage,10FBF0703,10FC335ty,10FC54bmj,10FCB6f4w,10FEEDcvj,10FFE04w0,1100AA9zs,1111119zs,1400207k5,14007Df94,1400E98a1,140152ba7,14019Cdly,1402EC5on,1403385gu,140467b11,1405898cw,14064Ce1j,1406A72f8,1407082ex,1407E0o1,140805azx,1408084ba,1409B4f94,1409DC5gu,140A02au3,140A29db0,140AC510n,140B9Eba7,140C5B9ip,140C764i9,140D4F4nh,140F428zj,140FA6aie,14109F14o,141114cpb,14115Dc7d,14130B50u,141330128,1413331er,141346c7d,141357kl,1413FB5gu,1414165ub,14144Bam3,141459e1d,14147D14o,1414E68yp,14157Ccu9,14169D2s3,14169Eec7,14172A4lk,1418268zj,141844eir,1418773ix,1418C36gz,1419232s3,1419731sg,141A51df8,141A9714o,141AA38cw,141AAA85a,141B30c08,141BA014o,141BBDe1o,141BF06hp,141F78ba7,141FBA5zq,142004f94,14205E14o,1421032i5,1422334lk,14223B56h,1422DBezk,14230A5gu,1423D740d,1423F220l,1423F320l,1424751z,14287614o,1428827t1,1429718gt,142A14bns,142B2F4ba,142BD216r,142BD6591,142C78568,142D275rz,142D41c4v,142D4D14o,142D794lk,142D8B6bl,142DF511p,142E435q4,142E5Ebhm,142FFD7bs,1430045gu,14307A1cs,1430C68cw,1432D1ba7,14335C4ba,143365cre,143375evs,1434F67c5,14358B836,1435B34se,1435B714o,1436058zj,14360Eevs,1436C67fd,1437199ls,14373B9km,14375Ecjp,1438FA8cw,14392F789,143A9A5s0,143AEA3rh,143B42agq,143B515ty,143CC35gu,143DF21ra,143E608zj,143EBFf94,143EC26gz,143F278zh,143FA6cb7,143FC3c8r,1441465s7,1441E28bs,1442FCd7u,14431931p,14444A14k,14448F43b,1446585gu,1446E4m9,14472D4zc,144802csq,14488Bbqp,1449205gu,1449783ll,1449BC3q2,1449C55ty,1449D4ejs,1449E0aom,144C1A81k,144CFF576,144D67eux,144E2A2ri,144E34ai6,144F8A6gz,144FD75zq,144FF08oc,145051atl,1451205ty,14517E8vr,1452906x3,145412499,1455945ty,1455B98zq,14563A5ty,145645bbv,14568Eba7,145790a4q,14579F5gu,145808cz2,1458D05om,1459C08hv,1459C331k,145A0514o,145A41296,145A837ja,145AFC7ik,145BB92xb,145BD12vw,145BE1f5o,145D34au3,145E451ma,145E694zc,145EBC5gu,145F945gu,146080f94,1460CB14o,146102zs,14612F1cm,1461A45sy,1463086m5,1463934ba,14656A5gu,1466B7sc,1469A2c2w,146A0B34m,146B72brj,146B9Af94,146B9Cau3,146C273p0,146E0A9zs,147057atv,147373cxq,147411aay,14755B6gz,147590cvj,1475E53w0,1476495on,1477405ty,14780Bdv9,1478308o2,1479F32pi,147AE414o,147BAC8zj,147D05asg,147DB36ob,147DC58dt,147DDA14o,147E195on,147EA1202,147F0Fd7u,147F6779b,147FCE14o,14801Fch9,1480CCa6l,148121cuo,14825B5n3,1484307tz,1484732s3,1484778vr,148501akb,14850914o,14855441o,14857F6gz,148692cvj,14876A14o,1488E614o,148919s,14893Eds6,1489CB5gu,1489FDba7,148A707u,148C4A5gu,148F2150u,148F34cpb,148F7914o,148FC614o,14907A1sa,149090746,14913810n,1491821t5,1492F9c2p,1493469j1,14942Fdl2,1494481iu,14946C14o,149569c0q,1495CE14o,14962D8vr,1496E5ba7,14987714o,14987Ddv4,14993Eejs,1499E214o,149A1087m,149AA35gu,149B2F6rj,149BD77wy,149BF34zc,149CEFd7u,149D095gu,149D9914o,149E5D6ot,149ECF3ix,149F3Cba7,149F432s1,149FB64za,149FE87fd,14A0F85gu,14A1BFj2,14A1DF2pi,14A2A02s3,14A32F5ty,14A364ba7,14A3B45ty,14A417bp9,14A45489v,14A51A5gu,14A62Cana,14A72Bexl,14A78Bet2,14A86Bbnw,14A9D04ek,14A9E37wm,14AB025gu,14AB56e6a,14ABC56gz,14ABEC5on,14ABF02vw,14AC60296,14ADCA2pk,14AE686ws,14AE855zq,14AEDBdtk,14AEE03zv,14B1266c9,14B1C86co,14B2E5c0q,14B31F3ix,14B370548,14B3A16tm,14B457c4v,14B484ba7,14B5CD7ik,14B6EB28m,14B73Dgr,14B7F8dv4,14B837bzz,14B9035gu,14B9685gu,14BAAF1ip,14BB6Eba7,14BC682s3,14BD6114o,14BEFC8p7,14C03E2vw,14C0504za,14C0893ej,14C0A1dit,14C1268zj,14C14E56h,14C19F4ba,14C1FFbno,14C21314o,14C21Db91,14C24Dkq,14C35E4l9,14C3C26u8,14C67De17,14C6974zc,14C7C4evs,14C88B14o,14C913797,14C9CFc48,14CA56f94,14CAA05ti,14CB195gc,14CB495i8,14CB6587m,14CC20cvj,14CCB3f2,14CF8D936,14CF92cvj,14CFE22vw,14D00D14o,14D11F5gu,14D1695gu,14D19E14o,14D1D45ty,14D4241er,14D4FE2vw,14D537yl,14D5C6f73,14D64D351,14D67Cdmk,14D7251mu,14D76E2cn,14D864cvj,14D8811sa,14DAB95ty,14DAE9jj,14DB85amk,14DC51ejc,14DCE2cs9,14DD027g5,14DD48c19,14DD9Cf8g,14DDA9jj,14DDE57w1,14DE395ty,14E01Dba7,14E1C9c4v,14E22A2s3,14E289nr,14E4ECf4g,14E602bqx,14E6E4cvj,14E7C86gq,14E9B24lk,14EA635ub,14EAA187d,14EB03av0,14EB085gu,14EB331ks,14EBB6cvk,14EDA5e85,14EDBBr,14EDE46zp,14EE9Dvf,14EFCFaq7,14F0C5ekt,14F28714o,14F28Ebmz,14F42Aba7,14F592bwc,14F5F95hc,14F65Aejs,14F6D86gz,14F893ef3,14FB705ty,14FEAFao0,14FEB53ix,18002Dcb5,1800DB4mu,18017D5lw,1801E31vu,1801F1ejs,18022D5gu,1802AEf8g,1803733ix,1803FA5xj,180403f8g,1804EDd7u,1806753n3,1806F5a7l,1806FFpa,180712bqh,180B1B10n,180B528q5,180BD05gu,180C14f2f,180C77e9z,180C7Ab9l,180CAC23n,180D2C6h3,180DF9c4v,180EACaui,180F76351,18104E25g,18117159y,18120Ceuf,1812122me,18132Df94,181420coo,181454287,1814568zj,18146Cetj,1814AE8zj,1814F4d7u,181628bmq,1816C9ba7,1816E8c54,18171435l,1817252is,18188B4fb,18193Fd02,1819D6ba7,181BEBq7,181DEA6gz,181E78b9l,181E951ah,181EB0ba7,1820121ek,18203214o,18204C75i,1820A6b9f,1820D52vw,182195ba7,18227Eba7,182439em0,1826496gz,182654ba7,182666ba7,182861vk,182A445ek,182A575gu,182A7B8yt,182AD36tm,182B052j,182C65d7u,182C912xd,182CA936i,182CB48rm,182D986sr,182DF76ps,183009ee9,18300C5q1,18314Fa2,1831BFjj,1832193wg,1832A277l,1833865gu,18339D2s3,18345114o,1834AF706,1835D12vw,183672bml,1836FC44d,183825efa,18386423s,1838AE2d4,183919dmy,18396Eb6d,18399Cc6s,183A2Dba7,183A48e20,183BD21lo,183C98bsk,183CB75ty,183D2D77z,183D5E5gu,183DA26gz,183EEF14o,183F47ba7,183F7014o,1840A4byf,1841C34u3,1841FE6ux,18421D9zs,18422Fx9,1842D4ef6,184462ajc,1844CF1f2,1844E6f94,184516d7u,184593cz2,1845B35zq,184617ba7,1846445rs,18473D27q,1848592ko,1848BE10n,1848CA8dt,1848D84kk,1849F84e3,184A5314o,184A6Fxf,184B0Dalx,184BDF2hc,184C08al1,184CAEl1,184E035f4,184E16ba7,184E947qw,184ECBba7,184F325rz,184F43dk0,184F5D6qo,18502Ab17,185073dai,185111do6,185207c2w,18523Deji,1852539v8,1852824lk,1853458zj,1853E05ls,1854CFba7,18550F2s2,1855E314o,1856445gu,1856806gz,1856C314o,185869b9q,18588015q,1859332s2,185936ejs,1859F52s3,185A583ix,185AE8es6,185B008zj,185BB3ba7,185CA16sd,185D6F8en,185D9A1xl,185E0Bf94,185E0F6gz,185F278cw,1860245om,18604115q,1861C7f49,18622Cb9l,1862E4d7u,1864725on,186571dco,18659014o,1865C73p6,1866965zq,1866C7bue,1866DA3ix,1866E3dwv,1866F06tp,18673F5ld,1867516xl,1867B0ba7,18686Af94,1868821u6,1868CB5k5,18690Ac4v,186945cvk,1869D4ba7,1869D8dhv,1869DA2pi,186A81b9l,186BE27cf,186C606sj,186D99qs,186F2Dbxi,18703B5ty,187117f02,1871D55mn,18742E10n,1874E25zq,187532c2w,1877581b2,1878D4dwn,1879A24x7,1879FDf94,187A3B5on,187A3Ec4v,187A93dl,187C0Balx,187C81du9,187CAA2pi,187E204it,187EB914o,187ED5f6o,187F88ajt,1880255k5,1880902s3,1880CE1mn,1880F5xf,18810E14o,1881EDcro,188219y3,18828C15q,188331ba7,1883BF15q,1884102zx,1884C15aj,18863762h,18863A3b0,1886AC8zl,1886C38zj,188740ejs,1887965gr,1888571q2,18895Bba7,1889A04rw,1889CFcpb,1889DF93w,188A6Ami,188AF178e,188B0E4ba,188B15bo7,188B452s3,188B9D2s3,188ED5cvi,188EF94t4,189024190,189067btn,189088ezk,1890D8b9l,18922Cdzf,1892A42ri,1893416gz,18937Fdt,1893D7d7u,1894A3edj,1894C6bn5,189552b,189578391,189677139,1897F16xt,1897FFd0x,1899F5c2r,189A672fs,189BA55zq,189C272vw,189C2C3oy,189C5D2s3,189CE116e,189E2C5ty,189E2Dz6,189EADbpt,189EFC14o,18A08414o,18A28A4bd,18A3E84lk,18A4A9dv5,18A59C5zq,18A5FF15q,18A6F7cvj,18A788bup,18A7F1a4q,18A9055om,18A9589lc,18A99B3ix,18A9A68rf,18A9EDezk,18AA0F5ty,18AA1Ebx6,18AA454o4,18AACAc30,18AB1Dba7,18ABF5dma,18AC9E687,18ACC2cny,18AD4D9wp,18AEBBc3i,18AF6114o,18AF8F14o,18AF9F3bq,18AFA1c02,18B0A4f94,18B169car,18B185a4a,18B209dd5,18B3BA8u8,18B4308sl,18B4FEddz,18B5915wo,18B6575gu,18B6CCe86,18B6F78jb,18B79E6kf,18B81F2vw,18B83Dba7,18B84214o,18B9055sn,18B96E3p0,18BB1C5ty,18BB264h8,18BB415ty,18BC5782,18BC5Aetj,18BDAD76m,18BE923ja,18BF1C6rv,18BFB3ba9,18C0075ty,18C0098vr,18C04D4w0,18C08620l,18C19D6gq,18C1E2a57,18C23C7lb,18C241caq,18C2934ed,18C2BF1l4,18C3008zj,18C3E45zq,18C3F45zq,18C451dhe,18C501auq,18C58A5gu,18C8E7bsz,18CAA7f94,18CC186gz,18CC239sa,18CC885qe,18CE94ba7,18CEDFa6l,18CF245gu,18CF5E7ik,18D07136g,18D0C54zc,18D0E1848,18D2254lk,18D2765gu,18D3CF5on,18D5B6b0p,18D61Cbxt,18D66A6e9,18D6C7cvj,18D6CF75q,18D6DD5gu,18D7174zc,18D7935zq,18D949a72,18D98F5ty,18D9EFc28,18DBF23ix,18DC12c4v,18DC56eoj,18DE50dhv,18DED75gu,18DF2662h,18DFB41jv,18DFC1tv,18E1CAf8j,18E1DE2o5,18E2041gq,18E2158zj,18E288b5t,18E29Ff8g,18E2C2ba7,18E3BCco5,18E67114o,18E7282s3,18E777f8g,18E7B014o,18E7F414o,18E80Fdyr,18E829dlp,18E83B2s5,18E8DD7v8,18E8ECb5e,18E91D5gu,18EBD4bx6,18ECE71l4,18EE6914o,18EE866fw,18EF3Ac2p,18EF632s3,18EFC0bho,18F0558pg,18F0E4ejs,18F1458t0,18F18E2pz,18F1D814o,18F22Ccvj,18F292bmh,18F3C2429,18F46A5rz,18F46Bd49,18F58B558,18F64314o,18F6508do,18F6971dw,18F76Beto,18F7F64at,18F87Af13,18F87Fea4,18F9352s3,18F9C41fe,18FA6F675,18FAB714o,18FB7B3ix,18FB8Ee2h,18FC26a5a,18FC9F2n5,18FD00806,18FD7488b,18FDCB5zq,18FE344ba,18FF0F6gz,18FF2Ebw7,1C00428f7,1C012D4lr,1C02194zc,1C04608oc,1C05B72qo,1C06565z8,1C08C179b,1C0B523y7,1C0B8Bdlp,1C0D7D14o,1C0EAF5ty,1C0EC214o,1C0ED3c2w,1C0FAF7kx,1C0FCFckp,1C112Ff8g,1C11612ri,1C11E1e70,1C129D5zp,1C12B010n,1C133871y,1C13865ty,1C13FA5ty,1C14482vw,1C14B3w7,1C151F5gu,1C17D32s3,1C184Abnr,1C19DEf06,1C1A1Bblk,1C1AC014o,1C1ADF87m,1C1B0D4w0,1C1B682vw,1C1BB56gz,1C1CFD3fq,1C1D675gu,1C1D862s3,1C1DD314o,1C1E389fz,1C1EE35ub,1C1FD47gj,1C1FF15ty,1C20DB5gu,1C2156c7l,1C21D15zq,1C22262s3,1C2285bht,1C232Cba7,1C234F3tt,1C23A24id,1C24CDip,1C24EB21h,1C2575ejs,1C25E12pj,1C2704f94,1C27DD3hg,1C28AF5on,1C29044ba,1C2A8B8zj,1C2AA3bsv,1C2AB01s9,1C2CE0bkx,1C2D604e3,1C2E1Bciu,1C2FA25aj,1C30035on,1C30085ub,1C32832ck,1C32AC5gu,1C330E9rf,1C334D68o,1C34776fa,1C34DA848,1C34F1c4v,1C35F18j9,1C36BB14o,1C37BF2tg,1C3929936,1C39472bf,1C398A4lk,1C3A4Fov,1C3A60alx,1C3ADEba7,1C3B01bm7,1C3B625f4,1C3B8Fbfh,1C3BF3cvj,1C3C7814o,1C3CD45gu,1C3D2F5gu,1C3DE7c45,1C3E845rz,1C40243ix,1C40E8avs,1C415851g,1C41762pi,1C4190do6,1C427D4zc,1C42C25ty,1C43635gu,1C43EC6ml,1C4419cvj,1C4455c35,1C45868yt,1C4593d7u,1C45C25ui,1C46D1azx,1C472F5ty,1C47F6etx,1C4840614,1C48CE4zc,1C48F94xd,1C497B51n,1C4A3B5i,1C4AF7dr,1C4BB9b0o,1C4BD61er,1C4C27eek,1C4C48687,1C4D6610n,1C4D706gz,1C4D895k7,1C4EA2byp,1C501Echc,1C51B5d13,1C52163cz,1C52A72zm,1C52D64gn,1C53F956h,1C549Edo6,1C54E6c09,1C553Aa48,1C568Eeux,1C56FE8cw,1C573E10b,1C57D8751,1C57DC14o,1C59745zq,1C599B5gu,1C5A0Bd2n,1C5A3Eba7,1C5A6B9sf,1C5BA25gd,1C5C559k0,1C5C60bpa,1C5CF214o,1C5D808aa,1C5EE6awb,1C5F2B351,1C5FFF1p1,1C6066cpl,1C60D24lk,1C60DE7qi,1C61B4cvk,1C61BF14o,1C627E5gu,1C62B8ba7,1C6349d7u,1C63A5f6b,1C63B79ax,1C63BFau5,1C64992x8,1C64F08cw,1C659D7ik,1C666D5rz,1C66AAba7,1C674Af94,1C67585gu,1C67609sw,1C687Ebvy,1C69204ba,1C69325q2,1C697A45i,1C69A51w6,1C6A1Bdlp,1C6A7614o,1C6A7A2s3,1C6BCA8a9,1C6E4C7jq,1C6E7447p,1C6E76a6c,1C6EE68k7,1C6F654w0,1C70228dt,1C70555gu,1C70C96rk,1C712514o,1C7126f77,1C721D3ix,1C73282xx,1C73708s7,1C73E25gu,1C740Devs,1C75082bf,1C76CAd6x,1C76F2ba7,1C775414o,1C77F64zc,1C7839by3,1C784B1yo,1C784E2pk,1C792D27h,1C7A43f8g,1C7ACFf8g,1C7B21cb5,1C7B23a4t,1C7C113ul,1C7C45e0k,1C7C988gl,1C7CC7303,1C7D224iw,1C7D515cg,1C7E511q,1C7EE5351,1C7F2C5gu,1C82595zq,1C83415n0,1C83B07hn,1C83ECdlf,1C84644hq,1C84A62s3,1C860B59k,1C868214o,1C869Aba7,1C86AD7pi,1C872Cjj,1C87E3cpb,1C880Cbx6,1C8B762i5,1C8B844bb,1C8BEF1s9,1C8C6E16e,1C8E2A14o,1C8E5C5gu,1C8E8E380,1C8EE6dtc,1C8F574ba,1C8F8A9s2,1C90BE4at,1C90FFdhv,1C914814o,1C91796gx,1C918014o,1C919D3p0,1C937C2vw,1C93C410n,1C94688vr,1C9492ad9,1C955D5wl,1C959Fdvm,1C965Ae3v,1C973D9jz,1C97C5enr,1C97FB2zb,1C984B4e3,1C98C1296,1C98EC5on,1C994C8dt,1C99576gz,1C99DB5gu,1C9C26ev9,1C9C8C6tm,1C9D3E6gq,1C9D72dv4,1C9DC24ba,1C9E4614o,1C9ECB1ql,1C9ECCdv4,1C9F4E2dq,1CA0B85s0,1CA0D35zq,1CA0EF5zq,1CA2B1f62,1CA41011i,1CA532auq,1CA6815gu,1CA770au8,1CA852as3,1CAA072s3,1CAB016fk,1CAB348vr,1CAB48cpb,1CABA714o,1CABC05qz,1CADD11yl,1CAE3E5zq,1CAECB5gu,1CAF05ba7,1CAF4Aba7,1CAFF7351,1CB044ip,1CB0945gr,1CB17F8gl,1CB243coa,1CB3C914o,1CB3E9c0i,1CB46C5gu,1CB72Cjj,1CB7965gu,1CB8571nx,1CB8BAeh3,1CB9C4alx,1CBA8Cd7u,1CBAB8f8g,1CBBA8939,1CBCECf70,1CBD0E11u,1CBDB9351,1CBFC027q,1CBFCEbpq,1CC0359if,1CC089c4v,1CC0E15zq,1CC10C6gz,1CC11Ae7z,1CC1BCenm,1CC1DE5om,1CC316ejj,1CC3AB4ba,1CC3EB4zc,1CC586o2,1CC63C15q,1CC72Dbt1,1CC8C15su,1CC9925sy,1CCA41f1,1CCAE35zq,1CCB99co5,1CCCD6ejs,1CCDE5bm2,1CCE511er,1CCF829nf,1CD107agu,1CD11A4ou,1CD1BA4lk,1CD1D75jv,1CD1E02s3,1CD21E6tm,1CD3AF79b,1CD40C756,1CD5E2bzz,1CD6BD78f,1CD6BEe5t,1CDA27f8g,1CDBD44ba,1CDDEA4zc,1CDE574lk,1CDEA72s3,1CDF0F2s3,1CDF52d7u,1CE16580n,1CE192a53,1CE20914o,1CE2CCd7u,1CE4DDd1h,1CE5045gu,1CE57Fba7,1CE5872s1,1CE61Dba7,1CE62B14o,1CE6395gu,1CE6AD5ty,1CE6C72s3,1CE85D2s3,1CE89Eaze,1CEA0B43b,1CEA1B8zj,1CEAAC1sa,1CEC72z4,1CED6Fme,1CEEC945v,1CEEE86a9,1CEF035aq,1CEFCEewp,1CF03Ee8b,1CF061apz,1CF29A56h,1CF42B5ty,1CF43F15q,1CF4CA9zs,1CF5E7dhs,1CF64C14o,1CF8D0ba7,1CF9D514o,1CFA68cvj,1CFC172s3,1CFC2A5gu,1CFCBBagp,1CFD085zq,1CFE2B10n,1CFEA75z9,1CFF3F33e,1CFF59c2w,1CFFAD5gu,20014F7hd,20019C1um,2002AF8dt,2002C9et8,2002FE5jy,20040F3ix,20048414o,2004F35sy,200505a7t,2005B69b0,2005E894f,200889f94,2008ED5gu,200A0D5zq,200A5Eejr,200A875aa,200B16d7u,200B741er,200BC52s3,200BC75gu,200BCF8yt,200C864zw,200CC88hv,200D3Da6l,200DB0brl,200E0F9o8,200E2B14o,200E955ze,200F704i3,200F92b59,20107A51n,20108Af94,2010B110n,20114E85h,2012578ci,2012D5bd1,2013E0ba7,2014C45gu,20158214o,2015DEba7,20163D6gq,20164287m,2016B96gz,2016D87ik,201742797,2017469oz,20180Ebxh,20185Bbtn,2019F3e7f,201A062bf,201A9414o,201B883p0,201BA5e17,201BC96tm,201C3A8yt,201D03446,201E1D5gu,201E886gz,201F316hx,201F3B56h,201F54aez,201F553cb,202027bxi,202051f94,202141do6,2021A5798,202351cvk,2025649gg,2025654ba,202598d4q,2025CCejs,2025D24lk,202681cpb,20283E5gu,2028BCe00,2029B96a3,202AC59rn,202B20296,202BC15gu,202BDA5zq,202C05ept,202CB7745,202D07ba7,202D232uv,202DF614o,202DF83m0,20311Cf8g,20318D53q,2031EB5de,203233au3,20326Cba7,2032C614o,20338956h,203462ejs,2034FBejs,203543b9l,203626cvk,20365B83r,2036D08cw,2036D7bl8,2037062s3,2037A514o,2037BC75d,2037F015q,2039565f4,203A072s3,203A0Cezk,203A436gz,203AEBf94,203AEFc6m,203B34ejs,203B67ba7,203B69f8g,203CAE14o,203CC01rs,203D662vw,203DB25gu,203DBD79b,204005f0a,20406Adt,20415Ac8a,2041813zm,2041BCf0,2043A84ba,20443Abcn,204441ai6,204569687,20463A14o,2046A1dq7,2046F9sn,2047473ix,2047B5b9l,2047DAejs,2047EDazx,204AAA5le,204B22ch9,204B2E9v9,204C035on,204C6D5ua,204C9E2s3,204D52848,204E6B1ea,204E716tm,204E7F8hv,204EF61er,20500D4ba,20500F4lb,2050E7dt,2051F541o,20521D14o,2053835gu,20538D5s0,2053CAak2,205476cb5,2054FA5gu,205531ba7,20553256o,205721b9v,20579E5hc,2057AFbr5,205843e5t,205869alx,2059A09p3,2059D1848,205A00315,205A1Df94,205A8Fbso,205B2A9zs,205B5Ebzh,205CFAen7,205D0D4lk,205D47f8g,205E645ty,205E978zj,205EF7ba7,205F3Drx,20627487m,206296but,20635Fnm,206432aol,2064CB4zc,2064DEch4,20658E5gu,2066CF4i9,2066FD2d5,20677C5on,2067B19w5,2067E0c0q,20689D7ik,2068AA9xg,20698014o,206A8Aedg,206A945qz,206AFF1a0,206BD5f8g,206BE7cvj,206BF45ty,206C8A4e3,206D314g9,206E9Cba7,206EF14ba,206FEC1yz,20719Easv,2072A91s9,2073552vw,207454f8g,2074CFbyx,2074DDezk,207600q7,20768F14o,2076937f9,207759956,20780B3j7,2078528zq,2078CD14o,2078F014o,2079186gz,207BD2io,207C14a5c,207C8Fa5x,207D7414o,2080582ri,208097bvj,20826A4zc,2082C0ejs,2083F8sd,20845F14o,2084F5eoh,20858C18s,2085935zq,208756ay0,2087AC99,2087EC5gu,2088103ix,20896F4lk,2089842bf,208986f94,20898Abx6,208B37c7d,208BD18o9,208C47d6a,208C865gu,20906Fby3,209148d7u,20918A9kp,2091D95we,2091DF14o,2093396tm,20934D4it,209395f59,20968A2pg,209727cra,20988Ebrb,2098D8c04,2098ED10d,209952ejs,209A7Db9l,209AE9e1n,209BA56nt,209BA94ba,209BCD14o,209BDD5gu,209BE65aj,209CB45on,209E79do6,209EF74e3,20A17110n,20A2005gu,20A2E414o,20A2E77ej,20A366f8g,20A5CB14o,20A60Cejs,20A6805gu,20A6CD5on,20A716c4v,20A7665gu,20A783f4t,20A7871xt,20A7F9avk,20A8B9ay0,20A8BF5gu,20A90Eco5,20A99B87m,20AA2565m,20AA4B2s4,20AB3714o,20AB485gu,20AB538cw,20AC9C2pq,20AD56l4,20AEB65ty,20AF1Bcej,20B001dv3,20B0F747w,20B37F5zq,20B399497,20B5C688t,20B730d2i,20B780ddc,20B7C093n,20B82Bb9l,20B83Ddk0,20B8688cw,20BA36f81,20BB762ai,20BBBC5k1,20BBC02s3,20BBC66pv,20BD1D6gz,20BEB45q4,20BEB810n,20BECDezk,20BFDB3en,20C047dwn,20C06Daw0,20C19B6gz,20C1AFf0w,20C2B05gu,20C38Fd7u,20C3A4aiy,20C60Dbme,20C6EB9nx,20C74Fbgq,20C792efb,20C8B3au6,20C9D014o,20CBCC587,20CC272s3,20CD39d7u,20CD6Eagu,20CE2A5zq,20CEC49r4,20CF30jj,20CFAE2s3,20D1609zs,20D21Febz,20D25Fc7x,20D276687,20D390ba7,20D5AB74s,20D5BFba7,20D5C24bb,20D6078zj,20D75A9x6,20D778d7u,20D80B6tm,20D9066kp,20DA225gu,20DBABba7,20DBEA2s3,20DC932ns,20DCE6cvj,20DCFD5ty,20DE1E8zj,20DE885xq,20DF3F8pj,20DF735gu,20DFB956h,20E09C8zj,20E15Dcvk,20E2A814o,20E407ccf,20E46Ff8g,20E5255ty,20E52A8hv,20E5642vw,20E59B9ns,20E6DFezk,20E791c3k,20E7B6do6,20E7C84ba,20E87414o,20E882f94,20EAC7avu,20ED476tm,20ED74nt,20EE2814o,20EEC644y,20EFBDal4,20F0027wp,20F09456h,20F1202s3,20F17C5gu,20F19E2vw,20F1B2dhv,20F307f94,20F3752vw,20F3A35gu,20F41Bau3,20F44F8zj,20F452bk0,20F478ejs,20F4D414o,20F5102u9,20F5435ub,20F5977xl,20F77Cf8g,20F83B8oi,20F85E3j4,20FA8514o,20FABB2ij,20FADB5tr,20FDF117,20FE0010n,20FECDcl6,20FEDB7mu,20FF365zy,2400BA5gu,2400FA2pg,24016F5ty,2401C72s3,240462c3j,24050F7wu,24058856h,2405F56gq,2406AA4zc,2406F2c2w,24085Dky,2409173k7,240935ba7,2409955gu,240A11co5,240A3Fba7,240A632vw,240A641er,240AC44ba,240B0A9nf,240B2Adyg,240B88cz2,240BB16xu,240D65byy,240D6Cb0s,240DC2co5,240F5Ec0y,240F9B5k5,241064bqz,2411255vj,241145ejs,24114849j,241153ba7,2411D02qi,2412812pi,241407ejm,2415105zq,2415515ty,24161B2s3,2416512q0,24166D5gu,24169D2s3,24181Daom,2418C03s7,2418C65hc,241972a6l,2419A58vr,241A8Ccdj,241AE65ty,241AF7c2w,241B13bl3,241B445l1,241B7A14o,241C04av2,241D48c2w,241E2Bet1,241EEB14o,241F2C2ic,241F498oc,241FA05gu,241FBD4e3,2420C7b9l,2421248zj,24215Ea6l,2421ABcb5,242361f8g,24240E14o,2424B7ba7,242642atl,2426BAbya,2426D65gu,2427304u3,2427E55ty,2428561p6,2428FD5k5,24293456h,2429B05gu,2429FE6z7,242A042s3,242AEA14o,242BD6ajt,242CFEetj,242D4B4ek,242D6Cezk,242E025gu,242E909f0,242FD0cvk,242FFAdd7,2430F85ty,2431545gu,243184atl,2432AE5k5,24336C9zs,24340843a,2435CCeub,243672dt,2436DA2s3,24374C2s2,2437EF3wo,243A8266x,243C203rg,243CB03p2,243F309e7,243F755ub,243FAA5ty,2440AE8kn,24418C6gz,2441FEe5t,2442BCyb,2442E3boq,2443E236h,2444275gu,24456B5ty,2445974ur,2446C88cw,2446E45gu,24470E9qw,244750b9l,2448455k5,2448855ty,24497B6fd,244AF8c4v,244B03ba7,244B81ba7,244BF15gu,244BFEjj,244C075gu,244CAB4ba,244CE310n,244E7B5zq,244ECDb9l,244F1Df2b,24506Fcst,24526Aet2,2453BF48i,2453ED3ix,24559A14o,24586Ef94,24587C4ba,245880ds7,24590Bead,2459E54u3,245A4Cdlp,245A5Fcvj,245AB5ba7,245B83aie,245BA714o,245BF07ij,245CBF8g1,245CC55ty,245CCBn5,245D926tm,245DFC5zq,245E4814o,245EBEa34,245EE1dnn,245F9F5ty,245FDF6z7,2460785gu,246081f60,2460B3ba7,24615A2pi,246278f7g,2462AB4ba,2462C65ty,2462CE5on,2464044yq,2464771sa,24649F5ty,2464EF2h4,246511md,2465E12ri,246800ba7,246830bwx,2468801zf,2468B0ba7,24693Ef3a,24694A6qr,246968cvj,24698Eavh,2469A55gu,246A0E5gc,246AAB67x,246C605ty,246C842s3,246C8Aemt,246D1014o,246E963ix,246F284ba,246F8C5ty,2471212s3,2471523ix,247189d7u,24724A8y7,24726065b,2474F755x,24753A4zc,2475B34zc,2475FCf94,247625d7u,2476455ty,247656bl0,24767D2s2,2477036gz,2478239o3,2478EF8zj,24792Aalx,2479EF57w,2479F34zc,2479F86yq,247BA42pi,247C464gr,247C4C5of,247D4Dd7u,247E122s3,247E51f94,247E7F34x,247F20b9l,247F3C5gu,248000e9n,24813B2s3,24814Ed5,2481854e3,2481AA6y4,2481C75ty,24828Aa1m,2482CAf8g,2484981py,2486021yo,2486255zq,2486F432s,248707ast,248894f6q,248A07848,248AB35yi,248BE0c2w,249038do2,2491BB5gu,24920Eba7,2493CAe25,24944294r,2494934l9,2494945sn,2494CB2vw,249504asz,24952F56h,2496D58ji,2497455gu,2497EDd2b,2499004id,249AC8bx6,249AD8elp,249D2A7hk,249E7D1r2,249EAB5gu,249F89d7u,24A02Df6w,24A07414o,24A10D5zq,24A1604ba,24A1862vw,24A2E114o,24A3F05zq,24A42C8hx,24A43Cdlp,24A452ba7,24A4875ty,24A495d81,24A52C5gu,24A534cjy,24A5FF4jy,24A65Ef94,24A6FAe3v,24A7995ty,24A7DCazx,24A87D9nt,24A9374cx,24AB8114o,24ACAC9wh,24AECC5sy,24AF4Axe,24AF548jk,24AFCC2q7,24B0A9bkv,24B1059yk,24B2091cm,24B2313p0,24B2B97ik,24B2DE4ba,24B33914o,24B5B98cw,24B5F2bk5,24B6572s3,24B6B84ic,24B6FD3ix,24B72A2p5,24B7DA4lk,24B88C31u,24B8D29ch,24BA13ab7,24BA232s3,24BA30d1b,24BA798vr,24BBC1o3,24BBC9bxm,24BC823fn,24BCF85gu,24BE055om,24BE1835d,24BF745iv,24C013f94,24C0B3acy,24C17A1gv,24C1BD2fh,24C35D3qt,24C3F9bei,24C406b68,24C42F9sh,24C44Af94,24C613ba7,24C696ba7,24C848f55,24C86E2n1,24C8D382f,24C9A1alx,24C9DE52t,24CACB4lk,24CBE14at,24CBE77xd,24CD8D8dt,24CE3310n,24CF21bxd,24CF241sa,24D0DF14o,24D13F7ra,24D1A1bqb,24D208bga,24D2CCc80,24D337ejs,24D3F2f94,24D51Ceud,24D53B8cw,24D5E42s3,24D660c4v,24D76Bckm,24D79C2s3,24D7EB4ba,24D81E89j,24D904c2s,24D9211cm,24DA118lq,24DA335gu,24DA9B8cw,24DAB6c6d,24DB946tm,24DBAC5gu,24DBADc21,24DBEDba7,24DC0F9ti,24DCC34ba,24DD1Ba4s,24DE8A8zq,24DEC65on,24DEEB5gu,24DF17bwn,24DF6A5gu,24DFA75jv,24E124ejj,24E271a4t,24E29D5ty,24E31414o,24E3A44lk,24E3DE2pr,24E43Fe9f,24E4C84lk,24E4CE706,24E50F56h,24E5AA9sk,24E6BA6p0,24E85379b,24E8CEa4q,24E8E5bx6,24E927dc9,24E9B32s3,24E9CA5ty,24EA405nx,24EA9B5gu,24EB166gz,24EB65ant,24EBED5gu,24EC4A4ba,24EC517f,24EC99ip,24ECD62fu,24EDFDc3h,24EE3A2or,24EE5De17,24EE9A6gz,24EFB4bkz,24F09414o,24F0D3ba7,24F0FF4vt,24F128d5g,24F1505ac,24F27F5on,24F2DDadw,24F306687,24F3E3ezk,24F40Aba7,24F57E5hm,24F5A21t5,24F5AAba7,24F6035gu,24F67714o,24F68D8zj,24FAD4bnk,24FAD63x1,24FAF3bjn,24FB655gu,24FBE35gc,24FC4E6tm,24FCE5ba7,24FD0D6h3,24FD527ik,24FD5Bc86,24FDFA9zs,24FE9A33y,2800AF3ix,28011Cf94,2801CD848,28022E14o,28024414o,28024574l,2802D8ba7,28047Ae5t,2804C6e6t,2804E04fk,28052E3ji,2805A54ba,28061E8ks,28068D68f,280708ba7,28070D4zn,280AEEaie,280B5C14o,280C28dn9,280C2Da3o,280C506gz,280CB888d,280DFCcb9,280E8B1ri,280FC51qb,280FEB79b,28101B7yj,28107B351,2811A51yh,2811A86gz,2811EC5gu,2812935sy,2812D08cw,2814717da,2815A4avr,28162Er,28167Fejs,2816A887m,2816AD6gz,2817095gu,28172E4lk,2817CBc9e,2817CE99b,28187887m,2818FDrr,281B04er9,281D21618,281DAAjb,281DFB5gu,28221E5gu,2822461re,2823733ld,2823F52pg,2824C910n,2824FFe5t,282536aur,28255F5h9,2826A69fr,2827BFba7,28285Devs,2829472q0,282986fe,2829CC30h,2829D9557,282A87687,282B965ty,282BB9bzu,282C025zq,282CB2cvj,282CC45gu,282D06dt,282D7F14o,282E307pn,282E89e5t,282FC21c0,2830AC4qk,2831525gu,283166f8g,28317E5sw,2831F85gu,2832C55h8,2833345ty,28341048s,2834A22s3,2834FF14o,28353A5gu,283545au8,2836135zq,2836385zq,2836F05ty,283713boi,28372F4ba,28373714o,28385C4gp,2838CF51p,28392633y,28395Eba7,283984a4c,2839E79yn,283A4D2t6,283B82351,283B962za,283C90d7u,283CE45gu,283DC2ba7,283DE85aj,283E0C9yx,283E762vu,283F69cb5,28401A22o,2840DDcb9,2841219bl,2841C65gu,2841EC5gu,2843DCdnt,28443015o,2844F45sy,2845AC5ty,2847AA8zj,284846584,2848E75ty,2849927lf,2849E914o,284B5414o,284C536jv,284D7Df94,284D927lf,284E445gu,284ED79dq,284EE9f4q,284FCE7g7,285132bvs,2852612s3,2852E07e1,2852F9eue,28534E5gu,2853E0c65,2854715ty,28562F4ba,28563A4lk,28565A5rz,2856C15m5,28575D14o,2857673nl,2857BE5k5,285923ejs,285AEB14o,285B0Cc2u,285F2Fabo,285FDB5gu,2860467d9,28609423t,286336c37,2863BDgh,2864B05ty,2864EFbrn,28656B71o,2866E31er,286847c4v,2868D25gu,28692695h,286AB814o,286ABA14o,286B356gz,286B5C2s3,286BB4aze,286C07eh9,286D97aof,286DCD1s3,286DDA4lk,286ED45gu,286F40dcj,286F7F2s3,286FB98zn,28704Edlp,287184cd8,2872C5c8f,2872C6ba7,2872F0jz,2873F610n,2874F58zq,2875D84it,28761069x,287681c4v,2876CD4rw,287777f94,2877B1dfp,2877F114o,287994agw,287AB45gu,287AEE2vw,287B09f94,287B115ub,287CDB5n5,287E805ub,287FCF6gz,2880235om,28806E9um,2880888hv,28808A5gu,2880A26fw,28827C1y5,2883283wl,288335ba7,2883C914o,28840Ef72,2884854ba,2884FAatl,28852Dddm,2885BBerv,28875F139,28876179b,2887AFtb,2887BAcvk,2889152kh,288A1C6tm,288CB8f94,288EB9e6j,288EEC14o,288FF614o,289104cvk,2891766cc,2891D0cdo,2892006gz,28924A5om,28937Dc2w,2893FE2s3,2894018hv,28940F2s3,2894AFba2,2895296gz,2896B05gu,2897B8f54,28987Bba7,28993A16e,2899C779u,289A4Bcej,289AF782,289AFAco5,289C6Ebjv,289E1Ed7u,289E975gu,289EDF3g4,289EFCb9l,289F04ba7,28A02B14o,28A06B6gz,28A183ca,28A186ezv,28A1924vb,28A1EB3zp,28A241f05,28A24B6tm,28A331c3z,28A44A6gz,28A53Ff8g,28A57488m,28A5EEbwe,28A6ACf69,28A6DB5gu,28A915asm,28A9AE5gu,28AC677xp,28AC9E2s3,28AD185ub,28AD3Ebxu,28ADEA7za,28AF0Ac6b,28AF21f94,28AF42ba7,28AFE5bpj,28AFFD2s3,28B0CCeiu,28B133ax7,28B20B8od,28B221c3x,28B27Cb9r,28B2BD6gz,28B371alx,28B3AB52q,28B3AFa5t,28B446au8,28B4485gu,28B4FBcdf,28B5912s3,28B5E8d7u,28B67C6vn,28B77C5zq,28B8296tm,28B9D9aei,28BA188x8,28BAB5ba7,28BAB95y,28BB59abn,28BBB26d5,28BBED1yo,28BC051iv,28BC18cbx,28BC563wj,28BD8956h,28BE03co5,28BE43f8g,28BE9Bdv4,28BEF34it,28BF894lk,28C01Bbx6,28C0395gu,28C0DA6tm,28C13C5s0,28C1A014o,28C21Faom,28C2DD1er,28C53814o,28C5C85gc,28C5D26gz,28C63F6gz,28C671eo1,28C68E8hv,28C70914o,28C71810c,28C7CE2s3,28C8253j0,28C87A2vw,28C87Cf94,28C914cz5,28C97A8vr,28CA09da6,28CB5Cbpl,28CBEB99o,28CC01ba7,28CCFF30d,28CD1C4b9,28CD4C6bx,28CD9Cbqs,28CDC1afn,28CDC427q,28CE15bzs,28CF083ze,28CF518yt,28CFDA14o,28CFE914o,28D0431er,28D044bzt,28D0CBrx,28D0EA6gz,28D0F5am3,28D1271sa,28D1AF8zj,28D1B7bzz,28D24477z,28D25A6d5,28D3EA5ty,28D41E1mu,28D4366s8,28D555f8g,28D5769z0,28D5B114o,28D6EC5gu,28D93Ed3j,28D98A5kb,28D997eof,28DB02f94,28DB81bjt,28DBA7c4v,28DCC35gu,28DE1Cba7,28DE593ok,28DE655on,28DEA8f94,28DEE55gu,28DEF6ewt,28DFEB6gz,28E02C14o,28E14C14o,28E297bk4,28E31Fejs,28E3477ik,28E34E5gu,28E4248vr,28E4769tk,28E5B05gu,28E608dbz,28E6A9ba7,28E6E9az4,28E71D16e,28E79487r,28E7CF14o,28E8887hi,28E9713wg,28E98E8a6,28EA0B87m,28EA2D14o,28EA5Baoi,28EB0Aal6,28EBA68wk,28EBB7ew5,28EC22ezk,28EC9514o,28EC9Ad7u,28ED586ma,28ED6A14o,28EDE0dt,28EE2C4ql,28EE52cvj,28EED3bxk,28EF0110n,28F03314o,28F07614o,28F10E3ix,28F358k,28F366au3,28F49B78h,28F52B4h8,28F53277,28F5375zq,28F5D12vw,28F606cjk,28F79A7ca,28F7D64lk,28F8C65zq,28FA19btm,28FA7Aetj,28FAA0f8g,28FBAE5gu,28FBD3aep,28FC51d8e,28FCF6bzm,28FD805zq,28FE653on,28FECD7f3,28FEDE2au,28FF3C14o,28FF3Ef94,28FF5F5e1,28FFB2dd6,2C002Abxt,2C002Cdkm,2C00333tg,2C00AB2vw,2C00F7ehs,2C010B8fb,2C01B52s3,2C029F14,2C03695i,2C0547bvo,2C06132pi,2C0623ebt,2C073C39q,2C07865ty,2C07F6azq,2C081C978,2C0823bhn,2C088C5h8,2C08B45ty,2C094Dafi,2C09CB2a8,2C0B97ejs,2C0BAB5gu,2C0BE92s3,2C0D275ty,2C0DA76gz,2C0DCFejs,2C0E3Daom,2C10C18yt,2C1165c4v,2C157Ea7p,2C15BFba7,2C15D95gu,2C15E19s6,2C16BD5zq,2C17E0b8h,2C180914o,2C1875c7d,2C18AEdfi,2C195C1sa,2C19845z0,2C1A015gu,2C1A052s3,2C1A3144v,2C1B3A5ub,2C1B8E1lp,2C1BC85v3,2C1CF6y5,2C1CF714o,2C1DB82vw,2C1E4F2ok,2C1EEA93,2C1F2314o,2C200B14o,2C20805ty,2C21316tm,2C21726tm,2C21D760p,2C228B2ge,2C233A5om,2C245F1lt,2C261798c,2C265F5zq,2C26C5f94,2C27685gu,2C279E5zq,2C27D75om,2C27E47lz,2C282D1g3,2C28B75ko,2C299787m,2C2B86b9l,2C2BDBezk,2C2BF979b,2C2D482vp,2C2FF4ezk,2C301Ad1i,2C30338hv,2C30689oo,2C31242s3,2C326A14o,2C33112s3,2C33412pj,2C33586gz,2C336114o,2C337A5rz,2C34273yj,2C347Bav6,2C35573vq,2C36A02jg,2C36F25gu,2C36F82s3,2C3731awo,2C37962h0,2C37C5a4o,2C3996b9l,2C39C12ri,2C3A284jx,2C3A915ty,2C3AB15ty,2C3AE84ba,2C3AFDme,2C3B701er,2C3BFD8um,2C3C05809,2C3EBF5g4,2C3ECF2s3,2C3F0B2s1,2C3F382s3,2C3F3Exx,2C3F879zs,2C402Bc7v,2C4053ba7,2C41385om,2C41A11yh,2C42057md,2C431Abzz,2C43BEch9,2C4401ba7,2C441Bccy,2C44FD5om,2C459A3o0,2C47591qg,2C48355zq,2C4881f8g,2C4A112ri,2C4B14c2w,2C4C156tm,2C4C7D8vr,2C4CC68dt,2C4D54jj,2C4D79e3v,2C4DDEcpb,2C4E7D2r9,2C4F522s3,2C5089btz,2C52AF5gu,2C532Bco5,2C534Abzd,2C53D7cb1,2C542D2s3,2C549187m,2C54CF798,2C553Cdvh,2C557Cbzz,2C55D35gu,2C56832pi,2C56DCjj,2C572Cz6,2C5731ec7,2C57412s3,2C57CE14o,2C584F2vw,2C58B95gc,2C58E85gu,2C591715q,2C598A798,2C59E55om,2C5A058zj,2C5A0F2s3,2C5A8Db8m,2C5AA39ku,2C5BB84zc,2C5BE12ma,2C5D344zc,2C5D93alx,2C5EAB848,2C5FF39ri,2C600Ca5w,2C60CD8mu,2C6104auk,2C61F614o,2C625A4m9,2C6289ahv,2C6373c2w,2C63A15ty,2C641Fe17,2C64F6eey,2C658D2s3,2C66AD8yc,2C66F5auh,2C67986bd,2C67AB41j,2C67BE3eu,2C67FBbo6,2C691D5zq,2C693E5gu,2C69BAaa3,2C69CCdu4,2C6A6F5zq,2C6B7Dd7u,2C6BF56tm,2C6DC16gz,2C6E856gz,2C6F378zj,2C6F4E5u6,2C6F515oi,2C6FC95rz,2C704Ff94,2C71555r4,2C71FF10n,2C72C3cbr,2C736041o,2C73A02s3,2C750Fbjg,2C75CB91e,2C760014o,2C768A5om,2C780E5ty,2C784C6lh,2C793D1xn,2C79BEcvj,2C79D7b9l,2C7AF45zq,2C7B5A88q,2C7B8494i,2C7BA06gz,2C7CE4efl,2C7CF214o,2C7E812vw,2C7ECF9aa,2C80655ct,2C81585rz,2C81BF14o,2C821714o,2C86D22s3,2C8A725gr,2C8AC7dlf,2C8BF25qp,2C8D37dzb,2C8D48c7s,2C8DB16gz,2C912743z,2C91ABme,2C922C72u,2C93FBbhn,2C94525gu,2C94642rn,2C952014o,2C95692vw,2C957Ff94,2C96626jy,2C96828a3,2C97175wv,2C97B15gu,2C97EDcb8,2C9811296,2C99242vw,2C9975ba7,2C9AA449x,2C9C58296,2C9D1E5gu,2C9D4B7dw,2C9D5A4mz,2C9D65f8g,2C9D90848,2C9E00cb9,2C9E5F2vw,2C9EE02l6,2C9EEC6pw,2C9EFC23n,2C9FFBe5t,2CA02Fdwu,2CA0425ty,2CA157evw,2CA17D2vw,2CA2B44ot,2CA30E9jf,2CA3279cj,2CA5399p5,2CA59C5k5,2CA774d7u,2CA780dgt,2CA7975gu,2CA79E5gu,2CA7EF99u,2CA835aay,2CA89C31r,2CA9F04zc,2CAA8Eega,2CAB005gu,2CAB25auq,2CAB33d7u,2CAB46alx,2CABA42s2,2CABEB2s3,2CABEE3wg,2CAC442cv,2CAD13awr,2CAE2Bba7,2CAE46296,2CAFC49zs,2CB05D8hv,2CB0DFca8,2CB0FDbuz,2CB1156gq,2CB1B7848,2CB21A9s6,2CB3015sy,2CB43A14o,2CB471dhv,2CB68F5gu,2CB693aem,2CB69Da9f,2CB6C2f94,2CB6C8aez,2CB7A15ty,2CB8EDcaq,2CBABAba7,2CBACA30t,2CBC8714o,2CBCBB4ba,2CBE0814o,2CBE976dx,2CBEEB90q,2CBEEE90q,2CC1F48zr,2CC25314o,2CC2609ci,2CC3E6au3,2CC407f4j,2CC44F5zq,2CC5465ty,2CC5485x5,2CC5D3alx,2CC682a6l,2CC6A07l3,2CC81B88b,2CC8F55ty,2CCA0Ce5m,2CCA1614o,2CCA75aki,2CCC158zj,2CCC44cb9,2CCC7A10d,2CCCE6c7d,2CCD279yv,2CCD43cgl,2CCD6915a,2CCE1E2ti,2CCF585gu,2CCF67afl,2CD02D2s3,2CD05A7ik,2CD066ejs,2CD1415zq,2CD1C68dt,2CD1DA71n,2CD26B4h8,2CD2E359s,2CD2E78zj,2CD3ADd7u,2CD4444j0,2CD7FF77a,2CD8AEbwi,2CD8DE10d,2CD9745ub,2CDA3F3om,2CDA46ba7,2CDB076gz,2CDC783jr,2CDCADe5t,2CDCC13wg,2CDCD71er,2CDD0C3nh,2CDD5Fc0q,2CDD95cz2,2CDDA39wb,2CDDE916e,2CDEDF59q,2CDEF5cy4,2CDF6814o,2CDFE6aez,2CE032cny,2CE0994it,2CE1878vr,2CE2A83k5,2CE2D95ty,2CE310cfm,2CE38E2s3,2CE412b9l,2CE5BDdlp,2CE64D4u3,2CE6CCalx,2CE7A7aze,2CE871xo,2CEA7F3ix,2CEADA5xw,2CEADCip,2CEAFC6gz,2CECA65gu,2CECF7bwf,2CED895gu,2CEDB05gu,2CEDEBzo,2CEE269rr,2CF05D86p,2CF0A214o,2CF0EE14o,2CF1BBf94,2CF2033wu,2CF2955ty,2CF2A5b9l,2CF4324ba,2CF4C51cm,2CF7F1bep,2CF8142s3,2CF89B2s3,2CF8ECa6l,2CFAA2xd,2CFB0Fb9l,2CFC8B4zc,2CFCE42gb,2CFD371wm,2CFDA1jj,2CFDAB8cs,2CFDB3dcj,2CFDB4btm,2CFE4Fejs,2CFE8B86y,2CFEE2a4t,2CFF6598k,2CFFEEf8g,3000FC8zj,3001AF2s3,3003C8296,30045Cbxm,300475a2s,3005056gz,30053F6p8,30055C20y,30074Daom,30075C8u4,3007A3bx6,30084Ddgx,30091614o,3009C08cw,3009F95zq,300A605zq,300A9D1dv,300AC5am4,300B9C3j9,300C23f94,300D2Aetn,300D4387n,300D9Eam3,300E4314o,300EB8797,300ED55rz,300EE315b,3010B37ik,3010E414o,301389c3c,30138B5gc,30142D9tp,30144Ae5t,301518dlq,301577evs,30168D9zw,30169D7ql,3017C8cb5,3018CF396,301966ba7,3019845gu,301A287z4,301A307z4,301ABA4zc,301B977gf,301C225on,301D494mm,301F48f94,301F9A5zq,30215Bbvn,3023031t5,3023648zn,3023BAof,3023CD4it,3024326gz,3024505k7,302478b9l,3024A95gc,3027CF2ja,30292Bezk,30294B5gu,3029525pj,3029BEbko,302BDCdcp,302DE86n8,302F1Eay0,302FACet7,30305Fdu6,3030D0d7u,3030F94ba,30317D5t6,303180bx6,303235a4x,303294e2q,3032D45l8,3033351y0,303422ezk,3034D21cd,3034DB79b,3034F6dv1,3035AD14o,3035C55ty,3037A62s3,3037B35gu,3038558zj,303926cb5,303955bto,3039A95sx,3039F26y,303A4Aezk,303A646gz,303ABA59t,303B492s1,303B7C14o,303D084wp,303D515zq,303EA76gz,303EADcal,303F5D9lo,303F7Bbzz,303FBB5on,304074f94,304174ch,3041DBf8g,3042251la,304240f94,3042A1f2z,3043D75zq,3044499ii,3044875n3,3044A1bky,304511d7u,3045965gu,30469A8hv,30487Ddhv,30493B8pt,3049505zq,30499E5gu,304A26bye,304AC41mu,304B078cw,304C7E9o1,304D1F10n,304E1B5ty,304EC3dal,304F004zc,304F75eu0,3050754xb,3050CEejs,3050F148v,3050FDc7d,3051F81lq,3052234u3,30525321c,30525A8n6,3052CB7ik,30535Bbq3,3053C12f8,3055EDdfo,30560F4w0,305684awp,3056966d5,30571414o,30578Eezk,3057AC66r,3058904qj,3058EBf94,30595Bf7d,3059B787m,305A3Ajj,305A99c2w,305D381sq,305DA683,305F778vr,30600A287,3060232vw,3061129fl,3061189ov,3061A25gu,306222ba7,30636B14o,306371c13,3063CFet1,3063EA6tm,3065ECedc,3066D05ty,3067A1b9l,30688Cagd,306893cvk,30694Baay,306A85ba7,306CBEc78,306D34eey,306DF94zc,306E5Cduc,306F078qr,3071B25kl,3073506fq,307467ba7,3074965gu,307512cb5,30766F798,3076F54ba,3077CB7yu,3077DFd76,30785C9pr,30786Bct1,3078C26fl,3078D3dz9,307A055gu,307A57ow,307AD214o,307BAC8vr,307BC9au3,307C30aay,307C4A5ty,307C5E6tm,307CB2eq,307ECBasz,307F104zc,30809B8vr,30821614o,30836Bcei,3083984ba,3083D28cw,3084544zc,3085A9jj,3085EB4lk,30862D16d,3086F14lk,3087305gu,3087D9alx,308841c2p,30894439m,30894A6gz,308976361,308999596,3089A65gu,3089D35fu,3089EC8yt,308AF75ty,308B23139,308BB22s3,308CFB3qj,308D995om,308DD45gu,308E7Ac0q,308ECF5gu,30904814o,3090AB14o,309176c7d,30918Fdv3,3092F6atf,3093BCb9l,309435f8g,3095875hc,3095E3ate,3096105ty,30963B5ty,3096FBba7,309935f94,309BAD1g3,309C2386p,309E1D936,309E625gu,309FFB15y,30A023abx,30A03314o,30A1764lk,30A1FA5gu,30A220h4,30A243bvt,30A2C25ty,30A30F5gu,30A3B56rl,30A452172,30A612bnd,30A7716re,30A88938g,30A8DBcb5,30A9985ty,30A9DE79b,30AABDbl9,30AAE45ty,30AB6Aaom,30ACED9mq,30AE7B3jo,30AEA44ba,30AEF6ae7,30AF7Ed7u,30AFCEf8g,30B0378vr,30B0EAbpy,30B1649xk,30B1B515q,30B2165qb,30B2374u3,30B29F40m,30B34628o,30B3A2bsj,30B49Ecvj,30B4B8797,30B5C2cvj,30B5F1wa,30B62D8bm,30B64F6tm,30B7D45qz,30B851c37,30B89A6y1,30B930f94,30B9B06ji,30BB285zq,30BB43c6n,30BB7D99u,30BC4F1px,30BD13evs,30BDFEc2w,30BE2910d,30BE3B8a6,30C01Bbtm,30C0AE14o,30C3D9ca,30C5073t6,30C50F5gu,30C599jj,30C6ABf94,30C6D78vr,30C6F74ba,30C7507rk,30C7AEba7,30C82Ae4g,30C8A2aw9,30C91Bett,30C9224ba,30C9AB296,30C9CCba7,30CB361t2,30CB8999h,30CBC72ig,30CBF8ba7,30CC21f94,30CDA7ba7,30D0423ix,30D16B7ik,30D17E5gu,30D32Dey3,30D3577k1,30D386f94,30D46A1c3,30D4E25gu,30D51Fa0o,30D53E14o,30D587ba7,30D65984l,30D6C9ba7,30D7A114o,30D87514o,30D941ag0,30D959bkm,30D97Fd0w,30D9D914o,30DCE7f94,30DDAAeps,30DE4Bcvk,30DE862la,30DF17ca,30DF8Dauq,30E04456h,30E04F14o,30E09052j,30E1715om,30E1F16h3,30E22614o,30E2714qm,30E283d7u,30E37A6gz,30E3965ty,30E3A46gz,30E3D6cdc,30E48Ee1g,30E4D85ty,30E4DB2s3,30E7BC4zc,30E8E4a5a,30E98E5gu,30EA26cjh,30EB155ty,30EB1Fc76,30EB2563u,30EB5A41g,30EC7Cbox,30ECA3xt,30ED967bl,30EDA04ba,30EFD1zv,30F0281ye,30F03Adiy,30F23Ccpb,30F31Df94,30F3355gu,30F33A0,30F42F3z5,30F5278vr,30F600b9l,30F65D5on,30F6B942r,30F6EF6gz,30F70D2s3,30F7725rz,30F77Famj,30F7C514o,30F7D7d9z,30F8564e3,30F947bx6,30F94Bdo6,30F9EDcb5,30FAB7dhf,30FB10c4v,30FB68efp,30FB94bjl,30FBB85gu,30FC68cvj,30FC8Cduy,30FCEB798,30FD117n6,30FD342az,30FD3856h,30FD655gu,30FE318zj,30FE6C14o,30FEFA2s3,30FFF65jl,30FFFD5gu,34008A5zq,3400A35gu,3402866gz,34029B9vu,34029C34z,34033D5gc,3403DEd7u,34049E5zq,340557f8g,34074Foc,3407AC9l0,3407FB4at,34080434z,3408BC14o,3408E1d7u,3409625k5,3409C93oy,3409E95m5,340A22cup,340A33351,340A985gu,340AFFa4t,340B407tp,340CED8bg,340E2214o,340F66e8d,34105Dd7u,3410BE14o,3410D05gu,3410F4c4v,341290df9,34129814o,3412DCa4r,3412F95gu,3413434ue,3413A883d,3413E86gz,34145350n,34145Fba7,3414B5d7u,341513d7u,341530f8g,341593alx,34159E14o,341736c0q,3417DDbhn,3417EB3ix,34194D15q,341A354lk,341A4Cawf,341B22572,341B2D2s3,341CF0ejs,341E6B5gu,341FC4byp,341FE42vw,342003brd,3420D3av0,3420E3alx,3421096r4,3422CFl4,3423875rz,3423BAaom,34243Ef94,34255Dbum,3425B4c4v,3425BE10n,3426015gu,3426062js,3426E6287,3427924i9,34284014o,342844766,3428656tm,3428F0kc,3429125gu,34298F5zq,3429EA7p6,3429EFa4q,342AF1d7u,342B6E14o,342B70171,342C8Edm2,342CC42w9,342D0Dba7,342DA34lk,342EB65gu,342EB76gz,342F6E13y,342FBD8yt,343111ba7,34317F9nr,34318F14o,3431C4md,3432E69o7,3436079ht,3436385gu,34363B14o,343654f94,343759f94,3437945ix,3438398gl,3438AF6e8,3438B75h8,34391656h,343A205on,343C308o9,343D7F735,343D986sl,343DA95gu,343DC41l4,343E25936,343EA4ajt,3440B55xb,34415D6gz,3441A83yi,34426214o,3446635zq,34466F5ow,3446EC5ty,3447632x8,34479A4zc,3447D42ol,3448ED3ix,34495145l,34495Bb9l,344A1Bf94,344A865sy,344AC35tl,344B3D4lk,344B50f94,344CA4ew4,344CC842g,344DEAf94,344DF7798,344E2F789,344EE25ty,344F3F64z,344F5Ca77,344F693uv,34516Fc72,345180cnx,3451845ty,3451AA6nu,3451C914o,3453D2b9l,34543Ccmz,3454EF2s3,3455064za,3455944it,3455E5aze,3456ED561,3456FE2s1,3457608a3,3458405gu,34587C7tv,34588A2s3,345A06atl,345A18ya,345A6086p,345ABAf7o,345B1140k,345B983wg,345BBB4u3,345C402k0,345CF32q0,345D10eg9,345D9Eb9l,345DA82s3,345E08al4,345EE75jw,345F454ba,3460F9cvk,346178d8a,3462882s3,3462B4aie,3463D41i5,3464A95om,3466795gu,34669114o,3466EAdqi,34684Ad72,346893d2f,3468955rz,3468B5d7u,346987f94,346AC25gu,346B46b9l,346B5B8vr,346BD35gu,346C0F9ym,346D9C2k8,346E685gu,346E8A42w,346E9D4at,346F11a50,346F241er,346F3F5s0,346F71d5y,346F902s3,346F92eac,346FED48y,3470692s3,3471465ty,34732D2s3,34735A3ix,347379f8w,347563avt,3475C71cm,3476C55wn,347839f94,34787792c,3478D754k,3479165gu,347A602vw,347C2514o,347DE4au3,347DF66gz,347E005ty,347E398zl,347E5Ccaz,347ECA8jy,347F632xe,34800D2l5,3480B3ejs,348137djl,3481C4md,3481F4b4a,3482C5ba7,3482DE71u,348302f1j,3483D55gu,3484464at,3484E4d7u,348511bx6,3485184ba,3485844e3,34862A5ng,34865D4ba,3486DA5sy,34873Da6l,3487FB4z2,3488182s3,34885D7jw,348A125on,348A3B5ty,348A7Bba7,348AAEb9l,348B7577x,348C5E14o,348D13c4v,348D52c2w,348E895jv,348F27alx,3490EA8dt,34916Fdp1,3491F03ca,3492C2cdi,349342cxk,34936F6tm,3494544ba,3495DB7js,3496715gu,349672cvj,349677f94,34976Fala,3497D7elp,3497F6jj,3497FB8j,34987A4ba,3498B58hv,34996Fdst,349971a5z,3499D7do7,349A0Depb,349B5B7zw,349D905ni,349E344d1,349F7B23n,34A1375gu,34A183ms,34A27Ddnl,34A2A25gu,34A34E8vi,34A39514o,34A3BFd75,34A55Dcp4,34A5B48fo,34A5E1bgt,34A68Cc1m,34A6EFbvo,34A709dfm,34A7BA4ms,34A8436z8,34A84E2s3,34A8A05gu,34A8DBbfo,34A8EB14o,34AA31bx6,34AA8Bba7,34AA998zj,34AAEE88e,34AB3714o,34AB954ba,34AC112pi,34AC2Ff94,34AD6125o,34ADE4bj8,34AF2C8yt,34AFA3ah5,34AFB310n,34B1EB14o,34B1F7d7u,34B20A5ty,34B3545gu,34B4724ba,34B4F05md,34B5719im,34B5A3287,34B5F35zq,34B7DA4ba,34B7FD5av,34B8832s3,34B98Dejs,34BA389ey,34BA51bdl,34BA754ct,34BA9A18h,34BB1F1w6,34BB268cw,34BC5Eezk,34BCA61ov,34BD205k4,34BDC82s3,34BDF9blx,34BDFA2s2,34BE00ba7,34BF904lk,34C05914o,34C0F9al1,34C1035k8,34C1E9dm4,34C232ba7,34C38614o,34C3ACba7,34C3D24h8,34C3FD2s3,34C459d7u,34C5155on,34C5D05ie,34C69A486,34C6DD5k1,34C731ca,34C7E956h,34C8038zj,34C8D65zq,34C93D6gz,34C99D3um,34C9F07an,34CA818vq,34CB1Aa0a,34CC288wv,34CD6D2vm,34CDB04ba,34CDBE5gu,34CE00eh9,34CE698zq,34CE949pn,34CF6C5ky,34CFB5akt,34CFF66gz,34D09B8ah,34D0B85zq,34D262b8r,34D27010n,34D2C4a9r,34D4E31a9,34D50952l,34D6935ty,34D712c8b,34D72Fbxm,34D7375xa,34D772ejp,34D7B4dg0,34D7F55zq,34D856bx6,34D86820l,34D954ean,34DAA114o,34DAB7f94,34DAC1anp,34DB9Cb9l,34DBFD2s3,34DC998vr,34DD0489f,34DD7Edmh,34DDCC56h,34DE1A6gz,34DE34f94,34DF20bq4,34DF2A4rb,34E0CFf94,34E0D73d1,34E12D6gz,34E1A9me,34E1D15zq,34E1D78oc,34E2FD14o,34E38052l,34E3DA5tg,34E3FBba7,34E42A1bu,34E5EC9nf,34E6AD6gz,34E6D73ix,34E6E679b,34E70B5c5,34E71Cbzz,34E894cvj,34E911f8g,34E9FE85n,34EA109cq,34EA345jj,34EAE7bjv,34ECB69tc,34ED0Bbm5,34ED1B2s3,34EE1614o,34EE2A2xb,34EF44r,34EF8B8ni,34EFB643b,34EFD75gu,34F0151sa,34F043ba7,34F084ba7,34F0CAbui,34F1505ub,34F2234r1,34F39A6gz,34F39Bedr,34F5D75ty,34F62Datl,34F64B6gz,34F68D14o,34F6D29oa,34F716cvj,34F86E9pf,34F8DD14o,34F8E72s3,34F968jt,34FA1C1sa,34FA405ae,34FA9Falx,34FC6Fbe,34FC99aze,34FCA187e,34FCB95on,34FCEF798,34FD6A14o,34FD706gz,34FE1C27r,34FE7714o,34FE9E4rd,34FEC5bxj,34FFF35gu,3800256gz,380118djc,380146au3,380195ba7,380197cxf,38019Faui,3802DEbhm,3802E3elv,38048414o,3805255zq,3805464ny,3805AC9u5,3806B43f,3806E615q,3807164i9,3807D4ese,3808FDc4o,3809A44mh,3809FB14o,380A0Ac6w,380A4F9jm,380A94ba7,380AAB4ol,380B2688w,380B3Cd7u,380B40ba7,380DD49zb,380E4D2s3,380E7Bdpi,380F4A14o,380FAD5gu,380FE43io,3810D5me,3810F05on,38127B31t,38141Bbec,3814283ix,38144E4lk,3814A179b,38165Af94,381672bxm,3816B35gc,3816D1ba7,381730dm5,3817669ky,3817B1b9l,3817C35on,3817E1dv4,38182B4ba,38184Ccb7,3818686gz,38192F8zj,381A52bf2,381B9Ea4x,381C1A2s3,381C235pe,381C4Aayo,381D14c74,381DD94h8,381EC72q2,381F265zq,381F8Ddhv,3820285gu,3820562s3,3820A82uz,382187880,3821C75on,382228d4x,38229D6y,3822D65k3,3822E25gc,3822F45ty,3824F19zs,38256B87n,3825F3848,38262Bdlb,382656cny,3826CDei,382835f94,3828EA4qy,38295A4zc,3829DD94e,382A19d1a,382A8Bf56,382A8Cbt,382B783ta,382C4Ajj,382CDB16e,382CE5dhv,382DD1ba7,382DE8ba7,382FB04u3,3830F9798,38315Aajy,3831ACe3u,38327A88b,3833C587m,3835FBb9l,38378B5gu,38384Bf8g,3838A616e,383904f3u,38396C5ty,38398Fc4v,3839CDf8g,3839DD8zj,383A215zq,383B266ry,383BC8r,383C9C4r3,383D5B4lk,383E514ba,383F10383,383FB3dv4,383FE85gu,38420Bcaz,384233ebj,3842A66dy,3843699q3,38437D2w9,3843E558g,3844BE4ba,38453Balx,38454C7gq,3845545m5,38458C8e9,384608f94,3847127lx,3847BC5gu,3847F2ah5,38484C14o,384A80ba7,384B24ay0,384B5Beqz,384B76af,384C4F5gu,384C902vw,384DD25ty,384E56d7u,384F496tm,384FF01er,38521A8zj,3852475ty,385319y,38539C14o,3854395aj,38549Bf94,3854F510d,38561023l,38563D87m,3856B59qj,38580C9nm,3859F888u,3859F95rz,385AA81sl,385B44c4v,385C769ig,385CFBc4v,385F662s2,385FC3eoc,3860779gg,3861A556t,38623314o,38637F4lk,3863BB5om,3863F61k,386407a4x,3865045sy,3865B214o,38664594n,3866F014o,386793187,3868936gz,3868A4ba7,3868BEc2w,3868DD64s,386A77ba7,386B1Cavh,386BBB2vw,386C9B6lo,386DED6tm,386E21e72,386E88f94,386EA2f8g,386EB25gu,386F6B4zc,386FF410n,38700C2vw,3870358yt,3870F25gu,3871DE14o,3872C02x8,38736E5ty,3873EA5zq,3876056fo,3876CAbxa,3876D14ce,38770710d,3877CD6xi,387862cb5,387A0E6gz,387A3C4lk,387ACCau3,387B01buz,387B47ax,387C76do8,387F8B14o,3880DF8cw,3881D7d7u,388345cvj,38839Aavt,3884792s1,3885BB2vt,3886024ne,3886F756h,38879C43r,3887D56gz,38881E5gu,388871ip,3888A414o,38892C14o,3889DC9bw,388A06ba7,388A21dil,388AB7680,388ABE4zc,388B5956h,388C50797,388CEFba7,388D3De5t,388E7Alh,388EE74k6,388F30ba7,3890525gu,3890A52s3,3890AFf94,389148f94,3891B72s3,3891D55k3,3891FBeis,389201dan,38922E16w,389231cpb,389461aie,389496ba7,3894E0cks,3894ED8hv,389592d62,3897A43v7,3897D65k3,3898D87qn,3898E95ty,389AF6ba7,389B734yq,389CB214o,389D92bf2,389E4C5on,389E80f94,389F5A227,389F77cir,389F83970,38A0678zq,38A28Cavt,38A3E0a,38A44B5ty,38A4EDejs,38A53C2aq,38A5B6avg,38A5C9dhv,38A659b9l,38A6CEazx,38A7462bf,38A851a6u,38A86B9cy,38A89B4lk,38A8CD5zq,38A91C8vr,38A95Fpw,38A9EA5f1,38AA092s3,38AA20f94,38AA3Caol,38AB168ms,38AB41d7u,38AC3D8sc,38ACDDdu0,38AD2B5qz,38AD8E8vr,38ADBE8vr,38AF29et2,38AFD08vl,38AFD74j0,38B12Dcb0,38B14E5zq,38B19E5zq,38B1DB5rz,38B3F75ty,38B4D31kr,38B54D14o,38B5BD3sb,38B5C962h,38B5D3be7,38B725edg,38B74D4m0,38B800e5t,38B8EB5zq,38B9AF8oc,38BAB020l,38BAF86gz,38BB239eb,38BB3C1cm,38BC015gu,38BC1A7q5,38BC61cea,38BD7A5on,38BEAB10d,38BF2F4b7,38BF338gf,38C096ca,38C0EA4ou,38C22D848,38C2BA250,38C43A14o,38C4E88n4,38C6BDejs,38C6CE8yt,38C70Aear,38C7BA2fp,38C8045ub,38C85C2s2,38C98614o,38C9A9b0b,38C9B1f94,38CA73buz,38CA845gc,38CA972yk,38CADA14o,38CD071p4,38D09C5gu,38D135420,38D269d7u,38D2CAetj,38D40Bba7,38D518568,38D547jj,38D57A296,38D6207h9,38D6E0cur,38D7CA2b,38D82Ff94,38D9A5888,38DBBBcgx,38DE354zo,38DE608bk,38DEAD6gz,38E054bek,38E08E8a6,38E13D14o,38E1584mz,38E1AAf94,38E1F4b9l,38E26Ebnu,38E2C4d7u,38E2CA70f,38E2DDf94,38E39F8cw,38E3C5cz2,38E5634zc,38E595auq,38E60Aejs,38E7C05ub,38E7D85gr,38E8DFewk,38E8EE8pr,38E98Cah3,38EAA75om,38EB475gu,38EC078cw,38EC0D14o,38EC11917,38ECE4ba7,38ED182s3,38EE9D12o,38EFE362e,38F098dv7,38F0BB2wr,38F0C87jt,38F135bgr,38F18Fd1h,38F1955gu,38F20D6tm,38F23E87n,38F25D5k1,38F32Ec6u,38F33Fcnk,38F3AB77z,38F3FB18r,38F4066sn,38F45E5bo,38F5545en,38F5576of,38F597f0s,38F601c9z,38F6CFf94,38F6ED40n,38F7088qp,38F73D10n,38F7B2as9,38F7CD5zq,38F7F15ty,38F85E5h8,38F8895gu,38F8B7dpl,38F8CA97a,38F8F6rx,38F9D314o,38F9F550u,38FACAc7d,38FB145gu,38FBA0bp8,38FC345ty,38FC986gz,38FDF5aie,38FDF82s3,38FDFE5zq,38FEC545o,38FF136t1,38FF36alx,38FF593ix,3C01EFcb5,3C02686cl,3C02B131i,3C04612vw,3C04BF9jp,3C0518ba7,3C058E5gu,3C05ABa0d,3C063014o,3C06641qc,3C06A7cvj,3C075414o,3C0771cb5,3C07D714o,3C081E1sh,3C08689xr,3C08CD6tm,3C08F62s3,3C096D9y9,3C0A7Aba7,3C0AF3296,3C0B4F6j8,3C0B59dhv,3C0C48bi0,3C0C7Ddbg,3C0CDBdjz,3C0D2C7i8,3C0E232s3,3C0F024ba,3C0FC16v5,3C1040exw,3C10604lk,3C106Fb5,3C10E69hc,3C11B24pp,3C135Aejs,3C136733l,3C13BB5gu,3C13CC2s3,3C1512bt0,3C155A8zj,3C15C214o,3C15EAcrx,3C15FB5gu,3C1640a4q,3C1710b9l,3C189F8zj,3C18A07ly,3C19154vn,3C195Eba7,3C197D4at,3C19CBcpb,3C1A0F2ss,3C1A572jr,3C1A658zj,3C1A795u1,3C1A9Ee0e,3C1ACCa6l,3C1BF85k5,3C1CBE6m9,3C1E04351,3C1E135cc,3C1EB514o,3C20934u3,3C20F6ba7,3C219C6gz,3C227Fa6l,3C22FB14o,3C240A5ty,3C24F05zq,3C25D78zj,3C25F83ix,3C26D5cbh,3C26E42s3,3C2763b02,3C286D56h,3C28A6bi,3C2983ba7,3C2AB3d4h,3C2AF420x,3C2C303ix,3C2C94f98,3C2C9943b,3C2CA61s9,3C2D9Eduy,3C2DB7d7u,3C2EF5c4v,3C2EF914o,3C2EFF14o,3C2F3Aasy,3C300C3k8,3C306F5gu,3C317456h,3C3178a57,3C318Aba7,3C32B94zc,3C3300au3,3C333234z,3C346414o,3C35562uk,3C3558296,3C3576687,3C363D8zj,3C366A5gu,3C36E42vw,3C3712me,3C37868hv,3C381F5ty,3C3824ejs,3C38882xv,3C38F4cb5,3C39A8bxv,3C39C36pn,3C39C814o,3C39E75zq,3C3A731cm,3C3B4Dddt,3C3B7714o,3C3B99687,3C3BAD27h,3C3F51l,3C40156,3C404F4zd,3C410E2s3,3C427E5zq,3C438E2vw,3C450Bbh7,3C457Aazx,3C4645bk3,3C46A1alx,3C46D8cvj,3C47115gu,3C479Bd93,3C4937j4,3C49FFdk0,3C4A925om,3C4AC95ty,3C4C696d3,3C4CD026f,3C4DBE14o,3C4E474bw,3C4E56au8,3C500214o,3C510E2s3,3C52825om,3C52A1cvk,3C53D725f,3C54475gu,3C5576296,3C55DBbx6,3C566E6d5,3C57312s3,3C574F2pi,3C5765dk0,3C576Cba7,3C57BD71b,3C57D54mx,3C5836b9l,3C585Db9l,3C58C26gz,3C591Ecnx,3C59C05gu,3C5A37ba7,3C5AB456h,3C5CC3brg,3C5CC410n,3C5CF1ezk,3C5D29etj,3C5EC32s3,3C5F01ckg,3C61046tm,3C61054ba,3C6200ba7,3C6278av3,3C62F0bhm,3C64CFcvk,3C65D15gu,3C67167h7,3C672Cbda,3C678C5gu,3C6816dtp,3C69D172,3C6A2C5zq,3C6A48cvj,3C6A7D8y0,3C6A9D3kb,3C6AA76gz,3C6AD2cvk,3C6D668o2,3C6D8914o,3C6E638a4,3C6F454ll,3C6F9Bf94,3C6FEA9o6,3C6FF747q,3C70597z2,3C714B5h9,3C71BF4ba,3C7437aay,3C754A2vw,3C75DE4zc,3C7625f94,3C77875ty,3C77E65rz,3C78435gu,3C7873w0,3C7895cvk,3C792B3os,3C7A8A2vw,3C7AAA2p5,3C7AC42nx,3C7AF0687,3C7C3Fjj,3C7D0A14o,3C7DB1d7u,3C7F6Eejs,3C7F6Fd3c,3C806B5v4,3C80AAaf9,3C81296e3,3C81D8b9l,3C82C0dv4,3C831E28s,3C837587m,3C83B5s4,3C84274ba,3C846Acvj,3C869A5gu,3C86A8bb1,3C86D1f8g,3C87CFa5w,3C894D3pr,3C89708s4,3C8994azx,3C89A66um,3C8A1F4ba,3C8AB06tm,3C8AE5d6b,3C8B6E848,3C8B7F2s3,3C8BCDxf,3C8BFEba7,3C8C405k3,3C8C936tm,3C8CF8cwc,3C8D2056h,3C8F06buf,3C9066c82,3C90E05gu,3C912Bdxa,3C9157eoj,3C9174c3,3C91807ik,3C92DC989,3C93F45gu,3C94D56tm,3C94FD89v,3C95097ik,3C970Eedf,3C9722f6w,3C977E661,3C9872bhm,3C98BFa6m,3C996D807,3C998C5tf,3C99F77d8,3C9A77dv4,3C9BC65ty,3C9BD6e17,3C9C0F6gz,3C9D565gu,3C9EC7azx,3C9F81bpk,3C9FC31rd,3C9FCDbvc,3CA00Ebx6,3CA0677ik,3CA0701we,3CA10Dba7,3CA1615gu,3CA2393a2,3CA2C3f8g,3CA308d7u,3CA3151wc,3CA31A98j,3CA348f8g,3CA37E5gu,3CA581f8g,3CA616f8g,3CA62Fme,3CA6F614o,3CA72B7wa,3CA7AEf94,3CA80Af8g,3CA82A5om,3CA8EDf74,3CA9165ty,3CA9AB8yt,3CA9F46gz,3CAA3Ff1l,3CAB728pg,3CAB8E14o,3CAE693yu,3CAFB7ejs,3CB07E16t,3CB0ED90q,3CB15B1cm,3CB17Fe7e,3CB2335ty,3CB43Db8u,3CB53D5hd,3CB6B7f8g,3CB6E75je,3CB72B9iq,3CB74Bdv4,3CB7925qn,3CB87A9zs,3CB8D61x5,3CB9225gu,3CB9A61sy,3CBB73bzr,3CBBFDba7,3CBCD0f94,3CBD143kq,3CBD3E1s9,3CBD698zn,3CBDC515q,3CBDD8795,3CBE8E5aj,3CBEE18kp,3CBF6014o,3CBFD714o,3CC03E5gu,3CC079bvl,3CC0C6exp,3CC12C96,3CC1F6844,3CC2438zj,3CC2E1ehe,3CC5C75gu,3CC5DD5ub,3CC683c2p,3CC7863d0,3CC801bxi,3CC99E5uf,3CCA61cpb,3CCA8769q,3CCB011qd,3CCB4D1cx,3CCB7Cco5,3CCD3614o,3CCD4014o,3CCD571sa,3CCD5Ad1k,3CCD5D5gu,3CCD738rh,3CCD93795,3CCE0Dc0t,3CCE1584f,3CCE732s3,3CCF5B5y6,3CCFB4d4y,3CD0F814o,3CD16Ed4c,3CD1C958l,3CD2E58vr,3CD35C7lk,3CD4D6ed3,3CD7DAazg,3CD92B5om,3CD9CE42o,3CDA2Af94,3CDA6Ddaa,3CDC035zq,3CDC754ba,3CDCBCba7,3CDD5714o,3CDD89b24,3CDF1E2s3,3CDFA92vw,3CDFBD5gu,3CE002d7u,3CE038996,3CE064d7u,3CE07214o,3CE1A1do8,3CE36Bet2,3CE3E72pi,3CE44110n,3CE4B0d7u,3CE5A65k3,3CE5B46w8,3CE624794,3CE8245gu,3CE86E5on,3CE90E4ba,3CE9F76gz,3CEA4Fr,3CEAF96p9,3CEAFB8mz,3CECDE4it,3CECEFcho,3CEF42co5,3CEF8Cet2,3CEFA5296,3CF0116gz,3CF08315q,3CF3415t3,3CF392dzg,3CF4F98b8,3CF52C3e3,3CF5914zc,3CF5CC8vr,3CF652f94,3CF6925ty,3CF72A8zj,3CF748bul,3CF75Devs,3CF7A4ba7,3CF7D193x,3CF8085gu,3CF8626gz,3CF9F0f94,3CFA0687m,3CFA309nf,3CFA435gu,3CFA805gu,3CFAD35zq,3CFB0214o,3CFB5C4lk,3CFB9646v,3CFDFE6gz,3CFEAC2s3,3CFFD85gu,3CFFE4c37,4000E03jp,40010716c,40017A2s3,4001C617,4003268o9,40040C2z,400589clx,4006345ty,4006A0d7u,4006D52s3,4007C0aeu,400877ejs,400AE71kr,400D102vw,400E67dfg,400E85aom,400EB95gu,400EF3f94,400FC1dv4,4010ED4sz,4011755zq,4011C3ba7,4011DCcai,40127787m,4012E42wg,4013D954x,4014822s3,4014AD5ty,401597a17,40163Bba7,40167Ejj,40169Fcvj,4016FA3uw,4017E263f,4017F6ctk,4018B14e3,4018D7c8h,4019208d7,401A58e5t,401B5Fe3v,401C836gz,401CD45ty,401D591v2,402230bxm,4022D84ba,4022ED3m9,40234327q,4024B2c2p,4024D25ty,4025085pb,4025C26gz,40261914o,4026415gu,40268Ebvp,40270B8aw,4027A82s1,402814aaf,402A6Cet9,402A8Fbjv,402B502vw,402B6975h,402BA1cb5,402C765zq,402CF4do8,402E28863,402E71d7u,402F51822,402F8679b,40300414o,403059c4v,4030672xs,40311B51q,40313Ceh9,40329Ddne,403306cz2,40331A14o,40336C55z,4035E6ba7,4036683rn,4036B76tm,4037AD7xr,403802c4v,403B7B5ty,403CFC14o,403DEC5h8,403E22e2h,403F434e3,403F8Ccvj,404022eq8,404028eq8,40406B69f,40406C69f,4040A7cb5,404101al1,40410D5gu,4042297dz,4042442s3,4044CE5gu,4044F78yt,4044FDagu,4045A0f8g,4045C45gu,4045DAcdd,40475Eezk,40476A194,40486E8zq,4048FD5zq,40490F5rz,40497Cezk,40498Ack5,404A03evs,404A18ri,404AD4ebb,404C772vw,404CCA4ba,404D7F14o,404D8E5gu,404E365gr,404EEB5p9,404F425gu,4050B5bvg,4050E088r,40516C573,40520D9ts,40538C797,405493f94,4054E4e8c,4055392s3,405548a6l,4055828zj,40560C6b0,40562Dc8g,4056625ba,405846f8g,4058997jw,405925705,405A9Bes,405ADDq5,405B7F20l,405BD827q,405CFD3ix,405D828hv,405ECF4b4,405EE1bsa,405EF6ba7,405F7Dco5,405FBEaay,405FC2d7u,40605A5mk,4061867ry,40618Eceo,4062314vx,406234d4y,4062B6d33,4062EA2pi,4062EE2p1,4064A4csi,4064DCegd,4065A3b9l,40667Af4o,4067685ty,40679Bbx6,406826d84,4068F9bxm,4069183wg,406A8E5km,406AABaay,406C8F14o,406E0Fazy,406F275gu,406F2A1w6,4070092vw,40704A9xm,4070747gi,4070A5c2w,4070F514o,4071836tm,407218dcj,40734D8vr,407496evu,4074E06gz,4075C3dv4,4076A95ty,4077A98vr,40786A8cw,40787560q,40791114o,407912d7u,4079553hb,407A808zj,407AA4eps,407B1B85y,407C7D8zj,407D0F5gu,407F5F6tm,407FE055l,4080E14h8,408256l2,40827Bb5d,40831D14o,4083DEeri,40843286z,4084932sm,408556l6,40862E6na,4086CB34z,4087E5eey,4088058cw,40882F4e3,4088E01p2,4089A8ecq,4089C214o,4089C610n,408A9Actf,408B07q7,408BF6bxr,408C1F4zc,408C4Cbuz,408D5C4w0,408E2C87m,408EDF5ty,408EF66d5,408F9A700,408F9D6tm,4091514ba,40921A14o,409249bj3,40950562,409558w9,409595cvk,4095BD8nn,4097D11im,40984C2kf,40984Ed7u,40987Bw9,4098AD14o,4099221er,4099E35a8,4099F6d50,409A30cpb,409B0Dc0b,409B218zj,409BCD351,409C2814o,409CA633c,409CA727h,409EA46tm,409F381er,409F876si,409FC71fg,40A1088cs,40A2DB10n,40A2E51t,40A3CC6gz,40A44A56h,40A53B8zj,40A5EFbrl,40A63Dc4f,40A6545gu,40A6776tm,40A6A49py,40A6B76gz,40A6D914o,40A6E82s3,40A786cpb,40A8F05om,40A93F9us,40A9CF10n,40AA562p5,40AC8D3gv,40ACBF5k5,40AE30cvk,40B02F887,40B0345om,40B076jj,40B0A1dpq,40B0FA798,40B15C5gu,40B2154e3,40B2C890b,40B30E6gq,40B31Edo6,40B39514o,40B3CD2q8,40B3FA14o,40B3FC7jr,40B4CD10n,40B4F06tm,40B5705k5,40B5C12s3,40B6074zc,40B68878i,40B6B1b66,40B6E75ty,40B70E5ty,40B7F32vw,40B7FC9tc,40B82Dalx,40B837cb5,40B89A5rz,40B8C296s,40B93C5on,40BA093ix,40BA61ha,40BB56d6m,40BC6014o,40BC684rw,40BC73329,40BC8Bf3r,40BD32d7u,40BD9E9tg,40BEEEc0c,40BF173la,40C02Fq7,40C0EE13,40C1F6btn,40C245bsm,40C2BA2bf,40C3BC5ty,40C3C6c8s,40C48C8ei,40C4D62qc,40C62Abk8,40C71114o,40C729b9l,40C73C6gz,40C7C98r4,40C81Fbzr,40C8CBct,40CA63bhb,40CBA85gu,40CBC014o,40CD3Aeoz,40CD7Aa4t,40CE242s3,40D1336gz,40D16014o,40D25F687,40D28A8yt,40D32D14o,40D3576l8,40D3AEba7,40D40E1uz,40D4BDazh,40D4F65sy,40D52179b,40D5597ru,40D5635c6,40D63C4aj,40D8555zq,40D95Adt,40DA5C14o,40DC9D5bu,40DCA55ty,40DDD11np,40DE17bu8,40DE24ba7,40DEAD6tm,40DF0279v,40E11Cf6h,40E1716rv,40E1E48zq,40E2301er,40E3174e3,40E3D65on,40E4C68zj,40E64B14o,40E73039w,40E7622i5,40E793bx4,40E99Baom,40EACE4hw,40EB215gu,40EC996gz,40ECBD6gz,40ECF8c37,40ED00cvk,40ED7Bevb,40ED985zq,40EDCF14o,40EE15eux,40EE6D5gu,40EEBE8o9,40EEDD5gu,40EF4C4lz,40F02F7ik,40F04E6gq,40F0782s3,40F14C67a,40F201b9l,40F21Ceu0,40F2E95xb,40F3088dt,40F3855zq,40F3B0d7u,40F4078yt,40F413alv,40F420c2w,40F49F2s3,40F4C94h8,40F4EC2s3,40F4FDdjz,40F5204ba,40F52E7et,40F6BC10n,40F8DF23n,40F94614o,40F9D5d2j,40FA7F9yy,40FAFE8cw,40FC892vw,40FDF3dt,40FE0D7or,40FE958vr,40FF4055j,44001014o,44004910n,44004D5gu,4401BBau3,44032C6gz,4403775zq,4403A72s3,4404444zc,44053Fb9l,4405B85ty,4405E8f80,44070B56h,4409B8b9t,4409C65gu,4409DA14o,440BAB9x8,440C4B5gu,440CEEakg,440CFD8ta,440FB44yq,44103056h,4410FE5uk,4411023tt,441146d8b,4411C2d3w,4412445on,441319e5q,4413D0f94,441404ezk,4414411ar,441524b9l,44162287m,441690efu,4416FAba7,4417934ba,4418475he,44184F4mv,4418FD14o,4419B65k5,441A4Cf8w,441A5C2s3,441A84a6l,441AAC450,441AFA8vr,441B8814o,441BF64ba,441C12dv4,441C7F8cw,441CA85rz,441D644ba,441DB1gh,441DE5egs,441E91hy,441E98alx,441EA15om,442063l2,44227C5gu,4422952pk,4422BEf61,4422F1an6,44237C1sa,4423AA4kg,442538e5t,4425BB1m9,44272E5ty,44274579b,4427F329,4428A36s9,44291E10d,4429388xu,442A6014o,442AFF3sh,442B032s3,442C05dt,442D494e3,44303F5gu,4431925om,44321D5gu,44322A1cm,443262f94,4432C24xk,4432C8dv4,44334Cau3,44348F7xb,4434A72vw,44356F8tt,44358314o,4435B98t0,4435D34u3,443659ake,44365Dbsp,4437087wb,44370B5aj,443719e,44376Feo5,4437E65rz,443839333,44388Ccgg,4438E86gz,4438F33wg,4439AA4sz,4439C4do8,443B148a3,443B326h3,443C884fy,443C9C9ug,443D21924,443D5410n,443E0744n,443E8Ad7u,443EB2397,4441F0f94,44420110n,44422Fcs1,4444509dk,4445203wg,44456Favl,4445BA43a,4446485s0,444687agv,4447CC5k5,4448915db,4448B98a3,4448C15on,4448FFa4q,444963ees,4449886gz,4449C08o2,444A37ejs,444A4Cf8g,444A65c5c,444AB0etd,444AD6bw5,444ADB14o,444B5D4ud,444B7E4lk,444C0C14o,444CA816e,444E1Aba7,444E6Dme,444F5E9nk,444F8Eeb0,4451DBag6,4454C0d9r,44552Bba7,4455B15gu,4455C45ty,44568D9iz,4456B7ccj,4456E2c2w,44579F1sa,4458292s2,445925cdh,445943f94,44599F327,4459E35gu,445ADF7t6,445BED5on,445CE9ba7,445D5Eauc,445E82evs,445ECDaga,445EF3dce,445F7Ac1b,445F8C6id,446132ezi,44619C4he,4461DFc79,4462462v9,44637077z,4463B614o,4463C2evs,44643C2s3,44650D10n,44656A83l,44657F2i5,44658A3qu,4465E084t,44666E65l,446690cvj,4466FC4zc,4467475gu,446752edd,4467559cs,44680Ce6j,4468AB6pb,446A2E5gu,446AB72vw,446B1Fd7u,446C24agr,446D058zf,446D577ik,446D6Cba7,446D7F10n,446EE55gu,446FD85zq,446FF83rl,44700B5zx,4470987tl,4471471s9,4471B37jw,4472AC10d,4473D67jt,44746Ccb5,4476098vr,4476545gu,4476E7cpb,4478315gu,44783Eba7,447B304ba,447B4510n,447BBBbzz,447BC43qn,447C7F6es,447CAC6kc,447DA5dte,447E76dfc,447E95zh,447F772xx,4480EB8cw,4482E55gu,448312ce0,448346d7u,4485006gz,448502bxm,4485DAbx6,4486C1c3p,4487235gb,4487634h8,4487DBdi4,4487FC45j,4488162s3,4488BEd7u,4488CB2ir,44896Dcqx,448A5B86o,448A7F8dt,448C00agu,448C526ye,448CAB1p5,448CEC132,448DBFaj8,448DD52s3,448E123e7,448E81drb,448EEC2pi,448F17ba8,4490465sy,4490BA27h,4490BB14o,4491608dt,44917C5f4,4491DBbjy,44938D6et,4494FC8hv,44953Babh,4495FAa4y,44962Buq,44975Aaui,44995B4zw,449A52f94,449B78d8o,449BC15gu,449BC63y2,449CB5xi,449E8B14o,449EF9f8g,449F465ty,449F79f5r,449F7F3h2,449FDAc4v,44A0385ty,44A10E14o,44A1915gu,44A3BB6gz,44A3C7f94,44A42Dco5,44A4664yk,44A54Ea5a,44A56E8hv,44A61E62h,44A6425k5,44A6899kv,44A6E5csu,44A7CF8dt,44A7F414o,44A8423ix,44A8C2asr,44A8FC14o,44A92C5zq,44AA27f88,44AA506tm,44AAE88q2,44AAF52vw,44AC85ezk,44AD19ehd,44ADB1b9l,44ADD92s3,44AE252s3,44AE445ty,44AEAB4zc,44AF286gz,44B1764ba,44B295c2p,44B32Dcvj,44B38275b,44B3C55ty,44B412azb,44B4235cj,44B433f7v,44B4624nk,44B4A0848,44B4B210n,44B59Cd65,44B6BE2s3,44B7D086z,44B9943pl,44BA46c2w,44BB3B56h,44BD8D4ba,44BDC8ejs,44BDDE1hu,44BE0B5gu,44BE239gg,44BFE3bun,44C15Cd7u,44C20C2s3,44C23359w,44C306ay6,44C3465gu,44C39B94j,44C3B65gu,44C4A99bt,44C5325gu,44C56F8k4,44C63Cba7,44C65D14o,44C69Bef2,44C7FC5ty,44C8742pi,44C9A257y,44CB8B79b,44CBADejs,44CC6Eal1,44CD0E4gq,44CE1D8zj,44CE3A6rt,44CE7Dasz,44D15Ebkf,44D1FAc0d,44D244bf2,44D267c8v,44D2CA13s,44D3ADbxt,44D3CA2s3,44D4376hx,44D453b9l,44D454b9l,44D4658oc,44D47F62e,44D4E0cb5,44D506c2w,44D5A5rb,44D5C13wg,44D5CC10n,44D5F25zq,44D63Dczq,44D6E1c8x,44D77Eake,44D7915gu,44D7B7ezk,44D8321er,44D8785ub,44D88414o,44D98040i,44D9E7dlp,44DA3014o,44DB608oy,44DBBE5gu,44DBD2elp,44DC4E687,44DC919if,44DCCBas0,44DF651sa,44E08E2s2,44E1372vw,44E2131sa,44E2F18w1,44E2F8c4v,44E49A93u,44E4D92s3,44E4E64e3,44E4EEe5t,44E5176gz,44E59B5gu,44E64Ac0q,44E66E14o,44E6B02pj,44E7616d5,44E85314o,44E8A58ec,44E9685gu,44E9DDb9l,44EA30ba7,44EA4Bqf,44EA54div,44EAD8d7u,44EB2Eca,44ECCE6tm,44ED577k9,44EE027wr,44EE14d7u,44EE3021b,44EF26a4x,44EFBF2p5,44EFCFdiz,44F034706,44F09E14o,44F21B14o,44F436f94,44F459ba7,44F4776tm,44F4E72uq,44F53E41o,44F7701sa,44F79F296,44F849dnf,44F971avh,44FA66296,44FB4214o,44FB5Af94,44FB76f8g,44FDA34d2,44FE3B15q,44FEEF4zc,44FFBAf94,4800205on,4800315gu,480033dv4,48007D3eb,4800B32s3,4801C599u,48022A1f4,4802345gu,480286agu,4802AFd52,48036239f,48049F3v7,480560856,4805E25ty,48062B9zs,48066Ad5t,4808EB5zq,4809515ao,480A2814o,480BB25zq,480C498ew,480E13f3u,480EECcvj,480FCF5om,4810638nk,4812497lw,4812585gu,48128F5gu,48137Eba7,481389848,4813F31g3,4816937ef,48174C86u,481842bm1,48188De3v,4818FA8zi,481A849wf,481B40dv4,481BA42s3,481BD26jq,481CB9b8r,481D702s2,481F2Dbtj,481F662pi,48210B9gg,48216C2pj,4821B85ar,482218c08,482254cvk,4823353kk,4825679wq,4825F35ty,48262C14o,48264C1kq,4826E8d2q,4827597fx,4827C55gu,4827E24ba,4827EAba7,48282Ff94,482952b9l,4829D64zc,4829E4f1,482AE3edf,482CA0ejs,482CD05gu,482CEA8cu,482D63e7g,482E722s3,482F6B5on,482FD75gu,4831068o2,483133akf,4831778yt,4831B74ba,4831DB5ty,4833DDeph,48343D5zt,48352B14o,48352Ebzg,4835434zc,4835845ty,4835AB14o,48365Fecj,4838715ty,4838B61b8,483974a1k,483A024ou,483B3814o,483C0C5gu,483D32ckw,483E5Easj,483F72ba7,483FDA4ba,483FE95gu,4840D56gz,48417B8zq,48435A5gu,48437C14o,4843DD10n,4844872s2,4844F7ba7,4845206gz,4845CF7am,4845E6296,48468Desd,4846C14h8,4846F1dp0,4846FB5gu,48474B5ty,4849825ty,4849965ty,4849C7ba7,484A30537,484AE95on,484BAA14o,484BD4dv4,484C295gu,484C865ty,484D7E3ix,484EFC2vw,48507387m,485169ba7,4851B76gz,4851C56gz,4851CF6h3,4851D06s3,485261b2k,4854158hb,4855194ba,4855416l7,48555Ceey,48555Ebx6,48555F4lk,4857025gu,4857D220l,4857DD4js,485929798,4859A4f94,485A0D6tm,485A3Fe5j,485A67bid,485AB65rz,485AEA4lk,485B39jj,485C2C41o,485D35me,485D36dwn,485D601er,485DEB6tt,485DEDc2w,485E0E5zq,485F08cvj,485F2D10n,485F992t6,485FDFf94,48605F798,4860BC14o,4861A32xh,4861EEba7,48626416k,4862765gu,4863455ty,4865EE5zq,486834c4x,48684A6gz,486B2C1g3,486B914n7,486DBBdx9,486E70etj,486E739tm,486EFB3i4,486F336zh,486FD2cf8,48701Ed7u,48706F5gu,487119at2,4873106tm,4873978vr,4873CBdb0,4874102s3,48741299u,48746E14o,4875836hr,4876049zs,4876965to,4877068o9,4877462i5,4877BD4zc,48785B5k5,48785E10n,48794Dba7,487A55bi,487ADA5k3,487AF68g0,487AFF3ze,487B2F87m,487B5Eb0w,487B6B5gu,487D2Ecvj,487E4841o,487F804id,4880022s3,48814E3ro,4881D4am3,4882447gg,4882DF5ty,4882F214n,48836F3wg,4883B44zc,4883C7b9l,48849Dd7u,4886E887m,48872Datp,488759ejs,488764f8g,4887B8cny,4888037ze,48881E4bs,488899bxm,4888CA8cs,4889E76gz,488AD27qi,488AE8f8g,488B0A2s3,488C635ty,488C78zc,488D3615q,488E423aq,488EB7eri,488EEF5gu,488F4Cf6v,488F5A88b,48902F798,4890F03ix,489153e8v,4891D52s3,4891F6bw3,4892C1936,4893DCdkk,4895074zc,4896D9f94,4898ABede,4898CAc2p,489A42d24,489A58ba7,489A5Bc0q,489BD54e3,489BE0agu,489BE2aq9,489D184n4,489D241w6,489D314ba,489DD1ba7,489E9D5ub,489EBD5gc,489ECB5on,48A0F84lk,48A1702s3,48A19514o,48A22Dbt2,48A2B773m,48A2B82on,48A2E6ais,48A38054k,48A3BDd7u,48A4726gz,48A48Cbmd,48A493cmx,48A4FD10d,48A5165ty,48A5E78yt,48A6B8caz,48A6D24we,48A73Cc30,48A74Ef94,48A91C14o,48A964fj,48A98A88b,48A9D2e5t,48AA5Dcfd,48AABBb9l,48AD085gu,48AD9A6gz,48AFF34ba,48B02D8o2,48B25380d,48B25D5gu,48B31369r,48B42310n,48B424ezk,48B4C35on,48B5A755k,48B620ac7,48B8A314o,48B8DE5fl,48B977a25,48B9C2d4i,48BA4E5om,48BC0Ec2p,48BCA6f97,48BCE1ba7,48BD0Ea5z,48BD3D8vr,48BD4A5gu,48BDA75sy,48BDCEdv4,48BE2Dcjm,48BF6B14o,48BF741lw,48C03073p,48C049209,48C093ek3,48C1AC9ig,48C1EE5sy,48C35A78r,48C381cvk,48C3B09s0,48C4614zc,48C58D7ef,48C6634z7,48C796ba7,48C862c5h,48C8B6ckv,48CA434ba,48CA6814o,48CAC6djz,48CB6E2ls,48CDD35gu,48CFA95gu,48D017d3g,48D01C10d,48D0CFdo6,48D18E85o,48D2247ik,48D24Fb9l,48D3432vw,48D35D9zs,48D4757cx,48D5395gu,48D54C6qx,48D682f94,48D6D556h,48D70514o,48D7FF1iq,48D845bus,48D855d5n,48D8752ps,48D8904h8,48D8FE2sg,48DA355zq,48DA9642z,48DB505gu,48DC2D5gu,48DC9D575,48DCFB8zj,48DD0Cezk,48DD9D687,48DF1Cefe,48DF375on,48E1506gz,48E15C14o,48E1AFe0o,48E1CA14o,48E1E92oi,48E2445rz,48E27Eb9l,48E2AD5h9,48E3C36ng,48E533ch9,48E6635zq,48E6956g0,48E6C0ayo,48E6C65zq,48E7294ba,48E7DA1er,48E9CAexk,48E9F114o,48EA625gc,48EA63etk,48EAA9bn3,48EB303zr,48EB628dt,48EB655o3,48EC5B8zq,48ED80exv,48EDE6evs,48EE07c56,48EE0C351,48EE86dl8,48EEE2abq,48EF1Cba7,48EF615ty,48F0272ov,48F07Bca,48F17F6gz,48F1EB8yt,48F230dlx,48F3179zs,48F3F31lx,48F47Dd11,48F6EE4ba,48F73C3v7,48F7BC5gu,48F7C0dv4,48F7F18zj,48F8B32s4,48F8DB5gu,48F8E18zj,48F8FF277,48F9257y2,48F97C4lk,48FC075ty,48FC7Cbt3,48FCB677x,48FCB8ee5,48FD8E5gu,48FDA3ejs,48FEEA5fi,4C00822s3,4C0143ezk,4C01F72s3,4C0220ejs,4C022E29q,4C028978z,4C034F6gz,4C05737va,4C0617cz2,4C068A1mx,4C06B79zv,4C07C92by,4C099716e,4C09B4f94,4C09D415q,4C09FA4if,4C0A3D7p,4C0A4E4e3,4C0B3Aco5,4C0BBE87m,4C0DEE6m5,4C0F3E6gz,4C0F6E5rz,4C0FC741o,4C10D5cvj,4C11548b5,4C1159dzp,4C11AE4ba,4C11BFet2,4C12652vw,4C12E8dr8,4C136547g,4C14808m3,4C14A3co1,4C1694f6u,4C16F1f94,4C16FC6tm,4C174410n,4C17EBb9l,4C189A4zc,4C195Db9l,4C1A3A9k1,4C1A3D4zc,4C1A95911,4C1B8615q,4C1D966gz,4C1F865k5,4C1FCC5gu,4C20B814o,4C21138zn,4C218C9o5,4C21D0cb5,4C2219emr,4C2258exj,4C22C9f94,4C22F315q,4C231A4e3,4C2338296,4C2498d7u,4C24CEc2p,4C25788zj,4C26E7e95,4C2B3B5ty,4C2C801rf,4C2C83eta,4C2E5Eba7,4C2EB414o,4C2EFEbq3,4C2F7B10d,4C2F9D5y4,4C2FD75ty,4C306A8yt,4C30895qr,4C312Dc2p,4C322Dcq8,4C327514o,4C32D97mi,4C3329cj2,4C334E5e9,4C34886gz,4C364E9nw,4C37DE10d,4C38D57tz,4C38D82vw,4C39095gf,4C39108wj,4C3946ba7,4C3B6C4tp,4C3B74dsi,4C3BDF87m,4C3C16ba7,4C3C8Fbtn,4C3CE25ty,4C3FA7f85,4C3FD3d7u,4C4088ap1,4C421E2s3,4C43412i5,4C43F6b8r,4C445B6gz,4C4553c4v,4C45762pl,4C46D15ar,4C48DA1ob,4C4929cny,4C494Ff94,4C4968am3,4C496C6gz,4C49E3ejs,4C4AB46tm,4C4B1F296,4C4B688ao,4C4BF95zq,4C4CD8f94,4C4D668p7,4C4E03co5,4C4E352s3,4C4FEE99u,4C50775ty,4C50DD5ub,4C50F14zc,4C52624rj,4C52ECb1r,4C5369en3,4C53FD10n,4C54277hh,4C548B2mi,4C54995gu,4C55855iy,4C55B2ejs,4C55B8dhr,4C55CCesa,4C569D14o,4C56DFd0h,4C5739ba7,4C57CA14o,4C5BB3c4v,4C5CDF687,4C5D3C2s3,4C5D6A14o,4C5DCD9ea,4C5E0C88b,4C5ED3dnl,4C5F706gz,4C5FD2xc,4C60AD10n,4C60BA10d,4C60D5ew0,4C60DE8hv,4C617E5ty,4C6255aoz,4C627Bc7y,4C62CD8zj,4C62DF5k5,4C6371ejs,4C63AD5ty,4C63EB14p,4C6460687,4C64D959e,4C65A85zq,4C6641aom,4C66A6ba7,4C6AF65f4,4C6BB85ub,4C6BE814o,4C6C136kh,4C6CA12q1,4C6D586tm,4C6E445zq,4C6E6E2w6,4C6F9C4zc,4C70CC1xj,4C710C2s3,4C710D2s3,4C71679w6,4C7274c13,4C72B99gg,4C734F6tm,4C736752p,4C73A56xx,4C74031k0,4C74877e6,4C74A75zq,4C74BF14o,4C75254ba,4C76253ix,4C7713aie,4C774F46m,4C7766avh,4C776D2s3,4C77CB6gz,4C78722l1,4C7897177,4C796E6gz,4C797514o,4C79BA6gz,4C7A488z2,4C7A882s3,4C7B35dk0,4C7C5F14o,4C7CD914o,4C7F628zj,4C804F16q,4C80936gz,4C80BAefl,4C80FB56h,4C8120cz2,4C8125eqm,4C820C14o,4C8237d4x,4C82A9296,4C82CF3nl,4C83DE2s2,4C83FEavh,4C858A1l4,4C875D1yh,4C889E5ty,4C8B30q7,4C8B5558n,4C8BEF5gu,4C8D535gu,4C8D7914o,4C8E19ejs,4C8ECCaym,4C8FA56qs,4C90DB6o0,4C910C7d6,4C91574qw,4C917A5zq,4C92D24zc,4C93A65zq,4C96146tm,4C962D4qc,4C968Ae6j,4C97A1c4v,4C97CC14o,4C98EFesc,4C9992f8g,4C99E8eps,4C9B6379b,4C9D225p,4C9E6C1kh,4C9E806zc,4C9EE45lt,4C9EFFevs,4C9FF114o,4CA003drz,4CA03D1yo,4CA0D4d4y,4CA161aev,4CA38Ff6v,4CA3A7cpb,4CA5151ly,4CA56Dba7,4CA64D2s3,4CA74Bx9,4CA919dhv,4CA9286fx,4CA9546gz,4CAA161eq,4CAB336y7,4CAB4F14o,4CABF3do6,4CABF8ip,4CABFCf94,4CAC0Af94,4CAD3514o,4CADA89f5,4CADDF34t,4CAE135gu,4CAE1Cb9n,4CAE31bo9,4CAEA35on,4CAEEC5az,4CB008bs9,4CB04A6gz,4CB0875gu,4CB0E81r3,4CB16C5gu,4CB19914o,4CB1CDalx,4CB21C821,4CB44A8f6,4CB4EA5gk,4CB76D91c,4CB7E0avh,4CB81Caod,4CB82C2in,4CB8B5bzz,4CB91014o,4CB911aez,4CB99Be3v,4CB9C82ct,4CB9EAf2a,4CBA7D51n,4CBAA31vf,4CBAD779b,4CBB478o2,4CBB582p1,4CBB6F6d5,4CBC42bsg,4CBC482s3,4CBC729zi,4CBC985zq,4CBCA5ba7,4CBCB44j,4CBCE979b,4CBD8F5k5,4CC00Af8g,4CC096bxm,4CC206cag,4CC3824ba,4CC44969h,4CC452biq,4CC53Eevs,4CC5D93ix,4CC602aeg,4CC64C1sa,4CC681bot,4CC7D64gq,4CC8447z0,4CC8A12s1,4CC94F8zj,4CC95Eba7,4CCA53c75,4CCA955ty,4CCBF5f94,4CCC348cx,4CCC6A86p,4CCDB614o,4CCE2D3g9,4CCF7C5gc,4CD01214o,4CD08A5h8,4CD0CB5gu,4CD0DD5gu,4CD0F92s3,4CD1A15gu,4CD2FBdk0,4CD3AF5f4,4CD4B18o9,4CD5465on,4CD57727q,4CD5875on,4CD6295gu,4CD637a5g,4CD7173ix,4CD73Abo4,4CD74Adv4,4CD7B65nv,4CD7C85ar,4CD98F3ix,4CD9C47ym,4CDA38d7u,4CDC0D2zl,4CDD31ba7,4CDD7D79f,4CDE485ty,4CDF3Dcol,4CE0DBejs,4CE1369zs,4CE1735zq,4CE1752s3,4CE1762s3,4CE19Ecpb,4CE1BBeuh,4CE20Fejs,4CE2F1dlz,4CE4B68cw,4CE5AEdac,4CE65014o,4CE65E5gu,4CE6761l4,4CE6C014o,4CE705c3n,4CE933aet,4CE9E48vr,4CEA415zq,4CEAAE4zc,4CEB426gz,4CEB768du,4CEBB0ba7,4CEBBD27q,4CEBD64ba,4CEC0F2s3,4CECEEba7,4CECEFcbc,4CEDDEip,4CEDFBjj,4CEEB0atn,4CEF56bxi,4CEFC010n,4CEFE13r8,4CF02Edyn,4CF19E58j,4CF202ejs,4CF2BF2il,4CF45B1wo,4CF4755ty,4CF55B5gu,4CF5A0bby,4CF5DC5k5,4CF737b9z,4CF95D5gu,4CFA9Abvz,4CFAC91lj,4CFACA2il,4CFB455gu,4CFBF49c0,4CFBFEbho,4CFC22at9,4CFCAAd7i,4CFE2E3on,4CFF124sm,500084c3h,50008C5sp,5000E02s3,5000E6848,50016B5gu,5001BBba7,5001D95gu,5002388zn,5002914ba,5003CF23n,500401d2x,5004B85gu,50053D33n,50056E4zc,5006042s3,5006AB2s3,5006F5al4,5007C310n,500959dv4,5009E53qc,500A525ue,500A9C4e3,500B235gu,500B265gu,500B324pe,500B888d8,500B915zq,500E5Ba6l,500E6Dde9,500F59b5e,500F802s3,500FC6f7b,500FF5d60,5011EBc59,50125Ccb5,50131D8cw,501365e1m,501395c2p,50139Dc3z,501408um,501479f2a,5014B5aji,5014C15gu,5016F48cw,5017FF2s3,50184C9vl,5019115zq,501AA54xd,501AC587m,501B32cz2,501B6Ab68,501CB02s3,501CBF2s3,501D935gu,501E2Dcfw,501FC614o,502065a6l,50206B2zf,5021EC5ty,5022679uz,5022C91sv,50236D8yt,5023A214o,50252B8u1,5026904j0,5026D2m8,5026EF8dt,5027A9ezk,5027C7cos,50284A6gz,5028735ty,50294D8f2,50297B2pi,5029F54zc,502A7Ec7u,502A8Bd3z,502B73d60,502B984b0,502CC64ye,502D1D8zj,502DA26gz,502DBB4u3,502DF49th,502DFB606,502E5C5gr,502E66296,502E911er,502ECE17p,502F54287,502F9B6gz,502FA82s3,502FBB8cw,5030F44de,5031234h8,5031AD4a,50323714o,50325Fc4v,503275ba7,50338Bd7u,5033F0elv,5037CDa6l,50382Fie,5038AB9la,50392F62h,5039552s2,503A0Fbt,503A7Dzj,503AA0avh,503B7014o,503CC47fd,503CCAcpb,503CEA4zc,503D7F8zn,503DA1ba7,503DC6ejs,503DD1cvk,503DE52s3,503DEBetj,503E7C7ep,503EAAcvj,503F505ty,503F56ckd,503F9829m,504035dv4,5040618zj,504074wx,50411Cdt,5041725gu,5041B95wn,504289f94,504348d9h,5043B998l,5044728cw,504594aei,5045F77iq,50464A5gu,50465Djj,5046AE7qh,50482C5zq,5048775sy,5048EB1gt,5049212s3,5049B0ba7,504A5E80w,504A6E8hv,504B5B2dg,504B9E5ty,504C7Ecse,504EDC9ub,504F3B1sa,504F947kt,50502A43m,505065cn0,5050A4ba7,5050CE5jz,50514F8tn,5051A9d7u,50523B8zj,5052D25kz,50547B8pg,505527798,50558D2pj,505663d7u,5056A86t2,5056BFba7,50578A14o,50579Cbf2,5057A82s3,505800eg3,50584Ff8k,50586F5ty,5058B05uz,5059676hy,505A651er,505AC64ze,505B1Dbpj,505BC27ik,505C882s3,505D7Af94,505DAC5gu,505E24f94,505E3A4u3,505E5Cb68,505FB5ip,506028ek3,50613Fezk,50617Ebuz,5061841cm,5061889ie,5061BF2s3,5061D66bz,5061F6do6,506245139,5062555zq,5063135rz,5063825gu,5063915gu,50642Beh9,50644157u,506583d7u,5065F35om,5066E55ty,5067879vb,5067AE2s3,5067E010b,5067F0evs,50680A5gu,5068AC5ty,50695Aul,506A038hv,506B4B848,506B8D922,506CBE6f0,506E926eo,506F0Cb9l,506F775gu,506F98bey,506F9Aeag,507043azx,5070972pi,5070E55mo,5071642s3,507224d7u,50724D1gk,5075F12vw,507691d2t,5076A642k,5076AF6gz,507705ba7,50787D4ba,5078B05ty,5078B3f94,50795B6ih,5079736bg,507A5514o,507AC514o,507B91c48,507B9D77z,507C6F6gz,507C905tt,507D021i3,507E5D15q,50804Aa6l,5081405gc,5082D514o,5084926gz,508569ba7,50857Cezk,50874D4zc,5087892s3,5087B8926,5088111sa,5088C7cz2,508965avh,5089D15ty,508A06dhv,508A0Faul,508A42dow,508A7F5gu,508ACBave,508BB9dhv,508C773bz,508CB1d7u,508CC9f94,508CF52pi,508D625gu,508D6F26s,508D9E5gu,508E49ejs,508F4Cejs,5091E3cvk,50926A1sa,5092B9ba7,50934F56u,5093CE5gu,5095465gu,5095512vw,509707ejl,5097446gq,509772e9y,509839ejs,5098716k9,509893d7u,5098B88vr,5098F3aj6,509903856,50995A10n,509A46b9a,509A4C3ix,509A885gu,509B94c0q,509EA7ba7,509F275gu,509F3B937,509FB9bx6,50A009ejs,50A015c08,50A0305zq,50A054py,50A0A48zj,50A0BFwy,50A132buz,50A1F35ty,50A4C8ba7,50A4D05zq,50A5DC2vw,50A67F14o,50A6D814o,50A6E33i0,50A715nz,50A72B5gu,50A733alx,50A83Aamj,50A9DEc88,50AB29de5,50AB3Ea4b,50ABBF5t4,50ACB95gu,50AD71d7k,50AD928o4,50ADD53ra,50AE867hr,50AF4Df94,50AF73bpc,50B03Bcb9,50B12714o,50B1403w7,50B3633my,50B3B4brq,50B69587i,50B7C3ba7,50B888f8o,50B8A26ab,50BA02a4x,50BA842s3,50BB9Fdv4,50BBB51er,50BC9614o,50BD5Fcvj,50C0062k6,50C0F017b,50C1F08o9,50C271ard,50C2754xb,50C2E8296,50C2ED4xb,50C3A2f56,50C4DD1l4,50C58D6tm,50C68E1vx,50C6AD4lk,50C7096tm,50C7BFcvj,50C8E5ba7,50C9714xd,50C9A0azr,50CCF8aol,50CD221cm,50CD328ov,50CE7582l,50CEE3542,50CF14a6l,50CF562pi,50D0653zl,50D06D1v9,50D1D7bt,50D21333j,50D274cel,50D2F51sa,50D33Bexd,50D37Feob,50D4489zs,50D45C10n,50D4F7cvj,50D59Cd7w,50D6D7czl,50D7532cs,50DA005k3,50DA9Eatu,50DAD6ejs,50DB3Fauq,50DCD097t,50DCE710n,50DCFC3tb,50DD4F1bw,50DE0614o,50DE195zq,50DE92f6w,50DF957md,50E039evs,50E0856gz,50E0995jh,50E0C7dhj,50E0EF8zj,50E0F94ui,50E14A9zs,50E24Ef94,50E4522q0,50E467ajt,50E478c2p,50E4E05on,50E5385k5,50E5494w0,50E636me,50E666by0,50E7A0aie,50E7B7f8g,50E9716sh,50E9DFa6l,50EAD614o,50EB1A20r,50EB716gz,50EBF6jj,50EC501sa,50ED3C14o,50ED782nd,50ED943uh,50EE325s0,50EE875gh,50EE9B10d,50EEB5d7u,50F0039an,50F0D3ba7,50F14Ad7u,50F2223wg,50F2619t5,50F26514o,50F35114o,50F43C7el,50F4EB14o,50F520ba7,50F5DA10n,50F61A75o,50F7222s3,50F7ED5ty,50F8A5eza,50F8AD8pg,50F908eds,50F9585ty,50FA84cvj,50FAAB76n,50FACB5zq,50FB1927m,50FBFF4pn,50FC30df7,50FC9Fba7,50FDD5azd,50FE0C1er,50FE391sa,50FEF2c41,50FF2070m,50FF995zq,54014A5aj,540237d5j,5402955gu,5403845sw,5403F53sx,540463287,54049654b,5404A6jj,540536e0r,54055Fx9,540583687,540593e5z,5405DB77z,54068B8yi,5407645ty,54077D8hv,54083B5zq,540853a4q,5408D3dan,5408F1aws,54091014o,5409296ka,540955f94,54098Dey2,540A774lk,540A8A6su,540BB6dvb,540DF95ty,540E2Df8g,540E584zc,540F2C16e,540F57c4v,54102E5gu,541031b0h,54104Fba7,54107B59b,5410EC86z,54112Fcge,541149f8g,5411598uo,54115F19i,5412CB5gu,5413105gu,5413795rz,54138F4v9,5413CA687,541473ec7,5414A78pg,5414E910d,5414F36gz,5414FD9cp,5415897pg,541651am3,5419C8f8g,541B5Dd1r,541D61elr,541DFB4q8,541E566tm,541F8Df94,541FCD4zc,541FD5t6,542018d5p,542097cxn,54211D5ty,54216010h,54219Dba7,5421A9687,5422595gu,5422E0rx,5422F8f94,5423695gu,5423E3am3,5425EA5gu,5426185gu,54263Dcb5,54269614o,54271E1er,5427227co,5427588cs,54276C6rs,54278D8o6,54290614o,542A1Bcaz,542A4314o,542A9C7br,542AA2zc,542B1C10n,542B578xw,542B76f94,542B8D14o,542BDE8vr,542CEA9l5,542F04bkm,542F2B5gu,542F894c2,542F8Acqx,543131afp,5431D4cs8,5432044ba,5432C714o,5433C689v,5433CB14o,5434EF5gu,5435305rz,5435DFcjq,5435E94ky,5436316gz,54369Bd,5437BBcz2,54396843c,54397658f,5439DF5gu,543AD6ba7,543ADFa5p,543B30eyf,543CEDb9l,543D37alx,543D6015q,543D92e5a,543E644lk,5440ADba7,544249cb5,5443B24ba,5444088zj,54443B5gu,5444A3ba7,544538d7u,544617f94,54466Bbpn,544741egt,544781a6l,5447CCb9l,5447D3cx7,5447E8cks,5448103ix,54489C253,5448E61sa,5449DF9qp,5449FCdlf,544A002s3,544A05f8m,544A16d7u,544B8C6tm,544C8A87m,544DD42pi,544E459zs,544E9014o,544EF0al4,54511B5gu,545146dj,5451DE2s3,5452845ty,5453EDcb5,5454143ma,5454CF9kh,5455D55ty,5456185ty,5459255gu,545AA64ba,545B869ns,545DD93tq,545EBD8lm,545FA76sg,545FA9d6p,54600956h,54606D5gu,546172eqc,5461EAerb,5462E214o,5464BC4zc,5464D9b9l,5464DEf81,546503a6l,5465DE2vw,54666Cbzz,5466F92xb,5467064zc,54674956h,5467512w9,5467E6avj,5469259lg,5469905gu,546AD8461,546C0Ed7u,546C508pg,546CAC6h3,546CEB6gz,546D52cuu,546F71f83,547068dth,5471DD5ty,54724F14o,54725Edjz,54726E3fi,54735A5ty,547370d8j,547398dds,5474E6e8n,547595cvj,5475D02s3,5476B2aez,54778741o,54778A5on,54781A2s3,547885auo,5478C9dt,5478F0f94,5479758zj,547A522ga,547AF41yo,547C692s3,547D409yf,547DCDd7u,547E1A706,547F5462d,547FA8cpv,547FBCf3i,547FEE2s3,5480285on,54808A9lt,54812D9fo,5481AD41m,54833Aevs,5483BB5s2,548450db0,54847B3lp,5484DCf94,5485C1c55,5486BC2s3,54880Eaom,5488D5f94,5488DE2s3,5488FEejt,548922ers,5489985gu,548ABA2s3,548C815k5,548CA07ik,548D5A6gz,5491AF5zq,5491E1e0f,5492095gu,54926A4u3,5492BEba7,549359awb,549478c5d,5496CBdt,54996314o,549A115zq,549A16dp6,549A4C4zb,549A8Fagu,549B12ba7,549B24848,549B498gl,549B724at,549C279ve,549D85487,549DEA4ba,549F068zn,549F1314o,549F353ix,549FAEf18,549FC62s3,54A04Ff7k,54A050jj,54A0AB7z1,54A10495i,54A2453l9,54A2742s3,54A31Bbuk,54A356139,54A3FA1k1,54A4935zq,54A51B5gu,54A54B8mx,54A552bz6,54A619xf,54A6375gu,54A65Cdv4,54A6DB5ty,54A703cvj,54A7A05hb,54A9C85rs,54A9D4897,54AB3Aa5w,54ACFC7ag,54AE2714o,54AEBC27h,54AED036i,54AED22fz,54AF97cvk,54B1215gu,54B2039gg,54B27Eb9l,54B29Dbzz,54B56Cej4,54B620b5x,54B7535uy,54B7BD15q,54B7E5ag4,54B802ba7,54B80A351,54B8744u3,54B8DB14o,54BAD65gu,54BAD96h3,54BB8F5i,54BD79ba7,54BE53f94,54BEF79gg,54BF643ix,54C0786d5,54C1D35an,54C2506l7,54C33E2ri,54C4155k5,54C45B15q,54C4805gu,54C57Ach9,54C6A65u5,54C6FF8vr,54C80Fcvj,54C8CCbwd,54C9DF4h8,54CD109o9,54CDA74r5,54CDEEbn2,54CE695pd,54CE82f94,54CF8D5gu,54D0B4eje,54D0EDn0,54D1637on,54D17Dba7,54D1B0doa,54D27291v,54D46F2s2,54D60D5k1,54D751a1s,54D7E35on,54D9C65ty,54D9E41k9,54DBA24lo,54DC1Deoj,54DCE9c4v,54DD215ty,54DD4Fba7,54DED0bi7,54DED3f94,54DF00dm6,54DF1Bdx9,54DF244lk,54DF636jk,54E0054lk,54E019ajt,54E0326tm,54E061c2w,54E14062d,54E15B5ty,54E1AD77z,54E1B6aie,54E2C83or,54E2E02vw,54E3B06pm,54E3F6xc,54E43A14o,54E4A91ht,54E4BD4h8,54E4ED6gz,54E61B14o,54E63Fbnh,54E6FCcvj,54E6FDcb9,54E7D5cgp,54EAA814o,54EAE15sy,54EBE914o,54EC2Falx,54ECB0bhn,54EDA38r2,54EE75edf,54EF33au3,54EF435gu,54EF447lb,54EF5Bbcy,54EF92br2,54EFFE4rr,54F0B15on,54F15Fc2p,54F201ba7,54F283c4v,54F2945ty,54F29F5hc,54F5B696b,54F6075ty,54F6661tv,54F6C54it,54F6E25gu,54F82Af81,54F87643,54F8F0d7i,54FA3Eba7,54FA8983i,54FA968zq,54FB58e5h,54FB5A9c9,54FB66iz,54FCF0ba7,54FDBFbcd,54FEEBd7u,54FF823i3,54FFCF8c5,58003252l,5800BB6tm,5800E37ik,5802051er,5803FB5k5,58044Fcvk,5804545y6,5804CBdak,58052876t,580556458,5805D9bf2,5807F88zq,5808FA4le,5809439zs,58098710n,5809E572y,580A202s3,580AD414o,580D0D4ye,580E85b9l,580FA514o,5810315ry,58108C6h3,5810B76d5,581122jj,581243o6,5813D351n,5816261cm,5816D7ca,58170Ccb5,581862cb5,5818B42ol,5819F82vw,581CBDtz,581CF86gz,581D91sl,581DC97wi,581DD8b9l,581F193ws,581F285gu,581F679ar,581FAA14o,581FEFdht,582059ejs,582071ba7,58208A5zq,5820B15om,5821366wv,58219Dblo,5821E9cya,58238Cdv4,58239B4lk,5823BC5zq,58242956h,5825755gu,58257A7v3,58263Ac4v,58274512s,58278C1l4,582A9314o,582ABD4ba,582AF75gu,582B0Ad7u,582BDB9q7,582D34a52,582EFE7gv,582F408yt,582F42do5,582FF7b9l,58305Bbkb,58306E8zj,5831123dp,583277ai1,58343B55p,58350F3wg,58352638j,58355D5ty,58356Bcpb,5835D92s3,58365314o,583879aat,583BC2c4v,583BD94lk,583CC698y,583F54798,58404E14o,584120cvj,5841465aj,5842E41n4,5843AB4zc,584498ejs,58454C4at,58468F742,5846E11n4,584704bz8,5847CA5zq,584822cb5,5848495zq,5848C02ae,5849253sg,58493B9nf,5849BA2q6,584BBCf94,584C192qj,584CEE3m5,584D423q0,5850767hg,58509F296,5850ABctq,5850E61tw,5850ED5k5,58528A8a6,5853C01pb,58559514o,5855CA14o,58569F2s3,5856AA14o,5856C25gu,5856E82vw,58570D3g3,5858CD4e3,5859248po,5859C24e3,585B69cy5,585FF6f94,586010f6y,58605F5gu,5860D82vw,586163a68,5863564h8,58639Acvl,5864C414o,5865E6f39,58666D14o,5866BA5k3,58671A1ms,58677F2sh,58685Dd5u,586861dqr,58687Ab9l,58696Cam3,5869F94s4,586AB15k3,586B1414o,586C256gz,586D0C5on,586D676gz,586D8F2s4,586ED69zs,58707F4at,5870C6bm8,5872C9f94,5873D15gu,5873D814o,58752128p,5876075zq,5876751oz,58769C9nf,5876ACasj,5876B3dlf,5876C53as,58796187m,5879E0ba7,587A4Dcf4,587A62d7u,587A6A4zc,587AB1bkl,587BE9vg,587DB690g,587E61a4t,587F5714o,587F665gu,587FB7b25,587FC8ane,58821D5bk,5882A887m,5883365gu,5884E465n,58856Ea3a,5885A2agv,5885E9agv,5886706tm,5886943u8,58874C7a7,588785rx,58879F5ty,5887E2bq6,588990ce9,588A5A3ix,588B1C2s3,588BF3evs,588C814ba,588CCFc4v,588D092s3,588D397u6,588D64eix,588E81c4v,588FA779b,588FCF5k1,589043b9l,5891532pj,5891CF6gz,589204f94,58920D723,5893515ty,589396alx,5893D8d7u,5893E814o,58946B6gz,5894A26w4,5894AE5ty,5894B21z5,5894CFdx3,58957E5ty,5895D85zq,58960A797,58961D6gz,589630dv4,589671e5t,58971E2s3,5897BD2s3,589835dv3,58986Faj2,589A3E10n,589B0Bc1n,589B4A3eu,589BF75n3,589CFC4pw,589EC6549,58A0236gz,58A0CBde2,58A15Fd7u,58A2B5798,58A2E1848,58A48E9uw,58A639ba7,58A7487md,58A76Ff1e,58A8396gz,58A87B4mu,58A8E810n,58AC782s3,58AD085zq,58AD1214o,58AE2B5ty,58AEA85gu,58AEF14lk,58B03514o,58B03E8yt,58B0D4evf,58B0FEd0r,58B10Fba7,58B18F5ty,58B38F8vr,58B3FCavt,58B42Demp,58B4BBam3,58B568are,58B6231sa,58B633alx,58B858b8r,58B961b1w,58B96514o,58B9E132r,58BAD38f0,58BAD45gu,58BC272s3,58BC8F2ul,58BD35ath,58BDA38yt,58BDF9c4l,58BE725gu,58BF254ba,58BFEA2s3,58C17A2ig,58C2328gc,58C3563wg,58C38Bba7,58C41E5zq,58C57E4lk,58C583687,58C58710d,58C5CBba7,58C6F04zc,58C7AC8vr,58C8762pg,58C9352q7,58CB5256h,58CDC9296,58CE2A6gz,58CF4B7l1,58CF794ba,58D0615gu,58D0711lh,58D08F5zi,58D15Ad7u,58D237c2w,58D312f94,58D34914o,58D391a6l,58D46916e,58D50A8dt,58D5335tw,58D56E351,58D61Fdlp,58D67Aco4,58D6974zc,58D6D33fk,58D7595gu,58D812cvk,58D8A71vb,58D9C38cw,58D9D5d60,58DB09a6l,58DB15cpb,58DB8D4ki,58DC6D4di,58DF592s3,58DF709zs,58E02C86i,58E16Ceno,58E28F14o,58E3262wf,58E3596j3,58E403e5t,58E4346tm,58E476267,58E48810n,58E4EB4h8,58E63640q,58E6BA14o,58E6C54ba,58E7473jc,58E808li,58E8735ca,58E8765zq,58EA1F1sa,58EAFC3vx,58EB14a1b,58ECE18wc,58ECED6gq,58ED99f94,58EECE69g,58EF681t5,58F1021iv,58F2FC5ty,58F387vt,58F39C2s3,58F496cbt,58F65843e,58F67Bejb,58F6BF763,58F85C7am,58F8D75gu,58F9875gu,58F98Ear8,58FB3E5ty,58FB846gz,58FB96alx,58FC2010b,58FC7316z,58FCC6cvg,58FCC85s6,58FCDB5zq,58FCE34rw,58FD20clg,58FD5D5l2,58FDB1797,58FDBEbxw,58FE7Ef94,58FFA1f94,5C0038dxo,5C013B4ba,5C02141sa,5C026A14z,5C0272c4v,5C03395gu,5C045A2wd,5C06102s1,5C0758dm2,5C076Fd9x,5C07A42ri,5C07A65gu,5C094714o,5C09795gu,5C0A113p0,5C0A5Baol,5C0B3B5gu,5C0BCAdhi,5C0C0E5b5,5C0CBB25p,5C0CE68yt,5C0E8B4e3,5C0FFB11g,5C101Ef94,5C10C5ba7,5C1193bds,5C13AC14o,5C13CC14o,5C1437da7,5C14EBdg2,5C151584,5C15C5bwl,5C15E1a1,5C16484zc,5C167D5gu,5C16C716e,5C171592z,5C17205ty,5C17375ws,5C178343a,5C17CF99u,5C17D379d,5C18B5czy,5C18DD287,5C19235kf,5C1A6F2il,5C1B171y7,5C1BF414o,5C1CB9f8g,5C1DD914o,5C20D018m,5C2167al1,5C22C435e,5C22DAdv4,5C2316cdk,5C23C214o,5C241Fa4q,5C244392d,5C24791m7,5C24E2cif,5C254C1d0,5C2573848,5C260A3ix,5C2623e7m,5C27636lg,5C27D4bvy,5C28866k5,5C2AEFf5z,5C2BF5e0y,5C2D08cg9,5C2E59ba7,5C2ED24n,5C2FAF5rw,5C313Ed7u,5C31922s3,5C32C5d6p,5C3327cck,5C335Ccja,5C337B56h,5C338Ezc,5C33B13wg,5C34005q1,5C345B5k5,5C353B2w9,5C3548rr,5C35DAd95,5C35FCq7,5C36B8cnx,5C38E0bll,5C39776tm,5C3A3Df94,5C3A4527q,5C3AA2c4v,5C3B3551e,5C3C27ba7,5C3E062s3,5C3E1B14o,5C40586r0,5C4071ejs,5C40975i,5C40E38mi,5C415A10o,5C41E7eb3,5C43D25d0,5C443Ec6u,5C45276tm,5C4546bz4,5C46B0ayo,5C475Eajt,5C48425jr,5C48795gu,5C4979me,5C497Dba7,5C49FAbs7,5C4A1Fc2w,5C4A2648p,5C4CA95gu,5C4DBFf94,5C4EEE10d,5C50152s3,5C50D373a,5C50D914o,5C5136ba7,5C514F6gz,5C5181ba7,5C51888cw,5C51DFezk,5C521E8yt,5C523014o,5C528414o,5C53108pg,5C53B43wg,5C53C3dlf,5C546D5gu,5C5578f3p,5C56A4e6t,5C56ED1u,5C571A2vw,5C579E2q7,5C57C88zj,5C58196sp,5C58E69nf,5C594814o,5C5A35ezk,5C5A4C5zq,5C5AC72s3,5C5AEA4hi,5C5B3589v,5C5BC2elx,5C5C755zq,5C5DEC6ri,5C5E0Aba7,5C5EAB6tm,5C5EBB5gu,5C5F676gz,5C60BA5gc,5C61175gu,5C61528o9,5C6199296,5C625A23n,5C628Bcvk,5C63B04ou,5C63BFcvj,5C63C96hu,5C640Fb9j,5C647A5gu,5C648Eevs,5C64F12s3,5C64F3f7i,5C666C4zc,5C67765z4,5C67836gz,5C68D01bb,5C69848ny,5C6A7D6vw,5C6A80evs,5C6AEC5zq,5C6B32d7u,5C6B4F5nu,5C6BD74p3,5C6D205rz,5C6F4Famx,5C6F6920l,5C701714o,5C70755gu,5C70A3798,5C710D2s3,5C7545e84,5C75AF4mu,5C75C62pi,5C7695dv4,5C76D58zj,5C77575il,5C7776co5,5C78F85ty,5C7B5Cbwf,5C7B6Cde7,5C7D5E5gu,5C7D7Ddv4,5C7DAEf94,5C7DF34lk,5C80B66gz,5C81A78uu,5C82173dy,5C836Calx,5C83828zj,5C838F2s3,5C83CD8w0,5C843Ccb9,5C84861zx,5C85055ty,5C857E5zq,5C85F8av7,5C86131si,5C864Abe3,5C865Cba7,5C86C13d2,5C873014o,5C8778346,5C879C6gz,5C87D85zq,5C8816al1,5C899Acvj,5C89D41oc,5C89E6ajg,5C8A385om,5C8AAE27h,5C8B6B10n,5C8C30cz2,5C8D2Dbm0,5C8D4E14o,5C8DE53j4,5C8DFD2sk,5C8E10dba,5C8E8Bbuh,5C8F40cpb,5C8FE02vw,5C90129dz,5C91575gu,5C917514o,5C91FD6q4,5C925Eeux,5C93A27ik,5C9462btr,5C95AE14o,5C96561er,5C9666cb9,5C966Aad5,5C969D14o,5C97F314o,5C9960ba7,5C997714o,5C9AA15ty,5C9AD84j0,5C9BA614o,5CA06Cagu,5CA176c2w,5CA178cyf,5CA1E046d,5CA2A2d7u,5CA39Daol,5CA3EBazt,5CA436brs,5CA47D5on,5CA48A2s3,5CA4A44lk,5CA4F4f94,5CA5BCezk,5CA62D2s3,5CA64Fcvk,5CA6E6cvk,5CA7218vr,5CA86A5gu,5CA931dlf,5CA9337l2,5CAAA225o,5CAAFDcaz,5CAC3Dba7,5CAC4C5rz,5CAD76bxr,5CADBA14o,5CADCF14o,5CAF06798,5CB00A5gu,5CB0662vw,5CB12E2s3,5CB13Eb9l,5CB15F982,5CB2603wg,5CB26D6gz,5CB29Eia,5CB2DFbvr,5CB3955gu,5CB3F65up,5CB43E5gu,5CB47E6gz,5CB4E26g8,5CB524cb5,5CB55929y,5CB6CC90u,5CB8B714o,5CB8CByz,5CB9015om,5CBA2C5on,5CBA3787m,5CBA75a6l,5CBAEF27q,5CBBEEf94,5CBD9A5ty,5CBD9E5fs,5CBE0567m,5CBE699cj,5CBF033wv,5CC0A05gu,5CC1D7ba7,5CC1F25gu,5CC2134ph,5CC3075gu,5CC336f3u,5CC41Dcf2,5CC5635hc,5CC5D46gz,5CC6D0c7d,5CC6E943e,5CC786bny,5CC7875ty,5CC7C1c4v,5CC7D7nc,5CC8E3c1s,5CC9998vr,5CC9C0aie,5CC9D39f1,5CCA1A87n,5CCA32d91,5CCAD327m,5CCB99ba7,5CCBCA4it,5CCCA058c,5CCCFFd28,5CCD5B6gz,5CCD7C7q5,5CCDA8687,5CCEAD259,5CCF7F4ba,5CD06Eejs,5CD135ekp,5CD20Beor,5CD2E46gz,5CD33Dba7,5CD41Bdis,5CD4ABerq,5CD5B5bzb,5CD61Fa44,5CD89E5ty,5CD99834z,5CDAD48dt,5CDB362i5,5CDC49ba7,5CDC9615q,5CDD705k3,5CDE34avh,5CDF89alx,5CDFB8byl,5CE0C56gz,5CE0CA4kw,5CE0F68k9,5CE1762s3,5CE1A49vr,5CE2233j2,5CE28690b,5CE28Cevs,5CE2F4o6,5CE30E2vw,5CE3B64lk,5CE42A6gz,5CE50C1sa,5CE688dq6,5CE7475gu,5CE753bta,5CE7A08zj,5CE7BF8vv,5CE8835gu,5CE8B79cj,5CE8D3c4g,5CE8EBba7,5CE91E14o,5CE931cvk,5CEA1D5rz,5CEB4Ea78,5CEB52f94,5CEB682np,5CED8C5on,5CEDF4ba7,5CEE7954v,5CF207ccp,5CF2865zq,5CF37024w,5CF3FC5xb,5CF4ABevs,5CF50D6gd,5CF51Aet2,5CF53Aeu5,5CF5DA14o,5CF6DCba7,5CF7968vr,5CF7C3b7y,5CF7E614o,5CF821d7u,5CF8385zq,5CF8A18dt,5CF92B296,5CF93814o,5CF96A5gu,5CF9DD3ix,5CF9F01ac,5CF9FDcz2,5CFA25b9l,5CFA5Ac5v,5CFAFBqh,5CFB3A27q,5CFB7Cbtm,5CFC662s3,5CFC6Ec2w,5CFCE1ais,5CFE9Eedp,5CFF35edb,5CFFA9f94,5CFFFFbu3,6001944ba,6001B15gu,6002929gg,6002B4e5t,60030814o,60030Cbzz,6003471up,6003A66hx,6004179ja,60045C8o9,60058A5qo,6006E314o,60077C6q6,6007C44zc,6008105gu,600837f3v,6009C3f81,600A8Cbxi,600B035k3,600F6B14o,600F77c5a,60109E5gu,6010A2328,601199c2i,60123C5gu,601283cx8,60128B23n,601466f94,6014B333y,601521ahe,60152B9nf,60156Fcvk,6015925zq,60159F5zq,6015C769j,6018033ff,60182Ebnn,60183A5ty,601888f94,6018953ix,60190Cact,601929dsp,6019705h4,6019712vw,601A4F1oo,601AC78yt,601B52e1d,601D0F883,601D1682q,601D564e3,601D918cw,601D9Dc2p,601E02466,601E981dr,601F565gu,6021014zc,6021035x1,6021C08dt,602232dlp,6023A4c2p,6024C16s7,6025ED5on,602602d7u,6026AA2s3,6026EF5on,60271Cdr4,60292Bcvj,60297216e,6029D537u,602A1B6me,602A542jq,602AD02s2,602B583wg,602D744e3,602E205gu,602ED514o,6030B35gu,6030D414o,60313Bch9,603192979,603197evs,60323Ba6l,6032B1cvj,6032F08d9,60334B14o,6034575ge,60355321o,60357341o,6035C0asz,603696d8s,6036DD6gz,60380Eca,6038E01t5,60391F43,603A7Ccvj,603AAFba7,603C0E5b4,603C6850u,603CEE798,603D26dv4,603D295gu,603D619zs,603E5F14o,603E7B502,603ECA2im,603FC52er,603FFBd4x,60427Fau8,60447Ae79,6044F541x,60452E6gz,60455E7i6,6045BD87m,6045CBjj,6045CDb9l,6045E815q,604616eh5,60464C7gp,60470Ac0e,6047621r9,6047D44hn,6048268w6,60489Celz,604966bqn,6049C11cm,604A1Cb6w,604A774m5,604BAA7y9,604DE15gu,604F5B5ty,6050C1722,60512Cco5,6052D04ep,605317bat,6053555gu,6053755gu,6054644eb,6055566sd,6055F94ba,605661698,60567Dct,6056997nb,6056B15gu,6056EE10d,6057186gz,605747287,60577Dezk,6057C814o,605801bio,605B303ix,605BB41er,605E4F5ty,605E65848,605F8Dezk,605FAA5ty,60601Fb8r,60613415o,6061DFeow,60629A6tm,60634C351,6063F92rk,6063FDder,606405d7u,606453f6,6064A1a7z,60652514o,6065F42q1,606682au0,6067206gz,60683259j,60684Eba7,60694414o,60699Bf3q,606B5B16d,606BB3f94,606BBDba7,606BFF8yt,606C635qz,606C666gz,606D3C7ly,606D9D9dj,606DC75rz,606E411mu,606E531s5,606ED0ar3,606EE8ejs,60706C56h,607072aus,6070C014o,60720B1iv,60735C2s3,6073BCf94,6073C8e27,60748D1a4,6074B15rs,6074F49zs,60756C797,607623bqu,607688dvu,607771d7u,6077E2ba7,6079C95gu,607AD84u3,607D097ly,607DDDbws,607EA4bk2,607EC914o,607ECD5gu,607EDD87n,607FCBba7,60811014o,60812B199,6081F95nl,60824614o,6083065ty,6083345gu,60837314o,6083B254n,6083DAc4v,6083E2bl1,6083E7cvk,6083F8axt,60843Bc9j,6084BD1l4,6086451cu,60893Cd99,6089B171g,6089B76ud,608A1086z,608B0E14o,608C2B5lj,608C4A14o,608CDF1nm,608CE62vw,608D17bh6,608D2615q,608E08ba7,608F5Cba7,608FA48zq,6090843e5,6091F3f8g,60921714o,6092C8al4,6092F52vw,60931614o,609532eri,609578ba7,6095BD14o,6095CE5zq,6095F815q,6096209zs,6096A45gu,6097DD86v,609813blw,6098498zr,609866d7u,6099D1e2m,609AA44zr,609AC114o,609B2D6o4,609BB45gu,609BC85pt,609C9F20r,609E64e11,609F9D2tb,60A10Aba7,60A11Eefd,60A1FE5gh,60A2C65gu,60A37D14o,60A3E3cvj,60A423c4v,60A4345zq,60A44Cjj,60A4B7cvk,60A4D0ba7,60A5E26gz,60A6C55gu,60A730c07,60A7515ty,60A8FE8zq,60A9542s3,60A9B084g,60AAEF5ty,60AB1479b,60AB67ejs,60ABD21yh,60ACC875m,60AF6Dba7,60B02Ba4q,60B0E85ty,60B185jy,60B387ckh,60B3C4447,60B4A2ba7,60B4F79w1,60B58Dme,60B6069t1,60B6174lk,60B647c4v,60B6E1d7u,60B705bx6,60B763c4v,60B76E56h,60B9333jz,60B982abp,60B9C02s3,60BA18f5i,60BB0C1pr,60BC4C40v,60BD2Ccz2,60BD835gu,60BD918d2,60BEB4amr,60BEB58cw,60BEC414o,60C01Edpb,60C0BF944,60C1CB4qv,60C22Az6,60C397r,60C418cvp,60C54714o,60C5A81q6,60C5ADba7,60C5E6c6u,60C6589ho,60C7273kz,60C78D6tm,60C798dwf,60C7BEagu,60C980dh3,60C9AA8zj,60CBFBvi,60CDA9nx,60CDC5cz8,60CE415gu,60CE86bhm,60CE92d8r,60CF69f4p,60CF84jj,60D02Calx,60D03914o,60D0A9ba7,60D15F4sj,60D1782s3,60D1AAdzl,60D1D8c4v,60D21Cch9,60D2482vw,60D262di6,60D2B9a9b,60D2DDbp3,60D30Aa6i,60D4AF5sy,60D4E94zc,60D51B4rd,60D561bs0,60D7555gu,60D7E35zq,60D8195rz,60D8779td,60D89C5f4,60D8A4dv2,60D9A07fd,60D9C714o,60DA234bk,60DA835k3,60DB158vr,60DB2A5fa,60DB982i5,60DBEFdn7,60DC0Dcmu,60DC8110d,60DD10bp1,60DD7014o,60DD8E6gz,60DE1814o,60DE354wd,60DE445gu,60DE945gu,60DEF35gu,60DEF4c0q,60E00Eaxb,60E327cvj,60E32B6gz,60E3AC798,60E5D8f94,60E6BCc63,60E6F0e5t,60E7015gu,60E78Adk5,60E85Bd7u,60E9561ef,60E9AA296,60EB5A192,60EB69a5w,60EBB44za,60EE5Caui,60EFABc4v,60EFC6bpv,60F04D5sy,60F13D6m7,60F1898dt,60F18A5gu,60F2626gz,60F281cw7,60F2EFdzu,60F3DA7ji,60F419ezk,60F43A43e,60F44514o,60F4945rz,60F54914o,60F59C2fi,60F620caz,60F673crv,60F6776gz,60F7231sa,60F81D14o,60F8F2ck4,60F91C27h,60FA9D5gu,60FAA7avj,60FAB1710,60FACD14o,60FB00au3,60FB4214o,60FCF19zs,60FD56e61,60FDA614o,60FE1E2pm,60FE20r,60FEC514o,60FEF9d9o,60FF12ba7,60FF9E1er,60FFDD22e,64002D9yb,64006A3ix,64009C6gi,6400F12s3,6401FB7d5,64028Fc4v,6402CB2vw,64037Fba7,6405522pn,6405BE8j8,6405E4ca,6405E9bz5,64078C5gu,6407F6ba7,6408642s3,64094C1rk,640980ejs,6409ACco5,640B4A3mf,640BD714o,640C9114o,640D22798,640DCEavh,640DE69ro,640E36cnp,640E6Aar6,640E949w2,640E9B67d,640F28r,6410845dw,6411A48cw,6412252s3,641236dv4,6412692vw,6413311yb,64135A6le,64136Cf94,6413AB5gu,6416668sl,64167F9ws,64168D2s3,6416F05gu,6417596hw,6417CDba7,6418DFb9l,641A225nk,641ABA3ql,641B2Fba7,641B85dv4,641C10d7u,641C673av,641CAEba7,641CB0ba7,641E813pq,64200C14o,64209Fdb2,6420E0cm7,6421848yw,6421FD58q,642216bim,6423155ty,642400ek8,64244D5k1,64255E97t,6425ECf0o,642656br8,6426771io,6427375rz,6427535ty,64294334z,6429EDf3,6429FF5gu,642B8Abs,642C0Ff8g,642CAC5gu,642DB7asp,642E415gu,642F1C5gu,642FC78vr,64313514o,643136848,6431395zq,6431505om,643172epu,64317E3kc,643216e8s,6432A86gz,6433AA848,6433B55zq,6433DBd7u,6434091ii,64351Ceyi,6437A4cuf,643AB1c2w,643AEA2s3,643E0A5gu,643E8C5gu,643F5F4d9,6441E614o,644212bz4,644214cj7,6442C2848,64434658r,64447Bf8g,6444D5co7,6447E04ky,64484214o,64497D6gz,644A7D6gz,644BC3bly,644BF02hv,644C366gz,644C692d1,644D70ext,644ED75gc,644EEB3fh,644F426nl,644F56elp,644F7478s,644FB05w7,6450D67i9,6451065om,64517E7b9,6451F45ty,645234c2w,645299d8b,64535D4pu,6453E05gu,6454224ag,645563a2m,64557F8n0,6455B12vw,645601cvj,6456B5ba7,6457255ub,6457BA6gz,6457E51r5,6458AD2pj,6459F8e1e,645A042p1,645A3614o,645AED14o,645CF39pb,645D866gz,645D92c2w,645DD7bug,645DF4ba7,645E105gu,645E2C670,645EBEemz,645FFF8xs,6460385py,6461405ty,646184dqb,6462232lp,6462665zq,64628Af03,646306ejs,64644A1sa,64649B6tm,6465C0925,646624b9l,6466B3cvj,6466D8ba7,6467071qv,646772asg,6467CD5gu,64680C2x8,64681A36h,64687643e,646911gh,64694Ed7u,6469BC5vz,646A521cm,646A74lf,646BE7a4x,646C8027q,646CB2ba7,646D2F14o,646D4E5gu,646D6C5gu,646E60f94,646E697ik,646E6Cae5,646E97cvj,646EE06gz,646EEA6l7,647002cvj,64703314o,647060d7u,64708410d,6472D8567,647366bx1,6473E215j,6474F6c20,647520f94,6475DA15q,6476576fg,6476BA14o,64777D5qz,647791ba7,6479245ty,647999b9l,6479A79sn,6479F06gz,647B1Eb9l,647B40c2p,647BCEba7,647BD4d7u,647C34dlf,647CE89nf,647D4D15q,647D81em7,647FDAcpt,64808Bdql,6480996gz,648125zm,6482144h8,6484341hb,648505f94,6486241p9,64876C5gu,6487886tm,6487D76y,6488FFc2r,6489144ba,64899A798,6489F1ba7,648B9Bcq,648CBBd7u,648D9E694,648F3E2s3,648FDB5tw,6490C11sa,64956C797,649714ezk,6497461er,6498296gq,64989Ecwm,64995D79d,649968454,6499A09m,649A08bxm,649A129ei,649A63ajt,649ABE14o,649B24dp9,649B8Fd7u,649C81a5o,649C8Ed7u,649CF34lk,649D3856h,649D994ih,649E311sa,649E587ur,649EF32s3,649FF7744,64A0ACrx,64A0E72s3,64A1985ty,64A200ejs,64A23294k,64A28A5ty,64A2F999u,64A33750u,64A341ee2,64A3CB14o,64A3CC7fi,64A40Edan,64A4447kf,64A5C314o,64A6515gu,64A68Feua,64A7695gr,64A7DD1cm,64A8376tk,64A9657hq,64AC2B6tm,64ACE0ba7,64AE0C2s3,64AE889wx,64AEF1a4u,64B0A614o,64B0E85ty,64B21D2oj,64B2B44lk,64B2E4bx6,64B310ba7,64B3709y0,64B3796s2,64B473ejs,64B4E8bqd,64B5C68yt,64B5F2ba7,64B623bcu,64B64Adxd,64B7084ba,64B853ba7,64B94E3iz,64B9E814o,64BAA4f94,64BABDaqs,64BB1E41o,64BC0C798,64BC112vc,64BC435gu,64BC586gz,64BD6D14o,64BE63b5j,64BF6B5gu,64C01Ac2w,64C04514o,64C17Eexa,64C269ezk,64C2DE798,64C3541cm,64C3945gu,64C3D66tm,64C403a6l,64C5822pi,64C5AAcby,64C6671ms,64C6AFmz,64C6D2bf2,64C75314o,64C7F19z1,64C90164s,64C90514o,64C94477o,64C9F110n,64CA80agu,64CB5Daxq,64CB9Fcpb,64CBA39wg,64CBE979b,64CC2215q,64CC2Eejs,64CDC210n,64CDF16x5,64CE0C4rw,64CE6Ec3z,64CF13e8t,64CFD9d7u,64D02D8jp,64D0D6ba7,64D15488b,64D1A3c6h,64D24170s,64D2C414o,64D3155f4,64D363bi9,64D4BDca,64D4DA6gz,64D4F08ie,64D5625ty,64D608bos,64D667bk1,64D69A6gz,64D7C05ty,64D8142s3,64D81Bdx9,64D912ca3,64D954cz2,64D9892s3,64D9C2ezk,64DAA0ako,64DAEDezk,64DB189aw,64DB38f94,64DB438cs,64DB81clp,64DB8B5k5,64DBA0bfa,64DBF78zn,64DC01ceg,64DCDEesw,64DD68evs,64DDE9ejs,64DE1C72e,64DE6D6gz,64DF106so,64DFE9ju,64E0035ub,64E0ABdjz,64E161398,64E172bvx,64E2048ne,64E220a53,64E4A5797,64E5993u8,64E625eev,64E68214o,64E738eth,64E7D8ba7,64E81515s,64E8334ba,64E84Fbhr,64E8815on,64E8928c9,64E8E6f0k,64E9502s3,64EAC5c2m,64EB8Cbf2,64EB94f94,64EC65f8g,64ED572vw,64ED62e60,64EEB78u4,64F0ADetj,64F242539,64F2FB5k1,64F50E72l,64F54E3wg,64F64D25o,64F69D2s3,64F6BB4ln,64F6F712w,64F7055ty,64F81C5u0,64F88A2pj,64F947bgc,64F970712,64F9871dh,64F9C0e3,64FA2Bb9l,64FB01eu7,64FB50al9,64FB815zq,64FB929jj,64FC8Cev7,64FD29et2,64FD96b9l,64FE154mz,64FF0Ae5t,68023574c,6802B82w9,6804892s3,680571ba7,6805CA6gz,68070Acvr,6807156gz,68080Dc05,68092714o,6809474ba,680AD7en4,680AE2c4v,68122Dcco,681268a6l,6812957lr,6813245ty,6813E2464,6813F310n,6814015rz,68157920w,681590b9l,6815D3a76,681605cli,6817296gz,6818D95pg,68193F3lg,6819778vr,6819AC5as,681A4714o,681A7Cc2w,681AA4bx6,681AB2f94,681BEF5gu,681C522s3,681CA2ali,681D4C74k,681D64chl,681DEFbpm,681E8B6db,681EA3c2w,681F401wj,681FD8c3o,68215F43b,68228E6tm,68229F5ar,6822E55ty,68234B8xy,6823B0d7u,6823F4btq,682499a6l,6824F9dri,6825DD4ba,6826244aq,68262Ac2w,68271986z,682737ba7,68275Ff94,68286Ccb9,6828BA3iv,6828CF5on,6828F6e2e,6829DC4lt,682ADDf94,682C4Ff48,682C7B2s3,682D83aue,682DDCef1,682E3Cdlp,682F6714o,68303614o,6830455gu,6831FEd2y,68332C6vu,6833EE2vw,6834216gz,683489782,683563avc,6836B53qe,6837E910n,6838E341e,683943f3u,683A1E2s1,683A48aof,683B0914o,683B1E313,683B782s3,683C7D7y8,683E02ay1,683E266gz,683E347q5,683EC014o,683EEC3yl,683F1E3u5,683F7D62h,68403C4lk,68418Fd3c,684216cet,6843521ud,6843D7ug,684406d7u,68446514o,6845715ty,6845CC14o,6845F1cv2,6847243wg,684749d7u,6847C56gz,684898ba7,6848B410d,6849835gu,6849922s1,6849B2243,684A5F14o,684A6Ea6l,684A76ezk,684AAE5gu,684AE9ba7,684B8850g,684C255ty,684CA8bsl,684DB6ejs,684E055hc,684F643ix,68505D5is,68508Cblk,6851345on,6851B79xy,6852107pg,6852D6dj0,68536Cb3x,6853771yo,6853889ed,68539D3wg,68545A6gz,6854C12uz,6854EDxc,6854F5ezu,6854FD10n,6855D4bf2,68572Ddhv,6858114lk,6858928oc,6858A05sy,6858C5epq,685932ch4,68597Fx9,685ACFba7,685B3514o,685B369ji,685D436gz,685E1Cd7u,685E6B9y4,685EDD14o,685EDF8oc,68628Af8g,6863505nq,686359sd,6863725ty,68644B14o,6865B7ety,6867254ba,6867C7b9l,68692Eevm,68697512u,6869CA5q7,6869F22v3,686B6A9ti,686CE687m,686DBC5k5,686E23eam,686E48a0y,68709Ec4v,6871612s3,687251dlp,6872C3ba7,6872DC26l,687627eug,68764Fcb5,687724cvj,6877DAf94,687848e46,68784C90b,6878A84lk,6879092s3,6879125zq,6879243w8,6879C4bkp,6879DD999,6879EDatl,687A646gz,687CC882k,687CD5el3,687D00bzz,687D6Bba7,687DB42s3,687F742s4,687FF0cvk,6881E05gu,6882F24gm,68831A9oe,6883CB14o,688470ez7,68847E4j0,688540604,68856A9dr,6885A44zc,6886A72s3,6886E79cv,68871C8cw,68876B637,6887BDf94,6887C62s3,6888A1do6,688975f5n,6889C15gu,688AB53tw,688AF0f94,688B0F2pj,688BF416d,688D2B4yq,688DB69d,688F2E5qz,688F845gu,688FC9eup,6891D05zq,689234alx,6892688cw,6893208vr,68932E5i7,6893616gq,6894235rz,68944Af94,68951B5ty,689575esz,68962E5gu,68966A936,68967B14o,68974Bbq8,6897E8c90,6898611ni,6899CD2s3,689A214lk,689A8710n,689AB719m,689B435ty,689C5Eo6,689C7014o,689CE22s3,689DD24ba,689E0B2s3,689E19d7u,689E29f94,689E67aum,689E6A5ty,689FD410n,689FF0f94,68A03E5gu,68A0F65gu,68A1B75sv,68A2AApj,68A34F8zj,68A3784i9,68A3C47ik,68A40E1kr,68A46A5gu,68A47Dcgp,68A59314o,68A682bzz,68A72914o,68A7B45sy,68A8285gu,68A86D14o,68A878532,68A8E1e6j,68AAC410b,68AAD237j,68AB098zj,68AB1E14o,68AB8Aaa4,68ABA9b9l,68ABBC1sa,68AE04bxm,68AE2014o,68AF134sd,68AFFFbj7,68B09461t,68B1C9699,68B35Ebvb,68B41Eepe,68B43Ae7a,68B5995om,68B5E35gu,68B69110n,68B6B34ba,68B6FC5qz,68B76B4lk,68B8BB1s9,68B8D9pr,68B983ewl,68B9C241o,68B9D3bye,68BC0C2s3,68BDAB2s3,68BE498ri,68BF6C16e,68BFC4ba7,68C44Cejs,68C44D8cw,68C63A4ba,68C6AC6gz,68C8C04yq,68C8EBal1,68C90Bd7u,68C95Db8s,68CA0098a,68CAC414o,68CAE42s3,68CC6E5gu,68CC9C892,68CCAE4ou,68CCBA3jl,68CD0Fdi8,68CE4E76h,68D1BAbzz,68D1FDbyd,68D2479x2,68D40Ccqx,68D482auq,68D48B5ij,68D6ED568,68D79Adlp,68D925a01,68D9275gu,68D93C14o,68D9722s3,68D9763wg,68DA735zq,68DB549s6,68DB678q7,68DB9695o,68DBCA14o,68DBF510n,68DCE89n3,68DD26bjo,68DDB7cvj,68DDD95f4,68DECE4lk,68DFDDejs,68DFE4ba7,68E154c2f,68E1669zs,68E1DC1l4,68E2095gu,68E41Fdmm,68E478a4q,68E58014o,68E59E2s3,68E6D44jc,68E74Ad7u,68E7C2ba7,68E8EB7hv,68E9054lk,68EBAEba7,68EBC512v,68EC62em4,68EC8A60c,68ECC56gz,68ED431w6,68ED576tm,68EDA4bwq,68EE4Bbmn,68EE88bxt,68EE8F4ba,68EE962s2,68EF4314o,68EFA81bz,68EFABdw4,68EFBD2s3,68EFDC14o,68F06Dc4,68F0B55sy,68F0BCbuc,68F0D0c6y,68F1253go,68F21F1yh,68F38E6tm,68F44B5rs,68F5435gu,68F62B687,68F63B10n,68F72877z,68F7D887m,68F895ahk,68F90F6gz,68F95697p,68FB7E14o,68FB9552e,68FCB38x0,68FCB64zc,68FCCAba7,68FDE8alx,68FE714ba,68FEDA4lk,68FEF714o,68FF7Bcvj,6C006Bba7,6C0273btk,6C028C5gu,6C02E05gc,6C03092s3,6C03704e3,6C03B52s3,6C0460a8w,6C047A5gu,6C05D327h,6C05D54br,6C06D65ty,6C0831e4,6C090A4un,6C09BF4lk,6C09D63l8,6C0B5E5gc,6C0B84do8,6C0C9A10n,6C0D348zj,6C0DC41s9,6C0DE13ot,6C0E0Dcb5,6C0EE62oq,6C0F0B2pi,6C0F615vx,6C0F6A6n9,6C1041bx6,6C108Be87,6C11B3eey,6C11BAf94,6C127014o,6C13D52s3,6C14141l6,6C146E5gu,6C14F74as,6C15245zq,6C154487m,6C15DB15q,6C15F98qy,6C160Ec24,6C162943e,6C16325gu,6C18113ig,6C198F351,6C19C014o,6C1A755ty,6C1AEAd7u,6C1B3F89n,6C1C71et2,6C1D2C5gu,6C1DEBf81,6C1E705au,6C1E905lh,6C1ED7f8g,6C1F8A14o,6C1FF7dm3,6C20562s3,6C21A2dt,6C221A10d,6C22ABuv,6C22F78zn,6C2316cnn,6C23B9cb5,6C23CBe7d,6C240877z,6C248387n,6C24A6f8g,6C25B91g3,6C26365gu,6C277987n,6C27C85zq,6C2813f56,6C2990eb1,6C29956gz,6C29D22s3,6C2ACB9q9,6C2ADF5zq,6C2B593ix,6C2C0694h,6C2CDCc7d,6C2D24ets,6C2E33oh,6C2E721ev,6C2E85b9l,6C2F1C8xj,6C2F2Cba7,6C2F806gz,6C2F8Aba7,6C302Ad7u,6C310E2s3,6C32DE6bu,6C33A97yd,6C34915gu,6C383880f,6C38454lk,6C38A1dlf,6C391D1sj,6C3A3655q,6C3A84boo,6C3AFF14o,6C3B6B88b,6C3BE55om,6C3C53cbp,6C3C7C23n,6C3C8C3ix,6C3D7Ddv4,6C3DD84bb,6C3E5188y,6C3E6D14o,6C3E9C6vj,6C400814o,6C40331qh,6C40C68ye,6C40E8f8g,6C410E2s3,6C416A2s3,6C41DE5gu,6C42ABcga,6C43292ee,6C433Ccpb,6C4418erc,6C442A5gu,6C459813m,6C45C42te,6C4725akw,6C4760ch4,6C47805zq,6C483Fejs,6C48A64lk,6C49C1f5p,6C4A391ic,6C4A7494,6C4A8514o,6C4B7Fe1z,6C4B907ig,6C4BB45h8,6C4CBCcvk,6C4CE26gz,6C4D51bpr,6C4D7314o,6C4E86d9m,6C4EB02km,6C4EF62s3,6C4F89evs,6C4FA12s3,6C504D2s3,6C51BF5ty,6C51E45ty,6C54CD770,6C5563ba7,6C558D5gu,6C55B110n,6C55E8dv4,6C55F6ezk,6C56401iv,6C569710n,6C5779pd,6C59407qi,6C5976blp,6C5A34bsf,6C5AB0cvk,6C5AB5co1,6C5C144zc,6C5C3D5zq,6C5CB1c4v,6C5CDEcgw,6C5D3A87m,6C5D63bnq,6C5E3B2s3,6C5E7Adls,6C5F1C7fd,6C601699u,6C60D05ty,6C60EBepv,6C6126ajx,6C61F4asz,6C626D86o,6C62868zj,6C62FE6tm,6C639C2vw,6C63F8dlp,6C641A9qs,6C65671h4,6C67EF5gu,6C688A10n,6C68A45ar,6C6A776gz,6C6C0F5gu,6C6CD32s3,6C6D09764,6C6E0725b,6C6EFE2zp,6C6F18ceu,6C702841g,6C7039912,6C709F14o,6C70CBba7,6C710D2s3,6C71BD41j,6C71D25gu,6C71D91er,6C7220351,6C724A9a1,6C72B877z,6C72E2ew6,6C72E714o,6C750Deaq,6C76375ty,6C76606z7,6C76F77yw,6C7742f94,6C77F05ty,6C78C16tm,6C79B8d7u,6C7A6316e,6C7DB72s1,6C7E6714o,6C7F0C2s1,6C7F495ty,6C80ABf2u,6C81669zs,6C81FE8a5,6C82435ty,6C8336ba7,6C8338dlj,6C83668pj,6C837520l,6C8686d25,6C87208vr,6C88146gz,6C885F9zs,6C8AEC8q7,6C8B2Ff94,6C8BD32s3,6C8CDB9dl,6C8D65ect,6C8D772s3,6C8DC114o,6C8F4E2qp,6C8FB587n,6C90B1bam,6C910670d,6C91888zj,6C92BF5zs,6C92CF20l,6C92F616e,6C93085zq,6C9313848,6C9354enb,6C93921h3,6C94666gz,6C94F814o,6C9522bc4,6C96CF14o,6C976D8cw,6C97AA9z,6C98EBak6,6C9961b9l,6C99892s3,6C999D10n,6C9AB420s,6C9AC9du2,6C9B028zj,6C9BC02nw,6C9CE98yb,6C9CED2s3,6C9E7C4lk,6CA042c4v,6CA0AF29e,6CA0B4azx,6CA1006gz,6CA31E687,6CA3671d8,6CA3D39r0,6CA401f01,6CA4D14lk,6CA6042vw,6CA61310d,6CA6823tj,6CA75Ff94,6CA7808zj,6CA7FAemi,6CA8491cm,6CA8584lk,6CA906d3r,6CA9285f4,6CA9363ns,6CA96Fdel,6CAAB3alx,6CAB052s3,6CAB3114o,6CAB4D3m6,6CAC60dvz,6CACC2ba7,6CAD3F5u3,6CADAD27q,6CADEF6zj,6CADF81er,6CAE8B5xb,6CAEE38zj,6CAEF6ezk,6CAF15e8j,6CAFABdil,6CB077bt,6CB0CE8hv,6CB0FDbzq,6CB13314o,6CB158cvj,6CB227cba,6CB2AE2s3,6CB2FDd7u,6CB311bud,6CB34Dbmq,6CB350135,6CB4564ba,6CB4A77d4,6CB4FD5ty,6CB56B5h8,6CB6CA3c8,6CB7495gu,6CB7E25gu,6CB7F4ba7,6CB881f94,6CB9C53ja,6CBAB8b9l,6CBEE9xe,6CBF2Fezk,6CBFB58zy,6CC147ejf,6CC1D22vw,6CC2175om,6CC242bx6,6CC26B14o,6CC36Af8g,6CC374d7u,6CC3B22s1,6CC41E8jn,6CC49F5on,6CC4D55f4,6CC63Bcz2,6CC7ECaom,6CC8404ba,6CCA082vw,6CCB7F4u3,6CCDD68hv,6CCE44b,6CCF39blj,6CD008f94,6CD032797,6CD1464i5,6CD199f8g,6CD1B0e4y,6CD1E55gu,6CD2BAf94,6CD3EEeq6,6CD552au3,6CD630alb,6CD63F5gu,6CD68A798,6CD6E32s3,6CD7045gu,6CD7194lk,6CD71F4zc,6CD7A0e4k,6CD8695ah,6CD8FBa5b,6CD94Cf8g,6CDA1Db6h,6CDC6Aa0t,6CDD302s3,6CDDBCba7,6CDDEF3y5,6CDEA92s1,6CDFD92xf,6CDFFB5zq,6CE01E8ba,6CE0B0b2n,6CE20C5kq,6CE2D38vr,6CE3B68sg,6CE40Daez,6CE4A4c4v,6CE4CEdyt,6CE4DA8gl,6CE5C914o,6CE5F78vr,6CE85C14o,6CE873cvj,6CE8745gu,6CE8C641o,6CE9078zj,6CE98350z,6CEBB23p4,6CEBB65gu,6CEC5A5rz,6CECA1au9,6CECEBd7u,6CED518jj,6CEEF7f6t,6CEFBD2s1,6CEFC6awb,6CF0494w0,6CF17Eetk,6CF2D823n,6CF373ba7,6CF37F5on,6CF43De2h,6CF5E88c3,6CF6DA6gz,6CF7128zq,6CF784ejs,6CF97C8q1,6CF9D2278,6CFA581cm,6CFA892s3,6CFAA7dt,6CFBED4xb,6CFD22c4v,6CFDB9a1k,6CFE546gz,6CFFBE7vv,6CFFCEb9l,7001364f6,7001B52s3,7002581,70033F9u9,70037Edv4,70039F4ba,70041D4ba,7004332i4,700514798,7006925zq,7006AC41s,70077799j,7008106gz,7008947ik,700971ba7,700B01b9l,700B4F2s3,700BC03k9,700F6A2s3,700FC7auz,700FEC9w9,70105C2s3,70106F5on,70110Ef94,70112414o,7011357iv,7011AE8dy,701301duy,70138414o,7014047ha,7014A614o,7015FB6gz,70169F4bm,7017D7bjj,70188B5rz,7018A72s3,70192F5gu,7019888pg,701A047ik,701AB86gz,701AD51cw,701AED8t,701BFB6gq,701CE76gz,701D082o,701D7F2x7,701DC490f,701E685la,701F0Be4p,701F3Cba7,701F532s3,7020845s0,70217Fejs,7022FE14o,7023939wy,70246Eetc,7025268zj,70255933y,702605b2f,702661do8,702804agu,70287D56h,70288Bba7,702900bpw,702A7D4a2,702AD5ba7,702AD78vq,702B1D3rr,702C098yt,702C1Feda,702D816d5,702D84f14,702DD18w9,702E22f94,702E803ap,702ED95ak,702F355gu,702F4Bcek,702F8680j,702F97nh,7030181cm,70305Ddlt,70305E8pu,70317F14o,7031876q,70320Calx,7032176gz,7032D519r,7035092s3,70357Bf8g,7036B24o1,70378Edan,703811c3q,7038B47kq,7038EE1cm,703A0E5on,703A2Dbyp,703A51ejs,703A73bxi,703A8Cbx6,703AA68vr,703ACB56h,703AD8bop,703C03ads,703C39ar4,703C6914o,703D155k3,703E7615q,703E976lh,703EAC14o,7040FF5ty,7041B743i,7042D3am3,70441Cav7,70464227z,7046985gu,704777alx,7047E9f8g,70480F14o,7048B52gh,7048F78yt,7049A2evs,704A0Edt,704AAEekj,704AE4ajz,704BCA4ba,704CA214o,704CA54ou,704CB6bxm,704CC1dc4,704CEDctw,704D7Bjj,704DE7cpb,704E016yz,704E66aui,704E6B5gu,704EE0ba7,704F08bt4,704F57cvj,704FB82vw,7050AFazx,7050E75zq,7052C51cm,7052D8687,70533Fxs,7054252vw,705464c4v,7054B4dx9,7054D29gg,7054F55gu,7055F82mj,70568114o,7057BF8vr,7058129nx,705846dg7,7058966bc,7058A4q7,70595782t,70598694m,705A0F5om,705A6F5zq,705A9Edv4,705AACba7,705AB62bf,705B2E7ms,705CAD741,705DCC3u8,705E55agv,705EAAq2,705FA3ejs,7060DE7ck,7061732hx,70617B2s3,7061BEe5t,7061EEchn,7062B8351,7062CB14o,70641795x,706582cii,7065A3701,70661Bcb1,70662Acb9,7066551er,7066B95ty,7066E1ey9,7068714h8,706879b9p,70695A2s3,7069795zq,706AC9f94,706BB92s3,706D152s3,706DECebe,706E105gu,706E6D2s3,706F819zs,70700D14o,7070135gu,70704Ca2f,70708B2s3,7070AA10n,7070D55gu,7070FC4xr,7071B31z1,7071BC9gg,70720D7fd,70723C5gu,7072CF435,7072FE14o,70733A6sc,7073625gu,7073CB14o,7074148dt,7076302vw,7076DD9e6,7076F07fu,7076FF6w1,7077815rz,70788Bf8g,70792D848,707938eg0,7079905gu,7079B32s3,707BE85gu,707C186x,707C691cm,707CE35gu,707D95bpz,707DA1b9l,707DAF9vz,707DB92s3,707E432vw,707EDA4yq,707EDE8fd,707FF2d3c,7081052s3,7081858vr,7081EB14o,70820Eewb,70828E98n,70853615q,708540c7d,70856Cam3,7085C2iz,7085C4am3,7085C62vw,7086C1d7u,7086CE4u3,70879E1ss,7087A78dt,70884D6mp,708976dhv,7089CC2pi,7089F53p1,708A095gu,708B78exc,708B9763d,708BCDjj,708CB65gu,708CBB7tf,708CF214o,708D098zj,708F47f8g,70904189v,7090B75ty,70918Fe8k,7091F3do6,7093836hj,7093C1ezk,7093F8cc9,70968414o,70974115q,7097511sa,7097565lv,709883av8,70991Cbsu,709A0B6lb,709AC45ty,709BA5bzw,709BFC217,709C455gu,709C8F8si,709CD16gz,709E29cb9,709E86egj,709F2Df94,709FA9cpb,709FEC2gj,70A04B6gz,70A191dfk,70A2B314o,70A3A41pd,70A41Ct1,70A56Abpj,70A66Aa1n,70A6BD5sy,70A6CC6gz,70A7035sy,70A741dlp,70A84C7vf,70A8A587m,70A8D36gz,70A8E35gu,70A9832s3,70AAB21w6,70AC08c4v,70ACD7bzz,70AD431we,70AD547zb,70AE2A14o,70AED514o,70AF094ba,70AF24cvh,70AF258z6,70AF6Aauk,70B035c0l,70B08Cboc,70B13Dba7,70B14E2vw,70B258alx,70B2655pm,70B30614o,70B3172s3,70B3D55zq,70B51A5ty,70B59946k,70B5E83ix,70B64F5aq,70B65143x,70B7AAf8g,70B7E26rx,70B7E420l,70B8F64ba,70B9214lk,70B950d7u,70B9BBbsh,70BAEF5k3,70BB5B14o,70BBE9ejs,70BC1087m,70BC482s3,70BD962s3,70BDD2s0,70BF3E2nj,70BF924xb,70C2886gz,70C59Cc4v,70C6AC1y6,70C6DD8vr,70C76F62q,70C7F25gu,70C833ed6,70C912c2p,70C9323q7,70C94E7ik,70C9C62s3,70CA4Dc0u,70CA97alx,70CA9B2s3,70CD0D6gz,70CD6014o,70CD91cro,70CE8Cba7,70CF496gz,70D07Ec4v,70D0811qq,70D3135gu,70D3792s3,70D4F2aay,70D51E4lk,70D57Ebc0,70D5E7e98,70D6B685x,70D8236gz,70D880dot,70D8C26gz,70D923f8g,70D9312il,70D983bk6,70DA171bh,70DA482s3,70DA9Ccpi,70DB982s3,70DDA1d56,70DDA84zc,70DDEF5ty,70DEE214o,70DEF94es,70DF2F2s3,70DFF72vw,70E0275fw,70E1391w,70E1FD4gp,70E24Cann,70E284edg,70E4222s3,70E46E7md,70E56Ed7u,70E72C14o,70E8431ol,70E9975gu,70EA1A2s3,70EA5A14o,70EB748yn,70EBA55ty,70ECE414o,70EDFAf31,70EE508tm,70EEA349z,70EF0014o,70F08714o,70F0888yt,70F0962s3,70F11Cbvk,70F1763gw,70F196q7,70F1A17ik,70F1E5eiw,70F220q7,70F35A2s3,70F395do8,70F6CFahy,70F74Fakm,70F754dt,70F82B3eu,70F8AE87m,70F8E75zq,70F927ba7,70F94A14o,70F96D5k3,70FC8C99q,70FC8F4i9,70FD455gu,70FD46ba7,70FD888p7,70FF5C2nr,70FF76d7u,7400E85gu,7402E1d7u,7403BD1l4,74042B7fc,7404F08b5,7404F16gz,74051D6sd,74057Ca5a,7405A5cvj,740635asj,74077Ea6l,7408AAam3,7408DE4qx,7409ACa6s,740ABC7h1,740AE15ty,740B12c4v,740BB05py,740CEE5ty,740EA414o,740EDB9cd,7410E020l,7411A08zj,7411B22s3,7412137hu,7412B327q,7412BB4lk,7413481we,74136A8cw,7413EA6gz,741489b43,7414D014o,741575ejs,7415E2dfs,7415F514o,741865bjd,74190Aba7,7419F85zq,741AE05zq,741B392dj,741BB214o,741C27687,741E934lk,741EB1ba7,741F4A5k3,741F79emj,74205Fc0j,74220D27a,7422BB5ty,742344ejs,74238Df94,7424355ty,74249Fct5,7424CA5aj,7425548o2,7425845zq,74258A5k3,7426AC2s3,7426FFf94,74272Csj,74273C2n2,7427EA45j,742857829,7428695ty,7428AE848,74291714o,7429207pj,74295914o,7429726tm,742981d7u,7429AF5rz,742A8Af6w,742B0F6cr,742B624j0,742D0A904,742E4Fcex,742EC13nz,742EDB9rc,742EFC3ne,742F681er,74309D6d5,7430AF4lk,74317015q,74317414o,74317Ealx,7432568n9,7432C26zd,7433365zq,743357f8g,7433A6bxm,7433E9f94,7434007wq,74342B5gu,743491bu4,7434AEf7t,74366De1d,74372Fdch,74373Bdjw,74375Fasg,743822ejs,743889eo,7438B723n,743989cvj,743A208vr,743A658gc,743AEF706,743AF46gz,743C18cz2,743C245gu,743CDE5on,743E2Balx,743E39emv,743ECB52y,743F8E14o,743FC25k5,7440BB5rz,7440BE79b,74421814o,74427Fme,74428B14o,7444018hv,74452D5ty,74458Aba7,7445CE2f8,74468772f,7446A05om,7446B3d7u,7449D28vr,744AA4f94,744BE9417,744CA17ik,744D2888b,744D6D5gu,744D79173,744DBD4ba,744DDCcat,744F80f6f,74504E8vr,7450CD5gu,74518F6rr,7451BAejs,7452CE5ob,7453272b2,7453A85w,745427aui,74546Bf0r,74547D2s2,7456122vw,74563C4w0,745798cx0,7458898dl,7458F310n,7459095gu,7459333fy,745AAA5gu,745BC55zq,745C4B4xb,745C9Fco5,745CFAbwy,745D2277z,745D431kr,745D684lk,745E1C9hx,745EA5f6v,745EB4em9,745F00baa,745F9076z,745FAEcxd,74604Cabz,7460FA5gu,74614B2qk,7461D14xq,7463C25ty,7463DFdtg,74650C14o,7465D11a2,746630cm9,74675F2bg,7467F74e3,746859b68,74694Ac2w,746A3A144,746A84d7u,746A89aj5,746A8Fdsy,746AB37rm,746B827vt,746BAB4z9,746DFAba7,746EE418c,746F195xu,746F3D2yb,746F88f94,746FF7e5t,7470695ty,7470FD6gz,74718B14o,74721E43g,7472B05ak,7472F22q4,74731Df2v,7473367s6,7473B414o,7473E25pj,74744656h,74754810n,7475633qs,7475DFcp7,74761F87m,74765Ba6l,74767Df6p,74778614o,7478186ts,7478273ix,7478476ig,7478A64ou,7478DEf8g,747A908dt,747B7A3zs,747D249s6,747DB6yh,747E1Aah8,747E2D1ro,74803Faie,74811414o,74819A9lx,7483A0buz,7483C2dlp,7483EF16e,7484698yt,7484E13ov,74852A9gg,7485C48vr,74860B2s3,7486694zc,74866Ff94,74867A3ix,7486E23ix,74872E5gu,7487A992s,7487BB2ri,74882A5gu,74888B6y,7488A81yo,7488BB2s3,748A0D2vw,748A285f4,748A6974r,748B23ba7,748B29868,748B34bli,748D0814o,748DAA5gu,748E081u2,748EF820r,748F1B810,748F3C14o,748F4Deyg,748FBF4zc,748FC22s3,74901Faeq,749050aid,7490BC15q,74911Aalx,7491BD4p9,7492BA8d4,7493A4eri,7493DAip,74943Du4,749533e9m,749552ekw,7495A771m,7495ECca,749637dbw,749779296,749781f94,74978E90t,7498F41l4,7499755xb,749AC02hp,749B895gu,749BE85qz,749C525uj,749CE373j,749D79bhm,749D8F5gu,749DDCr,749E755on,749EA5936,749EAF14o,749EF5ba7,74A02F2s3,74A0635gu,74A2355zq,74A2E62s3,74A34Aeq6,74A4A7a39,74A4B59ya,74A5285gu,74A57E9nz,74A58Cd7u,74A5C26z7,74A6CD14o,74A722798,74A78Ef94,74A7EA10n,74A9815gu,74AB931we,74AC5Fa4g,74ACB9dlp,74AD45du3,74AD982s3,74ADB72pi,74ADCB8vr,74AE76f1x,74B00C8v3,74B0598cw,74B3EA3ur,74B472286,74B57Ef94,74B58714o,74B6B6ezk,74B7255ty,74B7B3bzz,74B7E6ero,74B80Fev1,74B839d7u,74B8A85gu,74B91E8p0,74B9EB6sl,74BADB7k7,74BBD3c0x,74BC6B6gz,74BE08jt,74BEF38cw,74BFA15i5,74BFB7921,74BFC023n,74C14F5gu,74C17D6d5,74C17E797,74C24610n,74C330aui,74C41287m,74C530f8g,74C621et6,74C63B1er,74C64A9v,74C76Ead4,74C90F86y,74C929et2,74C99A4at,74C9A34lk,74CA252id,74CA60caz,74CBF37dv,74CC394lk,74CC4014o,74CD0Cc8m,74CE569mt,74CF00bxm,74D02Bjj,74D0825eo,74D0DC4at,74D21D5gu,74D285d7u,74D42310n,74D4354w0,74D4DDa5w,74D5584zc,74D59Cf0d,74D5B86do,74D5C686y,74D5E814o,74D63710n,74D6544w8,74D675e6f,74D6CB8vr,74D6E55ty,74D6EAd7u,74D7135tw,74D7CA9ns,74D80987m,74D83E6gz,74D8504d6,74D8734za,74D9EB9rj,74DA3843f,74DA785gc,74DA88cvj,74DADA351,74DAEAd7u,74DBD1428,74DC13d4x,74DDCB2pf,74DDF0atu,74DE2B7ik,74DFBF7ik,74E06E4ar,74E1474zc,74E14A5zq,74E182d7u,74E19A4lk,74E1B614o,74E20C10n,74E277e18,74E28C87m,74E2E72s3,74E2F514o,74E3364it,74E424fo,74E50B6gz,74E537a7u,74E5437ik,74E5F96gz,74E60Fcpb,74E6653r7,74E6B8797,74E6C77c4,74E6E23ix,74E7986tm,74E7C62vw,74E98714o,74E9BF5gu,74E9D8bjv,74EA3Acvj,74EAC88vr,74EACB8vr,74EAE82vw,74EB80ba7,74EC424lk,74ECB210n,74ECF1qj,74EE2Aau3,74EE8D14j,74EF4B4zc,74F06D1er,74F07D1xk,74F1021pf,74F2FAejs,74F413824,74F441ba7,74F6122vw,74F61C5gr,74F661bcp,74F67Aba7,74F7147ls,74F7268vf,74F7376va,74F7F6blk,74F85D1to,74F8DB5zq,74F90F5gu,74F91A99w,74F92Cdlp,74F9CA8yt,74FA29dlp,74FB17a4n,74FC45ay0,74FC775gu,74FDA02wv,74FE488r,74FECEcvk,74FF4Cc7d,74FF7Deew,78009Eba7,7800A89lo,78028B14o,78028Fr1,7802B12s3,7802B7bo1,7802F8ejs,78034F8zj,780473d7u,78047A433,7804E35ty,780541a6k,78055Fbz2,78058Cf4h,7806C95ty,78071C57h,780738eoy,78078F5gu,78084D5gu,780A57bki,780AC71ml,780B8C9zs,780C26de8,780C485sq,780C716fw,780CB86gz,780CF02s3,780ED1cx2,780F775jj,780F812s1,7810532pi,781100a6a,7811858ft,78119D2s3,7811DCeh9,78123Ecpb,7812B895u,7813055zq,7813E04it,78152Ddjy,7816995gu,7817358zn,7817BE5gu,7818811er,7818A85ty,7818EC4ou,78192E8fa,7819F76tm,781C1E2qp,781C3C4ba,781C5Aatl,781C9Dc4v,781D4Af94,781DBA5gu,781DFD6pt,781EB8c0q,781F11a7e,781F7C8zj,781FDBba7,78202Ec72,782051cvk,7820795yp,7820A58yt,7820BD9ww,7821844ba,78223Du1,782288au3,782327ba7,7823AE2vw,782459xd,7824AFjj,7824BE2s3,782544998,78257A78t,7825995ty,7825ADba7,7826A6f94,7828CAcaz,7829AD8kt,7829EDip,782A796gq,782AF85zw,782B466gz,782B605ty,782B641yh,782BCB3ix,782C298vr,782D7Ecwc,782DAD5gu,782E034za,782E562pi,782EEF8zj,782F025sy,782F17ek4,78303Bces,78305Df94,7830E1dmd,7830F5cns,78312Bf94,7831C114o,7831C49np,78321B351,78324F88l,7833C6ba7,7834095gu,7834868zj,7834B45gu,7834FDf8g,7835A0evi,7836072ml,783690eoj,7836CC4zc,783716ba7,78392D5zq,783A6Ccpb,783A8414o,783CE36zo,783D5Bcr1,783E53azx,783EA18zn,783F15421,783F4D14o,7840E4ba7,78421C4ba,7844054j5,78444Abou,784476eux,7844FDcvj,7845011uh,784558dlp,78456133y,7845B35ty,7845C43ix,7845DC5gu,78465C296,78465F4lk,78467Dazm,7846C435f,7846D4ba7,78471Dba7,7847E3c2w,78482Cb4v,7848595om,7848FCcl7,78491Dd90,7849462in,7849D7ba7,784B08f07,784B878dt,784F24cz2,784F4314o,784F9B6tm,7850057vb,78507C6tm,78510C7is,78521Aba7,785237f94,7852497kt,78524A9ca,785262bss,78530Dbx6,7853331s9,785364aww,7853F2alr,78542E351,785517bb4,785536f6e,7857128ap,7857735gu,7857B04vd,7858445kr,7858605gu,7858F3dtq,78593Ea82,78595Eba7,7859685rz,785994y7,785B645ty,785C289zd,785C5E5gu,785C725pr,785DC8797,785EA2ch4,785ECC14o,785EE85zq,785F283wg,785F36bx6,785F4C168,785F6C16e,785FA42ri,78605Bcvj,786089ba7,78617C7ub,7862565gu,7862991ig,7864A02s3,7864C014o,7864E657k,7864F01rh,78653Bbmk,786559b9l,78669D5ub,7866A52q1,7866AEeqx,7866D74v6,7866F3f6w,78670Ee5t,7867D714o,786829ezk,7868F7emp,7869D4boe,786A1F2vw,786A895gu,786BA52n4,786C1C14o,786C8410n,786CAB4zc,786D949nf,786DEB4ue,787052e9d,787104c2w,78719C2vw,78725D2s3,7872645zq,7874626gz,78753E14o,787689ezk,7876D940x,7878265gu,7878355zq,787871d7u,78798414o,787A6F6tc,787B8A14o,787D48687,787D534e3,787DF3cev,787E42f94,787E6114o,787F6253m,7880384j7,788102bhm,78818C8yt,78818Fbhv,7881CE2pk,7883715gu,78843Ccb5,7884EE61l,7885172s3,7885F45ty,78862E87m,7886B6bzz,78870Ddn4,78886D14o,78888A254,78897329i,788A20dlp,788A862p5,788AFB5cg,788B2Aets,788B77cdq,788C4D6cc,788C549ub,788C77791,788CB5cvk,788DAFb9l,788DF75qz,788E336rz,788E456st,7890A2f94,7891DE590,7891E9aez,78923E8zj,78929C6gz,7893C35ub,7894B4bhm,7894E8ae2,7895EB687,78960D14o,78966E5ty,789682f94,7896842vw,7896A34e3,7897C33bv,7898E8351,7898FDa2q,7899124nw,78995C8qs,7899668e0,789987ejs,78998F7pu,789A1888b,789C851b6,789CE7bor,789ED0ba7,789F38brb,789F4C5fc,789F6Aalx,789F7014o,789F87c3a,789FAA5ty,78A03F10n,78A051f2w,78A106cvj,78A13E8vr,78A183te,78A1D8c11,78A2A08yt,78A351awq,78A3E414o,78A4BA80l,78A504d7u,78A5DDbxb,78A6839yp,78A6A05k1,78A6BD35m,78A6E120r,78A71411o,78A7C714o,78A7EBb,78A873ba7,78AA828vr,78AB6046,78ABBBba7,78AC443ix,78ACBF69v,78ACC05om,78ADDAcb2,78AE0C4kc,78AF086gz,78AF584w7,78AFB8bwg,78AFE42va,78B2133eu,78B28D1rn,78B39Fasj,78B3B9biv,78B3CE45v,78B46A5gu,78B5545ty,78B5D24cp,78B5F25gu,78B6C1f4,78B6ECbdk,78B6FEba7,78B81A641,78B84Bc2w,78B8D6eri,78BAD0c1v,78BAF92s3,78BB5C8zr,78BB8881y,78BBC1asm,78BC1A2s3,78BDBCba7,78BE814h8,78BEB648q,78BEBDb5v,78C11Dba7,78C1A7f94,78C1AE5k1,78C213b9l,78C2C05zq,78C3132pi,78C3E9ba7,78C40E5be,78C4ABbwa,78C4FA856,78C57Devs,78C5E5d7u,78C5F85ty,78C62B4it,78C6BB129,78C881cb9,78C8845ty,78C95E882,78CA048zj,78CA3914o,78CA5E3w4,78CA835zq,78CB2C6t0,78CB333a7,78CB6835f,78CC2Bayz,78CD55d7u,78CD8Eb0m,78CEA5e0b,78CF2F5gu,78CFF95ty,78D0048s9,78D129dxw,78D16214o,78D2948hv,78D3474at,78D34F9mh,78D36658v,78D38D5fv,78D3ED8m4,78D4F15zq,78D5B58fl,78D66F16f,78D6B2dd6,78D6D6ezk,78D6DC8cs,78D6F0aol,78D71A2ri,78D7525gu,78D75F14o,78D8005zq,78D840ejs,78D99F91l,78D9E97ve,78DA07etj,78DA6E2s3,78DAA234j,78DAAF5gu,78DAB34tx,78DB2Fd7u,78DC875gu,78DD085rz,78DD1215q,78DD335gu,78DDD6ex2,78DDD95ak,78DEE4d7u,78DF72bk2,78E0C5ba7,78E10310n,78E1677dr,78E22C5ty,78E2BDe1c,78E36D4ba,78E3B55om,78E3DE14o,78E4005rz,78E61C5sy,78E7D15om,78E8B6f94,78E980aew,78E9965zq,78E9CFcqx,78EB14aui,78EB396ge,78EB465gu,78EC22bl6,78EC7475w,78ECB5am3,78ED258vr,78EDBC99u,78EE4C4ba,78EF4Cdml,78F09B5ty,78F13B10d,78F1C62s3,78F235c2p,78F238ba7,78F27634e,78F29E9gg,78F5058dt,78F5575gu,78F5E51gl,78F5FD5gu,78F7A39b6,78F7BEba7,78F7D0c5b,78F882798,78F8B8af1,78F9449zs,78F9B48zq,78FBD814o,78FC144k4,78FD9414o,78FDF1bsx,78FE3D6tm,78FE41c92,78FEE2bjf,78FF576gz,78FFCAcpb,7C004D5gu,7C010Ad7u,7C013E4yq,7C0187339,7C019114o,7C02BC5lm,7C034Cb9l,7C035Eejs,7C03ABejs,7C03C9bzz,7C03D8b9l,7C04D014o,7C05079gg,7C051Ea81,7C0623dmb,7C08D9bj0,7C092B1st,7C0A3Fba7,7C0A506lw,7C0BC6ba7,7C0C5F4ba,7C0C92cim,7C0CF659a,7C0CFA5gu,7C0ECE2s3,7C10151zy,7C10C9jj,7C11BE14o,7C11CB5gu,7C11CDa49,7C131Dasj,7C14763fu,7C152Daie,7C160Db9o,7C162A5ty,7C1689b9l,7C17793wg,7C18CD3s6,7C19605gu,7C19E356h,7C1A032l,7C1AC05gu,7C1AFC3fo,7C1B935ty,7C1C4E79b,7C1C68ba7,7C1CF15gu,7C1DD9ejs,7C1E068vr,7C1E4A4hs,7C1E5287m,7C1EB3q,7C204873g,7C2064xe,7C210D2s3,7C210E2s3,7C214A6gz,7C21D8by5,7C2302ba7,7C240Cd3c,7C246Abdb,7C249914o,7C25866tm,7C2587ex9,7C25DA4h8,7C26342vw,7C2664b9l,7C273Cc0d,7C27BC5ub,7C296F14o,7C2A316gz,7C2ACA14o,7C2ADBejs,7C2BE1brf,7C2C674ba,7C2CF3beb,7C2E0D1w7,7C2EBD56h,7C2EDDba7,7C2F80547,7C310E2s3,7C3180b0q,7C31FAc4v,7C336E7px,7C33F95gu,7C3548des,7C35F8etj,7C36265gu,7C3866d7u,7C386Cagl,7C38ADba7,7C3920b49,7C3953f94,7C39855gu,7C3B2D14o,7C3BD56an,7C3CB6bst,7C3D2B5ty,7C3E745ty,7C3E821yo,7C3E9D9ff,7C41A28zj,7C438F3rp,7C444C498,7C45D0bza,7C45F95zq,7C46858cs,7C477C5zq,7C48B2dxz,7C49B99vx,7C49CFezk,7C49EBeh9,7C4A829x3,7C4AA888v,7C4B2614o,7C4B78ahb,7C4C58bc1,7C4CA5azx,7C4D4Aetz,7C4D8F5gc,7C4E09bx8,7C4F7Dbbx,7C4FAD4ba,7C4FB515q,7C4FCD14o,7C504914o,7C50796gz,7C50DA3sc,7C5184dnk,7C5189at1,7C5259c2u,7C534A85d,7C55A770b,7C55E7emn,7C573C5on,7C574E2a7,7C57585gc,7C59B114o,7C5A1Ccbb,7C5A676oa,7C5C8D3wg,7C5CF86gz,7C5E98ezk,7C604A1cp,7C60975gu,7C60DBf94,7C613014o,7C616610n,7C61935gr,7C62E72s3,7C630510n,7C6456ba7,7C646C797,7C669A5gu,7C669Dd7u,7C66EF5ry,7C67A26gz,7C67ABal4,7C68B95ty,7C692B5gu,7C696B1a7,7C69F62s3,7C6A602pi,7C6A8Aaz0,7C6AB35x8,7C6AC3513,7C6AD78vr,7C6ADBb97,7C6AF36gq,7C6B33d6d,7C6B52daw,7C6B9C4zc,7C6BF78nb,7C6C399i6,7C6C8Fdy,7C6CE1bsu,7C6CF0bxt,7C6D1287m,7C6D6214o,7C6DA6chy,7C6DF814o,7C6E475ul,7C6F062kw,7C6FF8bn0,7C70BC5zq,7C70DB6gz,7C7176eg2,7C726E4at,7C72E4dna,7C72E7d7u,7C738B2u4,7C73984ba,7C73EB5ty,7C752Dba7,7C7630bzz,7C76356gz,7C76685gu,7C76733xo,7C7716evs,7C787Eba7,7C78B2ega,7C79D48uz,7C79E89qb,7C7A3C8vr,7C7A539tj,7C7A916gz,7C7B1C8cw,7C7B68dr8,7C7B8B2yn,7C7BBFba7,7C7BE4eos,7C7D21f94,7C7D3D5gu,7C7D416sq,7C7EF9ezk,7C822D908,7C8274bso,7C830654o,7C83345zq,7C84372po,7C852F5ty,7C85308zj,7C87672s3,7C87CE4ba,7C88994h8,7C89315ty,7C8956ba7,7C89C19nf,7C8A3Ca4x,7C8AE12bf,7C8BB5ba7,7C8BC16d5,7C8BCAcvj,7C8C09848,7C8D91bjw,7C8D9C43a,7C8EE4d7u,7C8FDE3eu,7C90E94zc,7C9122ba7,7C942A5gu,7C949Fc0q,7C94B29sg,7C95B14e3,7C95F32s3,7C96A08yr,7C96D24lz,7C97639b3,7C97E15ty,7C9824b9l,7C992Ebl2,7C9946be4,7C9A1D14o,7C9A54dv4,7C9A9Bdsz,7C9EBD4ba,7C9F07287,7CA05E8cw,7CA15D4xe,7CA1775gu,7CA1AE14o,7CA236dwp,7CA237728,7CA23E5gu,7CA29B358,7CA449ejs,7CA4F74e3,7CA53E8cw,7CA58Ff6i,7CA61D7re,7CA62A5on,7CA7B0au3,7CA85Dacb,7CA8EC5on,7CA9095ub,7CA96Bcks,7CA97D97o,7CAADE10d,7CAB257qt,7CAB6014o,7CACB21yf,7CAD4F2s3,7CAD742s3,7CAF778zj,7CB03E6k8,7CB073agu,7CB0C26gz,7CB15D5gu,7CB177bbq,7CB21B2s2,7CB2325ub,7CB25Co7,7CB27D6gz,7CB30Af94,7CB3532s3,7CB37Ba4x,7CB40F4ln,7CB5425q,7CB5666gz,7CB59Bcvj,7CB59F5gu,7CB68D89v,7CB733ip,7CB77B9os,7CB8DA8dt,7CB8E64ye,7CB94C1yo,7CB960bm4,7CBAC040f,7CBAC6c9k,7CBACC5zq,7CBB6F30p,7CBB8A8yt,7CBC845zq,7CBD068v,7CBECE9zs,7CBF77b3g,7CBF888ay,7CBFAEaie,7CBFB12vw,7CC0259nf,7CC06F14o,7CC0AA87m,7CC17762h,7CC1784at,7CC18014o,7CC225ba7,7CC255cho,7CC2941sa,7CC2C6cvk,7CC3855gu,7CC3A114o,7CC4EF3k3,7CC518f8g,7CC53714o,7CC6B6c4v,7CC6C473v,7CC709avt,7CC74A4lk,7CC77E4lk,7CC7909nf,7CC8825gu,7CC8ABpk,7CC8D0ct2,7CC8D73ft,7CC8DF14o,7CC926ef4,7CC95A3iy,7CC95E3p0,7CCB0D13k,7CCBE25zq,7CCC1Fc2w,7CCCB86gz,7CCCFCa6l,7CCD117wd,7CCD3C5a6,7CCF0F77z,7CCF4E4g2,7CCFCFblc,7CD1AD14o,7CD1C314o,7CD2DA14o,7CD30A64s,7CD3E55gu,7CD44Dbkw,7CD4A8b9l,7CD5444ba,7CD56610n,7CD62C14o,7CD661ejs,7CD7624q9,7CD84448u,7CD95C56h,7CD9A05gu,7CD9F4dil,7CD9FE8vo,7CDA843p8,7CDAC3c2w,7CDB98ip,7CDC735gu,7CDCCC1gz,7CDD112ql,7CDD2065d,7CDD76cii,7CDD90bvk,7CDDE9kg,7CDE788vr,7CDFA14ba,7CE0448gz,7CE152csj,7CE1FF2x0,7CE269d7u,7CE2CA6tm,7CE4A15zq,7CE4AA9zs,7CE524a6w,7CE53F5gu,7CE56B3z2,7CE712a6l,7CE87Fb9l,7CE8B14ba,7CE9134k9,7CE97C687,7CE9D35rz,7CEB7F3o3,7CEBAEajj,7CEBEAic,7CEC79d7u,7CEC9B4sn,7CECB114o,7CED8D87m,7CEDC610n,7CEE7B7jo,7CEF1831n,7CEF408xg,7CEF61b5l,7CEF8A6e4,7CF05F14o,7CF0981nz,7CF0BA7hx,7CF0E599u,7CF17Ecvk,7CF2DDdvw,7CF31B798,7CF34D14o,7CF4298nx,7CF4621gu,7CF666dhv,7CF854ba7,7CF8802s3,7CF90Eba7,7CF95Cdie,7CF9A04lk,7CFA806rf,7CFAD6agu,7CFADF14o,7CFC1614o,7CFC3Ce06,7CFCFD4lk,7CFD6Bejs,7CFD824za,7CFE28b9y,7CFE4Ebwm,7CFE62bo4,7CFE90848,7CFF4Dme,7CFF625un,80000B6gz,800010jn,80006E14o,80015Cck6,8001845gr,80029C51n,8002DF95q,8002F45zq,80030D23n,800384alx,80045F14o,8005185gu,80051Fe17,80053A281,800588am3,8005DF8bw,8006D9f94,80071Bdt2,800794ba7,8007A24bi,80090271n,800A062ce,800A805zq,800B512op,800C6714o,800CF910n,800D3Fba7,800DD77dq,800E244oh,800EA9co2,80124214o,8012DFbxm,8013166gz,8013825gu,8013BE6tm,801440ch5,8014A85aq,801605e1d,801609c7g,8016B7212,80177D90b,8018443ix,8018A7ba7,8019346gz,801967bl9,801970ba7,8019FE6rd,801A2310d,801D0D5zq,801D3914o,801DAA1cm,801F0243f,801F1286z,8020AFde6,8020DAb9l,8020E11lf,8020FDba7,8022751oe,8022782pj,8022A78gl,8022FA687,802395me,80248F2s3,802511687,802689351,80276C2s3,80283Ccb1,802994dv4,802AA8dlp,802AF65sy,802AFA53c,802BF95rz,802D1Af94,802DBF2s3,802DE1c9q,802E14ewj,802EC35gu,802EDE5ty,802FDEevg,8030497ik,8030DCd7u,8030E05on,8031F0ba7,8032536gz,80342886z,80345796v,8035C1ejs,8037738hv,803896atl,8038BC5gu,8038D44lh,8038FB6gz,8038FD7ec,80398Cba7,8039E59fj,803A0A6gq,803A59jn,803AF44lk,803B2A4l,803B709zs,803B9Af0j,803BF67bd,803C04cvk,803C205gu,803E48auq,803E4F4u3,803F5Dech,803FD414o,803FD6ex1,804005593,8041265gu,80414E1g3,80427Crt,80433F6tm,80435E7lh,8044FD2pg,80456B4ba,8045DD6gz,80471514o,8047319mr,804786ba7,80482Cega,80486344e,80489F5k5,8048A5c2w,80497114o,8049BFcz2,804A1414o,804AF2caz,804B20dw3,804B50c4v,804C5D8o9,804DCB5ty,804E70ba7,804E81ba7,804F58d9i,80501B8zj,805067e2n,8050F6687,8053E04ba,80542Dba7,80546Aauq,80549Cba7,8054D95gu,8054E314o,80563Cepn,8056F25rz,805719ba7,805722efw,8058C590y,8058F88cw,8059FD91d,805A04798,805A704ou,805B6579b,805E0Celp,805E4F4h8,805EC0elp,805F8E5ug,805FC514o,806007aay,8060365gu,8060B7296,8061322s3,80615F1rd,80616C8vr,80618Fc0w,8064598yd,80646F4ba,80647A98m,80647Cdhv,8065593wg,80656Dba7,80657C14o,8065994ba,8065E91t9,8066299z4,80691A1t5,8069335gu,806940790,806A002s3,806A10ea9,806A341yo,806AB0bxt,806C1B8cw,806C8B6ue,806CBC8ha,806D7110n,806D979zs,806DDE1ss,806F1C5ty,806FB0d7u,80711F6tm,80717A5gu,807215azx,8072645ty,80739F6z7,8074596u2,807484bt,80751Fazx,8075BFba7,807677f0q,8076938w4,8076C24u3,8077865zq,8077A4cpb,807871ip,807933ur,80795D6d5,8079AEbih,8079EFb5w,807A7F49,807ABF5gr,807B1E30i,807B3Eba7,807B855zq,807C0Af94,807C625k5,807D145gu,807D1B8s6,807D3A4ba,807DE32qn,807DF9848,807EB4bxm,807FF86tm,80802C4ou,8081A5cul,80822314o,808287jr,8082F5b5e,8082FE15q,8083F614o,8084896gz,8084A9f5t,8085446h3,8086988ue,8086D9ba7,8086F26gz,808800f94,808917cvj,808943ba7,808A8Bf8g,808ABDba7,808AF78py,808B5Cbw9,808C97706,808DB75on,808F1Dcvj,808F97ejs,808FE86h3,80912A7h3,8091331er,8091C0uf,80929F14o,8092A5du5,809393eig,80946Ccud,80953A14o,8095624e3,8096217f8,80969814o,8096B12vw,8096CA5rz,80971B107,809733br1,80999B8dt,8099CFd7u,8099E7cb5,809B206gz,809B31ehb,809D654h8,809F9Bc2p,809FAB4lk,809FE4atu,809FF5ba7,80A036bkp,80A197f81,80A1AB6hs,80A1D7bjd,80A23543b,80A2FC1er,80A5795zq,80A5891er,80A63C10n,80A7968vc,80A85D9dd,80A99714o,80AA1C7lx,80AAA4dkz,80AB4D8zq,80AC7Cc2p,80ACAC6tm,80ACC89tc,80AD16ejs,80AD6770a,80AE3Ccz2,80AE54cvj,80AF1914o,80AF9Fezk,80AFCAbqa,80B03D14o,80B07Bf94,80B2193vi,80B234dv4,80B269cgb,80B2894p1,80B32Adj4,80B54E4ba,80B5755gu,80B5C693x,80B624692,80B6556gz,80B6865gu,80B7081wp,80B709dz6,80B745d8t,80B82Aagu,80B9468zj,80B95C3vn,80B97Aezk,80B98914o,80BA16866,80BAACd34,80BAE68rn,80BBEBbbs,80BC37alx,80BE0514o,80BEAF5k5,80BF21f8g,80C01E6gz,80C16E5om,80C2F0ejo,80C3BAcb2,80C41Bd7u,80C429aif,80C45D65v,80C501987,80C548c0l,80C5E687m,80C5F21er,80C63Fai3,80C6ABdv4,80C6CA484,80C7559nr,80C7C54lk,80C8629b4,80C955aho,80CA4Baup,80CA52ede,80CBBCa4x,80CC125ty,80CC9C8hv,80CE625om,80CEB1d93,80CEB9ba7,80CF417fd,80CFA25ty,80D01946c,80D04Adv4,80D06528t,80D09B5gu,80D10Ac2p,80D1606gq,80D175f20,80D18B5ka,80D1CE14o,80D21D1er,80D266bc2,80D2E58yt,80D33626g,80D4337mg,80D4A55gu,80D52C1on,80D60514o,80D733a3d,80DA13ezk,80DABC83r,80DAC2dv4,80DACE5ty,80DB176tm,80DB319xs,80DECC5hn,80E01D2s3,80E1BF5gu,80E4558vr,80E4BA6gz,80E4DA5zq,80E5402vw,80E63Cejs,80E65014o,80E769agu,80E82C5om,80E86910d,80E86F2s3,80E8A4f94,80E94A788,80EA07cvj,80EA0Bevs,80EA23e5t,80EA9614o,80EACA3kk,80EB77edb,80ED2C14o,80EE25bx6,80EE73c28,80F0CFalx,80F1A45gu,80F1A85ar,80F1B24ba,80F1F1d0w,80F25E76a,80F3DA4ba,80F3EF856,80F4162q0,80F5032vw,80F59366j,80F5AE5k5,80F5B5d7u,80F62E5k3,80F7A6bpj,80F8EBafv,80FA5B292,80FB065gu,80FBF0a6l,80FBF14q7,80FD7A1iv,80FD7B1iv,80FFA8djp,84002D9gg,840055e2h,8400D2cb5,8400ECbmv,840112706,84016E5sy,8401A7581,8402835h8,8403286tm,8404D272q,84051114o,8406FA4lk,8407C4e6r,84083A6gz,840A9E8wq,840B2Daol,840B7C5qz,840BBB8a3,840C6D2s3,840D8E4ba,840F2A6sd,840F45bjq,840F4C14o,84100D8cw,84119Eba7,8411C25zq,84139Ff94,84144D6gz,841571co5,8415D35gu,84160C20l,841623f94,8416F9cvj,8417154y2,841766e3v,8417EFdv4,8418269dc,84183Aalx,8418886tm,841985ba7,841A24dk0,841B38br3,841B5E8hv,841B776gz,841C70f94,841DE828m,841E1Abbf,841E266w2,841EA3b9l,841FE84ba,842096avt,842141brz,8421F15gu,84225Eaw2,842289ba7,842388alx,84248Deri,842519ba7,84253Ff70,8425A4d0i,8425DBba7,8426156y,84262B8zj,84267A4zf,8426901h0,842712c4v,84278914o,8427B62pj,8427CE30e,84285910n,84285Ab9c,8428D6asm,8429143wx,84299914o,842AFD5gc,842B2B3ix,842B505vf,842BBC8bc,842C80c2r,842E14c4v,842E27ba7,842F5714o,842F756er,8430955ry,8430CEbte,8430E5c70,8431A84rw,84326F4zh,8432EAel,8433F2bxe,8434975om,843611f0u,8437D5ba7,84383514o,843838aom,84398F4ou,8439FC8zj,843A4B6gz,843A5B6k5,843B107c8,843C4Cake,843C99f94,843CFC5gu,843DC62s3,843E03b9l,843E1D5ub,843E79bp9,843E925gu,843F4Edfu,8440763qf,84416714o,844464bhz,8444AFetj,8445A0dhd,8446931sa,8446FE5gu,844709bt7,8447655gu,844823e66,84488010n,844915f8c,8449EE3jh,844BB71r8,844BF55rz,844D4Crx,844DBE4lk,844F03nv,84502916e,8450755ty,84509A41y,845181ba7,8452346tm,8453CD2pi,8454DF5ty,8455A5ba7,84569C2us,84573387m,8457873ep,8457EB8cw,8457F7856,845A3E2s3,845A81f0b,845B0Ceyy,845B125gu,845C313ix,845C932mu,845CF36gz,845DD7bvd,845F04ba7,8460825vt,8461A02vw,846223bq6,8462A64c7,8463D687m,8464DD5gu,84652B3ol,8465698vr,84679A16l,84683E6gz,84687814o,8468C8cv5,8469918zj,8469935gc,846A66cgh,846AEDed1,846B48bn8,846EB19pe,846EBC8zr,846FCE4zc,8470031e4,847051ca,8470D7ezk,847127c4v,84716A5ty,8472075wd,847293d7u,8473037fq,84742Af94,847460f94,847616rd,8476375gu,8477782u3,847848dlp,84788B14o,8478AC2s3,847933f5x,847973bj3,847A885gr,847AB610d,847ADF4it,847B576gz,847BEB3ix,847C9B4u3,847CEE2s3,847D505rl,847D7E2s3,847E40d7u,847F3D6gq,84802D2s3,84809485k,8481024lk,8481EAbj3,84821B9ld,8482F41ps,8483195l6,8483368wf,8483711cm,8484339ow,84850614o,84850A5nr,8485531w2,8485E6592,848687f8l,8486F357x,8487FFbx6,8488325aj,8488E114o,8489AD14o,8489EC5zq,848A595q5,848A8D2s3,848BCD5zq,848C8D14o,848D84af0,848DC72s2,848DCE2ri,848E0C14o,848E9646r,848EDFcb5,848F693ix,84900016s,84900A15q,8492656gz,8492E55gu,84930C6b4,8493A05ty,8493B2f94,8493EC5aj,84943714o,8494595k5,84948C5qz,8496812kx,8496908dt,8496D82vw,8497B8849,849866ba7,8498A7d7u,849A405k5,849C023qk,849CA488t,849CA615q,849D4Bbpf,849D64b0k,849DC2bkp,849DC52m0,849E56296,849FB55gu,84A06Eb9l,84A13414o,84A1B75sy,84A1D1b9l,84A24D1vc,84A32915q,84A34B1mu,84A3B5a0z,84A423b9l,84A466ba7,84A6C86gz,84A783x9,84A7889rg,84A82456h,84A8E45gu,84A93877z,84A93E5om,84A99133t,84A9C45gu,84A9EA2ju,84AA9C8a3,84AAA4b2g,84AB1A14o,84AB26db0,84AC1614o,84AC6059p,84ACA41qu,84ACFB32h,84AD585gu,84AD8D14o,84AEDEejs,84AF1F56j,84AFEC1l4,84B15314o,84B1E287m,84B1E414o,84B2612s3,84B31B726,84B3865zq,84B4D2c0q,84B4DBc4v,84B5172s3,84B541ba7,84B59C6tm,84B630c2w,84B8022s3,84B8661s8,84B890cvj,84B8B88cs,84BA20c4v,84BA3B23n,84BA59ede,84BB26d7u,84BB692vw,84BE525gu,84BE8B2o8,84C0658yt,84C0EFba7,84C1C16tm,84C2E46ry,84C3E8dtv,84C5A66gz,84C665cz2,84C692d7u,84C72755v,84C78Fgd,84C7A922m,84C7BB4ba,84C7E2e2h,84C7EAcb5,84C80782,84C8A05ub,84C8B16bm,84C9B2351,84C9C6auq,84CB853wg,84CC11796,84CC635ty,84CCA84ba,84CD62bne,84CFBF4k0,84D0DB59d,84D15Aco5,84D1C16gz,84D3032q1,84D32814o,84D32A5zj,84D3432i5,84D352dcj,84D3D55ty,84D4129nf,84D47E5on,84D4C8ebb,84D5A07pe,84D608ec8,84D6C5c9p,84D6D010n,84D7DE5gu,84D81Bcvj,84D9315k3,84D9C8dng,84D9E0ezk,84DB2Fc3z,84DB9E9ue,84DBA45ty,84DBAC5gu,84DBFC8zj,84DD20d7u,84DD842s3,84DDB72rl,84DE3D32q,84DF0C8he,84DF192r3,84E0582vw,84E0F45zq,84E32357m,84E327cmq,84E342dhv,84E4D9bv7,84E5853wg,84E59Ebzz,84E5D859m,84E6291xh,84E657cb9,84E6B3db0,84E7147g4,84E892q7,84E8CB1l4,84E9865ty,84E9C1agu,84EA97c0q,84EA99dyl,84EAD26xf,84EAEDal4,84EB0C848,84EB18d7u,84EB3Ee0x,84EB3Fe0w,84EBEF2s3,84ED331g4,84EE7F5gu,84EEE4ba7,84EF186gz,84F1178wg,84F12985p,84F1472s3,84F1756se,84F1D03uk,84F1F78o9,84F2C1f94,84F3EB4ba,84F44C6iu,84F493941,84F5EBf94,84F64C32c,84F6FA89i,84F7034ba,84F7585ug,84F8837ld,84FB432m6,84FC14au3,84FCAC14o,84FCE64ba,84FCFE14o,84FD27c4v,84FDD16gz,84FE405gu,84FE9Ead2,84FEDC1y3,84FFC22s3,8800C6c2w,88010Cc2w,8801181it,8801F2e0j,8801F9d7u,8802649pt,880348asg,88034Ce3v,88035515q,8803E94zc,88074B798,880894c6u,8809057wt,8809077up,8809AF80w,880AA36tm,880ABDeff,880CE0d7u,880E85bpf,880F105tu,880F62c4v,880FA2b9l,880FB66pz,88103214o,8810369ol,88108F5gu,8811965gu,88123Dcid,88124Ea5o,88127Dbuy,8812AC5hc,8813BF4ba,8813C2d62,88142Ba1e,8815442s1,8815665ty,8815C55ty,8817A36gq,8817A814o,8818AEd01,8818F18zj,88190814o,881A14c4v,881B99awk,881C95687,881DFC2s3,881E5999y,881E5A14o,881EC81yo,881FA114o,88200D14o,8820127ao,8820674lk,8821E38rk,882222e2h,88225B5on,8822B22q0,88231F4ln,882364e78,88238C4lk,8823FEcxo,882508856,8825105on,88252C15q,882593cvj,88263Fetk,88287D10d,8828B35gu,8828FB6tm,882949aie,8829508u9,882985b8r,88299Cba7,8829BF10n,882A5E8vr,882AE17w3,882B947n9,882BD77b,882D531lx,882E5Af7c,882F641gc,882F92ejs,8830376tm,88308A8dt,88329Baom,883314d7u,883374ip,8833BE6lk,8834FE1y8,88354Cdeu,8835C1937,883612b40,88365F798,88366C3u8,8836CF5ty,883A305on,883B8B2no,883BDC28m,883C1C7qh,883C93xd,883CC55zq,883D2456h,883E0D5d9,883F0Cf7h,883F275ty,883F37dj3,883F4Ad7u,883F99c37,883FD35gu,8840335gu,88403B5gu,884067f39,884157bp2,8841C195y,8841FCvk,8842D041o,8843E12s3,8844775gu,8844F68zj,88455811d,8845F04za,884604ejs,88462Ad3c,88492Dau3,884A189cg,884A70e6j,884AEAd7u,884B39c3d,884CCFa27,884D7C14o,884F592s3,885046789,8850DD6cp,8850F6btm,88517A5f4,8851F214o,8851FB5om,8852EBejs,88532E6gz,88539514o,8853D45gu,88541F56h,88546Bd7u,88548Ef8g,8856A64ba,88571Dbhb,8857214ba,88576Dei0,8857EE1l4,8858BEf44,885A064zc,885A2325o,885A85e5t,885A922s3,885BDD4e3,885C47x9,885D905zq,885DFBf94,885E54ba7,885EBD8fy,885FE85zq,886076cch,886078cch,88615Ac2j,88625D1ie,8863C55gu,8863DF14o,88644014o,8864A8d6m,88659F4lk,8866395gu,88665A14o,8866A514o,886746ezk,8867DC5gu,88684B4zc,88685Cbpx,88693D5gu,886AB1f8g,886AE3zc,886B0F1x9,886B44ch9,886B6E14o,886B7627j,886BDB14o,886C60ejs,886D2D5ty,886EDD87e,886EE14ap,886EEB5gu,886F299w7,886FD43ix,88701514o,8870335ks,88708C7fd,8870EFapv,8871B12vw,8871E510n,887384dd6,8873986ua,8874775gu,8875562s3,887598ba7,8876B934z,8878736gz,88789C50l,88795B749,88797E8cw,887A31dvn,887ABC2s3,887B2Cf94,887CC1erj,887E254e3,887E9B14o,887F032wi,887FD5f94,888187dmh,8881B95ty,888225d4x,888279bw0,888322ba7,88835D4h8,8886035gu,8886A0c5t,8886C2b4f,88871723n,8887DD3ge,888914yj,88892F5gu,8889644yr,888B5Dcf9,888C191yy,888C1B3wg,888E685ty,888E7Fkj,888F10buu,888FA45ty,8890096tm,88908D2s3,889166dyk,8891DDadn,8892CCdcj,88947120r,88947E4lk,88948E81l,88948Fej6,8894F951i,8895B9dn3,88964E2vw,889655ev2,889676cxi,8896B654y,8896F2du6,889746c2p,889765f04,8897DF49m,889821crr,889986cvj,889AFFcld,889B39ba7,889CA61ky,889CAD2s3,889D98yy,889E33co5,889E68dv4,889E96f94,889F6Fba7,889FAA5np,889FFA5rz,88A0844oj,88A0BE5gu,88A25E6tm,88A29Eafl,88A2D75gu,88A303ba7,88A3CC10m,88A47914o,88A4C277z,88A5BDa36,88A68Dbkp,88A6C6b9l,88A6EF5zq,88A73Caep,88A9A75zq,88A9B714o,88AC9Ebzz,88ACC0evs,88ACC152f,88AD439gg,88ADD2ba7,88AE0714o,88AE1D2bf,88AE35agu,88AEDD45i,88AF7B8pf,88B1116gz,88B1683j3,88B1E18bm,88B29114o,88B2AB4lk,88B3628zn,88B4364iv,88B4A68cw,88B4BE5gu,88B5FFc0q,88B62751h,88B66Bezg,88B6BD4mz,88B6EE3nl,88B7EB14o,88B8635eo,88B86F6d5,88B8D03oz,88B94514o,88B951ejs,88B9B88oc,88BA74c4v,88BA7Fa46,88BCACeri,88BCC15gu,88BD098u4,88BD45ba7,88BD784mz,88BF35dwf,88BFD5c5m,88BFE45gu,88C08B14o,88C0934w2,88C174f94,88C2275gu,88C22D1l4,88C2429yj,88C255d7u,88C34456h,88C36E1p3,88C3971sa,88C3B2acl,88C3B3b2r,88C3E51u3,88C48Edjg,88C6267jt,88C66314o,88C6E85gu,88C78Ff94,88C9B35zq,88C9D0798,88C9E8cb5,88CB8714o,88CBA5cit,88CC45c7d,88CE3F5gu,88CEFA5gu,88CF985gu,88CFCDd7u,88D039dcj,88D1711gm,88D199dvx,88D211443,88D274f94,88D2BF53b,88D37B4ml,88D50C4zc,88D54614o,88D5A8687,88D652d9,88D7BC398,88D7F6jj,88D82E6gz,88D9622j9,88D98F6tm,88DA045gu,88DA182pi,88DA1Aaho,88DA331sb,88DA362i5,88DB083wg,88DC9647o,88DD79e1v,88DDB85ty,88DE395k5,88DE7Cip,88DEA9al4,88DF9E8vr,88E034c1u,88E0565gu,88E0A0byv,88E0F36tm,88E161178,88E3AB5gu,88E6031dc,88E628bu3,88E64B6tm,88E712ea8,88E7A6f1m,88E87F14o,88E8F8emb,88E90Ff3b,88E917d00,88E9A45on,88E9FE14o,88ED1C32z,88EF162vw,88F00F89o,88F0312s3,88F0772s3,88F1554ba,88F2BD4u3,88F2CE14o,88F3D5evs,88F488ex8,88F4906r9,88F4DA6gz,88F56E5gu,88F6DC5ty,88F71516e,88F7BFf8g,88F7C7dv4,88F8725gu,88F916a4k,88F9C06yg,88FC5D2s3,88FCA6ey3,88FD1579x,88FEB6ip,88FED6bis,8C006D14o,8C019D16e,8C02CD4it,8C02FA2ay,8C04BA3ix,8C04FFdv4,8C0528atu,8C055174w,8C05725ty,8C06CBdd2,8C07349zs,8C078C4gx,8C083C3wg,8C0879d7u,8C088Bai6,8C08AA14o,8C09F42vw,8C0C878zj,8C0C90alx,8C0CA311l,8C0D765gu,8C0DD9c6u,8C0E608p8,8C0EE34zc,8C0F6F9gg,8C0F7Ecny,8C0F8312t,8C0FA0ey4,8C0FC95ty,8C0FFA5vi,8C10D4b9l,8C11CB4z,8C12C24wm,8C13E28hz,8C142A2s3,8C147D5zq,8C14B4f94,8C15531qi,8C15C75gu,8C164577z,8C17596gz,8C17B65ty,8C1801f94,8C18502pg,8C18D9bw1,8C192D5zq,8C195210n,8C19B515q,8C1A502pi,8C1ABFba7,8C1AF3bs3,8C1CDA5zq,8C1D555lq,8C1D966gz,8C1E802s3,8C1ECB8p7,8C1ECFdk0,8C1ED91ru,8C1F645zq,8C1F94aa8,8C20F19as,8C210Acvj,8C21145ty,8C22D25k5,8C25055gu,8C255Ee1t,8C26AA14o,8C271Da5v,8C278Ae1b,8C293714o,8C2A8510n,8C2A8E3om,8C2AC14yq,8C2DAA14o,8C2E72ba7,8C2F395x6,8C2FA6c9w,8C3066dlp,8C31E237y,8C32236pq,8C333046b,8C33575qu,8C339614o,8C34014zc,8C34465ty,8C34FD5gu,8C3579a2v,8C35925aj,8C367A9nf,8C37B75t7,8C3957d4x,8C395C1vh,8C3A7Edo6,8C3AE3798,8C3B32872,8C3B4Ado8,8C3BAD8hv,8C3C07c6r,8C3C4A8ew,8C3D16brl,8C3DB11pe,8C3F444u3,8C41F2a94,8C41F4669,8C426D5gu,8C43615ii,8C4435bj5,8C444F5h8,8C44A52s3,8C44BBatu,8C45008dt,8C476E5zq,8C477F8ou,8C47BE3ix,8C4962al4,8C497A4e3,8C49B6f8g,8C49CF9zs,8C4AEE4vz,8C4B144ba,8C4B591b,8C4CAD4d5,8C4CDC9if,8C4DB9doq,8C4DEA2mk,8C4E468cw,8C4EBB10n,8C4F004ba,8C501A9zs,8C5105c0s,8C51095zq,8C5219atl,8C53875vl,8C53C31sa,8C53D22pi,8C53E6e5t,8C53F72x,8C541D79d,8C554A6gz,8C55705zq,8C55BBcan,8C5646797,8C569D6am,8C56C58yt,8C579Be5t,8C57FD7c9,8C5823b8r,8C587714o,8C593C5zq,8C5973evs,8C598B21y,8C59C36z,8C59DCiy,8C5A252vw,8C5AC15ty,8C5AF04dn,8C5AF81s9,8C5BF02vw,8C5C20dv4,8C5C5310d,8C5CA1exq,8C5D5472v,8C5D60dir,8C5DB25zq,8C5E4D3py,8C5EBD5ty,8C5F48l4,8C5FAD4lk,8C5FDF1r0,8C604F2s3,8C6078cj6,8C60E77vx,8C61021od,8C61203wg,8C61A32vw,8C640B1u9,8C6422cb5,8C64A299u,8C64D45vp,8C65A3c4v,8C65ECcxp,8C6794f8g,8C683A5gu,8C687890a,8C68C8f94,8C69144i9,8C6A3Bba7,8C6A8Ddv4,8C6AE4dz3,8C6BDB5ty,8C6D50avj,8C6D775gu,8C6DC483s,8C6FB9c4v,8C705A6gz,8C708653d,8C711286y,8C71F8ba7,8C736E4j0,8C73A04lk,8C73DAc4v,8C763F2vw,8C76C155y,8C7712ba7,8C77167bb,8C777915q,8C78D7aui,8C79095on,8C7967f94,8C79F5ba7,8C7A008zj,8C7A15alx,8C7A3Dejs,8C7AAA14o,8C7AB35aj,8C7B9D14o,8C7BF0eku,8C7C9214o,8C7CB55rz,8C7CFF20r,8C7EB37mc,8C7F3B2vw,8C8126gw,8C8172c2w,8C828314o,8C82A86g1,8C839415q,8C839Dawl,8C83DF8zj,8C83E1ba7,8C83E85gu,8C83FC1dx,8C84019zs,8C84422s3,8C847420l,8C8580c7s,8C859014o,8C85C15on,8C85E62sv,8C861E14o,8C862A5gu,8C86DDcvk,8C8726dpx,8C873B7eq,8C87D0byi,8C88812s1,8C897Akw,8C89A586o,8C89FAet5,8C8A6E3zh,8C8ABB1qw,8C8ACD5gu,8C8B48c4v,8C8B5Be5t,8C8B83d7u,8C8C294ba,8C8CAA77z,8C8D286gz,8C8E0Df94,8C8E4E1nc,8C8E76f7m,8C8EF214o,8C8F8B2ph,8C8FE914o,8C902Dcvk,8C90D38zj,8C9109ddw,8C913A848,8C91A414o,8C92361be,8C924698e,8C93516sk,8C938Bagu,8C941F2s3,8C94612s3,8C946A8vr,8C94CCasz,8C94CF47v,8C94DF4ba,8C965Fbip,8C96A58vr,8C97EA4i9,8C9806avy,8C986B14o,8C9885ba7,8C99E6co5,8C9A8Fb9l,8C9B2D9ig,8C9F3Ba4t,8CA0481qo,8CA2F55ty,8CA2FDced,8CA399asm,8CA3ECba7,8CA401bvf,8CA4549zs,8CA5A19cx,8CA5CF5gu,8CA6825zq,8CA6DFcvj,8CA96D5gu,8CA96F34u,8CA9826gz,8CA9FD2zi,8CAAB54ba,8CAACEejs,8CAB8Ebjm,8CAE495zq,8CAE4C9w0,8CAE89el5,8CAEDB8ev,8CB094w3,8CB0E9ba7,8CB50E2s3,8CB64F2s3,8CB6C588t,8CB7F7byj,8CB82C667,8CB84Aaom,8CB864o6,8CB87E6gz,8CBA25djz,8CBAFC6ok,8CBD37bvo,8CBE24d0l,8CBE6Fdan,8CBEBEejs,8CBF9Dbma,8CBFA6ba7,8CBFEA4ba,8CC1219nx,8CC24614o,8CC573ekh,8CC58Cbn9,8CC5B4b9l,8CC5D0ba7,8CC5E1bng,8CC661337,8CC6816gz,8CC7AAae0,8CC7C38hz,8CC7D0f93,8CC84B27q,8CC8CDba7,8CC8F45zq,8CC9E95ty,8CCB14cnr,8CCBDF4i2,8CCD553wg,8CCDA26k,8CCDE88yt,8CCDFEdt,8CCE4E4ba,8CCEFDc10,8CCF093iy,8CCF5C1gj,8CCF8F681,8CD066d7u,8CD08Bef0,8CD0B21sa,8CD17B26p,8CD1A6ezk,8CD2E9em8,8CD3A2dzi,8CD48E687,8CD54Acmx,8CD6286a2,8CD67F3wg,8CD9D6ejs,8CDB253z3,8CDC02f94,8CDCD45om,8CDD0Bezk,8CDD30am3,8CDD8Debf,8CDE5267o,8CDE992vi,8CDEE6ba7,8CDEF91sa,8CDF2Cf8g,8CDF9D8gc,8CE042f8g,8CE081f94,8CE117f94,8CE2DA2rs,8CE38E72o,8CE4685ag,8CE4DBbuz,8CE5C0ba7,8CE5EF5gu,8CE7485k5,8CE78C3cc,8CE7B3caj,8CE8071yo,8CE9B4et2,8CE9EE6gz,8CE9FF3ix,8CEA12buz,8CEA1B43b,8CEA48ba7,8CEA882os,8CEBC65gu,8CEC4B3ix,8CEC7B14o,8CEDE1dlp,8CEE174zy,8CEEC69yo,8CEEFDf94,8CF0DF1sn,8CF1128cw,8CF2287qi,8CF319c3n,8CF3E7f7a,8CF5A3aom,8CF681c4v,8CF710dt,8CF7738zj,8CF81395t,8CF8C56gz,8CF9459xi,8CF957am1,8CF9C97qs,8CFABA14o,8CFADD5gu,8CFCA0bx9,8CFD156ak,8CFD185gu,8CFD494ba,8CFDDEb9l,8CFDF0a5o,8CFE5714o,8CFE74alx,8CFEB4dt3,90004E5rz,9000DBba7,9001175gu,90013Bb9l,900218azx,90027Abxn,90028Abwt,9002A9et2,9003255gu,90032Ecz2,900371a6l,9003727kb,9003B79fa,900628ba7,9006DB5gu,9006F2d7u,9009174kd,9009D0ckk,9009DF6gz,900A1Acz2,900A39ebh,900A3A9lh,900A48ba7,900A626ka,900A758vr,900A84848,900BC1cdf,900C0F4ns,900CB4yc,900CC856h,900D663l6,900DCB2vw,900E838bt,900E84ezk,900E9Ebxm,900EB3boz,900F0C296,9010576gz,90119510n,901234bzz,9012A1e86,9013DA19t,9014AF2ig,9015064ba,9015645zq,9016BA5gu,9017115ic,90173F5gu,90179B8pz,9017AC5gu,9017C85gu,90185E149,90187Caol,9018AEbks,901900aqp,901A4F3wg,901ACA2vw,901B0E4rj,901C9Exd,901D27f94,901DFFeqm,901EDD4yc,901F09c4v,901F94cvk,90203A1lo,902083524,9020C25on,9020D787m,902106azx,90212E154,9021555gr,902181bjy,90235B10n,9023B48vr,9023EC1cd,9025F25gu,90272By1,9027598p7,9027789ah,9027E414o,9028F6efm,9029627hs,902AEEejs,902B344w0,902BD25gu,902C0914o,902CC7228,902CFB2ix,902D7743a,902E1677z,902E1C6gz,902E877cm,9030D6a6l,90314B10d,903196av0,9031CD9a9,90324B5rz,90342B512,9034FC5rz,90356Ee1f,9035A214o,9035EAc4v,9036B2cw8,9038094at,90380C4ba,9038DF2nb,90395Ec4v,90395F10n,903A72alx,903AA08zj,903AE69fa,903C1D5eo,903C9214o,903CAEeoo,903CB343b,903CDA4lk,903D5Abze,903D684ss,903D6Beur,903DBDarb,903E7F4lk,903EAB2vw,903F868vr,903FC35ty,903FEA5gu,9041B2dlp,9043E2307,904506dc2,9045288yt,9046A2d2m,9046B7dtt,904716acf,90473C2pi,904748cb9,9047C26gz,904846d7u,90486Cajt,90489A5rz,904992emp,9049FA6gz,904C02f8g,904C815on,904CC514o,904CE55rz,904D4Ab9l,904DC34no,904DE214o,904E2B5gu,904E915zq,90505Af89,90507Bso,9050CA5qz,90513F459,9051F85on,9052BFc2w,905446crw,9054B7464,9055AE4ax,9055DE4lk,905607c2p,9056712s3,9056827f4,9056921c6,9056FCcpb,905851dv4,90593Cna,9059AFd7u,905A08cho,905C34c69,905C442w9,905D7C8vr,905E445gu,905F2Eco5,905F7A14o,905F8Df50,9060F114o,90610C4lv,9061AE6gz,90623F14o,90633Bba7,90649B4ba,9064AD5gu,9065603wg,9065846gz,906717zq,90671C5gu,9067B5xc,9067F3x9,9068C38cw,906976edn,906A94f0p,906AEB87m,906C4Bs2,906CAC4ou,906D051lk,906D622ig,906DC83ce,906EBB5rz,906F18ty,906FA74rw,906FA98f3,90702550s,907065d7u,9070694ba,9070BF88t,9070D34lk,90724014o,907282b9l,90735A8cw,90742E8vr,90749D670,9074AE1er,9074F25gu,9075BC8zn,9075DEeri,90769Favh,9077EE2s3,9078416gz,9078B2ejs,9079106gq,9079901te,9079CFf94,907A0A51a,907A281qj,907A58ero,907ABE4yq,907ADA27h,907AF1e6o,907BC6d7u,907E3077p,907E43f94,907EBAdl4,907F612p1,9080608y9,90808F5ty,90812A14o,90815814o,908175ba7,9082605zi,9082C3a5w,90834B1h1,90837A523,90837E4lk,90840D14o,90842B78j,90848B5dd,90848E4it,908674c2w,90869Bf94,9088552s3,9088A2656,9088A95zq,9089385n2,90895Fe3v,908A802s3,908C09ddg,908C4314o,908C445bn,908C63500,908D1D4vp,908D6C14o,908D6E3ix,908D78351,908FCFdkl,90903Ccwp,909060ad0,9091642qf,90916Ef56,90922C2n9,9092B43kr,90935A2vw,90940A129,9094975gu,9094E4351,9095075gu,9096F31l4,9097D54ba,9097F3ba7,9098385ty,9098646av,909877dx9,9099163wd,909A4Acvj,909A77d7u,909B6F14o,909C4A14o,909D7D2vw,909DAC6d5,909DE08wb,909E24ezn,909F22evs,909F333u8,909F43p2,90A0BE2j5,90A1371rj,90A1969zs,90A1BA9j3,90A210dnv,90A25B14o,90A2DA4vq,90A3655f4,90A46Aaz5,90A4DEe5t,90A57D5ty,90A5AF5gu,90A62F8fj,90A6BFa6l,90A7836p1,90A7BF3wg,90A7C19n7,90A82210n,90A9356pp,90A9F75zq,90AAC35qz,90AB96c4v,90AC3F1zv,90AC6D14o,90ADF7f8g,90ADFCd3c,90AE1Bcvj,90AF592qb,90AFD1f5e,90B0216gz,90B0ED14o,90B11C3ix,90B1342vw,90B1418cw,90B144ba7,90B1766gz,90B1E01qp,90B21F14o,90B3394ba,90B4DDeqt,90B57Fc0q,90B622ba7,90B67Abx6,90B685e3v,90B6868dt,90B79014o,90B8324e3,90B8D06ta,90B8E0awn,90B93114o,90B942f94,90B97D6sz,90B9F98cw,90BA095gu,90BDE6a6l,90BFD9c7s,90C115cb5,90C1198zj,90C1C614o,90C35F8p7,90C54Af8g,90C6825zq,90C710f94,90C7922vw,90C7D8f94,90C9523qy,90C97E5gu,90C99Bd7j,90CAFA56h,90CBA3cpb,90CC24ck6,90CC7A5ty,90CCDF6gz,90CD1Fa6l,90CDB65rz,90CDE814o,90CEB8d7u,90CF158zj,90CF6F3o2,90CF7Da4t,90D0925h8,90D11B9nh,90D20B8zn,90D3CFip,90D432f94,90D473f8g,90D5295i,90D6895tq,90D7335gu,90D74F1xy,90D7BEe7t,90D7EBd7u,90D8522x5,90D8F3f94,90D92C5gy,90DA4Els,90DA6A4hb,90DA724ba,90DAF9c3u,90DB463ru,90DD5D14o,90DE80bpq,90DF062ri,90DF7Dagu,90DFB7f63,90DFFB5fk,90E0F05zh,90E17B14o,90E202d7u,90E2BA6gz,90E2FC5zq,90E317848,90E4685aj,90E4B0atl,90E5B14ba,90E643d7i,90E6BAjj,90E7108vr,90E7C45gr,90E8681er,90E95E2s3,90EA60b3m,90EB48bm9,90EB502s3,90EC5022g,90EC77f71,90ECE38zj,90ECEA14o,90EEC7ba7,90EED9dkh,90EF4A3p0,90EF68evs,90F005ej3,90F04C8zp,90F0527q5,90F15750u,90F1AAba7,90F1B05jq,90F260bsu,90F278aek,90F3055h8,90F3B772s,90F3B82pi,90F4215zq,90F4C1af6,90F510d1z,90F6445ty,90F652cvj,90F7216bs,90F72F9sm,90F7B28vr,90F80Cba7,90F82E10n,90F861f81,90F891706,90F964afr,90F9705gu,90F9B75gu,90FB5B1cm,90FB5D1sa,90FB93aic,90FBA65rz,90FC555w8,90FD6114o,90FD73f94,90FD9Fc4v,90FEE267g,90FF7985s,90FFD65sy,940006f3x,9400708zj,9400B05gu,9401491bo,94017Davz,9401ACefi,9401C2ba7,9402307jt,94026B9bx,94049C5gu,9404E3dv4,9405B67h6,9405BB5zq,9408537ik,9408C75ty,9409375h8,9409C9ca,9409D3f6r,940B195gu,940B2D8th,940B83f94,940BCD14o,940BD55po,940BFA3wg,940C6Dcvj,940C9814o,940D2Ddo6,940D4B2s3,940E2A8oc,940E5F14o,940E6B5gu,940EE75gu,940F3Bip,94103E1t5,9410424k7,94105A3ix,9411DA689,941457bxi,94147Af8g,9415B25ty,94162514o,9416739wa,941700ejs,94172412x,9417878zj,9418658hv,9418825on,94193A468,941C56q7,941D1Cctr,941DD456h,941F3A10s,941FA2efn,9420538zj,94215714o,942197cdp,94224Ca4q,94236Ebtu,9424535gu,9424B84ye,9424E1xd,9425335gu,94261D5gu,94270E6gz,9427701kr,942790co5,94282E8vr,94286Ff94,94290Cbof,94292F8vr,942957vy,94298Dbiw,942A3F3nw,942A6Fdlp,942AD6d7u,942B6814o,942CB35h8,942D3A9kb,942DDCba7,942E17bco,942E634mf,94319Bzn,9431CBf8g,943251ip,9432C15sy,9433D82s3,9433DDcyl,94342F687,943469c4v,94350Aba7,9435895gu,9436E0c2q,9437F75ty,9438AAd21,94390E6gz,9439E55rz,943A9110n,943AF08zj,943B228hv,943BB08vr,943BB1706,943C96b9l,943CC64ba,943DC917q,943EE4eaw,943EFD5zq,943F0C52l,943FBB6ow,943FC25on,943FD614o,9440A213x,9440C95on,9440F35gu,9441C1895,94434D2ri,94444479b,9444521t5,94456056h,9446672s3,9446961mz,9447885gu,9447B01gr,944996eay,9449F65ty,944A091vk,944A0Cbhm,944BF8cvg,944E5Bdlf,944F4Ccbm,944FDB8zj,945044d7u,945047ah1,945089c5k,945103ba7,94513Df2e,9451BF5w3,9451DC4ba,945244ba7,9453305rz,9453FF6gz,945493ajm,9454A04p4,9454C54ba,9454CE4zc,9454DFemo,9456419nf,9457A55om,9458CB8yt,945907bju,94591510n,94592D3us,945AEA5gu,945AFC10n,945B7Ecwj,945C9A14o,945DBF8zr,945F34aie,9460105ty,9460D55on,94611Ee74,9461249pv,9462692vw,94626D1s9,946372f8g,9463D1ba7,9464245on,94644225o,94652D99u,94659C6gz,9466E7e5v,94677E1t0,946A77dv4,946A7C99u,946AB015q,946C043wg,946DAE848,94706Ca6l,9470D2e4x,9471ACco5,94720F59g,94742E7ql,94756Ea4i,9476B7ba7,94772B5gu,9478068ku,947918687,947AF45gu,947BAEejs,947BBEdli,947BE7ba7,947C3E9wn,947D775gu,947EB98ql,947F1Dbra,947FD8bx6,9481A41ep,9482B24wj,9483C44wk,94857A4cl,9486CDasa,9486D4ci6,94877C2vw,9487E0ejs,9488156cu,9488352f7,948854d7u,94885Eci4,94897814o,948AC6agu,948B033sm,948B93ejs,948BC1ba7,948CD75ub,948D501nl,948DEF98f,948E6D8yt,948E8961r,948ED316e,948FCF2vw,948FEEdwq,9490105gu,949034au8,94917Fip,9492BCb80,9492D26vb,949386bx0,94942614o,94944A9pq,9495A056h,94974F7ik,9497AE4zc,949869f94,94988Fb9l,9498A2bkg,949901bzx,949990dtb,949AA987m,949B2C4e3,949BFDdei,949C55zx,949CBE5gu,949D579ob,949F3Ecaz,949F3F9be,949F8Bf94,949FB42o1,94A04E1yi,94A07D5ty,94A081c4v,94A1A2dt,94A25D5gu,94A3CA74a,94A408bye,94A40C3ks,94A4B58a6,94A4CEbgg,94A4F95gu,94A67E8hv,94A6D88vr,94A7488vr,94A7B7f94,94A7BC1xp,94A9904ba,94A9A8d7u,94AA078zj,94AA0A4lk,94AAB86t7,94AB18ex7,94ABDE942,94ABFE8zj,94ACCAf7z,94AD055ty,94AD2314o,94AE61x9,94AEE31sz,94AEF02s3,94B01F14o,94B10Aba7,94B216c4v,94B2715gu,94B2CC9hx,94B34Falx,94B3F75ub,94B40F5on,94B5554ba,94B5AD3yq,94B6096gz,94B8198zj,94B86D6gz,94B8C5alz,94B97E4ba,94B9B4158,94BA06au3,94BA31e01,94BA56bq6,94BB431er,94BBAE5vg,94BDBEcvp,94BE092pi,94BE367s,94BE468cs,94BE50ai6,94BF1Eezl,94BF2D14o,94BF80f94,94BF946tm,94BF95bq6,94BFC4alx,94C014cbg,94C038czx,94C150r,94C2BDcpd,94C2EFip,94C36B3df,94C3E419z,94C4E99y1,94C5A6687,94C69145i,94C6EB8me,94C7A86rv,94C7AFag1,94C960eu6,94C962d7h,94C9B75zq,94CA0F5s8,94CA9A9q5,94CBCDf94,94CC045zq,94CCB92vw,94CDAC31w,94CDFDezk,94CE0F5ty,94CE2Ccb5,94CE312gg,94CFB05ty,94D00D5gu,94D019349,94D0294zc,94D07528h,94D299d17,94D2BC5gu,94D331ejs,94D4174y3,94D4692s3,94D5054lk,94D54D5gu,94D60Ef6x,94D6DB8wl,94D723bjd,94D771ba7,94D859co5,94D86Bf5c,94D93C3xf,94D9B3cvj,94DB49az8,94DB56cb7,94DBC91er,94DBDA5gu,94DC4E9f,94DD3F30,94DDF820x,94DE0Ec81,94DE804w0,94DEB8c4v,94DF345gu,94DF4Eedf,94DF5860b,94E0D05mt,94E0D62p5,94E129ba7,94E1AC5k5,94E226357,94E23C6gz,94E2FD1xr,94E3005gu,94E36Dd7u,94E3EEf94,94E4BA5ty,94E6864ba,94E6BAba7,94E6F76gz,94E70B6gz,94E711ek2,94E7EA5gu,94E7F35gu,94E8484jm,94E8C52vw,94E96A14o,94E9797ik,94E98C8zj,94E9EE5ty,94EA3214o,94EAE77m8,94EAEAcqx,94EB2C56h,94EBCD1w6,94EC135k1,94EC32c4v,94EE9F5f4,94EF491ge,94EF50cvk,94EF9743a,94F1285on,94F19E5h3,94F27845q,94F2BBdu9,94F3924ou,94F5242o4,94F5512hs,94F665alx,94F69251j,94F6A314o,94F6D614o,94F6F25sy,94F717287,94F720daf,94F7AD6tm,94F7BEasg,94F827bk2,94F929856,94FAE8br4,94FB29eri,94FBA75zq,94FBB2auq,94FC875py,94FD1Dea7,94FD2Eblt,94FE225gu,94FE9Dauq,94FEF4b9l,94FF065on,94FF345cg,94FF3C4ou,94FF612pi,94FF7D10d,98006Af94,980074aez,9800C158u,9800C614o,9801A714o,980284d94,9802D85zq,98038Ad7u,98038Ecvk,98039B848,9803A04m,9803CFau3,9803D814o,98045F5ty,9806375zq,98063A5rs,98063Cba7,9806A34yq,9807095ty,98072Dd7u,98080295w,98081810d,9809CF99u,980A4B8zq,980C33c4v,980C82aol,980CA58cs,980D2E5gr,980D515ty,980D67evs,980D6Fba7,980DAF14o,980E249ti,980EE49zs,98108291k,981094byz,9810E814o,9811CC2ri,981223d0j,9812B76us,9812E0ejs,981333f94,9814D21db,9816CDf47,9816EC5xo,98171A1sa,98173C9zs,9817F1f94,9818882s1,98192C43b,981A355gu,981BB5j3,981C4276y,981CA214o,981DAC34s,981DFAba7,981E0F6qz,981E19b9l,981E89dan,981FB1bua,9820448vr,98208E3is,98226E10n,9822EF7ik,98234E877,98247B5gu,98254Acvk,98256E9zs,98262A14x,9826ADa6l,9827825zq,98288Bf92,9828A62bf,98291D6q5,98293F4r6,9829A62bf,982A0A6h3,982AC3c4v,982AFD5gu,982BA68cw,982CBC6gz,982CBEr,982CC6asj,982D56ait,982D68ba7,982DBA4lj,982F3Cc2r,982F86f8g,982FF85ty,9830001q4,98307135t,983268c4v,98348C57e,98349D754,983571cg8,9835B818u,9835ED5gu,9837139m1,98387D68n,983910706,98398Eba7,9839C04gp,983A1F56h,983B16dt,983B673eu,983B8Abf7,983B8F6gz,983C8C14o,983DAE4ba,983F605gu,983F664rw,983F9F2pp,983FA4f94,983FE8ba7,9840BB3ix,9840D4dv2,98415C8yt,984246b1o,984265b9l,9842AB4xc,9843DA64o,9843FA6gz,9844B662a,9844CE5gu,984562bj3,98460A14o,98473Catf,984744bpf,984827cvj,9848745gu,984914e5t,9849256tm,98499F3oj,9849E11xq,984A4727f,984A6Bam3,984B065gu,984B4A2vw,984BE15om,984C04esu,984CD37zl,984E8Aba7,984E97ceb,984FEE6gz,98502E14o,9850A3ayc,9852075gu,98523Dch4,98524Adv4,9852B1ba7,98535F5gu,98541B6gz,9857D35fm,98588Ab88,985945d7u,9859497c3,98597A6gz,985A985gu,985AEB14o,985B76dv0,985BB06wy,985C93apq,985D469qy,985D8216e,985DADd7u,985E1B2z6,985F416gz,985F4Fdcg,985FD387m,9860223x6,9860CA14o,9861105gu,986297by1,986610f94,9866EA6c4,98672Ec6u,98698A14o,986B3D2vw,986C5C6sa,986CF5f94,986D355zq,986DC8cv3,986EE85zq,986F604zc,9870E862n,9873C4b9g,98743Dbtt,9874DA6d5,98751A5ty,987552ejs,9875963wg,9876B6qp,9877709qz,9877CBe1y,9877D5eb0,9877E7706,987800co5,987A104at,987A1487m,987A9Bcnz,987BF3d7u,987DDD2pi,987E4647c,987EB55ty,987ECA6ka,987EE3f8g,9880BB5zq,9880EEba7,98818A5ty,9882173nt,988389ba7,9884E3d7u,98865D8zn,98868B6tm,9886B14nt,988744efs,98874Casm,98876C5ty,98886C5ty,9888E04ba,988924d7u,9889ED126,988B0A5k5,988B5Db9l,988B69c0o,988BAD305,988CB3c2w,988D466gz,988E34epr,988E4A8mp,988E79a6j,988ED4687,988EDDcof,988F005on,988FE05zq,9890807ht,9890963ix,9893CC795,989449c7f,9897CCcvj,9897D18a3,9898FB56h,989AB9f94,989BCBme,989C575gu,989D392pi,989D407ue,989D5Ddv4,989DB24xq,989DE55k5,989E6314o,989E80f7x,989E855sy,989F1A9zs,989F1E5gu,98A14Aa6l,98A2C02s3,98A3164ba,98A33Cbqb,98A3755ty,98A4044at,98A40Ec8p,98A44E5zd,98A5F914o,98A7B07ph,98A82910d,98A878uj,98A92D8vr,98A942ddz,98A965me,98AA3Cebp,98AAD71iw,98AAFC5zq,98AB154ra,98ACEFagu,98AD1D5ty,98AE71dtl,98AF656gz,98B0398zj,98B08Bba7,98B17741g,98B37914o,98B3EF5ty,98B6E98yt,98B71E6d5,98B785bog,98B8BA798,98B8BCba7,98B8E314o,98BA393pf,98BA5Fcvk,98BB1E1lo,98BB999s7,98BC57b70,98BC99431,98BD806gz,98BE945xb,98BEDC5sy,98BFF47ny,98C08A5gu,98C0EB550,98C3774ba,98C3D28yq,98C5B38vr,98C5DB4at,98C7A4bsd,98C81C1g1,98C8459mw,98C8542q7,98C8B8f8g,98C97Cc0q,98C9BEbwf,98CA20bld,98CA3314o,98CB2750e,98CB381yv,98CBA41tc,98CC4Dc0v,98CCD9bxm,98CCE4bv0,98CCF310n,98CDAC4ba,98CDB4dza,98CF531g3,98CF7D14o,98D29356h,98D331bpe,98D3D27q7,98D3D75gu,98D3E78tl,98D6862rc,98D6BB14o,98D6F7798,98D742ba7,98D7E12s3,98D863bjv,98D88C90b,98D93D3jh,98DA92e2l,98DAC4cvj,98DCD9dka,98DD5Bcn1,98DD6014o,98DDEA6d5,98DED0cvj,98DF825k5,98E0811sa,98E0D914o,98E165p1,98E2558yt,98E301bxi,98E476es9,98E55B6h3,98E7433ix,98E79A4pd,98E7D58o9,98E7F45om,98E7F55gu,98E8481dt,98E85914o,98E8FA8yt,98EC6530q,98ED5Cd7i,98ED7Eezk,98EDCA4lk,98EE8Cf94,98EE94ejs,98EECBedg,98EF9B936,98F04C2s3,98F0587mb,98F07Bd7u,98F0835gu,98F0AB14o,98F1125k5,98F1708dt,98F1818vr,98F1998gl,98F1AEbfs,98F2172ko,98F2B35on,98F364en8,98F3F65gu,98F428f94,98F487d7u,98F4AB4ba,98F537f94,98F5A9936,98F621ejs,98F67A2q1,98F7812vw,98F7D72vw,98F8C15z6,98F8DB80a,98F9C75zq,98F9CCet2,98FA2Ecb9,98FA9B77z,98FAA762r,98FAE3ejs,98FB12570,98FB27ba7,98FBF5km,98FC112s4,98FC845zq,98FD746c,98FDB49zb,98FE034au,98FE3E6gz,98FE54afl,98FE9414o,98FEE114o,98FF6A96y,98FFD07fd,9C00D3auy,9C0111bvh,9C0298ba7,9C03515gu,9C039E1s1,9C0473d2d,9C04B6a6l,9C04EB14o,9C05675sy,9C0591848,9C05D6dlp,9C061B5k3,9C066E5vz,9C06CF9ij,9C09718vr,9C098B2s3,9C09CA5ty,9C0B05ezk,9C0C35c13,9C0CDF4zc,9C0DACdi5,9C0E4Abyr,9C0E51bcl,9C1221c2p,9C139E4ba,9C13AB2ne,9C1463et2,9C146542y,9C18748zl,9C19C23p0,9C1A2514o,9C1C125on,9C1C3710d,9C1C6D5di,9C1D365gu,9C1D58d7u,9C1E95q7,9C1EA4aie,9C1ECEcd,9C1ECFdu7,9C1FCA5jp,9C1FDDox,9C1FE6bx7,9C207B14o,9C216Acvj,9C218320l,9C220Ecnh,9C24101yo,9C2472b9l,9C2595ba7,9C25BEebl,9C28403nk,9C28B314o,9C28BFl0,9C28EF5gu,9C28F7ejs,9C293F14o,9C29766gz,9C2A705rz,9C2A83ba7,9C2BA6am3,9C2D498q6,9C2DCD77z,9C2DCFc1y,9C2E7Aba7,9C2EA1ejs,9C2F4Ef94,9C2F73dog,9C2F9D7ik,9C305B5rz,9C3066ade,9C31784p2,9C31B675e,9C31C3azx,9C32A9c2w,9C32CE23n,9C3312dfl,9C34262vw,9C35838z3,9C35EB14o,9C36F85w5,9C37085on,9C37CBcb9,9C37F45gu,9C38182s3,9C3928ba7,9C3A9Abxi,9C3AAFba7,9C3B91dt5,9C3DCF8hv,9C3E5314o,9C3EAA49t,9C40CDckc,9C417C5iw,9C431E5zq,9C443D27a,9C44A6cj3,9C45633bt,9C45F0b00,9C47115i,9C4782cvj,9C47F48zj,9C47F97ai,9C49295gu,9C49523p0,9C497F6gq,9C4A7B8zj,9C4B6Bf1k,9C4CAE84y,9C4DC22s3,9C4E202s3,9C4E366gz,9C4E8Ece,9C4EBF1yt,9C4F5F56h,9C4FACf94,9C4FCFco5,9C4FDA14o,9C50D18dt,9C50EE2il,9C5187b68,9C52F85gu,9C5322cvk,9C53859lx,9C53CD3xm,9C54162s3,9C541Cbv6,9C54402o2,9C54678zj,9C54C28vr,9C54CAetu,9C54DAc6y,9C558F7j4,9C55B45wx,9C56365ty,9C57114kz,9C57665gu,9C57AD2s3,9C57BCezk,9C583C14o,9C588414o,9C5A442bf,9C5A806tm,9C5A81ejs,9C5A8A3ca,9C5B968lo,9C5C8D4g7,9C5C8Ejj,9C5CF9cb5,9C5D124e3,9C5D95dta,9C5E732i1,9C5F5A4zc,9C5FB0ba7,9C607614o,9C611D9ny,9C6121c2w,9C61D75gu,9C62ABcgf,9C635Bf94,9C63C0848,9C63EDf94,9C645E5m1,9C648B14o,9C64A1c4v,9C65B0ba7,9C65EB6gz,9C65EEeu0,9C65F9o6,9C65FAo5,9C665055h,9C66972s3,9C67D66gz,9C685B988,9C68654lk,9C6937a5a,9C69B45zq,9C69D15gu,9C69D3io,9C69ED16e,9C6ABEa2x,9C6B00iz,9C6B37aie,9C6B72agv,9C6BF0c08,9C6C1587m,9C6D92bkd,9C6F52f94,9C713A5gu,9C73705gu,9C73B1ba7,9C74034zc,9C741A5gu,9C746F5gu,9C7514ebk,9C756Ewe,9C760E14o,9C7613ajt,9C77AA8er,9C79ACchj,9C79E314o,9C7A032ri,9C7BD28gx,9C7BEF5om,9C7C1E296,9C7DA35gu,9C7DC0d0w,9C7F57djk,9C7F648pg,9C7F81aui,9C803Dco5,9C807Db85,9C80DF15q,9C823F5ty,9C8275enm,9C8281f8g,9C8306ba7,9C83BF9kf,9C84B6c0q,9C84BF14o,9C8566ec8,9C862B7vs,9C86DA9st,9C88249rq,9C8888c5e,9C88AD4lk,9C891E4mg,9C8ACB6tm,9C8BA014o,9C8BF1d8y,9C8C6Eba7,9C8CD85on,9C8D1A63h,9C8D7Cca,9C8DD37fk,9C8E995om,9C8E9C5ty,9C8ECD10w,9C8EDCd6p,9C8FA952l,9C90191u7,9C924F14o,9C934Eeiv,9C935Cdnl,9C93B083x,9C93E49zs,9C95615ub,9C95675ty,9C956E86z,9C95F8c7z,9C96137fa,9C961B602,9C96D54bb,9C971B6gz,9C9726dv3,9C97745gu,9C9789b,9C97935gu,9C98115am,9C99A0ejs,9C99CDe1l,9C9AC078j,9C9C1Dce9,9C9C1F4ba,9C9C40c2w,9C9D074h8,9C9D5Dadr,9C9D7E1sa,9C9E03ewi,9C9E6E4ba,9C9E715ty,9C9ED5ejs,9CA10Aaqj,9CA1348y2,9CA2F4cvk,9CA3898zj,9CA3A95a5,9CA3BAao8,9CA513ba7,9CA525bin,9CA570ezk,9CA5779db,9CA5C0f8g,9CA615cvj,9CA69Dea5,9CA6D84lk,9CA9B82s3,9CA9C514o,9CA9E4f94,9CAA1B87m,9CAA5D4zc,9CAC6Ddo6,9CAD975rz,9CADEF97m,9CAED3bf2,9CAF6F687,9CAFCA2s3,9CB008dlr,9CB1506gz,9CB1DC41o,9CB2065f8,9CB2B25gu,9CB2E85gu,9CB400f94,9CB6545om,9CB6D0aka,9CB70D7ik,9CB79331g,9CB8B4dt,9CBAC9d52,9CBB98bmx,9CBCA65on,9CBCF0ejs,9CBD6E39c,9CBD9Dc6z,9CBEE01v6,9CBF0D4pj,9CBFCD5gu,9CC0779zm,9CC0D22xn,9CC12D4u3,9CC1725gu,9CC2C45zs,9CC39414o,9CC7A6md,9CC7B13vv,9CC7D1atl,9CC7D31er,9CC8936tm,9CC8AE1ny,9CC8E910n,9CC8FC2vw,9CC9501n0,9CC9EB8hv,9CCAD98zj,9CCBF7297,9CCC014ba,9CCC836tm,9CCD423p0,9CCD82276,9CCE229kw,9CCE88am3,9CD1D05af,9CD21E5rz,9CD24Bf94,9CD3329il,9CD35Bba7,9CD36D8hv,9CD48B6eu,9CD4A6asm,9CD57D2s3,9CD643351,9CD8E3ef8,9CD9178cw,9CD9CB7fn,9CDA36cpb,9CDA3E6gz,9CDAA814o,9CDAB75on,9CDB07eni,9CDBAF5gu,9CDBCB4rw,9CDC715on,9CDC994e3,9CDD1F6hl,9CDE4D7uq,9CDEF06sd,9CDF035m5,9CDF8A5gu,9CDFB1bq9,9CDFB38o9,9CE0418zj,9CE063ba7,9CE10E8g3,9CE1762s3,9CE1D66tj,9CE2306pe,9CE3302s1,9CE33F14o,9CE3745gu,9CE4505zq,9CE5495zq,9CE6358yt,9CE65E14o,9CE6E7ba7,9CE7BDec3,9CE82Bf8g,9CE8958vr,9CE91Cf94,9CE91Ecpl,9CE951bwo,9CEA975sy,9CEBE81vz,9CEC615ty,9CEDFA40s,9CEFD59oc,9CF0296gq,9CF1558zj,9CF1D4al4,9CF27Eba7,9CF38714o,9CF3AC14o,9CF48E14o,9CF5314zc,9CF55F5m5,9CF61A2ka,9CF67Dajd,9CF6DD5zq,9CF86Bub,9CF8B8bx6,9CF8DBf6m,9CF938h3,9CF9A16tm,9CFA3C3f9,9CFA7614o,9CFA96cm7,9CFB774zc,9CFBD5f8g,9CFBF17qu,9CFC0114o,9CFC2814o,9CFCD1tu,9CFCE86gz,9CFEA14lk,9CFFBE972,9CFFC2lz,A0004C5eo,A0024A5zq,A002A56gz,A002DC10n,A00363akl,A0043E9pi,A004608hv,A006278jm,A00798ba7,A007B6sw,A0086F5gu,A0092Ef94,A0094C2mc,A009ED1cm,A00A9A5ty,A00ABFebd,A00BBAaol,A00CA1azw,A00CE2bww,A00E985gu,A00F372s3,A01077f94,A01081ba7,A012901cm,A012DBcma,A0133B5ox,A013CB4lk,A0143D9fa,A0146Dcio,A0165Cdgl,A017F1z6,A0182814o,A018422x8,A01859c01,A019171tu,A019B25zq,A01AE343a,A01B045n1,A01B29b9l,A01B9Eba7,A01BD68qx,A01C058kq,A01C87djz,A01C8D5gu,A01D485om,A01E0B7tn,A020A64ba,A0218B5k,A02195ba7,A021AA2pi,A021B78hv,A0224E5zq,A02252193,A022DEf8g,A0231Bd35,A0239F2s3,A02442c13,A024905zq,A024F92oc,A025D75on,A026051sz,A027B6ba7,A028335zq,A0288450u,A028ED5f4,A029193ix,A029426gz,A029BDd0s,A02B44e7k,A02BB85om,A02C364h8,A02D13vk,A02DDBb9l,A02EF3dnr,A03131a06,A031DB5gu,A031EBbfk,A032997f9,A0334F2s3,A0341Brn,A036795gu,A0369F6gz,A036BCjj,A036F02wn,A036FA4bx,A03768bqt,A038F8975,A039757fh,A039EEb9l,A039F7798,A039F9b9l,A03A759lm,A03B01766,A03B1B6g2,A03BE314o,A03C20b9l,A03C31bp9,A03D6E2s3,A03D6F2s3,A03E6B5zq,A04025q4,A04041aor,A0406F5gu,A040A08hv,A0412D7d7,A041475ty,A0415E9ba,A041A78ll,A0423Fdi0,A0424667u,A042D15ty,A043B05jv,A043DBc6e,A0445C5gu,A044666hc,A044B79fo,A044F3aeo,A0465A8cw,A0479B9kl,A047D71tx,A0481C5om,A048395gu,A04A5E87m,A04C0Cbx6,A04C5Bbxt,A04CC15no,A04E01262,A04E048zj,A04E8D2s1,A04EA714o,A04ECF14o,A04F526gz,A04F85798,A04FD46y,A04FE49fo,A0510B6gz,A051C61cm,A0527214o,A052ABmf,A05394c0z,A0551Fb9l,A0552Ef94,A0554F2s3,A055DE2vw,A0562Cba7,A056B25m5,A056F314o,A057E35gu,A05866a5b,A059112s1,A0593Adpg,A059506gz,A05AA4571,A05B213xw,A05D0Eca,A05DC1ctu,A05DE73by,A05E6B7qa,A0603210w,A06090ba7,A062609zs,A062FB5eo,A063918hv,A0648Fip,A06518dsf,A066104j0,A066366jj,A067202p5,A067BEc31,A067D68zj,A0681C4u3,A0687E2vw,A069745sy,A06986e97,A069D98vr,A06A00dwg,A06A44e17,A06B4Aco5,A06C65d7u,A06CECaay,A06D096h4,A06E508q3,A06FAA79b,A070991pn,A070B75gu,A071A98zj,A0722C5h8,A072E48lh,A073322ki,A073FCaf5,A07591ba7,A075EA1yu,A0764E4ba,A07751is,A07771dxm,A0779E2q0,A0781714o,A0782D14o,A078BA9oo,A07D9Cba7,A07E163wg,A07F8Ab9l,A080696gz,A0821Fba7,A08222a4q,A082AC7hf,A082C79eh,A083B4dvv,A084CBcao,A085276gz,A085E34ba,A085FC87m,A0861D2o6,A086C6ejs,A086ECanq,A087BE14o,A0885E134,A088696gz,A0889D5ty,A088B46gz,A088C2848,A08966287,A089E4c7d,A08A06ip,A08A875uc,A08C1553a,A08C9Bekq,A08CF2ely,A08CF85gu,A08CFD5om,A08D165gu,A08E24ezk,A08E78b9l,A090B5db0,A090DEdq9,A09169798,A091A299s,A091C8f94,A091CA8zq,A09208dhv,A093474zc,A093512s3,A0941A4zc,A0946Abzi,A0950C2pj,A0957Fasj,A098059az,A09857bqw,A098EDbij,A099214u3,A0999B14o,A09A0C5sy,A09A52bv5,A09A5Adb4,A09A8E14o,A09B122pj,A09B17cz2,A09BBDdde,A09C19287,A09D2214o,A09D86xf,A09D91cbn,A09DC12p5,A09E1A9wh,A09F10au3,A09F7A352,A0A0015on,A0A0DC5ty,A0A1303cf,A0A23C4y4,A0A30914o,A0A33B5gu,A0A3B34ba,A0A3B8e5c,A0A3E2q7,A0A3F0351,A0A47F2s3,A0A4C56gz,A0A65Cchu,A0A7639wz,A0A8CD6gz,A0AAFD4am,A0AB1B351,A0AB51e3v,A0AC69ba7,A0AC78c0q,A0AD625gu,A0AD9Fjj,A0ADA16o7,A0AF125gu,A0AFBD6gz,A0B0455it,A0B0865py,A0B0BDba7,A0B100bn4,A0B15C56h,A0B3396gz,A0B3CC5om,A0B40F14o,A0B4374u4,A0B4392s3,A0B4A5ba7,A0B4BF6ch,A0B53Cdv3,A0B54915q,A0B5DA5ss,A0B662qm,A0B7654ba,A0B8F811c,A0B9EDc7a,A0BAB89v7,A0BB3E5zq,A0BC6F2s3,A0BD1Det2,A0BD71a3k,A0BDCDazx,A0BF50an1,A0BFA52e2,A0C016c2s,A0C1C514o,A0C20D5ty,A0C2DE30v,A0C3DEdgm,A0C4A5b7f,A0C5622vw,A0C5896gz,A0C5F25zq,A0C6A57gf,A0C6ECbn1,A0C7D22s3,A0C9265ty,A0C98B8zq,A0C9A08dt,A0CA4A10d,A0CAA563w,A0CBFDba7,A0CC2B8dt,A0CDF38dt,A0CEC825b,A0CF5B2s3,A0CFF5f94,A0D05Bba7,A0D0DC10n,A0D12An7,A0D1B314o,A0D2B110n,A0D3656gz,A0D37A6gz,A0D385kx,A0D3C15om,A0D42D4sz,A0D635e3l,A0D722ba7,A0D79514o,A0D7A05ty,A0D7F3ba7,A0D8075ty,A0D83D4lk,A0D86Fh5,A0D91Ad7u,A0DA928p5,A0DC041ns,A0DD6C4ba,A0DD979wi,A0DDE5atl,A0DE056ou,A0DE0F5ty,A0DF155gu,A0E025a1j,A0E06D4lk,A0E0AF2s3,A0E201ml,A0E25A11e,A0E29536o,A0E39014o,A0E453cb5,A0E4CBevs,A0E534cfn,A0E5E9ezx,A0E6177ob,A0E6F8d7u,A0E70B6gz,A0E7AE2vw,A0E9229by,A0E9DB8yl,A0EB76v5,A0EC80f94,A0ECF92s3,A0ED6Ddlf,A0EDCD14o,A0EDFBa6l,A0EE1A14o,A0EEEE287,A0EF84bf4,A0F2174uf,A0F2619nf,A0F2624ba,A0F3C1cvj,A0F3E4xe,A0F4198zj,A0F4505gr,A0F4594h8,A0F4795gu,A0F5095zr,A0F6FDd7u,A0F7C34ls,A0F8492s3,A0F895bxt,A0F9B7rk,A0F9E0ds1,A0FA9Ce3v,A0FAC85gu,A0FB68865,A0FB835sy,A0FBC514o,A0FC6Ed3y,A0FDD9dk0,A0FE61e0y,A0FE91lt,A0FF0C5k5,A0FF22atz,A0FF70dv4,A0FFFD5f4,A4004E2s3,A400E25gu,A401304s,A401DEasg,A402B710n,A402B96gz,A40450f56,A4056Edb0,A4059Eb4e,A405D62vw,A405FD1yo,A406E9d7u,A407B6ba7,A4080110n,A408538zr,A408EA8dt,A408F5b9l,A4098714o,A409B35gu,A409CBxv,A40B784f2,A40BED2kc,A40C66bq1,A40CC32s3,A40DBCejh,A40E2B4js,A40E755on,A40F25ezk,A40F984zc,A410B62s3,A41115akh,A4116216k,A411635zq,A411947f8,A411BB2s3,A412324zc,A412428gl,A4134E7m1,A414375k5,A41566e3v,A415882vw,A416C014o,A416E75gu,A417315rz,A417525p1,A4178B5gu,A41791bqi,A418752s3,A4189466f,A419084lk,A41A3Acvj,A41A6Ef94,A41B342pi,A41BC04kl,A41CB439x,A41EE1cz2,A41F723ix,A4218A90b,A42249b9l,A422B68cw,A423059al,A424B34n5,A424DD2iq,A4251B1cm,A426186gq,A426557bt,A426CA6gz,A427A59nf,A428B7en6,A429025k5,A42940bzz,A429831xq,A42985c2p,A429B7ewx,A42A264u3,A42A71c2w,A42A95351,A42B8C8hv,A42BB0cvj,A42C08813,A42DF18cw,A4307Aba7,A43111eq8,A4313514o,A433D14lp,A433D78a3,A43412d7y,A434D96gz,A434F1d7u,A43523595,A4352Dcwt,A436C779b,A4373E5ty,A437E68dt,A438285gu,A43831aac,A438CC8yt,A438FC9vi,A439B31sa,A439B6avp,A43A39la,A43A69dww,A43B0E5ty,A43BFA5zq,A43CD46n1,A43CD78nm,A43D784zc,A43E51eq,A43EA0f1b,A43F51bpb,A43F6816d,A43FA75on,A44027f94,A4403Dbp7,A4423B6gz,A4428014o,A4431B3q9,A443435ty,A443805ty,A4438C2vw,A444D1ec7,A44519ejs,A445CD6ki,A4466B3xz,A446B45ty,A446FA10k,A44A6481h,A44AD3b4c,A44B15cgp,A44BD5ejs,A44BD95k5,A44C112s3,A44C625ki,A44CC83ix,A44E2Dr2,A44E316gz,A44F295zq,A44F3E5zq,A45006auu,A45046ejs,A450551le,A45129egn,A4515E6tm,A4516F87n,A4526F6y,A4530E2s3,A45385e3v,A453EE5zq,A45590ejs,A45602f09,A4561B7pe,A456302s3,A456CCdv4,A457A0aof,A45802ax0,A4580F5zq,A459BFc4v,A459D35zq,A45A1Cf75,A45C25d7u,A45C278yt,A45D365om,A45D5Eebo,A45DA16y,A45E5A6j,A45E6014o,A45F9B8wt,A45FB93q6,A46011dwf,A460327wa,A46177ds,A46185dcl,A461918os,A462DF3dr,A463A16ka,A4670614o,A468BC97j,A46B1Fezk,A46B4027h,A46BB66gz,A46C245gu,A46C2A2s3,A46CC17bv,A46CF1ba7,A46D339td,A46DA45gu,A46DD4c4v,A46E7939z,A46EA73ev,A470D68cw,A471745gu,A473AB4e3,A475B9ba7,A4773356h,A477588ym,A477608zj,A477F314o,A478062s3,A478861cm,A479525ty,A479E46wt,A47A7216e,A47AA42vw,A47ACFdqt,A47B1A5ty,A47B2C8zj,A47B526t6,A47B85dj9,A47B9D4ba,A47C142nh,A47C1F2u1,A47CC95gu,A47D7843a,A47D9Fc0q,A47E363wg,A47E39f94,A47EFAedm,A47F1B6tm,A4817A287,A481EE8zj,A482693hw,A483E714o,A48431ba7,A4856Ba2k,A486AEa6l,A486DB59d,A488732s3,A4895Bhd,A4897E5ax,A48CC06o1,A48CDB7f8,A48D3Be17,A48E0A3id,A4900527i,A490CEf8g,A491B1dv3,A492CB8zj,A4933F5gu,A493401rl,A4934C2s3,A493AD5ty,A493FE5gu,A4942645c,A494DC6cw,A497002s3,A49733ip,A4975Cdtk,A4978A789,A497914e3,A497B127q,A497BB5qj,A498132vw,A499475gu,A499814qp,A499A8ezk,A49A58ba7,A49B133lj,A49B4F5gu,A49BCD2s3,A49BF55vn,A49D4971c,A49DB8aw4,A49DDDba7,A49E69c4v,A49EDB1bm,A49F857me,A49F89bla,A49FE7ba7,A4A1798pw,A4A1C24at,A4A1E46f3,A4A24A2s2,A4A404218,A4A4595k5,A4A46B5gu,A4A490ba7,A4A4D31x5,A4A528c2w,A4A5842s3,A4A64E848,A4A6A99zs,A4A80Fbq6,A4A9301sa,A4AAFE5ty,A4AB39bxv,A4AC0F5ty,A4AD00aer,A4AD9E8jg,A4ADB8e0i,A4AE115s0,A4AE125s0,A4AE9A7y1,A4B039c0q,A4B0F5d7u,A4B12115g,A4B19714o,A4B1C16gz,A4B1E9dv3,A4B1EE5bm,A4B2392s3,A4B256bt9,A4B2A7r7,A4B36A6ox,A4B4392s3,A4B52E6gq,A4B61E5ty,A4B80514o,A4B8189gl,A4B9809pl,A4BA701sa,A4BA765gu,A4BADB3ix,A4BB6D3ix,A4BBAF7h8,A4BD7E5f4,A4BDC45gu,A4BE2B5gu,A4BE614cj,A4BF016gz,A4C0B03qf,A4C0C7bnb,A4C0E18yt,A4C138d4z,A4C1393oy,A4C1E88yt,A4C23E5um,A4C2AB5kd,A4C33714o,A4C34Ed7u,A4C36114o,A4C3BEejs,A4C3F06gz,A4C40De2x,A4C4946gz,A4C54E5ty,A4C64F5gu,A4C69Aba7,A4C6F014o,A4C74B5ty,A4C788ejs,A4C7DE2il,A4C7F64e3,A4C9394zc,A4CAA05gu,A4CB8F4ba,A4CC326ci,A4CCB3ejs,A4CCB9agu,A4CD23c12,A4CEDA15q,A4CF03agu,A4CF124ba,A4CF9914o,A4CFD2dlf,A4D094ds2,A4D18C14o,A4D18Fbx5,A4D1D13td,A4D1D214o,A4D23E14o,A4D3B54wq,A4D4B2buw,A4D501eoe,A4D5301cm,A4D578d7u,A4D5C25k5,A4D73Cbf2,A4D795ec8,A4D7D6buj,A4D85654g,A4D8CA5fp,A4D93114o,A4D990ba7,A4D9A4f5d,A4D9C6vz,A4DA225zq,A4DA32d7u,A4DA3F1v4,A4DAD4en1,A4DB2E72g,A4DB307ik,A4DB4Ca84,A4DCBE5gu,A4DCD52s3,A4DD585gu,A4DE26cgg,A4DE50ddh,A4DEC9a33,A4E0E64g1,A4E11A6tm,A4E287ejs,A4E31B8zj,A4E32Ec4r,A4E391395,A4E4B81w6,A4E57C4ba,A4E59753e,A4E615au8,A4E6B1bka,A4E7318zj,A4E7E42xz,A4E88D4h8,A4E8A34qz,A4E97514o,A4E991az7,A4E9A35s3,A4EA4Fe2h,A4EA8E4e3,A4EBD3ba7,A4ED435zq,A4ED4E2vw,A4EE57bf2,A4EF1510d,A4EF52d4s,A4F00F4ba,A4F01F23n,A4F05E4zc,A4F1E814o,A4F33Bf94,A4F3C19am,A4F3E76gq,A4F465687,A4F4C2dsf,A4F4CA9zs,A4F52227p,A4F6E614o,A4F6E814o,A4F7D0772,A4F84114o,A4F8FFdlp,A4F92114o,A4F9336gz,A4F9E4vm,A4FA768vr,A4FB8D5k0,A4FC1414o,A4FC7783n,A4FCA18zq,A4FCCEbel,A4FF958zj,A4FF9Fejs,A800E3ce9,A8016Dwc,A8018060k,A802DBf94,A8032A4ba,A80556f8g,A805778u7,A80600ba7,A808CFdx9,A809B15ty,A80B6B2q0,A80BFBalx,A80C034np,A80C0D2s3,A80C635gu,A80CCAbxi,A80DE15gu,A81087d7u,A811FC2vw,A81306f8g,A8130Bezk,A813749nx,A813788zj,A8154Dcvj,A815591zh,A815D6bux,A8169D5ub,A816B2798,A816D0ba7,A817101yo,A81758451,A81AF114o,A81B18ei2,A81B5A4zc,A81B5D4pf,A81B6Ad7u,A81C36c83,A81D161er,A81E84a5w,A81F79enp,A81FAF6y2,A8206614o,A8213Abxy,A821C8f6s,A823168zj,A823FE797,A824501po,A824B88zj,A824EBep6,A825EB2il,A826D95gr,A827C843a,A82948cvk,A8294C9yu,A829DCcvk,A82AD617e,A82BB543b,A82BB9ba7,A82BCD5gu,A82BD5ejs,A82BD6c1j,A82BDD77z,A82C3Ebqb,A82C8914o,A8301Ca4x,A830ADe3v,A830BCba7,A831625k7,A8329A3l1,A8346Aba7,A835125ty,A8367Af0g,A837595ty,A83944q7,A83A48dln,A83A7989v,A83B5C5gu,A83B76296,A83CA53ix,A83CCBacj,A83E0E5f4,A83ED35gu,A83FA15zq,A8400Be06,A840259e4,A840413pv,A8407D4u3,A840F85h9,A841222pg,A841F41er,A842A1cvk,A842A76rv,A842E34ba,A843976eq,A843A42p5,A844818zj,A844AA4lk,A845CDc6c,A845E94mk,A846165gu,A846744ba,A8469D2s1,A8474A5rz,A848FA4ba,A8494D5gu,A849A57ia,A84A2814o,A84A63cvq,A84B4Dba7,A84D4A1b0,A84E3F5qz,A84FA427h,A84FB12s3,A850084l0,A850815gu,A8515Bba7,A851AB14o,A852D45on,A8537D89v,A854A25ne,A854B2e5t,A8556A1m,A8574Ecvj,A857BAbzz,A858402il,A8584E9i8,A8587Cc1z,A8595F6gz,A85AE05ty,A85AF3blh,A85B365zq,A85B6Cakk,A85B7814o,A85BB0bqk,A85BB714o,A85BD164s,A85BF31b1,A85BF75on,A85C036rf,A85C2C14o,A85E45jj,A85EE45,A85EF2cpb,A85F6114o,A860B614o,A8610Agz,A861AA2tj,A861DF2pi,A861ECd7u,A862A26nv,A86308mm,A8637D351,A863DF3c0,A863F2d7u,A86405f5l,A864F16gz,A865B23d3,A8667F14o,A8671Ea8l,A8698C9ci,A86A6Faay,A86A86ejs,A86ABBb9l,A86AC15j6,A86ACB40e,A86B7Cauk,A86BAD5rz,A86D04c37,A86D5Faez,A86DAA6gz,A86E4E5ty,A86E84cvk,A86F36f8g,A8705D2vw,A870A5dmp,A8711641o,A8724D6gz,A8727Ee5g,A872855z5,A8741D9sr,A87484f94,A8754E8wu,A875D64q0,A875E21cq,A87650ba7,A8776Fev8,A877E5au8,A879715gu,A8798Dba7,A87B398zj,A87C01ba7,A87C455gu,A87CF814o,A87D125gu,A87E338zl,A87EEA6gz,A88038bnl,A88055dhv,A8817E14o,A88195ba7,A881F11j7,A881FE7m2,A882005q1,A8827F285,A885D7baz,A886DD14o,A8879220e,A887B3ba7,A887EDgo,A8880814o,A8881Fasm,A888CE4zc,A889405ty,A88B28auf,A88C3E87m,A88CEE86t,A88D7Bcgt,A88E2414o,A88F9916e,A88FD914o,A890081sf,A890421rz,A8913D14o,A89162cbb,A8922C798,A8934A27q,A89352ati,A893E66nr,A895B0wm,A896094h8,A896758cw,A8968A14o,A897CD2vw,A897DC5xb,A898924zc,A898C6c1k,A8995Cew1,A899693ix,A899AD2ng,A899DCf0z,A89A8Cf94,A89A93b9l,A89AD78zj,A89B10f34,A89C6Cdlp,A89C7814o,A89CA44ry,A89CEDejs,A89D212s3,A89DD2bjd,A89FBAba7,A89FEC2vw,A8A089cyn,A8A09227h,A8A097bd8,A8A159iz,A8A198co5,A8A23715q,A8A5E27wj,A8A648a4t,A8A668f94,A8A7955rz,A8A9134xc,A8AA7C5ty,A8ABB514o,A8AD3Dxf,A8B02832t,A8B088ezk,A8B0AE1w0,A8B0D13uc,A8B13B5gc,A8B1D42s3,A8B2715gu,A8B2DA4j0,A8B4562s3,A8B483bxm,A8B57Cal4,A8B58Eau3,A8B86E798,A8B8E02n8,A8B9B33ze,A8BA255on,A8BA69ba7,A8BB50eb2,A8BB5614o,A8BBCF14o,A8BC9C2t5,A8BD1A5s5,A8BD275on,A8BD3Adjz,A8BE2714o,A8BF3C5df,A8C050a6l,A8C0925ty,A8C0EA9r2,A8C222cts,A8C24651n,A8C2525ty,A8C2665h8,A8C4075gu,A8C56F4zc,A8C6474e3,A8C83A5gu,A8C87Falc,A8C98A8vr,A8CA7710n,A8CA7B5gu,A8CA87ept,A8CAB9aol,A8CB953ss,A8CC6F5f4,A8CCC5b8w,A8CE902gq,A8CEE74lk,A8CFE04u7,A8D0815ty,A8D0E3cl3,A8D0E56tm,A8D162ba7,A8D2367h0,A8D3C8e6i,A8D3F715q,A8D409dky,A8D4981cz,A8D4E05gu,A8D5791op,A8D6D9296,A8D82817w,A8D861687,A8D88Aeg5,A8DA01bv9,A8DA0Casm,A8DB03aom,A8DC5A3mm,A8DD9Fa6l,A8DDBCdhv,A8DDEC5jv,A8DE681s0,A8E0188zj,A8E2074xq,A8E2911er,A8E2C1d7u,A8E2C3bzz,A8E3EEcb9,A8E539920,A8E5445gu,A8E5526pk,A8E5EC8zj,A8E62110n,A8E6E8dcj,A8E7054lk,A8E77Dd7u,A8E81Ekq,A8E82462i,A8E9785ty,A8EA714lk,A8EAE4e8z,A8ED7112d,A8EE67ba7,A8EE6D4m7,A8EEC68e2,A8EF26dgo,A8EF5Fagu,A8F038att,A8F0595gu,A8F07C5ty,A8F1B2z6,A8F2665ty,A8F274ba7,A8F4704r0,A8F5AC5gu,A8F5DD2vw,A8F5E1bww,A8F766684,A8F7D989v,A8F7E09ie,A8F8C98o9,A8F94B464,A8FAD814o,A8FB408zq,A8FB70ed8,A8FCB72y5,A8FE9D14o,A8FECE4lk,A8FFBA5gu,AA00003b7,AA00013b7,AA00023b7,AA00033b7,AA00043b7,AC007A14o,AC00D0f94,AC00F91w1,AC0142dox,AC017Ac2w,AC02CA5e3,AC02CFadd,AC02EF2x1,AC040B9qp,AC0416f94,AC0425ewm,AC04816ru,AC04AA55x,AC04E68nm,AC05C76gz,AC0613bgi,AC0650bj2,AC06C7bhy,AC075F5gu,AC077514o,AC0A617cn,AC0BFB4ba,AC0D1B798,AC0DFE444,AC100715q,AC10656y8,AC11D3cig,AC12036gz,AC122F4k9,AC128Ebj3,AC139Crx,AC1461jq,AC14D2f8n,AC15184ba,AC1585f6z,AC15A2cvk,AC15F414o,AC161514o,AC162D5om,AC16DE6gz,AC17024la,AC1754f7w,AC1794au8,AC17C82s1,AC1826bf2,AC198E6gz,AC199Fb65,AC1A3D3ix,AC1C265k1,AC1D0614o,AC1DDF5zq,AC1E92ba7,AC1E9Eejs,AC1EA96h3,AC1ED0d5r,AC1F09f6j,AC1F0Fd7u,AC1F6Bcho,AC1F7414o,AC1FD7agm,AC202E5qz,AC203Eefl,AC20AA3cj,AC22052w9,AC220Bjj,AC22415gu,AC231689v,AC23346d5,AC233Fbv1,AC236E14a,AC2477by8,AC276E4ba,AC29296d5,AC293A14o,AC2A0C2g3,AC2AA12s3,AC2B6E6gz,AC2BA2d8b,AC2DA3cyb,AC2DA9cpb,AC2FA85ut,AC3019bse,AC31845ty,AC319Dbxs,AC330B6qh,AC33285ty,AC33514at,AC34CBbmg,AC35EE4h8,AC3613ba7,AC361B5s0,AC36516rp,AC3728cz2,AC37435gr,AC37C9a85,AC38707fd,AC393Dezk,AC3971agu,AC3A672s3,AC3A7Aal4,AC3AE28o2,AC3B77b9l,AC3B968o9,AC3C0B14o,AC3C8E4ng,AC3CB48y6,AC3D056gf,AC3D755ce,AC3D9416e,AC3DCB6gz,AC3DFA5k7,AC3EB156h,AC3FA4cmx,AC401Ef8g,AC40B57lj,AC40EA222,AC412242n,AC416A10n,AC42289pp,AC4330dwx,AC44F2elb,AC450014o,AC45B0bti,AC45CA4zc,AC45EF6gz,AC46A7asg,AC471B5ty,AC472351r,AC482Daf2,AC49DB14o,AC4A562s3,AC4A672s3,AC4AFE5q0,AC4B1E6gy,AC4BC86tm,AC4CA5dv4,AC4D16d7u,AC4DD94e3,AC4E2Ebtl,AC4E654lk,AC4E915gu,AC4FFCb74,AC50369tk,AC50937yg,AC50DE296,AC50EEdan,AC512C6d5,AC51357vy,AC51AB5gu,AC51EErx,AC5322ba7,AC54742pj,AC54EC5zo,AC562C77x,AC567Bch9,AC57755f4,AC583B5uq,AC587B6n6,AC5A14ba7,AC5AEE2pi,AC5AF0797,AC5AFC6gz,AC5C2C14o,AC5C80d4x,AC5D109mg,AC5D5C4h8,AC5E145gu,AC5E8Cdp3,AC5F3Eaom,AC5FEA99u,AC606F8zn,AC60895gu,AC60B64at,AC61233qg,AC61755gu,AC61B9e33,AC61EA14o,AC620D6py,AC62FFdv4,AC63BE10n,AC6417c37,AC6462f94,AC64905gu,AC64CF4h8,AC64DD5zq,AC6706alx,AC675D6gz,AC676F44l,AC678456h,AC67B24ba,AC69CF2s1,AC6AA3bu2,AC6B0F22y,AC6BAC6r3,AC6C90ba7,AC6E1Aauq,AC6F4F494,AC6FBBcnn,AC6FD9duo,AC710C2pi,AC712E4ou,AC72367g0,AC72896gz,AC72DD4u3,AC73524zc,AC74095k3,AC74B16gz,AC74C482a,AC751D5gu,AC764C4zc,AC77135si,AC77B98ps,AC78D16tm,AC7A42f1c,AC7A4Dca,AC7A562s3,AC7A944zc,AC7BA16gz,AC7E015ty,AC7E8A2s3,AC7F3E14o,AC7F8D4e3,AC800Acb5,AC80AE4lk,AC80D65oo,AC80FBba7,AC811251n,AC81B5ot,AC81F38zj,AC8226a4q,AC82476gz,AC82F014o,AC8317brp,AC83E91so,AC83F02tz,AC83F3dt,AC84C6cvj,AC84C9b9l,AC84FAetl,AC853D5gu,AC86749aj,AC867E31h,AC86A314o,AC86D15zq,AC873F1yo,AC87465ug,AC87A314o,AC8866bx6,AC88FD14o,AC89951er,AC89D22ri,AC8AC75gu,AC8ACDac1,AC8B6A2pj,AC8B9C9zh,AC8BA9dlp,AC8C461sa,AC8D14c8i,AC8D345gu,AC8EBD87m,AC8FA98zq,AC8FF88zj,AC90735gu,AC908514o,AC915D3lm,AC919Be5t,AC91A13ix,AC92325gu,AC932F8zj,AC936A5ty,AC93C44u3,AC940349r,AC95726t8,AC965B7kw,AC973814o,AC976C57v,AC99295gu,AC9A228oa,AC9A3Fd7u,AC9A96820,AC9B0Acb5,AC9B84c7k,AC9CE4xf,AC9E17jj,AC9FC3ajt,ACA0162s3,ACA09D6tm,ACA213au3,ACA22C1na,ACA31E5on,ACA32Fca4,ACA4309qk,ACA46Eauq,ACA613wb,ACA66744t,ACA7044ba,ACA7F1cvk,ACA88Eatl,ACA899d7u,ACA919dfd,ACA9A01aw,ACAB2E1qa,ACAB8D7m6,ACABBF19p,ACACE226x,ACAD4Bf94,ACADEFe6t,ACAE19al4,ACAFB9ba7,ACB1811t1,ACB1EEauj,ACB3132vw,ACB3B55gu,ACB4803ix,ACB566aie,ACB57D7ik,ACB68715q,ACB722a4q,ACB74F7r1,ACB859dmt,ACB92F5k5,ACBAC06j8,ACBB61emp,ACBC3214o,ACBC5Bds4,ACBCB514o,ACBCD92s3,ACBD0B7ev,ACBD705ty,ACBDF72s1,ACBE75dm1,ACBEB6e08,ACBF711yh,ACC04899u,ACC1EEejs,ACC25D4lk,ACC2EC29b,ACC33Aba7,ACC358l0,ACC3E52s1,ACC4A94lk,ACC4BD4zc,ACC51Beuk,ACC595578,ACC5B45gu,ACC6628a3,ACC69873s,ACC73Fds0,ACC90614o,ACC9358sj,ACC9FFagu,ACCA0F61k,ACCA54d59,ACCA8E92x,ACCAABdze,ACCABA884,ACCB095mz,ACCB364lk,ACCB515k5,ACCC8E1e1,ACCCFC10n,ACCE8F5hl,ACCE928vr,ACCF235ot,ACCF5C14o,ACCF7B62h,ACCF855gu,ACD0744ba,ACD180323,ACD1B85rz,ACD20C2om,ACD31D2s1,ACD3644i,ACD3FB17n,ACD56427q,ACD61899u,ACD657bib,ACD75Bb9l,ACD8291yo,ACD8A71ha,ACD929a6l,ACD9D6f7n,ACDB2280m,ACDB482vw,ACDBDAbrx,ACDCCA5gu,ACDCE5a0a,ACDE01alx,ACDE489zs,ACDF9F15q,ACDFA114o,ACE0107ik,ACE0115gu,ACE069672,ACE0D6f43,ACE14F1c2,ACE2155gu,ACE2D35om,ACE3425gu,ACE3487y0,ACE403byw,ACE42Eazk,ACE4B514o,ACE4D8ejs,ACE5F03pd,ACE6065sy,ACE64Bbp5,ACE6BB56h,ACE6FB14o,ACE77Bc2w,ACE87B5gu,ACE87E21u,ACE97F6kk,ACE9AA5mm,ACEA6A4v2,ACEA70er0,ACEAEA5gu,ACEB51do6,ACEBE64ba,ACEC802vw,ACEC85ezk,ACED324e3,ACED5C6gz,ACEE3B28,ACEE64bxm,ACEE704o9,ACEE9Eba7,ACEF925zq,ACF0B21nr,ACF10879b,ACF1DF351,ACF23C296,ACF2C52s3,ACF42C41o,ACF4665gc,ACF473f2a,ACF5E62s3,ACF6F7798,ACF70D2pi,ACF7F3ejs,ACF85C2o9,ACF878dhv,ACF896ezk,ACF8CC2vw,ACF9328o9,ACF9705gu,ACF97E3vl,ACFAA5ey6,ACFAE48yt,ACFBC2bx6,ACFC82bxi,ACFCE33wg,ACFD93e3v,ACFDCE6gz,ACFDEC14o,ACFE05687,ACFF6B5gu,B00073e5t,B000B42s3,B00247dt,B0027E7wz,B005947ik,B006EC8ww,B008755gu,B008BFe0a,B009D31d7,B009DAaju,B00AD5f94,B00B225ty,B00C9Da6l,B00CD15om,B010415rz,B0104B4lk,B010A0d7u,B012033re,B012664s9,B0140879q,B014DF8a3,B016565gu,B017433tp,B0183114o,B01886c7m,B01921cvk,B019C614o,B01B4B6kd,B01B7C9a7,B01BD27e2,B01BFC2s3,B01C0Cau8,B01C9145e,B01F295o0,B01F475nb,B01F815zq,B01F8C5on,B01FF4b9l,B0216F5gu,B0227A5gc,B02347bry,B024915ty,B024F3a0j,B025AAan,B0262820l,B026802s3,B027CF4e3,B0285B6pa,B02A1Fec7,B02A4356h,B02B642s3,B02EBA41o,B02EE05ty,B030552pj,B030C8d0q,B0322670n,B03366f8g,B033A66tm,B0349514o,B034FBbnj,B0350B7v2,B0358D8zj,B0359F6gz,B035B514o,B037314it,B03795797,B03829c54,B038508p2,B0386C3u8,B0389399n,B038E2e6t,B039568hv,B03ACE5ty,B03B1B74d,B03CDC6gz,B03D96dzr,B03DBFf6l,B03DC2e73,B03E51azx,B03EB07s5,B03F6414o,B03FD34ba,B04089bg5,B0411D68s,B0416Fbuv,B042B75gu,B0435D82p,B044148vr,B0449C18t,B045025ty,B04515f4v,B04519co5,B04530azx,B04545el7,B046924zc,B046FC8a3,B0475E5zq,B047BFba7,B047E96gz,B0481A14o,B0487Acvj,B0495F93y,B04A391r2,B04A6Aba7,B04AB48cw,B04B688ew,B04BBF9lo,B04C054qb,B04E26cvj,B04F133ix,B04F3C52z,B04FA63om,B04FC3bva,B050BCau2,B0518E5rk,B052165rz,B052468o9,B053652pj,B05476ba7,B055085gu,B05706duf,B058C420k,B05947bvy,B05A444ln,B05A7B5ty,B05ADA5om,B05B1Fcss,B05B675gu,B05B99b9l,B05C164lk,B05CDA5gc,B05CE58zj,B05DD42vw,B060886gz,B061A9elp,B061C74ay,B061EBc4v,B064E0ba7,B0653A8dt,B06563bl7,B065BD14o,B065F1e53,B0672F1ys,B067B514o,B068B65kj,B068E627q,B0697138m,B06A4156h,B06B115ub,B06BB34ym,B06CBF1p,B06E72agu,B06EBFjj,B06FE0ba7,B0700D8zj,B0702D14o,B0721914o,B072BF8dt,B0735D5ty,B0739C10n,B0750Ca2r,B0754D8zj,B075D5f94,B0761B5gu,B077AC2vw,B078394u3,B07870eaj,B078F01pr,B07908331,B0793Caj3,B079948cw,B07A16ac0,B07AA45ab,B07ADF5gu,B07B253ix,B07C51alx,B07C8E20x,B07D472s3,B07D623nb,B07D646gz,B07E11d7u,B07E70er6,B07FB98hv,B0808C7dk,B081015sy,B081844ba,B081D85wu,B082AB59o,B082E2jj,B083D62vw,B083FE3ix,B0869E2qa,B08807cfk,B089005gu,B0899179d,B089C2evr,B08B92f94,B08B9Ed3c,B08BA810n,B08BBE4u,B08BCF2s3,B08BD02s3,B08C7514o,B08CB34h8,B08D572s3,B08E1Adku,B090744rl,B0907E2s3,B090D4bsr,B09122d7u,B09134czt,B0913767q,B0920014o,B0924Ab9l,B0935B2vw,B095013wg,B09575cvj,B0958Ecvj,B0966C7d1,B096EA4u3,B09738bx6,B0973A3rs,B097E64ir,B0982Bb9l,B0989F792,B098BC5ty,B099284j0,B0995A5gu,B099D7ba7,B09AE2b54,B09BD44xg,B09C18bxv,B09C63ejs,B09CB256h,B09E1B21n,B09FBA14o,B0A10A9uu,B0A187agu,B0A2E7bxt,B0A37Ea2z,B0A3F25tw,B0A454dgk,B0A4606gz,B0A4F05gu,B0A5B35on,B0A6044ba,B0A6512s3,B0A6F5eii,B0A72A491,B0A7324ba,B0A737al4,B0A7B9cvk,B0A7D24lk,B0A86E6tm,B0AA364zc,B0AA772s3,B0AAD2c30,B0AC8227h,B0ACD2f94,B0ACFA4j0,B0ADAA1cm,B0AE25dva,B0AFF7c08,B0B0A15s0,B0B113d7u,B0B194f94,B0B21C4ba,B0B28Fb9l,B0B2DCevs,B0B32Bc7h,B0B3535zq,B0B369bwf,B0B3AD5h8,B0B448d7u,B0B5C34zc,B0B5E8am9,B0B8675on,B0B8D58pb,B0B98A8hv,B0BB8Be3g,B0BBA914o,B0BBE5b9l,B0BC7A5m5,B0BC8Ec71,B0BD1B3p0,B0BD6D42i,B0BDA1ep2,B0BE45848,B0BE76cvj,B0BE8314o,B0BF99e5o,B0C0902p1,B0C128rs,B0C19Ef94,B0C2051i4,B0C287dv4,B0C2C78cw,B0C3874xn,B0C38E5ty,B0C46Cbgh,B0C4E7ba7,B0C53C2s3,B0C554351,B0C559ba7,B0C5CA5zq,B0C61C5gu,B0C69A6tm,B0C7451l4,B0C7875gu,B0C7DEc4v,B0C83F6rm,B0C8AD9qx,B0C9524zc,B0C95B1rm,B0CA6814o,B0CAE75ty,B0CBD84ba,B0CCCE5zq,B0CCFE5ty,B0CE18etr,B0CF0E848,B0CF4D7rf,B0CFCB10n,B0D09Cba7,B0D1D68zn,B0D278d7u,B0D2F5dvp,B0D41F7v0,B0D568bqb,B0D57614o,B0D587f70,B0D59Dc0l,B0D5CCd7u,B0D5FB56h,B0D616cho,B0D77E5gu,B0D7C57jp,B0D7CCdg6,B0D7DE5kg,B0D8889ns,B0DA0026e,B0DAF92vw,B0DCEF6gz,B0DD745ne,B0DE2814o,B0DE31ba7,B0DF3Aba7,B0DFC1d60,B0E03Cco5,B0E17E5gu,B0E235ejs,B0E2E54lk,B0E39D24n,B0E45Cba7,B0E4D556h,B0E50E8mv,B0E5ED5gu,B0E5EF14o,B0E5F914o,B0E71Dbkr,B0E754r,B0E7DE5rq,B0E892bf2,B0E8E8c4v,B0E97Esk,B0E9FEedw,B0EA19cvo,B0EABCip,B0EB575gu,B0EB7F6tm,B0EC6914o,B0EC71ba7,B0EC8F4x9,B0ECDD5gu,B0ECE19zs,B0EE451er,B0EE7Bal4,B0F00C3p5,B0F0794zc,B0F1A34l4,B0F1AEezk,B0F1BC3kd,B0F1D814o,B0F1ECdt,B0F208me,B0F2F6ba7,B0F3E99fg,B0F5305qz,B0F5C8dt,B0F7C410n,B0F893bkp,B0F9635k3,B0FA8B5ty,B0FA913wg,B0FAEB2s3,B0FB154ed,B0FBDDbxm,B0FC0D10n,B0FC3633y,B0FC4Bbvo,B0FC88b9l,B0FD0B5zq,B0FEBD9zs,B0FEE55ty,B0FF0D5k5,B0FF725zq,B4001662e,B4009C2hg,B401424u1,B402162s3,B402F2ck6,B40418c87,B40421f94,B404295aj,B4055D5zs,B40566b2w,B405A1ejs,B407F9aol,B40832cnu,B409315gu,B40AC639u,B40AD8cb9,B40B1Dba7,B40B44c8c,B40B78214,B40B7A214,B40C259nf,B40E06d9n,B40E965dp,B40ECF1yo,B40EDC79c,B40EDE6gz,B40F3Bd60,B40FB3f8g,B4101Cbk2,B4107A10n,B4107Bd7u,B4132456h,B414892s3,B414E65gu,B415135gu,B4157E2lv,B41584ba7,B416786tm,B4174D9ks,B417803e9,B417A8856,B418D114o,B4197414o,B41A1Dba7,B41BB014o,B41C30f94,B41CAB5yg,B41CAFdik,B41D2Bbzz,B41D628zn,B41DC45gu,B41DEF6j0,B41E524nn,B41F4Dcb9,B42046ezk,B4205B4zc,B4211D1pc,B4218A3oa,B4220020x,B423306li,B423A256h,B424E72u8,B4265Dcz2,B428026gz,B428754sb,B428F13rx,B4293Dbyn,B42A0Edv4,B42A39960,B42BB95gu,B42C92etm,B42CBE3nd,B42D564e3,B42E994w0,B42EF845g,B42F03a6l,B430525gu,B430C0enz,B43161agu,B431B81d6,B4346C7og,B43522c4v,B435644r9,B435F7etf,B436A94ln,B436D1aie,B436E36v8,B437412y3,B437D15zq,B437D8350,B438365gu,B439349qq,B43939bxt,B4394C5gu,B439D69zu,B43A28ba7,B43A31c4v,B43A454ba,B43A9616e,B43AE25gu,B43B52b9l,B43D084zx,B43D6B8o9,B43DB23iu,B43E3Bdxl,B440A414o,B440DCba7,B441306pu,B4417Aauq,B4430D20o,B443265gu,B443895gu,B445063ix,B4466Ba9d,B4475E1cm,B447F541o,B44BD214o,B44BD65zq,B44C3Bet2,B44C902s3,B44CC28mu,B44D435zq,B44F96etp,B4506246a,B451F98fq,B45253bdq,B4527Dcb5,B4527Ecb5,B452A9d7u,B454592pg,B454F25ty,B455701y1,B4557514o,B4565D2q0,B456B9d6y,B456E314o,B456FA65a,B457E64zc,B458612fm,B4597614o,B45B864rw,B45BD1cvk,B45CA4d9f,B45CB5848,B45D505on,B45F84f94,B46077c2r,B4608C4lk,B460ED1sa,B461425gu,B461E9c2p,B461FF7lc,B4622Eeu1,B462384da,B46293ba7,B462AD469,B4636F8zq,B464155ar,B465DC27h,B46698erg,B467E9a4m,B469216gz,B4695Fco5,B46AD443a,B46BFC6gz,B46C479nr,B46D353fr,B46D836gz,B46DC2au3,B46E085gu,B46E10f8g,B46F2De6k,B46F785i,B47064ba7,B472D4f94,B473565l0,B47443ba7,B474472zv,B4749Fip,B4750E1t5,B476A45ty,B47748bvc,B47947922,B479A7aom,B479C8alx,B47AF15on,B47B1A5gu,B47C29bs8,B47C596rq,B47C9C10n,B47CA6f94,B47D766x2,B47E9Fejs,B47F5E4og,B48107au8,B481BF857,B48255air,B4827Bay,B482C5ahz,B482FEip,B483516gz,B484D5568,B4854711x,B485E114o,B486184zw,B486555gu,B489015gu,B4891030x,B48931c4v,B48970603,B48A0A4ba,B48A5F6tm,B48B1914o,B48C9D1er,B490E54u3,B491075gu,B492FE16d,B4944Ee89,B496916gz,B496A514o,B49842f94,B49882215,B4994Cd7u,B499BA5om,B49A7D4zc,B49A95bpf,B49CDF14o,B49D02ba7,B49D0B1k0,B49D6Bf8g,B49DB41dy,B49DFDbwf,B49E80c2r,B49EAC6ah,B49EE6aw3,B49F4D4lk,B4A10A5ty,B4A25C2ig,B4A2EB5zq,B4A305eh6,B4A3825k5,B4A3BD4e3,B4A4B5erw,B4A4E32s3,B4A5A97v5,B4A5AC4zc,B4A5EFbhm,B4A64A4ba,B4A678etj,B4A7C6asm,B4A828bq5,B4A82B5q6,B4A8985ty,B4A8B92s3,B4A94F7qh,B4A95A1cm,B4A984cjn,B4A9FCa5w,B4A9FE4vs,B4AA4D493,B4AB2C8da,B4ABF35zq,B4AC8C1tt,B4AC9Dd7u,B4ADA35aj,B4AE2B87m,B4AE6F2rt,B4AEC114o,B4B0171cm,B4B024cvk,B4B0555gu,B4B15Ac39,B4B26535g,B4B291797,B4B2E94ou,B4B362f94,B4B384bna,B4B52F5om,B4B5425u4,B4B5AF89d,B4B5B627q,B4B650agu,B4B6766gz,B4B6865om,B4B74210n,B4B8535sy,B4B859d7s,B4B88Dda2,B4B9E6ezk,B4BA02u9,B4BA122pg,B4BA6Acpb,B4BA9Dazx,B4BC7Cd7u,B4BFE94ba,B4BFF6ba7,B4C0C3cvk,B4C0F5bxt,B4C170enk,B4C26A50u,B4C2E01yo,B4C2F75ty,B4C3D95gu,B4C44Edto,B4C476efc,B4C4FCejs,B4C556bke,B4C62E8bp,B4C6F81du,B4C7994e3,B4C810dmj,B4C9B9c2p,B4CADD2s3,B4CB574zc,B4CBB8do6,B4CC049ul,B4CCE99l2,B4CD275gu,B4CDF52gk,B4CE40ba7,B4CEF65gr,B4CEFE6q7,B4CF49e5t,B4CFDBbtr,B4CFE0c30,B4D0A92pi,B4D1352tf,B4D1F65gu,B4D286d3c,B4D31A7ci,B4D5BD6gz,B4D5E5ba7,B4D64E2hy,B4D7DB8vr,B4D8A91u4,B4D8DEf3k,B4DB9125o,B4DC0959x,B4DD152z0,B4DDD0l3,B4DDE0biy,B4DE312s3,B4DEDFf94,B4DF094h1,B4DF3B2qy,B4DF435zq,B4DF912s1,B4DFFA7ii,B4E01D2cm,B4E02568g,B4E0CD4s6,B4E10F3ix,B4E1C487n,B4E1EB9zs,B4E25B5gc,B4E265bwf,B4E3D0797,B4E3F9c4v,B4E45410n,B4E46B2pj,B4E53Ealx,B4E54C7aj,B4E5C55ty,B4E62A79b,B4E62D4ba,B4E782e0s,B4E7B343e,B4E8425sn,B4E85Cf0h,B4E8C9egm,B4E9A3f5w,B4E9B02s3,B4E9B83ix,B4EC02ca,B4ECF2bkk,B4ECFFef9,B4ED199u0,B4ED54edx,B4EDD5a6l,B4EE25bp9,B4EEB4ip,B4EED4d7u,B4EF0435p,B4EF1Cz,B4EF30ble,B4EF39ba7,B4EFFA7f3,B4F0AB14o,B4F18C5ty,B4F1DA798,B4F2672w9,B4F2E82vw,B4F3239h5,B4F49B5ty,B4F58E5gu,B4F61C14o,B4F7A1798,B4F81E72m,B4F949f5s,B4F95D6tm,B4FA4814o,B4FBE310d,B4FBE4dlp,B4FBF95gu,B4FC75arx,B4FC7Dme,B4FE8C2mb,B4FF985gu,B800185th,B8005B5ty,B8011F14o,B802A4ti,B803056gz,B804151n9,B8053314o,B805ABf94,B8060Ddhv,B80716f8g,B807562s1,B808CF6gz,B808D75gu,B8098A14o,B80B9A5gu,B80B9Dace,B80BDA4u3,B80C685sy,B80E1D9fo,B810D480w,B8114B2s3,B812DA7c8,B81332dt,B813E9de1,B8141370l,B8144D14o,B8145C5ty,B814DB936,B816192vw,B8165F79b,B816DB270,B81743f6w,B817C214o,B8186F96a,B819048zn,B819998sn,B81BCBblk,B81D1F5gu,B81DAA798,B81E0B4e3,B81E61cqx,B81E9E5gu,B81EA47ik,B81F3F4ba,B81F5E154,B8208E9nw,B820E75a2,B8211C14o,B8220C14o,B8224Fc2w,B824107yo,B8241Ab76,B824F0b2u,B8259Ad88,B825B5dee,B8266Cer,B826D44s0,B827C55ty,B827EBafm,B8288B9ph,B82903dr8,B829F71w8,B82A723ix,B82AA914o,B82ADC3ua,B82B685ty,B82CA0ais,B82D28dt,B82FCB29s,B830A8akc,B831B587m,B83241efl,B8328Fezk,B834468cw,B836D8dy7,B8374A14o,B8374B5on,B837654zc,B837B25on,B838612s3,B838655on,B838CA75z,B838EF82,B83A08d60,B83A5A5on,B83A7Beeq,B83A9Dwx,B83B8F5k9,B83BAB15q,B83BCCejs,B83C205ty,B83C2814o,B83D4Ebqc,B83DF6d7u,B83DFB1yo,B83E59al4,B83FD2848,B8415Fit,B841A414o,B841D95aj,B843E4e19,B844AEco5,B844D914o,B845EB14o,B845F48vr,B8477A3gi,B847C6bal,B848AA3wg,B848EC9zs,B8496D14o,B84C875zq,B84D435hc,B84DEE5q4,B84FA714o,B84FD587m,B850014e3,B850D81sa,B8511Dcq1,B851A98zj,B85213f94,B852E01s9,B85384ejs,B853AC14o,B85510eux,B855EAen9,B856005gu,B856BD68q,B85776f4b,B857D62s3,B857D8ba7,B858108nu,B858FF16e,B8599F848,B859C829,B859CE41o,B85A73ba7,B85AF79dt,B85AFE5jc,B85B6C2yl,B85C5C87m,B85CEE1lx,B85D0A14o,B85DC35gu,B85E71dv4,B85E7Bba7,B85F9810n,B85FB05gu,B860612pi,B860919a5,B861421rt,B8616Fot,B861FC6tm,B8621F2s3,B8634D14o,B863924za,B863BCabu,B864681g7,B8649128q,B8653B1xu,B86685b9l,B868708yt,B869C2ch4,B869F488b,B86A9743b,B86AF1b9l,B86B23dd6,B86CE05on,B86CE8ba7,B87029bw8,B870F42bf,B87424dyf,B874472z3,B8752E5ty,B875C09qa,B8763F5rz,B877C37r2,B878268yt,B8782E14o,B87879aku,B8797Ebed,B87AC9c37,B87B4D4ba,B87BC514o,B87BD456h,B87C6F8o6,B87CD05ty,B87CF24e3,B87E398cw,B87E405ty,B87EE56h3,B88035bvy,B8804Fd7u,B881986gz,B881FA14o,B88268aut,B882F2e5t,B883035on,B88411bww,B8857B5gu,B885843ix,B886877ik,B8871E569,B8876E6j8,B887885gc,B887A8ceq,B887C6a1v,B88880bk2,B888E32bf,B889812ob,B889CA60e,B88A606gz,B88A72aie,B88AEC8yt,B88C294u3,B88C2Bb9l,B88D1214o,B88DF18p1,B88E3A6d0,B88E825ty,B88EB0bx6,B88EC6cef,B88EDFerx,B88F1412e,B88F27agu,B88FB46m6,B8904714o,B89165etj,B891C95jf,B8921D1hq,B894365gu,B894702i5,B894D2aix,B894D9d7u,B894E7ejs,B89674yn,B89734c4v,B8975A1i8,B8977A8zq,B898AD8cw,B898B01a3,B898F754l,B899192d,B899AEbuz,B899B02un,B89A2A6gz,B89A9Aejw,B89ACD3vu,B89AED981,B89BC9b0m,B89BE44g,B89C13zs,B89DE5io,B89EA6b31,B89F09e5t,B89FCC5gu,B8A0B8ba7,B8A14Aaez,B8A175al4,B8A1B816e,B8A25D8cw,B8A3772s3,B8A386351,B8A3E01ta,B8A44F1e1,B8A535dv4,B8A58D1dm,B8A75Eefy,B8A792c2w,B8A825ba7,B8A8AF7jd,B8AB612s1,B8AB625ub,B8AC6F3ix,B8AD3E1ix,B8AE1Cc7p,B8AE1D5at,B8AE6E8yt,B8AEED45j,B8AF675om,B8B1C71kv,B8B1EA5sy,B8B2EB56i,B8B2F73dh,B8B2F814o,B8B3DC39d,B8B409ba7,B8B42E54l,B8B4C92s1,B8B77D59l,B8B7D7n,B8B7DB4xq,B8B7F1e5t,B8B81E6gz,B8B94Ec0p,B8BA6687m,B8BA68ej0,B8BA7234k,B8BB114bb,B8BB2359h,B8BB6D3xh,B8BBAFba7,B8BC1B5gu,B8BC5Bba7,B8BD79dfj,B8BEBF2s3,B8BEF4ey3,B8BF836gz,B8C007f7u,B8C051e2h,B8C065do6,B8C11114o,B8C1A23pw,B8C2279ln,B8C2536tm,B8C3855gu,B8C3BF5o2,B8C46F9k6,B8C68Eba7,B8C6AA41o,B8C7164lk,B8C74A4zc,B8C75D14o,B8C855bjp,B8C8EB687,B8C9242s3,B8C9B54zc,B8CA045ro,B8CA3A3ix,B8CB293ix,B8CB935xl,B8CC38c06,B8CC5Fc0q,B8CD58bxm,B8CD939qr,B8CDA781v,B8CEED20l,B8CEF6848,B8D06F4zm,B8D08Fa6l,B8D0F04fb,B8D309319,B8D3EFdk6,B8D43Ef8g,B8D49D7mj,B8D4BCf94,B8D4C35gu,B8D4E75on,B8D4F78vr,B8D50Bch4,B8D526evs,B8D56B89q,B8D5AD8zj,B8D61A4ba,B8D6F65gu,B8D7AF8dt,B8D8125zq,B8D82Da4x,B8D94Db9l,B8D9CEba7,B8DA5Ed7u,B8DAE85ty,B8DAF1cfi,B8DAF7sp,B8DB1C6gq,B8DB3856h,B8DC284e3,B8DC7De2h,B8DC875x3,B8DD71f94,B8DDE8c2w,B8DE5E7bb,B8DF6Bcdb,B8DFD44lk,B8E28C7vs,B8E3B15gu,B8E3EEdo6,B8E44Aeik,B8E5899qd,B8E60C14o,B8E625r,B8E7792p,B8E85614o,B8E924848,B8E937caz,B8EA98ejs,B8EAAA5xz,B8ECA3evs,B8EE0Eb9l,B8EE657ik,B8EE79emx,B8EF8Bau7,B8F0094ba,B8F0156tm,B8F080b3u,B8F0B9f94,B8F12A14o,B8F255do6,B8F317f2h,B8F44Ff81,B8F4A456h,B8F4D05oj,B8F5E7e81,B8F653btm,B8F6B114o,B8F73217m,B8F74Aa92,B8F7744lk,B8F7756gz,B8F8282n6,B8F85315q,B8F8624ba,B8F883cvj,B8F8BE1ix,B8F934cb5,B8FBAFejg,B8FBB3cvk,B8FC28du9,B8FC9A7e2,B8FD32etg,B8FE902s3,B8FE9610n,B8FF6114o,B8FF6Fblq,B8FFB38a3,B8FFFEd7u,BC00044lk,BC00235sy,BC0200cew,BC024A5f4,BC026Ec4v,BC03586gz,BC03A77rb,BC04354u3,BC0543md,BC062De6j,BC071Dcvk,BC08668sm,BC091B6gz,BC095C4l8,BC096314o,BC09B95ub,BC09EBcpb,BC0DA5d7u,BC0EABba7,BC0F2B4ht,BC0F646gz,BC0F9A351,BC0FA79do,BC0FB7f7i,BC0FF35gc,BC0FFE6tm,BC102Fazd,BC107Bba7,BC121F5i,BC125E1s4,BC13A8bzz,BC14015qz,BC14699td,BC1485ba7,BC14EF68l,BC15418zj,BC15A6czb,BC15ACe1d,BC16652s3,BC1695f94,BC16F52s3,BC17B86gz,BC18965gu,BC1A67elu,BC1AE45ty,BC1C81c2z,BC1D898cw,BC1E855gu,BC1FE117v,BC20A4ba7,BC20BA6g4,BC2106rx,BC2228351,BC22478vr,BC22FBaa5,BC23921lo,BC2411a1u,BC24928vr,BC25E05gu,BC25F01a,BC261D5fo,BC264345x,BC26A14eo,BC26C72s3,BC277Aba7,BC282Ceyl,BC28468x1,BC28D6alq,BC29789yk,BC2A33a6l,BC2B0227h,BC2B1E320,BC2B6B1ph,BC2BD7aj1,BC2C551nn,BC2CE62s3,BC2D98d9c,BC2DEFagu,BC2E482vw,BC2EC3by7,BC2EF65ty,BC2F3Df8g,BC305B3ix,BC307De5t,BC307Ee5t,BC30D915q,BC31985zq,BC31E28vr,BC325Fet2,BC32B2ba7,BC3329cb9,BC33402s1,BC33ACc4v,BC33DBb9l,BC34005zq,BC34CA635,BC34D64e3,BC351Edhv,BC35E55vo,BC37D314o,BC38656po,BC38986gz,BC38D29od,BC39A62g8,BC39D9eov,BC3AEA4zc,BC3BAF14o,BC3D855gu,BC3E075qz,BC3E0B9nw,BC3E13op,BC3ECBf8g,BC3F4E57e,BC3F8F5gu,BC41002ab,BC4101bxt,BC41A0f94,BC428Cca,BC43775jg,BC4434bxt,BC4486ba7,BC44B0445,BC4529f94,BC452E73d,BC45481sp,BC455Bba7,BC458Cbyb,BC46324lk,BC4699cvj,BC4760ba7,BC49B2atx,BC4A562s3,BC4B79bgk,BC4C785gu,BC4CA05gu,BC4CC414o,BC4DFB5qz,BC4E3C2e0,BC4E5Deu4,BC4F2D14o,BC515F8zr,BC516Cdaa,BC51FEciy,BC5274ba7,BC52B48zj,BC52B714o,BC542F6gz,BC543614o,BC5451ba7,BC54F93qh,BC54FCavh,BC5729btw,BC5A348vr,BC5A562s3,BC5BD52vw,BC5C17a4x,BC5C4C3v7,BC5DA3c2w,BC5E335k5,BC5E915sy,BC5EA1a1z,BC5FF4iz,BC5FF67qi,BC6010a4t,BC606Bbj3,BC60A7cb9,BC6193ejs,BC620E5gu,BC629Cf94,BC629Fd47,BC62CE8u4,BC62D252m,BC644B2vw,BC64D94zc,BC66415zq,BC66DEbif,BC671C2s3,BC677814o,BC678449o,BC68C35gu,BC69CB9o2,BC6A16f7p,BC6A29d7u,BC6A2F5o8,BC6A442vp,BC6AD1ejs,BC6B4D8zj,BC6BFF5aj,BC6C2114o,BC6C96atu,BC6D053r2,BC6E64cb5,BC6E6D3wg,BC6E7657h,BC6EE26gz,BC71C1ei4,BC72B1ba7,BC73A4eb,BC744B8yt,BC74D75jk,BC74EA14o,BC7536ca,BC75745gu,BC75961ok,BC764Eadm,BC765Eba7,BC76705gu,BC76C55gu,BC76F9dlt,BC77376gz,BC779Fapr,BC79ADba7,BC7ABFba7,BC7B725ty,BC7DD1ae4,BC7E8Bba7,BC7EC3evs,BC7F7B5ty,BC7FA4ejs,BC804E14o,BC811F6du,BC81991fq,BC825D7ub,BC838587m,BC83A7au8,BC851Fba7,BC85296sc,BC85565rz,BC85D0azx,BC86A52in,BC8753bhk,BC87FA1yh,BC8893drf,BC88C38yj,BC89A68yt,BC89A714o,BC89C114o,BC89F84u3,BC8AA38k6,BC8AE8a2z,BC8B558mt,BC8CCDaom,BC8D0E8zj,BC8D1F2s3,BC8D2D4lk,BC8D7Ec4v,BC903Aake,BC91B56d5,BC926B14o,BC9307ba7,BC93258yo,BC932Ac4v,BC9424co5,BC9680auq,BC96E5asg,BC97405zq,BC97895ty,BC97E120l,BC9829f8g,BC98894lk,BC98DF8cw,BC9911evs,BC99305gu,BC99BC4o6,BC9A535ty,BC9A8E5h9,BC9B5E5k5,BC9B68dv4,BC9C315gu,BC9C8Dalx,BC9CC51pp,BC9D37d4x,BC9D42avt,BC9D4Ebx6,BC9DA536l,BC9E2C2pi,BC9EBB8yt,BC9F5814o,BC9FE45on,BC9FEF14o,BCA042at8,BCA080ba7,BCA0B95gu,BCA13Ae2h,BCA2315gu,BCA37Faes,BCA4E18oh,BCA5118hv,BCA58Bba7,BCA5A914o,BCA68D2yh,BCA6E7c2v,BCA8A66gz,BCA92014o,BCA9932ig,BCA9D633u,BCAA824lk,BCAB7Ccx5,BCABF52s3,BCAD285k5,BCAD9075x,BCADAB1cm,BCADAE10d,BCAEC5jj,BCAF6E15q,BCAF87f76,BCAF91cog,BCB0E75gu,BCB181atl,BCB1D32s1,BCB1F3ba7,BCB22B3wi,BCB2CCba7,BCB3085ft,BCB30E2s3,BCB4FD8o9,BCB6FB9ej,BCB85233z,BCB86314o,BCB923100,BCBAC25k5,BCBAE1h1,BCBB5814o,BCBBC970u,BCBC46azv,BCBCCA5ty,BCBD84f94,BCBD9E687,BCBEFBiq,BCBF2Ejj,BCC00F4lk,BCC1683n6,BCC23Ad9v,BCC2D99zs,BCC31B75v,BCC3429nv,BCC4275gu,BCC4368zj,BCC4932s3,BCC61Ab3a,BCC6DB8zj,BCC7465ry,BCC7DA41o,BCC8102s2,BCC8CCbf2,BCCAB52vw,BCCD45dsl,BCCD7F5ty,BCCD996gz,BCCE258yt,BCCF4Fevs,BCCFCC5gr,BCD07414o,BCD0EB8vr,BCD11Fba7,BCD1652s2,BCD177cvj,BCD1D3bxt,BCD2065gu,BCD22C6gz,BCD2952s3,BCD5B6exr,BCD5EDb9l,BCD7139e1,BCD7671fe,BCD7A55on,BCD7CE2pg,BCD7D4al4,BCD940ix,BCD9FB2pi,BCDB092s1,BCDDC24ba,BCDF5856h,BCDFE15zq,BCE0018u4,BCE09D4a1,BCE14314o,BCE2655gu,BCE59Fe3b,BCE63Fba7,BCE67C2ig,BCE7122s3,BCE767a6b,BCE796ecr,BCE8FA4zc,BCE92F5gc,BCE9E220r,BCEA2B2se,BCEA9C687,BCEAFA5om,BCEB5F4qu,BCEC23au8,BCEC5D14o,BCECA02bf,BCEE7Bjj,BCF1056gz,BCF1716gz,BCF1F22s3,BCF212d4x,BCF2929ig,BCF2AFey3,BCF2E59y8,BCF3104e3,BCF45Ff94,BCF499al1,BCF4D4296,BCF5AC798,BCF61C535,BCF685351,BCF730ba7,BCF811ejd,BCF87E15q,BCF88Bf94,BCF9F2cpr,BCFAB85aj,BCFABA848,BCFAEB2s3,BCFCE7jj,BCFD0Cbvo,BCFE8C10f,BCFED914o,BCFF21c7o,BCFF4D4ba,BCFF54f94,BCFFACcuq,BCFFEB8cw,C0019510n,C0028De4z,C003806tm,C005C22vw,C0060C5gu,C006C3cvk,C0074A201,C009254h8,C00ACAb96,C00D7Erf,C010B15f4,C01173ba7,C011A64op,C01242ze,C0132Bc2r,C0143D5rz,C014B88zj,C014FE2s3,C0151Bcb9,C016922pi,C01693ejs,C0174Dba7,C0175414o,C018035gc,C01850a5w,C018855rz,C0188C10g,C019446tm,C01ADA14o,C01B23c2w,C01C30bz1,C01C6A56h,C01E9B9uy,C0210Davt,C022422nk,C0225074v,C022F15zq,C0238Dba7,C02506md,C0252Favh,C0255C2s3,C025678xl,C025A28gl,C025A53ix,C025E9cvj,C027B91qm,C0280B5sy,C0288D7jt,C029731b3,C029F3ekx,C02B319ti,C02B5623k,C02BFCf1u,C02C172s3,C02C5C14o,C02C7Absw,C02CEDc4v,C02D107v9,C02D2E2pi,C02DEE330,C02E1D8zq,C02E254zc,C02E26f29,C02E5Fevs,C02EDF10d,C02FCD4zc,C02FF1e1u,C0335E87m,C033795gu,C033DAbtc,C034B454a,C035327ik,C035802y,C035BDdvt,C035C5a11,C03653ezk,C036564lk,C038965rz,C038F98zl,C039374ye,C0395Aet2,C03A55cvk,C03B8F898,C03C04b9l,C03C596gz,C03D03ba7,C03D46blf,C03DD98a3,C03E0Fazx,C03E505gu,C03E755gu,C03EBA3ix,C03F0E8hv,C03F2A1ve,C03FBBeuc,C03FD545j,C03FDD5gu,C0400483a,C0408Dca,C041218zq,C041F6795,C042D06tm,C043014a3,C04327agu,C0444214o,C044E3bx3,C0470E3ix,C04754f8g,C0482F5zq,C04884c44,C048E6ba7,C048FBbtl,C0493D7ne,C04943f94,C049BD3wg,C049EF4ba,C04A00cvj,C04A09et3,C04A0Ed7u,C04B13ee1,C04DF7ash,C04E304ba,C04E8A5gu,C05064atv,C050973uf,C0515Cf94,C0517E5k5,C051F3287,C052345gu,C053361qn,C0544D8zn,C0555C6ay,C056271t5,C056E35k5,C057245sy,C057BC1cm,C0582E2s3,C058A79tr,C05B441sa,C05BBD5gu,C05D396rv,C05D894ba,C05E6Fdpf,C05E79aux,C05F877eo,C06118cvj,C0613D1uy,C061945ty,C0619A5zq,C0626B2s3,C062F21oq,C063691i1,C06380d7u,C0639414o,C064C68zj,C064E42s3,C06599ba7,C067AF2s3,C068CCbx6,C0691116e,C06B558cw,C06BC750b,C06C0C14o,C06C0F3o8,C06C6D7yk,C06D1Adah,C06DED5k5,C06E3Daw4,C06F98ezk,C070095gu,C071AAbnm,C074156h2,C0742Bawm,C074AD576,C078315ty,C078784gq,C07982cny,C07AD6ba7,C07BBC2s3,C07C90bzz,C07CD19gg,C07E40awj,C081358yk,C0817043j,C0830Ar,C083595zq,C083C95ty,C0847A14o,C0847Ddt,C084884mb,C084E05gu,C084FF4u3,C0854Caep,C086B3byx,C08706bvw,C087EBba7,C088404u3,C0885Bc8o,C0886Dbem,C08997ba7,C089AB2vw,C08A6010d,C08ACD5aj,C08ADEalx,C08B055gu,C08B274h8,C08B2A2s3,C08B6Fami,C08C602s3,C08C718cw,C08D5110n,C08F20bx6,C09120c2w,C091329q2,C091349zu,C091B910n,C09296f94,C094352vw,C094ADf94,C0956D14o,C09573ao,C095CF10n,C095DA8o8,C096A44lk,C09727aom,C09879p9,C098DA2pj,C098E5doj,C09A71eh4,C09AD014o,C09B635gu,C09B9Ec4v,C09BF45zq,C09C04bib,C09C922a9,C09D26dcw,C09F054zc,C09F4214o,C09F51asj,C09FE1f94,C0A00D2vw,C0A0BB351,C0A0C74et,C0A0DE8dh,C0A0E2432,C0A1A280i,C0A26Dnl,C0A3641c,C0A36D5gu,C0A36Eazx,C0A39E41q,C0A3C7d4x,C0A476am3,C0A4B9c2p,C0A4CF8yt,C0A53E14o,C0A5DDavh,C0A5E86gz,C0A60014o,C0A66D6g7,C0A8106gz,C0A8F0qr,C0A9385gu,C0AA6896l,C0AB2B5ty,C0AC54b9l,C0AD97cpb,C0AEFDbsc,C0AFF23rl,C0B101f94,C0B22F14o,C0B3392vg,C0B357eo0,C0B3C87al,C0B47D5ty,C0B55020l,C0B5CD5ty,C0B5D727q,C0B65814o,C0B6F96gz,C0B7131sc,C0B8836gz,C0B8B11vi,C0B8E6am3,C0BA1Fejj,C0BAE6es0,C0BC9A5gu,C0BD42eqp,C0BDC8ba7,C0BDD1aom,C0BFA76tm,C0BFAC5ty,C0BFBE1er,C0BFC05gu,C0C170bxm,C0C1C02s4,C0C3B61bv,C0C4F9a53,C0C520alx,C0C5222vw,C0C569atb,C0C6872s2,C0C70Aalx,C0C7B56d5,C0C7DB14o,C0C9467uc,C0C976bxt,C0C98943a,C0C9E3cvj,C0CAA23ze,C0CB385rz,C0CBF18b5,C0CC42c2w,C0CCF814o,C0CDD64ba,C0CECD14o,C0CF645l5,C0CFA331l,C0D01214o,C0D0265ty,C0D044b9l,C0D0633wg,C0D0FF2pj,C0D1935ty,C0D2DDba7,C0D2F35ub,C0D3915zq,C0D3C0ba7,C0D46B5ty,C0D5E2ba7,C0D60Ad7u,C0D68216e,C0D6D587m,C0D7AA15q,C0D834f90,C0D941byq,C0D962ip,C0D9F7big,C0DA5E5ty,C0DA745kv,C0DC6Aa4l,C0DCAB79b,C0DCD75ty,C0DCDAba7,C0DD8A856,C0DF772y1,C0DFED6tm,C0E0185gu,C0E01C6kj,C0E1BE5gu,C0E35027h,C0E3A0aie,C0E3FB5gu,C0E422d7u,C0E42Dcvj,C0E4341er,C0E54Eh8,C0E5795ty,C0E5DAa4x,C0E7BFc2p,C0E86214o,C0E911agn,C0EAC35zq,C0EAE4car,C0EDE54zc,C0EE404ed,C0EEB548r,C0EEFB99t,C0F1C49mi,C0F2FB14o,C0F4E65gu,C0F535dt,C0F6365kc,C0F6C25gu,C0F6EC5gu,C0F79D9y5,C0F827afg,C0F853dhv,C0F87F2s3,C0F8DA5rz,C0F945ddb,C0F9914x6,C0F9B05gu,C0F9D2ewa,C0FBC1687,C0FBF95zq,C0FD6Fb9l,C0FD84f94,C0FFA85gu,C0FFD48hv,C400067i4,C400496zv,C400ADtb,C400B55st,C4014281o,C4017Calx,C401B1ber,C401CE9ju,C402E171r,C403A86gz,C404158hv,C4047Bbzz,C404D81d5,C405285gu,C406835gu,C4072F5gu,C407788vr,C408265eo,C4084A8zj,C40880byh,C408983qi,C409384it,C409B76tm,C40ACB2s3,C40B3114o,C40BCBejs,C40D965gu,C40E455t,C40F086gz,C40F095og,C40FA6asj,C4106230b,C4108Aalx,C411E021f,C4123414o,C412EC5gu,C412F5351,C41375296,C413E24e3,C4141114o,C4143C2s3,C414A22s1,C416885ty,C4168F14o,C416C85gu,C416FAa1x,C4170E5ty,C417FE5rz,C418E9ba7,C418FC2s3,C4198B3og,C419D1d4y,C419ECa5q,C41C07ba7,C41C9C6rc,C41CFFe17,C41ECE5f7,C421B9f94,C421C86z7,C4224Ed4x,C423606gz,C4237Aeaf,C423A29lv,C4242E50i,C424569nf,C42628vv,C42728f94,C4278C5ty,C42795dv4,C4282D46g,C4291D6wq,C42996c4i,C42AD014o,C42B445ty,C42C0314o,C42C4Fa4v,C42C7Bdr8,C42F905k5,C430187pg,C430CAaqr,C432D14kf,C433062pi,C433963ow,C4345B5gu,C4346B5om,C435D914o,C43655bre,C4366C79b,C436C01l4,C436DAamc,C43772dzh,C43875caz,C438D3cmk,C4393Ab0m,C439604u3,C43A354h8,C43A9Fc32,C43AA51er,C43ABEcb5,C43C3C2gw,C43CB0au3,C43CEA1l4,C43D1A6gz,C43DC78hv,C43EAB5ty,C44044adj,C440F64zc,C4411E1t5,C44137a6l,C44202ba7,C442682f7,C4438F798,C4447D5gu,C444A02s3,C44567aoe,C445ECbmc,C446062s3,C446195rz,C4473F5gu,C4474E6gz,C44838bbp,C448FAcz2,C4491B14o,C4493E8cw,C449BB7ub,C44AD04g6,C44B312s3,C44B4499a,C44BD1e6p,C44D842s3,C44E1F1x1,C44EACbwu,C44F334ba,C44F5F5ty,C44F96zs,C44FD5duy,C45006ba7,C4509Cduy,C4518Dbzz,C4524F14o,C4537987h,C45444a5w,C455A62hq,C455C21lu,C4560050c,C456FE7du,C4571F6tg,C45746d7u,C4576Eba7,C45781ec6,C457CD5gu,C4587810d,C458C2bxq,C459764qr,C45A865ty,C45AB13ix,C45BAC14o,C45BBE4ba,C45BF7ew8,C45D83ba7,C45DD85da,C45E5C5gu,C4600A5tw,C46026azx,C460444cv,C4618B14o,C461C787m,C46237f7e,C4626Bequ,C462EAba7,C46354dib,C463C45gu,C463FB8re,C464132s3,C464B74lk,C464E3d7u,C464F26d5,C465165om,C46699f8g,C4678Bzl,C467A1og,C467B57g8,C467D15gu,C468D0dtk,C4693Edhp,C46940ejs,C469F05gu,C46AB7ejs,C46BB4f53,C46DD15gu,C46DF13h4,C46E1Fcvj,C46E33eu1,C46E7Bavt,C4700B4zj,C470ABam3,C470BD848,C4710Fejs,C471304o5,C47154cvj,C471FE2s3,C472952s3,C4731Eba7,C4741Ef94,C474691kx,C474F85t9,C475AB6gz,C475EA5gu,C47764ba7,C477AB1oa,C477AFsd,C478A25ty,C47905etk,C4798143q,C4799F5ih,C47A5D9oi,C47B2F1q3,C47B80a1a,C47BA38fn,C47BE35gu,C47C8D5zq,C47D464j0,C47D4F2s3,C47D9Fba7,C47DA88o9,C47DCCeri,C47DFE3h,C47EE02s3,C47F516k6,C480255ty,C4808A2t3,C4823F4qz,C4824E2nc,C482E1dhv,C4836F2ri,C483725zq,C4846614o,C484C08cw,C484FC14o,C485086gz,C4864F1og,C486E95gu,C488E5ba7,C489EDc9x,C48A5A6nn,C48ACE5eo,C48B665ub,C48BA32s1,C48E8F5rz,C48F07c03,C48FC138k,C4910C14o,C4913Abwp,C491CF7m1,C4924C6vp,C492D9f94,C493002k,C493132,C49380cd2,C493BB1sa,C493D9ba7,C4950010n,C4954D5zq,C4955F130,C495A2awg,C4969F10n,C49805899,C4985C5ub,C49878atc,C4988014o,C49886a5a,C498945zq,C49A02798,C49A31evs,C49A89cij,C49D085ty,C49DED87m,C49E414t3,C49E7E4ba,C49F4C5gu,C49FF382h,C4A0528cw,C4A10E5zq,C4A151c2w,C4A1AE5ty,C4A366f94,C4A4025gu,C4A451cpb,C4A5595zq,C4A64Ea6l,C4A72Bau8,C4A816ezk,C4A81D351,C4A9B8eh8,C4AA432s3,C4AA995gu,C4AAA1b60,C4AAC4et2,C4AB4D2s3,C4ABB2f8g,C4AC598dt,C4ACAA14o,C4AD217pq,C4AD3488b,C4ADF14xz,C4AE12ba7,C4B16Bta,C4B1D95gu,C4B2392s3,C4B25Bam3,C4B30114o,C4B34914o,C4B36A2s3,C4B512521,C4B69112r,C4B757ca,C4B8B45gu,C4B9CD2s3,C4BA995wf,C4BAA31s2,C4BB035gu,C4BB4Cerh,C4BB89bjv,C4BBEA9n7,C4BCD78vu,C4BD6Aazn,C4BD8Dau8,C4BDE56gz,C4BE84d7u,C4BED41cm,C4BF60cpb,C4C00A87m,C4C0638vr,C4C0AE7t2,C4C13897b,C4C17D14o,C4C19F8qm,C4C36B14o,C4C563cpb,C4C6032s3,C4C6E677z,C4C7551pr,C4C91948d,C4C9EC5b2,C4CA2B16e,C4CA672qq,C4CAD95k3,C4CB3350u,C4CB544lm,C4CB6Bvu,C4CB7687m,C4CBBE57e,C4CBE13ix,C4CC375zq,C4CCF9f94,C4CD451oi,C4CD50bpj,C4CD825kh,C4D0E36gz,C4D197dw2,C4D36Ad7u,C4D4385gu,C4D4896rg,C4D496br3,C4D4D0aw4,C4D655d74,C4D6662s1,C4D6D33ix,C4D7385ty,C4D7DCetl,C4D7FD1yo,C4D8C8c4v,C4D8D45gu,C4D8D54ba,C4D8F3f2p,C4D9876gz,C4DA268ls,C4DA7D6ll,C4DB045gu,C4DBADajt,C4DD574ba,C4DE7B5ty,C4DEE24ba,C4DF39agu,C4E0325zi,C4E0DEetv,C4E17Cdih,C4E1A14zc,C4E2875gu,C4E39F4zc,C4E3CE47o,C4E5069uk,C4E51082n,C4E53215q,C4E5B1ciq,C4E7332sn,C4E7AE2oi,C4E7BEaqq,C4E90A351,C4E92F42,C4E984cvj,C4EA1Ddv3,C4EB39b9l,C4EB41b9l,C4EB42b9l,C4EB43b9l,C4EB68e2h,C4EBE3acu,C4EBFFf94,C4EDBAd7u,C4EEAEdt4,C4EEF560a,C4EF3Dba7,C4EF705ru,C4EFBB77z,C4EFDA5s6,C4F0355u9,C4F0815gu,C4F0EC4lk,C4F1228wr,C4F174ezk,C4F1D11gy,C4F312d7u,C4F44514o,C4F464cd5,C4F57C20r,C4F5A575g,C4F7C114o,C4F7D52s3,C4F839pv,C4FBAA5gu,C4FBC8bpo,C4FC22elp,C4FCE43nm,C4FCEFba0,C4FDE63do,C4FE5B4zc,C4FEE2dl,C4FF1F5gu,C4FF225ty,C4FF845zq,C4FF996gz,C4FFBC5zq,C800842s3,C8021079b,C8025868w,C8028F90s,C802A61qs,C803F5alx,C8059E5n4,C805A48cy,C80718cod,C807398ew,C80873alx,C8088B16e,C808E9797,C809A86gz,C80A35a4w,C80AA9a5w,C80C532pi,C80CC85gu,C80D325rm,C80E14me,C80E777e2,C80E95993,C8102F8hv,C810721g6,C8107326a,C8120Bba7,C813376tm,C8138Bbx6,C814515gu,C81479ba7,C814B4c2w,C8154E6gz,C816A580w,C816BDa4t,C816DAagu,C81739687,C817F58pg,C819D81we,C819F7ba7,C81AFE3ch,C81B5C1gd,C81B6B6f4,C81CFEeri,C81E8E81,C81EC2687,C81EE714o,C81F663ix,C81FBE5gu,C81FE814o,C81FEA1cm,C8208Ecfc,C821586gz,C821DAbzz,C8247843e,C824966s4,C825E17f3,C8269116e,C826E227h,C828321s9,C828E52s3,C8292A1mv,C829C89nf,C82A1414o,C82ADD56h,C82AF1co5,C82B6Bf6w,C82B964ba,C82C2B5zq,C82E184ba,C82E47cis,C82E945ip,C830495ty,C83168eze,C832325vc,C8334B14o,C83374evs,C833E55gu,C8348E6gz,C834E52s3,C835B84ax,C836A34vd,C83870ba7,C839AC5ty,C83A1Bdd9,C83A35d5z,C83A6Bal4,C83B456op,C83C8514o,C83D978zj,C83DD433y,C83DDCejs,C83DFCzk,C83E99d7u,C83E9E5ty,C83EA76yo,C83F2687m,C83FB42vw,C840294lk,C840529fo,C8412Ect,C8418Aba7,C8452960y,C84544189,C8458Feg6,C847092s3,C84782164,C8478C1ss,C848058yt,C848F57pw,C84AA0cb9,C84BD63ix,C84C752s3,C84C78f94,C84D347a4,C84D44bth,C84F0E6gq,C84F86cbb,C850CE5gu,C850E9aez,C85142ba7,C851955gu,C851FB4e3,C852612vw,C8530977z,C853E13pm,C8544Bevs,C854A46d5,C856456il,C85663cgz,C8586A1s3,C858958cw,C858B36gz,C858C06gz,C85A9Ff94,C85ACF5gc,C85B7677z,C85BA0bvy,C85CCC1sa,C85CE25zq,C85D385h8,C85EA96gz,C86000jj,C8608F2s3,C861D0atr,C863145zq,C863402s1,C863F1cb9,C863FC2vw,C864C7f94,C8662C1pi,C8664B145,C8665D4e3,C8675E4e3,C868DE5ty,C869CD14o,C86BBC5zq,C86C1E3nr,C86C20c2w,C86C3D10n,C86C87evs,C86C9Ab15,C86CB69bc,C86E086gz,C86F1D14o,C8702310b,C870D45xd,C8711Fb6x,C871256sz,C8724814c,C8727E8zj,C87324cc3,C8741B4lk,C8755Ba64,C875DD797,C875F42pi,C87765dau,C8778B84j,C877F3e2h,C8786789v,C8787D34z,C878F72s3,C87B231yh,C87B5Bf94,C87CBCdud,C87CE26ds,C87D77bu5,C87E75ba7,C87EA1cnz,C87F2B62h,C87F54jj,C8806D14o,C882342s3,C88314d5v,C88439chg,C884471nq,C8844E4nj,C8848Calx,C884A12s3,C884CF5gu,C885414ba,C8855014o,C88629bqr,C887227l6,C8873B8sr,C889F314o,C88A7B4ba,C88A833ox,C88A9A6gz,C88AD827h,C88B478zu,C88BE880w,C88D835gu,C88DD480g,C88ED15zq,C88F26c7d,C8900921a,C8903E9n8,C8908Aba7,C890A81yo,C890F75gu,C891438yt,C891F9b9l,C893467xa,C8938346f,C8940227q,C894BB5gu,C894D26rn,C895CE6gz,C8965Aazx,C8966587m,C8979F8zj,C89828f94,C899B215q,C89BAD5sy,C89BD7agu,C89C136g3,C89C1D2s3,C89CBBcz2,C89CDC45j,C89D185ty,C89D6D687,C89E438hv,C89E617m7,C89F0C8cw,C89F1A5gu,C89F1Daua,C89F42dq2,C8A030d7u,C8A1B6buo,C8A1BA8va,C8A1DC8cw,C8A23Bbxi,C8A2CE97k,C8A362io,C8A3E8296,C8A40D2zc,C8A4CDagu,C8A608alx,C8A6208rg,C8A6EFba7,C8A7025k5,C8A70Adwo,C8A729b8o,C8A7765gu,C8A823ba7,C8A9137kc,C8A9FC56s,C8AA212vw,C8AA555uw,C8AAB2au8,C8AACC9zs,C8AC359tl,C8ADE7bwr,C8AE9Cblm,C8AF40f4m,C8AFE35n3,C8AFF0258,C8B0B2f94,C8B1CD14o,C8B1EEa59,C8B21E27m,C8B29B6gz,C8B3732s4,C8B422ip,C8B4AB6g6,C8B5AD5on,C8B5B714o,C8B6D35gu,C8B6FE4mu,C8B78A5gu,C8B82Fezk,C8BA94aom,C8BAE9a2w,C8BB815ty,C8BBB44yq,C8BBD346s,C8BC9C5ty,C8BCC814o,C8BCE5bge,C8BD4Dba7,C8BD69ba7,C8BE19351,C8BE354e3,C8BF4C1sa,C8BFFE5ty,C8C126eqr,C8C13Cam0,C8C2C6bix,C8C2F54gq,C8C2FA5gu,C8C432at0,C8C4655gu,C8C50Ebvu,C8C64A4nk,C8C6FEezk,C8C7508cw,C8C791esi,C8C83Fd7u,C8C87327n,C8C9921r2,C8C9A34ba,C8C9B210n,C8CA635ty,C8CA792ri,C8CB9E6gz,C8CBB85om,C8CC21ezk,C8CCB55v9,C8CD55am3,C8CD72b9l,C8D019bln,C8D08314o,C8D10B8zj,C8D12A2x8,C8D15E5gu,C8D1A95gu,C8D1D19o,C8D2C16r8,C8D3A3351,C8D3FF5om,C8D4298de,C8D5904gs,C8D5FEc0l,C8D69D15d,C8D6B7ca4,C8D7192s4,C8D7781kr,C8D779a2z,C8D7B0ba7,C8D884do6,C8D9598cw,C8D9956tm,C8D9D25om,C8DA294bb,C8DB267jt,C8DD6A936,C8DDC97fd,C8DE41azx,C8DE516gm,C8DEC9303,C8DF7C8zj,C8DF84d7u,C8E07A4lk,C8E0EB14o,C8E13088i,C8E193687,C8E1A7dx7,C8E2656gz,C8E306ezk,C8E31D5gu,C8E42Fd1d,C8E5E05gu,C8E6005gu,C8E7131yo,C8E7769m2,C8E7D87qi,C8E7F06tm,C8E8AFezk,C8EAF8f94,C8EBECbzz,C8EDFCbt8,C8EE08cnb,C8EE759un,C8EEA6bwj,C8EED77gz,C8EF2E1p7,C8EFBC6g5,C8F09E4ba,C8F2253wg,C8F2304zc,C8F2B45b4,C8F319798,C8F36Ben2,C8F386bzk,C8F4061cm,C8F5D65zq,C8F65014o,C8F68Dan5,C8F6C84lk,C8F70421e,C8F7336gz,C8F7425jj,C8F7503ix,C8F86Dxf,C8F9467av,C8F981bg0,C8F9C88w2,C8F9F92s3,C8FA84dgz,C8FAE1hn,C8FB262s2,C8FB54f1t,C8FD19d7u,C8FE0Fau3,C8FE301sr,C8FE6A6tm,C8FF287ik,C8FF773rl,C8FFBF5zq,CC00801hp,CC00F1b9l,CC033D1sa,CC037Bd7u,CC03887zf,CC03D92s1,CC03FAdv4,CC047C4sw,CC04B4bfa,CC051Bba7,CC05775gu,CC06774lk,CC07ABba7,CC07E47fd,CC087B5gu,CC088D14o,CC08E014o,CC08FA14o,CC08FBcvj,CC09C860l,CC0C9C287,CC0CDA88h,CC0DCB87m,CC0DE71eu,CC0DEC2s2,CC0DF28cw,CC10A31qk,CC115A14o,CC12285eo,CC13F35k5,CC14A6enn,CC14BC43e,CC15316gz,CC167E2s3,CC187B7zq,CC19663wg,CC19A89lr,CC1AA316e,CC1AFAf94,CC1B5Aalx,CC1BE05zq,CC1E565gu,CC1E975gu,CC1EAB78d,CC1EFF85v,CC1FC46bf,CC208C5gu,CC20ACba7,CC20E814o,CC2119ba7,CC219Dbz3,CC22186eg,CC22375zq,CC229310n,CC22DF3wg,CC22FE14o,CC242Ebxm,CC25EF14o,CC2614c2w,CC262Ddwe,CC274614o,CC28AAjj,CC29BDf94,CC29F514o,CC2A8086l,CC2AACeol,CC2C833gg,CC2D1Basz,CC2D21d60,CC2D834zc,CC2D8C795,CC2DB714o,CC2DD2alx,CC2DE088b,CC2F716gz,CC3080dpp,CC3089848,CC312A5h6,CC32965ty,CC32E5cvj,CC3331d7u,CC33BBb9l,CC3429cvj,CC34D74vm,CC3540dv4,CC355Abe6,CC35D9dlp,CC36BBc4v,CC36CF2s3,CC37AB43b,CC38D09nf,CC38E15gu,CC39535zq,CC398Cc1p,CC3A61aol,CC3ADF8se,CC3B27cpb,CC3B3E7fo,CC3B58334,CC3BFBajt,CC3C3Fani,CC3D826gz,CC3DD15gu,CC3E5F5om,CC3E792vw,CC3F1D5f9,CC3F3614o,CC3F8A6xk,CC3FEA1fe,CC4085eb0,CC40B23t6,CC40D08hv,CC40F3848,CC418E7wf,CC4210ejs,CC43E3dgw,CC44605ty,CC446314o,CC45A5d7u,CC4639e2v,CC464Eba7,CC46D62s3,CC47036if,CC47401er,CC4792io,CC47BDaj9,CC483A3ix,CC4AE1f0e,CC4B0414o,CC4B73dt,CC4BFB5ns,CC4D382k7,CC4D744r3,CC4D751sa,CC4E2420r,CC4EEC5h8,CC4F5C5zq,CC500A4lk,CC501C6yv,CC5076983,CC50E34ba,CC51B46gq,CC5289avm,CC52AFdo8,CC53B55gu,CC545999k,CC54FE88t,CC55ADaay,CC57639ns,CC5830b9l,CC58C78zj,CC593Ebgl,CC5A532s3,CC5B318yt,CC5C615ty,CC5C75e8u,CC5CDE2pi,CC5D4Eevs,CC5D576dj,CC5D786p4,CC5EA59nf,CC5EF8296,CC5FBFdd1,CC602314o,CC60BB47h,CC60C887m,CC61464yq,CC61E58cw,CC62005sy,CC62FEdjz,CC641Aau3,CC64A65gu,CC65AD2vw,CC660A14o,CC6618rx,CC66B28zj,CC67D8d4w,CC68B6cvk,CC68C74ba,CC68E014o,CC69B0555,CC69FA14o,CC6A10d8b,CC6A332s3,CC6B1E296,CC6B98894,CC6BF1cbl,CC6C52eu0,CC6D55c2w,CC6DA0al4,CC6DEFctj,CC6E2A2s1,CC6EA4ba7,CC70ED2s3,CC7190dr9,CC720Fdzj,CC722A14o,CC7286eiy,CC73145fq,CC74984m3,CC75E22vw,CC763Af94,CC764587m,CC7669arm,CC77C94lk,CC785F14o,CC78ABd7u,CC794A1iv,CC79B87lm,CC79CFavt,CC79D72s3,CC7A3029h,CC7A8Baw4,CC7B35f94,CC7B5C4ba,CC7B618ko,CC7D372vw,CC7D5Bd4y,CC7E0Fd91,CC7E1F4ba,CC7EE79nx,CC7F752s3,CC7F762s3,CC808F14o,CC812Af8g,CC81306h3,CC817D14o,CC81DA9s6,CC827Ftb,CC82EB6z7,CC856Cavf,CC86ECc4v,CC874A8zj,CC882679b,CC88C75on,CC895E5gu,CC896C4xc,CC89FD8zj,CC8A845ty,CC8C17687,CC8CBFdhv,CC8CDAbz9,CC8CE3d7u,CC8DA24ba,CC8DB5bxm,CC8E712s3,CC90702s3,CC90935lk,CC90965ty,CC90E8bzz,CC912Bcoh,CC915B5ty,CC934Ac3z,CC944A9ru,CC9470721,CC95D7e17,CC96357c7,CC96A05gu,CC96A22pi,CC96E53ix,CC988Bb2f,CC98912s3,CC98EF4zc,CC99166gq,CC9C3E2s1,CC9DA2464,CC9E008yt,CC9EA210n,CC9ECA5f4,CC9F35dep,CC9F7A2q7,CCA08Ff94,CCA0E53f4,CCA12Bcnx,CCA150cld,CCA174856,CCA219aty,CCA2235gu,CCA260c2w,CCA30Cc4v,CCA374599,CCA3BD687,CCA4622vw,CCA4AFbxc,CCA614a4,CCA7C156h,CCA823c4v,CCAA0087m,CCAB2C5h8,CCACFEd4y,CCAF785rz,CCAFE310n,CCB0714lk,CCB0A85ty,CCB0B387m,CCB0DA7ik,CCB11Aba7,CCB14815q,CCB1825gu,CCB255351,CCB3ABf6g,CCB3F84j2,CCB54Cd7u,CCB55A4pt,CCB5D11sa,CCB6918go,CCB6C82s3,CCB7755ty,CCB777f94,CCB7C45gu,CCB85Ebvo,CCB888122,CCB8A8dt,CCB8F13sn,CCBA6F5gu,CCBA974ba,CCBABDcvk,CCBBFE5gu,CCBC2B5ty,CCBCE35gu,CCBD35cem,CCBDD3dm7,CCBE592i5,CCBE6114o,CCBE719bj,CCBF0Cauj,CCC0798dt,CCC10414y,CCC253f94,CCC2615zq,CCC2E0aez,CCC3EA8cw,CCC4B2bye,CCC50Aaud,CCC5301er,CCC5E53ix,CCC5EF2tp,CCC62Bdft,CCC76014o,CCC837a6l,CCC8D7284,CCC92Cbcg,CCC95D14o,CCCC4Ecgq,CCCC77erd,CCCC815gu,CCCCCCc4v,CCCCEA9sr,CCCD64b05,CCCE1Eme,CCCE406qc,CCCF83287,CCCFFE5o5,CCD0835on,CCD28114o,CCD29Bbpg,CCD31E5zq,CCD3422s3,CCD39D5zq,CCD3C1dx9,CCD3E26s4,CCD42E15q,CCD4A18a3,CCD5392s3,CCD73C5gu,CCD811up,CCD81F7z0,CCD8431sa,CCD8C12s3,CCD9205uj,CCD9AC6gz,CCD9E9aqn,CCDA201sa,CCDAB5d7u,CCDB043h7,CCDB932s3,CCDBA74ba,CCDC553pz,CCDD285i,CCDD58ake,CCDEDE8zj,CCE0C3419,CCE0DA1lx,CCE17F6tm,CCE1946tm,CCE1D51l4,CCE2365l4,CCE4D116e,CCE536f3u,CCE686ba7,CCE7988e6,CCE7DE5zq,CCE7DF112,CCE8ACb2s,CCE9FAba7,CCEA1C388,CCEA274ua,CCEB1894l,CCEB5Eejs,CCECB7bni,CCED218zn,CCED4D2s3,CCEDDC8a3,CCEED9dpo,CCEF035v2,CCEF482s3,CCF0FD2pg,CCF305aw5,CCF3A52oz,CCF3C8dv4,CCF407401,CCF41156h,CCF5381s,CCF55F3rm,CCF67A1ed,CCF73510n,CCF826ba7,CCF8417l9,CCF8F0eiz,CCF9541cm,CCF957f81,CCF9E46gz,CCF9E8ba7,CCF9F0ba7,CCFA00798,CCFA665ty,CCFA955sy,CCFAF1b9l,CCFB658yt,CCFC6Dabe,CCFCB1ed0,CCFD17co5,CCFE3Cba7,CCFF905ty,D0034B14o,D003DFba7,D003EBd7u,D004018cw,D004775gu,D004924lk,D004B0ba7,D0052A15q,D005E45ty,D0066A308,D00674c3n,D00790d7u,D007CA6tm,D009C82s3,D009F55t6,D00AABenw,D00B278dt,D00C5E8pg,D00DF75ty,D00EA49x0,D00ED9cz2,D00F6Dclu,D011E514o,D012421i7,D012555ub,D012CBme,D0131Eche,D013C1bx6,D013FD798,D014115zq,D0154Af94,D015A65on,D015BB5zq,D0167Cezk,D016B45gu,D016F05zq,D017698dt,D0176Aba7,D017B719v,D017C2jj,D0196A2ri,D019D3687,D01AA7dms,D01B1F936,D01B49ba7,D01BBE9a8,D01BF4b9l,D01C3Ccpb,D01CBB1or,D01E1Db9n,D020DD4zc,D021ACenv,D021F9dlp,D022125zq,D022BEaom,D023DB14o,D025167qi,D02544aom,D0259814o,D027885rz,D028BAagv,D02AAA6d5,D02B2014o,D02C392s3,D02C45f4c,D02DB35gu,D02EABd7u,D031106dv,D03169ba7,D032C334z,D032E7dhv,D0331114o,D035E53wg,D03742eoj,D03745cvj,D03761d7u,D039577ik,D03972d7u,D039B32vw,D039EA8su,D039FAba7,D03BF4bu1,D03C1F6gz,D03D521c8,D03DC3gk,D03E0714o,D03E5C5gu,D03E7D27m,D03F27ega,D03FAA14o,D040BE8mr,D040EF8dt,D041C94lk,D0431E3ix,D044332tk,D0458Dbx6,D0460C3ix,D046DCcc2,D047C145q,D0484F8zq,D048A16tm,D048F337o,D0497C99u,D0498Beqk,D04CC1az1,D04D2Cal4,D04D8614o,D04DC65on,D04E508b5,D04E995gu,D04F58alx,D04F7E14o,D04FABenx,D05099iz,D0515778a,D05162cb5,D052A89te,D053497ik,D0542D2il,D05475apj,D055098yt,D055339nf,D055B26gq,D056BFds,D056F21l4,D056FBba7,D0574C2s3,D0577B6gz,D0577E6gz,D057859oo,D05794b9l,D057A1e9h,D05875qa,D058A514o,D058A8f94,D058AB800,D058C0a4p,D058FCazx,D05919f94,D059954lk,D059C32mf,D059E4ba7,D05A00dv4,D05A0F5wg,D05AF1bvv,D05AFDagu,D05BA8f94,D05BCBdan,D05C7Abbn,D05F645zq,D05FAFbpj,D05FB8d7u,D05FCE5q9,D0608Cf94,D061585gu,D0622Cej5,D062A02p9,D0634D840,D063B4ca2,D0654414o,D065786gz,D065B3cny,D065CA5gu,D0666Dbph,D0667Bba7,D067265on,D067E53ix,D06827ezk,D0699E7c1,D069C15gu,D069D0dx6,D069FF4lk,D06A1F1kp,D06B7814o,D06C37f2y,D06DC85gu,D06DC9b9l,D06EDEb9l,D06F4Acux,D06F825gu,D071C4f94,D072DC2s3,D0737F896,D073805ty,D0738E3cy,D073D579l,D075BEaik,D076025ub,D0760Ca53,D076505zq,D0768F2i5,D076E7cvj,D077148cw,D077CE43b,D078804lk,D0789Aduy,D0792F8vq,D07AB55gu,D07B6Feuo,D07C2D7eu,D07CB2c48,D07D335ty,D07DE54p0,D07E015ty,D07E285om,D07E356gz,D07FA0ba7,D07FC49dm,D0817A14o,D081C56tm,D082E8dhv,D082EBdhv,D083D4ekl,D0845D1ex,D084B0b9l,D085432s3,D087B5anw,D087E2ba7,D0880C14o,D08999ff,D08A55c6u,D08A91dv4,D08B7E9px,D08CB5d7u,D08CFFdkp,D08E175i,D08E793ix,D09168au8,D092004l7,D0928214o,D092889ye,D0929E87m,D092FA4lk,D093803qq,D093955zq,D093F8cf5,D094663ix,D094CF5gu,D095C79oo,D096865zq,D096EAf8g,D096FBeu0,D097FEagu,D0989C2xb,D098B14z0,D099D5xc,D09AAF4bb,D09B0547j,D09C304p7,D09C7Aejs,D09CAEf8g,D09D0A79z,D09DABco5,D09FD95zq,D0A0115zq,D0A0BBc0q,D0A0D62o2,D0A3118v8,D0A46F2p5,D0A4B1cas,D0A5A62s3,D0A63714o,D0A65110d,D0A9D33wg,D0AA5F5zq,D0AB4Ad4x,D0ABD56gz,D0AD085gc,D0AE05ejs,D0AEECzc,D0AFB67hw,D0B0CD8bi,D0B0DF88t,D0B128ba7,D0B1CAbx6,D0B2149w8,D0B270e07,D0B2C4dv4,D0B32414o,D0B33Fbxt,D0B3C2856,D0B45D5ty,D0B498akn,D0B5231u1,D0B53Dasc,D0B5C2d7u,D0B60Aejx,D0B6468oc,D0B66Fasj,D0BAE4bkp,D0BB61f94,D0BB80axg,D0BCC1e3v,D0BD013ds,D0BE2C2a2,D0BF9C5om,D0C05014o,D0C0BFq5,D0C193azz,D0C1B1ba7,D0C1B53ix,D0C1BFejs,D0C24Eba7,D0C2822s3,D0C31E6pg,D0C35A6px,D0C42Fczz,D0C5D31er,D0C5D877v,D0C5F314o,D0C6376gz,D0C65B5gu,D0C67F5gu,D0C6BE5gi,D0C730f94,D0C7892s3,D0C7C0cvj,D0C8575zq,D0C9014wl,D0C9079zs,D0CBDDezk,D0CDBF797,D0CDE1bd0,D0CEC0ejs,D0CEC95c3,D0CF0Eb9l,D0CF134ba,D0CF5E48e,D0CFD85uh,D0D003ba7,D0D04B5gu,D0D0FD2s3,D0D2126ub,D0D23C14o,D0D2861nu,D0D2B014o,D0D3E05on,D0D3FC89h,D0D4126y,D0D4717x7,D0D49F14o,D0D4FB5rs,D0D6CCecl,D0D7835gu,D0D7BE5gu,D0D94F5zq,D0DA245zq,D0DAD714o,D0DB328zj,D0DBB72ke,D0DC2C2s3,D0DD496tm,D0DD7Cf94,D0DF9A7ik,D0DFB252o,D0DFC7ba7,D0E0422s3,D0E14014o,D0E347ent,D0E40Be8a,D0E44A8dt,D0E54D2vw,D0E58114o,D0E7821er,D0E828adv,D0EA1188b,D0EA308oc,D0EB03esx,D0EB1Ac37,D0EB9Ebhg,D0EC352s3,D0EDFFepo,D0EE475qz,D0EF764ba,D0EFC15gu,D0F0DB4at,D0F121ej1,D0F27F1zk,D0F3F55ty,D0F4055s0,D0F4F75ty,D0F5206z7,D0F73B5nz,D0F76Ebzz,D0F8155gu,D0F865687,D0F88C8cs,D0F8E7bwz,D0F928f94,D0F99Bf94,D0FA1Da4e,D0FCCCba7,D0FCD05h8,D0FF50d7u,D0FF985gu,D4000D9sq,D400577p5,D400684lk,D400CAl5,D4012920l,D40145kq,D4016Dcvj,D401C388b,D4024A3j1,D404CD2vw,D404E620l,D404FF6tm,D405924ba,D405982vw,D405DEezk,D4060Fd7u,D408681q9,D40A9E4xj,D40AA92vw,D40ADCa4x,D40B1A5gr,D40BB9c9y,D40C9Dc2e,D40DABbqa,D40E608px,D40F9E14o,D40FB214u,D41090f1w,D410CF5tv,D411A3ba7,D411D6c23,D41243dt,D4126E14o,D4129613b,D412BBa5k,D41368bta,D4136F188,D413B3eey,D413F89r0,D41761ejs,D419725on,D419F68o9,D41A3F4zc,D41AC88z1,D41AD1evs,D41B8127q,D41C1Ca90,D41D719nf,D41E35cu4,D41F0C6mb,D420005zq,D4206D5gr,D420B089v,D42122bhm,D4223F7fd,D4224Ex9,D422CD8d3,D424934zu,D424DDme,D4258B6gz,D425CC5zq,D425DE8vr,D427516df,D42787bjv,D427FFb9l,D428B2f3g,D428D5co5,D429A76d5,D429EAeuu,D42B6F2s3,D42BF0db0,D42C0F2vw,D42C3Dc6v,D42C442s3,D42C461l4,D42CA6ba7,D42DC5f0x,D42DCC14o,D42F23wl,D42F4B5s0,D42FCA14o,D43127am3,D4319Dc66,D4326055x,D432664m1,D4351Ddv3,D435381sa,D4354Ab4,D43639d7u,D436DB6s1,D437D7f94,D43844djz,D4389Ccb5,D439B82ri,D43A2C56h,D43A2Eavj,D43A2Favj,D43A65605,D43AE93d4,D43B046gz,D43B8Ac0g,D43D393kj,D43D672k5,D43D7E86q,D43DF3evs,D43F32ezk,D43FCB2vw,D440D092q,D440F05gu,D4413F51o,D44165c2w,D4430Eet2,D4438A1sa,D443A82na,D445E86sb,D446495gu,D446E114o,D4475Abdi,D4482Dbqj,D44867c4v,D44A85c4v,D44B5Ecmx,D44BB6etj,D44C24e2g,D44C9Cbzy,D44CA76dk,D44D778zj,D44D9Fbx6,D44DA48dt,D44F14d7i,D44F675gu,D44F6843s,D44F8070z,D45039b9l,D4503F4zc,D4507A25l,D450EE4u3,D4522Ad08,D452515xi,D45297f57,D452C71q5,D452EEazx,D4532A1sa,D4534784w,D453838dt,D453AFdrc,D4548B6gz,D455564ld,D455ADf0l,D455BEaui,D4576314o,D458004lk,D45944f7x,D45A3F6tm,D45AB250d,D45B518cw,D45C70eag,D45D428zj,D45D64jj,D45DDF9gg,D45E898cw,D45EEC1s9,D45F25bzz,D45F2Cf94,D45F7A5gu,D460751lx,D460E3bhm,D4612E5gu,D461329zt,D461375zq,D46195f94,D4619D14o,D461DA14o,D461FE5k3,D462EA5gu,D46352e2i,D463C014o,D463C68cw,D463DEf8g,D463FE15q,D464F7279,D466242s3,D46663bqm,D466A8ajl,D46761ek7,D467D34zc,D467E74lk,D4684Dalx,D468678sa,D468AA14o,D468BAbxi,D469A58ac,D46A352s3,D46A6A5rz,D46A91c8r,D46AA85gu,D46BA65gu,D46C628dk,D46C6D2vw,D46CBF56f,D46CDA2g0,D46D502s3,D46D6D6gz,D46E0Ecvj,D46E5C5gu,D46F42e3i,D472081z0,D47226f94,D473275gu,D47350381,D474155ty,D4741B1pm,D476A04ou,D476EAf94,D4772B8pv,D477982s3,D477B28u6,D478561cm,D4789B2s3,D479545ty,D479C32it,D47A97agu,D47AE2ba7,D47AEC4rw,D47B358gv,D47B6Bbjb,D47B755cs,D47BB0ip,D47C445zq,D47DFCcpb,D47EE42pj,D47F352s3,D47F783pc,D4808Bbf2,D481CAf1f,D481D73ix,D4823E167,D48304aui,D48409avh,D484574u3,D484D0bm7,D485645om,D4866015q,D487CCc6m,D487D8ba7,D4883F5dc,D488665gu,D48890ba7,D489C1dlp,D48A39ba7,D48A3B5hc,D48AFC4ba,D48C494ba,D48CB52s3,D48D2679b,D48DD9846,D48F3387m,D48FA25ty,D48FAAc9h,D4909C14o,D490E0e6i,D4910F10n,D491AF44k,D492348gc,D4925Edv3,D492B996c,D49390292,D493988zj,D493A04lw,D494005gu,D4945A2ef,D494774hc,D494A1d7u,D494A96gz,D494E85gu,D494FBl4,D495242tl,D4955Df94,D4958Edo6,D496DFb64,D4970Bejs,D498B9f8g,D4996C6tm,D49A2014o,D49AA0dsf,D49AF61er,D49B5C2qm,D49B74724,D49C286qv,D49C538hs,D49C8Edoi,D49CDDdt,D49CF49nf,D49D9Dbs2,D49DC0ba7,D49E05f94,D49E3B5aj,D49E6Defo,D49F294lk,D49FDD5ty,D49FF941o,D4A02A2s3,D4A0FB5zq,D4A1485gu,D4A23D8vr,D4A2545gu,D4A2CD3ix,D4A33D14o,D4A365ejs,D4A38B3v5,D4A3EBc0q,D4A425b0j,D4A4996be,D4A5B45o9,D4A651dhv,D4A7EAc9o,D4A9235gu,D4A92857t,D4AAFF7rw,D4AB616gz,D4AB822vw,D4ABCD5ub,D4AC4E1jj,D4AD206sn,D4AD2D4lk,D4AD712s3,D4ADBD2s3,D4ADFCbta,D4AE05ba7,D4AE523ix,D4AFF716e,D4B1105gu,D4B1697e2,D4B27A2vw,D4B43E854,D4B4C04ou,D4B5CDb9l,D4B680bkj,D4B6C98zj,D4B709f94,D4B761c2p,D4B7D02ri,D4B8FF5rs,D4B92Fdv4,D4BABA5zq,D4BAFA4zc,D4BBC8f8g,D4BBE65ty,D4BD1E25,D4BD4Falx,D4BED73ix,D4BED93ix,D4BEDCal4,D4BF2Daqy,D4BF7Fdko,D4C19Ealx,D4C1A86z4,D4C1C8f94,D4C1FC8zj,D4C3B0518,D4C766p8,D4C8B09zc,D4C93C2s3,D4C94B8cw,D4C9B2a5u,D4C9EF5om,D4CA6D88b,D4CA6Ef81,D4CBAF8zj,D4CBCCf8g,D4CE4014o,D4CEB847u,D4CF37cjo,D4CFF9bwi,D4D1846y,D4D2499xl,D4D2526gz,D4D2D64h8,D4D2E51in,D4D4DA4ba,D4D50Dcc1,D4D51B5gu,D4D659856,D4D6DFcvk,D4D7482s3,D4D7A9bkc,D4D7CFagu,D4D8536gz,D4D8925gu,D4D89874n,D4D91955x,D4DA211sa,D4DACDazx,D4DC0989v,D4DC8543a,D4DCCD14o,D4DD0Be3g,D4DF57zr,D4E0535on,D4E08Edum,D4E13C848,D4E22Fal4,D4E2CBdv4,D4E32Camv,D4E33F8zj,D4E3C5f94,D4E4C32ri,D4E5C9bfu,D4E6B7ba7,D4E8535k5,D4E8802s3,D4E8B2ba7,D4E90B2gr,D4E95Ed7u,D4E98A6gz,D4E9F44ba,D4EA0E1cm,D4EB682s3,D4EC0C5m0,D4EC867ho,D4ECABf8g,D4EE075f0,D4EEDEc2w,D4F027dh1,D4F04Aazx,D4F0578yt,D4F0B48qb,D4F0C96z9,D4F0EA1sa,D4F143660,D4F2073ag,D4F2425ty,D4F32D6gz,D4F337ekv,D4F46F14o,D4F4BE9nf,D4F513d7u,D4F527ay0,D4F54756h,D4F5EF5on,D4F63F5za,D4F756f94,D4F7864lk,D4F7D5cb9,D4F829b9l,D4F921a4x,D4F98D4ba,D4F9A15gu,D4FB8E14o,D4FC134lk,D4FE28c4v,D4FF1A14o,D4FF26936,D8004D14o,D800931ba,D801D05gu,D801EB6d2,D8025F5aj,D8028Abzz,D802C04e3,D8031A4ed,D8032A2b3,D8052Ec7c,D806D15se,D806F316e,D807B6cvj,D80831ba7,D808F515p,D8094Eq9,D8097Ff94,D809C32mh,D809D6epm,D80A42bkl,D80A605gu,D80AE6f94,D80B9Aba7,D80BCBd4y,D80CCF22f,D80D17cvj,D80DE34jl,D80E29f8g,D80F995rz,D80FB5awc,D810688dt,D8109F5gu,D810CB12l,D8126527q,D8132A4ba,D813995ub,D814D6b6q,D814DFcnx,D8150Dcvj,D8160A8yz,D816C139s,D8182B2yf,D818D36tm,D81909edq,D8197A91u,D819CEd4e,D81BB55gu,D81BF4d7u,D81BFEcy8,D81C142w8,D81C7914o,D81D13d7u,D81D7214o,D81EDD4zc,D81EDE1f0,D81F12dhv,D81F659zs,D81FCC20r,D8209F32x,D820A25gu,D821DAasj,D822F41da,D823E0b3g,D82477do5,D824BD2s3,D824EC9vs,D825222vw,D825B0akx,D825DF23c,D826B9594,D826D3ezk,D826FA6sf,D8270C81q,D828C9520,D8291617y,D829185gu,D829861tz,D829F85gu,D82A157f0,D82A7E8zj,D82D406qe,D82D9Bbrt,D82DE1dg1,D82FE6etj,D8306214o,D8312Cf94,D83134al4,D83139f94,D831CFba7,D83214d60,D8325Abzz,D832E3ejs,D8332Aam3,D8337F98h,D833B7b9l,D8341C4u3,D834D1bvm,D834EEaxn,D8365F6h3,D8373Bbtm,D837BEauq,D8380Dav1,D838FCalx,D83A3610d,D83ADDafn,D83AF5eb8,D83BBF6gz,D83BDA4ba,D83C69bxt,D83D3F6oj,D83DCCf6k,D83EEB10d,D83EEF2dq,D840085gu,D842ACbjm,D842E22j0,D842F7ddz,D843AE86p,D843EAb7d,D843EDciv,D8445C39l,D84489cvk,D8452B6gq,D84567cpb,D84606c50,D846CE14o,D84710c2r,D84732cvj,D8478F86z,D847BB5ty,D848EE5l3,D8490B5gu,D8492F23n,D849BF25o,D84A2Bf94,D84A83f8g,D84A87937,D84B2A2uj,D84C9014o,D84DB9eey,D84F37a1t,D84FB8795,D850A15ux,D850E6jj,D852FAd7u,D8539A6tm,D853AD2s1,D853BC7fb,D854375gu,D8543Ad7u,D854829e5,D854A24e3,D854F25ty,D85575ba7,D855A3f94,D857EFba7,D858C670c,D858D72hb,D859825gu,D85A4962c,D85B22bsq,D85B27e5t,D85B2Aba7,D85C119c7,D85D4Ccvj,D85D8424r,D85DE25rz,D85DEF21k,D85DFB9zs,D85ED34w0,D85F77d4y,D860B0ewu,D860B3597,D860C54zc,D86162e5t,D8619497r,D862CA2s3,D862DB48x,D8630D8cs,D86375ejs,D8638Cbqq,D86595ddr,D866C6bqg,D866EE1jx,D867D35ty,D867D92s3,D868525gu,D868A0ba7,D868C3ba7,D86960cen,D86B838yt,D86BF78yt,D86BFCf94,D86C025tx,D86C5A5h8,D86C6356h,D86CE9b9l,D86D175gu,D86DD06ef,D8714Dd7u,D87154ba7,D871577fd,D8747514o,D87495f94,D874DF5gu,D874EF5aj,D875338zj,D876028o5,D8760A4b5,D876AE5gu,D87766920,D8778B6h3,D8787Fdlf,D878C9asm,D878E56yj,D878F0c4v,D879885rz,D87A3Bc4v,D87CDDaox,D87D458xo,D87D7Fb9l,D87E6F24c,D87E76687,D87EB1f8v,D8803986z,D8803C12y,D88083296,D880DC5ty,D881CE9y,D88332cyz,D884664e3,D8855Ef94,D885AC4ba,D8860B5zq,D887D57e5,D888635gu,D888CEaaa,D88A3Bdk9,D88ADC5ty,D88B4C72b,D88C73f94,D88C7956h,D88D5C454,D88DC819u,D88ED4ezk,D88F7614o,D890E8ba7,D8911D6s6,D8912Aevs,D891363po,D893335gu,D89341522,D893D4ejs,D894035on,D89424848,D8952Fd7u,D89563cza,D8968555x,D8969514o,D896E0y3,D8973B17d,D8976022k,D8977C57z,D897902vv,D897BA9gg,D89999cpb,D89A0Df94,D89A341r7,D89AC18zj,D89B3B5gu,D89C675rz,D89C8E2ve,D89D675om,D89DB9ez1,D89E3F14o,D89E615ty,D89ED44lk,D89EF33ix,D8A011eb0,D8A01D4ba,D8A0E62qp,D8A0E8f94,D8A105ckx,D8A25E14o,D8A312cz2,D8A315f8g,D8A35Cba7,D8A469cb1,D8A4915ty,D8A534ccu,D8A6F0eey,D8A6FD53j,D8A756b9l,D8A8C8f94,D8A98Bd7u,D8AA59dcj,D8AD495sy,D8ADDDcak,D8AE906lg,D8AED0bjk,D8AF3B5ju,D8AF81f1,D8AFF19nr,D8B020cz2,D8B02E5ay,D8B04C6sn,D8B053ejs,D8B061awh,D8B1226tm,D8B12A9o9,D8B1902s3,D8B1DE5on,D8B2495ty,D8B293cut,D8B2AAf94,D8B32F296,D8B370dlp,D8B3775gr,D8B673d7u,D8B6B72x8,D8B6C18v4,D8B6D61wi,D8B8F68q8,D8B90Edgg,D8BB2C14o,D8BBC186p,D8BC384ba,D8BC59bqe,D8BE1F14o,D8BE6510n,D8BF426gz,D8BF4Cdxx,D8BFC04ba,D8C0688tz,D8C06A5v5,D8C0A61er,D8C262dlp,D8C3FB39j,D8C46A8dt,D8C497a5w,D8C4E9ba7,D8C5612vk,D8C6788a3,D8C6915oy,D8C6F9de4,D8C7715gu,D8C7C85on,D8C80Cdhv,D8C8E99s6,D8C9605ty,D8C99D3si,D8CA06dbm,D8CB8A86p,D8CC985ty,D8CD2Ce6b,D8CE3Aejs,D8CF61b9l,D8CF891ow,D8CF9C14o,D8CFB11k8,D8CFBF8cw,D8D0903ix,D8D1CB14o,D8D2614u3,D8D27C6ne,D8D3855om,D8D43Ccb5,D8D45D9cq,D8D4E65vy,D8D5B9aex,D8D668dhv,D8D67E4yu,D8D6F36gq,D8D7235z3,D8D775b9l,D8D7F38vr,D8D866aw8,D8D8E5dv2,D8DA52fd,D8DAF15gu,D8DC4014o,D8DCE975n,D8DD5F1fh,D8DDFDd7u,D8DE3A14o,D8DECE67p,D8DF0Dewq,D8DF7Aa6o,D8E004e1h,D8E0164e3,D8E0B81l7,D8E0E1ba7,D8E23Fa4q,D8E2DF87m,D8E35E79b,D8E374ejs,D8E3AE28g,D8E56Dco5,D8E59314o,D8E72B8i6,D8E72F2q0,D8E743efq,D8E844f94,D8E9526vy,D8EB4656h,D8EB97cwc,D8EC5E1t5,D8ECE5evs,D8ED1C7yh,D8EDA8ejs,D8EE42c2w,D8EE788c1,D8EF425ty,D8EFCD8zq,D8F02Fd7u,D8F0F2erm,D8F12Ecvk,D8F15B4ba,D8F1D8937,D8F1F09r3,D8F2CA6gz,D8F3BC7ik,D8F3DB9xd,D8F5074lk,D8F7107g9,D8F7603wg,D8F8836gz,D8F8AF368,D8FB11mu,D8FB58848,D8FB5Eip,D8FB682t2,D8FBD610n,D8FC3853o,D8FC92dhv,D8FC936gz,D8FE8F5yx,D8FEE3351,D8FFC3boj,DC0077cvj,DC00B04i9,DC026583f,DC028Ef94,DC039879b,DC045A8pg,DC052F8qn,DC05392s3,DC0575ay3,DC05ED8og,DC06754ba,DC0682on,DC07C15jn,DC07F85k5,DC080F14o,DC0856xd,DC08DAip,DC0914czu,DC094C5gu,DC0A694ba,DC0B092s3,DC0B1A6y,DC0B34798,DC0C2De3v,DC0C5C14o,DC0D30brc,DC0E969nf,DC0EA12bf,DC105714o,DC121D5gu,DC152D2pi,DC155C13a,DC15C8me,DC15DB517,DC16A283j,DC16B25gu,DC175A5qh,DC17922jk,DC1A0142t,DC1AC5f8g,DC1B48d7u,DC1BA16gz,DC1D9Fdi7,DC1DD487p,DC1EA3ok,DC1ED54ba,DC2008id,DC21486gz,DC215C6gz,DC21B9bgz,DC21E25gu,DC226F5jm,DC233B4e3,DC27275ty,DC28345bv,DC291910e,DC293Abvi,DC2A14bkn,DC2AA182s,DC2B2A14o,DC2B6114o,DC2B666d8,DC2BCAesf,DC2C266lh,DC2C6E88b,DC2D04f8g,DC2D3C5ty,DC2DCB1rv,DC2DDE6a7,DC2E6A5d5,DC2E97a6l,DC2F03cer,DC2FFA4ue,DC3052f94,DC309C5oq,DC31301t,DC31D1f8g,DC32628pg,DC330Da2z,DC330Ea4q,DC333D5ty,DC3350d0z,DC35F19x8,DC360C5qz,DC3642f94,DC36435zq,DC371414o,DC37524u9,DC37576gq,DC37D25v1,DC38E16tm,DC396Fme,DC39792s3,DC3A5Eal4,DC3C2E7zo,DC3C84das,DC3CF61ab,DC3E51c9t,DC3EF88zj,DC415F14o,DC41A96gz,DC41E5c0h,DC42C85ty,DC44275zq,DC446Dz6,DC44B15pl,DC44B6ba7,DC45172vw,DC45466gz,DC45B814o,DC46286gz,DC48B21mm,DC496536j,DC49C924d,DC4A3E5om,DC4A9E5zq,DC4BA1e5t,DC4BDDbxm,DC4BFEbp9,DC4D237wb,DC4EDEaxe,DC4EF4bur,DC4F224ba,DC503A8pp,DC5193f94,DC528514o,DC53606gz,DC537C2w9,DC539214o,DC543D687,DC54754ba,DC54AD5kp,DC54D710n,DC55834zc,DC55B14ba,DC567B296,DC56E6bpd,DC56E714o,DC57269xw,DC575C9jl,DC58BCd9q,DC5D31687,DC5E369pz,DC60A1d3o,DC61805gu,DC621F5gu,DC6279cvk,DC62945a7,DC637392l,DC647C22i,DC64B8btl,DC65558vq,DC663A140,DC6672ba7,DC6723ewn,DC680C5on,DC6880f94,DC68EB8yt,DC69B5ezk,DC69CC79b,DC69E2ba7,DC6AE7ejs,DC6AEA6d5,DC6B12f8r,DC6B1B5ty,DC6DBC14o,DC6DCD4zc,DC6F007iu,DC6F081n8,DC70149zs,DC7035bob,DC7137f94,DC7144aol,DC71966gz,DC71D014o,DC71DDmt,DC72235ub,DC729B5gu,DC7306duz,DC73855ty,DC73FC848,DC74A8ba7,DC74CE68j,DC76C35zq,DC774C2s3,DC77945ty,DC78347b3,DC7B942s3,DC7CF72pi,DC7E1D5gu,DC7EF55gu,DC7FA4r,DC808414o,DC813Dath,DC825B6mh,DC82F6f23,DC83BFbf2,DC8403f6v,DC84E9bvx,DC85DE1er,DC868D5gu,DC86D814o,DC87CB1qy,DC87F8ba7,DC88A1687,DC8983ba7,DC8B286gz,DC8C1Bf8g,DC8C372s3,DC8D8A8zq,DC8D916d5,DC8DB7kq,DC8E6D5ty,DC8E8D8u4,DC8E95c4v,DC90096gz,DC9020adc,DC90885gu,DC91665ty,DC91BF10n,DC9272b9l,DC939614o,DC956614o,DC962C8n7,DC973Adw8,DC9758c2p,DC97BA6gz,DC97E6b9l,DC984087m,DC99145gu,DC99FE16n,DC9A7D5eo,DC9A8E8p3,DC9B1E6ie,DC9B959td,DC9B9C14o,DC9BD6co5,DC9C52bbi,DC9C995gu,DC9C9Fbzz,DC9DEDba7,DC9E8F14o,DC9EAB2qp,DC9F1F183,DC9FA48zj,DC9FDBdlp,DCA0D010n,DCA1208zj,DCA2665rz,DCA2815sy,DCA313bps,DCA333bzz,DCA3A24l3,DCA3ACa8x,DCA4CA14o,DCA5F42s3,DCA632afn,DCA6332vw,DCA6BD1q7,DCA706277,DCA7825gu,DCA7D92wo,DCA8CF8vw,DCA90414o,DCA9564zc,DCA9716gz,DCA9897n1,DCAA43by4,DCAC6F4d3,DCAD9E57r,DCAE0425t,DCAEEBalx,DCAF68e3v,DCB05821x,DCB0828zj,DCB131auw,DCB347aui,DCB3B45sd,DCB43Fezk,DCB4AC4gq,DCB4C487o,DCB4CA4zc,DCB4D94ba,DCB4E821r,DCB54F14o,DCB72Eejs,DCB7AC5on,DCB7FCzt,DCB8084e3,DCB87D5on,DCBB3D4e3,DCBB964ro,DCBD7A5aj,DCBDCCa6l,DCBE04d7u,DCBE49687,DCBE7Aete,DCBF905h5,DCBFE98cw,DCC0DBbtx,DCC0EBj1,DCC101b21,DCC2C923n,DCC422cle,DCC49Cba7,DCC6221l5,DCC64B5gu,DCC7938zj,DCC8F5blr,DCCB353wg,DCCBA84dw,DCCC8D6gq,DCCCE6ba7,DCCD188yt,DCCD2Fbf2,DCCD668o9,DCCD746qk,DCCE414fg,DCCEBCbtd,DCCEC12s3,DCCF941r4,DCCF96ba7,DCD0F71tk,DCD160dad,DCD25572n,DCD26A5k5,DCD2FC5gu,DCD2FD5gu,DCD3215h8,DCD3A214o,DCD4445ty,DCD52Achb,DCD7A05ty,DCD83B2s3,DCD87C1q0,DCD87Fbts,DCD9165gu,DCD9A858q,DCD9AE8zn,DCDA0C4ba,DCDA4D25o,DCDA4F4vj,DCDA808vr,DCDB275ty,DCDB70dcf,DCDC07cwy,DCDCC34e3,DCDCE2ba7,DCDD2448a,DCDE4Baw9,DCDE4F54k,DCDECAwt,DCDEE3d7u,DCDFD6f94,DCE0269q4,DCE0EB8ox,DCE1ADbzc,DCE2AC7l7,DCE305f1,DCE5335zq,DCE54114o,DCE55B56h,DCE5784dt,DCE5D8f94,DCE6504e3,DCE71Ckv,DCE83828r,DCE994296,DCEAE734z,DCEB4D8cs,DCEB53efh,DCEB5Dbil,DCEB69dv4,DCEB942s3,DCEC065nf,DCEC4F5aj,DCECE35g3,DCED831sa,DCED845mh,DCEE065gu,DCEE147x,DCEF098hv,DCEF805gu,DCEFCA8dt,DCF05D7fp,DCF09091p,DCF1108zj,DCF144980,DCF31Cd7u,DCF34C9lo,DCF4013ix,DCF4CA14o,DCF5051er,DCF51B15q,DCF56Ee9c,DCF7192s3,DCF755aza,DCF756ba7,DCF8587kk,DCF8B9f94,DCFAD5b5r,DCFB021l4,DCFB486gz,DCFBB8843,DCFE079gg,DCFE18cvj,DCFE238dt,E000845gu,E001A643b,E001C75ub,E002A54h,E0036Bba7,E00370bn6,E0051C53w,E005C5cvj,E006305gu,E006E65rz,E0071B5on,E007C24it,E00855me,E008713p0,E009BFaw6,E00AF67ik,E00B286fp,E00C7F8yt,E00CE55gu,E00DB931s,E00DEE5ty,E00ECE4lk,E00EDA2s3,E00EE1e86,E00EE43eu,E0107Falx,E01283br9,E01333529,E013B5f8g,E0143E8be,E016B1sc,E018774j0,E0189F3wg,E0191D5gu,E01954f94,E01995922,E019D81hr,E01ADF56h,E01AEAys,E01C414e3,E01CA716e,E01CEE1zg,E01CFC351,E01D381pr,E01D3B2il,E01E07137,E01F0Aeki,E01F2B8zq,E01F345f4,E01F6A5ty,E01F88ejs,E01FED8zn,E01FFC8cs,E021FEajh,E022022vw,E022A110d,E0233B5zq,E023D7c7g,E023FF4ou,E0247F5gu,E024815gu,E02538dbo,E0261114o,E026306jn,E0263690b,E0271Acxj,E0276C5aj,E0280Acvk,E028615gu,E0286Dme,E028B1bx6,E029675f4,E02A25bta,E02A662s3,E02A82do8,E02AE64lk,E02B9614o,E02BE96gz,E02CB27fc,E02CF37w6,E02DF0ca,E02E0B6gz,E02E3F5ty,E02EFEet2,E02F6D2s3,E03005xf,E030F96tm,E0315D3wg,E0319Edup,E031D0b8t,E0338E14o,E034E44kx,E035602mx,E036765gu,E036E3cdn,E03717dv4,E037BFe5t,E0382D5zq,E0383Ff94,E039D79vy,E03AAA6gz,E03C1C5zq,E03C5Bav4,E03DA6cz2,E03E4420l,E03E4A2l2,E03E7Dexx,E03ECBa4x,E03F49jj,E040075ty,E040275ty,E04102f94,E041368a3,E0426D4zc,E043DBbyt,E0456D2pi,E0469A8hv,E046E556n,E046EE8hv,E047354at,E0482450u,E048AF9z2,E048D37v2,E048D859r,E049342i5,E049ED1aj,E04B415js,E04B455or,E04BA65gu,E04C054cq,E04C12agu,E04E5D5gu,E04E7A8pg,E04F43do8,E04F95b9l,E04FBDc2w,E0508Bet2,E051248oa,E0516315q,E051D82p5,E0553D2s1,E0559746y,E056897kh,E05694eok,E056F41dp,E0589E7cp,E05A1B4ba,E05A9F5zq,E05B706fj,E05D54am3,E05D5C9e9,E05DA63jy,E05F4514o,E05FB92s3,E0604A4lk,E06066bhm,E060892th,E061B25cd,E06234d7u,E06267ejs,E062906sm,E063DAdlp,E063E5cb5,E064BB3ky,E0667814o,E067813p0,E067B3bpj,E0686Dafw,E068EE9tc,E0693A6ey,E069959gg,E069BA2s3,E06A05bzz,E06A1Bc0k,E06C4Ebxt,E06CA631v,E06CC55ty,E06CF63zb,E06D1714o,E06D189hy,E070EA5gc,E0720Abxm,E072566gz,E07291c4v,E072A14ba,E0735F8no,E073E75gc,E0750Aca,E075262p5,E0757D8cw,E075AA1q1,E076D0dt,E077265ty,E078A3bm3,E0795Eefx,E0798Dc4v,E079C4f27,E07C13f94,E07C62eaa,E07DEAd7u,E07E5Faie,E07F53cor,E07F8840l,E0806Bejs,E0817757n,E0830D8md,E084F35p3,E0854D79b,E0859Aavt,E086146fw,E087B18qh,E0885Ddv4,E0897E14o,E0899D2s3,E08A7E4dx,E08C3C2s3,E08CFE4ba,E08E3C1el,E08F4C6gz,E08FECa9t,E0913C75u,E09153egr,E091F58hv,E0925C14o,E0928Fd7u,E092A74ky,E094676gz,E0955915q,E0957996h,E095B3d7u,E095FF6d5,E096E84lk,E097965gu,E097F21aa,E098064ba,E098618cw,E09971ba7,E09B272ri,E09C8Dbdr,E09CE5blp,E09D13ba7,E09D1Ef94,E09D316gz,E09D73848,E09DB89if,E09DFAe6t,E09EC1c4u,E09F2A6lh,E0A1294e3,E0A1988lv,E0A1CEf94,E0A1D7asz,E0A258e6u,E0A25Abku,E0A30F9rt,E0A3668cw,E0A3AC5gu,E0A447f94,E0A498avn,E0A5091vo,E0A6708zj,E0A700dwr,E0A8B87e2,E0AA96ba7,E0AAB0b6f,E0AADB8pc,E0ABFE9cn,E0ACCB14o,E0ACF12s3,E0AD9B5gu,E0AE5Eca,E0AEA25gu,E0AEB21tg,E0AEED7ax,E0AF4B9w2,E0AF4F3k0,E0B260crj,E0B2F14h8,E0B52D14o,E0B55F14o,E0B61316e,E0B6551s9,E0B668f94,E0B6F55zq,E0B70A2vw,E0B72Ebnp,E0B7631y9,E0B7B12vw,E0B94Dau3,E0B98Abxx,E0B9A51er,E0B9BA14o,E0B9E5dv3,E0BA7814o,E0BAAD5k5,E0BAB416y,E0BB0Cckj,E0BB9Ebf2,E0BC4322l,E0BDA014o,E0BE037ie,E0BFB214o,E0C0D128r,E0C2508hv,E0C2646gz,E0C286w8,E0C29Ef94,E0C2B780w,E0C377ba7,E0C3EA14o,E0C3F3f94,E0C58F2pj,E0C63Cc2w,E0C6B388f,E0C76714o,E0C79Dd7u,E0C86Aawa,E0C9226ss,E0C9326gz,E0C97A14o,E0CA3C5k5,E0CA4Dbym,E0CA94ip,E0CB198zj,E0CB1D10n,E0CB4Ejj,E0CB56c0q,E0CBBC2s1,E0CBEEba7,E0CC7A5gu,E0CCF8ejs,E0CDB85ty,E0CDFD1oy,E0CEC3ip,E0CF2D51k,E0D0456gz,E0D083ba7,E0D10A70e,E0D1732s3,E0D1E6yd,E0D239coy,E0D31A3ye,E0D362cvk,E0D38E2q1,E0D3B42s1,E0D3F010d,E0D4625ty,E0D4646gz,E0D4912s3,E0D4E86gz,E0D55D6gz,E0D55E4w0,E0D738ecp,E0D7BAd7u,E0D8483ix,E0D8C4a4x,E0D9A25pu,E0D9E3464,E0DA905gu,E0DAD7f94,E0DADC6pl,E0DB10ba7,E0DB553ix,E0DB889ao,E0DBD1dv4,E0DCA0c3n,E0DCFFejs,E0DDC0f8g,E0DEF2d7u,E0DF135k5,E0DFB7erp,E0E0C22pi,E0E0FC5ty,E0E1A9brl,E0E2586gz,E0E2D11qr,E0E2E64ba,E0E37C5ty,E0E5CFd7u,E0E62Eco5,E0E631b0y,E0E6568u0,E0E6E3d0u,E0E7518yt,E0E7BB91z,E0E805asj,E0E8BBdn0,E0E8E6bpj,E0E8E898q,E0EB4014o,E0EB62bjz,E0ED1Af8e,E0EDC7brm,E0EE1B9nu,E0EF022ol,E0EF257i1,E0EFBF8yt,E0F2113mr,E0F318c2w,E0F32545m,E0F3305gu,E0F379dtu,E0F4425ty,E0F5C614o,E0F5CA276,E0F62D6tm,E0F6784lk,E0F6B58yt,E0F72810n,E0F84714o,E0F9BE2td,E0FA5B16e,E0FAEC9vk,E0FFF1d7u,E0FFF7c9b,E40177b95,E402744jj,E4029B6gz,E40439dca,E405F821t,E406BFc4v,E406E05gu,E4072B5ty,E408E7a6l,E40A165gu,E40A75c4v,E40CFD4zc,E40D366gz,E40D3B4at,E40EEE5gu,E41088ba7,E4115B5om,E41218bnq,E4121Dba7,E41226l6,E41289f7y,E4135C2s3,E415F6d7u,E416134e3,E417D82i,E4186Bevs,E4197Fezk,E419C15gu,E41A1D8mk,E41A2Ceqq,E41B431sa,E41C4Bdpk,E41D2D848,E41E0A5zq,E41E33l2,E41F135xb,E41F7B2s3,E41FD56gz,E41FE93qv,E42150bj9,E422A59ig,E4233C6tm,E42354aun,E4246Cet2,E425E714o,E425E92uy,E426863eu,E4268B5ty,E426D58cw,E427615sy,E42771c8d,E428059ut,E428A49yl,E4293Dbxo,E42AAC87m,E42AD37yn,E42B3414o,E42B798zj,E42C567h5,E42D02co5,E42D7B2pj,E42F264lk,E42F3714o,E42F569c8,E42FF6dn1,E430225lr,E432CBba7,E433AE4zc,E434935gu,E435935k2,E435C85gu,E435FBb90,E4379F2s3,E437D75dn,E43819bsn,E4387E2s3,E43883dlp,E4388C3m8,E438F2t5,E43A658bj,E43A6Ec0f,E43BC95eo,E43C80dok,E43D1A20l,E43EC65gu,E43ED715q,E43FA2efr,E440974zc,E440E2ba7,E4412299u,E441648zj,E441D4f8g,E441E69di,E442A66gz,E4434B3ix,E4438914o,E443CFcvk,E444E54e3,E445191s9,E446B04re,E446BD21z,E446DAejs,E447904zc,E447916ky,E447B3f94,E448C72s2,E44AE06gz,E44C6Cbs6,E44CC75zq,E44E12f94,E44E1850q,E44E2D2s3,E44E7626u,E44F297mx,E44F5F3tx,E4509A5hi,E450EB14o,E451A98pq,E4521Ed7u,E4534114o,E454E55ty,E454E83ix,E455A82s1,E455EA3il,E45614cia,E456ACc4v,E456CA4pi,E457402vw,E45768f8g,E457A8cg4,E458B8ba7,E458BC1yh,E458E7ba7,E45AA2f8g,E45AD4464,E45BB3f94,E45D376tm,E45D39d7u,E45D51asz,E45D521cm,E45D75ba7,E45E1B56h,E45E376gz,E45ECC6tm,E45F01afn,E460176gz,E4604Df94,E460599ud,E461F4f6w,E462515ck,E462C42s3,E463FE4it,E464473wg,E464492vw,E46564av9,E465667zr,E465B84ba,E466ABf94,E466E58pg,E4671Eats,E467A61kr,E467BA3g8,E467DD3uz,E468A35gu,E4695A3kp,E46A35agu,E46C21f4r,E46CD12i5,E46D7F2ri,E46DAB848,E46E8A1ln,E46F13351,E4701014o,E470B86gz,E47185beh,E4729D8zn,E472E25gu,E47305bt6,E473195ty,E47450bs5,E4751E53f,E475DC15q,E4768414o,E47723f94,E477275gu,E4776B3z,E477D489c,E4787616e,E4793F6tm,E47A2Cb8r,E47B3F1gp,E47C1Af4q,E47C65chi,E47CF9ba7,E47D5A1pj,E47DBDba7,E47DEBbl1,E47E665gu,E47E9Af94,E47F3Cf94,E47FB24j0,E481848zj,E481B3bok,E482105gu,E482CC6tf,E482FF42p,E483265gu,E483992vw,E484298vr,E4842B5cb,E484D3ejs,E48501519,E485FBa6l,E489CA2s3,E48A935eo,E48AD5aab,E48B7F14o,E48C0F3nj,E48C73agu,E48D8C88b,E48E10287,E48EBBal1,E48EC55gu,E48F09f3s,E48F1D5ty,E48F34e1d,E48F65enh,E48FB716e,E4902A5gu,E49069al1,E4907E8cw,E490FD14o,E4922A382,E49282ba7,E492E7589,E492FBba7,E4936A4zc,E4956E5zq,E49652f8g,E496AEcl,E497F0blu,E498BB9tc,E498D187n,E498D614o,E498E0dcj,E4995F5gu,E49A7914o,E49ADC14o,E49C6714o,E49D7343b,E49E124i9,E49F1E2vw,E49F7Dba7,E4A1E6xf,E4A32Fbiz,E4A3872yt,E4A41C2s3,E4A430ba7,E4A4716gz,E4A5EFcwv,E4A634do6,E4A7499nf,E4A7A06gz,E4A7C55gu,E4A7D05gu,E4A7FD2lm,E4A8B65gu,E4A8DF2bf,E4AA5D2s3,E4AAE4ejs,E4AAEA7ik,E4AAECdaj,E4AB46dij,E4AB898a3,E4AD7Daqi,E4AEE4dhv,E4AFA15dt,E4B0051pu,E4B021ba7,E4B0634ba,E4B1075ty,E4B16C14o,E4B2245gu,E4B2FB14o,E4B3186gz,E4B3234ba,E4B503agu,E4B5555ty,E4B633efv,E4B7315jo,E4B97A3ix,E4BAD910,E4BC96dx1,E4BCAAejs,E4BD4Bf94,E4BD962oa,E4BEED8u4,E4BEFB5gu,E4BFFAdv4,E4C0CC2pi,E4C0E2b9l,E4C0FE14o,E4C14697q,E4C1F1aw1,E4C2D15gu,E4C32Acvj,E4C4834zc,E4C62Bw6,E4C63D14o,E4C6E68c4,E4C7222s3,E4C7676gz,E4C770aez,E4C8011iv,E4C8062le,E4C90Baen,E4CA12f94,E4CA5F8dt,E4CB591qe,E4CC9D6gq,E4CDA7f94,E4CE02eg8,E4CE5812z,E4CE705mr,E4CE8F14o,E4D1248bm,E4D332cvj,E4D3735gu,E4D3AA4fb,E4D3F12s3,E4D4368zr,E4D53D5rz,E4D58B5k5,E4D71D9cm,E4DADFcz2,E4DB6D1s9,E4DBAE4e3,E4DC435ty,E4DC5F2uc,E4DCCC5gu,E4DD7947n,E4DE405on,E4E0A614o,E4E0C5ba7,E4E112d7u,E4E130co5,E4E26C4zc,E4E33Da4x,E4E40978n,E4E4AB14o,E4E608730,E4E66Cdaa,E4E7495om,E4EA83auq,E4EC108zj,E4ECE8ba7,E4EEFD7w2,E4F0043ix,E4F04256h,E4F14C9zs,E4F1D4f8g,E4F27C6tm,E4F327kf,E4F365db6,E4F3C4ba7,E4F3E3bmf,E4F3E8bxm,E4F3F5avh,E4F4C68hv,E4F58Ebcr,E4F75B2vw,E4F7A13hc,E4F89C6gz,E4F8BEcpb,E4F8EFba7,E4F93989g,E4FA1D9eu,E4FA5Bd7u,E4FAC4cvk,E4FADE87m,E4FAE4bwg,E4FAEDba7,E4FAFD6gz,E4FB1E87m,E4FB5D5gu,E4FB8F7v2,E4FC826tm,E4FD456gz,E4FD8C4e3,E4FDA15gu,E4FE431sa,E4FED93tt,E4FEE42ri,E4FF695rj,E4FFDD3vb,E800361o2,E801152do,E8018D4lk,E8039Aba7,E8040B14o,E804109zs,E804622s3,E804F3da0,E8056D90b,E805DCdwf,E8068814o,E806904ba,E806EBc1a,E807342n0,E807BFau4,E8088B5gu,E808AFf94,E809456gq,E809595bb,E80AB92s3,E80AEC6ro,E80B13wn,E80C3835n,E80C75ck7,E80FC8do6,E8102Eags,E810985on,E81132ba7,E811CAat6,E8122Ddk0,E8132458t,E813632x3,E81367ae,E8136E5gu,E81499eny,E8150E8zj,E815FE8vr,E8162B5yw,E816565jv,E81711byu,E817FC4rd,E818635zq,E81A58coz,E81AAC966,E81B4Bew7,E81B69bhm,E81CA55on,E81CBA4ou,E81CD814o,E81DA8alx,E81DEEf0y,E81E925ty,E820E25h8,E822814u3,E822B8bx6,E823FBahf,E82404a6l,E824A66tm,E82587bpu,E826895on,E8268Dbxm,E826B62wc,E826CFbtn,E827251e1,E82877ctz,E8288D5ty,E828C1464,E828D5310,E82A447ik,E82AEA6gz,E82BC55ty,E82C6Dc82,E82D7910d,E82E0C8hw,E82E249dp,E831CD4ba,E8330Deih,E833812vw,E8343E1pw,E8361714o,E8361Dbgd,E8377Aevs,E838A0e17,E839355om,E839DFip,E83A12ba7,E83A4B2pi,E83A97dd6,E83DC14ba,E83EB6aay,E83EFB4v8,E83EFC2vw,E83F675ty,E840402s3,E840741mu,E840F29gg,E84368f94,E843B6a34,E8447E1vm,E8458B8a3,E845EB73r,E84727a6l,E8473A5s0,E847F3f8a,E8481Fs7,E848B8cvk,E84943ems,E84A541sa,E84A7814o,E84C4A10n,E84C56644,E84D745gu,E84DD05gu,E84DECeiv,E84E063u2,E84E84ba7,E84EBA56h,E84ECE8yt,E84F258dt,E84F4Bbql,E84FA75ty,E8508Baom,E8516Ecxe,E85177a4x,E8519Denj,E8519E5aj,E854848gu,E85497ba7,E85540e6a,E855B4ao3,E85659t2,E856D68g3,E85A8Bejs,E85AA77ak,E85AD14lk,E85B5B795,E85BB711s,E85BF06al,E85C0A2s3,E85C5F4h8,E85D6B7le,E85D8626w,E85E536dr,E85F0214o,E85FB4ejs,E8611F3i7,E8617E7ik,E861831w4,E861BE847,E862BE6gz,E86538296,E865492s3,E8655F3ix,E865D4d60,E866C43kn,E868195gu,E868B14zc,E868E74ba,E86A6477z,E86BEA4ba,E86CC75zq,E86CDAcht,E86D1645s,E86D522vw,E86D543lb,E86D65ku,E86D6Ef8h,E86DCBba7,E86DE95gu,E86E3Acb9,E86E3Ec2w,E86E44f94,E86EAD5a1,E86F3827q,E86FF2q7,E870725jv,E8718D462,E874C7bh3,E874E66y,E8757F4gb,E87640azx,E878295zq,E8786514o,E878A11he,E878EE8vr,E879A32s3,E87AF3anh,E87E1C5gu,E87EEFejs,E87F6Bba7,E87F9514o,E8802E14o,E8808877z,E880D84xi,E880E75ty,E8815214o,E88175f94,E881AB1r8,E8825B2vw,E884A56gz,E884C65gu,E8854B14o,E886CF8zj,E887A37ks,E88843ejs,E8886Cbwb,E8892C2vw,E88D2814o,E88DA6a6l,E88DF5eqb,E88E608my,E88F16c6u,E88F6Fco5,E88F8E5r8,E88FC47v3,E8910F4lk,E891208cw,E8921815u,E892A4798,E89309ba7,E893638zj,E893F3577,E8944C2uf,E894F6cvj,E89505buz,E895267ly,E89606f7s,E8974477z,E8979Aa6l,E897B82q7,E89847ejs,E8986D9nf,E898C2epk,E898EE14o,E8995A9u1,E899C45gr,E89A8Fa5w,E89AFF4qw,E89C25jj,E89D87dd6,E89E0C7oo,E89E132f8,E89E49848,E89EB45rz,E89F398zj,E89F6D4ba,E89F801t5,E89FEC277,E8A0CD8yt,E8A0ED5k5,E8A1F8f94,E8A2456tm,E8A34E5gu,E8A364c4c,E8A4C13iq,E8A55A6tm,E8A6605gu,E8A6CA5ty,E8A72F87m,E8A73014o,E8A788eh3,E8A7F2f64,E8A848e6j,E8A927789,E8AACBba7,E8ABF35gu,E8ABFAbw4,E8AC235gu,E8AC7Ecrp,E8ACADf94,E8ADA6b9l,E8AEC516e,E8B0C56gz,E8B1FC6gz,E8B2653ix,E8B2AC14o,E8B2FE5h8,E8B3EE9v3,E8B3EF4lk,E8B4705zq,E8B4AEbpi,E8B4C8ba7,E8B5279td,E8B541f94,E8B5D03ix,E8B6C26tm,E8B72257s,E8B723bys,E8B7482s3,E8B8534yq,E8BA171sa,E8BA702s3,E8BAE2ekc,E8BB3Dc62,E8BBA84zc,E8BCE42s3,E8BDD15gu,E8BE81b9l,E8BFB86gz,E8BFDB6fn,E8BFE16gz,E8C1B88oz,E8C1D79sb,E8C1E8bzj,E8C2295bg,E8C2DD6d5,E8C3201bg,E8C38614o,E8C3C55ty,E8C4174lk,E8C57Adm2,E8C6E626x,E8C74F7ik,E8C7CFe5t,E8C8296gz,E8C913ba7,E8CA501yo,E8CAC85ub,E8CBA18zj,E8CBED2q2,E8CBF54ed,E8CC18351,E8CC3287b,E8CC8C2od,E8CD15dv4,E8CD2D5gu,E8CE06c70,E8CF833ix,E8D03Cbtm,E8D0994lk,E8D0B9cz2,E8D0FA7uo,E8D0FC7ik,E8D11Bip,E8D2FFb9l,E8D3222s3,E8D3EBezk,E8D483dj7,E8D4E01of,E8D52B56h,E8D5A141o,E8D7655gu,E8D7755gu,E8D8191er,E8D87E10n,E8D8D15gc,E8DA0072z,E8DA208yt,E8DA3E5ty,E8DA96eum,E8DAAAdy1,E8DB844ba,E8DC6C2s3,E8DE002qd,E8DE27cvj,E8DE8E6gq,E8DED66jp,E8DEFB7qv,E8DF24936,E8DF70me,E8DFF29jy,E8E07Ec4v,E8E08F4ya,E8E0B7dd6,E8E1E151n,E8E1E248b,E8E49D8xe,E8E5D6ba7,E8E6092qs,E8E732xd,E8E770e6z,E8E776bu6,E8E7C3f94,E8E875f2c,E8E8B78dt,E8E98Eb1p,E8EA345gu,E8EA4D5gu,E8EA6Ace2,E8EA7Cboy,E8EADA3jk,E8EAFAa4q,E8EB11d7u,E8EB1B86z,E8EB342s3,E8EBD3848,E8EBDD5ad,E8ECA33p0,E8ED052vw,E8EDD64ou,E8EDF32s3,E8EECC4k9,E8EF057th,E8EF22c3t,E8EF8994v,E8F0855gu,E8F0944u3,E8F0A413r,E8F1B0b9l,E8F2267tc,E8F2E279b,E8F2E3ce6,E8F3758zj,E8F4086gz,E8F49410d,E8F60A4ba,E8F6545gu,E8F67387m,E8F6746re,E8F6D75zq,E8F7245on,E8F72F5gu,E8F791ejs,E8F8D08zn,E8F9283xn,E8F9D45gu,E8FA235ty,E8FAF759n,E8FB1C1er,E8FBE914o,E8FC5Falx,E8FC603v2,E8FCAF8hv,E8FD355ty,E8FD72ata,E8FD90dho,E8FDE82l8,E8FDF8bjv,E8FEBE14o,E8FF1E5zq,E8FF985ty,E8FFF414o,EC0133cwn,EC01D52s3,EC01E24i2,EC01EE4zc,EC02735on,EC0441bnv,EC0482b5b,EC086Bcvj,EC08E58cw,EC09C9d7u,EC0BAE5jv,EC0C968zj,EC0D5114o,EC0D9A848,EC0DE410n,EC0EC45rz,EC0ED6686,EC10551s9,EC107Bba7,EC11204nm,EC1127d7u,EC13B28ua,EC13DB6tm,EC14F61ux,EC153D1se,EC172Fcvj,EC1766aiq,EC192E2s3,EC1A025gu,EC1A591t5,EC1AC3dm3,EC1B5F5on,EC1BBDc4v,EC1BCF1z3,EC1BFA3wg,EC1C5Dc37,EC1D535gu,EC1D7Ff94,EC1D8B2s3,EC1D9Ea6l,EC1DA9elp,EC1F72aom,EC2125dd6,EC2150f8g,EC219Fdy0,EC21E5dd6,EC22576rh,EC2280351,EC233D5gu,EC23686h9,EC237Bf94,EC24B8d7u,EC265114o,EC26CAcvj,EC26FBcoq,EC28D314o,EC2A723ix,EC2AF0eoa,EC2BEB10n,EC2C0D14o,EC2C112gs,EC2C498oq,EC2C7314o,EC2CE214o,EC2E4E5ex,EC2E981er,EC2F205i4,EC2F904zc,EC308E7gf,EC30912s3,EC30B3ejs,EC30DDezk,EC3111c2p,EC314A2ol,EC315F10n,EC316D5lf,EC33CC5on,EC34E2ene,EC3532cyo,EC354Dec8,EC358614o,EC363F80h,EC38736tm,EC388F5gu,EC3A525ty,EC3A561er,EC3BAF3wg,EC3BF0919,EC3C5Aatq,EC3C887pc,EC3CBB5ty,EC3DFDau3,EC3E099gu,EC3EB3evs,EC3EF76tm,EC3F056gb,EC4118eh9,EC41CAbxz,EC41F9c0q,EC42695f4,EC42B470,EC42CC14o,EC42F07m,EC438Belj,EC43E6mp,EC43F6evs,EC44762s3,EC462C6d5,EC4644cxm,EC465414o,EC4670841,EC468487m,EC470Cdo6,EC473Cahs,EC4993a4d,EC4C4Dep5,EC4C8C6gz,EC4D3E1sa,EC4D475gu,EC4F822i5,EC50A6b9l,EC50AA5on,EC51BC4zc,EC52DCe64,EC536F5gu,EC53825sy,EC542Ebm6,EC551C5gu,EC554D9zs,EC55F95rz,EC56235gu,EC570D9i,EC5865bzr,EC58EAalx,EC59E787m,EC5A311l4,EC5A86eoj,EC5AA35ty,EC5B716k5,EC5B73s6,EC5BCD5zq,EC5C6827q,EC5C697u9,EC5C848dt,EC5F23a51,EC6073cvj,EC60E0m0,EC62604ba,EC6264556,EC63D76gz,EC63E5ez3,EC63ED5w1,EC64885sy,EC64C94ba,EC64E77v4,EC656Ed8u,EC65CC9nu,EC66526d7,EC66D11f0,EC67945on,EC68819nf,EC6C9A15q,EC6C9F2oo,EC6CB5f94,EC6E796b8,EC6F0B4eq,EC6FF99ui,EC70972vw,EC715E4q4,EC71DBain,EC725Bf94,EC72F73ca,EC7359bq0,EC737914o,EC73F6c2p,EC7427ezk,EC748Ccb9,EC74BA5py,EC74CD5zq,EC74D7576,EC750Ccvk,EC753E5gu,EC75ED2sa,EC79494j0,EC79C0f94,EC79F2cee,EC7C2C5gu,EC7C5C6tm,EC7C746tx,EC7CB6ba7,EC7CBA5on,EC7D11f8g,EC7D9D2ey,EC7E91687,EC7FC63t0,EC800990x,EC815014o,EC81525gu,EC81937jt,EC819C5gu,EC8263f94,EC8306568,EC835087m,EC836Cabk,EC83B79m9,EC83D54wa,EC84391id,EC84B4287,EC852F14o,EC86C4848,EC888Fcvj,EC88928cw,EC89145gu,EC89F57fd,EC8A4816e,EC8A4Cf94,EC8AC410n,EC8AC74lk,EC8C9A5gu,EC8CA2alx,EC8E128zj,EC8E776gz,EC8EAD3ci,EC8EAE8om,EC8EB55om,EC8F721mu,EC90C1ba7,EC9161296,EC9233430,EC93277qb,EC93657zv,EC937Ddv4,EC93ED38e,EC94687qx,EC94CB4ba,EC94D56tm,EC9681h,EC96BF74k,EC97A214o,EC97B2b5y,EC97E05k1,EC986C7l0,EC98C11r1,EC9A0C5zq,EC9A34d7u,EC9A745om,EC9B2D2pi,EC9B5B8zj,EC9B75al4,EC9B8B5on,EC9BF3aom,EC9C32c2p,EC9E68133,EC9ECD17d,EC9EEAekn,EC9F0D5zq,ECA13810n,ECA1CC2s3,ECA1D15gu,ECA29B711,ECA2A0cz2,ECA5DE94d,ECA62F5gu,ECA78D2s3,ECA7AD1mu,ECA7B15zq,ECA81Fdv4,ECA8543u9,ECA86B45j,ECA90714o,ECA9402vw,ECA9715k5,ECA9FA4za,ECAA25ba7,ECAA8F5gu,ECAAA09gg,ECAB3E3ze,ECADB814o,ECADE0351,ECAF974wc,ECAFF95ij,ECB0D23wg,ECB0E12ri,ECB106ql,ECB157b9l,ECB1D75om,ECB1E0464,ECB2935on,ECB313auq,ECB4E8edi,ECB50Aa6l,ECB541ax2,ECB550ba7,ECB5AFafu,ECB5FA9si,ECB8701pl,ECB8785ty,ECB9072t9,ECB931cvk,ECB970am3,ECB9A55ty,ECBA345zq,ECBAFE4wb,ECBB782s3,ECBBAE3n0,ECBD094jd,ECBD1D2s3,ECBE5Fdx9,ECBEDDb9l,ECBFD0d7u,ECC0182s3,ECC01B5gu,ECC06A9xx,ECC07A4ed,ECC1AB5aj,ECC3025h8,ECC342f94,ECC38Aow,ECC3B0f94,ECC40D8yt,ECC57Fcip,ECC5D25ty,ECC8822s3,ECC89C5k5,ECC9FF4ba,ECCB305gu,ECCD4C8vr,ECCD6Dys,ECCE132s3,ECCED714o,ECCF704it,ECD00E89m,ECD0404uj,ECD09Fejs,ECD19Aeuj,ECD50814o,ECD68Abtb,ECD909ca,ECD925a88,ECD95066v,ECD9D1bxs,ECDA3B4ba,ECDA598vr,ECDB86fn,ECDCAA14o,ECDD242s3,ECDE3D7cw,ECDF3Af8g,ECDFC95ki,ECE09Bba7,ECE1541rw,ECE1A92s3,ECE2FDazp,ECE3344ba,ECE512f7l,ECE5555px,ECE61D5ty,ECE660a4t,ECE6A24lk,ECE74499d,ECE78E18e,ECE7A76gz,ECE7C22pi,ECE90Baz6,ECE915b56,ECE9D214o,ECE9F55gu,ECE9F858p,ECEA0336d,ECEBB85on,ECED046gz,ECED738cw,ECEED8eqy,ECEF17chc,ECF00Eny,ECF0FEf94,ECF22Bcpb,ECF2368gy,ECF33C6gz,ECF3424zc,ECF35B8zj,ECF37A4of,ECF40C2s3,ECF45115q,ECF4BB3ix,ECF64Cc4v,ECF6BDb0z,ECF72B5d8,ECF8D05gu,ECF8EBc2w,ECFA034f9,ECFA5C1s9,ECFAAAd8g,ECFABC4ba,ECFAF4bfp,ECFC2Fb9l,ECFC553c,ECFCC65on,ECFE7E1x3,ECFF3A14o,F0007F6qd,F0016Edan,F0022B2qz,F00248c89,F0038C1er,F003BC2s3,F004E114o,F0051Bba7,F00727646,F00786bii,F008D14ba,F008F1ba7,F0090Dcvk,F00C51f94,F00D5C6sl,F00DF563,F00E1D83r,F00EBFesp,F00FEC5gu,F010908vr,F010A5d7u,F010AB2pg,F012045zq,F013C15lc,F013C3auj,F015A0767,F015B99vp,F0161D4ba,F01628d1h,F01653elp,F0182B793,F0189814o,F01AA05on,F01B24f94,F01B6Cf8g,F01C13798,F01C2D6tm,F01D2D2s3,F01DBC87m,F01E34968,F01EACail,F01FAF3ix,F01FC714o,F020FF6gz,F02178dk0,F0219D2hu,F021E0ezk,F0221D5zq,F0224E4b1,F02329axl,F023AEdt,F023B95zq,F0240595l,F02408czr,F0247514o,F024F94ba,F025722s3,F0258E5gu,F025B7aom,F02624e2z,F0264Cc4m,F026F8eep,F0272D10n,F027454eh,F027658dt,F027A014o,F029292s3,F02A2331m,F02A2B5zq,F02A61e6m,F02B188p7,F02B7C4e3,F02C592q1,F02E512ke,F02F4B14o,F02F50bwi,F02F74jj,F02F9E10n,F02FA75gu,F02FBA14o,F02FD81ue,F03012kz,F0321A89w,F033E55gu,F03404co5,F035755ub,F037A15ud,F037CF5ty,F03965ba7,F03A4B1wg,F03A5598v,F03D03cpb,F03D29px,F03E058dt,F03E90alx,F03EBF4xp,F03F039zs,F03F955gu,F03FF8a75,F0407B4lk,F040AF5zq,F040D914o,F040EC7bf,F041C65mv,F041C85zq,F0421C6gz,F042F55ty,F043353eo,F043475gu,F044D3c4v,F045DAd7u,F0463B2ve,F04A022s3,F04A2B9ma,F04A3D1yg,F04B3A6tm,F04B6Abd3,F04B8Adv4,F04BF26p6,F04CD5820,F04DA23ix,F04DD4b9l,F04EA45gc,F04F7C10n,F04FE0e17,F05136co5,F051EA4mu,F054945sb,F055015ty,F0558215h,F0578D6r7,F057A66gz,F058492jt,F05A09ba7,F05B7Bba7,F05C0E5ty,F05C195on,F05C7756h,F05CD514o,F05D893r4,F05DC83qx,F05ECDd7u,F05F5A53g,F06130t7,F061C05on,F061F32ve,F0620Dbr0,F0625Aagu,F062819zu,F063F95gu,F064264e3,F065AEba7,F065C2en5,F065DD9zb,F067284zc,F067B1ba7,F068536gn,F06865cz2,F068E31er,F06BCAba7,F06C5Dejs,F06C738zj,F06D784zc,F06D933wg,F06E0B87m,F06E327sr,F06F46dlk,F06FCEalx,F0704Fba7,F07084q7,F0728Cba7,F072EA56h,F073AE9gd,F074858k2,F0748Dam3,F074BFc4v,F074C11we,F074E4da4,F0761C2bf,F0766F14o,F07765cbw,F077C36gz,F077D0eij,F0780714o,F078162s3,F07959jj,F0796014o,F079E84zc,F07A55f94,F07B65b9l,F07BCB5rz,F07CC76tm,F07D6834z,F07F062s3,F07F0C7fl,F0817310n,F08175b9l,F081AF66z,F08261b9l,F082C0c4v,F0842F6y,F084C9f94,F085C1avt,F0862015q,F0866F3wg,F08756evs,F0877F7yl,F08A286nq,F08A76ba7,F08BFE2eg,F08CFB4lk,F08EDBdvq,F09008bx6,F0921C5om,F092582p7,F092B4c2w,F0933A928,F093C550t,F095F12k4,F0960241o,F097E5cn7,F098385gu,F0989D14o,F0991950u,F099B614o,F099BF14o,F09A51blv,F09BB85gu,F09CBBafb,F09CD759u,F09CE94e3,F09E4A6gz,F09E632s3,F09E9E4ba,F09FC2dlp,F09FFCatl,F0A0B15gu,F0A22510n,F0A35A14o,F0A3B25ub,F0A4EA5ty,F0A654296,F0A731cvk,F0A7644yy,F0A7B24jf,F0A882f6v,F0A9515gu,F0A96813j,F0AA0B16u,F0AB1Ff94,F0AB547ub,F0ABF34lk,F0ABFAbw2,F0ACA45d1,F0ACD75zq,F0AD4E55c,F0AE51ej7,F0AE6630u,F0AF509rx,F0AF852vw,F0B014me,F0B022cu4,F0B0405hc,F0B052alx,F0B0E714o,F0B1074at,F0B11D8zj,F0B13F5ty,F0B163d7u,F0B2B96gz,F0B2E52s3,F0B31Edo6,F0B3EC14o,F0B429ejs,F0B47914o,F0B4D2351,F0B5B73nu,F0B5D1d7u,F0B61E6gz,F0B661ezk,F0B6EB9xc,F0B968687,F0BC50848,F0BCC881m,F0BCC99h7,F0BD2E5bf,F0BDEE5ty,F0BDF1c67,F0BE253ot,F0BF97cb5,F0C1CE56d,F0C1F114o,F0C24Cet4,F0C27C864,F0C37114o,F0C42F5ty,F0C4785gu,F0C558did,F0C71F16e,F0C72514o,F0C745cpb,F0C77Fd7u,F0C814au3,F0C8505gu,F0C88Bega,F0C88C7ei,F0C8B55gu,F0C9D14u3,F0CBA114o,F0CCE0bov,F0CD31ba7,F0CF4D1vj,F0D0185on,F0D08Cco5,F0D14F79w,F0D1A914o,F0D1B878e,F0D2F110n,F0D31F14o,F0D32B6tm,F0D3A72u0,F0D3E7bgn,F0D4156gz,F0D4E23ix,F0D4F67df,F0D4F7f8d,F0D506dlf,F0D5BF6gz,F0D63514o,F0D6573t5,F0D7671do,F0D79314o,F0D7AA8cw,F0D7AF5zq,F0D7DCe9k,F0D7EE5ty,F0D8052s3,F0D9B2415,F0DA7Cabg,F0DB2A77e,F0DB30dwc,F0DBE214o,F0DBF814o,F0DCE214o,F0DE71bjh,F0DEB9bit,F0DEF1edg,F0E3DCd2h,F0E4A25gu,F0E5C33qm,F0E752bsy,F0E77Eba7,F0EAE18ph,F0EBD0bjm,F0EC394bc,F0EC80esg,F0ED19f94,F0ED1E1uo,F0ED51a4x,F0EDB8asm,F0EE10ba7,F0EE589eo,F0EE7A14o,F0EEBBdrk,F0EF8656h,F0EFD2cs5,F0F0025rz,F0F0699zs,F0F08F8xc,F0F0A410n,F0F2495qz,F0F2608b3,F0F336cvj,F0F564ba7,F0F56D75c,F0F5AEr4,F0F5BD4ba,F0F61C14o,F0F644eae,F0F6698cn,F0F69C8kw,F0F6C1caz,F0F7552s3,F0F7B39t0,F0F7E75gu,F0F7FC5gu,F0F83256h,F0F8426vo,F0F84A1l4,F0F8F2d7u,F0F95Drr,F0F9F75zv,F0FABA8o2,F0FAC75ty,F0FB7F848,F0FC65cjz,F0FCC82vw,F0FD45c4v,F0FDA0qk,F0FDDD4pg,F0FE6Bbjv,F0FEE75ty,F40046944,F400A2ba7,F401CCc4v,F402239fo,F40228aom,F402703ix,F4030456h,F403211ng,F4032A10n,F4032Fahr,F403435on,F403938pg,F4044Cdtz,F40595b9l,F4061614o,F4063Cd7u,F406696gz,F4068Dey3,F406A35ty,F406A55jt,F40855a4q,F409D8aom,F40A2Ebx6,F40A4A61n,F40B931w6,F40B9F287,F40E0114o,F40E115zq,F40E22ba7,F40E832vw,F40F1B2s3,F40F2414o,F40F9Be3d,F412DAf94,F412FA4ba,F41399tq,F414BF79b,F415329h6,F41535b3r,F415634ek,F415FDbl5,F416E7c7b,F417B8vk,F419E2e1w,F41A795zq,F41A9Cejs,F41AB0bzp,F41AF7f94,F41BA114o,F41C2610d,F41C71avv,F41C951h1,F41D6B5gu,F41E26c5j,F41E5788b,F41E5Ealu,F41F0Bela,F41F88f94,F41FC22s3,F4201232y,F420155aj,F4204D848,F420555zq,F421AEbm7,F421CA14o,F4227A59j,F4239Casj,F42462bf8,F4248B5gu,F4253Cezk,F425FE5gu,F426796gz,F4275636j,F428337uw,F42853eux,F42896b38,F4289D296,F42981f8g,F42A7Dcvj,F42B48dlm,F42B7D2q3,F42B8Cba7,F42C56as2,F42D06f94,F42DC94ba,F42E48f94,F42E7F5on,F42F9746t,F4308Bejs,F430B95om,F431499v0,F431C314o,F4323Dc30,F4331Cdbu,F43328288,F433922s3,F433B714o,F434F014o,F436E1ns,F437B714o,F43814bjx,F438C15ty,F439095om,F439A614o,F43A7Bf94,F43AFA5zq,F43BD86gz,F43C3B5hc,F43C964at,F43D804er,F43E61auq,F43E661o0,F43E9D1tl,F44156170,F4419E5ty,F44227amg,F442501yo,F4428Fba7,F4442Cbxm,F444501jb,F445885gu,F445ED9x1,F4462Af4n,F446376gz,F447137e8,F4472A8pi,F4484811y,F449557te,F449EF3x1,F44B2A2s2,F44C70c7d,F44C7F5gu,F44D174xt,F44D3045j,F44D5Cevs,F44DAD2hd,F44E052s3,F44E35856,F44E3898o,F44EB4296,F44EE36gz,F44EFDq6,F44FD3f6n,F450EBd3c,F45214848,F45246ip,F4525B13l,F4529314o,F453E45gu,F45420cqx,F454244e3,F45433al1,F455955dm,F4559C5gu,F455E08xq,F4573E4lk,F458421yw,F45B295gu,F45B73e6v,F45BB42s3,F45C425ty,F45C8914o,F45EABd7u,F45F6981a,F45FD42s2,F45FF73dc,F4600D9om,F46077d7u,F460E2ejs,F462D090o,F462DC5ty,F4631F5gu,F463493kt,F4635A8o9,F463E78pa,F463FCf8g,F46412cb9,F4645Ddd6,F464B6bhm,F4650B4ba,F465A614o,F466394u3,F4672Dbo0,F468025gu,F46942ip,F469D55zq,F46A92aui,F46ABCrv,F46AD787m,F46ADD7ik,F46B8C5s0,F46BEFb9l,F46C68e5t,F46D04jj,F46D2Fcvj,F46D3F6gz,F46DE2f94,F46E248gj,F46E954e3,F46ED63wg,F46F4E42j,F46FA49tf,F46FED4lk,F4700C5zq,F470185k1,F470ABf8g,F47190ba7,F472576sc,F473357jw,F473CA2z7,F474702s3,F474888vr,F47626dyu,F478AC14o,F479465gu,F479605gu,F47A4Eee8,F47ACCca1,F47B096gz,F47B5Eba7,F47DEFba7,F47F352s3,F4813923n,F481C414o,F4832C936,F483CDcvj,F483E1bja,F4844Cd7u,F4848Dcvj,F485AEbfv,F485C64ff,F487716dc,F487C55ty,F489185gu,F489742s3,F48B32ejs,F48C506gz,F48CEB351,F48E098zj,F48E383ix,F48E925gu,F490CAd69,F490CB5zq,F490EA3ih,F4911Eeq0,F492BFdlp,F4931Cdo6,F4939F5s0,F494618wo,F49466312,F4951B5n3,F496346gz,F496518ew,F4979D5zq,F497C28rj,F499ACe3o,F49A7C5kw,F49AB15on,F49C12cg1,F49D8A4k9,F49DA79zs,F49EA44a8,F49ECEbfr,F49EEFcz2,F49F54ba7,F49FF35gu,F4A1575ty,F4A17F80k,F4A1A614o,F4A2943sq,F4A31014o,F4A3C2c0q,F4A4545zq,F4A4756gz,F4A4D65gu,F4A52A5mj,F4A59D5ty,F4A7396tm,F4A80Dedf,F4A99723n,F4AAD0936,F4AB5Ca6l,F4ACC12s3,F4AFE714o,F4B0FFbj3,F4B1647gx,F4B19C10d,F4B1C2et2,F4B24E5ty,F4B3016gz,F4B381ec2,F4B3B1c4v,F4B49Eezk,F4B5201v8,F4B52F6tm,F4B549ejo,F4B59914o,F4B5AAf94,F4B5BB26f,F4B62D3oy,F4B6889ig,F4B6C66by,F4B6E5d7b,F4B72Actb,F4B78D5gu,F4B7B3f8g,F4B7E25rz,F4B8212s3,F4B85Ed7u,F4B898d7u,F4B8A7f94,F4BBC7f8g,F4BC97bq9,F4BCDAbtm,F4BD7C2ou,F4BD9E2s3,F4BDAEbyp,F4BDB9dln,F4BEEC14o,F4BF805gu,F4BFA86tm,F4BFBB2pi,F4C02F1wy,F4C114dv4,F4C248ba7,F4C4472tv,F4C4D6bzn,F4C613xf,F4C6D7eww,F4C7145gu,F4C795e47,F4C7AA80t,F4C7C870x,F4C88A6gz,F4CA244px,F4CAE54i9,F4CAE715q,F4CB525gu,F4CBE714o,F4CC556tm,F4CD90e03,F4CE236gz,F4CE36902,F4CE465om,F4CE484e3,F4CFA24ba,F4CFE22s3,F4D032eon,F4D0A7etl,F4D1086gz,F4D261as1,F4D454bx6,F4D48814o,F4D580elb,F4D58A9nf,F4D6204zc,F4D7B279e,F4D7E4agu,F4D9C6djz,F4D9FBba7,F4DBE314o,F4DBE62s3,F4DC41emk,F4DC4D1om,F4DCA537w,F4DCDAeui,F4DCF95gu,F4DD06ba7,F4DD9E55x,F4DE0C3z7,F4DEAF5gu,F4E11Ed7u,F4E1423j5,F4E1FC5on,F4E2042es,F4E25D10d,F4E2C6dlp,F4E3FB5gu,F4E4515gu,F4E4ADf94,F4E4D74it,F4E5787am,F4E5F25gu,F4E6D7c9l,F4E84Ff94,F4E8C714o,F4E926dam,F4E9758vr,F4E9D4a32,F4EA672s3,F4EAB54e3,F4EB38b9l,F4EB9F45p,F4EC38cvj,F4ED37a4z,F4ED5Fava,F4EE083ix,F4EE147qi,F4EE312s3,F4EF9Eat4,F4F15A14o,F4F1973x2,F4F19Eedh,F4F1E18cw,F4F26Dcvj,F4F28A5gu,F4F309ba7,F4F3AA6n0,F4F50Bcvk,F4F5248cw,F4F5A58zj,F4F5D856h,F4F5DBejs,F4F5E856h,F4F6463ip,F4F647f94,F4F70C1ch,F4F91E62h,F4F95114o,F4FBB85gu,F4FBF53wg,F4FC32d7u,F4FC49f94,F4FCB16nw,F4FD2Beqn,F4FE3E14o,F4FEFBba7,F8009D64q,F800A15gu,F801135gu,F801B4797,F802785zq,F8033271q,F8037714o,F8042Eaom,F8051C3dj,F805843wg,F8075D5ty,F8084Fb9l,F809A45o6,F80BBE2vw,F80BCB2s3,F80BD03hj,F80C58cz2,F80C9A4zc,F80CF3798,F80D435rz,F80D4B8xh,F80D6023n,F80DA9evs,F80DAC5gc,F80DEAevj,F80DF0f94,F80DF1cb3,F80F41edg,F80F6F2s3,F80F848qu,F80FF956h,F810373xs,F8109314o,F810A0ekr,F813088zj,F814DD2s3,F814FEdjz,F815471cm,F815E0c3h,F8160Cc0q,F816546gz,F8172Ddhv,F81897r,F81A2B56h,F81A67cvj,F81B04eu3,F81B2E4sz,F81CE5d3u,F81D0F5qz,F81D785zq,F81D90ca5,F81D937k8,F81E4914o,F81E6F3sw,F81EDF14o,F81F328cw,F8205557j,F82097rr,F820A95ty,F820D2dv4,F821115f4,F822298zn,F8228534o,F82387bsw,F823B25gu,F82441eng,F824DB49l,F824E41ub,F82551bf2,F8272E84h,F8279314o,F828197ik,F828C95gu,F829803p3,F829C01cd,F82A534u3,F82AE214o,F82B7F5ty,F82BC86s0,F82BE65zq,F82C18r,F82D7C14o,F82DC02vw,F82E0Cd7u,F82E3F5gu,F82E8E8p9,F82EDBad7,F82F088bp,F82F5Beyz,F82F655ty,F82F6A687,F82FA85rz,F83002d7u,F83094xg,F83125ejq,F8313Eezw,F832BAe2h,F832E4jj,F83331d7u,F8337656a,F834416gz,F834512vd,F8345A5qz,F834E5f8g,F835537y6,F835DD51n,F8369Bd7u,F83869797,F8388014o,F8388D8vr,F839182s3,F83B1Ddv4,F83B7E5ty,F83C44aw9,F83C807ub,F83CBF1jw,F83D4Ec9c,F83DC61er,F83DFF5gu,F83E955gu,F83EB015q,F83F51ba7,F84068b8q,F8428814o,F842FBenf,F843EFejs,F84477c4v,F844E3cz2,F845AD749,F845C4bve,F8461Ccb9,F8462Db7x,F8472Degi,F847E3bx6,F848975q7,F848FD2pi,F84A73402,F84A7F6ew,F84ABF5gu,F84CDA5gu,F84D334lk,F84D8914o,F84D8Bezh,F84DFC5k5,F84E17cb5,F84E58ba7,F84E7314o,F84F572s3,F84FAD5ub,F8501Cdag,F85063dwa,F85128c5q,F8516D3jm,F852DFdse,F853295gu,F85333d0l,F854AF3t6,F854B810n,F854F61er,F85548d7u,F8554Bed2,F855CDe06,F856C3f94,F8572E2zn,F859716gz,F85A00baw,F85B1B4ba,F85B3Bip,F85B6Eba7,F85B9Bf1s,F85B9Capm,F85BC97mn,F85C24caz,F85C455xp,F85C4D8zj,F85C7Dbsu,F85C7Ebsu,F85E0Bagu,F85E3Cawq,F85E42dv4,F85EA06gz,F85F2A8zj,F860F05on,F8621414o,F8622Aezk,F862AAf8z,F8633F6gz,F86347c2p,F863D92vw,F8646513d,F864B8f94,F86601cie,F8665A14o,F86691c2w,F866D15rz,F866F22s3,F868FF2s3,F86971bf0,F86B141mu,F86BD92s3,F86BFA6d5,F86C03by2,F86CE1cz2,F86D73ery,F86DCCe5t,F86ECF15x,F86EEE5gu,F86FB0cvj,F86FC114o,F86FDEbs1,F8710Cejs,F871A614o,F871FEd8f,F872EA2s3,F8731Af94,F873948hv,F873A21cm,F873DF14o,F875285zq,F875885gu,F875A477z,F8769B8s1,F877B8ba7,F879075ty,F8790A2vw,F87928f94,F8799959c,F87A395zq,F87A412s3,F87AEFalj,F87B202s3,F87B624f5,F87B7A2vw,F87B8C11k,F87BE04rx,F87D3F5ty,F87D7614o,F87FA54yd,F88096463,F8811A977,F882002jj,F883061sa,F88475f15,F88479enc,F884F2ba7,F885F92i5,F887F114o,F8893C6k2,F889D2296,F88A3C5zq,F88A5Ed7u,F88B372vw,F88C1C6uh,F88C21cvj,F88DEFd63,F88E852x8,F88EA143b,F88F07ba7,F88FC82q0,F88FCA56h,F890668on,F8912A4x2,F8916Fd7u,F891738w,F891F53n7,F893F3dso,F894971l4,F894C26gz,F895225gu,F89550a1d,F895C7798,F895EA14o,F896FE79b,F8972594x,F897535ty,F897A94at,F897B0562,F897CF35i,F8983A7ek,F898B95gu,F898EF5gu,F899106gq,F899554ov,F89A255gu,F89A785gu,F89B6E8zq,F89D0D2yv,F89D9Dbv2,F89DBBdbf,F89E282s1,F89E946gz,F89FB8elm,F8A03D3n8,F8A0972vw,F8A18878c,F8A26D23n,F8A2B4aap,F8A2D67ik,F8A34Ff94,F8A45Fejs,F8A4759lp,F8A4FB8p4,F8A5C52s3,F8A5E67ye,F8A73A2s3,F8A763etj,F8A91Fer1,F8A9632bf,F8A9D0798,F8A9DE9m4,F8AA3F3eu,F8AA8A1e9,F8AAB339i,F8AB05b9l,F8AB82ejs,F8ABE5f6w,F8AC656gz,F8AC6D3je,F8ACC16en,F8AD24agu,F8ADCB5f4,F8AE276sx,F8AF055ty,F8AFDB4lk,F8B1325gu,F8B1563ix,F8B1DD14o,F8B22Cal4,F8B2F34zi,F8B3B74ba,F8B46A5om,F8B54D6gz,F8B5685zq,F8B59959v,F8B7978gl,F8B7E22s3,F8B8B4bx6,F8B95A79b,F8BA985gt,F8BAE68zj,F8BBBFezk,F8BC0Eezk,F8BC123ix,F8BC41alm,F8BE0D3o,F8BF095gu,F8C0016tm,F8C0915pa,F8C1166tm,F8C120ej2,F8C249dv,F8C2882s3,F8C362c4v,F8C372cxh,F8C3978of,F8C39E5gu,F8C3CC14o,F8C3F1ag7,F8C4AE4zc,F8C4F3bk3,F8C4FA4zc,F8C6502s3,F8C6782jv,F8C903cvj,F8C96C4lk,F8C9D65zq,F8CA598t0,F8CA858gc,F8CAB83ix,F8CB1514o,F8CC6E39a,F8CDC8c2w,F8CE07eps,F8CE21cvj,F8CE72edb,F8CF526gz,F8CFC58cw,F8D00Edv4,F8D027bf2,F8D0ACcb9,F8D0BDba7,F8D0C5be4,F8D111cvj,F8D2ACdv4,F8D3A9mv,F8D3F014o,F8D462a28,F8D4784nk,F8D5544u3,F8D756c5g,F8D758dwb,F8D7BFaa1,F8D811a6l,F8D9B89aj,F8DA0C5rz,F8DADF42q,F8DAE28g7,F8DAF4cz6,F8DB4C9j2,F8DB7F5gr,F8DB883ix,F8DC7Advb,F8DE735gu,F8DF15ch4,F8DFA8f94,F8DFE18ea,F8E0004ip,F8E0798cw,F8E25214o,F8E35Fc2w,F8E43Bio,F8E44E7pe,F8E4A44lk,F8E4E36gz,F8E4FBq7,F8E57E2s3,F8E5CE14o,F8E5CF26r,F8E61Aba7,F8E71Ealx,F8E73Cdm2,F8E7A0f8g,F8E7B5f95,F8E8115gu,F8E8775m5,F8E903351,F8E94E14o,F8E94F2s3,F8E96843o,F8EA0A3nc,F8ECFE9e0,F8EDA52vw,F8EDAE7v3,F8EDFC5gc,F8EF5D8cw,F8EFB15l7,F8F0058wd,F8F014adk,F8F0828ev,F8F09D5kk,F8F0C5cil,F8F1B68cw,F8F1E6ba7,F8F21E6gz,F8F25A4sp,F8F295139,F8F2F02q1,F8F3D3bs4,F8F464afs,F8F519am5,F8F5322vw,F8F58C14o,F8F6B7au3,F8F7B95gu,F8F7D24ac,F8F7D36ip,F8F7FFb7o,F8FB2Fbbe,F8FB90d7u,F8FCE110n,F8FE5Cah2,F8FE5E6gz,F8FEA8d1g,F8FF0B44u,F8FF5Fbq2,F8FFC214o,FC0012dd8,FC012C4ba,FC017C5rz,FC019Edra,FC01CD4j9,FC0296ejs,FC039Fba7,FC041C4zc,FC064730l,FC068Cavi,FC06ED7mw,FC07365ty,FC07A07bj,FC084A4j0,FC08779z3,FC09D86d,FC09F64zg,FC0A814e3,FC0C45bxm,FC0F4Bd7u,FC0F7610n,FC0FE6cb9,FC0FE786z,FC101A9nf,FC10BD2ys,FC10C6cz2,FC1119c4v,FC11652ig,FC11867jj,FC11935gu,FC122C5gu,FC1263ip,FC134954r,FC13F01yo,FC1499uu,FC15B45om,FC1607cz1,FC17946i1,FC18035gu,FC183C14o,FC186B3pg,FC1910ba7,FC1928q5,FC1999ejs,FC19D02t8,FC1A11f8g,FC1A46ba7,FC1BD15gu,FC1BFFdpe,FC1CA18zj,FC1D2Af8g,FC1D3A5gu,FC1D4314o,FC1D595wc,FC1D841bp,FC1E1665s,FC1F19aol,FC1FC0404,FC21202s3,FC221Cbzv,FC229C5j0,FC22D34fe,FC22F4evs,FC23254a0,FC23CDau3,FC24225k1,FC253F14o,FC26405ty,FC268Cc4i,FC27A2cvz,FC29E36d5,FC29F382d,FC2A46agu,FC2A542xw,FC2A9C14o,FC2BB2q7,FC2CFDeya,FC2D5Ef94,FC2E192pi,FC2E2D7kn,FC2F402id,FC2F6B4cy,FC2FAA8zj,FC2FEFdla,FC315D14o,FC328825r,FC33426tm,FC33576uf,FC335F9wt,FC3497jj,FC34E2bzz,FC35984ks,FC35E6e06,FC372Bc2w,FC376Dau3,FC386Abx6,FC38764oy,FC38826d5,FC38C42pa,FC395Acaq,FC3964687,FC3CD7dhv,FC3CE9dh9,FC3D73ezk,FC3D937bb,FC3D985i,FC3DA515q,FC3F7C5gu,FC3FA6ezk,FC3FAB5o4,FC3FDB5om,FC3FFCddz,FC4009f94,FC411656h,FC4203ba7,FC4265etj,FC4345ejs,FC4463do1,FC44826gz,FC4499ciz,FC449Ff94,FC455F6ns,FC45962bf,FC45C3d7u,FC478Daw7,FC47D814o,FC48C9ens,FC48EF5gu,FC492D10n,FC4A478zj,FC4AE92ko,FC4B1C64m,FC4B579ql,FC4BBCchc,FC4CEA3ix,FC4CEF5ty,FC4D6Ac4v,FC4D8Cavo,FC4DA65gu,FC4DD4do8,FC4E6D5gu,FC4EA414o,FC500Cc6j,FC5090ayp,FC50D65ty,FC51A42vw,FC51B55gu,FC528Ddv4,FC52CE2yw,FC539Ebm2,FC555714o,FC55DC1m8,FC57035q4,FC570820l,FC584Af8y,FC589A2s3,FC58DF6j2,FC58FAbmy,FC597Aeri,FC599Fam3,FC59C016e,FC5A1D5qz,FC5ADC70m,FC5B24e8q,FC5B26889,FC5B392s3,FC5B8Cejs,FC5C45alx,FC5CEE77z,FC5F49et2,FC6018etb,FC609B8vr,FC61795zq,FC61988gk,FC61E94lk,FC626E1qf,FC626F4ox,FC62B9ca,FC643Aba7,FC64BAejs,FC65B35ty,FC65DE10n,FC6637b9l,FC66CF14o,FC671Fdhv,FC683E3nf,FC6947d7u,FC698Ceg,FC6A1C848,FC6BF0cuw,FC6C317ce,FC6D776gz,FC6DC01j6,FC6DD1g8,FC6E83ba7,FC6FB72vw,FC702Ec2p,FC71FAdeg,FC72882s3,FC73FB5gu,FC7516351,FC75E65jf,FC7692bfl,FC77746gz,FC777B5qz,FC790B5qf,FC79DD5ty,FC7A58bx6,FC7C029s6,FC7CE74fa,FC7D6C5hs,FC7F562tr,FC7FF15on,FC8329dfa,FC83991cm,FC83C68eh,FC84175sy,FC84A78dt,FC85961e6,FC862A5ty,FC87435gu,FC882714o,FC8A3Df94,FC8AF7f94,FC8B1F4zp,FC8B97auq,FC8C1187m,FC8D134it,FC8D3D7ed,FC8E5B2pk,FC8E6Ecft,FC8E7E2vw,FC8F7Dauq,FC8F90ba7,FC8FA48oc,FC8FC46hn,FC90FA6bp,FC9114dv4,FC915D56h,FC9189c2w,FC923B8zj,FC9257aie,FC931D5gu,FC934Ea9c,FC936Bba7,FC942E2s1,FC94355gu,FC946Cdio,FC94CEf94,FC94E3dv4,FC956A92t,FC963E3wg,FC96436tm,FC97A8324,FC9816ca,FC99472s3,FC9AFA8d0,FC9BC6cgf,FC9BD4437,FC9C9816k,FC9CA714o,FC9D0586p,FC9DD214o,FC9DD81rq,FC9E536gz,FC9F2Aevs,FC9FAE4lx,FC9FE12dm,FC9FFD5k5,FCA05A9cl,FCA0F35gu,FCA13Eba7,FCA18310n,FCA22A9lu,FCA27E5gu,FCA2DF5zq,FCA386au8,FCA47A5zq,FCA5C814o,FCA5D04zc,FCA621ba7,FCA64Cy4,FCA66710n,FCA6CD4lk,FCA8411cm,FCA84Abh4,FCA89Ach4,FCA89Bd7u,FCA8E0csi,FCA9B07ri,FCA9DCaie,FCA9F5ejs,FCAA144w0,FCAA8114o,FCAAB6ba7,FCAB905gu,FCABD0f8g,FCABF5f94,FCAD0Fa3f,FCAE2Bdbp,FCAE342vw,FCAF6Aa6y,FCAFACc91,FCAFBEdbk,FCB0C4bjd,FCB0DE296,FCB10Dby6,FCB21414o,FCB2D6287,FCB3877ee,FCB3AA6gz,FCB3BC6gz,FCB4674ba,FCB4E6ip,FCB57730j,FCB585bz4,FCB58Ae6y,FCB6625xn,FCB6982il,FCB69Det2,FCB6D814o,FCB7F069k,FCB94882e,FCB97E4ua,FCB9DF8cw,FCBBA1bv3,FCBC0Eet1,FCBC9Cdyv,FCBCD15gu,FCBD6716e,FCBE7Bf8g,FCC0CCeom,FCC233jj,FCC23D1a6,FCC2DE8dt,FCC2E55fg,FCC734ba7,FCC737bia,FCC897f94,FCCA107ql,FCCA40cb9,FCCAC47gk,FCCCE4182,FCCD2F5zq,FCCF435h2,FCCF625xb,FCCF9F3wg,FCD202agu,FCD290azx,FCD2B65zq,FCD4368cw,FCD4F2d8c,FCD4F6853,FCD586bxm,FCD5D9bwf,FCD6BDake,FCD733cvj,FCD74910n,FCD8171pk,FCD84814o,FCD908ejs,FCD96Bagu,FCDB21aoi,FCDB963xi,FCDBB38dt,FCDC4A4sx,FCDD55bz7,FCDE90ba7,FCDEC5d7u,FCDF004u3,FCE14F1kc,FCE1863p,FCE192c2t,FCE1A65gu,FCE1D9cdl,FCE1FB16v,FCE23F28x,FCE26C14o,FCE33C5gu,FCE33D296,FCE421f92,FCE4985zq,FCE5578zj,FCE5F0ba7,FCE66A6c9,FCE6C62pi,FCE80643e,FCE8925ke,FCE8C04ba,FCE99814o,FCE9D810n,FCEA506gq,FCEB7B5gu,FCECDAdlp,FCEDB916x,FCEEE64hp,FCEFD75gu,FCF136ba7,FCF152cb5,FCF1CD952,FCF29F2pk,FCF528evs,FCF5C44ba,FCF6474lk,FCF7385gu,FCF76375l,FCF77B5ty,FCF8615m5,FCF8AE6gz,FCF8B7cwx,FCFA21f94,FCFAF7bj3,FCFBFB2s3,FCFC4814o,FCFD7110d,FCFE775qs,FCFEC26k0,FCFFAA5zq"
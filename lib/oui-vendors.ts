@@ -0,0 +1,51 @@
+/**
+ * OUI Vendor Lookup
+ *
+ * Offline lookup of the hardware vendor behind a MAC address. The first three
+ * bytes of a MAC are the OUI the IEEE assigned to its manufacturer; the whole
+ * MA-L registry is bundled in lib/oui-registry.ts (regenerate it with
+ * `npm run oui:update`), so no registry download or internet access is needed
+ * at runtime.
+ *
+ * Locally administered MACs (second-lowest bit of the first byte set) are not
+ * assigned by the IEEE - phones and laptops use them as randomized "private"
+ * addresses, so they are reported as such instead of unknown.
+ */
+
+import { OUI_ASSIGNMENTS, OUI_VENDORS } from '@/lib/oui-registry'
+
+export const PRIVATE_MAC_VENDOR = 'Private (randomized MAC)'
+
+let ouiIndex: Map<string, string> | null = null
+
+// Built once per process from the packed registry
+function getOuiIndex(): Map<string, string> {
+  if (!ouiIndex) {
+    ouiIndex = new Map()
+    const entries = OUI_ASSIGNMENTS.split(',')
+    for (let i = 0; i < entries.length; i++) {
+      ouiIndex.set(entries[i].slice(0, 6), OUI_VENDORS[parseInt(entries[i].slice(6), 36)])
+    }
+  }
+  return ouiIndex
+}
+
+/**
+ * Vendor of a MAC address in any common notation (colons, dashes, dots or none)
+ *
+ * @returns Vendor name, PRIVATE_MAC_VENDOR for randomized MACs, or null when unknown
+ */
+export function lookupOuiVendor(mac: string | null | undefined): string | null {
+  const hex = (mac ?? '').replace(/[^0-9a-fA-F]/g, '').toUpperCase()
+  if (hex.length < 6) {
+    return null
+  }
+
+  const vendor = getOuiIndex().get(hex.slice(0, 6))
+  if (vendor) {
+    return vendor
+  }
+
+  // 0x02 bit of the first byte - not an IEEE assignment
+  return (parseInt(hex.slice(0, 2), 16) & 0x02) !== 0 ? PRIVATE_MAC_VENDOR : null
+}
@@ -0,0 +1,154 @@
+/**
+ * Poll Scheduler
+ *
+ * Runs the poll loop on a self-rescheduling timer instead of a fixed setInterval:
+ * - the next cycle is only scheduled once the current one has finished, so a slow
+ *   poll never overlaps the next one
+ * - the polling interval is re-read from the database every few seconds and the
+ *   pending cycle is moved when it changes, so config edits apply without a restart
+ */
+
+// How often to check SystemConfig for a changed polling interval
+export const CONFIG_CHECK_INTERVAL_MS = 5000
+
+export const DEFAULT_POLLING_INTERVAL_SECONDS = 30
+
+export interface PollSchedulerOptions {
+  poll: () => Promise<void>
+  loadIntervalSeconds: () => Promise<number | null | undefined>
+  configCheckMs?: number
+}
+
+export interface PollScheduler {
+  start: () => Promise<void>
+  stop: () => void
+  refreshInterval: () => Promise<void>
+  getIntervalSeconds: () => number
+  isPolling: () => boolean
+}
+
+/**
+ * Create a scheduler for the poll loop
+ *
+ * @param options - Poll function and polling interval loader
+ */
+export function createPollScheduler(options: PollSchedulerOptions): PollScheduler {
+  const configCheckMs = options.configCheckMs ?? CONFIG_CHECK_INTERVAL_MS
+
+  let intervalSeconds = DEFAULT_POLLING_INTERVAL_SECONDS
+  let pollTimer: ReturnType<typeof setTimeout> | null = null
+  let configTimer: ReturnType<typeof setInterval> | null = null
+  let polling = false
+  let stopped = true
+  let lastStartedAt = 0
+
+  /**
+   * Schedule the next cycle relative to the start of the previous one
+   */
+  function scheduleNext(): void {
+    if (pollTimer) {
+      clearTimeout(pollTimer)
+      pollTimer = null
+    }
+
+    // A running cycle schedules its successor when it finishes
+    if (stopped || polling) {
+      return
+    }
+
+    const delay = Math.max(0, lastStartedAt + intervalSeconds * 1000 - Date.now())
+    pollTimer = setTimeout(runCycle, delay)
+  }
+
+  async function runCycle(): Promise<void> {
+    pollTimer = null
+
+    if (stopped || polling) {
+      return
+    }
+
+    polling = true
+    lastStartedAt = Date.now()
+
+    try {
+      await options.poll()
+    } catch (error) {
+      // Poll errors are handled inside poll() - this only guards the loop itself
+      console.error('Poll cycle failed:', error)
+    } finally {
+      polling = false
+    }
+
+    const elapsedSeconds = (Date.now() - lastStartedAt) / 1000
+    if (elapsedSeconds > intervalSeconds) {
+      console.log(`Poll took ${elapsedSeconds.toFixed(1)}s, longer than the ${intervalSeconds}s interval - starting next poll now`)
+    }
+
+    await refreshInterval()
+    scheduleNext()
+  }
+
+  /**
+   * Re-read the polling interval and move the pending cycle if it changed
+   */
+  async function refreshInterval(): Promise<void> {
+    let loaded: number | null | undefined
+
+    try {
+      loaded = await options.loadIntervalSeconds()
+    } catch (error) {
+      // Keep the current interval until the database is reachable again
+      console.error('Failed to load polling interval:', error)
+      return
+    }
+
+    const next = loaded && loaded > 0 ? loaded : DEFAULT_POLLING_INTERVAL_SECONDS
+
+    if (next === intervalSeconds) {
+      return
+    }
+
+    console.log(`Polling interval changed from ${intervalSeconds} to ${next} seconds`)
+    intervalSeconds = next
+    scheduleNext()
+  }
+
+  async function start(): Promise<void> {
+    if (!stopped) {
+      return
+    }
+
+    await refreshInterval()
+    stopped = false
+    console.log(`Setting up polling interval: ${intervalSeconds} seconds`)
+
+    configTimer = setInterval(() => {
+      refreshInterval()
+    }, configCheckMs)
+
+    // Initial poll runs immediately
+    await runCycle()
+  }
+
+  function stop(): void {
+    stopped = true
+
+    if (pollTimer) {
+      clearTimeout(pollTimer)
+      pollTimer = null
+    }
+
+    if (configTimer) {
+      clearInterval(configTimer)
+      configTimer = null
+    }
+  }
+
+  return {
+    start,
+    stop,
+    refreshInterval,
+    getIntervalSeconds: () => intervalSeconds,
+    isPolling: () => polling
+  }
+}
@@ -0,0 +1,155 @@
+/**
+ * RouterOS Connection Provider
+ *
+ * Single place that resolves MikroTik credentials and opens RouterOS API connections.
+ * Credentials come from the database (Router table, migrated from SystemConfig);
+ * MIKROTIK_HOST / MIKROTIK_USER / MIKROTIK_PASSWORD / MIKROTIK_PORT optionally
+ * override the default connection.
+ */
+
+import { RouterOSAPI } from 'node-routeros'
+import { prisma } from '@/lib/prisma'
+import { isDefaultRouter, migrateLegacyRouterConfig, RouterRecord } from '@/lib/routers'
+import { decryptSecret } from '@/lib/credential-encryption'
+import { runOnRouterOSSession } from '@/lib/routeros-pool'
+
+export interface RouterOSConnectionConfig {
+  host: string
+  user: string
+  password: string
+  port: number
+  routerId: string | null
+  routerName: string
+}
+
+// Seconds before a connection attempt or command is abandoned
+export const ROUTEROS_TIMEOUT = 10
+
+/**
+ * Read credential overrides from the environment
+ * Each variable is optional - only the ones that are set replace the stored values
+ */
+function getEnvOverride(): Partial<RouterOSConnectionConfig> {
+  const override: Partial<RouterOSConnectionConfig> = {}
+
+  if (process.env.MIKROTIK_HOST) override.host = process.env.MIKROTIK_HOST
+  if (process.env.MIKROTIK_USER) override.user = process.env.MIKROTIK_USER
+  if (process.env.MIKROTIK_PASSWORD) override.password = process.env.MIKROTIK_PASSWORD
+  if (process.env.MIKROTIK_PORT) {
+    const port = parseInt(process.env.MIKROTIK_PORT)
+    if (port > 0 && port <= 65535) override.port = port
+  }
+
+  return override
+}
+
+/**
+ * Build connection config from a Router row
+ *
+ * @param router - Router record from the database
+ * @param isDefault - Apply environment overrides (default connection only)
+ */
+export function routerToConnectionConfig(
+  router: RouterRecord,
+  isDefault: boolean = false
+): RouterOSConnectionConfig {
+  const config: RouterOSConnectionConfig = {
+    host: router.host,
+    user: router.username,
+    password: decryptSecret(router.password),
+    port: router.port || 8728,
+    routerId: router.id,
+    routerName: router.name
+  }
+
+  return isDefault ? { ...config, ...getEnvOverride() } : config
+}
+
+/**
+ * Resolve connection config for a router
+ *
+ * - With a routerId: that router's credentials (env overrides apply only when it is the sole enabled router)
+ * - Without: the single configured router, or environment credentials alone
+ *
+ * @throws Error when the router is missing/disabled or nothing is configured
+ */
+export async function resolveRouterOSConfig(routerId?: string | null): Promise<RouterOSConnectionConfig> {
+  // Pick up legacy SystemConfig credentials if no router exists yet
+  await migrateLegacyRouterConfig()
+
+  if (routerId) {
+    const router = await prisma.router.findUnique({
+      where: { id: routerId }
+    })
+
+    if (!router) {
+      throw new Error('Router not found')
+    }
+
+    if (!router.enabled) {
+      throw new Error(`Router "${router.name}" is disabled`)
+    }
+
+    const enabledRouters = await prisma.router.findMany({
+      where: { enabled: true },
+      select: { id: true },
+      take: 2
+    })
+    return routerToConnectionConfig(router, isDefaultRouter(router.id, enabledRouters.map(enabled => enabled.id)))
+  }
+
+  // No router chosen - use the only router when the choice is unambiguous
+  const routers = await prisma.router.findMany({
+    where: { enabled: true },
+    take: 2
+  })
+
+  if (routers.length === 1) {
+    return routerToConnectionConfig(routers[0], true)
+  }
+
+  const override = getEnvOverride()
+
+  if (override.host && override.user && override.password) {
+    return {
+      host: override.host,
+      user: override.user,
+      password: override.password,
+      port: override.port || 8728,
+      routerId: null,
+      routerName: 'Environment'
+    }
+  }
+
+  throw new Error('MikroTik not configured')
+}
+
+/**
+ * Create a standalone RouterOS API client (not yet connected, not pooled)
+ * Used for one-off checks such as testing unsaved credentials.
+ */
+export function createRouterOSClient(
+  config: Pick<RouterOSConnectionConfig, 'host' | 'user' | 'password' | 'port'>
+): RouterOSAPI {
+  return new RouterOSAPI({
+    host: config.host,
+    user: config.user,
+    password: config.password,
+    port: config.port || 8728,
+    timeout: ROUTEROS_TIMEOUT
+  })
+}
+
+/**
+ * Run commands against a router on its pooled session
+ * The connection stays open for the next caller and reconnects with backoff when it drops.
+ *
+ * @param config - Resolved connection config
+ * @param fn - Work to perform with the connected client
+ */
+export async function withRouterOS<T>(
+  config: RouterOSConnectionConfig,
+  fn: (api: RouterOSAPI) => Promise<T>
+): Promise<T> {
+  return runOnRouterOSSession(config, ROUTEROS_TIMEOUT, fn)
+}
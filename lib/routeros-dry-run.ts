@@ -0,0 +1,99 @@
+/**
+ * RouterOS Dry Run
+ *
+ * Every API that changes a router's netwatch table accepts ?dryRun=true and
+ * answers with the commands it would send instead of sending them. Reads
+ * (/print) still go to the router, so the preview takes the same add-or-set
+ * decisions as the real run; add/set/remove are collected and nothing is
+ * stored in the database.
+ *
+ * Kept free of server imports so the confirmation dialogs can format previews.
+ */
+
+import type { RouterOSAPI } from 'node-routeros'
+
+export interface RouterOSCommand {
+  router: string | null
+  command: string
+  params: string[]
+}
+
+/**
+ * Stand-in ID for the marker of a device or probe a preview would create
+ */
+export const DRY_RUN_NEW_ID = 'new'
+
+const WRITE_COMMAND = /\/(add|set|remove)$/
+
+/**
+ * Whether a request asks for a dry run (?dryRun=true or ?dryRun=1)
+ */
+export function isDryRunRequest(request: { url: string }): boolean {
+  const value = new URL(request.url).searchParams.get('dryRun')
+  return value === 'true' || value === '1'
+}
+
+/**
+ * API session that collects write commands instead of sending them
+ *
+ * @param preview - Collected commands; without one the session is returned unchanged
+ * @param routerName - Router the commands are meant for
+ */
+export function withDryRun(api: RouterOSAPI, preview: RouterOSCommand[] | undefined, routerName: string | null): RouterOSAPI {
+  if (!preview) {
+    return api
+  }
+
+  return new Proxy(api, {
+    get(target, property, receiver) {
+      if (property !== 'write') {
+        return Reflect.get(target, property, receiver)
+      }
+
+      return async (command: string, params: string[] = []) => {
+        if (!WRITE_COMMAND.test(command)) {
+          return target.write(command, params)
+        }
+
+        preview.push({ router: routerName, command, params })
+        return []
+      }
+    }
+  })
+}
+
+/**
+ * One command as typed in the RouterOS API, e.g. "/tool/netwatch/remove =.id=*1"
+ */
+export function formatRouterOSCommand(command: RouterOSCommand): string {
+  return [command.command, ...command.params].join(' ')
+}
+
+/**
+ * Dry-run URL of a router-changing API
+ */
+export function dryRunUrl(url: string): string {
+  return `${url}${url.includes('?') ? '&' : '?'}dryRun=true`
+}
+
+export interface RouterPreview {
+  commands: RouterOSCommand[]
+  warning?: string
+  message?: string
+}
+
+/**
+ * Ask a router-changing API what it would send
+ *
+ * @throws Error with the API's message when the request is refused (validation, permissions)
+ */
+export async function fetchRouterPreview(url: string, init: RequestInit): Promise<RouterPreview> {
+  const response = await fetch(dryRunUrl(url), init)
+  const data = await response.json()
+
+  if (!response.ok) {
+    throw new Error(data.error || 'Failed to preview the router changes')
+  }
+
+  return { commands: data.commands ?? [], warning: data.warning, message: data.message }
+}
@@ -0,0 +1,318 @@
+/**
+ * RouterOS Session Pool
+ *
+ * Long-lived, auto-reconnecting RouterOS API sessions shared by everything in
+ * the process (worker poll loop, API routes, bulk syncs). One session per router:
+ * commands reuse the logged-in connection instead of opening a new login each time.
+ * Failed connects back off exponentially so an unreachable router is not hammered.
+ */
+
+import { RouterOSAPI } from 'node-routeros'
+
+// Backoff after consecutive connection failures: 5s, 10s, 20s ... capped at 5 minutes
+const BACKOFF_BASE_MS = 5000
+const BACKOFF_MAX_MS = 5 * 60 * 1000
+
+export type RouterOSSessionState = 'idle' | 'connecting' | 'connected' | 'backoff'
+
+export interface RouterOSSessionConfig {
+  host: string
+  user: string
+  password: string
+  port: number
+  routerId: string | null
+  routerName: string
+}
+
+export interface RouterOSSessionHealth {
+  key: string
+  routerId: string | null
+  routerName: string
+  host: string
+  port: number
+  state: RouterOSSessionState
+  connectedSince: Date | null
+  consecutiveFailures: number
+  lastError: string | null
+  lastErrorAt: Date | null
+  nextRetryAt: Date | null
+}
+
+/**
+ * Compute the wait before the next connection attempt
+ */
+export function getBackoffDelay(consecutiveFailures: number): number {
+  if (consecutiveFailures <= 0) {
+    return 0
+  }
+
+  return Math.min(BACKOFF_BASE_MS * 2 ** (consecutiveFailures - 1), BACKOFF_MAX_MS)
+}
+
+class RouterOSSession {
+  private api: RouterOSAPI | null = null
+  private pendingConnect: Promise<RouterOSAPI> | null = null
+  private connectedSince: Date | null = null
+  private consecutiveFailures = 0
+  private lastError: string | null = null
+  private lastErrorAt: Date | null = null
+  private nextRetryAt = 0
+
+  constructor(
+    readonly key: string,
+    private config: RouterOSSessionConfig,
+    private timeout: number
+  ) {}
+
+  /**
+   * Replace credentials - an open session is dropped when they changed
+   */
+  updateConfig(config: RouterOSSessionConfig): void {
+    const changed = config.host !== this.config.host ||
+      config.user !== this.config.user ||
+      config.password !== this.config.password ||
+      config.port !== this.config.port
+
+    this.config = config
+
+    if (changed) {
+      this.disconnect()
+      this.consecutiveFailures = 0
+      this.nextRetryAt = 0
+    }
+  }
+
+  /**
+   * Run work on the session, reconnecting if needed
+   */
+  async run<T>(fn: (api: RouterOSAPI) => Promise<T>): Promise<T> {
+    const api = await this.acquire()
+
+    try {
+      return await fn(api)
+    } catch (error) {
+      // Command traps keep the session; a dropped socket forces a reconnect next time
+      if (!api.connected) {
+        this.markDisconnected(error)
+      }
+      throw error
+    }
+  }
+
+  private async acquire(): Promise<RouterOSAPI> {
+    if (this.api && this.api.connected) {
+      return this.api
+    }
+
+    if (this.pendingConnect) {
+      return this.pendingConnect
+    }
+
+    const waitMs = this.nextRetryAt - Date.now()
+    if (waitMs > 0) {
+      throw new Error(
+        `MikroTik "${this.config.routerName}" unavailable - retrying in ${Math.ceil(waitMs / 1000)}s` +
+        (this.lastError ? ` (last error: ${this.lastError})` : '')
+      )
+    }
+
+    this.pendingConnect = this.connect()
+
+    try {
+      return await this.pendingConnect
+    } finally {
+      this.pendingConnect = null
+    }
+  }
+
+  private async connect(): Promise<RouterOSAPI> {
+    this.disconnect()
+
+    const api = new RouterOSAPI({
+      host: this.config.host,
+      user: this.config.user,
+      password: this.config.password,
+      port: this.config.port || 8728,
+      timeout: this.timeout,
+      keepalive: true
+    })
+
+    // Socket errors on an idle session must not crash the process
+    api.on('error', (error: unknown) => {
+      if (this.api === api) {
+        this.markDisconnected(error)
+      }
+    })
+
+    try {
+      await api.connect()
+    } catch (error) {
+      this.recordFailure(error)
+
+      try {
+        await api.close()
+      } catch (closeError) {
+        // Ignore close errors - connection never opened
+      }
+
+      throw error
+    }
+
+    this.api = api
+    this.connectedSince = new Date()
+    this.consecutiveFailures = 0
+    this.nextRetryAt = 0
+
+    if (this.lastError) {
+      console.log(`Reconnected to MikroTik "${this.config.routerName}" at ${this.config.host}:${this.config.port}`)
+    }
+
+    return api
+  }
+
+  private recordFailure(error: unknown): void {
+    this.consecutiveFailures++
+    this.lastError = describeError(error)
+    this.lastErrorAt = new Date()
+    this.nextRetryAt = Date.now() + getBackoffDelay(this.consecutiveFailures)
+  }
+
+  private markDisconnected(error: unknown): void {
+    this.lastError = describeError(error)
+    this.lastErrorAt = new Date()
+    this.disconnect()
+  }
+
+  /**
+   * Close the underlying connection (the session can reconnect later)
+   */
+  disconnect(): void {
+    const api = this.api
+    this.api = null
+    this.connectedSince = null
+
+    if (api) {
+      api.close().catch(() => {
+        // Ignore close errors - socket may already be gone
+      })
+    }
+  }
+
+  health(): RouterOSSessionHealth {
+    let state: RouterOSSessionState = 'idle'
+
+    if (this.pendingConnect) {
+      state = 'connecting'
+    } else if (this.api && this.api.connected) {
+      state = 'connected'
+    } else if (this.nextRetryAt > Date.now()) {
+      state = 'backoff'
+    }
+
+    return {
+      key: this.key,
+      routerId: this.config.routerId,
+      routerName: this.config.routerName,
+      host: this.config.host,
+      port: this.config.port,
+      state,
+      connectedSince: this.connectedSince,
+      consecutiveFailures: this.consecutiveFailures,
+      lastError: this.lastError,
+      lastErrorAt: this.lastErrorAt,
+      nextRetryAt: state === 'backoff' ? new Date(this.nextRetryAt) : null
+    }
+  }
+}
+
+function describeError(error: unknown): string {
+  if (error instanceof Error) {
+    return error.message
+  }
+  return String(error)
+}
+
+// Keep sessions across hot reloads in development (same pattern as lib/prisma.ts)
+const globalForPool = globalThis as unknown as {
+  routerOSSessions: Map<string, RouterOSSession> | undefined
+}
+
+const sessions = globalForPool.routerOSSessions ?? new Map<string, RouterOSSession>()
+
+if (process.env.NODE_ENV !== 'production') globalForPool.routerOSSessions = sessions
+
+/**
+ * Session key - one session per router, or per endpoint for environment-only config
+ */
+function getSessionKey(config: RouterOSSessionConfig): string {
+  return config.routerId || `${config.user}@${config.host}:${config.port}`
+}
+
+/**
+ * Run work on the pooled session for a router
+ *
+ * @param config - Resolved connection config
+ * @param timeout - Socket timeout in seconds
+ * @param fn - Work to perform with the connected client
+ */
+export async function runOnRouterOSSession<T>(
+  config: RouterOSSessionConfig,
+  timeout: number,
+  fn: (api: RouterOSAPI) => Promise<T>
+): Promise<T> {
+  const key = getSessionKey(config)
+  let session = sessions.get(key)
+
+  if (session) {
+    session.updateConfig(config)
+  } else {
+    session = new RouterOSSession(key, config, timeout)
+    sessions.set(key, session)
+  }
+
+  return session.run(fn)
+}
+
+/**
+ * Health snapshot of every session in this process
+ */
+export function getRouterOSPoolHealth(): RouterOSSessionHealth[] {
+  return Array.from(sessions.values()).map(session => session.health())
+}
+
+/**
+ * Close and forget the session for a router (e.g. after it was deleted)
+ */
+export function closeRouterOSSession(routerId: string): void {
+  const session = sessions.get(routerId)
+
+  if (session) {
+    session.disconnect()
+    sessions.delete(routerId)
+  }
+}
+
+/**
+ * Close sessions for routers that are no longer active
+ *
+ * @param activeRouterIds - Routers whose sessions should be kept
+ */
+export function pruneRouterOSSessions(activeRouterIds: string[]): void {
+  const keep = new Set(activeRouterIds)
+
+  sessions.forEach((session, key) => {
+    const health = session.health()
+    if (health.routerId && !keep.has(health.routerId)) {
+      session.disconnect()
+      sessions.delete(key)
+    }
+  })
+}
+
+/**
+ * Close every session (shutdown)
+ */
+export function closeAllRouterOSSessions(): void {
+  sessions.forEach(session => session.disconnect())
+  sessions.clear()
+}
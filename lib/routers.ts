@@ -0,0 +1,203 @@
+/**
+ * MikroTik Router Helpers
+ *
+ * Shared helpers for the Router entity (one row per RouterOS box running netwatch)
+ */
+
+import { prisma } from '@/lib/prisma'
+import { decryptSecret, encryptSecret, needsReencryption } from '@/lib/credential-encryption'
+
+export interface RouterRecord {
+  id: string
+  name: string
+  host: string
+  username: string
+  password: string
+  port: number
+  enabled: boolean
+}
+
+/**
+ * Router as returned by the API - password is never sent to the browser
+ */
+export type PublicRouter<T extends RouterRecord = RouterRecord> = Omit<T, 'password'> & {
+  hasPassword: boolean
+}
+
+/**
+ * Strip the password from a router before returning it to the client
+ */
+export function toPublicRouter<T extends RouterRecord>(router: T): PublicRouter<T> {
+  const { password, ...rest } = router
+  return {
+    ...rest,
+    hasPassword: password.length > 0
+  }
+}
+
+/**
+ * Validate IPv4 address format (each octet 0-255)
+ */
+export function isValidIPv4(ip: string): boolean {
+  const ipRegex = /^(\d{1,3}\.){3}\d{1,3}$/
+  if (!ipRegex.test(ip)) {
+    return false
+  }
+  return ip.split('.').map(Number).every(octet => octet >= 0 && octet <= 255)
+}
+
+/**
+ * Validate router create/update payload
+ *
+ * @param body - Request body
+ * @param isUpdate - When true, an empty password keeps the stored one
+ * @returns Error message or null when valid
+ */
+export function validateRouterInput(body: any, isUpdate: boolean = false): string | null {
+  const { name, host, username, password, port } = body
+
+  if (!name || typeof name !== 'string' || !name.trim()) {
+    return 'Router name is required'
+  }
+
+  if (!host || typeof host !== 'string' || !isValidIPv4(host)) {
+    return 'Invalid IP address format'
+  }
+
+  if (!username || typeof username !== 'string') {
+    return 'Username is required'
+  }
+
+  if (!isUpdate && (!password || typeof password !== 'string')) {
+    return 'Password is required'
+  }
+
+  if (port !== undefined) {
+    if (typeof port !== 'number' || port <= 0 || port > 65535 || !Number.isInteger(port)) {
+      return 'Invalid MikroTik port - must be an integer between 1 and 65535'
+    }
+  }
+
+  return null
+}
+
+/**
+ * Whether a router is the default connection that MIKROTIK_* environment overrides apply to
+ *
+ * Only when it is the one enabled router. The worker and API requests share pooled
+ * sessions, so both must decide this the same way or they keep replacing each
+ * other's connection.
+ *
+ * @param enabledRouterIds - Ids of the enabled routers (two are enough to decide)
+ */
+export function isDefaultRouter(routerId: string, enabledRouterIds: string[]): boolean {
+  return enabledRouterIds.length === 1 && enabledRouterIds[0] === routerId
+}
+
+/**
+ * Get the router new devices are bound to when none is chosen explicitly
+ * Only resolves when exactly one router exists - otherwise the choice is ambiguous
+ */
+export async function getDefaultRouterId(): Promise<string | null> {
+  const routers = await prisma.router.findMany({
+    select: { id: true },
+    take: 2
+  })
+
+  return routers.length === 1 ? routers[0].id : null
+}
+
+/**
+ * Migrate legacy single-router credentials from SystemConfig
+ *
+ * When no Router exists yet but SystemConfig still holds mikrotikIp/User/Pass,
+ * create a "Default" router from them and bind all unassigned devices to it.
+ * Safe to call repeatedly - does nothing once any router exists.
+ */
+export async function migrateLegacyRouterConfig(): Promise<RouterRecord | null> {
+  const routerCount = await prisma.router.count()
+  if (routerCount > 0) {
+    return null
+  }
+
+  const config = await prisma.systemConfig.findUnique({
+    where: { id: 1 }
+  })
+
+  if (!config || !config.mikrotikIp) {
+    return null
+  }
+
+  const router = await prisma.router.create({
+    data: {
+      name: 'Default',
+      host: config.mikrotikIp,
+      username: config.mikrotikUser,
+      password: encryptSecret(decryptSecret(config.mikrotikPass)),
+      port: config.mikrotikPort || 8728
+    }
+  })
+
+  await prisma.device.updateMany({
+    where: { routerId: null },
+    data: { routerId: router.id }
+  })
+
+  console.log(`Migrated legacy MikroTik config to router "${router.name}" (${router.host})`)
+
+  return router
+}
+
+/**
+ * Encrypt plain-text MikroTik passwords and re-encrypt values using a previous key
+ *
+ * Covers Router passwords and the legacy SystemConfig.mikrotikPass.
+ * Safe to call repeatedly - values already encrypted with the current key are skipped.
+ * A value that cannot be decrypted (its key is no longer configured) is logged and
+ * left as it is, so one bad row does not keep the worker from starting.
+ *
+ * @returns Number of values rewritten
+ */
+export async function migrateStoredPasswords(): Promise<number> {
+  let migrated = 0
+
+  const routers = await prisma.router.findMany({
+    select: { id: true, name: true, password: true }
+  })
+
+  for (const router of routers) {
+    if (!needsReencryption(router.password)) continue
+
+    try {
+      await prisma.router.update({
+        where: { id: router.id },
+        data: { password: encryptSecret(decryptSecret(router.password)) }
+      })
+      migrated++
+    } catch (error) {
+      console.error(`Skipped re-encrypting the password of router "${router.name}":`, error instanceof Error ? error.message : error)
+    }
+  }
+
+  const config = await prisma.systemConfig.findUnique({
+    where: { id: 1 }
+  })
+
+  if (config && needsReencryption(config.mikrotikPass)) {
+    try {
+      await prisma.systemConfig.update({
+        where: { id: 1 },
+        data: { mikrotikPass: encryptSecret(decryptSecret(config.mikrotikPass)) }
+      })
+      migrated++
+    } catch (error) {
+      console.error('Skipped re-encrypting the legacy SystemConfig MikroTik password:', error instanceof Error ? error.message : error)
+    }
+  }
+
+  if (migrated > 0) {
+    console.log(`Encrypted ${migrated} stored MikroTik password(s) with the current key`)
+  }
+
+  return migrated
+}
@@ -0,0 +1,447 @@
+/**
+ * Scheduled Availability Reports
+ *
+ * A report definition picks a grouping (device, room or type), an optional room or
+ * type filter, a period, a file format and email recipients. Every hour the worker
+ * generates a report for each definition whose previous complete period has no
+ * report yet - e.g. a monthly report for January is produced early on February 1st.
+ *
+ * Figures come from the SLA engine (lib/sla.ts). Files are stored on
+ * GeneratedReport for download and mailed through the SMTP settings in
+ * SystemConfig (lib/smtp.ts).
+ */
+
+import { prisma } from '@/lib/prisma'
+import { DEVICE_TYPES, getDeviceTypeLabel, isValidDeviceType } from '@/lib/constants'
+import { loadDeviceTypes } from '@/lib/device-types'
+import {
+  addDays,
+  addMonths,
+  addUptimeTotals,
+  buildSlaReport,
+  emptyUptimeTotals,
+  loadUptimeTotals,
+  SLA_GROUP_BY,
+  SlaReportRow,
+  startOfDay,
+  startOfMonth,
+  toUptimeSummary,
+  UptimeSummary
+} from '@/lib/sla'
+import { createSmtpTransport, getSmtpSettings } from '@/lib/smtp'
+import { writeCsv } from '@/lib/spreadsheet'
+
+export const REPORT_PERIODS = ['DAILY', 'WEEKLY', 'MONTHLY'] as const
+export const REPORT_FORMATS = ['CSV', 'HTML'] as const
+
+export type ReportPeriod = typeof REPORT_PERIODS[number]
+export type ReportFormat = typeof REPORT_FORMATS[number]
+
+export const REPORT_CONTENT_TYPES: Record<ReportFormat, string> = {
+  CSV: 'text/csv; charset=utf-8',
+  HTML: 'text/html; charset=utf-8'
+}
+
+// Everything but the file content - for lists
+export const GENERATED_REPORT_SELECT = {
+  id: true,
+  definitionId: true,
+  periodStart: true,
+  periodEnd: true,
+  format: true,
+  fileName: true,
+  size: true,
+  emailedTo: true,
+  emailError: true,
+  createdAt: true
+} as const
+
+const EMAIL_PATTERN = /^[^\s@,]+@[^\s@,]+\.[^\s@,]+$/
+
+const GROUP_LABELS: Record<string, string> = {
+  device: 'Device',
+  room: 'Room',
+  type: 'Device type'
+}
+
+export interface ReportDefinitionRecord {
+  id: string
+  name: string
+  groupBy: string
+  roomId: string | null
+  deviceType: string | null
+  period: string
+  format: string
+  recipients: string
+  enabled: boolean
+}
+
+export interface ReportDocument {
+  title: string
+  periodStart: Date
+  periodEnd: Date
+  groupBy: string
+  filter: string | null
+  summary: UptimeSummary & { deviceCount: number }
+  rows: SlaReportRow[]
+}
+
+/**
+ * The last complete period before `now` - [start, end) in local time, weeks start on Monday
+ */
+export function getReportPeriod(period: string, now: Date = new Date()): { start: Date; end: Date } {
+  const today = startOfDay(now)
+
+  switch (period) {
+    case 'DAILY':
+      return { start: addDays(today, -1), end: today }
+    case 'WEEKLY': {
+      const weekStart = addDays(today, -((today.getDay() + 6) % 7))
+      return { start: addDays(weekStart, -7), end: weekStart }
+    }
+    default: {
+      const monthStart = startOfMonth(now)
+      return { start: addMonths(monthStart, -1), end: monthStart }
+    }
+  }
+}
+
+export function parseRecipients(recipients: string): string[] {
+  return recipients
+    .split(/[,;\s]+/)
+    .map(recipient => recipient.trim())
+    .filter(Boolean)
+}
+
+/**
+ * First recipient that is not an email address, if any
+ */
+export function findInvalidRecipient(recipients: string): string | undefined {
+  return parseRecipients(recipients).find(recipient => !EMAIL_PATTERN.test(recipient))
+}
+
+const formatDay = (date: Date) => {
+  const pad = (value: number) => value.toString().padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+// The end of a period is exclusive - show the last day it covers
+export function formatReportPeriod(start: Date, end: Date): string {
+  const lastDay = addDays(end, -1)
+  return lastDay <= start ? formatDay(start) : `${formatDay(start)} – ${formatDay(lastDay)}`
+}
+
+const formatPercent = (value: number | null) => (value === null ? '' : value.toFixed(3))
+const toMinutes = (seconds: number | null) => (seconds === null ? '' : (seconds / 60).toFixed(1))
+const toHours = (seconds: number | null) => (seconds === null ? '' : (seconds / 3600).toFixed(1))
+
+function escapeHtml(value: string | number): string {
+  return String(value)
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function toCells(label: string, row: UptimeSummary & { deviceCount: number }): (string | number)[] {
+  return [
+    label,
+    row.deviceCount,
+    formatPercent(row.uptimePercent),
+    toMinutes(row.downSeconds),
+    row.outages,
+    toMinutes(row.mttrSeconds),
+    toHours(row.mtbfSeconds),
+    toMinutes(row.maintenanceSeconds)
+  ]
+}
+
+function getHeaders(groupBy: string): string[] {
+  return [
+    GROUP_LABELS[groupBy] || 'Group',
+    'Devices',
+    'Uptime %',
+    'Downtime (min)',
+    'Outages',
+    'MTTR (min)',
+    'MTBF (h)',
+    'Maintenance (min)'
+  ]
+}
+
+export function renderReportCsv(report: ReportDocument): string {
+  const lines = [
+    getHeaders(report.groupBy),
+    ...report.rows.map(row => toCells(row.label, row)),
+    toCells('All devices', report.summary)
+  ]
+
+  // Device, room and type names are user input - writeCsv keeps formulas from running
+  return writeCsv(lines)
+}
+
+/**
+ * Standalone HTML page - print it from the browser to get a PDF
+ */
+export function renderReportHtml(report: ReportDocument): string {
+  const headers = getHeaders(report.groupBy).map(header => `<th>${escapeHtml(header)}</th>`).join('')
+  const renderRow = (cells: (string | number)[], className = '') =>
+    `<tr${className ? ` class="${className}"` : ''}>${cells.map(cell => `<td>${escapeHtml(cell === '' ? '—' : cell)}</td>`).join('')}</tr>`
+
+  const uptime = report.summary.uptimePercent === null ? '—' : `${report.summary.uptimePercent.toFixed(2)}%`
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(report.title)}</title>
+<style>
+  body { font-family: Arial, Helvetica, sans-serif; color: #111827; margin: 32px; }
+  h1 { font-size: 22px; margin: 0 0 4px; }
+  p { color: #4b5563; margin: 0 0 16px; }
+  .summary { display: flex; gap: 24px; margin-bottom: 20px; }
+  .summary div { border: 1px solid #e5e7eb; border-radius: 6px; padding: 8px 12px; }
+  .summary strong { display: block; font-size: 18px; }
+  table { border-collapse: collapse; width: 100%; font-size: 13px; }
+  th, td { border: 1px solid #e5e7eb; padding: 6px 8px; text-align: right; }
+  th:first-child, td:first-child { text-align: left; }
+  th { background: #f3f4f6; }
+  tr.total td { font-weight: bold; background: #f9fafb; }
+  @media print { body { margin: 0; } }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(report.title)}</h1>
+<p>${escapeHtml(formatReportPeriod(report.periodStart, report.periodEnd))}${report.filter ? ` · ${escapeHtml(report.filter)}` : ''} · generated ${escapeHtml(new Date().toISOString())}</p>
+<div class="summary">
+  <div>Uptime<strong>${escapeHtml(uptime)}</strong></div>
+  <div>Outages<strong>${report.summary.outages}</strong></div>
+  <div>MTTR (min)<strong>${escapeHtml(toMinutes(report.summary.mttrSeconds) || '—')}</strong></div>
+  <div>Devices<strong>${report.summary.deviceCount}</strong></div>
+</div>
+<table>
+<thead><tr>${headers}</tr></thead>
+<tbody>
+${report.rows.map(row => renderRow(toCells(row.label, row))).join('\n')}
+${renderRow(toCells('All devices', report.summary), 'total')}
+</tbody>
+</table>
+<p style="margin-top: 12px; font-size: 12px;">Down, unreachable and flapping count as downtime. Maintenance and time before a device was first seen are left out.</p>
+</body>
+</html>
+`
+}
+
+/**
+ * Collect the figures for a definition over a period
+ */
+export async function buildReportDocument(
+  definition: ReportDefinitionRecord,
+  start: Date,
+  end: Date
+): Promise<ReportDocument> {
+  const devices = await prisma.device.findMany({
+    where: {
+      ...(definition.roomId ? { roomId: definition.roomId } : {}),
+      ...(definition.deviceType ? { type: definition.deviceType } : {})
+    },
+    select: {
+      id: true,
+      name: true,
+      ip: true,
+      type: true,
+      roomId: true,
+      room: { select: { name: true } }
+    },
+    orderBy: { name: 'asc' }
+  })
+
+  const totals = await loadUptimeTotals(devices.map(device => device.id), start, end)
+  const overall = Array.from(totals.values()).reduce(addUptimeTotals, emptyUptimeTotals())
+
+  const filters: string[] = []
+  if (definition.roomId) {
+    const room = await prisma.room.findUnique({ where: { id: definition.roomId }, select: { name: true } })
+    filters.push(`Room: ${room?.name || '(deleted)'}`)
+  }
+  const deviceTypes = await loadDeviceTypes()
+  if (definition.deviceType) {
+    filters.push(`Type: ${getDeviceTypeLabel(definition.deviceType, deviceTypes)}`)
+  }
+
+  return {
+    title: definition.name,
+    periodStart: start,
+    periodEnd: end,
+    groupBy: definition.groupBy,
+    filter: filters.length > 0 ? filters.join(', ') : null,
+    summary: { deviceCount: devices.length, ...toUptimeSummary(overall) },
+    rows: buildSlaReport(devices, totals, definition.groupBy as typeof SLA_GROUP_BY[number], deviceTypes)
+  }
+}
+
+/**
+ * Email a generated report to the definition's recipients
+ *
+ * @returns Error message, or null when sent
+ */
+async function emailReport(
+  recipients: string[],
+  report: ReportDocument,
+  file: { fileName: string; content: string; contentType: string }
+): Promise<string | null> {
+  const config = await prisma.systemConfig.findUnique({ where: { id: 1 } })
+  const smtp = getSmtpSettings(config)
+
+  if (!smtp) {
+    return 'SMTP is not configured'
+  }
+
+  const uptime = report.summary.uptimePercent === null ? 'n/a' : `${report.summary.uptimePercent.toFixed(2)}%`
+
+  try {
+    await createSmtpTransport(smtp).sendMail({
+      from: smtp.from,
+      to: recipients.join(', '),
+      subject: `${report.title} (${formatReportPeriod(report.periodStart, report.periodEnd)})`,
+      text: [
+        `${report.title}`,
+        `Period: ${formatReportPeriod(report.periodStart, report.periodEnd)}`,
+        `Uptime: ${uptime} across ${report.summary.deviceCount} devices`,
+        `Outages: ${report.summary.outages}`,
+        '',
+        'The full report is attached.'
+      ].join('\n'),
+      attachments: [{ filename: file.fileName, content: file.content, contentType: file.contentType }]
+    })
+    return null
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error)
+  }
+}
+
+/**
+ * Generate, store and email one report
+ */
+export async function generateReport(definition: ReportDefinitionRecord, start: Date, end: Date) {
+  const report = await buildReportDocument(definition, start, end)
+  const format: ReportFormat = definition.format === 'HTML' ? 'HTML' : 'CSV'
+  const content = format === 'HTML' ? renderReportHtml(report) : renderReportCsv(report)
+  const slug = definition.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'report'
+  const fileName = `${slug}-${formatDay(start)}.${format.toLowerCase()}`
+
+  const recipients = parseRecipients(definition.recipients)
+  const emailError = recipients.length > 0
+    ? await emailReport(recipients, report, { fileName, content, contentType: REPORT_CONTENT_TYPES[format] })
+    : null
+
+  return prisma.generatedReport.create({
+    data: {
+      definitionId: definition.id,
+      periodStart: start,
+      periodEnd: end,
+      format,
+      fileName,
+      content,
+      size: Buffer.byteLength(content, 'utf8'),
+      emailedTo: recipients.length > 0 && !emailError ? recipients.join(', ') : null,
+      emailError
+    },
+    select: GENERATED_REPORT_SELECT
+  })
+}
+
+/**
+ * Generate reports for every enabled definition whose last complete period has none yet
+ *
+ * @returns Number of reports generated
+ */
+export async function runDueReports(now: Date = new Date()): Promise<number> {
+  const definitions = await prisma.reportDefinition.findMany({
+    where: { enabled: true }
+  })
+
+  let generated = 0
+  for (const definition of definitions) {
+    const { start, end } = getReportPeriod(definition.period, now)
+
+    try {
+      const existing = await prisma.generatedReport.findFirst({
+        where: { definitionId: definition.id, periodStart: start },
+        select: { id: true }
+      })
+      if (existing) continue
+
+      const report = await generateReport(definition, start, end)
+      generated++
+
+      if (report.emailError) {
+        console.error(`Report "${definition.name}" generated but not emailed: ${report.emailError}`)
+      }
+    } catch (error) {
+      // One broken definition must not block the others
+      console.error(`Error generating report "${definition.name}":`, error)
+    }
+  }
+
+  return generated
+}
+
+/**
+ * Validate definition create/update payload
+ *
+ * @param deviceTypes - Registry keys for the type filter (lib/device-types.ts)
+ * @returns Error message or null when valid
+ */
+export function validateReportDefinitionInput(body: any, deviceTypes: readonly string[] = DEVICE_TYPES): string | null {
+  const { name, groupBy, deviceType, period, format, recipients } = body
+
+  if (!name || typeof name !== 'string' || !name.trim()) {
+    return 'Report name is required'
+  }
+
+  if (!SLA_GROUP_BY.includes(groupBy)) {
+    return `Invalid grouping - must be one of ${SLA_GROUP_BY.join(', ')}`
+  }
+
+  if (!REPORT_PERIODS.includes(period)) {
+    return `Invalid period - must be one of ${REPORT_PERIODS.join(', ')}`
+  }
+
+  if (!REPORT_FORMATS.includes(format)) {
+    return `Invalid format - must be one of ${REPORT_FORMATS.join(', ')}`
+  }
+
+  if (deviceType && !isValidDeviceType(deviceType, deviceTypes)) {
+    return 'Invalid device type'
+  }
+
+  if (recipients !== undefined && typeof recipients !== 'string') {
+    return 'Recipients must be a comma-separated list of email addresses'
+  }
+
+  const invalid = findInvalidRecipient(recipients || '')
+  if (invalid) {
+    return `Invalid email address: ${invalid}`
+  }
+
+  return null
+}
+
+/**
+ * Map a validated payload to definition columns
+ */
+export function toReportDefinitionData(body: any) {
+  const { name, groupBy, roomId, deviceType, period, format, recipients, enabled } = body
+
+  return {
+    name: name.trim(),
+    groupBy,
+    roomId: roomId || null,
+    deviceType: deviceType || null,
+    period,
+    format,
+    recipients: parseRecipients(recipients || '').join(', '),
+    enabled: enabled !== false
+  }
+}
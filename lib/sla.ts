@@ -0,0 +1,487 @@
+/**
+ * Uptime & SLA Reporting
+ *
+ * Turns DeviceStatusHistory into uptime, outage, MTTR and MTBF figures.
+ * - the worker rolls every completed day into DeviceUptimeDaily and sums those
+ *   into DeviceUptimeMonthly
+ * - a report reads the rollups for every whole month/day of its range and only
+ *   replays raw history for the partial edges and for today; partial days past
+ *   the history retention count as their whole day
+ * - the status at the start of a range is the last change before it; time before
+ *   a device's first recorded status is "unknown" and left out of the percentage
+ * - time recorded during maintenance counts neither as up nor as down
+ * - degraded (slow or lossy but answering) counts as up
+ */
+
+import { prisma } from '@/lib/prisma'
+import { BUILT_IN_DEVICE_TYPES, DeviceTypeDefinition, getDeviceTypeLabel } from '@/lib/constants'
+import { isUpStatus } from '@/lib/device-metrics'
+import { getHistoryCutoff, toHistoryRetentionSettings } from '@/lib/history-retention'
+
+export const SLA_GROUP_BY = ['device', 'room', 'type'] as const
+
+export type SlaGroupBy = typeof SLA_GROUP_BY[number]
+
+// Longest range a single report may cover
+export const MAX_REPORT_DAYS = 366
+
+// How far back the first rollup run reaches into existing history
+const MAX_BACKFILL_DAYS = 400
+
+export interface StatusChange {
+  status: string
+  maintenance: boolean
+  timestamp: Date
+}
+
+export interface UptimeTotals {
+  upSeconds: number
+  downSeconds: number
+  maintenanceSeconds: number
+  unknownSeconds: number
+  outages: number
+}
+
+export interface UptimeSummary extends UptimeTotals {
+  uptimePercent: number | null
+  mttrSeconds: number | null
+  mtbfSeconds: number | null
+}
+
+export interface UptimeRangePlan {
+  months: Date[]
+  days: Date[]
+  raw: { from: Date; to: Date }[]
+}
+
+export interface SlaDevice {
+  id: string
+  name: string
+  ip: string
+  type: string
+  roomId: string | null
+  room: { name: string } | null
+}
+
+export interface SlaReportRow extends UptimeSummary {
+  key: string
+  label: string
+  deviceCount: number
+}
+
+const UNAVAILABLE_STATUSES = ['down', 'unreachable', 'flapping']
+
+export function startOfDay(date: Date): Date {
+  const result = new Date(date)
+  result.setHours(0, 0, 0, 0)
+  return result
+}
+
+export function addDays(date: Date, days: number): Date {
+  const result = new Date(date)
+  result.setDate(result.getDate() + days)
+  return result
+}
+
+export function startOfMonth(date: Date): Date {
+  const result = startOfDay(date)
+  result.setDate(1)
+  return result
+}
+
+export function addMonths(date: Date, months: number): Date {
+  const result = new Date(date)
+  result.setMonth(result.getMonth() + months)
+  return result
+}
+
+export function emptyUptimeTotals(): UptimeTotals {
+  return { upSeconds: 0, downSeconds: 0, maintenanceSeconds: 0, unknownSeconds: 0, outages: 0 }
+}
+
+export function addUptimeTotals(a: UptimeTotals, b: UptimeTotals): UptimeTotals {
+  return {
+    upSeconds: a.upSeconds + b.upSeconds,
+    downSeconds: a.downSeconds + b.downSeconds,
+    maintenanceSeconds: a.maintenanceSeconds + b.maintenanceSeconds,
+    unknownSeconds: a.unknownSeconds + b.unknownSeconds,
+    outages: a.outages + b.outages
+  }
+}
+
+function isUnavailable(change: StatusChange | null): boolean {
+  return !!change && UNAVAILABLE_STATUSES.includes(change.status)
+}
+
+function isUnplannedOutage(change: StatusChange | null): boolean {
+  return isUnavailable(change) && !change?.maintenance
+}
+
+/**
+ * Replay status changes over a time range
+ *
+ * @param initial - Last change before `from` (null when the device had no status yet)
+ * @param changes - Changes inside the range, oldest first
+ */
+export function computeUptimeTotals(
+  initial: StatusChange | null,
+  changes: StatusChange[],
+  from: Date,
+  to: Date
+): UptimeTotals {
+  const ms = { up: 0, down: 0, maintenance: 0, unknown: 0 }
+  let outages = 0
+  let current = initial
+  let cursor = from.getTime()
+  const end = to.getTime()
+
+  const addSegment = (until: number) => {
+    const duration = Math.max(until - cursor, 0)
+
+    if (!current) {
+      ms.unknown += duration
+    } else if (current.maintenance) {
+      ms.maintenance += duration
+    } else if (isUpStatus(current.status)) {
+      ms.up += duration
+    } else if (UNAVAILABLE_STATUSES.includes(current.status)) {
+      ms.down += duration
+    } else {
+      ms.unknown += duration
+    }
+  }
+
+  for (const change of changes) {
+    const at = Math.min(Math.max(change.timestamp.getTime(), from.getTime()), end)
+    addSegment(at)
+    cursor = at
+
+    // down -> unreachable and similar moves stay one outage, and so does a
+    // maintenance window starting or ending while the device is down
+    if (isUnplannedOutage(change) && !isUnavailable(current)) {
+      outages++
+    }
+    current = change
+  }
+
+  addSegment(end)
+
+  return {
+    upSeconds: Math.round(ms.up / 1000),
+    downSeconds: Math.round(ms.down / 1000),
+    maintenanceSeconds: Math.round(ms.maintenance / 1000),
+    unknownSeconds: Math.round(ms.unknown / 1000),
+    outages
+  }
+}
+
+/**
+ * Derive percentages and mean times from totals
+ *
+ * MTTR is downtime per outage, MTBF is uptime per outage; both are null without outages.
+ */
+export function toUptimeSummary(totals: UptimeTotals): UptimeSummary {
+  const knownSeconds = totals.upSeconds + totals.downSeconds
+
+  return {
+    ...totals,
+    uptimePercent: knownSeconds > 0 ? (totals.upSeconds / knownSeconds) * 100 : null,
+    mttrSeconds: totals.outages > 0 ? Math.round(totals.downSeconds / totals.outages) : null,
+    mtbfSeconds: totals.outages > 0 ? Math.round(totals.upSeconds / totals.outages) : null
+  }
+}
+
+/**
+ * Split a range into whole months and days covered by rollups, and raw leftovers
+ *
+ * Raw history before `rawHistoryFrom` has been compacted away (lib/history-retention.ts),
+ * so partial days there are read from their daily rollup as a whole.
+ *
+ * @param rolledUpUntil - Start of the first day without a rollup (null when nothing is rolled up)
+ * @param rawHistoryFrom - Retention cutoff (null when raw history is complete)
+ */
+export function planUptimeRange(
+  from: Date,
+  to: Date,
+  rolledUpUntil: Date | null,
+  rawHistoryFrom: Date | null = null
+): UptimeRangePlan {
+  const plan: UptimeRangePlan = { months: [], days: [], raw: [] }
+  const limit = rolledUpUntil && rolledUpUntil < to ? rolledUpUntil : to
+  let cursor = new Date(from)
+
+  const addRaw = (until: Date) => {
+    const last = plan.raw[plan.raw.length - 1]
+    if (last && last.to.getTime() === cursor.getTime()) {
+      last.to = until
+    } else {
+      plan.raw.push({ from: cursor, to: until })
+    }
+  }
+
+  while (cursor < to) {
+    const isDayStart = rolledUpUntil !== null && startOfDay(cursor).getTime() === cursor.getTime()
+    const nextDay = addDays(startOfDay(cursor), 1)
+    const nextMonth = addMonths(startOfMonth(cursor), 1)
+
+    if (isDayStart && cursor.getDate() === 1 && nextMonth <= limit) {
+      plan.months.push(cursor)
+      cursor = nextMonth
+    } else if (isDayStart && nextDay <= limit) {
+      plan.days.push(cursor)
+      cursor = nextDay
+    } else if (rawHistoryFrom && cursor < rawHistoryFrom && rolledUpUntil && nextDay <= rolledUpUntil) {
+      plan.days.push(startOfDay(cursor))
+      cursor = nextDay
+    } else {
+      const until = nextDay < to ? nextDay : to
+      addRaw(until)
+      cursor = until
+    }
+  }
+
+  return plan
+}
+
+function toStatusChange(row: { status: string; maintenance: boolean; timestamp: Date }): StatusChange {
+  return { status: row.status, maintenance: row.maintenance, timestamp: row.timestamp }
+}
+
+/**
+ * Last status change of each device before a point in time
+ */
+async function loadStatusesBefore(deviceIds: string[], before: Date): Promise<Map<string, StatusChange>> {
+  const rows = await Promise.all(deviceIds.map(deviceId =>
+    prisma.deviceStatusHistory.findFirst({
+      where: { deviceId, timestamp: { lt: before } },
+      orderBy: { timestamp: 'desc' }
+    })
+  ))
+
+  const statuses = new Map<string, StatusChange>()
+  rows.forEach((row, index) => {
+    if (row) statuses.set(deviceIds[index], toStatusChange(row))
+  })
+  return statuses
+}
+
+/**
+ * Status changes per device inside a range, oldest first
+ */
+async function loadStatusChanges(deviceIds: string[], from: Date, to: Date): Promise<Map<string, StatusChange[]>> {
+  const rows = await prisma.deviceStatusHistory.findMany({
+    where: {
+      deviceId: { in: deviceIds },
+      timestamp: { gte: from, lt: to }
+    },
+    orderBy: { timestamp: 'asc' }
+  })
+
+  const changes = new Map<string, StatusChange[]>()
+  for (const row of rows) {
+    changes.set(row.deviceId, [...(changes.get(row.deviceId) || []), toStatusChange(row)])
+  }
+  return changes
+}
+
+/**
+ * Uptime of a single device straight from history - used for short ranges like the map timeline
+ */
+export async function getDeviceUptime(deviceId: string, from: Date, to: Date): Promise<UptimeSummary> {
+  const [initial, changes] = await Promise.all([
+    loadStatusesBefore([deviceId], from),
+    loadStatusChanges([deviceId], from, to)
+  ])
+
+  return toUptimeSummary(computeUptimeTotals(initial.get(deviceId) || null, changes.get(deviceId) || [], from, to))
+}
+
+/**
+ * Start of the first day that has not been rolled up yet
+ */
+export async function getRolledUpUntil(): Promise<Date | null> {
+  const latest = await prisma.deviceUptimeDaily.findFirst({
+    orderBy: { day: 'desc' },
+    select: { day: true }
+  })
+
+  return latest ? addDays(latest.day, 1) : null
+}
+
+/**
+ * Uptime totals per device for an arbitrary range, combining rollups and raw history
+ */
+export async function loadUptimeTotals(deviceIds: string[], from: Date, to: Date): Promise<Map<string, UptimeTotals>> {
+  const totals = new Map<string, UptimeTotals>(deviceIds.map(deviceId => [deviceId, emptyUptimeTotals()]))
+  if (deviceIds.length === 0) {
+    return totals
+  }
+
+  const rolledUpUntil = await getRolledUpUntil()
+  const config = await prisma.systemConfig.findUnique({
+    where: { id: 1 }
+  })
+  const rawHistoryFrom = getHistoryCutoff(toHistoryRetentionSettings(config).historyRetentionDays, rolledUpUntil)
+  const plan = planUptimeRange(from, to, rolledUpUntil, rawHistoryFrom)
+
+  const add = (deviceId: string, value: UptimeTotals) => {
+    const current = totals.get(deviceId)
+    if (current) totals.set(deviceId, addUptimeTotals(current, value))
+  }
+
+  if (plan.months.length > 0) {
+    const rows = await prisma.deviceUptimeMonthly.findMany({
+      where: { deviceId: { in: deviceIds }, month: { in: plan.months } }
+    })
+    rows.forEach(row => add(row.deviceId, row))
+  }
+
+  if (plan.days.length > 0) {
+    const rows = await prisma.deviceUptimeDaily.findMany({
+      where: { deviceId: { in: deviceIds }, day: { in: plan.days } }
+    })
+    rows.forEach(row => add(row.deviceId, row))
+  }
+
+  for (const range of plan.raw) {
+    const [initial, changes] = await Promise.all([
+      loadStatusesBefore(deviceIds, range.from),
+      loadStatusChanges(deviceIds, range.from, range.to)
+    ])
+
+    for (const deviceId of deviceIds) {
+      add(deviceId, computeUptimeTotals(initial.get(deviceId) || null, changes.get(deviceId) || [], range.from, range.to))
+    }
+  }
+
+  return totals
+}
+
+/**
+ * Group per-device totals into report rows, worst uptime first
+ *
+ * @param deviceTypes - Registry for type labels (lib/device-types.ts)
+ */
+export function buildSlaReport(
+  devices: SlaDevice[],
+  totals: Map<string, UptimeTotals>,
+  groupBy: SlaGroupBy,
+  deviceTypes: DeviceTypeDefinition[] = BUILT_IN_DEVICE_TYPES
+): SlaReportRow[] {
+  const groups = new Map<string, { label: string; deviceCount: number; totals: UptimeTotals }>()
+
+  for (const device of devices) {
+    let key: string
+    let label: string
+
+    if (groupBy === 'room') {
+      key = device.roomId || 'none'
+      label = device.room?.name || 'No room'
+    } else if (groupBy === 'type') {
+      key = device.type
+      label = getDeviceTypeLabel(device.type, deviceTypes)
+    } else {
+      key = device.id
+      label = `${device.name} (${device.ip})`
+    }
+
+    const group = groups.get(key) || { label, deviceCount: 0, totals: emptyUptimeTotals() }
+    group.deviceCount++
+    group.totals = addUptimeTotals(group.totals, totals.get(device.id) || emptyUptimeTotals())
+    groups.set(key, group)
+  }
+
+  return Array.from(groups.entries())
+    .map(([key, group]) => ({
+      key,
+      label: group.label,
+      deviceCount: group.deviceCount,
+      ...toUptimeSummary(group.totals)
+    }))
+    .sort((a, b) => (a.uptimePercent ?? 101) - (b.uptimePercent ?? 101) || a.label.localeCompare(b.label))
+}
+
+/**
+ * Roll completed days into DeviceUptimeDaily and the touched months into DeviceUptimeMonthly
+ *
+ * Called by the worker; picks up where the previous run stopped, so a worker that
+ * was offline for a few days catches up on its next start.
+ *
+ * @returns Number of days rolled up
+ */
+export async function rollupUptime(now: Date = new Date()): Promise<number> {
+  const today = startOfDay(now)
+  let day = await getRolledUpUntil()
+
+  if (!day) {
+    const first = await prisma.deviceStatusHistory.findFirst({
+      orderBy: { timestamp: 'asc' },
+      select: { timestamp: true }
+    })
+    if (!first) return 0
+    day = startOfDay(first.timestamp)
+  }
+
+  const earliest = addDays(today, -MAX_BACKFILL_DAYS)
+  if (day < earliest) day = earliest
+  if (day >= today) return 0
+
+  const devices = await prisma.device.findMany({ select: { id: true } })
+  const deviceIds = devices.map(device => device.id)
+  if (deviceIds.length === 0) return 0
+
+  // Carry each device's status from one day into the next
+  const statuses = await loadStatusesBefore(deviceIds, day)
+  const months = new Map<number, Date>()
+  let rolledUp = 0
+
+  for (; day < today; day = addDays(day, 1)) {
+    const dayEnd = addDays(day, 1)
+    const changes = await loadStatusChanges(deviceIds, day, dayEnd)
+
+    for (const deviceId of deviceIds) {
+      const deviceChanges = changes.get(deviceId) || []
+      const totals = computeUptimeTotals(statuses.get(deviceId) || null, deviceChanges, day, dayEnd)
+
+      await prisma.deviceUptimeDaily.upsert({
+        where: { deviceId_day: { deviceId, day } },
+        create: { deviceId, day, ...totals },
+        update: totals
+      })
+
+      if (deviceChanges.length > 0) {
+        statuses.set(deviceId, deviceChanges[deviceChanges.length - 1])
+      }
+    }
+
+    const month = startOfMonth(day)
+    months.set(month.getTime(), month)
+    rolledUp++
+  }
+
+  for (const month of Array.from(months.values())) {
+    const sums = await prisma.deviceUptimeDaily.groupBy({
+      by: ['deviceId'],
+      where: { day: { gte: month, lt: addMonths(month, 1) } },
+      _sum: { upSeconds: true, downSeconds: true, maintenanceSeconds: true, unknownSeconds: true, outages: true }
+    })
+
+    for (const sum of sums) {
+      const totals: UptimeTotals = {
+        upSeconds: sum._sum.upSeconds || 0,
+        downSeconds: sum._sum.downSeconds || 0,
+        maintenanceSeconds: sum._sum.maintenanceSeconds || 0,
+        unknownSeconds: sum._sum.unknownSeconds || 0,
+        outages: sum._sum.outages || 0
+      }
+
+      await prisma.deviceUptimeMonthly.upsert({
+        where: { deviceId_month: { deviceId: sum.deviceId, month } },
+        create: { deviceId: sum.deviceId, month, ...totals },
+        update: totals
+      })
+    }
+  }
+
+  return rolledUp
+}
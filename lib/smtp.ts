@@ -0,0 +1,61 @@
+/**
+ * SMTP Transport
+ *
+ * Shared nodemailer setup for email alert channels and scheduled reports. A
+ * transport without a user skips authentication and one without `secure` only
+ * upgrades to TLS when the server offers it, so it can point at a local test
+ * server (MailHog, smtp4dev, ...) as well as a real relay.
+ */
+
+import nodemailer from 'nodemailer'
+import { decryptSecret } from '@/lib/credential-encryption'
+
+const SMTP_TIMEOUT_MS = 10000
+
+export interface SmtpSettings {
+  host: string
+  port: number
+  secure: boolean
+  user: string
+  password: string
+  from: string
+}
+
+export interface SmtpConfigRecord {
+  smtpHost: string
+  smtpPort: number
+  smtpSecure: boolean
+  smtpUser: string
+  smtpPass: string
+  smtpFrom: string
+}
+
+export function createSmtpTransport(settings: Omit<SmtpSettings, 'from'>) {
+  return nodemailer.createTransport({
+    host: settings.host,
+    port: settings.port || 587,
+    secure: settings.secure,
+    auth: settings.user ? { user: settings.user, pass: settings.password } : undefined,
+    connectionTimeout: SMTP_TIMEOUT_MS
+  })
+}
+
+/**
+ * SMTP settings from SystemConfig with the password decrypted
+ *
+ * @returns null when no SMTP host is configured
+ */
+export function getSmtpSettings(config: SmtpConfigRecord | null | undefined): SmtpSettings | null {
+  if (!config?.smtpHost) {
+    return null
+  }
+
+  return {
+    host: config.smtpHost,
+    port: config.smtpPort,
+    secure: config.smtpSecure,
+    user: config.smtpUser,
+    password: config.smtpPass ? decryptSecret(config.smtpPass) : '',
+    from: config.smtpFrom || `netwatch@${config.smtpHost}`
+  }
+}
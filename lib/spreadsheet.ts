@@ -0,0 +1,437 @@
+/**
+ * Spreadsheet Files
+ *
+ * Reads and writes the two formats inventories come in: CSV and XLSX. XLSX
+ * files are ZIP archives of XML parts; only what a plain table needs is
+ * handled - the first worksheet, shared and inline strings, and numbers.
+ * Formulas, dates and styles are read as their stored value.
+ *
+ * Server-only (node:zlib).
+ */
+
+import { deflateRawSync, inflateRawSync } from 'zlib'
+
+export const SPREADSHEET_FORMATS = ['csv', 'xlsx'] as const
+
+export type SpreadsheetFormat = typeof SPREADSHEET_FORMATS[number]
+
+export const SPREADSHEET_CONTENT_TYPES: Record<SpreadsheetFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+}
+
+// Uploads are small tables - anything bigger once unpacked is refused, not inflated
+const MAX_XLSX_PART_SIZE = 8 * 1024 * 1024
+const MAX_COLUMNS = 256
+
+/**
+ * Rows of a CSV or XLSX file - XLSX when the content is a ZIP archive
+ *
+ * @param maxRows - Sheets with more rows (blank ones included) are refused
+ * @throws Error when the file cannot be read or is over the limits
+ */
+export function readSpreadsheet(content: Buffer, maxRows: number = Infinity): string[][] {
+  if (content.length >= 4 && content.readUInt32LE(0) === 0x04034b50) {
+    return readXlsx(content, maxRows)
+  }
+  return parseCsv(content.toString('utf8'), maxRows)
+}
+
+function tooManyRows(maxRows: number): Error {
+  return new Error(`The sheet has more than ${maxRows} rows`)
+}
+
+/**
+ * Parse CSV text (RFC 4180 quoting); the delimiter is taken from the first
+ * line, so semicolon and tab separated exports from Excel work too
+ */
+export function parseCsv(text: string, maxRows: number = Infinity): string[][] {
+  const source = text.replace(/^\uFEFF/, '')
+  const delimiter = detectDelimiter(source)
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i]
+
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === delimiter) {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      if (rows.length > maxRows) throw tooManyRows(maxRows)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+    if (rows.length > maxRows) throw tooManyRows(maxRows)
+  }
+
+  return rows
+}
+
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, '')
+  const counts = [',', ';', '\t'].map(delimiter => ({ delimiter, count: firstLine.split(delimiter).length - 1 }))
+  counts.sort((a, b) => b.count - a.count)
+  return counts[0].count > 0 ? counts[0].delimiter : ','
+}
+
+/**
+ * CSV text for a table - with a BOM so Excel reads it as UTF-8
+ *
+ * Cells that start like a formula are prefixed with ' so spreadsheet apps
+ * show them as text instead of running them.
+ */
+export function writeCsv(rows: (string | number | null)[][]): string {
+  const escape = (value: string | number | null) => {
+    let text = value === null ? '' : String(value)
+    if (/^[=+\-@]/.test(text) && typeof value === 'string') {
+      text = `'${text}`
+    }
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+  }
+
+  return '\uFEFF' + rows.map(row => row.map(escape).join(',')).join('\r\n') + '\r\n'
+}
+
+// --- XLSX -------------------------------------------------------------------
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&#x([0-9a-fA-F]+);/g, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&')
+}
+
+function encodeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    // Control characters other than tab and newlines are not allowed in XML
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+}
+
+// Text of every <t> in an element - rich text is split into runs
+function textOf(xml: string): string {
+  const parts: string[] = []
+  const pattern = /<t(?:\s[^>]*)?>([\s\S]*?)<\/t>/g
+  let match
+  while ((match = pattern.exec(xml)) !== null) {
+    parts.push(decodeXml(match[1]))
+  }
+  return parts.join('')
+}
+
+// "BC" -> 54 (0-based column of a cell reference)
+function columnIndex(reference: string): number {
+  const letters = reference.replace(/[^A-Z]/gi, '').toUpperCase()
+  let index = 0
+  for (let i = 0; i < letters.length; i++) {
+    index = index * 26 + (letters.charCodeAt(i) - 64)
+  }
+  return index - 1
+}
+
+function columnName(index: number): string {
+  let name = ''
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name
+  }
+  return name
+}
+
+/**
+ * Reader for the files of a ZIP archive by name
+ *
+ * Files are only inflated when read, and never past MAX_XLSX_PART_SIZE, so a
+ * small upload cannot unpack into gigabytes.
+ */
+function openZip(content: Buffer): (name: string) => Buffer | undefined {
+  // End of central directory - at the end unless the archive has a comment
+  let end = -1
+  for (let i = content.length - 22; i >= Math.max(0, content.length - 65557); i--) {
+    if (content.readUInt32LE(i) === 0x06054b50) {
+      end = i
+      break
+    }
+  }
+  if (end === -1) {
+    throw new Error('Not a valid XLSX file')
+  }
+
+  const entries = new Map<string, { method: number; compressedSize: number; size: number; localOffset: number }>()
+  const count = content.readUInt16LE(end + 10)
+  let offset = content.readUInt32LE(end + 16)
+
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > content.length || content.readUInt32LE(offset) !== 0x02014b50) {
+      throw new Error('Not a valid XLSX file')
+    }
+
+    const nameLength = content.readUInt16LE(offset + 28)
+    entries.set(content.toString('utf8', offset + 46, offset + 46 + nameLength), {
+      method: content.readUInt16LE(offset + 10),
+      compressedSize: content.readUInt32LE(offset + 20),
+      size: content.readUInt32LE(offset + 24),
+      localOffset: content.readUInt32LE(offset + 42)
+    })
+
+    offset += 46 + nameLength + content.readUInt16LE(offset + 30) + content.readUInt16LE(offset + 32)
+  }
+
+  return (name: string) => {
+    const entry = entries.get(name)
+    if (!entry) return undefined
+
+    if (entry.size > MAX_XLSX_PART_SIZE) {
+      throw new Error(`${name} is larger than ${MAX_XLSX_PART_SIZE / 1024 / 1024} MB unpacked`)
+    }
+
+    const { localOffset } = entry
+    if (localOffset + 30 > content.length || content.readUInt32LE(localOffset) !== 0x04034b50) {
+      throw new Error('Not a valid XLSX file')
+    }
+    const dataStart = localOffset + 30 + content.readUInt16LE(localOffset + 26) + content.readUInt16LE(localOffset + 28)
+    const data = content.subarray(dataStart, dataStart + entry.compressedSize)
+
+    if (entry.method !== 8) {
+      return data
+    }
+    try {
+      // The stored size can lie - the output limit is what actually holds
+      return inflateRawSync(data, { maxOutputLength: MAX_XLSX_PART_SIZE })
+    } catch {
+      throw new Error(`${name} is damaged or larger than ${MAX_XLSX_PART_SIZE / 1024 / 1024} MB unpacked`)
+    }
+  }
+}
+
+/**
+ * Rows of the first worksheet of an XLSX file
+ */
+export function readXlsx(content: Buffer, maxRows: number = Infinity): string[][] {
+  const readFile = openZip(content)
+  const read = (name: string) => readFile(name)?.toString('utf8')
+
+  // The first <sheet> of the workbook points to its part through the relationships
+  let sheetPath = 'xl/worksheets/sheet1.xml'
+  const relationId = read('xl/workbook.xml')?.match(/<sheet\s[^>]*r:id="([^"]+)"/)?.[1]
+  const relations = read('xl/_rels/workbook.xml.rels')
+  if (relationId && relations) {
+    // The id comes from the file - compared as a string, never built into a pattern
+    const relation = (relations.match(/<Relationship\s[^>]*>/g) || [])
+      .find(tag => tag.match(/\sId="([^"]*)"/)?.[1] === relationId)
+    const target = relation?.match(/\sTarget="([^"]+)"/)?.[1]
+    if (target) {
+      sheetPath = target.startsWith('/') ? target.slice(1) : `xl/${target}`
+    }
+  }
+
+  const sheet = read(sheetPath)
+  if (!sheet) {
+    throw new Error('The XLSX file has no worksheet')
+  }
+
+  const sharedStrings: string[] = []
+  const sharedXml = read('xl/sharedStrings.xml')
+  if (sharedXml) {
+    const pattern = /<si>([\s\S]*?)<\/si>/g
+    let match
+    while ((match = pattern.exec(sharedXml)) !== null) {
+      sharedStrings.push(textOf(match[1]))
+    }
+  }
+
+  const rows: string[][] = []
+  const rowPattern = /<row\b[^>]*?(?:\/>|>([\s\S]*?)<\/row>)/g
+  let rowMatch
+  while ((rowMatch = rowPattern.exec(sheet)) !== null) {
+    const rowNumber = rowMatch[0].match(/\br="(\d+)"/)?.[1]
+    const row: string[] = []
+    const cellPattern = /<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g
+    let cellMatch
+    while ((cellMatch = cellPattern.exec(rowMatch[1] || '')) !== null) {
+      const attributes = cellMatch[1]
+      const inner = cellMatch[2] || ''
+      const reference = attributes.match(/\br="([A-Z]+)\d*"/)?.[1]
+      const type = attributes.match(/\bt="([^"]+)"/)?.[1]
+      const value = inner.match(/<v>([\s\S]*?)<\/v>/)?.[1]
+
+      let text = ''
+      if (type === 's') {
+        text = sharedStrings[parseInt(value || '', 10)] ?? ''
+      } else if (type === 'inlineStr') {
+        text = textOf(inner)
+      } else if (value !== undefined) {
+        text = decodeXml(value)
+      }
+
+      const column = reference ? columnIndex(reference) : row.length
+      if (column >= MAX_COLUMNS) {
+        throw new Error(`The sheet has more than ${MAX_COLUMNS} columns`)
+      }
+      row[column] = text
+    }
+
+    // Keep blank rows in place so row numbers match the sheet - the limit is
+    // checked first, r="1048576" must not pad a million rows
+    const index = rowNumber ? parseInt(rowNumber, 10) - 1 : rows.length
+    if (index >= maxRows) {
+      throw tooManyRows(maxRows)
+    }
+    while (rows.length < index) rows.push([])
+    rows[index] = Array.from(row, cell => cell ?? '')
+  }
+
+  return rows
+}
+
+const CRC_TABLE = (() => {
+  const table: number[] = []
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    }
+    table.push(c >>> 0)
+  }
+  return table
+})()
+
+function crc32(data: Buffer): number {
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+function writeZip(files: { name: string; content: string }[]): Buffer {
+  const locals: Buffer[] = []
+  const centrals: Buffer[] = []
+  let offset = 0
+
+  for (const file of files) {
+    const name = Buffer.from(file.name, 'utf8')
+    const data = Buffer.from(file.content, 'utf8')
+    const compressed = deflateRawSync(data)
+    const crc = crc32(data)
+
+    const local = Buffer.alloc(30)
+    local.writeUInt32LE(0x04034b50, 0)
+    local.writeUInt16LE(20, 4) // version needed
+    local.writeUInt16LE(0x0800, 6) // UTF-8 names
+    local.writeUInt16LE(8, 8) // deflate
+    local.writeUInt32LE(crc, 14)
+    local.writeUInt32LE(compressed.length, 18)
+    local.writeUInt32LE(data.length, 22)
+    local.writeUInt16LE(name.length, 26)
+    locals.push(local, name, compressed)
+
+    const central = Buffer.alloc(46)
+    central.writeUInt32LE(0x02014b50, 0)
+    central.writeUInt16LE(20, 4) // version made by
+    central.writeUInt16LE(20, 6)
+    central.writeUInt16LE(0x0800, 8)
+    central.writeUInt16LE(8, 10)
+    central.writeUInt32LE(crc, 16)
+    central.writeUInt32LE(compressed.length, 20)
+    central.writeUInt32LE(data.length, 24)
+    central.writeUInt16LE(name.length, 28)
+    central.writeUInt32LE(offset, 42)
+    centrals.push(central, name)
+
+    offset += local.length + name.length + compressed.length
+  }
+
+  const directory = Buffer.concat(centrals)
+  const end = Buffer.alloc(22)
+  end.writeUInt32LE(0x06054b50, 0)
+  end.writeUInt16LE(files.length, 8)
+  end.writeUInt16LE(files.length, 10)
+  end.writeUInt32LE(directory.length, 12)
+  end.writeUInt32LE(offset, 16)
+
+  return Buffer.concat([...locals, directory, end])
+}
+
+/**
+ * XLSX file with one worksheet - strings are stored inline, numbers as numbers
+ */
+export function writeXlsx(rows: (string | number | null)[][], sheetName = 'Sheet1'): Buffer {
+  const sheetRows = rows.map((row, rowIndex) => {
+    const cells = row.map((value, columnIndexValue) => {
+      const reference = `${columnName(columnIndexValue)}${rowIndex + 1}`
+      if (value === null || value === '') return ''
+      if (typeof value === 'number') return `<c r="${reference}"><v>${value}</v></c>`
+      return `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${encodeXml(value)}</t></is></c>`
+    })
+    return `<row r="${rowIndex + 1}">${cells.join('')}</row>`
+  })
+
+  const xmlHeader = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+
+  return writeZip([
+    {
+      name: '[Content_Types].xml',
+      content: `${xmlHeader}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+        '</Types>'
+    },
+    {
+      name: '_rels/.rels',
+      content: `${xmlHeader}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        '</Relationships>'
+    },
+    {
+      name: 'xl/workbook.xml',
+      content: `${xmlHeader}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">` +
+        `<sheets><sheet name="${encodeXml(sheetName)}" sheetId="1" r:id="rId1"/></sheets>` +
+        '</workbook>'
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content: `${xmlHeader}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">` +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+        '</Relationships>'
+    },
+    {
+      name: 'xl/worksheets/sheet1.xml',
+      content: `${xmlHeader}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">` +
+        `<sheetData>${sheetRows.join('')}</sheetData>` +
+        '</worksheet>'
+    }
+  ])
+}
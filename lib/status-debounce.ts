@@ -0,0 +1,190 @@
+/**
+ * Status Debounce & Flap Detection
+ *
+ * Netwatch results are raw observations. A change is only committed to
+ * Device.status (and DeviceStatusHistory) once the new status has held for
+ * `statusConfirmPolls` consecutive polls and `statusConfirmSeconds` seconds.
+ * Switching an up device to degraded and back is confirmed the same way.
+ *
+ * A device whose raw status flips `flapThreshold` times within
+ * `flapWindowMinutes` is committed as "flapping" and stays there - without
+ * writing more history - until it has been stable for a full window.
+ *
+ * Observation state lives in the worker process; after a restart a pending
+ * change simply starts confirming again.
+ */
+
+export const FLAPPING_STATUS = 'flapping'
+
+export interface StatusDebounceSettings {
+  statusConfirmPolls: number
+  statusConfirmSeconds: number
+  flapThreshold: number // 0 disables flap detection
+  flapWindowMinutes: number
+}
+
+export const DEFAULT_STATUS_DEBOUNCE: StatusDebounceSettings = {
+  statusConfirmPolls: 1,
+  statusConfirmSeconds: 0,
+  flapThreshold: 6,
+  flapWindowMinutes: 10
+}
+
+export interface StatusObservation {
+  observed: string | null
+  observedSince: number
+  observedPolls: number
+  // Raw flip times inside the flap window
+  flips: number[]
+}
+
+export function createStatusObservation(): StatusObservation {
+  return { observed: null, observedSince: 0, observedPolls: 0, flips: [] }
+}
+
+/**
+ * Record one raw observation and decide whether the committed status changes
+ *
+ * @param observation - Per-device state (mutated)
+ * @param observed - Raw status from this poll ("up" / "down")
+ * @param committed - Current Device.status
+ * @returns Status to commit, or null to keep the current one
+ */
+export function evaluateStatusObservation(
+  observation: StatusObservation,
+  observed: string,
+  committed: string,
+  settings: StatusDebounceSettings,
+  now: number = Date.now()
+): string | null {
+  if (observation.observed !== observed) {
+    if (observation.observed !== null) {
+      observation.flips.push(now)
+    }
+    observation.observed = observed
+    observation.observedSince = now
+    observation.observedPolls = 1
+  } else {
+    observation.observedPolls++
+  }
+
+  const windowMs = settings.flapWindowMinutes * 60000
+  observation.flips = observation.flips.filter(flip => now - flip < windowMs)
+
+  if (settings.flapThreshold > 0 && observation.flips.length >= settings.flapThreshold) {
+    return committed === FLAPPING_STATUS ? null : FLAPPING_STATUS
+  }
+
+  if (committed === FLAPPING_STATUS) {
+    // Leave flapping only after a full quiet window
+    return now - observation.observedSince >= windowMs ? observed : null
+  }
+
+  if (observed === committed) {
+    return null
+  }
+
+  // No status yet - nothing to debounce against
+  if (committed === 'unknown' || !committed) {
+    return observed
+  }
+
+  const confirmed = observation.observedPolls >= settings.statusConfirmPolls &&
+    now - observation.observedSince >= settings.statusConfirmSeconds * 1000
+
+  return confirmed ? observed : null
+}
+
+const observations = new Map<string, StatusObservation>()
+
+/**
+ * Track a device's raw status for this worker process
+ *
+ * @returns Status to commit, or null to keep the current one
+ */
+export function observeDeviceStatus(
+  deviceId: string,
+  observed: string,
+  committed: string,
+  settings: StatusDebounceSettings,
+  now: number = Date.now()
+): string | null {
+  let observation = observations.get(deviceId)
+
+  if (!observation) {
+    observation = createStatusObservation()
+    observations.set(deviceId, observation)
+  }
+
+  return evaluateStatusObservation(observation, observed, committed, settings, now)
+}
+
+const degradations = new Map<string, StatusObservation>()
+
+/**
+ * Track whether an up device is degraded for this worker process
+ *
+ * Switching between up and degraded needs the same confirmation as up/down,
+ * so a latency hovering around the threshold does not write history every
+ * poll. Flap detection stays with the up/down status.
+ *
+ * @param degraded - Whether this poll is above the thresholds
+ * @param committedDegraded - Whether the device is committed as degraded, null when it is not up
+ * @returns Whether to commit the device as degraded
+ */
+export function observeDeviceDegradation(
+  deviceId: string,
+  degraded: boolean,
+  committedDegraded: boolean | null,
+  settings: StatusDebounceSettings,
+  now: number = Date.now()
+): boolean {
+  let observation = degradations.get(deviceId)
+
+  if (!observation) {
+    observation = createStatusObservation()
+    degradations.set(deviceId, observation)
+  }
+
+  // A device coming back up was confirmed by the up/down debounce - take its degradation as is
+  const committed = committedDegraded === null ? 'unknown' : committedDegraded ? 'degraded' : 'up'
+  const result = evaluateStatusObservation(
+    observation,
+    degraded ? 'degraded' : 'up',
+    committed,
+    { ...settings, flapThreshold: 0 },
+    now
+  )
+
+  return (result ?? committed) === 'degraded'
+}
+
+/**
+ * Forget observation state for devices that are no longer polled
+ */
+export function pruneStatusObservations(activeDeviceIds: string[]): void {
+  const keep = new Set(activeDeviceIds)
+
+  observations.forEach((observation, deviceId) => {
+    if (!keep.has(deviceId)) {
+      observations.delete(deviceId)
+    }
+  })
+  degradations.forEach((observation, deviceId) => {
+    if (!keep.has(deviceId)) {
+      degradations.delete(deviceId)
+    }
+  })
+}
+
+/**
+ * Read debounce settings from SystemConfig (falls back to defaults)
+ */
+export function toStatusDebounceSettings(config: Partial<StatusDebounceSettings> | null): StatusDebounceSettings {
+  return {
+    statusConfirmPolls: config?.statusConfirmPolls ?? DEFAULT_STATUS_DEBOUNCE.statusConfirmPolls,
+    statusConfirmSeconds: config?.statusConfirmSeconds ?? DEFAULT_STATUS_DEBOUNCE.statusConfirmSeconds,
+    flapThreshold: config?.flapThreshold ?? DEFAULT_STATUS_DEBOUNCE.flapThreshold,
+    flapWindowMinutes: config?.flapWindowMinutes ?? DEFAULT_STATUS_DEBOUNCE.flapWindowMinutes
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Device Status Events
+ *
+ * The worker runs in its own process, so status changes reach the web app through
+ * the database: every change is written to DeviceStatusHistory, and the SSE endpoint
+ * (/api/devices/events) tails that table and pushes new rows to connected browsers.
+ */
+
+import { prisma } from '@/lib/prisma'
+
+// How often the SSE endpoint checks for new status history rows
+export const STATUS_EVENT_POLL_MS = 2000
+
+// Comment line sent on idle streams so proxies don't drop the connection
+export const STATUS_EVENT_HEARTBEAT_MS = 15000
+
+export interface DeviceStatusEvent {
+  id: string
+  deviceId: string
+  deviceIp: string
+  status: string
+  timestamp: string
+  statusSince: string | null
+  lastSeen: string | null
+}
+
+export interface StatusEventCursor {
+  since: Date
+  // Rows are read in (timestamp, id) order - id of the last row sent at `since`, '' before any
+  afterId: string
+}
+
+/**
+ * SSE event id of a status event - "<timestamp>/<history row id>"
+ */
+export function toStatusEventId(event: DeviceStatusEvent): string {
+  return `${event.timestamp}/${event.id}`
+}
+
+/**
+ * Cursor that resumes right after a Last-Event-ID
+ *
+ * @returns null when the id is not a status event id
+ */
+export function parseStatusEventId(eventId: string): StatusEventCursor | null {
+  const separator = eventId.lastIndexOf('/')
+  if (separator === -1) {
+    return null
+  }
+
+  const since = new Date(eventId.slice(0, separator))
+  const afterId = eventId.slice(separator + 1)
+  return !isNaN(since.getTime()) && afterId ? { since, afterId } : null
+}
+
+/**
+ * Load status changes recorded after the cursor
+ *
+ * @returns New events in chronological order and the advanced cursor
+ */
+export async function getStatusEventsSince(
+  cursor: StatusEventCursor
+): Promise<{ events: DeviceStatusEvent[]; cursor: StatusEventCursor }> {
+  // Timestamps are not unique - rows sharing the cursor's are told apart by id
+  const rows = await prisma.deviceStatusHistory.findMany({
+    where: {
+      OR: [
+        { timestamp: { gt: cursor.since } },
+        { timestamp: cursor.since, id: { gt: cursor.afterId } }
+      ]
+    },
+    orderBy: [{ timestamp: 'asc' }, { id: 'asc' }],
+    take: 500
+  })
+
+  if (rows.length === 0) {
+    return { events: [], cursor }
+  }
+
+  // Current device timestamps so the UI can show "down for ..." without refetching
+  const devices = await prisma.device.findMany({
+    where: { id: { in: Array.from(new Set(rows.map(row => row.deviceId))) } },
+    select: { id: true, statusSince: true, lastSeen: true }
+  })
+  const deviceMap = new Map(devices.map(device => [device.id, device]))
+
+  const events = rows.map(row => {
+    const device = deviceMap.get(row.deviceId)
+    return {
+      id: row.id,
+      deviceId: row.deviceId,
+      deviceIp: row.deviceIp,
+      status: row.status,
+      timestamp: row.timestamp.toISOString(),
+      statusSince: device?.statusSince ? device.statusSince.toISOString() : null,
+      lastSeen: device?.lastSeen ? device.lastSeen.toISOString() : null
+    }
+  })
+
+  const last = rows[rows.length - 1]
+  return { events, cursor: { since: last.timestamp, afterId: last.id } }
+}
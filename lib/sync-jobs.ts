@@ -0,0 +1,370 @@
+/**
+ * MikroTik Sync Jobs
+ *
+ * Every write to a router's netwatch table (device and probe changes, moves
+ * between routers, bulk sync) is stored as a SyncJob. The request that caused
+ * it runs the first attempt right away so the user still sees the outcome;
+ * when it fails the job stays queued and the worker retries it with
+ * exponential backoff (30s, 1m, 2m, ... capped at 1h) until it succeeds or
+ * runs out of attempts. Each attempt is logged as a SyncJobAttempt.
+ *
+ * A device keeps needsSync while one of its jobs is open or failed, and the
+ * badge links to the jobs page with the last failure reason.
+ */
+
+import { prisma } from '@/lib/prisma'
+import type { ProbeRecord, ProbeSettings } from '@/lib/device-probes'
+import {
+  removeNetwatchEntry,
+  removeProbeFromMikroTik,
+  syncDeviceToMikroTik,
+  syncProbeToMikroTik
+} from '@/lib/mikrotik-sync'
+
+export const SYNC_JOB_KINDS = ['SYNC_DEVICE', 'REMOVE_DEVICE', 'SYNC_PROBE', 'REMOVE_PROBE'] as const
+export const SYNC_JOB_STATUSES = ['PENDING', 'RUNNING', 'SUCCEEDED', 'FAILED', 'CANCELLED'] as const
+
+export type SyncJobKind = typeof SYNC_JOB_KINDS[number]
+export type SyncJobStatus = typeof SYNC_JOB_STATUSES[number]
+
+export const SYNC_JOB_KIND_LABELS: Record<SyncJobKind, string> = {
+  SYNC_DEVICE: 'Sync device',
+  REMOVE_DEVICE: 'Remove from previous router',
+  SYNC_PROBE: 'Sync probe',
+  REMOVE_PROBE: 'Remove probe'
+}
+
+export const SYNC_JOB_MAX_ATTEMPTS = 8
+
+const RETRY_BASE_MS = 30 * 1000
+const RETRY_MAX_MS = 60 * 60 * 1000
+
+// A job left RUNNING this long was interrupted (worker or server restart)
+const STALE_RUNNING_MS = 5 * 60 * 1000
+
+// Jobs processed per worker cycle - the rest wait for the next one
+const JOBS_PER_CYCLE = 20
+
+// Finished jobs are kept this long for the jobs page
+const FINISHED_JOB_RETENTION_DAYS = 14
+
+// Retrying these cannot help - the entry is already gone
+const ALREADY_REMOVED = new Set(['Netwatch entry not found', 'Netwatch probe not found'])
+
+// States a device still waits on
+const OPEN_STATUSES = ['PENDING', 'RUNNING', 'FAILED']
+
+type SyncDevice = Parameters<typeof syncDeviceToMikroTik>[0] & { probes: ProbeRecord[] }
+
+export interface SyncJobPayload {
+  oldIP?: string // SYNC_DEVICE: entries not yet marked are still found by the previous IP
+  probeId?: string // SYNC_PROBE
+  previous?: ProbeSettings // SYNC_PROBE: type settings before an edit
+  probe?: ProbeRecord // REMOVE_PROBE: the deleted probe
+  routerId?: string // REMOVE_DEVICE: router the device left
+  device?: SyncDevice // REMOVE_DEVICE: the device as it was on that router
+}
+
+export interface SyncJobInput {
+  kind: SyncJobKind
+  device: { id: string; name: string }
+  payload?: SyncJobPayload
+}
+
+interface SyncJobRecord {
+  id: string
+  kind: string
+  deviceId: string | null
+  payload: string
+  attempts: number
+  maxAttempts: number
+}
+
+type SyncResult = { success: boolean; message: string }
+
+/**
+ * Wait before the next attempt after `attempts` failed ones
+ */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1), RETRY_MAX_MS)
+}
+
+function parsePayload(payload: string): SyncJobPayload {
+  try {
+    return JSON.parse(payload) ?? {}
+  } catch {
+    return {}
+  }
+}
+
+/**
+ * Queue a router write
+ *
+ * A device or probe sync that is still waiting is reused (keeping the oldest
+ * previous IP/settings) so repeated edits don't pile up jobs.
+ */
+export async function enqueueSyncJob(input: SyncJobInput, now: Date = new Date()) {
+  const payload = input.payload ?? {}
+
+  if (input.kind === 'SYNC_DEVICE' || input.kind === 'SYNC_PROBE') {
+    const waiting = await prisma.syncJob.findMany({
+      where: { kind: input.kind, deviceId: input.device.id, status: { in: ['PENDING', 'FAILED'] } },
+      orderBy: { createdAt: 'asc' }
+    })
+    const existing = waiting.find(job => parsePayload(job.payload).probeId === payload.probeId)
+
+    if (existing) {
+      const previous = parsePayload(existing.payload)
+      return prisma.syncJob.update({
+        where: { id: existing.id },
+        data: {
+          deviceName: input.device.name,
+          payload: JSON.stringify({
+            ...payload,
+            oldIP: previous.oldIP ?? payload.oldIP,
+            previous: previous.previous ?? payload.previous
+          }),
+          status: 'PENDING',
+          attempts: 0,
+          nextRunAt: now,
+          finishedAt: null
+        }
+      })
+    }
+  }
+
+  return prisma.syncJob.create({
+    data: {
+      kind: input.kind,
+      deviceId: input.device.id,
+      deviceName: input.device.name,
+      payload: JSON.stringify(payload),
+      maxAttempts: SYNC_JOB_MAX_ATTEMPTS,
+      nextRunAt: now
+    }
+  })
+}
+
+/**
+ * Carry out one job against the router
+ *
+ * @param loaded - The job's device with probes when the caller already has it
+ */
+async function executeSyncJob(job: SyncJobRecord, loaded?: SyncDevice): Promise<SyncResult> {
+  const payload = parsePayload(job.payload)
+
+  if (job.kind === 'REMOVE_DEVICE') {
+    if (!payload.device || !payload.routerId) {
+      return { success: false, message: 'Invalid job payload' }
+    }
+    return removeNetwatchEntry(payload.device, payload.routerId)
+  }
+
+  const device = loaded ?? (job.deviceId
+    ? await prisma.device.findUnique({ where: { id: job.deviceId }, include: { probes: true } })
+    : null)
+
+  if (!device) {
+    return { success: true, message: 'Device was deleted - nothing to sync' }
+  }
+
+  switch (job.kind) {
+    case 'SYNC_DEVICE':
+      return syncDeviceToMikroTik(device, payload.oldIP)
+
+    case 'SYNC_PROBE': {
+      const probe = device.probes.find(candidate => candidate.id === payload.probeId)
+      if (!probe) {
+        return { success: true, message: 'Probe was deleted - nothing to sync' }
+      }
+      return syncProbeToMikroTik(device, probe, payload.previous)
+    }
+
+    case 'REMOVE_PROBE':
+      if (!payload.probe) {
+        return { success: false, message: 'Invalid job payload' }
+      }
+      return removeProbeFromMikroTik(device, payload.probe)
+
+    default:
+      return { success: false, message: `Unknown job kind ${job.kind}` }
+  }
+}
+
+/**
+ * Flag the device while it has jobs that haven't gone through
+ */
+async function updateNeedsSync(deviceId: string | null): Promise<void> {
+  if (!deviceId) return
+
+  const open = await prisma.syncJob.count({
+    where: { deviceId, status: { in: OPEN_STATUSES } }
+  })
+
+  await prisma.device.updateMany({
+    where: { id: deviceId },
+    data: { needsSync: open > 0 }
+  })
+}
+
+/**
+ * Run one attempt of a queued job and schedule the next one on failure
+ *
+ * The job is claimed first, so the worker and a request never run it twice.
+ *
+ * @param loaded - The job's device with probes when the caller already has it
+ */
+export async function runSyncJob(job: SyncJobRecord, loaded?: SyncDevice, now: Date = new Date()): Promise<SyncResult> {
+  const claimed = await prisma.syncJob.updateMany({
+    where: { id: job.id, status: 'PENDING' },
+    data: { status: 'RUNNING' }
+  })
+
+  if (claimed.count === 0) {
+    return { success: false, message: 'Sync job is already running or finished' }
+  }
+
+  let result: SyncResult
+  try {
+    result = await executeSyncJob(job, loaded)
+  } catch (error: any) {
+    result = { success: false, message: error.message || 'Sync failed' }
+  }
+
+  if (!result.success && ALREADY_REMOVED.has(result.message)) {
+    result = { success: true, message: result.message }
+  }
+
+  const attempt = job.attempts + 1
+  const exhausted = attempt >= job.maxAttempts
+
+  await prisma.syncJob.update({
+    where: { id: job.id },
+    data: result.success
+      ? { status: 'SUCCEEDED', attempts: attempt, finishedAt: now }
+      : {
+          status: exhausted ? 'FAILED' : 'PENDING',
+          attempts: attempt,
+          lastError: result.message,
+          nextRunAt: new Date(now.getTime() + retryDelayMs(attempt)),
+          finishedAt: exhausted ? now : null
+        }
+  })
+  await prisma.syncJobAttempt.create({
+    data: { jobId: job.id, attempt, success: result.success, message: result.message }
+  })
+  await updateNeedsSync(job.deviceId)
+
+  return result
+}
+
+/**
+ * Queue a router write and make its first attempt right away
+ *
+ * @returns The attempt's outcome; on failure the worker keeps retrying
+ */
+export async function runSyncJobNow(input: SyncJobInput, loaded?: SyncDevice): Promise<SyncResult & { jobId: string }> {
+  const job = await enqueueSyncJob(input)
+  const result = await runSyncJob(job, loaded)
+
+  return { ...result, jobId: job.id }
+}
+
+/**
+ * Retry the jobs whose backoff has passed - called every worker cycle
+ *
+ * @returns Number of jobs attempted
+ */
+export async function processDueSyncJobs(now: Date = new Date()): Promise<number> {
+  // Jobs interrupted mid-run go back to the queue
+  await prisma.syncJob.updateMany({
+    where: { status: 'RUNNING', updatedAt: { lt: new Date(now.getTime() - STALE_RUNNING_MS) } },
+    data: { status: 'PENDING' }
+  })
+
+  const jobs = await prisma.syncJob.findMany({
+    where: { status: 'PENDING', nextRunAt: { lte: now } },
+    orderBy: { createdAt: 'asc' },
+    take: JOBS_PER_CYCLE
+  })
+
+  for (const job of jobs) {
+    await runSyncJob(job, undefined, now)
+  }
+
+  return jobs.length
+}
+
+/**
+ * Run a waiting or failed job again right away with a fresh set of attempts
+ *
+ * @returns The outcome of the attempt; on failure the worker keeps retrying
+ */
+export async function retrySyncJob(id: string, now: Date = new Date()): Promise<SyncResult> {
+  const updated = await prisma.syncJob.updateMany({
+    where: { id, status: { in: ['PENDING', 'FAILED'] } },
+    data: { status: 'PENDING', attempts: 0, nextRunAt: now, finishedAt: null }
+  })
+  const job = updated.count > 0 ? await prisma.syncJob.findUnique({ where: { id } }) : null
+
+  if (!job) {
+    return { success: false, message: 'Only waiting or failed jobs can be retried' }
+  }
+
+  return runSyncJob(job, undefined, now)
+}
+
+/**
+ * Give up on a waiting or failed job
+ */
+export async function cancelSyncJob(id: string, now: Date = new Date()): Promise<SyncResult> {
+  const job = await prisma.syncJob.findUnique({ where: { id } })
+
+  if (!job || (job.status !== 'PENDING' && job.status !== 'FAILED')) {
+    return { success: false, message: 'Only waiting or failed jobs can be cancelled' }
+  }
+
+  await prisma.syncJob.update({
+    where: { id },
+    data: { status: 'CANCELLED', finishedAt: now }
+  })
+  await updateNeedsSync(job.deviceId)
+
+  return { success: true, message: 'Sync job cancelled' }
+}
+
+/**
+ * Last failure reason of each device that still has open jobs - for the needsSync badge
+ */
+export async function getLastSyncErrors(deviceIds: string[]): Promise<Map<string, string>> {
+  const errors = new Map<string, string>()
+  if (deviceIds.length === 0) return errors
+
+  const jobs = await prisma.syncJob.findMany({
+    where: { deviceId: { in: deviceIds }, status: { in: OPEN_STATUSES }, lastError: { not: null } },
+    select: { deviceId: true, lastError: true },
+    orderBy: { updatedAt: 'desc' }
+  })
+
+  for (const job of jobs) {
+    if (job.deviceId && job.lastError && !errors.has(job.deviceId)) {
+      errors.set(job.deviceId, job.lastError)
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Delete finished jobs past the retention period
+ *
+ * @returns Number of jobs deleted
+ */
+export async function pruneSyncJobs(now: Date = new Date()): Promise<number> {
+  const cutoff = new Date(now.getTime() - FINISHED_JOB_RETENTION_DAYS * 24 * 60 * 60 * 1000)
+  const { count } = await prisma.syncJob.deleteMany({
+    where: { status: { in: ['SUCCEEDED', 'CANCELLED'] }, finishedAt: { lt: cutoff } }
+  })
+
+  return count
+}
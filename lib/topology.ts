@@ -0,0 +1,135 @@
+/**
+ * Topology & Root-Cause Suppression
+ *
+ * Connections can mark one end as upstream of the other. When every parent of
+ * a down device is down as well, the device is "unreachable" rather than down:
+ * it is not alerted on and the map points at the root cause instead.
+ *
+ * Pure functions - used by the worker and by the map.
+ */
+
+export const UNREACHABLE_STATUS = 'unreachable'
+
+export const CONNECTION_UPSTREAM = ['NONE', 'SOURCE', 'TARGET'] as const
+
+export type ConnectionUpstream = typeof CONNECTION_UPSTREAM[number]
+
+export interface TopologyConnection {
+  sourceId: string
+  targetId: string
+  upstream: string
+}
+
+export function isConnectionUpstream(value: unknown): value is ConnectionUpstream {
+  return CONNECTION_UPSTREAM.includes(value as ConnectionUpstream)
+}
+
+/**
+ * Down or unreachable - the device does not answer either way
+ */
+export function isDownStatus(status: string | undefined): boolean {
+  return status === 'down' || status === UNREACHABLE_STATUS
+}
+
+/**
+ * Map each device to its upstream devices
+ */
+export function buildParentMap(connections: TopologyConnection[]): Map<string, string[]> {
+  const parents = new Map<string, string[]>()
+
+  for (const connection of connections) {
+    let parentId: string
+    let childId: string
+
+    if (connection.upstream === 'SOURCE') {
+      parentId = connection.sourceId
+      childId = connection.targetId
+    } else if (connection.upstream === 'TARGET') {
+      parentId = connection.targetId
+      childId = connection.sourceId
+    } else {
+      continue
+    }
+
+    parents.set(childId, [...(parents.get(childId) || []), parentId])
+  }
+
+  return parents
+}
+
+/**
+ * Split down devices into root causes ("down") and their dependents ("unreachable")
+ *
+ * A down device is unreachable when all of its parents are down and at least
+ * one of them leads back to a root cause. Devices in a loop with no root stay
+ * down, so a misdrawn graph never silences alerts entirely.
+ *
+ * @param statuses - Current status per device ("unreachable" is treated as down)
+ * @returns Resolved status per device
+ */
+export function resolveTopologyStatuses(
+  statuses: Map<string, string>,
+  parents: Map<string, string[]>
+): Map<string, string> {
+  const resolved = new Map<string, string>()
+  const children = new Map<string, string[]>()
+
+  statuses.forEach((status, deviceId) => {
+    resolved.set(deviceId, status === UNREACHABLE_STATUS ? 'down' : status)
+  })
+
+  parents.forEach((parentIds, childId) => {
+    for (const parentId of parentIds) {
+      children.set(parentId, [...(children.get(parentId) || []), childId])
+    }
+  })
+
+  const allParentsDown = (deviceId: string) => {
+    const parentIds = parents.get(deviceId) || []
+    return parentIds.length > 0 && parentIds.every(parentId => isDownStatus(resolved.get(parentId)))
+  }
+
+  // Roots: down devices that still have a working (or no) upstream path
+  const queue: string[] = []
+  resolved.forEach((status, deviceId) => {
+    if (status === 'down' && !allParentsDown(deviceId)) {
+      queue.push(deviceId)
+    }
+  })
+
+  // Walk downstream from the roots
+  while (queue.length > 0) {
+    const deviceId = queue.shift()!
+
+    for (const childId of children.get(deviceId) || []) {
+      if (resolved.get(childId) === 'down' && allParentsDown(childId)) {
+        resolved.set(childId, UNREACHABLE_STATUS)
+        queue.push(childId)
+      }
+    }
+  }
+
+  return resolved
+}
+
+/**
+ * Down devices that have unreachable dependents - highlighted on the map
+ */
+export function findRootCauses(
+  statuses: Map<string, string>,
+  parents: Map<string, string[]>
+): Set<string> {
+  const rootCauses = new Set<string>()
+
+  parents.forEach((parentIds, childId) => {
+    if (statuses.get(childId) !== UNREACHABLE_STATUS) return
+
+    for (const parentId of parentIds) {
+      if (statuses.get(parentId) === 'down') {
+        rootCauses.add(parentId)
+      }
+    }
+  })
+
+  return rootCauses
+}
@@ -17,6 +17,7 @@ export default auth((req) => {
     if (role) {
       // Admin-only routes - ADMIN only
       if ((pathname.startsWith('/dashboard/admin/config') || 
+           pathname.startsWith('/dashboard/admin/alerts') ||
            pathname.startsWith('/dashboard/admin/users')) && 
           role !== 'ADMIN') {
         return NextResponse.redirect(new URL('/dashboard/map', req.url))
@@ -0,0 +1,105 @@
+/**
+ * Regenerate lib/oui-registry.ts from the IEEE MA-L (OUI) registry
+ *
+ * Usage:
+ *   npm run oui:update              # download the registry from the IEEE
+ *   npm run oui:update -- oui.csv   # use a copy downloaded beforehand
+ *
+ * Only MA-L assignments are kept - the 24-bit prefixes lookupOuiVendor reads.
+ * Organization names are shortened by their legal suffix ("Dell Inc." ->
+ * "Dell") so the vendor column and classification rules stay readable.
+ */
+
+import { readFileSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { parseCsv } from '../lib/spreadsheet'
+
+const REGISTRY_URL = 'https://standards-oui.ieee.org/oui/oui.csv'
+const OUTPUT = join(__dirname, '..', 'lib', 'oui-registry.ts')
+
+// Brands better known than the company that registered the prefix
+const VENDOR_ALIASES: Record<string, string> = {
+  'Routerboard.com': 'MikroTik',
+  'Mikrotikls SIA': 'MikroTik'
+}
+
+const LEGAL_SUFFIX = /[\s,.]*\b(inc|incorporated|corp|corporation|corporate|co|company|ltd|limited|llc|l\.l\.c|gmbh|ag|ab|sa|s\.a|bv|b\.v|nv|pty|plc|oy|as|a\/s|kk|k\.k|s\.p\.a|spa|srl|s\.r\.l|sas|sdn bhd)\.?$/i
+
+function shortenVendorName(organization: string): string {
+  const trimmed = organization.replace(/\s+/g, ' ').trim()
+  if (VENDOR_ALIASES[trimmed]) {
+    return VENDOR_ALIASES[trimmed]
+  }
+
+  let name = trimmed
+  for (let previous = ''; previous !== name;) {
+    previous = name
+    name = name.replace(LEGAL_SUFFIX, '').replace(/[\s,.&-]+$/, '')
+  }
+  return name || trimmed
+}
+
+async function readRegistry(path: string | undefined): Promise<string> {
+  if (path) {
+    return readFileSync(path, 'utf8')
+  }
+
+  const response = await fetch(REGISTRY_URL)
+  if (!response.ok) {
+    throw new Error(`Failed to download ${REGISTRY_URL}: HTTP ${response.status}`)
+  }
+  return response.text()
+}
+
+async function main() {
+  const [header, ...rows] = parseCsv(await readRegistry(process.argv[2]))
+  const registryColumn = header.indexOf('Registry')
+  const assignmentColumn = header.indexOf('Assignment')
+  const organizationColumn = header.indexOf('Organization Name')
+  if (registryColumn === -1 || assignmentColumn === -1 || organizationColumn === -1) {
+    throw new Error('Not an IEEE registry CSV: expected Registry, Assignment and Organization Name columns')
+  }
+
+  const assignments = new Map<string, string>()
+  for (const row of rows) {
+    const prefix = (row[assignmentColumn] || '').trim().toUpperCase()
+    if (row[registryColumn] === 'MA-L' && /^[0-9A-F]{6}$/.test(prefix)) {
+      assignments.set(prefix, shortenVendorName(row[organizationColumn] || ''))
+    }
+  }
+  if (assignments.size === 0) {
+    throw new Error('The registry has no MA-L assignments')
+  }
+
+  const prefixes = Array.from(assignments.keys()).sort()
+  const vendors = Array.from(new Set(prefixes.map(prefix => assignments.get(prefix)!))).sort()
+  const vendorIndex = new Map(vendors.map((vendor, index) => [vendor, index] as [string, number]))
+
+  // "PREFIX" + vendor index in base 36, comma separated - a quarter of the size of an object literal
+  const table = prefixes.map(prefix => prefix + vendorIndex.get(assignments.get(prefix)!)!.toString(36)).join(',')
+
+  writeFileSync(OUTPUT, [
+    '/**',
+    ' * IEEE MA-L (OUI) Registry',
+    ' *',
+    ` * Generated by scripts/update-oui-registry.ts on ${new Date().toISOString().slice(0, 10)} - do not edit,`,
+    ' * run `npm run oui:update` instead.',
+    ' */',
+    '',
+    `export const OUI_REGISTRY_SIZE = ${prefixes.length}`,
+    '',
+    '// Vendor names, sorted',
+    `export const OUI_VENDORS: string[] = ${JSON.stringify(vendors)}`,
+    '',
+    '// Sorted "PREFIX<vendor index in base 36>" entries, comma separated',
+    `export const OUI_ASSIGNMENTS = ${JSON.stringify(table)}`,
+    ''
+  ].join('\n'))
+
+  console.log(`Wrote ${prefixes.length} prefixes of ${vendors.length} vendors to ${OUTPUT}`)
+}
+
+main().catch(error => {
+  console.error(error)
+  process.exit(1)
+})
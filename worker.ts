@@ -1,150 +1,480 @@
-import { PrismaClient } from '@prisma/client'
-import { RouterOSAPI } from 'node-routeros'
-
-const prisma = new PrismaClient()
+import { prisma } from './lib/prisma'
+import { isDefaultRouter, migrateLegacyRouterConfig, migrateStoredPasswords, RouterRecord } from './lib/routers'
+import { RouterOSConnectionConfig, routerToConnectionConfig, withRouterOS } from './lib/routeros-connection'
+import { createPollScheduler } from './lib/poll-scheduler'
+import { evaluateDownAlerts, notifyRecovery } from './lib/alerts'
+import { closeAllRouterOSSessions, getRouterOSPoolHealth, pruneRouterOSSessions } from './lib/routeros-pool'
+import { getDeviceIdsInMaintenance } from './lib/maintenance'
+import { observeDeviceDegradation, observeDeviceStatus, pruneStatusObservations, StatusDebounceSettings, toStatusDebounceSettings } from './lib/status-debounce'
+import { buildParentMap, isDownStatus, resolveTopologyStatuses, UNREACHABLE_STATUS } from './lib/topology'
+import { rollupUptime } from './lib/sla'
+import { applyHistoryRetention } from './lib/history-retention'
+import { runDueReports } from './lib/scheduled-reports'
+import { runDueDriftReport } from './lib/netwatch-reconcile'
+import { processDueSyncJobs, pruneSyncJobs } from './lib/sync-jobs'
+import {
+  DEGRADED_STATUS,
+  DeviceMetricSample,
+  isDegraded,
+  isUpStatus,
+  parseNetwatchMetrics,
+  pruneDeviceMetrics,
+  recordDeviceMetrics
+} from './lib/device-metrics'
+import { commitProbeStatuses, hasFailingProbe, matchDeviceProbes } from './lib/device-probes'
+import { MAC_REFRESH_INTERVAL_MS, MacBindingDevice, refreshMacBindings } from './lib/mac-bindings'
 
 /**
- * Poll MikroTik Netwatch for device status updates
+ * Poll MikroTik Netwatch on every enabled router for device status updates
  */
 async function pollMikroTik(): Promise<void> {
   try {
     console.log('Starting MikroTik poll...')
     
-    // Load SystemConfig from database
+    // Load enabled routers from database
+    const routers = await prisma.router.findMany({
+      where: { enabled: true }
+    })
+    
+    // Drop sessions of routers that were deleted or disabled
+    pruneRouterOSSessions(routers.map(router => router.id))
+    
+    if (routers.length === 0) {
+      console.log('No MikroTik routers configured - skipping poll')
+      return
+    }
+    
+    // Debounce settings are read once per cycle so changes apply on the next poll
     const config = await prisma.systemConfig.findUnique({
       where: { id: 1 }
     })
+    const debounce = toStatusDebounceSettings(config)
     
-    if (!config || !config.mikrotikIp) {
-      console.log('MikroTik not configured - skipping poll')
-      return
+    // Forget debounce state of devices that were deleted
+    const deviceIds = await prisma.device.findMany({ select: { id: true } })
+    pruneStatusObservations(deviceIds.map(device => device.id))
+    
+    // History rows recorded during maintenance are tagged so uptime can skip them
+    const inMaintenance = await getDeviceIdsInMaintenance()
+    await recordMaintenanceTransitions(inMaintenance)
+    
+    // Poll routers one by one - a failing router must not block the others
+    // Environment overrides apply when there is only one router to poll
+    const routerIds = routers.map(router => router.id)
+    const observations = new Map<string, string>()
+    const metrics = new Map<string, DeviceMetricSample>()
+    const probeStatuses = new Map<string, string>()
+    for (const router of routers) {
+      await pollRouter(router, isDefaultRouter(router.id, routerIds), observations, metrics, probeStatuses)
     }
     
-    console.log(`Connecting to MikroTik at ${config.mikrotikIp}:${config.mikrotikPort}`)
+    // Commit once every router answered, so topology sees parents and children together
+    await commitDeviceStatuses(observations, metrics, probeStatuses, debounce, inMaintenance)
+    
+    // Latency/loss time series - a failed write must not stop alerting
+    try {
+      await recordDeviceMetrics(metrics)
+    } catch (error) {
+      console.error('Metric recording error:', error)
+    }
+    
+    // Extra probe states for the device popup
+    try {
+      await commitProbeStatuses(probeStatuses)
+    } catch (error) {
+      console.error('Probe status error:', error)
+    }
     
-    // Connect to MikroTik using configured credentials
-    const api = new RouterOSAPI({
-      host: config.mikrotikIp,
-      user: config.mikrotikUser,
-      password: config.mikrotikPass,
-      port: config.mikrotikPort
+    // Down alerts and reminders - alerting problems must not stop polling
+    try {
+      await evaluateDownAlerts()
+    } catch (error) {
+      console.error('Alert evaluation error:', error)
+    }
+    
+    // Retry queued router writes whose backoff has passed
+    try {
+      const jobs = await processDueSyncJobs()
+      if (jobs > 0) {
+        console.log(`Retried ${jobs} sync job(s)`)
+      }
+    } catch (error) {
+      console.error('Sync job error:', error)
+    }
+    
+    console.log('MikroTik poll completed successfully')
+    
+  } catch (error) {
+    // Handle database errors gracefully (log and continue)
+    console.error('MikroTik polling error:', error)
+    console.log('Will retry on next polling cycle')
+    // Don't crash - continue polling
+  }
+}
+
+// Devices in maintenance on the previous cycle (null until the first cycle ran)
+let previousMaintenance: Set<string> | null = null
+
+/**
+ * Start a new history segment when a device enters or leaves maintenance
+ *
+ * Without this a device that went down during maintenance and stays down
+ * afterwards would keep its tagged row, hiding the real outage from uptime.
+ */
+async function recordMaintenanceTransitions(inMaintenance: Set<string>): Promise<void> {
+  const previous = previousMaintenance
+  previousMaintenance = inMaintenance
+  
+  if (!previous) {
+    return
+  }
+  
+  const changedIds = [
+    ...Array.from(inMaintenance).filter(id => !previous.has(id)),
+    ...Array.from(previous).filter(id => !inMaintenance.has(id))
+  ]
+  
+  if (changedIds.length === 0) {
+    return
+  }
+  
+  const devices = await prisma.device.findMany({
+    where: { id: { in: changedIds }, statusSince: { not: null } }
+  })
+  
+  for (const device of devices) {
+    await prisma.deviceStatusHistory.create({
+      data: {
+        deviceId: device.id,
+        deviceIp: device.ip,
+        status: device.status,
+        maintenance: inMaintenance.has(device.id),
+        timestamp: new Date()
+      }
     })
     
-    await api.connect()
-    console.log('Connected to MikroTik successfully')
+    console.log(`Device ${device.name} (${device.ip}) ${inMaintenance.has(device.id) ? 'entered' : 'left'} maintenance`)
+  }
+}
+
+// When each router's ARP table was last read for MAC bindings
+const lastMacRefresh = new Map<string, number>()
+
+/**
+ * Refresh the MACs of a router's devices from its ARP table, at most every MAC_REFRESH_INTERVAL_MS
+ */
+async function refreshRouterMacBindings(
+  router: RouterRecord,
+  config: RouterOSConnectionConfig,
+  devices: MacBindingDevice[]
+): Promise<void> {
+  const lastRefresh = lastMacRefresh.get(router.id)
+  if (lastRefresh !== undefined && Date.now() - lastRefresh < MAC_REFRESH_INTERVAL_MS) return
+  
+  // A failed read waits for the next interval like a successful one
+  lastMacRefresh.set(router.id, Date.now())
+  
+  try {
+    const arp = await withRouterOS(config, (api) => api.write('/ip/arp/print'))
+    const changes = await refreshMacBindings(devices, arp)
     
-    // Execute /tool/netwatch/print command
-    const netwatchData = await api.write('/tool/netwatch/print')
-    console.log(`Retrieved ${netwatchData.length} netwatch entries`)
+    for (const change of changes) {
+      console.warn(`Device ${change.name} (${change.ip}) MAC changed from ${change.previousMacAddress} to ${change.macAddress} - possible replacement or spoof`)
+    }
+  } catch (error) {
+    console.error(`MAC refresh error on "${router.name}":`, error instanceof Error ? error.message : error)
+  }
+}
+
+/**
+ * Poll a single router and collect the raw netwatch status and probe metrics of its devices
+ * and the status of their extra probes
+ */
+async function pollRouter(
+  router: RouterRecord,
+  isDefault: boolean,
+  observations: Map<string, string>,
+  metrics: Map<string, DeviceMetricSample>,
+  probeStatuses: Map<string, string>
+): Promise<void> {
+  try {
+    const config = routerToConnectionConfig(router, isDefault)
     
-    // Get all devices from database
-    const devices = await prisma.device.findMany()
-    console.log(`Found ${devices.length} devices in database`)
+    // Execute /tool/netwatch/print over the router's persistent session
+    const netwatchData = await withRouterOS(config, (api) => api.write('/tool/netwatch/print'))
+    console.log(`Retrieved ${netwatchData.length} netwatch entries from "${router.name}"`)
+    
+    // Get devices monitored by this router
+    const devices = await prisma.device.findMany({
+      where: { routerId: router.id },
+      include: { probes: true }
+    })
+    console.log(`Found ${devices.length} devices bound to "${router.name}"`)
     
     // Compare netwatch results with database devices
     for (const device of devices) {
-      const netwatchEntry = netwatchData.find(
-        (entry: any) => entry.host === device.ip
-      )
+      // A host can have several entries - the device's own probe and its extra probes
+      const { mainEntry: netwatchEntry, probeEntries } = matchDeviceProbes(netwatchData, device)
+      
+      probeEntries.forEach((entry, probeId) => {
+        probeStatuses.set(probeId, entry.status === 'up' ? 'up' : 'down')
+      })
       
       if (netwatchEntry) {
-        const newStatus = netwatchEntry.status === 'up' ? 'up' : 'down'
-        
-        // Check if this is first time getting status (statusSince is null)
-        const isFirstStatus = !device.statusSince
+        observations.set(device.id, netwatchEntry.status === 'up' ? 'up' : 'down')
         
-        // Update device status and lastSeen when changed
-        if (device.status !== newStatus) {
-          await prisma.device.update({
-            where: { id: device.id },
-            data: {
-              status: newStatus,
-              lastSeen: new Date(),
-              statusSince: new Date() // Track when status changed
-            }
-          })
-          
-          // Log status change to history
-          await prisma.deviceStatusHistory.create({
-            data: {
-              deviceId: device.id,
-              deviceIp: device.ip,
-              status: newStatus,
-              timestamp: new Date()
-            }
-          })
-          
-          console.log(`Device ${device.name} (${device.ip}) status changed from ${device.status} to ${newStatus}`)
-        } else if (isFirstStatus) {
-          // First time getting status - set statusSince and log to history
-          await prisma.device.update({
-            where: { id: device.id },
-            data: {
-              statusSince: new Date(),
-              lastSeen: newStatus === 'up' ? new Date() : device.lastSeen
-            }
-          })
-          
-          // Log initial status to history
-          await prisma.deviceStatusHistory.create({
-            data: {
-              deviceId: device.id,
-              deviceIp: device.ip,
-              status: newStatus,
-              timestamp: new Date()
-            }
-          })
-          
-          console.log(`Device ${device.name} (${device.ip}) first status recorded: ${newStatus}`)
-        } else if (newStatus === 'up') {
-          // Update lastSeen even if status hasn't changed but device is up
-          await prisma.device.update({
-            where: { id: device.id },
-            data: {
-              lastSeen: new Date()
-            }
-          })
+        // Only ICMP probes on RouterOS 7 report latency and loss
+        const sample = parseNetwatchMetrics(netwatchEntry)
+        if (sample) {
+          metrics.set(device.id, sample)
         }
       } else {
         console.log(`Device ${device.name} (${device.ip}) not found in netwatch results`)
       }
     }
     
-    await api.close()
-    console.log('MikroTik poll completed successfully')
+    await refreshRouterMacBindings(router, config, devices)
+    
+    console.log(`Poll of "${router.name}" completed successfully`)
     
   } catch (error) {
-    // Handle connection errors gracefully (log and continue)
-    console.error('MikroTik polling error:', error)
-    console.log('Will retry on next polling cycle')
-    // Don't crash - continue polling
+    // Handle connection errors gracefully (log and continue with next router)
+    // The session backs off on its own, so an unreachable router is not retried every cycle
+    console.error(`MikroTik polling error on "${router.name}":`, error instanceof Error ? error.message : error)
+    
+    const health = getRouterOSPoolHealth().find(session => session.routerId === router.id)
+    if (health && health.state === 'backoff' && health.nextRetryAt) {
+      console.log(`Router "${router.name}" in backoff after ${health.consecutiveFailures} failure(s), next attempt at ${health.nextRetryAt.toISOString()}`)
+    }
   }
 }
 
 /**
- * Start the poller with setInterval using polling interval from SystemConfig
+ * Debounce the observed statuses, resolve topology and write changes
+ *
+ * Devices without an observation (router unreachable, not in netwatch) keep
+ * their status but still act as parents for topology. Up devices above their
+ * latency/loss thresholds or with an extra probe down are committed as degraded,
+ * debounced like up/down.
  */
-async function startPoller(): Promise<void> {
-  console.log('Starting MikroTik poller worker...')
+async function commitDeviceStatuses(
+  observations: Map<string, string>,
+  metrics: Map<string, DeviceMetricSample>,
+  probeStatuses: Map<string, string>,
+  debounce: StatusDebounceSettings,
+  inMaintenance: Set<string>
+): Promise<void> {
+  const devices = await prisma.device.findMany({
+    include: { probes: { select: { id: true } } }
+  })
+  const connections = await prisma.deviceConnection.findMany({
+    where: { upstream: { not: 'NONE' } }
+  })
   
-  try {
-    // Initial poll
-    await pollMikroTik()
+  // Only commit a change once it is confirmed (or the device is flapping)
+  // "unreachable" is down and "degraded" is up as far as the debounce is concerned
+  const candidates = new Map<string, string>()
+  for (const device of devices) {
+    const committed = device.status === UNREACHABLE_STATUS ? 'down' : device.status === DEGRADED_STATUS ? 'up' : device.status
+    const observedStatus = observations.get(device.id)
     
-    // Get polling interval from SystemConfig
+    candidates.set(
+      device.id,
+      observedStatus ? observeDeviceStatus(device.id, observedStatus, committed, debounce) ?? committed : committed
+    )
+  }
+  
+  // Devices behind a down parent become unreachable instead of down
+  const resolved = resolveTopologyStatuses(candidates, buildParentMap(connections))
+  
+  for (const device of devices) {
+    const observedStatus = observations.get(device.id)
+    if (!observedStatus) continue
+    
+    const reachability = resolved.get(device.id) ?? device.status
+    const degraded = reachability === 'up' && observeDeviceDegradation(
+      device.id,
+      isDegraded(metrics.get(device.id), device) || hasFailingProbe(device.probes.map(probe => probe.id), probeStatuses),
+      isUpStatus(device.status) ? device.status === DEGRADED_STATUS : null,
+      debounce
+    )
+    const newStatus = degraded ? DEGRADED_STATUS : reachability
+    
+    // Check if this is first time getting status (statusSince is null)
+    const isFirstStatus = !device.statusSince
+    
+    // Update device status and lastSeen when changed
+    if (device.status !== newStatus) {
+      // Switching between down and unreachable continues the same outage
+      const outageContinues = isDownStatus(device.status) && isDownStatus(newStatus) && device.statusSince
+      
+      await prisma.device.update({
+        where: { id: device.id },
+        data: {
+          status: newStatus,
+          lastSeen: new Date(),
+          statusSince: outageContinues ? device.statusSince : new Date() // Track when status changed
+        }
+      })
+      
+      // Log status change to history
+      await prisma.deviceStatusHistory.create({
+        data: {
+          deviceId: device.id,
+          deviceIp: device.ip,
+          status: newStatus,
+          maintenance: inMaintenance.has(device.id),
+          timestamp: new Date()
+        }
+      })
+      
+      console.log(`Device ${device.name} (${device.ip}) status changed from ${device.status} to ${newStatus}`)
+      
+      // Recovery alerts go out right away; down alerts wait for the rule's minimum duration
+      // (both are muted during maintenance, unreachable devices are never alerted as down)
+      if (isUpStatus(newStatus) && isDownStatus(device.status) && device.statusSince) {
+        try {
+          await notifyRecovery(device.id, device.statusSince)
+        } catch (error) {
+          console.error(`Recovery alert error for ${device.name}:`, error)
+        }
+      }
+    } else if (isFirstStatus) {
+      // First time getting status - set statusSince and log to history
+      await prisma.device.update({
+        where: { id: device.id },
+        data: {
+          statusSince: new Date(),
+          lastSeen: observedStatus === 'up' ? new Date() : device.lastSeen
+        }
+      })
+      
+      // Log initial status to history
+      await prisma.deviceStatusHistory.create({
+        data: {
+          deviceId: device.id,
+          deviceIp: device.ip,
+          status: newStatus,
+          maintenance: inMaintenance.has(device.id),
+          timestamp: new Date()
+        }
+      })
+      
+      console.log(`Device ${device.name} (${device.ip}) first status recorded: ${newStatus}`)
+    } else if (observedStatus === 'up') {
+      // Update lastSeen even if status hasn't changed (or isn't confirmed yet) but device is up
+      await prisma.device.update({
+        where: { id: device.id },
+        data: {
+          lastSeen: new Date()
+        }
+      })
+    }
+  }
+}
+
+// Poll loop - reschedules itself and follows pollingInterval changes without a restart
+const scheduler = createPollScheduler({
+  poll: pollMikroTik,
+  loadIntervalSeconds: async () => {
     const config = await prisma.systemConfig.findUnique({
-      where: { id: 1 }
+      where: { id: 1 },
+      select: { pollingInterval: true }
     })
+    return config?.pollingInterval
+  }
+})
+
+// Completed days are rolled up hourly - the run after midnight picks up yesterday
+const HOUSEKEEPING_INTERVAL_MS = 60 * 60 * 1000
+let housekeepingTimer: ReturnType<typeof setInterval> | null = null
+
+/**
+ * Prune old latency samples and finished sync jobs, roll status history into
+ * uptime tables, generate due scheduled reports and the daily drift report,
+ * then apply history retention if the rollup succeeded
+ */
+async function runHousekeeping(): Promise<void> {
+  try {
+    const pruned = await pruneDeviceMetrics()
+    if (pruned > 0) {
+      console.log(`Pruned ${pruned} latency sample(s)`)
+    }
+  } catch (error) {
+    console.error('Metric pruning error:', error)
+  }
+  
+  try {
+    const jobs = await pruneSyncJobs()
+    if (jobs > 0) {
+      console.log(`Pruned ${jobs} finished sync job(s)`)
+    }
+  } catch (error) {
+    console.error('Sync job pruning error:', error)
+  }
+  
+  let rolledUp = false
+  try {
+    const days = await rollupUptime()
+    if (days > 0) {
+      console.log(`Rolled up uptime for ${days} day(s)`)
+    }
+    rolledUp = true
+  } catch (error) {
+    console.error('Uptime rollup error:', error)
+  }
+
+  try {
+    const reports = await runDueReports()
+    if (reports > 0) {
+      console.log(`Generated ${reports} scheduled report(s)`)
+    }
+  } catch (error) {
+    console.error('Scheduled report error:', error)
+  }
+
+  try {
+    if (await runDueDriftReport()) {
+      console.log('Generated netwatch drift report')
+    }
+  } catch (error) {
+    console.error('Drift report error:', error)
+  }
+
+  // Retention only deletes what is rolled up, but skip it while rollups are failing
+  if (!rolledUp) {
+    return
+  }
+
+  try {
+    const { compacted, purged } = await applyHistoryRetention()
+    if (compacted > 0 || purged > 0) {
+      console.log(`History retention: compacted ${compacted} row(s), purged ${purged} row(s) of deleted devices`)
+    }
+  } catch (error) {
+    console.error('History retention error:', error)
+  }
+}
+
+/**
+ * Start the poller using the polling interval from SystemConfig
+ */
+async function startPoller(): Promise<void> {
+  console.log('Starting MikroTik poller worker...')
+  
+  try {
+    // Move legacy single-router credentials into a Router record
+    await migrateLegacyRouterConfig()
     
-    const intervalSeconds = config?.pollingInterval || 30
-    const intervalMs = intervalSeconds * 1000
+    // Encrypt plain-text passwords and rotate values to the current key
+    await migrateStoredPasswords()
     
-    console.log(`Setting up polling interval: ${intervalSeconds} seconds`)
+    // Initial poll, then follow-up polls on the configured interval
+    await scheduler.start()
     
-    // Set up interval polling
-    setInterval(async () => {
-      await pollMikroTik()
-    }, intervalMs)
+    // Catch up on days missed while the worker was offline, then keep rolling up
+    await runHousekeeping()
+    housekeepingTimer = setInterval(runHousekeeping, HOUSEKEEPING_INTERVAL_MS)
     
     console.log('Poller started successfully')
     
@@ -157,12 +487,18 @@ async function startPoller(): Promise<void> {
 // Handle graceful shutdown
 process.on('SIGINT', async () => {
   console.log('Received SIGINT, shutting down gracefully...')
+  scheduler.stop()
+  if (housekeepingTimer) clearInterval(housekeepingTimer)
+  closeAllRouterOSSessions()
   await prisma.$disconnect()
   process.exit(0)
 })
 
 process.on('SIGTERM', async () => {
   console.log('Received SIGTERM, shutting down gracefully...')
+  scheduler.stop()
+  if (housekeepingTimer) clearInterval(housekeepingTimer)
+  closeAllRouterOSSessions()
   await prisma.$disconnect()
   process.exit(0)
 })